@@ -0,0 +1,149 @@
+/**
+ * Bitbucket Pipelines Generator
+ * Generate bitbucket-pipelines.yml for Bitbucket Cloud
+ */
+
+export interface BitbucketPipelinesOptions {
+  environments?: Array<{ name: string; branch: string; approval?: boolean }>
+  awsRegion?: string
+  awsRole?: string // OIDC role ARN
+  image?: string
+  testCommand?: string
+  buildCommand?: string
+  preview?: { ttl?: number; baseEnvironment?: string } | false
+  scheduledEnvironments?: string[]
+}
+
+function indent(text: string, spaces: number): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `${' '.repeat(spaces)}${line}` : line))
+    .join('\n')
+}
+
+/**
+ * A step that touches AWS. With a role, the step asks Bitbucket for an OIDC
+ * token and writes it where the ts-cloud credential chain looks for a web
+ * identity token. Without one, the AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY
+ * repository variables are already in the environment.
+ */
+function awsStep(
+  name: string,
+  commands: string[],
+  options: { awsRegion: string; awsRole?: string; deployment?: string; manual?: boolean },
+): string {
+  const { awsRegion, awsRole, deployment, manual } = options
+  const script = [
+    `export AWS_REGION=${awsRegion}`,
+    ...(awsRole
+      ? [
+          `export AWS_ROLE_ARN=${awsRole}`,
+          'export AWS_WEB_IDENTITY_TOKEN_FILE=$(pwd)/web-identity-token',
+          'echo "$BITBUCKET_STEP_OIDC_TOKEN" > "$AWS_WEB_IDENTITY_TOKEN_FILE"',
+        ]
+      : []),
+    'bun install',
+    ...commands,
+  ]
+
+  const settings = [
+    `name: ${name}`,
+    ...(deployment ? [`deployment: ${deployment}`] : []),
+    ...(manual ? ['trigger: manual'] : []),
+    ...(awsRole ? ['oidc: true'] : []),
+  ]
+
+  return `- step:
+${settings.map((line) => `    ${line}`).join('\n')}
+    caches:
+      - bun
+    script:
+${script.map((line) => `      - ${line}`).join('\n')}`
+}
+
+/**
+ * Generate bitbucket-pipelines.yml: tests on every push and pull request, a
+ * deploy per environment branch (held for manual approval where requested), PR
+ * previews, and custom pipelines for Bitbucket schedules to run
+ */
+export function generateBitbucketPipelines(options: BitbucketPipelinesOptions = {}): string {
+  const {
+    environments = [{ name: 'production', branch: 'main', approval: true }],
+    awsRegion = 'us-east-1',
+    awsRole,
+    image = 'oven/bun:latest',
+    testCommand = 'bun test',
+    buildCommand = 'bun run build',
+    preview = {},
+    scheduledEnvironments = [],
+  } = options
+
+  const aws = { awsRegion, awsRole }
+  const branches = [...new Set(environments.map((env) => env.branch))]
+
+  const branchPipelines = branches.map((branch) => {
+    const deploys = environments
+      .filter((env) => env.branch === branch)
+      .map((env) =>
+        awsStep(`Deploy to ${env.name}`, [`bun run cloud deploy --env=${env.name}`], {
+          ...aws,
+          deployment: env.name,
+          manual: env.approval,
+        }),
+      )
+    return `    ${branch}:
+      - step: *test
+${indent(deploys.join('\n'), 6)}`
+  })
+
+  const custom: string[] = []
+  let previewPipeline = ''
+  if (preview) {
+    const base = `"$BITBUCKET_BRANCH" --env=${preview.baseEnvironment ?? 'production'} --pr="$BITBUCKET_PR_ID"`
+    previewPipeline = `  pull-requests:
+    '**':
+      - step: *test
+${indent(
+  awsStep(
+    'Deploy preview',
+    [
+      `bun run cloud env:preview ${base} --sha="$BITBUCKET_COMMIT" --ttl=${preview.ttl ?? 24}`,
+      `bun run cloud env:preview ${base} --get-url`,
+    ],
+    aws,
+  ),
+  6,
+)}
+`
+    // Bitbucket does not run pipelines when a pull request closes, so previews
+    // are torn down by their TTL from a scheduled cleanup instead
+    custom.push(`    preview-cleanup:
+${indent(awsStep('Remove expired previews', ['bun run cloud env:cleanup'], aws), 6)}`)
+  }
+  for (const env of scheduledEnvironments) {
+    custom.push(`    scheduled-${env}:
+${indent(awsStep(`Scheduled deploy to ${env}`, [`bun run cloud deploy --env=${env}`], aws), 6)}`)
+  }
+
+  return `image: ${image}
+
+definitions:
+  caches:
+    bun: ~/.bun/install/cache
+  steps:
+    - step: &test
+        name: Test and build
+        caches:
+          - bun
+        script:
+          - bun install
+          - ${testCommand}
+          - ${buildCommand}
+
+pipelines:
+  default:
+    - step: *test
+  branches:
+${branchPipelines.join('\n')}
+${previewPipeline}${custom.length > 0 ? `  custom:\n${custom.join('\n')}\n` : ''}`
+}
@@ -0,0 +1,148 @@
+/**
+ * Buildkite Pipeline Generator
+ * Generate .buildkite/pipeline.yml for Buildkite
+ */
+
+export interface BuildkiteOptions {
+  environments?: Array<{ name: string; branch: string; approval?: boolean }>
+  awsRegion?: string
+  awsRole?: string // OIDC role ARN
+  image?: string | false // Run steps in this container; false runs them on the agent
+  queue?: string
+  testCommand?: string
+  buildCommand?: string
+  preview?: { ttl?: number; baseEnvironment?: string } | false
+  scheduledEnvironment?: string
+}
+
+const DOCKER_PLUGIN = 'docker#v5.12.0'
+
+/** Commands as a YAML list of double-quoted strings. */
+function commandList(commands: string[]): string {
+  return commands.map((command) => `      - ${JSON.stringify(command)}`).join('\n')
+}
+
+/**
+ * With a role, the step requests an OIDC token from the agent and writes it
+ * where the ts-cloud credential chain looks for a web identity token. The
+ * agent binary is mounted into the container for that. Without a role,
+ * AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY come from the agent environment.
+ * Buildkite interpolates `$VAR` when the pipeline is uploaded; `$$VAR` is left for
+ * the shell.
+ */
+function awsCommands(awsRole: string | undefined, commands: string[]): string[] {
+  return [
+    ...(awsRole
+      ? [
+          `export AWS_ROLE_ARN=${awsRole}`,
+          'export AWS_WEB_IDENTITY_TOKEN_FILE="$$PWD/web-identity-token"',
+          'buildkite-agent oidc request-token --audience sts.amazonaws.com > "$$AWS_WEB_IDENTITY_TOKEN_FILE"',
+        ]
+      : []),
+    'bun install',
+    ...commands,
+  ]
+}
+
+function stepPlugins(image: string | false, queue: string | undefined): string {
+  return `${
+    image
+      ? `    plugins:
+      - ${DOCKER_PLUGIN}:
+          image: ${image}
+          propagate-environment: true
+          mount-buildkite-agent: true
+`
+      : ''
+  }${queue ? `    agents:\n      queue: ${queue}\n` : ''}`
+}
+
+/**
+ * Generate a Buildkite pipeline: tests, PR previews, a deploy per environment
+ * branch behind a block step where approval is required, and preview cleanup
+ * plus an optional deploy on scheduled builds
+ */
+export function generateBuildkitePipeline(options: BuildkiteOptions = {}): string {
+  const {
+    environments = [{ name: 'production', branch: 'main', approval: true }],
+    awsRegion = 'us-east-1',
+    awsRole,
+    image = 'oven/bun:latest',
+    queue,
+    testCommand = 'bun test',
+    buildCommand = 'bun run build',
+    preview = {},
+    scheduledEnvironment,
+  } = options
+
+  const plugins = stepPlugins(image, queue)
+  const pushed = 'build.pull_request.id == null && build.source != "schedule"'
+
+  const deploys = environments.map((env) => {
+    const condition = `build.branch == "${env.branch}" && ${pushed}`
+    const gate = env.approval
+      ? `  - block: ":rocket: Deploy to ${env.name}?"
+    key: approve-${env.name}
+    if: ${JSON.stringify(condition)}
+    depends_on: test
+
+`
+      : ''
+    return `${gate}  - label: ":rocket: Deploy to ${env.name}"
+    key: deploy-${env.name}
+    if: ${JSON.stringify(condition)}
+    depends_on: ${env.approval ? `approve-${env.name}` : 'test'}
+    concurrency: 1
+    concurrency_group: "$BUILDKITE_PIPELINE_SLUG/deploy/${env.name}"
+${plugins}    command:
+${commandList(awsCommands(awsRole, [`bun run cloud deploy --env=${env.name}`]))}
+`
+  })
+
+  let previewSteps = ''
+  if (preview) {
+    const base = `"$$BUILDKITE_BRANCH" --env=${preview.baseEnvironment ?? 'production'} --pr="$$BUILDKITE_PULL_REQUEST"`
+    previewSteps = `  - label: ":mag: Deploy preview"
+    key: preview
+    if: build.pull_request.id != null
+    depends_on: test
+${plugins}    command:
+${commandList(
+  awsCommands(awsRole, [
+    `bun run cloud env:preview ${base} --sha="$$BUILDKITE_COMMIT" --ttl=${preview.ttl ?? 24}`,
+    `bun run cloud env:preview ${base} --get-url | tee preview-url.txt`,
+  ]),
+)}
+      - "buildkite-agent annotate --style info --context preview < preview-url.txt"
+
+  # Buildkite does not build when a pull request closes, so previews are torn
+  # down by their TTL from a scheduled build
+  - label: ":broom: Remove expired previews"
+    if: build.source == "schedule"
+${plugins}    command:
+${commandList(awsCommands(awsRole, ['bun run cloud env:cleanup']))}
+`
+  }
+
+  const scheduledStep = scheduledEnvironment
+    ? `  - label: ":alarm_clock: Scheduled deploy to ${scheduledEnvironment}"
+    if: build.source == "schedule"
+    depends_on: test
+    concurrency: 1
+    concurrency_group: "$BUILDKITE_PIPELINE_SLUG/deploy/${scheduledEnvironment}"
+${plugins}    command:
+${commandList(awsCommands(awsRole, [`bun run cloud deploy --env=${scheduledEnvironment}`]))}
+`
+    : ''
+
+  return `env:
+  AWS_REGION: ${awsRegion}
+
+steps:
+  - label: ":test_tube: Test and build"
+    key: test
+${plugins}    command:
+${commandList(['bun install', testCommand, buildCommand])}
+
+${[...deploys, previewSteps, scheduledStep].filter(Boolean).join('\n')}`
+}
@@ -0,0 +1,328 @@
+/**
+ * Forgejo / Gitea Actions Workflow Generator
+ * Generate CI/CD workflows for Forgejo and Gitea Actions
+ */
+
+export interface ForgejoActionsOptions {
+  workflowName?: string
+  environments?: Array<{ name: string; branch: string }>
+  awsRegion?: string
+  awsRole?: string // OIDC role ARN
+  runsOn?: string // Runner label
+  bunVersion?: string
+  testCommand?: string
+  buildCommand?: string
+}
+
+/**
+ * Forgejo's default actions mirror does not carry every action, so actions are
+ * referenced by full URL, which both Forgejo and Gitea resolve.
+ */
+const ACTIONS = {
+  checkout: 'https://github.com/actions/checkout@v4',
+  setupBun: 'https://github.com/oven-sh/setup-bun@v2',
+  awsCredentials: 'https://github.com/aws-actions/configure-aws-credentials@v4',
+}
+
+function setupSteps(bunVersion: string): string {
+  return `      - name: Checkout code
+        uses: ${ACTIONS.checkout}
+
+      - name: Setup Bun
+        uses: ${ACTIONS.setupBun}
+        with:
+          bun-version: ${bunVersion}
+
+      - name: Install dependencies
+        run: bun install`
+}
+
+/**
+ * Runners that issue ID tokens expose them the same way GitHub does, so the
+ * AWS action can assume the role directly. Without a role, repository secrets
+ * are used instead.
+ */
+function credentialsStep(awsRole: string | undefined): string {
+  return awsRole
+    ? `      - name: Configure AWS credentials (OIDC)
+        uses: ${ACTIONS.awsCredentials}
+        with:
+          role-to-assume: ${awsRole}
+          aws-region: \${{ env.AWS_REGION }}`
+    : `      - name: Configure AWS credentials
+        uses: ${ACTIONS.awsCredentials}
+        with:
+          aws-access-key-id: \${{ secrets.AWS_ACCESS_KEY_ID }}
+          aws-secret-access-key: \${{ secrets.AWS_SECRET_ACCESS_KEY }}
+          aws-region: \${{ env.AWS_REGION }}`
+}
+
+/**
+ * Generate a push-to-deploy workflow: tests, then one deploy job per
+ * environment, run when its branch is pushed
+ */
+export function generateForgejoDeploymentWorkflow(options: ForgejoActionsOptions = {}): string {
+  const {
+    workflowName = 'Deploy',
+    environments = [{ name: 'production', branch: 'main' }],
+    awsRegion = 'us-east-1',
+    awsRole,
+    runsOn = 'ubuntu-latest',
+    bunVersion = 'latest',
+    testCommand = 'bun test',
+    buildCommand = 'bun run build',
+  } = options
+
+  const branches = [...new Set(environments.map((env) => env.branch))]
+
+  return `name: ${workflowName}
+
+on:
+  push:
+    branches:
+${branches.map((b) => `      - ${b}`).join('\n')}
+
+env:
+  AWS_REGION: ${awsRegion}
+
+jobs:
+  test:
+    runs-on: ${runsOn}
+    steps:
+${setupSteps(bunVersion)}
+
+      - name: Run tests
+        run: ${testCommand}
+
+      - name: Build
+        run: ${buildCommand}
+${environments
+  .map(
+    (env) => `
+  deploy-${env.name}:
+    needs: test
+    if: github.ref == 'refs/heads/${env.branch}'
+    runs-on: ${runsOn}
+    concurrency: deploy-${env.name}
+    permissions:
+      id-token: write
+      contents: read
+
+    steps:
+${setupSteps(bunVersion)}
+
+${credentialsStep(awsRole)}
+
+      - name: Deploy
+        run: bun run cloud deploy --env=${env.name}
+`,
+  )
+  .join('')}`
+}
+
+/**
+ * Generate a confirmed promotion workflow. Forgejo and Gitea have no
+ * protected environments, so this is a confirmation, not an approval: the
+ * person with write access who dispatches it types the environment name
+ * again, and nobody else signs off.
+ */
+export function generateForgejoPromotionWorkflow(
+  options: Omit<ForgejoActionsOptions, 'environments'> & { environments: string[] },
+): string {
+  const {
+    environments,
+    awsRegion = 'us-east-1',
+    awsRole,
+    runsOn = 'ubuntu-latest',
+    bunVersion = 'latest',
+    testCommand = 'bun test',
+  } = options
+
+  return `name: Promote
+
+on:
+  workflow_dispatch:
+    inputs:
+      environment:
+        description: 'Environment to deploy (${environments.join(', ')})'
+        required: true
+        default: ${environments[0]}
+      confirm:
+        description: 'Type the environment name again to confirm the deployment'
+        required: true
+
+env:
+  AWS_REGION: ${awsRegion}
+
+jobs:
+  confirm:
+    runs-on: ${runsOn}
+    steps:
+      - name: Check confirmation
+        env:
+          ENVIRONMENT: \${{ inputs.environment }}
+          CONFIRM: \${{ inputs.confirm }}
+          ACTOR: \${{ github.actor }}
+        run: |
+          case "$ENVIRONMENT" in
+            ${environments.join('|')}) ;;
+            *) echo "Unknown environment $ENVIRONMENT"; exit 1 ;;
+          esac
+          if [ "$CONFIRM" != "$ENVIRONMENT" ]; then
+            echo "Confirmation does not match the environment name"
+            exit 1
+          fi
+          echo "Confirmed by $ACTOR"
+
+  deploy:
+    needs: confirm
+    runs-on: ${runsOn}
+    concurrency: deploy-\${{ inputs.environment }}
+    permissions:
+      id-token: write
+      contents: read
+
+    steps:
+${setupSteps(bunVersion)}
+
+      - name: Run tests
+        run: ${testCommand}
+
+${credentialsStep(awsRole)}
+
+      - name: Deploy
+        env:
+          ENVIRONMENT: \${{ inputs.environment }}
+        run: bun run cloud deploy --env="$ENVIRONMENT"
+`
+}
+
+/**
+ * Generate PR preview workflow
+ */
+export function generateForgejoPreviewWorkflow(
+  options: ForgejoActionsOptions & { ttl?: number; baseEnvironment?: string } = {},
+): string {
+  const {
+    awsRegion = 'us-east-1',
+    awsRole,
+    runsOn = 'ubuntu-latest',
+    bunVersion = 'latest',
+    ttl = 24,
+    baseEnvironment = 'production',
+  } = options
+
+  return `name: PR Preview Environment
+
+on:
+  pull_request:
+    types: [opened, synchronize, reopened, closed]
+
+env:
+  AWS_REGION: ${awsRegion}
+  TTL_HOURS: ${ttl}
+
+jobs:
+  preview:
+    if: github.event.action != 'closed'
+    runs-on: ${runsOn}
+    permissions:
+      id-token: write
+      contents: read
+      pull-requests: write
+
+    steps:
+${setupSteps(bunVersion)}
+
+${credentialsStep(awsRole)}
+
+      - name: Deploy preview environment
+        id: deploy
+        env:
+          BRANCH: \${{ github.head_ref }}
+          PR: \${{ github.event.pull_request.number }}
+          SHA: \${{ github.event.pull_request.head.sha }}
+        run: |
+          bun run cloud env:preview "$BRANCH" --env=${baseEnvironment} --pr="$PR" --sha="$SHA" --ttl="$TTL_HOURS"
+
+          PREVIEW_URL=\$(bun run cloud env:preview "$BRANCH" --env=${baseEnvironment} --pr="$PR" --get-url \\
+            | grep -o 'https://[^ ]*' | tail -n 1)
+          echo "preview_url=\$PREVIEW_URL" >> $GITHUB_OUTPUT
+
+      - name: Comment PR with preview URL
+        if: steps.deploy.outputs.preview_url
+        continue-on-error: true
+        env:
+          API_URL: \${{ github.api_url }}/repos/\${{ github.repository }}
+          PR: \${{ github.event.pull_request.number }}
+        run: |
+          printf '{"body":"Preview environment deployed: %s (expires in %s hours)"}' \\
+            "\${{ steps.deploy.outputs.preview_url }}" "\${{ env.TTL_HOURS }}" > comment.json
+          curl -fsS -X POST \\
+            -H "Authorization: token \${{ secrets.GITHUB_TOKEN }}" \\
+            -H 'Content-Type: application/json' \\
+            --data @comment.json \\
+            "$API_URL/issues/$PR/comments"
+
+  cleanup:
+    if: github.event.action == 'closed'
+    runs-on: ${runsOn}
+    permissions:
+      id-token: write
+      contents: read
+
+    steps:
+${setupSteps(bunVersion)}
+
+${credentialsStep(awsRole)}
+
+      - name: Destroy preview environment
+        env:
+          BRANCH: \${{ github.head_ref }}
+          PR: \${{ github.event.pull_request.number }}
+        run: bun run cloud env:preview "$BRANCH" --env=${baseEnvironment} --pr="$PR" --destroy --yes
+`
+}
+
+/**
+ * Generate scheduled deployment workflow
+ */
+export function generateForgejoScheduledWorkflow(
+  options: ForgejoActionsOptions & { schedule: string; environment: string },
+): string {
+  const {
+    schedule,
+    environment,
+    awsRegion = 'us-east-1',
+    awsRole,
+    runsOn = 'ubuntu-latest',
+    bunVersion = 'latest',
+  } = options
+
+  return `name: Scheduled Deployment
+
+on:
+  schedule:
+    - cron: '${schedule}'
+  workflow_dispatch:
+
+env:
+  AWS_REGION: ${awsRegion}
+
+jobs:
+  deploy:
+    runs-on: ${runsOn}
+    concurrency: deploy-${environment}
+    permissions:
+      id-token: write
+      contents: read
+
+    steps:
+${setupSteps(bunVersion)}
+
+${credentialsStep(awsRole)}
+
+      - name: Deploy
+        run: bun run cloud deploy --env=${environment}
+`
+}
@@ -6,3 +6,7 @@
 export * from './github-actions'
 export * from './gitlab-ci'
 export * from './circleci'
+export * from './forgejo-actions'
+export * from './bitbucket-pipelines'
+export * from './buildkite'
+export * from './pipeline'
@@ -0,0 +1,133 @@
+/**
+ * CI Pipeline Selection
+ * Generate the pipeline files for a project's CI system from its config
+ */
+
+import type { CIProvider, CloudConfig } from '../types'
+import { generateBitbucketPipelines } from './bitbucket-pipelines'
+import { generateBuildkitePipeline } from './buildkite'
+import { generateMultiEnvConfig } from './circleci'
+import {
+  generateForgejoDeploymentWorkflow,
+  generateForgejoPreviewWorkflow,
+  generateForgejoPromotionWorkflow,
+} from './forgejo-actions'
+import { generateMultiEnvWorkflow, generatePRPreviewWorkflow } from './github-actions'
+import { generateMultiEnvPipeline } from './gitlab-ci'
+
+export const CI_PROVIDERS: CIProvider[] = ['github', 'gitlab', 'circleci', 'forgejo', 'gitea', 'bitbucket', 'buildkite']
+
+export interface CIPipelineEnvironment {
+  name: string
+  branch: string
+  approval: boolean
+}
+
+export interface CIPipelineFile {
+  /** Path relative to the repository root */
+  path: string
+  content: string
+}
+
+/**
+ * Environments in deploy order, each with the branch it deploys from and
+ * whether it waits for approval. A project without environments deploys
+ * production from main.
+ */
+export function ciPipelineEnvironments(config: CloudConfig): CIPipelineEnvironment[] {
+  const approvals = config.ci?.approvals
+  const configured = Object.entries(config.environments ?? {})
+  if (configured.length === 0)
+    return [{ name: 'production', branch: 'main', approval: approvals ? approvals.includes('production') : true }]
+  return configured.map(([name, env]) => ({
+    name,
+    branch: env.deployBranch ?? (env.type === 'production' ? 'main' : name),
+    approval: approvals ? approvals.includes(name) : env.type === 'production',
+  }))
+}
+
+/**
+ * Generate the pipeline files for `provider`
+ */
+export function generateCIPipeline(config: CloudConfig, provider: CIProvider): CIPipelineFile[] {
+  const environments = ciPipelineEnvironments(config)
+  const awsRegion = config.project.region || 'us-east-1'
+  const awsRole = config.ci?.awsRole
+  const preview = config.ci?.previews === false ? false : (config.ci?.previews ?? {})
+
+  switch (provider) {
+    case 'github':
+      return [
+        {
+          path: '.github/workflows/deploy.yml',
+          content: generateMultiEnvWorkflow({ environments, awsRegion, awsRole }),
+        },
+        ...(preview
+          ? [
+              {
+                path: '.github/workflows/preview.yml',
+                content: generatePRPreviewWorkflow({ awsRegion, awsRole, ttl: preview.ttl }),
+              },
+            ]
+          : []),
+      ]
+    case 'gitlab':
+      return [
+        {
+          path: '.gitlab-ci.yml',
+          content: generateMultiEnvPipeline({
+            environments: environments.map((env) => ({ ...env, manual: env.approval })),
+            awsRegion,
+          }),
+        },
+      ]
+    case 'circleci':
+      return [{ path: '.circleci/config.yml', content: generateMultiEnvConfig({ environments, awsRegion }) }]
+    case 'forgejo':
+    case 'gitea': {
+      const dir = `.${provider}/workflows`
+      const automatic = environments.filter((env) => !env.approval)
+      const gated = environments.filter((env) => env.approval).map((env) => env.name)
+      return [
+        ...(automatic.length > 0
+          ? [
+              {
+                path: `${dir}/deploy.yml`,
+                content: generateForgejoDeploymentWorkflow({ environments: automatic, awsRegion, awsRole }),
+              },
+            ]
+          : []),
+        ...(gated.length > 0
+          ? [
+              {
+                path: `${dir}/promote.yml`,
+                content: generateForgejoPromotionWorkflow({ environments: gated, awsRegion, awsRole }),
+              },
+            ]
+          : []),
+        ...(preview
+          ? [
+              {
+                path: `${dir}/preview.yml`,
+                content: generateForgejoPreviewWorkflow({ ...preview, awsRegion, awsRole }),
+              },
+            ]
+          : []),
+      ]
+    }
+    case 'bitbucket':
+      return [
+        {
+          path: 'bitbucket-pipelines.yml',
+          content: generateBitbucketPipelines({ environments, awsRegion, awsRole, preview }),
+        },
+      ]
+    case 'buildkite':
+      return [
+        {
+          path: '.buildkite/pipeline.yml',
+          content: generateBuildkitePipeline({ environments, awsRegion, awsRole, preview }),
+        },
+      ]
+  }
+}
@@ -6,6 +6,20 @@ export interface ResourceNode {
   dependencies: Set<string>
 }
 
+/**
+ * Logical IDs a `Fn::Sub` string references, e.g. `Bucket` for `${Bucket}` or
+ * `${Bucket.Arn}`. Pseudo parameters and `${!Literal}` escapes are skipped.
+ */
+export function substitutionReferences(text: string): string[] {
+  const names = new Set<string>()
+  for (const match of text.matchAll(/\$\{([^}]+)\}/g)) {
+    const name = match[1].trim()
+    if (name.startsWith('!') || name.startsWith('AWS::')) continue
+    names.add(name.split('.')[0])
+  }
+  return [...names]
+}
+
 /**
  * Dependency Graph for CloudFormation resources
  * Ensures resources are created in the correct order
@@ -60,8 +74,20 @@ export class DependencyGraph {
       }
     }
 
-    if ('Fn::GetAtt' in obj && Array.isArray(obj['Fn::GetAtt'])) {
-      dependencies.add(obj['Fn::GetAtt'][0])
+    if ('Fn::GetAtt' in obj) {
+      const getAtt = obj['Fn::GetAtt']
+      if (Array.isArray(getAtt)) dependencies.add(getAtt[0])
+      else if (typeof getAtt === 'string') dependencies.add(getAtt.split('.')[0])
+    }
+
+    if ('Fn::Sub' in obj) {
+      const sub = obj['Fn::Sub']
+      const [text, variables] = Array.isArray(sub) ? sub : [sub, {}]
+      if (typeof text === 'string') {
+        for (const name of substitutionReferences(text)) {
+          if (!Object.hasOwn(variables ?? {}, name)) dependencies.add(name)
+        }
+      }
     }
 
     // Recursively search
@@ -121,6 +147,13 @@ export class DependencyGraph {
     }
   }
 
+  /**
+   * Get the resources and parameters a given resource references
+   */
+  getDependencies(logicalId: string): string[] {
+    return [...(this.nodes.get(logicalId)?.dependencies ?? [])]
+  }
+
   /**
    * Get resources that depend on a given resource
    */
@@ -1,6 +1,6 @@
 import type { CloudConfig, EnvironmentType, SiteConfig } from '../types'
 
-export type CloudProviderName = 'aws' | 'hetzner'
+export type CloudProviderName = 'aws' | 'hetzner' | 'digitalocean'
 
 /**
  * Exhaustive provider map. Provider-specific contract tests key off this type,
@@ -102,7 +102,8 @@ export interface RunRemoteDeployOptions {
 
 /**
  * Cloud infrastructure driver — abstracts compute provisioning and Forge-style
- * app deploys across providers (AWS EC2+SSM+S3, Hetzner Cloud+SSH, etc.).
+ * app deploys across providers (AWS EC2+SSM+S3, Hetzner Cloud+SSH, DigitalOcean
+ * droplets+SSH, etc.).
  *
  * DNS remains provider-agnostic via the separate `DnsProvider` abstraction.
  */
@@ -197,5 +198,6 @@ export interface DeploySiteReleaseResult {
 export function resolveCloudProvider(config: CloudConfig): CloudProviderName {
   if (config.cloud?.provider) return config.cloud.provider
   if (config.hetzner?.apiToken) return 'hetzner'
+  if (config.digitalocean?.apiToken) return 'digitalocean'
   return 'aws'
 }
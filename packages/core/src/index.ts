@@ -40,6 +40,8 @@ export * from './resource-naming'
 export * from './stack-naming'
 export * from './dependency-graph'
 export * from './stack-diff'
+export * from './stack-split'
+export * from './policy'
 // modules re-exports many things including Cache (ElastiCache module)
 // We prefer this Cache over utils/cache, so export all from modules
 // But modules also exports: PolicyStatement, LifecycleRule, MetricTransformation
@@ -0,0 +1,226 @@
+/**
+ * Policy-as-code
+ * Evaluates organisational rules against a generated CloudFormation template and the config it came from
+ */
+import type { CloudConfig } from '../types'
+import { AWS_FOUNDATIONAL_POLICY_RULES, requiredTagsRule } from './rules'
+
+export type PolicySeverity = 'info' | 'low' | 'medium' | 'high' | 'critical'
+
+export interface PolicyTemplate {
+  Resources?: Record<string, { Type: string; Properties?: Record<string, any>; [key: string]: any }>
+  [key: string]: any
+}
+
+export interface PolicyContext {
+  config: CloudConfig
+  /** Environment name, e.g. `production` */
+  environment: string
+  production: boolean
+  /** The generated template; resource rules are skipped without one. */
+  template?: PolicyTemplate
+}
+
+export interface PolicyResource {
+  logicalId: string
+  type: string
+  properties: Record<string, any>
+}
+
+/** A rule reports a violation as a message, or several as an array. Nothing means the check passed. */
+export type PolicyCheckResult = string | string[] | undefined | void
+
+export interface PolicyViolation {
+  /** Logical ID, or a config path such as `infrastructure.databases.orders` */
+  subject: string
+  message: string
+}
+
+interface PolicyRuleBase {
+  id: string
+  title: string
+  description: string
+  severity: PolicySeverity
+  /** Benchmark controls the rule implements, e.g. `AWS FSBP S3.2` or `CIS 2.1.5` */
+  controls?: string[]
+  remediation?: string
+  /** Only evaluate in production environments */
+  productionOnly?: boolean
+}
+
+/** Runs once per template resource of the listed types; `*` matches every resource. */
+export interface ResourcePolicyRule extends PolicyRuleBase {
+  resourceTypes: string[]
+  check: (resource: PolicyResource, context: PolicyContext) => PolicyCheckResult
+}
+
+/** Runs once against the config. */
+export interface ConfigPolicyRule extends PolicyRuleBase {
+  resourceTypes?: undefined
+  check: (context: PolicyContext) => PolicyViolation[]
+}
+
+export type PolicyRule = ResourcePolicyRule | ConfigPolicyRule
+
+/**
+ * Waives a rule, for one subject or all of them, until it expires
+ */
+export interface PolicyWaiver {
+  rule: string
+  /** Logical ID or config path; omit to waive every subject */
+  subject?: string
+  /** Environments the waiver applies to; omit for all */
+  environments?: string[]
+  reason: string
+  /** ISO date; an expired waiver no longer applies */
+  expiresAt: string
+}
+
+export type PolicySeverityOverride = PolicySeverity | 'off'
+
+export interface PolicyConfig {
+  /**
+   * Run the built-in rule pack mapped to AWS Foundational Security Best Practices and CIS controls
+   * @default true
+   */
+  builtIn?: boolean
+  /** Additional rules, usually written with `definePolicyRule` */
+  rules?: PolicyRule[]
+  /** Severity per rule ID; `off` disables the rule */
+  severity?: Record<string, PolicySeverityOverride>
+  /** Severity per rule ID for one environment, on top of `severity` */
+  environments?: Record<string, { severity?: Record<string, PolicySeverityOverride> }>
+  /** Tags every taggable resource must carry, e.g. `['cost-center']` */
+  requiredTags?: string[]
+  waivers?: PolicyWaiver[]
+}
+
+export interface PolicyFinding {
+  ruleId: string
+  title: string
+  description: string
+  severity: PolicySeverity
+  controls: string[]
+  remediation?: string
+  subject: string
+  message: string
+  /** The waiver that applies, for waived findings */
+  waiver?: PolicyWaiver
+}
+
+export interface PolicyEvaluation {
+  environment: string
+  /** Findings no waiver covers */
+  findings: PolicyFinding[]
+  waived: PolicyFinding[]
+  /** Rules that threw instead of returning a result, and waivers with an unreadable expiry */
+  errors: Array<{ ruleId: string; message: string }>
+  expiredWaivers: PolicyWaiver[]
+  rulesEvaluated: number
+}
+
+/**
+ * Identity helper that types a rule, for use in cloud.config.ts
+ */
+export function definePolicyRule<T extends PolicyRule>(rule: T): T {
+  return rule
+}
+
+function messages(result: PolicyCheckResult): string[] {
+  if (!result) return []
+  return Array.isArray(result) ? result.filter(Boolean) : [result]
+}
+
+function severityFor(rule: PolicyRule, policy: PolicyConfig, environment: string): PolicySeverityOverride {
+  return policy.environments?.[environment]?.severity?.[rule.id] ?? policy.severity?.[rule.id] ?? rule.severity
+}
+
+function findWaiver(
+  waivers: PolicyWaiver[],
+  finding: { ruleId: string; subject: string },
+  environment: string,
+): PolicyWaiver | undefined {
+  return waivers.find(
+    (waiver) =>
+      waiver.rule === finding.ruleId &&
+      (!waiver.subject || waiver.subject === finding.subject) &&
+      (!waiver.environments || waiver.environments.includes(environment)),
+  )
+}
+
+/**
+ * Evaluate policy rules against a config and its generated template
+ */
+export function evaluatePolicies(
+  context: PolicyContext,
+  policy: PolicyConfig = {},
+  options: { now?: Date } = {},
+): PolicyEvaluation {
+  const now = (options.now ?? new Date()).getTime()
+  const errors: PolicyEvaluation['errors'] = []
+  const waivers: PolicyWaiver[] = []
+  const expiredWaivers: PolicyWaiver[] = []
+  for (const waiver of policy.waivers ?? []) {
+    // A waiver whose expiry cannot be read is a config mistake: it waives
+    // nothing, and the evaluation says so instead of throwing.
+    const expiresAt = Date.parse(waiver.expiresAt)
+    if (Number.isNaN(expiresAt))
+      errors.push({ ruleId: waiver.rule, message: `Waiver expiresAt ${JSON.stringify(waiver.expiresAt)} is not a date` })
+    else (expiresAt > now ? waivers : expiredWaivers).push(waiver)
+  }
+  const rules: PolicyRule[] = [
+    ...(policy.builtIn === false ? [] : AWS_FOUNDATIONAL_POLICY_RULES),
+    ...(policy.requiredTags?.length ? [requiredTagsRule(policy.requiredTags)] : []),
+    ...(policy.rules ?? []),
+  ]
+  const resources = Object.entries(context.template?.Resources ?? {}).map(
+    ([logicalId, resource]): PolicyResource => ({
+      logicalId,
+      type: resource.Type,
+      properties: resource.Properties ?? {},
+    }),
+  )
+
+  const findings: PolicyFinding[] = []
+  const waived: PolicyFinding[] = []
+  let rulesEvaluated = 0
+
+  for (const rule of rules) {
+    const severity = severityFor(rule, policy, context.environment)
+    if (severity === 'off' || (rule.productionOnly && !context.production)) continue
+    if (rule.resourceTypes && !context.template) continue
+    rulesEvaluated++
+
+    let violations: PolicyViolation[]
+    try {
+      violations = rule.resourceTypes
+        ? resources
+            .filter((resource) => rule.resourceTypes!.some((type) => type === '*' || type === resource.type))
+            .flatMap((resource) =>
+              messages(rule.check(resource, context)).map((message) => ({ subject: resource.logicalId, message })),
+            )
+        : rule.check(context)
+    } catch (error) {
+      errors.push({ ruleId: rule.id, message: error instanceof Error ? error.message : String(error) })
+      continue
+    }
+
+    for (const violation of violations) {
+      const finding: PolicyFinding = {
+        ruleId: rule.id,
+        title: rule.title,
+        description: rule.description,
+        severity,
+        controls: rule.controls ?? [],
+        remediation: rule.remediation,
+        subject: violation.subject,
+        message: violation.message,
+      }
+      const waiver = findWaiver(waivers, finding, context.environment)
+      if (waiver) waived.push({ ...finding, waiver })
+      else findings.push(finding)
+    }
+  }
+
+  return { environment: context.environment, findings, waived, errors, expiredWaivers, rulesEvaluated }
+}
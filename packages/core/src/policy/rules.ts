@@ -0,0 +1,272 @@
+/**
+ * Built-in policy rules
+ * Mapped to AWS Foundational Security Best Practices (FSBP) and CIS AWS Foundations Benchmark v1.4.0 controls
+ */
+import type { PolicyResource, PolicyTemplate, ResourcePolicyRule } from './engine'
+
+/** Resource types that take a `Tags` list of `{ Key, Value }` pairs */
+export const TAGGABLE_RESOURCE_TYPES: string[] = [
+  'AWS::CloudFront::Distribution',
+  'AWS::DynamoDB::Table',
+  'AWS::EC2::Instance',
+  'AWS::EC2::SecurityGroup',
+  'AWS::EC2::Subnet',
+  'AWS::EC2::VPC',
+  'AWS::ECS::Cluster',
+  'AWS::ECS::Service',
+  'AWS::ElastiCache::ReplicationGroup',
+  'AWS::ElasticLoadBalancingV2::LoadBalancer',
+  'AWS::KMS::Key',
+  'AWS::Lambda::Function',
+  'AWS::Logs::LogGroup',
+  'AWS::RDS::DBCluster',
+  'AWS::RDS::DBInstance',
+  'AWS::S3::Bucket',
+  'AWS::SNS::Topic',
+  'AWS::SQS::Queue',
+  'AWS::SecretsManager::Secret',
+]
+
+const ADMIN_PORTS: Record<number, string> = { 22: 'SSH', 3389: 'RDP' }
+
+function isTrue(value: unknown): boolean {
+  return value === true || value === 'true'
+}
+
+function refersTo(value: unknown, logicalId: string): boolean {
+  if (!value || typeof value !== 'object') return false
+  const ref = (value as any).Ref ?? (value as any)['Fn::GetAtt']
+  return ref === logicalId || (Array.isArray(ref) && ref[0] === logicalId)
+}
+
+function publicStatements(document: any): any[] {
+  return [document?.Statement ?? []].flat().filter((statement: any) => {
+    if (statement?.Effect !== 'Allow' || statement.Condition) return false
+    const principal = statement.Principal
+    return principal === '*' || [principal?.AWS].flat().includes('*')
+  })
+}
+
+function bucketPolicies(template: PolicyTemplate | undefined, bucket: PolicyResource): any[] {
+  return Object.values(template?.Resources ?? {})
+    .filter((resource) => resource.Type === 'AWS::S3::BucketPolicy')
+    .map((resource) => resource.Properties ?? {})
+    .filter(
+      (properties) =>
+        refersTo(properties.Bucket, bucket.logicalId) ||
+        (bucket.properties.BucketName && properties.Bucket === bucket.properties.BucketName),
+    )
+}
+
+function openToWorld(rule: any): boolean {
+  return rule?.CidrIp === '0.0.0.0/0' || rule?.CidrIpv6 === '::/0'
+}
+
+function exposedAdminPorts(rule: any): string[] {
+  if (!openToWorld(rule)) return []
+  const allPorts = String(rule.IpProtocol) === '-1'
+  const from = Number(rule.FromPort)
+  const to = Number(rule.ToPort ?? rule.FromPort)
+  return Object.entries(ADMIN_PORTS)
+    .filter(([port]) => allPorts || (Number(port) >= from && Number(port) <= to))
+    .map(([port, name]) => `${name} (${port})`)
+}
+
+function tagKeys(tags: unknown): string[] {
+  if (Array.isArray(tags)) return tags.map((tag) => String(tag?.Key))
+  return tags && typeof tags === 'object' ? Object.keys(tags) : []
+}
+
+/**
+ * Rule requiring tags on every taggable resource; added by `requiredTags` in the policy config
+ */
+export function requiredTagsRule(keys: string[]): ResourcePolicyRule {
+  return {
+    id: 'required-tags',
+    title: 'Resources carry the required tags',
+    description: `Every taggable resource must be tagged with ${keys.join(', ')}.`,
+    severity: 'medium',
+    remediation: 'Add the tags to the project `tags` in cloud.config.ts, which apply to every taggable resource.',
+    resourceTypes: ['*'],
+    check: (resource) => {
+      if (!TAGGABLE_RESOURCE_TYPES.includes(resource.type) && !Array.isArray(resource.properties.Tags)) return
+      const present = tagKeys(resource.properties.Tags)
+      const missing = keys.filter((key) => !present.includes(key))
+      if (missing.length)
+        return `${resource.logicalId} is missing ${missing.length === 1 ? 'tag' : 'tags'} ${missing.join(', ')}`
+    },
+  }
+}
+
+export const AWS_FOUNDATIONAL_POLICY_RULES: ResourcePolicyRule[] = [
+  {
+    id: 's3-public-access',
+    title: 'S3 buckets are not public',
+    description: 'S3 buckets must not grant public read or write access through an ACL or bucket policy.',
+    severity: 'high',
+    controls: ['AWS FSBP S3.2', 'AWS FSBP S3.3', 'CIS 2.1.5'],
+    remediation: 'Serve public content through CloudFront with origin access control instead of a public bucket.',
+    resourceTypes: ['AWS::S3::Bucket'],
+    check: (resource, context) => {
+      const acl = String(resource.properties.AccessControl ?? '')
+      if (['PublicRead', 'PublicReadWrite', 'AuthenticatedRead'].includes(acl))
+        return `${resource.logicalId} has the ${acl} ACL`
+      if (bucketPolicies(context.template, resource).some((policy) => publicStatements(policy.PolicyDocument).length))
+        return `${resource.logicalId} has a bucket policy that allows any principal`
+    },
+  },
+  {
+    id: 's3-encryption',
+    title: 'S3 buckets are encrypted at rest',
+    description: 'S3 buckets must declare default server-side encryption.',
+    severity: 'medium',
+    controls: ['AWS FSBP S3.4', 'CIS 2.1.1'],
+    remediation: 'Set `encryption: true` on the storage entry.',
+    resourceTypes: ['AWS::S3::Bucket'],
+    check: (resource) => {
+      if (!resource.properties.BucketEncryption) return `${resource.logicalId} has no default encryption`
+    },
+  },
+  {
+    id: 's3-versioning',
+    title: 'Production S3 buckets are versioned',
+    description: 'Versioning lets a production bucket recover overwritten or deleted objects.',
+    severity: 'low',
+    controls: ['AWS FSBP S3.14'],
+    remediation: 'Set `versioning: true` on the storage entry.',
+    productionOnly: true,
+    resourceTypes: ['AWS::S3::Bucket'],
+    check: (resource) => {
+      if (resource.properties.VersioningConfiguration?.Status !== 'Enabled')
+        return `${resource.logicalId} does not have versioning enabled`
+    },
+  },
+  {
+    id: 'rds-encryption',
+    title: 'RDS storage is encrypted',
+    description: 'RDS instances and clusters must encrypt their storage at rest.',
+    severity: 'high',
+    controls: ['AWS FSBP RDS.3', 'CIS 2.3.1'],
+    remediation: 'Enable storage encryption. An existing instance is encrypted by restoring an encrypted snapshot.',
+    resourceTypes: ['AWS::RDS::DBInstance', 'AWS::RDS::DBCluster'],
+    check: (resource) => {
+      // Aurora instances inherit encryption from their cluster.
+      if (resource.type === 'AWS::RDS::DBInstance' && resource.properties.DBClusterIdentifier) return
+      if (!isTrue(resource.properties.StorageEncrypted)) return `${resource.logicalId} does not encrypt its storage`
+    },
+  },
+  {
+    id: 'rds-multi-az',
+    title: 'Production RDS instances are Multi-AZ',
+    description: 'A production database must fail over to a standby in another Availability Zone.',
+    severity: 'medium',
+    controls: ['AWS FSBP RDS.5'],
+    remediation: 'Set `multiAZ: true` on the database entry.',
+    productionOnly: true,
+    resourceTypes: ['AWS::RDS::DBInstance'],
+    check: (resource) => {
+      if (resource.properties.DBClusterIdentifier) return
+      if (!isTrue(resource.properties.MultiAZ)) return `${resource.logicalId} runs in a single Availability Zone`
+    },
+  },
+  {
+    id: 'rds-public-access',
+    title: 'RDS instances are not publicly accessible',
+    description: 'RDS instances must not have a public endpoint.',
+    severity: 'critical',
+    controls: ['AWS FSBP RDS.2'],
+    remediation: 'Set PubliclyAccessible to false and reach the database through the VPC.',
+    resourceTypes: ['AWS::RDS::DBInstance'],
+    check: (resource) => {
+      if (isTrue(resource.properties.PubliclyAccessible)) return `${resource.logicalId} is publicly accessible`
+    },
+  },
+  {
+    id: 'rds-deletion-protection',
+    title: 'Production RDS instances have deletion protection',
+    description: 'Deletion protection stops a production database from being deleted by accident.',
+    severity: 'medium',
+    controls: ['AWS FSBP RDS.8'],
+    remediation: 'Set `deletionProtection: true` on the database entry.',
+    productionOnly: true,
+    resourceTypes: ['AWS::RDS::DBInstance', 'AWS::RDS::DBCluster'],
+    check: (resource) => {
+      if (resource.type === 'AWS::RDS::DBInstance' && resource.properties.DBClusterIdentifier) return
+      if (!isTrue(resource.properties.DeletionProtection))
+        return `${resource.logicalId} does not have deletion protection`
+    },
+  },
+  {
+    id: 'rds-backups',
+    title: 'RDS automated backups are enabled',
+    description: 'RDS instances must keep automated backups.',
+    severity: 'medium',
+    controls: ['AWS FSBP RDS.11'],
+    remediation: 'Set `backupRetentionDays` to at least 1 on the database entry.',
+    resourceTypes: ['AWS::RDS::DBInstance'],
+    check: (resource) => {
+      if (Number(resource.properties.BackupRetentionPeriod) === 0)
+        return `${resource.logicalId} has automated backups disabled`
+    },
+  },
+  {
+    id: 'security-group-admin-ports',
+    title: 'Security groups do not open admin ports to the internet',
+    description: 'SSH and RDP must not accept connections from 0.0.0.0/0 or ::/0.',
+    severity: 'high',
+    controls: ['AWS FSBP EC2.13', 'AWS FSBP EC2.14', 'CIS 5.2'],
+    remediation: 'Restrict the rule to known addresses, or use SSM Session Manager or a jump box.',
+    resourceTypes: ['AWS::EC2::SecurityGroup', 'AWS::EC2::SecurityGroupIngress'],
+    check: (resource) => {
+      const rules =
+        resource.type === 'AWS::EC2::SecurityGroup'
+          ? [resource.properties.SecurityGroupIngress ?? []].flat()
+          : [resource.properties]
+      const exposed = [...new Set(rules.flatMap(exposedAdminPorts))]
+      if (exposed.length) return `${resource.logicalId} allows ${exposed.join(' and ')} from anywhere`
+    },
+  },
+  {
+    id: 'cloudfront-https',
+    title: 'CloudFront requires HTTPS',
+    description: 'CloudFront distributions must redirect or reject plain HTTP viewers.',
+    severity: 'medium',
+    controls: ['AWS FSBP CloudFront.3'],
+    remediation: 'Use the redirect-to-https or https-only viewer protocol policy on every cache behavior.',
+    resourceTypes: ['AWS::CloudFront::Distribution'],
+    check: (resource) => {
+      const config = resource.properties.DistributionConfig ?? {}
+      const behaviors = [config.DefaultCacheBehavior, ...[config.CacheBehaviors ?? []].flat()].filter(Boolean)
+      if (behaviors.some((behavior: any) => behavior.ViewerProtocolPolicy === 'allow-all'))
+        return `${resource.logicalId} allows plain HTTP viewers`
+    },
+  },
+  {
+    id: 'dynamodb-point-in-time-recovery',
+    title: 'Production DynamoDB tables have point-in-time recovery',
+    description: 'Point-in-time recovery lets a production table be restored to any second in the last 35 days.',
+    severity: 'low',
+    controls: ['AWS FSBP DynamoDB.2'],
+    remediation: 'Set `pointInTimeRecovery: true` on the table.',
+    productionOnly: true,
+    resourceTypes: ['AWS::DynamoDB::Table'],
+    check: (resource) => {
+      if (!isTrue(resource.properties.PointInTimeRecoverySpecification?.PointInTimeRecoveryEnabled))
+        return `${resource.logicalId} does not have point-in-time recovery`
+    },
+  },
+  {
+    id: 'kms-key-rotation',
+    title: 'KMS keys rotate',
+    description: 'Customer managed symmetric KMS keys must have automatic rotation enabled.',
+    severity: 'medium',
+    controls: ['CIS 3.8'],
+    remediation: 'Set EnableKeyRotation to true on the key.',
+    resourceTypes: ['AWS::KMS::Key'],
+    check: (resource) => {
+      const spec = resource.properties.KeySpec ?? 'SYMMETRIC_DEFAULT'
+      if (spec === 'SYMMETRIC_DEFAULT' && !isTrue(resource.properties.EnableKeyRotation))
+        return `${resource.logicalId} does not rotate`
+    },
+  },
+]
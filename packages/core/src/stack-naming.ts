@@ -93,3 +93,11 @@ export function resolveServerlessArtifactBucketName(slug: string, environment: E
 export function resolveServerlessAssetBucketName(slug: string, environment: EnvironmentType): string {
   return `${slug}-${environment}-assets`
 }
+
+/**
+ * Sibling stack holding part of a project stack that outgrew CloudFormation's limits.
+ * Part 0 is the stack itself. Convention: `{stackName}-part-{n}` (e.g. `pantry-production-part-1`).
+ */
+export function resolveSplitStackName(stackName: string, part: number): string {
+  return part === 0 ? stackName : `${stackName}-part-${part}`
+}
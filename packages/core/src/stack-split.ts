@@ -0,0 +1,352 @@
+/**
+ * Stack Splitting
+ * Partitions a template that outgrows CloudFormation's limits into sibling stacks
+ * wired together with exports and imports
+ */
+import type { CloudFormationOutput, CloudFormationResource, CloudFormationTemplate } from '@ts-cloud/aws-types'
+import { DependencyGraph } from './dependency-graph'
+import { resolveSplitStackName } from './stack-naming'
+
+/** Resources CloudFormation accepts in one stack */
+export const STACK_RESOURCE_LIMIT: number = 500
+
+/** Outputs CloudFormation accepts in one stack, which caps the exports a part can publish */
+export const STACK_OUTPUT_LIMIT: number = 200
+
+/** Largest template body CloudFormation accepts inline */
+export const TEMPLATE_BODY_LIMIT: number = 51_200
+
+/** Share of the byte limit filled with resources, leaving room for the exports and imports */
+const REWIRE_HEADROOM = 0.8
+
+export interface StackSplitOptions {
+  /** Root stack name. Parts are named by {@link resolveSplitStackName} */
+  stackName: string
+  /** Stack each resource is deployed in today, keyed by logical ID */
+  previous?: Record<string, string>
+  /** Export names the stacks publish today. Kept while their resource stays in the same stack */
+  exports?: string[]
+  maxResources?: number
+  maxBytes?: number
+}
+
+export interface SplitStack {
+  name: string
+  template: CloudFormationTemplate
+  /** Stacks whose exports this stack imports, so they deploy first */
+  dependsOn: string[]
+  resourceCount: number
+}
+
+export interface StackSplitPlan {
+  split: boolean
+  /** Stacks in deploy order */
+  stacks: SplitStack[]
+  /** Stack each resource is placed in, keyed by logical ID */
+  assignments: Record<string, string>
+  /** Previously deployed parts that no longer hold any resource */
+  retired: string[]
+}
+
+interface ExportSpec {
+  logicalId: string
+  attribute?: string
+}
+
+function templateBytes(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value))
+}
+
+function partIndex(stackName: string, name: string): number | undefined {
+  if (name === stackName) return 0
+  const prefix = `${stackName}-part-`
+  if (!name.startsWith(prefix)) return undefined
+  const part = Number(name.slice(prefix.length))
+  return Number.isInteger(part) && part > 0 ? part : undefined
+}
+
+function splitAttribute(name: string): [string, string | undefined] {
+  const dot = name.indexOf('.')
+  return dot === -1 ? [name, undefined] : [name.slice(0, dot), name.slice(dot + 1)]
+}
+
+function exportName(stackName: string, spec: ExportSpec): string {
+  // Export names allow only alphanumerics, colons and hyphens
+  return [stackName, spec.logicalId, spec.attribute?.replace(/\./g, '-')].filter(Boolean).join(':')
+}
+
+function outputKey(spec: ExportSpec): string {
+  return `SplitExport${spec.logicalId}${(spec.attribute ?? '').replace(/[^A-Za-z0-9]/g, '')}`
+}
+
+/**
+ * Split a template into sibling stacks when it exceeds the resource or size limits.
+ *
+ * Resources already deployed keep their stack so they are never replaced. New
+ * resources join the stack of the resources they reference when it has room.
+ * References between stacks become `Fn::ImportValue` of generated exports, and
+ * the stacks are returned in the order they must deploy.
+ */
+export function splitStackTemplate(template: CloudFormationTemplate, options: StackSplitOptions): StackSplitPlan {
+  const root = options.stackName
+  const maxResources = options.maxResources ?? STACK_RESOURCE_LIMIT
+  const maxBytes = options.maxBytes ?? TEMPLATE_BODY_LIMIT
+  const resources = template.Resources
+  const ids = Object.keys(resources)
+  const isResource = (id: string) => Object.hasOwn(resources, id)
+
+  const previous = new Map<string, number>()
+  for (const [logicalId, stackName] of Object.entries(options.previous ?? {})) {
+    const part = partIndex(root, stackName)
+    if (part !== undefined) previous.set(logicalId, part)
+  }
+  const previousParts = [...new Set(previous.values())].filter((part) => part > 0).sort((a, b) => a - b)
+  const pinned = ids.some((id) => (previous.get(id) ?? 0) > 0)
+
+  if (!pinned && ids.length <= maxResources && templateBytes(template) <= maxBytes) {
+    return {
+      split: false,
+      stacks: [{ name: root, template, dependsOn: [], resourceCount: ids.length }],
+      assignments: Object.fromEntries(ids.map((id) => [id, root])),
+      retired: previousParts.map((part) => resolveSplitStackName(root, part)),
+    }
+  }
+
+  const graph = new DependencyGraph()
+  for (const id of ids) graph.addResource(id, resources[id])
+  const order = graph.topologicalSort().filter(isResource)
+  const dependencies = new Map(ids.map((id) => [id, graph.getDependencies(id).filter(isResource)]))
+  const dependents = new Map(ids.map((id) => [id, graph.getDependents(id)]))
+
+  const byteBudget = maxBytes * REWIRE_HEADROOM - templateBytes({ ...template, Resources: {}, Outputs: undefined })
+  const members: string[][] = []
+  const bytes: number[] = []
+  const edges: Set<number>[] = []
+  const placement = new Map<string, number>()
+
+  const ensure = (part: number) => {
+    while (members.length <= part) {
+      members.push([])
+      bytes.push(0)
+      edges.push(new Set())
+    }
+  }
+  const reaches = (from: number, to: number): boolean => {
+    const seen = new Set<number>()
+    const stack = [from]
+    while (stack.length) {
+      const part = stack.pop()!
+      if (part === to) return true
+      if (seen.has(part)) continue
+      seen.add(part)
+      stack.push(...edges[part])
+    }
+    return false
+  }
+  const neighbours = (id: string, part: number) => {
+    const outgoing = new Set<number>()
+    const incoming = new Set<number>()
+    for (const dep of dependencies.get(id)!) if (placement.has(dep)) outgoing.add(placement.get(dep)!)
+    for (const dependent of dependents.get(id)!) if (placement.has(dependent)) incoming.add(placement.get(dependent)!)
+    outgoing.delete(part)
+    incoming.delete(part)
+    return { outgoing, incoming }
+  }
+  const createsCycle = (id: string, part: number) => {
+    const { outgoing, incoming } = neighbours(id, part)
+    for (const target of outgoing) {
+      if (part < members.length && reaches(target, part)) return true
+      for (const source of incoming) if (reaches(target, source)) return true
+    }
+    for (const source of incoming) if (part < members.length && reaches(part, source)) return true
+    return false
+  }
+  const place = (id: string, part: number) => {
+    ensure(part)
+    members[part].push(id)
+    bytes[part] += templateBytes({ [id]: resources[id] })
+    placement.set(id, part)
+    const { outgoing, incoming } = neighbours(id, part)
+    for (const target of outgoing) edges[part].add(target)
+    for (const source of incoming) edges[source].add(part)
+  }
+
+  ensure(0)
+  for (const id of order) {
+    if (previous.has(id)) place(id, previous.get(id)!)
+  }
+  for (let part = 0; part < members.length; part++) {
+    if ([...edges[part]].some((target) => reaches(target, part))) {
+      const name = resolveSplitStackName(root, part)
+      throw new Error(`Deployed stack ${name} and the stacks it imports from reference each other`)
+    }
+  }
+
+  for (const id of order) {
+    if (placement.has(id)) continue
+    const size = templateBytes({ [id]: resources[id] })
+    if (size > byteBudget) throw new Error(`Resource ${id} is ${size} bytes, too large for any stack`)
+
+    // Prefer the stacks holding what it references, then what references it, then any with room
+    const ranked = (related: string[]) => {
+      const counts = new Map<number, number>()
+      for (const other of related) {
+        const part = placement.get(other)
+        if (part !== undefined) counts.set(part, (counts.get(part) ?? 0) + 1)
+      }
+      return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0]).map(([part]) => part)
+    }
+    const candidates = new Set([
+      ...ranked(dependencies.get(id)!),
+      ...ranked(dependents.get(id)!),
+      ...members.keys(),
+      members.length,
+    ])
+    const target = [...candidates].find((part) => {
+      const fits = part >= members.length || (members[part].length < maxResources && bytes[part] + size <= byteBudget)
+      return fits && !createsCycle(id, part)
+    })
+    if (target === undefined) throw new Error(`Resource ${id} cannot be placed without a circular stack dependency`)
+    place(id, target)
+  }
+
+  // Deploy order: every stack after the stacks it imports from
+  const deployOrder: number[] = []
+  const visited = new Set<number>()
+  const visit = (part: number) => {
+    if (visited.has(part)) return
+    visited.add(part)
+    for (const target of [...edges[part]].sort((a, b) => a - b)) visit(target)
+    deployOrder.push(part)
+  }
+  for (const part of members.keys()) visit(part)
+  const active = deployOrder.filter((part) => part === 0 || members[part].length > 0)
+
+  const names = members.map((_, part) => resolveSplitStackName(root, part))
+  const exported = members.map(() => new Map<string, ExportSpec>())
+  const imports = members.map(() => new Set<number>())
+
+  const importValue = (spec: ExportSpec, home: number) => {
+    const owner = placement.get(spec.logicalId)!
+    exported[owner].set(outputKey(spec), spec)
+    imports[home].add(owner)
+    return { 'Fn::ImportValue': exportName(names[owner], spec) }
+  }
+  const remote = (id: unknown, home: number): id is string =>
+    typeof id === 'string' && placement.has(id) && placement.get(id) !== home
+
+  const rewriteSub = (argument: unknown, home: number): unknown => {
+    const [text, variables = {}] = (Array.isArray(argument) ? argument : [argument]) as [
+      unknown,
+      Record<string, unknown>?,
+    ]
+    if (typeof text !== 'string') return rewrite(argument, home)
+    const imported: Record<string, unknown> = {}
+    const rewritten = text.replace(/\$\{([^}!][^}]*)\}/g, (match, inner: string) => {
+      const name = inner.trim()
+      const [logicalId, attribute] = splitAttribute(name)
+      if (Object.hasOwn(variables, name) || !remote(logicalId, home)) return match
+      const variable = `Import${logicalId}${(attribute ?? '').replace(/[^A-Za-z0-9]/g, '')}`
+      imported[variable] = importValue({ logicalId, attribute }, home)
+      return `\${${variable}}`
+    })
+    if (!Array.isArray(argument) && Object.keys(imported).length === 0) return text
+    return [rewritten, { ...(rewrite(variables, home) as Record<string, unknown>), ...imported }]
+  }
+  const rewrite = (value: unknown, home: number): unknown => {
+    if (Array.isArray(value)) return value.map((item) => rewrite(item, home))
+    if (!value || typeof value !== 'object') return value
+    const entries = Object.entries(value)
+    if (entries.length === 1) {
+      const [[key, argument]] = entries
+      if (key === 'Ref' && remote(argument, home)) return importValue({ logicalId: argument }, home)
+      if (key === 'Fn::GetAtt') {
+        const [logicalId, attribute] = Array.isArray(argument)
+          ? argument
+          : typeof argument === 'string'
+            ? splitAttribute(argument)
+            : []
+        if (remote(logicalId, home) && typeof attribute === 'string')
+          return importValue({ logicalId, attribute }, home)
+      }
+      if (key === 'Fn::Sub') return { 'Fn::Sub': rewriteSub(argument, home) }
+    }
+    return Object.fromEntries(entries.map(([key, item]) => [key, rewrite(item, home)]))
+  }
+
+  const partResources = members.map(() => ({}) as Record<string, CloudFormationResource>)
+  for (const id of order) {
+    const home = placement.get(id)!
+    const { DependsOn, ...rest } = resources[id]
+    // Stack order already covers dependencies on other stacks
+    const local = [DependsOn ?? []].flat().filter((dep) => placement.get(dep) === home)
+    partResources[home][id] = {
+      ...(rewrite(rest, home) as CloudFormationResource),
+      ...(local.length ? { DependsOn: local.length === 1 ? local[0] : local } : {}),
+    }
+  }
+
+  // Each output lives in the last stack to deploy among those it references
+  const partOutputs = members.map(() => ({}) as Record<string, CloudFormationOutput>)
+  for (const [key, output] of Object.entries(template.Outputs ?? {})) {
+    const scratch = new DependencyGraph()
+    scratch.addResource(key, { Type: 'AWS::CloudFormation::WaitConditionHandle', Properties: { output } })
+    const owners = new Set(scratch.getDependencies(key).filter(isResource).map((id) => placement.get(id)!))
+    const home = [...active].reverse().find((part) => owners.has(part)) ?? 0
+    partOutputs[home][key] = rewrite(output, home) as CloudFormationOutput
+  }
+
+  for (const name of options.exports ?? []) {
+    const [stackName, logicalId, attribute] = name.split(':')
+    const owner = partIndex(root, stackName)
+    if (owner === undefined || !logicalId || placement.get(logicalId) !== owner) continue
+    const spec = { logicalId, attribute: attribute?.replace(/-/g, '.') }
+    exported[owner].set(outputKey(spec), spec)
+  }
+  for (const part of active) {
+    for (const [key, spec] of [...exported[part]].sort(([a], [b]) => a.localeCompare(b))) {
+      const condition = resources[spec.logicalId].Condition
+      partOutputs[part][key] = {
+        Value: spec.attribute ? { 'Fn::GetAtt': [spec.logicalId, spec.attribute] } : { Ref: spec.logicalId },
+        Export: { Name: exportName(names[part], spec) },
+        ...(condition ? { Condition: condition } : {}),
+      } as CloudFormationOutput
+    }
+  }
+
+  const stacks = active.map((part): SplitStack => {
+    const outputs = partOutputs[part]
+    const stackTemplate: CloudFormationTemplate = {
+      ...(template.AWSTemplateFormatVersion ? { AWSTemplateFormatVersion: template.AWSTemplateFormatVersion } : {}),
+      Description: part === 0 ? template.Description : `${template.Description ?? root} (part ${part})`,
+      ...(template.Parameters ? { Parameters: template.Parameters } : {}),
+      ...(template.Mappings ? { Mappings: template.Mappings } : {}),
+      ...(template.Conditions ? { Conditions: template.Conditions } : {}),
+      Resources: partResources[part],
+      ...(Object.keys(outputs).length ? { Outputs: outputs } : {}),
+    }
+    if (stackTemplate.Description === undefined) delete stackTemplate.Description
+
+    const name = names[part]
+    const size = templateBytes(stackTemplate)
+    if (members[part].length > maxResources)
+      throw new Error(`Stack ${name} holds ${members[part].length} resources (limit is ${maxResources})`)
+    if (size > maxBytes) throw new Error(`Stack ${name} template is ${size} bytes (limit is ${maxBytes})`)
+    if (Object.keys(outputs).length > STACK_OUTPUT_LIMIT)
+      throw new Error(`Stack ${name} needs ${Object.keys(outputs).length} outputs (limit is ${STACK_OUTPUT_LIMIT})`)
+
+    return {
+      name,
+      template: stackTemplate,
+      dependsOn: active.filter((other) => imports[part].has(other) || edges[part].has(other)).map((o) => names[o]),
+      resourceCount: members[part].length,
+    }
+  })
+
+  return {
+    split: stacks.length > 1,
+    stacks,
+    assignments: Object.fromEntries([...placement].map(([id, part]) => [id, names[part]])),
+    retired: previousParts.filter((part) => !members[part]?.length).map((part) => resolveSplitStackName(root, part)),
+  }
+}
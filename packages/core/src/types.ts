@@ -1,3 +1,5 @@
+import type { PolicyConfig } from './policy/engine'
+
 /**
  * Top-level cloud provider selection
  */
@@ -6,7 +8,7 @@ export interface CloudProviderConfig {
    * Infrastructure provider for compute and related resources.
    * @default 'aws'
    */
-  provider?: 'aws' | 'hetzner'
+  provider?: 'aws' | 'hetzner' | 'digitalocean'
 
   /**
    * Attach this project's sites to a box owned by ANOTHER project instead of
@@ -116,6 +118,116 @@ export interface HetznerConfig {
   sshUser?: string
 }
 
+/** CI system a pipeline is generated for. `forgejo` and `gitea` differ only in the workflow directory. */
+export type CIProvider = 'github' | 'gitlab' | 'circleci' | 'forgejo' | 'gitea' | 'bitbucket' | 'buildkite'
+
+/**
+ * Pipeline `cloud generate` writes next to the templates. Each environment
+ * deploys from its `deployBranch`.
+ */
+export interface CIConfig {
+  /** Defaults to the CI system of the project's connected source provider. */
+  provider?: CIProvider
+  /** IAM role assumed with the CI system's OIDC token. Access key secrets are used without one. */
+  awsRole?: string
+  /** Environments that wait for a manual approval before deploying. @default the production environments */
+  approvals?: string[]
+  /** Pull request previews, or `false` to leave them out. @default { ttl: 24, baseEnvironment: 'production' } */
+  previews?: false | { ttl?: number; baseEnvironment?: string }
+}
+
+/**
+ * Kubernetes target settings. The containers, the compute app, queue workers and
+ * the scheduler are rendered as Deployments, Services, Ingress, CronJobs, HPAs
+ * and Secrets, then applied to the cluster with server-side apply.
+ *
+ * Same precedence as {@link DigitalOceanConfig}: what is written here wins over
+ * the environment (`KUBERNETES_*`), which wins over the documented default.
+ * Resolution lives in `resolveKubernetesSettings` in `@stacksjs/ts-cloud`
+ * (`kubernetes/config.ts`).
+ */
+export interface KubernetesConfig {
+  /**
+   * API server URL. Env: `KUBERNETES_SERVER`. Inside a cluster the service
+   * account's `KUBERNETES_SERVICE_HOST`/`_PORT` are used.
+   */
+  server?: string
+  /**
+   * Bearer token of a service account allowed to manage the namespace. Normally
+   * left unset here and supplied via `KUBERNETES_TOKEN`. Never defaulted.
+   */
+  token?: string
+  /** PEM CA bundle the API server certificate chains to. Env: `KUBERNETES_CA_CERT`. */
+  caCertificate?: string
+  /** Namespace every object is applied to. Env: `KUBERNETES_NAMESPACE`. @default `{slug}-{environment}` */
+  namespace?: string
+  /** Image every workload runs. Env: `KUBERNETES_IMAGE`. */
+  image?: string
+  /** Image per workload, keyed by container name, site name or `app`. Wins over {@link image}. */
+  images?: Record<string, string>
+  /** App directory inside the image, where queue workers and the scheduler run. @default '/app' */
+  workingDir?: string
+  /** Ingress class for site domains, e.g. `nginx` or `traefik`. The cluster default when unset. */
+  ingressClassName?: string
+  /** TLS secret for the ingress hosts, e.g. one kept by cert-manager. */
+  tlsSecretName?: string
+  /** Extra Ingress annotations, e.g. `cert-manager.io/cluster-issuer`. */
+  ingressAnnotations?: Record<string, string>
+  /** Image pull secrets already present in the namespace. */
+  imagePullSecrets?: string[]
+}
+
+/**
+ * DigitalOcean configuration.
+ *
+ * Same precedence as {@link HetznerConfig}: what is written here wins over the
+ * environment, which wins over the documented default. Resolution lives in
+ * `resolveDigitalOceanSettings` in `@stacksjs/ts-cloud`
+ * (`drivers/digitalocean/config.ts`).
+ */
+export interface DigitalOceanConfig {
+  /**
+   * DigitalOcean API token. Normally left unset here and supplied via
+   * `DIGITALOCEAN_TOKEN` (or `DIGITALOCEAN_ACCESS_TOKEN`, which `doctl` uses).
+   * Never defaulted: a missing token fails loudly.
+   */
+  apiToken?: string
+  /** Region slug, e.g. nyc3, fra1, sgp1. Env: `DIGITALOCEAN_REGION`. @default 'nyc3' */
+  region?: string
+  /**
+   * Droplet image slug. `infrastructure.compute.image` overrides this when set.
+   * Env: `DIGITALOCEAN_IMAGE`. @default 'ubuntu-24-04-x64'
+   */
+  image?: string
+  /** Path to SSH private key used for deploy commands. Env: `DIGITALOCEAN_SSH_KEY`. @default '~/.ssh/id_ed25519' */
+  sshPrivateKeyPath?: string
+  /**
+   * Path to the SSH public key registered with DigitalOcean. Env: `DIGITALOCEAN_SSH_PUBLIC_KEY`.
+   * @default `${sshPrivateKeyPath}.pub`
+   */
+  sshPublicKeyPath?: string
+  /** SSH user for deploy commands. Env: `DIGITALOCEAN_SSH_USER`. @default 'root' */
+  sshUser?: string
+  /**
+   * Assign a reserved IP to the app droplet so its public address survives a
+   * rebuild or replacement. DNS then points at the reserved IP rather than the
+   * droplet's own address. @default false
+   */
+  reservedIp?: boolean
+  /**
+   * Block storage volume attached to the app droplet and mounted at
+   * `mountPath`. Created once and reused across deploys; never deleted by
+   * teardown, since it holds data.
+   */
+  volume?: {
+    sizeGb: number
+    /** @default '/mnt/<slug>-<environment>-data' */
+    mountPath?: string
+    /** @default 'ext4' */
+    filesystem?: 'ext4' | 'xfs'
+  }
+}
+
 /**
  * AWS-specific configuration
  */
@@ -166,6 +278,23 @@ export interface CloudConfig {
    */
   hetzner?: HetznerConfig
 
+  /**
+   * DigitalOcean configuration (when cloud.provider is 'digitalocean')
+   */
+  digitalocean?: DigitalOceanConfig
+
+  /**
+   * Kubernetes deployment target. `cloud kubernetes:deploy` runs the app on an
+   * existing cluster instead of provisioning servers.
+   */
+  kubernetes?: KubernetesConfig
+
+  /**
+   * CI pipeline generated by `cloud generate`, with OIDC credentials for AWS,
+   * pull request previews and approval gates.
+   */
+  ci?: CIConfig
+
   /**
    * Object storage provider selection (AWS S3, Backblaze B2, Hetzner Object Storage).
    * Independent of `cloud.provider` — you can run compute on AWS while keeping
@@ -268,6 +397,25 @@ export interface EnvironmentConfig {
    * @see ServerlessAppConfig
    */
   app?: ServerlessAppConfig
+  /**
+   * Review of infrastructure changes before they reach the stack. When enabled,
+   * `deploy` creates a CloudFormation change set and stores it as pending in the
+   * control plane instead of updating the stack; it runs after approval with
+   * `cloud changeset:execute`. Enabled by default for production environments.
+   *
+   * @example
+   * changeReview: { approvals: 2, expiresInHours: 24 }
+   */
+  changeReview?: ChangeReviewConfig
+}
+
+export interface ChangeReviewConfig {
+  /** @default true for production environments, false otherwise */
+  enabled?: boolean
+  /** Distinct approvers needed, none of them the requester. @default 1 */
+  approvals?: number
+  /** Hours a change set waits for review before it expires. @default 72 */
+  expiresInHours?: number
 }
 
 /**
@@ -1933,6 +2081,14 @@ export interface SecurityConfig {
   scan?: {
     exclude?: string[]
   }
+  /**
+   * Policy-as-code rules evaluated against the generated template before a deploy.
+   * Findings are recorded in the security posture and block through the security gate.
+   *
+   * @example
+   * security: { policy: { requiredTags: ['cost-center'], severity: { 's3-versioning': 'off' } } }
+   */
+  policy?: PolicyConfig
   /**
    * SSL/TLS Certificate configuration
    */
@@ -2040,6 +2196,11 @@ export interface StorageItemConfig {
    * Physical S3 bucket name. When omitted, defaults to `{slug}-{environment}-{key}`.
    */
   bucket?: string
+  /**
+   * Keep the resource when the stack deletes or replaces it (`DeletionPolicy` and
+   * `UpdateReplacePolicy` Retain). `cloud import` sets it on the entries it adds.
+   */
+  retain?: boolean
   /**
    * Make bucket publicly accessible
    */
@@ -4023,13 +4184,25 @@ export interface CloudflareCacheRulesConfig {
 
 export interface DatabaseItemConfig {
   engine?: 'dynamodb' | 'postgres' | 'mysql'
+  /**
+   * Physical RDS instance identifier. When omitted, defaults to `{slug}-{environment}-{engine}-db`.
+   */
+  identifier?: string
   partitionKey?: string | { name: string; type: string }
   sortKey?: string | { name: string; type: string }
   username?: string
   password?: string
   storage?: number
   instanceClass?: string
+  /** Engine version, e.g. `16.4`. Defaults to the version the engine's module pins. */
   version?: string
+  /** Encrypt the instance's storage. @default true */
+  encrypted?: boolean
+  /**
+   * Keep the resource when the stack deletes or replaces it (`DeletionPolicy` and
+   * `UpdateReplacePolicy` Retain). `cloud import` sets it on the entries it adds.
+   */
+  retain?: boolean
   allocatedStorage?: number
   maxAllocatedStorage?: number
   multiAZ?: boolean
@@ -4066,6 +4239,11 @@ export interface DatabaseItemConfig {
 
 export interface CdnItemConfig {
   origin?: string
+  /**
+   * Keep the resource when the stack deletes or replaces it (`DeletionPolicy` and
+   * `UpdateReplacePolicy` Retain). `cloud import` sets it on the entries it adds.
+   */
+  retain?: boolean
   customDomain?:
     | string
     | {
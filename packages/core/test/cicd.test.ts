@@ -0,0 +1,192 @@
+import { describe, expect, test } from 'bun:test'
+import { generateBitbucketPipelines } from '../src/cicd/bitbucket-pipelines'
+import { generateBuildkitePipeline } from '../src/cicd/buildkite'
+import {
+  generateForgejoDeploymentWorkflow,
+  generateForgejoPreviewWorkflow,
+  generateForgejoPromotionWorkflow,
+} from '../src/cicd/forgejo-actions'
+import { ciPipelineEnvironments, generateCIPipeline } from '../src/cicd/pipeline'
+import type { CloudConfig } from '../src/types'
+
+const awsRole = 'arn:aws:iam::123456789012:role/deploy'
+const environments = [
+  { name: 'staging', branch: 'develop', approval: false },
+  { name: 'production', branch: 'main', approval: true },
+]
+
+const config: CloudConfig = {
+  project: { name: 'Acme', slug: 'acme', region: 'eu-west-1' },
+  mode: 'server',
+  environments: {
+    staging: { type: 'staging', deployBranch: 'develop' },
+    production: { type: 'production' },
+  },
+  ci: { awsRole },
+} as CloudConfig
+
+function parse(yaml: string): any {
+  return Bun.YAML.parse(yaml)
+}
+
+describe('Forgejo / Gitea Actions', () => {
+  test('deploys each environment from its branch with OIDC credentials', () => {
+    const workflow = parse(generateForgejoDeploymentWorkflow({ environments, awsRole, runsOn: 'docker' }))
+
+    expect(workflow.on.push.branches).toEqual(['develop', 'main'])
+    expect(workflow.jobs['deploy-staging'].if).toBe("github.ref == 'refs/heads/develop'")
+    expect(workflow.jobs['deploy-staging'].permissions['id-token']).toBe('write')
+    expect(workflow.jobs['deploy-staging']['runs-on']).toBe('docker')
+    const credentials = workflow.jobs['deploy-staging'].steps.find((step: any) => step.with?.['role-to-assume'])
+    expect(credentials.uses).toBe('https://github.com/aws-actions/configure-aws-credentials@v4')
+    expect(credentials.with['role-to-assume']).toBe(awsRole)
+  })
+
+  test('falls back to repository secrets without a role', () => {
+    const workflow = parse(generateForgejoDeploymentWorkflow())
+    const credentials = workflow.jobs['deploy-production'].steps.find((step: any) => step.name?.includes('AWS'))
+    expect(credentials.with['aws-access-key-id']).toBe('${{ secrets.AWS_ACCESS_KEY_ID }}')
+  })
+
+  test('gates promotion on a confirmed manual dispatch', () => {
+    const workflow = parse(generateForgejoPromotionWorkflow({ environments: ['production'], awsRole }))
+
+    expect(workflow.on.workflow_dispatch.inputs.confirm.required).toBe(true)
+    expect(workflow.jobs.deploy.needs).toBe('confirm')
+    expect(workflow.jobs.confirm.steps[0].run).toContain('production) ;;')
+  })
+
+  test('passes dispatch inputs to scripts through the environment', () => {
+    const workflow = parse(generateForgejoPromotionWorkflow({ environments: ['production'], awsRole }))
+    const check = workflow.jobs.confirm.steps[0]
+    const deploy = workflow.jobs.deploy.steps.find((step: any) => step.name === 'Deploy')
+
+    expect(check.env).toEqual({
+      ENVIRONMENT: '${{ inputs.environment }}',
+      CONFIRM: '${{ inputs.confirm }}',
+      ACTOR: '${{ github.actor }}',
+    })
+    expect(deploy.env.ENVIRONMENT).toBe('${{ inputs.environment }}')
+    for (const step of [check, deploy]) expect(step.run).not.toContain('${{')
+  })
+
+  test('deploys previews on pull requests and destroys them on close', () => {
+    const workflow = parse(generateForgejoPreviewWorkflow({ ttl: 48, baseEnvironment: 'staging' }))
+
+    expect(workflow.env.TTL_HOURS).toBe(48)
+    const deploy = workflow.jobs.preview.steps.find((step: any) => step.id === 'deploy')
+    expect(deploy.env.BRANCH).toBe('${{ github.head_ref }}')
+    expect(deploy.run).toContain('env:preview "$BRANCH" --env=staging')
+    expect(workflow.jobs.cleanup.if).toBe("github.event.action == 'closed'")
+    expect(workflow.jobs.cleanup.steps.at(-1).run).toContain('--destroy --yes')
+  })
+})
+
+describe('Bitbucket Pipelines', () => {
+  test('holds approved environments for a manual trigger and exchanges the step OIDC token', () => {
+    const pipeline = parse(generateBitbucketPipelines({ environments, awsRole, awsRegion: 'eu-west-1' }))
+
+    expect(pipeline.pipelines.default[0].step.name).toBe('Test and build')
+    const staging = pipeline.pipelines.branches.develop[1].step
+    expect(staging.deployment).toBe('staging')
+    expect(staging.trigger).toBeUndefined()
+    const production = pipeline.pipelines.branches.main[1].step
+    expect(production).toMatchObject({ deployment: 'production', trigger: 'manual', oidc: true })
+    expect(production.script).toContain(`export AWS_ROLE_ARN=${awsRole}`)
+    expect(production.script).toContain('echo "$BITBUCKET_STEP_OIDC_TOKEN" > "$AWS_WEB_IDENTITY_TOKEN_FILE"')
+    expect(production.script).toContain('export AWS_REGION=eu-west-1')
+  })
+
+  test('deploys previews for pull requests and cleans them up from a custom pipeline', () => {
+    const pipeline = parse(generateBitbucketPipelines({ preview: { ttl: 12 }, scheduledEnvironments: ['staging'] }))
+
+    const preview = pipeline.pipelines['pull-requests']['**'][1].step
+    expect(preview.oidc).toBeUndefined()
+    expect(preview.script).toContain(
+      'bun run cloud env:preview "$BITBUCKET_BRANCH" --env=production --pr="$BITBUCKET_PR_ID" '
+      + '--sha="$BITBUCKET_COMMIT" --ttl=12',
+    )
+    expect(pipeline.pipelines.custom['preview-cleanup'][0].step.script).toContain('bun run cloud env:cleanup')
+    expect(pipeline.pipelines.custom['scheduled-staging'][0].step.script).toContain(
+      'bun run cloud deploy --env=staging',
+    )
+  })
+
+  test('leaves previews out when disabled', () => {
+    const pipeline = parse(generateBitbucketPipelines({ preview: false }))
+    expect(pipeline.pipelines['pull-requests']).toBeUndefined()
+    expect(pipeline.pipelines.custom).toBeUndefined()
+  })
+})
+
+describe('Buildkite', () => {
+  test('puts a block step in front of approved environments', () => {
+    const pipeline = parse(generateBuildkitePipeline({ environments, awsRole, queue: 'deploy' }))
+    const keys = pipeline.steps.map((step: any) => step.key ?? step.label)
+
+    expect(keys.slice(0, 4)).toEqual(['test', 'deploy-staging', 'approve-production', 'deploy-production'])
+    const block = pipeline.steps.find((step: any) => step.key === 'approve-production')
+    expect(block.block).toBe(':rocket: Deploy to production?')
+    expect(block.if).toContain('build.branch == "main"')
+    const production = pipeline.steps.find((step: any) => step.key === 'deploy-production')
+    expect(production.depends_on).toBe('approve-production')
+    expect(production.agents.queue).toBe('deploy')
+    expect(production.plugins[0]['docker#v5.12.0']['mount-buildkite-agent']).toBe(true)
+    expect(production.command).toContain(
+      'buildkite-agent oidc request-token --audience sts.amazonaws.com > "$$AWS_WEB_IDENTITY_TOKEN_FILE"',
+    )
+    const staging = pipeline.steps.find((step: any) => step.key === 'deploy-staging')
+    expect(staging.depends_on).toBe('test')
+  })
+
+  test('deploys previews on pull request builds and cleans up on scheduled builds', () => {
+    const pipeline = parse(generateBuildkitePipeline({ image: false, scheduledEnvironment: 'staging' }))
+
+    const preview = pipeline.steps.find((step: any) => step.key === 'preview')
+    expect(preview.if).toBe('build.pull_request.id != null')
+    expect(preview.plugins).toBeUndefined()
+    expect(preview.command).toContain('bun run cloud env:preview "$$BUILDKITE_BRANCH" --env=production '
+      + '--pr="$$BUILDKITE_PULL_REQUEST" --sha="$$BUILDKITE_COMMIT" --ttl=24')
+    const scheduled = pipeline.steps.filter((step: any) => step.if === 'build.source == "schedule"')
+    expect(scheduled.map((step: any) => step.label)).toEqual([
+      ':broom: Remove expired previews',
+      ':alarm_clock: Scheduled deploy to staging',
+    ])
+  })
+})
+
+describe('generateCIPipeline', () => {
+  test('derives branches and approvals from the environments', () => {
+    expect(ciPipelineEnvironments(config)).toEqual(environments)
+    expect(ciPipelineEnvironments({ ...config, ci: { approvals: [] } })[1].approval).toBe(false)
+    expect(ciPipelineEnvironments({ ...config, environments: {} })).toEqual([
+      { name: 'production', branch: 'main', approval: true },
+    ])
+  })
+
+  test('writes the files each CI system reads', () => {
+    const paths = (provider: Parameters<typeof generateCIPipeline>[1]) =>
+      generateCIPipeline(config, provider).map((file) => file.path)
+
+    expect(paths('forgejo')).toEqual([
+      '.forgejo/workflows/deploy.yml',
+      '.forgejo/workflows/promote.yml',
+      '.forgejo/workflows/preview.yml',
+    ])
+    expect(paths('gitea')[0]).toBe('.gitea/workflows/deploy.yml')
+    expect(paths('bitbucket')).toEqual(['bitbucket-pipelines.yml'])
+    expect(paths('buildkite')).toEqual(['.buildkite/pipeline.yml'])
+    expect(paths('github')).toEqual(['.github/workflows/deploy.yml', '.github/workflows/preview.yml'])
+    expect(generateCIPipeline({ ...config, ci: { previews: false } }, 'github')).toHaveLength(1)
+  })
+
+  test('every generated pipeline is valid YAML', () => {
+    for (const provider of ['forgejo', 'bitbucket', 'buildkite'] as const) {
+      for (const file of generateCIPipeline(config, provider)) {
+        expect(() => parse(file.content)).not.toThrow()
+        expect(file.content).toContain(awsRole)
+        expect(file.content).toContain('eu-west-1')
+      }
+    }
+  })
+})
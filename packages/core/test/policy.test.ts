@@ -0,0 +1,157 @@
+import type { CloudConfig } from '../src/types'
+import type { PolicyContext, PolicyTemplate } from '../src/policy'
+import { describe, expect, it } from 'bun:test'
+import { definePolicyRule, evaluatePolicies } from '../src/policy'
+
+const config = { project: { name: 'App', slug: 'app', region: 'us-east-1' } } as CloudConfig
+
+const template: PolicyTemplate = {
+  Resources: {
+    AssetsBucket: {
+      Type: 'AWS::S3::Bucket',
+      Properties: {
+        BucketName: 'app-assets',
+        BucketEncryption: { ServerSideEncryptionConfiguration: [] },
+        Tags: [{ Key: 'cost-center', Value: 'web' }],
+      },
+    },
+    AssetsBucketPolicy: {
+      Type: 'AWS::S3::BucketPolicy',
+      Properties: {
+        Bucket: { Ref: 'AssetsBucket' },
+        PolicyDocument: { Statement: [{ Effect: 'Allow', Principal: '*', Action: 's3:GetObject', Resource: '*' }] },
+      },
+    },
+    Database: {
+      Type: 'AWS::RDS::DBInstance',
+      Properties: { StorageEncrypted: false, MultiAZ: false, DeletionProtection: true, Tags: [] },
+    },
+    AppSecurityGroup: {
+      Type: 'AWS::EC2::SecurityGroup',
+      Properties: {
+        SecurityGroupIngress: [
+          { IpProtocol: 'tcp', FromPort: 443, ToPort: 443, CidrIp: '0.0.0.0/0' },
+          { IpProtocol: 'tcp', FromPort: 22, ToPort: 22, CidrIp: '0.0.0.0/0' },
+        ],
+      },
+    },
+  },
+}
+
+function context(environment: string, overrides: Partial<PolicyContext> = {}): PolicyContext {
+  return { config, environment, production: environment === 'production', template, ...overrides }
+}
+
+const findingKeys = (evaluation: ReturnType<typeof evaluatePolicies>) =>
+  evaluation.findings.map((finding) => `${finding.ruleId}:${finding.subject}`).sort()
+
+describe('evaluatePolicies', () => {
+  it('runs the built-in pack with production-only rules in production', () => {
+    expect(findingKeys(evaluatePolicies(context('staging')))).toEqual([
+      'rds-encryption:Database',
+      's3-public-access:AssetsBucket',
+      'security-group-admin-ports:AppSecurityGroup',
+    ])
+
+    const production = evaluatePolicies(context('production'))
+    expect(findingKeys(production)).toEqual([
+      'rds-encryption:Database',
+      'rds-multi-az:Database',
+      's3-public-access:AssetsBucket',
+      's3-versioning:AssetsBucket',
+      'security-group-admin-ports:AppSecurityGroup',
+    ])
+    const ssh = production.findings.find((finding) => finding.ruleId === 'security-group-admin-ports')!
+    expect(ssh.message).toBe('AppSecurityGroup allows SSH (22) from anywhere')
+    expect(ssh.controls).toContain('CIS 5.2')
+  })
+
+  it('requires tags on taggable resources', () => {
+    const evaluation = evaluatePolicies(context('staging'), { builtIn: false, requiredTags: ['cost-center'] })
+    expect(findingKeys(evaluation)).toEqual(['required-tags:AppSecurityGroup', 'required-tags:Database'])
+    expect(evaluation.findings[0].message).toContain('missing tag cost-center')
+  })
+
+  it('applies severity overrides per environment', () => {
+    const evaluation = evaluatePolicies(context('staging'), {
+      severity: { 'rds-encryption': 'critical', 'security-group-admin-ports': 'off' },
+      environments: { staging: { severity: { 's3-public-access': 'low' } } },
+    })
+    expect(evaluation.findings.map((finding) => [finding.ruleId, finding.severity])).toEqual([
+      ['s3-public-access', 'low'],
+      ['rds-encryption', 'critical'],
+    ])
+  })
+
+  it('moves waived findings aside until the waiver expires', () => {
+    const waiver = {
+      rule: 's3-public-access',
+      subject: 'AssetsBucket',
+      environments: ['staging'],
+      reason: 'Public downloads bucket',
+      expiresAt: '2026-06-01T00:00:00.000Z',
+    }
+    const now = new Date('2026-05-01')
+    const active = evaluatePolicies(context('staging'), { waivers: [waiver] }, { now })
+    expect(findingKeys(active)).not.toContain('s3-public-access:AssetsBucket')
+    expect(active.waived).toMatchObject([{ ruleId: 's3-public-access', waiver: { reason: 'Public downloads bucket' } }])
+
+    const otherEnvironment = evaluatePolicies(context('production'), { waivers: [waiver] }, { now })
+    expect(findingKeys(otherEnvironment)).toContain('s3-public-access:AssetsBucket')
+
+    const expired = evaluatePolicies(context('staging'), { waivers: [waiver] }, { now: new Date('2026-07-01') })
+    expect(findingKeys(expired)).toContain('s3-public-access:AssetsBucket')
+    expect(expired.expiredWaivers).toEqual([waiver])
+  })
+
+  it('reports a waiver with an unreadable expiry instead of applying it', () => {
+    const waiver = {
+      rule: 's3-public-access',
+      subject: 'AssetsBucket',
+      reason: 'Public downloads bucket',
+      expiresAt: 'end of quarter',
+    }
+    const evaluation = evaluatePolicies(context('staging'), { waivers: [waiver] })
+    expect(findingKeys(evaluation)).toContain('s3-public-access:AssetsBucket')
+    expect(evaluation.errors).toEqual([
+      { ruleId: 's3-public-access', message: 'Waiver expiresAt "end of quarter" is not a date' },
+    ])
+    expect(evaluation.expiredWaivers).toEqual([])
+  })
+
+  it('evaluates custom config rules without a template and reports rules that throw', () => {
+    const rules = [
+      definePolicyRule({
+        id: 'single-region',
+        title: 'Projects stay in us-east-1',
+        description: 'Data residency',
+        severity: 'high',
+        check: (ctx) =>
+          ctx.config.project.region === 'us-east-1'
+            ? []
+            : [{ subject: 'project.region', message: `Region ${ctx.config.project.region} is not allowed` }],
+      }),
+      definePolicyRule({
+        id: 'broken',
+        title: 'Broken',
+        description: 'Throws',
+        severity: 'low',
+        resourceTypes: ['*'],
+        check: () => {
+          throw new Error('boom')
+        },
+      }),
+    ]
+    const euConfig = { ...config, project: { ...config.project, region: 'eu-west-1' } }
+    const withoutTemplate = evaluatePolicies(context('staging', { template: undefined, config: euConfig }), {
+      builtIn: false,
+      rules,
+    })
+    expect(withoutTemplate.rulesEvaluated).toBe(1)
+    expect(withoutTemplate.findings).toMatchObject([{ ruleId: 'single-region', subject: 'project.region' }])
+
+    const withTemplate = evaluatePolicies(context('staging'), { builtIn: false, rules })
+    expect(withTemplate.findings).toEqual([])
+    expect(withTemplate.errors).toEqual([{ ruleId: 'broken', message: 'boom' }])
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'bun:test'
+import type { CloudFormationTemplate } from '@ts-cloud/aws-types'
+import { DependencyGraph } from '../src/dependency-graph'
+import { splitStackTemplate } from '../src/stack-split'
+
+const queue = (extra: Record<string, unknown> = {}) => ({ Type: 'AWS::SQS::Queue', Properties: { ...extra } })
+
+function template(resources: CloudFormationTemplate['Resources']): CloudFormationTemplate {
+  return {
+    AWSTemplateFormatVersion: '2010-09-09',
+    Description: 'App - production',
+    Parameters: { Environment: { Type: 'String', Default: 'production' } },
+    Resources: resources,
+    Outputs: { TopicArn: { Value: { Ref: 'Topic' } } },
+  }
+}
+
+const app = template({
+  Topic: { Type: 'AWS::SNS::Topic', Properties: {} },
+  DeadLetters: queue(),
+  Jobs: queue({ RedrivePolicy: { deadLetterTargetArn: { 'Fn::GetAtt': ['DeadLetters', 'Arn'] } } }),
+  Subscription: {
+    Type: 'AWS::SNS::Subscription',
+    DependsOn: ['Jobs', 'Topic'],
+    Properties: { TopicArn: { Ref: 'Topic' }, Endpoint: { 'Fn::GetAtt': 'Jobs.Arn' }, Protocol: 'sqs' },
+  },
+  Alarm: {
+    Type: 'AWS::CloudWatch::Alarm',
+    Properties: { AlarmDescription: { 'Fn::Sub': 'Backlog on ${Jobs.QueueName} in ${AWS::Region}' } },
+  },
+})
+
+describe('splitStackTemplate', () => {
+  it('keeps templates within the limits in one stack', () => {
+    const plan = splitStackTemplate(app, { stackName: 'app-production' })
+    expect(plan.split).toBe(false)
+    expect(plan.stacks).toEqual([{ name: 'app-production', template: app, dependsOn: [], resourceCount: 5 }])
+    expect(plan.retired).toEqual([])
+  })
+
+  it('partitions resources and rewires references with exports and imports', () => {
+    const plan = splitStackTemplate(app, { stackName: 'app-production', maxResources: 2 })
+    expect(plan.split).toBe(true)
+    expect(plan.stacks.map((stack) => [stack.name, stack.resourceCount])).toEqual([
+      ['app-production', 2],
+      ['app-production-part-1', 2],
+      ['app-production-part-2', 1],
+    ])
+    expect(plan.assignments).toEqual({
+      Topic: 'app-production',
+      DeadLetters: 'app-production',
+      Jobs: 'app-production-part-1',
+      Subscription: 'app-production-part-1',
+      Alarm: 'app-production-part-2',
+    })
+
+    const [root, first, second] = plan.stacks
+    expect(first.dependsOn).toEqual(['app-production'])
+    expect(second.dependsOn).toEqual(['app-production-part-1'])
+    expect(root.template.Outputs).toEqual({
+      TopicArn: { Value: { Ref: 'Topic' } },
+      SplitExportDeadLettersArn: {
+        Value: { 'Fn::GetAtt': ['DeadLetters', 'Arn'] },
+        Export: { Name: 'app-production:DeadLetters:Arn' },
+      },
+      SplitExportTopic: { Value: { Ref: 'Topic' }, Export: { Name: 'app-production:Topic' } },
+    })
+    expect(first.template.Parameters).toEqual(app.Parameters)
+    expect(first.template.Resources.Jobs.Properties).toEqual({
+      RedrivePolicy: { deadLetterTargetArn: { 'Fn::ImportValue': 'app-production:DeadLetters:Arn' } },
+    })
+    expect(first.template.Resources.Subscription).toMatchObject({
+      DependsOn: 'Jobs',
+      Properties: { TopicArn: { 'Fn::ImportValue': 'app-production:Topic' }, Endpoint: { 'Fn::GetAtt': 'Jobs.Arn' } },
+    })
+    expect(second.template.Resources.Alarm.Properties).toEqual({
+      AlarmDescription: {
+        'Fn::Sub': [
+          'Backlog on ${ImportJobsQueueName} in ${AWS::Region}',
+          { ImportJobsQueueName: { 'Fn::ImportValue': 'app-production-part-1:Jobs:QueueName' } },
+        ],
+      },
+    })
+  })
+
+  it('keeps deployed resources in their stack across runs', () => {
+    const options = { stackName: 'app-production', maxResources: 2 }
+    const first = splitStackTemplate(app, options)
+    const grown = template({ Extra: queue({ Target: { Ref: 'Jobs' } }), ...app.Resources })
+    const next = splitStackTemplate(grown, { ...options, previous: first.assignments })
+
+    expect(next.assignments).toEqual({ ...first.assignments, Extra: 'app-production-part-2' })
+    expect(splitStackTemplate(grown, { ...options, previous: next.assignments })).toEqual(next)
+  })
+
+  it('retires parts that no longer hold resources and keeps exports still in use', () => {
+    const previous = {
+      Topic: 'app-production',
+      DeadLetters: 'app-production',
+      Legacy: 'app-production-part-1',
+    }
+    const plan = splitStackTemplate(template({ Topic: app.Resources.Topic, DeadLetters: queue() }), {
+      stackName: 'app-production',
+      previous,
+    })
+    expect(plan.split).toBe(false)
+    expect(plan.retired).toEqual(['app-production-part-1'])
+
+    const kept = splitStackTemplate(app, {
+      stackName: 'app-production',
+      maxResources: 2,
+      exports: ['app-production:Topic', 'app-production:DeadLetters:QueueName', 'app-production:Gone'],
+    })
+    expect(Object.keys(kept.stacks[0].template.Outputs ?? {})).toContain('SplitExportDeadLettersQueueName')
+    expect(Object.keys(kept.stacks[0].template.Outputs ?? {})).not.toContain('SplitExportGone')
+  })
+
+  it('refuses resources too large for any stack', () => {
+    const big = template({ Topic: queue({ Policy: 'x'.repeat(2_000) }) })
+    expect(() => splitStackTemplate(big, { stackName: 'app-production', maxBytes: 1_000 })).toThrow('too large')
+  })
+})
+
+describe('DependencyGraph references', () => {
+  it('follows string GetAtt and Fn::Sub references', () => {
+    const graph = new DependencyGraph()
+    for (const [id, resource] of Object.entries(app.Resources)) graph.addResource(id, resource)
+    expect(graph.getDependencies('Subscription').sort()).toEqual(['Jobs', 'Topic'])
+    expect(graph.getDependencies('Alarm')).toEqual(['Jobs'])
+    expect(graph.topologicalSort().indexOf('Jobs')).toBeLessThan(graph.topologicalSort().indexOf('Alarm'))
+  })
+})
@@ -61,6 +61,13 @@ import {
   registerTelemetryCommands,
   registerAlertingCommands,
   registerJobCommands,
+  registerDriftCommands,
+  registerImportCommands,
+  registerExportCommands,
+  registerChangeSetCommands,
+  registerKubernetesCommands,
+  registerPolicyCommands,
+  registerLocalCommands,
   registerTunnelCommands,
 } from './commands'
 
@@ -142,6 +149,13 @@ registerRuntimeCommands(app)
 registerTelemetryCommands(app)
 registerAlertingCommands(app)
 registerJobCommands(app)
+registerDriftCommands(app)
+registerImportCommands(app)
+registerExportCommands(app)
+registerChangeSetCommands(app)
+registerKubernetesCommands(app)
+registerPolicyCommands(app)
+registerLocalCommands(app)
 
 // Cost & Resources
 registerCostCommands(app)
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'bun:test'
+import { AlertStore } from '../../src/alerts'
+import { ControlPlaneStore } from '../../src/control-plane'
+import { TelemetryStore } from '../../src/telemetry'
+import { evaluateAlertRules } from './alerting'
+
+describe('alerts:evaluate', () => {
+  it('pages on SLO burn rates as well as telemetry rules', () => {
+    const controlPlane = new ControlPlaneStore({ path: ':memory:' }),
+      organization = controlPlane.createOrganization({ slug: 'acme', name: 'Acme' }),
+      project = controlPlane.createProject({ organizationId: organization.id, slug: 'app', name: 'App' }),
+      environment = controlPlane.createEnvironment({
+        projectId: project.id,
+        slug: 'production',
+        name: 'Production',
+        kind: 'production',
+      }),
+      now = new Date('2026-07-21T12:00:00Z'),
+      alerts = new AlertStore(controlPlane, { encryptionKey: 'test-key', now: () => now }),
+      telemetry = new TelemetryStore(controlPlane, { now: () => now })
+    telemetry.appendMany(
+      Array.from({ length: 20 }, (_, index) => ({
+        projectId: project.id,
+        environmentId: environment.id,
+        kind: 'request' as const,
+        source: 'edge',
+        name: 'http.request',
+        timestamp: '2026-07-21T11:58:00Z',
+        method: 'GET',
+        host: 'api.example.test',
+        pathTemplate: '/api/orders',
+        statusCode: index < 10 ? 503 : 200,
+        durationMs: 40,
+      })),
+    )
+    alerts.createSlo({
+      projectId: project.id,
+      environmentId: environment.id,
+      name: 'API availability',
+      service: 'api',
+      source: 'requests',
+      objective: 'availability',
+      targetPercent: 99,
+      windowDays: 30,
+    })
+
+    const evaluations = evaluateAlertRules(alerts, project.id, environment.id, now)
+    expect(evaluations.map((item) => item.transition)).toEqual(['firing', 'firing', 'firing', 'firing'])
+    expect(evaluations[0]?.alert).toMatchObject({ evidence: { slo: 'API availability' } })
+    controlPlane.close()
+  })
+})
@@ -1,7 +1,14 @@
 import type { CLI } from '@stacksjs/clapp'
 import type { EnvironmentType } from '@ts-cloud/core'
+import type { AlertEvaluation } from '../../src/alerts'
 import * as output from '../../src/utils/cli'
-import { AlertStore, evaluateTelemetryAlertRules, HealthCheckRunner, NotificationRouter } from '../../src/alerts'
+import {
+  AlertStore,
+  evaluateSloAlertRules,
+  evaluateTelemetryAlertRules,
+  HealthCheckRunner,
+  NotificationRouter,
+} from '../../src/alerts'
 import { resolveAuthEncryptionKey } from '../../src/auth'
 import { initializeDashboardControlPlane } from '../../src/deploy/dashboard-control-plane'
 import { loadValidatedConfig } from './shared'
@@ -25,6 +32,19 @@ function notificationRouter(store: AlertStore): NotificationRouter {
   })
 }
 
+/** Evaluate every persisted rule of an environment: telemetry thresholds and SLO burn rates. */
+export function evaluateAlertRules(
+  alerts: AlertStore,
+  projectId: string,
+  environmentId?: string,
+  now: Date = new Date(),
+): AlertEvaluation[] {
+  return [
+    ...evaluateTelemetryAlertRules(alerts, projectId, environmentId, now),
+    ...evaluateSloAlertRules(alerts, projectId, environmentId, now),
+  ]
+}
+
 export function registerAlertingCommands(app: CLI): void {
   app
     .command('health:list', 'List configured health checks and latest results')
@@ -112,16 +132,12 @@ export function registerAlertingCommands(app: CLI): void {
       }
     })
   app
-    .command('alerts:evaluate', 'Evaluate persisted telemetry rules now')
+    .command('alerts:evaluate', 'Evaluate persisted telemetry and SLO burn-rate rules now')
     .option('--env <environment>', 'Target environment')
     .action(async (options: { env?: string }) => {
       const value = await context(options.env)
       try {
-        const results = evaluateTelemetryAlertRules(
-          value.alerts,
-          value.controlPlane.project.id,
-          value.environmentRecord?.id,
-        )
+        const results = evaluateAlertRules(value.alerts, value.controlPlane.project.id, value.environmentRecord?.id)
         output.info(JSON.stringify(results, null, 2))
       } finally {
         value.controlPlane.store.close()
@@ -0,0 +1,152 @@
+import type { CLI } from '@stacksjs/clapp'
+import type { EnvironmentType } from '@ts-cloud/core'
+import type { StackChangeSet, StackChangeSetStatus } from '../../src/change-sets'
+import * as output from '../../src/utils/cli'
+import { ChangeSetService, StackChangeSetStore } from '../../src/change-sets'
+import { initializeDashboardControlPlane } from '../../src/deploy/dashboard-control-plane'
+import { loadValidatedConfig } from './shared'
+
+async function context() {
+  const config = await loadValidatedConfig()
+  const controlPlane = initializeDashboardControlPlane(process.cwd(), config)
+  const store = new StackChangeSetStore(controlPlane.store)
+  const actor =
+    controlPlane.store.getActorByExternalId('system', 'cli') ??
+    controlPlane.store.createActor({ kind: 'system', externalId: 'cli', displayName: 'ts-cloud CLI' })
+  return { config, controlPlane, store, service: new ChangeSetService(store), actor }
+}
+
+type ChangeSetContext = Awaited<ReturnType<typeof context>>
+
+async function withContext(callback: (value: ChangeSetContext) => Promise<void> | void): Promise<void> {
+  const value = await context()
+  try {
+    await callback(value)
+  } catch (error) {
+    output.error(error instanceof Error ? error.message : String(error))
+    process.exitCode = 1
+  } finally {
+    value.controlPlane.store.close()
+  }
+}
+
+function describeSummary(changeSet: StackChangeSet): string {
+  const { added, updated, removed, replaced } = changeSet.summary
+  return `+${added} ~${updated} -${removed} ±${replaced}`
+}
+
+function approvedCount(value: ChangeSetContext, changeSet: StackChangeSet): number {
+  return value.store.approvals(changeSet.id).filter((approval) => approval.decision === 'approved').length
+}
+
+function printChangeSet(value: ChangeSetContext, changeSet: StackChangeSet): void {
+  output.header(`Change set ${changeSet.id}`)
+  output.info(`Stack: ${changeSet.stackName} (${changeSet.region}), ${changeSet.changeSetType.toLowerCase()}`)
+  output.info(`Status: ${changeSet.status}`)
+  output.info(`Changes: ${describeSummary(changeSet)}`)
+  for (const replacement of changeSet.summary.replacements)
+    output.warn(
+      `  Replaces ${replacement.logicalId} (${replacement.resourceType})` +
+        (replacement.reason ? `: ${replacement.reason}` : ''),
+    )
+  for (const change of changeSet.summary.dangerousChanges) output.warn(`  ${change}`)
+  output.info(`Expires: ${changeSet.expiresAt}`)
+  if (changeSet.error) output.error(changeSet.error)
+  output.info(`Approvals: ${approvedCount(value, changeSet)}/${changeSet.requiredApprovals}`)
+  for (const approval of value.store.approvals(changeSet.id))
+    output.info(`  ${approval.decision} by ${approval.actorId}${approval.comment ? `: ${approval.comment}` : ''}`)
+  output.info('History:')
+  for (const event of value.store.events(changeSet.id)) output.info(`  ${event.createdAt} ${event.type}`)
+}
+
+export function registerChangeSetCommands(app: CLI): void {
+  app
+    .command('changeset:list', 'List stack change sets held for review')
+    .option('--env <environment>', 'Target environment')
+    .option('--status <status>', 'Only change sets in this status')
+    .option('--json', 'Print structured JSON')
+    .action(async (options: { env?: string; status?: StackChangeSetStatus; json?: boolean }) => {
+      await withContext((value) => {
+        const env = options.env as EnvironmentType | undefined
+        const environmentRecord = env ? value.controlPlane.environments.get(env) : undefined
+        if (env && !environmentRecord) throw new Error(`Environment ${env} was not found`)
+        value.store.expireDue(value.controlPlane.project.id)
+        const changeSets = value.store.list(value.controlPlane.project.id, {
+          environmentId: environmentRecord?.id,
+          status: options.status,
+        })
+        if (options.json) output.info(JSON.stringify(changeSets, null, 2))
+        else
+          output.table(
+            ['ID', 'Stack', 'Status', 'Changes', 'Approvals', 'Expires'],
+            changeSets.map((item) => [
+              item.id,
+              item.stackName,
+              item.status,
+              describeSummary(item),
+              `${approvedCount(value, item)}/${item.requiredApprovals}`,
+              item.expiresAt,
+            ]),
+          )
+      })
+    })
+  app
+    .command('changeset:show <changeSet>', 'Show a change set with its approvals and audit history')
+    .option('--json', 'Print structured JSON')
+    .action(async (id: string, options: { json?: boolean }) => {
+      await withContext((value) => {
+        const changeSet = value.store.get(id)
+        if (!changeSet) throw new Error(`Change set ${id} was not found`)
+        if (options.json)
+          output.info(
+            JSON.stringify(
+              { changeSet, approvals: value.store.approvals(id), events: value.store.events(id) },
+              null,
+              2,
+            ),
+          )
+        else printChangeSet(value, changeSet)
+      })
+    })
+  app
+    .command('changeset:approve <changeSet>', 'Approve or reject a pending change set')
+    .option('--actor <id>', 'Approving actor ID')
+    .option('--reject', 'Reject instead')
+    .option('--comment <text>', 'Approval comment')
+    .action(async (id: string, options: { actor?: string; reject?: boolean; comment?: string }) => {
+      await withContext((value) => {
+        if (!options.actor) throw new Error('--actor is required')
+        const changeSet = value.store.decide(id, {
+          actorId: options.actor,
+          decision: options.reject ? 'rejected' : 'approved',
+          comment: options.comment,
+        })
+        output.success(`Change set is ${changeSet.status}`)
+        if (changeSet.status === 'approved') output.info(`Apply it with \`cloud changeset:execute ${changeSet.id}\`.`)
+      })
+    })
+  app
+    .command('changeset:execute <changeSet>', 'Execute an approved change set')
+    .option('--actor <id>', 'Executing actor ID')
+    .action(async (id: string, options: { actor?: string }) => {
+      await withContext(async (value) => {
+        output.step(`Executing change set ${id}...`)
+        const changeSet = await value.service.execute(id, { actorId: options.actor ?? value.actor.id })
+        if (changeSet.status !== 'executed') throw new Error(changeSet.error ?? `Change set is ${changeSet.status}`)
+        output.success(`${changeSet.stackName} updated`)
+      })
+    })
+  app
+    .command('changeset:cancel <changeSet>', 'Cancel an open change set')
+    .option('--actor <id>', 'Cancelling actor ID')
+    .option('--reason <text>', 'Why the change set is cancelled')
+    .action(async (id: string, options: { actor?: string; reason?: string }) => {
+      await withContext(async (value) => {
+        const changeSet = await value.service.cancel(id, {
+          actorId: options.actor ?? value.actor.id,
+          reason: options.reason,
+        })
+        output.success(`Change set ${changeSet.id} is ${changeSet.status}`)
+      })
+    })
+}
@@ -1,4 +1,5 @@
 import type { CLI } from '@stacksjs/clapp'
+import type { StackCostEstimate } from '../../src/cost/estimate'
 import * as cli from '../../src/utils/cli'
 import { CostExplorerClient } from '../../src/aws/cost-explorer'
 import { cacheLocation, clearCache } from '../../src/aws/cost-explorer-cache'
@@ -6,6 +7,7 @@ import { S3Client } from '../../src/aws/s3'
 import { compareServiceCosts, egressUsageCosts, monthToDateRange, percentChange, projectedMonthlyCost, rollingComparisonRange } from '../../src/cost/reporting'
 import { ResourceInventoryClient } from '../../src/cost/resource-inventory'
 import { ResourceOptimizationService } from '../../src/cost/resource-optimization'
+import { formatCents } from '../../src/spend'
 
 const S3_SERVICE_NAME = 'Amazon Simple Storage Service'
 
@@ -29,6 +31,39 @@ function formatTrend(change: number | null): string {
   return `${change > 0 ? '↑' : '↓'} ${Math.abs(change).toFixed(1)}%`
 }
 
+function signedCents(cents: number, currency: string): string {
+  return `${cents < 0 ? '-' : '+'}${formatCents(Math.abs(cents), currency)}`
+}
+
+const ACTION_MARKS = { add: '+', remove: '-', replace: '±', update: '~' } as const
+
+/** The estimated monthly cost change of a stack update, as `diff` and `deploy` print it. */
+export function printStackCostEstimate(estimate: StackCostEstimate): void {
+  cli.info(`\nEstimated monthly cost (catalog ${estimate.catalogVersion}, ${estimate.catalogRegion} list prices):`)
+  if (estimate.resources.length === 0) {
+    cli.info('  No priced resources change.')
+    return
+  }
+  cli.table(
+    ['', 'Resource', 'Type', 'Priced as', 'Monthly'],
+    estimate.resources.map((resource) => [
+      ACTION_MARKS[resource.action],
+      resource.logicalId,
+      resource.resourceType,
+      resource.unpriced ?? resource.basis,
+      resource.unpriced
+        ? 'not priced'
+        : `${signedCents(resource.deltaCents, estimate.currency)}${resource.usageBased ? ' *' : ''}`,
+    ]),
+  )
+  if (estimate.resources.some((resource) => resource.usageBased))
+    cli.info('  * Priced from assumed monthly usage, not from provisioned capacity.')
+  cli.info(
+    `  Change: ${signedCents(estimate.monthlyDeltaCents, estimate.currency)} a month ` +
+      `(${formatCents(estimate.monthlyCents, estimate.currency)} a month for the new template)`,
+  )
+}
+
 function costError(error: unknown): void {
   cli.error(`Cost Explorer request failed: ${error instanceof Error ? error.message : String(error)}`)
   cli.info('\nThis command needs the ce:GetCostAndUsage IAM permission.')
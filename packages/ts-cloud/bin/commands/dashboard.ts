@@ -1,10 +1,11 @@
 import type { CLI } from '@stacksjs/clapp'
+import type { AuthAccessRequestState, AuthOidcRole, AuthSamlRoleMapping } from '../../src/auth'
 import type { AuthorizationCapability, AuthorizationEffect, AuthorizationScope, ControlPlaneSnapshot, OrganizationRoleTemplate } from '../../src/control-plane'
 import { chmodSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
 import { dirname, resolve } from 'node:path'
 import * as cli from '../../src/utils/cli'
 import { TsCloudClient } from '../../src/api'
-import { AuthenticationStore, discoverOidcProvider, resolveAuthEncryptionKey } from '../../src/auth'
+import { AccessRequestStore, AuthenticationStore, discoverOidcProvider, fetchSamlIdpMetadata, parseSamlIdpMetadata, renderSamlServiceProviderMetadata, resolveAuthEncryptionKey, ScimProvisioningStore } from '../../src/auth'
 import { AutomationIdentityStore } from '../../src/automation'
 import { AUTHORIZATION_CAPABILITIES, ControlPlaneStore } from '../../src/control-plane'
 import { startLocalDashboardServer } from '../../src/deploy/local-dashboard-server'
@@ -36,6 +37,12 @@ function resolveOrganization(store: ControlPlaneStore, value: string) {
   return organization
 }
 
+function resolveCustomRole(store: ControlPlaneStore, organizationId: string, value: string) {
+  const role = store.getCustomRole(value) ?? store.getCustomRoleBySlug(organizationId, value)
+  if (!role || role.organizationId !== organizationId) throw new Error(`Custom role '${value}' was not found.`)
+  return role
+}
+
 function commandScope(type?: string, id?: string): AuthorizationScope {
   const scopeType = type ?? 'organization'
   if (scopeType === 'organization') return { type: 'organization' }
@@ -44,6 +51,18 @@ function commandScope(type?: string, id?: string): AuthorizationScope {
   return { type: scopeType as 'project' | 'environment' | 'resource', id }
 }
 
+function commandDuration(value: string): number {
+  const match = /^(\d+)(m|h)$/.exec(value.trim())
+  if (!match) throw new Error('Pass --duration as minutes or hours, such as 30m or 2h.')
+  return Number(match[1]) * (match[2] === 'h' ? 3600 : 60)
+}
+
+function membershipActor(store: ControlPlaneStore, membershipId: string): string {
+  const membership = store.getMembership(membershipId)
+  if (!membership) throw new Error(`Membership '${membershipId}' was not found.`)
+  return membership.actorId
+}
+
 function resolveAuthIdentity(authentication: AuthenticationStore, value: string) {
   const identity = value.includes('@')
     ? authentication.getIdentityByEmail(value)
@@ -213,7 +232,7 @@ export function registerDashboardCommands(app: CLI): void {
           )
           for (const grant of store.listGrants(membership.id))
             cli.info(
-              `  ${grant.effect} ${grant.capability} @ ${grant.scope.type}:${grant.scope.id ?? organization.slug}`,
+              `  ${grant.effect} ${grant.capability} @ ${grant.scope.type}:${grant.scope.id ?? organization.slug}  ${grant.source}`,
             )
         }
       } finally {
@@ -324,6 +343,317 @@ export function registerDashboardCommands(app: CLI): void {
       },
     )
 
+  app
+    .command('organization:roles <organization>', 'List custom roles, their rules and who holds them')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .action((organizationValue: string, options?: { path?: string }) => {
+      const store = openControlPlane(options?.path)
+      try {
+        const organization = resolveOrganization(store, organizationValue)
+        cli.header(`${organization.name} custom roles`)
+        for (const role of store.listCustomRoles(organization.id)) {
+          cli.info(`${role.slug}  ${role.name}  v${role.version}  ${role.id}`)
+          for (const rule of role.rules) cli.info(`  ${rule.effect} ${rule.capability}`)
+          for (const assignment of store.listCustomRoleAssignments(organization.id, { roleId: role.id }))
+            cli.info(
+              `  held by ${assignment.membershipId} @ ${assignment.scope.type}:${assignment.scope.id ?? organization.slug}  ${assignment.id}`,
+            )
+        }
+      } finally {
+        store.close()
+      }
+    })
+
+  app
+    .command('organization:role:save <organization> <slug>', 'Create a custom role or save a new version of it')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .option('--name <name>', 'Display name')
+    .option('--description <text>', 'What the role is for')
+    .option('--allow <list>', 'Comma-separated capabilities the role allows')
+    .option('--deny <list>', 'Comma-separated capabilities the role denies')
+    .option('--expected-version <version>', 'Refuse to save unless the role is at this version; 0 for a new role')
+    .option('--preview', 'Show how the access of current holders would change without saving')
+    .action(
+      (
+        organizationValue: string,
+        slug: string,
+        options?: {
+          path?: string
+          name?: string
+          description?: string
+          allow?: string
+          deny?: string
+          expectedVersion?: string
+          preview?: boolean
+        },
+      ) => {
+        const store = openControlPlane(options?.path)
+        try {
+          const organization = resolveOrganization(store, organizationValue)
+          const rules = (['allow', 'deny'] as const).flatMap((effect) =>
+            (options?.[effect] ?? '')
+              .split(',')
+              .map((value) => value.trim())
+              .filter(Boolean)
+              .map((capability) => ({ effect, capability: capability as AuthorizationCapability })),
+          )
+          const input = {
+            organizationId: organization.id,
+            slug,
+            name: options?.name,
+            description: options?.description,
+            rules,
+            expectedVersion: options?.expectedVersion === undefined ? undefined : Number(options.expectedVersion),
+          }
+          const preview = store.previewCustomRole(input)
+          for (const change of preview.changes)
+            cli.info(
+              `${change.membershipId} @ ${change.scope.type}:${change.scope.id ?? organization.slug}  +${change.gained.join(',') || '-'}  -${change.lost.join(',') || '-'}`,
+            )
+          if (options?.preview) {
+            cli.info(`Preview of version ${preview.version}; nothing was saved.`)
+            return
+          }
+          const role = store.saveCustomRole(input)
+          cli.success(`${role.slug} is at version ${role.version} with ${role.rules.length} rule(s).`)
+        } finally {
+          store.close()
+        }
+      },
+    )
+
+  app
+    .command('organization:role:history <organization> <role>', 'List the saved versions of a custom role')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .action((organizationValue: string, roleValue: string, options?: { path?: string }) => {
+      const store = openControlPlane(options?.path)
+      try {
+        const organization = resolveOrganization(store, organizationValue)
+        const role = resolveCustomRole(store, organization.id, roleValue)
+        cli.header(`${role.name} versions`)
+        for (const version of store.listCustomRoleVersions(role.id))
+          cli.info(
+            `v${version.version}  ${version.createdAt}  ${version.rules.map((rule) => `${rule.effect}:${rule.capability}`).join(' ') || 'no rules'}`,
+          )
+      } finally {
+        store.close()
+      }
+    })
+
+  app
+    .command('organization:role:assign <organization> <role> <membership>', 'Give a member a custom role at a scope')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .option('--scope <scope>', 'organization|project|environment|resource', { default: 'organization' })
+    .option('--scope-id <id>', 'Project, environment, or resource ID')
+    .option('--preview', 'Show the effective-access diff without assigning')
+    .action(
+      (
+        organizationValue: string,
+        roleValue: string,
+        membership: string,
+        options?: { path?: string; scope?: string; scopeId?: string; preview?: boolean },
+      ) => {
+        const store = openControlPlane(options?.path)
+        try {
+          const organization = resolveOrganization(store, organizationValue)
+          const role = resolveCustomRole(store, organization.id, roleValue)
+          const input = {
+            organizationId: organization.id,
+            roleId: role.id,
+            membershipId: membership,
+            scope: commandScope(options?.scope, options?.scopeId),
+          }
+          const change = store.previewCustomRoleAssignment(input)
+          cli.info(`Gained: ${change.gained.join(', ') || 'none'}`)
+          cli.info(`Lost: ${change.lost.join(', ') || 'none'}`)
+          if (options?.preview) return
+          const assignment = store.assignCustomRole(input)
+          cli.success(`${role.slug} assigned at ${assignment.scope.type} scope (${assignment.id}).`)
+        } finally {
+          store.close()
+        }
+      },
+    )
+
+  app
+    .command('organization:role:unassign <assignment>', 'Remove a custom role assignment and the access it gave')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .action((assignment: string, options?: { path?: string }) => {
+      const store = openControlPlane(options?.path)
+      try {
+        if (!store.unassignCustomRole(assignment)) throw new Error(`Role assignment '${assignment}' was not found.`)
+        cli.success(`Role assignment ${assignment} removed.`)
+      } finally {
+        store.close()
+      }
+    })
+
+  app
+    .command('organization:role:delete <organization> <role>', 'Delete a custom role and remove it from every holder')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .option('--confirm <slug>', 'Type the role slug to confirm')
+    .action((organizationValue: string, roleValue: string, options?: { path?: string; confirm?: string }) => {
+      const store = openControlPlane(options?.path)
+      try {
+        const organization = resolveOrganization(store, organizationValue)
+        const role = resolveCustomRole(store, organization.id, roleValue)
+        if (options?.confirm !== role.slug) throw new Error(`Pass --confirm ${role.slug} to delete this role.`)
+        store.deleteCustomRole(role.id)
+        cli.success(`Custom role ${role.slug} deleted.`)
+      } finally {
+        store.close()
+      }
+    })
+
+  app
+    .command('organization:access:request <organization> <membership> <capability>', 'Ask for time-boxed access')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .option('--scope <scope>', 'organization|project|environment|resource', { default: 'organization' })
+    .option('--scope-id <id>', 'Project, environment, or resource ID')
+    .option('--justification <text>', 'Why the access is needed, such as an incident link')
+    .option('--duration <duration>', 'How long the access lasts once approved, such as 30m or 2h', { default: '1h' })
+    .action(
+      (
+        organizationValue: string,
+        membership: string,
+        capabilityValue: string,
+        options?: { path?: string; scope?: string; scopeId?: string; justification?: string; duration?: string },
+      ) => {
+        const store = openControlPlane(options?.path)
+        try {
+          const organization = resolveOrganization(store, organizationValue)
+          const request = new AccessRequestStore(store).request({
+            organizationId: organization.id,
+            membershipId: membership,
+            capability: capabilityValue as AuthorizationCapability,
+            scope: commandScope(options?.scope, options?.scopeId),
+            justification: options?.justification ?? '',
+            durationSeconds: commandDuration(options?.duration ?? '1h'),
+          })
+          cli.success(`Access request ${request.id} is waiting for approval.`)
+        } finally {
+          store.close()
+        }
+      },
+    )
+
+  app
+    .command('organization:access:requests <organization>', 'List access requests and time-boxed grants')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .option('--state <state>', 'pending|approved|denied|cancelled|revoked|expired')
+    .action((organizationValue: string, options?: { path?: string; state?: string }) => {
+      const store = openControlPlane(options?.path)
+      try {
+        const organization = resolveOrganization(store, organizationValue)
+        cli.header(`${organization.name} access requests`)
+        const states = options?.state ? [options.state as AuthAccessRequestState] : undefined
+        for (const request of new AccessRequestStore(store).list(organization.id, { states })) {
+          cli.info(
+            `${request.capability} @ ${request.scope.type}:${request.scope.id ?? organization.slug}  ${request.state}${request.breakGlass ? ' (break-glass)' : ''}  ${request.membershipId}  ${request.id}`,
+          )
+          cli.info(`  ${request.justification}`)
+          if (request.expiresAt) cli.info(`  until ${request.endedAt ?? request.expiresAt}`)
+        }
+      } finally {
+        store.close()
+      }
+    })
+
+  for (const [verb, description] of [
+    ['approve', 'Approve an access request and start its time-boxed grant'],
+    ['deny', 'Deny a pending access request'],
+    ['revoke', 'End approved access before it runs out'],
+  ] as const) {
+    app
+      .command(`organization:access:${verb} <request>`, description)
+      .option('--path <path>', 'Use a non-default control-plane database')
+      .option('--as <membership>', 'Membership ID of the member making the decision')
+      .option('--note <text>', 'Note recorded with the decision')
+      .action((requestId: string, options?: { path?: string; as?: string; note?: string }) => {
+        if (!options?.as) throw new Error('Pass --as <membership> to record who made the decision.')
+        const store = openControlPlane(options.path)
+        try {
+          const decision = { actorId: membershipActor(store, options.as), note: options.note }
+          const request = new AccessRequestStore(store)[verb](requestId, decision)
+          cli.success(
+            `Access request ${request.id} is ${request.state}${request.state === 'approved' ? ` until ${request.expiresAt}` : ''}.`,
+          )
+        } finally {
+          store.close()
+        }
+      })
+  }
+
+  app
+    .command('organization:access:break-glass <organization>', 'List who may give themselves break-glass access')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .action((organizationValue: string, options?: { path?: string }) => {
+      const store = openControlPlane(options?.path)
+      try {
+        const organization = resolveOrganization(store, organizationValue)
+        cli.header(`${organization.name} break-glass eligibility`)
+        for (const entry of new AccessRequestStore(store).listBreakGlassEligibility(organization.id))
+          cli.info(`${entry.roleTemplate ? `role:${entry.roleTemplate}` : entry.membershipId}  ${entry.capability}`)
+      } finally {
+        store.close()
+      }
+    })
+
+  for (const [verb, description] of [
+    ['allow', 'Let a role template or a member use break-glass for a capability'],
+    ['remove', 'Stop a role template or a member from using break-glass for a capability'],
+  ] as const) {
+    app
+      .command(`organization:access:break-glass:${verb} <organization> <capability>`, description)
+      .option('--path <path>', 'Use a non-default control-plane database')
+      .option('--role <role>', 'owner|admin|deployer|operator|viewer|auditor')
+      .option('--membership <id>', 'One membership instead of a role template')
+      .action(
+        (
+          organizationValue: string,
+          capabilityValue: string,
+          options?: { path?: string; role?: string; membership?: string },
+        ) => {
+          const store = openControlPlane(options?.path)
+          try {
+            const organization = resolveOrganization(store, organizationValue)
+            const access = new AccessRequestStore(store)
+            const entry = {
+              roleTemplate: options?.role as OrganizationRoleTemplate | undefined,
+              membershipId: options?.membership,
+              capability: capabilityValue as AuthorizationCapability,
+            }
+            const others = access
+              .listBreakGlassEligibility(organization.id)
+              .filter(
+                (item) =>
+                  item.roleTemplate !== entry.roleTemplate ||
+                  item.membershipId !== entry.membershipId ||
+                  item.capability !== entry.capability,
+              )
+            const entries = verb === 'allow' ? [...others, entry] : others
+            const saved = access.setBreakGlassEligibility(organization.id, entries)
+            cli.success(`${saved.length} break-glass entr${saved.length === 1 ? 'y' : 'ies'} saved.`)
+          } finally {
+            store.close()
+          }
+        },
+      )
+  }
+
+  app
+    .command('organization:access:expire', 'End approved access whose time has run out')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .action((options?: { path?: string }) => {
+      const store = openControlPlane(options?.path)
+      try {
+        const expired = new AccessRequestStore(store).expire()
+        cli.success(`${expired.length} access request(s) expired.`)
+      } finally {
+        store.close()
+      }
+    })
+
   app
     .command('organization:revoke-member <membership>', 'Revoke a membership and invalidate its sessions')
     .option('--path <path>', 'Use a non-default control-plane database')
@@ -573,6 +903,260 @@ export function registerDashboardCommands(app: CLI): void {
       }
     })
 
+  app
+    .command('auth:saml:list <organization>', 'List SAML providers and their IdP endpoints')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .action((organizationValue: string, options?: { path?: string }) => {
+      const store = openControlPlane(options?.path)
+      try {
+        const organization = resolveOrganization(store, organizationValue)
+        const authentication = encryptedAuthentication(store)
+        cli.header(`${organization.name} SAML providers`)
+        const providers = authentication.listSamlProviders(organization.id, { includeDisabled: true })
+        if (providers.length === 0) cli.info('No providers configured.')
+        for (const provider of providers)
+          cli.info(
+            `${provider.enabled ? 'enabled' : 'disabled'}  ${provider.slug}  ${provider.entityId}  role=${provider.defaultRole}  mappings=${provider.roleMappings.length}  idp-initiated=${provider.allowIdpInitiated}  enforce=${provider.enforceSso}`,
+          )
+      } finally {
+        store.close()
+      }
+    })
+
+  app
+    .command('auth:saml:configure <organization> <slug>', 'Create or update a SAML provider from IdP metadata')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .option('--auth-root <path>', 'Directory containing .ts-cloud/auth-encryption-key')
+    .option('--name <name>', 'Provider label shown on the sign-in page')
+    .option('--metadata-url <url>', 'HTTPS URL of the IdP metadata document')
+    .option('--metadata-file <path>', 'Local copy of the IdP metadata document')
+    .option('--entity-id <id>', 'IdP entity ID to pick from an aggregate metadata document')
+    .option('--domains <domains>', 'Comma-separated verified email domains')
+    .option('--default-role <role>', 'Role when no mapping matches: admin, deployer, operator, viewer, or auditor', {
+      default: 'viewer',
+    })
+    .option('--role-map <mappings>', 'Comma-separated group=role pairs; the first match wins')
+    .option('--email-attribute <name>', 'Attribute holding the email address')
+    .option('--groups-attribute <name>', 'Attribute holding group names')
+    .option('--idp-initiated', 'Accept sign-ins that start at the IdP')
+    .option('--enforce-sso', 'Require SSO for matching non-owner local accounts')
+    .option('--disabled', 'Save the provider disabled')
+    .action(
+      async (
+        organizationValue: string,
+        slug: string,
+        options?: {
+          path?: string
+          authRoot?: string
+          name?: string
+          metadataUrl?: string
+          metadataFile?: string
+          entityId?: string
+          domains?: string
+          defaultRole?: string
+          roleMap?: string
+          emailAttribute?: string
+          groupsAttribute?: string
+          idpInitiated?: boolean
+          enforceSso?: boolean
+          disabled?: boolean
+        },
+      ) => {
+        const roles = ['admin', 'deployer', 'operator', 'viewer', 'auditor']
+        const metadata = options?.metadataFile
+          ? parseSamlIdpMetadata(readFileSync(resolve(options.metadataFile), 'utf8'), { entityId: options.entityId })
+          : options?.metadataUrl
+            ? await fetchSamlIdpMetadata(options.metadataUrl, { entityId: options.entityId })
+            : undefined
+        const roleMappings = options?.roleMap
+          ?.split(',')
+          .map((value) => value.trim())
+          .filter(Boolean)
+          .map((pair) => {
+            const separator = pair.lastIndexOf('=')
+            const role = pair.slice(separator + 1).trim()
+            if (separator < 1 || !roles.includes(role)) throw new Error(`Role mapping '${pair}' must be group=role.`)
+            return { value: pair.slice(0, separator).trim(), role } as AuthSamlRoleMapping
+          })
+        const store = openControlPlane(options?.path)
+        try {
+          const organization = resolveOrganization(store, organizationValue)
+          const authentication = encryptedAuthentication(store, options?.authRoot)
+          const existing = authentication.getSamlProviderBySlug(slug)
+          if (!existing && !metadata) throw new Error('Pass --metadata-url or --metadata-file to create this provider.')
+          const allowedDomains = (options?.domains ?? existing?.allowedDomains.join(',') ?? '')
+            .split(',')
+            .map((value) => value.trim())
+            .filter(Boolean)
+          const defaultRole = options?.defaultRole ?? existing?.defaultRole ?? 'viewer'
+          if (!roles.includes(defaultRole))
+            throw new Error('Default role must be admin, deployer, operator, viewer, or auditor.')
+          const provider = authentication.upsertSamlProvider({
+            id: existing?.id,
+            organizationId: organization.id,
+            slug,
+            name: options?.name ?? existing?.name ?? slug,
+            metadata,
+            allowedDomains,
+            defaultRole: defaultRole as AuthOidcRole,
+            roleMappings,
+            attributeMapping:
+              options?.emailAttribute || options?.groupsAttribute
+                ? {
+                    ...existing?.attributeMapping,
+                    email: options.emailAttribute ?? existing?.attributeMapping.email,
+                    groups: options.groupsAttribute ?? existing?.attributeMapping.groups,
+                  }
+                : undefined,
+            allowIdpInitiated: options?.idpInitiated ?? existing?.allowIdpInitiated ?? false,
+            enforceSso: options?.enforceSso ?? existing?.enforceSso ?? false,
+            enabled: options?.disabled ? false : (existing?.enabled ?? true),
+          })
+          cli.success(
+            `${provider.name} saved as ${provider.enabled ? 'enabled' : 'disabled'} for ${provider.entityId}.`,
+          )
+          cli.info(`Give the IdP our metadata: cloud auth:saml:metadata ${provider.slug} --origin <dashboard origin>`)
+          if (provider.enforceSso)
+            cli.info(`Offline recovery: cloud auth:saml:disable ${provider.slug} --confirm ${provider.slug}`)
+        } finally {
+          store.close()
+        }
+      },
+    )
+
+  app
+    .command('auth:saml:metadata <slug>', 'Print the service provider metadata to import into the IdP')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .option('--auth-root <path>', 'Directory containing .ts-cloud/auth-encryption-key')
+    .option('--origin <url>', 'Public dashboard origin (defaults to TS_CLOUD_DASHBOARD_ORIGIN)')
+    .action((slug: string, options?: { path?: string; authRoot?: string; origin?: string }) => {
+      const origin = options?.origin ?? process.env.TS_CLOUD_DASHBOARD_ORIGIN?.trim()
+      if (!origin) throw new Error('Pass --origin or set TS_CLOUD_DASHBOARD_ORIGIN to the dashboard origin.')
+      const store = openControlPlane(options?.path)
+      try {
+        const authentication = encryptedAuthentication(store, options?.authRoot)
+        const provider = authentication.getSamlProviderBySlug(slug)
+        if (!provider) throw new Error(`SAML provider '${slug}' was not found.`)
+        console.log(renderSamlServiceProviderMetadata(provider, origin))
+      } finally {
+        store.close()
+      }
+    })
+
+  app
+    .command('auth:saml:disable <slug>', 'Disable a SAML provider through the offline recovery path')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .option('--auth-root <path>', 'Directory containing .ts-cloud/auth-encryption-key')
+    .option('--confirm <slug>', 'Type the provider slug to confirm')
+    .action((slug: string, options?: { path?: string; authRoot?: string; confirm?: string }) => {
+      if (options?.confirm !== slug) throw new Error(`Pass --confirm ${slug} to disable this provider.`)
+      const store = openControlPlane(options?.path)
+      try {
+        const authentication = encryptedAuthentication(store, options?.authRoot)
+        const provider = authentication.getSamlProviderBySlug(slug)
+        if (!provider) throw new Error(`SAML provider '${slug}' was not found.`)
+        authentication.setSamlProviderEnabled(provider.id, false)
+        cli.success(`Disabled ${provider.name}, cancelled pending sign-ins, and removed SSO enforcement.`)
+      } finally {
+        store.close()
+      }
+    })
+
+  app
+    .command('auth:scim:token <organization>', 'Issue the API token a SCIM client provisions users with')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .option('--expires-days <days>', 'Expiry in days, maximum 365', { default: '365' })
+    .action((organizationValue: string, options?: { path?: string; expiresDays?: string }) => {
+      const store = openControlPlane(options?.path)
+      try {
+        const organization = resolveOrganization(store, organizationValue)
+        const automation = new AutomationIdentityStore(store)
+        // users:manage is an admin capability, so the SCIM service account is an admin.
+        const account =
+          automation.getServiceAccountBySlug(organization.id, 'scim') ??
+          automation.createServiceAccount({
+            organizationId: organization.id,
+            slug: 'scim',
+            name: 'SCIM provisioning',
+            roleTemplate: 'admin',
+            scope: { type: 'organization' },
+          }).serviceAccount
+        const days = Math.min(365, Math.max(1, Number(options?.expiresDays ?? 365)))
+        const issued = automation.createToken({
+          serviceAccountId: account.id,
+          name: 'SCIM client',
+          capabilities: ['users:read', 'users:manage'],
+          scope: { type: 'organization' },
+          expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString(),
+        })
+        cli.success(`Created ${issued.token.prefix}; copy this secret now. It will not be shown again.`)
+        cli.info(issued.secret)
+        cli.info('Point the SCIM client at <dashboard origin>/scim/v2 with this secret as its bearer token.')
+      } finally {
+        store.close()
+      }
+    })
+
+  app
+    .command('auth:scim:groups <organization>', 'List SCIM groups and the roles they grant')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .action((organizationValue: string, options?: { path?: string }) => {
+      const store = openControlPlane(options?.path)
+      try {
+        const organization = resolveOrganization(store, organizationValue)
+        const scim = new ScimProvisioningStore(store, new AuthenticationStore(store))
+        cli.header(`${organization.name} SCIM groups`)
+        const groups = scim.listGroups(organization.id)
+        if (groups.length === 0) cli.info('No groups provisioned.')
+        for (const group of groups) {
+          const mapping = group.mapping
+            ? `role=${group.mapping.role}  scope=${group.mapping.scope.type}:${group.mapping.scope.id ?? organization.slug}`
+            : 'unmapped'
+          cli.info(`${group.id}  ${group.displayName}  members=${group.memberIds.length}  ${mapping}`)
+        }
+      } finally {
+        store.close()
+      }
+    })
+
+  app
+    .command('auth:scim:map-group <organization> <group>', 'Grant the members of a SCIM group a role')
+    .option('--path <path>', 'Use a non-default control-plane database')
+    .option('--role <role>', 'admin, deployer, operator, viewer, or auditor')
+    .option('--scope <scope>', 'organization, project, environment, or resource', { default: 'organization' })
+    .option('--scope-id <id>', 'Required for non-organization scope')
+    .option('--clear', 'Remove the mapping and the grants it gave')
+    .action(
+      (
+        organizationValue: string,
+        groupValue: string,
+        options?: { path?: string; role?: string; scope?: string; scopeId?: string; clear?: boolean },
+      ) => {
+        const store = openControlPlane(options?.path)
+        try {
+          const organization = resolveOrganization(store, organizationValue)
+          const scim = new ScimProvisioningStore(store, new AuthenticationStore(store))
+          const group = scim.findGroup(organization.id, groupValue)
+          if (!group) throw new Error(`SCIM group '${groupValue}' was not found.`)
+          if (!options?.clear && !options?.role) throw new Error('Pass --role, or --clear to remove the mapping.')
+          const mapped = scim.mapGroup(
+            organization.id,
+            group.id,
+            options?.clear
+              ? undefined
+              : { role: options!.role as AuthOidcRole, scope: commandScope(options?.scope, options?.scopeId) },
+          )
+          cli.success(
+            mapped.mapping
+              ? `Members of ${mapped.displayName} now receive ${mapped.mapping.role} at ${mapped.mapping.scope.type} scope.`
+              : `${mapped.displayName} no longer grants a role.`,
+          )
+        } finally {
+          store.close()
+        }
+      },
+    )
+
   app
     .command('api:service-accounts <organization>', 'List service accounts and safe token metadata')
     .option('--path <path>', 'Use a non-default control-plane database')
@@ -635,6 +1219,7 @@ export function registerDashboardCommands(app: CLI): void {
     .option('--path <path>', 'Use a non-default control-plane database')
     .option('--name <name>', 'Token label', { default: 'CLI token' })
     .option('--capabilities <list>', 'Comma-separated capabilities')
+    .option('--role <role>', 'Custom role whose current capabilities the token carries, instead of --capabilities')
     .option('--scope <scope>', 'organization, project, environment, or resource', { default: 'organization' })
     .option('--scope-id <id>', 'Required for non-organization scope')
     .option('--expires-days <days>', 'Expiry in days, maximum 365', { default: '90' })
@@ -646,6 +1231,7 @@ export function registerDashboardCommands(app: CLI): void {
           path?: string
           name?: string
           capabilities?: string
+          role?: string
           scope?: string
           scopeId?: string
           expiresDays?: string
@@ -664,13 +1250,15 @@ export function registerDashboardCommands(app: CLI): void {
             .split(',')
             .map((value) => value.trim())
             .filter((value) => AUTHORIZATION_CAPABILITIES.includes(value as any)) as AuthorizationCapability[]
-          if (!capabilities.length)
-            throw new Error(`Pass --capabilities with one or more of: ${AUTHORIZATION_CAPABILITIES.join(', ')}`)
+          const role = options?.role ? resolveCustomRole(store, organization.id, options.role) : undefined
+          if (!capabilities.length && !role)
+            throw new Error(`Pass --role, or --capabilities with one or more of: ${AUTHORIZATION_CAPABILITIES.join(', ')}`)
           const days = Math.min(365, Math.max(1, Number(options?.expiresDays ?? 90)))
           const issued = automation.createToken({
             serviceAccountId: account.id,
             name: options?.name ?? 'CLI token',
-            capabilities,
+            capabilities: role ? undefined : capabilities,
+            roleId: role?.id,
             scope: commandScope(options?.scope, options?.scopeId),
             expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString(),
           })
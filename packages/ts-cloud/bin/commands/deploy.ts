@@ -1,22 +1,26 @@
 import type { CLI } from '@stacksjs/clapp'
-import type { CloudConfig } from '@ts-cloud/core'
+import type { CloudConfig, PolicyEvaluation, PolicyTemplate, StackSplitPlan } from '@ts-cloud/core'
+import type { StackTag } from '../../src/aws/cloudformation'
 import type { DnsProvider, DnsProviderConfig } from '../../src/dns/types'
 import type { ScanResult, SecurityFinding } from '../../src/security/pre-deploy-scanner'
 import { execFileSync, execSync } from 'node:child_process'
 import { copyFileSync, existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs'
 import { tmpdir } from 'node:os'
 import { dirname, join as pathJoin, resolve as pathResolve } from 'node:path'
-import { deploymentCoexistenceError, resolveAppDatabase, resolveCloudProvider, resolveDeploymentMode, resolveProjectStackName, resolveSiteBucketName, resolveSiteResourceName, resolveSiteStackName } from '@ts-cloud/core'
+import { analyzeStackDiff, deploymentCoexistenceError, resolveAppDatabase, resolveCloudProvider, resolveDeploymentMode, resolveProjectStackName, resolveSiteBucketName, resolveSiteResourceName, resolveSiteStackName } from '@ts-cloud/core'
 import * as cli from '../../src/utils/cli'
 import { detectCredentialSource } from '../../src/aws/client'
 import { CloudFormationClient } from '../../src/aws/cloudformation'
+import { ChangeSetService, StackChangeSetStore } from '../../src/change-sets'
 import { CloudFrontClient } from '../../src/aws/cloudfront'
+import { estimateStackDiffCost } from '../../src/cost/estimate'
 import { ECRClient } from '../../src/aws/ecr'
 import { ECSClient } from '../../src/aws/ecs'
 import { S3Client } from '../../src/aws/s3'
 import { STSClient } from '../../src/aws/sts'
 import { initializeDashboardControlPlane } from '../../src/deploy/dashboard-control-plane'
 import { checkReleaseContent } from '../../src/deploy/release-content'
+import { readDeployedSplitState } from '../../src/deploy/split-stacks'
 import { mergeControlsIntoConfig, ProtectionControlStore } from '../../src/protection'
 import { ensureDynamicMethodsForDomains } from '../../src/deploy/ensure-dynamic-cloudfront'
 import { runConfigHook } from '../../src/deploy/hooks'
@@ -30,9 +34,11 @@ import { reconcileCloudflareCdn, resolveCloudflareCdnPlan } from '../../src/cdn'
 import { createCloudDriver } from '../../src/drivers'
 import { deployAllComputeSites, renewRpxCertificates } from '../../src/drivers/shared/compute-deploy'
 import { InfrastructureGenerator } from '../../src/generators/infrastructure'
-import { ensureDefaultSecurityPolicies, productionChangeReview, recordPreDeploySecretScan, recordSkippedSecretScan, secureContainerRelease, SecurityPostureStore, securityScope } from '../../src/security'
+import { ensureDefaultSecurityPolicies, evaluateTemplatePolicy, generatePolicyTemplate, productionChangeReview, recordPreDeploySecretScan, recordSkippedSecretScan, recordTemplatePolicyScan, secureContainerRelease, SecurityPostureStore, securityScope } from '../../src/security'
 import { PreDeployScanner } from '../../src/security/pre-deploy-scanner'
+import { checkDeployCostIncrease, formatCents, SpendStore } from '../../src/spend'
 import { validateResourceLimits, validateTemplate, validateTemplateSize } from '../../src/validation/template'
+import { printStackCostEstimate } from './cost'
 import { loadValidatedConfig, resolveDnsProviderConfig } from './shared'
 
 /**
@@ -357,10 +363,25 @@ function policyEnvironment(config: any, preferred?: string): string {
   throw new Error('A configured environment is required for security policy evaluation')
 }
 
+function displayPolicyEvaluation(evaluation: PolicyEvaluation): void {
+  for (const finding of evaluation.findings) {
+    cli.warn(`[${finding.severity.toUpperCase()}] ${finding.ruleId}: ${finding.message}`)
+  }
+  for (const error of evaluation.errors) cli.warn(`Policy rule ${error.ruleId} failed: ${error.message}`)
+  for (const waiver of evaluation.expiredWaivers) {
+    const subject = waiver.subject ? ` on ${waiver.subject}` : ''
+    cli.warn(`Policy waiver for ${waiver.rule}${subject} expired ${waiver.expiresAt}; its findings apply again`)
+  }
+  cli.info(
+    `Template policy: ${evaluation.rulesEvaluated} rules, ${evaluation.findings.length} findings, ${evaluation.waived.length} waived`,
+  )
+}
+
 function enforceSecurityPolicy(
   config: any,
   environmentValue: string | undefined,
   scan?: ScanResult,
+  template?: PolicyTemplate,
 ): { allowed: boolean; explanation: string } {
   const environment = policyEnvironment(config, environmentValue)
   const controlPlane = initializeDashboardControlPlane(process.cwd(), config)
@@ -370,6 +391,9 @@ function enforceSecurityPolicy(
     const scope = securityScope(controlPlane, environment)
     if (scan) recordPreDeploySecretScan(posture, scope, scan)
     else recordSkippedSecretScan(posture, scope)
+    const evaluation = evaluateTemplatePolicy(config, environment, template)
+    displayPolicyEvaluation(evaluation)
+    recordTemplatePolicyScan(posture, scope, evaluation)
     const review = productionChangeReview(posture, { scope, desiredConfigHash: controlPlane.project.desiredConfigHash })
     cli.info(
       `Security policy: ${review.decision.policyId} v${review.decision.policyVersion} — ${review.decision.outcome.toUpperCase()}`,
@@ -381,6 +405,224 @@ function enforceSecurityPolicy(
   }
 }
 
+/**
+ * Price the change against the deployed template and hold it to the budgets' per-deploy limits.
+ * Returns false when a budget blocks the deploy. An estimate that cannot be made does not block.
+ */
+async function enforceDeployCostBudgets(
+  config: any,
+  environment: string,
+  stackNames: string[],
+  region: string,
+  template: any,
+): Promise<boolean> {
+  // A split project is priced as the union of its stacks
+  const deployed: any = { Resources: {} }
+  try {
+    for (const stackName of stackNames) {
+      const result = await new CloudFormationClient(region).getTemplate(stackName)
+      if (result.TemplateBody) Object.assign(deployed.Resources, JSON.parse(result.TemplateBody).Resources)
+    }
+  } catch (error: any) {
+    if (!error?.message?.includes('does not exist')) {
+      cli.warn(`Cost estimate skipped: the deployed template could not be read (${error?.message ?? error})`)
+      return true
+    }
+  }
+  const estimate = estimateStackDiffCost(analyzeStackDiff(deployed, template), deployed, template)
+  printStackCostEstimate(estimate)
+
+  const controlPlane = initializeDashboardControlPlane(process.cwd(), config)
+  try {
+    const verdict = checkDeployCostIncrease(
+      new SpendStore(controlPlane.store),
+      {
+        organizationId: controlPlane.organization.id,
+        projectId: controlPlane.project.id,
+        environmentId: controlPlane.environments.get(environment)?.id,
+      },
+      estimate.monthlyDeltaCents,
+    )
+    for (const breach of verdict.breaches.filter((item) => item.simulated))
+      cli.warn(
+        `Budget '${breach.name}' allows ${formatCents(breach.limitCents)} per deploy and would block this deploy, ` +
+          'but it is in dry run.',
+      )
+    if (!verdict.allowed) {
+      cli.error(`\n✗ Deployment blocked by budget: ${verdict.reason}`)
+      cli.info('Raise the per-deploy limit with `cloud budget:update <budgetId> --deploy-limit <amount>`.')
+      return false
+    }
+    return true
+  } finally {
+    controlPlane.store.close()
+  }
+}
+
+/** Whether stack changes in this environment wait for approval. Production reviews them unless opted out. */
+function changeReviewRequired(config: any, environment: string): boolean {
+  const settings = config.environments?.[environment]
+  return settings?.changeReview?.enabled ?? settings?.type === 'production'
+}
+
+/**
+ * Hold the stack change for review as a CloudFormation change set.
+ * Returns true when the stack is already up to date, so the deploy carries on with the app.
+ */
+async function requestStackChangeReview(
+  config: any,
+  environment: string,
+  stackName: string,
+  region: string,
+  templateBody: string,
+  requestedBy: string,
+): Promise<boolean> {
+  const controlPlane = initializeDashboardControlPlane(process.cwd(), config)
+  try {
+    const environmentRecord = controlPlane.environments.get(environment)
+    if (!environmentRecord) throw new Error(`Environment ${environment} is not registered in the control plane`)
+    const review = config.environments?.[environment]?.changeReview ?? {}
+    const spinner = new cli.Spinner('Creating change set for review...')
+    spinner.start()
+    const result = await new ChangeSetService(new StackChangeSetStore(controlPlane.store)).request({
+      organizationId: controlPlane.organization.id,
+      projectId: controlPlane.project.id,
+      environmentId: environmentRecord.id,
+      stackName,
+      region,
+      templateBody,
+      capabilities: ['CAPABILITY_IAM', 'CAPABILITY_NAMED_IAM'],
+      tags: [
+        { Key: 'Project', Value: config.project.name },
+        { Key: 'Environment', Value: environment },
+        { Key: 'ManagedBy', Value: 'ts-cloud' },
+      ],
+      requiredApprovals: review.approvals,
+      ttlMs: review.expiresInHours ? review.expiresInHours * 3_600_000 : undefined,
+      requestedBy,
+    })
+    if (result.status === 'unchanged') {
+      spinner.succeed('No changes detected')
+      cli.info('Stack is already up to date — continuing to app deploy')
+      return true
+    }
+    const { changeSet } = result
+    spinner.succeed(`Change set ${changeSet.id} is pending review`)
+    for (const previous of result.superseded) cli.info(`Superseded change set ${previous.id}`)
+    if (changeSet.summary.replaced) cli.warn(`${changeSet.summary.replaced} resource(s) will be replaced`)
+    for (const change of changeSet.summary.dangerousChanges) cli.warn(`  - ${change}`)
+    cli.info(
+      `\n${changeSet.requiredApprovals} approval(s) from members with deployments:create are needed before ` +
+        `${changeSet.expiresAt}.`,
+    )
+    cli.info(`Approve with \`cloud changeset:approve ${changeSet.id} --actor <id>\` or in the dashboard,`)
+    cli.info(`then apply it with \`cloud changeset:execute ${changeSet.id}\`.`)
+    return false
+  } finally {
+    controlPlane.store.close()
+  }
+}
+
+/**
+ * Hold each stack of a split deploy for review in deploy order. A stack that imports from a stack
+ * still awaiting review is deferred to the next deploy. Returns true when every stack is up to date.
+ */
+async function requestSplitStackChangeReview(
+  config: any,
+  environment: string,
+  plan: StackSplitPlan,
+  region: string,
+  requestedBy: string,
+): Promise<boolean> {
+  const waiting = new Set<string>()
+  for (const stack of plan.stacks) {
+    const blocker = stack.dependsOn.find((name) => waiting.has(name))
+    if (blocker) {
+      cli.info(`${stack.name} imports from ${blocker}; run the deploy again once that change set is executed.`)
+      waiting.add(stack.name)
+      continue
+    }
+    if (plan.split) cli.step(`Reviewing ${stack.name}...`)
+    const body = JSON.stringify(stack.template)
+    if (!(await requestStackChangeReview(config, environment, stack.name, region, body, requestedBy)))
+      waiting.add(stack.name)
+  }
+  return waiting.size === 0
+}
+
+/**
+ * Create or update one stack and wait for it. An unchanged stack is not an error.
+ */
+async function applyStack(
+  cfn: CloudFormationClient,
+  stackName: string,
+  templateBody: string,
+  tags: StackTag[],
+): Promise<void> {
+  // Check if stack exists
+  cli.step('Checking stack status...')
+  let stackExists = false
+  try {
+    const result = await cfn.describeStacks({ stackName })
+    stackExists = result.Stacks && result.Stacks.length > 0
+  } catch (error) {
+    // Stack doesn't exist, that's fine
+    stackExists = false
+  }
+
+  if (stackExists) {
+    cli.info('Stack exists, updating...')
+    const updateSpinner = new cli.Spinner('Updating CloudFormation stack...')
+    updateSpinner.start()
+
+    try {
+      await cfn.updateStack({
+        stackName,
+        templateBody,
+        capabilities: ['CAPABILITY_IAM', 'CAPABILITY_NAMED_IAM'],
+        tags,
+      })
+
+      updateSpinner.succeed('Update initiated')
+
+      // Wait for completion
+      cli.step('Waiting for stack update to complete...')
+      await cfn.waitForStack(stackName, 'stack-update-complete')
+
+      cli.success('Stack updated successfully!')
+    } catch (error: any) {
+      if (error.message.includes('No updates are to be performed')) {
+        updateSpinner.succeed('No changes detected')
+        cli.info('Stack is already up to date — continuing to app deploy')
+        // Do NOT throw here: an unchanged stack still needs the code
+        // (sites) deployed/redeployed afterwards. Stopping made code
+        // deploys impossible once the infra existed.
+      } else {
+        throw error
+      }
+    }
+  } else {
+    cli.info('Creating new stack...')
+    const createSpinner = new cli.Spinner('Creating CloudFormation stack...')
+    createSpinner.start()
+
+    await cfn.createStack({
+      stackName,
+      templateBody,
+      capabilities: ['CAPABILITY_IAM', 'CAPABILITY_NAMED_IAM'],
+      tags,
+    })
+
+    createSpinner.succeed('Stack creation initiated')
+
+    // Wait for completion
+    cli.step('Waiting for stack creation to complete...')
+    await cfn.waitForStack(stackName, 'stack-create-complete')
+
+    cli.success('Stack created successfully!')
+  }
+}
+
 async function enforceContainerReleaseSecurity(
   config: any,
   input: {
@@ -519,6 +761,7 @@ export function registerDeployCommands(app: CLI): void {
     })
     .option('--dry-run', 'Show the deployment plan without making changes')
     .option('--yes', 'Skip confirmation prompts (non-interactive / CI)')
+    .option('--actor <id>', 'Requesting actor ID (required where stack changes are reviewed)')
     .action(
       async (options?: {
         stack?: string
@@ -529,6 +772,7 @@ export function registerDeployCommands(app: CLI): void {
         securityFailOn?: 'critical' | 'high' | 'medium' | 'low'
         dryRun?: boolean
         yes?: boolean
+        actor?: string
       }) => {
         cli.header('Deploying Infrastructure')
 
@@ -626,7 +870,12 @@ export function registerDeployCommands(app: CLI): void {
           } else {
             cli.warn('Security scan skipped (--skip-security-scan)\n')
           }
-          const securityDecision = enforceSecurityPolicy(config, environment, policyScan)
+          const securityDecision = enforceSecurityPolicy(
+            config,
+            environment,
+            policyScan,
+            generatePolicyTemplate(config, environment),
+          )
           if (!securityDecision.allowed) {
             cli.error(`\n✗ Deployment blocked by security policy: ${securityDecision.explanation}`)
             cli.info(
@@ -694,9 +943,13 @@ export function registerDeployCommands(app: CLI): void {
           cli.info(`Environment: ${environment}`)
 
           // Lightweight single-server (Forge-style) path: provision one box via
-          // the driver and deploy onto it — no CloudFormation. Used for Hetzner,
-          // and for AWS when `compute.mode === 'server'` (boots an Ubuntu EC2).
-          const serverCompute = cloudProvider === 'hetzner' || config.infrastructure?.compute?.mode === 'server'
+          // the driver and deploy onto it — no CloudFormation. Used for Hetzner
+          // and DigitalOcean, and for AWS when `compute.mode === 'server'`
+          // (boots an Ubuntu EC2).
+          const serverCompute =
+            cloudProvider === 'hetzner' ||
+            cloudProvider === 'digitalocean' ||
+            config.infrastructure?.compute?.mode === 'server'
           if (serverCompute && hasComputeConfigured(config)) {
             cli.step(`Provisioning ${cloudProvider} compute infrastructure...`)
             const driver = createCloudDriver({ config, provider: cloudProvider })
@@ -759,8 +1012,7 @@ export function registerDeployCommands(app: CLI): void {
           })
 
           generator.generate()
-          const templateBody = generator.toJSON()
-          const template = JSON.parse(templateBody)
+          const template = JSON.parse(generator.toJSON())
 
           // A site-only project (sites + DNS, no compute/database/VPC/etc.) produces an
           // environment stack with no resources. The sites were already deployed above, so
@@ -775,14 +1027,30 @@ export function registerDeployCommands(app: CLI): void {
             return
           }
 
+          // Resources already deployed stay in the stack they live in, so a split never replaces them
+          const cfn = new CloudFormationClient(region)
+          const deployedState = await readDeployedSplitState(cfn, stackName)
+          const plan = generator.split({
+            stackName,
+            previous: deployedState.previous,
+            exports: deployedState.exports,
+          })
+          if (plan.split)
+            cli.info(
+              `Template exceeds CloudFormation limits — deploying as ${plan.stacks.length} stacks: ` +
+                plan.stacks.map((stack) => `${stack.name} (${stack.resourceCount})`).join(', '),
+            )
+
           // Validate template
           cli.step('Validating template...')
           const validation = validateTemplate(template)
-          const sizeValidation = validateTemplateSize(templateBody)
-          const limitsValidation = validateResourceLimits(template)
+          const stackValidations = plan.stacks.flatMap((stack) => [
+            validateTemplateSize(JSON.stringify(stack.template)),
+            validateResourceLimits(stack.template),
+          ])
 
           // Show errors
-          const allErrors = [...validation.errors, ...sizeValidation.errors, ...limitsValidation.errors]
+          const allErrors = [...validation.errors, ...stackValidations.flatMap((result) => result.errors)]
 
           if (allErrors.length > 0) {
             cli.error('Template validation failed:')
@@ -793,7 +1061,7 @@ export function registerDeployCommands(app: CLI): void {
           }
 
           // Show warnings
-          const allWarnings = [...validation.warnings, ...sizeValidation.warnings, ...limitsValidation.warnings]
+          const allWarnings = [...validation.warnings, ...stackValidations.flatMap((result) => result.warnings)]
 
           if (allWarnings.length > 0) {
             for (const warning of allWarnings) {
@@ -820,94 +1088,69 @@ export function registerDeployCommands(app: CLI): void {
             cli.info(`  - ${type}: ${count}`)
           }
 
-          // Confirm deployment
-          const confirmed = autoConfirm || (await cli.confirm('\nDeploy now?', true))
-          if (!confirmed) {
-            cli.info('Deployment cancelled')
+          if (!(await enforceDeployCostBudgets(config, environment, deployedState.stacks, region, template))) {
+            process.exitCode = 1
             return
           }
 
-          // Initialize CloudFormation client
-          const cfn = new CloudFormationClient(region)
-
-          // Check if stack exists
-          cli.step('Checking stack status...')
-          let stackExists = false
-          try {
-            const result = await cfn.describeStacks({ stackName })
-            stackExists = result.Stacks && result.Stacks.length > 0
-          } catch (error) {
-            // Stack doesn't exist, that's fine
-            stackExists = false
+          const reviewed = changeReviewRequired(config, environment)
+          // The requester is recorded so they cannot approve their own change.
+          const requester = options?.actor ?? ''
+          if (reviewed && !requester) {
+            cli.error(`--actor is required: stack changes in ${environment} are held for review`)
+            process.exitCode = 1
+            return
           }
 
-          if (stackExists) {
-            cli.info('Stack exists, updating...')
-            const updateSpinner = new cli.Spinner('Updating CloudFormation stack...')
-            updateSpinner.start()
+          // Confirm deployment
+          const confirmed =
+            autoConfirm || (await cli.confirm(reviewed ? '\nSubmit this change for review?' : '\nDeploy now?', true))
+          if (!confirmed) {
+            cli.info('Deployment cancelled')
+            return
+          }
 
-            try {
-              await cfn.updateStack({
-                stackName,
-                templateBody,
-                capabilities: ['CAPABILITY_IAM', 'CAPABILITY_NAMED_IAM'],
-                tags: [
-                  { Key: 'Project', Value: config.project.name },
-                  { Key: 'Environment', Value: environment },
-                  { Key: 'ManagedBy', Value: 'ts-cloud' },
-                ],
-              })
+          // Reviewed environments stop here until the change sets are approved and executed
+          if (reviewed && !(await requestSplitStackChangeReview(config, environment, plan, region, requester))) return
 
-              updateSpinner.succeed('Update initiated')
+          const tags = [
+            { Key: 'Project', Value: config.project.name },
+            { Key: 'Environment', Value: environment },
+            { Key: 'ManagedBy', Value: 'ts-cloud' },
+          ]
 
-              // Wait for completion
-              cli.step('Waiting for stack update to complete...')
-              await cfn.waitForStack(stackName, 'stack-update-complete')
+          // Stacks deploy in order, each after the stacks whose exports it imports
+          for (const stack of plan.stacks) {
+            if (plan.split) cli.step(`Deploying ${stack.name} (${stack.resourceCount} resources)...`)
+            await applyStack(cfn, stack.name, JSON.stringify(stack.template), tags)
+          }
 
-              cli.success('Stack updated successfully!')
-            } catch (error: any) {
-              if (error.message.includes('No updates are to be performed')) {
-                updateSpinner.succeed('No changes detected')
-                cli.info('Stack is already up to date — continuing to app deploy')
-                // Do NOT return here: an unchanged stack still needs the code
-                // (sites) deployed/redeployed below. Returning early made code
-                // deploys impossible once the infra existed.
-              } else {
-                throw error
-              }
-            }
+          // Parts left without resources go last, once nothing imports from them
+          if (plan.retired.length > 0 && reviewed) {
+            cli.warn(
+              `No longer needed: ${plan.retired.join(', ')}. ` +
+                'Delete each with `cloud stack:delete <name>` once the change sets are executed.',
+            )
           } else {
-            cli.info('Creating new stack...')
-            const createSpinner = new cli.Spinner('Creating CloudFormation stack...')
-            createSpinner.start()
-
-            await cfn.createStack({
-              stackName,
-              templateBody,
-              capabilities: ['CAPABILITY_IAM', 'CAPABILITY_NAMED_IAM'],
-              tags: [
-                { Key: 'Project', Value: config.project.name },
-                { Key: 'Environment', Value: environment },
-                { Key: 'ManagedBy', Value: 'ts-cloud' },
-              ],
-            })
-
-            createSpinner.succeed('Stack creation initiated')
-
-            // Wait for completion
-            cli.step('Waiting for stack creation to complete...')
-            await cfn.waitForStack(stackName, 'stack-create-complete')
-
-            cli.success('Stack created successfully!')
+            for (const retired of plan.retired) {
+              cli.step(`Deleting ${retired}, which no longer holds resources...`)
+              await cfn.deleteStack(retired)
+              await cfn.waitForStack(retired, 'stack-delete-complete')
+            }
           }
 
-          // Get stack outputs
-          const outputs = await cfn.getStackOutputs(stackName)
+          // Get stack outputs, leaving out the exports that wire split stacks together
+          const outputs: Record<string, string> = {}
+          for (const stack of plan.stacks) {
+            for (const [key, value] of Object.entries(await cfn.getStackOutputs(stack.name))) {
+              if (!key.startsWith('SplitExport')) outputs[key] = value
+            }
+          }
 
           cli.box(
             `Deployment Complete!
 
-Stack: ${stackName}
+Stack: ${plan.split ? `${stackName} (+${plan.stacks.length - 1} part stacks)` : stackName}
 Region: ${region}
 Environment: ${environment}
 Resources: ${resourceCount}
@@ -0,0 +1,161 @@
+import type { CLI } from '@stacksjs/clapp'
+import type { EnvironmentType } from '@ts-cloud/core'
+import type { DriftPlan, StackDriftSnapshot } from '../../src/drift'
+import { resolveProjectStackName } from '@ts-cloud/core'
+import * as output from '../../src/utils/cli'
+import { AlertStore, NotificationRouter } from '../../src/alerts'
+import { resolveAuthEncryptionKey } from '../../src/auth'
+import { initializeDashboardControlPlane } from '../../src/deploy/dashboard-control-plane'
+import { DriftService, DriftStore } from '../../src/drift'
+import { loadValidatedConfig } from './shared'
+
+async function context(environment?: string, stack?: string) {
+  const config = await loadValidatedConfig()
+  const env = (environment ?? Object.keys(config.environments ?? {})[0] ?? 'production') as EnvironmentType
+  if (!Object.hasOwn(config.environments ?? {}, env)) throw new Error(`Environment ${env} was not found`)
+  const controlPlane = initializeDashboardControlPlane(process.cwd(), config)
+  const environmentRecord = controlPlane.environments.get(env)
+  const alerts = new AlertStore(controlPlane.store, { encryptionKey: resolveAuthEncryptionKey(process.cwd()) })
+  const service = new DriftService(new DriftStore(controlPlane.store), { alerts })
+  return {
+    controlPlane,
+    environmentRecord,
+    alerts,
+    service,
+    stackName: stack ?? resolveProjectStackName(config, env),
+    region: environmentRecord?.region ?? config.project.region ?? 'us-east-1',
+  }
+}
+
+function printSnapshot(snapshot: StackDriftSnapshot): void {
+  if (snapshot.state === 'in_sync')
+    output.success(`${snapshot.stackName} is in sync (${snapshot.checkedCount} resources checked).`)
+  else if (snapshot.state === 'failed' && !snapshot.resources.length)
+    output.error(`Drift detection for ${snapshot.stackName} failed: ${snapshot.error ?? 'unknown error'}`)
+  else output.warn(`${snapshot.stackName} is ${snapshot.state}: ${snapshot.driftedCount} resource(s) drifted.`)
+  for (const resource of snapshot.resources) {
+    output.info(`  ${resource.logicalId} (${resource.resourceType}) ${resource.state}`)
+    for (const change of resource.changes)
+      output.info(`    ${change.path}: ${JSON.stringify(change.oldValue)} → ${JSON.stringify(change.newValue)}`)
+  }
+  output.info(`Snapshot: ${snapshot.id}`)
+}
+
+function printPlan(plan: DriftPlan): void {
+  output.header(`${plan.strategy === 'adopt' ? 'Adopt' : 'Revert'} drift on ${plan.stackName}`)
+  if (!plan.steps.length) output.success('Nothing to reconcile.')
+  plan.steps.forEach((step, index) => output.info(`${index + 1}. ${step.description}`))
+  for (const warning of plan.warnings) output.warn(warning)
+}
+
+export function registerDriftCommands(app: CLI): void {
+  app
+    .command('drift', 'Detect drift between the deployed stack and its live resources')
+    .alias('drift:detect')
+    .option('--env <environment>', 'Target environment')
+    .option('--stack <name>', 'Stack name to check')
+    .option('--json', 'Print structured JSON')
+    .action(async (options: { env?: string; stack?: string; json?: boolean }) => {
+      const value = await context(options.env, options.stack)
+      try {
+        if (!options.json) output.step(`Detecting drift on ${value.stackName} in ${value.region}...`)
+        const result = await value.service.detect({
+          projectId: value.controlPlane.project.id,
+          environmentId: value.environmentRecord?.id,
+          production: value.environmentRecord?.kind === 'production',
+          stackName: value.stackName,
+          region: value.region,
+        })
+        if (result.alert?.notify && result.alert.alert) {
+          const router = new NotificationRouter(value.alerts, {
+            emailImpl: async (input) => {
+              const { email } = await import('../../src/aws/email')
+              return email.send(input)
+            },
+          })
+          await router.deliverAll(
+            router.enqueue(
+              value.controlPlane.organization.id,
+              result.alert.alert,
+              result.alert.transition as 'firing' | 'resolved',
+            ),
+          )
+        }
+        if (options.json) output.info(JSON.stringify(result, null, 2))
+        else printSnapshot(result.snapshot)
+        if (result.snapshot.state !== 'in_sync') process.exitCode = 1
+      } finally {
+        value.controlPlane.store.close()
+      }
+    })
+  app
+    .command('drift:history', 'List drift snapshots of a stack')
+    .option('--env <environment>', 'Target environment')
+    .option('--stack <name>', 'Stack name')
+    .option('--limit <count>', 'Number of snapshots', { default: '20' })
+    .option('--json', 'Print structured JSON')
+    .action(async (options: { env?: string; stack?: string; limit?: string; json?: boolean }) => {
+      const value = await context(options.env, options.stack)
+      try {
+        const snapshots = value.service.store.listSnapshots(value.controlPlane.project.id, {
+          stackName: value.stackName,
+          limit: Number(options.limit ?? 20),
+        })
+        if (options.json) output.info(JSON.stringify(snapshots, null, 2))
+        else
+          output.table(
+            ['ID', 'State', 'Drifted', 'Checked', 'Detected'],
+            snapshots.map((item) => [
+              item.id,
+              item.state,
+              String(item.driftedCount),
+              String(item.checkedCount),
+              item.detectedAt,
+            ]),
+          )
+      } finally {
+        value.controlPlane.store.close()
+      }
+    })
+  app
+    .command('drift:plan [snapshot]', 'Plan adopting drift into the configuration or reverting it')
+    .option('--env <environment>', 'Target environment')
+    .option('--stack <name>', 'Stack name, used when no snapshot is given')
+    .option('--adopt', 'Keep the live values and update the configuration')
+    .option('--revert', 'Change the live resources back to the template')
+    .option('--template <file>', 'Write the adopted template to a file')
+    .option('--json', 'Print structured JSON')
+    .action(
+      async (
+        id: string | undefined,
+        options: { env?: string; stack?: string; adopt?: boolean; revert?: boolean; template?: string; json?: boolean },
+      ) => {
+        if (options.adopt === options.revert) {
+          output.error('Choose either --adopt or --revert.')
+          process.exitCode = 1
+          return
+        }
+        const value = await context(options.env, options.stack)
+        try {
+          const latest = value.service.store.listSnapshots(value.controlPlane.project.id, {
+              stackName: value.stackName,
+              limit: 1,
+            })[0],
+            snapshotId = id ?? latest?.id
+          if (!snapshotId) throw new Error(`No drift snapshot for ${value.stackName}; run \`cloud drift\` first.`)
+          const plan = await value.service.plan(snapshotId, options.adopt ? 'adopt' : 'revert')
+          if (options.template && plan.template) {
+            await Bun.write(options.template, `${JSON.stringify(plan.template, null, 2)}\n`)
+            if (!options.json) output.success(`Adopted template written to ${options.template}`)
+          }
+          if (options.json) output.info(JSON.stringify(plan, null, 2))
+          else printPlan(plan)
+        } catch (error) {
+          output.error(error instanceof Error ? error.message : String(error))
+          process.exitCode = 1
+        } finally {
+          value.controlPlane.store.close()
+        }
+      },
+    )
+}
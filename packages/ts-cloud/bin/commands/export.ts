@@ -0,0 +1,62 @@
+import type { CLI } from '@stacksjs/clapp'
+import type { EnvironmentType } from '@ts-cloud/core'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { resolveProjectStackName } from '@ts-cloud/core'
+import * as output from '../../src/utils/cli'
+import { exportStackToTerraform, renderTerraformExportReport } from '../../src/terraform'
+import { loadValidatedConfig } from './shared'
+
+export function registerExportCommands(app: CLI): void {
+  app
+    .command('export:terraform', 'Export the stack as Terraform/OpenTofu HCL with import blocks')
+    .option('--env <environment>', 'Target environment')
+    .option('--out <dir>', 'Directory to write the .tf files to', { default: 'terraform' })
+    .option('--no-import', 'Skip import blocks, e.g. for a fresh environment')
+    .option('--provider-version <constraint>', 'Version constraint of the hashicorp/aws provider')
+    .option('--json', 'Print the export report as JSON')
+    .action(
+      async (options: { env?: string; out?: string; import?: boolean; providerVersion?: string; json?: boolean }) => {
+        try {
+          const config = await loadValidatedConfig()
+          const env = (options.env ?? Object.keys(config.environments ?? {})[0] ?? 'production') as EnvironmentType
+          if (!Object.hasOwn(config.environments ?? {}, env)) throw new Error(`Environment ${env} was not found`)
+          const region = config.environments[env]?.region ?? config.project.region ?? 'us-east-1'
+          const stackName = resolveProjectStackName(config, env)
+          if (!options.json) output.step(`Exporting ${stackName} to Terraform...`)
+
+          const result = await exportStackToTerraform({
+            config,
+            environment: env,
+            stackName,
+            region,
+            imports: options.import !== false,
+            providerVersion: options.providerVersion,
+          })
+          const dir = options.out || 'terraform'
+          await mkdir(dir, { recursive: true })
+          for (const [name, content] of Object.entries(result.files)) await writeFile(join(dir, name), content)
+          const report = renderTerraformExportReport(result)
+          await writeFile(join(dir, 'EXPORT_REPORT.md'), report)
+
+          if (options.json) {
+            output.info(JSON.stringify({ summary: result.summary, issues: result.issues }, null, 2))
+            return
+          }
+          const { resources, skippedResources, imports } = result.summary
+          output.success(`Wrote ${Object.keys(result.files).length} files to ${dir}/`)
+          output.info(`  ${resources} resources, ${imports} import blocks, ${skippedResources} resources left out`)
+          const unsupported = result.issues.filter((issue) => issue.severity === 'unsupported').length
+          const manual = result.issues.length - unsupported
+          if (result.issues.length) {
+            output.warn(`${unsupported} constructs not exported and ${manual} to finish by hand`)
+            output.info(`  See ${join(dir, 'EXPORT_REPORT.md')}`)
+          }
+          output.info(`\nNext: cd ${dir} && tofu init && tofu plan`)
+        } catch (error) {
+          output.error(error instanceof Error ? error.message : String(error))
+          process.exitCode = 1
+        }
+      },
+    )
+}
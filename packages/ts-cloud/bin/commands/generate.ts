@@ -1,15 +1,44 @@
 import type { CLI } from '@stacksjs/clapp'
+import type { CIProvider, CloudConfig } from '@ts-cloud/core'
 import { existsSync } from 'node:fs'
 import { mkdir, writeFile } from 'node:fs/promises'
-import { join } from 'node:path'
+import { dirname, join } from 'node:path'
+import { analyzeStackDiff, CI_PROVIDERS, generateCIPipeline } from '@ts-cloud/core'
 import * as cli from '../../src/utils/cli'
 import { CloudFormationClient } from '../../src/aws/cloudformation'
 import { defaultConfig } from '../../src/config'
+import { estimateStackDiffCost } from '../../src/cost/estimate'
 import { InfrastructureGenerator } from '../../src/generators/infrastructure'
+import { detectProjectCIProvider } from '../../src/source/ci'
 import { validateResourceLimits, validateTemplate, validateTemplateSize } from '../../src/validation/template'
 import { unsupportedCommand } from './capability-command'
+import { printStackCostEstimate } from './cost'
 import { loadValidatedConfig } from './shared'
 
+/**
+ * Write the CI pipeline for the project's CI system. Files that already exist
+ * are only replaced when the provider was asked for with `--ci`, so a pipeline
+ * edited by hand survives a plain `cloud generate`.
+ */
+async function writeCIPipeline(config: CloudConfig, requested?: string): Promise<void> {
+  if (requested && !CI_PROVIDERS.includes(requested as CIProvider)) {
+    throw new Error(`Unknown CI provider ${requested}. Use one of: ${CI_PROVIDERS.join(', ')}`)
+  }
+  const provider = (requested as CIProvider | undefined) ?? detectProjectCIProvider(config)
+  if (!provider) return
+
+  cli.step(`Generating ${provider} pipeline...`)
+  for (const file of generateCIPipeline(config, provider)) {
+    if (existsSync(file.path) && !requested) {
+      cli.info(`  - ${file.path} exists; pass --ci ${provider} to regenerate it`)
+      continue
+    }
+    await mkdir(dirname(file.path), { recursive: true })
+    await writeFile(file.path, file.content)
+    cli.success(`Generated ${file.path}`)
+  }
+}
+
 export function registerGenerateCommands(app: CLI): void {
   app
     .command('generate', 'Generate CloudFormation templates')
@@ -17,7 +46,8 @@ export function registerGenerateCommands(app: CLI): void {
     .option('--output <path>', 'Output directory for templates', { default: 'cloudformation' })
     .option('--format <format>', 'Output format: json or yaml', { default: 'json' })
     .option('--module <module>', 'Generate specific module only')
-    .action(async (options?: { output?: string; format?: string; module?: string }) => {
+    .option('--ci <provider>', `Also write the CI pipeline for ${CI_PROVIDERS.join(', ')}`)
+    .action(async (options?: { output?: string; format?: string; module?: string; ci?: string }) => {
       cli.header('Generating CloudFormation Templates')
 
       const spinner = new cli.Spinner('Loading configuration...')
@@ -120,6 +150,8 @@ export function registerGenerateCommands(app: CLI): void {
           cli.info(`  - ${type}: ${count}`)
         }
 
+        await writeCIPipeline(config, options?.ci)
+
         cli.info(`\nNext steps:
   1. Review the generated templates in ${outputDir}/
   2. Run 'cloud deploy' to deploy your infrastructure`)
@@ -194,6 +226,9 @@ export function registerGenerateCommands(app: CLI): void {
               cli.info(`  + ${type}: ${count}`)
             }
 
+            const empty = { Resources: {} }
+            printStackCostEstimate(estimateStackDiffCost(analyzeStackDiff(empty, newTemplate), empty, newTemplate))
+
             cli.info('\nRun `cloud deploy` to create this stack')
             return
           }
@@ -240,6 +275,7 @@ export function registerGenerateCommands(app: CLI): void {
         // Display results
         if (added.length === 0 && removed.length === 0 && modified.length === 0) {
           cli.success('\nNo changes detected - infrastructure is up to date')
+          cli.info('This compares templates only; run `cloud drift` to check for changes made outside CloudFormation.')
           return
         }
 
@@ -278,6 +314,10 @@ export function registerGenerateCommands(app: CLI): void {
         cli.info(`  - Remove: ${removed.length}`)
         cli.info(`  - Modify: ${modified.length}`)
 
+        printStackCostEstimate(
+          estimateStackDiffCost(analyzeStackDiff(existingTemplate, newTemplate), existingTemplate, newTemplate),
+        )
+
         cli.info('\nRun `cloud deploy` to apply these changes')
       } catch (error: any) {
         cli.error(`Diff failed: ${error.message}`)
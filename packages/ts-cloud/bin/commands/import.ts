@@ -0,0 +1,98 @@
+import type { CLI } from '@stacksjs/clapp'
+import type { EnvironmentType } from '@ts-cloud/core'
+import type { ImportPlan } from '../../src/resource-import'
+import { existsSync } from 'node:fs'
+import { readFile, writeFile } from 'node:fs/promises'
+import { resolveProjectStackName } from '@ts-cloud/core'
+import * as output from '../../src/utils/cli'
+import { ResourceImportService, addImportsToCloudConfig, renderImportSnippet } from '../../src/resource-import'
+import { loadValidatedConfig } from './shared'
+
+function printPlan(plan: ImportPlan): void {
+  output.header(`Import into ${plan.stackName}${plan.stackExists ? '' : ' (new stack)'}`)
+  if (plan.candidates.length)
+    output.table(
+      ['Resource', 'Config entry', 'Logical ID'],
+      plan.candidates.map((candidate) => [
+        candidate.resource.name,
+        candidate.key ? `${candidate.section}.${candidate.key}` : candidate.section,
+        candidate.logicalId ?? '(config only)',
+      ]),
+    )
+  else output.info('No unmanaged resources to import.')
+  for (const item of plan.skipped) output.info(`  skipped ${item.resource.name}: ${item.reason}`)
+  for (const warning of plan.warnings) output.warn(warning)
+}
+
+export function registerImportCommands(app: CLI): void {
+  app
+    .command('import', 'Bring unmanaged S3, RDS, CloudFront and Route53 resources under stack management')
+    .option('--env <environment>', 'Target environment')
+    .option('--type <type>', 'Only discover one resource type, e.g. s3, rds, cloudfront or route53')
+    .option('--only <ids>', 'Comma-separated resource IDs, names or ARNs to import')
+    .option('--config <path>', 'Path to cloud config file', { default: 'cloud.config.ts' })
+    .option('--write', 'Add the imported entries to the config file')
+    .option('--execute', 'Run the CloudFormation resource import')
+    .option('--template <file>', 'Write the import template to a file')
+    .option('--json', 'Print structured JSON')
+    .action(
+      async (options: {
+        env?: string
+        type?: string
+        only?: string
+        config?: string
+        write?: boolean
+        execute?: boolean
+        template?: string
+        json?: boolean
+      }) => {
+        try {
+          const config = await loadValidatedConfig()
+          const env = (options.env ?? Object.keys(config.environments ?? {})[0] ?? 'production') as EnvironmentType
+          if (!Object.hasOwn(config.environments ?? {}, env)) throw new Error(`Environment ${env} was not found`)
+          const region = config.environments[env]?.region ?? config.project.region ?? 'us-east-1'
+          const service = new ResourceImportService()
+          if (!options.json) output.step(`Discovering unmanaged resources in ${region}...`)
+          const plan = await service.plan({
+            config,
+            environment: env,
+            stackName: resolveProjectStackName(config, env),
+            region,
+            type: options.type,
+            only: options.only?.split(',').map((value) => value.trim()).filter(Boolean),
+          })
+          if (options.json) output.info(JSON.stringify(plan, null, 2))
+          else printPlan(plan)
+          if (!plan.candidates.length) return
+          if (options.template && plan.template) {
+            await writeFile(options.template, `${JSON.stringify(plan.template, null, 2)}\n`)
+            if (!options.json) output.success(`Import template written to ${options.template}`)
+          }
+
+          const configPath = options.config || 'cloud.config.ts'
+          if (options.write) {
+            if (!existsSync(configPath)) throw new Error(`Config file not found: ${configPath}`)
+            await writeFile(configPath, addImportsToCloudConfig(await readFile(configPath, 'utf8'), plan.candidates))
+            output.success(`Added ${plan.candidates.length} entries to ${configPath}`)
+          } else if (!options.json) {
+            output.info(`\nAdd to ${configPath}, or rerun with --write:\n`)
+            output.info(renderImportSnippet(plan.candidates))
+          }
+
+          if (options.execute) {
+            if (!plan.resourcesToImport.length) {
+              output.info('Nothing to import into CloudFormation; the configured entries need no import.')
+              return
+            }
+            output.step(`Importing ${plan.resourcesToImport.length} resources into ${plan.stackName}...`)
+            const result = await service.execute(plan)
+            output.success(`Imported into ${plan.stackName} (${result.status}). Run \`cloud drift\` to compare them.`)
+          } else if (plan.resourcesToImport.length && !options.json)
+            output.info('\nRerun with --execute to import them into the stack.')
+        } catch (error) {
+          output.error(error instanceof Error ? error.message : String(error))
+          process.exitCode = 1
+        }
+      },
+    )
+}
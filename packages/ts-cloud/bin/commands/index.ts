@@ -62,6 +62,13 @@ export { registerRuntimeCommands } from './runtime'
 export { registerTelemetryCommands } from './telemetry'
 export { registerAlertingCommands } from './alerting'
 export { registerJobCommands } from './jobs'
+export { registerDriftCommands } from './drift'
+export { registerImportCommands } from './import'
+export { registerExportCommands } from './export'
+export { registerChangeSetCommands } from './changeset'
+export { registerKubernetesCommands } from './kubernetes'
+export { registerPolicyCommands } from './policy'
+export { registerLocalCommands } from './local'
 export { registerTunnelCommands } from './tunnel'
 
 export { loadValidatedConfig, resolveDnsProviderConfig, getDnsProvider } from './shared'
@@ -1,6 +1,6 @@
 import type { CLI } from '@stacksjs/clapp'
 import type { EnvironmentType } from '@ts-cloud/core'
-import type { JsonValue, ScheduledJob } from '../../src'
+import type { JobDependency, JsonValue, ScheduledJob } from '../../src'
 import { resolveDeploymentMode } from '@ts-cloud/core'
 import * as output from '../../src/utils/cli'
 import { initializeDashboardControlPlane } from '../../src/deploy/dashboard-control-plane'
@@ -100,13 +100,27 @@ function payloadReferences(input?: string): Record<string, JsonValue> {
   return { input }
 }
 
+function dependencyList(value: JobContext, input: string): JobDependency[] {
+  return input
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const [name, condition = 'success'] = item.split(/:(?=success$|failure$|always$)/)
+      return { jobId: findJob(value, name).id, condition: condition as JobDependency['condition'] }
+    })
+}
+
 function scheduleRows(jobs: ScheduledJob[]): string[][] {
+  const names = new Map(jobs.map((item) => [item.id, item.name]))
+  const after = (dependency: JobDependency) =>
+    `${names.get(dependency.jobId) ?? dependency.jobId} (${dependency.condition})`
   return jobs.map((item) => [
     item.id,
     item.enabled ? 'enabled' : 'disabled',
     item.provider,
     item.name,
-    item.expression,
+    item.dependsOn.length ? `after ${item.dependsOn.map(after).join(', ')}` : item.expression,
     item.timezone,
     item.nextRunAt ?? '—',
     item.reconciliationStatus,
@@ -339,6 +353,7 @@ export function registerJobCommands(app: CLI): void {
           async (value) => {
             const job = findJob(value, jobId)
             if (!job.enabled) throw new Error(`${job.name} is disabled`)
+            if (job.dependsOn.length) throw new Error(`${job.name} runs in its workflow once its dependencies finish`)
             const instant = options.scheduledFor ? new Date(options.scheduledFor) : new Date()
             if (!options.scheduledFor) instant.setUTCSeconds(0, 0)
             const scheduledFor = instant.toISOString()
@@ -428,6 +443,92 @@ export function registerJobCommands(app: CLI): void {
       ),
     )
 
+  app
+    .command('jobs:depend <job> [dependencies]', 'Set the jobs a job runs after, as name[:success|failure|always],...')
+    .option('--env <environment>', 'Target environment')
+    .action(async (jobId: string, dependencies: string | undefined, options: { env?: string }) =>
+      run(async () =>
+        withContext(options.env, async (value) => {
+          const current = findJob(value, jobId)
+          if (current.origin === 'config')
+            throw new Error('Config-defined schedules must be edited in cloud.config.ts and reconciled')
+          const updated = value.store.setDependencies(current.id, dependencyList(value, dependencies ?? ''))
+          audit(
+            value,
+            'updated',
+            { jobId: updated.id, dependsOn: updated.dependsOn.map((item) => ({ ...item })), version: updated.version },
+            updated.resourceId,
+          )
+          output.success(
+            updated.dependsOn.length
+              ? `${updated.name} now runs after ${updated.dependsOn.length} dependencies`
+              : `${updated.name} runs on its own schedule; next run ${updated.nextRunAt ?? 'outside the active window'}`,
+          )
+        }),
+      ),
+    )
+
+  app
+    .command('jobs:plan <job>', 'Preview the workflow a job belongs to and when it next runs')
+    .option('--env <environment>', 'Target environment')
+    .option('--count <count>', 'Number of runs', { default: '5' })
+    .action(async (jobId: string, options: { env?: string; count?: string }) =>
+      run(async () =>
+        withContext(
+          options.env,
+          async (value) => {
+            const job = findJob(value, jobId)
+            const workflow = value.store.workflowPlan(job.id)
+            const root = workflow ? value.store.get(workflow.rootJobId)! : job
+            const preview = previewSchedule(
+              root.normalizedExpression,
+              root.timezone,
+              new Date(),
+              Number(options.count) || 5,
+              workflow,
+            )
+            output.info(JSON.stringify({ ...preview, productionExecutionCreated: false }, null, 2))
+          },
+          jobId,
+        ),
+      ),
+    )
+
+  app
+    .command('jobs:runs <job>', 'Show workflow runs and the execution of every job in them')
+    .option('--env <environment>', 'Target environment')
+    .option('--limit <count>', 'Maximum runs', { default: '20' })
+    .option('--json', 'Print structured JSON')
+    .action(async (jobId: string, options: { env?: string; limit?: string; json?: boolean }) =>
+      run(async () =>
+        withContext(
+          options.env,
+          async (value) => {
+            const workflow = value.store.workflowPlan(findJob(value, jobId).id)
+            if (!workflow) throw new Error(`${jobId} is not part of a workflow`)
+            const names = new Map(workflow.stages.flat().map((item) => [item.jobId, item.name]))
+            const runs = value.store
+              .listWorkflowRuns(workflow.rootJobId, Number(options.limit) || 20)
+              .map((run) => ({ ...run, executions: value.store.listRunExecutions(run.id) }))
+            if (options.json) output.info(JSON.stringify(runs, null, 2))
+            else
+              output.table(
+                ['Run', 'Status', 'Trigger', 'Scheduled for', 'Finished', 'Jobs'],
+                runs.map((run) => [
+                  run.id,
+                  run.status,
+                  run.trigger,
+                  run.scheduledFor,
+                  run.finishedAt ?? '—',
+                  run.executions.map((item) => `${names.get(item.jobId) ?? item.jobId}: ${item.status}`).join(', '),
+                ]),
+              )
+          },
+          jobId,
+        ),
+      ),
+    )
+
   app
     .command('jobs:reconcile', 'Import declarative schedules and workers without destructive deletion')
     .option('--env <environment>', 'Target environment')
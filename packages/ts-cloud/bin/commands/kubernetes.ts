@@ -0,0 +1,81 @@
+import type { CLI } from '@stacksjs/clapp'
+import type { EnvironmentType } from '@ts-cloud/core'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import * as output from '../../src/utils/cli'
+import {
+  applyKubernetesManifests,
+  createKubernetesClient,
+  kubernetesLabelSelector,
+  renderKubernetesManifests,
+  renderKubernetesYaml,
+  resolveKubernetesSettings,
+} from '../../src/kubernetes'
+import { loadValidatedConfig } from './shared'
+
+interface KubernetesCommandOptions {
+  env?: string
+  namespace?: string
+  image?: string
+}
+
+async function resolveTarget(options: KubernetesCommandOptions) {
+  const config = await loadValidatedConfig()
+  const env = (options.env ?? Object.keys(config.environments ?? {})[0] ?? 'production') as EnvironmentType
+  if (!Object.hasOwn(config.environments ?? {}, env)) throw new Error(`Environment ${env} was not found`)
+  const settings = resolveKubernetesSettings(config, env, { namespace: options.namespace, image: options.image })
+  return { config, env, settings, objects: renderKubernetesManifests(config, env, settings) }
+}
+
+export function registerKubernetesCommands(app: CLI): void {
+  app
+    .command('kubernetes:render', 'Render the app as Kubernetes manifests')
+    .option('--env <environment>', 'Target environment')
+    .option('--namespace <namespace>', 'Namespace to render into')
+    .option('--image <image>', 'Image every workload runs')
+    .option('--out <file>', 'Write the manifests to a file instead of stdout')
+    .action(async (options: KubernetesCommandOptions & { out?: string }) => {
+      try {
+        const { objects } = await resolveTarget(options)
+        const yaml = renderKubernetesYaml(objects)
+        if (!options.out) {
+          process.stdout.write(yaml)
+          return
+        }
+        await mkdir(dirname(options.out), { recursive: true })
+        await writeFile(options.out, yaml)
+        output.success(`Wrote ${objects.length} objects to ${options.out}`)
+      } catch (error) {
+        output.error(error instanceof Error ? error.message : String(error))
+        process.exitCode = 1
+      }
+    })
+
+  app
+    .command('kubernetes:deploy', 'Apply the app to a Kubernetes cluster with server-side apply')
+    .option('--env <environment>', 'Target environment')
+    .option('--namespace <namespace>', 'Namespace to deploy into')
+    .option('--image <image>', 'Image every workload runs, e.g. the tag CI just pushed')
+    .option('--prune', 'Delete objects this app no longer renders')
+    .option('--no-wait', 'Return once applied instead of waiting for rollouts')
+    .action(async (options: KubernetesCommandOptions & { prune?: boolean; wait?: boolean }) => {
+      try {
+        const { config, env, settings, objects } = await resolveTarget(options)
+        const client = createKubernetesClient(settings)
+        output.step(`Applying ${objects.length} objects to ${settings.server} in namespace ${settings.namespace}...`)
+        const result = await applyKubernetesManifests(client, objects, {
+          namespace: settings.namespace,
+          labelSelector: kubernetesLabelSelector(config, env),
+          prune: options.prune,
+          wait: options.wait !== false,
+          onProgress: (message) => output.info(`  ${message}`),
+        })
+        output.success(
+          `Applied ${result.applied.length} objects${result.pruned.length ? `, pruned ${result.pruned.length}` : ''}`,
+        )
+      } catch (error) {
+        output.error(error instanceof Error ? error.message : String(error))
+        process.exitCode = 1
+      }
+    })
+}
@@ -0,0 +1,77 @@
+import type { CLI } from '@stacksjs/clapp'
+import type { EnvironmentType } from '@ts-cloud/core'
+import { existsSync, rmSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import * as output from '../../src/utils/cli'
+import { emulatorEnvironment, provisionFromTemplate, startLocalEmulator } from '../../src/emulator'
+import { InfrastructureGenerator } from '../../src/generators/infrastructure'
+import { loadValidatedConfig } from './shared'
+
+const DEFAULT_DATA_DIR = join('.ts-cloud', 'emulator')
+
+export function registerLocalCommands(app: CLI): void {
+  app
+    .command('local:up', 'Run the local AWS emulator and create the stack buckets, queues, tables and secrets in it')
+    .option('--env <environment>', 'Environment whose template is provisioned', { default: 'development' })
+    .option('--host <host>', 'Host to bind', { default: '127.0.0.1' })
+    .option('--port <port>', 'Port to bind', { default: '4566' })
+    .option('--data-dir <path>', 'Directory the emulator keeps its state in', { default: DEFAULT_DATA_DIR })
+    .option('--no-provision', 'Start the emulator without creating the stack resources')
+    .action(async (options: { env?: string; host?: string; port?: string; dataDir?: string; provision?: boolean }) => {
+      const config = await loadValidatedConfig()
+      const environment = (options.env ?? 'development') as EnvironmentType
+      const region = config.project.region ?? 'us-east-1'
+      const dataDir = resolve(options.dataDir ?? DEFAULT_DATA_DIR)
+
+      const emulator = startLocalEmulator({
+        hostname: options.host,
+        port: Number(options.port ?? 4566),
+        dataDir,
+        region,
+      })
+
+      output.header('ts-cloud Local AWS Emulator')
+      output.success(`Serving S3, SQS, DynamoDB, SES v2 and Secrets Manager on ${emulator.url}`)
+      output.info(`State: ${dataDir}`)
+
+      if (options.provision !== false) {
+        const generator = new InfrastructureGenerator({ config, environment })
+        const template = JSON.parse(generator.generate().toJSON())
+        const result = provisionFromTemplate(emulator.store, template, region)
+        for (const resource of result.created) output.info(`  ${resource.type} ${resource.name}`)
+        const unresolved = result.skipped.filter((resource) => resource.reason !== 'not emulated')
+        for (const resource of unresolved) output.warn(`  Skipped ${resource.logicalId}: ${resource.reason}`)
+        output.success(
+          `Provisioned ${result.created.length} resource(s) from the ${environment} template; ` +
+            `${result.skipped.length - unresolved.length} other resource(s) are not emulated.`,
+        )
+      }
+
+      output.info('Point the AWS clients at the emulator with:')
+      for (const [name, value] of Object.entries(emulatorEnvironment(emulator.url, region)))
+        output.info(`  export ${name}=${value}`)
+      output.info('Use Ctrl+C to stop.')
+
+      await new Promise<void>((resolvePromise) => {
+        const stop = (): void => {
+          emulator.stop().then(resolvePromise, resolvePromise)
+        }
+        process.once('SIGINT', stop)
+        process.once('SIGTERM', stop)
+      })
+    })
+
+  app
+    .command('local:reset', 'Delete the local AWS emulator state')
+    .option('--data-dir <path>', 'Directory the emulator keeps its state in', { default: DEFAULT_DATA_DIR })
+    .action((options: { dataDir?: string }) => {
+      const dataDir = resolve(options.dataDir ?? DEFAULT_DATA_DIR)
+      if (!existsSync(join(dataDir, 'emulator.sqlite'))) {
+        output.info(`No emulator state in ${dataDir}.`)
+        return
+      }
+      for (const file of ['emulator.sqlite', 'emulator.sqlite-wal', 'emulator.sqlite-shm'])
+        rmSync(join(dataDir, file), { force: true })
+      output.success(`Deleted the emulator state in ${dataDir}.`)
+    })
+}
@@ -0,0 +1,79 @@
+import type { CLI } from '@stacksjs/clapp'
+import type { PolicyEvaluation } from '@ts-cloud/core'
+import { AWS_FOUNDATIONAL_POLICY_RULES } from '@ts-cloud/core'
+import * as output from '../../src/utils/cli'
+import { initializeDashboardControlPlane } from '../../src/deploy/dashboard-control-plane'
+import {
+  ensureDefaultSecurityPolicies,
+  evaluateTemplatePolicy,
+  generatePolicyTemplate,
+  recordTemplatePolicyScan,
+  SecurityPostureStore,
+  securityScope,
+} from '../../src/security'
+import { loadValidatedConfig } from './shared'
+
+function printEvaluation(evaluation: PolicyEvaluation, templateGenerated: boolean): void {
+  if (!templateGenerated)
+    output.info('This environment does not deploy a CloudFormation stack, so only config rules were evaluated.')
+  if (evaluation.findings.length)
+    output.table(
+      ['Severity', 'Rule', 'Subject', 'Finding'],
+      evaluation.findings.map((finding) => [finding.severity, finding.ruleId, finding.subject, finding.message]),
+    )
+  for (const finding of evaluation.waived) {
+    const waiver = finding.waiver!
+    output.info(`Waived ${finding.ruleId} on ${finding.subject} until ${waiver.expiresAt}: ${waiver.reason}`)
+  }
+  for (const waiver of evaluation.expiredWaivers)
+    output.warn(`The waiver for ${waiver.rule} expired ${waiver.expiresAt}.`)
+  for (const error of evaluation.errors) output.error(`Rule ${error.ruleId} failed: ${error.message}`)
+  if (!evaluation.findings.length && !evaluation.errors.length)
+    output.success(`${evaluation.rulesEvaluated} rules passed for ${evaluation.environment}.`)
+  else output.warn(`${evaluation.findings.length} finding(s) from ${evaluation.rulesEvaluated} rules.`)
+}
+
+export function registerPolicyCommands(app: CLI): void {
+  app
+    .command('policy:check', 'Evaluate policy rules against the generated template and record the result')
+    .option('--env <environment>', 'Target environment')
+    .option('--json', 'Print structured JSON')
+    .action(async (options: { env?: string; json?: boolean }) => {
+      const config = await loadValidatedConfig()
+      const environment = options.env ?? Object.keys(config.environments ?? {})[0] ?? 'production'
+      if (!Object.hasOwn(config.environments ?? {}, environment))
+        throw new Error(`Environment ${environment} was not found`)
+      const template = generatePolicyTemplate(config, environment)
+      const evaluation = evaluateTemplatePolicy(config, environment, template)
+
+      const controlPlane = initializeDashboardControlPlane(process.cwd(), config)
+      try {
+        ensureDefaultSecurityPolicies(controlPlane)
+        const posture = new SecurityPostureStore(controlPlane.store)
+        recordTemplatePolicyScan(posture, securityScope(controlPlane, environment), evaluation)
+      } finally {
+        controlPlane.store.close()
+      }
+
+      if (options.json) output.info(JSON.stringify(evaluation, null, 2))
+      else printEvaluation(evaluation, Boolean(template))
+      if (evaluation.findings.length || evaluation.errors.length) process.exitCode = 1
+    })
+  app
+    .command('policy:rules', 'List the built-in policy rules and the controls they map to')
+    .option('--json', 'Print structured JSON')
+    .action((options: { json?: boolean }) => {
+      const rules = AWS_FOUNDATIONAL_POLICY_RULES.map(({ check: _check, ...rule }) => rule)
+      if (options.json) output.info(JSON.stringify(rules, null, 2))
+      else
+        output.table(
+          ['Rule', 'Severity', 'Controls', 'Scope'],
+          rules.map((rule) => [
+            rule.id,
+            rule.severity,
+            (rule.controls ?? []).join(', '),
+            rule.productionOnly ? 'production' : 'all',
+          ]),
+        )
+    })
+}
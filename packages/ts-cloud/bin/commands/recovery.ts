@@ -3,7 +3,13 @@ import type { BackupDestination, BackupPolicy, RecoveryPoint } from '../../src/b
 import type { JsonValue } from '../../src/control-plane'
 import * as output from '../../src/utils/cli'
 import { resolveAuthEncryptionKey } from '../../src/auth'
-import { BackupCoordinator, BackupStore, S3BackupDestinationAdapter } from '../../src/backups'
+import {
+  AzureBlobBackupDestinationAdapter,
+  BackupCoordinator,
+  BackupStore,
+  GcsBackupDestinationAdapter,
+  S3BackupDestinationAdapter,
+} from '../../src/backups'
 import { DataServiceStore, EncryptedDataSecretStore } from '../../src/data-services'
 import { initializeDashboardControlPlane } from '../../src/deploy/dashboard-control-plane'
 import { DurableOperationQueue } from '../../src/queue'
@@ -139,13 +145,18 @@ export function registerRecoveryCommands(app: CLI): void {
           if (options.json) output.info(JSON.stringify(result, null, 2))
           else {
             output.table(
-              ['Policy', 'RPO', 'Destination', 'Latest point', 'Verification'],
+              ['Policy', 'RPO', 'Destination', 'Latest point', 'Verification', 'Recoverable window'],
               result.coverage.map((item) => [
                 item.policy.name,
                 item.missedRpo ? 'MISSED' : 'protected',
                 item.destinationHealthy ? 'healthy' : 'attention',
                 item.lastRecoveryPoint?.pointInTime ?? 'none',
                 item.lastRecoveryPoint?.verificationState ?? 'none',
+                item.recoverableWindow
+                  ? `${item.recoverableWindow.from} to ${item.recoverableWindow.to}`
+                  : item.policy.logArchiving
+                    ? 'pending'
+                    : 'backups only',
               ]),
             )
             output.table(
@@ -190,19 +201,23 @@ export function registerRecoveryCommands(app: CLI): void {
     )
 
   app
-    .command('recovery:destination:add <name>', 'Connect an S3, S3-compatible, or AWS Backup destination')
+    .command(
+      'recovery:destination:add <name>',
+      'Connect an S3, S3-compatible, AWS Backup, Azure Blob, or Google Cloud Storage destination',
+    )
     .option('--env <environment>', 'Target environment')
-    .option('--provider <provider>', 'aws_s3, s3_compatible, or aws_backup', { default: 'aws_s3' })
-    .option('--bucket <bucket>', 'Object bucket')
+    .option('--provider <provider>', 'aws_s3, s3_compatible, aws_backup, azure_blob, or gcs', { default: 'aws_s3' })
+    .option('--bucket <bucket>', 'Object bucket, or the container for Azure Blob')
     .option('--endpoint <url>', 'Origin-only HTTPS endpoint')
     .option('--allow-private', 'Allow a private endpoint')
-    .option('--path-style', 'Force path-style S3 URLs')
+    .option('--path-style', 'Force path-style S3 URLs, or put the Azure account in the path as Azurite does')
     .option('--prefix <prefix>', 'Object key prefix')
     .option('--region <region>', 'Destination region')
     .option('--credentials-env <name>', 'Environment variable containing credential JSON')
     .option('--encryption <mode>', 'provider, client_side, or both', { default: 'provider' })
     .option('--encryption-key-env <name>', 'Environment variable containing the client encryption key')
     .option('--lock-days <days>', 'Default immutable retention days')
+    .option('--object-retention', 'Lock each Azure or GCS object for --lock-days instead of relying on bucket lock')
     .action(
       async (
         name: string,
@@ -219,12 +234,13 @@ export function registerRecoveryCommands(app: CLI): void {
           encryption?: string
           encryptionKeyEnv?: string
           lockDays?: string
+          objectRetention?: boolean
         },
       ) =>
         run(async () =>
           withContext(options.env, async (value) => {
-            if (!['aws_s3', 's3_compatible', 'aws_backup'].includes(options.provider ?? ''))
-              throw new Error('--provider must be aws_s3, s3_compatible, or aws_backup.')
+            if (!['aws_s3', 's3_compatible', 'aws_backup', 'azure_blob', 'gcs'].includes(options.provider ?? ''))
+              throw new Error('--provider must be aws_s3, s3_compatible, aws_backup, azure_blob, or gcs.')
             if (!['provider', 'client_side', 'both'].includes(options.encryption ?? ''))
               throw new Error('--encryption must be provider, client_side, or both.')
             const secretPrefix = `secret://data-services/backups/${value.controlPlane.project.id}/${name}`,
@@ -262,7 +278,7 @@ export function registerRecoveryCommands(app: CLI): void {
                 encryption: options.encryption as BackupDestination['encryption'],
                 encryptionKeyRef,
                 immutability: {
-                  objectLock: !!options.lockDays,
+                  objectLock: !!options.lockDays && !options.objectRetention,
                   defaultRetentionDays: options.lockDays ? Number(options.lockDays) : undefined,
                 },
                 status: 'untested',
@@ -289,7 +305,13 @@ export function registerRecoveryCommands(app: CLI): void {
           if (item.provider === 'aws_backup')
             throw new Error('AWS Backup is verified by creating a provider recovery point.')
           try {
-            await new S3BackupDestinationAdapter(value.secrets).test(item)
+            const adapter =
+              item.provider === 'azure_blob'
+                ? new AzureBlobBackupDestinationAdapter(value.secrets)
+                : item.provider === 'gcs'
+                  ? new GcsBackupDestinationAdapter(value.secrets)
+                  : new S3BackupDestinationAdapter(value.secrets)
+            await adapter.test(item)
             value.store.recordDestinationTest(item.id, { ok: true })
             audit(value, 'destination_tested', { destinationId: item.id, ok: true })
             output.success(`${item.name} passed write, read, checksum, and cleanup checks.`)
@@ -320,6 +342,7 @@ export function registerRecoveryCommands(app: CLI): void {
     .option('--keep <count>', 'Minimum latest points', { default: '7' })
     .option('--expire <days>', 'Expiry days', { default: '30' })
     .option('--compression <kind>', 'none, gzip, or zstd', { default: 'gzip' })
+    .option('--log-archiving', 'Ship WAL or binlogs continuously for point-in-time recovery (logical_database)')
     .option('--disabled', 'Create disabled')
     .action(
       async (
@@ -340,6 +363,7 @@ export function registerRecoveryCommands(app: CLI): void {
           keep?: string
           expire?: string
           compression?: string
+          logArchiving?: boolean
           disabled?: boolean
         },
       ) =>
@@ -403,6 +427,7 @@ export function registerRecoveryCommands(app: CLI): void {
               excludePatterns: excludes,
               expectedRpoMinutes: Number(options.rpo) || 1440,
               expectedRtoMinutes: Number(options.rto) || 120,
+              logArchiving: !!options.logArchiving,
               enabled: !options.disabled,
             })
             audit(value, 'policy_created', { policyId: item.id, resourceKind: item.resourceKind }, item.resourceId)
@@ -440,7 +465,10 @@ export function registerRecoveryCommands(app: CLI): void {
     )
 
   app
-    .command('recovery:restore <point> <target>', 'Validate or queue an isolated, in-place, or drill restore')
+    .command(
+      'recovery:restore <point> <target>',
+      'Validate or queue an isolated, in-place, or drill restore; with --to-time, <point> may name a policy',
+    )
     .option('--env <environment>', 'Target environment')
     .option('--mode <mode>', 'isolated or in_place', { default: 'isolated' })
     .option('--drill', 'Validate health and clean the isolated target')
@@ -449,6 +477,7 @@ export function registerRecoveryCommands(app: CLI): void {
     .option('--ack-downtime', 'Acknowledge downtime and data replacement')
     .option('--safety <point>', 'Distinct verified safety recovery point')
     .option('--metadata <json>', 'Provider restore metadata JSON')
+    .option('--to-time <timestamp>', 'Replay archived logs up to this ISO timestamp')
     .action(
       async (
         id: string,
@@ -462,6 +491,7 @@ export function registerRecoveryCommands(app: CLI): void {
           ackDowntime?: boolean
           safety?: string
           metadata?: string
+          toTime?: string
         },
       ) =>
         run(async () =>
@@ -470,7 +500,12 @@ export function registerRecoveryCommands(app: CLI): void {
               throw new Error('--mode must be isolated or in_place.')
             if (options.drill && options.mode === 'in_place')
               throw new Error('Recovery drills require --mode isolated.')
-            const item = point(value, id),
+            const toTime = options.toTime ? new Date(options.toTime) : undefined
+            if (toTime && Number.isNaN(toTime.getTime())) throw new Error('--to-time must be an ISO timestamp.')
+            const item =
+                toTime && !value.store.getRecoveryPoint(id)
+                  ? value.store.recoveryBaseFor(policy(value, id).id, toTime.toISOString())
+                  : point(value, id),
               input = {
                 mode: options.mode as 'isolated' | 'in_place',
                 target: {
@@ -483,6 +518,7 @@ export function registerRecoveryCommands(app: CLI): void {
                 recentAuth: true,
                 downtimeAcknowledged: !!options.ackDowntime,
                 safetyBackupId: options.safety ? point(value, options.safety).id : undefined,
+                targetTime: toTime?.toISOString(),
               },
               plan = value.coordinator.planRestore(item, input)
             if (!options.execute) {
@@ -497,7 +533,13 @@ export function registerRecoveryCommands(app: CLI): void {
             audit(
               value,
               options.drill ? 'drill_queued' : 'restore_queued',
-              { recoveryPointId: item.id, backupJobId: job.id, mode: input.mode, target },
+              {
+                recoveryPointId: item.id,
+                backupJobId: job.id,
+                mode: input.mode,
+                target,
+                ...(input.targetTime ? { targetTime: input.targetTime } : {}),
+              },
               item.resourceId,
             )
             output.success(`Queued ${options.drill ? 'drill' : 'restore'} job ${job.id}`)
@@ -179,7 +179,7 @@ export function registerSpendCommands(app: CLI): void {
           return
         }
         output.table(
-          ['ID', 'Name', 'Scope', 'Period', 'Soft', 'Hard', 'Mode', 'Enabled'],
+          ['ID', 'Name', 'Scope', 'Period', 'Soft', 'Hard', 'Per deploy', 'Mode', 'Enabled'],
           budgets.map((budget) => [
             budget.id.slice(0, 8),
             budget.name,
@@ -187,6 +187,9 @@ export function registerSpendCommands(app: CLI): void {
             budget.period,
             budget.softLimitCents == null ? '-' : formatCents(budget.softLimitCents, budget.currency),
             budget.hardLimitCents == null ? '-' : formatCents(budget.hardLimitCents, budget.currency),
+            budget.deployIncreaseLimitCents == null
+              ? '-'
+              : formatCents(budget.deployIncreaseLimitCents, budget.currency),
             budget.dryRun ? 'dry run' : 'enforcing',
             budget.enabled ? 'yes' : 'no',
           ]),
@@ -201,6 +204,7 @@ export function registerSpendCommands(app: CLI): void {
     .option('--name <name>', 'Budget name')
     .option('--soft <amount>', 'Soft limit in dollars (warn only)')
     .option('--hard <amount>', 'Hard limit in dollars (enforces)')
+    .option('--deploy-limit <amount>', 'Largest estimated monthly cost increase one deploy may add, in dollars')
     .option('--period <period>', 'daily, weekly, or monthly (default monthly)')
     .option('--timezone <tz>', 'IANA timezone for period boundaries (default UTC)')
     .option('--scope <scope>', 'organization, project, or environment (default project)')
@@ -213,6 +217,7 @@ export function registerSpendCommands(app: CLI): void {
         name?: string
         soft?: string
         hard?: string
+        deployLimit?: string
         period?: string
         timezone?: string
         scope?: string
@@ -237,6 +242,7 @@ export function registerSpendCommands(app: CLI): void {
             timezone: options.timezone,
             softLimitCents: parseMoneyToCents(options.soft),
             hardLimitCents: parseMoneyToCents(options.hard),
+            deployIncreaseLimitCents: parseMoneyToCents(options.deployLimit),
             graceSeconds: options.grace == null ? undefined : Number(options.grace),
             // A ladder given on the command line replaces the default entirely,
             // so `--actions notify` really does mean warn-only.
@@ -263,6 +269,7 @@ export function registerSpendCommands(app: CLI): void {
     .command('budget:update <budgetId>', 'Update a budget')
     .option('--soft <amount>', 'Soft limit in dollars')
     .option('--hard <amount>', 'Hard limit in dollars')
+    .option('--deploy-limit <amount>', 'Largest estimated monthly cost increase one deploy may add, in dollars')
     .option('--enable', 'Enable the budget')
     .option('--disable', 'Disable the budget')
     .option('--enforce', 'Leave dry run and start enforcing')
@@ -271,7 +278,16 @@ export function registerSpendCommands(app: CLI): void {
     .action(
       async (
         budgetId: string,
-        options: { soft?: string; hard?: string; enable?: boolean; disable?: boolean; enforce?: boolean; dryRun?: boolean; env?: string },
+        options: {
+          soft?: string
+          hard?: string
+          deployLimit?: string
+          enable?: boolean
+          disable?: boolean
+          enforce?: boolean
+          dryRun?: boolean
+          env?: string
+        },
       ) => {
         try {
           const value = await context(options.env)
@@ -280,6 +296,7 @@ export function registerSpendCommands(app: CLI): void {
           const updated = value.store.updateBudget(budgetId, {
             softLimitCents: parseMoneyToCents(options.soft) ?? existing.softLimitCents,
             hardLimitCents: parseMoneyToCents(options.hard) ?? existing.hardLimitCents,
+            deployIncreaseLimitCents: parseMoneyToCents(options.deployLimit) ?? existing.deployIncreaseLimitCents,
             enabled: options.disable ? false : options.enable ? true : existing.enabled,
             dryRun: options.enforce ? false : options.dryRun ? true : existing.dryRun,
           })
@@ -1,13 +1,20 @@
 import { afterEach, describe, expect, it } from 'bun:test'
+import { createHmac } from 'node:crypto'
 import { ControlPlaneStore } from '../control-plane'
 import { TelemetryStore } from '../telemetry'
 import {
   AlertEvaluator,
   AlertStore,
+  computeSloStatus,
+  evaluateSloAlertRules,
+  evaluateSloReleaseGate,
   evaluateTelemetryAlertRules,
   HealthCheckRunner,
   NotificationRouter,
   isQuietHours,
+  processPagerDutyWebhook,
+  readIncidentWebhookBody,
+  resolveOnCall,
   type AlertRule,
 } from '.'
 
@@ -171,6 +178,164 @@ describe('alert evaluation lifecycle', () => {
   })
 })
 
+describe('service level objectives', () => {
+  function requests(
+    telemetry: TelemetryStore,
+    scope: { projectId: string; environmentId: string },
+    timestamp: string,
+    good: number,
+    bad: number,
+    host = 'api.example.test',
+  ) {
+    telemetry.appendMany(
+      Array.from({ length: good + bad }, (_, index) => ({
+        ...scope,
+        kind: 'request' as const,
+        source: 'edge',
+        name: 'http.request',
+        timestamp,
+        method: 'GET',
+        host,
+        pathTemplate: '/api/orders',
+        statusCode: index < bad ? 503 : 200,
+        durationMs: 40,
+      })),
+    )
+  }
+
+  it('generates burn-rate rules scaled to the window and keeps them in step with the objective', () => {
+    const { store, project, environment } = fixture(),
+      slo = store.createSlo({
+        projectId: project.id,
+        environmentId: environment.id,
+        name: 'Orders availability',
+        service: 'orders',
+        source: 'requests',
+        objective: 'availability',
+        targetPercent: 99.9,
+        windowDays: 30,
+      }),
+      rules = store.listSloRules(slo.id)
+    expect(rules.map((item) => [item.threshold, item.windowMs, item.severity])).toEqual([
+      [14.4, 3_600_000, 'critical'],
+      [6, 21_600_000, 'critical'],
+      [3, 86_400_000, 'warning'],
+      [1, 259_200_000, 'warning'],
+    ])
+    expect(rules[0]).toMatchObject({ signal: 'slo.burn_rate', operator: 'gte', labels: { service: 'orders' } })
+    const updated = store.updateSlo(slo.id, { windowDays: 2 }, slo.version)
+    const after = store.listSloRules(slo.id)
+    expect(after.map((item) => item.id)).toEqual(rules.map((item) => item.id))
+    expect(after.map((item) => [item.threshold, item.enabled])).toEqual([
+      [0.96, true],
+      [0.4, true],
+      [0.2, true],
+      [1, false],
+    ])
+    expect(() => store.updateSlo(slo.id, { targetPercent: 99 }, slo.version)).toThrow('changed since')
+    expect(() => store.updateSlo(slo.id, { targetPercent: 100 }, updated.version)).toThrow('percentage')
+    expect(() =>
+      store.createSlo({
+        projectId: project.id,
+        name: 'Health',
+        service: 'orders',
+        source: 'health',
+        objective: 'availability',
+        targetPercent: 99,
+        windowDays: 7,
+      }),
+    ).toThrow('health check')
+  })
+
+  it('computes the budget from request telemetry, pages on multi-window burn, and gates releases', () => {
+    const { controlPlane, store, project, environment } = fixture(),
+      scope = { projectId: project.id, environmentId: environment.id },
+      now = new Date('2026-07-21T12:00:00Z'),
+      telemetry = new TelemetryStore(controlPlane, { now: () => now })
+    requests(telemetry, scope, '2026-07-15T12:00:00Z', 390, 0)
+    requests(telemetry, scope, '2026-07-21T11:58:00Z', 9, 1)
+    requests(telemetry, scope, '2026-07-21T11:58:00Z', 0, 50, 'admin.example.test')
+    const slo = store.createSlo({
+      ...scope,
+      name: 'API availability',
+      service: 'api',
+      source: 'requests',
+      objective: 'availability',
+      targetPercent: 99,
+      windowDays: 30,
+      filter: { host: 'api.example.test' },
+      gateMinBudgetPercent: 80,
+    })
+    const status = computeSloStatus(store, slo, now)
+    expect(status.events).toEqual({ total: 400, bad: 1 })
+    expect(status.sli).toBeCloseTo(0.9975)
+    expect(status.budgetRemaining).toBeCloseTo(0.75)
+    expect(status.burnRates.map((item) => item.burning)).toEqual([false, true, true, true])
+
+    expect(evaluateTelemetryAlertRules(store, project.id, environment.id, now)).toEqual([])
+    const evaluations = evaluateSloAlertRules(store, project.id, environment.id, now)
+    expect(evaluations.map((item) => item.transition)).toEqual(['firing', 'firing', 'firing'])
+    expect(evaluations[0]?.alert).toMatchObject({ severity: 'critical', evidence: { slo: 'API availability' } })
+    expect(evaluateSloReleaseGate(store, slo, now)).toMatchObject({ healthy: false })
+
+    const later = new Date('2026-07-21T19:00:00Z')
+    expect(evaluateSloAlertRules(store, project.id, environment.id, later).map((item) => item.transition)).toEqual([
+      'resolved',
+      'resolved',
+      'resolved',
+    ])
+    const gate = evaluateSloReleaseGate(store, slo, later)
+    expect(gate).toMatchObject({ healthy: false, evidence: { budgetRemainingPercent: 75 } })
+    expect(gate.message).toContain('releases need 80%')
+    const relaxed = store.updateSlo(slo.id, { gateMinBudgetPercent: 50 }, slo.version)
+    expect(evaluateSloReleaseGate(store, relaxed, later).healthy).toBe(true)
+  })
+
+  it('measures latency objectives from health check timings', () => {
+    const { store, project } = fixture(),
+      check = store.createHealthCheck({
+        projectId: project.id,
+        name: 'API',
+        kind: 'http',
+        target: 'https://api.example.test/health',
+        config: {},
+        intervalSeconds: 60,
+        timeoutSeconds: 5,
+        failureThreshold: 1,
+        recoveryThreshold: 1,
+        regions: ['local'],
+        enabled: true,
+      })
+    for (const [status, totalMs] of [
+      ['healthy', 100],
+      ['healthy', 900],
+      ['unhealthy', undefined],
+      ['no_data', undefined],
+    ] as const)
+      store.appendHealthResult({
+        checkId: check.id,
+        status,
+        agent: 'local',
+        timings: { totalMs },
+        checkedAt: '2026-07-21T11:00:00Z',
+      })
+    const slo = store.createSlo({
+      projectId: project.id,
+      healthCheckId: check.id,
+      name: 'API latency',
+      service: 'api',
+      source: 'health',
+      objective: 'latency',
+      latencyThresholdMs: 500,
+      targetPercent: 90,
+      windowDays: 7,
+    })
+    const status = computeSloStatus(store, slo, new Date('2026-07-21T12:00:00Z'))
+    expect(status.events).toEqual({ total: 3, bad: 2 })
+    expect(status.burnRates.map((item) => item.burnRate)).toEqual([3.36, 1.4, 0.7, 0.23])
+  })
+})
+
 describe('notification routing and delivery', () => {
   it('encrypts credentials, groups one delivery, signs webhooks, and deduplicates replay', async () => {
     const { store, organization, project } = fixture(),
@@ -363,6 +528,350 @@ describe('notification routing and delivery', () => {
   })
 })
 
+describe('incident channels', () => {
+  function incident(kind: 'pagerduty' | 'opsgenie', credential: string, config: Record<string, string> = {}) {
+    const context = fixture(),
+      { store, organization, project } = context,
+      channel = store.createChannel({ organizationId: organization.id, name: kind, kind, config, credential }),
+      chat = store.createChannel({
+        organizationId: organization.id,
+        name: 'Chat',
+        kind: 'slack',
+        credential: 'https://hooks.example.test/slack',
+      })
+    store.createRoute({
+      organizationId: organization.id,
+      name: 'Everything',
+      priority: 1,
+      matcher: {},
+      channelIds: [channel.id, chat.id],
+      groupWaitSeconds: 0,
+      escalation: [],
+      rateLimitPerMinute: 60,
+      enabled: true,
+    })
+    const alert = new AlertEvaluator(store).evaluate(rule(store, { projectId: project.id, consecutive: 1 }), {
+      status: 'unhealthy',
+      timestamp: '2026-07-21T11:59:00Z',
+    }).alert!
+    const sent: Array<{ url: string; headers: Record<string, string>; body: any }> = []
+    const router = new NotificationRouter(store, {
+      fetchImpl: async (url, init) => {
+        sent.push({ url, headers: init.headers, body: JSON.parse(init.body) })
+        return { ok: true, status: 202 }
+      },
+      now: () => new Date('2026-07-21T12:00:00Z'),
+    })
+    return { ...context, channel, alert, router, sent }
+  }
+
+  it('maps trigger, acknowledge, and resolve onto one PagerDuty incident by dedup key', async () => {
+    const { store, organization, channel, alert, router, sent } = incident(
+      'pagerduty',
+      JSON.stringify({ routingKey: 'routing-key', webhookSecret: 'whsec' }),
+    )
+    await router.deliverAll(router.enqueue(organization.id, alert, 'firing'))
+    const responder = store.controlPlane.createActor({ kind: 'user', displayName: 'Dev' })
+    const acknowledged = store.acknowledge(alert.id, responder.id)
+    const acks = router.enqueue(organization.id, acknowledged, 'acknowledged')
+    // Chat channels already have the firing message; only the incident tool hears about the ack.
+    expect(acks.map((item) => item.channelId)).toEqual([channel.id])
+    await router.deliverAll(acks)
+    const resolved = store.saveAlert(
+      { ...acknowledged, state: 'resolved', resolvedAt: '2026-07-21T12:05:00Z' },
+      'resolved',
+    )
+    await router.deliverAll(router.enqueue(organization.id, resolved, 'resolved'))
+    const events = sent
+      .filter((item) => item.url === 'https://events.pagerduty.com/v2/enqueue')
+      .map((item) => item.body)
+    expect(events.map((item) => item.event_action)).toEqual(['trigger', 'acknowledge', 'resolve'])
+    expect(new Set(events.map((item) => item.dedup_key))).toEqual(new Set([alert.dedupKey]))
+    expect(events[0]).toMatchObject({
+      routing_key: 'routing-key',
+      payload: { severity: 'critical', custom_details: { alertId: alert.id } },
+    })
+    expect(events[1].payload).toBeUndefined()
+  })
+
+  it('tests a PagerDuty channel with a change event rather than an incident', async () => {
+    const { channel, router, sent } = incident('pagerduty', 'routing-key')
+    expect((await router.testChannel(channel.id)).ok).toBeTrue()
+    expect(sent).toMatchObject([{ url: 'https://events.pagerduty.com/v2/change/enqueue' }])
+    expect(sent[0]!.body.event_action).toBeUndefined()
+  })
+
+  it('creates, acknowledges, and closes Opsgenie alerts by alias in the configured region', async () => {
+    const { store, organization, channel, alert, router, sent } = incident('opsgenie', 'genie-key', { region: 'eu' })
+    await router.deliverAll(router.enqueue(organization.id, alert, 'firing'))
+    const responder = store.controlPlane.createActor({ kind: 'user', displayName: 'Dev' })
+    const acknowledged = store.acknowledge(alert.id, responder.id)
+    await router.deliverAll(router.enqueue(organization.id, acknowledged, 'acknowledged'))
+    const resolved = store.saveAlert(
+      { ...acknowledged, state: 'resolved', resolvedAt: '2026-07-21T12:05:00Z' },
+      'resolved',
+    )
+    await router.deliverAll(router.enqueue(organization.id, resolved, 'resolved'))
+    const genie = sent.filter((item) => item.url.startsWith('https://api.eu.opsgenie.com/'))
+    const alias = encodeURIComponent(alert.dedupKey)
+    expect(genie.map((item) => item.url)).toEqual([
+      'https://api.eu.opsgenie.com/v2/alerts',
+      `https://api.eu.opsgenie.com/v2/alerts/${alias}/acknowledge?identifierType=alias`,
+      `https://api.eu.opsgenie.com/v2/alerts/${alias}/close?identifierType=alias`,
+    ])
+    expect(genie[0]).toMatchObject({
+      headers: { authorization: 'GenieKey genie-key' },
+      body: { alias: alert.dedupKey, priority: 'P1', message: 'API unhealthy' },
+    })
+    sent.length = 0
+    expect((await router.testChannel(channel.id)).ok).toBeTrue()
+    expect(sent.map((item) => item.url.split('?')[0]!.split('/').pop())).toEqual(['alerts', 'close'])
+  })
+
+  it('acknowledges and silences alerts from signed PagerDuty webhooks', () => {
+    const { store, channel, alert } = incident(
+      'pagerduty',
+      JSON.stringify({ routingKey: 'routing-key', webhookSecret: 'whsec' }),
+    )
+    const deliver = (eventType: string, incidentKey: string, secret = 'whsec') => {
+      const rawBody = new TextEncoder().encode(
+        JSON.stringify({
+          event: {
+            event_type: eventType,
+            agent: { id: 'PUSER1', summary: 'Jordan Responder', type: 'user_reference' },
+            data: { id: 'Q1', type: 'incident', incident_key: incidentKey },
+          },
+        }),
+      )
+      const signature = `v1=${createHmac('sha256', secret).update(rawBody).digest('hex')}`
+      return processPagerDutyWebhook({
+        store,
+        channelId: channel.id,
+        headers: { 'X-PagerDuty-Signature': `v1=stale,${signature}` },
+        rawBody,
+      })
+    }
+    expect(deliver('incident.acknowledged', alert.dedupKey, 'wrong')).toMatchObject({ accepted: false })
+    expect(store.getAlert(alert.id)?.acknowledgedAt).toBeUndefined()
+    expect(deliver('incident.acknowledged', 'someone-elses-incident')).toMatchObject({
+      accepted: true,
+      status: 'ignored',
+    })
+
+    const acknowledged = deliver('incident.acknowledged', alert.dedupKey)
+    expect(acknowledged.status).toBe('acknowledged')
+    const responder = store.controlPlane.getActor(acknowledged.alert!.acknowledgedByActorId!)
+    expect(responder).toMatchObject({ kind: 'system', externalId: 'pagerduty:PUSER1', displayName: 'Jordan Responder' })
+    expect(deliver('incident.acknowledged', alert.dedupKey).status).toBe('ignored')
+
+    const silenced = deliver('incident.resolved', alert.dedupKey)
+    expect(silenced.alert).toMatchObject({ state: 'silenced', silencedUntil: '2026-07-21T13:00:00.000Z' })
+  })
+
+  it('stops reading a webhook body once it passes the limit', async () => {
+    const post = (body: string | ReadableStream<Uint8Array>, headers: Record<string, string> = {}) =>
+      new Request('https://dashboard.test/api/alerts/webhooks/pagerduty/channel', { method: 'POST', body, headers })
+    let pulled = 0
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++
+        controller.enqueue(new Uint8Array(64 * 1024))
+      },
+    })
+
+    expect(await readIncidentWebhookBody(post('{}', { 'content-length': String(2 * 1024 * 1024) }))).toBeUndefined()
+    expect(await readIncidentWebhookBody(post(endless))).toBeUndefined()
+    expect(pulled).toBeLessThan(20)
+    expect(new TextDecoder().decode(await readIncidentWebhookBody(post('{"event":{}}')))).toBe('{"event":{}}')
+  })
+})
+
+describe('on-call and escalation', () => {
+  function people(context: ReturnType<typeof fixture>, ...names: string[]) {
+    return names.map(
+      (name) =>
+        context.controlPlane.createActor({ kind: 'user', externalId: `dashboard:${name}`, displayName: name }).id,
+    )
+  }
+
+  it('rotates layers, honors restrictions in the schedule timezone, and lets overrides win', () => {
+    const context = fixture(),
+      { store, organization } = context,
+      [ana, ben, cai, dee] = people(context, 'ana', 'ben', 'cai', 'dee')
+    const schedule = store.createSchedule({
+      organizationId: organization.id,
+      name: 'Platform',
+      timezone: 'Europe/Amsterdam',
+      layers: [
+        { name: 'Daily', participants: [ana!, ben!], rotationStartsAt: '2026-07-20T00:00:00Z', shiftSeconds: 86400 },
+        {
+          name: 'Office hours',
+          participants: [cai!],
+          rotationStartsAt: '2026-07-20T00:00:00Z',
+          shiftSeconds: 604800,
+          restrictions: [{ start: '09:00', end: '17:00', weekdays: [1, 2, 3, 4, 5] }],
+        },
+      ],
+    })
+    // 14:00 in Amsterdam on a Tuesday: the office-hours layer is on top.
+    expect(store.onCallAt(schedule.id, new Date('2026-07-21T12:00:00Z'))).toMatchObject({
+      actorId: cai,
+      source: 'layer',
+      layer: 'Office hours',
+    })
+    // 18:00 local falls back to the daily rotation, on its second shift.
+    expect(store.onCallAt(schedule.id, new Date('2026-07-21T16:00:00Z')).actorId).toBe(ben)
+    expect(store.onCallAt(schedule.id, new Date('2026-07-22T03:00:00Z')).actorId).toBe(ana)
+    expect(store.onCallAt(schedule.id, new Date('2026-07-19T12:00:00Z')).source).toBe('none')
+
+    const override = store.createOverride({
+      scheduleId: schedule.id,
+      actorId: dee!,
+      startsAt: '2026-07-21T13:00:00Z',
+      endsAt: '2026-07-21T15:00:00Z',
+      reason: 'swap',
+    })
+    expect(store.onCallAt(schedule.id, new Date('2026-07-21T14:00:00Z'))).toMatchObject({
+      actorId: dee,
+      source: 'override',
+      overrideId: override.id,
+    })
+    const newer = { ...override, id: 'newer', actorId: ana!, createdAt: '2026-07-21T12:30:00Z' }
+    expect(resolveOnCall(schedule, [override, newer], new Date('2026-07-21T14:00:00Z')).actorId).toBe(ana)
+    store.deleteOverride(override.id)
+    expect(store.onCallAt(schedule.id, new Date('2026-07-21T14:00:00Z')).actorId).toBe(cai)
+
+    expect(() =>
+      store.updateSchedule(schedule.id, { layers: [{ ...schedule.layers[0]!, shiftSeconds: 60 }] }, schedule.version),
+    ).toThrow('between 15 minutes and 90 days')
+    expect(() =>
+      store.createSchedule({
+        organizationId: organization.id,
+        name: 'Ghosts',
+        timezone: 'UTC',
+        layers: [
+          { name: 'Nobody', participants: ['missing'], rotationStartsAt: '2026-07-20T00:00:00Z', shiftSeconds: 3600 },
+        ],
+      }),
+    ).toThrow()
+    expect(store.updateSchedule(schedule.id, { name: 'Platform primary' }, schedule.version).version).toBe(2)
+    expect(() => store.updateSchedule(schedule.id, { name: 'Stale' }, schedule.version)).toThrow()
+  })
+
+  it('pages tier by tier until acknowledged, repeats cycles, and never pages the same tier twice', () => {
+    const context = fixture(),
+      { store, organization, project } = context,
+      [ana, ben] = people(context, 'ana', 'ben'),
+      webhook = (name: string) =>
+        store.createChannel({
+          organizationId: organization.id,
+          name,
+          kind: 'webhook',
+          credential: `https://hooks.example.test/${name}`,
+        }).id,
+      [anaPhone, benPhone, war] = [webhook('ana'), webhook('ben'), webhook('war-room')],
+      layer = (actorId: string) => ({
+        name: 'Weekly',
+        participants: [actorId],
+        rotationStartsAt: '2026-07-20T00:00:00Z',
+        shiftSeconds: 604800,
+      }),
+      primary = store.createSchedule({
+        organizationId: organization.id,
+        name: 'Primary',
+        timezone: 'UTC',
+        layers: [layer(ana!)],
+      }),
+      secondary = store.createSchedule({
+        organizationId: organization.id,
+        name: 'Secondary',
+        timezone: 'UTC',
+        layers: [layer(ben!)],
+      })
+    store.setContactChannels(ana!, [anaPhone])
+    store.setContactChannels(ben!, [benPhone])
+    const policy = store.createEscalationPolicy({
+      organizationId: organization.id,
+      name: 'Platform',
+      repeat: 1,
+      tiers: [
+        { targets: [{ type: 'schedule', scheduleId: primary.id }], channelIds: [], delaySeconds: 300 },
+        { targets: [{ type: 'schedule', scheduleId: secondary.id }], channelIds: [war], delaySeconds: 600 },
+      ],
+    })
+    expect(() =>
+      store.createEscalationPolicy({
+        organizationId: organization.id,
+        name: 'Empty',
+        tiers: [{ targets: [], channelIds: [], delaySeconds: 300 }],
+      }),
+    ).toThrow()
+    store.createRoute({
+      organizationId: organization.id,
+      name: 'Page platform',
+      priority: 1,
+      matcher: { severities: ['critical'] },
+      channelIds: [],
+      groupWaitSeconds: 0,
+      escalation: [],
+      escalationPolicyId: policy.id,
+      rateLimitPerMinute: 1,
+      enabled: true,
+    })
+    const evaluator = new AlertEvaluator(store),
+      alert = evaluator.evaluate(rule(store, { projectId: project.id, consecutive: 1 }), {
+        status: 'unhealthy',
+        timestamp: '2026-07-21T11:59:00Z',
+      }).alert!,
+      router = new NotificationRouter(store, { now: () => new Date('2026-07-21T12:00:00Z') }),
+      due = (at: string) =>
+        evaluator.escalate(organization.id, [alert], new Date(at)).map((page) => [page.cycle, page.tier, page.actorIds])
+
+    expect(due('2026-07-21T11:59:30Z')).toEqual([[0, 0, [ana]]])
+    expect(due('2026-07-21T12:04:30Z')).toEqual([
+      [0, 0, [ana]],
+      [0, 1, [ben]],
+    ])
+    // One full cycle is 15 minutes, so tier 1 comes round again at 12:14.
+    expect(due('2026-07-21T12:15:00Z')).toEqual([
+      [0, 0, [ana]],
+      [0, 1, [ben]],
+      [1, 0, [ana]],
+    ])
+    expect(due('2026-07-21T13:00:00Z')).toHaveLength(4)
+
+    const pages = evaluator.escalate(organization.id, [alert], new Date('2026-07-21T12:04:30Z')),
+      first = router.enqueuePages(pages)
+    expect(first.map((item) => [item.eventType, item.channelId])).toEqual([
+      ['page', anaPhone],
+      ['page', war],
+      ['page', benPhone],
+    ])
+    expect(first[1]!.payload).toMatchObject({ page: { policyId: policy.id, tier: 2, cycle: 0, actorIds: [ben] } })
+    expect(router.enqueuePages(pages).map((item) => item.id)).toEqual(first.map((item) => item.id))
+
+    const acknowledged = store.acknowledge(alert.id, ana!)
+    expect(evaluator.escalate(organization.id, [acknowledged], new Date('2026-07-21T13:00:00Z'))).toEqual([])
+    const warning = { ...alert, severity: 'warning' as const }
+    expect(evaluator.escalate(organization.id, [warning], new Date('2026-07-21T13:00:00Z'))).toEqual([])
+  })
+
+  it('restarts firingAt when a resolved alert fires again', () => {
+    const { store, project } = fixture(),
+      evaluator = new AlertEvaluator(store),
+      configured = rule(store, { projectId: project.id, consecutive: 1, recoveryConsecutive: 1 })
+    expect(
+      evaluator.evaluate(configured, { status: 'unhealthy', timestamp: '2026-07-21T11:00:00Z' }).alert,
+    ).toMatchObject({ state: 'firing', firingAt: '2026-07-21T11:00:00.000Z' })
+    expect(evaluator.evaluate(configured, { status: 'healthy', timestamp: '2026-07-21T11:01:00Z' }).alert?.state).toBe(
+      'resolved',
+    )
+    expect(
+      evaluator.evaluate(configured, { status: 'unhealthy', timestamp: '2026-07-21T11:30:00Z' }).alert,
+    ).toMatchObject({ state: 'firing', firingAt: '2026-07-21T11:30:00.000Z' })
+  })
+})
+
 describe('synthetic outage journey', () => {
   it('records check evidence through acknowledgement and recovery without a fake test incident', async () => {
     const { controlPlane, store, organization, project, environment, resource } = fixture(),
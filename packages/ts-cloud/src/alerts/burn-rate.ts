@@ -0,0 +1,59 @@
+import type { ServiceLevelObjective, SloBurnWindow, SloEventCounts } from './model'
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * The multi-window, multi-burn-rate alerts from the Google SRE workbook,
+ * stated as the share of the whole budget each long window may consume. For
+ * a 30-day window they are the familiar 14.4× over 1h, 6× over 6h, 3× over
+ * 1d, and 1× over 3d; other windows keep the same budget shares, so a 7-day
+ * objective pages at 3.36× over 1h. Each short window is a twelfth of its
+ * long one and stops the alert as soon as the burn does.
+ */
+export const SLO_BURN_TIERS: ReadonlyArray<{
+  budgetShare: number
+  longWindowMs: number
+  severity: SloBurnWindow['severity']
+}> = [
+  { budgetShare: 0.02, longWindowMs: HOUR_MS, severity: 'critical' },
+  { budgetShare: 0.05, longWindowMs: 6 * HOUR_MS, severity: 'critical' },
+  { budgetShare: 0.1, longWindowMs: 24 * HOUR_MS, severity: 'warning' },
+  { budgetShare: 0.1, longWindowMs: 72 * HOUR_MS, severity: 'warning' },
+]
+
+/** The burn-rate alerts that fit inside the objective's window. */
+export function sloBurnWindows(slo: Pick<ServiceLevelObjective, 'windowDays'>): SloBurnWindow[] {
+  const windowMs = slo.windowDays * 24 * HOUR_MS
+  return SLO_BURN_TIERS.flatMap((tier, index) =>
+    tier.longWindowMs < windowMs
+      ? [
+          {
+            tier: index,
+            longWindowMs: tier.longWindowMs,
+            shortWindowMs: tier.longWindowMs / 12,
+            burnRate: Math.round(((tier.budgetShare * windowMs) / tier.longWindowMs) * 100) / 100,
+            severity: tier.severity,
+          },
+        ]
+      : [],
+  )
+}
+
+/** How many times faster than sustainable the budget is being spent; 0 without events. */
+export function sloBurnRate(events: SloEventCounts, targetPercent: number): number {
+  if (!events.total) return 0
+  return events.bad / events.total / (1 - targetPercent / 100)
+}
+
+/** Share of the error budget left after `events`: 1 untouched, 0 spent, negative overspent. */
+export function sloBudgetRemaining(events: SloEventCounts, targetPercent: number): number {
+  return 1 - sloBurnRate(events, targetPercent)
+}
+
+export function formatSloWindow(ms: number): string {
+  return ms % (24 * HOUR_MS) === 0
+    ? `${ms / (24 * HOUR_MS)}d`
+    : ms % HOUR_MS === 0
+      ? `${ms / HOUR_MS}h`
+      : `${Math.round(ms / 60_000)}m`
+}
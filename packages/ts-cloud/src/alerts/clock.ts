@@ -0,0 +1,42 @@
+// Wall-clock helpers shared by quiet hours and on-call restrictions. Not
+// re-exported from the module index.
+
+export function minuteInZone(at: Date, timezone: string): { minute: number; weekday: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(at)
+      .map((part) => [part.type, part.value]),
+  )
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+  return { minute: Number(parts.hour) * 60 + Number(parts.minute), weekday: weekdays.indexOf(parts.weekday) }
+}
+export function clock(value: string, label = 'Quiet hours'): number {
+  const match = /^(\d{2}):(\d{2})$/.exec(value)
+  if (!match) throw new Error(`${label} require HH:MM times.`)
+  const minute = Number(match[1]) * 60 + Number(match[2])
+  if (Number(match[1]) > 23 || Number(match[2]) > 59) throw new Error(`${label} require valid HH:MM times.`)
+  return minute
+}
+/**
+ * Whether `at` falls in a daily `start`–`end` window in `timezone`. A window
+ * whose end is before its start wraps past midnight; `weekdays` (0 = Sunday)
+ * match the day the local time falls on.
+ */
+export function inDailyWindow(
+  window: { start: string; end: string; weekdays?: number[] },
+  at: Date,
+  timezone: string,
+  label?: string,
+): boolean {
+  const local = minuteInZone(at, timezone),
+    start = clock(window.start, label),
+    end = clock(window.end, label)
+  if (window.weekdays?.length && !window.weekdays.includes(local.weekday)) return false
+  return start <= end ? local.minute >= start && local.minute < end : local.minute >= start || local.minute < end
+}
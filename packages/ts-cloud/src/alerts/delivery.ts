@@ -1,6 +1,7 @@
 import type { JsonValue } from '../control-plane'
-import type { Alert, NotificationChannel, NotificationDelivery, NotificationRoute } from './model'
+import type { Alert, EscalationPage, NotificationChannel, NotificationDelivery, NotificationRoute } from './model'
 import { createHmac } from 'node:crypto'
+import { inDailyWindow } from './clock'
 import { AlertStore } from './store'
 
 export type NotificationFetch = (
@@ -19,38 +20,12 @@ export type NotificationEmail = (input: {
  */
 export type NotificationSms = (input: { to: string; from?: string; text: string }) => Promise<unknown>
 
-function minuteInZone(at: Date, timezone: string): { minute: number; weekday: number } {
-  const parts = Object.fromEntries(
-    new Intl.DateTimeFormat('en-US', {
-      timeZone: timezone,
-      weekday: 'short',
-      hour: '2-digit',
-      minute: '2-digit',
-      hourCycle: 'h23',
-    })
-      .formatToParts(at)
-      .map((part) => [part.type, part.value]),
-  )
-  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
-  return { minute: Number(parts.hour) * 60 + Number(parts.minute), weekday: weekdays.indexOf(parts.weekday) }
-}
-function clock(value: string): number {
-  const match = /^(\d{2}):(\d{2})$/.exec(value)
-  if (!match) throw new Error('Quiet hours require HH:MM times.')
-  const minute = Number(match[1]) * 60 + Number(match[2])
-  if (Number(match[1]) > 23 || Number(match[2]) > 59) throw new Error('Quiet hours require valid HH:MM times.')
-  return minute
-}
 export function isQuietHours(route: NotificationRoute, at: Date): boolean {
   if (!route.quietHours) return false
-  const local = minuteInZone(at, route.quietHours.timezone),
-    start = clock(route.quietHours.start),
-    end = clock(route.quietHours.end)
-  if (route.quietHours.weekdays?.length && !route.quietHours.weekdays.includes(local.weekday)) return false
-  return start <= end ? local.minute >= start && local.minute < end : local.minute >= start || local.minute < end
+  return inDailyWindow(route.quietHours, at, route.quietHours.timezone)
 }
 
-function matches(route: NotificationRoute, alert: Alert, eventType: string): boolean {
+export function routeMatches(route: NotificationRoute, alert: Alert, eventType: string): boolean {
   const m = route.matcher
   return (
     (!m.projectIds?.length || m.projectIds.includes(alert.projectId)) &&
@@ -94,6 +69,7 @@ function payload(alert: Alert, eventType: string, template?: string): Record<str
     notificationText: notificationText(alert, eventType, template),
     alert: {
       id: alert.id,
+      dedupKey: alert.dedupKey,
       state: alert.state,
       severity: alert.severity,
       title: alert.title,
@@ -110,6 +86,125 @@ function payload(alert: Alert, eventType: string, template?: string): Record<str
   }
 }
 
+/** Channels that open one incident per alert `dedupKey` instead of posting a message per event. */
+const INCIDENT_KINDS = new Set<NotificationChannel['kind']>(['pagerduty', 'opsgenie'])
+const PAGERDUTY_EVENTS_URL = 'https://events.pagerduty.com/v2/enqueue'
+const PAGERDUTY_CHANGE_URL = 'https://events.pagerduty.com/v2/change/enqueue'
+
+function incidentAction(event: JsonValue | undefined): 'trigger' | 'acknowledge' | 'resolve' {
+  return event === 'resolved' ? 'resolve' : event === 'acknowledged' ? 'acknowledge' : 'trigger'
+}
+function incidentDetails(alert: Record<string, JsonValue>): Record<string, JsonValue> {
+  return {
+    alertId: alert.id ?? null,
+    projectId: alert.projectId ?? null,
+    environmentId: alert.environmentId ?? null,
+    resourceId: alert.resourceId ?? null,
+    groupKey: alert.groupKey ?? null,
+    firingAt: alert.firingAt ?? null,
+    evidence: alert.evidence ?? null,
+  }
+}
+/**
+ * The PagerDuty Events v2 request for one delivery. Every event for an alert
+ * carries its `dedupKey`, so reminders re-trigger the same incident and the
+ * acknowledgement and resolution close it rather than opening new ones.
+ */
+function pagerDutyRequest(
+  secret: Record<string, string>,
+  body: Record<string, JsonValue>,
+  text: string,
+): { url: string; posted: unknown } | { error: string } {
+  const routingKey = secret.routingKey ?? secret.value
+  if (!routingKey) return { error: 'PagerDuty channels need an Events v2 routing key.' }
+  // Channel tests go out as a change event, which PagerDuty records on the
+  // service timeline without opening an incident or paging anyone.
+  if (body.event === 'test')
+    return {
+      url: PAGERDUTY_CHANGE_URL,
+      posted: { routing_key: routingKey, payload: { summary: String(body.message ?? text), source: 'ts-cloud' } },
+    }
+  const alert = (body.alert ?? {}) as Record<string, JsonValue>
+  if (typeof alert.dedupKey !== 'string') return { error: 'PagerDuty deliveries need an alert dedup key.' }
+  const action = incidentAction(body.event)
+  return {
+    url: PAGERDUTY_EVENTS_URL,
+    posted: {
+      routing_key: routingKey,
+      event_action: action,
+      dedup_key: alert.dedupKey,
+      client: 'ts-cloud',
+      ...(action === 'trigger'
+        ? {
+            payload: {
+              summary: text.slice(0, 1024),
+              source: String(alert.resourceId ?? alert.environmentId ?? alert.projectId ?? 'ts-cloud'),
+              severity: ['critical', 'warning', 'info'].includes(String(alert.severity))
+                ? String(alert.severity)
+                : 'error',
+              group: typeof alert.groupKey === 'string' ? alert.groupKey : undefined,
+              custom_details: incidentDetails(alert),
+            },
+          }
+        : {}),
+    },
+  }
+}
+/**
+ * The Opsgenie Alert API requests for one delivery. Alerts are created with
+ * the `dedupKey` as their alias and acknowledged or closed by that alias.
+ * Tests open a P5 alert and close it straight away, because Opsgenie has no
+ * way to validate an API key without touching an alert.
+ */
+function opsgenieRequests(
+  channel: NotificationChannel,
+  secret: Record<string, string>,
+  body: Record<string, JsonValue>,
+  text: string,
+): { requests: Array<{ url: string; posted: unknown }>; headers: Record<string, string> } | { error: string } {
+  const apiKey = secret.apiKey ?? secret.value
+  if (!apiKey) return { error: 'Opsgenie channels need an API integration key.' }
+  const base =
+    channel.config.region === 'eu' ? 'https://api.eu.opsgenie.com/v2/alerts' : 'https://api.opsgenie.com/v2/alerts'
+  const headers = { 'content-type': 'application/json', authorization: `GenieKey ${apiKey}` }
+  const alert = (body.alert ?? {}) as Record<string, JsonValue>
+  const test = body.event === 'test'
+  const alias = test ? `ts-cloud-test-${channel.id}` : alert.dedupKey
+  if (typeof alias !== 'string') return { error: 'Opsgenie deliveries need an alert dedup key.' }
+  const byAlias = (action: string) => `${base}/${encodeURIComponent(alias)}/${action}?identifierType=alias`
+  const create = {
+    url: base,
+    posted: {
+      message: (test ? 'ts-cloud notification channel test' : String(alert.title ?? text)).slice(0, 130),
+      alias,
+      description: (typeof body.message === 'string' ? body.message : text).slice(0, 15_000),
+      priority: test ? 'P5' : alert.severity === 'critical' ? 'P1' : alert.severity === 'warning' ? 'P3' : 'P5',
+      source: 'ts-cloud',
+      details: Object.fromEntries(
+        Object.entries(incidentDetails(alert))
+          .filter(([, value]) => value !== null)
+          .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]),
+      ),
+    },
+  }
+  if (test)
+    return {
+      headers,
+      requests: [create, { url: byAlias('close'), posted: { source: 'ts-cloud', note: 'Channel test.' } }],
+    }
+  const action = incidentAction(body.event)
+  if (action === 'trigger') return { headers, requests: [create] }
+  return {
+    headers,
+    requests: [
+      {
+        url: byAlias(action === 'resolve' ? 'close' : 'acknowledge'),
+        posted: { source: 'ts-cloud', note: text.slice(0, 25_000) },
+      },
+    ],
+  }
+}
+
 export class NotificationRouter {
   private readonly fetchImpl: NotificationFetch
   constructor(
@@ -134,7 +229,7 @@ export class NotificationRouter {
   ): Array<{ route: NotificationRoute; channels: NotificationChannel[]; quiet: boolean }> {
     const result: Array<{ route: NotificationRoute; channels: NotificationChannel[]; quiet: boolean }> = []
     for (const route of this.store.listRoutes(organizationId)) {
-      if (!route.enabled || !matches(route, alert, eventType)) continue
+      if (!route.enabled || !routeMatches(route, alert, eventType)) continue
       const channels: NotificationChannel[] = []
       for (const id of route.channelIds) {
         const channel = this.store.getChannel(id)
@@ -147,27 +242,38 @@ export class NotificationRouter {
   enqueue(
     organizationId: string,
     alert: Alert,
-    eventType: 'firing' | 'resolved' | 'reminder' | 'escalation',
+    eventType: 'firing' | 'resolved' | 'reminder' | 'escalation' | 'acknowledged',
   ): NotificationDelivery[] {
     const marker =
-      eventType === 'resolved' ? alert.resolvedAt : eventType === 'firing' ? alert.firingAt : alert.updatedAt
+      eventType === 'resolved'
+        ? alert.resolvedAt
+        : eventType === 'firing'
+          ? alert.firingAt
+          : eventType === 'acknowledged'
+            ? alert.acknowledgedAt
+            : alert.updatedAt
+    // Resolutions and acknowledgements keep incident tools in step with the
+    // alert, so they skip quiet hours, group wait, and rate limits. Only
+    // incident channels hear about acknowledgements; chat channels already
+    // have the firing message and the dashboard shows who picked it up.
+    const stateSync = eventType === 'resolved' || eventType === 'acknowledged'
     const deliveries: NotificationDelivery[] = []
     for (const match of this.preview(organizationId, alert, eventType)) {
-      if (match.quiet && eventType !== 'resolved') continue
+      if (match.quiet && !stateSync) continue
       const nextAttemptAt =
-        eventType === 'resolved' || match.route.groupWaitSeconds === 0
+        stateSync || match.route.groupWaitSeconds === 0
           ? undefined
           : new Date(this.now().getTime() + match.route.groupWaitSeconds * 1000).toISOString()
-      let remaining =
-        eventType === 'resolved'
-          ? Number.POSITIVE_INFINITY
-          : Math.max(
-              0,
-              match.route.rateLimitPerMinute -
-                this.store.countRouteDeliveries(match.route.id, new Date(this.now().getTime() - 60_000).toISOString()),
-            )
+      let remaining = stateSync
+        ? Number.POSITIVE_INFINITY
+        : Math.max(
+            0,
+            match.route.rateLimitPerMinute -
+              this.store.countRouteDeliveries(match.route.id, new Date(this.now().getTime() - 60_000).toISOString()),
+          )
       for (const channel of match.channels) {
         if (remaining <= 0) break
+        if (eventType === 'acknowledged' && !INCIDENT_KINDS.has(channel.kind)) continue
         deliveries.push(
           this.store.createDelivery({
             alertId: alert.id,
@@ -226,6 +332,42 @@ export class NotificationRouter {
     return deliveries
   }
 
+  /**
+   * Queue deliveries for escalation-policy pages from
+   * {@link AlertEvaluator.escalate}. Pages ignore quiet hours and rate
+   * limits: reaching whoever is on call is the point. The key names the
+   * firing, policy, cycle, and tier, so each tier pages each channel once.
+   */
+  enqueuePages(pages: EscalationPage[]): NotificationDelivery[] {
+    const deliveries: NotificationDelivery[] = []
+    for (const page of pages) {
+      const route = this.store.getRoute(page.routeId)
+      for (const channelId of page.channelIds) {
+        if (this.store.getChannel(channelId)?.status !== 'active') continue
+        deliveries.push(
+          this.store.createDelivery({
+            alertId: page.alert.id,
+            channelId,
+            routeId: page.routeId,
+            eventType: 'page',
+            idempotencyKey: `${page.alert.id}:page:${page.alert.firingAt}:${page.policyId}:${page.cycle}:${page.tier}:${channelId}`,
+            payload: {
+              ...payload(page.alert, 'page', route?.template),
+              page: {
+                policyId: page.policyId,
+                tier: page.tier + 1,
+                cycle: page.cycle,
+                dueAt: page.dueAt,
+                actorIds: page.actorIds,
+              },
+            },
+          }),
+        )
+      }
+    }
+    return deliveries
+  }
+
   private async send(
     channel: NotificationChannel,
     body: Record<string, JsonValue>,
@@ -255,6 +397,21 @@ export class NotificationRouter {
         await this.options.smsImpl({ to, from: channel.config.from as string | undefined, text: text.slice(0, 300) })
         return { ok: true, status: 202 }
       }
+      if (channel.kind === 'pagerduty') {
+        const request = pagerDutyRequest(secret, body, text)
+        if ('error' in request) return { ok: false, error: request.error }
+        return await this.post(request.url, { 'content-type': 'application/json' }, JSON.stringify(request.posted))
+      }
+      if (channel.kind === 'opsgenie') {
+        const plan = opsgenieRequests(channel, secret, body, text)
+        if ('error' in plan) return { ok: false, error: plan.error }
+        let result: { ok: boolean; status?: number; error?: string } = { ok: true }
+        for (const request of plan.requests) {
+          result = await this.post(request.url, plan.headers, JSON.stringify(request.posted))
+          if (!result.ok) break
+        }
+        return result
+      }
       let url = secret.url ?? secret.value
       let posted: unknown = body
       const headers: Record<string, string> = { 'content-type': 'application/json' }
@@ -274,25 +431,32 @@ export class NotificationRouter {
         headers['x-ts-cloud-signature'] =
           `v1=${createHmac('sha256', secret.signingSecret).update(`${timestamp}.${encoded}`).digest('hex')}`
       }
-      const controller = new AbortController()
-      const timer = setTimeout(() => controller.abort(), 10_000)
-      try {
-        const response = await this.fetchImpl(url, {
-          method: 'POST',
-          headers,
-          body: encoded,
-          signal: controller.signal,
-        })
-        return response.ok
-          ? { ok: true, status: response.status }
-          : { ok: false, status: response.status, error: `Channel returned HTTP ${response.status}.` }
-      } finally {
-        clearTimeout(timer)
-      }
+      return await this.post(url, headers, encoded)
     } catch (error) {
       return { ok: false, error: error instanceof Error ? error.message : String(error) }
     }
   }
+  private async post(
+    url: string,
+    headers: Record<string, string>,
+    encoded: string,
+  ): Promise<{ ok: boolean; status?: number; error?: string }> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), 10_000)
+    try {
+      const response = await this.fetchImpl(url, {
+        method: 'POST',
+        headers,
+        body: encoded,
+        signal: controller.signal,
+      })
+      return response.ok
+        ? { ok: true, status: response.status }
+        : { ok: false, status: response.status, error: `Channel returned HTTP ${response.status}.` }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
 
   async deliver(id: string): Promise<NotificationDelivery> {
     const current = this.store.getDelivery(id)
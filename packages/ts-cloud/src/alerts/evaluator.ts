@@ -1,6 +1,7 @@
-import type { Alert, AlertRule, AlertSample } from './model'
+import type { Alert, AlertRule, AlertSample, EscalationPage } from './model'
 import { createHash } from 'node:crypto'
 import { sanitizeControlPlaneValue } from '../control-plane'
+import { routeMatches } from './delivery'
 import { AlertStore } from './store'
 
 export interface AlertEvaluation {
@@ -107,7 +108,13 @@ export class AlertEvaluator {
         occurrenceCount: current.occurrenceCount + 1,
         firstSeenAt: restarted ? timestamp : current.firstSeenAt,
         lastSeenAt: timestamp,
-        firingAt: state === 'firing' || state === 'silenced' ? (current.firingAt ?? timestamp) : undefined,
+        // A resolved alert that breaches again is a new firing: keeping the
+        // old firingAt would dedupe its notifications against the last one
+        // and start escalation policies part-way through.
+        firingAt:
+          state === 'firing' || state === 'silenced'
+            ? ((restarted ? undefined : current.firingAt) ?? timestamp)
+            : undefined,
         resolvedAt: undefined,
         updatedAt: timestamp,
       }
@@ -142,4 +149,59 @@ export class AlertEvaluator {
     const saved = this.store.saveAlert(next, changed || !current ? transition : 'observed')
     return { alert: saved, transition, notify: transition === 'firing' || transition === 'resolved' }
   }
+  /**
+   * The escalation-policy tiers due for firing, unacknowledged alerts at
+   * `at`. Each tier comes due its predecessors' delays after the alert fired
+   * and, when the policy repeats, again one full cycle later. Every due tier
+   * is returned on every tick; the router's idempotency keys make repeats
+   * free, so a missed tick catches up rather than skipping a tier. Who is on
+   * call is resolved at the tier's due time, not the tick's, so a handoff
+   * between ticks cannot page both people.
+   */
+  escalate(organizationId: string, alerts: Alert[], at: Date): EscalationPage[] {
+    const pages: EscalationPage[] = []
+    const routes = this.store
+      .listRoutes(organizationId)
+      .filter((route) => route.enabled && route.escalationPolicyId)
+    for (const alert of alerts) {
+      if (alert.state !== 'firing' || alert.acknowledgedAt || !alert.firingAt) continue
+      const firedAt = new Date(alert.firingAt).getTime()
+      for (const route of routes.filter((item) => routeMatches(item, alert, 'firing'))) {
+        const policy = this.store.getEscalationPolicy(route.escalationPolicyId!)
+        if (!policy?.tiers.length) continue
+        const cycleMs = policy.tiers.reduce((sum, tier) => sum + tier.delaySeconds * 1000, 0)
+        for (let cycle = 0; cycle <= policy.repeat; cycle++) {
+          let offset = cycle * cycleMs
+          for (const [tier, step] of policy.tiers.entries()) {
+            const due = new Date(firedAt + offset)
+            if (due > at) break
+            const actorIds = [
+              ...new Set(
+                step.targets.flatMap((target) => {
+                  if (target.type === 'actor') return [target.actorId]
+                  if (!this.store.getSchedule(target.scheduleId)) return []
+                  const shift = this.store.onCallAt(target.scheduleId, due)
+                  return shift.actorId ? [shift.actorId] : []
+                }),
+              ),
+            ]
+            pages.push({
+              alert,
+              routeId: route.id,
+              policyId: policy.id,
+              cycle,
+              tier,
+              dueAt: due.toISOString(),
+              actorIds,
+              channelIds: [
+                ...new Set([...step.channelIds, ...actorIds.flatMap((id) => this.store.contactChannels(id))]),
+              ],
+            })
+            offset += step.delaySeconds * 1000
+          }
+        }
+      }
+    }
+    return pages
+  }
 }
@@ -0,0 +1,155 @@
+import type { Alert } from './model'
+import type { AlertStore } from './store'
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+export interface IncidentWebhookResult {
+  accepted: boolean
+  status: 'rejected' | 'ignored' | 'acknowledged' | 'silenced'
+  alert?: Alert
+  message: string
+}
+
+/** The largest incident webhook body accepted; real PagerDuty payloads are a few kilobytes. */
+export const INCIDENT_WEBHOOK_MAX_BYTES: number = 1024 * 1024
+
+function header(headers: Headers | Record<string, string | undefined>, name: string): string | undefined {
+  if (headers instanceof Headers) return headers.get(name) ?? undefined
+  const found = Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase())
+  return found?.[1]
+}
+
+function equal(left: string, right: string): boolean {
+  const a = Buffer.from(left)
+  const b = Buffer.from(right)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+function unavailable(): IncidentWebhookResult {
+  return { accepted: false, status: 'rejected', message: 'Webhook unavailable' }
+}
+
+function ignored(message: string, alert?: Alert): IncidentWebhookResult {
+  return { accepted: true, status: 'ignored', alert, message }
+}
+
+/**
+ * PagerDuty V3 webhooks sign the raw body with HMAC-SHA256. The header can
+ * carry several `v1=` signatures while a subscription secret is rotated; any
+ * one matching is enough.
+ */
+export function verifyPagerDutySignature(secret: string, rawBody: Uint8Array, signatures: string | undefined): boolean {
+  if (!secret || !signatures) return false
+  const expected = `v1=${createHmac('sha256', secret).update(rawBody).digest('hex')}`
+  return signatures.split(',').some((signature) => equal(signature.trim(), expected))
+}
+
+/**
+ * Read a webhook body without buffering more than `maxBytes` of it. A
+ * declared Content-Length over the limit is refused before anything is read,
+ * and a body that runs past it is cancelled mid-stream. Returns undefined when
+ * the body is too large.
+ */
+export async function readIncidentWebhookBody(
+  request: Request,
+  maxBytes: number = INCIDENT_WEBHOOK_MAX_BYTES,
+): Promise<Uint8Array | undefined> {
+  if (Number(request.headers.get('content-length') ?? 0) > maxBytes) return undefined
+  if (!request.body) return new Uint8Array()
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return undefined
+    }
+    chunks.push(value)
+  }
+  const body = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
+
+/**
+ * Apply a PagerDuty V3 webhook to the alert its incident was opened for. The
+ * incident key is the alert `dedupKey` the PagerDuty channel sent, so only
+ * incidents ts-cloud opened can change an alert; anything else on the same
+ * service is acknowledged to PagerDuty and ignored.
+ *
+ * An acknowledgement in PagerDuty acknowledges the alert. Resolving the
+ * incident while the alert is still firing silences it for the channel's
+ * `resolveSilenceMinutes` (an hour by default): the responder has dismissed
+ * it, and re-paging them seconds later would only start the loop again.
+ */
+export function processPagerDutyWebhook(input: {
+  store: AlertStore
+  channelId: string
+  headers: Headers | Record<string, string | undefined>
+  rawBody: Uint8Array
+}): IncidentWebhookResult {
+  if (input.rawBody.byteLength > INCIDENT_WEBHOOK_MAX_BYTES) return unavailable()
+  const channel = input.store.getChannel(input.channelId)
+  if (!channel || channel.kind !== 'pagerduty' || channel.status === 'disabled') return unavailable()
+  let secret: string | undefined
+  try {
+    secret = JSON.parse(input.store.channelCredential(channel.id) ?? '{}').webhookSecret
+  } catch {
+    secret = undefined
+  }
+  if (
+    typeof secret !== 'string' ||
+    !verifyPagerDutySignature(secret, input.rawBody, header(input.headers, 'x-pagerduty-signature'))
+  )
+    return unavailable()
+  let event: Record<string, any>
+  try {
+    event = JSON.parse(new TextDecoder().decode(input.rawBody))?.event
+  } catch {
+    return unavailable()
+  }
+  if (!event || typeof event !== 'object') return unavailable()
+  const type = String(event.event_type ?? '')
+  if (type !== 'incident.acknowledged' && type !== 'incident.resolved') return ignored(`Event ${type} is not synced.`)
+  const incidentKey = event.data?.incident_key
+  const current = typeof incidentKey === 'string' ? input.store.getAlertByDedup(incidentKey) : undefined
+  if (!current || input.store.controlPlane.getProject(current.projectId)?.organizationId !== channel.organizationId)
+    return ignored('The incident was not opened by ts-cloud.')
+  if (current.state !== 'firing' && current.state !== 'pending')
+    return ignored(`The alert is already ${current.state}.`, current)
+
+  if (type === 'incident.acknowledged') {
+    if (current.acknowledgedAt) return ignored('The alert is already acknowledged.', current)
+    const agent = event.agent ?? {}
+    const externalId = `pagerduty:${String(agent.id ?? 'unknown').slice(0, 100)}`
+    const actor =
+      input.store.controlPlane.getActorByExternalId('system', externalId) ??
+      input.store.controlPlane.createActor({
+        kind: 'system',
+        externalId,
+        displayName: String(agent.summary ?? 'PagerDuty responder').slice(0, 100),
+        metadata: { provider: 'pagerduty' },
+      })
+    return {
+      accepted: true,
+      status: 'acknowledged',
+      alert: input.store.acknowledge(current.id, actor.id),
+      message: 'Alert acknowledged from PagerDuty.',
+    }
+  }
+  const configured = Number(channel.config.resolveSilenceMinutes)
+  const minutes = channel.config.resolveSilenceMinutes != null && Number.isFinite(configured) ? configured : 60
+  const until = new Date(new Date(input.store.now()).getTime() + Math.min(1440, Math.max(5, minutes)) * 60_000)
+  return {
+    accepted: true,
+    status: 'silenced',
+    alert: input.store.silenceAlert(current.id, until.toISOString()),
+    message: 'Alert silenced after the PagerDuty incident was resolved.',
+  }
+}
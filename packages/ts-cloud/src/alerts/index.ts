@@ -3,4 +3,8 @@ export * from './store'
 export * from './evaluator'
 export * from './delivery'
 export * from './health'
+export * from './incident-webhooks'
+export * from './on-call'
 export * from './telemetry'
+export * from './burn-rate'
+export * from './slo'
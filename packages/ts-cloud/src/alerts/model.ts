@@ -4,7 +4,16 @@ export type HealthCheckKind = 'http' | 'tcp' | 'command'
 export type HealthStatus = 'healthy' | 'unhealthy' | 'no_data'
 export type AlertState = 'pending' | 'firing' | 'resolved' | 'silenced'
 export type AlertSeverity = 'info' | 'warning' | 'critical'
-export type NotificationChannelKind = 'slack' | 'discord' | 'teams' | 'telegram' | 'email' | 'webhook' | 'sms'
+export type NotificationChannelKind =
+  | 'slack'
+  | 'discord'
+  | 'teams'
+  | 'telegram'
+  | 'email'
+  | 'webhook'
+  | 'sms'
+  | 'pagerduty'
+  | 'opsgenie'
 
 export interface HealthCheck {
   id: string
@@ -50,6 +59,8 @@ export interface AlertRule {
   environmentId?: string
   resourceId?: string
   healthCheckId?: string
+  /** Set on the burn-rate rules generated for a service level objective, which are evaluated from it. */
+  sloId?: string
   name: string
   signal: string
   operator: 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'unhealthy'
@@ -131,6 +142,8 @@ export interface NotificationRoute {
   groupWaitSeconds: number
   reminderSeconds?: number
   escalation: Array<{ afterSeconds: number; channelIds: string[] }>
+  /** Page whoever the policy's tiers resolve to, on top of the fixed channels above. */
+  escalationPolicyId?: string
   template?: string
   rateLimitPerMinute: number
   enabled: boolean
@@ -156,3 +169,132 @@ export interface NotificationDelivery {
   updatedAt: string
   deliveredAt?: string
 }
+/** A daily window, in the schedule's timezone, when a layer is on duty. `end` before `start` wraps past midnight. */
+export interface OnCallRestriction {
+  start: string
+  end: string
+  weekdays?: number[]
+}
+export interface OnCallLayer {
+  name: string
+  /** Actor ids in rotation order. */
+  participants: string[]
+  /** The first participant's first handoff; each later one follows `shiftSeconds` after the last. */
+  rotationStartsAt: string
+  shiftSeconds: number
+  /** Outside every restriction the layer has nobody on call and lower layers show through. */
+  restrictions?: OnCallRestriction[]
+}
+export interface OnCallSchedule {
+  id: string
+  organizationId: string
+  name: string
+  timezone: string
+  /** Later layers take precedence over earlier ones wherever they have someone on call. */
+  layers: OnCallLayer[]
+  version: number
+  createdAt: string
+  updatedAt: string
+}
+export interface OnCallOverride {
+  id: string
+  scheduleId: string
+  actorId: string
+  startsAt: string
+  endsAt: string
+  reason?: string
+  createdByActorId?: string
+  createdAt: string
+}
+export interface OnCallShift {
+  scheduleId: string
+  actorId?: string
+  source: 'override' | 'layer' | 'none'
+  layer?: string
+  overrideId?: string
+}
+export type EscalationTarget = { type: 'schedule'; scheduleId: string } | { type: 'actor'; actorId: string }
+export interface EscalationTier {
+  targets: EscalationTarget[]
+  /** Shared channels paged alongside the targets' own contact channels. */
+  channelIds: string[]
+  /** How long to wait for an acknowledgement before moving to the next tier. */
+  delaySeconds: number
+}
+export interface EscalationPolicy {
+  id: string
+  organizationId: string
+  name: string
+  tiers: EscalationTier[]
+  /** Times to start again from tier 1 after the last tier goes unacknowledged. */
+  repeat: number
+  version: number
+  createdAt: string
+  updatedAt: string
+}
+/** One tier of a policy coming due for an alert: who was on call then and where to reach them. */
+export interface EscalationPage {
+  alert: Alert
+  routeId: string
+  policyId: string
+  cycle: number
+  tier: number
+  dueAt: string
+  actorIds: string[]
+  channelIds: string[]
+}
+export type SloSource = 'requests' | 'health'
+export type SloObjective = 'availability' | 'latency'
+/**
+ * A target share of good events over a rolling window. Request SLOs count
+ * `request` telemetry, where a good event is a response below 500 or, for a
+ * latency objective, one served within `latencyThresholdMs`. Health SLOs
+ * count the results of one health check the same way.
+ */
+export interface ServiceLevelObjective {
+  id: string
+  projectId: string
+  environmentId?: string
+  resourceId?: string
+  healthCheckId?: string
+  name: string
+  /** Groups objectives on the dashboard and labels their alerts. */
+  service: string
+  source: SloSource
+  objective: SloObjective
+  latencyThresholdMs?: number
+  /** Percentage of good events, such as 99.9. */
+  targetPercent: number
+  windowDays: number
+  /** Narrows request SLOs to part of the traffic. */
+  filter: { host?: string; pathPrefix?: string; method?: string }
+  /** Release health gates naming this objective fail once less than this share of the budget remains. */
+  gateMinBudgetPercent: number
+  enabled: boolean
+  version: number
+  createdAt: string
+  updatedAt: string
+}
+/** One multi-window burn-rate alert: it fires while both windows burn at `burnRate` or faster. */
+export interface SloBurnWindow {
+  tier: number
+  longWindowMs: number
+  shortWindowMs: number
+  burnRate: number
+  severity: AlertSeverity
+}
+export interface SloEventCounts {
+  total: number
+  bad: number
+}
+export interface SloStatus {
+  slo: ServiceLevelObjective
+  from: string
+  to: string
+  events: SloEventCounts
+  /** Share of good events over the window, or undefined without events. */
+  sli?: number
+  /** Share of the window's error budget left; negative once it is overspent. */
+  budgetRemaining: number
+  burnRates: Array<SloBurnWindow & { long: number; short: number; burning: boolean }>
+}
@@ -0,0 +1,72 @@
+import type { OnCallLayer, OnCallOverride, OnCallSchedule, OnCallShift } from './model'
+import { inDailyWindow } from './clock'
+
+/**
+ * Who a layer has on call at `at`, or nobody before the rotation starts and
+ * outside its restrictions. Handoffs are fixed `shiftSeconds` apart from
+ * `rotationStartsAt`, so a daily rotation hands off at the same UTC instant
+ * every day rather than following the timezone across DST changes.
+ */
+export function onCallLayerActor(layer: OnCallLayer, at: Date, timezone: string): string | undefined {
+  const start = new Date(layer.rotationStartsAt).getTime()
+  if (!layer.participants.length || at.getTime() < start) return undefined
+  if (
+    layer.restrictions?.length &&
+    !layer.restrictions.some((window) => inDailyWindow(window, at, timezone, 'On-call restrictions'))
+  )
+    return undefined
+  const shift = Math.floor((at.getTime() - start) / (layer.shiftSeconds * 1000))
+  return layer.participants[shift % layer.participants.length]
+}
+
+/**
+ * Resolve a schedule at one instant: the most recently created override
+ * covering it wins, then the highest layer with someone on call.
+ */
+export function resolveOnCall(schedule: OnCallSchedule, overrides: OnCallOverride[], at: Date): OnCallShift {
+  const instant = at.toISOString()
+  const override = overrides
+    .filter((item) => item.scheduleId === schedule.id && item.startsAt <= instant && item.endsAt > instant)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0]
+  if (override)
+    return { scheduleId: schedule.id, actorId: override.actorId, source: 'override', overrideId: override.id }
+  for (const layer of [...schedule.layers].reverse()) {
+    const actorId = onCallLayerActor(layer, at, schedule.timezone)
+    if (actorId) return { scheduleId: schedule.id, actorId, source: 'layer', layer: layer.name }
+  }
+  return { scheduleId: schedule.id, source: 'none' }
+}
+
+/** Reject layers that could never resolve, before they are stored. */
+export function validateOnCallLayers(layers: OnCallLayer[], timezone: string): OnCallLayer[] {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+  } catch {
+    throw new Error(`Unknown timezone ${timezone}.`)
+  }
+  if (!layers.length || layers.length > 10) throw new Error('On-call schedules need 1-10 layers.')
+  return layers.map((layer, index) => {
+    const name = String(layer.name ?? '').trim() || `Layer ${index + 1}`
+    const participants = [...new Set((layer.participants ?? []).map(String))]
+    if (!participants.length || participants.length > 100)
+      throw new Error(`${name} needs 1-100 participants in rotation order.`)
+    if (!Number.isFinite(new Date(layer.rotationStartsAt).getTime()))
+      throw new Error(`${name} needs a valid rotation start.`)
+    const shiftSeconds = Number(layer.shiftSeconds)
+    if (!Number.isInteger(shiftSeconds) || shiftSeconds < 900 || shiftSeconds > 90 * 86_400)
+      throw new Error(`${name} shifts must last between 15 minutes and 90 days.`)
+    const restrictions = layer.restrictions?.map((window) => ({
+      start: String(window.start),
+      end: String(window.end),
+      weekdays: window.weekdays?.length ? window.weekdays.map(Number) : undefined,
+    }))
+    for (const window of restrictions ?? []) inDailyWindow(window, new Date(0), timezone, 'On-call restrictions')
+    return {
+      name: name.slice(0, 100),
+      participants,
+      rotationStartsAt: new Date(layer.rotationStartsAt).toISOString(),
+      shiftSeconds,
+      restrictions: restrictions?.length ? restrictions : undefined,
+    }
+  })
+}
@@ -0,0 +1,143 @@
+import type { JsonValue } from '../control-plane'
+import type { AlertEvaluation } from './evaluator'
+import type { ServiceLevelObjective, SloEventCounts, SloStatus } from './model'
+import type { AlertStore } from './store'
+import { TelemetryStore } from '../telemetry'
+import { sloBudgetRemaining, sloBurnRate, sloBurnWindows } from './burn-rate'
+import { AlertEvaluator } from './evaluator'
+
+function countEvents(
+  store: AlertStore,
+  telemetry: TelemetryStore,
+  slo: ServiceLevelObjective,
+  from: Date,
+  to: Date,
+): SloEventCounts {
+  const latencyThresholdMs = slo.objective === 'latency' ? slo.latencyThresholdMs : undefined
+  if (slo.source === 'health')
+    return store.countHealthResults(slo.healthCheckId!, from.toISOString(), to.toISOString(), latencyThresholdMs)
+  return telemetry.countRequests({
+    projectId: slo.projectId,
+    environmentId: slo.environmentId,
+    resourceIds: slo.resourceId ? [slo.resourceId] : undefined,
+    ...slo.filter,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    latencyThresholdMs,
+  })
+}
+
+/** Budget and burn rates of one objective as of `now`. */
+export function computeSloStatus(store: AlertStore, slo: ServiceLevelObjective, now: Date = new Date()): SloStatus {
+  const telemetry = new TelemetryStore(store.controlPlane, { now: () => now })
+  const to = new Date(now.getTime() + 1)
+  const from = new Date(now.getTime() - slo.windowDays * 86_400_000)
+  const events = countEvents(store, telemetry, slo, from, to)
+  const burn = (ms: number) =>
+    sloBurnRate(countEvents(store, telemetry, slo, new Date(now.getTime() - ms), to), slo.targetPercent)
+  return {
+    slo,
+    from: from.toISOString(),
+    to: now.toISOString(),
+    events,
+    sli: events.total ? 1 - events.bad / events.total : undefined,
+    budgetRemaining: sloBudgetRemaining(events, slo.targetPercent),
+    burnRates: sloBurnWindows(slo).map((window) => {
+      const long = burn(window.longWindowMs),
+        short = burn(window.shortWindowMs)
+      return { ...window, long, short, burning: long >= window.burnRate && short >= window.burnRate }
+    }),
+  }
+}
+
+/**
+ * Evaluate the burn-rate rules of every enabled objective. A rule's sample is
+ * the lower of its two windows' burn rates, so it fires only while both are
+ * at or above its threshold. Without traffic nothing is burning, which lets
+ * an alert resolve when a service goes quiet. Rules that are not burning and
+ * have no open alert are skipped, so a healthy objective leaves no pending
+ * alerts behind.
+ */
+export function evaluateSloAlertRules(
+  store: AlertStore,
+  projectId: string,
+  environmentId?: string,
+  now: Date = new Date(),
+): AlertEvaluation[] {
+  const evaluator = new AlertEvaluator(store)
+  const open = new Set(
+    store
+      .listAlerts(projectId, { environmentId, states: ['pending', 'firing', 'silenced'], limit: 1000 })
+      .map((alert) => alert.ruleId),
+  )
+  return store
+    .listSlos(projectId, environmentId)
+    .filter((slo) => slo.enabled)
+    .flatMap((slo) => {
+      const rules = store.listSloRules(slo.id).filter((rule) => rule.enabled)
+      if (!rules.length) return []
+      const status = computeSloStatus(store, slo, now)
+      return rules.flatMap((rule) => {
+        const window = status.burnRates.find((item) => item.tier === rule.labels.sloTier)
+        if (!window || (!window.burning && !open.has(rule.id))) return []
+        return [
+          evaluator.evaluate(rule, {
+            value: Math.min(window.long, window.short),
+            timestamp: now.toISOString(),
+            evidence: {
+              slo: slo.name,
+              service: slo.service,
+              targetPercent: slo.targetPercent,
+              longWindowMs: window.longWindowMs,
+              shortWindowMs: window.shortWindowMs,
+              longBurnRate: window.long,
+              shortBurnRate: window.short,
+              budgetRemaining: status.budgetRemaining,
+            },
+          }),
+        ]
+      })
+    })
+}
+
+/**
+ * A release health gate backed by an objective: it fails once less than
+ * `gateMinBudgetPercent` of the budget is left, or while a critical burn-rate
+ * alert would fire, since shipping into either makes the error budget the
+ * release's problem.
+ */
+export function evaluateSloReleaseGate(
+  store: AlertStore,
+  slo: ServiceLevelObjective,
+  now: Date = new Date(),
+): { healthy: boolean; evidence: JsonValue; message: string } {
+  const status = computeSloStatus(store, slo, now)
+  const remaining = Math.round(status.budgetRemaining * 10_000) / 100
+  const burning = status.burnRates.find((window) => window.severity === 'critical' && window.burning)
+  const evidence = {
+    sloId: slo.id,
+    budgetRemainingPercent: remaining,
+    events: status.events.total,
+    badEvents: status.events.bad,
+    burningWindowMs: burning?.longWindowMs ?? null,
+  }
+  if (burning)
+    return {
+      healthy: false,
+      evidence,
+      message: `${slo.name} is burning its error budget ${Math.round(burning.long * 10) / 10}× too fast.`,
+    }
+  if (remaining < slo.gateMinBudgetPercent || remaining <= 0)
+    return {
+      healthy: false,
+      evidence,
+      message: `${slo.name} has ${remaining}% of its error budget left; releases need ${slo.gateMinBudgetPercent}%.`,
+    }
+  return {
+    healthy: true,
+    evidence,
+    message: status.events.total
+      ? `${slo.name} has ${remaining}% of its error budget left.`
+      : `${slo.name} has no events in its window.`,
+  }
+}
@@ -1,7 +1,24 @@
 import type { SQLQueryBindings } from 'bun:sqlite'
 import type { ControlPlaneStore, JsonValue } from '../control-plane'
-import type { Alert, AlertRule, HealthCheck, HealthResult, NotificationChannel, NotificationDelivery, NotificationRoute } from './model'
+import type {
+  Alert,
+  AlertRule,
+  EscalationPolicy,
+  EscalationTier,
+  HealthCheck,
+  HealthResult,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationRoute,
+  OnCallLayer,
+  OnCallOverride,
+  OnCallSchedule,
+  OnCallShift,
+  ServiceLevelObjective,
+} from './model'
 import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto'
+import { formatSloWindow, sloBurnWindows } from './burn-rate'
+import { resolveOnCall, validateOnCallLayers } from './on-call'
 
 type Row = Record<string, unknown>
 const json = (value: unknown): any => {
@@ -61,6 +78,7 @@ function rule(row: Row): AlertRule {
     environmentId: optional(row.environment_id),
     resourceId: optional(row.resource_id),
     healthCheckId: optional(row.health_check_id),
+    sloId: optional(row.slo_id),
     name: String(row.name),
     signal: String(row.signal),
     operator: String(row.operator) as AlertRule['operator'],
@@ -79,6 +97,28 @@ function rule(row: Row): AlertRule {
     updatedAt: String(row.updated_at),
   }
 }
+function slo(row: Row): ServiceLevelObjective {
+  return {
+    id: String(row.id),
+    projectId: String(row.project_id),
+    environmentId: optional(row.environment_id),
+    resourceId: optional(row.resource_id),
+    healthCheckId: optional(row.health_check_id),
+    name: String(row.name),
+    service: String(row.service),
+    source: String(row.source) as ServiceLevelObjective['source'],
+    objective: String(row.objective) as ServiceLevelObjective['objective'],
+    latencyThresholdMs: row.latency_threshold_ms == null ? undefined : Number(row.latency_threshold_ms),
+    targetPercent: Number(row.target_percent),
+    windowDays: Number(row.window_days),
+    filter: json(row.filter),
+    gateMinBudgetPercent: Number(row.gate_min_budget_percent),
+    enabled: bool(row.enabled),
+    version: Number(row.version),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
 function alert(row: Row): Alert {
   return {
     id: String(row.id),
@@ -135,6 +175,7 @@ function route(row: Row): NotificationRoute {
     groupWaitSeconds: Number(row.group_wait_seconds),
     reminderSeconds: row.reminder_seconds == null ? undefined : Number(row.reminder_seconds),
     escalation: json(row.escalation),
+    escalationPolicyId: optional(row.escalation_policy_id),
     template: optional(row.template),
     rateLimitPerMinute: Number(row.rate_limit_per_minute),
     enabled: bool(row.enabled),
@@ -143,6 +184,42 @@ function route(row: Row): NotificationRoute {
     updatedAt: String(row.updated_at),
   }
 }
+function schedule(row: Row): OnCallSchedule {
+  return {
+    id: String(row.id),
+    organizationId: String(row.organization_id),
+    name: String(row.name),
+    timezone: String(row.timezone),
+    layers: json(row.layers),
+    version: Number(row.version),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
+function override(row: Row): OnCallOverride {
+  return {
+    id: String(row.id),
+    scheduleId: String(row.schedule_id),
+    actorId: String(row.actor_id),
+    startsAt: String(row.starts_at),
+    endsAt: String(row.ends_at),
+    reason: optional(row.reason),
+    createdByActorId: optional(row.created_by_actor_id),
+    createdAt: String(row.created_at),
+  }
+}
+function policy(row: Row): EscalationPolicy {
+  return {
+    id: String(row.id),
+    organizationId: String(row.organization_id),
+    name: String(row.name),
+    tiers: json(row.tiers),
+    repeat: Number(row.repeat_count),
+    version: Number(row.version),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
 function delivery(row: Row): NotificationDelivery {
   return {
     id: String(row.id),
@@ -269,6 +346,33 @@ export class AlertStore {
       .all(checkId, Math.min(1000, Math.max(1, limit)))
       .map(result)
   }
+  /** Healthy and unhealthy result counts per UTC day since `from`; `no_data` results count as neither. */
+  dailyHealthCounts(checkId: string, from: string): Array<{ date: string; healthy: number; unhealthy: number }> {
+    return this.controlPlane.database
+      .query<Row, [string, string]>(
+        "SELECT substr(checked_at,1,10) AS day, SUM(status='healthy') AS healthy, SUM(status='unhealthy') AS unhealthy FROM health_results WHERE check_id=? AND checked_at>=? GROUP BY day ORDER BY day",
+      )
+      .all(checkId, from)
+      .map((row) => ({ date: String(row.day), healthy: Number(row.healthy), unhealthy: Number(row.unhealthy) }))
+  }
+  /**
+   * Results of a check in `[from, to)`, and how many were bad: unhealthy or,
+   * given a latency threshold, slower than it. `no_data` results are not
+   * events.
+   */
+  countHealthResults(
+    checkId: string,
+    from: string,
+    to: string,
+    latencyThresholdMs?: number,
+  ): { total: number; bad: number } {
+    const row = this.controlPlane.database
+      .query<Row, [number, string, string, string]>(
+        "SELECT COUNT(*) AS total, COALESCE(SUM(status='unhealthy' OR json_extract(timings,'$.totalMs')>?),0) AS bad FROM health_results WHERE check_id=? AND checked_at>=? AND checked_at<? AND status IN ('healthy','unhealthy')",
+      )
+      .get(latencyThresholdMs ?? Number.MAX_VALUE, checkId, from, to)
+    return { total: Number(row?.total ?? 0), bad: Number(row?.bad ?? 0) }
+  }
 
   createRule(input: Omit<AlertRule, 'id' | 'version' | 'createdAt' | 'updatedAt'>): AlertRule {
     if (!input.name.trim()) throw new Error('Alert rules require a name.')
@@ -277,13 +381,14 @@ export class AlertStore {
     const id = crypto.randomUUID(),
       now = this.now()
     this.controlPlane.database.run(
-      'INSERT INTO alert_rules (id,project_id,environment_id,resource_id,health_check_id,name,signal,operator,threshold,recovery_threshold,window_ms,consecutive,recovery_consecutive,no_data_policy,severity,group_by,labels,enabled,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
+      'INSERT INTO alert_rules (id,project_id,environment_id,resource_id,health_check_id,slo_id,name,signal,operator,threshold,recovery_threshold,window_ms,consecutive,recovery_consecutive,no_data_policy,severity,group_by,labels,enabled,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
       [
         id,
         input.projectId,
         input.environmentId ?? null,
         input.resourceId ?? null,
         input.healthCheckId ?? null,
+        input.sloId ?? null,
         input.name.trim().slice(0, 120),
         input.signal,
         input.operator,
@@ -326,6 +431,206 @@ export class AlertStore {
     if (!value) throw new Error('Alert rule was not found.')
     return value
   }
+  createSlo(
+    input: Omit<
+      ServiceLevelObjective,
+      'id' | 'filter' | 'gateMinBudgetPercent' | 'enabled' | 'version' | 'createdAt' | 'updatedAt'
+    > &
+      Partial<Pick<ServiceLevelObjective, 'filter' | 'gateMinBudgetPercent' | 'enabled'>>,
+  ): ServiceLevelObjective {
+    const value = this.validateSlo(input)
+    if (this.getSloByName(input.projectId, value.name)) throw new Error(`SLO ${value.name} already exists.`)
+    const id = crypto.randomUUID(),
+      now = this.now()
+    this.controlPlane.transaction(() => {
+      this.controlPlane.database.run(
+        'INSERT INTO service_level_objectives (id,project_id,environment_id,resource_id,health_check_id,name,service,source,objective,latency_threshold_ms,target_percent,window_days,filter,gate_min_budget_percent,enabled,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
+        [
+          id,
+          input.projectId,
+          input.environmentId ?? null,
+          input.resourceId ?? null,
+          value.healthCheckId ?? null,
+          value.name,
+          value.service,
+          input.source,
+          input.objective,
+          value.latencyThresholdMs ?? null,
+          input.targetPercent,
+          value.windowDays,
+          JSON.stringify(value.filter),
+          value.gateMinBudgetPercent,
+          input.enabled === false ? 0 : 1,
+          1,
+          now,
+          now,
+        ],
+      )
+      this.syncSloRules(this.getSlo(id)!)
+    })
+    return this.getSlo(id)!
+  }
+  /** Change an objective's target, window, or gate; its burn-rate rules follow. */
+  updateSlo(
+    id: string,
+    input: Partial<
+      Pick<
+        ServiceLevelObjective,
+        | 'service'
+        | 'latencyThresholdMs'
+        | 'targetPercent'
+        | 'windowDays'
+        | 'filter'
+        | 'gateMinBudgetPercent'
+        | 'enabled'
+      >
+    >,
+    expectedVersion: number,
+  ): ServiceLevelObjective {
+    const current = this.getSlo(id)
+    if (!current) throw new Error('SLO was not found.')
+    const value = this.validateSlo({ ...current, ...input })
+    this.controlPlane.transaction(() => {
+      const result = this.controlPlane.database.run(
+        'UPDATE service_level_objectives SET service=?,latency_threshold_ms=?,target_percent=?,window_days=?,filter=?,gate_min_budget_percent=?,enabled=?,version=version+1,updated_at=? WHERE id=? AND version=?',
+        [
+          value.service,
+          value.latencyThresholdMs ?? null,
+          value.targetPercent,
+          value.windowDays,
+          JSON.stringify(value.filter),
+          value.gateMinBudgetPercent,
+          (input.enabled ?? current.enabled) ? 1 : 0,
+          this.now(),
+          id,
+          expectedVersion,
+        ],
+      )
+      if (result.changes !== 1) throw new Error('SLO changed since it was loaded.')
+      this.syncSloRules(this.getSlo(id)!)
+    })
+    return this.getSlo(id)!
+  }
+  private validateSlo<T extends Parameters<AlertStore['createSlo']>[0]>(
+    input: T,
+  ): T & Pick<ServiceLevelObjective, 'filter' | 'gateMinBudgetPercent'> {
+    const name = input.name.trim().slice(0, 120)
+    if (!name) throw new Error('SLOs require a name.')
+    if (!['requests', 'health'].includes(input.source)) throw new Error('SLO source must be requests or health.')
+    if (!['availability', 'latency'].includes(input.objective))
+      throw new Error('SLO objective must be availability or latency.')
+    if (!(input.targetPercent > 0 && input.targetPercent < 100))
+      throw new Error('SLO targets are a percentage between 0 and 100, such as 99.9.')
+    if (!Number.isInteger(input.windowDays) || input.windowDays < 1 || input.windowDays > 90)
+      throw new Error('SLO windows are 1-90 days.')
+    if (input.objective === 'latency' && !(Number(input.latencyThresholdMs) > 0))
+      throw new Error('Latency SLOs require a threshold in milliseconds.')
+    let healthCheckId: string | undefined
+    if (input.source === 'health') {
+      const check = input.healthCheckId ? this.getHealthCheck(input.healthCheckId) : undefined
+      if (!check || check.projectId !== input.projectId) throw new Error('Health SLOs require a health check.')
+      healthCheckId = check.id
+    }
+    const text = (value: unknown, max: number) =>
+      typeof value === 'string' && value.trim() ? value.trim().slice(0, max) : undefined
+    const filter =
+      input.source === 'requests'
+        ? {
+            host: text(input.filter?.host, 253)?.toLowerCase(),
+            pathPrefix: text(input.filter?.pathPrefix, 500),
+            method: text(input.filter?.method, 10)?.toUpperCase(),
+          }
+        : {}
+    const gate = Number(input.gateMinBudgetPercent ?? 0)
+    if (!(gate >= 0 && gate <= 100)) throw new Error('The release gate budget is a percentage from 0 to 100.')
+    return {
+      ...input,
+      name,
+      service: text(input.service, 120) ?? name,
+      healthCheckId,
+      latencyThresholdMs: input.objective === 'latency' ? Number(input.latencyThresholdMs) : undefined,
+      filter: JSON.parse(JSON.stringify(filter)),
+      gateMinBudgetPercent: gate,
+    }
+  }
+  /**
+   * Keep one alert rule per burn-rate tier in step with the objective. Rules
+   * are updated in place rather than replaced so open alerts, and the
+   * notification history behind them, stay attached; a tier that no longer
+   * fits a shortened window is disabled.
+   */
+  private syncSloRules(value: ServiceLevelObjective): void {
+    const existing = this.listSloRules(value.id)
+    const windows = sloBurnWindows(value)
+    const now = this.now()
+    for (const window of windows) {
+      const name = `${value.name}: ${window.burnRate}× burn over ${formatSloWindow(window.longWindowMs)}`
+      const labels = { slo: value.name, service: value.service, sloTier: window.tier }
+      const current = existing.find((item) => item.labels.sloTier === window.tier)
+      if (current)
+        this.controlPlane.database.run(
+          'UPDATE alert_rules SET name=?,threshold=?,window_ms=?,severity=?,labels=?,enabled=?,version=version+1,updated_at=? WHERE id=?',
+          [
+            name,
+            window.burnRate,
+            window.longWindowMs,
+            window.severity,
+            JSON.stringify(labels),
+            value.enabled ? 1 : 0,
+            now,
+            current.id,
+          ],
+        )
+      else
+        this.createRule({
+          projectId: value.projectId,
+          environmentId: value.environmentId,
+          resourceId: value.resourceId,
+          sloId: value.id,
+          name,
+          signal: 'slo.burn_rate',
+          operator: 'gte',
+          threshold: window.burnRate,
+          windowMs: window.longWindowMs,
+          consecutive: 1,
+          recoveryConsecutive: 1,
+          noDataPolicy: 'ignore',
+          severity: window.severity,
+          groupBy: [],
+          labels,
+          enabled: value.enabled,
+        })
+    }
+    for (const rule of existing)
+      if (rule.enabled && !windows.some((window) => window.tier === rule.labels.sloTier))
+        this.setRuleEnabled(rule.id, false)
+  }
+  getSlo(id: string): ServiceLevelObjective | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM service_level_objectives WHERE id=?')
+      .get(id)
+    return row ? slo(row) : undefined
+  }
+  getSloByName(projectId: string, name: string): ServiceLevelObjective | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string, string]>('SELECT * FROM service_level_objectives WHERE project_id=? AND name=?')
+      .get(projectId, name.trim())
+    return row ? slo(row) : undefined
+  }
+  listSlos(projectId: string, environmentId?: string): ServiceLevelObjective[] {
+    return this.controlPlane.database
+      .query<Row, SQLQueryBindings[]>(
+        `SELECT * FROM service_level_objectives WHERE project_id=?${environmentId ? ' AND environment_id=?' : ''} ORDER BY service, name`,
+      )
+      .all(projectId, ...(environmentId ? [environmentId] : []))
+      .map(slo)
+  }
+  listSloRules(sloId: string): AlertRule[] {
+    return this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM alert_rules WHERE slo_id=? ORDER BY window_ms')
+      .all(sloId)
+      .map(rule)
+  }
   getAlertByDedup(dedupKey: string): Alert | undefined {
     const row = this.controlPlane.database.query<Row, [string]>('SELECT * FROM alerts WHERE dedup_key=?').get(dedupKey)
     return row ? alert(row) : undefined
@@ -414,7 +719,8 @@ export class AlertStore {
     const current = this.getAlert(id)
     if (!current) throw new Error('Alert was not found.')
     const end = new Date(until)
-    if (!Number.isFinite(end.getTime()) || end <= new Date()) throw new Error('Silence end must be in the future.')
+    if (!Number.isFinite(end.getTime()) || end.toISOString() <= this.now())
+      throw new Error('Silence end must be in the future.')
     const now = this.now()
     return this.saveAlert(
       { ...current, state: 'silenced', silencedUntil: end.toISOString(), updatedAt: now },
@@ -557,7 +863,7 @@ export class AlertStore {
     const id = crypto.randomUUID(),
       now = this.now()
     this.controlPlane.database.run(
-      'INSERT INTO notification_routes (id,organization_id,name,priority,matcher,channel_ids,quiet_hours,group_wait_seconds,reminder_seconds,escalation,template,rate_limit_per_minute,enabled,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
+      'INSERT INTO notification_routes (id,organization_id,name,priority,matcher,channel_ids,quiet_hours,group_wait_seconds,reminder_seconds,escalation,escalation_policy_id,template,rate_limit_per_minute,enabled,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
       [
         id,
         input.organizationId,
@@ -569,6 +875,7 @@ export class AlertStore {
         clamp(input.groupWaitSeconds, 30, 0, 86400),
         input.reminderSeconds ?? null,
         JSON.stringify(input.escalation),
+        input.escalationPolicyId ?? null,
         input.template?.trim().slice(0, 2000) ?? null,
         clamp(input.rateLimitPerMinute, 60, 1, 10000),
         input.enabled ? 1 : 0,
@@ -609,6 +916,210 @@ export class AlertStore {
     if (!value) throw new Error('Notification route was not found.')
     return value
   }
+  setRouteEscalationPolicy(id: string, escalationPolicyId: string | undefined): NotificationRoute {
+    this.controlPlane.database.run(
+      'UPDATE notification_routes SET escalation_policy_id=?,version=version+1,updated_at=? WHERE id=?',
+      [escalationPolicyId ?? null, this.now(), id],
+    )
+    const value = this.getRoute(id)
+    if (!value) throw new Error('Notification route was not found.')
+    return value
+  }
+
+  createSchedule(input: {
+    organizationId: string
+    name: string
+    timezone: string
+    layers: OnCallLayer[]
+  }): OnCallSchedule {
+    if (!input.name.trim()) throw new Error('On-call schedules require a name.')
+    const layers = validateOnCallLayers(input.layers, input.timezone)
+    this.requireActors(layers.flatMap((layer) => layer.participants))
+    const id = crypto.randomUUID(),
+      now = this.now()
+    this.controlPlane.database.run(
+      'INSERT INTO on_call_schedules (id,organization_id,name,timezone,layers,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?)',
+      [id, input.organizationId, input.name.trim().slice(0, 100), input.timezone, JSON.stringify(layers), 1, now, now],
+    )
+    return this.getSchedule(id)!
+  }
+  updateSchedule(
+    id: string,
+    input: { name?: string; timezone?: string; layers?: OnCallLayer[] },
+    expectedVersion: number,
+  ): OnCallSchedule {
+    const current = this.getSchedule(id)
+    if (!current) throw new Error('On-call schedule was not found.')
+    const timezone = input.timezone ?? current.timezone
+    const layers = validateOnCallLayers(input.layers ?? current.layers, timezone)
+    this.requireActors(layers.flatMap((layer) => layer.participants))
+    const result = this.controlPlane.database.run(
+      'UPDATE on_call_schedules SET name=?,timezone=?,layers=?,version=version+1,updated_at=? WHERE id=? AND version=?',
+      [
+        (input.name?.trim() || current.name).slice(0, 100),
+        timezone,
+        JSON.stringify(layers),
+        this.now(),
+        id,
+        expectedVersion,
+      ],
+    )
+    if (result.changes !== 1) throw new Error('On-call schedule changed since it was loaded.')
+    return this.getSchedule(id)!
+  }
+  getSchedule(id: string): OnCallSchedule | undefined {
+    const row = this.controlPlane.database.query<Row, [string]>('SELECT * FROM on_call_schedules WHERE id=?').get(id)
+    return row ? schedule(row) : undefined
+  }
+  listSchedules(organizationId: string): OnCallSchedule[] {
+    return this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM on_call_schedules WHERE organization_id=? ORDER BY name ASC')
+      .all(organizationId)
+      .map(schedule)
+  }
+  createOverride(input: {
+    scheduleId: string
+    actorId: string
+    startsAt: string
+    endsAt: string
+    reason?: string
+    createdByActorId?: string
+  }): OnCallOverride {
+    if (!this.getSchedule(input.scheduleId)) throw new Error('On-call schedule was not found.')
+    this.requireActors([input.actorId])
+    const start = new Date(input.startsAt),
+      end = new Date(input.endsAt)
+    if (!Number.isFinite(start.getTime()) || !Number.isFinite(end.getTime()) || start >= end)
+      throw new Error('Override window is invalid.')
+    if (end.toISOString() <= this.now()) throw new Error('Override must end in the future.')
+    const id = crypto.randomUUID()
+    this.controlPlane.database.run(
+      'INSERT INTO on_call_overrides (id,schedule_id,actor_id,starts_at,ends_at,reason,created_by_actor_id,created_at) VALUES (?,?,?,?,?,?,?,?)',
+      [
+        id,
+        input.scheduleId,
+        input.actorId,
+        start.toISOString(),
+        end.toISOString(),
+        input.reason?.trim().slice(0, 500) || null,
+        input.createdByActorId ?? null,
+        this.now(),
+      ],
+    )
+    return this.getOverride(id)!
+  }
+  getOverride(id: string): OnCallOverride | undefined {
+    const row = this.controlPlane.database.query<Row, [string]>('SELECT * FROM on_call_overrides WHERE id=?').get(id)
+    return row ? override(row) : undefined
+  }
+  /** Overrides on a schedule that overlap `[from, to)`. */
+  listOverrides(scheduleId: string, from: string, to: string): OnCallOverride[] {
+    return this.controlPlane.database
+      .query<Row, [string, string, string]>(
+        'SELECT * FROM on_call_overrides WHERE schedule_id=? AND ends_at>? AND starts_at<? ORDER BY starts_at ASC',
+      )
+      .all(scheduleId, from, to)
+      .map(override)
+  }
+  deleteOverride(id: string): void {
+    this.controlPlane.database.run('DELETE FROM on_call_overrides WHERE id=?', [id])
+  }
+  onCallAt(scheduleId: string, at: Date): OnCallShift {
+    const value = this.getSchedule(scheduleId)
+    if (!value) throw new Error('On-call schedule was not found.')
+    return resolveOnCall(
+      value,
+      this.listOverrides(scheduleId, at.toISOString(), new Date(at.getTime() + 1).toISOString()),
+      at,
+    )
+  }
+  /** Replace the channels a person is paged through. */
+  setContactChannels(actorId: string, channelIds: string[]): string[] {
+    this.requireActors([actorId])
+    const now = this.now()
+    this.controlPlane.database.transaction(() => {
+      this.controlPlane.database.run('DELETE FROM on_call_contacts WHERE actor_id=?', [actorId])
+      for (const channelId of new Set(channelIds)) {
+        if (!this.getChannel(channelId)) throw new Error('Contact channel was not found.')
+        this.controlPlane.database.run('INSERT INTO on_call_contacts (actor_id,channel_id,created_at) VALUES (?,?,?)', [
+          actorId,
+          channelId,
+          now,
+        ])
+      }
+    })()
+    return this.contactChannels(actorId)
+  }
+  contactChannels(actorId: string): string[] {
+    return this.controlPlane.database
+      .query<{ channel_id: string }, [string]>(
+        'SELECT channel_id FROM on_call_contacts WHERE actor_id=? ORDER BY created_at ASC, channel_id ASC',
+      )
+      .all(actorId)
+      .map((row) => row.channel_id)
+  }
+  createEscalationPolicy(input: {
+    organizationId: string
+    name: string
+    tiers: EscalationTier[]
+    repeat?: number
+  }): EscalationPolicy {
+    if (!input.name.trim()) throw new Error('Escalation policies require a name.')
+    const tiers = this.validateTiers(input.organizationId, input.tiers)
+    const id = crypto.randomUUID(),
+      now = this.now()
+    this.controlPlane.database.run(
+      'INSERT INTO escalation_policies (id,organization_id,name,tiers,repeat_count,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?)',
+      [
+        id,
+        input.organizationId,
+        input.name.trim().slice(0, 100),
+        JSON.stringify(tiers),
+        clamp(input.repeat, 0, 0, 9),
+        1,
+        now,
+        now,
+      ],
+    )
+    return this.getEscalationPolicy(id)!
+  }
+  getEscalationPolicy(id: string): EscalationPolicy | undefined {
+    const row = this.controlPlane.database.query<Row, [string]>('SELECT * FROM escalation_policies WHERE id=?').get(id)
+    return row ? policy(row) : undefined
+  }
+  listEscalationPolicies(organizationId: string): EscalationPolicy[] {
+    return this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM escalation_policies WHERE organization_id=? ORDER BY name ASC')
+      .all(organizationId)
+      .map(policy)
+  }
+  private validateTiers(organizationId: string, tiers: EscalationTier[]): EscalationTier[] {
+    if (!Array.isArray(tiers) || !tiers.length || tiers.length > 10)
+      throw new Error('Escalation policies need 1-10 tiers.')
+    return tiers.map((tier, index) => {
+      const targets = (tier.targets ?? []).map((target) =>
+        target.type === 'schedule'
+          ? { type: 'schedule' as const, scheduleId: String(target.scheduleId) }
+          : { type: 'actor' as const, actorId: String(target.actorId) },
+      )
+      const channelIds = [...new Set((tier.channelIds ?? []).map(String))]
+      if (!targets.length && !channelIds.length) throw new Error(`Tier ${index + 1} has nobody to page.`)
+      for (const target of targets)
+        if (target.type === 'schedule' && this.getSchedule(target.scheduleId)?.organizationId !== organizationId)
+          throw new Error(`Tier ${index + 1} references an unavailable schedule.`)
+      this.requireActors(targets.flatMap((target) => (target.type === 'actor' ? [target.actorId] : [])))
+      if (channelIds.some((id) => this.getChannel(id)?.organizationId !== organizationId))
+        throw new Error(`Tier ${index + 1} references an unavailable channel.`)
+      const delaySeconds = Number(tier.delaySeconds)
+      if (!Number.isInteger(delaySeconds) || delaySeconds < 60 || delaySeconds > 86_400)
+        throw new Error(`Tier ${index + 1} must wait between 1 minute and 24 hours before escalating.`)
+      return { targets, channelIds, delaySeconds }
+    })
+  }
+  private requireActors(ids: string[]): void {
+    for (const id of ids) if (!this.controlPlane.getActor(id)) throw new Error(`Actor ${id} was not found.`)
+  }
+
   createDelivery(input: {
     alertId?: string
     channelId: string
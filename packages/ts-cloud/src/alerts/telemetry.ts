@@ -13,7 +13,7 @@ export function evaluateTelemetryAlertRules(
   const evaluator = new AlertEvaluator(store)
   return store
     .listRules(projectId, environmentId)
-    .filter((rule) => rule.enabled && !rule.healthCheckId)
+    .filter((rule) => rule.enabled && !rule.healthCheckId && !rule.sloId)
     .map((rule) => {
       const from = new Date(now.getTime() - rule.windowMs).toISOString()
       const result = telemetry.query({
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'bun:test'
+import { AlertStore } from '../alerts'
+import { authorizeOrganization, ControlPlaneStore } from '../control-plane'
+import { AccessRequestStore } from './access-requests'
+
+function fixture() {
+  let clock = new Date('2026-07-21T12:00:00.000Z').getTime()
+  const now = () => new Date(clock)
+  const controlPlane = new ControlPlaneStore({ path: ':memory:', now })
+  const organization = controlPlane.createOrganization({ slug: 'acme', name: 'Acme' })
+  const project = controlPlane.createProject({ organizationId: organization.id, slug: 'web', name: 'Web' })
+  const member = (name: string, roleTemplate: 'owner' | 'admin' | 'deployer' | 'operator', projectScoped = false) => {
+    const actor = controlPlane.createActor({ kind: 'user', externalId: `dashboard:${name}`, displayName: name })
+    return controlPlane.createMembership({
+      organizationId: organization.id,
+      actorId: actor.id,
+      roleTemplate,
+      scope: projectScoped ? { type: 'project', id: project.id } : { type: 'organization' },
+    })
+  }
+  const owner = member('olive', 'owner')
+  const admin = member('ada', 'admin')
+  const deployer = member('dana', 'deployer')
+  const oncall = member('chris', 'operator', true)
+  const alerts = new AlertStore(controlPlane, { now, encryptionKey: 'test' })
+  const pager = alerts.createChannel({ organizationId: organization.id, name: 'Olive', kind: 'sms', config: { to: '+15550100' } })
+  alerts.setContactChannels(owner.actorId, [pager.id])
+  const access = new AccessRequestStore(controlPlane, { now, alerts })
+  const can = (capability: Parameters<typeof authorizeOrganization>[0]['capability']) =>
+    authorizeOrganization({
+      membership: controlPlane.getMembership(oncall.id),
+      grants: controlPlane.listGrants(oncall.id),
+      capability,
+      target: { organizationId: organization.id, projectId: project.id },
+      at: now().toISOString(),
+    })
+  const advance = (minutes: number) => {
+    clock += minutes * 60_000
+  }
+  return { controlPlane, organization, project, owner, admin, deployer, oncall, alerts, pager, access, can, advance }
+}
+
+const terminal = (organizationId: string, membershipId: string, projectId: string) => ({
+  organizationId,
+  membershipId,
+  capability: 'runtime:terminal' as const,
+  scope: { type: 'project' as const, id: projectId },
+  justification: 'Investigating the stuck queue worker in INC-42',
+  durationSeconds: 30 * 60,
+})
+
+describe('AccessRequestStore', () => {
+  it('grants approved access until it runs out', () => {
+    const { controlPlane, organization, project, admin, oncall, access, can, advance } = fixture()
+    expect(can('runtime:terminal').allowed).toBe(false)
+    const request = access.request(terminal(organization.id, oncall.id, project.id))
+    expect(request).toMatchObject({ state: 'pending', breakGlass: false })
+    expect(can('runtime:terminal').allowed).toBe(false)
+
+    const approved = access.approve(request.id, { actorId: admin.actorId, note: 'Go ahead' })
+    expect(approved).toMatchObject({
+      state: 'approved',
+      decidedByActorId: admin.actorId,
+      decisionNote: 'Go ahead',
+      expiresAt: '2026-07-21T12:30:00.000Z',
+    })
+    expect(controlPlane.listGrants(oncall.id)).toEqual([
+      expect.objectContaining({
+        capability: 'runtime:terminal',
+        source: 'access-request',
+        expiresAt: approved.expiresAt,
+        accessRequestId: request.id,
+      }),
+    ])
+    expect(can('runtime:terminal')).toMatchObject({ allowed: true, accessRequestId: request.id })
+    expect(() => access.request(terminal(organization.id, oncall.id, project.id))).toThrow('already has')
+
+    advance(31)
+    expect(controlPlane.listGrants(oncall.id)).toEqual([])
+    expect(can('runtime:terminal').allowed).toBe(false)
+    expect(access.expire().map((item) => item.state)).toEqual(['expired'])
+    expect(access.get(request.id)?.endedAt).toBe(approved.expiresAt)
+    expect(access.expire()).toEqual([])
+    expect(
+      controlPlane
+        .listEvents({ organizationId: organization.id })
+        .map((event) => event.type)
+        .filter((type) => type.startsWith('access.')),
+    ).toEqual(expect.arrayContaining(['access.request.created', 'access.request.approved', 'access.request.expired']))
+    controlPlane.close()
+  })
+
+  it('keeps requesters from deciding and checks what can be asked for', () => {
+    const { controlPlane, organization, project, admin, deployer, oncall, access, can } = fixture()
+    const input = terminal(organization.id, oncall.id, project.id)
+    expect(() => access.request({ ...input, justification: 'pls' })).toThrow('at least 10 characters')
+    expect(() => access.request({ ...input, durationSeconds: 9 * 60 * 60 })).toThrow('between 5 minutes and 8 hours')
+    expect(() => access.request({ ...input, capability: 'runtime:restart' })).toThrow('already has runtime:restart')
+    const request = access.request(input)
+    expect(() => access.request(input)).toThrow('already pending')
+    expect(() => access.approve(request.id, { actorId: oncall.actorId })).toThrow('their own access requests')
+    expect(() => access.approve(request.id, { actorId: deployer.actorId })).toThrow('requires users:manage')
+    expect(access.deny(request.id, { actorId: admin.actorId, note: 'Use the runbook' })).toMatchObject({
+      state: 'denied',
+      decisionNote: 'Use the runbook',
+    })
+    expect(() => access.approve(request.id, { actorId: admin.actorId })).toThrow('already denied')
+
+    const again = access.request(input)
+    expect(() => access.cancel(again.id, admin.actorId)).toThrow('Only the requester')
+    expect(access.cancel(again.id, oncall.actorId).state).toBe('cancelled')
+
+    const third = access.approve(access.request(input).id, { actorId: admin.actorId })
+    expect(access.revoke(third.id, { actorId: oncall.actorId }).state).toBe('revoked')
+    expect(can('runtime:terminal').allowed).toBe(false)
+    expect(access.list(organization.id, { membershipId: oncall.id }).map((item) => item.state)).toEqual([
+      'revoked',
+      'cancelled',
+      'denied',
+    ])
+
+    controlPlane.upsertGrant({
+      organizationId: organization.id,
+      membershipId: oncall.id,
+      effect: 'deny',
+      capability: 'secrets:read',
+    })
+    expect(() => access.request({ ...input, capability: 'secrets:read' })).toThrow("can't lift it")
+    controlPlane.close()
+  })
+
+  it('changes a request only from the state its decision read', () => {
+    const { controlPlane, organization, project, admin, oncall, access, can } = fixture()
+    const request = access.request(terminal(organization.id, oncall.id, project.id))
+    // Another approver denies the request between this approval's read and its write
+    const getMembership = controlPlane.getMembership.bind(controlPlane)
+    controlPlane.getMembership = (id) => {
+      controlPlane.database.run(`UPDATE organization_access_requests SET state = 'denied' WHERE id = ?`, [request.id])
+      return getMembership(id)
+    }
+
+    expect(() => access.approve(request.id, { actorId: admin.actorId })).toThrow('already denied')
+    controlPlane.getMembership = getMembership
+    // The failed approval rolls back as a whole, the stand-in denial included
+    expect(access.get(request.id)).toMatchObject({ state: 'pending', decidedByActorId: undefined })
+    expect(controlPlane.listGrants(oncall.id)).toEqual([])
+    expect(can('runtime:terminal').allowed).toBe(false)
+    controlPlane.close()
+  })
+
+  it('lets break-glass approve itself and pages the owners', () => {
+    const { controlPlane, organization, project, owner, deployer, oncall, pager, access, can } = fixture()
+    const input = terminal(organization.id, oncall.id, project.id)
+    expect(() => access.breakGlass(input)).toThrow('not eligible for break-glass runtime:terminal')
+    expect(() =>
+      access.setBreakGlassEligibility(organization.id, [{ roleTemplate: 'operator', capability: 'users:manage' }]),
+    ).toThrow("can't grant users:manage")
+    access.setBreakGlassEligibility(
+      organization.id,
+      [
+        { roleTemplate: 'operator', capability: 'runtime:terminal' },
+        { membershipId: deployer.id, capability: 'secrets:read' },
+      ],
+      owner.actorId,
+    )
+    expect(access.breakGlassCapabilities(controlPlane.getMembership(oncall.id)!)).toEqual(['runtime:terminal'])
+    expect(() => access.breakGlass({ ...input, capability: 'secrets:read' })).toThrow('not eligible')
+    expect(() => access.breakGlass({ ...input, durationSeconds: 2 * 60 * 60 })).toThrow('1 hours')
+    expect(() => access.breakGlass({ ...input, capability: 'users:manage' })).toThrow("can't grant users:manage")
+    expect(() => access.breakGlass({ ...input, scope: { type: 'organization' } })).toThrow('scope of your membership')
+
+    const { request, pages } = access.breakGlass(input)
+    expect(request).toMatchObject({ state: 'approved', breakGlass: true, decidedByActorId: oncall.actorId })
+    expect(can('runtime:terminal').allowed).toBe(true)
+    expect(pages).toEqual([
+      expect.objectContaining({
+        channelId: pager.id,
+        eventType: 'access.break_glass',
+        payload: expect.objectContaining({ ownerActorId: owner.actorId }),
+      }),
+    ])
+    expect(String(pages[0]!.payload.notificationText)).toContain('[BREAK-GLASS] chris gave themselves runtime:terminal')
+    const event = controlPlane
+      .listEvents({ organizationId: organization.id })
+      .find((item) => item.type === 'access.request.break_glass')
+    expect(event).toMatchObject({ level: 'warning', payload: { pagedOwnerActorIds: [owner.actorId] } })
+    controlPlane.close()
+  })
+
+  it('refuses break-glass when no owner can be paged', () => {
+    const { controlPlane, organization, project, owner, oncall, alerts, access, can } = fixture()
+    access.setBreakGlassEligibility(organization.id, [{ membershipId: oncall.id, capability: 'runtime:terminal' }])
+    const input = terminal(organization.id, oncall.id, project.id)
+    expect(() => new AccessRequestStore(controlPlane).breakGlass(input)).toThrow('No owner')
+    alerts.setContactChannels(owner.actorId, [])
+    expect(() => access.breakGlass(input)).toThrow('No owner')
+    expect(can('runtime:terminal').allowed).toBe(false)
+    expect(access.list(organization.id)).toEqual([])
+    controlPlane.close()
+  })
+})
@@ -0,0 +1,573 @@
+import type { SQLQueryBindings } from 'bun:sqlite'
+import type { AlertStore, NotificationDelivery } from '../alerts'
+import type { AuthorizationCapability, AuthorizationScope, AuthorizationTarget, ControlPlaneStore, OrganizationMembership, OrganizationRoleTemplate } from '../control-plane'
+import type { AuthAccessRequest, AuthAccessRequestDecision, AuthAccessRequestInput, AuthAccessRequestState, AuthBreakGlassEligibility, AuthBreakGlassEligibilityInput } from './types'
+import { AUTHORIZATION_CAPABILITIES, authorizeOrganization, scopeContains } from '../control-plane'
+
+type Row = Record<string, unknown>
+
+export const AUTH_ACCESS_REQUEST_MIN_DURATION_SECONDS: number = 5 * 60
+export const AUTH_ACCESS_REQUEST_MAX_DURATION_SECONDS: number = 8 * 60 * 60
+export const AUTH_BREAK_GLASS_MAX_DURATION_SECONDS: number = 60 * 60
+
+/**
+ * Capabilities break-glass can't hand out. Each of them changes who may do
+ * what, or what the organization pays, so an emergency grant of one could
+ * outlive its window.
+ */
+export const AUTH_BREAK_GLASS_EXCLUDED_CAPABILITIES: readonly AuthorizationCapability[] = [
+  'users:manage',
+  'users:transfer-ownership',
+  'billing:manage',
+  'security:manage',
+  'automation:manage',
+]
+
+const ROLE_TEMPLATES: readonly OrganizationRoleTemplate[] = [
+  'owner',
+  'admin',
+  'deployer',
+  'operator',
+  'viewer',
+  'auditor',
+]
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+function mapRequest(row: Row): AuthAccessRequest {
+  const scopeType = String(row.scope_type) as AuthorizationScope['type']
+  return {
+    id: String(row.id),
+    organizationId: String(row.organization_id),
+    membershipId: String(row.membership_id),
+    capability: String(row.capability) as AuthorizationCapability,
+    scope:
+      scopeType === 'organization'
+        ? { type: 'organization' }
+        : ({ type: scopeType, id: String(row.scope_id) } as AuthorizationScope),
+    justification: String(row.justification),
+    durationSeconds: Number(row.duration_seconds),
+    breakGlass: Number(row.break_glass) === 1,
+    state: String(row.state) as AuthAccessRequestState,
+    decidedByActorId: optionalString(row.decided_by_actor_id),
+    decisionNote: optionalString(row.decision_note),
+    approvedAt: optionalString(row.approved_at),
+    expiresAt: optionalString(row.expires_at),
+    endedAt: optionalString(row.ended_at),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
+
+function mapEligibility(row: Row): AuthBreakGlassEligibility {
+  return {
+    organizationId: String(row.organization_id),
+    roleTemplate: optionalString(row.role_template) as OrganizationRoleTemplate | undefined,
+    membershipId: optionalString(row.membership_id),
+    capability: String(row.capability) as AuthorizationCapability,
+    createdBy: optionalString(row.created_by),
+    createdAt: String(row.created_at),
+  }
+}
+
+function scopeLabel(scope: AuthorizationScope): string {
+  return scope.type === 'organization' ? 'the organization' : `${scope.type} ${scope.id}`
+}
+
+export interface AccessRequestStoreOptions {
+  now?: () => Date
+  id?: () => string
+  /**
+   * Where break-glass pages go: each owner's on-call contact channels. Without
+   * it, break-glass is refused, because nobody would be paged.
+   */
+  alerts?: AlertStore
+}
+
+/**
+ * Just-in-time access. A member asks for a capability at a scope, with a
+ * justification and a duration; an approver with `users:manage` there grants
+ * it as a time-boxed grant that authorization ignores once it expires. A
+ * break-glass request approves itself and pages the owners instead, for
+ * members the organization made eligible.
+ */
+export class AccessRequestStore {
+  private readonly nowFn: () => Date
+  private readonly idFn: () => string
+  private readonly alerts: AlertStore | undefined
+
+  constructor(
+    private readonly controlPlane: ControlPlaneStore,
+    options: AccessRequestStoreOptions = {},
+  ) {
+    this.nowFn = options.now ?? (() => new Date())
+    this.idFn = options.id ?? (() => crypto.randomUUID())
+    this.alerts = options.alerts
+  }
+
+  private now(): string {
+    return this.nowFn().toISOString()
+  }
+
+  /** Run a statement and return how many rows it changed. */
+  private run(sql: string, bindings: SQLQueryBindings[]): number {
+    return this.controlPlane.database.run(sql, bindings).changes
+  }
+
+  request(input: AuthAccessRequestInput): AuthAccessRequest {
+    const { membership, scope } = this.requestInput(input, AUTH_ACCESS_REQUEST_MAX_DURATION_SECONDS)
+    const pending = this.list(input.organizationId, { membershipId: membership.id, states: ['pending'] }).find(
+      (request) =>
+        request.capability === input.capability &&
+        request.scope.type === scope.type &&
+        request.scope.id === scope.id,
+    )
+    if (pending) throw new Error(`A request for ${input.capability} on ${scopeLabel(scope)} is already pending.`)
+    return this.controlPlane.transaction(() => {
+      const request = this.insert(input, membership, scope, false)
+      this.controlPlane.appendEvent({
+        organizationId: request.organizationId,
+        actorId: membership.actorId,
+        type: 'access.request.created',
+        payload: this.eventPayload(request),
+      })
+      return request
+    })
+  }
+
+  /**
+   * Grant a member access at once, without an approver, and page every owner
+   * through their on-call contact channels. The member must be eligible for
+   * the capability, and at least one owner must be reachable. The deliveries
+   * are returned for the caller to send.
+   */
+  breakGlass(input: AuthAccessRequestInput): { request: AuthAccessRequest; pages: NotificationDelivery[] } {
+    if (AUTH_BREAK_GLASS_EXCLUDED_CAPABILITIES.includes(input.capability))
+      throw new Error(`Break-glass access can't grant ${input.capability}. Request it for approval instead.`)
+    const { membership, scope, target } = this.requestInput(input, AUTH_BREAK_GLASS_MAX_DURATION_SECONDS)
+    if (!this.breakGlassCapabilities(membership).includes(input.capability))
+      throw new Error(`You are not eligible for break-glass ${input.capability}. Request it for approval instead.`)
+    if (!scopeContains(membership.scope, target))
+      throw new Error('Break-glass access is limited to the scope of your membership.')
+    const recipients = this.ownerChannels(input.organizationId)
+    if (!recipients.length)
+      throw new Error(
+        'No owner has an active on-call contact channel to page. Request the access for approval instead.',
+      )
+    const request = this.controlPlane.transaction(() => {
+      const created = this.insert(input, membership, scope, true)
+      return this.grant(created, membership.actorId)
+    })
+    const pages = this.pageOwners(request, membership, recipients)
+    this.controlPlane.appendEvent({
+      organizationId: request.organizationId,
+      actorId: membership.actorId,
+      type: 'access.request.break_glass',
+      level: 'warning',
+      payload: {
+        ...this.eventPayload(request),
+        pagedOwnerActorIds: [...new Set(pages.map((page) => String(page.payload.ownerActorId)))],
+        pagedChannelIds: pages.map((page) => page.channelId),
+      },
+    })
+    return { request, pages }
+  }
+
+  listBreakGlassEligibility(organizationId: string): AuthBreakGlassEligibility[] {
+    return this.controlPlane.database
+      .query<Row, [string]>(
+        `SELECT * FROM organization_break_glass_eligibility WHERE organization_id = ?
+        ORDER BY role_template IS NULL, role_template, membership_id, capability`,
+      )
+      .all(organizationId)
+      .map(mapEligibility)
+  }
+
+  /** Replace who may use break-glass in the organization with `entries`. */
+  setBreakGlassEligibility(
+    organizationId: string,
+    entries: readonly AuthBreakGlassEligibilityInput[],
+    actorId?: string,
+  ): AuthBreakGlassEligibility[] {
+    for (const entry of entries) {
+      if (!!entry.roleTemplate === !!entry.membershipId)
+        throw new Error('Each break-glass entry names either a role template or a membership.')
+      if (entry.roleTemplate && !ROLE_TEMPLATES.includes(entry.roleTemplate))
+        throw new Error(`Unknown role template '${entry.roleTemplate}'.`)
+      if (!AUTHORIZATION_CAPABILITIES.includes(entry.capability))
+        throw new Error(`Unknown capability '${entry.capability}'.`)
+      if (AUTH_BREAK_GLASS_EXCLUDED_CAPABILITIES.includes(entry.capability))
+        throw new Error(`Break-glass access can't grant ${entry.capability}.`)
+      if (entry.membershipId && this.controlPlane.getMembership(entry.membershipId)?.organizationId !== organizationId)
+        throw new Error(`Membership '${entry.membershipId}' was not found in this organization.`)
+    }
+    const now = this.now()
+    this.controlPlane.transaction(() => {
+      this.run('DELETE FROM organization_break_glass_eligibility WHERE organization_id = ?', [organizationId])
+      for (const entry of entries)
+        this.run(
+          `INSERT OR IGNORE INTO organization_break_glass_eligibility (organization_id, role_template, membership_id, capability, created_by, created_at)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            organizationId,
+            entry.roleTemplate ?? null,
+            entry.membershipId ?? null,
+            entry.capability,
+            actorId ?? null,
+            now,
+          ],
+        )
+      this.controlPlane.appendEvent({
+        organizationId,
+        actorId,
+        type: 'access.break_glass.eligibility_updated',
+        payload: {
+          entries: entries.map((entry) => ({
+            roleTemplate: entry.roleTemplate ?? null,
+            membershipId: entry.membershipId ?? null,
+            capability: entry.capability,
+          })),
+        },
+      })
+    })
+    return this.listBreakGlassEligibility(organizationId)
+  }
+
+  /** The capabilities a membership may give itself through break-glass. */
+  breakGlassCapabilities(membership: OrganizationMembership): AuthorizationCapability[] {
+    return [
+      ...new Set(
+        this.listBreakGlassEligibility(membership.organizationId)
+          .filter((entry) => entry.roleTemplate === membership.roleTemplate || entry.membershipId === membership.id)
+          .map((entry) => entry.capability),
+      ),
+    ]
+  }
+
+  approve(id: string, decision: AuthAccessRequestDecision): AuthAccessRequest {
+    return this.controlPlane.transaction(() => {
+      const request = this.pending(id)
+      this.assertApprover(request, decision.actorId)
+      const membership = this.controlPlane.getMembership(request.membershipId)
+      if (!membership || membership.status !== 'active')
+        throw new Error('The requesting membership is no longer active.')
+      this.assertGrantable(membership, request.capability, request.scope)
+      const changed = this.run(
+        `UPDATE organization_access_requests SET decided_by_actor_id = ?, decision_note = ? WHERE id = ? AND state = 'pending'`,
+        [decision.actorId, decision.note?.trim().slice(0, 1000) || null, id],
+      )
+      if (changed !== 1) throw this.decided(id)
+      return this.grant(this.get(id)!, decision.actorId)
+    })
+  }
+
+  deny(id: string, decision: AuthAccessRequestDecision): AuthAccessRequest {
+    return this.controlPlane.transaction(() => {
+      const request = this.pending(id)
+      this.assertApprover(request, decision.actorId)
+      return this.end(request, 'denied', decision)
+    })
+  }
+
+  /** Withdraw a request that is still waiting for a decision. Only the requester may. */
+  cancel(id: string, actorId: string): AuthAccessRequest {
+    return this.controlPlane.transaction(() => {
+      const request = this.pending(id)
+      if (this.controlPlane.getMembership(request.membershipId)?.actorId !== actorId)
+        throw new Error('Only the requester can cancel an access request.')
+      return this.end(request, 'cancelled', { actorId })
+    })
+  }
+
+  /** End approved access before it runs out. The holder or any approver may. */
+  revoke(id: string, decision: AuthAccessRequestDecision): AuthAccessRequest {
+    return this.controlPlane.transaction(() => {
+      const request = this.get(id)
+      if (!request || request.state !== 'approved') throw new Error('Only approved access can be revoked.')
+      if (this.controlPlane.getMembership(request.membershipId)?.actorId !== decision.actorId)
+        this.assertApprover(request, decision.actorId)
+      return this.end(request, 'revoked', decision)
+    })
+  }
+
+  /**
+   * Close approved requests whose window has passed and remove their grants.
+   * Authorization already ignores an expired grant; this records the end.
+   */
+  expire(): AuthAccessRequest[] {
+    const now = this.now()
+    return this.controlPlane.transaction(() =>
+      this.controlPlane.database
+        .query<Row, [string]>(
+          `SELECT * FROM organization_access_requests WHERE state = 'approved' AND expires_at <= ? ORDER BY expires_at, id`,
+        )
+        .all(now)
+        .map((row) => this.end(mapRequest(row), 'expired', {})),
+    )
+  }
+
+  get(id: string): AuthAccessRequest | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM organization_access_requests WHERE id = ?')
+      .get(id)
+    return row ? mapRequest(row) : undefined
+  }
+
+  list(
+    organizationId: string,
+    filter: { membershipId?: string; states?: readonly AuthAccessRequestState[]; limit?: number } = {},
+  ): AuthAccessRequest[] {
+    const filters = ['organization_id = ?']
+    const bindings: SQLQueryBindings[] = [organizationId]
+    if (filter.membershipId) {
+      filters.push('membership_id = ?')
+      bindings.push(filter.membershipId)
+    }
+    if (filter.states?.length) {
+      filters.push(`state IN (${filter.states.map(() => '?').join(', ')})`)
+      bindings.push(...filter.states)
+    }
+    bindings.push(Math.min(500, Math.max(1, filter.limit ?? 100)))
+    return this.controlPlane.database
+      .query<Row, SQLQueryBindings[]>(
+        `SELECT * FROM organization_access_requests WHERE ${filters.join(' AND ')} ORDER BY created_at DESC, rowid DESC LIMIT ?`,
+      )
+      .all(...bindings)
+      .map(mapRequest)
+  }
+
+  private requestInput(
+    input: AuthAccessRequestInput,
+    maxDurationSeconds: number,
+  ): { membership: OrganizationMembership; scope: AuthorizationScope; target: AuthorizationTarget } {
+    if (!AUTHORIZATION_CAPABILITIES.includes(input.capability))
+      throw new Error(`Unknown capability '${input.capability}'.`)
+    const membership = this.controlPlane.getMembership(input.membershipId)
+    if (!membership || membership.organizationId !== input.organizationId || membership.status !== 'active')
+      throw new Error('Only active members can request access.')
+    if (this.controlPlane.getActor(membership.actorId)?.kind !== 'user')
+      throw new Error('Service accounts cannot request access. Issue a token with the capability instead.')
+    const justification = input.justification.trim()
+    if (justification.length < 10) throw new Error('Explain why the access is needed, in at least 10 characters.')
+    if (justification.length > 1000) throw new Error('Keep the justification under 1000 characters.')
+    if (
+      !Number.isInteger(input.durationSeconds) ||
+      input.durationSeconds < AUTH_ACCESS_REQUEST_MIN_DURATION_SECONDS ||
+      input.durationSeconds > maxDurationSeconds
+    )
+      throw new Error(
+        `Access lasts between ${AUTH_ACCESS_REQUEST_MIN_DURATION_SECONDS / 60} minutes and ${maxDurationSeconds / 3600} hours.`,
+      )
+    const requested = input.scope ?? { type: 'organization' }
+    const scope: AuthorizationScope =
+      requested.type === 'organization' ? { type: 'organization' } : { type: requested.type, id: requested.id }
+    const target = this.controlPlane.resolveAuthorizationTarget(input.organizationId, scope)
+    if (!target) throw new Error('Access scope was not found in this organization.')
+    this.assertGrantable(membership, input.capability, scope)
+    return { membership, scope, target }
+  }
+
+  private assertGrantable(
+    membership: OrganizationMembership,
+    capability: AuthorizationCapability,
+    scope: AuthorizationScope,
+  ): void {
+    const target = this.controlPlane.resolveAuthorizationTarget(membership.organizationId, scope)!
+    const decision = authorizeOrganization({
+      membership,
+      grants: this.controlPlane.listGrants(membership.id),
+      capability,
+      target,
+      at: this.now(),
+    })
+    if (decision.reason === 'explicit-deny')
+      throw new Error(`An explicit deny of ${capability} applies on ${scopeLabel(scope)}; access requests can't lift it.`)
+    if (decision.allowed) throw new Error(`The member already has ${capability} on ${scopeLabel(scope)}.`)
+  }
+
+  /** Approvers hold `users:manage` where the access is asked for, and never approve their own requests. */
+  private assertApprover(request: AuthAccessRequest, actorId: string): void {
+    const approver = this.controlPlane.getMembershipForActor(request.organizationId, actorId)
+    if (approver?.id === request.membershipId) throw new Error('Members cannot decide their own access requests.')
+    const target = this.controlPlane.resolveAuthorizationTarget(request.organizationId, request.scope)
+    if (
+      !approver ||
+      !target ||
+      !authorizeOrganization({
+        membership: approver,
+        grants: this.controlPlane.listGrants(approver.id),
+        capability: 'users:manage',
+        target,
+        at: this.now(),
+      }).allowed
+    )
+      throw new Error(`Deciding this request requires users:manage on ${scopeLabel(request.scope)}.`)
+  }
+
+  private pending(id: string): AuthAccessRequest {
+    const request = this.get(id)
+    if (!request) throw new Error('Access request was not found.')
+    if (request.state !== 'pending') throw new Error(`The access request is already ${request.state}.`)
+    return request
+  }
+
+  /** The error for a request that another decision moved on before this one could. */
+  private decided(id: string): Error {
+    return new Error(`The access request is already ${this.get(id)?.state ?? 'gone'}.`)
+  }
+
+  private insert(
+    input: AuthAccessRequestInput,
+    membership: OrganizationMembership,
+    scope: AuthorizationScope,
+    breakGlass: boolean,
+  ): AuthAccessRequest {
+    const id = this.idFn()
+    const now = this.now()
+    this.run(
+      `INSERT INTO organization_access_requests (id, organization_id, membership_id, capability, scope_type, scope_id, justification, duration_seconds, break_glass, decided_by_actor_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        input.organizationId,
+        membership.id,
+        input.capability,
+        scope.type,
+        scope.id ?? null,
+        input.justification.trim(),
+        input.durationSeconds,
+        breakGlass ? 1 : 0,
+        breakGlass ? membership.actorId : null,
+        now,
+        now,
+      ],
+    )
+    return this.get(id)!
+  }
+
+  private grant(request: AuthAccessRequest, actorId: string): AuthAccessRequest {
+    const now = this.now()
+    const expiresAt = new Date(this.nowFn().getTime() + request.durationSeconds * 1000).toISOString()
+    const changed = this.run(
+      `UPDATE organization_access_requests SET state = 'approved', approved_at = ?, expires_at = ?, updated_at = ? WHERE id = ? AND state = 'pending'`,
+      [now, expiresAt, now, request.id],
+    )
+    if (changed !== 1) throw this.decided(request.id)
+    this.controlPlane.upsertGrant({
+      organizationId: request.organizationId,
+      membershipId: request.membershipId,
+      effect: 'allow',
+      capability: request.capability,
+      scope: request.scope,
+      source: 'access-request',
+      expiresAt,
+      accessRequestId: request.id,
+      actorId,
+    })
+    const approved = this.get(request.id)!
+    if (!approved.breakGlass)
+      this.controlPlane.appendEvent({
+        organizationId: approved.organizationId,
+        actorId,
+        type: 'access.request.approved',
+        payload: this.eventPayload(approved),
+      })
+    return approved
+  }
+
+  private end(
+    request: AuthAccessRequest,
+    state: Extract<AuthAccessRequestState, 'denied' | 'cancelled' | 'revoked' | 'expired'>,
+    decision: Partial<AuthAccessRequestDecision>,
+  ): AuthAccessRequest {
+    return this.controlPlane.transaction(() => {
+      const now = this.now()
+      const endedAt = state === 'expired' ? request.expiresAt! : now
+      const note = decision.note?.trim().slice(0, 1000) || null
+      // Denying and cancelling end a pending request; revoking and expiring an approved one.
+      const from = state === 'denied' || state === 'cancelled' ? 'pending' : 'approved'
+      const changed =
+        state === 'denied'
+          ? this.run(
+              `UPDATE organization_access_requests SET state = 'denied', decided_by_actor_id = ?, decision_note = ?, updated_at = ? WHERE id = ? AND state = ?`,
+              [decision.actorId ?? null, note, now, request.id, from],
+            )
+          : this.run(
+              `UPDATE organization_access_requests SET state = ?, ended_at = ?, decision_note = COALESCE(?, decision_note), updated_at = ? WHERE id = ? AND state = ?`,
+              [state, state === 'cancelled' ? null : endedAt, note, now, request.id, from],
+            )
+      if (changed !== 1) throw this.decided(request.id)
+      const grants = this.controlPlane.database
+        .query<Row, [string]>(
+          `SELECT id FROM authorization_grants WHERE access_request_id = ? AND source = 'access-request'`,
+        )
+        .all(request.id)
+      for (const grant of grants) this.controlPlane.removeGrant(String(grant.id), decision.actorId)
+      const ended = this.get(request.id)!
+      this.controlPlane.appendEvent({
+        organizationId: ended.organizationId,
+        actorId: decision.actorId,
+        type: `access.request.${state}`,
+        payload: this.eventPayload(ended),
+      })
+      return ended
+    })
+  }
+
+  /** Every owner's active on-call contact channels. */
+  private ownerChannels(organizationId: string): { ownerActorId: string; channelId: string }[] {
+    const alerts = this.alerts
+    if (!alerts) return []
+    return this.controlPlane
+      .listMemberships(organizationId)
+      .filter((membership) => membership.roleTemplate === 'owner')
+      .flatMap((owner) =>
+        alerts
+          .contactChannels(owner.actorId)
+          .filter((channelId) => alerts.getChannel(channelId)?.status === 'active')
+          .map((channelId) => ({ ownerActorId: owner.actorId, channelId })),
+      )
+  }
+
+  private pageOwners(
+    request: AuthAccessRequest,
+    requester: OrganizationMembership,
+    recipients: readonly { ownerActorId: string; channelId: string }[],
+  ): NotificationDelivery[] {
+    const name = this.controlPlane.getActor(requester.actorId)?.displayName ?? requester.actorId
+    const text =
+      `[BREAK-GLASS] ${name} gave themselves ${request.capability} on ${scopeLabel(request.scope)} ` +
+      `until ${request.expiresAt}: ${request.justification}`
+    return recipients.map(({ ownerActorId, channelId }) =>
+      this.alerts!.createDelivery({
+        channelId,
+        eventType: 'access.break_glass',
+        idempotencyKey: `access:break-glass:${request.id}:${channelId}`,
+        payload: {
+          event: 'access.break_glass',
+          notificationText: text,
+          ownerActorId,
+          accessRequest: this.eventPayload(request),
+        },
+      }),
+    )
+  }
+
+  private eventPayload(request: AuthAccessRequest): Record<string, string | number | boolean | null> {
+    return {
+      accessRequestId: request.id,
+      membershipId: request.membershipId,
+      capability: request.capability,
+      scopeType: request.scope.type,
+      scopeId: request.scope.id ?? null,
+      durationSeconds: request.durationSeconds,
+      breakGlass: request.breakGlass,
+      justification: request.justification,
+      state: request.state,
+      expiresAt: request.expiresAt ?? null,
+      decisionNote: request.decisionNote ?? null,
+    }
+  }
+}
@@ -2,14 +2,69 @@ export {
   AUTH_ACTION_TOKEN_TTL_MS,
   AUTH_MFA_CHALLENGE_TTL_MS,
   AUTH_OIDC_TRANSACTION_TTL_MS,
+  AUTH_SAML_REQUEST_TTL_MS,
   AUTH_SESSION_ABSOLUTE_TTL_MS,
   AUTH_SESSION_IDLE_TTL_MS,
+  AUTH_WEBAUTHN_CHALLENGE_TTL_MS,
   AuthenticationStore,
 } from './store'
 export * from './types'
+export {
+  AccessRequestStore,
+  AUTH_ACCESS_REQUEST_MAX_DURATION_SECONDS,
+  AUTH_ACCESS_REQUEST_MIN_DURATION_SECONDS,
+  AUTH_BREAK_GLASS_EXCLUDED_CAPABILITIES,
+  AUTH_BREAK_GLASS_MAX_DURATION_SECONDS,
+} from './access-requests'
+export type { AccessRequestStoreOptions } from './access-requests'
 export { sendAuthenticationEmail } from './mailer'
 export type { AuthenticationEmail } from './mailer'
 export { authEncryptionKeyFile, resolveAuthEncryptionKey } from './encryption'
 export { decodeBase32, encodeBase32, hotp, matchTotpCounter, totp, totpUri, verifyTotp } from './totp'
 export { beginOidcAuthorization, completeOidcAuthorization, discoverOidcProvider, sanitizeOidcReturnPath } from './oidc'
 export type { OidcDiscoveryDocument, OidcFetch, VerifiedOidcIdentity } from './oidc'
+export {
+  beginSamlAuthentication,
+  beginSamlLogout,
+  completeSamlAuthentication,
+  completeSamlLogout,
+  createSamlServiceProviderKey,
+  fetchSamlIdpMetadata,
+  parseSamlIdpMetadata,
+  renderSamlServiceProviderMetadata,
+  samlServiceProvider,
+} from './saml'
+export type { SamlLogoutResult, SamlServiceProvider, VerifiedSamlIdentity } from './saml'
+export {
+  applyScimPatch,
+  matchesScimFilter,
+  parseScimFilter,
+  parseScimPath,
+  projectScimResource,
+  readScimPatch,
+  SCIM_ENTERPRISE_USER_SCHEMA,
+  SCIM_ERROR_SCHEMA,
+  SCIM_GROUP_SCHEMA,
+  SCIM_LIST_RESPONSE_SCHEMA,
+  SCIM_PATCH_OP_SCHEMA,
+  SCIM_USER_SCHEMA,
+  scimAttribute,
+  ScimError,
+} from './scim-protocol'
+export type { ScimAttributePath, ScimErrorType, ScimFilter, ScimPatchOperation, ScimPatchPath } from './scim-protocol'
+export { readScimGroup, readScimUser, scimGroupResource, ScimProvisioningStore, scimUserResource } from './scim'
+export type { ScimProvisioningStoreOptions } from './scim'
+export {
+  readWebAuthnClientData,
+  resolveWebAuthnAttestationRoots,
+  verifyWebAuthnAssertion,
+  verifyWebAuthnRegistration,
+  WEBAUTHN_ALGORITHMS,
+} from './webauthn'
+export type {
+  VerifiedWebAuthnAssertion,
+  VerifiedWebAuthnRegistration,
+  WebAuthnAssertionResponse,
+  WebAuthnExpectation,
+  WebAuthnRegistrationResponse,
+} from './webauthn'
@@ -0,0 +1,342 @@
+import type { AuthSamlProvider } from './types'
+import { describe, expect, it } from 'bun:test'
+import { createHash, sign, verify, X509Certificate } from 'node:crypto'
+import { deflateRawSync, inflateRawSync } from 'node:zlib'
+import { ControlPlaneStore } from '../control-plane'
+import {
+  beginSamlAuthentication,
+  beginSamlLogout,
+  completeSamlAuthentication,
+  completeSamlLogout,
+  createSamlServiceProviderKey,
+  parseSamlIdpMetadata,
+  renderSamlServiceProviderMetadata,
+} from './saml'
+import { AuthenticationStore } from './store'
+import { canonicalizeXml, parseXml } from './xmldsig'
+
+const origin = 'https://cloud.acme.test'
+const idpEntityId = 'https://idp.acme.test/adfs/services/trust'
+const acsUrl = `${origin}/auth/saml/acme-adfs/acs`
+const spEntityId = `${origin}/auth/saml/acme-adfs/metadata`
+const idpKey = createSamlServiceProviderKey('idp.acme.test')
+const idpCertificate = idpKey.certificate.replace(/-----[A-Z ]+-----|\s+/g, '')
+const ds = 'http://www.w3.org/2000/09/xmldsig#'
+const bindings = 'urn:oasis:names:tc:SAML:2.0:bindings'
+const now = new Date('2026-10-19T12:00:00.000Z')
+
+function idpMetadata(): string {
+  return `<?xml version="1.0"?>
+<EntityDescriptor xmlns="urn:oasis:names:tc:SAML:2.0:metadata" entityID="${idpEntityId}">
+  <IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+    <KeyDescriptor use="encryption">
+      <KeyInfo xmlns="${ds}"><X509Data><X509Certificate>AAAA</X509Certificate></X509Data></KeyInfo>
+    </KeyDescriptor>
+    <KeyDescriptor use="signing"><KeyInfo xmlns="${ds}"><X509Data><X509Certificate>
+      ${idpCertificate}
+    </X509Certificate></X509Data></KeyInfo></KeyDescriptor>
+    <SingleLogoutService Binding="${bindings}:HTTP-Redirect" Location="https://idp.acme.test/adfs/ls/"/>
+    <SingleSignOnService Binding="${bindings}:HTTP-POST" Location="https://idp.acme.test/post"/>
+    <SingleSignOnService Binding="${bindings}:HTTP-Redirect" Location="https://idp.acme.test/adfs/ls/"/>
+  </IDPSSODescriptor>
+</EntityDescriptor>`
+}
+
+/** Insert an enveloped signature after the Issuer of the element with `id`, the way an IdP would. */
+function signElement(xml: string, id: string): string {
+  const target = (function find(element = parseXml(xml)): ReturnType<typeof parseXml> | undefined {
+    if (element.attributes.some((attribute) => attribute.localName === 'ID' && attribute.value === id)) return element
+    for (const child of element.children) {
+      const found = child.type === 'element' ? find(child) : undefined
+      if (found) return found
+    }
+    return undefined
+  })()!
+  const digest = createHash('sha256').update(canonicalizeXml(target)).digest('base64')
+  const signedInfo =
+    `<ds:SignedInfo xmlns:ds="${ds}"><ds:CanonicalizationMethod Algorithm="http://www.w3.org/2001/10/xml-exc-c14n#"/>` +
+    '<ds:SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"/>' +
+    `<ds:Reference URI="#${id}"><ds:Transforms>` +
+    '<ds:Transform Algorithm="http://www.w3.org/2000/09/xmldsig#enveloped-signature"/>' +
+    '<ds:Transform Algorithm="http://www.w3.org/2001/10/xml-exc-c14n#"/></ds:Transforms>' +
+    '<ds:DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"/>' +
+    `<ds:DigestValue>${digest}</ds:DigestValue></ds:Reference></ds:SignedInfo>`
+  const value = sign('sha256', Buffer.from(canonicalizeXml(parseXml(signedInfo))), idpKey.privateKey)
+  const signature =
+    `<ds:Signature xmlns:ds="${ds}">${signedInfo}` +
+    `<ds:SignatureValue>${value.toString('base64')}</ds:SignatureValue></ds:Signature>`
+  const issuer = new RegExp(`(ID="${id}"[^>]*>\\s*<saml:Issuer>[^<]*</saml:Issuer>)`)
+  return xml.replace(issuer, `$1${signature}`)
+}
+
+function assertion(
+  input: { id?: string; inResponseTo?: string; audience?: string; groups?: string[]; email?: string } = {},
+): string {
+  const inResponseTo = input.inResponseTo ? ` InResponseTo="${input.inResponseTo}"` : ''
+  const groups = (input.groups ?? ['Platform Admins'])
+    .map((group) => `<saml:AttributeValue>${group}</saml:AttributeValue>`)
+    .join('')
+  return (
+    `<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="${input.id ?? '_assertion-1'}" ` +
+    `Version="2.0" IssueInstant="${now.toISOString()}"><saml:Issuer>${idpEntityId}</saml:Issuer>` +
+    '<saml:Subject>' +
+    '<saml:NameID Format="urn:oasis:names:tc:SAML:2.0:nameid-format:persistent">S-1-5-21-42</saml:NameID>' +
+    '<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">' +
+    `<saml:SubjectConfirmationData${inResponseTo} NotOnOrAfter="2026-10-19T12:05:00.000Z" Recipient="${acsUrl}"/>` +
+    '</saml:SubjectConfirmation></saml:Subject>' +
+    '<saml:Conditions NotBefore="2026-10-19T11:59:00.000Z" NotOnOrAfter="2026-10-19T13:00:00.000Z">' +
+    '<saml:AudienceRestriction>' +
+    `<saml:Audience>${input.audience ?? spEntityId}</saml:Audience></saml:AudienceRestriction>` +
+    '</saml:Conditions><saml:AttributeStatement>' +
+    '<saml:Attribute Name="http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress">' +
+    `<saml:AttributeValue>${input.email ?? 'Chris@Acme.test'}</saml:AttributeValue></saml:Attribute>` +
+    `<saml:Attribute Name="http://schemas.microsoft.com/ws/2008/06/identity/claims/groups">${groups}</saml:Attribute>` +
+    '</saml:AttributeStatement>' +
+    `<saml:AuthnStatement AuthnInstant="${now.toISOString()}" SessionIndex="_session-7"/></saml:Assertion>`
+  )
+}
+
+function response(body: string, inResponseTo?: string): string {
+  const answers = inResponseTo ? ` InResponseTo="${inResponseTo}"` : ''
+  const xml =
+    '<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ' +
+    `xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_response-1" Version="2.0"${answers} ` +
+    `IssueInstant="${now.toISOString()}" Destination="${acsUrl}"><saml:Issuer>${idpEntityId}</saml:Issuer>` +
+    '<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>' +
+    `${body}</samlp:Response>`
+  return Buffer.from(xml).toString('base64')
+}
+
+function stores(options: { allowIdpInitiated?: boolean } = {}) {
+  const controlPlane = new ControlPlaneStore({ path: ':memory:' })
+  const auth = new AuthenticationStore(controlPlane, { encryptionKey: 'test-encryption-key', now: () => now })
+  const organization = controlPlane.createOrganization({ slug: 'acme', name: 'Acme' })
+  const provider = auth.upsertSamlProvider({
+    organizationId: organization.id,
+    slug: 'acme-adfs',
+    name: 'Acme ADFS',
+    metadata: parseSamlIdpMetadata(idpMetadata(), { now }),
+    allowedDomains: ['acme.test'],
+    roleMappings: [{ value: 'Platform Admins', role: 'admin' }],
+    allowIdpInitiated: options.allowIdpInitiated,
+  })
+  return { controlPlane, auth, provider }
+}
+
+function redirectQuery(url: string): URLSearchParams {
+  return new URL(url).searchParams
+}
+
+function inflate(value: string): string {
+  return inflateRawSync(Buffer.from(value, 'base64')).toString('utf8')
+}
+
+function begin(auth: AuthenticationStore) {
+  const { redirectUrl } = beginSamlAuthentication(auth, 'acme-adfs', origin, '/deployments?env=production')
+  const query = redirectQuery(redirectUrl)
+  const requestId = /ID="([^"]+)"/.exec(inflate(query.get('SAMLRequest')!))![1]!
+  return { redirectUrl, requestId, relayState: query.get('RelayState')! }
+}
+
+describe('SAML metadata', () => {
+  it('imports the signing certificate and redirect endpoints from IdP metadata', () => {
+    const metadata = parseSamlIdpMetadata(idpMetadata(), { now })
+    expect(metadata).toEqual({
+      entityId: idpEntityId,
+      ssoUrl: 'https://idp.acme.test/adfs/ls/',
+      sloUrl: 'https://idp.acme.test/adfs/ls/',
+      sloResponseUrl: undefined,
+      certificates: [idpCertificate],
+    })
+    expect(() => parseSamlIdpMetadata(idpMetadata().replace('use="signing"', 'use="encryption"'))).toThrow(
+      'no signing certificate',
+    )
+    expect(() =>
+      parseSamlIdpMetadata(idpMetadata().replace('entityID=', 'validUntil="2020-01-01T00:00:00Z" entityID='), { now }),
+    ).toThrow('expired')
+    expect(() => parseSamlIdpMetadata(idpMetadata().replaceAll('https://idp', 'http://idp'))).toThrow('HTTPS')
+  })
+
+  it('publishes our entity ID, endpoints and signing certificate', () => {
+    const { controlPlane, provider } = stores()
+    const metadata = parseXml(renderSamlServiceProviderMetadata(provider, origin))
+    expect(metadata.attributes.find((attribute) => attribute.name === 'entityID')?.value).toBe(spEntityId)
+    const rendered = renderSamlServiceProviderMetadata(provider, origin)
+    expect(rendered).toContain(`Location="${acsUrl}"`)
+    expect(rendered).toContain(`Location="${origin}/auth/saml/acme-adfs/slo"`)
+    expect(new X509Certificate(provider.spCertificate).subject).toBe('CN=ts-cloud SAML acme-adfs')
+    controlPlane.close()
+  })
+})
+
+describe('SAML sign-in', () => {
+  it('sends a signed AuthnRequest and accepts the signed assertion that answers it', () => {
+    const { controlPlane, auth, provider } = stores()
+    const { redirectUrl, requestId, relayState } = begin(auth)
+    const query = redirectQuery(redirectUrl)
+    expect(redirectUrl.startsWith('https://idp.acme.test/adfs/ls/?SAMLRequest=')).toBe(true)
+    const signed = redirectUrl.slice(redirectUrl.indexOf('?') + 1, redirectUrl.indexOf('&Signature='))
+    expect(
+      verify('sha256', Buffer.from(signed), provider.spCertificate, Buffer.from(query.get('Signature')!, 'base64')),
+    ).toBe(true)
+
+    const samlResponse = response(signElement(assertion({ inResponseTo: requestId }), '_assertion-1'), requestId)
+    const { identity, returnPath } = completeSamlAuthentication(auth, {
+      providerSlug: 'acme-adfs',
+      samlResponse,
+      relayState,
+      origin,
+      now,
+    })
+    expect(returnPath).toBe('/deployments?env=production')
+    expect(identity).toMatchObject({
+      nameId: 'S-1-5-21-42',
+      email: 'chris@acme.test',
+      groups: ['Platform Admins'],
+      role: 'admin',
+      mapped: true,
+      sessionIndex: '_session-7',
+    })
+    expect(() =>
+      completeSamlAuthentication(auth, { providerSlug: 'acme-adfs', samlResponse, relayState, origin, now }),
+    ).toThrow('SAML request is consumed')
+    controlPlane.close()
+  })
+
+  it('falls back to the default role when no mapping matches', () => {
+    const { controlPlane, auth } = stores()
+    const { requestId, relayState } = begin(auth)
+    const samlResponse = response(
+      signElement(assertion({ inResponseTo: requestId, groups: ['Everyone'] }), '_assertion-1'),
+    )
+    const { identity } = completeSamlAuthentication(auth, {
+      providerSlug: 'acme-adfs',
+      samlResponse,
+      relayState,
+      origin,
+      now,
+    })
+    expect(identity).toMatchObject({ role: 'viewer', mapped: false })
+    controlPlane.close()
+  })
+
+  it('rejects tampered, wrapped, misaddressed, unsigned and foreign-domain assertions', () => {
+    const { controlPlane, auth } = stores({ allowIdpInitiated: true })
+    const attempt = (body: string) => () =>
+      completeSamlAuthentication(auth, { providerSlug: 'acme-adfs', samlResponse: response(body), origin, now })
+
+    const signed = signElement(assertion(), '_assertion-1')
+    expect(attempt(signed.replace('Chris@Acme.test', 'mallory@acme.test'))).toThrow('digest does not match')
+    expect(attempt(assertion())).toThrow('not signed')
+    expect(attempt(signElement(assertion({ audience: 'https://other.test' }), '_assertion-1'))).toThrow('audience')
+    expect(attempt(signElement(assertion({ email: 'chris@evil.test' }), '_assertion-1'))).toThrow('domain')
+    // A second, forged assertion next to the signed one
+    expect(attempt(signed + assertion({ id: '_forged', email: 'mallory@acme.test' }))).toThrow('exactly one assertion')
+    // The signed assertion moved under an element we do not read, with a forged one in its place
+    const wrapped = assertion({ id: '_forged', email: 'mallory@acme.test' }).replace(
+      '</saml:Assertion>',
+      `<saml:Advice>${signed}</saml:Advice></saml:Assertion>`,
+    )
+    expect(attempt(wrapped)).toThrow('not signed')
+    controlPlane.close()
+  })
+
+  it('accepts IdP-initiated sign-in only when allowed, and each assertion once', () => {
+    const denied = stores()
+    const samlResponse = response(signElement(assertion(), '_assertion-1'))
+    expect(() =>
+      completeSamlAuthentication(denied.auth, { providerSlug: 'acme-adfs', samlResponse, origin, now }),
+    ).toThrow('IdP-initiated')
+    denied.controlPlane.close()
+
+    const { controlPlane, auth } = stores({ allowIdpInitiated: true })
+    const first = completeSamlAuthentication(auth, {
+      providerSlug: 'acme-adfs',
+      samlResponse,
+      relayState: 'https://evil.test/',
+      origin,
+      now,
+    })
+    expect(first.returnPath).toBe('/')
+    expect(() => completeSamlAuthentication(auth, { providerSlug: 'acme-adfs', samlResponse, origin, now })).toThrow(
+      'already used',
+    )
+    controlPlane.close()
+  })
+})
+
+describe('SAML single logout', () => {
+  function idpRedirect(url: string, parameter: 'SAMLRequest' | 'SAMLResponse', xml: string, relayState?: string) {
+    const query = [`${parameter}=${encodeURIComponent(deflateRawSync(Buffer.from(xml)).toString('base64'))}`]
+    if (relayState) query.push(`RelayState=${encodeURIComponent(relayState)}`)
+    query.push(`SigAlg=${encodeURIComponent('http://www.w3.org/2001/04/xmldsig-more#rsa-sha256')}`)
+    const signature = sign('sha256', Buffer.from(query.join('&')), idpKey.privateKey).toString('base64')
+    return `${query.join('&')}&Signature=${encodeURIComponent(signature)}`
+  }
+
+  function signIn(controlPlane: ControlPlaneStore, auth: AuthenticationStore, provider: AuthSamlProvider) {
+    const actor = controlPlane.createActor({ kind: 'user', externalId: 'dashboard:chris', displayName: 'Chris' })
+    const identity = auth.createIdentity({ actorId: actor.id, username: 'chris', passwordHash: 'hash' })
+    const { session } = auth.createSession({ identityId: identity.id, authMethod: 'saml' })
+    auth.recordSamlSession({
+      sessionId: session.id,
+      providerId: provider.id,
+      nameId: 'S-1-5-21-42',
+      sessionIndex: '_s7',
+    })
+    return session
+  }
+
+  it('ends dashboard sessions when the IdP asks and answers with a signed LogoutResponse', () => {
+    const { controlPlane, auth, provider } = stores()
+    const session = signIn(controlPlane, auth, provider)
+    const request =
+      '<samlp:LogoutRequest xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ' +
+      'xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_idp-logout" Version="2.0" ' +
+      `IssueInstant="${now.toISOString()}"><saml:Issuer>${idpEntityId}</saml:Issuer>` +
+      '<saml:NameID>S-1-5-21-42</saml:NameID><samlp:SessionIndex>_s7</samlp:SessionIndex></samlp:LogoutRequest>'
+    const query = idpRedirect(provider.sloUrl!, 'SAMLRequest', request, 'idp-state')
+    expect(() =>
+      completeSamlLogout(auth, {
+        providerSlug: 'acme-adfs',
+        query: query.replace('Signature=', 'Signature=AA'),
+        origin,
+        now,
+      }),
+    ).toThrow('signature is invalid')
+
+    const result = completeSamlLogout(auth, { providerSlug: 'acme-adfs', query, origin, now })
+    expect(result).toMatchObject({ kind: 'request', revoked: 1 })
+    expect(auth.getSession(session.id)?.state).toBe('revoked')
+    const answer = result.kind === 'request' ? redirectQuery(result.redirectUrl) : new URLSearchParams()
+    expect(answer.get('RelayState')).toBe('idp-state')
+    expect(inflate(answer.get('SAMLResponse')!)).toContain('InResponseTo="_idp-logout"')
+    controlPlane.close()
+  })
+
+  it('starts logout at the IdP and completes it from the IdP response', () => {
+    const { controlPlane, auth, provider } = stores()
+    const session = signIn(controlPlane, auth, provider)
+    const url = beginSamlLogout(auth, session.id, origin)!
+    const sent = redirectQuery(url)
+    const logoutRequest = inflate(sent.get('SAMLRequest')!)
+    expect(logoutRequest).toContain('<saml:NameID>S-1-5-21-42</saml:NameID>')
+    expect(logoutRequest).toContain('<samlp:SessionIndex>_s7</samlp:SessionIndex>')
+    const requestId = /ID="([^"]+)"/.exec(logoutRequest)![1]
+
+    const answer =
+      '<samlp:LogoutResponse xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ' +
+      `xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_idp-answer" Version="2.0" InResponseTo="${requestId}" ` +
+      `IssueInstant="${now.toISOString()}"><saml:Issuer>${idpEntityId}</saml:Issuer>` +
+      '<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>' +
+      '</samlp:LogoutResponse>'
+    const query = idpRedirect(provider.sloUrl!, 'SAMLResponse', answer, sent.get('RelayState')!)
+    expect(completeSamlLogout(auth, { providerSlug: 'acme-adfs', query, origin, now })).toEqual({
+      kind: 'response',
+      success: true,
+      returnPath: '/login',
+    })
+    expect(() => completeSamlLogout(auth, { providerSlug: 'acme-adfs', query, origin, now })).toThrow('consumed')
+    controlPlane.close()
+  })
+})
@@ -0,0 +1,629 @@
+import type { KeyObject } from 'node:crypto'
+import type { OidcFetch } from './oidc'
+import type { AuthenticationStore } from './store'
+import type { AuthOidcRole, AuthSamlIdpMetadata, AuthSamlProvider } from './types'
+import type { XmlElement } from './xmldsig'
+import { generateKeyPairSync, randomBytes, sign, verify, X509Certificate } from 'node:crypto'
+import { deflateRawSync, inflateRawSync } from 'node:zlib'
+import { sanitizeOidcReturnPath } from './oidc'
+import {
+  assertUniqueXmlIds,
+  hasXmlSignature,
+  parseXml,
+  verifyXmlSignature,
+  XMLDSIG_NAMESPACE,
+  xmlAttribute,
+  xmlChild,
+  xmlChildren,
+  xmlText,
+} from './xmldsig'
+
+export interface SamlServiceProvider {
+  entityId: string
+  acsUrl: string
+  sloUrl: string
+}
+
+export interface VerifiedSamlIdentity {
+  provider: AuthSamlProvider
+  nameId: string
+  nameIdFormat?: string
+  nameQualifier?: string
+  spNameQualifier?: string
+  sessionIndex?: string
+  email: string
+  name?: string
+  groups: string[]
+  attributes: Record<string, string[]>
+  /** The role from the first matching role mapping, or the provider's default role. */
+  role: AuthOidcRole
+  /** Whether a role mapping matched, so the role should follow the IdP on every sign-in. */
+  mapped: boolean
+}
+
+export type SamlLogoutResult =
+  | { kind: 'request'; revoked: number; redirectUrl: string }
+  | { kind: 'response'; success: boolean; returnPath: string }
+
+const PROTOCOL = 'urn:oasis:names:tc:SAML:2.0:protocol'
+const ASSERTION = 'urn:oasis:names:tc:SAML:2.0:assertion'
+const METADATA = 'urn:oasis:names:tc:SAML:2.0:metadata'
+const REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect'
+const POST_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST'
+const STATUS_SUCCESS = 'urn:oasis:names:tc:SAML:2.0:status:Success'
+const BEARER = 'urn:oasis:names:tc:SAML:2.0:cm:bearer'
+const EMAIL_NAME_ID = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress'
+const RSA_SHA256 = 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256'
+const CLOCK_SKEW_MS = 2 * 60 * 1000
+const MAX_MESSAGE_BYTES = 256 * 1024
+const MAX_METADATA_BYTES = 2 * 1024 * 1024
+
+const REDIRECT_SIGNATURES: Record<string, { hash: string; ecdsa: boolean }> = {
+  [RSA_SHA256]: { hash: 'sha256', ecdsa: false },
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha512': { hash: 'sha512', ecdsa: false },
+  'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256': { hash: 'sha256', ecdsa: true },
+}
+
+// The names ADFS, Okta and Shibboleth use out of the box.
+const DEFAULT_ATTRIBUTES = {
+  email: [
+    'email',
+    'mail',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+    'urn:oid:0.9.2342.19200300.100.1.3',
+  ],
+  name: [
+    'displayName',
+    'name',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+    'urn:oid:2.16.840.1.113730.3.1.241',
+  ],
+  groups: [
+    'groups',
+    'memberOf',
+    'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups',
+    'http://schemas.microsoft.com/ws/2008/06/identity/claims/role',
+    'urn:oid:1.3.6.1.4.1.5923.1.5.1.1',
+  ],
+}
+
+function samlUrl(value: string, label: string): URL {
+  const url = new URL(value)
+  const loopback = ['127.0.0.1', '::1', 'localhost'].includes(url.hostname)
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && loopback)) throw new Error(`${label} must use HTTPS`)
+  if (url.username || url.password || url.hash) throw new Error(`${label} contains unsupported URL components`)
+  return url
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+}
+
+function samlTime(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) return undefined
+  const time = Date.parse(value)
+  if (Number.isNaN(time)) throw new Error(`SAML ${label} is not a valid time`)
+  return time
+}
+
+function issuerOf(element: XmlElement): string | undefined {
+  const issuer = xmlChild(element, ASSERTION, 'Issuer')
+  return issuer ? xmlText(issuer).trim() : undefined
+}
+
+function idpKeys(provider: AuthSamlProvider): KeyObject[] {
+  // Pinned by configuration, so an expired IdP certificate still verifies; IdPs
+  // such as ADFS keep signing with self-signed certificates past their dates.
+  return provider.certificates.map((certificate) => new X509Certificate(Buffer.from(certificate, 'base64')).publicKey)
+}
+
+export function samlServiceProvider(slug: string, origin: string): SamlServiceProvider {
+  const base = `${samlUrl(origin, 'Application origin').origin}/auth/saml/${encodeURIComponent(slug)}`
+  return { entityId: `${base}/metadata`, acsUrl: `${base}/acs`, sloUrl: `${base}/slo` }
+}
+
+function entityDescriptors(element: XmlElement): XmlElement[] {
+  if (element.namespaceURI !== METADATA) return []
+  if (element.localName === 'EntityDescriptor') return [element]
+  if (element.localName === 'EntitiesDescriptor')
+    return element.children.flatMap((child) => (child.type === 'element' ? entityDescriptors(child) : []))
+  return []
+}
+
+/**
+ * Read an IdP's SAML metadata. An aggregate (EntitiesDescriptor) must
+ * describe exactly one IdP unless `entityId` picks one.
+ */
+export function parseSamlIdpMetadata(
+  xml: string,
+  options: { entityId?: string; now?: Date } = {},
+): AuthSamlIdpMetadata {
+  if (xml.length > MAX_METADATA_BYTES) throw new Error('SAML metadata is too large')
+  const root = parseXml(xml)
+  const now = (options.now ?? new Date()).getTime()
+  const entities = entityDescriptors(root).filter(
+    (entity) =>
+      xmlChildren(entity, METADATA, 'IDPSSODescriptor').length > 0 &&
+      (!options.entityId || xmlAttribute(entity, 'entityID') === options.entityId),
+  )
+  if (entities.length === 0) throw new Error('SAML metadata does not describe an identity provider')
+  if (entities.length > 1)
+    throw new Error('SAML metadata describes several identity providers; choose one by entity ID')
+  const entity = entities[0]!
+  for (const element of [root, entity]) {
+    const validUntil = samlTime(xmlAttribute(element, 'validUntil'), 'metadata validUntil')
+    if (validUntil !== undefined && validUntil <= now) throw new Error('SAML metadata has expired')
+  }
+  const entityId = xmlAttribute(entity, 'entityID')?.trim()
+  if (!entityId || entityId.length > 1024) throw new Error('SAML metadata entity ID is invalid')
+  const descriptor = xmlChildren(entity, METADATA, 'IDPSSODescriptor').find((candidate) =>
+    (xmlAttribute(candidate, 'protocolSupportEnumeration') ?? '').split(/\s+/).includes(PROTOCOL),
+  )
+  if (!descriptor) throw new Error('SAML identity provider does not support SAML 2.0')
+
+  const certificates = new Set<string>()
+  for (const key of xmlChildren(descriptor, METADATA, 'KeyDescriptor')) {
+    if ((xmlAttribute(key, 'use') ?? 'signing') !== 'signing') continue
+    for (const info of xmlChildren(key, XMLDSIG_NAMESPACE, 'KeyInfo'))
+      for (const data of xmlChildren(info, XMLDSIG_NAMESPACE, 'X509Data'))
+        for (const certificate of xmlChildren(data, XMLDSIG_NAMESPACE, 'X509Certificate')) {
+          const encoded = xmlText(certificate).replace(/\s+/g, '')
+          new X509Certificate(Buffer.from(encoded, 'base64'))
+          certificates.add(encoded)
+        }
+  }
+  if (certificates.size === 0) throw new Error('SAML metadata has no signing certificate')
+
+  const endpoint = (name: string) =>
+    xmlChildren(descriptor, METADATA, name).find((service) => xmlAttribute(service, 'Binding') === REDIRECT_BINDING)
+  const sso = endpoint('SingleSignOnService')
+  if (!sso) throw new Error('SAML metadata has no HTTP-Redirect single sign-on endpoint')
+  const slo = endpoint('SingleLogoutService')
+  const sloResponse = slo ? xmlAttribute(slo, 'ResponseLocation') : undefined
+  return {
+    entityId,
+    ssoUrl: samlUrl(xmlAttribute(sso, 'Location') ?? '', 'SAML single sign-on URL').href,
+    sloUrl: slo ? samlUrl(xmlAttribute(slo, 'Location') ?? '', 'SAML single logout URL').href : undefined,
+    sloResponseUrl: sloResponse ? samlUrl(sloResponse, 'SAML single logout response URL').href : undefined,
+    certificates: [...certificates],
+  }
+}
+
+export async function fetchSamlIdpMetadata(
+  url: string,
+  options: { entityId?: string; fetchFn?: OidcFetch } = {},
+): Promise<AuthSamlIdpMetadata> {
+  const response = await (options.fetchFn ?? fetch)(samlUrl(url, 'SAML metadata URL'), {
+    headers: { accept: 'application/samlmetadata+xml, application/xml, text/xml' },
+    redirect: 'error',
+    signal: AbortSignal.timeout(10_000),
+  })
+  if (!response.ok) throw new Error(`SAML metadata request failed with HTTP ${response.status}`)
+  if (Number(response.headers.get('content-length') ?? 0) > MAX_METADATA_BYTES)
+    throw new Error('SAML metadata is too large')
+  return parseSamlIdpMetadata(await response.text(), { entityId: options.entityId })
+}
+
+function der(tag: number, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content)
+  const length: number[] = []
+  for (let remaining = body.length; remaining > 0; remaining >>= 8) length.unshift(remaining & 0xff)
+  const header = body.length < 0x80 ? [body.length] : [0x80 | length.length, ...length]
+  return Buffer.concat([Buffer.from([tag, ...header]), body])
+}
+
+function objectIdentifier(value: string): Buffer {
+  const [first = 0, second = 0, ...rest] = value.split('.').map(Number)
+  const bytes = [first * 40 + second]
+  for (const part of rest) {
+    const encoded = [part & 0x7f]
+    for (let remaining = part >> 7; remaining > 0; remaining >>= 7) encoded.unshift((remaining & 0x7f) | 0x80)
+    bytes.push(...encoded)
+  }
+  return der(0x06, Buffer.from(bytes))
+}
+
+function certificateTime(date: Date): Buffer {
+  const generalized = `${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`
+  return date.getUTCFullYear() < 2050
+    ? der(0x17, Buffer.from(generalized.slice(2)))
+    : der(0x18, Buffer.from(generalized))
+}
+
+/**
+ * A key pair and self-signed certificate for signing our requests. IdPs only
+ * pin the certificate from our metadata, so nothing needs to issue it.
+ */
+export function createSamlServiceProviderKey(
+  commonName: string,
+  now: Date = new Date(),
+): { privateKey: string; certificate: string } {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+  const algorithm = der(0x30, objectIdentifier('1.2.840.113549.1.1.11'), Buffer.from([0x05, 0x00]))
+  const name = der(0x30, der(0x31, der(0x30, objectIdentifier('2.5.4.3'), der(0x0c, Buffer.from(commonName)))))
+  const serial = randomBytes(16)
+  serial[0] = (serial[0]! & 0x7f) | 0x40
+  const tbs = der(
+    0x30,
+    der(0xa0, der(0x02, Buffer.from([2]))),
+    der(0x02, serial),
+    algorithm,
+    name,
+    der(
+      0x30,
+      certificateTime(new Date(now.getTime() - 60 * 60 * 1000)),
+      certificateTime(new Date(now.getTime() + 10 * 365 * 24 * 60 * 60 * 1000)),
+    ),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+  )
+  const certificate = der(0x30, tbs, algorithm, der(0x03, Buffer.from([0]), sign('sha256', tbs, privateKey)))
+  const lines = certificate.toString('base64').match(/.{1,64}/g) ?? []
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    certificate: `-----BEGIN CERTIFICATE-----\n${lines.join('\n')}\n-----END CERTIFICATE-----\n`,
+  }
+}
+
+/** Our metadata, for the IdP administrator to import. */
+export function renderSamlServiceProviderMetadata(provider: AuthSamlProvider, origin: string): string {
+  const sp = samlServiceProvider(provider.slug, origin)
+  const certificate = provider.spCertificate.replace(/-----[A-Z ]+-----|\s+/g, '')
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<md:EntityDescriptor xmlns:md="${METADATA}" xmlns:ds="${XMLDSIG_NAMESPACE}" entityID="${escapeXml(sp.entityId)}">
+  <md:SPSSODescriptor AuthnRequestsSigned="true" WantAssertionsSigned="true" protocolSupportEnumeration="${PROTOCOL}">
+    <md:KeyDescriptor use="signing">
+      <ds:KeyInfo><ds:X509Data><ds:X509Certificate>${certificate}</ds:X509Certificate></ds:X509Data></ds:KeyInfo>
+    </md:KeyDescriptor>
+    <md:SingleLogoutService Binding="${REDIRECT_BINDING}" Location="${escapeXml(sp.sloUrl)}"/>
+    <md:NameIDFormat>${EMAIL_NAME_ID}</md:NameIDFormat>
+    <md:AssertionConsumerService index="0" isDefault="true"
+      Binding="${POST_BINDING}" Location="${escapeXml(sp.acsUrl)}"/>
+  </md:SPSSODescriptor>
+</md:EntityDescriptor>
+`
+}
+
+/** HTTP-Redirect binding: deflate, base64, and sign the query string rather than the XML. */
+function redirectUrl(
+  location: string,
+  parameter: 'SAMLRequest' | 'SAMLResponse',
+  xml: string,
+  relayState: string | undefined,
+  privateKey: string,
+): string {
+  const query = [`${parameter}=${encodeURIComponent(deflateRawSync(Buffer.from(xml)).toString('base64'))}`]
+  if (relayState) query.push(`RelayState=${encodeURIComponent(relayState)}`)
+  query.push(`SigAlg=${encodeURIComponent(RSA_SHA256)}`)
+  const signature = sign('sha256', Buffer.from(query.join('&')), privateKey).toString('base64')
+  const url = new URL(location)
+  return `${url.href}${url.search ? '&' : '?'}${query.join('&')}&Signature=${encodeURIComponent(signature)}`
+}
+
+/**
+ * Read a signed HTTP-Redirect message. The signature covers the parameters
+ * exactly as the IdP encoded them, so they are taken from the raw query.
+ */
+function readRedirectMessage(
+  query: string,
+  provider: AuthSamlProvider,
+): { parameter: 'SAMLRequest' | 'SAMLResponse'; message: XmlElement; relayState?: string } {
+  const raw = new Map<string, string>()
+  for (const pair of query.replace(/^\?/, '').split('&')) {
+    if (!pair) continue
+    const separator = pair.indexOf('=')
+    const key = decodeURIComponent(separator === -1 ? pair : pair.slice(0, separator))
+    if (raw.has(key)) throw new Error(`SAML message repeats ${key}`)
+    raw.set(key, separator === -1 ? '' : pair.slice(separator + 1))
+  }
+  const parameters = (['SAMLRequest', 'SAMLResponse'] as const).filter((name) => raw.has(name))
+  if (parameters.length !== 1) throw new Error('SAML message is missing')
+  const parameter = parameters[0]!
+  const signatureAlgorithm = raw.get('SigAlg')
+  const signature = raw.get('Signature')
+  if (!signatureAlgorithm || !signature) throw new Error('SAML logout messages must be signed')
+  const algorithm = REDIRECT_SIGNATURES[decodeURIComponent(signatureAlgorithm)]
+  if (!algorithm) throw new Error('SAML message signature algorithm is not supported')
+  const signed = Buffer.from(
+    [
+      `${parameter}=${raw.get(parameter)}`,
+      ...(raw.has('RelayState') ? [`RelayState=${raw.get('RelayState')}`] : []),
+      `SigAlg=${signatureAlgorithm}`,
+    ].join('&'),
+  )
+  const value = Buffer.from(decodeURIComponent(signature), 'base64')
+  const valid = idpKeys(provider).some((key) => {
+    try {
+      return algorithm.ecdsa
+        ? verify(algorithm.hash, signed, { key, dsaEncoding: 'ieee-p1363' }, value)
+        : verify(algorithm.hash, signed, key, value)
+    } catch {
+      return false
+    }
+  })
+  if (!valid) throw new Error('SAML message signature is invalid')
+  let xml: string
+  try {
+    xml = inflateRawSync(Buffer.from(decodeURIComponent(raw.get(parameter)!), 'base64'), {
+      maxOutputLength: MAX_MESSAGE_BYTES,
+    }).toString('utf8')
+  } catch {
+    throw new Error('SAML message could not be decoded')
+  }
+  const relayState = raw.has('RelayState') ? decodeURIComponent(raw.get('RelayState')!) : undefined
+  return { parameter, message: parseXml(xml), relayState }
+}
+
+export function beginSamlAuthentication(
+  auth: AuthenticationStore,
+  providerSlug: string,
+  origin: string,
+  returnPath?: string,
+): { redirectUrl: string; expiresAt: string } {
+  const provider = auth.getSamlProviderBySlug(providerSlug)
+  if (!provider?.enabled) throw new Error('SAML provider is unavailable')
+  const sp = samlServiceProvider(provider.slug, origin)
+  const { request, relayState } = auth.beginSamlRequest(provider.id, 'authn', sanitizeOidcReturnPath(returnPath))
+  const xml =
+    `<samlp:AuthnRequest xmlns:samlp="${PROTOCOL}" xmlns:saml="${ASSERTION}" ID="${request.id}" Version="2.0" ` +
+    `IssueInstant="${request.createdAt}" Destination="${escapeXml(provider.ssoUrl)}" ` +
+    `AssertionConsumerServiceURL="${escapeXml(sp.acsUrl)}" ProtocolBinding="${POST_BINDING}">` +
+    `<saml:Issuer>${escapeXml(sp.entityId)}</saml:Issuer><samlp:NameIDPolicy AllowCreate="true"/></samlp:AuthnRequest>`
+  const privateKey = auth.getSamlServiceProviderKey(provider.id)
+  return {
+    redirectUrl: redirectUrl(provider.ssoUrl, 'SAMLRequest', xml, relayState, privateKey),
+    expiresAt: request.expiresAt,
+  }
+}
+
+function readAttributes(assertion: XmlElement): Record<string, string[]> {
+  const attributes: Record<string, string[]> = {}
+  for (const statement of xmlChildren(assertion, ASSERTION, 'AttributeStatement'))
+    for (const attribute of xmlChildren(statement, ASSERTION, 'Attribute')) {
+      const name = xmlAttribute(attribute, 'Name')
+      if (!name) continue
+      const values = xmlChildren(attribute, ASSERTION, 'AttributeValue')
+        .map((value) => xmlText(value).trim())
+        .filter(Boolean)
+      attributes[name] = [...(attributes[name] ?? []), ...values]
+    }
+  return attributes
+}
+
+function attributeValues(
+  attributes: Record<string, string[]>,
+  configured: string | undefined,
+  defaults: readonly string[],
+): string[] {
+  if (configured) return attributes[configured] ?? []
+  return defaults.flatMap((name) => attributes[name] ?? [])
+}
+
+function verifyAssertion(
+  assertion: XmlElement,
+  provider: AuthSamlProvider,
+  sp: SamlServiceProvider,
+  now: number,
+): { requestId?: string; expiresAt: number; nameId: XmlElement; sessionIndex?: string } {
+  if (issuerOf(assertion) !== provider.entityId) throw new Error('SAML assertion issuer is invalid')
+  const subject = xmlChild(assertion, ASSERTION, 'Subject')
+  if (!subject) throw new Error('SAML assertion has no subject')
+  if (xmlChild(subject, ASSERTION, 'EncryptedID')) throw new Error('Encrypted SAML name IDs are not supported')
+  const nameId = xmlChild(subject, ASSERTION, 'NameID')
+  if (!nameId) throw new Error('SAML assertion has no name ID')
+
+  const confirmations = xmlChildren(subject, ASSERTION, 'SubjectConfirmation')
+    .filter((confirmation) => xmlAttribute(confirmation, 'Method') === BEARER)
+    .map((confirmation) => xmlChild(confirmation, ASSERTION, 'SubjectConfirmationData'))
+    .filter((data): data is XmlElement => !!data)
+    .filter((data) => {
+      const expiresAt = samlTime(xmlAttribute(data, 'NotOnOrAfter'), 'subject confirmation expiry')
+      return xmlAttribute(data, 'Recipient') === sp.acsUrl && expiresAt !== undefined && expiresAt > now - CLOCK_SKEW_MS
+    })
+  const confirmation = confirmations[0]
+  if (!confirmation) throw new Error('SAML assertion has no valid bearer confirmation for this service provider')
+
+  const conditions = xmlChild(assertion, ASSERTION, 'Conditions')
+  if (!conditions) throw new Error('SAML assertion has no conditions')
+  const notBefore = samlTime(xmlAttribute(conditions, 'NotBefore'), 'NotBefore')
+  const notOnOrAfter = samlTime(xmlAttribute(conditions, 'NotOnOrAfter'), 'NotOnOrAfter')
+  if (notBefore !== undefined && notBefore > now + CLOCK_SKEW_MS) throw new Error('SAML assertion is not valid yet')
+  if (notOnOrAfter !== undefined && notOnOrAfter <= now - CLOCK_SKEW_MS) throw new Error('SAML assertion has expired')
+  const restrictions = xmlChildren(conditions, ASSERTION, 'AudienceRestriction')
+  if (
+    restrictions.length === 0 ||
+    !restrictions.every((restriction) =>
+      xmlChildren(restriction, ASSERTION, 'Audience').some((audience) => xmlText(audience).trim() === sp.entityId),
+    )
+  )
+    throw new Error('SAML assertion audience is invalid')
+
+  const statement = xmlChildren(assertion, ASSERTION, 'AuthnStatement')[0]
+  if (!statement) throw new Error('SAML assertion has no authentication statement')
+  const sessionExpiry = samlTime(xmlAttribute(statement, 'SessionNotOnOrAfter'), 'SessionNotOnOrAfter')
+  if (sessionExpiry !== undefined && sessionExpiry <= now) throw new Error('SAML identity provider session has expired')
+
+  return {
+    requestId: xmlAttribute(confirmation, 'InResponseTo'),
+    expiresAt: samlTime(xmlAttribute(confirmation, 'NotOnOrAfter'), 'subject confirmation expiry')!,
+    nameId,
+    sessionIndex: xmlAttribute(statement, 'SessionIndex'),
+  }
+}
+
+/**
+ * Verify a Response posted to the assertion consumer service. Either the
+ * Response or its single Assertion must carry a signature from a configured
+ * IdP certificate, and only that verified tree is read.
+ */
+export function completeSamlAuthentication(
+  auth: AuthenticationStore,
+  input: { providerSlug: string; samlResponse: string; relayState?: string; origin: string; now?: Date },
+): { identity: VerifiedSamlIdentity; returnPath: string } {
+  const provider = auth.getSamlProviderBySlug(input.providerSlug)
+  if (!provider?.enabled) throw new Error('SAML provider is unavailable')
+  if (!input.samlResponse || input.samlResponse.length > (MAX_MESSAGE_BYTES * 4) / 3)
+    throw new Error('SAML response is missing or too large')
+  const sp = samlServiceProvider(provider.slug, input.origin)
+  const now = (input.now ?? new Date()).getTime()
+  const response = parseXml(Buffer.from(input.samlResponse, 'base64').toString('utf8'))
+  if (response.namespaceURI !== PROTOCOL || response.localName !== 'Response')
+    throw new Error('SAML message is not a response')
+  assertUniqueXmlIds(response)
+  const keys = idpKeys(provider)
+  const responseSigned = hasXmlSignature(response)
+  if (responseSigned) verifyXmlSignature(response, keys)
+
+  const issuer = issuerOf(response)
+  if (issuer !== undefined && issuer !== provider.entityId) throw new Error('SAML response issuer is invalid')
+  const destination = xmlAttribute(response, 'Destination')
+  if (destination !== undefined && destination !== sp.acsUrl) throw new Error('SAML response destination is invalid')
+  const status = xmlChild(response, PROTOCOL, 'Status')
+  const statusCode = status ? xmlAttribute(xmlChild(status, PROTOCOL, 'StatusCode') ?? status, 'Value') : undefined
+  if (statusCode !== STATUS_SUCCESS)
+    throw new Error(`SAML identity provider returned ${statusCode?.split(':').at(-1) ?? 'no status'}`)
+  if (xmlChildren(response, ASSERTION, 'EncryptedAssertion').length > 0)
+    throw new Error('Encrypted SAML assertions are not supported; turn off assertion encryption for this application')
+  const assertions = xmlChildren(response, ASSERTION, 'Assertion')
+  if (assertions.length !== 1) throw new Error('SAML response must contain exactly one assertion')
+  const assertion = assertions[0]!
+  if (hasXmlSignature(assertion)) verifyXmlSignature(assertion, keys)
+  else if (!responseSigned) throw new Error('SAML response is not signed')
+
+  const verified = verifyAssertion(assertion, provider, sp, now)
+  const responseRequestId = xmlAttribute(response, 'InResponseTo')
+  if (responseRequestId !== undefined && verified.requestId !== undefined && responseRequestId !== verified.requestId)
+    throw new Error('SAML response does not answer the request it names')
+  // An unsigned Response cannot vouch for InResponseTo; only the assertion's copy counts then
+  const requestId = verified.requestId ?? (responseSigned ? responseRequestId : undefined)
+  let returnPath: string
+  if (requestId) {
+    returnPath = auth.consumeSamlRequest(provider.id, 'authn', requestId, input.relayState ?? '').returnPath
+  } else {
+    if (!provider.allowIdpInitiated) throw new Error('IdP-initiated SAML sign-in is not enabled for this provider')
+    returnPath = sanitizeOidcReturnPath(input.relayState)
+  }
+  const assertionId = xmlAttribute(assertion, 'ID')
+  if (!assertionId) throw new Error('SAML assertion has no ID')
+  auth.recordSamlAssertion(provider.id, assertionId, new Date(verified.expiresAt + CLOCK_SKEW_MS).toISOString())
+
+  const nameId = xmlText(verified.nameId).trim()
+  if (!nameId || nameId.length > 512) throw new Error('SAML name ID is invalid')
+  const nameIdFormat = xmlAttribute(verified.nameId, 'Format')
+  const attributes = readAttributes(assertion)
+  const emails = attributeValues(attributes, provider.attributeMapping.email, DEFAULT_ATTRIBUTES.email)
+  const email = (emails[0] ?? (nameIdFormat === EMAIL_NAME_ID ? nameId : '')).trim().toLowerCase()
+  if (!email) throw new Error('SAML assertion did not include an email address')
+  if (email.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email))
+    throw new Error('SAML identity provider returned an invalid email address')
+  const domain = email.split('@')[1]
+  if (!domain || !provider.allowedDomains.includes(domain))
+    throw new Error('SAML email domain is not allowed for this organization')
+
+  const groups = attributeValues(attributes, provider.attributeMapping.groups, DEFAULT_ATTRIBUTES.groups)
+  const mapping = provider.roleMappings.find((candidate) =>
+    (candidate.attribute ? (attributes[candidate.attribute] ?? []) : groups).includes(candidate.value),
+  )
+  return {
+    identity: {
+      provider,
+      nameId,
+      nameIdFormat,
+      nameQualifier: xmlAttribute(verified.nameId, 'NameQualifier'),
+      spNameQualifier: xmlAttribute(verified.nameId, 'SPNameQualifier'),
+      sessionIndex: verified.sessionIndex,
+      email,
+      name: attributeValues(attributes, provider.attributeMapping.name, DEFAULT_ATTRIBUTES.name)[0]?.slice(0, 120),
+      groups,
+      attributes,
+      role: mapping?.role ?? provider.defaultRole,
+      mapped: !!mapping,
+    },
+    returnPath,
+  }
+}
+
+/**
+ * The IdP URL that ends the IdP session behind `sessionId`, or undefined when
+ * it was not a SAML session or the IdP has no single logout endpoint.
+ */
+export function beginSamlLogout(auth: AuthenticationStore, sessionId: string, origin: string): string | undefined {
+  const session = auth.getSamlSession(sessionId)
+  const provider = session ? auth.getSamlProvider(session.providerId) : undefined
+  if (!session || !provider?.enabled || !provider.sloUrl) return undefined
+  const sp = samlServiceProvider(provider.slug, origin)
+  const { request, relayState } = auth.beginSamlRequest(provider.id, 'logout', '/login')
+  const qualifiers = [
+    session.nameIdFormat ? ` Format="${escapeXml(session.nameIdFormat)}"` : '',
+    session.nameQualifier ? ` NameQualifier="${escapeXml(session.nameQualifier)}"` : '',
+    session.spNameQualifier ? ` SPNameQualifier="${escapeXml(session.spNameQualifier)}"` : '',
+  ].join('')
+  const xml =
+    `<samlp:LogoutRequest xmlns:samlp="${PROTOCOL}" xmlns:saml="${ASSERTION}" ID="${request.id}" Version="2.0" ` +
+    `IssueInstant="${request.createdAt}" Destination="${escapeXml(provider.sloUrl)}">` +
+    `<saml:Issuer>${escapeXml(sp.entityId)}</saml:Issuer>` +
+    `<saml:NameID${qualifiers}>${escapeXml(session.nameId)}</saml:NameID>` +
+    (session.sessionIndex ? `<samlp:SessionIndex>${escapeXml(session.sessionIndex)}</samlp:SessionIndex>` : '') +
+    '</samlp:LogoutRequest>'
+  return redirectUrl(provider.sloUrl, 'SAMLRequest', xml, relayState, auth.getSamlServiceProviderKey(provider.id))
+}
+
+/**
+ * Handle a message at the single logout endpoint: a LogoutRequest from the
+ * IdP ends the matching dashboard sessions and is answered; a LogoutResponse
+ * completes a logout we started.
+ */
+export function completeSamlLogout(
+  auth: AuthenticationStore,
+  input: { providerSlug: string; query: string; origin: string; now?: Date },
+): SamlLogoutResult {
+  const provider = auth.getSamlProviderBySlug(input.providerSlug)
+  if (!provider?.enabled) throw new Error('SAML provider is unavailable')
+  const sp = samlServiceProvider(provider.slug, input.origin)
+  const { parameter, message, relayState } = readRedirectMessage(input.query, provider)
+  assertUniqueXmlIds(message)
+  if (issuerOf(message) !== provider.entityId) throw new Error('SAML logout issuer is invalid')
+  const destination = xmlAttribute(message, 'Destination')
+  if (destination !== undefined && destination !== sp.sloUrl) throw new Error('SAML logout destination is invalid')
+
+  if (parameter === 'SAMLResponse') {
+    if (message.namespaceURI !== PROTOCOL || message.localName !== 'LogoutResponse')
+      throw new Error('SAML message is not a logout response')
+    const requestId = xmlAttribute(message, 'InResponseTo') ?? ''
+    const request = auth.consumeSamlRequest(provider.id, 'logout', requestId, relayState ?? '')
+    const status = xmlChild(message, PROTOCOL, 'Status')
+    const statusCode = status ? xmlAttribute(xmlChild(status, PROTOCOL, 'StatusCode') ?? status, 'Value') : undefined
+    return { kind: 'response', success: statusCode === STATUS_SUCCESS, returnPath: request.returnPath }
+  }
+
+  if (message.namespaceURI !== PROTOCOL || message.localName !== 'LogoutRequest')
+    throw new Error('SAML message is not a logout request')
+  const expiresAt = samlTime(xmlAttribute(message, 'NotOnOrAfter'), 'logout request expiry')
+  if (expiresAt !== undefined && expiresAt <= (input.now ?? new Date()).getTime() - CLOCK_SKEW_MS)
+    throw new Error('SAML logout request has expired')
+  const nameId = xmlChild(message, ASSERTION, 'NameID')
+  if (!nameId) throw new Error('SAML logout request has no name ID')
+  const revoked = auth.revokeSamlSessions(
+    provider.id,
+    xmlText(nameId).trim(),
+    xmlChildren(message, PROTOCOL, 'SessionIndex').map((index) => xmlText(index).trim()),
+  )
+  const location = provider.sloResponseUrl ?? provider.sloUrl
+  if (!location) return { kind: 'request', revoked, redirectUrl: '/login' }
+  const xml =
+    `<samlp:LogoutResponse xmlns:samlp="${PROTOCOL}" xmlns:saml="${ASSERTION}" ` +
+    `ID="_${randomBytes(20).toString('hex')}" Version="2.0" ` +
+    `IssueInstant="${(input.now ?? new Date()).toISOString()}" ` +
+    `Destination="${escapeXml(location)}" InResponseTo="${escapeXml(xmlAttribute(message, 'ID') ?? '')}">` +
+    `<saml:Issuer>${escapeXml(sp.entityId)}</saml:Issuer>` +
+    `<samlp:Status><samlp:StatusCode Value="${STATUS_SUCCESS}"/></samlp:Status></samlp:LogoutResponse>`
+  return {
+    kind: 'request',
+    revoked,
+    redirectUrl: redirectUrl(location, 'SAMLResponse', xml, relayState, auth.getSamlServiceProviderKey(provider.id)),
+  }
+}
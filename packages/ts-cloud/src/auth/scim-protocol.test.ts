@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  applyScimPatch,
+  matchesScimFilter,
+  parseScimFilter,
+  parseScimPath,
+  projectScimResource,
+  readScimPatch,
+  SCIM_ENTERPRISE_USER_SCHEMA,
+  SCIM_PATCH_OP_SCHEMA,
+  ScimError,
+} from './scim-protocol'
+
+const user = {
+  schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+  id: 'user-1',
+  userName: 'Chris@Acme.test',
+  name: { givenName: 'Chris', familyName: 'Lee' },
+  emails: [
+    { value: 'chris@acme.test', type: 'work', primary: true },
+    { value: 'chris@home.test', type: 'home' },
+  ],
+  active: true,
+  meta: { created: '2026-07-21T12:00:00.000Z', lastModified: '2026-07-22T08:30:00.000Z' },
+  [SCIM_ENTERPRISE_USER_SCHEMA]: { department: 'Platform' },
+}
+
+const matches = (filter: string) => matchesScimFilter(parseScimFilter(filter), user)
+
+describe('SCIM filters', () => {
+  it('compares attributes and strings case-insensitively', () => {
+    expect(matches('userName eq "chris@acme.test"')).toBe(true)
+    expect(matches('USERNAME Eq "CHRIS@ACME.TEST"')).toBe(true)
+    expect(matches('name.familyName sw "le"')).toBe(true)
+    expect(matches('userName ew "@example.test"')).toBe(false)
+    expect(matches('active eq true and not (userName co "bob")')).toBe(true)
+    expect(matches('active eq false or name.givenName ne "Chris"')).toBe(false)
+  })
+
+  it('matches multi-valued attributes by any value, and value filters by element', () => {
+    expect(matches('emails co "home.test"')).toBe(true)
+    expect(matches('emails[type eq "work" and value ew "acme.test"]')).toBe(true)
+    expect(matches('emails[type eq "home" and primary eq true]')).toBe(false)
+    expect(matches('emails.type eq "home"')).toBe(true)
+  })
+
+  it('orders timestamps by instant and checks presence', () => {
+    expect(matches('meta.lastModified gt "2026-07-22T10:00:00+02:00"')).toBe(true)
+    expect(matches('meta.created ge "2026-07-21T12:00:00Z"')).toBe(true)
+    expect(matches('meta.created lt "2026-07-21T11:59:59Z"')).toBe(false)
+    expect(matches('displayName pr')).toBe(false)
+    expect(matches('name pr')).toBe(true)
+  })
+
+  it('reads schema-qualified attributes', () => {
+    expect(matches('urn:ietf:params:scim:schemas:core:2.0:User:userName eq "chris@acme.test"')).toBe(true)
+    expect(matches(`${SCIM_ENTERPRISE_USER_SCHEMA}:department eq "platform"`)).toBe(true)
+  })
+
+  it('rejects malformed filters as invalidFilter', () => {
+    for (const filter of ['userName eq', 'userName like "x"', '(userName pr', 'userName eq "x" trailing', 'eq "x"']) {
+      const error = (() => {
+        try {
+          parseScimFilter(filter)
+        } catch (caught) {
+          return caught
+        }
+      })()
+      expect(error).toBeInstanceOf(ScimError)
+      expect(error).toMatchObject({ status: 400, scimType: 'invalidFilter' })
+    }
+    expect(() => parseScimFilter('urn:example:unknown:attr eq "x"')).toThrow('Unknown schema')
+  })
+})
+
+describe('SCIM PATCH', () => {
+  it('parses paths with filters and sub-attributes', () => {
+    expect(parseScimPath('emails[type eq "work"].value')).toMatchObject({
+      attribute: 'emails',
+      subAttribute: 'value',
+      filter: { op: 'eq', path: { attribute: 'type' }, value: 'work' },
+    })
+    expect(parseScimPath(`${SCIM_ENTERPRISE_USER_SCHEMA}:manager.value`)).toEqual({
+      schema: SCIM_ENTERPRISE_USER_SCHEMA,
+      attribute: 'manager',
+      subAttribute: 'value',
+    })
+    expect(() => parseScimPath('emails[type eq "work"]junk')).toThrow('not a valid attribute path')
+  })
+
+  it('validates the PatchOp envelope', () => {
+    expect(readScimPatch({ schemas: [SCIM_PATCH_OP_SCHEMA], Operations: [{ op: 'Replace', value: {} }] })).toEqual([
+      { op: 'replace', path: undefined, value: {} },
+    ])
+    expect(() => readScimPatch({ Operations: [] })).toThrow('PatchOp')
+    expect(() => readScimPatch({ schemas: [SCIM_PATCH_OP_SCHEMA], Operations: [{ op: 'move' }] })).toThrow(
+      'Unknown PATCH operation move',
+    )
+  })
+
+  it('applies Entra ID style operations', () => {
+    const patched = applyScimPatch(user, [
+      { op: 'replace', path: 'active', value: 'False' },
+      { op: 'replace', path: 'emails[type eq "work"].value', value: 'chris.lee@acme.test' },
+      { op: 'add', path: 'emails[type eq "other"].value', value: 'c@other.test' },
+      { op: 'replace', value: { 'name.givenName': 'Christopher', displayName: 'Christopher Lee' } },
+      { op: 'remove', path: 'emails[type eq "home"]' },
+    ])
+    expect(patched).toMatchObject({
+      active: 'False',
+      displayName: 'Christopher Lee',
+      name: { givenName: 'Christopher', familyName: 'Lee' },
+      emails: [
+        { value: 'chris.lee@acme.test', type: 'work', primary: true },
+        { type: 'other', value: 'c@other.test' },
+      ],
+    })
+    expect(user.emails[0]!.value).toBe('chris@acme.test')
+  })
+
+  it('adds and removes values of multi-valued attributes', () => {
+    const group = { displayName: 'Ops', members: [{ value: 'a' }, { value: 'b' }] }
+    expect(
+      applyScimPatch(group, [
+        { op: 'add', path: 'members', value: [{ value: 'b' }, { value: 'c' }] },
+        { op: 'remove', path: 'members', value: [{ value: 'a' }] },
+        { op: 'remove', path: 'members[value eq "missing"]' },
+      ]).members,
+    ).toEqual([{ value: 'b' }, { value: 'c' }])
+    expect(applyScimPatch(group, [{ op: 'replace', path: 'members', value: [] }]).members).toEqual([])
+    expect(
+      applyScimPatch(group, [{ op: 'add', value: { [SCIM_ENTERPRISE_USER_SCHEMA]: { department: 'Ops' } } }]),
+    ).toMatchObject({ [SCIM_ENTERPRISE_USER_SCHEMA]: { department: 'Ops' } })
+  })
+
+  it('refuses operations without a target', () => {
+    expect(() => applyScimPatch(user, [{ op: 'remove' }])).toThrow('require a path')
+    expect(() => applyScimPatch(user, [{ op: 'replace', path: 'emails[type co "x"].value', value: 'y' }])).toThrow(
+      'No values match',
+    )
+  })
+})
+
+describe('SCIM attribute projection', () => {
+  it('keeps the attributes asked for, and always id, schemas and meta', () => {
+    expect(Object.keys(projectScimResource(user, { attributes: 'userName,name.givenName' }))).toEqual([
+      'schemas',
+      'id',
+      'userName',
+      'name',
+      'meta',
+    ])
+    expect(projectScimResource(user, { excludedAttributes: 'emails,id' })).not.toHaveProperty('emails')
+    expect(projectScimResource(user, { excludedAttributes: 'emails,id' })).toHaveProperty('id')
+  })
+})
@@ -0,0 +1,500 @@
+/**
+ * The parts of SCIM 2.0 (RFC 7643 and RFC 7644) that do not depend on storage:
+ * schema URNs, errors, filters, attribute paths and PATCH operations. Filters
+ * and patches work on resources in their JSON form. Attribute names are
+ * case-insensitive, and so are string comparisons, because none of the
+ * attributes we serve is caseExact.
+ */
+
+export const SCIM_USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User'
+export const SCIM_GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group'
+export const SCIM_ENTERPRISE_USER_SCHEMA = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User'
+export const SCIM_LIST_RESPONSE_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse'
+export const SCIM_PATCH_OP_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:PatchOp'
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error'
+
+const SCHEMAS = [SCIM_USER_SCHEMA, SCIM_GROUP_SCHEMA, SCIM_ENTERPRISE_USER_SCHEMA]
+const MAX_FILTER_LENGTH = 2048
+const MAX_PATCH_OPERATIONS = 1000
+
+export type ScimErrorType =
+  | 'invalidFilter'
+  | 'tooMany'
+  | 'uniqueness'
+  | 'mutability'
+  | 'invalidSyntax'
+  | 'invalidPath'
+  | 'noTarget'
+  | 'invalidValue'
+
+export class ScimError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly scimType?: ScimErrorType,
+  ) {
+    super(message)
+  }
+}
+
+export interface ScimAttributePath {
+  /** The extension schema the attribute belongs to. Core attributes have none. */
+  schema?: string
+  attribute: string
+  subAttribute?: string
+}
+
+/** A PATCH target: an attribute, optionally narrowed to the values a filter selects. */
+export interface ScimPatchPath extends ScimAttributePath {
+  filter?: ScimFilter
+}
+
+export type ScimCompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le'
+export type ScimFilterValue = string | number | boolean | null
+
+export type ScimFilter =
+  | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { op: 'not'; filter: ScimFilter }
+  | { op: 'pr'; path: ScimAttributePath }
+  | { op: ScimCompareOperator; path: ScimAttributePath; value: ScimFilterValue }
+  /** `emails[type eq "work"]`: some value of a multi-valued attribute matches the inner filter. */
+  | { op: 'value'; path: ScimAttributePath; filter: ScimFilter }
+
+export interface ScimPatchOperation {
+  op: 'add' | 'replace' | 'remove'
+  path?: string
+  value?: unknown
+}
+
+const COMPARE_OPERATORS = new Set<string>(['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le'])
+const ALWAYS_RETURNED = new Set(['id', 'schemas', 'meta'])
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/** The key an object actually uses for a case-insensitive attribute name. */
+function keyOf(object: JsonObject, name: string): string | undefined {
+  const lower = name.toLowerCase()
+  return Object.keys(object).find((key) => key.toLowerCase() === lower)
+}
+
+/** Read an attribute by its case-insensitive name. */
+export function scimAttribute(object: unknown, name: string): unknown {
+  if (!isObject(object)) return undefined
+  const key = keyOf(object, name)
+  return key === undefined ? undefined : object[key]
+}
+
+/** Strip a schema URN prefix, returning the extension schema it named, if any. */
+function splitSchema(text: string, kind: 'invalidFilter' | 'invalidPath'): { schema?: string; rest: string } {
+  if (!/^urn:/i.test(text)) return { rest: text }
+  const lower = text.toLowerCase()
+  const schema = SCHEMAS.find((candidate) => lower === candidate.toLowerCase())
+  if (schema) return { schema: schema === SCIM_ENTERPRISE_USER_SCHEMA ? schema : undefined, rest: '' }
+  const prefixed = SCHEMAS.find((candidate) => lower.startsWith(`${candidate.toLowerCase()}:`))
+  if (!prefixed) throw new ScimError(`Unknown schema in ${text}.`, 400, kind)
+  return {
+    schema: prefixed === SCIM_ENTERPRISE_USER_SCHEMA ? prefixed : undefined,
+    rest: text.slice(prefixed.length + 1),
+  }
+}
+
+function parseAttributePath(text: string, kind: 'invalidFilter' | 'invalidPath'): ScimAttributePath {
+  const { schema, rest } = splitSchema(text, kind)
+  // A bare extension URN addresses the extension object itself.
+  if (!rest && schema) return { attribute: schema }
+  const match = /^([A-Za-z$][\w$-]*)(?:\.([A-Za-z$][\w$-]*))?$/.exec(rest)
+  if (!match) throw new ScimError(`${text} is not a valid attribute path.`, 400, kind)
+  return { schema, attribute: match[1]!, subAttribute: match[2] }
+}
+
+type Token = { kind: 'word' | 'string' | '(' | ')' | '[' | ']'; text: string }
+
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+  while (index < filter.length) {
+    const char = filter[index]!
+    if (/\s/.test(char)) {
+      index += 1
+    } else if ('()[]'.includes(char)) {
+      tokens.push({ kind: char as Token['kind'], text: char })
+      index += 1
+    } else if (char === '"') {
+      let end = index + 1
+      while (end < filter.length && filter[end] !== '"') end += filter[end] === '\\' ? 2 : 1
+      if (end >= filter.length) throw new ScimError('Filter has an unterminated string.', 400, 'invalidFilter')
+      let text: string
+      try {
+        text = JSON.parse(filter.slice(index, end + 1)) as string
+      } catch {
+        throw new ScimError('Filter has an invalid string.', 400, 'invalidFilter')
+      }
+      tokens.push({ kind: 'string', text })
+      index = end + 1
+    } else {
+      let end = index
+      while (end < filter.length && !/[\s()[\]"]/.test(filter[end]!)) end += 1
+      tokens.push({ kind: 'word', text: filter.slice(index, end) })
+      index = end
+    }
+  }
+  return tokens
+}
+
+/** Parse a `filter` query parameter or the filter inside a PATCH path. */
+export function parseScimFilter(filter: string): ScimFilter {
+  if (filter.length > MAX_FILTER_LENGTH)
+    throw new ScimError(`Filters are limited to ${MAX_FILTER_LENGTH} characters.`, 400, 'invalidFilter')
+  const tokens = tokenize(filter)
+  let position = 0
+  const peek = () => tokens[position]
+  const keyword = (word: string) => peek()?.kind === 'word' && peek()!.text.toLowerCase() === word
+  const expect = (kind: Token['kind']) => {
+    if (peek()?.kind !== kind) throw new ScimError(`Filter is missing "${kind}".`, 400, 'invalidFilter')
+    position += 1
+  }
+
+  const parseOr = (): ScimFilter => {
+    let left = parseAnd()
+    while (keyword('or')) {
+      position += 1
+      left = { op: 'or', left, right: parseAnd() }
+    }
+    return left
+  }
+  const parseAnd = (): ScimFilter => {
+    let left = parseUnary()
+    while (keyword('and')) {
+      position += 1
+      left = { op: 'and', left, right: parseUnary() }
+    }
+    return left
+  }
+  const parseUnary = (): ScimFilter => {
+    if (keyword('not') && tokens[position + 1]?.kind === '(') {
+      position += 2
+      const filter = parseOr()
+      expect(')')
+      return { op: 'not', filter }
+    }
+    if (peek()?.kind === '(') {
+      position += 1
+      const filter = parseOr()
+      expect(')')
+      return filter
+    }
+    return parseExpression()
+  }
+  const parseExpression = (): ScimFilter => {
+    const token = peek()
+    if (token?.kind !== 'word') throw new ScimError('Filter expects an attribute.', 400, 'invalidFilter')
+    position += 1
+    const path = parseAttributePath(token.text, 'invalidFilter')
+    if (peek()?.kind === '[') {
+      position += 1
+      const filter = parseOr()
+      expect(']')
+      return { op: 'value', path, filter }
+    }
+    const operator = peek()
+    const op = operator?.kind === 'word' ? operator.text.toLowerCase() : ''
+    position += 1
+    if (op === 'pr') return { op: 'pr', path }
+    if (!COMPARE_OPERATORS.has(op))
+      throw new ScimError(`Filter has an unknown operator after ${token.text}.`, 400, 'invalidFilter')
+    const literal = peek()
+    position += 1
+    let value: ScimFilterValue
+    if (literal?.kind === 'string') value = literal.text
+    else if (literal?.kind === 'word' && ['true', 'false', 'null'].includes(literal.text.toLowerCase()))
+      value = JSON.parse(literal.text.toLowerCase()) as boolean | null
+    else if (literal?.kind === 'word' && /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(literal.text))
+      value = Number(literal.text)
+    else throw new ScimError(`Filter has an invalid value after ${token.text} ${op}.`, 400, 'invalidFilter')
+    return { op: op as ScimCompareOperator, path, value }
+  }
+
+  const parsed = parseOr()
+  if (position !== tokens.length) throw new ScimError('Filter has unexpected trailing text.', 400, 'invalidFilter')
+  return parsed
+}
+
+/** Parse a PATCH `path`: `attr`, `attr.sub`, `attr[filter]` or `attr[filter].sub`, optionally schema-qualified. */
+export function parseScimPath(path: string): ScimPatchPath {
+  const text = path.trim()
+  const open = text.indexOf('[')
+  if (open < 0) return parseAttributePath(text, 'invalidPath')
+  const close = text.lastIndexOf(']')
+  if (close < open) throw new ScimError(`${text} is not a valid attribute path.`, 400, 'invalidPath')
+  const attribute = parseAttributePath(text.slice(0, open), 'invalidPath')
+  const rest = text.slice(close + 1)
+  if (attribute.subAttribute || (rest && !/^\.[A-Za-z$][\w$-]*$/.test(rest)))
+    throw new ScimError(`${text} is not a valid attribute path.`, 400, 'invalidPath')
+  let filter: ScimFilter
+  try {
+    filter = parseScimFilter(text.slice(open + 1, close))
+  } catch (error) {
+    if (error instanceof ScimError) throw new ScimError(error.message, 400, 'invalidPath')
+    throw error
+  }
+  return { ...attribute, subAttribute: rest ? rest.slice(1) : undefined, filter }
+}
+
+/** The raw values at a path: one entry per value of a multi-valued attribute. */
+function itemsAt(resource: JsonObject, path: ScimAttributePath): unknown[] {
+  const value = scimAttribute(path.schema ? scimAttribute(resource, path.schema) : resource, path.attribute)
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function valuesAt(resource: JsonObject, path: ScimAttributePath): unknown[] {
+  return itemsAt(resource, path)
+    .map((item) => {
+      if (path.subAttribute) return scimAttribute(item, path.subAttribute)
+      // A multi-valued complex attribute compares by its `value`.
+      return isObject(item) ? scimAttribute(item, 'value') : item
+    })
+    .flatMap((value) => (Array.isArray(value) ? value : [value]))
+    .filter((value) => value !== undefined)
+}
+
+function present(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return false
+  if (Array.isArray(value)) return value.length > 0
+  if (isObject(value)) return Object.keys(value).length > 0
+  return true
+}
+
+function compare(op: ScimCompareOperator, actual: unknown, expected: ScimFilterValue): boolean {
+  if (expected === null) return op === 'eq' ? actual === null : op === 'ne' ? actual !== null : false
+  if (typeof expected === 'boolean') {
+    const value = typeof actual === 'string' ? actual.toLowerCase() === 'true' : actual
+    if (op === 'eq') return value === expected
+    if (op === 'ne') return value !== expected
+    throw new ScimError(`The ${op} operator does not apply to booleans.`, 400, 'invalidFilter')
+  }
+  if (typeof expected === 'number') {
+    if (typeof actual !== 'number') return op === 'ne'
+    const result = { eq: actual === expected, ne: actual !== expected, gt: actual > expected, ge: actual >= expected }
+    if (op in result) return result[op as keyof typeof result]
+    if (op === 'lt') return actual < expected
+    if (op === 'le') return actual <= expected
+    throw new ScimError(`The ${op} operator does not apply to numbers.`, 400, 'invalidFilter')
+  }
+  if (typeof actual !== 'string') return op === 'ne'
+  const left = actual.toLowerCase()
+  const right = expected.toLowerCase()
+  switch (op) {
+    case 'eq':
+      return left === right
+    case 'ne':
+      return left !== right
+    case 'co':
+      return left.includes(right)
+    case 'sw':
+      return left.startsWith(right)
+    case 'ew':
+      return left.endsWith(right)
+  }
+  // Timestamps order by instant; other strings lexically.
+  const leftTime = /^\d{4}-\d\d-\d\dT/.test(actual) ? Date.parse(actual) : Number.NaN
+  const rightTime = /^\d{4}-\d\d-\d\dT/.test(expected) ? Date.parse(expected) : Number.NaN
+  const order =
+    Number.isFinite(leftTime) && Number.isFinite(rightTime)
+      ? leftTime - rightTime
+      : left < right
+        ? -1
+        : left > right
+          ? 1
+          : 0
+  return op === 'gt' ? order > 0 : op === 'ge' ? order >= 0 : op === 'lt' ? order < 0 : order <= 0
+}
+
+export function matchesScimFilter(filter: ScimFilter, resource: JsonObject): boolean {
+  switch (filter.op) {
+    case 'and':
+      return matchesScimFilter(filter.left, resource) && matchesScimFilter(filter.right, resource)
+    case 'or':
+      return matchesScimFilter(filter.left, resource) || matchesScimFilter(filter.right, resource)
+    case 'not':
+      return !matchesScimFilter(filter.filter, resource)
+    case 'pr':
+      return (filter.path.subAttribute ? valuesAt : itemsAt)(resource, filter.path).some(present)
+    case 'value':
+      return itemsAt(resource, filter.path).some((item) => isObject(item) && matchesScimFilter(filter.filter, item))
+    default:
+      return valuesAt(resource, filter.path).some((value) => compare(filter.op, value, filter.value))
+  }
+}
+
+/** Validate a PatchOp request body. */
+export function readScimPatch(body: unknown): ScimPatchOperation[] {
+  const schemas = scimAttribute(body, 'schemas')
+  if (!Array.isArray(schemas) || !schemas.includes(SCIM_PATCH_OP_SCHEMA))
+    throw new ScimError(`PATCH requests must use the ${SCIM_PATCH_OP_SCHEMA} schema.`, 400, 'invalidSyntax')
+  const operations = scimAttribute(body, 'Operations')
+  if (!Array.isArray(operations) || operations.length === 0)
+    throw new ScimError('PATCH requests must include Operations.', 400, 'invalidSyntax')
+  if (operations.length > MAX_PATCH_OPERATIONS)
+    throw new ScimError(`PATCH requests are limited to ${MAX_PATCH_OPERATIONS} operations.`, 400, 'tooMany')
+  return operations.map((operation) => {
+    const op = String(scimAttribute(operation, 'op') ?? '').toLowerCase()
+    if (op !== 'add' && op !== 'replace' && op !== 'remove')
+      throw new ScimError(`Unknown PATCH operation ${op || '(none)'}.`, 400, 'invalidSyntax')
+    const path = scimAttribute(operation, 'path')
+    if (path !== undefined && typeof path !== 'string')
+      throw new ScimError('PATCH paths must be strings.', 400, 'invalidPath')
+    return { op, path: path || undefined, value: scimAttribute(operation, 'value') }
+  })
+}
+
+/** What identifies a value of a multi-valued attribute when adding or removing it. */
+function identity(value: unknown): string {
+  const primary = isObject(value) ? scimAttribute(value, 'value') : value
+  return (primary === undefined ? JSON.stringify(value) : String(primary)).toLowerCase()
+}
+
+function merge(target: JsonObject, value: JsonObject): void {
+  for (const [name, item] of Object.entries(value)) target[keyOf(target, name) ?? name] = item
+}
+
+function applyOperation(resource: JsonObject, op: ScimPatchOperation['op'], path: ScimPatchPath, value: unknown): void {
+  let container = resource
+  if (path.schema) {
+    const key = keyOf(resource, path.schema) ?? path.schema
+    if (!isObject(resource[key])) {
+      if (op === 'remove') return
+      resource[key] = {}
+    }
+    container = resource[key] as JsonObject
+  }
+  const key = keyOf(container, path.attribute) ?? path.attribute
+  const current = container[key]
+
+  if (path.filter) {
+    const filter = path.filter
+    const items = Array.isArray(current) ? current : []
+    let selected = items.filter((item) => isObject(item) && matchesScimFilter(filter, item))
+    if (op === 'remove') {
+      if (path.subAttribute)
+        for (const item of selected as JsonObject[]) delete item[keyOf(item, path.subAttribute) ?? path.subAttribute]
+      else container[key] = items.filter((item) => !selected.includes(item))
+      return
+    }
+    if (selected.length === 0) {
+      // `emails[type eq "work"].value` on a user without a work email adds one,
+      // which is what Entra ID and Okta expect.
+      if (!COMPARE_OPERATORS.has(filter.op) || filter.op !== 'eq' || filter.path.subAttribute)
+        throw new ScimError(`No values match ${path.attribute}[…].`, 400, 'noTarget')
+      const created: JsonObject = { [filter.path.attribute]: (filter as { value: ScimFilterValue }).value }
+      container[key] = [...items, created]
+      selected = [created]
+    }
+    for (const item of selected as JsonObject[]) {
+      if (path.subAttribute) item[keyOf(item, path.subAttribute) ?? path.subAttribute] = value
+      else if (isObject(value)) {
+        if (op === 'replace') for (const name of Object.keys(item)) delete item[name]
+        merge(item, value)
+      } else throw new ScimError(`${path.attribute}[…] takes an object.`, 400, 'invalidValue')
+    }
+    return
+  }
+
+  if (path.subAttribute) {
+    if (op === 'remove') {
+      for (const item of Array.isArray(current) ? current : [current])
+        if (isObject(item)) delete item[keyOf(item, path.subAttribute) ?? path.subAttribute]
+      return
+    }
+    if (!isObject(current)) container[key] = {}
+    const parent = container[key] as JsonObject
+    parent[keyOf(parent, path.subAttribute) ?? path.subAttribute] = value
+    return
+  }
+
+  if (op === 'remove') {
+    // Entra ID removes group members by value rather than by filter.
+    if (Array.isArray(current) && Array.isArray(value)) {
+      const removed = new Set(value.map(identity))
+      container[key] = current.filter((item) => !removed.has(identity(item)))
+    } else delete container[key]
+    return
+  }
+  if (op === 'add' && Array.isArray(current)) {
+    const seen = new Set(current.map(identity))
+    const added = (Array.isArray(value) ? value : [value]).filter((item) => !seen.has(identity(item)))
+    container[key] = [...current, ...added]
+    return
+  }
+  if (isObject(current) && isObject(value)) {
+    merge(current, value)
+    return
+  }
+  container[key] = value
+}
+
+/**
+ * Apply PATCH operations to a resource's JSON form and return the result.
+ * Operations without a path take an object of attributes, whose names may
+ * themselves be paths (Entra ID sends `{ "name.givenName": … }`).
+ */
+export function applyScimPatch(resource: JsonObject, operations: ScimPatchOperation[]): JsonObject {
+  const patched = structuredClone(resource)
+  for (const operation of operations) {
+    if (operation.path) {
+      applyOperation(patched, operation.op, parseScimPath(operation.path), operation.value)
+      continue
+    }
+    if (operation.op === 'remove') throw new ScimError('Remove operations require a path.', 400, 'noTarget')
+    if (!isObject(operation.value))
+      throw new ScimError('Operations without a path take an object of attributes.', 400, 'invalidValue')
+    for (const [name, value] of Object.entries(operation.value)) {
+      const path = parseScimPath(name)
+      // A whole extension object merges into the one already there.
+      if (!path.subAttribute && SCHEMAS.includes(path.attribute) && isObject(value)) {
+        for (const [inner, innerValue] of Object.entries(value))
+          applyOperation(patched, operation.op, { schema: path.attribute, attribute: inner }, innerValue)
+        continue
+      }
+      applyOperation(patched, operation.op, path, value)
+    }
+  }
+  return patched
+}
+
+/** Apply the `attributes` and `excludedAttributes` query parameters to a resource. */
+export function projectScimResource(
+  resource: JsonObject,
+  options: { attributes?: string | null; excludedAttributes?: string | null },
+): JsonObject {
+  const names = (value: string) =>
+    new Set(
+      value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .map((item) => {
+          const path = parseAttributePath(item, 'invalidPath')
+          return (path.schema ?? path.attribute).toLowerCase()
+        }),
+    )
+  if (options.attributes) {
+    const included = names(options.attributes)
+    return Object.fromEntries(
+      Object.entries(resource).filter(
+        ([key]) => ALWAYS_RETURNED.has(key) || included.has(key.toLowerCase()),
+      ),
+    )
+  }
+  if (options.excludedAttributes) {
+    const excluded = names(options.excludedAttributes)
+    return Object.fromEntries(
+      Object.entries(resource).filter(([key]) => ALWAYS_RETURNED.has(key) || !excluded.has(key.toLowerCase())),
+    )
+  }
+  return resource
+}
@@ -0,0 +1,269 @@
+import { describe, expect, it } from 'bun:test'
+import { ControlPlaneStore } from '../control-plane'
+import { readScimGroup, readScimUser, ScimProvisioningStore, scimUserResource } from './scim'
+import { applyScimPatch, ScimError } from './scim-protocol'
+import { AuthenticationStore } from './store'
+
+function fixture() {
+  const now = () => new Date('2026-07-21T12:00:00.000Z')
+  const controlPlane = new ControlPlaneStore({ path: ':memory:', now })
+  const authentication = new AuthenticationStore(controlPlane, { now, encryptionKey: 'scim-test-key' })
+  const organization = controlPlane.createOrganization({ slug: 'acme', name: 'Acme' })
+  const project = controlPlane.createProject({ organizationId: organization.id, slug: 'web', name: 'Web' })
+  const scim = new ScimProvisioningStore(controlPlane, authentication, {
+    now,
+    provisionIdentity: ({ email, name }) => {
+      const actor = controlPlane.createActor({
+        kind: 'user',
+        externalId: `dashboard:${email}`,
+        displayName: name ?? email,
+      })
+      return authentication.createIdentity({
+        actorId: actor.id,
+        username: email.split('@')[0]!,
+        email,
+        emailVerified: true,
+        passwordHash: 'scrypt$unused',
+      })
+    },
+  })
+  const membershipOf = (identityId: string) =>
+    controlPlane.getMembershipForActor(organization.id, authentication.getIdentity(identityId)!.actorId)!
+  return { controlPlane, authentication, organization, project, scim, membershipOf }
+}
+
+const chris = readScimUser({
+  userName: 'chris@acme.test',
+  name: { givenName: 'Chris', familyName: 'Lee' },
+  emails: [{ value: 'Chris@Acme.test', type: 'work', primary: 'True' }],
+})
+
+function scimError(callback: () => unknown): ScimError | undefined {
+  try {
+    callback()
+  } catch (error) {
+    if (error instanceof ScimError) return error
+    throw error
+  }
+}
+
+describe('SCIM user resources', () => {
+  it('reads the primary email, role and Entra ID string booleans', () => {
+    expect(chris).toEqual({
+      userName: 'chris@acme.test',
+      externalId: undefined,
+      displayName: undefined,
+      givenName: 'Chris',
+      familyName: 'Lee',
+      email: 'chris@acme.test',
+      active: true,
+      role: undefined,
+    })
+    expect(readScimUser({ userName: 'ops@acme.test', active: 'False', roles: [{ value: 'Deployer' }] })).toMatchObject({
+      email: 'ops@acme.test',
+      active: false,
+      role: 'deployer',
+    })
+    expect(scimError(() => readScimUser({ userName: 'no-email' }))).toMatchObject({ scimType: 'invalidValue' })
+    expect(scimError(() => readScimUser({ userName: 'x@acme.test', roles: ['superuser'] }))?.message).toContain(
+      'superuser',
+    )
+    expect(scimError(() => readScimGroup({ displayName: 'Ops', members: [{}] }))?.message).toContain('value')
+  })
+})
+
+describe('ScimProvisioningStore users', () => {
+  it('provisions a viewer membership and deprovisions it in this organization only', () => {
+    const { controlPlane, authentication, organization, scim, membershipOf } = fixture()
+    const user = scim.createUser(organization.id, chris)
+    expect(user).toMatchObject({ userName: 'chris@acme.test', email: 'chris@acme.test', active: true, role: 'viewer' })
+    const membership = membershipOf(user.identityId)
+    expect(membership).toMatchObject({ roleTemplate: 'viewer', source: 'scim', status: 'active' })
+
+    const session = authentication.createSession({ identityId: user.identityId })
+    const deactivated = scim.replaceUser(organization.id, user.id, { ...chris, active: false })
+    expect(deactivated.active).toBe(false)
+    expect(membershipOf(user.identityId)).toMatchObject({
+      status: 'revoked',
+      sessionVersion: membership.sessionVersion + 1,
+    })
+    // The session stays valid for any other organization the person belongs to.
+    expect(authentication.verifySessionToken(session.token)).toBeDefined()
+
+    const restored = scim.replaceUser(organization.id, user.id, { ...chris, role: 'deployer' })
+    expect(restored).toMatchObject({ active: true, role: 'deployer' })
+    expect(
+      controlPlane
+        .listEvents({ organizationId: organization.id })
+        .map((event) => event.type)
+        .filter((type) => type.startsWith('scim.')),
+    ).toEqual(expect.arrayContaining(['scim.user.created', 'scim.user.deactivated', 'scim.user.updated']))
+    controlPlane.close()
+  })
+
+  it('adopts a verified identity and keeps the scope of its membership', () => {
+    const { controlPlane, authentication, organization, project, scim, membershipOf } = fixture()
+    const actor = controlPlane.createActor({ kind: 'user', externalId: 'dashboard:chris', displayName: 'Chris' })
+    const identity = authentication.createIdentity({
+      actorId: actor.id,
+      username: 'chris',
+      email: 'chris@acme.test',
+      emailVerified: true,
+      passwordHash: 'hash',
+    })
+    controlPlane.createMembership({
+      organizationId: organization.id,
+      actorId: actor.id,
+      roleTemplate: 'viewer',
+      scope: { type: 'project', id: project.id },
+    })
+    const user = scim.createUser(organization.id, { ...chris, role: 'operator' })
+    expect(user.identityId).toBe(identity.id)
+    expect(membershipOf(identity.id)).toMatchObject({
+      roleTemplate: 'operator',
+      scope: { type: 'project', id: project.id },
+      source: 'manual',
+    })
+    expect(scimError(() => scim.createUser(organization.id, chris))).toMatchObject({ status: 409, scimType: 'uniqueness' })
+    expect(
+      scimError(() => scim.createUser(organization.id, { ...chris, userName: 'chris-2' })),
+    ).toMatchObject({ status: 409 })
+    controlPlane.close()
+  })
+
+  it('adopts outside accounts only in its SSO domains and never changes their email', () => {
+    const { controlPlane, authentication, organization, scim } = fixture()
+    const actor = controlPlane.createActor({ kind: 'user', externalId: 'dashboard:pat', displayName: 'Pat' })
+    const identity = authentication.createIdentity({
+      actorId: actor.id,
+      username: 'pat',
+      email: 'pat@acme.test',
+      emailVerified: true,
+      passwordHash: 'hash',
+    })
+    const pat = { ...chris, userName: 'pat', email: 'pat@acme.test' }
+    expect(scimError(() => scim.createUser(organization.id, pat))).toMatchObject({ status: 409, scimType: 'uniqueness' })
+
+    authentication.upsertOidcProvider({
+      organizationId: organization.id,
+      slug: 'workforce',
+      name: 'Acme Workforce',
+      issuer: 'https://idp.acme.test',
+      clientId: 'ts-cloud',
+      clientSecret: 'client-secret',
+      allowedDomains: ['acme.test'],
+    })
+    const user = scim.createUser(organization.id, pat)
+    expect(user.identityId).toBe(identity.id)
+    expect(scim.replaceUser(organization.id, user.id, { ...pat, email: 'pat@evil.test' }).email).toBe('pat@evil.test')
+    expect(authentication.getIdentity(identity.id)?.email).toBe('pat@acme.test')
+    controlPlane.close()
+  })
+
+  it('refuses unverified accounts and never touches owners', () => {
+    const { controlPlane, authentication, organization, scim } = fixture()
+    const unverified = controlPlane.createActor({ kind: 'user', externalId: 'dashboard:sam', displayName: 'Sam' })
+    authentication.createIdentity({ actorId: unverified.id, username: 'sam', email: 'sam@acme.test', passwordHash: 'h' })
+    expect(
+      scimError(() => scim.createUser(organization.id, { ...chris, userName: 'sam', email: 'sam@acme.test' })),
+    ).toMatchObject({ status: 409 })
+    expect(scimError(() => scim.createUser(organization.id, { ...chris, role: 'owner' }))).toMatchObject({
+      scimType: 'mutability',
+    })
+
+    const ownerActor = controlPlane.createActor({ kind: 'user', externalId: 'dashboard:olive', displayName: 'Olive' })
+    authentication.createIdentity({
+      actorId: ownerActor.id,
+      username: 'olive',
+      email: 'olive@acme.test',
+      emailVerified: true,
+      passwordHash: 'h',
+    })
+    controlPlane.createMembership({ organizationId: organization.id, actorId: ownerActor.id, roleTemplate: 'owner' })
+    const olive = { ...chris, userName: 'olive', email: 'olive@acme.test' }
+    const owner = scim.createUser(organization.id, { ...olive, role: 'viewer' })
+    expect(owner.role).toBe('owner')
+    expect(scimError(() => scim.replaceUser(organization.id, owner.id, { ...olive, active: false }))).toMatchObject({
+      scimType: 'mutability',
+    })
+    controlPlane.close()
+  })
+
+  it('round-trips a PATCH through the resource form', () => {
+    const { controlPlane, organization, scim } = fixture()
+    const user = scim.createUser(organization.id, chris)
+    const patched = applyScimPatch(scimUserResource(user, 'https://cloud.acme.test/scim/v2'), [
+      { op: 'replace', path: 'emails[type eq "work"].value', value: 'chris.lee@acme.test' },
+      { op: 'replace', path: 'roles[primary eq true].value', value: 'auditor' },
+    ])
+    expect(scim.replaceUser(organization.id, user.id, readScimUser(patched))).toMatchObject({
+      email: 'chris.lee@acme.test',
+      role: 'auditor',
+      active: true,
+    })
+    controlPlane.close()
+  })
+})
+
+describe('ScimProvisioningStore groups', () => {
+  it('grants the mapped role to members and follows membership changes', () => {
+    const { controlPlane, organization, project, scim, membershipOf } = fixture()
+    const user = scim.createUser(organization.id, chris)
+    const other = scim.createUser(organization.id, { ...chris, userName: 'dana', email: 'dana@acme.test' })
+    const group = scim.createGroup(organization.id, { displayName: 'Release Managers', memberIds: [user.id] })
+    const membership = membershipOf(user.identityId)
+    expect(controlPlane.listGrants(membership.id)).toEqual([])
+
+    const manual = controlPlane.upsertGrant({
+      organizationId: organization.id,
+      membershipId: membership.id,
+      effect: 'allow',
+      capability: 'deployments:create',
+      scope: { type: 'project', id: project.id },
+    })
+    scim.mapGroup(organization.id, group.id, { role: 'deployer', scope: { type: 'project', id: project.id } })
+    const grants = controlPlane.listGrants(membership.id)
+    expect(grants.map((grant) => grant.capability)).toContain('telemetry:write')
+    expect(grants.every((grant) => grant.scope.id === project.id)).toBe(true)
+    expect(grants.filter((grant) => grant.source === 'manual')).toEqual([manual])
+
+    scim.replaceGroup(organization.id, group.id, { displayName: 'Release Managers', memberIds: [other.id] })
+    expect(controlPlane.listGrants(membership.id)).toEqual([manual])
+    expect(controlPlane.listGrants(membershipOf(other.identityId).id).length).toBeGreaterThan(1)
+    expect(scim.getUser(organization.id, other.id)?.groupIds).toEqual([group.id])
+
+    scim.deleteUser(organization.id, other.id)
+    expect(controlPlane.listGrants(membershipOf(other.identityId).id)).toEqual([])
+    expect(membershipOf(other.identityId).status).toBe('revoked')
+    expect(scim.getGroup(organization.id, group.id)?.memberIds).toEqual([])
+    expect(scimError(() => scim.createGroup(organization.id, { displayName: 'release managers', memberIds: [] }))).toMatchObject({
+      status: 409,
+    })
+    expect(
+      scimError(() => scim.replaceGroup(organization.id, group.id, { displayName: 'RM', memberIds: ['nobody'] })),
+    ).toMatchObject({ scimType: 'invalidValue' })
+    controlPlane.close()
+  })
+
+  it('removes group grants when a group is unmapped or deleted', () => {
+    const { controlPlane, organization, scim, membershipOf } = fixture()
+    const user = scim.createUser(organization.id, chris)
+    const admins = scim.createGroup(organization.id, { displayName: 'Admins', memberIds: [user.id] })
+    const auditors = scim.createGroup(organization.id, { displayName: 'Auditors', memberIds: [user.id] })
+    scim.mapGroup(organization.id, admins.id, { role: 'admin', scope: { type: 'organization' } })
+    scim.mapGroup(organization.id, auditors.id, { role: 'auditor', scope: { type: 'organization' } })
+    const membership = membershipOf(user.identityId)
+    expect(controlPlane.listGrants(membership.id).map((grant) => grant.capability)).toContain('users:manage')
+
+    scim.mapGroup(organization.id, admins.id, undefined)
+    const remaining = controlPlane.listGrants(membership.id).map((grant) => grant.capability)
+    expect(remaining).toContain('audit:read')
+    expect(remaining).not.toContain('users:manage')
+    scim.deleteGroup(organization.id, auditors.id)
+    expect(controlPlane.listGrants(membership.id)).toEqual([])
+    expect(() => scim.mapGroup(organization.id, admins.id, { role: 'owner' as never, scope: { type: 'organization' } })).toThrow(
+      'SCIM groups can map to',
+    )
+    controlPlane.close()
+  })
+})
@@ -0,0 +1,632 @@
+import type { SQLQueryBindings } from 'bun:sqlite'
+import type { AuthorizationCapability, AuthorizationScope, ControlPlaneStore, OrganizationMembership, OrganizationRoleTemplate } from '../control-plane'
+import type { AuthenticationStore } from './store'
+import type { AuthIdentity, AuthOidcRole, AuthScimGroup, AuthScimGroupInput, AuthScimGroupMapping, AuthScimUser, AuthScimUserInput } from './types'
+import { roleCapabilities } from '../control-plane'
+import { SCIM_GROUP_SCHEMA, SCIM_USER_SCHEMA, scimAttribute, ScimError } from './scim-protocol'
+
+type Row = Record<string, unknown>
+
+const SCIM_ROLES: readonly OrganizationRoleTemplate[] = ['owner', 'admin', 'deployer', 'operator', 'viewer', 'auditor']
+const GROUP_ROLES: readonly AuthOidcRole[] = ['admin', 'deployer', 'operator', 'viewer', 'auditor']
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+function parseIds(value: unknown): string[] {
+  try {
+    const parsed = JSON.parse(String(value)) as unknown[]
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+function mapUser(row: Row): AuthScimUser {
+  return {
+    id: String(row.id),
+    organizationId: String(row.organization_id),
+    identityId: String(row.identity_id),
+    userName: String(row.user_name),
+    externalId: optionalString(row.external_id),
+    displayName: optionalString(row.display_name),
+    givenName: optionalString(row.given_name),
+    familyName: optionalString(row.family_name),
+    email: String(row.email),
+    active: row.membership_status === 'active',
+    role: (optionalString(row.role_template) ?? 'viewer') as OrganizationRoleTemplate,
+    groupIds: parseIds(row.group_ids),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
+
+function mapGroup(row: Row): AuthScimGroup {
+  const role = optionalString(row.role_template) as AuthOidcRole | undefined
+  const scopeType = String(row.scope_type) as AuthorizationScope['type']
+  return {
+    id: String(row.id),
+    organizationId: String(row.organization_id),
+    displayName: String(row.display_name),
+    externalId: optionalString(row.external_id),
+    mapping: role
+      ? {
+          role,
+          scope:
+            scopeType === 'organization'
+              ? { type: 'organization' }
+              : ({ type: scopeType, id: String(row.scope_id) } as AuthorizationScope),
+        }
+      : undefined,
+    memberIds: parseIds(row.member_ids),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
+
+const USER_SELECT = `SELECT scim_users.*, organization_memberships.status AS membership_status, organization_memberships.role_template,
+  (SELECT json_group_array(group_id) FROM (SELECT group_id FROM scim_group_members WHERE user_id = scim_users.id ORDER BY group_id)) AS group_ids
+  FROM scim_users JOIN auth_identities ON auth_identities.id = scim_users.identity_id
+  LEFT JOIN organization_memberships ON organization_memberships.organization_id = scim_users.organization_id
+    AND organization_memberships.actor_id = auth_identities.actor_id`
+
+const GROUP_SELECT = `SELECT scim_groups.*,
+  (SELECT json_group_array(user_id) FROM (SELECT user_id FROM scim_group_members WHERE group_id = scim_groups.id ORDER BY user_id)) AS member_ids
+  FROM scim_groups`
+
+function text(value: unknown, name: string, maxLength: number = 256): string | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'string' || value.length > maxLength)
+    throw new ScimError(`${name} must be a string of at most ${maxLength} characters.`, 400, 'invalidValue')
+  return value.trim() || undefined
+}
+
+function isPrimary(value: unknown): boolean {
+  const primary = scimAttribute(value, 'primary')
+  return primary === true || String(primary).toLowerCase() === 'true'
+}
+
+function meta(
+  resourceType: 'User' | 'Group',
+  record: { id: string; createdAt: string; updatedAt: string },
+  baseUrl: string,
+) {
+  return {
+    resourceType,
+    created: record.createdAt,
+    lastModified: record.updatedAt,
+    location: `${baseUrl}/${resourceType}s/${record.id}`,
+  }
+}
+
+/** A provisioned user in the SCIM core User schema. */
+export function scimUserResource(user: AuthScimUser, baseUrl: string): Record<string, unknown> {
+  const name = {
+    formatted: [user.givenName, user.familyName].filter(Boolean).join(' ') || undefined,
+    givenName: user.givenName,
+    familyName: user.familyName,
+  }
+  return {
+    schemas: [SCIM_USER_SCHEMA],
+    id: user.id,
+    externalId: user.externalId,
+    userName: user.userName,
+    name: name.formatted ? name : undefined,
+    displayName: user.displayName,
+    emails: [{ value: user.email, type: 'work', primary: true }],
+    active: user.active,
+    roles: [{ value: user.role, primary: true }],
+    groups: user.groupIds.map((id) => ({ value: id, $ref: `${baseUrl}/Groups/${id}` })),
+    meta: meta('User', user, baseUrl),
+  }
+}
+
+export function scimGroupResource(group: AuthScimGroup, baseUrl: string): Record<string, unknown> {
+  return {
+    schemas: [SCIM_GROUP_SCHEMA],
+    id: group.id,
+    externalId: group.externalId,
+    displayName: group.displayName,
+    members: group.memberIds.map((id) => ({ value: id, $ref: `${baseUrl}/Users/${id}` })),
+    meta: meta('Group', group, baseUrl),
+  }
+}
+
+/**
+ * Read a User resource from a POST or PUT body, or from the result of a PATCH.
+ * The email is the primary (or first work) address, falling back to a userName
+ * that is an email address, as Okta sends it. The role is the primary value of
+ * `roles`; without one the current role stays in place.
+ */
+export function readScimUser(body: unknown): AuthScimUserInput {
+  const userName = text(scimAttribute(body, 'userName'), 'userName')
+  if (!userName) throw new ScimError('userName is required.', 400, 'invalidValue')
+  const emails = scimAttribute(body, 'emails')
+  const addresses = Array.isArray(emails) ? emails : []
+  const address =
+    addresses.find(isPrimary) ??
+    addresses.find((item) => String(scimAttribute(item, 'type')).toLowerCase() === 'work') ??
+    addresses[0]
+  const email = (text(scimAttribute(address, 'value'), 'emails.value') ?? userName).toLowerCase()
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || email.length > 254)
+    throw new ScimError('A valid email address is required.', 400, 'invalidValue')
+
+  const roles = scimAttribute(body, 'roles')
+  const entries = Array.isArray(roles) ? roles : []
+  const roleEntry = entries.find(isPrimary) ?? entries[0]
+  const roleValue = text(scimAttribute(roleEntry, 'value') ?? roleEntry, 'roles.value')?.toLowerCase()
+  if (roleValue && !SCIM_ROLES.includes(roleValue as OrganizationRoleTemplate))
+    throw new ScimError(`Role ${roleValue} is not an organization role.`, 400, 'invalidValue')
+
+  // Entra ID sends booleans as the strings "True" and "False".
+  const active = scimAttribute(body, 'active')
+  const name = scimAttribute(body, 'name')
+  return {
+    userName,
+    externalId: text(scimAttribute(body, 'externalId'), 'externalId'),
+    displayName: text(scimAttribute(body, 'displayName'), 'displayName'),
+    givenName: text(scimAttribute(name, 'givenName'), 'name.givenName'),
+    familyName: text(scimAttribute(name, 'familyName'), 'name.familyName'),
+    email,
+    active: typeof active === 'string' ? active.toLowerCase() !== 'false' : active !== false,
+    role: roleValue as OrganizationRoleTemplate | undefined,
+  }
+}
+
+export function readScimGroup(body: unknown): AuthScimGroupInput {
+  const displayName = text(scimAttribute(body, 'displayName'), 'displayName')
+  if (!displayName) throw new ScimError('displayName is required.', 400, 'invalidValue')
+  const members = scimAttribute(body, 'members')
+  if (members !== undefined && members !== null && !Array.isArray(members))
+    throw new ScimError('members must be a list.', 400, 'invalidValue')
+  const memberIds = (members ?? []).map((member: unknown) => {
+    const value = scimAttribute(member, 'value')
+    if (typeof value !== 'string' || !value) throw new ScimError('Every member needs a value.', 400, 'invalidValue')
+    return value
+  })
+  return {
+    displayName,
+    externalId: text(scimAttribute(body, 'externalId'), 'externalId'),
+    memberIds: [...new Set(memberIds)],
+  }
+}
+
+export interface ScimProvisioningStoreOptions {
+  now?: () => Date
+  id?: () => string
+  /**
+   * Create the local identity for a user whose email no identity has yet. The
+   * dashboard also gives it an entry in the user file, as it does for SSO.
+   * Without it, only users with an existing identity can be provisioned.
+   */
+  provisionIdentity?: (input: { email: string; name?: string }) => AuthIdentity
+}
+
+/**
+ * The users and groups a SCIM client manages for an organization. A user's
+ * `active` flag and role live on its organization membership, so deprovisioning
+ * takes effect on the next request; groups the administrator mapped to a role
+ * hand their members that role's capabilities as grants with the `scim` source.
+ */
+export class ScimProvisioningStore {
+  private readonly nowFn: () => Date
+  private readonly idFn: () => string
+  private readonly provisionIdentity: ScimProvisioningStoreOptions['provisionIdentity']
+
+  constructor(
+    private readonly controlPlane: ControlPlaneStore,
+    private readonly authentication: AuthenticationStore,
+    options: ScimProvisioningStoreOptions = {},
+  ) {
+    this.nowFn = options.now ?? (() => new Date())
+    this.idFn = options.id ?? (() => crypto.randomUUID())
+    this.provisionIdentity = options.provisionIdentity
+  }
+
+  private now(): string {
+    return this.nowFn().toISOString()
+  }
+
+  private run(sql: string, bindings: SQLQueryBindings[]): void {
+    this.controlPlane.database.run(sql, bindings)
+  }
+
+  listUsers(organizationId: string): AuthScimUser[] {
+    return this.controlPlane.database
+      .query<Row, [string]>(`${USER_SELECT} WHERE scim_users.organization_id = ? ORDER BY scim_users.created_at, scim_users.id`)
+      .all(organizationId)
+      .map(mapUser)
+  }
+
+  getUser(organizationId: string, id: string): AuthScimUser | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string, string]>(`${USER_SELECT} WHERE scim_users.organization_id = ? AND scim_users.id = ?`)
+      .get(organizationId, id)
+    return row ? mapUser(row) : undefined
+  }
+
+  private requireUser(organizationId: string, id: string): AuthScimUser {
+    const user = this.getUser(organizationId, id)
+    if (!user) throw new ScimError(`User ${id} was not found.`, 404)
+    return user
+  }
+
+  private assertUserNameAvailable(organizationId: string, userName: string, id?: string): void {
+    const taken = this.controlPlane.database
+      .query<Row, [string, string, string]>(
+        'SELECT id FROM scim_users WHERE organization_id = ? AND user_name = ? AND id != ?',
+      )
+      .get(organizationId, userName, id ?? '')
+    if (taken) throw new ScimError(`A user named ${userName} already exists.`, 409, 'uniqueness')
+  }
+
+  private membershipFor(organizationId: string, identityId: string): OrganizationMembership | undefined {
+    const identity = this.authentication.getIdentity(identityId)
+    return identity ? this.controlPlane.getMembershipForActor(organizationId, identity.actorId) : undefined
+  }
+
+  /** Apply `active` and `role` to the membership. Owners keep their role whatever the client sends. */
+  private applyMembership(
+    membership: OrganizationMembership,
+    input: Pick<AuthScimUserInput, 'active' | 'role'>,
+    actorId: string | undefined,
+  ): void {
+    if (input.role && input.role !== membership.roleTemplate && membership.roleTemplate !== 'owner') {
+      if (input.role === 'owner') throw new ScimError('SCIM clients cannot grant the owner role.', 400, 'mutability')
+      this.controlPlane.updateMembership({ id: membership.id, roleTemplate: input.role, actorId })
+    }
+    if (input.active && membership.status === 'revoked') this.controlPlane.restoreMembership(membership.id, actorId)
+    // Revoking bumps the membership's session version, which ends the user's sessions in
+    // this organization only. The identity may belong to other organizations too.
+    if (!input.active && membership.status === 'active') {
+      if (membership.roleTemplate === 'owner')
+        throw new ScimError('SCIM clients cannot deactivate organization owners.', 400, 'mutability')
+      this.controlPlane.revokeMembership(membership.id, actorId)
+    }
+  }
+
+  /** The email domains the organization's SSO providers accept, which it is trusted to speak for. */
+  private organizationDomains(organizationId: string): Set<string> {
+    return new Set(
+      [
+        ...this.authentication.listOidcProviders(organizationId, { includeDisabled: true }),
+        ...this.authentication.listSamlProviders(organizationId, { includeDisabled: true }),
+      ].flatMap((provider) => provider.allowedDomains),
+    )
+  }
+
+  /**
+   * An existing identity may be adopted only when the organization already has
+   * a membership for it, or when its email is in one of the organization's SSO
+   * domains. Anything else could hand one tenant's SCIM client an account that
+   * belongs to another tenant.
+   */
+  private assertAdoptable(organizationId: string, identity: AuthIdentity): void {
+    if (this.controlPlane.getMembershipForActor(organizationId, identity.actorId)) return
+    const domain = identity.email?.split('@')[1]?.toLowerCase()
+    if (!domain || !this.organizationDomains(organizationId).has(domain))
+      throw new ScimError(
+        `An account outside this organization already uses ${identity.email}. Add its domain to an SSO provider first.`,
+        409,
+        'uniqueness',
+      )
+  }
+
+  /**
+   * Provision a user. An existing identity with the same verified email is
+   * adopted along with its membership, so a user who signed in through SSO
+   * before the SCIM client was connected is not duplicated. See
+   * `assertAdoptable` for which identities qualify.
+   */
+  createUser(organizationId: string, input: AuthScimUserInput, actorId?: string): AuthScimUser {
+    return this.controlPlane.transaction(() => {
+      this.assertUserNameAvailable(organizationId, input.userName)
+      let identity = this.authentication.getIdentityByEmail(input.email)
+      if (identity && !identity.emailVerifiedAt)
+        throw new ScimError(`An unverified local account already uses ${input.email}.`, 409, 'uniqueness')
+      if (
+        identity &&
+        this.controlPlane.database
+          .query<Row, [string, string]>('SELECT id FROM scim_users WHERE organization_id = ? AND identity_id = ?')
+          .get(organizationId, identity.id)
+      )
+        throw new ScimError(`A user with the email ${input.email} already exists.`, 409, 'uniqueness')
+      if (identity) this.assertAdoptable(organizationId, identity)
+      const name = input.displayName ?? ([input.givenName, input.familyName].filter(Boolean).join(' ') || undefined)
+      if (!identity) {
+        if (!this.provisionIdentity)
+          throw new ScimError(`No account uses ${input.email} and this server cannot create one.`, 400, 'invalidValue')
+        identity = this.provisionIdentity({ email: input.email, name })
+      }
+
+      let membership = this.controlPlane.getMembershipForActor(organizationId, identity.actorId)
+      if (!membership) {
+        if (input.role === 'owner') throw new ScimError('SCIM clients cannot grant the owner role.', 400, 'mutability')
+        membership = this.controlPlane.createMembership({
+          organizationId,
+          actorId: identity.actorId,
+          roleTemplate: input.role ?? 'viewer',
+          scope: { type: 'organization' },
+          source: 'scim',
+          performedByActorId: actorId,
+        })
+      }
+      this.applyMembership(membership, input, actorId)
+
+      const id = this.idFn()
+      const now = this.now()
+      this.run(
+        `INSERT INTO scim_users (id, organization_id, identity_id, user_name, external_id, display_name, given_name, family_name, email, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          organizationId,
+          identity.id,
+          input.userName,
+          input.externalId ?? null,
+          input.displayName ?? null,
+          input.givenName ?? null,
+          input.familyName ?? null,
+          input.email,
+          now,
+          now,
+        ],
+      )
+      this.controlPlane.appendEvent({
+        organizationId,
+        actorId,
+        type: 'scim.user.created',
+        payload: { userId: id, identityId: identity.id, userName: input.userName, active: input.active },
+      })
+      return this.getUser(organizationId, id)!
+    })
+  }
+
+  /**
+   * Replace a user's attributes, as PUT does and PATCH does once its operations are applied.
+   * A new email is kept on the SCIM user only: the identity's sign-in email is shared by
+   * every organization the person belongs to, so one organization's client can't change it.
+   */
+  replaceUser(organizationId: string, id: string, input: AuthScimUserInput, actorId?: string): AuthScimUser {
+    return this.controlPlane.transaction(() => {
+      const current = this.requireUser(organizationId, id)
+      this.assertUserNameAvailable(organizationId, input.userName, id)
+      const membership = this.membershipFor(organizationId, current.identityId)
+      if (membership) this.applyMembership(membership, input, actorId)
+      this.run(
+        `UPDATE scim_users SET user_name = ?, external_id = ?, display_name = ?, given_name = ?, family_name = ?, email = ?, updated_at = ?
+        WHERE id = ?`,
+        [
+          input.userName,
+          input.externalId ?? null,
+          input.displayName ?? null,
+          input.givenName ?? null,
+          input.familyName ?? null,
+          input.email,
+          this.now(),
+          id,
+        ],
+      )
+      const user = this.getUser(organizationId, id)!
+      this.controlPlane.appendEvent({
+        organizationId,
+        actorId,
+        type: current.active && !user.active ? 'scim.user.deactivated' : 'scim.user.updated',
+        payload: { userId: id, active: user.active, role: user.role },
+      })
+      return user
+    })
+  }
+
+  /**
+   * Deprovision a user: revoke the membership and its sessions, and drop the
+   * grants its groups gave it. The identity stays, so the audit trail keeps a
+   * name and a later re-provisioning finds the same account.
+   */
+  deleteUser(organizationId: string, id: string, actorId?: string): void {
+    this.controlPlane.transaction(() => {
+      const user = this.requireUser(organizationId, id)
+      const membership = this.membershipFor(organizationId, user.identityId)
+      if (membership) {
+        this.applyMembership(membership, { active: false }, actorId)
+        for (const grant of this.controlPlane.listGrants(membership.id))
+          if (grant.source === 'scim') this.controlPlane.removeGrant(grant.id, actorId)
+      }
+      this.run('DELETE FROM scim_users WHERE id = ?', [id])
+      this.controlPlane.appendEvent({
+        organizationId,
+        actorId,
+        type: 'scim.user.deleted',
+        payload: { userId: id, identityId: user.identityId },
+      })
+    })
+  }
+
+  listGroups(organizationId: string): AuthScimGroup[] {
+    return this.controlPlane.database
+      .query<Row, [string]>(`${GROUP_SELECT} WHERE organization_id = ? ORDER BY display_name, id`)
+      .all(organizationId)
+      .map(mapGroup)
+  }
+
+  getGroup(organizationId: string, id: string): AuthScimGroup | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string, string]>(`${GROUP_SELECT} WHERE organization_id = ? AND id = ?`)
+      .get(organizationId, id)
+    return row ? mapGroup(row) : undefined
+  }
+
+  /** Find a group by its SCIM id or, for administrators, its display name. */
+  findGroup(organizationId: string, idOrName: string): AuthScimGroup | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string, string, string]>(
+        `${GROUP_SELECT} WHERE organization_id = ? AND (id = ? OR display_name = ?)`,
+      )
+      .get(organizationId, idOrName, idOrName)
+    return row ? mapGroup(row) : undefined
+  }
+
+  private requireGroup(organizationId: string, id: string): AuthScimGroup {
+    const group = this.getGroup(organizationId, id)
+    if (!group) throw new ScimError(`Group ${id} was not found.`, 404)
+    return group
+  }
+
+  private assertGroupNameAvailable(organizationId: string, displayName: string, id?: string): void {
+    const taken = this.controlPlane.database
+      .query<Row, [string, string, string]>(
+        'SELECT id FROM scim_groups WHERE organization_id = ? AND display_name = ? AND id != ?',
+      )
+      .get(organizationId, displayName, id ?? '')
+    if (taken) throw new ScimError(`A group named ${displayName} already exists.`, 409, 'uniqueness')
+  }
+
+  private setMembers(organizationId: string, groupId: string, memberIds: string[]): void {
+    for (const userId of memberIds)
+      if (!this.getUser(organizationId, userId))
+        throw new ScimError(`Group member ${userId} is not a user.`, 400, 'invalidValue')
+    this.run('DELETE FROM scim_group_members WHERE group_id = ?', [groupId])
+    const now = this.now()
+    for (const userId of memberIds)
+      this.run('INSERT INTO scim_group_members (group_id, user_id, created_at) VALUES (?, ?, ?)', [groupId, userId, now])
+  }
+
+  createGroup(organizationId: string, input: AuthScimGroupInput, actorId?: string): AuthScimGroup {
+    return this.controlPlane.transaction(() => {
+      this.assertGroupNameAvailable(organizationId, input.displayName)
+      const id = this.idFn()
+      const now = this.now()
+      this.run(
+        `INSERT INTO scim_groups (id, organization_id, display_name, external_id, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+        [id, organizationId, input.displayName, input.externalId ?? null, now, now],
+      )
+      this.setMembers(organizationId, id, input.memberIds)
+      this.controlPlane.appendEvent({
+        organizationId,
+        actorId,
+        type: 'scim.group.created',
+        payload: { groupId: id, displayName: input.displayName, members: input.memberIds.length },
+      })
+      return this.getGroup(organizationId, id)!
+    })
+  }
+
+  replaceGroup(organizationId: string, id: string, input: AuthScimGroupInput, actorId?: string): AuthScimGroup {
+    return this.controlPlane.transaction(() => {
+      const current = this.requireGroup(organizationId, id)
+      this.assertGroupNameAvailable(organizationId, input.displayName, id)
+      this.run('UPDATE scim_groups SET display_name = ?, external_id = ?, updated_at = ? WHERE id = ?', [
+        input.displayName,
+        input.externalId ?? null,
+        this.now(),
+        id,
+      ])
+      this.setMembers(organizationId, id, input.memberIds)
+      const added = input.memberIds.filter((userId) => !current.memberIds.includes(userId))
+      const removed = current.memberIds.filter((userId) => !input.memberIds.includes(userId))
+      if (current.mapping)
+        for (const userId of [...added, ...removed]) this.reconcileGrants(organizationId, userId, actorId)
+      this.controlPlane.appendEvent({
+        organizationId,
+        actorId,
+        type: 'scim.group.updated',
+        payload: { groupId: id, displayName: input.displayName, added, removed },
+      })
+      return this.getGroup(organizationId, id)!
+    })
+  }
+
+  deleteGroup(organizationId: string, id: string, actorId?: string): void {
+    this.controlPlane.transaction(() => {
+      const group = this.requireGroup(organizationId, id)
+      this.run('DELETE FROM scim_groups WHERE id = ?', [id])
+      if (group.mapping) for (const userId of group.memberIds) this.reconcileGrants(organizationId, userId, actorId)
+      this.controlPlane.appendEvent({
+        organizationId,
+        actorId,
+        type: 'scim.group.deleted',
+        payload: { groupId: id, displayName: group.displayName },
+      })
+    })
+  }
+
+  /**
+   * Map a group onto a role at a scope, or clear its mapping. This is an
+   * administrator's decision: the SCIM client can rename a group and change its
+   * members, but never what membership grants.
+   */
+  mapGroup(
+    organizationId: string,
+    id: string,
+    mapping: AuthScimGroupMapping | undefined,
+    actorId?: string,
+  ): AuthScimGroup {
+    return this.controlPlane.transaction(() => {
+      const group = this.getGroup(organizationId, id)
+      if (!group) throw new Error('SCIM group was not found')
+      if (mapping && !GROUP_ROLES.includes(mapping.role))
+        throw new Error(`SCIM groups can map to ${GROUP_ROLES.join(', ')}`)
+      const scope = mapping?.scope
+      if (scope && !this.controlPlane.resolveAuthorizationTarget(organizationId, scope))
+        throw new Error('Authorization scope was not found in this organization')
+      this.run('UPDATE scim_groups SET role_template = ?, scope_type = ?, scope_id = ?, updated_at = ? WHERE id = ?', [
+        mapping?.role ?? null,
+        scope?.type ?? null,
+        scope && scope.type !== 'organization' ? scope.id! : null,
+        this.now(),
+        id,
+      ])
+      for (const userId of group.memberIds) this.reconcileGrants(organizationId, userId, actorId)
+      this.controlPlane.appendEvent({
+        organizationId,
+        actorId,
+        type: 'scim.group.mapped',
+        payload: mapping
+          ? { groupId: id, role: mapping.role, scope: { type: mapping.scope.type, id: mapping.scope.id ?? null } }
+          : { groupId: id, role: null },
+      })
+      return this.getGroup(organizationId, id)!
+    })
+  }
+
+  /**
+   * Bring a user's `scim` grants in line with the mapped groups it belongs to.
+   * Grants an administrator added by hand are never removed; one that already
+   * covers a group capability is left as it is.
+   */
+  private reconcileGrants(organizationId: string, userId: string, actorId?: string): void {
+    const user = this.getUser(organizationId, userId)
+    const membership = user && this.membershipFor(organizationId, user.identityId)
+    if (!user || !membership) return
+    const key = (capability: AuthorizationCapability, scope: AuthorizationScope) =>
+      `${capability}|${scope.type}|${scope.id ?? ''}`
+    const desired = new Map<string, { capability: AuthorizationCapability; scope: AuthorizationScope }>()
+    for (const groupId of user.groupIds) {
+      const mapping = this.getGroup(organizationId, groupId)?.mapping
+      if (!mapping) continue
+      for (const capability of roleCapabilities(mapping.role))
+        desired.set(key(capability, mapping.scope), { capability, scope: mapping.scope })
+    }
+    const existing = this.controlPlane.listGrants(membership.id)
+    for (const grant of existing)
+      if (grant.source === 'scim' && grant.effect === 'allow' && !desired.has(key(grant.capability, grant.scope)))
+        this.controlPlane.removeGrant(grant.id, actorId)
+    const current = new Set(
+      existing.filter((grant) => grant.effect === 'allow').map((grant) => key(grant.capability, grant.scope)),
+    )
+    for (const [grantKey, grant] of desired) {
+      if (current.has(grantKey)) continue
+      this.controlPlane.upsertGrant({
+        organizationId,
+        membershipId: membership.id,
+        effect: 'allow',
+        capability: grant.capability,
+        scope: grant.scope,
+        source: 'scim',
+        actorId,
+      })
+    }
+  }
+}
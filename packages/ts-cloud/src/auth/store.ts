@@ -1,9 +1,13 @@
 import type { SQLQueryBindings } from 'bun:sqlite'
 import type { ControlPlaneStore } from '../control-plane/store'
 import type { JsonValue } from '../control-plane/types'
-import type { AuthActionToken, AuthActionTokenType, AuthenticationStoreOptions, AuthIdentity, AuthMfaChallenge, AuthMfaFactor, AuthOidcProvider, AuthOidcSubject, AuthOidcTransaction, AuthSession, CreateAuthIdentityInput, CreateAuthSessionInput, UpsertAuthOidcProviderInput } from './types'
-import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto'
+import type { AuthorizationCapability } from '../control-plane/types'
+import type { AuthActionToken, AuthActionTokenType, AuthenticationStoreOptions, AuthFactorRequirement, AuthIdentity, AuthMfaChallenge, AuthMfaFactor, AuthOidcProvider, AuthOidcRole, AuthOidcSubject, AuthOidcTransaction, AuthSamlAttributeMapping, AuthSamlIdpMetadata, AuthSamlProvider, AuthSamlRequest, AuthSamlRoleMapping, AuthSamlSession, AuthSamlSubject, AuthSession, AuthWebAuthnCreationOptions, AuthWebAuthnCredential, AuthWebAuthnPurpose, AuthWebAuthnRequestOptions, CreateAuthIdentityInput, CreateAuthSessionInput, UpsertAuthOidcProviderInput, UpsertAuthSamlProviderInput } from './types'
+import type { WebAuthnAssertionResponse, WebAuthnRegistrationResponse } from './webauthn'
+import { createCipheriv, createDecipheriv, createHash, randomBytes, X509Certificate } from 'node:crypto'
+import { createSamlServiceProviderKey } from './saml'
 import { encodeBase32, matchTotpCounter, totpUri } from './totp'
+import { readWebAuthnClientData, verifyWebAuthnAssertion, verifyWebAuthnRegistration, WEBAUTHN_ALGORITHMS } from './webauthn'
 
 type Row = Record<string, unknown>
 
@@ -12,6 +16,8 @@ export const AUTH_SESSION_ABSOLUTE_TTL_MS: number = 12 * 60 * 60 * 1000
 export const AUTH_ACTION_TOKEN_TTL_MS: number = 60 * 60 * 1000
 export const AUTH_MFA_CHALLENGE_TTL_MS: number = 5 * 60 * 1000
 export const AUTH_OIDC_TRANSACTION_TTL_MS: number = 10 * 60 * 1000
+export const AUTH_WEBAUTHN_CHALLENGE_TTL_MS: number = 5 * 60 * 1000
+export const AUTH_SAML_REQUEST_TTL_MS: number = 10 * 60 * 1000
 
 function optionalString(value: unknown): string | undefined {
   return typeof value === 'string' ? value : undefined
@@ -41,10 +47,10 @@ function normalizeEmail(value: string | undefined): string | undefined {
   return email
 }
 
-function normalizeOidcSlug(value: string): string {
+function normalizeProviderSlug(value: string, protocol: 'OIDC' | 'SAML'): string {
   const slug = value.trim().toLowerCase()
   if (!/^[a-z0-9][a-z0-9-]{1,47}$/.test(slug))
-    throw new Error('OIDC provider slug must be 2-48 lowercase letters, numbers or dashes')
+    throw new Error(`${protocol} provider slug must be 2-48 lowercase letters, numbers or dashes`)
   return slug
 }
 
@@ -60,16 +66,16 @@ function normalizeOidcIssuer(value: string): string {
   return issuer.href.replace(/\/$/, '')
 }
 
-function normalizeOidcDomains(values: string[]): string[] {
+function normalizeProviderDomains(values: string[], protocol: 'OIDC' | 'SAML'): string[] {
   const domains = [...new Set(values.map((value) => value.trim().toLowerCase()).filter(Boolean))]
-  if (domains.length === 0) throw new Error('At least one explicit OIDC email domain is required')
+  if (domains.length === 0) throw new Error(`At least one explicit ${protocol} email domain is required`)
   if (
     domains.some(
       (domain) =>
         !/^[a-z0-9](?:[a-z0-9.-]{0,251}[a-z0-9])?$/.test(domain) || !domain.includes('.') || domain.includes('..'),
     )
   )
-    throw new Error('OIDC email domains must be explicit DNS names without wildcards')
+    throw new Error(`${protocol} email domains must be explicit DNS names without wildcards`)
   return domains
 }
 
@@ -82,6 +88,54 @@ function normalizeOidcScopes(values: string[] | undefined): string[] {
   return scopes
 }
 
+const AUTH_OIDC_ROLES: readonly AuthOidcRole[] = ['admin', 'deployer', 'operator', 'viewer', 'auditor']
+
+function normalizeSamlMetadata(metadata: AuthSamlIdpMetadata): AuthSamlIdpMetadata {
+  const entityId = metadata.entityId.trim()
+  if (!entityId || entityId.length > 1024) throw new Error('SAML entity ID is required')
+  const url = (value: string) => {
+    const parsed = new URL(value)
+    if (
+      parsed.protocol !== 'https:' &&
+      !(parsed.protocol === 'http:' && ['127.0.0.1', '::1', 'localhost'].includes(parsed.hostname))
+    )
+      throw new Error('SAML endpoints must use HTTPS')
+    return parsed.href
+  }
+  const certificates = [...new Set(metadata.certificates.map((certificate) => certificate.replace(/\s+/g, '')))]
+  if (certificates.length === 0) throw new Error('At least one SAML signing certificate is required')
+  for (const certificate of certificates) new X509Certificate(Buffer.from(certificate, 'base64'))
+  return {
+    entityId,
+    ssoUrl: url(metadata.ssoUrl),
+    sloUrl: metadata.sloUrl ? url(metadata.sloUrl) : undefined,
+    sloResponseUrl: metadata.sloResponseUrl ? url(metadata.sloResponseUrl) : undefined,
+    certificates,
+  }
+}
+
+function normalizeSamlRoleMappings(values: AuthSamlRoleMapping[]): AuthSamlRoleMapping[] {
+  if (values.length > 50) throw new Error('SAML providers support at most 50 role mappings')
+  return values.map((mapping) => {
+    const value = mapping.value.trim()
+    const attribute = mapping.attribute?.trim() || undefined
+    if (!value || value.length > 256 || (attribute?.length ?? 0) > 256) throw new Error('SAML role mapping is invalid')
+    if (!AUTH_OIDC_ROLES.includes(mapping.role)) throw new Error(`SAML role mapping role ${mapping.role} is invalid`)
+    return attribute ? { attribute, value, role: mapping.role } : { value, role: mapping.role }
+  })
+}
+
+function normalizeSamlAttributeMapping(mapping: AuthSamlAttributeMapping): AuthSamlAttributeMapping {
+  const normalized: AuthSamlAttributeMapping = {}
+  for (const key of ['email', 'name', 'groups'] as const) {
+    const value = mapping[key]?.trim()
+    if (!value) continue
+    if (value.length > 256) throw new Error(`SAML ${key} attribute name is too long`)
+    normalized[key] = value
+  }
+  return normalized
+}
+
 function hashToken(token: string): string {
   return createHash('sha256').update(token).digest('hex')
 }
@@ -135,6 +189,7 @@ function mapSession(row: Row, now: string): AuthSession {
     absoluteExpiresAt,
     recentAuthAt: String(row.recent_auth_at),
     mfaAt: optionalString(row.mfa_at),
+    webauthnCredentialId: optionalString(row.webauthn_credential_id),
     revokedAt,
     state: revokedAt ? 'revoked' : idleExpiresAt <= now || absoluteExpiresAt <= now ? 'expired' : 'active',
   }
@@ -155,6 +210,39 @@ function mapMfaFactor(row: Row): AuthMfaFactor {
   }
 }
 
+function mapWebAuthnCredential(row: Row): AuthWebAuthnCredential {
+  const disabledAt = optionalString(row.disabled_at)
+  return {
+    id: String(row.id),
+    identityId: String(row.identity_id),
+    credentialId: String(row.credential_id),
+    algorithm: Number(row.algorithm),
+    signCount: Number(row.sign_count),
+    transports: stringArray(row.transports),
+    aaguid: String(row.aaguid),
+    attestationFormat: String(row.attestation_format),
+    attestationType: String(row.attestation_type) as AuthWebAuthnCredential['attestationType'],
+    attestationTrusted: Number(row.attestation_trusted) === 1,
+    backupEligible: Number(row.backup_eligible) === 1,
+    backedUp: Number(row.backed_up) === 1,
+    label: String(row.label),
+    createdAt: String(row.created_at),
+    lastUsedAt: optionalString(row.last_used_at),
+    disabledAt,
+    state: disabledAt ? 'disabled' : 'active',
+  }
+}
+
+function mapFactorRequirement(row: Row): AuthFactorRequirement {
+  return {
+    organizationId: String(row.organization_id),
+    capability: String(row.capability) as AuthorizationCapability,
+    requireAttestation: Number(row.require_attestation) === 1,
+    createdBy: optionalString(row.created_by),
+    createdAt: String(row.created_at),
+  }
+}
+
 function mapMfaChallenge(row: Row, now: string): AuthMfaChallenge {
   const consumedAt = optionalString(row.consumed_at)
   const expiresAt = String(row.expires_at)
@@ -222,10 +310,80 @@ function mapOidcSubject(row: Row): AuthOidcSubject {
   }
 }
 
+function mapSamlProvider(row: Row): AuthSamlProvider {
+  const roleMappings = parseJson(row.role_mappings)
+  const attributeMapping = parseJson(row.attribute_mapping)
+  return {
+    id: String(row.id),
+    organizationId: String(row.organization_id),
+    slug: String(row.slug),
+    name: String(row.name),
+    entityId: String(row.entity_id),
+    ssoUrl: String(row.sso_url),
+    sloUrl: optionalString(row.slo_url),
+    sloResponseUrl: optionalString(row.slo_response_url),
+    certificates: stringArray(row.idp_certificates),
+    spCertificate: String(row.sp_certificate),
+    allowedDomains: stringArray(row.allowed_domains),
+    defaultRole: String(row.default_role) as AuthOidcRole,
+    roleMappings: Array.isArray(roleMappings) ? (roleMappings as unknown as AuthSamlRoleMapping[]) : [],
+    attributeMapping:
+      attributeMapping && typeof attributeMapping === 'object' && !Array.isArray(attributeMapping)
+        ? (attributeMapping as AuthSamlAttributeMapping)
+        : {},
+    allowIdpInitiated: Number(row.allow_idp_initiated) === 1,
+    enabled: Number(row.enabled) === 1,
+    enforceSso: Number(row.enforce_sso) === 1,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
+
+function mapSamlRequest(row: Row, now: string): AuthSamlRequest {
+  const consumedAt = optionalString(row.consumed_at)
+  const expiresAt = String(row.expires_at)
+  return {
+    id: String(row.id),
+    providerId: String(row.provider_id),
+    kind: String(row.kind) as AuthSamlRequest['kind'],
+    returnPath: String(row.return_path),
+    expiresAt,
+    consumedAt,
+    createdAt: String(row.created_at),
+    state: consumedAt ? 'consumed' : expiresAt <= now ? 'expired' : 'pending',
+  }
+}
+
+function mapSamlSubject(row: Row): AuthSamlSubject {
+  return {
+    id: String(row.id),
+    providerId: String(row.provider_id),
+    identityId: String(row.identity_id),
+    nameId: String(row.name_id),
+    email: String(row.email),
+    linkedAt: String(row.linked_at),
+    lastLoginAt: String(row.last_login_at),
+  }
+}
+
+function mapSamlSession(row: Row): AuthSamlSession {
+  return {
+    sessionId: String(row.session_id),
+    providerId: String(row.provider_id),
+    nameId: String(row.name_id),
+    nameIdFormat: optionalString(row.name_id_format),
+    nameQualifier: optionalString(row.name_qualifier),
+    spNameQualifier: optionalString(row.sp_name_qualifier),
+    sessionIndex: optionalString(row.session_index),
+    createdAt: String(row.created_at),
+  }
+}
+
 export class AuthenticationStore {
   private readonly nowFn: () => Date
   private readonly idFn: () => string
   private readonly encryptionKey?: Buffer
+  private readonly attestationRoots: string[]
 
   constructor(
     private readonly controlPlane: ControlPlaneStore,
@@ -234,6 +392,7 @@ export class AuthenticationStore {
     this.nowFn = options.now ?? (() => new Date())
     this.idFn = options.id ?? (() => crypto.randomUUID())
     this.encryptionKey = options.encryptionKey ? createHash('sha256').update(options.encryptionKey).digest() : undefined
+    this.attestationRoots = options.attestationRoots ?? []
   }
 
   private now(): string {
@@ -457,8 +616,8 @@ export class AuthenticationStore {
     )
     this.run(
       `INSERT INTO auth_sessions (id, identity_id, token_hash, credential_version, auth_method, user_agent, network_hint,
-      created_at, last_used_at, idle_expires_at, absolute_expires_at, recent_auth_at, mfa_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      created_at, last_used_at, idle_expires_at, absolute_expires_at, recent_auth_at, mfa_at, webauthn_credential_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         identity.id,
@@ -473,6 +632,7 @@ export class AuthenticationStore {
         new Date(this.nowFn().getTime() + absoluteTtl).toISOString(),
         input.recentAuthAt ?? now,
         input.mfaAt ?? null,
+        input.webauthnCredentialId ?? null,
       ],
     )
     return { session: this.getSession(id)!, token }
@@ -529,6 +689,13 @@ export class AuthenticationStore {
     )
   }
 
+  revokeSessions(identityId: string): number {
+    return this.controlPlane.database.run(
+      'UPDATE auth_sessions SET revoked_at = ? WHERE identity_id = ? AND revoked_at IS NULL',
+      [this.now(), identityId],
+    ).changes
+  }
+
   revokeOtherSessions(identityId: string, currentSessionId: string): number {
     return this.controlPlane.database.run(
       'UPDATE auth_sessions SET revoked_at = ? WHERE identity_id = ? AND id != ? AND revoked_at IS NULL',
@@ -673,7 +840,7 @@ export class AuthenticationStore {
     identityId: string,
     purpose: AuthMfaChallenge['purpose'],
   ): { challenge: AuthMfaChallenge; token: string } {
-    if (this.getMfaFactor(identityId)?.state !== 'active') throw new Error('MFA is not enabled')
+    if (!this.hasActiveMfa(identityId)) throw new Error('MFA is not enabled')
     const token = randomBytes(32).toString('base64url')
     const id = this.idFn()
     const now = this.now()
@@ -710,34 +877,62 @@ export class AuthenticationStore {
     code: string,
     purpose: AuthMfaChallenge['purpose'],
   ): { identity: AuthIdentity; challenge: AuthMfaChallenge; method: 'totp' | 'recovery' } {
+    const challenge = this.pendingMfaChallenge(token, purpose)
+    const verification = this.verifyMfaCode(challenge.identityId, code)
+    if (!verification.valid || !verification.method) {
+      this.run('UPDATE auth_mfa_challenges SET attempts = attempts + 1 WHERE id = ?', [challenge.id])
+      throw new Error('Authenticator or recovery code is invalid')
+    }
+    return { ...this.consumeMfaChallenge(challenge), method: verification.method }
+  }
+
+  /** Complete an MFA challenge with a WebAuthn assertion instead of a code. */
+  completeMfaChallengeWithWebAuthn(
+    token: string,
+    response: WebAuthnAssertionResponse,
+    options: { rpId: string; origin: string },
+    purpose: AuthMfaChallenge['purpose'],
+  ): { identity: AuthIdentity; challenge: AuthMfaChallenge; method: 'webauthn'; credential: AuthWebAuthnCredential } {
+    const challenge = this.pendingMfaChallenge(token, purpose)
+    let credential: AuthWebAuthnCredential
+    try {
+      credential = this.completeWebAuthnAuthentication(response, {
+        ...options,
+        purpose: 'mfa',
+        identityId: challenge.identityId,
+      }).credential
+    } catch (error) {
+      this.run('UPDATE auth_mfa_challenges SET attempts = attempts + 1 WHERE id = ?', [challenge.id])
+      throw error
+    }
+    return { ...this.consumeMfaChallenge(challenge), method: 'webauthn', credential }
+  }
+
+  private pendingMfaChallenge(token: string, purpose: AuthMfaChallenge['purpose']): AuthMfaChallenge {
     const row = this.controlPlane.database
       .query<Row, [string, string]>('SELECT * FROM auth_mfa_challenges WHERE token_hash = ? AND purpose = ?')
       .get(hashToken(token), purpose)
     if (!row) throw new Error('MFA challenge is invalid')
     const challenge = mapMfaChallenge(row, this.now())
     if (challenge.state !== 'pending') throw new Error(`MFA challenge is ${challenge.state}`)
-    const verification = this.verifyMfaCode(challenge.identityId, code)
-    if (!verification.valid || !verification.method) {
-      this.run('UPDATE auth_mfa_challenges SET attempts = attempts + 1 WHERE id = ?', [challenge.id])
-      throw new Error('Authenticator or recovery code is invalid')
-    }
+    return challenge
+  }
+
+  private consumeMfaChallenge(challenge: AuthMfaChallenge): { identity: AuthIdentity; challenge: AuthMfaChallenge } {
     const consumed = this.controlPlane.database.run(
       'UPDATE auth_mfa_challenges SET consumed_at = ? WHERE id = ? AND consumed_at IS NULL AND attempts < 5 AND expires_at > ?',
       [this.now(), challenge.id, this.now()],
     ).changes
     if (consumed !== 1) throw new Error('MFA challenge is no longer available')
-    return {
-      identity: this.getIdentity(challenge.identityId)!,
-      challenge: this.getMfaChallenge(challenge.id)!,
-      method: verification.method,
-    }
+    return { identity: this.getIdentity(challenge.identityId)!, challenge: this.getMfaChallenge(challenge.id)! }
   }
 
-  markSessionStepUp(sessionId: string, mfa: boolean = false): AuthSession {
+  markSessionStepUp(sessionId: string, mfa: boolean = false, webauthnCredentialId?: string): AuthSession {
     const now = this.now()
     this.run(
-      'UPDATE auth_sessions SET recent_auth_at = ?, mfa_at = CASE WHEN ? = 1 THEN ? ELSE mfa_at END WHERE id = ? AND revoked_at IS NULL',
-      [now, mfa ? 1 : 0, now, sessionId],
+      `UPDATE auth_sessions SET recent_auth_at = ?, mfa_at = CASE WHEN ? = 1 THEN ? ELSE mfa_at END,
+      webauthn_credential_id = COALESCE(?, webauthn_credential_id) WHERE id = ? AND revoked_at IS NULL`,
+      [now, mfa ? 1 : 0, now, webauthnCredentialId ?? null, sessionId],
     )
     const session = this.getSession(sessionId)
     if (!session) throw new Error('Authentication session was not found')
@@ -748,17 +943,304 @@ export class AuthenticationStore {
     return this.nowFn().getTime() - new Date(session.recentAuthAt).getTime() <= maxAgeMs
   }
 
+  listWebAuthnCredentials(identityId: string, options: { includeDisabled?: boolean } = {}): AuthWebAuthnCredential[] {
+    const credentials = this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM auth_webauthn_credentials WHERE identity_id = ? ORDER BY created_at')
+      .all(identityId)
+      .map(mapWebAuthnCredential)
+    return options.includeDisabled ? credentials : credentials.filter((credential) => credential.state === 'active')
+  }
+
+  getWebAuthnCredential(id: string): AuthWebAuthnCredential | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM auth_webauthn_credentials WHERE id = ?')
+      .get(id)
+    return row ? mapWebAuthnCredential(row) : undefined
+  }
+
+  /** Every second factor an identity has: its authenticator app and each WebAuthn credential. */
+  listMfaFactors(identityId: string): AuthMfaFactor[] {
+    const totp = this.getMfaFactor(identityId)
+    return [
+      ...(totp ? [totp] : []),
+      ...this.listWebAuthnCredentials(identityId, { includeDisabled: true }).map(
+        (credential): AuthMfaFactor => ({
+          id: credential.id,
+          identityId,
+          type: 'webauthn',
+          label: credential.label,
+          createdAt: credential.createdAt,
+          verifiedAt: credential.createdAt,
+          disabledAt: credential.disabledAt,
+          state: credential.state,
+        }),
+      ),
+    ]
+  }
+
+  hasActiveMfa(identityId: string): boolean {
+    return (
+      this.getMfaFactor(identityId)?.state === 'active' || this.listWebAuthnCredentials(identityId).length > 0
+    )
+  }
+
+  private createWebAuthnChallenge(purpose: AuthWebAuthnPurpose, identityId?: string): string {
+    const challenge = randomBytes(32).toString('base64url')
+    const now = this.now()
+    this.controlPlane.transaction(() => {
+      if (identityId)
+        this.run(
+          'UPDATE auth_webauthn_challenges SET consumed_at = ? WHERE identity_id = ? AND purpose = ? AND consumed_at IS NULL',
+          [now, identityId, purpose],
+        )
+      this.run(
+        'INSERT INTO auth_webauthn_challenges (id, identity_id, purpose, challenge_hash, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+        [
+          this.idFn(),
+          identityId ?? null,
+          purpose,
+          hashToken(challenge),
+          new Date(this.nowFn().getTime() + AUTH_WEBAUTHN_CHALLENGE_TTL_MS).toISOString(),
+          now,
+        ],
+      )
+    })
+    return challenge
+  }
+
+  /** Consume the challenge a response was made for. Each challenge verifies at most one response. */
+  private consumeWebAuthnChallenge(
+    clientDataJSON: string,
+    purpose: AuthWebAuthnPurpose,
+    identityId?: string,
+  ): { challenge: string; identityId?: string } {
+    const { challenge } = readWebAuthnClientData(clientDataJSON)
+    const now = this.now()
+    return this.controlPlane.transaction(() => {
+      const row = this.controlPlane.database
+        .query<Row, [string, string]>('SELECT * FROM auth_webauthn_challenges WHERE challenge_hash = ? AND purpose = ?')
+        .get(hashToken(challenge), purpose)
+      if (!row || optionalString(row.identity_id) !== identityId) throw new Error('WebAuthn challenge is invalid')
+      const consumed = this.controlPlane.database.run(
+        'UPDATE auth_webauthn_challenges SET consumed_at = ? WHERE id = ? AND consumed_at IS NULL AND expires_at > ?',
+        [now, String(row.id), now],
+      ).changes
+      if (consumed !== 1) throw new Error('WebAuthn challenge is no longer available')
+      return { challenge, identityId }
+    })
+  }
+
+  beginWebAuthnRegistration(identityId: string, rp: { id: string; name: string }): AuthWebAuthnCreationOptions {
+    const identity = this.getIdentity(identityId)
+    if (!identity || identity.disabledAt) throw new Error('Authentication identity is unavailable')
+    return {
+      challenge: this.createWebAuthnChallenge('register', identityId),
+      rp,
+      user: {
+        id: Buffer.from(identity.id).toString('base64url'),
+        name: identity.username,
+        displayName: identity.email ?? identity.username,
+      },
+      pubKeyCredParams: WEBAUTHN_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+      excludeCredentials: this.listWebAuthnCredentials(identityId, { includeDisabled: true }).map((credential) => ({
+        type: 'public-key',
+        id: credential.credentialId,
+        transports: credential.transports,
+      })),
+      authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' },
+      attestation: 'direct',
+      timeout: AUTH_WEBAUTHN_CHALLENGE_TTL_MS,
+    }
+  }
+
+  completeWebAuthnRegistration(
+    identityId: string,
+    response: WebAuthnRegistrationResponse,
+    options: { rpId: string; origin: string; label?: string },
+  ): AuthWebAuthnCredential {
+    const { challenge } = this.consumeWebAuthnChallenge(response.response.clientDataJSON, 'register', identityId)
+    const verified = verifyWebAuthnRegistration(response, {
+      challenge,
+      rpId: options.rpId,
+      origin: options.origin,
+      now: this.nowFn(),
+      attestationRoots: this.attestationRoots,
+    })
+    const existing = this.controlPlane.database
+      .query<Row, [string]>('SELECT id FROM auth_webauthn_credentials WHERE credential_id = ?')
+      .get(verified.credentialId)
+    if (existing) throw new Error('This security key is already registered')
+    const id = this.idFn()
+    const label =
+      options.label?.trim().slice(0, 80) ||
+      (verified.backupEligible ? 'Passkey' : 'Security key')
+    this.run(
+      `INSERT INTO auth_webauthn_credentials (id, identity_id, credential_id, public_key, algorithm, sign_count, transports, aaguid,
+      attestation_format, attestation_type, attestation_trusted, backup_eligible, backed_up, label, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        identityId,
+        verified.credentialId,
+        verified.publicKey,
+        verified.algorithm,
+        verified.signCount,
+        JSON.stringify(verified.transports),
+        verified.aaguid,
+        verified.attestationFormat,
+        verified.attestationType,
+        verified.attestationTrusted ? 1 : 0,
+        verified.backupEligible ? 1 : 0,
+        verified.backedUp ? 1 : 0,
+        label,
+        this.now(),
+      ],
+    )
+    return this.getWebAuthnCredential(id)!
+  }
+
+  /**
+   * Start an assertion. Passwordless `login` challenges are not tied to an
+   * identity and leave the credential choice to the authenticator; the
+   * others list the identity's credentials.
+   */
+  beginWebAuthnAuthentication(
+    purpose: Exclude<AuthWebAuthnPurpose, 'register'>,
+    rpId: string,
+    identityId?: string,
+  ): AuthWebAuthnRequestOptions {
+    if (purpose !== 'login' && !identityId) throw new Error('WebAuthn challenge requires an identity')
+    const credentials = identityId ? this.listWebAuthnCredentials(identityId) : []
+    if (identityId && credentials.length === 0) throw new Error('No security key is registered')
+    return {
+      challenge: this.createWebAuthnChallenge(purpose, purpose === 'login' ? undefined : identityId),
+      rpId,
+      allowCredentials: credentials.map((credential) => ({
+        type: 'public-key',
+        id: credential.credentialId,
+        transports: credential.transports,
+      })),
+      userVerification: purpose === 'login' ? 'required' : 'preferred',
+      timeout: AUTH_WEBAUTHN_CHALLENGE_TTL_MS,
+    }
+  }
+
+  /**
+   * Verify an assertion and advance the credential's signature counter.
+   * Passwordless sign-in requires user verification, since the credential is
+   * then the only factor.
+   */
+  completeWebAuthnAuthentication(
+    response: WebAuthnAssertionResponse,
+    options: { purpose: Exclude<AuthWebAuthnPurpose, 'register'>; rpId: string; origin: string; identityId?: string },
+  ): { identity: AuthIdentity; credential: AuthWebAuthnCredential; userVerified: boolean } {
+    const passwordless = options.purpose === 'login'
+    const { challenge } = this.consumeWebAuthnChallenge(
+      response.response.clientDataJSON,
+      options.purpose,
+      passwordless ? undefined : options.identityId,
+    )
+    const row = this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM auth_webauthn_credentials WHERE credential_id = ? AND disabled_at IS NULL')
+      .get(String(response.id))
+    if (!row) throw new Error('Security key is not registered')
+    const stored = mapWebAuthnCredential(row)
+    if (!passwordless && stored.identityId !== options.identityId)
+      throw new Error('Security key belongs to another identity')
+    const verified = verifyWebAuthnAssertion(response, {
+      challenge,
+      rpId: options.rpId,
+      origin: options.origin,
+      requireUserVerification: passwordless,
+      publicKey: String(row.public_key),
+      signCount: stored.signCount,
+    })
+    if (verified.userHandle && verified.userHandle !== Buffer.from(stored.identityId).toString('base64url'))
+      throw new Error('Security key user handle does not match')
+    const identity = this.getIdentity(stored.identityId)
+    if (!identity || identity.disabledAt) throw new Error('Authentication identity is unavailable')
+    const advanced = this.controlPlane.database.run(
+      'UPDATE auth_webauthn_credentials SET sign_count = ?, backed_up = ?, last_used_at = ? WHERE id = ? AND sign_count = ?',
+      [verified.signCount, verified.backedUp ? 1 : 0, this.now(), stored.id, stored.signCount],
+    ).changes
+    if (advanced !== 1) throw new Error('Security key was used concurrently')
+    return { identity, credential: this.getWebAuthnCredential(stored.id)!, userVerified: verified.userVerified }
+  }
+
+  disableWebAuthnCredential(identityId: string, id: string): AuthWebAuthnCredential {
+    const changed = this.controlPlane.database.run(
+      'UPDATE auth_webauthn_credentials SET disabled_at = ? WHERE id = ? AND identity_id = ? AND disabled_at IS NULL',
+      [this.now(), id, identityId],
+    ).changes
+    if (changed !== 1) throw new Error('Security key was not found')
+    return this.getWebAuthnCredential(id)!
+  }
+
+  listFactorRequirements(organizationId: string): AuthFactorRequirement[] {
+    return this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM auth_factor_requirements WHERE organization_id = ? ORDER BY capability')
+      .all(organizationId)
+      .map(mapFactorRequirement)
+  }
+
+  getFactorRequirement(organizationId: string, capability: AuthorizationCapability): AuthFactorRequirement | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string, string]>(
+        'SELECT * FROM auth_factor_requirements WHERE organization_id = ? AND capability = ?',
+      )
+      .get(organizationId, capability)
+    return row ? mapFactorRequirement(row) : undefined
+  }
+
+  /** Replace the organization's requirements with `requirements`. */
+  setFactorRequirements(
+    organizationId: string,
+    requirements: { capability: AuthorizationCapability; requireAttestation?: boolean }[],
+    actorId?: string,
+  ): AuthFactorRequirement[] {
+    const now = this.now()
+    this.controlPlane.transaction(() => {
+      this.run('DELETE FROM auth_factor_requirements WHERE organization_id = ?', [organizationId])
+      for (const requirement of requirements) {
+        this.run(
+          `INSERT INTO auth_factor_requirements (organization_id, capability, require_attestation, created_by, created_at)
+          VALUES (?, ?, ?, ?, ?)`,
+          [organizationId, requirement.capability, requirement.requireAttestation ? 1 : 0, actorId ?? null, now],
+        )
+      }
+    })
+    return this.listFactorRequirements(organizationId)
+  }
+
+  /**
+   * Whether a session was verified with a credential that meets `requirement`:
+   * still active, device-bound, and, when required, attested by a certificate
+   * that chains to a configured trust anchor.
+   */
+  satisfiesFactorRequirement(session: AuthSession, requirement: AuthFactorRequirement): boolean {
+    const credential = session.webauthnCredentialId
+      ? this.getWebAuthnCredential(session.webauthnCredentialId)
+      : undefined
+    return (
+      !!credential &&
+      credential.state === 'active' &&
+      credential.identityId === session.identityId &&
+      !credential.backupEligible &&
+      (!requirement.requireAttestation || credential.attestationTrusted)
+    )
+  }
+
   upsertOidcProvider(input: UpsertAuthOidcProviderInput): AuthOidcProvider {
     if (!this.controlPlane.getOrganization(input.organizationId))
       throw new Error('OIDC provider organization was not found')
-    const slug = normalizeOidcSlug(input.slug)
+    const slug = normalizeProviderSlug(input.slug, 'OIDC')
     const name = input.name.trim().slice(0, 80)
     if (!name) throw new Error('OIDC provider name is required')
     const issuer = normalizeOidcIssuer(input.issuer)
     const clientId = input.clientId.trim()
     if (!clientId || clientId.length > 512) throw new Error('OIDC client ID is required')
     const scopes = normalizeOidcScopes(input.scopes)
-    const domains = normalizeOidcDomains(input.allowedDomains)
+    const domains = normalizeProviderDomains(input.allowedDomains, 'OIDC')
     const existing = input.id ? this.getOidcProvider(input.id) : this.getOidcProviderBySlug(slug)
     const now = this.now()
     if (existing) {
@@ -962,6 +1444,285 @@ export class AuthenticationStore {
     return this.getOidcSubject(providerId, subject)!
   }
 
+  upsertSamlProvider(input: UpsertAuthSamlProviderInput): AuthSamlProvider {
+    if (!this.controlPlane.getOrganization(input.organizationId))
+      throw new Error('SAML provider organization was not found')
+    const slug = normalizeProviderSlug(input.slug, 'SAML')
+    const name = input.name.trim().slice(0, 80)
+    if (!name) throw new Error('SAML provider name is required')
+    const domains = normalizeProviderDomains(input.allowedDomains, 'SAML')
+    const roleMappings = input.roleMappings ? normalizeSamlRoleMappings(input.roleMappings) : undefined
+    const attributeMapping = input.attributeMapping ? normalizeSamlAttributeMapping(input.attributeMapping) : undefined
+    const metadata = input.metadata ? normalizeSamlMetadata(input.metadata) : undefined
+    const existing = input.id ? this.getSamlProvider(input.id) : this.getSamlProviderBySlug(slug)
+    const now = this.now()
+    if (existing) {
+      if (existing.organizationId !== input.organizationId)
+        throw new Error('SAML provider belongs to another organization')
+      const next = metadata ?? existing
+      this.run(
+        `UPDATE auth_saml_providers SET slug = ?, name = ?, entity_id = ?, sso_url = ?, slo_url = ?, slo_response_url = ?,
+        idp_certificates = ?, allowed_domains = ?, default_role = ?, role_mappings = ?, attribute_mapping = ?,
+        allow_idp_initiated = ?, enabled = ?, enforce_sso = ?, updated_at = ? WHERE id = ?`,
+        [
+          slug,
+          name,
+          next.entityId,
+          next.ssoUrl,
+          next.sloUrl ?? null,
+          next.sloResponseUrl ?? null,
+          JSON.stringify(next.certificates),
+          JSON.stringify(domains),
+          input.defaultRole ?? existing.defaultRole,
+          JSON.stringify(roleMappings ?? existing.roleMappings),
+          JSON.stringify(attributeMapping ?? existing.attributeMapping),
+          (input.allowIdpInitiated ?? existing.allowIdpInitiated) ? 1 : 0,
+          (input.enabled ?? existing.enabled) ? 1 : 0,
+          (input.enforceSso ?? existing.enforceSso) ? 1 : 0,
+          now,
+          existing.id,
+        ],
+      )
+      return this.getSamlProvider(existing.id)!
+    }
+    if (!metadata) throw new Error('SAML identity provider metadata is required for a new provider')
+    const id = input.id ?? this.idFn()
+    const key = createSamlServiceProviderKey(`ts-cloud SAML ${slug}`, this.nowFn())
+    this.run(
+      `INSERT INTO auth_saml_providers (id, organization_id, slug, name, entity_id, sso_url, slo_url, slo_response_url,
+      idp_certificates, sp_private_key_ciphertext, sp_certificate, allowed_domains, default_role, role_mappings,
+      attribute_mapping, allow_idp_initiated, enabled, enforce_sso, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        input.organizationId,
+        slug,
+        name,
+        metadata.entityId,
+        metadata.ssoUrl,
+        metadata.sloUrl ?? null,
+        metadata.sloResponseUrl ?? null,
+        JSON.stringify(metadata.certificates),
+        this.encrypt(key.privateKey),
+        key.certificate,
+        JSON.stringify(domains),
+        input.defaultRole ?? 'viewer',
+        JSON.stringify(roleMappings ?? []),
+        JSON.stringify(attributeMapping ?? {}),
+        input.allowIdpInitiated ? 1 : 0,
+        input.enabled === false ? 0 : 1,
+        input.enforceSso ? 1 : 0,
+        now,
+        now,
+      ],
+    )
+    return this.getSamlProvider(id)!
+  }
+
+  getSamlProvider(id: string): AuthSamlProvider | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM auth_saml_providers WHERE id = ?')
+      .get(id)
+    return row ? mapSamlProvider(row) : undefined
+  }
+
+  getSamlProviderBySlug(slug: string): AuthSamlProvider | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM auth_saml_providers WHERE slug = ? COLLATE NOCASE')
+      .get(slug.trim())
+    return row ? mapSamlProvider(row) : undefined
+  }
+
+  listSamlProviders(organizationId?: string, options: { includeDisabled?: boolean } = {}): AuthSamlProvider[] {
+    const rows = organizationId
+      ? this.controlPlane.database
+          .query<Row, [string]>(
+            'SELECT * FROM auth_saml_providers WHERE organization_id = ? ORDER BY name COLLATE NOCASE',
+          )
+          .all(organizationId)
+      : this.controlPlane.database
+          .query<Row, []>('SELECT * FROM auth_saml_providers ORDER BY name COLLATE NOCASE')
+          .all()
+    return rows.map(mapSamlProvider).filter((provider) => options.includeDisabled || provider.enabled)
+  }
+
+  setSamlProviderEnabled(providerId: string, enabled: boolean): AuthSamlProvider {
+    const now = this.now()
+    const result = this.controlPlane.database.run(
+      'UPDATE auth_saml_providers SET enabled = ?, enforce_sso = CASE WHEN ? = 0 THEN 0 ELSE enforce_sso END, updated_at = ? WHERE id = ?',
+      [enabled ? 1 : 0, enabled ? 1 : 0, now, providerId],
+    )
+    if (result.changes !== 1) throw new Error('SAML provider was not found')
+    if (!enabled)
+      this.run('UPDATE auth_saml_requests SET consumed_at = ? WHERE provider_id = ? AND consumed_at IS NULL', [
+        now,
+        providerId,
+      ])
+    return this.getSamlProvider(providerId)!
+  }
+
+  /** The PEM private key that signs our requests to this provider. */
+  getSamlServiceProviderKey(providerId: string): string {
+    const row = this.controlPlane.database
+      .query<Row, [string]>('SELECT sp_private_key_ciphertext FROM auth_saml_providers WHERE id = ?')
+      .get(providerId)
+    if (!row || typeof row.sp_private_key_ciphertext !== 'string')
+      throw new Error('SAML service provider key is unavailable')
+    return this.decrypt(row.sp_private_key_ciphertext)
+  }
+
+  /**
+   * Record an outgoing AuthnRequest or LogoutRequest. The returned relay
+   * state travels with it and must come back with the IdP's answer.
+   */
+  beginSamlRequest(
+    providerId: string,
+    kind: AuthSamlRequest['kind'],
+    returnPath: string,
+  ): { request: AuthSamlRequest; relayState: string } {
+    const provider = this.getSamlProvider(providerId)
+    if (!provider?.enabled) throw new Error('SAML provider is unavailable')
+    // SAML IDs are xs:ID values, which cannot start with a digit
+    const id = `_${randomBytes(20).toString('hex')}`
+    const relayState = randomBytes(32).toString('base64url')
+    const now = this.now()
+    this.run(
+      `INSERT INTO auth_saml_requests (id, provider_id, kind, relay_state_hash, return_path, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        providerId,
+        kind,
+        hashToken(relayState),
+        returnPath,
+        new Date(this.nowFn().getTime() + AUTH_SAML_REQUEST_TTL_MS).toISOString(),
+        now,
+      ],
+    )
+    return { request: this.getSamlRequest(id)!, relayState }
+  }
+
+  getSamlRequest(id: string): AuthSamlRequest | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM auth_saml_requests WHERE id = ?')
+      .get(id)
+    return row ? mapSamlRequest(row, this.now()) : undefined
+  }
+
+  /** Consume the request an IdP message answers. Both its ID and our relay state must match. */
+  consumeSamlRequest(
+    providerId: string,
+    kind: AuthSamlRequest['kind'],
+    requestId: string,
+    relayState: string,
+  ): AuthSamlRequest {
+    return this.controlPlane.transaction(() => {
+      const row = this.controlPlane.database
+        .query<Row, [string, string, string, string]>(
+          'SELECT * FROM auth_saml_requests WHERE id = ? AND provider_id = ? AND kind = ? AND relay_state_hash = ?',
+        )
+        .get(requestId, providerId, kind, hashToken(relayState))
+      if (!row) throw new Error('SAML request is invalid')
+      const request = mapSamlRequest(row, this.now())
+      if (request.state !== 'pending') throw new Error(`SAML request is ${request.state}`)
+      const consumed = this.controlPlane.database.run(
+        'UPDATE auth_saml_requests SET consumed_at = ? WHERE id = ? AND consumed_at IS NULL AND expires_at > ?',
+        [this.now(), request.id, this.now()],
+      ).changes
+      if (consumed !== 1) throw new Error('SAML request is no longer available')
+      return this.getSamlRequest(request.id)!
+    })
+  }
+
+  /** Remember an assertion until it expires, so it signs in once. */
+  recordSamlAssertion(providerId: string, assertionId: string, expiresAt: string): void {
+    const inserted = this.controlPlane.database.run(
+      'INSERT OR IGNORE INTO auth_saml_assertions (provider_id, assertion_id, expires_at) VALUES (?, ?, ?)',
+      [providerId, assertionId, expiresAt],
+    ).changes
+    if (inserted !== 1) throw new Error('SAML assertion was already used')
+  }
+
+  getSamlSubject(providerId: string, nameId: string): AuthSamlSubject | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string, string]>('SELECT * FROM auth_saml_subjects WHERE provider_id = ? AND name_id = ?')
+      .get(providerId, nameId)
+    return row ? mapSamlSubject(row) : undefined
+  }
+
+  linkSamlSubject(providerId: string, identityId: string, nameId: string, email: string): AuthSamlSubject {
+    const provider = this.getSamlProvider(providerId)
+    const identity = this.getIdentity(identityId)
+    if (!provider || !identity) throw new Error('SAML provider or identity was not found')
+    const normalizedEmail = normalizeEmail(email)!
+    if (!nameId.trim() || nameId.length > 512) throw new Error('SAML name ID is invalid')
+    const existing = this.getSamlSubject(providerId, nameId)
+    if (existing && existing.identityId !== identityId)
+      throw new Error('SAML name ID is already linked to another identity')
+    const now = this.now()
+    if (existing) {
+      this.run('UPDATE auth_saml_subjects SET email = ?, last_login_at = ? WHERE id = ?', [
+        normalizedEmail,
+        now,
+        existing.id,
+      ])
+      return this.getSamlSubject(providerId, nameId)!
+    }
+    const id = this.idFn()
+    this.run(
+      'INSERT INTO auth_saml_subjects (id, provider_id, identity_id, name_id, email, linked_at, last_login_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [id, providerId, identityId, nameId, normalizedEmail, now, now],
+    )
+    return this.getSamlSubject(providerId, nameId)!
+  }
+
+  recordSamlSession(input: Omit<AuthSamlSession, 'createdAt'>): AuthSamlSession {
+    this.run(
+      `INSERT INTO auth_saml_sessions (session_id, provider_id, name_id, name_id_format, name_qualifier,
+      sp_name_qualifier, session_index, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        input.sessionId,
+        input.providerId,
+        input.nameId,
+        input.nameIdFormat ?? null,
+        input.nameQualifier ?? null,
+        input.spNameQualifier ?? null,
+        input.sessionIndex ?? null,
+        this.now(),
+      ],
+    )
+    return this.getSamlSession(input.sessionId)!
+  }
+
+  getSamlSession(sessionId: string): AuthSamlSession | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM auth_saml_sessions WHERE session_id = ?')
+      .get(sessionId)
+    return row ? mapSamlSession(row) : undefined
+  }
+
+  /**
+   * Revoke the dashboard sessions an IdP LogoutRequest names: every session
+   * of the name ID, or only those with one of the given session indexes.
+   */
+  revokeSamlSessions(providerId: string, nameId: string, sessionIndexes: string[] = []): number {
+    const sessions = this.controlPlane.database
+      .query<Row, [string, string]>('SELECT * FROM auth_saml_sessions WHERE provider_id = ? AND name_id = ?')
+      .all(providerId, nameId)
+      .map(mapSamlSession)
+      .filter((session) => sessionIndexes.length === 0 || sessionIndexes.includes(session.sessionIndex ?? ''))
+    const now = this.now()
+    return sessions.reduce(
+      (revoked, session) =>
+        revoked +
+        this.controlPlane.database.run('UPDATE auth_sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL', [
+          now,
+          session.sessionId,
+        ]).changes,
+      0,
+    )
+  }
+
   purgeExpired(): { actionTokens: number; sessions: number } {
     const now = this.now()
     const actionTokens = this.controlPlane.database.run(
@@ -979,6 +1740,14 @@ export class AuthenticationStore {
       'DELETE FROM auth_oidc_transactions WHERE consumed_at IS NOT NULL OR expires_at < ?',
       [now],
     )
+    this.controlPlane.database.run(
+      'DELETE FROM auth_webauthn_challenges WHERE consumed_at IS NOT NULL OR expires_at < ?',
+      [now],
+    )
+    this.controlPlane.database.run('DELETE FROM auth_saml_requests WHERE consumed_at IS NOT NULL OR expires_at < ?', [
+      now,
+    ])
+    this.controlPlane.database.run('DELETE FROM auth_saml_assertions WHERE expires_at < ?', [now])
     return { actionTokens, sessions }
   }
 }
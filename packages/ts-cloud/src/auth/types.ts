@@ -1,7 +1,7 @@
-import type { ControlPlaneId, JsonValue } from '../control-plane/types'
+import type { AuthorizationCapability, AuthorizationScope, ControlPlaneId, JsonValue, OrganizationRoleTemplate } from '../control-plane/types'
 
 export type AuthActionTokenType = 'activation' | 'password_reset' | 'email_verification'
-export type AuthMethod = 'local' | 'oidc'
+export type AuthMethod = 'local' | 'oidc' | 'passkey' | 'saml'
 
 export interface AuthIdentity {
   id: ControlPlaneId
@@ -42,6 +42,8 @@ export interface AuthSession {
   absoluteExpiresAt: string
   recentAuthAt: string
   mfaAt?: string
+  /** The WebAuthn credential most recently used to sign in or step up in this session. */
+  webauthnCredentialId?: ControlPlaneId
   revokedAt?: string
   state: 'active' | 'revoked' | 'expired'
 }
@@ -65,6 +67,7 @@ export interface CreateAuthSessionInput {
   absoluteTtlMs?: number
   recentAuthAt?: string
   mfaAt?: string
+  webauthnCredentialId?: ControlPlaneId
 }
 
 export interface AuthenticationStoreOptions {
@@ -72,6 +75,8 @@ export interface AuthenticationStoreOptions {
   id?: () => string
   /** Secret used to encrypt MFA seeds at rest. MFA methods require it. */
   encryptionKey?: string
+  /** PEM trust anchors for WebAuthn attestation certificates; see `resolveWebAuthnAttestationRoots`. */
+  attestationRoots?: string[]
 }
 
 export type AuthOidcRole = 'admin' | 'deployer' | 'operator' | 'viewer' | 'auditor'
@@ -129,10 +134,217 @@ export interface AuthOidcSubject {
   lastLoginAt: string
 }
 
+/** What an IdP's SAML metadata tells us: where to send users, and which certificates sign for it. */
+export interface AuthSamlIdpMetadata {
+  entityId: string
+  ssoUrl: string
+  sloUrl?: string
+  /** Where LogoutResponses go, when the IdP separates them from LogoutRequests. */
+  sloResponseUrl?: string
+  /** Base64 DER signing certificates. More than one during a certificate rollover. */
+  certificates: string[]
+}
+
+/** Maps an attribute value onto an organization role. The first matching mapping wins. */
+export interface AuthSamlRoleMapping {
+  /** Attribute name. Defaults to the provider's groups attribute. */
+  attribute?: string
+  value: string
+  role: AuthOidcRole
+}
+
+/** Attribute names to read instead of the common ADFS, Okta and Shibboleth defaults. */
+export interface AuthSamlAttributeMapping {
+  email?: string
+  name?: string
+  groups?: string
+}
+
+export interface AuthSamlProvider extends AuthSamlIdpMetadata {
+  id: ControlPlaneId
+  organizationId: ControlPlaneId
+  slug: string
+  name: string
+  /** PEM certificate for the key that signs our AuthnRequests and logout messages. */
+  spCertificate: string
+  allowedDomains: string[]
+  defaultRole: AuthOidcRole
+  roleMappings: AuthSamlRoleMapping[]
+  attributeMapping: AuthSamlAttributeMapping
+  allowIdpInitiated: boolean
+  enabled: boolean
+  enforceSso: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface UpsertAuthSamlProviderInput {
+  id?: ControlPlaneId
+  organizationId: ControlPlaneId
+  slug: string
+  name: string
+  /** Required for a new provider; an update without it keeps the imported metadata. */
+  metadata?: AuthSamlIdpMetadata
+  allowedDomains: string[]
+  defaultRole?: AuthOidcRole
+  roleMappings?: AuthSamlRoleMapping[]
+  attributeMapping?: AuthSamlAttributeMapping
+  allowIdpInitiated?: boolean
+  enabled?: boolean
+  enforceSso?: boolean
+}
+
+export interface AuthSamlRequest {
+  /** The ID of the AuthnRequest or LogoutRequest, echoed back as InResponseTo. */
+  id: string
+  providerId: ControlPlaneId
+  kind: 'authn' | 'logout'
+  returnPath: string
+  expiresAt: string
+  consumedAt?: string
+  createdAt: string
+  state: 'pending' | 'consumed' | 'expired'
+}
+
+export interface AuthSamlSubject {
+  id: ControlPlaneId
+  providerId: ControlPlaneId
+  identityId: ControlPlaneId
+  nameId: string
+  email: string
+  linkedAt: string
+  lastLoginAt: string
+}
+
+/** The IdP session behind a dashboard session, kept for single logout. */
+export interface AuthSamlSession {
+  sessionId: ControlPlaneId
+  providerId: ControlPlaneId
+  nameId: string
+  nameIdFormat?: string
+  nameQualifier?: string
+  spNameQualifier?: string
+  sessionIndex?: string
+  createdAt: string
+}
+
+/** A user a SCIM client provisioned, with the membership state it controls. */
+export interface AuthScimUser {
+  id: ControlPlaneId
+  organizationId: ControlPlaneId
+  identityId: ControlPlaneId
+  userName: string
+  externalId?: string
+  displayName?: string
+  givenName?: string
+  familyName?: string
+  email: string
+  /** Whether the organization membership is active. */
+  active: boolean
+  role: OrganizationRoleTemplate
+  groupIds: ControlPlaneId[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AuthScimUserInput {
+  userName: string
+  externalId?: string
+  displayName?: string
+  givenName?: string
+  familyName?: string
+  email: string
+  active: boolean
+  /** Leaves the current role in place when omitted. New users start as viewers. */
+  role?: OrganizationRoleTemplate
+}
+
+/** Members of a group receive the role's capabilities at the scope, as SCIM grants. */
+export interface AuthScimGroupMapping {
+  role: AuthOidcRole
+  scope: AuthorizationScope
+}
+
+export interface AuthScimGroup {
+  id: ControlPlaneId
+  organizationId: ControlPlaneId
+  displayName: string
+  externalId?: string
+  /** Set by an administrator, never by the SCIM client. Unmapped groups grant nothing. */
+  mapping?: AuthScimGroupMapping
+  memberIds: ControlPlaneId[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AuthScimGroupInput {
+  displayName: string
+  externalId?: string
+  memberIds: ControlPlaneId[]
+}
+
+export type AuthAccessRequestState = 'pending' | 'approved' | 'denied' | 'cancelled' | 'revoked' | 'expired'
+
+/**
+ * A member's request for one capability at one scope for a limited time.
+ * Approval grants it until `expiresAt`; a break-glass request approves itself.
+ */
+export interface AuthAccessRequest {
+  id: ControlPlaneId
+  organizationId: ControlPlaneId
+  membershipId: ControlPlaneId
+  capability: AuthorizationCapability
+  scope: AuthorizationScope
+  justification: string
+  durationSeconds: number
+  breakGlass: boolean
+  state: AuthAccessRequestState
+  decidedByActorId?: ControlPlaneId
+  decisionNote?: string
+  approvedAt?: string
+  expiresAt?: string
+  /** When an approved request was revoked or ran out. */
+  endedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AuthAccessRequestInput {
+  organizationId: ControlPlaneId
+  membershipId: ControlPlaneId
+  capability: AuthorizationCapability
+  scope?: AuthorizationScope
+  justification: string
+  durationSeconds: number
+}
+
+export interface AuthAccessRequestDecision {
+  actorId: ControlPlaneId
+  note?: string
+}
+
+/**
+ * Who may use break-glass for a capability: everyone with a role template, or
+ * one membership. Exactly one of `roleTemplate` and `membershipId` is set.
+ */
+export interface AuthBreakGlassEligibility {
+  organizationId: ControlPlaneId
+  roleTemplate?: OrganizationRoleTemplate
+  membershipId?: ControlPlaneId
+  capability: AuthorizationCapability
+  createdBy?: ControlPlaneId
+  createdAt: string
+}
+
+export type AuthBreakGlassEligibilityInput = Pick<
+  AuthBreakGlassEligibility,
+  'roleTemplate' | 'membershipId' | 'capability'
+>
+
 export interface AuthMfaFactor {
   id: ControlPlaneId
   identityId: ControlPlaneId
-  type: 'totp'
+  type: 'totp' | 'webauthn'
   label: string
   createdAt: string
   verifiedAt?: string
@@ -150,3 +362,61 @@ export interface AuthMfaChallenge {
   createdAt: string
   state: 'pending' | 'consumed' | 'expired' | 'locked'
 }
+
+export interface AuthWebAuthnCredential {
+  id: ControlPlaneId
+  identityId: ControlPlaneId
+  /** base64url credential ID chosen by the authenticator */
+  credentialId: string
+  algorithm: number
+  signCount: number
+  transports: string[]
+  aaguid: string
+  attestationFormat: string
+  attestationType: 'none' | 'self' | 'basic'
+  /** The attestation certificate chains to a configured trust anchor. */
+  attestationTrusted: boolean
+  /** Synced passkeys are backup eligible; security keys and device-bound platform keys are not. */
+  backupEligible: boolean
+  backedUp: boolean
+  label: string
+  createdAt: string
+  lastUsedAt?: string
+  disabledAt?: string
+  state: 'active' | 'disabled'
+}
+
+export type AuthWebAuthnPurpose = 'register' | 'login' | 'mfa' | 'step_up'
+
+/** `PublicKeyCredentialCreationOptions` in the JSON form browsers parse with `parseCreationOptionsFromJSON`. */
+export interface AuthWebAuthnCreationOptions {
+  challenge: string
+  rp: { id: string; name: string }
+  user: { id: string; name: string; displayName: string }
+  pubKeyCredParams: { type: 'public-key'; alg: number }[]
+  excludeCredentials: { type: 'public-key'; id: string; transports?: string[] }[]
+  authenticatorSelection: { residentKey: 'preferred'; userVerification: 'preferred' }
+  attestation: 'direct'
+  timeout: number
+}
+
+/** `PublicKeyCredentialRequestOptions` in the JSON form browsers parse with `parseRequestOptionsFromJSON`. */
+export interface AuthWebAuthnRequestOptions {
+  challenge: string
+  rpId: string
+  allowCredentials: { type: 'public-key'; id: string; transports?: string[] }[]
+  userVerification: 'required' | 'preferred'
+  timeout: number
+}
+
+/**
+ * A capability an organization only allows from a session verified with a
+ * device-bound WebAuthn credential, optionally one with verified attestation.
+ */
+export interface AuthFactorRequirement {
+  organizationId: ControlPlaneId
+  capability: AuthorizationCapability
+  requireAttestation: boolean
+  createdBy?: ControlPlaneId
+  createdAt: string
+}
@@ -0,0 +1,452 @@
+import type { KeyObject } from 'node:crypto'
+import { createHash, createPublicKey, timingSafeEqual, verify, X509Certificate } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+
+/** A `PublicKeyCredential` from `navigator.credentials.create()`, base64url-encoded as by `toJSON()`. */
+export interface WebAuthnRegistrationResponse {
+  id: string
+  type: string
+  response: { clientDataJSON: string; attestationObject: string; transports?: string[] }
+}
+
+/** A `PublicKeyCredential` from `navigator.credentials.get()`, base64url-encoded as by `toJSON()`. */
+export interface WebAuthnAssertionResponse {
+  id: string
+  type: string
+  response: { clientDataJSON: string; authenticatorData: string; signature: string; userHandle?: string | null }
+}
+
+export interface WebAuthnExpectation {
+  /** base64url challenge the ceremony was started with */
+  challenge: string
+  origin: string
+  rpId: string
+  requireUserVerification?: boolean
+  now?: Date
+}
+
+export interface VerifiedWebAuthnRegistration {
+  credentialId: string
+  /** COSE_Key, base64url */
+  publicKey: string
+  algorithm: number
+  signCount: number
+  aaguid: string
+  attestationFormat: string
+  /**
+   * `basic` when an attestation certificate signed the credential, `self` when
+   * only the credential key did, and `none` when the authenticator sent no
+   * attestation or a format this module does not verify.
+   */
+  attestationType: 'none' | 'self' | 'basic'
+  /** Whether the attestation certificate chains to one of the configured trust anchors. */
+  attestationTrusted: boolean
+  backupEligible: boolean
+  backedUp: boolean
+  userVerified: boolean
+  transports: string[]
+}
+
+export interface VerifiedWebAuthnAssertion {
+  credentialId: string
+  signCount: number
+  userVerified: boolean
+  backedUp: boolean
+  /** base64url user handle, returned by discoverable credentials */
+  userHandle?: string
+}
+
+/** COSE algorithms offered at registration: ES256, EdDSA and RS256. */
+export const WEBAUTHN_ALGORITHMS: readonly number[] = [-7, -8, -257]
+
+const FLAG_USER_PRESENT = 0x01
+const FLAG_USER_VERIFIED = 0x04
+const FLAG_BACKUP_ELIGIBLE = 0x08
+const FLAG_BACKED_UP = 0x10
+const FLAG_ATTESTED_CREDENTIAL = 0x40
+const FLAG_EXTENSIONS = 0x80
+
+interface AuthenticatorData {
+  rpIdHash: Buffer
+  userPresent: boolean
+  userVerified: boolean
+  backupEligible: boolean
+  backedUp: boolean
+  signCount: number
+  aaguid?: string
+  credentialId?: Buffer
+  publicKey?: Buffer
+}
+
+function sha256(value: Uint8Array | string): Buffer {
+  return createHash('sha256').update(value).digest()
+}
+
+function safeEquals(left: string, right: string): boolean {
+  return timingSafeEqual(sha256(left), sha256(right))
+}
+
+function decodeBase64Url(value: unknown, label: string): Buffer {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9_-]*$/.test(value)) throw new Error(`${label} is not base64url`)
+  return Buffer.from(value, 'base64url')
+}
+
+/**
+ * Read one CBOR item at `offset`, returning it and the offset after it.
+ * Covers the subset WebAuthn uses: definite lengths, no floats.
+ */
+function readCbor(bytes: Uint8Array, offset: number, depth = 0): [unknown, number] {
+  if (depth > 16) throw new Error('CBOR value is nested too deeply')
+  if (offset >= bytes.length) throw new Error('CBOR value is truncated')
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const major = bytes[offset] >> 5
+  const info = bytes[offset] & 0x1f
+  let position = offset + 1
+  let argument: number
+  if (info < 24) {
+    argument = info
+  } else if (info <= 27) {
+    const size = 2 ** (info - 24)
+    if (position + size > bytes.length) throw new Error('CBOR value is truncated')
+    const big =
+      size === 1
+        ? BigInt(view.getUint8(position))
+        : size === 2
+          ? BigInt(view.getUint16(position))
+          : size === 4
+            ? BigInt(view.getUint32(position))
+            : view.getBigUint64(position)
+    if (big > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error('CBOR integer is too large')
+    argument = Number(big)
+    position += size
+  } else {
+    throw new Error('Indefinite-length CBOR is not supported')
+  }
+
+  switch (major) {
+    case 0:
+      return [argument, position]
+    case 1:
+      return [-1 - argument, position]
+    case 2:
+    case 3: {
+      const end = position + argument
+      if (end > bytes.length) throw new Error('CBOR value is truncated')
+      const value = bytes.subarray(position, end)
+      return [major === 2 ? Buffer.from(value) : new TextDecoder('utf-8', { fatal: true }).decode(value), end]
+    }
+    case 4: {
+      const items: unknown[] = []
+      for (let index = 0; index < argument; index++) {
+        const [item, next] = readCbor(bytes, position, depth + 1)
+        items.push(item)
+        position = next
+      }
+      return [items, position]
+    }
+    case 5: {
+      const map = new Map<unknown, unknown>()
+      for (let index = 0; index < argument; index++) {
+        const [key, afterKey] = readCbor(bytes, position, depth + 1)
+        const [value, afterValue] = readCbor(bytes, afterKey, depth + 1)
+        if (map.has(key)) throw new Error('CBOR map has a duplicate key')
+        map.set(key, value)
+        position = afterValue
+      }
+      return [map, position]
+    }
+    case 6:
+      return readCbor(bytes, position, depth + 1)
+    default:
+      if (info === 20 || info === 21) return [info === 21, position]
+      if (info === 22) return [null, position]
+      throw new Error('CBOR simple value is not supported')
+  }
+}
+
+function decodeCbor(bytes: Uint8Array, label: string): Map<unknown, unknown> {
+  const [value, end] = readCbor(bytes, 0)
+  if (!(value instanceof Map) || end !== bytes.length) throw new Error(`${label} is invalid`)
+  return value
+}
+
+function bytesField(map: Map<unknown, unknown>, key: unknown, label: string, length?: number): Buffer {
+  const value = map.get(key)
+  if (!Buffer.isBuffer(value) || (length !== undefined && value.length !== length))
+    throw new Error(`${label} is invalid`)
+  return value
+}
+
+function parseAuthenticatorData(bytes: Buffer): AuthenticatorData {
+  if (bytes.length < 37) throw new Error('Authenticator data is truncated')
+  const flags = bytes[32]
+  const data: AuthenticatorData = {
+    rpIdHash: bytes.subarray(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    backupEligible: (flags & FLAG_BACKUP_ELIGIBLE) !== 0,
+    backedUp: (flags & FLAG_BACKED_UP) !== 0,
+    signCount: bytes.readUInt32BE(33),
+  }
+  let end = 37
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    if (bytes.length < 55) throw new Error('Authenticator data is truncated')
+    const aaguid = bytes.subarray(37, 53).toString('hex').match(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/)!.slice(1).join('-')
+    const idLength = bytes.readUInt16BE(53)
+    const idEnd = 55 + idLength
+    if (idLength === 0 || idLength > 1023 || idEnd > bytes.length) throw new Error('Credential ID is invalid')
+    const [, keyEnd] = readCbor(bytes, idEnd)
+    data.aaguid = aaguid
+    data.credentialId = bytes.subarray(55, idEnd)
+    data.publicKey = bytes.subarray(idEnd, keyEnd)
+    end = keyEnd
+  }
+  if (flags & FLAG_EXTENSIONS) end = readCbor(bytes, end)[1]
+  if (end !== bytes.length) throw new Error('Authenticator data has trailing bytes')
+  if (data.backedUp && !data.backupEligible) throw new Error('Authenticator data flags are inconsistent')
+  return data
+}
+
+/** The key and COSE algorithm of a credential public key. */
+function coseKey(bytes: Uint8Array): { key: KeyObject; algorithm: number } {
+  const map = decodeCbor(bytes, 'Credential public key')
+  const keyType = map.get(1)
+  const algorithm = map.get(3)
+  if (keyType === 2 && algorithm === -7 && map.get(-1) === 1) {
+    const x = bytesField(map, -2, 'Credential public key', 32).toString('base64url')
+    const y = bytesField(map, -3, 'Credential public key', 32).toString('base64url')
+    return { key: createPublicKey({ key: { kty: 'EC', crv: 'P-256', x, y }, format: 'jwk' }), algorithm }
+  }
+  if (keyType === 1 && algorithm === -8 && map.get(-1) === 6) {
+    const x = bytesField(map, -2, 'Credential public key', 32).toString('base64url')
+    return { key: createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x }, format: 'jwk' }), algorithm }
+  }
+  if (keyType === 3 && algorithm === -257) {
+    const n = bytesField(map, -1, 'Credential public key').toString('base64url')
+    const e = bytesField(map, -2, 'Credential public key').toString('base64url')
+    return { key: createPublicKey({ key: { kty: 'RSA', n, e }, format: 'jwk' }), algorithm }
+  }
+  throw new Error('Credential public key algorithm is not supported')
+}
+
+function verifySignature(algorithm: unknown, key: KeyObject, data: Buffer, signature: Buffer): boolean {
+  if (!WEBAUTHN_ALGORITHMS.includes(algorithm as number)) throw new Error('Signature algorithm is not supported')
+  try {
+    return verify(algorithm === -8 ? null : 'sha256', data, key, signature)
+  } catch {
+    return false
+  }
+}
+
+/** The ceremony type and challenge a response was made for, before it is verified. */
+export function readWebAuthnClientData(clientDataJSON: string): { type: string; challenge: string; origin: string } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(decodeBase64Url(clientDataJSON, 'Client data').toString('utf8'))
+  } catch {
+    throw new Error('Client data is invalid')
+  }
+  const data = parsed as Record<string, unknown>
+  if (!data || typeof data.type !== 'string' || typeof data.challenge !== 'string' || typeof data.origin !== 'string')
+    throw new Error('Client data is invalid')
+  if (data.crossOrigin === true) throw new Error('Cross-origin WebAuthn requests are not accepted')
+  return { type: data.type, challenge: data.challenge, origin: data.origin }
+}
+
+function verifyClientData(encoded: string, type: string, expected: WebAuthnExpectation): Buffer {
+  const clientData = readWebAuthnClientData(encoded)
+  if (clientData.type !== type) throw new Error('WebAuthn response is for a different ceremony')
+  if (!safeEquals(clientData.challenge, expected.challenge)) throw new Error('WebAuthn challenge does not match')
+  if (clientData.origin !== expected.origin) throw new Error('WebAuthn origin does not match')
+  return Buffer.from(encoded, 'base64url')
+}
+
+function verifyAuthenticatorFlags(data: AuthenticatorData, expected: WebAuthnExpectation): void {
+  if (!timingSafeEqual(data.rpIdHash, sha256(expected.rpId))) throw new Error('WebAuthn relying party does not match')
+  if (!data.userPresent) throw new Error('WebAuthn user presence was not confirmed')
+  if (expected.requireUserVerification && !data.userVerified) throw new Error('WebAuthn user verification is required')
+}
+
+/** An x5c chain, leaf first, after checking it is internally consistent and current. */
+function attestationChain(chain: unknown, now: Date): X509Certificate[] {
+  if (!Array.isArray(chain) || chain.length === 0 || !chain.every((entry) => Buffer.isBuffer(entry)))
+    throw new Error('Attestation certificate chain is invalid')
+  const certificates = chain.map((entry) => new X509Certificate(entry as Buffer))
+  for (const [index, certificate] of certificates.entries()) {
+    if (now < new Date(certificate.validFrom) || now > new Date(certificate.validTo))
+      throw new Error('Attestation certificate is not currently valid')
+    const issuer = certificates[index + 1]
+    if (issuer && !certificate.verify(issuer.publicKey)) throw new Error('Attestation certificate chain is broken')
+  }
+  if (certificates[0].ca) throw new Error('Attestation certificate must not be a CA')
+  return certificates
+}
+
+/** Whether the chain's last certificate is one of the trust anchors, or was issued by one. */
+function chainsToAnchor(chain: X509Certificate[], anchors: readonly string[], now: Date): boolean {
+  const last = chain.at(-1)
+  if (!last) return false
+  return anchors.some((pem) => {
+    const anchor = new X509Certificate(pem)
+    if (now < new Date(anchor.validFrom) || now > new Date(anchor.validTo)) return false
+    if (anchor.fingerprint256 === last.fingerprint256) return true
+    return last.checkIssued(anchor) && last.verify(anchor.publicKey)
+  })
+}
+
+function verifyAttestation(
+  format: string,
+  statement: Map<unknown, unknown>,
+  context: {
+    authData: AuthenticatorData
+    signed: Buffer
+    clientDataHash: Buffer
+    credential: { key: KeyObject; algorithm: number }
+    now: Date
+  },
+): { type: VerifiedWebAuthnRegistration['attestationType']; chain: X509Certificate[] } {
+  switch (format) {
+    case 'none':
+      if (statement.size > 0) throw new Error('A "none" attestation statement must be empty')
+      return { type: 'none', chain: [] }
+    case 'packed': {
+      const algorithm = statement.get('alg')
+      const signature = bytesField(statement, 'sig', 'Attestation signature')
+      if (!statement.has('x5c')) {
+        if (algorithm !== context.credential.algorithm)
+          throw new Error('Self attestation algorithm does not match the credential')
+        if (!verifySignature(algorithm, context.credential.key, context.signed, signature))
+          throw new Error('Attestation signature is invalid')
+        return { type: 'self', chain: [] }
+      }
+      const chain = attestationChain(statement.get('x5c'), context.now)
+      if (!/(?:^|\n)OU=Authenticator Attestation(?:\n|$)/.test(chain[0].subject))
+        throw new Error('Attestation certificate subject is invalid')
+      if (!verifySignature(algorithm, chain[0].publicKey, context.signed, signature))
+        throw new Error('Attestation signature is invalid')
+      return { type: 'basic', chain }
+    }
+    case 'fido-u2f': {
+      const chain = attestationChain(statement.get('x5c'), context.now)
+      const signature = bytesField(statement, 'sig', 'Attestation signature')
+      if (context.credential.algorithm !== -7) throw new Error('U2F credentials must use ES256')
+      const jwk = context.credential.key.export({ format: 'jwk' })
+      const verificationData = Buffer.concat([
+        Buffer.from([0x00]),
+        context.authData.rpIdHash,
+        context.clientDataHash,
+        context.authData.credentialId!,
+        Buffer.from([0x04]),
+        Buffer.from(jwk.x!, 'base64url'),
+        Buffer.from(jwk.y!, 'base64url'),
+      ])
+      if (!verifySignature(-7, chain[0].publicKey, verificationData, signature))
+        throw new Error('Attestation signature is invalid')
+      return { type: 'basic', chain }
+    }
+    default:
+      // tpm, android-key, apple and the rest are accepted as unattested, so
+      // the credential works but never counts as attested.
+      return { type: 'none', chain: [] }
+  }
+}
+
+/**
+ * Verify a registration ceremony: client data, relying party, flags, and the
+ * attestation statement for the `none`, `packed` and `fido-u2f` formats.
+ * Certificates are checked for validity and chain consistency; the attestation
+ * is only trusted when the chain ends at one of `attestationRoots`.
+ */
+export function verifyWebAuthnRegistration(
+  credential: WebAuthnRegistrationResponse,
+  expected: WebAuthnExpectation & { attestationRoots?: readonly string[] },
+): VerifiedWebAuthnRegistration {
+  if (credential.type !== 'public-key') throw new Error('WebAuthn credential type is not supported')
+  const clientDataJSON = verifyClientData(credential.response.clientDataJSON, 'webauthn.create', expected)
+  const attestation = decodeCbor(
+    decodeBase64Url(credential.response.attestationObject, 'Attestation object'),
+    'Attestation object',
+  )
+  const format = attestation.get('fmt')
+  const statement = attestation.get('attStmt')
+  if (typeof format !== 'string' || !(statement instanceof Map)) throw new Error('Attestation object is invalid')
+  const authDataBytes = bytesField(attestation, 'authData', 'Authenticator data')
+  const authData = parseAuthenticatorData(authDataBytes)
+  verifyAuthenticatorFlags(authData, expected)
+  if (!authData.credentialId || !authData.publicKey) throw new Error('Attestation does not include a credential')
+  const credentialId = authData.credentialId.toString('base64url')
+  if (credential.id !== credentialId) throw new Error('Credential ID does not match the attestation')
+  const key = coseKey(authData.publicKey)
+  const clientDataHash = sha256(clientDataJSON)
+  const now = expected.now ?? new Date()
+  const attested = verifyAttestation(format, statement, {
+    authData,
+    signed: Buffer.concat([authDataBytes, clientDataHash]),
+    clientDataHash,
+    credential: key,
+    now,
+  })
+  return {
+    credentialId,
+    publicKey: authData.publicKey.toString('base64url'),
+    algorithm: key.algorithm,
+    signCount: authData.signCount,
+    aaguid: authData.aaguid!,
+    attestationFormat: format,
+    attestationType: attested.type,
+    attestationTrusted: chainsToAnchor(attested.chain, expected.attestationRoots ?? [], now),
+    backupEligible: authData.backupEligible,
+    backedUp: authData.backedUp,
+    userVerified: authData.userVerified,
+    transports: (credential.response.transports ?? [])
+      .filter((transport) => typeof transport === 'string')
+      .slice(0, 8),
+  }
+}
+
+/**
+ * Verify an authentication ceremony against a stored credential. The
+ * signature counter must move forward unless the authenticator does not keep
+ * one (both values zero); a counter that goes backwards means the credential
+ * may have been cloned.
+ */
+export function verifyWebAuthnAssertion(
+  credential: WebAuthnAssertionResponse,
+  expected: WebAuthnExpectation & { publicKey: string; signCount: number },
+): VerifiedWebAuthnAssertion {
+  if (credential.type !== 'public-key') throw new Error('WebAuthn credential type is not supported')
+  const clientDataJSON = verifyClientData(credential.response.clientDataJSON, 'webauthn.get', expected)
+  const authDataBytes = decodeBase64Url(credential.response.authenticatorData, 'Authenticator data')
+  const authData = parseAuthenticatorData(authDataBytes)
+  verifyAuthenticatorFlags(authData, expected)
+  const key = coseKey(Buffer.from(expected.publicKey, 'base64url'))
+  const signed = Buffer.concat([authDataBytes, sha256(clientDataJSON)])
+  if (!verifySignature(key.algorithm, key.key, signed, decodeBase64Url(credential.response.signature, 'Signature')))
+    throw new Error('WebAuthn signature is invalid')
+  if ((authData.signCount > 0 || expected.signCount > 0) && authData.signCount <= expected.signCount)
+    throw new Error('WebAuthn signature counter did not increase; the credential may have been cloned')
+  const userHandle = credential.response.userHandle
+  return {
+    credentialId: credential.id,
+    signCount: authData.signCount,
+    userVerified: authData.userVerified,
+    backedUp: authData.backedUp,
+    userHandle: userHandle ? decodeBase64Url(userHandle, 'User handle').toString('base64url') : undefined,
+  }
+}
+
+/**
+ * Trust anchors for attestation certificates, from the PEM bundle that
+ * `TS_CLOUD_WEBAUTHN_ATTESTATION_ROOTS` names, e.g. the roots of the vendors
+ * an organization issues keys from. Without it no attestation is trusted.
+ */
+export function resolveWebAuthnAttestationRoots(cwd: string): string[] {
+  const configured = process.env.TS_CLOUD_WEBAUTHN_ATTESTATION_ROOTS?.trim()
+  if (!configured) return []
+  const roots = readFileSync(resolve(cwd, configured), 'utf8').match(
+    /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g,
+  )
+  if (!roots) throw new Error(`${configured} has no PEM certificates`)
+  return roots.map((root) => new X509Certificate(root).toString())
+}
@@ -0,0 +1,383 @@
+import type { KeyObject } from 'node:crypto'
+import { createHash, timingSafeEqual, verify } from 'node:crypto'
+
+export const XMLDSIG_NAMESPACE = 'http://www.w3.org/2000/09/xmldsig#'
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace'
+const EXCLUSIVE_C14N = 'http://www.w3.org/2001/10/xml-exc-c14n#'
+const ENVELOPED_SIGNATURE = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature'
+
+const DIGESTS: Record<string, string> = {
+  'http://www.w3.org/2001/04/xmlenc#sha256': 'sha256',
+  'http://www.w3.org/2001/04/xmldsig-more#sha384': 'sha384',
+  'http://www.w3.org/2001/04/xmlenc#sha512': 'sha512',
+}
+
+// SHA-1 is refused outright: every IdP we support signs with SHA-2 by default.
+const SIGNATURES: Record<string, { hash: string; ecdsa: boolean }> = {
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256': { hash: 'sha256', ecdsa: false },
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha384': { hash: 'sha384', ecdsa: false },
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha512': { hash: 'sha512', ecdsa: false },
+  'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256': { hash: 'sha256', ecdsa: true },
+  'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha384': { hash: 'sha384', ecdsa: true },
+  'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha512': { hash: 'sha512', ecdsa: true },
+}
+
+const MAX_DEPTH = 48
+const MAX_NODES = 20_000
+
+export interface XmlAttribute {
+  name: string
+  prefix: string
+  localName: string
+  namespaceURI: string
+  value: string
+}
+
+export interface XmlElement {
+  type: 'element'
+  name: string
+  prefix: string
+  localName: string
+  namespaceURI: string
+  attributes: XmlAttribute[]
+  /** Namespace declarations made on this element; the default namespace uses the '' prefix. */
+  namespaces: Map<string, string>
+  children: XmlNode[]
+  parent?: XmlElement
+}
+
+export type XmlNode =
+  | XmlElement
+  | { type: 'text'; value: string }
+  | { type: 'instruction'; target: string; data: string }
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+
+function decodeEntities(value: string): string {
+  if (/&(?![^;&\s]{1,10};)/.test(value)) throw new Error('XML contains an unescaped ampersand')
+  return value.replace(/&([^;&\s]{1,10});/g, (_, entity: string) => {
+    if (entity in ENTITIES) return ENTITIES[entity]!
+    const code = /^#x[0-9a-f]{1,6}$/i.test(entity)
+      ? Number.parseInt(entity.slice(2), 16)
+      : /^#[0-9]{1,7}$/.test(entity)
+        ? Number.parseInt(entity.slice(1), 10)
+        : Number.NaN
+    if (!Number.isInteger(code) || code === 0 || code > 0x10ffff)
+      throw new Error(`XML entity &${entity}; is not supported`)
+    return String.fromCodePoint(code)
+  })
+}
+
+function splitName(name: string): { prefix: string; localName: string } {
+  const separator = name.indexOf(':')
+  return separator === -1
+    ? { prefix: '', localName: name }
+    : { prefix: name.slice(0, separator), localName: name.slice(separator + 1) }
+}
+
+function lookupNamespace(element: XmlElement | undefined, prefix: string): string | undefined {
+  if (prefix === 'xml') return XML_NAMESPACE
+  for (let current = element; current; current = current.parent) {
+    const uri = current.namespaces.get(prefix)
+    if (uri !== undefined) return uri
+  }
+  return prefix === '' ? '' : undefined
+}
+
+/**
+ * Parse a self-contained XML document into a tree that keeps what exclusive
+ * canonicalization needs. Document type declarations are refused, so entity
+ * expansion and external entities never happen.
+ */
+export function parseXml(source: string): XmlElement {
+  const text = source.replace(/\r\n?/g, '\n')
+  if (/<!DOCTYPE|<!ENTITY/i.test(text)) throw new Error('XML document type declarations are not allowed')
+  let position = 0
+  let nodes = 0
+  let root: XmlElement | undefined
+  const stack: XmlElement[] = []
+
+  const append = (node: XmlNode) => {
+    if (++nodes > MAX_NODES) throw new Error('XML document is too large')
+    const parent = stack.at(-1)
+    if (parent) parent.children.push(node)
+    else if (node.type === 'element') {
+      if (root) throw new Error('XML document must have a single root element')
+      root = node
+    }
+  }
+
+  while (position < text.length) {
+    const next = text.indexOf('<', position)
+    if (next === -1 || next > position) {
+      const value = text.slice(position, next === -1 ? text.length : next)
+      if (stack.length > 0) append({ type: 'text', value: decodeEntities(value) })
+      else if (value.trim()) throw new Error('XML has content outside the root element')
+      if (next === -1) break
+      position = next
+      continue
+    }
+    if (text.startsWith('<!--', position)) {
+      const end = text.indexOf('-->', position + 4)
+      if (end === -1) throw new Error('XML comment is not closed')
+      position = end + 3
+      continue
+    }
+    if (text.startsWith('<![CDATA[', position)) {
+      const end = text.indexOf(']]>', position + 9)
+      if (end === -1 || stack.length === 0) throw new Error('XML CDATA section is invalid')
+      append({ type: 'text', value: text.slice(position + 9, end) })
+      position = end + 3
+      continue
+    }
+    if (text.startsWith('<?', position)) {
+      const end = text.indexOf('?>', position + 2)
+      if (end === -1) throw new Error('XML processing instruction is not closed')
+      const [, target = '', data = ''] = /^([^\s?]+)\s*([\s\S]*)$/.exec(text.slice(position + 2, end)) ?? []
+      if (!target) throw new Error('XML processing instruction is invalid')
+      // Instructions outside the root, the XML declaration among them, are not part of any signed element
+      if (stack.length > 0) append({ type: 'instruction', target, data })
+      position = end + 2
+      continue
+    }
+    if (text.startsWith('</', position)) {
+      const end = text.indexOf('>', position)
+      const name = end === -1 ? '' : text.slice(position + 2, end).trim()
+      const open = stack.pop()
+      if (!open || open.name !== name) throw new Error('XML end tag does not match its start tag')
+      position = end + 1
+      continue
+    }
+
+    const tag = /^<([A-Za-z_][\w.:-]*)((?:\s+[A-Za-z_][\w.:-]*\s*=\s*(?:"[^"<]*"|'[^'<]*'))*)\s*(\/?)>/.exec(
+      text.slice(position, position + 64 * 1024),
+    )
+    if (!tag) throw new Error('XML start tag is malformed')
+    const [raw, name, rawAttributes = '', selfClosing] = tag
+    if (stack.length >= MAX_DEPTH) throw new Error('XML document is nested too deeply')
+    const element: XmlElement = {
+      type: 'element',
+      name: name!,
+      prefix: '',
+      localName: '',
+      namespaceURI: '',
+      attributes: [],
+      namespaces: new Map(),
+      children: [],
+      parent: stack.at(-1),
+    }
+    const seen = new Set<string>()
+    const pending: { name: string; value: string }[] = []
+    for (const match of rawAttributes.matchAll(/([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      const attributeName = match[1]!
+      if (seen.has(attributeName)) throw new Error(`XML attribute ${attributeName} is repeated`)
+      seen.add(attributeName)
+      const value = decodeEntities((match[2] ?? match[3] ?? '').replace(/[\t\n]/g, ' '))
+      if (attributeName === 'xmlns') element.namespaces.set('', value)
+      else if (attributeName.startsWith('xmlns:')) {
+        if (!value) throw new Error('XML namespace prefixes cannot be undeclared')
+        element.namespaces.set(attributeName.slice(6), value)
+      } else pending.push({ name: attributeName, value })
+    }
+    const { prefix, localName } = splitName(element.name)
+    const namespaceURI = lookupNamespace(element, prefix)
+    if (namespaceURI === undefined) throw new Error(`XML namespace prefix ${prefix} is not declared`)
+    Object.assign(element, { prefix, localName, namespaceURI })
+    const qualified = new Set<string>()
+    for (const attribute of pending) {
+      const parts = splitName(attribute.name)
+      const uri = parts.prefix ? lookupNamespace(element, parts.prefix) : ''
+      if (uri === undefined) throw new Error(`XML namespace prefix ${parts.prefix} is not declared`)
+      if (qualified.has(`${uri}|${parts.localName}`)) throw new Error(`XML attribute ${attribute.name} is repeated`)
+      qualified.add(`${uri}|${parts.localName}`)
+      element.attributes.push({ ...attribute, ...parts, namespaceURI: uri })
+    }
+    append(element)
+    if (!selfClosing) stack.push(element)
+    position += raw.length
+  }
+  if (stack.length > 0 || !root) throw new Error('XML document is incomplete')
+  return root
+}
+
+export function xmlChildren(element: XmlElement, namespaceURI: string, localName: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      child.type === 'element' && child.namespaceURI === namespaceURI && child.localName === localName,
+  )
+}
+
+/** The only child with this name, or undefined. More than one is an error rather than a choice. */
+export function xmlChild(element: XmlElement, namespaceURI: string, localName: string): XmlElement | undefined {
+  const matches = xmlChildren(element, namespaceURI, localName)
+  if (matches.length > 1) throw new Error(`XML element ${localName} appears more than once`)
+  return matches[0]
+}
+
+/** All text below an element, so a comment cannot truncate what a caller reads. */
+export function xmlText(element: XmlElement): string {
+  return element.children
+    .map((child) => (child.type === 'text' ? child.value : child.type === 'element' ? xmlText(child) : ''))
+    .join('')
+}
+
+export function xmlAttribute(element: XmlElement, localName: string, namespaceURI = ''): string | undefined {
+  return element.attributes.find(
+    (attribute) => attribute.localName === localName && attribute.namespaceURI === namespaceURI,
+  )?.value
+}
+
+function* descendants(element: XmlElement): Generator<XmlElement> {
+  yield element
+  for (const child of element.children) if (child.type === 'element') yield* descendants(child)
+}
+
+/** Refuse documents that repeat an ID, the precondition for most signature-wrapping attacks. */
+export function assertUniqueXmlIds(root: XmlElement): void {
+  const ids = new Set<string>()
+  for (const element of descendants(root)) {
+    const id = xmlAttribute(element, 'ID')
+    if (id === undefined) continue
+    if (ids.has(id)) throw new Error('XML document repeats an element ID')
+    ids.add(id)
+  }
+}
+
+function escapeText(value: string): string {
+  return value.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;').replaceAll('\r', '&#xD;')
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll('\t', '&#x9;')
+    .replaceAll('\n', '&#xA;')
+    .replaceAll('\r', '&#xD;')
+}
+
+function compareCodePoints(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+/**
+ * Exclusive XML canonicalization without comments, for the subtree at
+ * `element`. `exclude` drops one descendant, which is how the enveloped
+ * signature transform removes the signature from what it signs.
+ */
+export function canonicalizeXml(
+  element: XmlElement,
+  options: { exclude?: XmlElement; inclusivePrefixes?: readonly string[] } = {},
+): string {
+  const inclusive = new Set((options.inclusivePrefixes ?? []).map((prefix) => (prefix === '#default' ? '' : prefix)))
+  const render = (node: XmlElement, rendered: ReadonlyMap<string, string>): string => {
+    const prefixes = new Set<string>([node.prefix])
+    for (const attribute of node.attributes)
+      if (attribute.prefix && attribute.prefix !== 'xml') prefixes.add(attribute.prefix)
+    for (const prefix of inclusive)
+      if (prefix === '' || lookupNamespace(node, prefix) !== undefined) prefixes.add(prefix)
+    const scope = new Map(rendered)
+    const declarations: string[] = []
+    for (const prefix of [...prefixes].sort(compareCodePoints)) {
+      const uri = lookupNamespace(node, prefix) ?? ''
+      if ((rendered.get(prefix) ?? '') === uri && (prefix === '' || rendered.has(prefix))) continue
+      scope.set(prefix, uri)
+      declarations.push(prefix ? ` xmlns:${prefix}="${escapeAttribute(uri)}"` : ` xmlns="${escapeAttribute(uri)}"`)
+    }
+    const attributes = [...node.attributes]
+      .sort(
+        (left, right) =>
+          compareCodePoints(left.namespaceURI, right.namespaceURI) ||
+          compareCodePoints(left.localName, right.localName),
+      )
+      .map((attribute) => ` ${attribute.name}="${escapeAttribute(attribute.value)}"`)
+    const content = node.children
+      .map((child) => {
+        if (child.type === 'text') return escapeText(child.value)
+        if (child.type === 'instruction') return `<?${child.target}${child.data ? ` ${child.data}` : ''}?>`
+        return child === options.exclude ? '' : render(child, scope)
+      })
+      .join('')
+    return `<${node.name}${declarations.join('')}${attributes.join('')}>${content}</${node.name}>`
+  }
+  return render(element, new Map())
+}
+
+function canonicalizationPrefixes(method: XmlElement): string[] {
+  const inclusive = method.children.find(
+    (child): child is XmlElement => child.type === 'element' && child.localName === 'InclusiveNamespaces',
+  )
+  return (inclusive ? (xmlAttribute(inclusive, 'PrefixList') ?? '') : '').split(/\s+/).filter(Boolean)
+}
+
+/** Whether `element` carries an enveloped signature as a direct child. */
+export function hasXmlSignature(element: XmlElement): boolean {
+  return xmlChildren(element, XMLDSIG_NAMESPACE, 'Signature').length > 0
+}
+
+/**
+ * Verify the enveloped signature that is a direct child of `element`. The
+ * signature must reference `element` itself by its ID, use exclusive
+ * canonicalization, and verify with one of `keys`. Keys embedded in the
+ * signature are ignored: trust comes only from configuration.
+ */
+export function verifyXmlSignature(element: XmlElement, keys: readonly KeyObject[]): void {
+  const signature = xmlChild(element, XMLDSIG_NAMESPACE, 'Signature')
+  if (!signature) throw new Error('XML signature is missing')
+  const signedInfo = xmlChild(signature, XMLDSIG_NAMESPACE, 'SignedInfo')
+  const signatureValue = xmlChild(signature, XMLDSIG_NAMESPACE, 'SignatureValue')
+  if (!signedInfo || !signatureValue) throw new Error('XML signature is incomplete')
+
+  const canonicalization = xmlChild(signedInfo, XMLDSIG_NAMESPACE, 'CanonicalizationMethod')
+  if (!canonicalization || xmlAttribute(canonicalization, 'Algorithm') !== EXCLUSIVE_C14N)
+    throw new Error('XML signature must use exclusive canonicalization')
+  const signatureMethod = xmlChild(signedInfo, XMLDSIG_NAMESPACE, 'SignatureMethod')
+  const method = signatureMethod ? SIGNATURES[xmlAttribute(signatureMethod, 'Algorithm') ?? ''] : undefined
+  if (!method) throw new Error('XML signature algorithm is not supported')
+
+  const references = xmlChildren(signedInfo, XMLDSIG_NAMESPACE, 'Reference')
+  if (references.length !== 1) throw new Error('XML signature must have exactly one reference')
+  const reference = references[0]!
+  const id = xmlAttribute(element, 'ID')
+  if (!id || xmlAttribute(reference, 'URI') !== `#${id}`)
+    throw new Error('XML signature does not reference the signed element')
+
+  const transforms = xmlChild(reference, XMLDSIG_NAMESPACE, 'Transforms')
+  const transformList = transforms ? xmlChildren(transforms, XMLDSIG_NAMESPACE, 'Transform') : []
+  let inclusivePrefixes: string[] = []
+  let enveloped = false
+  for (const transform of transformList) {
+    const algorithm = xmlAttribute(transform, 'Algorithm')
+    if (algorithm === ENVELOPED_SIGNATURE) enveloped = true
+    else if (algorithm === EXCLUSIVE_C14N) inclusivePrefixes = canonicalizationPrefixes(transform)
+    else throw new Error('XML signature uses an unsupported transform')
+  }
+  if (!enveloped) throw new Error('XML signature must be enveloped')
+
+  const digestMethod = xmlChild(reference, XMLDSIG_NAMESPACE, 'DigestMethod')
+  const digestAlgorithm = digestMethod ? DIGESTS[xmlAttribute(digestMethod, 'Algorithm') ?? ''] : undefined
+  const digestValue = xmlChild(reference, XMLDSIG_NAMESPACE, 'DigestValue')
+  if (!digestAlgorithm || !digestValue) throw new Error('XML signature digest algorithm is not supported')
+  const digest = createHash(digestAlgorithm)
+    .update(canonicalizeXml(element, { exclude: signature, inclusivePrefixes }))
+    .digest()
+  const expected = Buffer.from(xmlText(digestValue).replace(/\s+/g, ''), 'base64')
+  if (expected.length !== digest.length || !timingSafeEqual(expected, digest))
+    throw new Error('XML signature digest does not match the signed element')
+
+  const signedBytes = Buffer.from(
+    canonicalizeXml(signedInfo, { inclusivePrefixes: canonicalizationPrefixes(canonicalization) }),
+  )
+  const value = Buffer.from(xmlText(signatureValue).replace(/\s+/g, ''), 'base64')
+  const valid = keys.some((key) => {
+    try {
+      return method.ecdsa
+        ? verify(method.hash, signedBytes, { key, dsaEncoding: 'ieee-p1363' }, value)
+        : verify(method.hash, signedBytes, key, value)
+    } catch {
+      return false
+    }
+  })
+  if (!valid) throw new Error('XML signature is invalid')
+}
@@ -108,6 +108,64 @@ describe('AutomationIdentityStore', () => {
     controlPlane.close()
   })
 
+  it('issues tokens that carry the current version of a custom role', () => {
+    const { controlPlane, organization, production, automation } = fixture()
+    const created = automation.createServiceAccount({
+      organizationId: organization.id,
+      slug: 'release-bot',
+      name: 'Release bot',
+      roleTemplate: 'viewer',
+    })
+    const role = controlPlane.saveCustomRole({
+      organizationId: organization.id,
+      slug: 'release-bot',
+      name: 'Release bot',
+      rules: [
+        { effect: 'allow', capability: 'deployments:create' },
+        { effect: 'allow', capability: 'deployments:rollback' },
+      ],
+    })
+    const scope = { type: 'environment' as const, id: production.id }
+    controlPlane.assignCustomRole({
+      organizationId: organization.id,
+      roleId: role.id,
+      membershipId: created.membership.id,
+      scope,
+    })
+    const issued = automation.createToken({
+      serviceAccountId: created.serviceAccount.id,
+      name: 'Releases',
+      roleId: role.id,
+      scope,
+    })
+    expect(issued.token).toMatchObject({ roleId: role.id, capabilities: ['deployments:create', 'deployments:rollback'] })
+
+    controlPlane.saveCustomRole({
+      organizationId: organization.id,
+      slug: 'release-bot',
+      rules: [
+        { effect: 'allow', capability: 'deployments:create' },
+        { effect: 'deny', capability: 'deployments:rollback' },
+      ],
+    })
+    expect(automation.verifyToken(issued.secret)?.token.capabilities).toEqual(['deployments:create'])
+    expect(automation.rotateToken(issued.token.id).token).toMatchObject({
+      roleId: role.id,
+      capabilities: ['deployments:create'],
+    })
+    expect(() =>
+      automation.createToken({
+        serviceAccountId: created.serviceAccount.id,
+        name: 'Both',
+        roleId: role.id,
+        capabilities: ['project:read'],
+        scope,
+      }),
+    ).toThrow('not both')
+    expect(() => controlPlane.deleteCustomRole(role.id)).toThrow('used by 2 active API token(s)')
+    controlPlane.close()
+  })
+
   it('replays identical idempotent responses and rejects key reuse with another body', () => {
     const { controlPlane, organization, automation } = fixture()
     const account = automation.createServiceAccount({
@@ -1,8 +1,8 @@
 import type { SQLQueryBindings } from 'bun:sqlite'
-import type { AuthorizationCapability, AuthorizationScope, ControlPlaneStore } from '../control-plane'
+import type { AuthorizationCapability, AuthorizationScope, ControlPlaneStore, CustomRoleRule } from '../control-plane'
 import type { ApiIdempotencyRecord, ApiToken, ApiTokenPrincipal, CreateApiTokenInput, CreateServiceAccountInput, ServiceAccount } from './types'
 import { createHash, randomBytes } from 'node:crypto'
-import { AUTHORIZATION_CAPABILITIES, authorizeOrganization } from '../control-plane'
+import { AUTHORIZATION_CAPABILITIES, authorizeOrganization, customRoleCapabilities } from '../control-plane'
 
 type Row = Record<string, unknown>
 
@@ -30,6 +30,21 @@ function parseCapabilities(value: unknown): AuthorizationCapability[] {
   }
 }
 
+// A role token's capabilities are those of the role's current version.
+const TOKEN_SELECT = `SELECT api_tokens.*, organization_role_versions.rules AS role_rules FROM api_tokens
+  LEFT JOIN organization_roles ON organization_roles.id = api_tokens.role_id
+  LEFT JOIN organization_role_versions ON organization_role_versions.role_id = organization_roles.id
+  AND organization_role_versions.version = organization_roles.version`
+
+function roleRuleCapabilities(value: unknown): AuthorizationCapability[] {
+  try {
+    const rules = JSON.parse(String(value)) as CustomRoleRule[]
+    return Array.isArray(rules) ? customRoleCapabilities(rules) : []
+  } catch {
+    return []
+  }
+}
+
 function scope(row: Row): AuthorizationScope {
   const type = String(row.scope_type) as AuthorizationScope['type']
   return type === 'organization' ? { type } : ({ type, id: String(row.scope_id) } as AuthorizationScope)
@@ -60,7 +75,8 @@ function mapToken(row: Row, now: string): ApiToken {
     serviceAccountId: String(row.service_account_id),
     name: String(row.name),
     prefix: String(row.token_prefix),
-    capabilities: parseCapabilities(row.capabilities),
+    capabilities: row.role_rules == null ? parseCapabilities(row.capabilities) : roleRuleCapabilities(row.role_rules),
+    roleId: optionalString(row.role_id),
     scope: scope(row),
     expiresAt,
     lastUsedAt: optionalString(row.last_used_at),
@@ -219,7 +235,12 @@ export class AutomationIdentityStore {
     if (!account || account.state !== 'active') throw new Error('Service account is unavailable')
     const membership = this.controlPlane.getMembershipForActor(account.organizationId, account.actorId)
     if (!membership || membership.status !== 'active') throw new Error('Service-account membership is unavailable')
-    const capabilities = [...new Set(input.capabilities)]
+    const role = input.roleId ? this.controlPlane.getCustomRole(input.roleId) : undefined
+    if (input.roleId && (!role || role.organizationId !== account.organizationId))
+      throw new Error('Custom role was not found in this organization')
+    if (role && input.capabilities?.length) throw new Error('API tokens take explicit capabilities or a role, not both')
+    const capabilities = role ? customRoleCapabilities(role.rules) : [...new Set(input.capabilities ?? [])]
+    if (role && capabilities.length === 0) throw new Error(`Role ${role.slug} allows no capabilities`)
     if (capabilities.length === 0 || capabilities.some((capability) => !CAPABILITIES.has(capability)))
       throw new Error('API token requires valid explicit capabilities')
     const tokenScope = input.scope ?? membership.scope
@@ -247,8 +268,8 @@ export class AutomationIdentityStore {
     const prefix = `tsc_v1.${id.slice(0, 8)}`
     const now = this.now()
     this.run(
-      `INSERT INTO api_tokens (id, service_account_id, name, token_hash, token_prefix, capabilities, scope_type, scope_id,
-      expires_at, rotated_from_token_id, created_by_actor_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO api_tokens (id, service_account_id, name, token_hash, token_prefix, capabilities, role_id, scope_type, scope_id,
+      expires_at, rotated_from_token_id, created_by_actor_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         account.id,
@@ -256,6 +277,7 @@ export class AutomationIdentityStore {
         hash(secret),
         prefix,
         JSON.stringify(capabilities.sort()),
+        role?.id ?? null,
         tokenScope.type,
         tokenScope.type === 'organization' ? null : (tokenScope.id ?? null),
         expiresAt.toISOString(),
@@ -274,6 +296,8 @@ export class AutomationIdentityStore {
         tokenId: id,
         prefix,
         capabilities,
+        roleId: role?.id ?? null,
+        roleVersion: role?.version ?? null,
         scope: { type: tokenScope.type, id: tokenScope.id ?? null },
         expiresAt: expiresAt.toISOString(),
         rotatedFromTokenId: input.rotatedFromTokenId ?? null,
@@ -283,13 +307,15 @@ export class AutomationIdentityStore {
   }
 
   getToken(id: string): ApiToken | undefined {
-    const row = this.controlPlane.database.query<Row, [string]>('SELECT * FROM api_tokens WHERE id = ?').get(id)
+    const row = this.controlPlane.database.query<Row, [string]>(`${TOKEN_SELECT} WHERE api_tokens.id = ?`).get(id)
     return row ? mapToken(row, this.now()) : undefined
   }
 
   listTokens(serviceAccountId: string, options: { includeInactive?: boolean } = {}): ApiToken[] {
     return this.controlPlane.database
-      .query<Row, [string]>('SELECT * FROM api_tokens WHERE service_account_id = ? ORDER BY created_at DESC')
+      .query<Row, [string]>(
+        `${TOKEN_SELECT} WHERE api_tokens.service_account_id = ? ORDER BY api_tokens.created_at DESC`,
+      )
       .all(serviceAccountId)
       .map((row) => mapToken(row, this.now()))
       .filter((token) => options.includeInactive || token.state === 'active')
@@ -299,7 +325,7 @@ export class AutomationIdentityStore {
     const match = /^tsc_v1\.([^.]+)\.[A-Za-z0-9_-]{40,}$/.exec(secret)
     if (!match) return undefined
     const row = this.controlPlane.database
-      .query<Row, [string, string]>('SELECT * FROM api_tokens WHERE id = ? AND token_hash = ?')
+      .query<Row, [string, string]>(`${TOKEN_SELECT} WHERE api_tokens.id = ? AND api_tokens.token_hash = ?`)
       .get(match[1], hash(secret))
     if (!row) return undefined
     const token = mapToken(row, this.now())
@@ -333,7 +359,8 @@ export class AutomationIdentityStore {
     const rotated = this.createToken({
       serviceAccountId: current.serviceAccountId,
       name: `${current.name} (rotated)`,
-      capabilities: current.capabilities,
+      capabilities: current.roleId ? undefined : current.capabilities,
+      roleId: current.roleId,
       scope: current.scope,
       expiresAt: current.expiresAt,
       createdByActorId,
@@ -20,6 +20,8 @@ export interface ApiToken {
   name: string
   prefix: string
   capabilities: AuthorizationCapability[]
+  /** The custom role whose current capabilities the token carries, in place of a fixed list. */
+  roleId?: ControlPlaneId
   scope: AuthorizationScope
   expiresAt: string
   lastUsedAt?: string
@@ -45,7 +47,9 @@ export interface CreateServiceAccountInput {
 export interface CreateApiTokenInput {
   serviceAccountId: ControlPlaneId
   name: string
-  capabilities: AuthorizationCapability[]
+  /** Explicit capabilities; required unless `roleId` is given. */
+  capabilities?: AuthorizationCapability[]
+  roleId?: ControlPlaneId
   scope?: AuthorizationScope
   expiresAt?: string
   createdByActorId?: ControlPlaneId
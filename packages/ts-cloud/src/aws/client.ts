@@ -110,6 +110,24 @@ export function resolveS3Endpoint(options: {
   return { protocol, host: `${options.bucket}.${base}`, path: options.path }
 }
 
+/** Service IDs used in `AWS_ENDPOINT_URL_<SERVICE>`, where they differ from the signing service. */
+const ENDPOINT_SERVICE_IDS: Record<string, string> = {
+  email: 'SESV2',
+  secretsmanager: 'SECRETS_MANAGER',
+  route53domains: 'ROUTE_53_DOMAINS',
+  route53: 'ROUTE_53',
+}
+
+/**
+ * Endpoint override for a service, from `AWS_ENDPOINT_URL_<SERVICE>` or `AWS_ENDPOINT_URL`, the
+ * variables the AWS SDKs and CLI read. Points every client at a local emulator, e.g.
+ * `AWS_ENDPOINT_URL=http://localhost:4566`.
+ */
+export function awsEndpointOverride(service: string): string | undefined {
+  const id = ENDPOINT_SERVICE_IDS[service] ?? service.toUpperCase().replace(/[^A-Z0-9]+/g, '_')
+  return process.env[`AWS_ENDPOINT_URL_${id}`] || process.env.AWS_ENDPOINT_URL || undefined
+}
+
 export interface AWSError extends Error {
   code?: string
   statusCode?: number
@@ -461,6 +479,16 @@ export class AWSClient {
     return result
   }
 
+  /**
+   * S3 endpoint from the client config, else the environment override. An overridden endpoint
+   * uses path-style addressing, since a local emulator has no per-bucket hostnames.
+   */
+  private s3Endpoint(): { endpoint?: string; forcePathStyle?: boolean } {
+    if (this.config.endpoint) return { endpoint: this.config.endpoint, forcePathStyle: this.config.forcePathStyle }
+    const override = awsEndpointOverride('s3')
+    return { endpoint: override, forcePathStyle: this.config.forcePathStyle ?? Boolean(override) }
+  }
+
   /**
    * Build the full URL for the request
    */
@@ -470,20 +498,19 @@ export class AWSClient {
 
     let host: string
     let protocol: 'http' | 'https' = 'https'
+    const override = service === 's3' ? undefined : awsEndpointOverride(service)
     if (service === 's3') {
       // Virtual-hosted style by default; endpoint override + path-style for
       // S3-compatible providers (Backblaze B2, Hetzner). Reassigns `path` so the
       // URL matches the SigV4 canonical URI computed in signRequest.
-      const resolved = resolveS3Endpoint({
-        region,
-        path,
-        bucket: options.bucket,
-        endpoint: this.config.endpoint,
-        forcePathStyle: this.config.forcePathStyle,
-      })
+      const resolved = resolveS3Endpoint({ region, path, bucket: options.bucket, ...this.s3Endpoint() })
       protocol = resolved.protocol
       host = resolved.host
       path = resolved.path
+    } else if (override) {
+      const url = new URL(override)
+      protocol = url.protocol === 'http:' ? 'http' : 'https'
+      host = url.host
     } else if (service === 'cloudfront') {
       host = 'cloudfront.amazonaws.com'
     } else if (service === 'iam') {
@@ -531,16 +558,13 @@ export class AWSClient {
     const dateStamp = this.getDateStamp(now)
 
     let host: string
+    const override = service === 's3' ? undefined : awsEndpointOverride(service)
     if (service === 's3') {
-      const resolved = resolveS3Endpoint({
-        region,
-        path,
-        bucket: options.bucket,
-        endpoint: this.config.endpoint,
-        forcePathStyle: this.config.forcePathStyle,
-      })
+      const resolved = resolveS3Endpoint({ region, path, bucket: options.bucket, ...this.s3Endpoint() })
       host = resolved.host
       path = resolved.path
+    } else if (override) {
+      host = new URL(override).host
     } else if (service === 'cloudfront') {
       host = 'cloudfront.amazonaws.com'
     } else if (service === 'iam') {
@@ -10,6 +10,13 @@ export interface StackParameter {
   UsePreviousValue?: boolean
 }
 
+export interface ResourceToImport {
+  ResourceType: string
+  LogicalResourceId: string
+  /** Identifier properties of the resource, e.g. `{ BucketName: 'assets' }` */
+  ResourceIdentifier: Record<string, string>
+}
+
 export interface StackTag {
   Key: string
   Value: string
@@ -66,6 +73,32 @@ export interface Stack {
   Tags?: StackTag[]
 }
 
+export interface StackDriftDetectionStatus {
+  StackId: string
+  StackDriftDetectionId: string
+  StackDriftStatus?: 'DRIFTED' | 'IN_SYNC' | 'UNKNOWN' | 'NOT_CHECKED'
+  DetectionStatus: 'DETECTION_IN_PROGRESS' | 'DETECTION_FAILED' | 'DETECTION_COMPLETE'
+  DetectionStatusReason?: string
+  DriftedStackResourceCount?: number
+  Timestamp: string
+}
+
+export interface StackResourceDrift {
+  LogicalResourceId: string
+  PhysicalResourceId?: string
+  ResourceType: string
+  StackResourceDriftStatus: 'IN_SYNC' | 'MODIFIED' | 'DELETED' | 'NOT_CHECKED'
+  ExpectedProperties?: string
+  ActualProperties?: string
+  PropertyDifferences: Array<{
+    PropertyPath: string
+    ExpectedValue: string
+    ActualValue: string
+    DifferenceType: 'ADD' | 'REMOVE' | 'NOT_EQUAL'
+  }>
+  Timestamp: string
+}
+
 /**
  * CloudFormation stack management using direct API calls
  */
@@ -272,30 +305,37 @@ export class CloudFormationClient {
   }
 
   /**
-   * List stack resources
+   * List stack resources, following pagination
    */
   async listStackResources(stackName: string): Promise<{ StackResourceSummaries: any[] }> {
-    const params: Record<string, any> = {
-      Action: 'ListStackResources',
-      StackName: stackName,
-      Version: '2010-05-15',
-    }
+    const resources: any[] = []
+    const asArray = (value: any) => (Array.isArray(value) ? value : value ? [value] : [])
+    let nextToken: string | undefined
+
+    do {
+      const params: Record<string, any> = {
+        Action: 'ListStackResources',
+        StackName: stackName,
+        Version: '2010-05-15',
+      }
 
-    const result = await this.client.request({
-      service: 'cloudformation',
-      region: this.region,
-      method: 'POST',
-      path: '/',
-      body: new URLSearchParams(params).toString(),
-    })
+      if (nextToken) {
+        params.NextToken = nextToken
+      }
 
-    // Parse resources from XML response - handle single member (object) or multiple members (array)
-    const member = result?.ListStackResourcesResult?.StackResourceSummaries?.member
-    let resources: any[] = []
+      const result = await this.client.request({
+        service: 'cloudformation',
+        region: this.region,
+        method: 'POST',
+        path: '/',
+        body: new URLSearchParams(params).toString(),
+      })
 
-    if (member) {
-      resources = Array.isArray(member) ? member : [member]
-    }
+      // Parse resources from XML response - handle single member (object) or multiple members (array)
+      const response = result?.ListStackResourcesResult
+      resources.push(...asArray(response?.StackResourceSummaries?.member))
+      nextToken = response?.NextToken || undefined
+    } while (nextToken)
 
     return { StackResourceSummaries: resources }
   }
@@ -443,7 +483,7 @@ export class CloudFormationClient {
   }
 
   /**
-   * List all stacks
+   * List all stacks, following pagination
    */
   async listStacks(statusFilter?: string[]): Promise<{
     StackSummaries: Array<{
@@ -456,14 +496,66 @@ export class CloudFormationClient {
       StackStatus: string
     }>
   }> {
+    const items: any[] = []
+    let nextToken: string | undefined
+
+    do {
+      const params: Record<string, any> = {
+        Action: 'ListStacks',
+        Version: '2010-05-15',
+      }
+
+      if (statusFilter) {
+        statusFilter.forEach((status, index) => {
+          params[`StackStatusFilter.member.${index + 1}`] = status
+        })
+      }
+
+      if (nextToken) {
+        params.NextToken = nextToken
+      }
+
+      const result = await this.client.request({
+        service: 'cloudformation',
+        region: this.region,
+        method: 'POST',
+        path: '/',
+        body: new URLSearchParams(params).toString(),
+      })
+
+      const response = result.ListStacksResponse || result
+      const summariesResult = response.ListStacksResult || response
+      const members = summariesResult.StackSummaries?.member || summariesResult.StackSummaries || []
+      items.push(...(Array.isArray(members) ? members : members ? [members] : []))
+      nextToken = summariesResult.NextToken || undefined
+    } while (nextToken)
+
+    return {
+      StackSummaries: items.map((s: any) => ({
+        StackId: s.StackId || '',
+        StackName: s.StackName || '',
+        TemplateDescription: s.TemplateDescription,
+        CreationTime: s.CreationTime || '',
+        LastUpdatedTime: s.LastUpdatedTime,
+        DeletionTime: s.DeletionTime,
+        StackStatus: s.StackStatus || '',
+      })),
+    }
+  }
+
+  /**
+   * Start drift detection for a stack, optionally limited to some resources
+   */
+  async detectStackDrift(stackName: string, logicalResourceIds?: string[]): Promise<{ StackDriftDetectionId: string }> {
     const params: Record<string, any> = {
-      Action: 'ListStacks',
+      Action: 'DetectStackDrift',
+      StackName: stackName,
       Version: '2010-05-15',
     }
 
-    if (statusFilter) {
-      statusFilter.forEach((status, index) => {
-        params[`StackStatusFilter.member.${index + 1}`] = status
+    if (logicalResourceIds) {
+      logicalResourceIds.forEach((id, index) => {
+        params[`LogicalResourceIds.member.${index + 1}`] = id
       })
     }
 
@@ -475,24 +567,98 @@ export class CloudFormationClient {
       body: new URLSearchParams(params).toString(),
     })
 
-    const response = result.ListStacksResponse || result
-    const summariesResult = response.ListStacksResult || response
-    const members = summariesResult.StackSummaries?.member || summariesResult.StackSummaries || []
-    const items = Array.isArray(members) ? members : members ? [members] : []
+    const response = result?.DetectStackDriftResult || result
+    return { StackDriftDetectionId: response?.StackDriftDetectionId || '' }
+  }
+
+  /**
+   * Get the progress and outcome of a drift detection
+   */
+  async describeStackDriftDetectionStatus(stackDriftDetectionId: string): Promise<StackDriftDetectionStatus> {
+    const params: Record<string, any> = {
+      Action: 'DescribeStackDriftDetectionStatus',
+      StackDriftDetectionId: stackDriftDetectionId,
+      Version: '2010-05-15',
+    }
+
+    const result = await this.client.request({
+      service: 'cloudformation',
+      region: this.region,
+      method: 'POST',
+      path: '/',
+      body: new URLSearchParams(params).toString(),
+    })
 
+    const response = result?.DescribeStackDriftDetectionStatusResult || result
     return {
-      StackSummaries: items.map((s: any) => ({
-        StackId: s.StackId || '',
-        StackName: s.StackName || '',
-        TemplateDescription: s.TemplateDescription,
-        CreationTime: s.CreationTime || '',
-        LastUpdatedTime: s.LastUpdatedTime,
-        DeletionTime: s.DeletionTime,
-        StackStatus: s.StackStatus || '',
-      })),
+      StackId: response?.StackId || '',
+      StackDriftDetectionId: response?.StackDriftDetectionId || stackDriftDetectionId,
+      StackDriftStatus: response?.StackDriftStatus,
+      DetectionStatus: response?.DetectionStatus,
+      DetectionStatusReason: response?.DetectionStatusReason,
+      DriftedStackResourceCount:
+        response?.DriftedStackResourceCount === undefined ? undefined : Number(response.DriftedStackResourceCount),
+      Timestamp: response?.Timestamp || '',
     }
   }
 
+  /**
+   * List the drift of every resource checked by the last detection, following pagination
+   */
+  async describeStackResourceDrifts(stackName: string, statusFilters?: string[]): Promise<StackResourceDrift[]> {
+    const drifts: StackResourceDrift[] = []
+    const asArray = (value: any) => (Array.isArray(value) ? value : value ? [value] : [])
+    let nextToken: string | undefined
+
+    do {
+      const params: Record<string, any> = {
+        Action: 'DescribeStackResourceDrifts',
+        StackName: stackName,
+        Version: '2010-05-15',
+      }
+
+      if (statusFilters) {
+        statusFilters.forEach((status, index) => {
+          params[`StackResourceDriftStatusFilters.member.${index + 1}`] = status
+        })
+      }
+
+      if (nextToken) {
+        params.NextToken = nextToken
+      }
+
+      const result = await this.client.request({
+        service: 'cloudformation',
+        region: this.region,
+        method: 'POST',
+        path: '/',
+        body: new URLSearchParams(params).toString(),
+      })
+
+      const response = result?.DescribeStackResourceDriftsResult || result
+      for (const d of asArray(response?.StackResourceDrifts?.member)) {
+        drifts.push({
+          LogicalResourceId: d.LogicalResourceId,
+          PhysicalResourceId: d.PhysicalResourceId,
+          ResourceType: d.ResourceType,
+          StackResourceDriftStatus: d.StackResourceDriftStatus,
+          ExpectedProperties: d.ExpectedProperties,
+          ActualProperties: d.ActualProperties,
+          PropertyDifferences: asArray(d.PropertyDifferences?.member).map((p: any) => ({
+            PropertyPath: p.PropertyPath,
+            ExpectedValue: p.ExpectedValue ?? '',
+            ActualValue: p.ActualValue ?? '',
+            DifferenceType: p.DifferenceType,
+          })),
+          Timestamp: d.Timestamp,
+        })
+      }
+      nextToken = response?.NextToken || undefined
+    } while (nextToken)
+
+    return drifts
+  }
+
   /**
    * Create change set (for preview before updating)
    */
@@ -503,7 +669,9 @@ export class CloudFormationClient {
     templateUrl?: string
     parameters?: StackParameter[]
     capabilities?: string[]
-    changeSetType?: 'CREATE' | 'UPDATE'
+    changeSetType?: 'CREATE' | 'UPDATE' | 'IMPORT'
+    resourcesToImport?: ResourceToImport[]
+    tags?: StackTag[]
   }): Promise<{ Id: string; StackId: string }> {
     const params: Record<string, any> = {
       Action: 'CreateChangeSet',
@@ -535,6 +703,25 @@ export class CloudFormationClient {
       params.ChangeSetType = options.changeSetType
     }
 
+    if (options.tags) {
+      options.tags.forEach((tag, index) => {
+        params[`Tags.member.${index + 1}.Key`] = tag.Key
+        params[`Tags.member.${index + 1}.Value`] = tag.Value
+      })
+    }
+
+    if (options.resourcesToImport) {
+      options.resourcesToImport.forEach((resource, index) => {
+        const prefix = `ResourcesToImport.member.${index + 1}`
+        params[`${prefix}.ResourceType`] = resource.ResourceType
+        params[`${prefix}.LogicalResourceId`] = resource.LogicalResourceId
+        Object.entries(resource.ResourceIdentifier).forEach(([key, value], entry) => {
+          params[`${prefix}.ResourceIdentifier.entry.${entry + 1}.key`] = key
+          params[`${prefix}.ResourceIdentifier.entry.${entry + 1}.value`] = value
+        })
+      })
+    }
+
     const result = await this.client.request({
       service: 'cloudformation',
       region: this.region,
@@ -566,6 +753,34 @@ export class CloudFormationClient {
     })
   }
 
+  /**
+   * Wait for a change set to finish creating
+   */
+  async waitForChangeSet(
+    stackName: string,
+    changeSetName: string,
+    maxAttempts: number = 60,
+    delayMs: number = 5000,
+  ): Promise<{ success: boolean; status: string; reason?: string }> {
+    for (let i = 0; i < maxAttempts; i++) {
+      const result = await this.describeChangeSet(stackName, changeSetName)
+      const changeSet = result?.DescribeChangeSetResult || result
+      const status = changeSet?.Status || ''
+
+      if (status === 'CREATE_COMPLETE') {
+        return { success: true, status }
+      }
+
+      if (status === 'FAILED' || status === 'DELETE_COMPLETE' || status === 'DELETE_FAILED') {
+        return { success: false, status, reason: changeSet?.StatusReason }
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, delayMs))
+    }
+
+    return { success: false, status: 'TIMEOUT', reason: 'Change set creation timed out' }
+  }
+
   /**
    * Execute change set
    */
@@ -857,7 +1072,7 @@ export class CloudFormationClient {
     maxAttempts: number = 120,
     delayMs: number = 5000,
   ): Promise<{ success: boolean; status: string; reason?: string }> {
-    const successStatuses = ['CREATE_COMPLETE', 'UPDATE_COMPLETE', 'DELETE_COMPLETE']
+    const successStatuses = ['CREATE_COMPLETE', 'UPDATE_COMPLETE', 'DELETE_COMPLETE', 'IMPORT_COMPLETE']
     const failureStatuses = [
       'CREATE_FAILED',
       'UPDATE_FAILED',
@@ -866,6 +1081,8 @@ export class CloudFormationClient {
       'ROLLBACK_FAILED',
       'UPDATE_ROLLBACK_COMPLETE',
       'UPDATE_ROLLBACK_FAILED',
+      'IMPORT_ROLLBACK_COMPLETE',
+      'IMPORT_ROLLBACK_FAILED',
     ]
 
     for (let i = 0; i < maxAttempts; i++) {
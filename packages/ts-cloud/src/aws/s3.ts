@@ -6,7 +6,7 @@ import * as crypto from 'node:crypto'
 import { readFileSync } from 'node:fs'
 import { readdir } from 'node:fs/promises'
 import { join } from 'node:path'
-import { AWSClient, resolveS3Endpoint } from './client'
+import { AWSClient, awsEndpointOverride, resolveS3Endpoint } from './client'
 import { resolveCredentials } from './credentials'
 
 /**
@@ -104,22 +104,25 @@ export class S3Client {
     const resolvedOptions = typeof regionOrOptions === 'string' ? options : regionOrOptions
     const region = typeof regionOrOptions === 'string' ? regionOrOptions : (regionOrOptions.region ?? 'us-east-1')
     const resolvedProfile = typeof regionOrOptions === 'string' ? profile : regionOrOptions.profile
-    const endpoint = resolvedOptions?.endpoint
-      ? resolveS3Endpoint({ region, path: '/', endpoint: resolvedOptions.endpoint })
-      : undefined
+    // An `AWS_ENDPOINT_URL` override (a local emulator) applies when no endpoint is passed,
+    // and is addressed path-style.
+    const override = resolvedOptions?.endpoint ? undefined : awsEndpointOverride('s3')
+    const endpointOption = resolvedOptions?.endpoint ?? override
+    const forcePathStyle = resolvedOptions?.forcePathStyle ?? (override ? true : undefined)
+    const endpoint = endpointOption ? resolveS3Endpoint({ region, path: '/', endpoint: endpointOption }) : undefined
     this.region = region
     this.explicitProfile = resolvedProfile
     this.endpoint = endpoint?.host
     this.endpointProtocol = endpoint?.protocol ?? 'https'
-    this.forcePathStyle = resolvedOptions?.forcePathStyle
+    this.forcePathStyle = forcePathStyle
     this.explicitCredentials = resolvedOptions?.credentials
     // Pass the profile through config (NOT a pre-resolved Promise: resolveCredentials
     // is async, so handing it to AWSClient as `credentials` broke signing — the
     // explicit profile was effectively ignored / could surface InvalidAccessKeyId).
     this.client = new AWSClient(resolvedOptions?.credentials, {
       profile: resolvedProfile,
-      endpoint: resolvedOptions?.endpoint,
-      forcePathStyle: resolvedOptions?.forcePathStyle,
+      endpoint: endpointOption,
+      forcePathStyle,
     })
   }
 
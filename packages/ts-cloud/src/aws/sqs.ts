@@ -196,7 +196,18 @@ export class SQSClient {
       body: new URLSearchParams(params).toString(),
     })
 
-    return { Attributes: result.Attributes || result.GetQueueAttributesResult?.Attributes || {} }
+    if (result.Attributes || result.GetQueueAttributesResult?.Attributes) {
+      return { Attributes: result.Attributes || result.GetQueueAttributesResult.Attributes }
+    }
+
+    // The query protocol returns repeated <Attribute><Name/><Value/></Attribute> elements
+    const entries = result.GetQueueAttributesResult?.Attribute
+    const attributes: Record<string, string> = {}
+    for (const entry of Array.isArray(entries) ? entries : entries ? [entries] : []) {
+      attributes[entry.Name] = String(entry.Value)
+    }
+
+    return { Attributes: attributes }
   }
 
   /**
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'bun:test'
+import type { BackupDestination } from './model'
+import type { MultipartCheckpoint } from './s3-destination'
+import { AzureBlobBackupDestinationAdapter } from './azure-destination'
+import { backupCredentialStatus } from './s3-destination'
+
+/** The account and key every Azurite install ships with. */
+const AZURITE_ACCOUNT = 'devstoreaccount1'
+const AZURITE_KEY = 'Eby8vdM02xNOcqFlqUwJPLlmEtlCDXJ1OUzFT50uSRZ6IFsuFq2UVErCz4I6tq/K1SZFPTOtr/KBHBeksoGMGw=='
+
+/** Just enough of Azurite's blob service, path-style, to exercise the adapter. */
+class FakeAzurite {
+  blobs = new Map<string, { body: Buffer; headers: Record<string, string> }>()
+  staged = new Map<string, Map<string, Buffer>>()
+  requests: Request[] = []
+  stagedBlocks: string[] = []
+  containerPolicy = false
+  failBlockOnce?: number
+
+  fetch = async (request: Request): Promise<Response> => {
+    this.requests.push(request)
+    const url = new URL(request.url),
+      [account, ...rest] = url.pathname.slice(1).split('/'),
+      path = rest.map(decodeURIComponent).join('/'),
+      comp = url.searchParams.get('comp'),
+      error = (status: number, code: string) =>
+        new Response(`<?xml version="1.0" encoding="utf-8"?><Error><Code>${code}</Code></Error>`, { status })
+    if (account !== AZURITE_ACCOUNT) return error(400, 'InvalidUri')
+    if (request.method === 'GET' && url.searchParams.get('restype') === 'container')
+      return new Response(null, {
+        status: 200,
+        headers: { 'x-ms-has-immutability-policy': String(this.containerPolicy) },
+      })
+    if (request.method === 'PUT' && comp === 'block') {
+      if (this.failBlockOnce === this.stagedBlocks.length + 1) {
+        this.failBlockOnce = undefined
+        return error(503, 'ServerBusy')
+      }
+      const blockId = url.searchParams.get('blockid')!
+      this.stagedBlocks.push(blockId)
+      this.staged.set(path, (this.staged.get(path) ?? new Map()).set(blockId, Buffer.from(await request.arrayBuffer())))
+      return new Response(null, { status: 201 })
+    }
+    if (request.method === 'PUT' && comp === 'blocklist') {
+      const ids = [...(await request.text()).matchAll(/<Latest>([^<]*)<\/Latest>/g)].map((match) => match[1]),
+        staged = this.staged.get(path) ?? new Map<string, Buffer>()
+      if (ids.some((id) => !staged.has(id))) return error(400, 'InvalidBlockList')
+      this.blobs.set(path, {
+        body: Buffer.concat(ids.map((id) => staged.get(id)!)),
+        headers: Object.fromEntries(request.headers),
+      })
+      this.staged.delete(path)
+      return new Response(null, { status: 201 })
+    }
+    if (request.method === 'PUT') {
+      if (request.headers.get('x-ms-blob-type') !== 'BlockBlob') return error(400, 'MissingRequiredHeader')
+      this.blobs.set(path, {
+        body: Buffer.from(await request.arrayBuffer()),
+        headers: Object.fromEntries(request.headers),
+      })
+      return new Response(null, { status: 201 })
+    }
+    const blob = this.blobs.get(path)
+    if (!blob) return error(404, 'BlobNotFound')
+    if (request.method === 'GET') return new Response(blob.body, { status: 200 })
+    this.blobs.delete(path)
+    return new Response(null, { status: 202 })
+  }
+}
+
+const destination = (overrides: Partial<BackupDestination> = {}): BackupDestination => ({
+  id: 'destination',
+  organizationId: 'org',
+  projectId: 'project',
+  name: 'offsite',
+  provider: 'azure_blob',
+  endpoint: 'https://127.0.0.1:10000/',
+  endpointPolicy: 'allow_private',
+  bucket: 'backups',
+  prefix: 'production',
+  forcePathStyle: true,
+  credentialRef: 'secret://credentials',
+  encryption: 'provider',
+  immutability: {},
+  status: 'healthy',
+  version: 1,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides,
+})
+
+const secrets = (credential: Record<string, string> = { accountName: AZURITE_ACCOUNT, accountKey: AZURITE_KEY }) => ({
+  resolve: async (ref: string) => (ref === 'secret://credentials' ? JSON.stringify(credential) : 'strong-backup-key'),
+})
+
+describe('Azure Blob backup destination adapter', () => {
+  it('signs path-style requests with the shared key and health-tests without leaving objects', async () => {
+    const azurite = new FakeAzurite(),
+      adapter = new AzureBlobBackupDestinationAdapter(secrets(), azurite.fetch)
+    await adapter.test(destination())
+    expect(azurite.blobs.size).toBe(0)
+    const put = azurite.requests[0]
+    expect(new URL(put.url).pathname).toStartWith('/devstoreaccount1/backups/production/.ts-cloud-health/')
+    expect(put.headers.get('authorization')).toMatch(/^SharedKey devstoreaccount1:[A-Za-z0-9+/]+=*$/)
+    expect(put.headers.get('x-ms-version')).toBeString()
+
+    await expect(adapter.test(destination({ immutability: { objectLock: true } }))).rejects.toThrow(
+      'no immutability policy',
+    )
+    azurite.containerPolicy = true
+    await adapter.test(destination({ immutability: { objectLock: true } }))
+  })
+
+  it('authenticates with a SAS token instead of signing', async () => {
+    const azurite = new FakeAzurite(),
+      adapter = new AzureBlobBackupDestinationAdapter(
+        secrets({
+          accountName: AZURITE_ACCOUNT,
+          sasToken: '?sv=2023-11-03&sp=rwd&se=2099-01-01T00%3A00%3A00Z&sig=abc',
+        }),
+        azurite.fetch,
+      )
+    const stored = await adapter.upload(destination(), { key: 'point.bin', body: Buffer.from('recovery data') })
+    expect(stored.uri).toBe('azure://backups/production/point.bin')
+    const put = new URL(azurite.requests[0].url)
+    expect(azurite.requests[0].headers.get('authorization')).toBeNull()
+    expect(put.searchParams.get('sig')).toBe('abc')
+    expect(put.searchParams.get('se')).toBe('2099-01-01T00:00:00Z')
+
+    const expiring = secrets({
+      accountName: AZURITE_ACCOUNT,
+      sasToken: 'sv=2023-11-03&se=2026-07-25T00%3A00%3A00Z&sig=abc',
+    })
+    expect(await backupCredentialStatus(destination(), expiring, new Date('2026-07-21T00:00:00.000Z'))).toEqual({
+      status: 'expiring',
+      expiresAt: '2026-07-25T00:00:00.000Z',
+    })
+    expect(await backupCredentialStatus(destination(), secrets())).toEqual({ status: 'static' })
+  })
+
+  it('stages encrypted blocks, resumes from the checkpoint, and commits with a blob immutability policy', async () => {
+    const azurite = new FakeAzurite(),
+      now = new Date('2026-07-21T12:00:00.000Z'),
+      adapter = new AzureBlobBackupDestinationAdapter(secrets(), azurite.fetch, 16, 16, () => now),
+      target = destination({
+        encryption: 'client_side',
+        encryptionKeyRef: 'secret://encryption',
+        immutability: { defaultRetentionDays: 30 },
+      }),
+      body = Buffer.from('critical recovery data that spans several blocks'),
+      checkpoints: MultipartCheckpoint[] = []
+    azurite.failBlockOnce = 3
+    await expect(
+      adapter.upload(target, {
+        key: 'large.bin',
+        body,
+        checkpoint: (value) => checkpoints.push(structuredClone(value)),
+      }),
+    ).rejects.toThrow('503 ServerBusy')
+    const resume = checkpoints.at(-1)!
+    expect(resume).toMatchObject({ key: 'production/large.bin', bytesUploaded: 32 })
+    expect(resume.parts.map((part) => part.PartNumber)).toEqual([1, 2])
+    const staged = resume.parts.map((part) => part.ETag)
+
+    const stored = await adapter.upload(target, { key: 'large.bin', body, resume })
+    expect(azurite.stagedBlocks).toHaveLength(6)
+    expect(azurite.stagedBlocks.slice(0, 2)).toEqual(staged)
+    expect(new Set(azurite.stagedBlocks.map((id) => Buffer.from(id, 'base64').length)).size).toBe(1)
+    const blob = azurite.blobs.get('backups/production/large.bin')!
+    expect(blob.body.includes(body)).toBe(false)
+    expect(blob.headers).toMatchObject({
+      'x-ms-immutability-policy-mode': 'Unlocked',
+      'x-ms-immutability-policy-until-date': new Date('2026-08-20T12:00:00.000Z').toUTCString(),
+      'x-ms-meta-tscloudencrypted': 'true',
+    })
+    expect(await adapter.download(target, stored)).toEqual(body)
+
+    azurite.staged.set('backups/production/partial.bin', new Map([['block', Buffer.from('x')]]))
+    await adapter.abortPartial(target, {
+      uploadId: 'upload',
+      key: 'production/partial.bin',
+      parts: [],
+      bytesUploaded: 1,
+    })
+    expect(azurite.staged.has('backups/production/partial.bin')).toBe(false)
+    expect(azurite.blobs.has('backups/production/partial.bin')).toBe(false)
+  })
+})
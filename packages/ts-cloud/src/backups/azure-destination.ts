@@ -0,0 +1,259 @@
+import type { BackupDestination } from './model'
+import type {
+  BackupFetch,
+  BackupSecretBackend,
+  MultipartCheckpoint,
+  PreparedBackup,
+  StoredBackup,
+} from './s3-destination'
+import { createHmac } from 'node:crypto'
+import { backupObjectKey, openBackup, prepareBackupUpload, storedBackup } from './s3-destination'
+
+const API_VERSION = '2023-11-03'
+const HEALTH_BODY = 'ts-cloud backup destination health check'
+
+interface AzureCredential {
+  accountName: string
+  accountKey?: string
+  sasToken?: string
+}
+
+function azureCredential(value: string): AzureCredential {
+  let parsed: Record<string, unknown>
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    throw new Error('Azure Blob credential must be a JSON object with accountName and accountKey or sasToken.')
+  }
+  if (!parsed.accountName || (!parsed.accountKey && !parsed.sasToken))
+    throw new Error('Azure Blob credential requires accountName and either accountKey or sasToken.')
+  return {
+    accountName: String(parsed.accountName),
+    accountKey: parsed.accountKey ? String(parsed.accountKey) : undefined,
+    sasToken: parsed.sasToken ? String(parsed.sasToken).replace(/^\?/, '') : undefined,
+  }
+}
+
+async function azureError(response: Response, operation: string): Promise<Error> {
+  const code = (await response.text()).match(/<Code>([^<]+)<\/Code>/)?.[1] ?? response.statusText
+  return new Error(`Azure Blob ${operation} failed with ${response.status} ${code}.`)
+}
+
+function sharedKeySignature(credential: AzureCredential, method: string, url: URL, headers: Headers): string {
+  const header = (name: string) => headers.get(name) ?? ''
+  const length = header('content-length')
+  const canonicalHeaders = [...headers.keys()]
+    .filter((name) => name.startsWith('x-ms-'))
+    .sort()
+    .map((name) => `${name}:${header(name).trim()}\n`)
+    .join('')
+  const canonicalQuery = [...new Set(url.searchParams.keys())]
+    .sort()
+    .map((name) => `\n${name.toLowerCase()}:${url.searchParams.getAll(name).sort().join(',')}`)
+    .join('')
+  const stringToSign = [
+    method,
+    header('content-encoding'),
+    header('content-language'),
+    length === '0' ? '' : length,
+    header('content-md5'),
+    header('content-type'),
+    '',
+    header('if-modified-since'),
+    header('if-match'),
+    header('if-none-match'),
+    header('if-unmodified-since'),
+    header('range'),
+  ].join('\n')
+  return createHmac('sha256', Buffer.from(credential.accountKey!, 'base64'))
+    .update(`${stringToSign}\n${canonicalHeaders}/${credential.accountName}${url.pathname}${canonicalQuery}`)
+    .digest('base64')
+}
+
+/**
+ * Azure Blob Storage destinations. The destination's bucket is the container,
+ * and the credential is JSON with accountName and either accountKey (Shared
+ * Key) or sasToken. Without an endpoint requests go to the account's public
+ * blob endpoint; with forcePathStyle the account is the first path segment,
+ * which is how Azurite serves it.
+ *
+ * Large backups are staged as blocks and committed with Put Block List; the
+ * checkpoint records the block IDs already staged. immutability.objectLock
+ * expects a time-based retention policy on the container, and
+ * defaultRetentionDays without it gives each blob its own unlocked
+ * immutability policy, which needs version-level immutability on the container.
+ */
+export class AzureBlobBackupDestinationAdapter {
+  constructor(
+    private readonly secrets: BackupSecretBackend,
+    private readonly fetcher: BackupFetch = (request) => fetch(request),
+    private readonly multipartThreshold: number = 8 * 1024 * 1024,
+    private readonly blockSize: number = 8 * 1024 * 1024,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  private async request(
+    destination: BackupDestination,
+    method: string,
+    key: string | undefined,
+    options: { query?: Record<string, string>; headers?: Record<string, string>; body?: Uint8Array } = {},
+  ): Promise<Response> {
+    if (!destination.bucket) throw new Error('Azure Blob destination has no configured container.')
+    if (!destination.credentialRef) throw new Error('Azure Blob destination has no credential reference.')
+    const credential = azureCredential(await this.secrets.resolve(destination.credentialRef)),
+      origin = destination.endpoint
+        ? new URL(destination.endpoint).origin
+        : `https://${credential.accountName}.blob.core.windows.net`,
+      base = destination.endpoint && destination.forcePathStyle ? `${origin}/${credential.accountName}` : origin,
+      path = key ? `/${key.split('/').map(encodeURIComponent).join('/')}` : '',
+      url = new URL(`${base}/${encodeURIComponent(destination.bucket)}${path}`)
+    for (const [name, value] of Object.entries(options.query ?? {})) url.searchParams.set(name, value)
+    const headers = new Headers({
+      'x-ms-version': API_VERSION,
+      'x-ms-date': this.now().toUTCString(),
+      ...options.headers,
+    })
+    if (options.body) headers.set('content-length', String(options.body.length))
+    if (credential.accountKey)
+      headers.set(
+        'authorization',
+        `SharedKey ${credential.accountName}:${sharedKeySignature(credential, method, url, headers)}`,
+      )
+    else for (const [name, value] of new URLSearchParams(credential.sasToken)) url.searchParams.append(name, value)
+    return this.fetcher(new Request(url.href, { method, headers, body: options.body }))
+  }
+
+  private async send(
+    destination: BackupDestination,
+    method: string,
+    key: string | undefined,
+    options?: { query?: Record<string, string>; headers?: Record<string, string>; body?: Uint8Array },
+  ): Promise<Response> {
+    const response = await this.request(destination, method, key, options)
+    if (response.ok) return response
+    throw await azureError(response, `${method} ${key ?? destination.bucket}`)
+  }
+
+  private blobHeaders(destination: BackupDestination, prepared: PreparedBackup): Record<string, string> {
+    // Metadata names must be C# identifiers, so no dashes as on S3.
+    const headers: Record<string, string> = {
+      'x-ms-blob-content-type': prepared.contentType,
+      'x-ms-meta-tscloudformat': 'v1',
+      'x-ms-meta-tscloudsha256': prepared.storageChecksum.slice(7),
+      'x-ms-meta-tscloudencrypted': prepared.encrypted ? 'true' : 'false',
+    }
+    const days = destination.immutability.defaultRetentionDays
+    if (days && !destination.immutability.objectLock) {
+      headers['x-ms-immutability-policy-until-date'] = new Date(this.now().getTime() + days * 86_400_000).toUTCString()
+      headers['x-ms-immutability-policy-mode'] = 'Unlocked'
+    }
+    return headers
+  }
+
+  async test(destination: BackupDestination): Promise<void> {
+    if (destination.immutability.objectLock) {
+      const container = await this.send(destination, 'GET', undefined, { query: { restype: 'container' } })
+      if (container.headers.get('x-ms-has-immutability-policy') !== 'true')
+        throw new Error(`Container ${destination.bucket} has no immutability policy for objectLock to rely on.`)
+    }
+    const key = backupObjectKey(destination, `.ts-cloud-health/${crypto.randomUUID()}`)
+    await this.send(destination, 'PUT', key, {
+      headers: { 'x-ms-blob-type': 'BlockBlob', 'x-ms-blob-content-type': 'text/plain' },
+      body: Buffer.from(HEALTH_BODY),
+    })
+    try {
+      const downloaded = await this.send(destination, 'GET', key)
+      if ((await downloaded.text()) !== HEALTH_BODY) throw new Error('Backup destination health object was corrupted.')
+    } finally {
+      await this.delete(destination, key)
+    }
+  }
+
+  async upload(
+    destination: BackupDestination,
+    input: {
+      key: string
+      body: Uint8Array
+      contentType?: string
+      resume?: MultipartCheckpoint
+      checkpoint?: (value: MultipartCheckpoint) => void
+    },
+  ): Promise<StoredBackup> {
+    if (!destination.bucket) throw new Error('Azure Blob destination has no configured container.')
+    const prepared = await prepareBackupUpload(destination, this.secrets, input),
+      { key, body } = prepared
+    if (body.length < this.multipartThreshold) {
+      await this.send(destination, 'PUT', key, {
+        headers: { 'x-ms-blob-type': 'BlockBlob', ...this.blobHeaders(destination, prepared) },
+        body,
+      })
+    } else {
+      // Block IDs must all have the same length, and the upload ID keeps them
+      // apart from blocks a previous, abandoned attempt left uncommitted.
+      const state = input.resume ?? {
+          uploadId: crypto.randomUUID(),
+          key,
+          parts: [],
+          bytesUploaded: 0,
+          encryptionIv: prepared.encryptionIv?.toString('base64url'),
+          plaintextChecksum: prepared.plaintextChecksum,
+        },
+        completed = new Map(state.parts.map((part) => [part.PartNumber, part])),
+        blockCount = Math.ceil(body.length / this.blockSize)
+      for (let index = 0; index < blockCount; index++) {
+        const partNumber = index + 1
+        if (!completed.has(partNumber)) {
+          const start = index * this.blockSize,
+            blockId = Buffer.from(`${state.uploadId}:${String(partNumber).padStart(6, '0')}`).toString('base64')
+          await this.send(destination, 'PUT', key, {
+            query: { comp: 'block', blockid: blockId },
+            body: body.subarray(start, Math.min(body.length, start + this.blockSize)),
+          })
+          completed.set(partNumber, { PartNumber: partNumber, ETag: blockId })
+        }
+        state.parts = [...completed.values()].sort((a, b) => a.PartNumber - b.PartNumber)
+        state.bytesUploaded = Math.min(body.length, partNumber * this.blockSize)
+        input.checkpoint?.(state)
+      }
+      await this.commitBlocks(destination, key, state.parts, this.blobHeaders(destination, prepared))
+    }
+    return storedBackup(`azure://${destination.bucket}/${key}`, prepared)
+  }
+
+  private async commitBlocks(
+    destination: BackupDestination,
+    key: string,
+    parts: MultipartCheckpoint['parts'],
+    headers: Record<string, string>,
+  ): Promise<void> {
+    const blocks = parts.map((part) => `<Latest>${part.ETag}</Latest>`).join('')
+    await this.send(destination, 'PUT', key, {
+      query: { comp: 'blocklist' },
+      headers: { ...headers, 'content-type': 'application/xml' },
+      body: Buffer.from(`<?xml version="1.0" encoding="utf-8"?><BlockList>${blocks}</BlockList>`),
+    })
+  }
+
+  async download(
+    destination: BackupDestination,
+    stored: Pick<StoredBackup, 'key' | 'checksum' | 'manifest'>,
+  ): Promise<Buffer> {
+    const response = await this.send(destination, 'GET', stored.key)
+    return openBackup(destination, this.secrets, stored, new Uint8Array(await response.arrayBuffer()))
+  }
+
+  /**
+   * Azure has no call to discard uncommitted blocks; they expire after a
+   * week. Committing an empty block list and deleting the result drops them
+   * straight away.
+   */
+  async abortPartial(destination: BackupDestination, checkpoint: MultipartCheckpoint): Promise<void> {
+    await this.commitBlocks(destination, checkpoint.key, [], {})
+    await this.delete(destination, checkpoint.key)
+  }
+
+  async delete(destination: BackupDestination, key: string): Promise<void> {
+    const response = await this.request(destination, 'DELETE', key)
+    if (!response.ok && response.status !== 404) throw await azureError(response, `DELETE ${key}`)
+  }
+}
@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'bun:test'
+import type { BackupDestination } from './model'
+import type { MultipartCheckpoint } from './s3-destination'
+import { createVerify, generateKeyPairSync } from 'node:crypto'
+import { GcsBackupDestinationAdapter } from './gcs-destination'
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const serviceAccount = {
+  type: 'service_account',
+  client_email: 'backups@project.iam.gserviceaccount.com',
+  private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  token_uri: 'https://oauth2.example.test/token',
+}
+
+/** Just enough of fake-gcs-server's JSON API, plus a token endpoint, to exercise the adapter. */
+class FakeGcs {
+  objects = new Map<string, { body: Buffer; resource: Record<string, unknown> }>()
+  sessions = new Map<string, { name: string; received: Buffer; resource: Record<string, unknown> }>()
+  requests: Request[] = []
+  tokenRequests = 0
+  bucket: Record<string, unknown> = {}
+  failChunkAt?: number
+
+  constructor(private readonly token?: string) {}
+
+  fetch = async (request: Request): Promise<Response> => {
+    this.requests.push(request)
+    const url = new URL(request.url),
+      error = (status: number, message: string) => Response.json({ error: { code: status, message } }, { status })
+    if (url.href === serviceAccount.token_uri) {
+      this.tokenRequests++
+      const assertion = new URLSearchParams(await request.text()).get('assertion')!,
+        [header, claims, signature] = assertion.split('.')
+      if (!createVerify('RSA-SHA256').update(`${header}.${claims}`).verify(publicKey, signature, 'base64url'))
+        return error(400, 'invalid_grant')
+      expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toMatchObject({
+        iss: serviceAccount.client_email,
+        aud: serviceAccount.token_uri,
+      })
+      return Response.json({ access_token: this.token, expires_in: 3600 })
+    }
+    if (this.token && request.headers.get('authorization') !== `Bearer ${this.token}`)
+      return error(401, 'Invalid Credentials')
+    const upload = url.searchParams.get('upload_id')
+    if (upload) {
+      const session = this.sessions.get(upload)
+      if (!session) return error(404, 'No such upload')
+      if (request.method === 'DELETE') {
+        this.sessions.delete(upload)
+        return new Response(null, { status: 499 })
+      }
+      const [, start, end, total] = request.headers.get('content-range')!.match(/^bytes (?:(\d+)-(\d+)|\*)\/(\d+)$/)!,
+        chunk = Buffer.from(await request.arrayBuffer())
+      if (start !== undefined) {
+        if (this.failChunkAt === Number(start)) {
+          this.failChunkAt = undefined
+          return error(503, 'Backend Error')
+        }
+        if (Number(start) !== session.received.length || Number(end) - Number(start) + 1 !== chunk.length)
+          return error(400, 'Invalid request')
+        session.received = Buffer.concat([session.received, chunk])
+      }
+      if (session.received.length === Number(total)) {
+        this.objects.set(session.name, { body: session.received, resource: session.resource })
+        this.sessions.delete(upload)
+        return Response.json(session.resource)
+      }
+      return new Response(null, {
+        status: 308,
+        headers: session.received.length ? { range: `bytes=0-${session.received.length - 1}` } : {},
+      })
+    }
+    if (request.method === 'POST' && url.searchParams.get('uploadType') === 'resumable') {
+      const id = crypto.randomUUID(),
+        resource = (await request.json()) as Record<string, unknown>
+      this.sessions.set(id, { name: url.searchParams.get('name')!, received: Buffer.alloc(0), resource })
+      return new Response(null, {
+        status: 200,
+        headers: { location: `${url.origin}${url.pathname}?uploadType=resumable&upload_id=${id}` },
+      })
+    }
+    if (request.method === 'POST' && url.searchParams.get('uploadType') === 'media') {
+      this.objects.set(url.searchParams.get('name')!, { body: Buffer.from(await request.arrayBuffer()), resource: {} })
+      return Response.json({})
+    }
+    const [, bucket, name] = url.pathname.match(/^\/storage\/v1\/b\/([^/]+)(?:\/o\/(.+))?$/) ?? []
+    if (bucket !== 'backups') return error(404, 'Not Found')
+    if (!name) return Response.json(this.bucket)
+    const object = this.objects.get(decodeURIComponent(name))
+    if (!object) return error(404, 'No such object')
+    if (request.method === 'DELETE') {
+      this.objects.delete(decodeURIComponent(name))
+      return new Response(null, { status: 204 })
+    }
+    return new Response(object.body)
+  }
+}
+
+const destination = (overrides: Partial<BackupDestination> = {}): BackupDestination => ({
+  id: 'destination',
+  organizationId: 'org',
+  projectId: 'project',
+  name: 'offsite',
+  provider: 'gcs',
+  endpointPolicy: 'public_https',
+  bucket: 'backups',
+  prefix: 'production',
+  forcePathStyle: false,
+  credentialRef: 'secret://credentials',
+  encryption: 'provider',
+  immutability: {},
+  status: 'healthy',
+  version: 1,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides,
+})
+
+const secrets = {
+  resolve: async (ref: string) =>
+    ref === 'secret://credentials' ? JSON.stringify(serviceAccount) : 'strong-backup-key',
+}
+
+describe('GCS backup destination adapter', () => {
+  it('exchanges a service account key for a cached token and health-tests without leaving objects', async () => {
+    const gcs = new FakeGcs('access-token'),
+      adapter = new GcsBackupDestinationAdapter(secrets, gcs.fetch)
+    await adapter.test(destination())
+    await adapter.test(destination())
+    expect(gcs.tokenRequests).toBe(1)
+    expect(gcs.objects.size).toBe(0)
+    expect(new URL(gcs.requests[1].url).origin).toBe('https://storage.googleapis.com')
+
+    const locked = destination({ immutability: { objectLock: true, defaultRetentionDays: 30 } })
+    await expect(adapter.test(locked)).rejects.toThrow('no locked retention policy')
+    gcs.bucket = { retentionPolicy: { retentionPeriod: String(7 * 86_400), isLocked: true } }
+    await expect(adapter.test(locked)).rejects.toThrow('less than 30 days')
+    gcs.bucket = { retentionPolicy: { retentionPeriod: String(30 * 86_400), isLocked: true } }
+    await adapter.test(locked)
+  })
+
+  it('talks to an emulator endpoint without credentials', async () => {
+    const gcs = new FakeGcs(),
+      adapter = new GcsBackupDestinationAdapter(secrets, gcs.fetch),
+      emulator = destination({
+        endpoint: 'https://127.0.0.1:4443/',
+        endpointPolicy: 'allow_private',
+        credentialRef: undefined,
+      })
+    const stored = await adapter.upload(emulator, { key: 'point.bin', body: Buffer.from('recovery data') })
+    expect(stored.uri).toBe('gs://backups/production/point.bin')
+    expect(gcs.requests.every((request) => !request.headers.has('authorization'))).toBe(true)
+    expect(await adapter.download(emulator, stored)).toEqual(Buffer.from('recovery data'))
+    await expect(adapter.test(destination({ credentialRef: undefined }))).rejects.toThrow('service account')
+  })
+
+  it('resumes encrypted uploads from what the session persisted and sets object retention', async () => {
+    const gcs = new FakeGcs('access-token'),
+      now = new Date('2026-07-21T12:00:00.000Z'),
+      chunk = 256 * 1024,
+      adapter = new GcsBackupDestinationAdapter(secrets, gcs.fetch, chunk, chunk, () => now),
+      target = destination({
+        encryption: 'both',
+        encryptionKeyRef: 'secret://encryption',
+        immutability: { defaultRetentionDays: 30 },
+      }),
+      body = Buffer.alloc(chunk * 2 + 1000, 'backup'),
+      checkpoints: MultipartCheckpoint[] = []
+    gcs.failChunkAt = chunk
+    await expect(
+      adapter.upload(target, {
+        key: 'large.bin',
+        body,
+        checkpoint: (value) => checkpoints.push(structuredClone(value)),
+      }),
+    ).rejects.toThrow('503 Backend Error')
+    const resume = checkpoints.at(-1)!
+    expect(resume).toMatchObject({ key: 'production/large.bin', bytesUploaded: chunk, parts: [] })
+    expect(resume.uploadId).toContain('upload_id=')
+
+    const stored = await adapter.upload(target, { key: 'large.bin', body, resume })
+    const object = gcs.objects.get('production/large.bin')!
+    expect(object.body.includes(body.subarray(0, 64))).toBe(false)
+    expect(object.resource).toMatchObject({
+      contentType: 'application/octet-stream',
+      metadata: { 'ts-cloud-encrypted': 'true' },
+      retention: { mode: 'Unlocked', retainUntilTime: '2026-08-20T12:00:00.000Z' },
+    })
+    expect(await adapter.download(target, stored)).toEqual(body)
+
+    gcs.sessions.set('abandoned', { name: 'production/partial.bin', received: Buffer.alloc(0), resource: {} })
+    await adapter.abortPartial(target, {
+      uploadId: 'https://storage.googleapis.com/upload/storage/v1/b/backups/o?uploadType=resumable&upload_id=abandoned',
+      key: 'production/partial.bin',
+      parts: [],
+      bytesUploaded: 0,
+    })
+    expect(gcs.sessions.has('abandoned')).toBe(false)
+  })
+
+  it('finalizes an empty object with a single zero-length request', async () => {
+    const gcs = new FakeGcs('access-token'),
+      adapter = new GcsBackupDestinationAdapter(secrets, gcs.fetch)
+    const stored = await adapter.upload(destination(), { key: 'empty.bin', body: Buffer.alloc(0) })
+
+    const puts = gcs.requests.filter((request) => request.method === 'PUT')
+    expect(puts.map((request) => request.headers.get('content-range'))).toEqual(['bytes */0'])
+    expect(gcs.objects.get('production/empty.bin')?.body.length).toBe(0)
+    expect(await adapter.download(destination(), stored)).toEqual(Buffer.alloc(0))
+  })
+
+    it('rejects chunk sizes GCS would refuse', () => {
+    expect(() => new GcsBackupDestinationAdapter(secrets, async () => new Response(), 1000, 1000)).toThrow('256 KiB')
+  })
+})
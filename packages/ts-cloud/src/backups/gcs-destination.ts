@@ -0,0 +1,271 @@
+import type { BackupDestination } from './model'
+import type { BackupFetch, BackupSecretBackend, MultipartCheckpoint, StoredBackup } from './s3-destination'
+import { createSign } from 'node:crypto'
+import { backupObjectKey, openBackup, prepareBackupUpload, storedBackup } from './s3-destination'
+
+const GCS_ORIGIN = 'https://storage.googleapis.com'
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token'
+const HEALTH_BODY = 'ts-cloud backup destination health check'
+const CHUNK_ALIGNMENT = 256 * 1024
+
+interface GcsServiceAccount {
+  clientEmail: string
+  privateKey: string
+  tokenUri: string
+}
+
+function serviceAccount(value: string): GcsServiceAccount {
+  let parsed: Record<string, unknown>
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    throw new Error('GCS credential must be a service account key in JSON.')
+  }
+  if (!parsed.client_email || !parsed.private_key)
+    throw new Error('GCS credential requires the client_email and private_key of a service account key.')
+  return {
+    clientEmail: String(parsed.client_email),
+    privateKey: String(parsed.private_key),
+    tokenUri: parsed.token_uri ? String(parsed.token_uri) : GOOGLE_TOKEN_URL,
+  }
+}
+
+async function gcsError(response: Response, operation: string): Promise<Error> {
+  const text = await response.text()
+  let message = response.statusText
+  try {
+    message = (JSON.parse(text) as { error?: { message?: string } }).error?.message ?? message
+  } catch {}
+  return new Error(`GCS ${operation} failed with ${response.status} ${message}.`)
+}
+
+/** The last byte GCS has persisted for a resumable upload, from a 308 response's Range header. */
+function persistedBytes(response: Response): number {
+  const range = response.headers.get('range')?.match(/^bytes=0-(\d+)$/)
+  return range ? Number(range[1]) + 1 : 0
+}
+
+/**
+ * Google Cloud Storage destinations over the JSON API. The credential is a
+ * service account key file, exchanged for an OAuth access token; a
+ * destination with an explicit endpoint and no credential talks to an
+ * emulator such as fake-gcs-server without authentication. The XML API is
+ * S3-interoperable and is reached through an s3_compatible destination with
+ * HMAC keys instead.
+ *
+ * Every upload is a resumable upload session. The checkpoint records the
+ * session URI, and a resumed upload asks GCS how much it has persisted
+ * rather than trusting the last checkpoint. immutability.objectLock expects a
+ * locked bucket retention policy (bucket lock) at least defaultRetentionDays
+ * long, and defaultRetentionDays without it sets unlocked object retention,
+ * which the bucket must have enabled.
+ */
+export class GcsBackupDestinationAdapter {
+  private readonly tokens = new Map<string, { token: string; expiresAt: number }>()
+
+  constructor(
+    private readonly secrets: BackupSecretBackend,
+    private readonly fetcher: BackupFetch = (request) => fetch(request),
+    private readonly multipartThreshold: number = 8 * 1024 * 1024,
+    private readonly chunkSize: number = 8 * 1024 * 1024,
+    private readonly now: () => Date = () => new Date(),
+  ) {
+    if (chunkSize % CHUNK_ALIGNMENT) throw new Error('GCS upload chunks must be a multiple of 256 KiB.')
+  }
+
+  private async authorization(destination: BackupDestination): Promise<Record<string, string>> {
+    if (!destination.credentialRef) {
+      if (!destination.endpoint) throw new Error('GCS destination has no service account credential.')
+      return {}
+    }
+    const cached = this.tokens.get(destination.credentialRef)
+    if (cached && cached.expiresAt > this.now().getTime()) return { authorization: `Bearer ${cached.token}` }
+    const account = serviceAccount(await this.secrets.resolve(destination.credentialRef)),
+      issuedAt = Math.floor(this.now().getTime() / 1000),
+      encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url'),
+      unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({
+        iss: account.clientEmail,
+        scope: 'https://www.googleapis.com/auth/devstorage.read_write',
+        aud: account.tokenUri,
+        iat: issuedAt,
+        exp: issuedAt + 3600,
+      })}`,
+      signature = createSign('RSA-SHA256').update(unsigned).sign(account.privateKey, 'base64url'),
+      response = await this.fetcher(
+        new Request(account.tokenUri, {
+          method: 'POST',
+          headers: { 'content-type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams({
+            grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+            assertion: `${unsigned}.${signature}`,
+          }).toString(),
+        }),
+      )
+    if (!response.ok) throw await gcsError(response, 'token exchange')
+    const body = (await response.json()) as { access_token: string; expires_in?: number }
+    this.tokens.set(destination.credentialRef, {
+      token: body.access_token,
+      expiresAt: this.now().getTime() + Math.max(0, (body.expires_in ?? 3600) - 60) * 1000,
+    })
+    return { authorization: `Bearer ${body.access_token}` }
+  }
+
+  private async send(
+    destination: BackupDestination,
+    method: string,
+    path: string,
+    init: { headers?: Record<string, string>; body?: Uint8Array | string; accept?: number[] } = {},
+  ): Promise<Response> {
+    if (!destination.bucket) throw new Error('GCS destination has no configured bucket.')
+    const origin = destination.endpoint ? new URL(destination.endpoint).origin : GCS_ORIGIN,
+      url = /^https?:\/\//.test(path) ? path : `${origin}${path}`,
+      response = await this.fetcher(
+        new Request(url, {
+          method,
+          headers: { ...(await this.authorization(destination)), ...init.headers },
+          body: init.body,
+          // 308 is how a resumable session reports progress, not a redirect.
+          redirect: 'manual',
+        }),
+      )
+    if (response.ok || init.accept?.includes(response.status)) return response
+    throw await gcsError(response, `${method} ${destination.bucket}`)
+  }
+
+  private objectPath(destination: BackupDestination, key: string): string {
+    return `/storage/v1/b/${encodeURIComponent(destination.bucket!)}/o/${encodeURIComponent(key)}`
+  }
+
+  private uploadPath(destination: BackupDestination, uploadType: string, key: string): string {
+    const bucket = encodeURIComponent(destination.bucket!)
+    return `/upload/storage/v1/b/${bucket}/o?uploadType=${uploadType}&name=${encodeURIComponent(key)}`
+  }
+
+  async test(destination: BackupDestination): Promise<void> {
+    if (destination.immutability.objectLock) {
+      const bucket = (await (
+        await this.send(destination, 'GET', `/storage/v1/b/${encodeURIComponent(destination.bucket!)}`)
+      ).json()) as { retentionPolicy?: { retentionPeriod?: string; isLocked?: boolean } }
+      if (!bucket.retentionPolicy?.isLocked)
+        throw new Error(`Bucket ${destination.bucket} has no locked retention policy for objectLock to rely on.`)
+      const days = destination.immutability.defaultRetentionDays ?? 0
+      if (Number(bucket.retentionPolicy.retentionPeriod ?? 0) < days * 86_400)
+        throw new Error(`Bucket ${destination.bucket} retains objects for less than ${days} days.`)
+    }
+    const key = backupObjectKey(destination, `.ts-cloud-health/${crypto.randomUUID()}`)
+    await this.send(destination, 'POST', this.uploadPath(destination, 'media', key), {
+      headers: { 'content-type': 'text/plain' },
+      body: HEALTH_BODY,
+    })
+    try {
+      const downloaded = await this.send(destination, 'GET', `${this.objectPath(destination, key)}?alt=media`)
+      if ((await downloaded.text()) !== HEALTH_BODY) throw new Error('Backup destination health object was corrupted.')
+    } finally {
+      await this.delete(destination, key)
+    }
+  }
+
+  async upload(
+    destination: BackupDestination,
+    input: {
+      key: string
+      body: Uint8Array
+      contentType?: string
+      resume?: MultipartCheckpoint
+      checkpoint?: (value: MultipartCheckpoint) => void
+    },
+  ): Promise<StoredBackup> {
+    if (!destination.bucket) throw new Error('GCS destination has no configured bucket.')
+    const prepared = await prepareBackupUpload(destination, this.secrets, input),
+      { key, body } = prepared,
+      days = destination.immutability.defaultRetentionDays
+    let offset = 0,
+      sessionUri = input.resume?.uploadId,
+      complete = false
+    if (sessionUri) {
+      const status = await this.send(destination, 'PUT', sessionUri, {
+        headers: { 'content-range': `bytes */${body.length}` },
+        accept: [308],
+      })
+      complete = status.status !== 308
+      offset = complete ? body.length : persistedBytes(status)
+    } else {
+      const session = await this.send(destination, 'POST', this.uploadPath(destination, 'resumable', key), {
+        headers: {
+          'content-type': 'application/json; charset=UTF-8',
+          'x-upload-content-type': prepared.contentType,
+          'x-upload-content-length': String(body.length),
+        },
+        body: JSON.stringify({
+          name: key,
+          contentType: prepared.contentType,
+          metadata: {
+            'ts-cloud-format': 'v1',
+            'ts-cloud-sha256': prepared.storageChecksum.slice(7),
+            'ts-cloud-encrypted': prepared.encrypted ? 'true' : 'false',
+          },
+          ...(days && !destination.immutability.objectLock
+            ? {
+                retention: {
+                  mode: 'Unlocked',
+                  retainUntilTime: new Date(this.now().getTime() + days * 86_400_000).toISOString(),
+                },
+              }
+            : {}),
+        }),
+      })
+      sessionUri = session.headers.get('location') ?? undefined
+      if (!sessionUri) throw new Error('GCS did not return a resumable upload session.')
+    }
+    const resumable = body.length >= this.multipartThreshold,
+      state: MultipartCheckpoint = {
+        uploadId: sessionUri,
+        key,
+        parts: [],
+        bytesUploaded: offset,
+        encryptionIv: prepared.encryptionIv?.toString('base64url'),
+        plaintextChecksum: prepared.plaintextChecksum,
+      }
+    if (resumable && !input.resume) input.checkpoint?.(state)
+    // An empty object has no byte range to send: a single `bytes */0`
+    // request finalizes it, and GCS answers anything else with a 308.
+    if (!complete && !body.length) {
+      await this.send(destination, 'PUT', sessionUri, { headers: { 'content-range': 'bytes */0' } })
+      complete = true
+    }
+    while (!complete) {
+      const end = resumable ? Math.min(body.length, offset + this.chunkSize) : body.length,
+        response = await this.send(destination, 'PUT', sessionUri, {
+          headers: { 'content-range': `bytes ${offset}-${end - 1}/${body.length}` },
+          body: body.subarray(offset, end),
+          accept: [308],
+        })
+      complete = response.status !== 308
+      const persisted = complete ? body.length : persistedBytes(response)
+      if (persisted <= offset) throw new Error('GCS persisted none of the uploaded chunk.')
+      offset = persisted
+      if (resumable) {
+        state.bytesUploaded = offset
+        input.checkpoint?.(state)
+      }
+    }
+    return storedBackup(`gs://${destination.bucket}/${key}`, prepared)
+  }
+
+  async download(
+    destination: BackupDestination,
+    stored: Pick<StoredBackup, 'key' | 'checksum' | 'manifest'>,
+  ): Promise<Buffer> {
+    const response = await this.send(destination, 'GET', `${this.objectPath(destination, stored.key)}?alt=media`)
+    return openBackup(destination, this.secrets, stored, new Uint8Array(await response.arrayBuffer()))
+  }
+
+  /** Cancelling a session answers 499; one that already expired answers 404 or 410. */
+  async abortPartial(destination: BackupDestination, checkpoint: MultipartCheckpoint): Promise<void> {
+    await this.send(destination, 'DELETE', checkpoint.uploadId, { accept: [404, 410, 499] })
+  }
+
+  async delete(destination: BackupDestination, key: string): Promise<void> {
+    await this.send(destination, 'DELETE', this.objectPath(destination, key), { accept: [404] })
+  }
+}
@@ -1,6 +1,8 @@
 export * from './model'
 export * from './store'
 export * from './s3-destination'
+export * from './azure-destination'
+export * from './gcs-destination'
 export * from './service'
 export * from './aws-database-source'
 export * from './logical-database-source'
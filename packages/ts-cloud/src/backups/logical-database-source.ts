@@ -1,12 +1,17 @@
 import type { JsonValue } from '../control-plane'
 import type { SecretBackend } from '../data-services'
 import type { QueueExecutionContext } from '../queue'
-import type { BackupPolicy, RecoveryPoint } from './model'
-import type { BackupSourceAdapter, BackupSourceResult } from './service'
+import type { BackupPolicy, LogArchiveSegment, RecoveryPoint } from './model'
+import type { ArchivedLog, BackupSourceAdapter, BackupSourceResult } from './service'
 import { DockerDataTransport } from '../data-services'
 import { DataServiceStore } from '../data-services/store'
 import { compressBackup, decompressBackup } from './filesystem-source'
 
+const suffix = (compression: BackupPolicy['compression']) =>
+  compression === 'none' ? '' : compression === 'gzip' ? '.gz' : '.zst'
+const compressedType = (compression: BackupPolicy['compression'], type: string) =>
+  compression === 'gzip' ? 'application/gzip' : compression === 'zstd' ? 'application/zstd' : type
+
 export class LogicalDatabaseBackupSource implements BackupSourceAdapter {
   constructor(
     private readonly services: DataServiceStore,
@@ -14,13 +19,21 @@ export class LogicalDatabaseBackupSource implements BackupSourceAdapter {
     private readonly transport: DockerDataTransport = new DockerDataTransport(),
   ) {}
 
-  async create(policy: BackupPolicy, context: QueueExecutionContext): Promise<BackupSourceResult> {
+  private service(policy: BackupPolicy) {
     if (!policy.dataServiceId) throw new Error('Logical database backups require a data service.')
     const service = this.services.get(policy.dataServiceId)
     if (!service) throw new Error('Logical database service was not found.')
     if (!['container', 'server'].includes(service.provider))
       throw new Error('Logical database backups require an on-box data service.')
-    const dump = await this.transport.exportLogicalBackup(service.id),
+    return service
+  }
+
+  async create(policy: BackupPolicy, context: QueueExecutionContext): Promise<BackupSourceResult> {
+    const service = this.service(policy),
+      dump = policy.logArchiving
+        ? await this.transport.exportRecoveryBase(service.id)
+        : { ...(await this.transport.exportLogicalBackup(service.id)), format: 'logical-sql-v1' as const },
+      physical = dump.format === 'postgres-basebackup-v1',
       compression = policy.compression ?? 'none',
       body = compressBackup(dump.body, compression),
       timestamp = String(context.operation?.id ?? new Date().toISOString())
@@ -28,30 +41,100 @@ export class LogicalDatabaseBackupSource implements BackupSourceAdapter {
         .slice(0, 32)
     return {
       mode: 'object',
-      key: `${policy.projectId}/databases/${service.id}/${timestamp}.sql${compression === 'none' ? '' : compression === 'gzip' ? '.gz' : '.zst'}`,
+      key: `${policy.projectId}/databases/${service.id}/${timestamp}.${physical ? 'tar' : 'sql'}${suffix(compression)}`,
       body,
-      contentType:
-        compression === 'gzip' ? 'application/gzip' : compression === 'zstd' ? 'application/zstd' : 'application/sql',
+      contentType: compressedType(compression, physical ? 'application/x-tar' : 'application/sql'),
       engineVersion: dump.engineVersion,
       toolVersion: 'engine-native',
       manifest: {
-        format: 'logical-sql-v1',
+        format: dump.format,
         sourceDataServiceId: service.id,
         engine: dump.engine,
         database: dump.database,
         username: dump.username,
         compression,
+        ...('logStart' in dump ? { logStart: dump.logStart } : {}),
       },
     }
   }
 
+  async listArchivedLogs(policy: BackupPolicy): Promise<ArchivedLog[]> {
+    const service = this.service(policy)
+    return (await this.transport.listArchivedLogs(service.id)).map((log) => ({
+      ...log,
+      engine: service.engine as ArchivedLog['engine'],
+    }))
+  }
+
+  async readArchivedLog(
+    policy: BackupPolicy,
+    log: ArchivedLog,
+  ): Promise<{ key: string; body: Uint8Array; contentType: string; manifest: Record<string, JsonValue> }> {
+    const service = this.service(policy),
+      compression = policy.compression ?? 'none'
+    return {
+      key: `${policy.projectId}/databases/${service.id}/logs/${log.name}${suffix(compression)}`,
+      body: compressBackup(await this.transport.readArchivedLog(service.id, log.name), compression),
+      contentType: compressedType(compression, 'application/octet-stream'),
+      manifest: { compression },
+    }
+  }
+
+  async releaseArchivedLogs(policy: BackupPolicy, names: string[]): Promise<void> {
+    await this.transport.releaseArchivedLogs(this.service(policy).id, names)
+  }
+
   async restore(
     point: RecoveryPoint,
     body: Uint8Array | undefined,
     target: Record<string, JsonValue>,
+    context: QueueExecutionContext,
+  ): Promise<Record<string, JsonValue>> {
+    // A physical base restores like a point-in-time restore that replays nothing.
+    if (point.manifest.format === 'postgres-basebackup-v1') return this.restoreToTime(point, body, [], target, context)
+    if (!body) throw new Error('Logical database backup body is unavailable.')
+    const { sourceId, targetId, inPlace, credential } = await this.restoreTarget(point, target)
+    return this.transport.restoreLogicalBackup({
+      sourceId,
+      targetId,
+      body: decompressBackup(body, String(point.manifest.compression ?? 'none') as BackupPolicy['compression']),
+      credential,
+      inPlace,
+    })
+  }
+
+  async restoreToTime(
+    point: RecoveryPoint,
+    body: Uint8Array | undefined,
+    logs: Array<{ segment: LogArchiveSegment; body: Uint8Array }>,
+    target: Record<string, JsonValue>,
     _context: QueueExecutionContext,
   ): Promise<Record<string, JsonValue>> {
     if (!body) throw new Error('Logical database backup body is unavailable.')
+    const { sourceId, targetId, inPlace, credential } = await this.restoreTarget(point, target),
+      start = point.manifest.logStart as { name?: string; position?: number } | undefined
+    if (inPlace) throw new Error('Point-in-time restores run only into an isolated target.')
+    return this.transport.restoreToPointInTime({
+      sourceId,
+      targetId,
+      body: decompressBackup(body, String(point.manifest.compression ?? 'none') as BackupPolicy['compression']),
+      logs: logs.map((log) => ({
+        name: log.segment.name,
+        body: decompressBackup(
+          log.body,
+          String(log.segment.manifest.compression ?? 'none') as BackupPolicy['compression'],
+        ),
+      })),
+      logStart: start?.name ? { name: start.name, position: start.position } : undefined,
+      targetTime: typeof target.targetTime === 'string' ? target.targetTime : undefined,
+      credential,
+    })
+  }
+
+  private async restoreTarget(
+    point: RecoveryPoint,
+    target: Record<string, JsonValue>,
+  ): Promise<{ sourceId: string; targetId: string; inPlace: boolean; credential: string }> {
     const sourceId = String(point.dataServiceId ?? point.manifest.sourceDataServiceId ?? ''),
       targetId = String(target.dataServiceId ?? target.targetId ?? ''),
       inPlace = target.inPlace === true
@@ -59,14 +142,7 @@ export class LogicalDatabaseBackupSource implements BackupSourceAdapter {
     if (inPlace && targetId !== sourceId) throw new Error('An in-place restore must target the source data service.')
     const source = this.services.get(sourceId)
     if (!source?.credentialRef) throw new Error('Logical database credential reference was not found.')
-    const credential = await this.secrets.resolve(source.credentialRef)
-    return this.transport.restoreLogicalBackup({
-      sourceId,
-      targetId,
-      body: decompressBackup(body, String(point.manifest.compression ?? 'none') as BackupPolicy['compression']),
-      credential,
-      inPlace,
-    })
+    return { sourceId, targetId, inPlace, credential: await this.secrets.resolve(source.credentialRef) }
   }
 
   async cleanup(target: Record<string, JsonValue>, _context: QueueExecutionContext): Promise<void> {
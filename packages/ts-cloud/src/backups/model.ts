@@ -1,6 +1,6 @@
 import type { JsonValue } from '../control-plane'
 
-export type BackupDestinationProvider = 'aws_s3' | 's3_compatible' | 'aws_backup'
+export type BackupDestinationProvider = 'aws_s3' | 's3_compatible' | 'aws_backup' | 'azure_blob' | 'gcs'
 export type BackupResourceKind =
   'managed_database' | 'logical_database' | 'volume' | 'files' | 'control_plane' | 'infrastructure'
 
@@ -59,6 +59,8 @@ export interface BackupPolicy {
   expectedRpoMinutes: number
   expectedRtoMinutes: number
   healthCheckId?: string
+  /** Ship WAL (Postgres) or binlogs (MySQL, MariaDB) between runs so restores can target any moment. */
+  logArchiving?: boolean
   enabled: boolean
   nextRunAt?: string
   lastRunAt?: string
@@ -95,6 +97,30 @@ export interface RecoveryPoint {
   updatedAt: string
 }
 
+/** A WAL segment or binlog file shipped to the policy's destination. */
+export interface LogArchiveSegment {
+  id: string
+  projectId: string
+  policyId: string
+  destinationId: string
+  dataServiceId?: string
+  engine: 'postgres' | 'mysql' | 'mariadb'
+  name: string
+  sequence: number
+  recoverableUntil?: string
+  uri: string
+  sizeBytes: number
+  checksum: string
+  manifest: Record<string, JsonValue>
+  lockedUntil?: string
+  createdAt: string
+}
+
+export interface RecoverableWindow {
+  from: string
+  to: string
+}
+
 export interface BackupJob {
   id: string
   projectId: string
@@ -123,4 +149,5 @@ export interface BackupCoverage {
   missedRpo: boolean
   unverified: number
   destinationHealthy: boolean
+  recoverableWindow?: RecoverableWindow
 }
@@ -37,6 +37,9 @@ export interface BackupObjectClient {
   abortMultipartUpload(bucket: string, key: string, uploadId: string): Promise<void>
 }
 
+/** The fetch signature the HTTP destination adapters use, so tests can serve them in-process. */
+export type BackupFetch = (request: Request) => Promise<Response>
+
 export interface MultipartCheckpoint {
   uploadId: string
   key: string
@@ -88,6 +91,92 @@ export function decryptBackup(value: Uint8Array, secret: string): Buffer {
   return Buffer.concat([decipher.update(ciphertext), decipher.final()])
 }
 
+export interface PreparedBackup {
+  key: string
+  body: Buffer
+  contentType: string
+  encrypted: boolean
+  encryptionIv?: Buffer
+  plaintextChecksum: string
+  storageChecksum: string
+}
+
+/** `key` under the destination's prefix. */
+export function backupObjectKey(destination: BackupDestination, key: string): string {
+  return `${destination.prefix ? `${destination.prefix.replace(/\/$/, '')}/` : ''}${key.replace(/^\/+/, '')}`
+}
+
+/**
+ * The bytes a destination adapter stores for a backup: the payload, sealed in
+ * the client-side envelope when the destination asks for it. A resumed upload
+ * reuses its checkpoint's IV so the re-encrypted bytes match the parts that
+ * were already stored.
+ */
+export async function prepareBackupUpload(
+  destination: BackupDestination,
+  secrets: BackupSecretBackend,
+  input: { key: string; body: Uint8Array; contentType?: string; resume?: MultipartCheckpoint },
+): Promise<PreparedBackup> {
+  const plaintextChecksum = checksum(input.body),
+    encryptionSecret =
+      destination.encryption !== 'provider' ? await secrets.resolve(destination.encryptionKeyRef!) : undefined,
+    encryptionIv = encryptionSecret
+      ? input.resume?.encryptionIv
+        ? Buffer.from(input.resume.encryptionIv, 'base64url')
+        : randomBytes(12)
+      : undefined,
+    body = encryptionSecret ? encryptBackup(input.body, encryptionSecret, encryptionIv) : Buffer.from(input.body),
+    key = backupObjectKey(destination, input.key)
+  if (input.resume && input.resume.key !== key)
+    throw new Error('Multipart checkpoint does not match the requested backup key.')
+  if (input.resume && encryptionSecret && !input.resume.encryptionIv)
+    throw new Error('Encrypted multipart checkpoint has no resumable envelope state.')
+  if (input.resume && encryptionSecret && input.resume.plaintextChecksum !== plaintextChecksum)
+    throw new Error('Encrypted multipart checkpoint does not match the backup payload.')
+  return {
+    key,
+    body,
+    contentType: input.contentType ?? 'application/octet-stream',
+    encrypted: !!encryptionSecret,
+    encryptionIv,
+    plaintextChecksum,
+    storageChecksum: checksum(body),
+  }
+}
+
+export function storedBackup(uri: string, prepared: PreparedBackup): StoredBackup {
+  return {
+    uri,
+    key: prepared.key,
+    sizeBytes: prepared.body.length,
+    checksum: prepared.storageChecksum,
+    manifest: {
+      format: 'ts-cloud-backup-v1',
+      encrypted: prepared.encrypted,
+      plaintextChecksum: prepared.plaintextChecksum,
+      storageChecksum: prepared.storageChecksum,
+      contentType: prepared.contentType,
+    },
+  }
+}
+
+/** Verify downloaded bytes against the recovery point and undo client-side encryption. */
+export async function openBackup(
+  destination: BackupDestination,
+  secrets: BackupSecretBackend,
+  stored: Pick<StoredBackup, 'checksum' | 'manifest'>,
+  downloaded: Uint8Array,
+): Promise<Buffer> {
+  const body = Buffer.from(downloaded)
+  if (checksum(body) !== stored.checksum) throw new Error('Backup checksum verification failed; object is corrupt.')
+  const plaintext = stored.manifest.encrypted
+    ? decryptBackup(body, await secrets.resolve(destination.encryptionKeyRef!))
+    : body
+  if (checksum(plaintext) !== stored.manifest.plaintextChecksum)
+    throw new Error('Backup plaintext checksum verification failed.')
+  return plaintext
+}
+
 function credentials(value: string): {
   accessKeyId: string
   secretAccessKey: string
@@ -126,9 +215,17 @@ export async function backupCredentialStatus(
   if (!_destination.credentialRef) return { status: 'default' }
   try {
     const parsed = JSON.parse(await secrets.resolve(_destination.credentialRef)) as Record<string, unknown>
-    if (!parsed.accessKeyId || !parsed.secretAccessKey) return { status: 'invalid' }
-    if (!parsed.expiresAt) return { status: 'static' }
-    const expiresAt = new Date(String(parsed.expiresAt))
+    let expiry = parsed.expiresAt
+    if (_destination.provider === 'azure_blob') {
+      // Shared keys do not expire; a SAS token carries its expiry as `se`.
+      if (!parsed.accountName || (!parsed.accountKey && !parsed.sasToken)) return { status: 'invalid' }
+      expiry = parsed.accountKey ? undefined : new URLSearchParams(String(parsed.sasToken)).get('se')
+    } else if (_destination.provider === 'gcs') {
+      if (!parsed.client_email || !parsed.private_key) return { status: 'invalid' }
+      expiry = undefined
+    } else if (!parsed.accessKeyId || !parsed.secretAccessKey) return { status: 'invalid' }
+    if (!expiry) return { status: 'static' }
+    const expiresAt = new Date(String(expiry))
     if (!Number.isFinite(expiresAt.getTime())) return { status: 'invalid' }
     const remaining = expiresAt.getTime() - now.getTime()
     return {
@@ -170,7 +267,7 @@ export class S3BackupDestinationAdapter {
   async test(destination: BackupDestination): Promise<void> {
     if (!destination.bucket) throw new Error('S3 destination has no configured bucket.')
     const client = await this.client(destination),
-      key = `${destination.prefix ? `${destination.prefix.replace(/\/$/, '')}/` : ''}.ts-cloud-health/${crypto.randomUUID()}`
+      key = backupObjectKey(destination, `.ts-cloud-health/${crypto.randomUUID()}`)
     await client.putObject({
       bucket: destination.bucket,
       key,
@@ -198,29 +295,13 @@ export class S3BackupDestinationAdapter {
   ): Promise<StoredBackup> {
     if (!destination.bucket) throw new Error('S3 destination has no configured bucket.')
     const client = await this.client(destination),
-      plaintextChecksum = checksum(input.body),
-      encryptionSecret =
-        destination.encryption !== 'provider' ? await this.secrets.resolve(destination.encryptionKeyRef!) : undefined,
-      encryptionIv = encryptionSecret
-        ? input.resume?.encryptionIv
-          ? Buffer.from(input.resume.encryptionIv, 'base64url')
-          : randomBytes(12)
-        : undefined,
-      body = encryptionSecret ? encryptBackup(input.body, encryptionSecret, encryptionIv) : Buffer.from(input.body),
-      storageChecksum = checksum(body),
-      key = `${destination.prefix ? `${destination.prefix.replace(/\/$/, '')}/` : ''}${input.key.replace(/^\/+/, '')}`,
-      contentType = input.contentType ?? 'application/octet-stream',
+      prepared = await prepareBackupUpload(destination, this.secrets, input),
+      { key, body, contentType } = prepared,
       metadata = {
         'ts-cloud-format': 'v1',
-        'ts-cloud-sha256': storageChecksum.slice(7),
-        'ts-cloud-encrypted': encryptionSecret ? 'true' : 'false',
+        'ts-cloud-sha256': prepared.storageChecksum.slice(7),
+        'ts-cloud-encrypted': prepared.encrypted ? 'true' : 'false',
       }
-    if (input.resume && input.resume.key !== key)
-      throw new Error('Multipart checkpoint does not match the requested backup key.')
-    if (input.resume && encryptionSecret && !input.resume.encryptionIv)
-      throw new Error('Encrypted multipart checkpoint has no resumable envelope state.')
-    if (input.resume && encryptionSecret && input.resume.plaintextChecksum !== plaintextChecksum)
-      throw new Error('Encrypted multipart checkpoint does not match the backup payload.')
     if (body.length < this.multipartThreshold) {
       await client.putObject({
         bucket: destination.bucket,
@@ -241,8 +322,8 @@ export class S3BackupDestinationAdapter {
           key,
           parts: [],
           bytesUploaded: 0,
-          encryptionIv: encryptionIv?.toString('base64url'),
-          plaintextChecksum,
+          encryptionIv: prepared.encryptionIv?.toString('base64url'),
+          plaintextChecksum: prepared.plaintextChecksum,
         },
         completed = new Map(state.parts.map((part) => [part.PartNumber, part])),
         partCount = Math.ceil(body.length / this.partSize)
@@ -265,19 +346,7 @@ export class S3BackupDestinationAdapter {
       }
       await client.completeMultipartUpload(destination.bucket, key, state.uploadId, state.parts)
     }
-    return {
-      uri: `s3://${destination.bucket}/${key}`,
-      key,
-      sizeBytes: body.length,
-      checksum: storageChecksum,
-      manifest: {
-        format: 'ts-cloud-backup-v1',
-        encrypted: !!encryptionSecret,
-        plaintextChecksum,
-        storageChecksum,
-        contentType,
-      },
-    }
+    return storedBackup(`s3://${destination.bucket}/${key}`, prepared)
   }
 
   async download(
@@ -286,15 +355,8 @@ export class S3BackupDestinationAdapter {
   ): Promise<Buffer> {
     if (!destination.bucket) throw new Error('S3 destination has no configured bucket.')
     const client = await this.client(destination),
-      result = await client.getObjectBytes(destination.bucket, stored.key),
-      body = Buffer.from(result.body)
-    if (checksum(body) !== stored.checksum) throw new Error('Backup checksum verification failed; object is corrupt.')
-    const plaintext = stored.manifest.encrypted
-      ? decryptBackup(body, await this.secrets.resolve(destination.encryptionKeyRef!))
-      : body
-    if (checksum(plaintext) !== stored.manifest.plaintextChecksum)
-      throw new Error('Backup plaintext checksum verification failed.')
-    return plaintext
+      result = await client.getObjectBytes(destination.bucket, stored.key)
+    return openBackup(destination, this.secrets, stored, result.body)
   }
 
   async abortPartial(destination: BackupDestination, checkpoint: MultipartCheckpoint): Promise<void> {
@@ -1,8 +1,9 @@
 import { afterEach, describe, expect, it } from 'bun:test'
 import { createHash } from 'node:crypto'
 import { ControlPlaneStore } from '../control-plane'
+import { DataServiceStore } from '../data-services'
 import { DurableOperationQueue, DurableQueueWorker } from '../queue'
-import type { BackupDestinationAdapter, BackupSourceAdapter } from './service'
+import type { ArchivedLog, BackupDestinationAdapter, BackupSourceAdapter } from './service'
 import { BackupCoordinator, createBackupQueueHandlers } from './service'
 import type { MultipartCheckpoint } from './s3-destination'
 import { BackupStore } from './store'
@@ -89,6 +90,7 @@ class MemoryDestination implements BackupDestinationAdapter {
   corrupt = false
   failUpload = false
   failAbort = false
+  scheme = 's3'
   resumes: Array<MultipartCheckpoint | undefined> = []
   aborted: MultipartCheckpoint[] = []
   async upload(_destination: any, input: any) {
@@ -112,7 +114,7 @@ class MemoryDestination implements BackupDestinationAdapter {
       bytesUploaded: body.length,
     })
     return {
-      uri: `s3://backups/${input.key}`,
+      uri: `${this.scheme}://backups/${input.key}`,
       key: input.key,
       sizeBytes: body.length,
       checksum,
@@ -323,6 +325,24 @@ describe('durable backup and recovery lifecycle', () => {
     expect(runtime.cleaned).toEqual(['/restore/drill-1'])
   })
 
+  it('verifies and restores recovery points stored outside S3', async () => {
+    const target = fixture(),
+      runtime = adapters(target)
+    runtime.destination.scheme = 'gs'
+    target.coordinator.enqueueBackup(target.policy)
+    await new DurableQueueWorker(target.queue, runtime.handlers).drain()
+    const point = target.store.listRecoveryPoints(target.project.id)[0]
+    expect(point).toMatchObject({ uri: 'gs://backups/uploads-hourly/point.tar.zst', verificationState: 'verified' })
+    target.coordinator.enqueueRestore(point, {
+      mode: 'isolated',
+      target: { path: '/restore/gcs' },
+      targetName: 'gcs',
+      drill: true,
+    })
+    await new DurableQueueWorker(target.queue, runtime.handlers).drain()
+    expect(runtime.restored).toEqual(['/restore/gcs:volume archive'])
+  })
+
   it('keeps failed drill cleanup visible for operator reconciliation', async () => {
     const target = fixture(),
       runtime = adapters(target, {
@@ -378,4 +398,131 @@ describe('durable backup and recovery lifecycle', () => {
     })
     expect(restore).toMatchObject({ restoreMode: 'in_place', safetyBackupId: safety.id, status: 'queued' })
   })
+
+  it('ships archived logs and restores to a moment inside the recoverable window', async () => {
+    const target = fixture(),
+      service = new DataServiceStore(target.control).create({
+        organizationId: target.organization.id,
+        projectId: target.project.id,
+        name: 'orders-db',
+        engine: 'mysql',
+        provider: 'container',
+        placement: 'local',
+        engineVersion: '8.4',
+        plan: 'small',
+        highAvailability: false,
+        publicExposure: false,
+        allowedCidrs: [],
+        desiredState: {},
+        observedState: {},
+        status: 'available',
+        origin: 'managed',
+        managementEnabled: true,
+      }),
+      policy = target.store.createPolicy({
+        ...target.policy,
+        resourceId: undefined,
+        dataServiceId: service.id,
+        name: 'orders-pitr',
+        resourceKind: 'logical_database',
+        schedule: 'daily',
+        expectedRpoMinutes: 15,
+        logArchiving: true,
+      }),
+      staged: ArchivedLog[] = [],
+      replayed: Array<{ logs: string[]; targetTime: unknown }> = []
+    let logStart = 2
+    const runtime = adapters(target, {
+        create: async () => ({
+          mode: 'object',
+          key: `orders/base-${logStart}.sql`,
+          body: Buffer.from('dump'),
+          manifest: { logStart: { name: `binlog.00000${logStart}`, sequence: logStart, position: 157 } },
+        }),
+        listArchivedLogs: async () => [...staged],
+        readArchivedLog: async (_policy, log) => ({
+          key: `orders/logs/${log.name}`,
+          body: Buffer.from(`events in ${log.name}`),
+          manifest: { compression: 'none' },
+        }),
+        releaseArchivedLogs: async (_policy, names) => {
+          staged.splice(0, staged.length, ...staged.filter((log) => !names.includes(log.name)))
+        },
+        restoreToTime: async (_point, _body, logs, restoreTarget) => {
+          replayed.push({
+            logs: logs.map((log) => Buffer.from(log.body).toString()),
+            targetTime: restoreTarget.targetTime,
+          })
+          return { path: '/restore/orders' }
+        },
+      }),
+      worker = () => new DurableQueueWorker(target.queue, runtime.handlers).drain(),
+      ship = async (name: string, sequence: number, recoverableUntil: string) => {
+        staged.push({ name, sequence, engine: 'mysql', recoverableUntil })
+        target.clock.now = new Date(new Date(recoverableUntil).getTime() + 1000)
+        const [operation] = target.coordinator.enqueueLogArchives()
+        expect(target.coordinator.enqueueLogArchives()[0].operation.id).toBe(operation.operation.id)
+        expect(operation.job.lockKey).toBe(`data-service:${service.id}`)
+        await worker()
+        return target.queue.view(operation.operation.id)!
+      }
+    expect(() => target.store.createPolicy({ ...policy, name: 'second' })).toThrow('already archives')
+
+    target.coordinator.enqueueBackup(policy)
+    await worker()
+    const [base] = target.store.listRecoveryPoints(target.project.id, policy.id)
+    await ship('binlog.000002', 2, '2026-07-21T12:04:59.000Z')
+    await ship('binlog.000003', 3, '2026-07-21T12:09:59.000Z')
+    expect(staged).toEqual([])
+    expect(target.store.listLogSegments(policy.id).map((segment) => segment.uri)).toEqual([
+      's3://backups/orders/logs/binlog.000002',
+      's3://backups/orders/logs/binlog.000003',
+    ])
+    expect(target.store.coverage(target.project.id).find((item) => item.policy.id === policy.id)).toMatchObject({
+      missedRpo: false,
+      recoverableWindow: { from: base.pointInTime, to: '2026-07-21T12:09:59.000Z' },
+    })
+
+    expect(target.store.recoveryBaseFor(policy.id, '2026-07-21T12:07:00.000Z').id).toBe(base.id)
+    expect(() => target.store.recoveryBaseFor(policy.id, '2026-07-21T12:30:00.000Z')).toThrow(
+      `Target time must be between ${base.pointInTime} and 2026-07-21T12:09:59.000Z.`,
+    )
+    expect(() =>
+      target.coordinator.enqueueRestore(base, {
+        mode: 'isolated',
+        target: { name: 'orders-late' },
+        targetName: 'orders-late',
+        targetTime: '2026-07-21T12:30:00.000Z',
+      }),
+    ).toThrow('later than the archived logs reach')
+    expect(() =>
+      target.coordinator.planRestore(base, {
+        mode: 'in_place',
+        target: {},
+        targetName: 'orders-db',
+        targetTime: '2026-07-21T12:07:00.000Z',
+      }),
+    ).toThrow('only into an isolated target')
+    target.coordinator.enqueueRestore(base, {
+      mode: 'isolated',
+      target: { name: 'orders-1207' },
+      targetName: 'orders-1207',
+      targetTime: '2026-07-21T12:07:00Z',
+    })
+    await worker()
+    expect(replayed).toEqual([
+      { logs: ['events in binlog.000002', 'events in binlog.000003'], targetTime: '2026-07-21T12:07:00.000Z' },
+    ])
+
+    logStart = 4
+    target.coordinator.enqueueBackup(policy)
+    await worker()
+    target.store.updateRecoveryPoint(base.id, { status: 'deleted' })
+    const pruning = await ship('binlog.000004', 4, '2026-07-21T12:19:59.000Z')
+    expect(pruning.operation.output).toEqual({ policyId: policy.id, archived: 1, pruned: 2 })
+    expect(target.store.listLogSegments(policy.id).map((segment) => segment.name)).toEqual(['binlog.000004'])
+    expect([...runtime.destination.objects.keys()].filter((key) => key.includes('/logs/'))).toEqual([
+      'orders/logs/binlog.000004',
+    ])
+  })
 })
@@ -1,6 +1,6 @@
 import type { JsonValue } from '../control-plane'
-import type { QueueExecutionContext, QueueOperationHandler } from '../queue'
-import type { BackupDestination, BackupJob, BackupPolicy, RecoveryPoint } from './model'
+import type { QueueExecutionContext, QueueOperationHandler, QueueOperationView } from '../queue'
+import type { BackupDestination, BackupJob, BackupPolicy, LogArchiveSegment, RecoveryPoint } from './model'
 import type { MultipartCheckpoint, StoredBackup } from './s3-destination'
 import { createHash } from 'node:crypto'
 import { DurableOperationQueue } from '../queue'
@@ -26,6 +26,14 @@ export type BackupSourceResult =
       engineVersion?: string
     }
 
+/** A closed WAL segment or binlog file a source has staged for shipping. */
+export interface ArchivedLog {
+  name: string
+  sequence: number
+  engine: LogArchiveSegment['engine']
+  recoverableUntil?: string
+}
+
 export interface BackupSourceAdapter {
   create(policy: BackupPolicy, context: QueueExecutionContext): Promise<BackupSourceResult>
   verifyExternal?(point: RecoveryPoint, context: QueueExecutionContext): Promise<Record<string, JsonValue>>
@@ -39,6 +47,21 @@ export interface BackupSourceAdapter {
   validateHealth?(target: Record<string, JsonValue>, context: QueueExecutionContext): Promise<Record<string, JsonValue>>
   cleanup?(target: Record<string, JsonValue>, context: QueueExecutionContext): Promise<void>
   deleteExternal?(point: RecoveryPoint, context: QueueExecutionContext): Promise<void>
+  listArchivedLogs?(policy: BackupPolicy, context: QueueExecutionContext): Promise<ArchivedLog[]>
+  readArchivedLog?(
+    policy: BackupPolicy,
+    log: ArchivedLog,
+    context: QueueExecutionContext,
+  ): Promise<{ key: string; body: Uint8Array; contentType?: string; manifest: Record<string, JsonValue> }>
+  /** Called once shipped logs are recorded, so the source can drop its staged copies. */
+  releaseArchivedLogs?(policy: BackupPolicy, names: string[], context: QueueExecutionContext): Promise<void>
+  restoreToTime?(
+    point: RecoveryPoint,
+    body: Uint8Array | undefined,
+    logs: Array<{ segment: LogArchiveSegment; body: Uint8Array }>,
+    target: Record<string, JsonValue>,
+    context: QueueExecutionContext,
+  ): Promise<Record<string, JsonValue>>
 }
 
 export interface BackupDestinationAdapter {
@@ -59,6 +82,12 @@ export interface BackupDestinationAdapter {
 
 const digest = (value: string) => `sha256:${createHash('sha256').update(value).digest('hex')}`
 
+/** Recovery points a destination adapter stored, as opposed to provider snapshots such as AWS Backup ones. */
+const storedObject = (point: RecoveryPoint) => /^(s3|azure|gs):\/\//.test(point.uri)
+
+/** How often closed WAL segments and binlogs are shipped; Postgres also switches WAL this often. */
+export const LOG_ARCHIVE_INTERVAL_MINUTES = 5
+
 export class BackupCoordinator {
   constructor(
     readonly store: BackupStore,
@@ -150,6 +179,8 @@ export class BackupCoordinator {
       recentAuth?: boolean
       downtimeAcknowledged?: boolean
       safetyBackupId?: string
+      /** Replays archived logs on top of the point up to this moment. */
+      targetTime?: string
     },
   ): {
     point: RecoveryPoint
@@ -159,6 +190,8 @@ export class BackupCoordinator {
   } {
     if (point.status !== 'available') throw new Error('Only available recovery points can be restored.')
     if (point.verificationState !== 'verified') throw new Error('Restore requires a verified recovery point.')
+    if (input.targetTime && input.mode === 'in_place')
+      throw new Error('Point-in-time restores run only into an isolated target.')
     if (input.mode === 'in_place') {
       if (!input.recentAuth) throw new Error('In-place restore requires recent authentication.')
       if (input.confirm !== input.targetName) throw new Error(`Type ${input.targetName} to confirm in-place restore.`)
@@ -174,6 +207,21 @@ export class BackupCoordinator {
       )
         throw new Error('In-place restore requires a distinct verified safety backup for the same target.')
     }
+    let targetTime: string | undefined
+    if (input.targetTime) {
+      const parsed = new Date(input.targetTime)
+      if (Number.isNaN(parsed.getTime())) throw new Error('Target time must be an ISO timestamp.')
+      targetTime = parsed.toISOString()
+      this.store.logSegmentsForRestore(point, targetTime)
+    }
+    const warnings =
+      input.mode === 'in_place'
+        ? [
+            'The target is locked against deployments and backup work.',
+            'Downtime and data replacement are expected.',
+            'Provider cancellation may stop only at a checkpoint.',
+          ]
+        : ['An isolated target is created and health-validated before cleanup.']
     return {
       point,
       mode: input.mode,
@@ -181,15 +229,9 @@ export class BackupCoordinator {
         ...input.target,
         inPlace: input.mode === 'in_place',
         restoreMode: input.mode,
+        ...(targetTime ? { targetTime } : {}),
       },
-      warnings:
-        input.mode === 'in_place'
-          ? [
-              'The target is locked against deployments and backup work.',
-              'Downtime and data replacement are expected.',
-              'Provider cancellation may stop only at a checkpoint.',
-            ]
-          : ['An isolated target is created and health-validated before cleanup.'],
+      warnings: targetTime ? [...warnings, `Archived logs are replayed up to ${targetTime}.`] : warnings,
     }
   }
 
@@ -209,6 +251,7 @@ export class BackupCoordinator {
           target: input.target,
           safety: input.safetyBackupId,
           drill: !!input.drill,
+          targetTime: plan.target.targetTime,
         }),
       ),
       job = this.store.createJob({
@@ -247,6 +290,32 @@ export class BackupCoordinator {
     return job
   }
 
+  /**
+   * Queues one shipping run per log-archiving policy and interval. The runs
+   * take the data service lock, so they wait behind a running base backup.
+   */
+  enqueueLogArchives(at: Date = this.now()): QueueOperationView[] {
+    const interval = LOG_ARCHIVE_INTERVAL_MINUTES * 60_000,
+      slot = new Date(Math.floor(at.getTime() / interval) * interval).toISOString()
+    return this.store.archivingPolicies().map((policy) =>
+      this.queue.enqueue({
+        projectId: policy.projectId,
+        environmentId: policy.environmentId,
+        resourceId: policy.resourceId,
+        kind: 'backup.archive',
+        idempotencyKey: `backup-archive:${policy.id}:${slot}`,
+        input: { policyId: policy.id },
+        lockKey: `data-service:${policy.dataServiceId}`,
+        providerKey: 'backup',
+        maxAttempts: 1,
+        timeoutSeconds: 3600,
+        retryClasses: [],
+        resumePolicy: 'requeue',
+        retentionDays: 2,
+      }),
+    )
+  }
+
   enqueueRetention(at: Date = this.now()): BackupJob[] {
     return this.store.retentionCandidates(at).map((point) => {
       const job = this.store.createJob({
@@ -474,7 +543,7 @@ export function createBackupQueueHandlers(input: {
           verificationState: 'verifying',
         })
         let evidence: Record<string, JsonValue>
-        if (point.uri.startsWith('s3:')) {
+        if (storedObject(point)) {
           const adapter = input.resolveDestination(destination)
           if (!adapter) throw new Error('Backup destination adapter is not configured.')
           const body = await adapter.download(destination, {
@@ -514,6 +583,58 @@ export function createBackupQueueHandlers(input: {
         throw error
       }
     },
+    'backup.archive': async (context) => {
+      const operationInput = context.operation.input as Record<string, JsonValue>,
+        policy = input.store.getPolicy(String(operationInput.policyId ?? ''))
+      if (!policy?.logArchiving) throw new Error('Backup policy does not archive logs.')
+      const destination = input.store.getDestination(policy.destinationId),
+        source = input.resolveSource(policy)
+      if (!destination) throw new Error('Backup destination was not found.')
+      if (!source?.listArchivedLogs || !source.readArchivedLog || !source.releaseArchivedLogs)
+        throw new Error(`No ${policy.resourceKind} log archive adapter is configured.`)
+      const adapter = input.resolveDestination(destination)
+      if (!adapter) throw new Error('Backup destination adapter is not configured.')
+      const shipped = new Set(input.store.listLogSegments(policy.id).map((segment) => segment.name)),
+        logs = await source.listArchivedLogs(policy, context)
+      let archived = 0
+      for (const log of logs) {
+        // A run that stopped after recording but before releasing finds its logs already shipped.
+        if (shipped.has(log.name)) continue
+        const object = await source.readArchivedLog(policy, log, context),
+          stored = await adapter.upload(destination, {
+            key: object.key,
+            body: object.body,
+            contentType: object.contentType,
+          })
+        input.store.recordLogSegment({
+          projectId: policy.projectId,
+          policyId: policy.id,
+          destinationId: destination.id,
+          dataServiceId: policy.dataServiceId,
+          engine: log.engine,
+          name: log.name,
+          sequence: log.sequence,
+          recoverableUntil: log.recoverableUntil,
+          uri: stored.uri,
+          sizeBytes: stored.sizeBytes,
+          checksum: stored.checksum,
+          manifest: { ...object.manifest, ...stored.manifest, storageKey: stored.key },
+          lockedUntil: destination.immutability.defaultRetentionDays
+            ? new Date(now().getTime() + destination.immutability.defaultRetentionDays * 86_400_000).toISOString()
+            : undefined,
+        })
+        archived++
+        context.checkpoint('archiving', `Archived ${log.name}.`)
+      }
+      if (logs.length)
+        await source.releaseArchivedLogs(policy, logs.map((log) => log.name), context)
+      const pruned = input.store.logPruneCandidates(policy.id, now())
+      for (const segment of pruned) {
+        await adapter.delete(destination, String(segment.manifest.storageKey ?? ''))
+        input.store.deleteLogSegment(segment.id)
+      }
+      return { policyId: policy.id, archived, pruned: pruned.length }
+    },
     'backup.restore': async (context) => restore(context, false),
     'backup.drill': async (context) => restore(context, true),
     'backup.cleanup': async (context) => {
@@ -524,7 +645,7 @@ export function createBackupQueueHandlers(input: {
         if (!input.store.retentionCandidates(now()).some((item) => item.id === point.id))
           throw new Error('Recovery point is held, pinned, locked, or in active use.')
         input.store.updateRecoveryPoint(point.id, { status: 'deleting' })
-        if (point.uri.startsWith('s3:')) {
+        if (storedObject(point)) {
           const adapter = input.resolveDestination(destination)
           if (!adapter) throw new Error('Destination cleanup is unavailable.')
           await adapter.delete(destination, String(point.manifest.storageKey ?? ''))
@@ -550,7 +671,7 @@ export function createBackupQueueHandlers(input: {
       const { point, policy, destination, source } = resolve(job)
       if (!point) throw new Error('Recovery point was not found.')
       if (drill && !source.cleanup) throw new Error('This backup source cannot safely clean a recovery drill target.')
-      const destinationAdapter = point.uri.startsWith('s3:') ? input.resolveDestination(destination) : undefined
+      const destinationAdapter = storedObject(point) ? input.resolveDestination(destination) : undefined
       const body = destinationAdapter
         ? await destinationAdapter.download(destination, {
             key: String(point.manifest.storageKey ?? ''),
@@ -558,7 +679,24 @@ export function createBackupQueueHandlers(input: {
             manifest: point.manifest as StoredBackup['manifest'],
           })
         : undefined
-      const restored = await source.restore(point, body, job.target, context),
+      const targetTime = typeof job.target.targetTime === 'string' ? job.target.targetTime : undefined,
+        restored = targetTime
+          ? await (async () => {
+              if (!source.restoreToTime) throw new Error('This backup source cannot restore to a point in time.')
+              if (!destinationAdapter) throw new Error('Backup destination adapter is not configured.')
+              const logs: Array<{ segment: LogArchiveSegment; body: Uint8Array }> = []
+              for (const segment of input.store.logSegmentsForRestore(point, targetTime))
+                logs.push({
+                  segment,
+                  body: await destinationAdapter.download(destination, {
+                    key: String(segment.manifest.storageKey ?? ''),
+                    checksum: segment.checksum,
+                    manifest: segment.manifest as StoredBackup['manifest'],
+                  }),
+                })
+              return source.restoreToTime(point, body, logs, job.target, context)
+            })()
+          : await source.restore(point, body, job.target, context),
         adapterHealth = source.validateHealth
           ? await source.validateHealth({ ...job.target, ...restored }, context)
           : { healthy: true, mode: 'adapter' },
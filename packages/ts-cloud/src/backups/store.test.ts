@@ -51,6 +51,14 @@ describe('backup recovery control plane', () => {
     expect(() => validateBackupDestination(base)).toThrow('allow_private')
     expect(() => validateBackupDestination({ ...base, endpointPolicy: 'allow_private' })).not.toThrow()
     expect(() => validateBackupDestination({ ...base, endpoint: 'http://minio.internal/' })).toThrow('HTTPS')
+    const azure = { ...base, provider: 'azure_blob' as const, endpoint: undefined }
+    expect(() => validateBackupDestination({ ...azure, credentialRef: undefined })).toThrow('credential reference')
+    expect(() => validateBackupDestination({ ...azure, bucket: undefined })).toThrow('container')
+    const gcs = { ...base, provider: 'gcs' as const, endpoint: undefined, credentialRef: undefined }
+    expect(() => validateBackupDestination(gcs)).toThrow('service account')
+    expect(() =>
+      validateBackupDestination({ ...gcs, endpoint: 'https://127.0.0.1:4443/', endpointPolicy: 'allow_private' }),
+    ).not.toThrow()
   })
 
   it('requires client encryption for project-scoped control-plane backups', () => {
@@ -147,6 +155,10 @@ describe('backup recovery control plane', () => {
     expect(healthy).toMatchObject({ status: 'healthy', lastSuccessAt: target.clock.now.toISOString() })
     expect(policy.schedule).toBe('cron(0 * * * *)')
     expect(policy.nextRunAt).toBe('2026-07-21T13:00:00.000Z')
+    expect(policy.logArchiving).toBe(false)
+    expect(() => target.backups.createPolicy({ ...policy, name: 'uploads-pitr', logArchiving: true })).toThrow(
+      'only for logical database policies',
+    )
     expect(target.backups.coverage(target.project.id)).toMatchObject([
       { missedRpo: true, unverified: 0, destinationHealthy: true },
     ])
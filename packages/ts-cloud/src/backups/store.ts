@@ -1,6 +1,14 @@
 import type { SQLQueryBindings } from 'bun:sqlite'
 import type { ControlPlaneStore, JsonValue } from '../control-plane'
-import type { BackupCoverage, BackupDestination, BackupJob, BackupPolicy, RecoveryPoint } from './model'
+import type {
+  BackupCoverage,
+  BackupDestination,
+  BackupJob,
+  BackupPolicy,
+  LogArchiveSegment,
+  RecoverableWindow,
+  RecoveryPoint,
+} from './model'
 import { isIP } from 'node:net'
 import { nextScheduleRuns, normalizeScheduleExpression } from '../jobs'
 
@@ -64,6 +72,7 @@ function policy(row: Row): BackupPolicy {
     expectedRpoMinutes: Number(row.expected_rpo_minutes),
     expectedRtoMinutes: Number(row.expected_rto_minutes),
     healthCheckId: optional(row.health_check_id),
+    logArchiving: bool(row.log_archiving),
     enabled: bool(row.enabled),
     nextRunAt: optional(row.next_run_at),
     lastRunAt: optional(row.last_run_at),
@@ -103,6 +112,34 @@ function point(row: Row): RecoveryPoint {
   }
 }
 
+function segment(row: Row): LogArchiveSegment {
+  return {
+    id: String(row.id),
+    projectId: String(row.project_id),
+    policyId: String(row.policy_id),
+    destinationId: String(row.destination_id),
+    dataServiceId: optional(row.data_service_id),
+    engine: String(row.engine) as LogArchiveSegment['engine'],
+    name: String(row.name),
+    sequence: Number(row.sequence),
+    recoverableUntil: optional(row.recoverable_until),
+    uri: String(row.uri),
+    sizeBytes: Number(row.size_bytes),
+    checksum: String(row.checksum),
+    manifest: json(row.manifest, {}),
+    lockedUntil: optional(row.locked_until),
+    createdAt: String(row.created_at),
+  }
+}
+
+/** The first log a base recovery point needs replayed, recorded when the policy archives logs. */
+export function recoveryLogStart(point: RecoveryPoint): number | undefined {
+  const start = point.manifest.logStart
+  return start && typeof start === 'object' && !Array.isArray(start) && typeof start.sequence === 'number'
+    ? start.sequence
+    : undefined
+}
+
 function job(row: Row): BackupJob {
   return {
     id: String(row.id),
@@ -154,7 +191,14 @@ export function validateBackupDestination(
 ): void {
   if (!/^[a-z0-9][a-z0-9-]{1,62}$/.test(input.name))
     throw new Error('Backup destination names must be 2-63 lowercase letters, numbers, or dashes.')
+  if (input.provider === 'azure_blob' && !input.bucket)
+    throw new Error('Azure Blob backup destinations require a container.')
+  if (input.provider === 'gcs' && !input.bucket) throw new Error('GCS backup destinations require a bucket.')
   if (input.provider !== 'aws_backup' && !input.bucket) throw new Error('S3 backup destinations require a bucket.')
+  if (input.provider === 'azure_blob' && !input.credentialRef)
+    throw new Error('Azure Blob destinations require a credential reference.')
+  if (input.provider === 'gcs' && !input.credentialRef && !input.endpoint)
+    throw new Error('GCS destinations require a service account credential unless they target an emulator endpoint.')
   if (input.provider === 's3_compatible' && !input.endpoint)
     throw new Error('S3-compatible destinations require an explicit endpoint.')
   if (input.provider === 's3_compatible' && !input.credentialRef)
@@ -259,12 +303,20 @@ export class BackupStore {
       throw new Error(`${input.resourceKind} backups require an object-storage destination.`)
     if (input.resourceKind === 'infrastructure' && destination.provider !== 'aws_backup')
       throw new Error('Infrastructure backups require an AWS Backup destination.')
+    if (input.logArchiving) {
+      if (input.resourceKind !== 'logical_database' || !input.dataServiceId)
+        throw new Error('Log archiving is available only for logical database policies.')
+      // Both policies would drain the same WAL or binlog staging area.
+      const archiving = this.listPolicies(input.projectId).filter((item) => item.logArchiving)
+      if (archiving.some((item) => item.dataServiceId === input.dataServiceId))
+        throw new Error('Another backup policy already archives logs for this data service.')
+    }
     const expression = normalizeScheduleExpression(input.schedule),
       nextRunAt = nextScheduleRuns(expression.normalized, input.timezone, this.now(), 1)[0],
       id = crypto.randomUUID(),
       now = this.now().toISOString()
     this.controlPlane.database.run(
-      'INSERT INTO backup_policies (id,organization_id,project_id,environment_id,resource_id,data_service_id,destination_id,name,resource_kind,schedule,timezone,retention,compression,encryption,include_patterns,exclude_patterns,expected_rpo_minutes,expected_rto_minutes,health_check_id,enabled,next_run_at,last_run_at,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
+      'INSERT INTO backup_policies (id,organization_id,project_id,environment_id,resource_id,data_service_id,destination_id,name,resource_kind,schedule,timezone,retention,compression,encryption,include_patterns,exclude_patterns,expected_rpo_minutes,expected_rto_minutes,health_check_id,log_archiving,enabled,next_run_at,last_run_at,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
       [
         id,
         input.organizationId,
@@ -285,6 +337,7 @@ export class BackupStore {
         input.expectedRpoMinutes,
         input.expectedRtoMinutes,
         input.healthCheckId ?? null,
+        input.logArchiving ? 1 : 0,
         input.enabled ? 1 : 0,
         nextRunAt,
         input.lastRunAt ?? null,
@@ -317,6 +370,13 @@ export class BackupStore {
       .map(policy)
   }
 
+  archivingPolicies(): BackupPolicy[] {
+    return this.controlPlane.database
+      .query<Row, []>('SELECT * FROM backup_policies WHERE enabled=1 AND log_archiving=1 ORDER BY id')
+      .all()
+      .map(policy)
+  }
+
   advancePolicy(id: string, scheduledFor: string): BackupPolicy {
     const current = this.getPolicy(id)
     if (!current) throw new Error('Backup policy was not found.')
@@ -417,7 +477,7 @@ export class BackupStore {
     if (!/^sha256:[a-f0-9]{64}$/i.test(input.checksum)) throw new Error('Recovery points require a SHA-256 checksum.')
     if (
       typeof input.uri !== 'string' ||
-      !['s3:', 'aws-backup:', 'file:'].some((scheme) => input.uri.startsWith(scheme))
+      !['s3:', 'azure:', 'gs:', 'aws-backup:', 'file:'].some((scheme) => input.uri.startsWith(scheme))
     )
       throw new Error('Recovery point URI uses an unsupported destination scheme.')
     const id = crypto.randomUUID(),
@@ -545,6 +605,132 @@ export class BackupStore {
     return candidates.filter((item) => !protectedIds.has(item.id))
   }
 
+  recordLogSegment(input: Omit<LogArchiveSegment, 'id' | 'createdAt'>): LogArchiveSegment {
+    if (!/^sha256:[a-f0-9]{64}$/i.test(input.checksum)) throw new Error('Log segments require a SHA-256 checksum.')
+    const id = crypto.randomUUID()
+    this.controlPlane.database.run(
+      'INSERT INTO backup_log_segments (id,project_id,policy_id,destination_id,data_service_id,engine,name,sequence,recoverable_until,uri,size_bytes,checksum,manifest,locked_until,created_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
+      [
+        id,
+        input.projectId,
+        input.policyId,
+        input.destinationId,
+        input.dataServiceId ?? null,
+        input.engine,
+        input.name,
+        input.sequence,
+        input.recoverableUntil ?? null,
+        input.uri,
+        input.sizeBytes,
+        input.checksum,
+        JSON.stringify(input.manifest),
+        input.lockedUntil ?? null,
+        this.now().toISOString(),
+      ],
+    )
+    return segment(
+      this.controlPlane.database.query<Row, [string]>('SELECT * FROM backup_log_segments WHERE id=?').get(id)!,
+    )
+  }
+
+  listLogSegments(policyId: string): LogArchiveSegment[] {
+    return this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM backup_log_segments WHERE policy_id=? ORDER BY sequence,name')
+      .all(policyId)
+      .map(segment)
+  }
+
+  deleteLogSegment(id: string): void {
+    this.controlPlane.database.run('DELETE FROM backup_log_segments WHERE id=?', [id])
+  }
+
+  /** The newest unbroken run of segments; a gap makes everything before it unusable for replay. */
+  private logChain(policyId: string): LogArchiveSegment[] {
+    const segments = this.listLogSegments(policyId)
+    let first = segments.length - 1
+    while (first > 0 && segments[first - 1].sequence === segments[first].sequence - 1) first--
+    return segments.slice(Math.max(0, first))
+  }
+
+  private logBases(item: BackupPolicy): RecoveryPoint[] {
+    return this.listRecoveryPoints(item.projectId, item.id).filter(
+      (candidate) =>
+        candidate.status === 'available' &&
+        candidate.verificationState === 'verified' &&
+        recoveryLogStart(candidate) !== undefined,
+    )
+  }
+
+  recoverableWindow(policyId: string): RecoverableWindow | undefined {
+    const item = this.getPolicy(policyId),
+      chain = this.logChain(policyId),
+      to = chain
+        .map((entry) => entry.recoverableUntil)
+        .filter(Boolean)
+        .sort()
+        .at(-1)
+    if (!item || !to) return undefined
+    const from = this.logBases(item)
+      .filter((base) => {
+        const start = recoveryLogStart(base)!
+        return start >= chain[0].sequence && start <= chain.at(-1)!.sequence && base.pointInTime <= to
+      })
+      .map((base) => base.pointInTime)
+      .sort()[0]
+    return from ? { from, to } : undefined
+  }
+
+  /** The segments replayed on top of a base recovery point to reach targetTime, in order. */
+  logSegmentsForRestore(base: RecoveryPoint, targetTime: string): LogArchiveSegment[] {
+    const start = recoveryLogStart(base)
+    if (start === undefined || !base.policyId) throw new Error('Recovery point was taken without log archiving.')
+    if (targetTime < base.pointInTime) throw new Error('Target time is earlier than the recovery point.')
+    const chain = this.logChain(base.policyId).filter((entry) => entry.sequence >= start)
+    if (chain[0]?.sequence !== start) throw new Error('Archived logs after this recovery point are incomplete.')
+    const end = chain.findIndex((entry) => entry.recoverableUntil && entry.recoverableUntil >= targetTime)
+    if (end < 0) throw new Error('Target time is later than the archived logs reach.')
+    return chain.slice(0, end + 1)
+  }
+
+  /** The latest verified base recovery point from which targetTime can be reached. */
+  recoveryBaseFor(policyId: string, targetTime: string): RecoveryPoint {
+    const item = this.getPolicy(policyId)
+    if (!item?.logArchiving) throw new Error('Backup policy does not archive logs.')
+    const base = this.logBases(item)
+      .filter((candidate) => candidate.pointInTime <= targetTime)
+      .find((candidate) => {
+        try {
+          return this.logSegmentsForRestore(candidate, targetTime).length > 0
+        } catch {
+          return false
+        }
+      })
+    if (!base) {
+      const window = this.recoverableWindow(policyId)
+      throw new Error(
+        window
+          ? `Target time must be between ${window.from} and ${window.to}.`
+          : 'Backup policy has no recoverable window yet.',
+      )
+    }
+    return base
+  }
+
+  /** Segments older than every remaining base recovery point can no longer be replayed. */
+  logPruneCandidates(policyId: string, at: Date = this.now()): LogArchiveSegment[] {
+    const item = this.getPolicy(policyId)
+    if (!item) return []
+    const starts = this.listRecoveryPoints(item.projectId, item.id)
+      .filter((candidate) => ['available', 'deleting'].includes(candidate.status))
+      .map(recoveryLogStart)
+      .filter((start): start is number => start !== undefined)
+    if (!starts.length) return []
+    const oldest = Math.min(...starts)
+    return this.listLogSegments(policyId).filter(
+      (entry) => entry.sequence < oldest && (!entry.lockedUntil || entry.lockedUntil <= at.toISOString()),
+    )
+  }
+
   coverage(projectId: string, at: Date = this.now()): BackupCoverage[] {
     const destinations = new Map(this.listDestinations(projectId).map((item) => [item.id, item]))
     return this.listPolicies(projectId).map((item) => {
@@ -552,15 +738,17 @@ export class BackupStore {
           (candidate) => candidate.status === 'available',
         ),
         lastRecoveryPoint = points[0],
-        ageMinutes = lastRecoveryPoint
-          ? (at.getTime() - new Date(lastRecoveryPoint.pointInTime).getTime()) / 60_000
-          : Number.POSITIVE_INFINITY
+        recoverableWindow = item.logArchiving ? this.recoverableWindow(item.id) : undefined,
+        // Archived logs make later moments recoverable than the last full backup.
+        latest = [lastRecoveryPoint?.pointInTime, recoverableWindow?.to].filter(Boolean).sort().at(-1),
+        ageMinutes = latest ? (at.getTime() - new Date(latest).getTime()) / 60_000 : Number.POSITIVE_INFINITY
       return {
         policy: item,
         lastRecoveryPoint,
         missedRpo: item.enabled && ageMinutes > item.expectedRpoMinutes,
         unverified: points.filter((candidate) => candidate.verificationState !== 'verified').length,
         destinationHealthy: destinations.get(item.destinationId)?.status === 'healthy',
+        recoverableWindow,
       }
     })
   }
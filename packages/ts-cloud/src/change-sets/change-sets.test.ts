@@ -0,0 +1,201 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import type { ChangeSetCloudFormation } from '.'
+import { ControlPlaneStore } from '../control-plane'
+import { ChangeSetService, StackChangeSetStore } from '.'
+
+const stores: ControlPlaneStore[] = []
+afterEach(() => {
+  for (const store of stores.splice(0)) store.close()
+})
+
+const deployed = {
+  Resources: {
+    Database: { Type: 'AWS::RDS::DBInstance', Properties: { Engine: 'postgres', DBInstanceClass: 'db.t3.micro' } },
+    Queue: { Type: 'AWS::SQS::Queue', Properties: {} },
+  },
+}
+const proposed = {
+  Resources: {
+    Database: { Type: 'AWS::RDS::DBInstance', Properties: { Engine: 'mysql', DBInstanceClass: 'db.t3.micro' } },
+    Assets: { Type: 'AWS::S3::Bucket', Properties: {} },
+  },
+}
+
+class FakeCloudFormation implements Partial<ChangeSetCloudFormation> {
+  calls: string[] = []
+  constructor(
+    public stackStatus = 'UPDATE_COMPLETE',
+    public changeSetReason?: string,
+    public stackResult = { success: true, status: 'UPDATE_COMPLETE' } as { success: boolean; status: string },
+  ) {}
+
+  async describeStacks() {
+    if (!this.stackStatus) throw new Error('Stack with id app-production does not exist')
+    return { Stacks: [{ StackStatus: this.stackStatus }] } as any
+  }
+  async getTemplate() {
+    return { TemplateBody: JSON.stringify(deployed) }
+  }
+  async createChangeSet(options: { changeSetName: string; changeSetType?: string }) {
+    this.calls.push(`create:${options.changeSetType}:${options.changeSetName}`)
+    return { Id: `arn:aws:cloudformation:us-east-1:1:changeSet/${options.changeSetName}`, StackId: 'stack' }
+  }
+  async waitForChangeSet() {
+    return this.changeSetReason
+      ? { success: false, status: 'FAILED', reason: this.changeSetReason }
+      : { success: true, status: 'CREATE_COMPLETE' }
+  }
+  async executeChangeSet(_stack: string, name: string) {
+    this.calls.push(`execute:${name}`)
+  }
+  async deleteChangeSet(_stack: string, name: string) {
+    this.calls.push(`delete:${name}`)
+  }
+  async waitForStackComplete() {
+    return this.stackResult
+  }
+}
+
+function fixture(cloudformation = new FakeCloudFormation()) {
+  const controlPlane = new ControlPlaneStore({ path: ':memory:' })
+  stores.push(controlPlane)
+  let clock = new Date('2026-08-03T09:00:00Z').getTime()
+  const now = () => new Date((clock += 1_000)),
+    organization = controlPlane.createOrganization({ slug: 'acme', name: 'Acme' }),
+    project = controlPlane.createProject({ organizationId: organization.id, slug: 'app', name: 'App' }),
+    environment = controlPlane.createEnvironment({
+      projectId: project.id,
+      slug: 'production',
+      name: 'Production',
+      kind: 'production',
+    }),
+    member = (name: string, roleTemplate: 'deployer' | 'viewer') => {
+      const actor = controlPlane.createActor({ kind: 'user', externalId: `dashboard:${name}`, displayName: name })
+      controlPlane.createMembership({ organizationId: organization.id, actorId: actor.id, roleTemplate })
+      return actor
+    },
+    requester = member('requester', 'deployer'),
+    store = new StackChangeSetStore(controlPlane, { now }),
+    service = new ChangeSetService(store, { cloudformation: () => cloudformation as ChangeSetCloudFormation, now })
+  const request = (overrides: { requiredApprovals?: number; ttlMs?: number; requestedBy?: string } = {}) =>
+    service.request({
+      organizationId: organization.id,
+      projectId: project.id,
+      environmentId: environment.id,
+      stackName: 'app-production',
+      region: 'us-east-1',
+      templateBody: JSON.stringify(proposed),
+      requestedBy: requester.id,
+      ...overrides,
+    })
+  const advance = (ms: number) => {
+    clock += ms
+  }
+  return { controlPlane, project, environment, member, requester, store, service, cloudformation, request, advance }
+}
+
+describe('stack change set review', () => {
+  it('holds a stack update as a pending change set with the diff summary', async () => {
+    const { request, cloudformation } = fixture()
+    const result = await request()
+    if (result.status !== 'pending') throw new Error('expected a pending change set')
+    expect(result.changeSet).toMatchObject({
+      status: 'pending',
+      changeSetType: 'UPDATE',
+      requiredApprovals: 1,
+      summary: { added: 1, removed: 1, replaced: 1 },
+    })
+    expect(result.changeSet.summary.replacements).toEqual([
+      expect.objectContaining({ logicalId: 'Database', resourceType: 'AWS::RDS::DBInstance' }),
+    ])
+    expect(result.changeSet.summary.dangerousChanges.length).toBeGreaterThan(0)
+    expect(cloudformation.calls).toEqual([`create:UPDATE:${result.changeSet.changeSetName}`])
+  })
+
+  it('creates new stacks by change set and reports unchanged stacks', async () => {
+    const created = fixture(new FakeCloudFormation(''))
+    expect((await created.request()).status).toBe('pending')
+    expect(created.cloudformation.calls[0]).toStartWith('create:CREATE:')
+
+    const unchanged = fixture(
+      new FakeCloudFormation('UPDATE_COMPLETE', "The submitted information didn't contain changes."),
+    )
+    expect(await unchanged.request()).toEqual({ status: 'unchanged' })
+    expect(unchanged.cloudformation.calls[1]).toStartWith('delete:')
+    expect(unchanged.store.list(unchanged.project.id)).toEqual([])
+  })
+
+  it('refuses a requester who is not a member of the organization', async () => {
+    const { request, controlPlane, project, store, cloudformation } = fixture()
+    const cli = controlPlane.createActor({ kind: 'system', externalId: 'cli', displayName: 'ts-cloud CLI' })
+
+    await expect(request({ requestedBy: cli.id })).rejects.toThrow('requested by a member of the organization')
+    expect(cloudformation.calls).toEqual([])
+    expect(store.list(project.id)).toEqual([])
+  })
+
+  it('needs approvals from other members who may deploy before executing', async () => {
+    const { request, member, requester, service, store, cloudformation } = fixture()
+    const result = await request({ requiredApprovals: 2 })
+    if (result.status !== 'pending') throw new Error('expected a pending change set')
+    const id = result.changeSet.id
+    const viewer = member('viewer', 'viewer'),
+      first = member('first', 'deployer'),
+      second = member('second', 'deployer')
+
+    expect(() => store.decide(id, { actorId: requester.id, decision: 'approved' })).toThrow('requester')
+    expect(() => store.decide(id, { actorId: viewer.id, decision: 'approved' })).toThrow('deployments:create')
+    expect(store.decide(id, { actorId: first.id, decision: 'approved' }).status).toBe('pending')
+    expect(() => store.decide(id, { actorId: first.id, decision: 'approved' })).toThrow('already reviewed')
+    await expect(service.execute(id)).rejects.toThrow('needs 2 approval(s)')
+
+    expect(store.decide(id, { actorId: second.id, decision: 'approved', comment: 'ok' }).status).toBe('approved')
+    const executed = await service.execute(id, { actorId: second.id })
+    expect(executed).toMatchObject({ status: 'executed', executedBy: second.id })
+    expect(executed.executedAt).toBeDefined()
+    expect(cloudformation.calls).toContain(`execute:${executed.changeSetName}`)
+    await expect(service.execute(id)).rejects.toThrow('executed and cannot be executed')
+
+    expect(store.events(id).map((event) => event.type)).toEqual([
+      'stack.change_set.requested',
+      'stack.change_set.approval_recorded',
+      'stack.change_set.approved',
+      'stack.change_set.executing',
+      'stack.change_set.executed',
+    ])
+    expect(store.approvals(id).map((approval) => approval.actorId)).toEqual([first.id, second.id])
+  })
+
+  it('closes change sets on rejection, expiry and a newer request', async () => {
+    const { request, member, store, advance, cloudformation } = fixture()
+    const approver = member('approver', 'deployer')
+
+    const rejected = await request()
+    if (rejected.status !== 'pending') throw new Error('expected a pending change set')
+    expect(store.decide(rejected.changeSet.id, { actorId: approver.id, decision: 'rejected' }).status).toBe('rejected')
+
+    const superseded = await request()
+    const latest = await request({ ttlMs: 3_600_000 })
+    if (superseded.status !== 'pending' || latest.status !== 'pending') throw new Error('expected pending change sets')
+    expect(latest.superseded.map((item) => [item.id, item.status])).toEqual([[superseded.changeSet.id, 'superseded']])
+    expect(cloudformation.calls).toContain(`delete:${superseded.changeSet.changeSetName}`)
+
+    advance(3_600_000)
+    expect(() => store.decide(latest.changeSet.id, { actorId: approver.id, decision: 'approved' })).toThrow(
+      'expired, not pending',
+    )
+    expect(store.events(latest.changeSet.id).at(-1)?.type).toBe('stack.change_set.expired')
+  })
+
+  it('records a failed execution', async () => {
+    const { request, member, store, service } = fixture(
+      new FakeCloudFormation('UPDATE_COMPLETE', undefined, { success: false, status: 'UPDATE_ROLLBACK_COMPLETE' }),
+    )
+    const result = await request()
+    if (result.status !== 'pending') throw new Error('expected a pending change set')
+    store.decide(result.changeSet.id, { actorId: member('approver', 'deployer').id, decision: 'approved' })
+    const failed = await service.execute(result.changeSet.id)
+    expect(failed).toMatchObject({ status: 'failed', error: 'Stack finished in UPDATE_ROLLBACK_COMPLETE' })
+    expect(store.events(failed.id).at(-1)).toMatchObject({ type: 'stack.change_set.failed', level: 'warning' })
+  })
+})
@@ -0,0 +1,72 @@
+export type StackChangeSetStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'executing'
+  | 'executed'
+  | 'failed'
+  | 'expired'
+  | 'cancelled'
+  | 'superseded'
+
+export type StackChangeSetType = 'CREATE' | 'UPDATE'
+
+/** A resource CloudFormation will delete and recreate, from `StackDiff.replaced`. */
+export interface StackChangeReplacement {
+  logicalId: string
+  resourceType: string
+  reason?: string
+}
+
+/**
+ * What a change set does, condensed from the `StackDiff` between the deployed
+ * template and the proposed one. Reviewers decide from this, so it keeps the
+ * dangerous changes and replacements in full and only counts the rest.
+ */
+export interface StackChangeSummary {
+  added: number
+  removed: number
+  updated: number
+  replaced: number
+  dangerousChanges: string[]
+  replacements: StackChangeReplacement[]
+}
+
+/**
+ * An infrastructure change waiting for sign-off. The CloudFormation change set
+ * already exists; nothing runs until enough approvers agree and someone
+ * executes it before `expiresAt`.
+ */
+export interface StackChangeSet {
+  id: string
+  organizationId: string
+  projectId: string
+  environmentId: string
+  stackName: string
+  region: string
+  changeSetName: string
+  changeSetId?: string
+  changeSetType: StackChangeSetType
+  status: StackChangeSetStatus
+  summary: StackChangeSummary
+  /** SHA-256 of the proposed template body. */
+  templateHash: string
+  requiredApprovals: number
+  requestedBy?: string
+  reason?: string
+  error?: string
+  expiresAt: string
+  executedBy?: string
+  executedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface StackChangeSetApproval {
+  id: string
+  changeSetId: string
+  decision: 'approved' | 'rejected'
+  actorId: string
+  comment?: string
+  createdAt: string
+}
@@ -0,0 +1,178 @@
+import type { StackDiff } from '@ts-cloud/core'
+import type { CloudFormationClient, StackTag } from '../aws/cloudformation'
+import type { StackChangeSet, StackChangeSetType, StackChangeSummary } from './model'
+import type { StackChangeSetStore } from './store'
+import { createHash } from 'node:crypto'
+import { analyzeStackDiff } from '@ts-cloud/core'
+import { CloudFormationClient as LiveCloudFormationClient } from '../aws/cloudformation'
+
+export type ChangeSetCloudFormation = Pick<
+  CloudFormationClient,
+  | 'describeStacks'
+  | 'getTemplate'
+  | 'createChangeSet'
+  | 'waitForChangeSet'
+  | 'executeChangeSet'
+  | 'deleteChangeSet'
+  | 'waitForStackComplete'
+>
+
+export interface ChangeSetServiceOptions {
+  cloudformation?: (region: string) => ChangeSetCloudFormation
+  now?: () => Date
+}
+
+export interface ChangeSetRequestInput {
+  organizationId: string
+  projectId: string
+  environmentId: string
+  stackName: string
+  region: string
+  templateBody: string
+  capabilities?: string[]
+  tags?: StackTag[]
+  requiredApprovals?: number
+  ttlMs?: number
+  /** The member asking for the change; they can never approve it themselves. */
+  requestedBy: string
+  reason?: string
+}
+
+export type ChangeSetRequestResult =
+  | { status: 'unchanged' }
+  | { status: 'pending'; changeSet: StackChangeSet; diff: StackDiff; superseded: StackChangeSet[] }
+
+/** Condense a stack diff into what reviewers sign off on. */
+export function summarizeStackDiff(diff: StackDiff): StackChangeSummary {
+  return {
+    added: diff.added.length,
+    removed: diff.removed.length,
+    updated: diff.updated.length,
+    replaced: diff.replaced.length,
+    dangerousChanges: diff.summary.dangerousChanges,
+    replacements: diff.replaced.map((resource) => ({
+      logicalId: resource.logicalId,
+      resourceType: resource.resourceType,
+      ...(resource.reason ? { reason: resource.reason } : {}),
+    })),
+  }
+}
+
+const NO_CHANGES = /didn't contain changes|No updates are to be performed/i
+
+/**
+ * Turns stack updates into reviewed CloudFormation change sets. `request`
+ * creates the change set without executing it; `execute` runs it only once
+ * the store has recorded enough approvals and it has not expired.
+ */
+export class ChangeSetService {
+  constructor(
+    readonly store: StackChangeSetStore,
+    private readonly options: ChangeSetServiceOptions = {},
+  ) {}
+
+  private client(region: string): ChangeSetCloudFormation {
+    return this.options.cloudformation?.(region) ?? new LiveCloudFormationClient(region)
+  }
+
+  private now(): Date {
+    return this.options.now?.() ?? new Date()
+  }
+
+  async request(input: ChangeSetRequestInput): Promise<ChangeSetRequestResult> {
+    this.store.assertRequester(input.organizationId, input.requestedBy)
+    const client = this.client(input.region)
+    let stack: { StackStatus: string } | undefined
+    try {
+      stack = (await client.describeStacks({ stackName: input.stackName })).Stacks?.[0]
+    } catch (error: any) {
+      if (!String(error?.message ?? error).includes('does not exist')) throw error
+    }
+    // A stack whose first change set was never executed is still created by change set.
+    const changeSetType: StackChangeSetType = !stack || stack.StackStatus === 'REVIEW_IN_PROGRESS' ? 'CREATE' : 'UPDATE'
+    const deployed =
+      changeSetType === 'UPDATE' ? JSON.parse((await client.getTemplate(input.stackName)).TemplateBody || '{}') : {}
+    const diff = analyzeStackDiff(deployed, JSON.parse(input.templateBody))
+    const changeSetName = `ts-cloud-review-${this.now().getTime()}`
+    const created = await client.createChangeSet({
+      stackName: input.stackName,
+      changeSetName,
+      templateBody: input.templateBody,
+      capabilities: input.capabilities,
+      changeSetType,
+      tags: input.tags,
+    })
+    const ready = await client.waitForChangeSet(input.stackName, changeSetName)
+    if (!ready.success) {
+      await client.deleteChangeSet(input.stackName, changeSetName).catch(() => {})
+      if (NO_CHANGES.test(ready.reason ?? '')) return { status: 'unchanged' }
+      throw new Error(`Change set for ${input.stackName} could not be created: ${ready.reason ?? ready.status}`)
+    }
+    const { changeSet, superseded } = this.store.request({
+      organizationId: input.organizationId,
+      projectId: input.projectId,
+      environmentId: input.environmentId,
+      stackName: input.stackName,
+      region: input.region,
+      changeSetName,
+      changeSetId: created.Id || undefined,
+      changeSetType,
+      summary: summarizeStackDiff(diff),
+      templateHash: createHash('sha256').update(input.templateBody).digest('hex'),
+      requiredApprovals: input.requiredApprovals,
+      ttlMs: input.ttlMs,
+      requestedBy: input.requestedBy,
+      reason: input.reason,
+    })
+    // Superseded change sets can no longer be approved; drop them from CloudFormation as well.
+    for (const previous of superseded)
+      await this.client(previous.region)
+        .deleteChangeSet(previous.stackName, previous.changeSetName)
+        .catch(() => {})
+    return { status: 'pending', changeSet, diff, superseded }
+  }
+
+  /**
+   * Claim an approved change set and execute it in the background. Throws
+   * straight away when it cannot run; `completion` settles once the stack
+   * does, with the outcome recorded on the change set.
+   */
+  start(
+    id: string,
+    input: { actorId?: string } = {},
+  ): { changeSet: StackChangeSet; completion: Promise<StackChangeSet> } {
+    const changeSet = this.store.beginExecution(id, input.actorId)
+    return { changeSet, completion: this.run(changeSet) }
+  }
+
+  /** Execute an approved change set and wait for the stack to settle. */
+  async execute(id: string, input: { actorId?: string } = {}): Promise<StackChangeSet> {
+    return this.start(id, input).completion
+  }
+
+  private async run(current: StackChangeSet): Promise<StackChangeSet> {
+    const client = this.client(current.region)
+    try {
+      await client.executeChangeSet(current.stackName, current.changeSetName)
+      const result = await client.waitForStackComplete(current.stackName)
+      return this.store.completeExecution(current.id, {
+        success: result.success,
+        error: result.success ? undefined : (result.reason ?? `Stack finished in ${result.status}`),
+      })
+    } catch (error) {
+      return this.store.completeExecution(current.id, {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  /** Cancel an open change set and delete it from CloudFormation. */
+  async cancel(id: string, input: { actorId?: string; reason?: string } = {}): Promise<StackChangeSet> {
+    const cancelled = this.store.cancel(id, input)
+    await this.client(cancelled.region)
+      .deleteChangeSet(cancelled.stackName, cancelled.changeSetName)
+      .catch(() => {})
+    return cancelled
+  }
+}
@@ -0,0 +1,381 @@
+import type { SQLQueryBindings } from 'bun:sqlite'
+import type { ControlPlaneEvent, ControlPlaneStore } from '../control-plane'
+import type {
+  StackChangeSet,
+  StackChangeSetApproval,
+  StackChangeSetStatus,
+  StackChangeSetType,
+  StackChangeSummary,
+} from './model'
+import { authorizeOrganization } from '../control-plane'
+
+type Row = Record<string, unknown>
+const json = (value: unknown, fallback: any): any => {
+  if (typeof value !== 'string') return fallback
+  try {
+    return JSON.parse(value)
+  } catch {
+    return fallback
+  }
+}
+const optional = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined)
+
+/** How long a change set waits for review before it expires. */
+export const CHANGE_SET_DEFAULT_TTL_MS: number = 72 * 3_600_000
+export const CHANGE_SET_MAX_TTL_MS: number = 30 * 86_400_000
+
+/** Statuses a change set can still move on from before it is executed. */
+const OPEN: readonly StackChangeSetStatus[] = ['pending', 'approved']
+
+function changeSet(row: Row): StackChangeSet {
+  return {
+    id: String(row.id),
+    organizationId: String(row.organization_id),
+    projectId: String(row.project_id),
+    environmentId: String(row.environment_id),
+    stackName: String(row.stack_name),
+    region: String(row.region),
+    changeSetName: String(row.change_set_name),
+    changeSetId: optional(row.change_set_id),
+    changeSetType: String(row.change_set_type) as StackChangeSetType,
+    status: String(row.status) as StackChangeSetStatus,
+    summary: json(row.summary, {
+      added: 0,
+      removed: 0,
+      updated: 0,
+      replaced: 0,
+      dangerousChanges: [],
+      replacements: [],
+    }),
+    templateHash: String(row.template_hash),
+    requiredApprovals: Number(row.required_approvals),
+    requestedBy: optional(row.requested_by),
+    reason: optional(row.reason),
+    error: optional(row.error),
+    expiresAt: String(row.expires_at),
+    executedBy: optional(row.executed_by),
+    executedAt: optional(row.executed_at),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
+
+function approval(row: Row): StackChangeSetApproval {
+  return {
+    id: String(row.id),
+    changeSetId: String(row.change_set_id),
+    decision: String(row.decision) as StackChangeSetApproval['decision'],
+    actorId: String(row.actor_id),
+    comment: optional(row.comment),
+    createdAt: String(row.created_at),
+  }
+}
+
+export interface RequestStackChangeSetInput {
+  organizationId: string
+  projectId: string
+  environmentId: string
+  stackName: string
+  region: string
+  changeSetName: string
+  changeSetId?: string
+  changeSetType: StackChangeSetType
+  summary: StackChangeSummary
+  templateHash: string
+  requiredApprovals?: number
+  requestedBy: string
+  reason?: string
+  ttlMs?: number
+}
+
+/**
+ * Review state of stack change sets. Every transition is appended to the
+ * control-plane event log with the change set's ID as the correlation ID, so
+ * `listEvents({ correlationId })` is its audit trail.
+ */
+export class StackChangeSetStore {
+  private readonly now: () => Date
+  private readonly id: () => string
+  constructor(
+    readonly controlPlane: ControlPlaneStore,
+    options: { now?: () => Date; id?: () => string } = {},
+  ) {
+    this.now = options.now ?? (() => new Date())
+    this.id = options.id ?? (() => crypto.randomUUID())
+  }
+
+  /**
+   * Record a change set for review. Open change sets for the same stack are
+   * superseded: CloudFormation discards the others once one executes, and a
+   * reviewer should only ever sign off on the latest proposal.
+   */
+  request(input: RequestStackChangeSetInput): { changeSet: StackChangeSet; superseded: StackChangeSet[] } {
+    this.assertRequester(input.organizationId, input.requestedBy)
+    const environment = this.controlPlane
+      .listEnvironments(input.projectId)
+      .find((item) => item.id === input.environmentId)
+    if (!environment) throw new Error('Change set environment does not belong to the project')
+    const requiredApprovals = Math.floor(input.requiredApprovals ?? 1)
+    if (!Number.isInteger(requiredApprovals) || requiredApprovals < 1 || requiredApprovals > 10)
+      throw new Error('Change sets require between 1 and 10 approvals')
+    const ttlMs = input.ttlMs ?? CHANGE_SET_DEFAULT_TTL_MS
+    if (!(ttlMs >= 60_000 && ttlMs <= CHANGE_SET_MAX_TTL_MS))
+      throw new Error('Change set expiry must be between one minute and 30 days')
+    const id = this.id()
+    const now = this.now()
+    const superseded = this.list(input.projectId, { stackName: input.stackName }).filter((item) =>
+      OPEN.includes(item.status),
+    )
+    this.controlPlane.transaction(() => {
+      this.controlPlane.database.run(
+        'INSERT INTO stack_change_sets (id,organization_id,project_id,environment_id,stack_name,region,change_set_name,change_set_id,change_set_type,status,summary,template_hash,required_approvals,requested_by,reason,expires_at,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
+        [
+          id,
+          input.organizationId,
+          input.projectId,
+          input.environmentId,
+          input.stackName,
+          input.region,
+          input.changeSetName,
+          input.changeSetId ?? null,
+          input.changeSetType,
+          'pending',
+          JSON.stringify(input.summary),
+          input.templateHash,
+          requiredApprovals,
+          input.requestedBy ?? null,
+          input.reason?.slice(0, 1000) ?? null,
+          new Date(now.getTime() + ttlMs).toISOString(),
+          now.toISOString(),
+          now.toISOString(),
+        ],
+      )
+      for (const previous of superseded)
+        this.transition(previous, 'superseded', { actorId: input.requestedBy, payload: { supersededBy: id } })
+      this.audit(this.get(id)!, 'requested', input.requestedBy, {
+        changeSetType: input.changeSetType,
+        requiredApprovals,
+        summary: input.summary,
+        expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+      })
+    })
+    return { changeSet: this.get(id)!, superseded: superseded.map((item) => this.get(item.id)!) }
+  }
+
+  get(id: string): StackChangeSet | undefined {
+    const row = this.controlPlane.database.query<Row, [string]>('SELECT * FROM stack_change_sets WHERE id=?').get(id)
+    return row ? changeSet(row) : undefined
+  }
+
+  list(
+    projectId: string,
+    options: { environmentId?: string; stackName?: string; status?: StackChangeSetStatus; limit?: number } = {},
+  ): StackChangeSet[] {
+    const filters = ['project_id=?'],
+      values: SQLQueryBindings[] = [projectId]
+    if (options.environmentId) {
+      filters.push('environment_id=?')
+      values.push(options.environmentId)
+    }
+    if (options.stackName) {
+      filters.push('stack_name=?')
+      values.push(options.stackName)
+    }
+    if (options.status) {
+      filters.push('status=?')
+      values.push(options.status)
+    }
+    return this.controlPlane.database
+      .query<Row, SQLQueryBindings[]>(
+        `SELECT * FROM stack_change_sets WHERE ${filters.join(' AND ')} ORDER BY created_at DESC, rowid DESC LIMIT ?`,
+      )
+      .all(...values, Math.min(Math.max(options.limit ?? 50, 1), 500))
+      .map(changeSet)
+  }
+
+  approvals(id: string): StackChangeSetApproval[] {
+    return this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM stack_change_set_approvals WHERE change_set_id=? ORDER BY created_at, rowid')
+      .all(id)
+      .map(approval)
+  }
+
+  /** The change set's audit trail, oldest first. */
+  events(id: string): ControlPlaneEvent[] {
+    const current = this.get(id)
+    return current ? this.controlPlane.listEvents({ projectId: current.projectId, correlationId: id, limit: 500 }) : []
+  }
+
+  /**
+   * A change set must name the member who asked for it. A shared identity
+   * such as the CLI's system actor would let whoever ran the deploy approve
+   * it under their own name.
+   */
+  assertRequester(organizationId: string, actorId: string | undefined): void {
+    const membership = actorId ? this.controlPlane.getMembershipForActor(organizationId, actorId) : undefined
+    if (membership?.status !== 'active')
+      throw new Error('Change sets must be requested by a member of the organization')
+  }
+
+  /**
+   * Sign off on or reject a pending change set. The approver needs
+   * `deployments:create` on the environment and may not be the requester;
+   * one rejection closes the change set, and it is approved once
+   * `requiredApprovals` distinct actors agree.
+   */
+  decide(
+    id: string,
+    input: { actorId: string; decision: 'approved' | 'rejected'; comment?: string },
+  ): StackChangeSet {
+    const current = this.expireIfDue(id)
+    if (current.status !== 'pending') throw new Error(`Change set is ${current.status}, not pending review`)
+    if (current.requestedBy === input.actorId) throw new Error('Change sets cannot be approved by their requester')
+    this.assertMayDeploy(current, input.actorId)
+    if (this.approvals(id).some((item) => item.actorId === input.actorId))
+      throw new Error('This actor has already reviewed the change set')
+    const now = this.now().toISOString()
+    this.controlPlane.transaction(() => {
+      this.controlPlane.database.run(
+        'INSERT INTO stack_change_set_approvals (id,change_set_id,decision,actor_id,comment,created_at) VALUES (?,?,?,?,?,?)',
+        [this.id(), id, input.decision, input.actorId, input.comment?.slice(0, 1000) ?? null, now],
+      )
+      const approved = this.approvals(id).filter((item) => item.decision === 'approved').length
+      const payload = {
+        approvals: approved,
+        requiredApprovals: current.requiredApprovals,
+        comment: input.comment ?? null,
+      }
+      if (input.decision === 'rejected') this.transition(current, 'rejected', { actorId: input.actorId, payload })
+      else if (approved >= current.requiredApprovals)
+        this.transition(current, 'approved', { actorId: input.actorId, payload })
+      else this.audit(current, 'approval_recorded', input.actorId, payload)
+    })
+    return this.get(id)!
+  }
+
+  /**
+   * Claim an approved change set for execution, so two executors cannot both
+   * run it. The approvals are the gate; whoever executes only needs the AWS
+   * credentials to do so.
+   */
+  beginExecution(id: string, actorId?: string): StackChangeSet {
+    const current = this.expireIfDue(id)
+    if (current.status !== 'approved')
+      throw new Error(
+        current.status === 'pending'
+          ? `Change set still needs ${current.requiredApprovals} approval(s)`
+          : `Change set is ${current.status} and cannot be executed`,
+      )
+    const now = this.now().toISOString()
+    this.controlPlane.transaction(() => {
+      const claimed = this.controlPlane.database.run(
+        "UPDATE stack_change_sets SET status='executing', executed_by=?, updated_at=? WHERE id=? AND status='approved'",
+        [actorId ?? null, now, id],
+      )
+      if (claimed.changes !== 1) throw new Error('Change set is already being executed')
+      this.audit(this.get(id)!, 'executing', actorId)
+    })
+    return this.get(id)!
+  }
+
+  completeExecution(id: string, result: { success: boolean; error?: string }): StackChangeSet {
+    const current = this.get(id)
+    if (!current || current.status !== 'executing') throw new Error('Change set is not executing')
+    this.controlPlane.transaction(() => {
+      if (result.success)
+        this.controlPlane.database.run('UPDATE stack_change_sets SET executed_at=? WHERE id=?', [
+          this.now().toISOString(),
+          id,
+        ])
+      this.transition(current, result.success ? 'executed' : 'failed', {
+        actorId: current.executedBy,
+        error: result.error,
+        payload: result.error ? { error: result.error.slice(0, 2000) } : {},
+      })
+    })
+    return this.get(id)!
+  }
+
+  cancel(id: string, input: { actorId?: string; reason?: string } = {}): StackChangeSet {
+    const current = this.expireIfDue(id)
+    if (!OPEN.includes(current.status)) throw new Error(`Change set is ${current.status} and cannot be cancelled`)
+    this.controlPlane.transaction(() =>
+      this.transition(current, 'cancelled', { actorId: input.actorId, payload: { reason: input.reason ?? null } }),
+    )
+    return this.get(id)!
+  }
+
+  /** Expire every open change set past its deadline in the project. Returns the ones expired. */
+  expireDue(projectId: string): StackChangeSet[] {
+    const rows = this.controlPlane.database
+      .query<Row, [string, string]>(
+        "SELECT * FROM stack_change_sets WHERE project_id=? AND status IN ('pending','approved') AND expires_at<=?",
+      )
+      .all(projectId, this.now().toISOString())
+      .map(changeSet)
+    this.controlPlane.transaction(() => {
+      for (const item of rows) this.transition(item, 'expired')
+    })
+    return rows.map((item) => this.get(item.id)!)
+  }
+
+  private expireIfDue(id: string): StackChangeSet {
+    const current = this.get(id)
+    if (!current) throw new Error(`Change set ${id} was not found`)
+    if (!OPEN.includes(current.status) || new Date(current.expiresAt).getTime() > this.now().getTime()) return current
+    this.controlPlane.transaction(() => this.transition(current, 'expired'))
+    return this.get(id)!
+  }
+
+  private assertMayDeploy(current: StackChangeSet, actorId: string): void {
+    const membership = this.controlPlane.getMembershipForActor(current.organizationId, actorId)
+    const target = this.controlPlane.resolveAuthorizationTarget(current.organizationId, {
+      type: 'environment',
+      id: current.environmentId,
+    })
+    if (
+      !membership ||
+      !target ||
+      !authorizeOrganization({
+        membership,
+        grants: this.controlPlane.listGrants(membership.id),
+        capability: 'deployments:create',
+        target,
+      }).allowed
+    )
+      throw new Error('Reviewing a change set requires deployments:create on its environment')
+  }
+
+  private transition(
+    current: StackChangeSet,
+    status: StackChangeSetStatus,
+    input: { actorId?: string; error?: string; payload?: Record<string, any> } = {},
+  ): void {
+    this.controlPlane.database.run('UPDATE stack_change_sets SET status=?, error=?, updated_at=? WHERE id=?', [
+      status,
+      input.error?.slice(0, 2000) ?? null,
+      this.now().toISOString(),
+      current.id,
+    ])
+    this.audit({ ...current, status }, status, input.actorId, { from: current.status, ...input.payload })
+  }
+
+  private audit(current: StackChangeSet, action: string, actorId?: string, payload: Record<string, any> = {}): void {
+    this.controlPlane.appendEvent({
+      organizationId: current.organizationId,
+      projectId: current.projectId,
+      actorId,
+      correlationId: current.id,
+      type: `stack.change_set.${action}`,
+      level: ['rejected', 'failed'].includes(action) ? 'warning' : 'info',
+      payload: {
+        changeSetId: current.id,
+        environmentId: current.environmentId,
+        stackName: current.stackName,
+        region: current.region,
+        status: current.status,
+        ...payload,
+      },
+    })
+  }
+}
@@ -1,7 +1,8 @@
 import type { AuthorizationGrant, AuthorizationTarget, OrganizationMembership, OrganizationRoleTemplate } from './types'
 import { describe, expect, it } from 'bun:test'
-import { authorizeOrganization, roleCapabilities } from './authorization'
+import { authorizeOrganization, customRoleCapabilities, effectiveCapabilities, roleCapabilities } from './authorization'
 import { ControlPlaneStore } from './store'
+import { OptimisticConcurrencyError } from './types'
 
 function membership(
   roleTemplate: OrganizationRoleTemplate,
@@ -234,3 +235,135 @@ describe('organization membership and invitations', () => {
     store.close()
   })
 })
+
+describe('custom organization roles', () => {
+  function fixture() {
+    const store = new ControlPlaneStore({ path: ':memory:' })
+    const organization = store.createOrganization({ slug: 'acme-inc', name: 'Acme' })
+    const project = store.createProject({ organizationId: organization.id, slug: 'acme', name: 'Acme' })
+    const production = store.createEnvironment({
+      projectId: project.id,
+      slug: 'production',
+      name: 'Production',
+      kind: 'production',
+    })
+    const actor = store.createActor({ kind: 'user', externalId: 'dashboard:dev', displayName: 'Dev' })
+    const membership = store.createMembership({ organizationId: organization.id, actorId: actor.id, roleTemplate: 'viewer' })
+    const productionTarget = { organizationId: organization.id, projectId: project.id, environmentId: production.id }
+    const capabilities = () =>
+      effectiveCapabilities({
+        membership: store.getMembership(membership.id),
+        grants: store.listGrants(membership.id),
+        target: productionTarget,
+      })
+    return { store, organization, project, production, membership, capabilities }
+  }
+
+  it('keeps what a role allows and does not also deny', () => {
+    expect(
+      customRoleCapabilities([
+        { effect: 'allow', capability: 'deployments:create' },
+        { effect: 'allow', capability: 'config:read' },
+        { effect: 'deny', capability: 'runtime:logs' },
+      ]),
+    ).toEqual(['config:read', 'deployments:create'])
+  })
+
+  it('versions a role and keeps the grants of its holders in line with it', () => {
+    const { store, organization, production, membership, capabilities } = fixture()
+    const role = store.saveCustomRole({
+      organizationId: organization.id,
+      slug: 'Release-Manager',
+      name: 'Release manager',
+      rules: [
+        { effect: 'allow', capability: 'deployments:rollback' },
+        { effect: 'allow', capability: 'deployments:create' },
+        { effect: 'deny', capability: 'runtime:logs' },
+      ],
+    })
+    expect(role).toMatchObject({ slug: 'release-manager', version: 1 })
+    expect(role.rules.map((rule) => rule.capability)).toEqual(['deployments:create', 'deployments:rollback', 'runtime:logs'])
+
+    const scope = { type: 'environment' as const, id: production.id }
+    const preview = store.previewCustomRoleAssignment({
+      organizationId: organization.id,
+      roleId: role.id,
+      membershipId: membership.id,
+      scope,
+    })
+    expect(preview).toMatchObject({
+      gained: ['deployments:create', 'deployments:rollback'],
+      lost: ['runtime:logs'],
+    })
+    expect(store.listGrants(membership.id)).toEqual([])
+    const assignment = store.assignCustomRole({
+      organizationId: organization.id,
+      roleId: role.id,
+      membershipId: membership.id,
+      scope,
+    })
+    expect(store.listGrants(membership.id).every((grant) => grant.source === 'role')).toBe(true)
+    expect(capabilities()).toContain('deployments:rollback')
+    expect(capabilities()).not.toContain('runtime:logs')
+
+    const manual = store.upsertGrant({
+      organizationId: organization.id,
+      membershipId: membership.id,
+      effect: 'allow',
+      capability: 'deployments:create',
+      scope,
+    })
+    const update = {
+      organizationId: organization.id,
+      slug: 'release-manager',
+      rules: [{ effect: 'allow' as const, capability: 'deployments:cancel' as const }],
+    }
+    expect(store.previewCustomRole(update)).toMatchObject({
+      current: { version: 1 },
+      version: 2,
+      changes: [{ assignmentId: assignment.id, gained: ['deployments:cancel', 'runtime:logs'], lost: ['deployments:rollback'] }],
+    })
+    expect(() => store.saveCustomRole({ ...update, expectedVersion: 0 })).toThrow(OptimisticConcurrencyError)
+    const saved = store.saveCustomRole({ ...update, expectedVersion: 1 })
+    expect(saved).toMatchObject({ name: 'Release manager', version: 2 })
+    expect(store.saveCustomRole(update).version).toBe(2)
+    expect(store.listCustomRoleVersions(role.id).map((version) => version.version)).toEqual([2, 1])
+    expect(capabilities()).toEqual(expect.arrayContaining(['deployments:cancel', 'deployments:create', 'runtime:logs']))
+    expect(capabilities()).not.toContain('deployments:rollback')
+
+    expect(store.unassignCustomRole(assignment.id)).toBe(true)
+    expect(store.listGrants(membership.id)).toEqual([manual])
+    expect(store.listEvents({ organizationId: organization.id }).map((event) => event.type)).toEqual(
+      expect.arrayContaining(['organization.role.created', 'organization.role.updated', 'organization.role.unassigned']),
+    )
+    store.close()
+  })
+
+  it('removes the grants of a deleted role and validates definitions', () => {
+    const { store, organization, membership, capabilities } = fixture()
+    const role = store.saveCustomRole({
+      organizationId: organization.id,
+      slug: 'auditor-plus',
+      name: 'Auditor plus',
+      rules: [{ effect: 'allow', capability: 'audit:read' }],
+    })
+    store.assignCustomRole({ organizationId: organization.id, roleId: role.id, membershipId: membership.id })
+    expect(capabilities()).toContain('audit:read')
+    expect(store.deleteCustomRole(role.id)).toBe(true)
+    expect(store.listGrants(membership.id)).toEqual([])
+    expect(store.listCustomRoles(organization.id)).toEqual([])
+
+    const save = (slug: string, rules: Parameters<typeof store.saveCustomRole>[0]['rules']) => () =>
+      store.saveCustomRole({ organizationId: organization.id, slug, name: 'Role', rules })
+    expect(save('admin', [{ effect: 'allow', capability: 'audit:read' }])).toThrow('built-in role template')
+    expect(save('empty', [])).toThrow('at least one rule')
+    expect(save('unknown', [{ effect: 'allow', capability: 'root' as never }])).toThrow("Unknown authorization capability 'root'")
+    expect(
+      save('conflict', [
+        { effect: 'allow', capability: 'audit:read' },
+        { effect: 'deny', capability: 'audit:read' },
+      ]),
+    ).toThrow('both allow and deny audit:read')
+    store.close()
+  })
+})
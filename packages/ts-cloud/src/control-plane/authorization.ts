@@ -1,4 +1,4 @@
-import type { AuthorizationCapability, AuthorizationGrant, AuthorizationScope, AuthorizationTarget, OrganizationMembership, OrganizationRoleTemplate } from './types'
+import type { AuthorizationCapability, AuthorizationGrant, AuthorizationScope, AuthorizationTarget, CustomRoleRule, OrganizationMembership, OrganizationRoleTemplate } from './types'
 
 export const AUTHORIZATION_CAPABILITIES: readonly AuthorizationCapability[] = [
   'project:read',
@@ -12,6 +12,7 @@ export const AUTHORIZATION_CAPABILITIES: readonly AuthorizationCapability[] = [
   'runtime:restart',
   'runtime:logs',
   'runtime:terminal',
+  'telemetry:write',
   'data:read',
   'data:write',
   'data:admin',
@@ -64,12 +65,15 @@ const ROLE_CAPABILITIES: Record<OrganizationRoleTemplate, ReadonlySet<Authorizat
     'deployments:create',
     'deployments:cancel',
     'deployments:rollback',
+    // Shipping an app's own OpenTelemetry is part of running what you deploy.
+    'telemetry:write',
     'sources:manage',
     'applications:manage',
   ]),
   operator: new Set([
     ...VIEWER_CAPABILITIES,
     'runtime:restart',
+    'telemetry:write',
     'backups:create',
     'security:manage',
     'sources:manage',
@@ -100,12 +104,21 @@ export interface AuthorizationDecision {
     | 'role-template'
     | 'missing-capability'
   inheritedFrom?: { kind: 'membership' | 'grant'; id: string; scope: AuthorizationScope }
+  /** Set when the allow came from a time-boxed grant, so the caller can record the use against its request. */
+  accessRequestId?: string
 }
 
 export function roleCapabilities(role: OrganizationRoleTemplate): ReadonlySet<AuthorizationCapability> {
   return ROLE_CAPABILITIES[role]
 }
 
+/** What a custom role adds where it is assigned: the capabilities it allows and does not also deny. */
+export function customRoleCapabilities(rules: readonly CustomRoleRule[]): AuthorizationCapability[] {
+  const denied = new Set(rules.filter((rule) => rule.effect === 'deny').map((rule) => rule.capability))
+  const allowed = new Set(rules.filter((rule) => rule.effect === 'allow').map((rule) => rule.capability))
+  return AUTHORIZATION_CAPABILITIES.filter((capability) => allowed.has(capability) && !denied.has(capability))
+}
+
 export function scopeContains(scope: AuthorizationScope, target: AuthorizationTarget): boolean {
   if (scope.type === 'organization') return scope.id === undefined || scope.id === target.organizationId
   if (!scope.id) return false
@@ -119,16 +132,20 @@ export function authorizeOrganization(input: {
   grants: readonly AuthorizationGrant[]
   capability: AuthorizationCapability
   target: AuthorizationTarget
+  /** The instant time-boxed grants are checked against; defaults to now. */
+  at?: string
 }): AuthorizationDecision {
   const { membership, capability, target } = input
   if (!membership || membership.status !== 'active' || membership.organizationId !== target.organizationId)
     return { allowed: false, reason: 'inactive-membership' }
 
+  const at = input.at ?? new Date().toISOString()
   const applicable = input.grants.filter(
     (grant) =>
       grant.organizationId === target.organizationId &&
       grant.membershipId === membership.id &&
       grant.capability === capability &&
+      (!grant.expiresAt || grant.expiresAt > at) &&
       scopeContains(grant.scope, target),
   )
   const denied = applicable.find((grant) => grant.effect === 'deny')
@@ -145,6 +162,7 @@ export function authorizeOrganization(input: {
       allowed: true,
       reason: 'explicit-allow',
       inheritedFrom: { kind: 'grant', id: allowed.id, scope: allowed.scope },
+      ...(allowed.accessRequestId ? { accessRequestId: allowed.accessRequestId } : {}),
     }
 
   if (!scopeContains(membership.scope, target)) return { allowed: false, reason: 'scope-mismatch' }
@@ -163,6 +181,7 @@ export function effectiveCapabilities(input: {
   membership: OrganizationMembership | undefined
   grants: readonly AuthorizationGrant[]
   target: AuthorizationTarget
+  at?: string
 }): AuthorizationCapability[] {
   return AUTHORIZATION_CAPABILITIES.filter((capability) => authorizeOrganization({ ...input, capability }).allowed)
 }
@@ -13,6 +13,7 @@ export type { ControlPlaneSearchOptions, ControlPlaneSearchResult, ControlPlaneS
 export {
   AUTHORIZATION_CAPABILITIES,
   authorizeOrganization,
+  customRoleCapabilities,
   effectiveCapabilities,
   roleCapabilities,
   scopeContains,
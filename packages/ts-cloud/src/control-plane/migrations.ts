@@ -2,9 +2,16 @@ export interface ControlPlaneMigration {
   version: number
   name: string
   sql: string
+  /**
+   * Run with foreign keys off, for rebuilds of tables that other tables
+   * reference with ON DELETE RESTRICT or CASCADE. Dropping such a table with
+   * foreign keys on either fails or empties its children. The migration
+   * runner checks every reference still resolves before committing.
+   */
+  disableForeignKeys?: boolean
 }
 
-export const CONTROL_PLANE_SCHEMA_VERSION: number = 40
+export const CONTROL_PLANE_SCHEMA_VERSION: number = 57
 
 export const controlPlaneMigrations: readonly ControlPlaneMigration[] = [
   {
@@ -1684,4 +1691,591 @@ export const controlPlaneMigrations: readonly ControlPlaneMigration[] = [
         ON telemetry_records(project_id, kind, timestamp);
     `,
   },
+  {
+    version: 41,
+    name: 'incident_notification_channels',
+    disableForeignKeys: true,
+    sql: `
+      -- PagerDuty and Opsgenie channels. Same table rebuild as version 39;
+      -- notification_deliveries cascades from this table, so the rebuild runs
+      -- with foreign keys off and the runner checks every delivery still
+      -- points at its channel.
+      CREATE TABLE notification_channels_new (
+        id TEXT PRIMARY KEY,
+        organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('slack','discord','teams','telegram','email','webhook','sms','pagerduty','opsgenie')),
+        config TEXT NOT NULL DEFAULT '{}',
+        credential_ciphertext TEXT,
+        credential_fingerprint TEXT,
+        status TEXT NOT NULL CHECK (status IN ('active','paused','failing','disabled')),
+        version INTEGER NOT NULL DEFAULT 1,
+        last_tested_at TEXT,
+        last_error TEXT,
+        created_by_actor_id TEXT REFERENCES actors(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE(organization_id, name)
+      ) STRICT;
+
+      INSERT INTO notification_channels_new SELECT
+        id, organization_id, name, kind, config, credential_ciphertext, credential_fingerprint,
+        status, version, last_tested_at, last_error, created_by_actor_id, created_at, updated_at
+      FROM notification_channels;
+
+      DROP TABLE notification_channels;
+      ALTER TABLE notification_channels_new RENAME TO notification_channels;
+    `,
+  },
+  {
+    version: 42,
+    name: 'on_call_escalation',
+    sql: `
+      CREATE TABLE on_call_schedules (
+        id TEXT PRIMARY KEY,
+        organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        timezone TEXT NOT NULL,
+        layers TEXT NOT NULL DEFAULT '[]',
+        version INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE(organization_id, name)
+      ) STRICT;
+      CREATE TABLE on_call_overrides (
+        id TEXT PRIMARY KEY,
+        schedule_id TEXT NOT NULL REFERENCES on_call_schedules(id) ON DELETE CASCADE,
+        actor_id TEXT NOT NULL REFERENCES actors(id) ON DELETE CASCADE,
+        starts_at TEXT NOT NULL,
+        ends_at TEXT NOT NULL,
+        reason TEXT,
+        created_by_actor_id TEXT REFERENCES actors(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL,
+        CHECK (ends_at > starts_at)
+      ) STRICT;
+      CREATE INDEX on_call_overrides_window ON on_call_overrides(schedule_id, ends_at, starts_at);
+      -- Where each person is paged. Rows point at ordinary notification
+      -- channels (an SMS channel with their number, a PagerDuty service) so
+      -- delivery, retries, and credentials work the same as for routes.
+      CREATE TABLE on_call_contacts (
+        actor_id TEXT NOT NULL REFERENCES actors(id) ON DELETE CASCADE,
+        channel_id TEXT NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (actor_id, channel_id)
+      ) STRICT;
+      CREATE TABLE escalation_policies (
+        id TEXT PRIMARY KEY,
+        organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        tiers TEXT NOT NULL DEFAULT '[]',
+        repeat_count INTEGER NOT NULL DEFAULT 0 CHECK (repeat_count BETWEEN 0 AND 9),
+        version INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE(organization_id, name)
+      ) STRICT;
+      ALTER TABLE notification_routes
+        ADD COLUMN escalation_policy_id TEXT REFERENCES escalation_policies(id) ON DELETE SET NULL;
+    `,
+  },
+  {
+    version: 43,
+    name: 'status_pages',
+    sql: `
+      CREATE TABLE status_pages (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        slug TEXT NOT NULL UNIQUE,
+        title TEXT NOT NULL,
+        description TEXT,
+        public_url TEXT,
+        subscribe_origin TEXT,
+        site TEXT NOT NULL DEFAULT '{}',
+        auto_publish INTEGER NOT NULL DEFAULT 1 CHECK (auto_publish IN (0,1)),
+        published_at TEXT,
+        published_hash TEXT,
+        version INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      ) STRICT;
+      CREATE TABLE status_components (
+        id TEXT PRIMARY KEY,
+        page_id TEXT NOT NULL REFERENCES status_pages(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        description TEXT,
+        group_name TEXT,
+        health_check_ids TEXT NOT NULL DEFAULT '[]',
+        position INTEGER NOT NULL DEFAULT 0,
+        UNIQUE(page_id, name)
+      ) STRICT;
+      CREATE TABLE status_incidents (
+        id TEXT PRIMARY KEY,
+        page_id TEXT NOT NULL REFERENCES status_pages(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        impact TEXT NOT NULL CHECK (impact IN ('none','minor','major','critical')),
+        status TEXT NOT NULL CHECK (status IN ('investigating','identified','monitoring','resolved')),
+        component_ids TEXT NOT NULL DEFAULT '[]',
+        started_at TEXT NOT NULL,
+        resolved_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      ) STRICT;
+      CREATE INDEX status_incidents_page ON status_incidents(page_id, started_at DESC);
+      CREATE TABLE status_incident_updates (
+        id TEXT PRIMARY KEY,
+        incident_id TEXT NOT NULL REFERENCES status_incidents(id) ON DELETE CASCADE,
+        status TEXT NOT NULL CHECK (status IN ('investigating','identified','monitoring','resolved')),
+        body TEXT NOT NULL,
+        author_actor_id TEXT REFERENCES actors(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL
+      ) STRICT;
+      CREATE INDEX status_incident_updates_incident ON status_incident_updates(incident_id, created_at DESC);
+      CREATE TABLE status_maintenances (
+        id TEXT PRIMARY KEY,
+        page_id TEXT NOT NULL REFERENCES status_pages(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        component_ids TEXT NOT NULL DEFAULT '[]',
+        starts_at TEXT NOT NULL,
+        ends_at TEXT NOT NULL,
+        cancelled_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        CHECK (ends_at > starts_at)
+      ) STRICT;
+      CREATE INDEX status_maintenances_page ON status_maintenances(page_id, ends_at);
+      CREATE TABLE status_subscribers (
+        id TEXT PRIMARY KEY,
+        page_id TEXT NOT NULL REFERENCES status_pages(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL CHECK (kind IN ('email','webhook')),
+        target TEXT NOT NULL,
+        confirmed_at TEXT,
+        created_at TEXT NOT NULL,
+        UNIQUE(page_id, kind, target)
+      ) STRICT;
+    `,
+  },
+  {
+    version: 44,
+    name: 'service_level_objectives',
+    sql: `
+      CREATE TABLE service_level_objectives (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        environment_id TEXT REFERENCES environments(id) ON DELETE CASCADE,
+        resource_id TEXT REFERENCES resources(id) ON DELETE CASCADE,
+        health_check_id TEXT REFERENCES health_checks(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        service TEXT NOT NULL,
+        source TEXT NOT NULL CHECK (source IN ('requests','health')),
+        objective TEXT NOT NULL CHECK (objective IN ('availability','latency')),
+        latency_threshold_ms REAL,
+        target_percent REAL NOT NULL CHECK (target_percent > 0 AND target_percent < 100),
+        window_days INTEGER NOT NULL CHECK (window_days BETWEEN 1 AND 90),
+        filter TEXT NOT NULL DEFAULT '{}',
+        gate_min_budget_percent REAL NOT NULL DEFAULT 0 CHECK (gate_min_budget_percent BETWEEN 0 AND 100),
+        enabled INTEGER NOT NULL DEFAULT 1 CHECK (enabled IN (0,1)),
+        version INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        CHECK (source = 'requests' OR health_check_id IS NOT NULL),
+        CHECK (objective = 'availability' OR latency_threshold_ms > 0),
+        UNIQUE(project_id, name)
+      ) STRICT;
+      ALTER TABLE alert_rules ADD COLUMN slo_id TEXT REFERENCES service_level_objectives(id) ON DELETE CASCADE;
+      CREATE INDEX alert_rules_slo_idx ON alert_rules(slo_id) WHERE slo_id IS NOT NULL;
+    `,
+  },
+  {
+    version: 45,
+    name: 'job_workflows',
+    sql: `
+      ALTER TABLE scheduled_jobs ADD COLUMN depends_on TEXT NOT NULL DEFAULT '[]';
+      CREATE TABLE job_workflow_runs (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        environment_id TEXT REFERENCES environments(id) ON DELETE CASCADE,
+        root_job_id TEXT NOT NULL REFERENCES scheduled_jobs(id) ON DELETE CASCADE,
+        trigger TEXT NOT NULL CHECK (trigger IN ('scheduled','manual','catch_up','external','retry')),
+        scheduled_for TEXT NOT NULL,
+        idempotency_key TEXT NOT NULL UNIQUE,
+        status TEXT NOT NULL CHECK (status IN ('running','succeeded','failed')),
+        finished_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      ) STRICT;
+      CREATE INDEX job_workflow_runs_root_idx ON job_workflow_runs(root_job_id, created_at DESC);
+      CREATE INDEX job_workflow_runs_running_idx ON job_workflow_runs(status) WHERE status = 'running';
+      ALTER TABLE job_executions ADD COLUMN workflow_run_id TEXT REFERENCES job_workflow_runs(id) ON DELETE CASCADE;
+      CREATE INDEX job_executions_workflow_run_idx ON job_executions(workflow_run_id) WHERE workflow_run_id IS NOT NULL;
+    `,
+  },
+  {
+    version: 46,
+    name: 'off_cloud_backup_destinations',
+    disableForeignKeys: true,
+    sql: `
+      -- Azure Blob and Google Cloud Storage destinations. backup_policies and
+      -- recovery_points reference destinations with ON DELETE RESTRICT, so
+      -- unlike the channel rebuilds this one runs with foreign keys off and
+      -- the references carry over to the new table by name.
+      CREATE TABLE backup_destinations_new (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE, project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        name TEXT NOT NULL, provider TEXT NOT NULL CHECK (provider IN ('aws_s3','s3_compatible','aws_backup','azure_blob','gcs')), endpoint TEXT, endpoint_policy TEXT NOT NULL CHECK (endpoint_policy IN ('public_https','allow_private')), bucket TEXT, prefix TEXT NOT NULL DEFAULT '', region TEXT, force_path_style INTEGER NOT NULL DEFAULT 0 CHECK (force_path_style IN (0,1)), credential_ref TEXT,
+        encryption TEXT NOT NULL CHECK (encryption IN ('provider','client_side','both')), encryption_key_ref TEXT, immutability TEXT NOT NULL DEFAULT '{}', status TEXT NOT NULL CHECK (status IN ('untested','healthy','failing','disabled')), last_tested_at TEXT, last_success_at TEXT, last_failure_at TEXT, last_error TEXT,
+        version INTEGER NOT NULL DEFAULT 1, created_at TEXT NOT NULL, updated_at TEXT NOT NULL, UNIQUE(project_id,name)
+      ) STRICT;
+      INSERT INTO backup_destinations_new SELECT
+        id, organization_id, project_id, name, provider, endpoint, endpoint_policy, bucket, prefix, region, force_path_style, credential_ref,
+        encryption, encryption_key_ref, immutability, status, last_tested_at, last_success_at, last_failure_at, last_error,
+        version, created_at, updated_at
+      FROM backup_destinations;
+      DROP TABLE backup_destinations;
+      ALTER TABLE backup_destinations_new RENAME TO backup_destinations;
+      CREATE INDEX backup_destinations_health_idx ON backup_destinations(project_id,status,last_tested_at);
+    `,
+  },
+  {
+    version: 47,
+    name: 'backup_log_archiving',
+    sql: `
+      -- Continuous WAL and binlog archiving for logical database policies.
+      -- recoverable_until is the latest moment a restore can reach once the
+      -- segment has been replayed; Postgres segments without a heartbeat
+      -- commit leave it NULL because replay cannot stop inside them.
+      ALTER TABLE backup_policies ADD COLUMN log_archiving INTEGER NOT NULL DEFAULT 0 CHECK (log_archiving IN (0,1));
+      CREATE TABLE backup_log_segments (
+        id TEXT PRIMARY KEY, project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE, policy_id TEXT NOT NULL REFERENCES backup_policies(id) ON DELETE CASCADE, destination_id TEXT NOT NULL REFERENCES backup_destinations(id) ON DELETE RESTRICT, data_service_id TEXT REFERENCES data_services(id) ON DELETE SET NULL,
+        engine TEXT NOT NULL CHECK (engine IN ('postgres','mysql','mariadb')), name TEXT NOT NULL, sequence INTEGER NOT NULL CHECK (sequence >= 0), recoverable_until TEXT, uri TEXT NOT NULL, size_bytes INTEGER NOT NULL DEFAULT 0 CHECK (size_bytes >= 0), checksum TEXT NOT NULL, manifest TEXT NOT NULL DEFAULT '{}', locked_until TEXT, created_at TEXT NOT NULL,
+        UNIQUE(policy_id,name)
+      ) STRICT;
+      CREATE INDEX backup_log_segments_sequence_idx ON backup_log_segments(policy_id,sequence);
+    `,
+  },
+  {
+    version: 48,
+    name: 'stack_drift_snapshots',
+    sql: `
+      -- Results of CloudFormation drift detection. resources holds the checked
+      -- resources that are not in sync, each with its property changes, so a
+      -- snapshot is enough to build an adopt or revert plan later.
+      CREATE TABLE stack_drift_snapshots (
+        id TEXT PRIMARY KEY, project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE, environment_id TEXT REFERENCES environments(id) ON DELETE CASCADE,
+        stack_name TEXT NOT NULL, region TEXT NOT NULL, detection_id TEXT, status TEXT NOT NULL CHECK (status IN ('in_sync','drifted','unknown','failed')), drifted_count INTEGER NOT NULL DEFAULT 0 CHECK (drifted_count >= 0),
+        checked_count INTEGER NOT NULL DEFAULT 0 CHECK (checked_count >= 0), resources TEXT NOT NULL DEFAULT '[]', error TEXT, actor_id TEXT, detected_at TEXT NOT NULL, created_at TEXT NOT NULL
+      ) STRICT;
+      CREATE INDEX stack_drift_snapshots_stack_idx ON stack_drift_snapshots(project_id,stack_name,detected_at);
+    `,
+  },
+  {
+    version: 49,
+    name: 'spend_budget_deploy_limit',
+    sql: `
+      -- Largest estimated monthly cost increase one deploy may add. Checked
+      -- before a deploy from the template estimate; NULL means no limit.
+      ALTER TABLE spend_budgets ADD COLUMN deploy_increase_limit_cents INTEGER CHECK (deploy_increase_limit_cents IS NULL OR deploy_increase_limit_cents >= 0);
+    `,
+  },
+  {
+    version: 50,
+    name: 'stack_change_sets',
+    sql: `
+      -- Infrastructure changes held for review. The CloudFormation change set
+      -- is created up front; summary is the condensed stack diff reviewers
+      -- sign off on, and nothing is executed until enough approvals are in.
+      CREATE TABLE stack_change_sets (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE, project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        environment_id TEXT NOT NULL REFERENCES environments(id) ON DELETE CASCADE, stack_name TEXT NOT NULL, region TEXT NOT NULL, change_set_name TEXT NOT NULL, change_set_id TEXT,
+        change_set_type TEXT NOT NULL CHECK (change_set_type IN ('CREATE','UPDATE')),
+        status TEXT NOT NULL CHECK (status IN ('pending','approved','rejected','executing','executed','failed','expired','cancelled','superseded')),
+        summary TEXT NOT NULL DEFAULT '{}', template_hash TEXT NOT NULL, required_approvals INTEGER NOT NULL DEFAULT 1 CHECK (required_approvals >= 1), requested_by TEXT, reason TEXT, error TEXT,
+        expires_at TEXT NOT NULL, executed_by TEXT, executed_at TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+      ) STRICT;
+      CREATE INDEX stack_change_sets_project_idx ON stack_change_sets(project_id,status,created_at);
+      CREATE INDEX stack_change_sets_stack_idx ON stack_change_sets(project_id,stack_name,created_at);
+      CREATE TABLE stack_change_set_approvals (
+        id TEXT PRIMARY KEY, change_set_id TEXT NOT NULL REFERENCES stack_change_sets(id) ON DELETE CASCADE, decision TEXT NOT NULL CHECK (decision IN ('approved','rejected')),
+        actor_id TEXT NOT NULL, comment TEXT, created_at TEXT NOT NULL, UNIQUE(change_set_id,actor_id)
+      ) STRICT;
+    `,
+  },
+  {
+    version: 51,
+    name: 'webauthn_credentials',
+    sql: `
+      -- Passkeys and security keys. public_key is the credential's COSE key;
+      -- sign_count only moves forward, and backup_eligible marks passkeys a
+      -- platform syncs between devices, which are not hardware-bound.
+      CREATE TABLE auth_webauthn_credentials (
+        id TEXT PRIMARY KEY, identity_id TEXT NOT NULL REFERENCES auth_identities(id) ON DELETE CASCADE, credential_id TEXT NOT NULL UNIQUE, public_key TEXT NOT NULL, algorithm INTEGER NOT NULL,
+        sign_count INTEGER NOT NULL DEFAULT 0 CHECK (sign_count >= 0), transports TEXT NOT NULL DEFAULT '[]', aaguid TEXT NOT NULL, attestation_format TEXT NOT NULL,
+        attestation_type TEXT NOT NULL CHECK (attestation_type IN ('none','self','basic')), backup_eligible INTEGER NOT NULL DEFAULT 0 CHECK (backup_eligible IN (0,1)),
+        backed_up INTEGER NOT NULL DEFAULT 0 CHECK (backed_up IN (0,1)), label TEXT NOT NULL, created_at TEXT NOT NULL, last_used_at TEXT, disabled_at TEXT
+      ) STRICT;
+      CREATE INDEX auth_webauthn_credentials_identity_idx ON auth_webauthn_credentials(identity_id,disabled_at);
+      -- identity_id is NULL for passwordless sign-in, where the credential names the identity.
+      CREATE TABLE auth_webauthn_challenges (
+        id TEXT PRIMARY KEY, identity_id TEXT REFERENCES auth_identities(id) ON DELETE CASCADE, purpose TEXT NOT NULL CHECK (purpose IN ('register','login','mfa','step_up')),
+        challenge_hash TEXT NOT NULL UNIQUE, expires_at TEXT NOT NULL, consumed_at TEXT, created_at TEXT NOT NULL
+      ) STRICT;
+      CREATE INDEX auth_webauthn_challenges_expiry_idx ON auth_webauthn_challenges(expires_at,consumed_at);
+      -- Capabilities an organization only allows from a session verified with
+      -- a device-bound WebAuthn credential.
+      CREATE TABLE auth_factor_requirements (
+        organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE, capability TEXT NOT NULL,
+        require_attestation INTEGER NOT NULL DEFAULT 0 CHECK (require_attestation IN (0,1)), created_by TEXT, created_at TEXT NOT NULL, PRIMARY KEY (organization_id,capability)
+      ) STRICT;
+      -- Sessions record the credential that verified them, and passkey
+      -- sign-in is its own auth method. Nothing references auth_sessions, so
+      -- the rebuild runs with foreign keys on.
+      CREATE TABLE auth_sessions_new (
+        id TEXT PRIMARY KEY, identity_id TEXT NOT NULL REFERENCES auth_identities(id) ON DELETE CASCADE, token_hash TEXT NOT NULL UNIQUE, credential_version INTEGER NOT NULL CHECK (credential_version > 0),
+        auth_method TEXT NOT NULL CHECK (auth_method IN ('local','oidc','passkey')), user_agent TEXT, network_hint TEXT, created_at TEXT NOT NULL, last_used_at TEXT NOT NULL,
+        idle_expires_at TEXT NOT NULL, absolute_expires_at TEXT NOT NULL, recent_auth_at TEXT NOT NULL, mfa_at TEXT, webauthn_credential_id TEXT REFERENCES auth_webauthn_credentials(id) ON DELETE SET NULL, revoked_at TEXT
+      ) STRICT;
+      INSERT INTO auth_sessions_new SELECT
+        id, identity_id, token_hash, credential_version, auth_method, user_agent, network_hint, created_at, last_used_at,
+        idle_expires_at, absolute_expires_at, recent_auth_at, mfa_at, NULL, revoked_at
+      FROM auth_sessions;
+      DROP TABLE auth_sessions;
+      ALTER TABLE auth_sessions_new RENAME TO auth_sessions;
+      CREATE INDEX auth_sessions_identity_idx ON auth_sessions(identity_id,revoked_at,last_used_at DESC);
+      CREATE INDEX auth_sessions_expiry_idx ON auth_sessions(idle_expires_at,absolute_expires_at,revoked_at);
+    `,
+  },
+  {
+    version: 52,
+    name: 'saml_authentication',
+    sql: `
+      -- SAML identity providers. sp_private_key_ciphertext signs our requests
+      -- and logout messages; idp_certificates verify what the IdP signs.
+      CREATE TABLE auth_saml_providers (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE, slug TEXT NOT NULL COLLATE NOCASE UNIQUE, name TEXT NOT NULL,
+        entity_id TEXT NOT NULL UNIQUE, sso_url TEXT NOT NULL, slo_url TEXT, slo_response_url TEXT, idp_certificates TEXT NOT NULL,
+        sp_private_key_ciphertext TEXT NOT NULL, sp_certificate TEXT NOT NULL, allowed_domains TEXT NOT NULL,
+        default_role TEXT NOT NULL DEFAULT 'viewer' CHECK (default_role IN ('admin','deployer','operator','viewer','auditor')), role_mappings TEXT NOT NULL DEFAULT '[]',
+        attribute_mapping TEXT NOT NULL DEFAULT '{}', allow_idp_initiated INTEGER NOT NULL DEFAULT 0 CHECK (allow_idp_initiated IN (0,1)),
+        enabled INTEGER NOT NULL DEFAULT 1 CHECK (enabled IN (0,1)), enforce_sso INTEGER NOT NULL DEFAULT 0 CHECK (enforce_sso IN (0,1)), created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+      ) STRICT;
+      CREATE INDEX auth_saml_providers_org_idx ON auth_saml_providers(organization_id,enabled,name);
+      CREATE TABLE auth_saml_subjects (
+        id TEXT PRIMARY KEY, provider_id TEXT NOT NULL REFERENCES auth_saml_providers(id) ON DELETE CASCADE, identity_id TEXT NOT NULL REFERENCES auth_identities(id) ON DELETE CASCADE,
+        name_id TEXT NOT NULL, email TEXT NOT NULL COLLATE NOCASE, linked_at TEXT NOT NULL, last_login_at TEXT NOT NULL, UNIQUE(provider_id,name_id), UNIQUE(provider_id,identity_id)
+      ) STRICT;
+      CREATE INDEX auth_saml_subjects_identity_idx ON auth_saml_subjects(identity_id,provider_id);
+      -- AuthnRequests and LogoutRequests we sent, until the IdP answers them.
+      CREATE TABLE auth_saml_requests (
+        id TEXT PRIMARY KEY, provider_id TEXT NOT NULL REFERENCES auth_saml_providers(id) ON DELETE CASCADE, kind TEXT NOT NULL CHECK (kind IN ('authn','logout')),
+        relay_state_hash TEXT NOT NULL UNIQUE, return_path TEXT NOT NULL, expires_at TEXT NOT NULL, consumed_at TEXT, created_at TEXT NOT NULL
+      ) STRICT;
+      CREATE INDEX auth_saml_requests_expiry_idx ON auth_saml_requests(expires_at,consumed_at);
+      -- Assertion IDs already used to sign in, kept until the assertion expires.
+      CREATE TABLE auth_saml_assertions (
+        provider_id TEXT NOT NULL REFERENCES auth_saml_providers(id) ON DELETE CASCADE, assertion_id TEXT NOT NULL, expires_at TEXT NOT NULL, PRIMARY KEY (provider_id,assertion_id)
+      ) STRICT;
+      -- SAML sign-in is its own auth method. Nothing references auth_sessions
+      -- yet, so the rebuild runs with foreign keys on.
+      CREATE TABLE auth_sessions_new (
+        id TEXT PRIMARY KEY, identity_id TEXT NOT NULL REFERENCES auth_identities(id) ON DELETE CASCADE, token_hash TEXT NOT NULL UNIQUE, credential_version INTEGER NOT NULL CHECK (credential_version > 0),
+        auth_method TEXT NOT NULL CHECK (auth_method IN ('local','oidc','passkey','saml')), user_agent TEXT, network_hint TEXT, created_at TEXT NOT NULL, last_used_at TEXT NOT NULL,
+        idle_expires_at TEXT NOT NULL, absolute_expires_at TEXT NOT NULL, recent_auth_at TEXT NOT NULL, mfa_at TEXT, webauthn_credential_id TEXT REFERENCES auth_webauthn_credentials(id) ON DELETE SET NULL, revoked_at TEXT
+      ) STRICT;
+      INSERT INTO auth_sessions_new SELECT
+        id, identity_id, token_hash, credential_version, auth_method, user_agent, network_hint, created_at, last_used_at,
+        idle_expires_at, absolute_expires_at, recent_auth_at, mfa_at, webauthn_credential_id, revoked_at
+      FROM auth_sessions;
+      DROP TABLE auth_sessions;
+      ALTER TABLE auth_sessions_new RENAME TO auth_sessions;
+      CREATE INDEX auth_sessions_identity_idx ON auth_sessions(identity_id,revoked_at,last_used_at DESC);
+      CREATE INDEX auth_sessions_expiry_idx ON auth_sessions(idle_expires_at,absolute_expires_at,revoked_at);
+      -- The IdP session behind each SAML dashboard session, for single logout.
+      CREATE TABLE auth_saml_sessions (
+        session_id TEXT PRIMARY KEY REFERENCES auth_sessions(id) ON DELETE CASCADE, provider_id TEXT NOT NULL REFERENCES auth_saml_providers(id) ON DELETE CASCADE,
+        name_id TEXT NOT NULL, name_id_format TEXT, name_qualifier TEXT, sp_name_qualifier TEXT, session_index TEXT, created_at TEXT NOT NULL
+      ) STRICT;
+      CREATE INDEX auth_saml_sessions_subject_idx ON auth_saml_sessions(provider_id,name_id);
+    `,
+  },
+  {
+    version: 53,
+    name: 'scim_provisioning',
+    disableForeignKeys: true,
+    sql: `
+      -- Memberships and grants a SCIM client manages carry their own source,
+      -- so reconciling group grants never touches manual ones. Grants
+      -- reference memberships, so the rebuild runs with foreign keys off.
+      CREATE TABLE organization_memberships_new (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE, actor_id TEXT NOT NULL REFERENCES actors(id) ON DELETE CASCADE,
+        role_template TEXT NOT NULL CHECK (role_template IN ('owner', 'admin', 'deployer', 'operator', 'viewer', 'auditor')),
+        scope_type TEXT NOT NULL CHECK (scope_type IN ('organization', 'project', 'environment', 'resource')), scope_id TEXT,
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revoked')), session_version INTEGER NOT NULL DEFAULT 1 CHECK (session_version > 0),
+        last_active_at TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL,
+        source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'legacy', 'invitation', 'scim')), UNIQUE(organization_id, actor_id),
+        CHECK ((scope_type = 'organization' AND scope_id IS NULL) OR (scope_type != 'organization' AND scope_id IS NOT NULL))
+      ) STRICT;
+      INSERT INTO organization_memberships_new SELECT
+        id, organization_id, actor_id, role_template, scope_type, scope_id, status, session_version, last_active_at, created_at, updated_at, source
+      FROM organization_memberships;
+      DROP TABLE organization_memberships;
+      ALTER TABLE organization_memberships_new RENAME TO organization_memberships;
+      CREATE INDEX memberships_org_idx ON organization_memberships(organization_id, status, role_template);
+      CREATE INDEX memberships_actor_idx ON organization_memberships(actor_id, status);
+      CREATE TABLE authorization_grants_new (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        membership_id TEXT NOT NULL REFERENCES organization_memberships(id) ON DELETE CASCADE, effect TEXT NOT NULL CHECK (effect IN ('allow', 'deny')), capability TEXT NOT NULL,
+        scope_type TEXT NOT NULL CHECK (scope_type IN ('organization', 'project', 'environment', 'resource')), scope_id TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL,
+        source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'legacy', 'invitation', 'scim')), UNIQUE(membership_id, effect, capability, scope_type, scope_id),
+        CHECK ((scope_type = 'organization' AND scope_id IS NULL) OR (scope_type != 'organization' AND scope_id IS NOT NULL))
+      ) STRICT;
+      INSERT INTO authorization_grants_new SELECT
+        id, organization_id, membership_id, effect, capability, scope_type, scope_id, created_at, updated_at, source
+      FROM authorization_grants;
+      DROP TABLE authorization_grants;
+      ALTER TABLE authorization_grants_new RENAME TO authorization_grants;
+      CREATE INDEX grants_membership_idx ON authorization_grants(membership_id, capability, effect);
+      CREATE UNIQUE INDEX grants_unique_idx ON authorization_grants(membership_id, effect, capability, scope_type, COALESCE(scope_id, ''));
+      CREATE INDEX grants_source_idx ON authorization_grants(membership_id, source);
+      -- Users and groups a SCIM client provisioned. A user is a local identity
+      -- plus the attributes the client sent; whether it is active is the
+      -- state of its organization membership.
+      CREATE TABLE scim_users (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE, identity_id TEXT NOT NULL REFERENCES auth_identities(id) ON DELETE CASCADE,
+        user_name TEXT NOT NULL COLLATE NOCASE, external_id TEXT, display_name TEXT, given_name TEXT, family_name TEXT, email TEXT NOT NULL COLLATE NOCASE,
+        created_at TEXT NOT NULL, updated_at TEXT NOT NULL, UNIQUE(organization_id, user_name), UNIQUE(organization_id, identity_id)
+      ) STRICT;
+      -- A group's members receive the capabilities of role_template at its
+      -- scope as SCIM grants. Groups without a role grant nothing.
+      CREATE TABLE scim_groups (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE, display_name TEXT NOT NULL COLLATE NOCASE, external_id TEXT,
+        role_template TEXT CHECK (role_template IN ('admin', 'deployer', 'operator', 'viewer', 'auditor')),
+        scope_type TEXT CHECK (scope_type IN ('organization', 'project', 'environment', 'resource')), scope_id TEXT,
+        created_at TEXT NOT NULL, updated_at TEXT NOT NULL, UNIQUE(organization_id, display_name),
+        CHECK ((role_template IS NULL AND scope_type IS NULL AND scope_id IS NULL) OR (role_template IS NOT NULL AND scope_type = 'organization' AND scope_id IS NULL)
+          OR (role_template IS NOT NULL AND scope_type != 'organization' AND scope_id IS NOT NULL))
+      ) STRICT;
+      CREATE TABLE scim_group_members (
+        group_id TEXT NOT NULL REFERENCES scim_groups(id) ON DELETE CASCADE, user_id TEXT NOT NULL REFERENCES scim_users(id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL, PRIMARY KEY (group_id, user_id)
+      ) STRICT;
+      CREATE INDEX scim_group_members_user_idx ON scim_group_members(user_id, group_id);
+    `,
+  },
+  {
+    version: 54,
+    name: 'custom_roles',
+    disableForeignKeys: true,
+    sql: `
+      -- Grants a custom role assignment produces carry the role source, so
+      -- reconciling them never touches manual, invitation or SCIM grants.
+      CREATE TABLE authorization_grants_new (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        membership_id TEXT NOT NULL REFERENCES organization_memberships(id) ON DELETE CASCADE, effect TEXT NOT NULL CHECK (effect IN ('allow', 'deny')), capability TEXT NOT NULL,
+        scope_type TEXT NOT NULL CHECK (scope_type IN ('organization', 'project', 'environment', 'resource')), scope_id TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL,
+        source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'legacy', 'invitation', 'scim', 'role')), UNIQUE(membership_id, effect, capability, scope_type, scope_id),
+        CHECK ((scope_type = 'organization' AND scope_id IS NULL) OR (scope_type != 'organization' AND scope_id IS NOT NULL))
+      ) STRICT;
+      INSERT INTO authorization_grants_new SELECT
+        id, organization_id, membership_id, effect, capability, scope_type, scope_id, created_at, updated_at, source
+      FROM authorization_grants;
+      DROP TABLE authorization_grants;
+      ALTER TABLE authorization_grants_new RENAME TO authorization_grants;
+      CREATE INDEX grants_membership_idx ON authorization_grants(membership_id, capability, effect);
+      CREATE UNIQUE INDEX grants_unique_idx ON authorization_grants(membership_id, effect, capability, scope_type, COALESCE(scope_id, ''));
+      CREATE INDEX grants_source_idx ON authorization_grants(membership_id, source);
+      -- A custom role is a named list of allow and deny rules. Every save
+      -- that changes it is kept as a version; version is the current one.
+      CREATE TABLE organization_roles (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE, slug TEXT NOT NULL COLLATE NOCASE,
+        name TEXT NOT NULL, description TEXT, version INTEGER NOT NULL DEFAULT 1 CHECK (version > 0), created_at TEXT NOT NULL, updated_at TEXT NOT NULL,
+        UNIQUE(organization_id, slug)
+      ) STRICT;
+      CREATE TABLE organization_role_versions (
+        role_id TEXT NOT NULL REFERENCES organization_roles(id) ON DELETE CASCADE, version INTEGER NOT NULL CHECK (version > 0),
+        name TEXT NOT NULL, description TEXT, rules TEXT NOT NULL, created_by_actor_id TEXT REFERENCES actors(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL, PRIMARY KEY (role_id, version)
+      ) STRICT;
+      CREATE TABLE organization_role_assignments (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        role_id TEXT NOT NULL REFERENCES organization_roles(id) ON DELETE CASCADE, membership_id TEXT NOT NULL REFERENCES organization_memberships(id) ON DELETE CASCADE,
+        scope_type TEXT NOT NULL CHECK (scope_type IN ('organization', 'project', 'environment', 'resource')), scope_id TEXT,
+        created_by_actor_id TEXT REFERENCES actors(id) ON DELETE SET NULL, created_at TEXT NOT NULL,
+        CHECK ((scope_type = 'organization' AND scope_id IS NULL) OR (scope_type != 'organization' AND scope_id IS NOT NULL))
+      ) STRICT;
+      CREATE UNIQUE INDEX role_assignments_unique_idx ON organization_role_assignments(role_id, membership_id, scope_type, COALESCE(scope_id, ''));
+      CREATE INDEX role_assignments_membership_idx ON organization_role_assignments(membership_id, role_id);
+      -- A token issued for a role carries the role's current capabilities
+      -- rather than the list it was created with.
+      ALTER TABLE api_tokens ADD COLUMN role_id TEXT REFERENCES organization_roles(id) ON DELETE SET NULL;
+    `,
+  },
+  {
+    version: 55,
+    name: 'access_requests',
+    disableForeignKeys: true,
+    sql: `
+      -- A grant from an approved access request lasts until expires_at. The
+      -- request ID is not a foreign key so a snapshot restores its grants
+      -- without the requests, which stay with the database they were made in.
+      CREATE TABLE authorization_grants_new (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        membership_id TEXT NOT NULL REFERENCES organization_memberships(id) ON DELETE CASCADE, effect TEXT NOT NULL CHECK (effect IN ('allow', 'deny')), capability TEXT NOT NULL,
+        scope_type TEXT NOT NULL CHECK (scope_type IN ('organization', 'project', 'environment', 'resource')), scope_id TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL,
+        source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'legacy', 'invitation', 'scim', 'role', 'access-request')),
+        expires_at TEXT, access_request_id TEXT, UNIQUE(membership_id, effect, capability, scope_type, scope_id),
+        CHECK ((scope_type = 'organization' AND scope_id IS NULL) OR (scope_type != 'organization' AND scope_id IS NOT NULL)),
+        CHECK ((source = 'access-request') = (expires_at IS NOT NULL))
+      ) STRICT;
+      INSERT INTO authorization_grants_new SELECT
+        id, organization_id, membership_id, effect, capability, scope_type, scope_id, created_at, updated_at, source, NULL, NULL
+      FROM authorization_grants;
+      DROP TABLE authorization_grants;
+      ALTER TABLE authorization_grants_new RENAME TO authorization_grants;
+      CREATE INDEX grants_membership_idx ON authorization_grants(membership_id, capability, effect);
+      CREATE UNIQUE INDEX grants_unique_idx ON authorization_grants(membership_id, effect, capability, scope_type, COALESCE(scope_id, ''));
+      CREATE INDEX grants_source_idx ON authorization_grants(membership_id, source);
+      CREATE INDEX grants_expiry_idx ON authorization_grants(expires_at) WHERE expires_at IS NOT NULL;
+      -- A member asks for one capability at one scope for a while. Approval
+      -- starts the window; break-glass requests approve themselves.
+      CREATE TABLE organization_access_requests (
+        id TEXT PRIMARY KEY, organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        membership_id TEXT NOT NULL REFERENCES organization_memberships(id) ON DELETE CASCADE, capability TEXT NOT NULL,
+        scope_type TEXT NOT NULL CHECK (scope_type IN ('organization', 'project', 'environment', 'resource')), scope_id TEXT,
+        justification TEXT NOT NULL, duration_seconds INTEGER NOT NULL CHECK (duration_seconds > 0),
+        break_glass INTEGER NOT NULL DEFAULT 0 CHECK (break_glass IN (0, 1)),
+        state TEXT NOT NULL DEFAULT 'pending' CHECK (state IN ('pending', 'approved', 'denied', 'cancelled', 'revoked', 'expired')),
+        decided_by_actor_id TEXT REFERENCES actors(id) ON DELETE SET NULL, decision_note TEXT,
+        approved_at TEXT, expires_at TEXT, ended_at TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL,
+        CHECK ((scope_type = 'organization' AND scope_id IS NULL) OR (scope_type != 'organization' AND scope_id IS NOT NULL))
+      ) STRICT;
+      CREATE INDEX access_requests_state_idx ON organization_access_requests(organization_id, state, created_at);
+      CREATE INDEX access_requests_membership_idx ON organization_access_requests(membership_id, state);
+      CREATE INDEX access_requests_expiry_idx ON organization_access_requests(state, expires_at);
+    `,
+  },
+  {
+    version: 56,
+    name: 'break_glass_eligibility',
+    sql: `
+      -- Break-glass is opt-in: a row lets everyone with a role template, or one
+      -- membership, give themselves one capability without an approver.
+      CREATE TABLE organization_break_glass_eligibility (
+        organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        role_template TEXT CHECK (role_template IN ('owner', 'admin', 'deployer', 'operator', 'viewer', 'auditor')),
+        membership_id TEXT REFERENCES organization_memberships(id) ON DELETE CASCADE,
+        capability TEXT NOT NULL, created_by TEXT, created_at TEXT NOT NULL,
+        CHECK ((role_template IS NULL) != (membership_id IS NULL))
+      ) STRICT;
+      CREATE UNIQUE INDEX break_glass_eligibility_unique_idx ON organization_break_glass_eligibility(organization_id, COALESCE(role_template, ''), COALESCE(membership_id, ''), capability);
+    `,
+  },
+  {
+    version: 57,
+    name: 'webauthn_attestation_trust',
+    sql: `
+      -- attestation_type says what signed the credential; attestation_trusted
+      -- says the certificate chained to a configured root. Keys registered
+      -- before roots were checked start out untrusted.
+      ALTER TABLE auth_webauthn_credentials ADD COLUMN attestation_trusted INTEGER NOT NULL DEFAULT 0 CHECK (attestation_trusted IN (0,1));
+    `,
+  },
 ]
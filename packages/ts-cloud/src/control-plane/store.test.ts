@@ -90,10 +90,120 @@ describe('ControlPlaneStore schema and persistence', () => {
     migrated.close()
   })
 
+  it('keeps notification delivery history when the channel table is rebuilt', () => {
+    const { path } = temporaryDatabase()
+    mkdirSync(join(path, '..'), { recursive: true })
+    const database = new Database(path, { create: true })
+    database.run('PRAGMA foreign_keys = ON')
+    for (const migration of controlPlaneMigrations.filter((item) => item.version <= 40)) database.run(migration.sql)
+    database.run('PRAGMA user_version = 40')
+    const at = '2026-07-21T12:00:00.000Z'
+    database.run('INSERT INTO organizations (id, slug, name, created_at, updated_at) VALUES (?, ?, ?, ?, ?)', [
+      'org',
+      'acme',
+      'Acme',
+      at,
+      at,
+    ])
+    database.run(
+      "INSERT INTO notification_channels (id, organization_id, name, kind, status, created_at, updated_at) VALUES ('channel', 'org', 'Ops', 'slack', 'active', ?, ?)",
+      [at, at],
+    )
+    database.run(
+      "INSERT INTO notification_deliveries (id, channel_id, event_type, idempotency_key, state, payload, created_at, updated_at) VALUES ('delivery', 'channel', 'firing', 'key', 'delivered', '{}', ?, ?)",
+      [at, at],
+    )
+    database.close()
+
+    const migrated = new ControlPlaneStore({ path })
+    expect(migrated.database.query('SELECT id FROM notification_deliveries').all()).toEqual([{ id: 'delivery' }])
+    migrated.close()
+  })
+
+  it('keeps backup policy references when the destination table is rebuilt', () => {
+    const { path } = temporaryDatabase()
+    mkdirSync(join(path, '..'), { recursive: true })
+    const database = new Database(path, { create: true })
+    database.run('PRAGMA foreign_keys = ON')
+    for (const migration of controlPlaneMigrations.filter((item) => item.version <= 45)) database.run(migration.sql)
+    database.run('PRAGMA user_version = 45')
+    const at = '2026-07-21T12:00:00.000Z'
+    database.run(
+      "INSERT INTO organizations (id, slug, name, created_at, updated_at) VALUES ('org', 'acme', 'Acme', ?, ?)",
+      [at, at],
+    )
+    database.run(
+      "INSERT INTO projects (id, slug, name, organization_id, created_at, updated_at) VALUES ('project', 'web', 'Web', 'org', ?, ?)",
+      [at, at],
+    )
+    database.run(
+      "INSERT INTO backup_destinations (id, organization_id, project_id, name, provider, endpoint_policy, bucket, encryption, status, created_at, updated_at) VALUES ('destination', 'org', 'project', 'primary', 'aws_s3', 'public_https', 'backups', 'provider', 'healthy', ?, ?)",
+      [at, at],
+    )
+    database.run(
+      "INSERT INTO backup_policies (id, organization_id, project_id, destination_id, name, resource_kind, schedule, timezone, retention, compression, encryption, expected_rpo_minutes, expected_rto_minutes, created_at, updated_at) VALUES ('policy', 'org', 'project', 'destination', 'nightly', 'files', '0 2 * * *', 'UTC', '{}', 'gzip', 'destination', 1440, 60, ?, ?)",
+      [at, at],
+    )
+    database.close()
+
+    const migrated = new ControlPlaneStore({ path })
+    expect(migrated.database.query('SELECT destination_id FROM backup_policies').all()).toEqual([
+      { destination_id: 'destination' },
+    ])
+    expect(() => migrated.database.run("DELETE FROM backup_destinations WHERE id = 'destination'")).toThrow()
+    migrated.database.run(
+      "INSERT INTO backup_destinations (id, organization_id, project_id, name, provider, endpoint_policy, bucket, encryption, status, created_at, updated_at) VALUES ('azure', 'org', 'project', 'offsite', 'azure_blob', 'public_https', 'backups', 'provider', 'untested', ?, ?)",
+      [at, at],
+    )
+    expect(migrated.database.query('PRAGMA foreign_keys').get()).toEqual({ foreign_keys: 1 })
+    migrated.close()
+  })
+
+  it('keeps grants and their memberships when both tables are rebuilt for SCIM', () => {
+    const { path } = temporaryDatabase()
+    mkdirSync(join(path, '..'), { recursive: true })
+    const database = new Database(path, { create: true })
+    database.run('PRAGMA foreign_keys = ON')
+    for (const migration of controlPlaneMigrations.filter((item) => item.version <= 52)) database.run(migration.sql)
+    database.run('PRAGMA user_version = 52')
+    const at = '2026-07-21T12:00:00.000Z'
+    database.run(
+      "INSERT INTO organizations (id, slug, name, created_at, updated_at) VALUES ('org', 'acme', 'Acme', ?, ?)",
+      [at, at],
+    )
+    database.run(
+      "INSERT INTO actors (id, kind, display_name, created_at, updated_at) VALUES ('actor', 'user', 'Chris', ?, ?)",
+      [at, at],
+    )
+    database.run(
+      "INSERT INTO organization_memberships (id, organization_id, actor_id, role_template, scope_type, source, created_at, updated_at) VALUES ('membership', 'org', 'actor', 'viewer', 'organization', 'invitation', ?, ?)",
+      [at, at],
+    )
+    database.run(
+      "INSERT INTO authorization_grants (id, organization_id, membership_id, effect, capability, scope_type, created_at, updated_at) VALUES ('grant', 'org', 'membership', 'allow', 'audit:read', 'organization', ?, ?)",
+      [at, at],
+    )
+    database.close()
+
+    const migrated = new ControlPlaneStore({ path })
+    expect(migrated.getMembership('membership')).toMatchObject({ source: 'invitation', status: 'active' })
+    expect(migrated.listGrants('membership')).toMatchObject([{ id: 'grant', capability: 'audit:read', source: 'manual' }])
+    migrated.upsertGrant({
+      organizationId: 'org',
+      membershipId: 'membership',
+      effect: 'allow',
+      capability: 'users:read',
+      source: 'scim',
+    })
+    migrated.database.run("DELETE FROM organization_memberships WHERE id = 'membership'")
+    expect(migrated.database.query('SELECT COUNT(*) AS count FROM authorization_grants').get()).toEqual({ count: 0 })
+    migrated.close()
+  })
+
   it('keeps migration numbering contiguous', () => {
     expect(controlPlaneMigrations.map((migration) => migration.version)).toEqual([
       1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30, 31,
-      32, 33, 34, 35, 36, 37, 38, 39, 40,
+      32, 33, 34, 35, 36, 37, 38, 39, 40, 41, 42, 43, 44, 45, 46, 47, 48, 49, 50, 51, 52, 53, 54, 55, 56, 57,
     ])
     expect(controlPlaneMigrations.at(-1)?.version).toBe(CONTROL_PLANE_SCHEMA_VERSION)
   })
@@ -184,6 +294,13 @@ describe('ControlPlaneStore safety and portability', () => {
       capability: 'runtime:terminal',
     })
     source.createInvitation({ organizationId: organization.id, email: 'dev@acme.test', roleTemplate: 'deployer' })
+    const role = source.saveCustomRole({
+      organizationId: organization.id,
+      slug: 'release-manager',
+      name: 'Release manager',
+      rules: [{ effect: 'allow', capability: 'deployments:rollback' }],
+    })
+    source.assignCustomRole({ organizationId: organization.id, roleId: role.id, membershipId: membership.id })
     source.createResource({ projectId: project.id, kind: 'database', slug: 'primary', name: 'Primary' })
     source.createOperation({ projectId: project.id, kind: 'backup' })
     source.setSetting('ui.theme', 'system')
@@ -199,7 +316,13 @@ describe('ControlPlaneStore safety and portability', () => {
       organizations: [{ slug: 'acme-inc' }],
       memberships: [{ roleTemplate: 'owner' }],
       invitations: [{ email: 'dev@acme.test', state: 'pending' }],
-      grants: [{ effect: 'deny', capability: 'runtime:terminal' }],
+      grants: expect.arrayContaining([
+        expect.objectContaining({ effect: 'deny', capability: 'runtime:terminal' }),
+        expect.objectContaining({ effect: 'allow', capability: 'deployments:rollback', source: 'role' }),
+      ]),
+      roles: [{ slug: 'release-manager', rules: [{ effect: 'allow', capability: 'deployments:rollback' }] }],
+      roleVersions: [{ version: 1 }],
+      roleAssignments: [{ roleId: role.id, membershipId: membership.id }],
       projects: [{ slug: 'acme' }],
       resources: [{ slug: 'primary' }],
       operations: [{ kind: 'backup', state: 'queued' }],
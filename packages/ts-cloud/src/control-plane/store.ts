@@ -1,11 +1,11 @@
 import type { Changes, SQLQueryBindings } from 'bun:sqlite'
-import type { AppendEventInput, AuthorizationGrant, AuthorizationScope, AuthorizationScopeType, AuthorizationTarget, CompactResult, ControlPlaneActor, ControlPlaneEnvironment, ControlPlaneEvent, ControlPlaneHealth, ControlPlaneOperation, ControlPlaneOrganization, ControlPlaneProject, ControlPlaneResource, ControlPlaneSnapshot, ControlPlaneStoreOptions, ControlPlaneTag, CreateActorInput, CreateEnvironmentInput, CreateGrantInput, CreateInvitationInput, CreateMembershipInput, CreateOperationInput, CreateOrganizationInput, CreateProjectInput, CreateResourceInput, EventListOptions, ImportSnapshotOptions, JsonValue, NavigationPreference, OperationListOptions, OperationState, OrganizationInvitation, OrganizationMembership, ReconcileResult, SavedFilter, TransitionOperationInput, UpdateProjectInput, UpdateResourceInput } from './types'
+import type { AppendEventInput, AssignCustomRoleInput, AuthorizationCapability, AuthorizationGrant, AuthorizationScope, AuthorizationScopeType, AuthorizationTarget, CompactResult, ControlPlaneActor, ControlPlaneEnvironment, ControlPlaneEvent, ControlPlaneHealth, ControlPlaneOperation, ControlPlaneOrganization, ControlPlaneProject, ControlPlaneResource, ControlPlaneSnapshot, ControlPlaneStoreOptions, ControlPlaneTag, CreateActorInput, CreateEnvironmentInput, CreateGrantInput, CreateInvitationInput, CreateMembershipInput, CreateOperationInput, CreateOrganizationInput, CreateProjectInput, CreateResourceInput, CustomRole, CustomRoleAccessChange, CustomRoleAssignment, CustomRolePreview, CustomRoleRule, CustomRoleVersion, EventListOptions, ImportSnapshotOptions, JsonValue, NavigationPreference, OperationListOptions, OperationState, OrganizationInvitation, OrganizationMembership, ReconcileResult, SaveCustomRoleInput, SavedFilter, TransitionOperationInput, UpdateProjectInput, UpdateResourceInput } from './types'
 import { createHash, randomBytes } from 'node:crypto'
 import { chmodSync, existsSync, mkdirSync, statSync } from 'node:fs'
 import { dirname, join } from 'node:path'
 import { resolveStatePath, statePath } from '@ts-cloud/core'
 import { Database } from 'bun:sqlite'
-import { AUTHORIZATION_CAPABILITIES, roleCapabilities } from './authorization'
+import { AUTHORIZATION_CAPABILITIES, effectiveCapabilities, roleCapabilities } from './authorization'
 import { CONTROL_PLANE_SCHEMA_VERSION, controlPlaneMigrations } from './migrations'
 import { InvalidOperationTransitionError, OptimisticConcurrencyError, UnsupportedSchemaVersionError } from './types'
 
@@ -291,11 +291,79 @@ function mapGrant(row: Row): AuthorizationGrant {
     capability: String(row.capability) as AuthorizationGrant['capability'],
     scope: mapScope(row),
     source: String(row.source ?? 'manual') as AuthorizationGrant['source'],
+    ...(row.expires_at == null ? {} : { expiresAt: String(row.expires_at) }),
+    ...(row.access_request_id == null ? {} : { accessRequestId: String(row.access_request_id) }),
     createdAt: String(row.created_at),
     updatedAt: String(row.updated_at),
   }
 }
 
+const ROLE_TEMPLATES: ReadonlySet<string> = new Set(['owner', 'admin', 'deployer', 'operator', 'viewer', 'auditor'])
+
+const CUSTOM_ROLE_SELECT = `SELECT organization_roles.*, organization_role_versions.rules FROM organization_roles
+  JOIN organization_role_versions ON organization_role_versions.role_id = organization_roles.id
+  AND organization_role_versions.version = organization_roles.version`
+
+function parseRoleRules(value: unknown): CustomRoleRule[] {
+  const parsed = parseJson(value)
+  return Array.isArray(parsed)
+    ? parsed.flatMap((rule) =>
+        rule && typeof rule === 'object' && !Array.isArray(rule)
+          ? [
+              {
+                effect: rule.effect as CustomRoleRule['effect'],
+                capability: rule.capability as AuthorizationCapability,
+              },
+            ]
+          : [],
+      )
+    : []
+}
+
+function mapCustomRole(row: Row): CustomRole {
+  return {
+    id: String(row.id),
+    organizationId: String(row.organization_id),
+    slug: String(row.slug),
+    name: String(row.name),
+    description: optionalString(row.description),
+    version: Number(row.version),
+    rules: parseRoleRules(row.rules),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
+
+function mapCustomRoleVersion(row: Row): CustomRoleVersion {
+  return {
+    roleId: String(row.role_id),
+    version: Number(row.version),
+    name: String(row.name),
+    description: optionalString(row.description),
+    rules: parseRoleRules(row.rules),
+    createdByActorId: optionalString(row.created_by_actor_id),
+    createdAt: String(row.created_at),
+  }
+}
+
+function mapCustomRoleAssignment(row: Row): CustomRoleAssignment {
+  return {
+    id: String(row.id),
+    organizationId: String(row.organization_id),
+    roleId: String(row.role_id),
+    membershipId: String(row.membership_id),
+    scope: mapScope(row),
+    createdByActorId: optionalString(row.created_by_actor_id),
+    createdAt: String(row.created_at),
+  }
+}
+
+type RoleGrant = Pick<AuthorizationGrant, 'effect' | 'capability' | 'scope'>
+
+function roleGrantKey(grant: RoleGrant): string {
+  return `${grant.effect}|${grant.capability}|${grant.scope.type}|${grant.scope.id ?? ''}`
+}
+
 function scopePayload(scope: AuthorizationScope): JsonValue {
   return { type: scope.type, id: scope.id ?? null }
 }
@@ -372,10 +440,14 @@ export class ControlPlaneStore {
       this.backupTo(backupPath)
     }
 
+    // PRAGMA foreign_keys is a no-op inside a transaction, so it has to be
+    // switched off before the batch starts when any migration needs it.
+    const pending = controlPlaneMigrations.filter((migration) => migration.version > current)
+    const foreignKeysOff = pending.some((migration) => migration.disableForeignKeys)
     try {
+      if (foreignKeysOff) this.database.run('PRAGMA foreign_keys = OFF')
       const apply = this.database.transaction(() => {
-        for (const migration of controlPlaneMigrations) {
-          if (migration.version <= current) continue
+        for (const migration of pending) {
           this.database.run(migration.sql)
           run(this.database, 'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)', [
             migration.version,
@@ -384,6 +456,11 @@ export class ControlPlaneStore {
           ])
           this.database.run(`PRAGMA user_version = ${migration.version}`)
         }
+        if (foreignKeysOff) {
+          const violations = this.database.query<Row, []>('PRAGMA foreign_key_check').all()
+          if (violations.length)
+            throw new Error(`${violations.length} rows reference missing parents, first in ${violations[0].table}.`)
+        }
       })
       apply.exclusive()
       if (backupPath)
@@ -393,6 +470,8 @@ export class ControlPlaneStore {
       throw new Error(
         `Control-plane migration from schema ${current} failed.${restore} ${error instanceof Error ? error.message : String(error)}`,
       )
+    } finally {
+      if (foreignKeysOff) this.database.run('PRAGMA foreign_keys = ON')
     }
   }
 
@@ -796,6 +875,25 @@ export class ControlPlaneStore {
     return this.getMembership(id)!
   }
 
+  /** Reactivate a revoked membership with the role, scope and grants it had. */
+  restoreMembership(id: string, actorId?: string): OrganizationMembership {
+    const current = this.getMembership(id)
+    if (!current) throw new Error('Membership was not found')
+    if (current.status === 'active') return current
+    run(
+      this.database,
+      `UPDATE organization_memberships SET status = 'active', session_version = session_version + 1, updated_at = ? WHERE id = ?`,
+      [this.now(), id],
+    )
+    this.appendEvent({
+      organizationId: current.organizationId,
+      actorId,
+      type: 'organization.membership.restored',
+      payload: { membershipId: id },
+    })
+    return this.getMembership(id)!
+  }
+
   touchMembership(id: string): OrganizationMembership {
     const now = this.now()
     run(
@@ -984,12 +1082,35 @@ export class ControlPlaneStore {
         'SELECT * FROM authorization_grants WHERE membership_id = ? AND effect = ? AND capability = ? AND scope_type = ? AND scope_id IS ?',
       )
       .get(input.membershipId, input.effect, input.capability, scope.type, scope.id ?? null)
-    if (existing) return mapGrant(existing)
+    if (existing) {
+      // Granting by hand what a role or SCIM group already grants takes the
+      // grant over, so it outlives the role or group membership. Any lasting
+      // grant takes over a time-boxed one, and a second approved request
+      // moves the expiry of a time-boxed one.
+      const grant = mapGrant(existing)
+      const source = input.source ?? 'manual'
+      if (grant.source === 'access-request' && source === 'access-request') {
+        run(
+          this.database,
+          'UPDATE authorization_grants SET expires_at = ?, access_request_id = ?, updated_at = ? WHERE id = ?',
+          [input.expiresAt ?? null, input.accessRequestId ?? null, now, grant.id],
+        )
+        return this.getGrant(grant.id)!
+      }
+      const takeOver = grant.source === 'access-request' || (source === 'manual' && ['role', 'scim'].includes(grant.source))
+      if (!takeOver) return grant
+      run(
+        this.database,
+        'UPDATE authorization_grants SET source = ?, expires_at = NULL, access_request_id = NULL, updated_at = ? WHERE id = ?',
+        [source, now, grant.id],
+      )
+      return this.getGrant(grant.id)!
+    }
     const id = input.id ?? this.idFn()
     run(
       this.database,
-      `INSERT INTO authorization_grants (id, organization_id, membership_id, effect, capability, scope_type, scope_id, source, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO authorization_grants (id, organization_id, membership_id, effect, capability, scope_type, scope_id, source, expires_at, access_request_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         input.organizationId,
@@ -999,6 +1120,8 @@ export class ControlPlaneStore {
         scope.type,
         scope.id ?? null,
         input.source ?? 'manual',
+        input.expiresAt ?? null,
+        input.accessRequestId ?? null,
         now,
         now,
       ],
@@ -1018,6 +1141,7 @@ export class ControlPlaneStore {
         effect: input.effect,
         capability: input.capability,
         scope: scopePayload(scope),
+        ...(input.expiresAt ? { expiresAt: input.expiresAt, accessRequestId: input.accessRequestId ?? null } : {}),
       },
     })
     return this.getGrant(id)!
@@ -1028,12 +1152,14 @@ export class ControlPlaneStore {
     return row ? mapGrant(row) : undefined
   }
 
+  /** A membership's grants, leaving out time-boxed ones that have run out. */
   listGrants(membershipId: string): AuthorizationGrant[] {
     return this.database
-      .query<Row, [string]>(
-        'SELECT * FROM authorization_grants WHERE membership_id = ? ORDER BY effect DESC, capability, scope_type, scope_id',
+      .query<Row, [string, string]>(
+        `SELECT * FROM authorization_grants WHERE membership_id = ? AND (expires_at IS NULL OR expires_at > ?)
+        ORDER BY effect DESC, capability, scope_type, scope_id`,
       )
-      .all(membershipId)
+      .all(membershipId, this.now())
       .map(mapGrant)
   }
 
@@ -1057,6 +1183,359 @@ export class ControlPlaneStore {
     return removed
   }
 
+  /**
+   * Create a custom role, or save a new version of an existing one. Saving the
+   * rules, name and description it already has changes nothing. Every
+   * membership holding the role has its grants brought in line with the new
+   * rules in the same transaction.
+   */
+  saveCustomRole(input: SaveCustomRoleInput): CustomRole {
+    const slug = input.slug.trim().toLowerCase()
+    if (!/^[a-z0-9][a-z0-9-]{1,47}$/.test(slug))
+      throw new Error('Role slug must be 2-48 lowercase letters, numbers or dashes')
+    if (ROLE_TEMPLATES.has(slug)) throw new Error(`'${slug}' is a built-in role template`)
+    const rules = this.customRoleRules(input.rules)
+    return this.transaction(() => {
+      const current = this.getCustomRoleBySlug(input.organizationId, slug)
+      if (input.expectedVersion !== undefined && input.expectedVersion !== (current?.version ?? 0))
+        throw new OptimisticConcurrencyError('Custom role', current?.id ?? slug, input.expectedVersion)
+      const name = (input.name ?? current?.name ?? '').trim().slice(0, 100)
+      if (!name) throw new Error('Custom roles require a name')
+      const description =
+        input.description === undefined ? current?.description : input.description.trim().slice(0, 500) || undefined
+      if (
+        current &&
+        current.name === name &&
+        current.description === description &&
+        JSON.stringify(current.rules) === JSON.stringify(rules)
+      )
+        return current
+      if (!this.getOrganization(input.organizationId)) throw new Error('Organization was not found')
+      const id = current?.id ?? this.idFn()
+      const version = (current?.version ?? 0) + 1
+      const now = this.now()
+      if (current)
+        run(
+          this.database,
+          'UPDATE organization_roles SET name = ?, description = ?, version = ?, updated_at = ? WHERE id = ?',
+          [name, description ?? null, version, now, id],
+        )
+      else
+        run(
+          this.database,
+          `INSERT INTO organization_roles (id, organization_id, slug, name, description, version, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [id, input.organizationId, slug, name, description ?? null, version, now, now],
+        )
+      run(
+        this.database,
+        `INSERT INTO organization_role_versions (role_id, version, name, description, rules, created_by_actor_id, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [id, version, name, description ?? null, json(rules), input.actorId ?? null, now],
+      )
+      this.appendEvent({
+        organizationId: input.organizationId,
+        actorId: input.actorId,
+        type: current ? 'organization.role.updated' : 'organization.role.created',
+        payload: { roleId: id, slug, version, rules: rules as unknown as JsonValue },
+      })
+      for (const membershipId of this.customRoleMemberships(id))
+        this.reconcileCustomRoleGrants(membershipId, input.actorId)
+      return this.getCustomRole(id)!
+    })
+  }
+
+  /**
+   * What saving `input` would do to the access of every membership holding the
+   * role, without saving it.
+   */
+  previewCustomRole(input: SaveCustomRoleInput): CustomRolePreview {
+    const rules = this.customRoleRules(input.rules)
+    const current = this.getCustomRoleBySlug(input.organizationId, input.slug.trim().toLowerCase())
+    if (!current) return { version: 1, rules, changes: [] }
+    const rulesFor = (roleId: string) => (roleId === current.id ? rules : this.getCustomRole(roleId)?.rules ?? [])
+    const changes = this.listCustomRoleAssignments(input.organizationId, { roleId: current.id }).map((assignment) => {
+      const held = this.listCustomRoleAssignments(input.organizationId, { membershipId: assignment.membershipId })
+      const proposed = this.customRoleGrants(held, rulesFor)
+      return this.customRoleAccessChange(assignment.membershipId, assignment.scope, proposed, assignment.id)
+    })
+    const unchanged = JSON.stringify(current.rules) === JSON.stringify(rules)
+    return { current, version: unchanged ? current.version : current.version + 1, rules, changes }
+  }
+
+  getCustomRole(id: string): CustomRole | undefined {
+    const row = this.database
+      .query<Row, [string]>(`${CUSTOM_ROLE_SELECT} WHERE organization_roles.id = ?`)
+      .get(id)
+    return row ? mapCustomRole(row) : undefined
+  }
+
+  getCustomRoleBySlug(organizationId: string, slug: string): CustomRole | undefined {
+    const row = this.database
+      .query<Row, [string, string]>(
+        `${CUSTOM_ROLE_SELECT} WHERE organization_roles.organization_id = ? AND organization_roles.slug = ?`,
+      )
+      .get(organizationId, slug)
+    return row ? mapCustomRole(row) : undefined
+  }
+
+  listCustomRoles(organizationId: string): CustomRole[] {
+    return this.database
+      .query<Row, [string]>(
+        `${CUSTOM_ROLE_SELECT} WHERE organization_roles.organization_id = ? ORDER BY organization_roles.slug`,
+      )
+      .all(organizationId)
+      .map(mapCustomRole)
+  }
+
+  listCustomRoleVersions(roleId: string): CustomRoleVersion[] {
+    return this.database
+      .query<Row, [string]>('SELECT * FROM organization_role_versions WHERE role_id = ? ORDER BY version DESC')
+      .all(roleId)
+      .map(mapCustomRoleVersion)
+  }
+
+  /** Delete a role, its history and its assignments, with the grants they produced. */
+  deleteCustomRole(id: string, actorId?: string): boolean {
+    const role = this.getCustomRole(id)
+    if (!role) return false
+    const tokens = Number(
+      this.database
+        .query<Row, [string, string]>(
+          'SELECT COUNT(*) AS count FROM api_tokens WHERE role_id = ? AND revoked_at IS NULL AND expires_at > ?',
+        )
+        .get(id, this.now())?.count ?? 0,
+    )
+    if (tokens > 0) throw new Error(`Role ${role.slug} is used by ${tokens} active API token(s); revoke them first`)
+    return this.transaction(() => {
+      const memberships = this.customRoleMemberships(id)
+      run(this.database, 'DELETE FROM organization_roles WHERE id = ?', [id])
+      for (const membershipId of memberships) this.reconcileCustomRoleGrants(membershipId, actorId)
+      this.appendEvent({
+        organizationId: role.organizationId,
+        actorId,
+        type: 'organization.role.deleted',
+        payload: { roleId: id, slug: role.slug, version: role.version },
+      })
+      return true
+    })
+  }
+
+  assignCustomRole(input: AssignCustomRoleInput): CustomRoleAssignment {
+    const { role, membership, scope } = this.customRoleAssignmentInput(input)
+    return this.transaction(() => {
+      const existing = this.database
+        .query<Row, [string, string, string, string | null]>(
+          'SELECT * FROM organization_role_assignments WHERE role_id = ? AND membership_id = ? AND scope_type = ? AND scope_id IS ?',
+        )
+        .get(role.id, membership.id, scope.type, scope.id ?? null)
+      if (existing) return mapCustomRoleAssignment(existing)
+      const id = this.idFn()
+      run(
+        this.database,
+        `INSERT INTO organization_role_assignments (id, organization_id, role_id, membership_id, scope_type, scope_id, created_by_actor_id, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          input.organizationId,
+          role.id,
+          membership.id,
+          scope.type,
+          scope.id ?? null,
+          input.actorId ?? null,
+          this.now(),
+        ],
+      )
+      this.appendEvent({
+        organizationId: input.organizationId,
+        actorId: input.actorId,
+        type: 'organization.role.assigned',
+        payload: {
+          assignmentId: id,
+          roleId: role.id,
+          version: role.version,
+          membershipId: membership.id,
+          scope: scopePayload(scope),
+        },
+      })
+      this.reconcileCustomRoleGrants(membership.id, input.actorId)
+      return this.getCustomRoleAssignment(id)!
+    })
+  }
+
+  /** What assigning the role would add to or take from the membership at that scope. */
+  previewCustomRoleAssignment(input: AssignCustomRoleInput): CustomRoleAccessChange {
+    const { role, membership, scope } = this.customRoleAssignmentInput(input)
+    const held = this.listCustomRoleAssignments(input.organizationId, { membershipId: membership.id })
+    const proposed = this.customRoleGrants([...held, { roleId: role.id, scope }], (roleId) =>
+      roleId === role.id ? role.rules : (this.getCustomRole(roleId)?.rules ?? []),
+    )
+    return this.customRoleAccessChange(membership.id, scope, proposed)
+  }
+
+  getCustomRoleAssignment(id: string): CustomRoleAssignment | undefined {
+    const row = this.database
+      .query<Row, [string]>('SELECT * FROM organization_role_assignments WHERE id = ?')
+      .get(id)
+    return row ? mapCustomRoleAssignment(row) : undefined
+  }
+
+  listCustomRoleAssignments(
+    organizationId: string,
+    filter: { roleId?: string; membershipId?: string } = {},
+  ): CustomRoleAssignment[] {
+    const filters = ['organization_id = ?']
+    const bindings: SQLQueryBindings[] = [organizationId]
+    if (filter.roleId) {
+      filters.push('role_id = ?')
+      bindings.push(filter.roleId)
+    }
+    if (filter.membershipId) {
+      filters.push('membership_id = ?')
+      bindings.push(filter.membershipId)
+    }
+    return this.database
+      .query<Row, SQLQueryBindings[]>(
+        `SELECT * FROM organization_role_assignments WHERE ${filters.join(' AND ')} ORDER BY created_at, id`,
+      )
+      .all(...bindings)
+      .map(mapCustomRoleAssignment)
+  }
+
+  unassignCustomRole(id: string, actorId?: string): boolean {
+    const assignment = this.getCustomRoleAssignment(id)
+    if (!assignment) return false
+    return this.transaction(() => {
+      run(this.database, 'DELETE FROM organization_role_assignments WHERE id = ?', [id])
+      this.appendEvent({
+        organizationId: assignment.organizationId,
+        actorId,
+        type: 'organization.role.unassigned',
+        payload: { assignmentId: id, roleId: assignment.roleId, membershipId: assignment.membershipId },
+      })
+      this.reconcileCustomRoleGrants(assignment.membershipId, actorId)
+      return true
+    })
+  }
+
+  private customRoleRules(input: readonly CustomRoleRule[]): CustomRoleRule[] {
+    const rules = new Map<string, CustomRoleRule>()
+    for (const rule of input) {
+      if (rule.effect !== 'allow' && rule.effect !== 'deny') throw new Error('Role rules must allow or deny')
+      if (!AUTHORIZATION_CAPABILITIES.includes(rule.capability))
+        throw new Error(`Unknown authorization capability '${rule.capability}'`)
+      const other = rules.get(`${rule.effect === 'allow' ? 'deny' : 'allow'}|${rule.capability}`)
+      if (other) throw new Error(`Role rules both allow and deny ${rule.capability}`)
+      rules.set(`${rule.effect}|${rule.capability}`, { effect: rule.effect, capability: rule.capability })
+    }
+    if (rules.size === 0) throw new Error('Custom roles require at least one rule')
+    const order = (rule: CustomRoleRule) => AUTHORIZATION_CAPABILITIES.indexOf(rule.capability)
+    return [...rules.values()].sort((left, right) => order(left) - order(right))
+  }
+
+  private customRoleAssignmentInput(input: AssignCustomRoleInput): {
+    role: CustomRole
+    membership: OrganizationMembership
+    scope: AuthorizationScope
+  } {
+    const role = this.getCustomRole(input.roleId)
+    if (!role || role.organizationId !== input.organizationId)
+      throw new Error('Custom role was not found in this organization')
+    const membership = this.getMembership(input.membershipId)
+    if (!membership || membership.organizationId !== input.organizationId)
+      throw new Error('Membership was not found in this organization')
+    if (membership.status !== 'active') throw new Error('Custom roles can only be assigned to active memberships')
+    return { role, membership, scope: this.normalizeAuthorizationScope(input.organizationId, input.scope) }
+  }
+
+  private customRoleMemberships(roleId: string): string[] {
+    return this.database
+      .query<Row, [string]>('SELECT DISTINCT membership_id FROM organization_role_assignments WHERE role_id = ?')
+      .all(roleId)
+      .map((row) => String(row.membership_id))
+  }
+
+  /** The grants a membership's role assignments call for, keyed by what makes a grant unique. */
+  private customRoleGrants(
+    assignments: ReadonlyArray<Pick<CustomRoleAssignment, 'roleId' | 'scope'>>,
+    rulesFor: (roleId: string) => readonly CustomRoleRule[],
+  ): Map<string, RoleGrant> {
+    const grants = new Map<string, RoleGrant>()
+    for (const assignment of assignments)
+      for (const rule of rulesFor(assignment.roleId)) {
+        const grant = { effect: rule.effect, capability: rule.capability, scope: assignment.scope }
+        grants.set(roleGrantKey(grant), grant)
+      }
+    return grants
+  }
+
+  /**
+   * Compare a membership's effective capabilities at `scope` now with what
+   * they would be if its role grants were `proposed`.
+   */
+  private customRoleAccessChange(
+    membershipId: string,
+    scope: AuthorizationScope,
+    proposed: ReadonlyMap<string, RoleGrant>,
+    assignmentId?: string,
+  ): CustomRoleAccessChange {
+    const membership = this.getMembership(membershipId)!
+    const target = this.resolveAuthorizationTarget(membership.organizationId, scope)!
+    const grants = this.listGrants(membershipId)
+    const kept = grants.filter((grant) => grant.source !== 'role')
+    const keys = new Set(kept.map(roleGrantKey))
+    const simulated = [
+      ...kept,
+      ...[...proposed]
+        .filter(([key]) => !keys.has(key))
+        .map(([key, grant]) => ({
+          ...grant,
+          id: `preview:${key}`,
+          organizationId: membership.organizationId,
+          membershipId,
+          source: 'role' as const,
+          createdAt: '',
+          updatedAt: '',
+        })),
+    ]
+    const before = effectiveCapabilities({ membership, grants, target, at: this.now() })
+    const after = effectiveCapabilities({ membership, grants: simulated, target, at: this.now() })
+    return {
+      membershipId,
+      assignmentId,
+      scope,
+      gained: after.filter((capability) => !before.includes(capability)),
+      lost: before.filter((capability) => !after.includes(capability)),
+    }
+  }
+
+  /**
+   * Bring a membership's `role` grants in line with the roles it holds. A grant
+   * that already exists from another source is left as it is.
+   */
+  private reconcileCustomRoleGrants(membershipId: string, actorId?: string): void {
+    const membership = this.getMembership(membershipId)
+    if (!membership) return
+    const desired = this.customRoleGrants(
+      this.listCustomRoleAssignments(membership.organizationId, { membershipId }),
+      (roleId) => this.getCustomRole(roleId)?.rules ?? [],
+    )
+    const existing = this.listGrants(membershipId)
+    for (const grant of existing)
+      if (grant.source === 'role' && !desired.has(roleGrantKey(grant))) this.removeGrant(grant.id, actorId)
+    const current = new Set(existing.map(roleGrantKey))
+    for (const [key, grant] of desired) {
+      if (current.has(key)) continue
+      this.upsertGrant({
+        organizationId: membership.organizationId,
+        membershipId,
+        ...grant,
+        source: 'role',
+        actorId,
+      })
+    }
+  }
+
   createOperation(input: CreateOperationInput): ControlPlaneOperation {
     if (input.idempotencyKey) {
       const existing = this.database
@@ -1606,6 +2085,18 @@ export class ControlPlaneStore {
         .all()
         .map((row) => ({ ...mapInvitation(row, this.now()), tokenHash: String(row.token_hash) })),
       grants: this.database.query<Row, []>('SELECT * FROM authorization_grants ORDER BY id').all().map(mapGrant),
+      roles: this.database
+        .query<Row, []>(`${CUSTOM_ROLE_SELECT} ORDER BY organization_roles.id`)
+        .all()
+        .map(mapCustomRole),
+      roleVersions: this.database
+        .query<Row, []>('SELECT * FROM organization_role_versions ORDER BY role_id, version')
+        .all()
+        .map(mapCustomRoleVersion),
+      roleAssignments: this.database
+        .query<Row, []>('SELECT * FROM organization_role_assignments ORDER BY id')
+        .all()
+        .map(mapCustomRoleAssignment),
       projects: this.database.query<Row, []>('SELECT * FROM projects ORDER BY id').all().map(mapProject),
       environments: this.database.query<Row, []>('SELECT * FROM environments ORDER BY id').all().map(mapEnvironment),
       resources: this.database.query<Row, []>('SELECT * FROM resources ORDER BY id').all().map(mapResource),
@@ -1643,6 +2134,9 @@ export class ControlPlaneStore {
         throw new Error('Control plane is not empty; pass replace: true to import this snapshot')
       if (options.replace) {
         this.database.run('DELETE FROM authorization_grants')
+        this.database.run('DELETE FROM organization_role_assignments')
+        this.database.run('DELETE FROM organization_role_versions')
+        this.database.run('DELETE FROM organization_roles')
         this.database.run('DELETE FROM organization_invitations')
         this.database.run('DELETE FROM organization_memberships')
         this.database.run('DELETE FROM resource_tags')
@@ -1794,8 +2288,8 @@ export class ControlPlaneStore {
       for (const item of snapshot.grants ?? []) {
         run(
           this.database,
-          `INSERT INTO authorization_grants (id, organization_id, membership_id, effect, capability, scope_type, scope_id, source, created_at, updated_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          `INSERT INTO authorization_grants (id, organization_id, membership_id, effect, capability, scope_type, scope_id, source, expires_at, access_request_id, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           [
             item.id,
             item.organizationId,
@@ -1805,11 +2299,63 @@ export class ControlPlaneStore {
             item.scope.type,
             item.scope.id ?? null,
             item.source ?? 'manual',
+            item.expiresAt ?? null,
+            item.accessRequestId ?? null,
             item.createdAt,
             item.updatedAt,
           ],
         )
       }
+      for (const item of snapshot.roles ?? []) {
+        run(
+          this.database,
+          `INSERT INTO organization_roles (id, organization_id, slug, name, description, version, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            item.id,
+            item.organizationId,
+            item.slug,
+            item.name,
+            item.description ?? null,
+            item.version,
+            item.createdAt,
+            item.updatedAt,
+          ],
+        )
+      }
+      for (const item of snapshot.roleVersions ?? []) {
+        run(
+          this.database,
+          `INSERT INTO organization_role_versions (role_id, version, name, description, rules, created_by_actor_id, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            item.roleId,
+            item.version,
+            item.name,
+            item.description ?? null,
+            json(item.rules),
+            item.createdByActorId ?? null,
+            item.createdAt,
+          ],
+        )
+      }
+      for (const item of snapshot.roleAssignments ?? []) {
+        run(
+          this.database,
+          `INSERT INTO organization_role_assignments (id, organization_id, role_id, membership_id, scope_type, scope_id, created_by_actor_id, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            item.id,
+            item.organizationId,
+            item.roleId,
+            item.membershipId,
+            item.scope.type,
+            item.scope.id ?? null,
+            item.createdByActorId ?? null,
+            item.createdAt,
+          ],
+        )
+      }
       for (const item of snapshot.operations) {
         run(
           this.database,
@@ -9,7 +9,7 @@ export type TerminalOperationState = Extract<OperationState, 'succeeded' | 'fail
 export type OrganizationRoleTemplate = 'owner' | 'admin' | 'deployer' | 'operator' | 'viewer' | 'auditor'
 export type AuthorizationScopeType = 'organization' | 'project' | 'environment' | 'resource'
 export type AuthorizationEffect = 'allow' | 'deny'
-export type AuthorizationRecordSource = 'manual' | 'legacy' | 'invitation'
+export type AuthorizationRecordSource = 'manual' | 'legacy' | 'invitation' | 'scim' | 'role' | 'access-request'
 export type AuthorizationCapability =
   | 'project:read'
   | 'config:read'
@@ -22,6 +22,7 @@ export type AuthorizationCapability =
   | 'runtime:restart'
   | 'runtime:logs'
   | 'runtime:terminal'
+  | 'telemetry:write'
   | 'data:read'
   | 'data:write'
   | 'data:admin'
@@ -109,10 +110,75 @@ export interface AuthorizationGrant {
   capability: AuthorizationCapability
   scope: AuthorizationScope
   source: AuthorizationRecordSource
+  /** When a time-boxed grant stops counting. Only grants from access requests expire. */
+  expiresAt?: string
+  /** The approved access request a time-boxed grant came from. */
+  accessRequestId?: ControlPlaneId
   createdAt: string
   updatedAt: string
 }
 
+/** One capability a custom role allows or denies wherever it is assigned. */
+export interface CustomRoleRule {
+  effect: AuthorizationEffect
+  capability: AuthorizationCapability
+}
+
+export interface CustomRole {
+  id: ControlPlaneId
+  organizationId: ControlPlaneId
+  slug: string
+  name: string
+  description?: string
+  /** The current version; every save that changes the role adds one. */
+  version: number
+  rules: CustomRoleRule[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CustomRoleVersion {
+  roleId: ControlPlaneId
+  version: number
+  name: string
+  description?: string
+  rules: CustomRoleRule[]
+  createdByActorId?: ControlPlaneId
+  createdAt: string
+}
+
+/**
+ * A custom role held by a membership at a scope. Its rules are kept in the
+ * membership's grants with the `role` source, so every authorization check
+ * sees them without knowing about roles.
+ */
+export interface CustomRoleAssignment {
+  id: ControlPlaneId
+  organizationId: ControlPlaneId
+  roleId: ControlPlaneId
+  membershipId: ControlPlaneId
+  scope: AuthorizationScope
+  createdByActorId?: ControlPlaneId
+  createdAt: string
+}
+
+/** How one assignment's effective capabilities at its scope would change. */
+export interface CustomRoleAccessChange {
+  membershipId: ControlPlaneId
+  assignmentId?: ControlPlaneId
+  scope: AuthorizationScope
+  gained: AuthorizationCapability[]
+  lost: AuthorizationCapability[]
+}
+
+export interface CustomRolePreview {
+  /** The saved role, absent when the preview is for a new one. */
+  current?: CustomRole
+  version: number
+  rules: CustomRoleRule[]
+  changes: CustomRoleAccessChange[]
+}
+
 export interface ControlPlaneProject {
   id: ControlPlaneId
   slug: string
@@ -350,6 +416,9 @@ export interface ControlPlaneSnapshot {
   memberships: OrganizationMembership[]
   invitations: OrganizationInvitation[]
   grants: AuthorizationGrant[]
+  roles: CustomRole[]
+  roleVersions: CustomRoleVersion[]
+  roleAssignments: CustomRoleAssignment[]
   projects: ControlPlaneProject[]
   environments: ControlPlaneEnvironment[]
   resources: ControlPlaneResource[]
@@ -397,6 +466,28 @@ export interface CreateGrantInput {
   capability: AuthorizationCapability
   scope?: AuthorizationScope
   source?: AuthorizationRecordSource
+  expiresAt?: string
+  accessRequestId?: ControlPlaneId
+  actorId?: ControlPlaneId
+}
+
+export interface SaveCustomRoleInput {
+  organizationId: ControlPlaneId
+  slug: string
+  /** Required for a new role; an update keeps the current name when omitted. */
+  name?: string
+  description?: string
+  rules: CustomRoleRule[]
+  /** Refuse the save unless the role is still at this version (0 for a new role). */
+  expectedVersion?: number
+  actorId?: ControlPlaneId
+}
+
+export interface AssignCustomRoleInput {
+  organizationId: ControlPlaneId
+  roleId: ControlPlaneId
+  membershipId: ControlPlaneId
+  scope?: AuthorizationScope
   actorId?: ControlPlaneId
 }
 
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'bun:test'
+import { analyzeStackDiff } from '@ts-cloud/core'
+import type { CostTemplate } from './estimate'
+import { estimateStackDiffCost, estimateTemplateCost } from './estimate'
+
+function template(resources: NonNullable<CostTemplate['Resources']>, parameters?: CostTemplate['Parameters']) {
+  return { Parameters: parameters, Resources: resources } as any
+}
+
+function costs(estimate: ReturnType<typeof estimateTemplateCost>): Record<string, number> {
+  return Object.fromEntries(estimate.resources.map((resource) => [resource.logicalId, resource.monthlyCents]))
+}
+
+const stack = template(
+  {
+    Web: {
+      Type: 'AWS::EC2::Instance',
+      Properties: {
+        InstanceType: { Ref: 'InstanceType' },
+        BlockDeviceMappings: [{ DeviceName: '/dev/xvda', Ebs: { VolumeSize: 20, VolumeType: 'gp3' } }],
+      },
+    },
+    WorkerTemplate: {
+      Type: 'AWS::EC2::LaunchTemplate',
+      Properties: { LaunchTemplateData: { InstanceType: 't3.micro' } },
+    },
+    Workers: {
+      Type: 'AWS::AutoScaling::AutoScalingGroup',
+      Properties: {
+        MinSize: '1',
+        DesiredCapacity: '3',
+        LaunchTemplate: { LaunchTemplateId: { Ref: 'WorkerTemplate' } },
+      },
+    },
+    ApiTask: {
+      Type: 'AWS::ECS::TaskDefinition',
+      Properties: { Cpu: '512', Memory: '1024', RuntimePlatform: { CpuArchitecture: 'ARM64' } },
+    },
+    Api: {
+      Type: 'AWS::ECS::Service',
+      Properties: { LaunchType: 'FARGATE', DesiredCount: 2, TaskDefinition: { Ref: 'ApiTask' } },
+    },
+    Resize: { Type: 'AWS::Lambda::Function', Properties: { MemorySize: 512, Architectures: ['arm64'] } },
+    Database: {
+      Type: 'AWS::RDS::DBInstance',
+      Properties: { DBInstanceClass: 'db.t4g.medium', MultiAZ: true, AllocatedStorage: '50', StorageType: 'gp3' },
+    },
+    Cache: {
+      Type: 'AWS::ElastiCache::CacheCluster',
+      Properties: { CacheNodeType: 'cache.t4g.small', NumCacheNodes: 2 },
+    },
+    Nat: { Type: 'AWS::EC2::NatGateway', Properties: {} },
+    Cdn: { Type: 'AWS::CloudFront::Distribution', Properties: {} },
+    Assets: { Type: 'AWS::S3::Bucket', Properties: {} },
+    Vpc: { Type: 'AWS::EC2::VPC', Properties: {} },
+  },
+  { InstanceType: { Default: 't3.small' } },
+)
+
+describe('estimateTemplateCost', () => {
+  it('prices provisioned capacity from template properties', () => {
+    const estimate = estimateTemplateCost(stack)
+    expect(costs(estimate)).toMatchObject({
+      // 730 h x $0.0208 + 20 GB x $0.08
+      Web: 1678,
+      // 3 x 730 h x $0.0104
+      Workers: 2278,
+      // 2 tasks x 730 h x (0.5 vCPU x $0.03238 + 1 GB x $0.00356)
+      Api: 2884,
+      // 2 x 730 h x $0.065 + 2 x 50 GB x $0.115
+      Database: 10640,
+      // 2 x 730 h x $0.032
+      Cache: 4672,
+    })
+    expect(estimate.resources.find((resource) => resource.logicalId === 'Database')?.basis).toBe(
+      'db.t4g.medium Multi-AZ, 50 GB gp3',
+    )
+    expect(estimate.resources.map((resource) => resource.logicalId)).not.toContain('Vpc')
+    expect(estimate.monthlyCents).toBe(estimate.resources.reduce((sum, resource) => sum + resource.monthlyCents, 0))
+  })
+
+  it('prices usage-based resources from the usage assumptions', () => {
+    const estimate = estimateTemplateCost(stack, { usage: { functionInvocations: 10_000_000, cdnEgressGb: 1000 } })
+    const resize = estimate.resources.find((resource) => resource.logicalId === 'Resize')!
+    expect(resize.usageBased).toBe(true)
+    // 10M x $0.0000002 + 10M x 0.2 s x 0.5 GB x $0.0000133334
+    expect(resize.monthlyCents).toBe(1533)
+    expect(costs(estimate)).toMatchObject({
+      // 730 h x $0.045 + 100 GB x $0.045
+      Nat: 3735,
+      // 1000 GB x $0.085 + 10M x $0.000001
+      Cdn: 9500,
+    })
+    expect(estimate.resources.find((resource) => resource.logicalId === 'Web')?.usageBased).toBe(false)
+  })
+
+  it('prices Aurora Serverless at the cluster minimum capacity and storage', () => {
+    const estimate = estimateTemplateCost(
+      template({
+        Cluster: {
+          Type: 'AWS::RDS::DBCluster',
+          Properties: { Engine: 'aurora-postgresql', ServerlessV2ScalingConfiguration: { MinCapacity: 1 } },
+        },
+        Writer: {
+          Type: 'AWS::RDS::DBInstance',
+          Properties: { DBInstanceClass: 'db.serverless', DBClusterIdentifier: { Ref: 'Cluster' } },
+        },
+      }),
+    )
+    // 730 h x 1 ACU x $0.12, and 20 GB x $0.10 on the cluster
+    expect(costs(estimate)).toEqual({ Cluster: 200, Writer: 8760 })
+  })
+
+  it('reports resources it cannot price instead of guessing', () => {
+    const estimate = estimateTemplateCost(
+      template({
+        Gpu: { Type: 'AWS::EC2::Instance', Properties: { InstanceType: 'p5.48xlarge' } },
+        Sized: { Type: 'AWS::EC2::Instance', Properties: { InstanceType: { Ref: 'NoDefault' } } },
+      }),
+    )
+    expect(estimate.monthlyCents).toBe(0)
+    expect(estimate.resources.map((resource) => [resource.logicalId, resource.unpriced])).toEqual([
+      ['Gpu', 'catalog 2026-10 has no price for p5.48xlarge'],
+      ['Sized', 'InstanceType is not known before deploy'],
+    ])
+  })
+})
+
+describe('estimateStackDiffCost', () => {
+  it('prices what a deploy adds, removes and resizes', () => {
+    const before = template({
+      Web: { Type: 'AWS::EC2::Instance', Properties: { InstanceType: 't3.small' } },
+      Worker: { Type: 'AWS::EC2::Instance', Properties: { InstanceType: 't3.micro' } },
+      Cache: { Type: 'AWS::ElastiCache::CacheCluster', Properties: { CacheNodeType: 'cache.t4g.small' } },
+      Assets: { Type: 'AWS::S3::Bucket', Properties: { Tags: [] } },
+    })
+    const after = template({
+      Web: { Type: 'AWS::EC2::Instance', Properties: { InstanceType: 't3.small' } },
+      Cache: { Type: 'AWS::ElastiCache::CacheCluster', Properties: { CacheNodeType: 'cache.t4g.medium' } },
+      Assets: { Type: 'AWS::S3::Bucket', Properties: { Tags: [{ Key: 'team', Value: 'web' }] } },
+      Nat: { Type: 'AWS::EC2::NatGateway', Properties: {} },
+    })
+
+    const estimate = estimateStackDiffCost(analyzeStackDiff(before, after), before, after)
+    expect(estimate.resources.map(({ logicalId, action, deltaCents }) => [logicalId, action, deltaCents])).toEqual([
+      ['Nat', 'add', 3735],
+      ['Cache', 'replace', 2409],
+      ['Worker', 'remove', -759],
+    ])
+    expect(estimate.monthlyDeltaCents).toBe(3735 + 2409 - 759)
+    expect(estimate.monthlyCents).toBe(estimateTemplateCost(after).monthlyCents)
+    expect(estimate.catalogVersion).toBe('2026-10')
+  })
+
+  it('prices a new stack in full', () => {
+    const empty = { Resources: {} }
+    const estimate = estimateStackDiffCost(analyzeStackDiff(empty, stack), empty, stack)
+    expect(estimate.monthlyDeltaCents).toBe(estimate.monthlyCents)
+    expect(estimate.resources.every((resource) => resource.action === 'add')).toBe(true)
+  })
+})
@@ -0,0 +1,434 @@
+/**
+ * Estimated monthly cost of a template, and of the change a deploy makes to it.
+ *
+ * Cost reporting only sees spend after it happened. This prices a template
+ * before it is deployed: provisioned capacity (instances, tasks, database and
+ * cache nodes, NAT gateways) from its properties, and usage-priced resources
+ * (functions, distributions, buckets) from stated usage assumptions, so the
+ * number is a forecast and says which parts of it are guesses.
+ */
+import type { ResourceDiff, StackDiff } from '@ts-cloud/core'
+import type { PricedUsage, UsageLine } from '../spend/pricing'
+import type { PriceCatalog } from './price-catalog'
+import { priceUsageLines } from '../spend/pricing'
+import { AWS_PRICE_CATALOG } from './price-catalog'
+
+export const HOURS_PER_MONTH = 730
+
+export interface CostTemplate {
+  Parameters?: Record<string, { Default?: unknown }>
+  Resources?: Record<string, { Type: string; Properties?: Record<string, any> }>
+}
+
+/** Monthly usage assumed for each usage-priced resource. */
+export interface CostUsageAssumptions {
+  functionInvocations: number
+  functionDurationMs: number
+  cdnEgressGb: number
+  cdnRequests: number
+  bucketStorageGb: number
+  bucketRequests: number
+  natProcessedGb: number
+  auroraStorageGb: number
+}
+
+export const DEFAULT_USAGE_ASSUMPTIONS: CostUsageAssumptions = {
+  functionInvocations: 1_000_000,
+  functionDurationMs: 200,
+  cdnEgressGb: 100,
+  cdnRequests: 10_000_000,
+  bucketStorageGb: 10,
+  bucketRequests: 1_000_000,
+  natProcessedGb: 100,
+  auroraStorageGb: 20,
+}
+
+export interface CostEstimateOptions {
+  catalog?: PriceCatalog
+  usage?: Partial<CostUsageAssumptions>
+}
+
+export interface ResourceCostEstimate {
+  logicalId: string
+  resourceType: string
+  monthlyCents: number
+  /** What was priced, e.g. `2 x t3.small, 20 GB gp3`. */
+  basis: string
+  /** Part of the figure comes from usage assumptions rather than provisioned capacity. */
+  usageBased: boolean
+  lines: PricedUsage[]
+  /** Set when the resource is of a priced type but its price could not be worked out. */
+  unpriced?: string
+}
+
+export interface TemplateCostEstimate {
+  catalogVersion: string
+  currency: string
+  monthlyCents: number
+  /** Resources of priced types. Other resource types are assumed to cost nothing on their own. */
+  resources: ResourceCostEstimate[]
+}
+
+export interface ResourceCostDelta {
+  logicalId: string
+  resourceType: string
+  action: ResourceDiff['action']
+  beforeCents: number
+  afterCents: number
+  deltaCents: number
+  basis: string
+  usageBased: boolean
+  unpriced?: string
+}
+
+export interface StackCostEstimate {
+  catalogVersion: string
+  /** Region the catalog prices are from, whatever region the stack deploys to. */
+  catalogRegion: string
+  currency: string
+  /** Estimated monthly cost of the new template. */
+  monthlyCents: number
+  /** Estimated change in monthly cost, the sum of `resources[].deltaCents`. */
+  monthlyDeltaCents: number
+  resources: ResourceCostDelta[]
+  usage: CostUsageAssumptions
+}
+
+interface Usage {
+  lines: UsageLine[]
+  basis: string[]
+  usageBased?: boolean
+}
+
+class Unpriced extends Error {}
+
+type Properties = Record<string, any>
+
+/** A literal, or a `Ref` to a parameter with a default. Anything else is only known at deploy time. */
+function literal(value: unknown, template: CostTemplate): unknown {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return value
+  const ref = (value as { Ref?: unknown }).Ref
+  if (typeof ref === 'string' && Object.keys(value).length === 1) return template.Parameters?.[ref]?.Default
+  return undefined
+}
+
+function text(value: unknown, template: CostTemplate, property: string): string {
+  const resolved = literal(value, template)
+  if (resolved === undefined || resolved === null) throw new Unpriced(`${property} is not known before deploy`)
+  return String(resolved)
+}
+
+function count(value: unknown, template: CostTemplate, fallback: number): number {
+  const resolved = value === undefined ? fallback : Number(literal(value, template))
+  return Number.isFinite(resolved) && resolved >= 0 ? resolved : fallback
+}
+
+/** The resource a `Ref` or `Fn::GetAtt` points at. */
+function referenced(value: unknown, template: CostTemplate): { Type: string; Properties?: Properties } | undefined {
+  if (!value || typeof value !== 'object') return undefined
+  const target = (value as any).Ref ?? (value as any)['Fn::GetAtt']?.[0]
+  return typeof target === 'string' ? template.Resources?.[target] : undefined
+}
+
+function hours(meter: string, quantity: number): UsageLine {
+  return { meter, quantity: quantity * HOURS_PER_MONTH, provider: 'aws' }
+}
+
+function blockStorage(mappings: unknown, template: CostTemplate, instances: number): Usage {
+  const usage: Usage = { lines: [], basis: [] }
+  for (const mapping of Array.isArray(mappings) ? mappings : []) {
+    if (!mapping?.Ebs) continue
+    const size = count(mapping.Ebs.VolumeSize, template, 8)
+    const type = String(literal(mapping.Ebs.VolumeType, template) ?? 'gp3')
+    usage.lines.push({ meter: `block.storage_gb_months:${type}`, quantity: size * instances, provider: 'aws' })
+    usage.basis.push(`${size} GB ${type}`)
+  }
+  return usage
+}
+
+function instances(instanceType: string, quantity: number, mappings: unknown, template: CostTemplate): Usage {
+  const storage = blockStorage(mappings, template, quantity)
+  return {
+    lines: [hours(`compute.instance_hours:${instanceType}`, quantity), ...storage.lines],
+    basis: [`${quantity} x ${instanceType}`, ...storage.basis],
+  }
+}
+
+function autoScalingGroup(properties: Properties, template: CostTemplate): Usage {
+  const quantity = count(properties.DesiredCapacity, template, count(properties.MinSize, template, 1))
+  const launchTemplate = referenced(properties.LaunchTemplate?.LaunchTemplateId, template)
+  const data = launchTemplate?.Properties?.LaunchTemplateData
+  const configuration = data ?? referenced(properties.LaunchConfigurationName, template)?.Properties
+  if (configuration) {
+    const instanceType = text(configuration.InstanceType, template, 'InstanceType')
+    return instances(instanceType, quantity, configuration.BlockDeviceMappings, template)
+  }
+  throw new Unpriced('the launch template is not in this template')
+}
+
+function fargateService(properties: Properties, template: CostTemplate): Usage {
+  const fargate =
+    properties.LaunchType === 'FARGATE' ||
+    (properties.CapacityProviderStrategy ?? []).some((strategy: any) =>
+      String(strategy.CapacityProvider).startsWith('FARGATE'),
+    )
+  // Tasks on EC2 capacity are paid for by the instances, which are priced on their own.
+  if (!fargate) return { lines: [], basis: ['runs on EC2 capacity'] }
+  const task = referenced(properties.TaskDefinition, template)?.Properties
+  if (!task) throw new Unpriced('the task definition is not in this template')
+  const tasks = count(properties.DesiredCount, template, 1)
+  const vcpu = Number(text(task.Cpu, template, 'Cpu')) / 1024
+  const memoryGb = Number(text(task.Memory, template, 'Memory')) / 1024
+  const architecture = task.RuntimePlatform?.CpuArchitecture === 'ARM64' ? 'arm64' : 'x86_64'
+  return {
+    lines: [
+      hours(`container.vcpu_hours:${architecture}`, tasks * vcpu),
+      hours(`container.gb_hours:${architecture}`, tasks * memoryGb),
+    ],
+    basis: [`${tasks} x Fargate task (${vcpu} vCPU, ${memoryGb} GB, ${architecture})`],
+  }
+}
+
+function lambdaFunction(properties: Properties, template: CostTemplate, usage: CostUsageAssumptions): Usage {
+  const memoryMb = count(properties.MemorySize, template, 128)
+  const architecture = (properties.Architectures ?? [])[0] === 'arm64' ? 'arm64' : 'x86_64'
+  const gbSeconds = usage.functionInvocations * (usage.functionDurationMs / 1000) * (memoryMb / 1024)
+  return {
+    lines: [
+      { meter: 'function.invocations', quantity: usage.functionInvocations, provider: 'aws' },
+      { meter: `function.gb_seconds:${architecture}`, quantity: gbSeconds, provider: 'aws' },
+    ],
+    basis: [
+      `${memoryMb} MB ${architecture}`,
+      `${usage.functionInvocations} invocations of ${usage.functionDurationMs} ms`,
+    ],
+    usageBased: true,
+  }
+}
+
+function databaseInstance(properties: Properties, template: CostTemplate): Usage {
+  const instanceClass = text(properties.DBInstanceClass, template, 'DBInstanceClass')
+  const cluster = referenced(properties.DBClusterIdentifier, template)?.Properties
+  const engine = String(literal(properties.Engine ?? cluster?.Engine, template) ?? '')
+  if (engine.startsWith('aurora') || cluster) {
+    // Aurora storage is billed on the cluster, so an instance is only its compute.
+    if (instanceClass === 'db.serverless') {
+      const capacity = count(cluster?.ServerlessV2ScalingConfiguration?.MinCapacity, template, 0.5)
+      return {
+        lines: [hours('database.acu_hours', capacity)],
+        basis: [`Aurora Serverless v2 at ${capacity} ACU minimum`],
+      }
+    }
+    return { lines: [hours(`database.aurora_instance_hours:${instanceClass}`, 1)], basis: [`Aurora ${instanceClass}`] }
+  }
+  const multiAz = literal(properties.MultiAZ, template) === true || literal(properties.MultiAZ, template) === 'true'
+  const copies = multiAz ? 2 : 1
+  const storageGb = count(properties.AllocatedStorage, template, 20)
+  const storageType = String(literal(properties.StorageType, template) ?? 'gp2')
+  return {
+    lines: [
+      hours(`database.instance_hours:${instanceClass}`, copies),
+      { meter: `database.storage_gb_months:${storageType}`, quantity: storageGb * copies, provider: 'aws' },
+    ],
+    basis: [`${instanceClass}${multiAz ? ' Multi-AZ' : ''}`, `${storageGb} GB ${storageType}`],
+  }
+}
+
+function databaseCluster(properties: Properties, template: CostTemplate, usage: CostUsageAssumptions): Usage {
+  const engine = String(literal(properties.Engine, template) ?? '')
+  if (!engine.startsWith('aurora')) return { lines: [], basis: ['billed on its instances'] }
+  return {
+    lines: [{ meter: 'database.storage_gb_months:aurora', quantity: usage.auroraStorageGb, provider: 'aws' }],
+    basis: [`${usage.auroraStorageGb} GB Aurora storage`],
+    usageBased: true,
+  }
+}
+
+function cacheNodes(nodeType: string, nodes: number): Usage {
+  return { lines: [hours(`cache.node_hours:${nodeType}`, nodes)], basis: [`${nodes} x ${nodeType}`] }
+}
+
+function replicationGroup(properties: Properties, template: CostTemplate): Usage {
+  const shards = count(properties.NumNodeGroups, template, 1)
+  const nodes =
+    properties.NumCacheClusters !== undefined
+      ? count(properties.NumCacheClusters, template, 1)
+      : shards * (count(properties.ReplicasPerNodeGroup, template, 0) + 1)
+  return cacheNodes(text(properties.CacheNodeType, template, 'CacheNodeType'), nodes)
+}
+
+function resourceUsage(
+  type: string,
+  properties: Properties,
+  template: CostTemplate,
+  usage: CostUsageAssumptions,
+): Usage | undefined {
+  switch (type) {
+    case 'AWS::EC2::Instance':
+      return instances(
+        text(properties.InstanceType, template, 'InstanceType'),
+        1,
+        properties.BlockDeviceMappings,
+        template,
+      )
+    case 'AWS::AutoScaling::AutoScalingGroup':
+      return autoScalingGroup(properties, template)
+    case 'AWS::ECS::Service':
+      return fargateService(properties, template)
+    case 'AWS::Lambda::Function':
+      return lambdaFunction(properties, template, usage)
+    case 'AWS::RDS::DBInstance':
+      return databaseInstance(properties, template)
+    case 'AWS::RDS::DBCluster':
+      return databaseCluster(properties, template, usage)
+    case 'AWS::ElastiCache::CacheCluster':
+      return cacheNodes(
+        text(properties.CacheNodeType, template, 'CacheNodeType'),
+        count(properties.NumCacheNodes, template, 1),
+      )
+    case 'AWS::ElastiCache::ReplicationGroup':
+      return replicationGroup(properties, template)
+    case 'AWS::EC2::NatGateway':
+      return {
+        lines: [
+          hours('network.nat_hours', 1),
+          { meter: 'network.nat_processed_gb', quantity: usage.natProcessedGb, provider: 'aws' },
+        ],
+        basis: [`1 NAT gateway, ${usage.natProcessedGb} GB processed`],
+        usageBased: true,
+      }
+    case 'AWS::CloudFront::Distribution':
+      return {
+        lines: [
+          { meter: 'edge.egress_gb', quantity: usage.cdnEgressGb, provider: 'aws' },
+          { meter: 'edge.requests', quantity: usage.cdnRequests, provider: 'aws' },
+        ],
+        basis: [`${usage.cdnEgressGb} GB out, ${usage.cdnRequests} requests`],
+        usageBased: true,
+      }
+    case 'AWS::S3::Bucket':
+      return {
+        lines: [
+          { meter: 'object.storage_gb_months', quantity: usage.bucketStorageGb, provider: 'aws' },
+          { meter: 'object.requests', quantity: usage.bucketRequests, provider: 'aws' },
+        ],
+        basis: [`${usage.bucketStorageGb} GB stored, ${usage.bucketRequests} requests`],
+        usageBased: true,
+      }
+  }
+  return undefined
+}
+
+/** Resource types the estimate prices. Every other type is assumed to cost nothing on its own. */
+export const PRICED_RESOURCE_TYPES: string[] = [
+  'AWS::EC2::Instance',
+  'AWS::AutoScaling::AutoScalingGroup',
+  'AWS::ECS::Service',
+  'AWS::Lambda::Function',
+  'AWS::RDS::DBInstance',
+  'AWS::RDS::DBCluster',
+  'AWS::ElastiCache::CacheCluster',
+  'AWS::ElastiCache::ReplicationGroup',
+  'AWS::EC2::NatGateway',
+  'AWS::CloudFront::Distribution',
+  'AWS::S3::Bucket',
+]
+
+function usageAssumptions(options: CostEstimateOptions): CostUsageAssumptions {
+  return { ...DEFAULT_USAGE_ASSUMPTIONS, ...options.usage }
+}
+
+function priceResource(
+  logicalId: string,
+  template: CostTemplate,
+  catalog: PriceCatalog,
+  usage: CostUsageAssumptions,
+): ResourceCostEstimate | undefined {
+  const resource = template.Resources?.[logicalId]
+  if (!resource || !PRICED_RESOURCE_TYPES.includes(resource.Type)) return undefined
+  const base = { logicalId, resourceType: resource.Type, monthlyCents: 0, lines: [], usageBased: false }
+  let found: Usage | undefined
+  try {
+    found = resourceUsage(resource.Type, resource.Properties ?? {}, template, usage)
+  } catch (error) {
+    if (!(error instanceof Unpriced)) throw error
+    return { ...base, basis: '', unpriced: error.message }
+  }
+  if (!found) return undefined
+  const priced = priceUsageLines(catalog.book, found.lines)
+  const basis = found.basis.join(', ')
+  if (priced.unpricedMeters.length) {
+    const skus = priced.unpricedMeters.map((meter) => meter.split(':').pop()).join(', ')
+    return { ...base, basis, unpriced: `catalog ${catalog.version} has no price for ${skus}` }
+  }
+  return {
+    ...base,
+    // A forecast has no use for fractions of a cent, and whole cents keep the deltas exact.
+    monthlyCents: Math.round(priced.totalCents),
+    basis,
+    usageBased: found.usageBased === true,
+    lines: priced.lines,
+  }
+}
+
+/** Estimated monthly cost of every priced resource in a template. */
+export function estimateTemplateCost(template: CostTemplate, options: CostEstimateOptions = {}): TemplateCostEstimate {
+  const catalog = options.catalog ?? AWS_PRICE_CATALOG
+  const usage = usageAssumptions(options)
+  const resources = Object.keys(template.Resources ?? {})
+    .map((logicalId) => priceResource(logicalId, template, catalog, usage))
+    .filter((resource): resource is ResourceCostEstimate => resource !== undefined)
+  return {
+    catalogVersion: catalog.version,
+    currency: catalog.book.currency,
+    monthlyCents: resources.reduce((sum, resource) => sum + resource.monthlyCents, 0),
+    resources,
+  }
+}
+
+/**
+ * Estimated monthly cost change of a stack update: added resources at their new cost, removed ones at minus
+ * their old cost, and replaced or updated ones at the difference. Updates that do not change the price are
+ * left out.
+ */
+export function estimateStackDiffCost(
+  diff: StackDiff,
+  before: CostTemplate,
+  after: CostTemplate,
+  options: CostEstimateOptions = {},
+): StackCostEstimate {
+  const catalog = options.catalog ?? AWS_PRICE_CATALOG
+  const usage = usageAssumptions(options)
+  const resources: ResourceCostDelta[] = []
+  for (const change of [...diff.added, ...diff.removed, ...diff.replaced, ...diff.updated]) {
+    const old = change.action === 'add' ? undefined : priceResource(change.logicalId, before, catalog, usage)
+    const current = change.action === 'remove' ? undefined : priceResource(change.logicalId, after, catalog, usage)
+    const estimate = current ?? old
+    if (!estimate) continue
+    const beforeCents = old?.monthlyCents ?? 0
+    const afterCents = current?.monthlyCents ?? 0
+    const unpriced = current?.unpriced ?? old?.unpriced
+    if (change.action === 'update' && beforeCents === afterCents && !unpriced) continue
+    resources.push({
+      logicalId: change.logicalId,
+      resourceType: estimate.resourceType,
+      action: change.action,
+      beforeCents,
+      afterCents,
+      deltaCents: afterCents - beforeCents,
+      basis: estimate.basis,
+      usageBased: Boolean(old?.usageBased || current?.usageBased),
+      unpriced,
+    })
+  }
+  resources.sort((a, b) => Math.abs(b.deltaCents) - Math.abs(a.deltaCents))
+  return {
+    catalogVersion: catalog.version,
+    catalogRegion: catalog.region,
+    currency: catalog.book.currency,
+    monthlyCents: estimateTemplateCost(after, options).monthlyCents,
+    monthlyDeltaCents: resources.reduce((sum, resource) => sum + resource.deltaCents, 0),
+    resources,
+    usage,
+  }
+}
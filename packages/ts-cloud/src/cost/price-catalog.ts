@@ -0,0 +1,227 @@
+/**
+ * Offline list prices for the resources a generated template creates.
+ *
+ * The estimate has to be available before anything is deployed, in CI, and
+ * without AWS credentials, so it cannot call the Pricing API. The catalog is a
+ * `PriceBook` like the spend price book, keyed by SKU meters such as
+ * `compute.instance_hours:t3.small`, and carries a version so an estimate can
+ * say which prices it used. Bump `version` whenever a rate changes.
+ *
+ * Rates are us-east-1 on-demand list prices in US dollars, converted to
+ * micro-cents. Free tiers are left out: they are shared by the whole account,
+ * so they cannot be credited to one stack.
+ */
+import type { PriceBook, PriceEntry } from '../spend/pricing'
+import { MICRO_CENTS } from '../spend/pricing'
+
+export interface PriceCatalog {
+  /** Printed with every estimate; two estimates are only comparable on the same version. */
+  version: string
+  /** Region the rates were taken from. */
+  region: string
+  book: PriceBook
+}
+
+/** Dollars per unit to micro-cents per unit. */
+const usd = (dollars: number): number => Math.round(dollars * 100 * MICRO_CENTS)
+
+function skuEntries(meter: string, dollarsPerUnit: Record<string, number>): PriceEntry[] {
+  return Object.entries(dollarsPerUnit).map(([sku, dollars]) => ({
+    meter: `${meter}:${sku}`,
+    provider: 'aws',
+    microCentsPerUnit: usd(dollars),
+  }))
+}
+
+/** Linux on-demand, per hour. */
+const EC2_HOURLY: Record<string, number> = {
+  't2.nano': 0.0058,
+  't2.micro': 0.0116,
+  't2.small': 0.023,
+  't2.medium': 0.0464,
+  't2.large': 0.0928,
+  't3.nano': 0.0052,
+  't3.micro': 0.0104,
+  't3.small': 0.0208,
+  't3.medium': 0.0416,
+  't3.large': 0.0832,
+  't3.xlarge': 0.1664,
+  't3.2xlarge': 0.3328,
+  't3a.nano': 0.0047,
+  't3a.micro': 0.0094,
+  't3a.small': 0.0188,
+  't3a.medium': 0.0376,
+  't3a.large': 0.0752,
+  't3a.xlarge': 0.1504,
+  't4g.nano': 0.0042,
+  't4g.micro': 0.0084,
+  't4g.small': 0.0168,
+  't4g.medium': 0.0336,
+  't4g.large': 0.0672,
+  't4g.xlarge': 0.1344,
+  't4g.2xlarge': 0.2688,
+  'm5.large': 0.096,
+  'm5.xlarge': 0.192,
+  'm5.2xlarge': 0.384,
+  'm5.4xlarge': 0.768,
+  'm6i.large': 0.096,
+  'm6i.xlarge': 0.192,
+  'm6i.2xlarge': 0.384,
+  'm6g.medium': 0.0385,
+  'm6g.large': 0.077,
+  'm6g.xlarge': 0.154,
+  'm6g.2xlarge': 0.308,
+  'm7g.medium': 0.0408,
+  'm7g.large': 0.0816,
+  'm7g.xlarge': 0.1632,
+  'm7g.2xlarge': 0.3264,
+  'c5.large': 0.085,
+  'c5.xlarge': 0.17,
+  'c5.2xlarge': 0.34,
+  'c6i.large': 0.085,
+  'c6i.xlarge': 0.17,
+  'c6i.2xlarge': 0.34,
+  'c6g.medium': 0.034,
+  'c6g.large': 0.068,
+  'c6g.xlarge': 0.136,
+  'c7g.medium': 0.0363,
+  'c7g.large': 0.0725,
+  'c7g.xlarge': 0.145,
+  'r5.large': 0.126,
+  'r5.xlarge': 0.252,
+  'r5.2xlarge': 0.504,
+  'r6i.large': 0.126,
+  'r6i.xlarge': 0.252,
+  'r6g.medium': 0.0504,
+  'r6g.large': 0.1008,
+  'r6g.xlarge': 0.2016,
+}
+
+/** RDS for PostgreSQL single-AZ, per hour. MySQL and MariaDB are the same or slightly cheaper. */
+const RDS_HOURLY: Record<string, number> = {
+  'db.t3.micro': 0.018,
+  'db.t3.small': 0.036,
+  'db.t3.medium': 0.072,
+  'db.t3.large': 0.145,
+  'db.t3.xlarge': 0.29,
+  'db.t3.2xlarge': 0.579,
+  'db.t4g.micro': 0.016,
+  'db.t4g.small': 0.032,
+  'db.t4g.medium': 0.065,
+  'db.t4g.large': 0.129,
+  'db.t4g.xlarge': 0.258,
+  'db.m5.large': 0.178,
+  'db.m5.xlarge': 0.356,
+  'db.m5.2xlarge': 0.712,
+  'db.m6g.large': 0.159,
+  'db.m6g.xlarge': 0.318,
+  'db.m6i.large': 0.178,
+  'db.m6i.xlarge': 0.356,
+  'db.r5.large': 0.25,
+  'db.r5.xlarge': 0.5,
+  'db.r5.2xlarge': 1.0,
+  'db.r6g.large': 0.225,
+  'db.r6g.xlarge': 0.45,
+  'db.r6g.2xlarge': 0.899,
+}
+
+/** Aurora PostgreSQL provisioned instances, per hour. */
+const AURORA_HOURLY: Record<string, number> = {
+  'db.t3.medium': 0.082,
+  'db.t4g.medium': 0.073,
+  'db.r5.large': 0.29,
+  'db.r5.xlarge': 0.58,
+  'db.r6g.large': 0.26,
+  'db.r6g.xlarge': 0.519,
+  'db.r6g.2xlarge': 1.038,
+}
+
+/** Per GB-month. */
+const DATABASE_STORAGE: Record<string, number> = {
+  gp2: 0.115,
+  gp3: 0.115,
+  io1: 0.125,
+  io2: 0.125,
+  standard: 0.1,
+  aurora: 0.1,
+}
+
+/** ElastiCache for Redis and Valkey nodes, per hour. */
+const CACHE_HOURLY: Record<string, number> = {
+  'cache.t3.micro': 0.017,
+  'cache.t3.small': 0.034,
+  'cache.t3.medium': 0.068,
+  'cache.t4g.micro': 0.016,
+  'cache.t4g.small': 0.032,
+  'cache.t4g.medium': 0.065,
+  'cache.m5.large': 0.156,
+  'cache.m5.xlarge': 0.311,
+  'cache.m5.2xlarge': 0.623,
+  'cache.m6g.large': 0.149,
+  'cache.m6g.xlarge': 0.298,
+  'cache.r5.large': 0.216,
+  'cache.r5.xlarge': 0.431,
+  'cache.r5.2xlarge': 0.862,
+  'cache.r5.4xlarge': 1.724,
+  'cache.r6g.large': 0.206,
+  'cache.r6g.xlarge': 0.411,
+  'cache.r6g.2xlarge': 0.822,
+}
+
+/** EBS volumes, per GB-month. */
+const BLOCK_STORAGE: Record<string, number> = {
+  gp2: 0.1,
+  gp3: 0.08,
+  io1: 0.125,
+  io2: 0.125,
+  st1: 0.045,
+  sc1: 0.015,
+  standard: 0.05,
+}
+
+export const AWS_PRICE_CATALOG: PriceCatalog = {
+  version: '2026-10',
+  region: 'us-east-1',
+  book: {
+    currency: 'USD',
+    entries: [
+      ...skuEntries('compute.instance_hours', EC2_HOURLY),
+      ...skuEntries('block.storage_gb_months', BLOCK_STORAGE),
+      { meter: 'container.vcpu_hours:x86_64', provider: 'aws', microCentsPerUnit: usd(0.04048) },
+      { meter: 'container.gb_hours:x86_64', provider: 'aws', microCentsPerUnit: usd(0.004445) },
+      { meter: 'container.vcpu_hours:arm64', provider: 'aws', microCentsPerUnit: usd(0.03238) },
+      { meter: 'container.gb_hours:arm64', provider: 'aws', microCentsPerUnit: usd(0.00356) },
+      { meter: 'function.invocations', provider: 'aws', microCentsPerUnit: usd(0.0000002) },
+      { meter: 'function.gb_seconds:x86_64', provider: 'aws', microCentsPerUnit: usd(0.0000166667) },
+      { meter: 'function.gb_seconds:arm64', provider: 'aws', microCentsPerUnit: usd(0.0000133334) },
+      ...skuEntries('database.instance_hours', RDS_HOURLY),
+      ...skuEntries('database.aurora_instance_hours', AURORA_HOURLY),
+      { meter: 'database.acu_hours', provider: 'aws', microCentsPerUnit: usd(0.12) },
+      ...skuEntries('database.storage_gb_months', DATABASE_STORAGE),
+      ...skuEntries('cache.node_hours', CACHE_HOURLY),
+      { meter: 'network.nat_hours', provider: 'aws', microCentsPerUnit: usd(0.045) },
+      { meter: 'network.nat_processed_gb', provider: 'aws', microCentsPerUnit: usd(0.045) },
+      {
+        meter: 'edge.egress_gb',
+        provider: 'aws',
+        tiers: [
+          { upToQuantity: 10_240, microCentsPerUnit: usd(0.085) },
+          { upToQuantity: 51_200, microCentsPerUnit: usd(0.08) },
+          { upToQuantity: 153_600, microCentsPerUnit: usd(0.06) },
+          { upToQuantity: null, microCentsPerUnit: usd(0.04) },
+        ],
+      },
+      { meter: 'edge.requests', provider: 'aws', microCentsPerUnit: usd(0.000001) },
+      {
+        meter: 'object.storage_gb_months',
+        provider: 'aws',
+        tiers: [
+          { upToQuantity: 51_200, microCentsPerUnit: usd(0.023) },
+          { upToQuantity: 512_000, microCentsPerUnit: usd(0.022) },
+          { upToQuantity: null, microCentsPerUnit: usd(0.021) },
+        ],
+      },
+      { meter: 'object.requests', provider: 'aws', microCentsPerUnit: usd(0.0000004) },
+    ],
+  },
+}
@@ -11,6 +11,11 @@ describe('AWS resource inventory', () => {
       region: 'us-east-1',
       accountId: '123456789012',
     })
+    expect(parseResourceArn('arn:aws:rds:us-east-1:123456789012:db:orders')).toMatchObject({
+      service: 'rds',
+      type: 'db',
+      id: 'orders',
+    })
   })
 
   it('merges tagged and direct-discovery records without losing metadata', () => {
@@ -67,6 +72,10 @@ describe('AWS resource inventory', () => {
     client.lambdaResources = async () => []
     // @ts-expect-error controlled provider seams
     client.s3Resources = async () => [s3]
+    // @ts-expect-error controlled provider seams
+    client.cloudfrontResources = async () => []
+    // @ts-expect-error controlled provider seams
+    client.route53Resources = async () => []
 
     const result = await client.discover({ type: 'ec2' })
     expect(result.resources).toHaveLength(1)
@@ -26,7 +26,8 @@ function list<T>(value: T | T[] | undefined | null): T[] {
 }
 
 export function parseResourceArn(arn: string, tags: Record<string, string> = {}): CloudResource {
-  const [, , service = 'unknown', region = '', accountId = '', resource = arn] = arn.split(':')
+  const [, , service = 'unknown', region = '', accountId = '', ...rest] = arn.split(':')
+  const resource = rest.join(':') || arn
   const separator = resource.includes('/') ? '/' : ':'
   const [type = service, ...idParts] = resource.split(separator)
   const id = idParts.join(separator) || resource
@@ -174,7 +175,15 @@ export class ResourceInventoryClient {
         instance.DBInstanceArn || `arn:aws:rds:${this.region}::db:${String(instance.DBInstanceIdentifier)}`,
       ),
       state: instance.DBInstanceStatus,
-      metadata: { engine: instance.Engine, instanceClass: instance.DBInstanceClass },
+      metadata: {
+        engine: instance.Engine,
+        engineVersion: instance.EngineVersion,
+        instanceClass: instance.DBInstanceClass,
+        allocatedStorage: instance.AllocatedStorage === undefined ? undefined : Number(instance.AllocatedStorage),
+        masterUsername: instance.MasterUsername,
+        storageEncrypted:
+          instance.StorageEncrypted === undefined ? undefined : String(instance.StorageEncrypted) === 'true',
+      },
     }))
   }
 
@@ -209,6 +218,67 @@ export class ResourceInventoryClient {
     }))
   }
 
+  private async cloudfrontResources(): Promise<CloudResource[]> {
+    const resources: CloudResource[] = []
+    let marker: string | undefined
+    do {
+      const result = await this.client.request({
+        service: 'cloudfront',
+        region: 'us-east-1',
+        method: 'GET',
+        path: '/2020-05-31/distribution',
+        queryParams: marker ? { Marker: marker } : undefined,
+      })
+      const root = result?.DistributionList ?? result
+      for (const distribution of list(root?.Items?.DistributionSummary)) {
+        const item = distribution as any
+        resources.push({
+          ...parseResourceArn(item.ARN || `arn:aws:cloudfront:::distribution/${String(item.Id)}`),
+          state: item.Status,
+          metadata: {
+            domainName: item.DomainName,
+            aliases: list(item.Aliases?.Items?.CNAME).join(',') || undefined,
+            origin: (list(item.Origins?.Items?.Origin)[0] as any)?.DomainName,
+            certificateArn: item.ViewerCertificate?.ACMCertificateArn || undefined,
+            enabled: item.Enabled === true || item.Enabled === 'true',
+          },
+        })
+      }
+      marker = root?.IsTruncated === true || root?.IsTruncated === 'true' ? root?.NextMarker : undefined
+    } while (marker)
+    return resources
+  }
+
+  private async route53Resources(): Promise<CloudResource[]> {
+    const resources: CloudResource[] = []
+    let marker: string | undefined
+    do {
+      const result = await this.client.request({
+        service: 'route53',
+        region: 'us-east-1',
+        method: 'GET',
+        path: '/2013-04-01/hostedzone',
+        queryParams: marker ? { marker } : undefined,
+      })
+      const root = result?.ListHostedZonesResponse ?? result
+      for (const zone of list(root?.HostedZones?.HostedZone)) {
+        const item = zone as any
+        const id = String(item.Id).replace('/hostedzone/', '')
+        const domain = String(item.Name ?? '').replace(/\.$/, '')
+        resources.push({
+          ...parseResourceArn(`arn:aws:route53:::hostedzone/${id}`, { Name: domain }),
+          metadata: {
+            zoneName: domain,
+            privateZone: item.Config?.PrivateZone === true || item.Config?.PrivateZone === 'true',
+            recordCount: item.ResourceRecordSetCount === undefined ? undefined : Number(item.ResourceRecordSetCount),
+          },
+        })
+      }
+      marker = root?.IsTruncated === true || root?.IsTruncated === 'true' ? root?.NextMarker : undefined
+    } while (marker)
+    return resources
+  }
+
   async discover(options?: { type?: string }): Promise<ResourceInventoryResult> {
     const sources = [
       ['tagging:GetResources', () => this.taggedResources()],
@@ -216,6 +286,8 @@ export class ResourceInventoryClient {
       ['rds:DescribeDBInstances', () => this.rdsResources()],
       ['lambda:ListFunctions', () => this.lambdaResources()],
       ['s3:ListAllMyBuckets', () => this.s3Resources()],
+      ['cloudfront:ListDistributions', () => this.cloudfrontResources()],
+      ['route53:ListHostedZones', () => this.route53Resources()],
     ] as const
     const settled = await Promise.allSettled(sources.map(([, load]) => load()))
     const resources: CloudResource[] = []
@@ -17,8 +17,8 @@ class Runtime implements DockerRuntime {
   async inspect(_name: string) {
     return this.metadata
   }
-  async run(args: string[]) {
-    this.calls.push({ method: 'run', args })
+  async run(args: string[], stdin?: string) {
+    this.calls.push({ method: 'run', args, content: stdin })
   }
   async exec(_name: string, args: string[], stdin?: string) {
     this.calls.push({ method: 'exec', args, content: stdin })
@@ -88,6 +88,7 @@ describe('Docker data transport', () => {
     expect(args.join(' ')).not.toContain('generated-password')
     expect(args).toContain('127.0.0.1:5432:5432')
     expect(args).toContain('POSTGRES_PASSWORD_FILE=/run/ts-cloud-secrets/credential')
+    expect(args).toContain('archive_mode=on')
   })
   it('refuses public publishing without an external firewall policy', async () => {
     await expect(
@@ -172,4 +173,105 @@ describe('Docker data transport', () => {
     await transport.removeRestoredService('orders-drill')
     expect(runtime.calls.slice(-3).map((call) => call.method)).toEqual(['remove', 'remove-volume', 'remove-volume'])
   })
+
+  it('ships Postgres WAL with heartbeat markers and replays it into an isolated target', async () => {
+    const runtime = new Runtime(),
+      transport = new DockerDataTransport(runtime)
+    runtime.metadata = {
+      Config: {
+        Labels: {
+          'ts-cloud.engine': 'postgres',
+          'ts-cloud.engine-version': '17',
+          'ts-cloud.username': 'app',
+          'ts-cloud.database': 'orders',
+        },
+      },
+    }
+    runtime.inspect = async (name: string) => (name === 'tscloud-data-orders' ? runtime.metadata : undefined)
+    runtime.exec = async (_name: string, args: string[], stdin?: string) => {
+      runtime.calls.push({ method: 'exec', args, content: stdin })
+      const script = args.join(' ')
+      if (script.includes('SHOW archive_mode'))
+        return [
+          'until 000000010000000000000003 1784635619.25',
+          'segment 000000010000000000000002',
+          'segment 000000010000000000000003',
+          'segment 000000010000000000000003.until',
+        ].join('\n')
+      return script.includes('pg_is_in_recovery') ? 'f\n' : ''
+    }
+    expect(await transport.listArchivedLogs('orders')).toEqual([
+      { name: '000000010000000000000002', sequence: 2, recoverableUntil: undefined },
+      { name: '000000010000000000000003', sequence: 3, recoverableUntil: '2026-07-21T12:06:59.250Z' },
+    ])
+    await expect(
+      transport.restoreToPointInTime({
+        sourceId: 'orders',
+        targetId: 'orders-pitr',
+        body: Buffer.from('base'),
+        logs: [{ name: '../../etc/passwd', body: Buffer.from('wal') }],
+        credential: 'managed-password',
+      }),
+    ).rejects.toThrow('is not a postgres log file')
+    const restored = await transport.restoreToPointInTime({
+      sourceId: 'orders',
+      targetId: 'orders-pitr',
+      body: Buffer.from('base tar'),
+      logs: [{ name: '000000010000000000000002', body: Buffer.from('wal') }],
+      targetTime: '2026-07-21T12:05:00Z',
+      credential: 'managed-password',
+    })
+    expect(restored).toMatchObject({ healthy: true, recoveredTo: '2026-07-21T12:05:00.000Z' })
+    const [wal, base, server] = runtime.calls.filter((call) => call.method === 'run')
+    expect(wal.args).toEqual(expect.arrayContaining(['none', 'tscloud-data-orders-pitr-data:/target']))
+    expect(wal.content).toBe(Buffer.from('wal').toString('base64'))
+    expect(base.content).toBe(Buffer.from('base tar').toString('base64'))
+    expect(base.args?.at(-1)).toContain("recovery_target_time = '2026-07-21T12:05:00.000Z'")
+    expect(server.args).toContain('127.0.0.1:5432:5432')
+    expect(runtime.calls.flatMap((call) => call.args ?? []).join(' ')).not.toContain('managed-password')
+  })
+  it('starts MySQL binlog replay at the position the base dump recorded', async () => {
+    const runtime = new Runtime(),
+      transport = new DockerDataTransport(runtime)
+    runtime.metadata = {
+      Config: {
+        Labels: {
+          'ts-cloud.engine': 'mysql',
+          'ts-cloud.engine-version': '8.4',
+          'ts-cloud.username': 'app',
+          'ts-cloud.database': 'orders',
+        },
+      },
+    }
+    runtime.inspect = async (name: string) => (name === 'tscloud-data-orders' ? runtime.metadata : undefined)
+    runtime.exec = async (_name: string, args: string[], stdin?: string) => {
+      runtime.calls.push({ method: 'exec', args, content: stdin })
+      const script = args.join(' ')
+      if (script.includes('--flush-logs'))
+        return "-- CHANGE REPLICATION SOURCE TO SOURCE_LOG_FILE='binlog.000002', SOURCE_LOG_POS=157;\n-- dump"
+      return script.includes('SELECT 1') ? '1\n' : ''
+    }
+    const base = await transport.exportRecoveryBase('orders')
+    expect(base).toMatchObject({
+      format: 'logical-sql-v1',
+      logStart: { name: 'binlog.000002', sequence: 2, position: 157 },
+    })
+    const restored = await transport.restoreToPointInTime({
+      sourceId: 'orders',
+      targetId: 'orders-pitr',
+      body: base.body,
+      logs: [
+        { name: 'binlog.000002', body: Buffer.from('events') },
+        { name: 'binlog.000003', body: Buffer.from('more events') },
+      ],
+      logStart: base.logStart,
+      targetTime: '2026-07-21T12:07:00.400Z',
+      credential: 'managed-password',
+    })
+    expect(restored).toMatchObject({ recoveredTo: '2026-07-21T12:07:00.400Z' })
+    const replay = runtime.calls.find((call) => call.args?.join(' ').includes('mysqlbinlog'))
+    expect(replay?.args?.at(-1)).toContain(
+      "mysqlbinlog --start-position=157 --stop-datetime='2026-07-21 12:07:01' binlog.000002 binlog.000003",
+    )
+  })
 })
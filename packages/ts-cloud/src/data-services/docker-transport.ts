@@ -12,7 +12,7 @@ export interface DockerRuntime {
   seedSecret(volume: string, content: string): Promise<void>
   removeVolume(name: string): Promise<void>
   inspect(name: string): Promise<Record<string, any> | undefined>
-  run(args: string[]): Promise<void>
+  run(args: string[], stdin?: string): Promise<void>
   exec(name: string, args: string[], stdin?: string): Promise<string>
   update(name: string, args: string[]): Promise<void>
   restart(name: string): Promise<void>
@@ -72,8 +72,8 @@ export class BunDockerRuntime implements DockerRuntime {
     if (result.code !== 0) return undefined
     return JSON.parse(result.stdout)[0]
   }
-  async run(args: string[]): Promise<void> {
-    await docker(['run', ...args])
+  async run(args: string[], stdin?: string): Promise<void> {
+    await docker(['run', ...args], stdin)
   }
   async exec(name: string, args: string[], stdin?: string): Promise<string> {
     return (await docker(['exec', '-i', name, ...args], stdin)).stdout
@@ -118,6 +118,39 @@ const engineConfig: Record<Exclude<DataEngine, 'libsql'>, { image: string; port:
   mongodb: { image: 'mongo:8.0', port: 27017, dataPath: '/data/db' },
 }
 
+/**
+ * WAL staging inside PGDATA. Every Postgres container runs with archive_mode
+ * on, but the command copies only while this directory exists, so a backup
+ * policy can start archiving without restarting the server.
+ */
+const WAL_ARCHIVE_DIR = '/var/lib/postgresql/data/ts-cloud-wal'
+const WAL_ARCHIVE_COMMAND = [
+  `test ! -d ${WAL_ARCHIVE_DIR} ||`,
+  `(cp %p ${WAL_ARCHIVE_DIR}/%f.tmp && mv ${WAL_ARCHIVE_DIR}/%f.tmp ${WAL_ARCHIVE_DIR}/%f)`,
+].join(' ')
+const WAL_RESTORE_DIR = '/var/lib/postgresql/data/ts-cloud-restore-wal'
+const BINLOG_RESTORE_DIR = '/tmp/ts-cloud-binlog'
+const PG_AUTH = 'export PGPASSWORD="$(cat /run/ts-cloud-secrets/credential)"'
+const MYSQL_AUTH = 'export MYSQL_PWD="$(cat /run/ts-cloud-secrets/credential)"'
+
+export interface ArchivedLogFile {
+  name: string
+  sequence: number
+  /** The latest moment a restore can reach once this file is replayed. */
+  recoverableUntil?: string
+}
+
+/** A WAL segment's position in the log, ignoring the timeline; assumes the default 16 MiB segments. */
+function walSequence(name: string): number {
+  return Number.parseInt(name.slice(8, 16), 16) * 256 + Number.parseInt(name.slice(16), 16)
+}
+
+function archivedLogName(engine: DataEngine, name: string): string {
+  if (engine === 'postgres' ? !/^[0-9A-F]{24}$/.test(name) : !/^[A-Za-z0-9_-]+\.\d{6,}$/.test(name))
+    throw new Error(`Archived log name ${name} is not a ${engine} log file.`)
+  return name
+}
+
 function identifier(value: JsonValue | undefined, fallback = 'app'): string {
   const result = String(value ?? fallback)
   if (!/^[A-Za-z_][A-Za-z0-9_]{0,62}$/.test(result))
@@ -246,6 +279,10 @@ export class DockerDataTransport implements DataProviderTransport {
       )
     args.push(config.image)
     if (engine === 'redis') args.push('redis-server', '/run/ts-cloud-secrets/credential')
+    if (engine === 'postgres')
+      args.push('postgres', '-c', 'archive_mode=on', '-c', `archive_command=${WAL_ARCHIVE_COMMAND}`)
+    // MySQL 8 keeps binary logs by default; MariaDB needs them switched on for binlog archiving.
+    if (engine === 'mariadb') args.push('--log-bin=mariadb-bin', '--server-id=1', '--binlog-expire-logs-seconds=604800')
     await this.runtime.run(args)
     return {
       providerId: name,
@@ -374,6 +411,355 @@ export class DockerDataTransport implements DataProviderTransport {
     await this.runtime.removeVolume(`${name}-secret`)
     await this.runtime.removeVolume(`${name}-data`)
   }
+  private async sqlContainer(id: string): Promise<{
+    name: string
+    engine: 'postgres' | 'mysql' | 'mariadb'
+    username: string
+    database: string
+    engineVersion?: string
+  }> {
+    const name = runtimeId(id),
+      inspect = await this.runtime.inspect(name)
+    if (!inspect) throw new Error(`Data container ${name} was not found.`)
+    const metadata = labels(inspect),
+      engine = metadata['ts-cloud.engine'] as DataEngine
+    if (engine !== 'postgres' && engine !== 'mysql' && engine !== 'mariadb')
+      throw new Error(`${engine} does not support point-in-time recovery.`)
+    return {
+      name,
+      engine,
+      username: identifier(metadata['ts-cloud.username']),
+      database: identifier(metadata['ts-cloud.database']),
+      engineVersion: metadata['ts-cloud.engine-version'] || undefined,
+    }
+  }
+  /**
+   * A base for point-in-time recovery. WAL replays only onto a physical copy,
+   * so Postgres gets a pg_basebackup tar; MySQL and MariaDB get a dump that
+   * starts a fresh binary log and records its position.
+   */
+  async exportRecoveryBase(id: string): Promise<{
+    body: Uint8Array
+    format: 'postgres-basebackup-v1' | 'logical-sql-v1'
+    engine: 'postgres' | 'mysql' | 'mariadb'
+    database: string
+    username: string
+    engineVersion?: string
+    logStart: { name: string; sequence: number; position?: number }
+  }> {
+    const { name, ...source } = await this.sqlContainer(id)
+    if (source.engine === 'postgres') {
+      const [wal = '', ...encoded] = (
+        await this.runtime.exec(name, [
+          'sh',
+          '-c',
+          [
+            `set -o pipefail; ${PG_AUTH}`,
+            `psql -U "$POSTGRES_USER" -d postgres -Atc 'SELECT pg_walfile_name(pg_current_wal_lsn())' || exit 1`,
+            'pg_basebackup -U "$POSTGRES_USER" -D - -Ft -X fetch | base64',
+          ].join('\n'),
+        ])
+      ).split('\n')
+      const start = archivedLogName('postgres', wal.trim())
+      return {
+        ...source,
+        body: Buffer.from(encoded.join(''), 'base64'),
+        format: 'postgres-basebackup-v1',
+        logStart: { name: start, sequence: walSequence(start) },
+      }
+    }
+    const dump = await this.runtime.exec(name, [
+        'sh',
+        '-c',
+        [
+          MYSQL_AUTH,
+          `[ "$(mysql -u root -N -e 'SELECT @@log_bin')" = 1 ] || { echo 'binary logging is off' >&2; exit 3; }`,
+          `exec mysqldump -u root --all-databases --single-transaction --add-drop-database --routines --events --triggers --flush-logs ${
+            source.engine === 'mariadb' ? '--master-data=2' : '--source-data=2'
+          }`,
+        ].join('\n'),
+      ]),
+      position = dump.match(/(?:SOURCE|MASTER)_LOG_FILE='([^']+)',\s*(?:SOURCE|MASTER)_LOG_POS=(\d+)/)
+    if (!position) throw new Error('The dump did not record a binary log position.')
+    const start = archivedLogName(source.engine, position[1])
+    return {
+      ...source,
+      body: new TextEncoder().encode(dump),
+      format: 'logical-sql-v1',
+      logStart: { name: start, sequence: Number(start.split('.').at(-1)), position: Number(position[2]) },
+    }
+  }
+  /**
+   * Closed WAL segments or binary logs waiting to be shipped, oldest first.
+   * Postgres gets a heartbeat commit and a WAL switch first: replay can stop
+   * only at a commit, so the segment holding the heartbeat is the one that
+   * makes the moment before it recoverable. MySQL and MariaDB rotate their
+   * binary log instead.
+   */
+  async listArchivedLogs(id: string): Promise<ArchivedLogFile[]> {
+    const { name, engine } = await this.sqlContainer(id)
+    if (engine === 'postgres') {
+      const output = await this.runtime.exec(name, [
+        'sh',
+        '-c',
+        [
+          PG_AUTH,
+          `[ "$(psql -U "$POSTGRES_USER" -d postgres -Atc 'SHOW archive_mode')" = on ] || { echo archive-off; exit 0; }`,
+          `dir=${WAL_ARCHIVE_DIR}`,
+          'mkdir -p "$dir" && chown postgres:postgres "$dir" && chmod 700 "$dir" || exit 1',
+          'rm -f "$dir"/*.backup "$dir"/*.history',
+          `psql -U "$POSTGRES_USER" -d postgres -At -c 'SELECT extract(epoch FROM clock_timestamp())' \\`,
+          `  -c 'SELECT pg_current_xact_id()' -c 'SELECT pg_walfile_name(pg_current_wal_insert_lsn())' \\`,
+          `  -c 'SELECT pg_switch_wal()' | { read -r at; read -r xid; read -r wal; echo "$at" > "$dir/$wal.until"; }`,
+          'for file in "$dir"/*.until; do [ -f "$file" ] && echo "until $(basename "$file" .until) $(cat "$file")"; done',
+          'for file in "$dir"/*; do echo "segment $(basename "$file")"; done',
+        ].join('\n'),
+      ])
+      if (output.trim() === 'archive-off') {
+        // Containers provisioned before archiving was armed need archive_mode, which only a restart applies.
+        await this.runtime.exec(
+          name,
+          ['sh', '-c', `${PG_AUTH}; exec psql -v ON_ERROR_STOP=1 -U "$POSTGRES_USER" -d postgres`],
+          `ALTER SYSTEM SET archive_mode = 'on';\nALTER SYSTEM SET archive_command = '${WAL_ARCHIVE_COMMAND}';\n`,
+        )
+        throw new Error(`WAL archiving starts once data service ${id} is restarted.`)
+      }
+      const until = new Map<string, string>(),
+        segments: string[] = []
+      for (const line of output.split('\n')) {
+        const [kind, file, epoch] = line.trim().split(/\s+/)
+        if (!/^[0-9A-F]{24}$/.test(file ?? '')) continue
+        if (kind === 'segment') segments.push(file)
+        if (kind === 'until' && Number.isFinite(Number(epoch))) {
+          const at = new Date(Number(epoch) * 1000).toISOString()
+          if (!until.has(file) || until.get(file)! < at) until.set(file, at)
+        }
+      }
+      return segments
+        .sort()
+        .map((file) => ({ name: file, sequence: walSequence(file), recoverableUntil: until.get(file) }))
+    }
+    const output = await this.runtime.exec(name, [
+      'sh',
+      '-c',
+      [
+        MYSQL_AUTH,
+        `[ "$(mysql -u root -N -e 'SELECT @@log_bin')" = 1 ] || { echo binlog-off; exit 0; }`,
+        "mysql -u root -N -e 'FLUSH BINARY LOGS' || exit 1",
+        `dir=$(dirname "$(mysql -u root -N -e 'SELECT @@log_bin_basename')")`,
+        "mysql -u root -N -e 'SHOW BINARY LOGS' | head -n -1 | while read -r log rest; do",
+        '  echo "binlog $log $(stat -c %Y "$dir/$log")"',
+        'done',
+      ].join('\n'),
+    ])
+    if (output.trim() === 'binlog-off')
+      throw new Error(`Binary logging is off; reprovision data service ${id} to archive binlogs.`)
+    return output
+      .split('\n')
+      .map((line) => line.trim().split(/\s+/))
+      .filter(([kind, file, modified]) => kind === 'binlog' && /\.\d{6,}$/.test(file ?? '') && Number(modified) > 0)
+      .map(([, file, modified]) => ({
+        name: archivedLogName(engine, file),
+        sequence: Number(file.split('.').at(-1)),
+        // Timestamps have second precision, so the last second may continue in the next file.
+        recoverableUntil: new Date((Number(modified) - 1) * 1000).toISOString(),
+      }))
+      .sort((a, b) => a.sequence - b.sequence)
+  }
+  async readArchivedLog(id: string, log: string): Promise<Uint8Array> {
+    const { name, engine } = await this.sqlContainer(id),
+      file = archivedLogName(engine, log),
+      path =
+        engine === 'postgres'
+          ? `${WAL_ARCHIVE_DIR}/${file}`
+          : `"$(dirname "$(mysql -u root -N -e 'SELECT @@log_bin_basename')")/${file}"`
+    const encoded = await this.runtime.exec(name, [
+      'sh',
+      '-c',
+      `${engine === 'postgres' ? PG_AUTH : MYSQL_AUTH}; exec base64 ${path}`,
+    ])
+    return Buffer.from(encoded, 'base64')
+  }
+  /** Drops logs that have been shipped, so the staging area and binary logs stay bounded. */
+  async releaseArchivedLogs(id: string, logs: string[]): Promise<void> {
+    const { name, engine } = await this.sqlContainer(id),
+      files = logs.map((log) => archivedLogName(engine, log))
+    if (!files.length) return
+    if (engine === 'postgres') {
+      await this.runtime.exec(name, [
+        'sh',
+        '-c',
+        `cd ${WAL_ARCHIVE_DIR} && rm -f ${files.flatMap((file) => [file, `${file}.until`]).join(' ')}`,
+      ])
+      return
+    }
+    const shipped = new Set(files),
+      listed = (
+        await this.runtime.exec(name, ['sh', '-c', `${MYSQL_AUTH}; exec mysql -u root -N -e 'SHOW BINARY LOGS'`])
+      )
+        .split('\n')
+        .map((line) => line.trim().split(/\s+/)[0])
+        .filter(Boolean),
+      next = listed.find((log) => !shipped.has(log))
+    if (next)
+      await this.runtime.exec(
+        name,
+        ['sh', '-c', `${MYSQL_AUTH}; exec mysql -u root`],
+        `PURGE BINARY LOGS TO '${archivedLogName(engine, next)}';\n`,
+      )
+  }
+  /**
+   * Restores a recovery base into a new private target and replays archived
+   * logs up to targetTime. Without a targetTime a Postgres base comes up at
+   * the end of its own backup.
+   */
+  async restoreToPointInTime(input: {
+    sourceId: string
+    targetId: string
+    body: Uint8Array
+    logs: Array<{ name: string; body: Uint8Array }>
+    logStart?: { name: string; position?: number }
+    targetTime?: string
+    credential: string
+  }): Promise<Input> {
+    const source = await this.sqlContainer(input.sourceId),
+      targetName = runtimeId(input.targetId),
+      targetTime = input.targetTime ? new Date(input.targetTime) : undefined
+    if (targetTime && Number.isNaN(targetTime.getTime())) throw new Error('Target time must be an ISO timestamp.')
+    if (input.sourceId === input.targetId)
+      throw new Error('A point-in-time restore requires a distinct target identifier.')
+    if (await this.runtime.inspect(targetName)) throw new Error(`Restore target ${targetName} already exists.`)
+    const logs = input.logs.map((log) => ({ ...log, name: archivedLogName(source.engine, log.name) }))
+    if (source.engine !== 'postgres') {
+      const restored = await this.restoreLogicalBackup({
+        sourceId: input.sourceId,
+        targetId: input.targetId,
+        body: input.body,
+        credential: input.credential,
+      })
+      if (!logs.length) return restored
+      if (logs[0].name !== input.logStart?.name) throw new Error('Binary log replay must start at the dump position.')
+      for (const log of logs)
+        await this.runtime.exec(
+          targetName,
+          ['sh', '-c', `mkdir -p ${BINLOG_RESTORE_DIR} && base64 -d > ${BINLOG_RESTORE_DIR}/${log.name}`],
+          Buffer.from(log.body).toString('base64'),
+        )
+      // Binary log timestamps have second precision; the second holding targetTime is replayed in full.
+      const stop = targetTime
+        ? `--stop-datetime='${new Date(Math.floor(targetTime.getTime() / 1000) * 1000 + 1000)
+            .toISOString()
+            .slice(0, 19)
+            .replace('T', ' ')}'`
+        : ''
+      const binlog = source.engine === 'mariadb' ? 'mariadb-binlog' : 'mysqlbinlog',
+        files = logs.map((log) => log.name).join(' ')
+      await this.runtime.exec(targetName, [
+        'sh',
+        '-c',
+        [
+          MYSQL_AUTH,
+          `cd ${BINLOG_RESTORE_DIR} || exit 1`,
+          `${binlog} --start-position=${Number(input.logStart?.position ?? 4)} ${stop} ${files} > replay.sql &&`,
+          '  mysql -u root < replay.sql',
+          'status=$?',
+          `rm -rf ${BINLOG_RESTORE_DIR}`,
+          'exit $status',
+        ].join('\n'),
+      ])
+      return { ...restored, recoveredTo: targetTime?.toISOString() ?? null }
+    }
+    const volume = `${targetName}-data`,
+      image = engineConfig.postgres.image
+    for (const log of logs)
+      await this.runtime.run(
+        [
+          '--rm',
+          '-i',
+          '--network',
+          'none',
+          '-v',
+          `${volume}:/target`,
+          image,
+          'sh',
+          '-c',
+          `mkdir -p /target/ts-cloud-restore-wal && base64 -d > /target/ts-cloud-restore-wal/${log.name}`,
+        ],
+        Buffer.from(log.body).toString('base64'),
+      )
+    const recovery = targetTime
+      ? [
+          'touch /target/recovery.signal',
+          "cat >> /target/postgresql.auto.conf <<'EOF'",
+          `restore_command = 'cp ${WAL_RESTORE_DIR}/%f %p'`,
+          `recovery_target_time = '${targetTime.toISOString()}'`,
+          "recovery_target_action = 'promote'",
+          'EOF',
+        ]
+      : []
+    await this.runtime.run(
+      [
+        '--rm',
+        '-i',
+        '--network',
+        'none',
+        '-v',
+        `${volume}:/target`,
+        image,
+        'sh',
+        '-c',
+        [
+          'set -e',
+          'base64 -d | tar -x -C /target',
+          // The source's staging directory would make the copy archive WAL nobody ships.
+          'rm -rf /target/ts-cloud-wal',
+          ...recovery,
+          'chown -R postgres:postgres /target',
+          'chmod 700 /target',
+        ].join('\n'),
+      ],
+      Buffer.from(input.body).toString('base64'),
+    )
+    await this.apply(
+      {
+        id: input.targetId,
+        engine: 'postgres',
+        engineVersion: source.engineVersion ?? '',
+        username: source.username,
+        database: source.database,
+        publicExposure: false,
+      },
+      input.credential,
+    )
+    const probe = [
+      'sh',
+      '-c',
+      `${PG_AUTH}; exec psql -U "$POSTGRES_USER" -d postgres -Atc "SELECT pg_is_in_recovery()"`,
+    ]
+    let lastError: unknown
+    // Replay time grows with the archived WAL, so this waits longer than a dump restore.
+    for (let attempt = 0; attempt < 600; attempt++) {
+      try {
+        if ((await this.runtime.exec(targetName, probe)).trim() === 'f') {
+          await this.runtime.exec(targetName, ['sh', '-c', `rm -rf ${WAL_RESTORE_DIR}`])
+          return {
+            status: 'available',
+            providerId: targetName,
+            engine: 'postgres',
+            database: source.database,
+            username: source.username,
+            healthy: true,
+            recoveredTo: targetTime?.toISOString() ?? null,
+          }
+        }
+        lastError = new Error('Restored database is still replaying WAL.')
+      } catch (error) {
+        lastError = error
+      }
+      if (attempt < 599) await Bun.sleep(1000)
+    }
+    throw lastError instanceof Error ? lastError : new Error('Restored database did not finish recovery.')
+  }
   private async backup(id: string, input: Input): Promise<Input> {
     const exported = await this.exportLogicalBackup(id),
       { engine, database, username } = exported,
@@ -8,6 +8,7 @@ import type { CloudConfig, EnvironmentType } from '@ts-cloud/core'
 import { existsSync, readFileSync } from 'node:fs'
 import { join } from 'node:path'
 import { createCloudDriver } from '../drivers'
+import { resolveDigitalOceanRegion } from '../drivers/digitalocean/config'
 import { resolveHetznerLocation } from '../drivers/hetzner/config'
 import { buildServerTopology } from './dashboard-topology'
 import { resolveSiteKind, siteInstallBase } from './site-target'
@@ -356,9 +357,10 @@ function configuredProvider(config: CloudConfig): string {
 }
 
 function configuredRegion(config: CloudConfig): string {
-  // Resolve through the same chain the Hetzner driver uses, so the cockpit
-  // cannot report a location the box is not actually in.
+  // Resolve through the same chain each driver uses, so the cockpit cannot
+  // report a location the box is not actually in.
   if (configuredProvider(config) === 'hetzner') return resolveHetznerLocation(config)
+  if (configuredProvider(config) === 'digitalocean') return resolveDigitalOceanRegion(config)
 
   return config.project.region ?? 'us-east-1'
 }
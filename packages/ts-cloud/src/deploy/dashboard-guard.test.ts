@@ -1,7 +1,7 @@
 import type { CloudConfig } from '@ts-cloud/core'
 import type { DashboardUser } from './dashboard-auth'
 import { afterEach, describe, expect, it } from 'bun:test'
-import { AuthenticationStore } from '../auth'
+import { AccessRequestStore, AuthenticationStore } from '../auth'
 import { mkdtempSync, rmSync } from 'node:fs'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
@@ -107,6 +107,47 @@ describe('dashboard organization guard', () => {
     controlPlane.store.close()
   })
 
+  it('lets approved access through until it is revoked, and records every use', () => {
+    const { authentication, controlPlane, guard, users, request } = setup()
+    const access = new AccessRequestStore(controlPlane.store)
+    const membershipOf = (username: string) =>
+      controlPlane.store.getMembershipForActor(
+        controlPlane.organization.id,
+        controlPlane.store.getActorByExternalId('user', `dashboard:${username}`)!.id,
+      )!
+    const check = () => {
+      const req = request(users[1], '/api/terminal')
+      return guard.check(req, '/api/terminal', guard.resolveUser(req))
+    }
+    expect(check()).toMatchObject({ ok: false, status: 403 })
+    const approved = access.approve(
+      access.request({
+        organizationId: controlPlane.organization.id,
+        membershipId: membershipOf('dev').id,
+        capability: 'runtime:terminal',
+        justification: 'Restart the stuck blog worker',
+        durationSeconds: 15 * 60,
+      }).id,
+      { actorId: membershipOf('owner').actorId },
+    )
+    authentication.setFactorRequirements(controlPlane.organization.id, [{ capability: 'runtime:terminal' }])
+    expect(check()).toMatchObject({ ok: false, hardwareKeyRequired: true })
+    authentication.setFactorRequirements(controlPlane.organization.id, [])
+    expect(check()).toMatchObject({ ok: true })
+    expect(
+      controlPlane.store
+        .listEvents({ organizationId: controlPlane.organization.id })
+        .filter((event) => event.type === 'access.request.used'),
+    ).toEqual([
+      expect.objectContaining({
+        payload: { accessRequestId: approved.id, capability: 'runtime:terminal', method: 'GET', path: '/api/terminal' },
+      }),
+    ])
+    access.revoke(approved.id, { actorId: membershipOf('owner').actorId })
+    expect(check()).toMatchObject({ ok: false, status: 403 })
+    controlPlane.store.close()
+  })
+
   it('invalidates an active session as soon as membership changes', () => {
     const { controlPlane, guard, users, request } = setup()
     const req = request(users[1], '/api/me')
@@ -141,6 +182,21 @@ describe('dashboard organization guard', () => {
     controlPlane.store.close()
   })
 
+  it('asks for a security key when the organization requires one for a capability', () => {
+    const { authentication, controlPlane, durableRequest, guard, users, request } = setup()
+    authentication.setFactorRequirements(controlPlane.organization.id, [{ capability: 'runtime:terminal' }])
+    for (const req of [durableRequest(users[0], '/api/terminal'), request(users[0], '/api/terminal')]) {
+      expect(guard.check(req, '/api/terminal', guard.resolveUser(req))).toMatchObject({
+        ok: false,
+        status: 403,
+        hardwareKeyRequired: true,
+      })
+    }
+    const req = durableRequest(users[0], '/api/users')
+    expect(guard.check(req, '/api/users', guard.resolveUser(req))).toMatchObject({ ok: true })
+    controlPlane.store.close()
+  })
+
   it('accepts durable v2 sessions and rejects them after membership removal', () => {
     const { controlPlane, durableRequest, guard, users } = setup()
     const req = durableRequest(users[1], '/api/me')
@@ -46,6 +46,11 @@ export interface GuardDecision {
   error?: string
   /** True when the caller has no valid session at all (vs. lacking a grant). */
   unauthenticated?: boolean
+  /**
+   * True when the grant is there but the organization requires this
+   * capability to come from a session verified with a security key.
+   */
+  hardwareKeyRequired?: boolean
 }
 
 export interface DashboardGuard {
@@ -157,6 +162,33 @@ export function createDashboardGuard(options: GuardOptions): DashboardGuard {
         // a member can't probe for other tenants' site names.
         return { ok: false, status: 403, error: 'You do not have access to this.' }
       }
+      const requirement = authentication?.getFactorRequirement(authorization.organizationId, policy.capability)
+      if (requirement) {
+        const session = durableSession(req)?.session
+        if (!session || !authentication!.satisfiesFactorRequirement(session, requirement))
+          return {
+            ok: false,
+            status: 403,
+            error: 'This action requires a security key. Verify with one to continue.',
+            hardwareKeyRequired: true,
+          }
+      }
+
+      // Time-boxed access is audited request by request, not just when granted,
+      // and only once every other check has let the request through.
+      if ('accessRequestId' in decision && decision.accessRequestId)
+        authorization.store.appendEvent({
+          organizationId: authorization.organizationId,
+          actorId: membership.actorId,
+          type: 'access.request.used',
+          payload: {
+            accessRequestId: decision.accessRequestId,
+            capability: policy.capability,
+            method: req.method,
+            path: pathname,
+            ...(site ? { site } : {}),
+          },
+        })
 
       return { ok: true }
     },
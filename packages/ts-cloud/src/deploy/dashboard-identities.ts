@@ -1,4 +1,5 @@
-import type { AuthenticationStore, AuthIdentity, VerifiedOidcIdentity } from '../auth'
+import type { AuthenticationStore, AuthIdentity, AuthOidcRole, VerifiedOidcIdentity, VerifiedSamlIdentity } from '../auth'
+import type { OrganizationMembership } from '../control-plane'
 import type { DashboardUser } from './dashboard-auth'
 import type { DashboardControlPlane } from './dashboard-control-plane'
 import { createHash } from 'node:crypto'
@@ -29,7 +30,7 @@ export function synchronizeDashboardIdentities(
   }
 }
 
-function availableOidcUsername(authentication: AuthenticationStore, users: DashboardUser[], email: string): string {
+function availableSsoUsername(authentication: AuthenticationStore, users: DashboardUser[], email: string): string {
   const localPart = email
     .split('@')[0]
     .toLowerCase()
@@ -42,65 +43,146 @@ function availableOidcUsername(authentication: AuthenticationStore, users: Dashb
   return `${base.slice(0, 24)}-${suffix}`
 }
 
-export function resolveOidcDashboardIdentity(
+/** A dashboard user and identity for an email address the IdP vouches for. */
+function createProvisionedDashboardIdentity(
   authentication: AuthenticationStore,
   controlPlane: DashboardControlPlane,
   cwd: string,
-  verified: VerifiedOidcIdentity,
-): { identity: AuthIdentity; user: DashboardUser; provisioned: boolean } {
-  if (verified.provider.organizationId !== controlPlane.organization.id)
-    throw new Error('OIDC provider is not configured for this organization')
+  users: DashboardUser[],
+  input: { email: string; name?: string },
+): { identity: AuthIdentity; user: DashboardUser } {
+  const { user } = upsertMember(cwd, {
+    username: availableSsoUsername(authentication, users, input.email),
+    name: input.name,
+    email: input.email,
+    sites: {},
+  })
+  const actor = ensureDashboardActor(controlPlane.store, user)
+  const identity = authentication.createIdentity({
+    actorId: actor.id,
+    username: user.username,
+    email: input.email,
+    emailVerified: true,
+    passwordHash: user.passwordHash,
+  })
+  return { identity, user }
+}
+
+/** The identity for a user a SCIM client provisions. It signs in through SSO or a password reset. */
+export function provisionScimDashboardIdentity(
+  authentication: AuthenticationStore,
+  controlPlane: DashboardControlPlane,
+  cwd: string,
+  input: { email: string; name?: string },
+): AuthIdentity {
+  return createProvisionedDashboardIdentity(authentication, controlPlane, cwd, loadUsers(cwd), input).identity
+}
 
-  const linked = authentication.getOidcSubject(verified.provider.id, verified.subject)
-  let identity = linked
-    ? authentication.getIdentity(linked.identityId)
-    : authentication.getIdentityByEmail(verified.email)
-  if (identity?.disabledAt) throw new Error('OIDC identity is disabled')
-  if (!linked && identity && !identity.emailVerifiedAt)
-    throw new Error('OIDC cannot automatically link an unverified local email address')
+interface SsoSignIn {
+  protocol: 'OIDC' | 'SAML'
+  organizationId: string
+  email: string
+  name?: string
+  defaultRole: AuthOidcRole
+  /** The identity already linked to this IdP subject, if any. */
+  linkedIdentityId?: string
+  link: (identityId: string) => void
+}
+
+function resolveSsoDashboardIdentity(
+  authentication: AuthenticationStore,
+  controlPlane: DashboardControlPlane,
+  cwd: string,
+  sso: SsoSignIn,
+): { identity: AuthIdentity; user: DashboardUser; membership: OrganizationMembership; provisioned: boolean } {
+  const { protocol } = sso
+  if (sso.organizationId !== controlPlane.organization.id)
+    throw new Error(`${protocol} provider is not configured for this organization`)
+
+  let identity = sso.linkedIdentityId
+    ? authentication.getIdentity(sso.linkedIdentityId)
+    : authentication.getIdentityByEmail(sso.email)
+  if (identity?.disabledAt) throw new Error(`${protocol} identity is disabled`)
+  if (!sso.linkedIdentityId && identity && !identity.emailVerifiedAt)
+    throw new Error(`${protocol} cannot automatically link an unverified local email address`)
 
   const users = loadUsers(cwd)
   let provisioned = false
   let user = identity ? findUser(users, identity.username) : undefined
-  if (identity && !user) throw new Error('OIDC identity has no dashboard user')
+  if (identity && !user) throw new Error(`${protocol} identity has no dashboard user`)
 
   if (!identity) {
-    const username = availableOidcUsername(authentication, users, verified.email)
-    const created = upsertMember(cwd, {
-      username,
-      name: verified.name,
-      email: verified.email,
-      sites: {},
-    })
-    user = created.user
-    const actor = ensureDashboardActor(controlPlane.store, user)
-    identity = authentication.createIdentity({
-      actorId: actor.id,
-      username: user.username,
-      email: verified.email,
-      emailVerified: true,
-      passwordHash: user.passwordHash,
-    })
+    ;({ identity, user } = createProvisionedDashboardIdentity(authentication, controlPlane, cwd, users, sso))
     provisioned = true
-  } else if (identity.email !== verified.email) {
-    identity = authentication.setVerifiedEmail(identity.id, verified.email)
+  } else if (identity.email !== sso.email) {
+    identity = authentication.setVerifiedEmail(identity.id, sso.email)
   }
 
   const actor = controlPlane.store.getActor(identity.actorId)
-  if (!actor) throw new Error('OIDC identity actor was not found')
-  const membership = controlPlane.store.getMembershipForActor(controlPlane.organization.id, actor.id)
-  if (membership?.status === 'revoked') throw new Error('OIDC organization membership is revoked')
+  if (!actor) throw new Error(`${protocol} identity actor was not found`)
+  let membership = controlPlane.store.getMembershipForActor(controlPlane.organization.id, actor.id)
+  if (membership?.status === 'revoked') throw new Error(`${protocol} organization membership is revoked`)
   if (!membership) {
-    controlPlane.store.createMembership({
+    membership = controlPlane.store.createMembership({
       organizationId: controlPlane.organization.id,
       actorId: actor.id,
-      roleTemplate: verified.provider.defaultRole,
+      roleTemplate: sso.defaultRole,
       scope: { type: 'organization' },
       source: 'manual',
     })
   }
-  authentication.linkOidcSubject(verified.provider.id, identity.id, verified.subject, verified.email)
-  return { identity, user: user!, provisioned }
+  sso.link(identity.id)
+  return { identity, user: user!, membership, provisioned }
+}
+
+export function resolveOidcDashboardIdentity(
+  authentication: AuthenticationStore,
+  controlPlane: DashboardControlPlane,
+  cwd: string,
+  verified: VerifiedOidcIdentity,
+): { identity: AuthIdentity; user: DashboardUser; provisioned: boolean } {
+  const { identity, user, provisioned } = resolveSsoDashboardIdentity(authentication, controlPlane, cwd, {
+    protocol: 'OIDC',
+    organizationId: verified.provider.organizationId,
+    email: verified.email,
+    name: verified.name,
+    defaultRole: verified.provider.defaultRole,
+    linkedIdentityId: authentication.getOidcSubject(verified.provider.id, verified.subject)?.identityId,
+    link: (identityId) =>
+      authentication.linkOidcSubject(verified.provider.id, identityId, verified.subject, verified.email),
+  })
+  return { identity, user, provisioned }
+}
+
+/**
+ * Like OIDC, except that a role mapping that matched keeps an organization-wide
+ * membership in step with the IdP's groups on every sign-in. Owners and
+ * memberships narrowed to a project or environment are left alone.
+ */
+export function resolveSamlDashboardIdentity(
+  authentication: AuthenticationStore,
+  controlPlane: DashboardControlPlane,
+  cwd: string,
+  verified: VerifiedSamlIdentity,
+): { identity: AuthIdentity; user: DashboardUser; provisioned: boolean } {
+  const { identity, user, membership, provisioned } = resolveSsoDashboardIdentity(authentication, controlPlane, cwd, {
+    protocol: 'SAML',
+    organizationId: verified.provider.organizationId,
+    email: verified.email,
+    name: verified.name,
+    defaultRole: verified.role,
+    linkedIdentityId: authentication.getSamlSubject(verified.provider.id, verified.nameId)?.identityId,
+    link: (identityId) =>
+      authentication.linkSamlSubject(verified.provider.id, identityId, verified.nameId, verified.email),
+  })
+  if (
+    verified.mapped &&
+    membership.roleTemplate !== verified.role &&
+    membership.roleTemplate !== 'owner' &&
+    membership.scope.type === 'organization'
+  )
+    controlPlane.store.updateMembership({ id: membership.id, roleTemplate: verified.role })
+  return { identity, user, provisioned }
 }
 
 export function localLoginRequiresSso(
@@ -118,7 +200,8 @@ export function localLoginRequiresSso(
   )
     return false
   const domain = identity.email.split('@')[1]?.toLowerCase()
-  return authentication
-    .listOidcProviders(controlPlane.organization.id)
-    .some((provider) => provider.enforceSso && !!domain && provider.allowedDomains.includes(domain))
+  return [
+    ...authentication.listOidcProviders(controlPlane.organization.id),
+    ...authentication.listSamlProviders(controlPlane.organization.id),
+  ].some((provider) => provider.enforceSso && !!domain && provider.allowedDomains.includes(domain))
 }
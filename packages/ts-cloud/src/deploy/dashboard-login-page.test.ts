@@ -10,6 +10,11 @@ describe('renderLoginPage', () => {
     expect(page.indexOf('Continue with Acme Workforce')).toBeLessThan(page.indexOf('name="username"'))
   })
 
+  it('starts SAML providers at their own sign-in route', () => {
+    const page = renderLoginPage(true, [{ slug: 'acme-adfs', name: 'Acme ADFS', protocol: 'saml' }])
+    expect(page).toContain('href="/auth/saml/acme-adfs/start?return=%2Fserverless"')
+  })
+
   it('escapes provider labels and surfaces callback failure accessibly', () => {
     const page = renderLoginPage(false, [{ slug: 'safe-slug', name: '<script>alert(1)</script>' }])
     expect(page).not.toContain('Continue with <script>')
@@ -17,4 +22,11 @@ describe('renderLoginPage', () => {
     expect(page).toContain('role="alert" aria-live="polite"')
     expect(page).toContain("has('sso_error')")
   })
+
+  it('offers passkey sign-in only when a relying party is configured', () => {
+    expect(renderLoginPage(false, [])).not.toContain('id="passkey"')
+    const page = renderLoginPage(false, [], true)
+    expect(page).toContain('id="passkey"')
+    expect(page).toContain('/api/auth/passkey/options')
+  })
 })
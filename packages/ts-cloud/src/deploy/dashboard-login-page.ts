@@ -71,12 +71,10 @@ const STYLES = `
   .sso-button:hover { border-color: var(--accent); text-decoration: none; }
   .separator { display: flex; align-items: center; gap: 10px; margin: 18px 0 -6px; color: var(--txt3); font-size: 10px; font-weight: 800; text-transform: uppercase; letter-spacing: .06em; }
   .separator::before, .separator::after { content: ''; height: 1px; flex: 1; background: var(--panel-br); }
+  button.secondary { background: rgba(255,255,255,0.04); color: var(--txt); border: 1px solid var(--panel-br); }
+  button.secondary:hover { border-color: var(--accent); filter: none; }
 `
 
-/**
- * The page. `serverless` only picks the post-login landing route, matching the
- * redirect the server already does for a serverless deployment.
- */
 function escapeHtml(value: string): string {
   return value.replace(
     /[&<>"']/g,
@@ -84,21 +82,31 @@ function escapeHtml(value: string): string {
   )
 }
 
+/**
+ * The page. `serverless` only picks the post-login landing route, matching the
+ * redirect the server already does for a serverless deployment. SSO providers
+ * are OIDC unless they say otherwise. `passkeys` offers passwordless sign-in;
+ * it needs a configured dashboard origin.
+ */
 export function renderLoginPage(
   serverless = false,
-  oidcProviders: readonly { slug: string; name: string }[] = [],
+  ssoProviders: readonly { slug: string; name: string; protocol?: 'oidc' | 'saml' }[] = [],
+  passkeys = false,
 ): string {
   const home = serverless ? '/serverless' : '/'
-  const oidcOptions = oidcProviders
+  const ssoOptions = ssoProviders
     .map(
       (provider) =>
-        `<a class="sso-button" href="/auth/oidc/${encodeURIComponent(provider.slug)}/start?return=${encodeURIComponent(home)}">Continue with ${escapeHtml(provider.name)}</a>`,
+        `<a class="sso-button" href="/auth/${provider.protocol ?? 'oidc'}/${encodeURIComponent(provider.slug)}/start?return=${encodeURIComponent(home)}">Continue with ${escapeHtml(provider.name)}</a>`,
     )
     .join('')
   const sso =
-    oidcProviders.length > 0
-      ? `<div class="sso" aria-label="Single sign-on">${oidcOptions}</div><div class="separator"><span>or use local recovery</span></div>`
+    ssoProviders.length > 0
+      ? `<div class="sso" aria-label="Single sign-on">${ssoOptions}</div><div class="separator"><span>or use local recovery</span></div>`
       : ''
+  const passkeyOption = passkeys
+    ? '<div class="separator"><span>or</span></div><form><button type="button" class="secondary" id="passkey">Sign in with a passkey</button></form>'
+    : ''
   return `<!doctype html>
 <html lang="en">
 <head>
@@ -132,7 +140,9 @@ export function renderLoginPage(
         <input id="password" name="password" type="password" autocomplete="current-password" required>
       </div>
       <button type="submit" id="submit">Sign in</button>
+      <button type="button" class="hidden secondary" id="mfa-key">Use a security key</button>
     </form>
+    ${passkeyOption}
 
     <p class="msg" id="msg" role="alert" aria-live="polite"></p>
     <p class="note"><a href="/forgot-password">Forgot your password?</a></p>
@@ -144,7 +154,76 @@ export function renderLoginPage(
   const submit = document.getElementById('submit')
   const mfaField = document.getElementById('mfa-field')
   const mfaCode = document.getElementById('mfa-code')
+  const mfaKey = document.getElementById('mfa-key')
+  const passkey = document.getElementById('passkey')
   let challengeToken = ''
+  let keyOptions = null
+
+  const fromBase64Url = (value) =>
+    Uint8Array.from(atob(value.replaceAll('-', '+').replaceAll('_', '/')), (character) => character.charCodeAt(0))
+  const toBase64Url = (buffer) =>
+    btoa(String.fromCharCode(...new Uint8Array(buffer))).replaceAll('+', '-').replaceAll('/', '_').replace(/=+$/, '')
+
+  async function useKey(options) {
+    const credential = await navigator.credentials.get({
+      publicKey: {
+        ...options,
+        challenge: fromBase64Url(options.challenge),
+        allowCredentials: options.allowCredentials.map((entry) => ({ ...entry, id: fromBase64Url(entry.id) })),
+      },
+    })
+    return {
+      id: credential.id,
+      type: credential.type,
+      response: {
+        clientDataJSON: toBase64Url(credential.response.clientDataJSON),
+        authenticatorData: toBase64Url(credential.response.authenticatorData),
+        signature: toBase64Url(credential.response.signature),
+        userHandle: credential.response.userHandle ? toBase64Url(credential.response.userHandle) : null,
+      },
+    }
+  }
+
+  async function post(path, payload) {
+    const res = await fetch(path, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(payload),
+    })
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok || !body.ok) throw new Error(body.error || 'Could not sign in.')
+    return body
+  }
+
+  function fail(error) {
+    msg.textContent = (error && error.message) || String(error)
+    msg.classList.add('shown')
+  }
+
+  if (mfaKey) mfaKey.addEventListener('click', async () => {
+    msg.classList.remove('shown')
+    mfaKey.disabled = true
+    try {
+      await post('/api/auth/mfa/complete', { challengeToken, credential: await useKey(keyOptions) })
+      location.href = ${JSON.stringify(home)}
+    } catch (error) {
+      fail(error)
+      mfaKey.disabled = false
+    }
+  })
+
+  if (passkey) passkey.addEventListener('click', async () => {
+    msg.classList.remove('shown')
+    passkey.disabled = true
+    try {
+      const started = await post('/api/auth/passkey/options', {})
+      await post('/api/auth/passkey/complete', { credential: await useKey(started.options) })
+      location.href = ${JSON.stringify(home)}
+    } catch (error) {
+      fail(error)
+      passkey.disabled = false
+    }
+  })
 
   if (new URLSearchParams(location.search).has('sso_error')) {
     msg.textContent = 'Single sign-on could not be completed. Try again or use the local recovery path.'
@@ -168,10 +247,17 @@ export function renderLoginPage(
       if (!res.ok || !body.ok) throw new Error(body.error || 'Could not sign in.')
       if (body.mfaRequired) {
         challengeToken = body.challengeToken
-        mfaField.classList.remove('hidden')
-        mfaCode.required = true
+        keyOptions = body.webauthn || null
         document.getElementById('username').readOnly = true
         document.getElementById('password').readOnly = true
+        if (keyOptions) mfaKey.classList.remove('hidden')
+        if (body.totp === false) {
+          submit.classList.add('hidden')
+          mfaKey.focus()
+          return
+        }
+        mfaField.classList.remove('hidden')
+        mfaCode.required = true
         submit.disabled = false
         submit.textContent = 'Verify and sign in'
         mfaCode.focus()
@@ -40,6 +40,8 @@ describe('routePolicy', () => {
     expect(routePolicy('GET', '/api/telemetry/query').capability).toBe('runtime:logs')
     expect(routePolicy('GET', '/api/telemetry/tail').capability).toBe('runtime:logs')
     expect(routePolicy('POST', '/api/telemetry/export').capability).toBe('runtime:logs')
+    expect(routePolicy('GET', '/api/telemetry/traces').capability).toBe('runtime:logs')
+    expect(routePolicy('GET', '/api/telemetry/trace').capability).toBe('runtime:logs')
     expect(routePolicy('PATCH', '/api/telemetry/settings')).toMatchObject({
       capability: 'config:write',
       scope: 'organization',
@@ -105,23 +107,39 @@ describe('policy coverage', () => {
     expect(missing).toEqual([])
   })
 
-  it('keeps the public surface to login, SSO, recovery, logout, and token-authenticated invitation acceptance', () => {
+  it('keeps the public surface to login, passkeys, SSO, recovery, logout, invitations, signed webhooks, and status subscriptions', () => {
     // Anything reachable without a session is worth noticing in review, so pin
     // the exact set rather than asserting a count.
     expect([...PUBLIC_ROUTES].sort()).toEqual([
       'GET /auth/oidc/:provider/callback',
       'GET /auth/oidc/:provider/start',
+      'GET /auth/saml/:provider/metadata',
+      'GET /auth/saml/:provider/slo',
+      'GET /auth/saml/:provider/start',
+      'GET /status/:slug/confirm',
+      'GET /status/:slug/unsubscribe',
+      'POST /api/alerts/webhooks/pagerduty/:channelId',
       'POST /api/auth/mfa/complete',
+      'POST /api/auth/passkey/complete',
+      'POST /api/auth/passkey/options',
       'POST /api/auth/password-reset/complete',
       'POST /api/auth/password-reset/request',
       'POST /api/invitations/accept',
       'POST /api/login',
       'POST /api/logout',
       'POST /api/source/webhooks/:token',
+      'POST /auth/saml/:provider/acs',
+      'POST /status/:slug/subscribe',
     ])
     expect(isPublicRoute('POST', '/api/login')).toBe(true)
     expect(isPublicRoute('POST', '/api/source/webhooks/abcdefghijklmnopqrstuvwxyz')).toBe(true)
+    expect(isPublicRoute('POST', '/api/alerts/webhooks/pagerduty/0b6f3c2e-3f7a-4a51-9d8e-2c4b5a6d7e8f')).toBe(true)
+    expect(isPublicRoute('POST', '/status/acme/subscribe')).toBe(true)
+    expect(isPublicRoute('GET', '/status/acme/subscribe')).toBe(false)
+    expect(isPublicRoute('GET', '/status/acme/unsubscribe')).toBe(true)
     expect(isPublicRoute('GET', '/auth/oidc/workforce/start')).toBe(true)
+    expect(isPublicRoute('POST', '/auth/saml/acme-adfs/acs')).toBe(true)
+    expect(isPublicRoute('POST', '/auth/saml/acme-adfs/slo')).toBe(false)
     expect(isPublicRoute('GET', '/api/dashboard-data')).toBe(false)
     expect(isPublicRoute('POST', '/api/server/command')).toBe(false)
   })
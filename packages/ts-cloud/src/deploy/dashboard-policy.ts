@@ -40,18 +40,34 @@ const FAIL_CLOSED: RoutePolicy = {
 export const PUBLIC_ROUTES: ReadonlySet<string> = new Set([
   'GET /auth/oidc/:provider/callback',
   'GET /auth/oidc/:provider/start',
+  'GET /auth/saml/:provider/metadata',
+  'GET /auth/saml/:provider/start',
+  'POST /auth/saml/:provider/acs',
+  'GET /auth/saml/:provider/slo',
   'POST /api/login',
   'POST /api/logout',
   'POST /api/invitations/accept',
   'POST /api/auth/password-reset/request',
   'POST /api/auth/password-reset/complete',
   'POST /api/auth/mfa/complete',
+  'POST /api/auth/passkey/options',
+  'POST /api/auth/passkey/complete',
   'POST /api/source/webhooks/:token',
+  'POST /api/alerts/webhooks/pagerduty/:channelId',
+  'POST /status/:slug/subscribe',
+  'GET /status/:slug/confirm',
+  'GET /status/:slug/unsubscribe',
 ])
 
 export function isPublicRoute(method: string, pathname: string): boolean {
   if (method.toUpperCase() === 'GET' && /^\/auth\/oidc\/[a-z0-9-]+\/(?:start|callback)$/.test(pathname)) return true
+  if (/^\/auth\/saml\/[a-z0-9-]+\/(?:metadata|start|acs|slo)$/.test(pathname))
+    return method.toUpperCase() === (pathname.endsWith('/acs') ? 'POST' : 'GET')
   if (method.toUpperCase() === 'POST' && /^\/api\/source\/webhooks\/[A-Za-z0-9_-]{16,200}$/.test(pathname)) return true
+  if (method.toUpperCase() === 'POST' && /^\/api\/alerts\/webhooks\/pagerduty\/[A-Za-z0-9-]{8,64}$/.test(pathname))
+    return true
+  if (/^\/status\/[a-z0-9][a-z0-9-]{0,62}\/(?:subscribe|confirm|unsubscribe)$/.test(pathname))
+    return method.toUpperCase() === (pathname.endsWith('/subscribe') ? 'POST' : 'GET')
   return PUBLIC_ROUTES.has(`${method.toUpperCase()} ${pathname}`)
 }
 
@@ -85,6 +101,18 @@ const POLICIES: Record<string, RoutePolicy> = {
   'POST /api/auth/mfa/verify': { capability: 'project:read', anyUser: true },
   'DELETE /api/auth/mfa': { capability: 'project:read', anyUser: true },
   'POST /api/auth/step-up': { capability: 'project:read', anyUser: true },
+  'POST /api/auth/webauthn/register/options': { capability: 'project:read', anyUser: true },
+  'POST /api/auth/webauthn/register': { capability: 'project:read', anyUser: true },
+  'DELETE /api/auth/webauthn/credentials': { capability: 'project:read', anyUser: true },
+  'POST /api/auth/webauthn/step-up/options': { capability: 'project:read', anyUser: true },
+  'GET /api/auth/factor-requirements': {
+    capability: 'users:read',
+    scope: 'organization',
+  },
+  'PUT /api/auth/factor-requirements': {
+    capability: 'users:manage',
+    scope: 'organization',
+  },
 
   'GET /api/auth/oidc/providers': {
     capability: 'users:read',
@@ -98,6 +126,18 @@ const POLICIES: Record<string, RoutePolicy> = {
     capability: 'users:manage',
     scope: 'organization',
   },
+  'GET /api/auth/saml/providers': {
+    capability: 'users:read',
+    scope: 'organization',
+  },
+  'POST /api/auth/saml/providers': {
+    capability: 'users:manage',
+    scope: 'organization',
+  },
+  'PATCH /api/auth/saml/providers': {
+    capability: 'users:manage',
+    scope: 'organization',
+  },
   'GET /api/automation': { capability: 'users:read', scope: 'organization' },
   'POST /api/automation/service-accounts': {
     capability: 'users:manage',
@@ -216,6 +256,37 @@ const POLICIES: Record<string, RoutePolicy> = {
     capability: 'users:manage',
     scope: 'organization',
   },
+  'GET /api/organization/roles': {
+    capability: 'users:read',
+    scope: 'organization',
+  },
+  'POST /api/organization/roles': {
+    capability: 'users:manage',
+    scope: 'organization',
+  },
+  'DELETE /api/organization/roles': {
+    capability: 'users:manage',
+    scope: 'organization',
+  },
+  'POST /api/organization/role-assignments': {
+    capability: 'users:manage',
+    scope: 'organization',
+  },
+  'DELETE /api/organization/role-assignments': {
+    capability: 'users:manage',
+    scope: 'organization',
+  },
+  // Any member may ask for access, and cancel or give up their own. The store
+  // checks that whoever decides holds users:manage where the access applies.
+  'GET /api/organization/access-requests': { capability: 'project:read', anyUser: true },
+  'POST /api/organization/access-requests': { capability: 'project:read', anyUser: true },
+  'DELETE /api/organization/access-requests': { capability: 'project:read', anyUser: true },
+  'POST /api/organization/access-requests/revoke': { capability: 'project:read', anyUser: true },
+  'POST /api/organization/access-requests/decide': { capability: 'users:manage' },
+  'PUT /api/organization/access-requests/break-glass': {
+    capability: 'users:manage',
+    scope: 'organization',
+  },
 
   'GET /api/control-plane/operations': { capability: 'deployments:read' },
   'GET /api/control-plane/events': { capability: 'audit:read' },
@@ -332,6 +403,11 @@ const POLICIES: Record<string, RoutePolicy> = {
   'POST /api/backups/restore': { capability: 'backups:restore' },
   'POST /api/backups/recovery-points': { capability: 'backups:create' },
   'POST /api/backups/retention': { capability: 'backups:create' },
+  'GET /api/drift': { capability: 'deployments:read' },
+  'POST /api/drift/detect': { capability: 'deployments:create' },
+  'POST /api/drift/plan': { capability: 'deployments:read' },
+  'GET /api/change-sets': { capability: 'deployments:read' },
+  'POST /api/change-sets/action': { capability: 'deployments:create' },
   'GET /api/configuration': { capability: 'config:read' },
   'GET /api/configuration/export': { capability: 'config:read' },
   'POST /api/configuration/plan': { capability: 'config:read' },
@@ -411,6 +487,8 @@ const POLICIES: Record<string, RoutePolicy> = {
   'GET /api/telemetry/query': { capability: 'runtime:logs' },
   'GET /api/telemetry/tail': { capability: 'runtime:logs' },
   'GET /api/telemetry/series': { capability: 'runtime:read' },
+  'GET /api/telemetry/traces': { capability: 'runtime:logs' },
+  'GET /api/telemetry/trace': { capability: 'runtime:logs' },
   'POST /api/telemetry/refresh': { capability: 'runtime:logs' },
   'POST /api/telemetry/export': { capability: 'runtime:logs' },
   'GET /api/telemetry/saved-queries': { capability: 'runtime:logs' },
@@ -443,8 +521,21 @@ const POLICIES: Record<string, RoutePolicy> = {
   'GET /api/alerts/rules': { capability: 'runtime:read' },
   'POST /api/alerts/rules': { capability: 'config:write' },
   'PATCH /api/alerts/rules': { capability: 'config:write' },
+  'GET /api/slos': { capability: 'runtime:read' },
+  'POST /api/slos': { capability: 'config:write' },
+  'PATCH /api/slos': { capability: 'config:write' },
   'POST /api/alerts/evaluate': { capability: 'runtime:restart' },
   'POST /api/alerts/action': { capability: 'runtime:restart' },
+  'GET /api/status-pages': { capability: 'runtime:read' },
+  'POST /api/status-pages': { capability: 'config:write' },
+  'PATCH /api/status-pages': { capability: 'config:write' },
+  'POST /api/status-pages/publish': { capability: 'config:write' },
+  'POST /api/status-pages/incidents': { capability: 'runtime:restart' },
+  'POST /api/status-pages/incidents/updates': { capability: 'runtime:restart' },
+  'POST /api/status-pages/maintenance': { capability: 'runtime:restart' },
+  'DELETE /api/status-pages/maintenance': { capability: 'runtime:restart' },
+  'POST /api/status-pages/subscribers': { capability: 'config:write' },
+  'DELETE /api/status-pages/subscribers': { capability: 'config:write' },
   'POST /api/alerts/silences': { capability: 'config:write' },
   'GET /api/notifications/channels': {
     capability: 'automation:read',
@@ -478,6 +569,38 @@ const POLICIES: Record<string, RoutePolicy> = {
     capability: 'automation:read',
     scope: 'organization',
   },
+  'GET /api/oncall/schedules': {
+    capability: 'automation:read',
+    scope: 'organization',
+  },
+  'POST /api/oncall/schedules': {
+    capability: 'automation:manage',
+    scope: 'organization',
+  },
+  'PATCH /api/oncall/schedules': {
+    capability: 'automation:manage',
+    scope: 'organization',
+  },
+  'POST /api/oncall/overrides': {
+    capability: 'automation:manage',
+    scope: 'organization',
+  },
+  'DELETE /api/oncall/overrides': {
+    capability: 'automation:manage',
+    scope: 'organization',
+  },
+  'POST /api/oncall/contacts': {
+    capability: 'automation:manage',
+    scope: 'organization',
+  },
+  'GET /api/escalation-policies': {
+    capability: 'automation:read',
+    scope: 'organization',
+  },
+  'POST /api/escalation-policies': {
+    capability: 'automation:manage',
+    scope: 'organization',
+  },
   'GET /api/notifications/deliveries': {
     capability: 'automation:read',
     scope: 'organization',
@@ -493,6 +616,7 @@ const POLICIES: Record<string, RoutePolicy> = {
   'POST /api/jobs/action': { capability: 'automation:manage' },
   'POST /api/jobs/reconcile': { capability: 'automation:manage' },
   'GET /api/jobs/history': { capability: 'automation:read' },
+  'GET /api/jobs/runs': { capability: 'automation:read' },
   'GET /api/workers': { capability: 'automation:read' },
   'POST /api/workers/action': { capability: 'automation:manage' },
   'POST /api/actions/run': { capability: 'fleet:manage' },
@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { createHash, sign } from 'node:crypto'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { inflateRawSync } from 'node:zlib'
+import { createSamlServiceProviderKey } from '../auth'
+import { canonicalizeXml, parseXml } from '../auth/xmldsig'
+import { hashPassword } from './dashboard-auth'
+import { startLocalDashboardServer } from './local-dashboard-server'
+import { saveUsers } from './dashboard-users'
+
+let root: string | undefined
+let running: Awaited<ReturnType<typeof startLocalDashboardServer>> | undefined
+
+afterEach(() => {
+  running?.server.stop(true)
+  running = undefined
+  if (root) rmSync(root, { recursive: true, force: true })
+  root = undefined
+})
+
+const ds = 'http://www.w3.org/2000/09/xmldsig#'
+const bindings = 'urn:oasis:names:tc:SAML:2.0:bindings'
+const idpEntityId = 'https://idp.acme.test/adfs/services/trust'
+const idpKey = createSamlServiceProviderKey('idp.acme.test')
+
+function cookie(response: Response): string {
+  return response.headers.get('set-cookie')?.split(';')[0] ?? ''
+}
+
+function idpMetadata(): string {
+  const certificate = idpKey.certificate.replace(/-----[A-Z ]+-----|\s+/g, '')
+  return `<EntityDescriptor xmlns="urn:oasis:names:tc:SAML:2.0:metadata" entityID="${idpEntityId}">
+  <IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+    <KeyDescriptor use="signing"><KeyInfo xmlns="${ds}"><X509Data>
+      <X509Certificate>${certificate}</X509Certificate>
+    </X509Data></KeyInfo></KeyDescriptor>
+    <SingleLogoutService Binding="${bindings}:HTTP-Redirect" Location="https://idp.acme.test/adfs/ls/"/>
+    <SingleSignOnService Binding="${bindings}:HTTP-Redirect" Location="https://idp.acme.test/adfs/ls/"/>
+  </IDPSSODescriptor>
+</EntityDescriptor>`
+}
+
+/** A signed Response carrying one signed Assertion, as ADFS sends it to the ACS. */
+function signedResponse(input: { acsUrl: string; audience: string; inResponseTo: string }): string {
+  const now = Date.now()
+  const at = (offsetMs: number) => new Date(now + offsetMs).toISOString()
+  const assertion =
+    '<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_assertion-1" Version="2.0" ' +
+    `IssueInstant="${at(0)}"><saml:Issuer>${idpEntityId}</saml:Issuer><saml:Subject>` +
+    '<saml:NameID Format="urn:oasis:names:tc:SAML:2.0:nameid-format:persistent">S-1-5-21-42</saml:NameID>' +
+    '<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">' +
+    `<saml:SubjectConfirmationData InResponseTo="${input.inResponseTo}" NotOnOrAfter="${at(300_000)}" ` +
+    `Recipient="${input.acsUrl}"/></saml:SubjectConfirmation></saml:Subject>` +
+    `<saml:Conditions NotBefore="${at(-60_000)}" NotOnOrAfter="${at(3_600_000)}"><saml:AudienceRestriction>` +
+    `<saml:Audience>${input.audience}</saml:Audience></saml:AudienceRestriction></saml:Conditions>` +
+    '<saml:AttributeStatement><saml:Attribute Name="email">' +
+    '<saml:AttributeValue>chris@acme.test</saml:AttributeValue></saml:Attribute>' +
+    '<saml:Attribute Name="groups"><saml:AttributeValue>Release Managers</saml:AttributeValue></saml:Attribute>' +
+    `</saml:AttributeStatement><saml:AuthnStatement AuthnInstant="${at(0)}" SessionIndex="_session-7"/>` +
+    '</saml:Assertion>'
+  const element = parseXml(assertion)
+  const digest = createHash('sha256').update(canonicalizeXml(element)).digest('base64')
+  const signedInfo =
+    `<ds:SignedInfo xmlns:ds="${ds}"><ds:CanonicalizationMethod Algorithm="http://www.w3.org/2001/10/xml-exc-c14n#"/>` +
+    '<ds:SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"/>' +
+    '<ds:Reference URI="#_assertion-1"><ds:Transforms>' +
+    `<ds:Transform Algorithm="${ds}enveloped-signature"/>` +
+    '<ds:Transform Algorithm="http://www.w3.org/2001/10/xml-exc-c14n#"/></ds:Transforms>' +
+    '<ds:DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"/>' +
+    `<ds:DigestValue>${digest}</ds:DigestValue></ds:Reference></ds:SignedInfo>`
+  const value = sign('sha256', Buffer.from(canonicalizeXml(parseXml(signedInfo))), idpKey.privateKey)
+  const signature =
+    `<ds:Signature xmlns:ds="${ds}">${signedInfo}` +
+    `<ds:SignatureValue>${value.toString('base64')}</ds:SignatureValue></ds:Signature>`
+  const signed = assertion.replace('</saml:Issuer>', `</saml:Issuer>${signature}`)
+  const xml =
+    '<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ID="_response-1" Version="2.0" ' +
+    `InResponseTo="${input.inResponseTo}" IssueInstant="${at(0)}" Destination="${input.acsUrl}">` +
+    '<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>' +
+    `${signed}</samlp:Response>`
+  return Buffer.from(xml).toString('base64')
+}
+
+describe('dashboard SAML integration', () => {
+  it('configures a provider, signs in through the ACS, and logs out at the IdP', async () => {
+    root = mkdtempSync(join(tmpdir(), 'ts-cloud-dashboard-saml-'))
+    saveUsers(root, [
+      {
+        username: 'owner',
+        passwordHash: hashPassword('correct horse battery staple'),
+        role: 'admin',
+        sites: {},
+        name: 'Owner',
+        createdAt: new Date().toISOString(),
+      },
+    ])
+    running = await startLocalDashboardServer({
+      cwd: root,
+      host: '127.0.0.1',
+      port: 0,
+      config: {
+        project: { name: 'Acme', slug: 'acme', region: 'us-east-1' },
+        environments: { production: { type: 'production' } },
+      } as any,
+    })
+    const base = running.url.replace(/\/$/, '')
+    const dashboardFetch = (path: string, init?: RequestInit): Response | Promise<Response> =>
+      running!.server.fetch(new Request(`${base}${path}`, init))
+    const login = await dashboardFetch('/api/login', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', origin: base },
+      body: JSON.stringify({ username: 'owner', password: 'correct horse battery staple' }),
+    })
+    expect(login.status).toBe(200)
+    const ownerCookie = cookie(login)
+
+    const configured = await dashboardFetch('/api/auth/saml/providers', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', cookie: ownerCookie, origin: base },
+      body: JSON.stringify({
+        slug: 'acme-adfs',
+        name: 'Acme ADFS',
+        metadataXml: idpMetadata(),
+        allowedDomains: ['acme.test'],
+        defaultRole: 'viewer',
+        roleMappings: [{ value: 'Release Managers', role: 'deployer' }],
+      }),
+    })
+    expect(configured.status).toBe(200)
+    const configuredBody = (await configured.json()) as any
+    expect(configuredBody.provider.entityId).toBe(idpEntityId)
+    expect(configuredBody.serviceProvider.acsUrl).toBe(`${base}/auth/saml/acme-adfs/acs`)
+    expect(JSON.stringify(configuredBody)).not.toContain('PRIVATE KEY')
+
+    const metadata = await dashboardFetch('/auth/saml/acme-adfs/metadata')
+    expect(metadata.status).toBe(200)
+    expect(await metadata.text()).toContain(`Location="${base}/auth/saml/acme-adfs/acs"`)
+    const loginPage = await (await dashboardFetch('/login')).text()
+    expect(loginPage).toContain('/auth/saml/acme-adfs/start')
+
+    const started = await dashboardFetch(`/auth/saml/acme-adfs/start?return=${encodeURIComponent('/deployments')}`)
+    expect(started.status).toBe(302)
+    const redirect = new URL(started.headers.get('location')!)
+    expect(redirect.origin).toBe('https://idp.acme.test')
+    const authnRequest = inflateRawSync(Buffer.from(redirect.searchParams.get('SAMLRequest')!, 'base64')).toString()
+    const requestId = /ID="([^"]+)"/.exec(authnRequest)![1]!
+
+    // The IdP posts cross-site, so the ACS must not depend on the dashboard origin header.
+    const form = new URLSearchParams({
+      SAMLResponse: signedResponse({
+        acsUrl: `${base}/auth/saml/acme-adfs/acs`,
+        audience: `${base}/auth/saml/acme-adfs/metadata`,
+        inResponseTo: requestId,
+      }),
+      RelayState: redirect.searchParams.get('RelayState')!,
+    })
+    const acs = await dashboardFetch('/auth/saml/acme-adfs/acs', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/x-www-form-urlencoded',
+        origin: 'https://idp.acme.test',
+        'sec-fetch-site': 'cross-site',
+      },
+      body: form,
+    })
+    expect(acs.status).toBe(302)
+    expect(acs.headers.get('location')).toBe('/deployments')
+    const samlCookie = cookie(acs)
+    const me = await dashboardFetch('/api/me', { headers: { cookie: samlCookie } })
+    expect(me.status).toBe(200)
+    expect(await me.json()).toMatchObject({
+      user: { email: 'chris@acme.test' },
+      membership: { roleTemplate: 'deployer', status: 'active' },
+    })
+
+    const replayed = await dashboardFetch('/auth/saml/acme-adfs/acs', {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: form,
+    })
+    expect(replayed.headers.get('location')).toBe('/login?sso_error=callback')
+
+    const logout = await dashboardFetch('/api/logout', {
+      method: 'POST',
+      headers: { cookie: samlCookie, origin: base, accept: 'text/html' },
+    })
+    expect(logout.status).toBe(302)
+    const sloRequest = new URL(logout.headers.get('location')!)
+    expect(sloRequest.origin).toBe('https://idp.acme.test')
+    expect(sloRequest.searchParams.has('SAMLRequest')).toBe(true)
+    expect(sloRequest.searchParams.has('Signature')).toBe(true)
+    expect((await dashboardFetch('/api/me', { headers: { cookie: samlCookie } })).status).toBe(401)
+
+    const disabled = await dashboardFetch('/api/auth/saml/providers', {
+      method: 'PATCH',
+      headers: { 'content-type': 'application/json', cookie: ownerCookie, origin: base },
+      body: JSON.stringify({ id: configuredBody.provider.id, enabled: false }),
+    })
+    expect(disabled.status).toBe(200)
+    expect((await dashboardFetch('/auth/saml/acme-adfs/metadata')).status).toBe(404)
+    expect((await dashboardFetch('/auth/saml/acme-adfs/start')).headers.get('location')).toBe('/login?sso_error=start')
+  })
+})
@@ -1,13 +1,16 @@
 import type { CloudConfig, EnvironmentType } from '@ts-cloud/core'
-import type { AuthOidcRole, OidcFetch } from '../auth'
+import type { NotificationEmail } from '../alerts'
+import type { AuthOidcRole, AuthSamlIdpMetadata, AuthSamlRoleMapping, OidcFetch, WebAuthnAssertionResponse, WebAuthnRegistrationResponse } from '../auth'
 import type { BackupDestination, BackupPolicy } from '../backups'
+import type { StackChangeSetStatus } from '../change-sets'
 import type { ConfigurationScope } from '../configuration'
-import type { AuthorizationCapability, AuthorizationScope, ControlPlaneStore, JsonValue, OperationState, OrganizationRoleTemplate } from '../control-plane'
+import type { AuthorizationCapability, AuthorizationScope, ControlPlaneStore, CustomRoleRule, JsonValue, OperationState, OrganizationRoleTemplate } from '../control-plane'
 import type { DataAction, DataEngine, DataProvider, DataService } from '../data-services'
 import type { JobExecutor } from '../jobs'
 import type { CleanupPlan } from '../maintenance'
 import type { ReleaseDriverResolver } from '../release'
 import type { SpendGate, SpendService, SpendStore } from '../spend'
+import type { StatusComponentInput, StatusIncidentImpact, StatusIncidentStatus } from '../status-page'
 import type { RuntimeStreamSnapshot } from '../runtime'
 import type {
   TelemetryAggregation,
@@ -23,22 +26,35 @@ import { readFile, writeFile } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { dirname, extname, join, normalize, relative, resolve, sep } from 'node:path'
 import { fileURLToPath } from 'node:url'
-import { resolveAppDatabase, resolveDeploymentMode, resolveStatePath } from '@ts-cloud/core'
-import { AlertStore, evaluateTelemetryAlertRules, HealthCheckRunner, NotificationRouter } from '../alerts'
+import { resolveAppDatabase, resolveDeploymentMode, resolveProjectStackName, resolveStatePath } from '@ts-cloud/core'
+import {
+  AlertEvaluator,
+  AlertStore,
+  computeSloStatus,
+  evaluateSloAlertRules,
+  evaluateSloReleaseGate,
+  evaluateTelemetryAlertRules,
+  HealthCheckRunner,
+  NotificationRouter,
+  processPagerDutyWebhook,
+  readIncidentWebhookBody,
+} from '../alerts'
 import { createApiV1Handler } from '../api'
-import { AUTH_SESSION_ABSOLUTE_TTL_MS, AuthenticationStore, beginOidcAuthorization, completeOidcAuthorization, resolveAuthEncryptionKey, sendAuthenticationEmail } from '../auth'
+import { AccessRequestStore, AUTH_ACCESS_REQUEST_MAX_DURATION_SECONDS, AUTH_BREAK_GLASS_EXCLUDED_CAPABILITIES, AUTH_BREAK_GLASS_MAX_DURATION_SECONDS, AUTH_SESSION_ABSOLUTE_TTL_MS, AuthenticationStore, beginOidcAuthorization, beginSamlAuthentication, beginSamlLogout, completeOidcAuthorization, completeSamlAuthentication, completeSamlLogout, fetchSamlIdpMetadata, parseSamlIdpMetadata, renderSamlServiceProviderMetadata, resolveAuthEncryptionKey, resolveWebAuthnAttestationRoots, samlServiceProvider, sendAuthenticationEmail } from '../auth'
 import { AutomationIdentityStore } from '../automation'
 import { AwsBackupClient } from '../aws/backup'
 import { ElastiCacheClient } from '../aws/elasticache'
 import { RDSClient } from '../aws/rds'
 import { SecretsManagerClient } from '../aws/secrets-manager'
 import { SSMClient } from '../aws/ssm'
-import { AwsDatabaseBackupSource, AwsInfrastructureBackupSource, BackupCoordinator, backupCredentialStatus, BackupStore, ControlPlaneBackupSource, createBackupQueueHandlers, DockerVolumeBackupSource, FilesystemBackupSource, LogicalDatabaseBackupSource, S3BackupDestinationAdapter } from '../backups'
+import { AwsDatabaseBackupSource, AwsInfrastructureBackupSource, AzureBlobBackupDestinationAdapter, BackupCoordinator, backupCredentialStatus, BackupStore, ControlPlaneBackupSource, createBackupQueueHandlers, DockerVolumeBackupSource, FilesystemBackupSource, GcsBackupDestinationAdapter, LogicalDatabaseBackupSource, S3BackupDestinationAdapter } from '../backups'
 import { buildComposeLogsCommand, buildComposeShellCommand, ComposeApplicationService, listComposeTemplates } from '../compose'
 import { loadCloudConfig } from '../config'
 import { AwsSecretsManagerConfigurationBackend, AwsSsmConfigurationBackend, ConfigurationService, ConfigurationStore, ExternalConfigurationBackend, LocalEncryptedConfigurationBackend, synchronizeConfiguredConfiguration } from '../configuration'
-import { AUTHORIZATION_CAPABILITIES, authorizeOrganization, effectiveCapabilities, searchControlPlane } from '../control-plane'
+import { AUTHORIZATION_CAPABILITIES, authorizeOrganization, effectiveCapabilities, OptimisticConcurrencyError, searchControlPlane } from '../control-plane'
 import { AwsAuroraDataAdapter, AwsAuroraTransport, AwsElastiCacheDataAdapter, AwsElastiCacheTransport, AwsRdsDataAdapter, AwsRdsTransport, connectionGuidance, ContainerDataAdapter, createDataServiceQueueHandlers, dataServiceCapabilities, DataServiceLifecycle, DataServiceStore, DockerDataTransport, EncryptedDataSecretStore, ServerDataAdapter } from '../data-services'
+import { ChangeSetService, StackChangeSetStore } from '../change-sets'
+import { DriftService, DriftStore } from '../drift'
 import { createFleetQueueHandlers, FleetService, FleetStore, SshFleetDriver } from '../fleet'
 import { createJobQueueHandlers, jobProviderCapability, JobService, JobStore, previewSchedule, synchronizeConfiguredJobs } from '../jobs'
 import { ControlPlaneCleanupDriver, createMaintenanceQueueHandlers, MaintenanceService, MaintenanceStore } from '../maintenance'
@@ -51,6 +67,7 @@ import { createReleaseQueueHandlers, ReleaseService, releaseStrategyCapabilities
 import { resolveRuntimeInventory, RuntimeOperationService, RuntimeStreamRegistry } from '../runtime'
 import { ensureDefaultSecurityPolicies, productionChangeReview, recordDashboardHostPosture, SecretFindingScanner, SecurityPostureStore, SecurityScannerRunner, securityScope } from '../security'
 import { cloneSourceBinding, createSourceAdapter, listSourceReferences, processSourceWebhook, reconcileSourceWebhook, removeSourceWebhook, SourceConnectionStore, syncSourceRepositories, testSourceConnection, webhookEndpoint } from '../source'
+import { publishStatusPage, StatusPageStore, StatusSubscriberNotifier } from '../status-page'
 import { createVolumeQueueHandlers, DockerNamedVolumeDriver, ServerPathVolumeDriver, VolumeService, VolumeStore } from '../storage'
 import { loadTelemetryPolicy, saveTelemetryPolicy, telemetryCursor, telemetryEstimatedMonthlyCost, TelemetryStore } from '../telemetry'
 import { hashPassword, passwordNeedsRehash, verifyPassword } from './dashboard-auth'
@@ -61,7 +78,7 @@ import { backupDatabase, createDatabase, createDatabaseUser, describeVitess, isV
 import { actOnMigration, applySchemaChange, applyVSchema, createKeyspace, installVtctldClient, listMigrations } from './dashboard-vitess'
 import { provisionVitessFromDashboard } from './dashboard-vitess-provision'
 import { createDashboardGuard, siteFromRequest } from './dashboard-guard'
-import { localLoginRequiresSso, resolveOidcDashboardIdentity, synchronizeDashboardIdentities } from './dashboard-identities'
+import { localLoginRequiresSso, provisionScimDashboardIdentity, resolveOidcDashboardIdentity, resolveSamlDashboardIdentity, synchronizeDashboardIdentities } from './dashboard-identities'
 import { renderLoginPage, renderPasswordRecoveryPage } from './dashboard-login-page'
 import { buildDashboardOperations, resolveDashboardOperation, runDashboardOperation, runServerShellCommand } from './dashboard-operations'
 import { resolveLegacyDashboardRoute } from './dashboard-route-manifest'
@@ -74,9 +91,12 @@ import { LoginThrottle } from './dashboard-throttle'
 import { describeUser, ensureAdminUser, findUser, isValidUsername, loadUsers, removeUser, updateUserPassword, upsertMember, usersFile } from './dashboard-users'
 import { addFirewallPort, isValidPort, normalizePorts, removeFirewallPort } from './firewall-config-editor'
 import { resolveUiSource } from './management-dashboard'
+import { createOtlpReceiver } from './otlp-receiver'
+import { createScimEndpoint } from './scim-endpoint'
 import { buildServerlessOperations, configuredSecretIds, controlScheduler, createAlarm, deleteAlarm, deleteServerlessSecret, listAlarms, listDlqMessages, listTraces, purgeDlq, redriveDlq, resolveServerlessOperation, runServerlessCommand, runServerlessOperation, setServerlessSecret, updateFunctionConfig } from './serverless-operations'
 import { addSiteToCloudConfig, isValidHostname, removeSiteFromCloudConfig, renderAliasesValue, renderEnvValue, renderRedirectsValue, renderSslValue, renderStringValue, setSitePropertyInCloudConfig } from './site-config-editor'
 import { addSshKeyToCloudConfig, describeSshKeys, removeSshKeyFromCloudConfig } from './ssh-config-editor'
+import { createStatusSubscriptionEndpoint } from './status-page-subscriptions'
 import { resolveTelemetryResourceIds } from './telemetry-access'
 import { collectDashboardTelemetry, invalidateDashboardTelemetryCache } from './telemetry-collection'
 import { createTerminalSession } from './terminal-session'
@@ -505,8 +525,12 @@ const RECENT_AUTH_MUTATIONS: ReadonlySet<string> = new Set([
   'DELETE /api/organization/memberships',
   'POST /api/organization/grants',
   'DELETE /api/organization/grants',
+  'PUT /api/organization/access-requests/break-glass',
   'POST /api/auth/oidc/providers',
   'PATCH /api/auth/oidc/providers',
+  'POST /api/auth/saml/providers',
+  'PATCH /api/auth/saml/providers',
+  'PUT /api/auth/factor-requirements',
   'POST /api/automation/service-accounts',
   'PATCH /api/automation/service-accounts',
   'POST /api/automation/tokens',
@@ -526,6 +550,8 @@ const RECENT_AUTH_MUTATIONS: ReadonlySet<string> = new Set([
   'PATCH /api/health/checks',
   'POST /api/alerts/rules',
   'PATCH /api/alerts/rules',
+  'POST /api/slos',
+  'PATCH /api/slos',
   'POST /api/alerts/silences',
   'POST /api/spend/budgets',
   'PATCH /api/spend/budgets',
@@ -541,6 +567,14 @@ const RECENT_AUTH_MUTATIONS: ReadonlySet<string> = new Set([
   'PATCH /api/notifications/channels',
   'POST /api/notifications/routes',
   'PATCH /api/notifications/routes',
+  'POST /api/oncall/schedules',
+  'POST /api/status-pages',
+  'PATCH /api/status-pages',
+  'POST /api/status-pages/publish',
+  'POST /api/status-pages/subscribers',
+  'PATCH /api/oncall/schedules',
+  'POST /api/oncall/contacts',
+  'POST /api/escalation-policies',
   'POST /api/jobs',
   'PATCH /api/jobs',
   'POST /api/jobs/reconcile',
@@ -1390,7 +1424,10 @@ export async function startLocalDashboardServer(
 
   const secret = resolveSessionSecret(cwd)
   const bootstrap = authEnabled ? ensureAdminUser(cwd, process.env.TS_CLOUD_UI_USERNAME?.trim() || 'admin') : undefined
-  const authentication = new AuthenticationStore(controlPlane.store, { encryptionKey: resolveAuthEncryptionKey(cwd) })
+  const authentication = new AuthenticationStore(controlPlane.store, {
+    encryptionKey: resolveAuthEncryptionKey(cwd),
+    attestationRoots: resolveWebAuthnAttestationRoots(cwd),
+  })
   const automationIdentities = new AutomationIdentityStore(controlPlane.store)
   const securityPosture = new SecurityPostureStore(controlPlane.store)
   const sourceConnections = new SourceConnectionStore(controlPlane.store, {
@@ -1431,7 +1468,13 @@ export async function startLocalDashboardServer(
   const resolveDataAdapter = (service: DataService) => dataAdapters[service.provider as keyof typeof dataAdapters]
   const backupStore = new BackupStore(controlPlane.store)
   const backupCoordinator = new BackupCoordinator(backupStore, operationQueue)
-  const backupDestination = new S3BackupDestinationAdapter(dataServiceSecrets)
+  const s3BackupDestination = new S3BackupDestinationAdapter(dataServiceSecrets)
+  const backupDestinations = {
+    aws_s3: s3BackupDestination,
+    s3_compatible: s3BackupDestination,
+    azure_blob: new AzureBlobBackupDestinationAdapter(dataServiceSecrets),
+    gcs: new GcsBackupDestinationAdapter(dataServiceSecrets),
+  } as const
   const backupSources = {
     managed_database: new AwsDatabaseBackupSource(dataServiceStore, rdsClient),
     logical_database: new LogicalDatabaseBackupSource(dataServiceStore, dataServiceSecrets),
@@ -1442,7 +1485,7 @@ export async function startLocalDashboardServer(
   } as const
   const resolveBackupSource = (policy: BackupPolicy) => backupSources[policy.resourceKind as keyof typeof backupSources]
   const resolveBackupDestination = (destination: BackupDestination) =>
-    destination.provider === 'aws_backup' ? undefined : backupDestination
+    destination.provider === 'aws_backup' ? undefined : backupDestinations[destination.provider]
   const volumeStore = new VolumeStore(controlPlane.store)
   const volumeDrivers = [new DockerNamedVolumeDriver(), new ServerPathVolumeDriver(resolveStatePath(cwd, 'volumes'))]
   const volumeService = new VolumeService(volumeStore, volumeDrivers, operationQueue)
@@ -1486,14 +1529,29 @@ export async function startLocalDashboardServer(
       environment: environmentRecord,
       resources: controlPlane.store.listResources(controlPlane.project.id, environmentRecord.id),
     })
-  const notificationRouter = new NotificationRouter(alertStore, {
-    emailImpl: async (input) => {
-      const { email } = await import('../aws/email')
-      return email.send(input)
-    },
-  })
+  const sendNotificationEmail: NotificationEmail = async (input) => {
+    const { email } = await import('../aws/email')
+    return email.send(input)
+  }
+  const notificationRouter = new NotificationRouter(alertStore, { emailImpl: sendNotificationEmail })
+  const accessRequests = new AccessRequestStore(controlPlane.store, { alerts: alertStore })
+  const statusPages = new StatusPageStore(alertStore, { encryptionKey: resolveAuthEncryptionKey(cwd) })
+  const statusNotifier = new StatusSubscriberNotifier(statusPages, { emailImpl: sendNotificationEmail })
+  // Only pages that have been published once by hand: the first publish
+  // creates the bucket, distribution, and certificate, which should be a
+  // deliberate step rather than a side effect of a health sweep.
+  const republishStatusPages = async () => {
+    for (const page of statusPages.listPages(controlPlane.project.id))
+      if (page.autoPublish && page.publishedAt)
+        await publishStatusPage(statusPages, page.id).catch((error) =>
+          console.error(`ts-cloud status page ${page.slug} publish failed:`, error),
+        )
+  }
   const evaluateAlerts = async (environmentId?: string) => {
-    const evaluations = evaluateTelemetryAlertRules(alertStore, controlPlane.project.id, environmentId)
+    const evaluations = [
+      ...evaluateTelemetryAlertRules(alertStore, controlPlane.project.id, environmentId),
+      ...evaluateSloAlertRules(alertStore, controlPlane.project.id, environmentId),
+    ]
     const deliveries = []
     for (const evaluation of evaluations.filter((item) => item.notify && item.alert))
       deliveries.push(
@@ -1505,17 +1563,57 @@ export async function startLocalDashboardServer(
           ),
         )),
       )
+    const firing = alertStore.listAlerts(controlPlane.project.id, { environmentId, states: ['firing'] })
     deliveries.push(
       ...(await notificationRouter.deliverAll(
-        notificationRouter.enqueueRemindersAndEscalations(
-          controlPlane.organization.id,
-          alertStore.listAlerts(controlPlane.project.id, { environmentId, states: ['firing'] }),
+        notificationRouter.enqueueRemindersAndEscalations(controlPlane.organization.id, firing),
+      )),
+    )
+    deliveries.push(
+      ...(await notificationRouter.deliverAll(
+        notificationRouter.enqueuePages(
+          new AlertEvaluator(alertStore).escalate(controlPlane.organization.id, firing, new Date()),
         ),
       )),
     )
     deliveries.push(...(await notificationRouter.retryDue()))
     return { evaluations, deliveries }
   }
+  const driftService = new DriftService(new DriftStore(controlPlane.store), { alerts: alertStore })
+  const changeSetService = new ChangeSetService(new StackChangeSetStore(controlPlane.store))
+  const detectDrift = async (environmentId: string | undefined, stackName: string, actorId?: string) => {
+    const environmentRecord = [...controlPlane.environments.values()].find((item) => item.id === environmentId),
+      result = await driftService.detect({
+        projectId: controlPlane.project.id,
+        environmentId,
+        production: environmentRecord?.kind === 'production',
+        stackName,
+        region: environmentRecord?.region ?? dataServiceRegion,
+        actorId,
+      })
+    if (result.alert?.notify && result.alert.alert)
+      await notificationRouter.deliverAll(
+        notificationRouter.enqueue(
+          controlPlane.organization.id,
+          result.alert.alert,
+          result.alert.transition as 'firing' | 'resolved',
+        ),
+      )
+    return result
+  }
+  // Only stacks someone has checked once are swept: projects deployed to
+  // servers have no stack, and CloudFormation rate-limits drift detection.
+  let driftSweepRunning = false
+  const sweepDrift = async () => {
+    if (driftSweepRunning) return
+    driftSweepRunning = true
+    try {
+      for (const snapshot of driftService.store.latestSnapshots(controlPlane.project.id))
+        await detectDrift(snapshot.environmentId, snapshot.stackName)
+    } finally {
+      driftSweepRunning = false
+    }
+  }
   let healthSweepRunning = false
   const evaluateHealthChecks = async () => {
     if (healthSweepRunning) return
@@ -1537,6 +1635,7 @@ export async function startLocalDashboardServer(
               ),
             )
         }
+      await republishStatusPages()
     } finally {
       healthSweepRunning = false
     }
@@ -1562,11 +1661,17 @@ export async function startLocalDashboardServer(
     try {
       backupCoordinator.enqueueDue()
       backupCoordinator.enqueueRetention()
+      backupCoordinator.enqueueLogArchives()
     } catch (error) {
       console.error('ts-cloud backup policy evaluation failed:', error)
     }
   }, 30_000)
   backupScheduleSweep.unref?.()
+  const driftDetectionSweep = setInterval(
+    () => void sweepDrift().catch((error) => console.error('ts-cloud drift detection failed:', error)),
+    60 * 60 * 1000,
+  )
+  driftDetectionSweep.unref?.()
   previewService.cleanup()
   const previewCleanupSweep = setInterval(
     () => {
@@ -1579,6 +1684,14 @@ export async function startLocalDashboardServer(
     60 * 60 * 1000,
   )
   previewCleanupSweep.unref?.()
+  const accessRequestSweep = setInterval(() => {
+    try {
+      accessRequests.expire()
+    } catch (error) {
+      console.error('ts-cloud access request expiry failed:', error)
+    }
+  }, 60_000)
+  accessRequestSweep.unref?.()
   const queueWorkerEnabled = options.queueWorker ?? process.env.NODE_ENV !== 'test'
   const queueSecrets = deploymentLogSecrets()
   const executeScheduledJob: JobExecutor = async (job, target) => {
@@ -1788,7 +1901,7 @@ export async function startLocalDashboardServer(
               }
             },
           }),
-          ...createJobQueueHandlers({ store: jobStore, executor: executeScheduledJob }),
+          ...createJobQueueHandlers({ store: jobStore, executor: executeScheduledJob, service: jobService }),
           ...createDataServiceQueueHandlers({
             store: dataServiceStore,
             secrets: dataServiceSecrets,
@@ -1845,6 +1958,12 @@ export async function startLocalDashboardServer(
                 },
               })),
             resolveHealthGate: async (name, release) => {
+              if (name.startsWith('slo:')) {
+                const slo = alertStore.getSloByName(release.projectId, name.slice(4))
+                if (!slo || (slo.environmentId && slo.environmentId !== release.environmentId))
+                  return { healthy: false, message: `SLO ${name.slice(4)} was not found for this release.` }
+                return evaluateSloReleaseGate(alertStore, slo)
+              }
               const check = alertStore
                 .listHealthChecks(release.projectId, release.environmentId)
                 .find(
@@ -1930,9 +2049,26 @@ export async function startLocalDashboardServer(
     sources: sourceConnections,
     applications: { drafts: applicationDrafts, artifacts: applicationArtifacts, registries: registryConnections },
   })
+  const otlp = createOtlpReceiver({
+    controlPlane: controlPlane.store,
+    identities: automationIdentities,
+    projectId: controlPlane.project.id,
+  })
+  const scim = createScimEndpoint({
+    controlPlane: controlPlane.store,
+    identities: automationIdentities,
+    authentication,
+    provisionIdentity: (input) => provisionScimDashboardIdentity(authentication, controlPlane, cwd, input),
+  })
+  const statusSubscriptions = createStatusSubscriptionEndpoint({ store: statusPages, notifier: statusNotifier })
   const userAgentLabel = (req: Request): string | undefined =>
     req.headers.get('user-agent')?.trim().slice(0, 256) || undefined
-  const issueSession = (identityId: string, req: Request, address: string, authMethod: 'local' | 'oidc' = 'local') =>
+  const issueSession = (
+    identityId: string,
+    req: Request,
+    address: string,
+    authMethod: 'local' | 'oidc' | 'saml' = 'local',
+  ) =>
     authentication.createSession({
       identityId,
       authMethod,
@@ -2063,8 +2199,38 @@ export async function startLocalDashboardServer(
       const handleRequest = async (): Promise<Response | undefined> => {
         const activeServer = runtimeServer ?? server
         const oidcOrigin = resolveOidcDashboardOrigin(host, activeServer.port ?? port)
+        // WebAuthn binds credentials to the same canonical origin OIDC uses
+        const relyingParty = oidcOrigin ? { rpId: new URL(oidcOrigin).hostname, origin: oidcOrigin } : undefined
+        // Adding or removing a second factor takes one the identity already has, when it has any:
+        // an authenticator or recovery code, or an assertion from a registered security key.
+        const confirmsExistingFactor = (identityId: string, body: Record<string, any>): boolean => {
+          if (!authentication.hasActiveMfa(identityId)) return true
+          if (body.assertion) {
+            if (!relyingParty) return false
+            try {
+              authentication.completeWebAuthnAuthentication(body.assertion as WebAuthnAssertionResponse, {
+                ...relyingParty,
+                purpose: 'step_up',
+                identityId,
+              })
+              return true
+            } catch {
+              return false
+            }
+          }
+          return authentication.verifyMfaCode(identityId, String(body.code ?? '')).valid
+        }
         const apiResponse = await apiV1(req, networkHint(activeServer.requestIP(req)?.address ?? 'unknown'))
         if (apiResponse) return apiResponse
+        const otlpResponse = await otlp(req, networkHint(activeServer.requestIP(req)?.address ?? 'unknown'))
+        if (otlpResponse) return otlpResponse
+        const scimResponse = await scim(req, networkHint(activeServer.requestIP(req)?.address ?? 'unknown'))
+        if (scimResponse) return scimResponse
+        const statusSubscriptionResponse = await statusSubscriptions(
+          req,
+          networkHint(activeServer.requestIP(req)?.address ?? 'unknown'),
+        )
+        if (statusSubscriptionResponse) return statusSubscriptionResponse
         const requestedEnvironment = url.searchParams.get('env')
         const environment = resolveDashboardEnvironment(availableEnvironments, defaultEnvironment, requestedEnvironment)
         let latestData = latestDataByEnvironment.get(environment)
@@ -2073,6 +2239,143 @@ export async function startLocalDashboardServer(
         }
 
         try {
+          // --- Public: SAML endpoints ------------------------------------------
+          // The IdP posts assertions to the ACS from its own site, so these run
+          // before the cross-site check. The signed, single-use assertion is what
+          // authenticates that request, not its origin.
+          const samlRoute = /^\/auth\/saml\/([a-z0-9-]+)\/(metadata|start|acs|slo)$/.exec(url.pathname)
+          if (samlRoute && req.method === (samlRoute[2] === 'acs' ? 'POST' : 'GET')) {
+            const [, providerSlug, action] = samlRoute
+            const address = activeServer.requestIP(req)?.address ?? 'unknown'
+            if (!oidcOrigin)
+              return action === 'metadata'
+                ? new Response('Not found', { status: 404 })
+                : new Response(null, { status: 302, headers: { location: '/login?sso_error=configuration' } })
+            if (action === 'metadata') {
+              const provider = authentication.getSamlProviderBySlug(providerSlug)
+              if (!provider?.enabled) return new Response('Not found', { status: 404 })
+              return new Response(renderSamlServiceProviderMetadata(provider, oidcOrigin), {
+                headers: { 'content-type': 'application/samlmetadata+xml; charset=utf-8' },
+              })
+            }
+            if (action === 'start') {
+              try {
+                const started = beginSamlAuthentication(
+                  authentication,
+                  providerSlug,
+                  oidcOrigin,
+                  url.searchParams.get('return') ?? undefined,
+                )
+                return new Response(null, {
+                  status: 302,
+                  headers: { location: started.redirectUrl, 'cache-control': 'no-store' },
+                })
+              } catch (error) {
+                controlPlane.store.appendEvent({
+                  organizationId: controlPlane.organization.id,
+                  type: 'auth.saml.start_failed',
+                  level: 'warning',
+                  payload: {
+                    provider: providerSlug,
+                    reason: error instanceof Error ? error.message.slice(0, 200) : 'unknown',
+                  },
+                })
+                return new Response(null, {
+                  status: 302,
+                  headers: { location: '/login?sso_error=start', 'cache-control': 'no-store' },
+                })
+              }
+            }
+            if (action === 'slo') {
+              try {
+                const result = completeSamlLogout(authentication, {
+                  providerSlug,
+                  query: url.search,
+                  origin: oidcOrigin,
+                })
+                if (result.kind === 'request')
+                  controlPlane.store.appendEvent({
+                    organizationId: controlPlane.organization.id,
+                    type: 'auth.saml.logout',
+                    payload: { provider: providerSlug, revoked: result.revoked },
+                  })
+                return new Response(null, {
+                  status: 302,
+                  headers: {
+                    location: result.kind === 'request' ? result.redirectUrl : result.returnPath,
+                    'cache-control': 'no-store',
+                  },
+                })
+              } catch (error) {
+                controlPlane.store.appendEvent({
+                  organizationId: controlPlane.organization.id,
+                  type: 'auth.saml.logout_failed',
+                  level: 'warning',
+                  payload: {
+                    provider: providerSlug,
+                    reason: error instanceof Error ? error.message.slice(0, 200) : 'unknown',
+                  },
+                })
+                return new Response(null, { status: 302, headers: { location: '/login', 'cache-control': 'no-store' } })
+              }
+            }
+            try {
+              if (Number(req.headers.get('content-length') ?? 0) > 512 * 1024)
+                throw new Error('SAML response is too large')
+              const form = new URLSearchParams(await req.text())
+              const completed = completeSamlAuthentication(authentication, {
+                providerSlug,
+                samlResponse: form.get('SAMLResponse') ?? '',
+                relayState: form.get('RelayState') ?? undefined,
+                origin: oidcOrigin,
+              })
+              const resolved = resolveSamlDashboardIdentity(authentication, controlPlane, cwd, completed.identity)
+              authentication.recordLogin(resolved.identity.id)
+              const issued = issueSession(resolved.identity.id, req, address, 'saml')
+              authentication.recordSamlSession({
+                sessionId: issued.session.id,
+                providerId: completed.identity.provider.id,
+                nameId: completed.identity.nameId,
+                nameIdFormat: completed.identity.nameIdFormat,
+                nameQualifier: completed.identity.nameQualifier,
+                spNameQualifier: completed.identity.spNameQualifier,
+                sessionIndex: completed.identity.sessionIndex,
+              })
+              clearUiCache()
+              controlPlane.store.appendEvent({
+                organizationId: controlPlane.organization.id,
+                actorId: resolved.identity.actorId,
+                type: 'auth.login.succeeded',
+                payload: { method: 'saml', provider: providerSlug, provisioned: resolved.provisioned },
+              })
+              return new Response(null, {
+                status: 302,
+                headers: {
+                  location: completed.returnPath,
+                  'cache-control': 'no-store',
+                  'set-cookie': serializeSessionCookie(issued.token, {
+                    secure: cookieSecure,
+                    maxAgeMs: AUTH_SESSION_ABSOLUTE_TTL_MS,
+                  }),
+                },
+              })
+            } catch (error) {
+              controlPlane.store.appendEvent({
+                organizationId: controlPlane.organization.id,
+                type: 'auth.saml.acs_failed',
+                level: 'warning',
+                payload: {
+                  provider: providerSlug,
+                  reason: error instanceof Error ? error.message.slice(0, 200) : 'unknown',
+                },
+              })
+              return new Response(null, {
+                status: 302,
+                headers: { location: '/login?sso_error=callback', 'cache-control': 'no-store' },
+              })
+            }
+          }
+
           if (!isTrustedMutationRequest(req))
             return json({ ok: false, error: 'Cross-site requests are not allowed.' }, 403)
 
@@ -2097,6 +2400,23 @@ export async function startLocalDashboardServer(
             )
           }
 
+          const pagerDutyWebhookRoute = /^\/api\/alerts\/webhooks\/pagerduty\/([A-Za-z0-9-]{8,64})$/.exec(url.pathname)
+          if (pagerDutyWebhookRoute && req.method === 'POST') {
+            const rawBody = await readIncidentWebhookBody(req)
+            if (!rawBody)
+              return json({ accepted: false, status: 'rejected', message: 'Webhook body is too large' }, 413)
+            const result = processPagerDutyWebhook({
+              store: alertStore,
+              channelId: pagerDutyWebhookRoute[1]!,
+              headers: req.headers,
+              rawBody,
+            })
+            return json(
+              { accepted: result.accepted, status: result.status, alertId: result.alert?.id, message: result.message },
+              result.accepted ? 202 : 404,
+            )
+          }
+
           // --- Public: the login endpoints and the login page itself ----------
           const oidcRoute = /^\/auth\/oidc\/([a-z0-9-]+)\/(start|callback)$/.exec(url.pathname)
           if (oidcRoute && req.method === 'GET') {
@@ -2379,7 +2699,7 @@ export async function startLocalDashboardServer(
               updateUserPassword(cwd, currentIdentity.username, passwordHash)
             }
             authentication.recordLogin(currentIdentity.id)
-            if (authentication.getMfaFactor(currentIdentity.id)?.state === 'active') {
+            if (authentication.hasActiveMfa(currentIdentity.id)) {
               const challenge = authentication.createMfaChallenge(currentIdentity.id, 'login')
               controlPlane.store.appendEvent({
                 organizationId: controlPlane.organization.id,
@@ -2387,7 +2707,18 @@ export async function startLocalDashboardServer(
                 type: 'auth.mfa.challenge.created',
                 payload: { purpose: 'login' },
               })
-              return json({ ok: true, mfaRequired: true, challengeToken: challenge.token, passwordUpgraded })
+              const webauthn =
+                relyingParty && authentication.listWebAuthnCredentials(currentIdentity.id).length > 0
+                  ? authentication.beginWebAuthnAuthentication('mfa', relyingParty.rpId, currentIdentity.id)
+                  : undefined
+              return json({
+                ok: true,
+                mfaRequired: true,
+                challengeToken: challenge.token,
+                totp: authentication.getMfaFactor(currentIdentity.id)?.state === 'active',
+                webauthn,
+                passwordUpgraded,
+              })
             }
             const issued = issueSession(currentIdentity.id, req, address)
             controlPlane.store.appendEvent({
@@ -2417,7 +2748,15 @@ export async function startLocalDashboardServer(
                 'retry-after': String(gate.retryAfterSeconds ?? 60),
               })
             try {
-              const completed = authentication.completeMfaChallenge(challengeToken, code, 'login')
+              const completed =
+                body.credential && relyingParty
+                  ? authentication.completeMfaChallengeWithWebAuthn(
+                      challengeToken,
+                      body.credential as WebAuthnAssertionResponse,
+                      relyingParty,
+                      'login',
+                    )
+                  : authentication.completeMfaChallenge(challengeToken, code, 'login')
               mfaThrottle.recordSuccess(throttleKey, address)
               const now = new Date().toISOString()
               const issued = authentication.createSession({
@@ -2426,6 +2765,7 @@ export async function startLocalDashboardServer(
                 networkHint: networkHint(address),
                 mfaAt: now,
                 recentAuthAt: now,
+                webauthnCredentialId: completed.method === 'webauthn' ? completed.credential.id : undefined,
               })
               controlPlane.store.appendEvent({
                 organizationId: controlPlane.organization.id,
@@ -2441,26 +2781,108 @@ export async function startLocalDashboardServer(
               })
             } catch {
               mfaThrottle.recordFailure(throttleKey, address)
-              return json({ ok: false, error: 'Authenticator or recovery code is incorrect.' }, 401)
+              return json(
+                {
+                  ok: false,
+                  error: body.credential
+                    ? 'The security key could not be verified.'
+                    : 'Authenticator or recovery code is incorrect.',
+                },
+                401,
+              )
             }
           }
 
+          if (url.pathname === '/api/auth/passkey/options' && req.method === 'POST') {
+            if (!relyingParty)
+              return json({ ok: false, error: 'Passkeys need the dashboard origin (TS_CLOUD_DASHBOARD_ORIGIN).' }, 409)
+            return json({ ok: true, options: authentication.beginWebAuthnAuthentication('login', relyingParty.rpId) })
+          }
+
+          if (url.pathname === '/api/auth/passkey/complete' && req.method === 'POST') {
+            const body = await readJsonBody(req)
+            const address = activeServer.requestIP(req)?.address ?? 'unknown'
+            if (!relyingParty)
+              return json({ ok: false, error: 'Passkeys need the dashboard origin (TS_CLOUD_DASHBOARD_ORIGIN).' }, 409)
+            const throttleKey = `passkey:${String((body.credential as { id?: unknown } | undefined)?.id ?? '')}`
+            const gate = mfaThrottle.check(throttleKey, address)
+            if (!gate.allowed)
+              return json({ ok: false, error: 'Too many passkey attempts. Try again later.' }, 429, {
+                'retry-after': String(gate.retryAfterSeconds ?? 60),
+              })
+            let verified: ReturnType<typeof authentication.completeWebAuthnAuthentication>
+            try {
+              verified = authentication.completeWebAuthnAuthentication(body.credential as WebAuthnAssertionResponse, {
+                ...relyingParty,
+                purpose: 'login',
+              })
+            } catch {
+              mfaThrottle.recordFailure(throttleKey, address)
+              return json({ ok: false, error: 'The passkey could not be verified.' }, 401)
+            }
+            const user = findUser(loadUsers(cwd), verified.identity.username)
+            if (!user) return json({ ok: false, error: 'The passkey could not be verified.' }, 401)
+            if (localLoginRequiresSso(authentication, controlPlane, verified.identity))
+              return json({ ok: false, error: 'Single sign-on is required for this account.' }, 403)
+            mfaThrottle.recordSuccess(throttleKey, address)
+            authentication.recordLogin(verified.identity.id)
+            const now = new Date().toISOString()
+            const issued = authentication.createSession({
+              identityId: verified.identity.id,
+              authMethod: 'passkey',
+              userAgent: userAgentLabel(req),
+              networkHint: networkHint(address),
+              mfaAt: now,
+              recentAuthAt: now,
+              webauthnCredentialId: verified.credential.id,
+            })
+            controlPlane.store.appendEvent({
+              organizationId: controlPlane.organization.id,
+              actorId: verified.identity.actorId,
+              type: 'auth.login.succeeded',
+              payload: { method: 'passkey', credentialId: verified.credential.id },
+            })
+            return json({ ok: true, user: describeUser(user) }, 200, {
+              'set-cookie': serializeSessionCookie(issued.token, {
+                secure: cookieSecure,
+                maxAgeMs: AUTH_SESSION_ABSOLUTE_TTL_MS,
+              }),
+            })
+          }
+
           if (url.pathname === '/api/logout' && req.method === 'POST') {
             const session = guard.resolveSession(req)
             if (session) authentication.revokeSession(session.identityId, session.id)
             const cookie = clearSessionCookie({ secure: cookieSecure })
+            // A SAML session also ends at the IdP when it supports single logout.
+            // The dashboard session is already gone, so a failure here only
+            // leaves the IdP session behind.
+            let idpLogout: string | undefined
+            try {
+              idpLogout = session && oidcOrigin ? beginSamlLogout(authentication, session.id, oidcOrigin) : undefined
+            } catch {
+              idpLogout = undefined
+            }
             // The nav signs out with a plain form post (no client JS), so send a
             // browser back to the login page instead of a JSON body it would render.
             if (req.headers.get('accept')?.includes('text/html'))
-              return new Response(null, { status: 302, headers: { location: '/login', 'set-cookie': cookie } })
-            return json({ ok: true }, 200, { 'set-cookie': cookie })
+              return new Response(null, {
+                status: 302,
+                headers: { location: idpLogout ?? '/login', 'set-cookie': cookie },
+              })
+            return json({ ok: true, redirect: idpLogout }, 200, { 'set-cookie': cookie })
           }
 
           if (url.pathname === '/login') {
-            const providers = authentication
-              .listOidcProviders(controlPlane.organization.id)
-              .map((provider) => ({ slug: provider.slug, name: provider.name }))
-            return new Response(renderLoginPage(initialData?.mode === 'serverless', providers), {
+            const providers = [
+              ...authentication
+                .listOidcProviders(controlPlane.organization.id)
+                .map((provider) => ({ slug: provider.slug, name: provider.name, protocol: 'oidc' as const })),
+              ...authentication
+                .listSamlProviders(controlPlane.organization.id)
+                .map((provider) => ({ slug: provider.slug, name: provider.name, protocol: 'saml' as const })),
+            ]
+            return new Response(renderLoginPage(initialData?.mode === 'serverless', providers, !!relyingParty), {
               headers: { 'content-type': 'text/html; charset=utf-8' },
             })
           }
@@ -2515,7 +2937,11 @@ export async function startLocalDashboardServer(
           if (url.pathname.startsWith('/api/')) {
             const site = await siteFromRequest(req, url.pathname)
             const decision = guard.check(req, url.pathname, user, site)
-            if (!decision.ok) return json({ ok: false, error: decision.error }, decision.status ?? 403)
+            if (!decision.ok)
+              return json(
+                { ok: false, error: decision.error, hardwareKeyRequired: decision.hardwareKeyRequired },
+                decision.status ?? 403,
+              )
             if (authEnabled && RECENT_AUTH_MUTATIONS.has(`${req.method.toUpperCase()} ${url.pathname}`)) {
               const session = guard.resolveSession(req)
               if (!session || !authentication.isRecentlyAuthenticated(session))
@@ -2545,9 +2971,12 @@ export async function startLocalDashboardServer(
               mfa: identity
                 ? {
                     factor: authentication.getMfaFactor(identity.id),
+                    factors: authentication.listMfaFactors(identity.id),
+                    webauthnCredentials: authentication.listWebAuthnCredentials(identity.id),
                     recoveryCodesRemaining: authentication.remainingRecoveryCodes(identity.id),
                   }
                 : undefined,
+              factorRequirements: authentication.listFactorRequirements(controlPlane.organization.id),
             })
           }
 
@@ -2624,6 +3053,109 @@ export async function startLocalDashboardServer(
             return json({ ok: true, provider: updated })
           }
 
+          if (url.pathname === '/api/auth/saml/providers' && req.method === 'GET') {
+            return json({
+              providers: authentication
+                .listSamlProviders(controlPlane.organization.id, { includeDisabled: true })
+                .map((provider) => ({
+                  ...provider,
+                  serviceProvider: oidcOrigin ? samlServiceProvider(provider.slug, oidcOrigin) : undefined,
+                })),
+              serviceProviderOrigin: oidcOrigin,
+              localOwnerRecovery: true,
+            })
+          }
+
+          if (url.pathname === '/api/auth/saml/providers' && req.method === 'POST') {
+            const body = await readJsonBody(req)
+            const principal = organizationPrincipal(user)
+            const identity = principal.actor ? authentication.getIdentityByActor(principal.actor.id) : undefined
+            const enforceSso = body.enforceSso === true
+            if (enforceSso && (!identity?.emailVerifiedAt || authentication.remainingRecoveryCodes(identity.id) < 1)) {
+              return json(
+                { ok: false, error: 'Verify the owner email and generate MFA recovery codes before enforcing SSO.' },
+                409,
+              )
+            }
+            try {
+              const entityId = typeof body.entityId === 'string' && body.entityId ? body.entityId : undefined
+              let metadata: AuthSamlIdpMetadata | undefined
+              if (typeof body.metadataXml === 'string' && body.metadataXml)
+                metadata = parseSamlIdpMetadata(body.metadataXml, { entityId })
+              else if (typeof body.metadataUrl === 'string' && body.metadataUrl)
+                metadata = await fetchSamlIdpMetadata(body.metadataUrl, { entityId, fetchFn: options.oidcFetch })
+              const requestedRole = organizationRole(body.defaultRole)
+              const attributeNames =
+                body.attributeMapping && typeof body.attributeMapping === 'object' ? body.attributeMapping : undefined
+              const provider = authentication.upsertSamlProvider({
+                id: typeof body.id === 'string' ? body.id : undefined,
+                organizationId: controlPlane.organization.id,
+                slug: String(body.slug ?? ''),
+                name: String(body.name ?? ''),
+                metadata,
+                allowedDomains: Array.isArray(body.allowedDomains) ? body.allowedDomains.map(String) : [],
+                defaultRole: requestedRole && requestedRole !== 'owner' ? (requestedRole as AuthOidcRole) : undefined,
+                roleMappings: Array.isArray(body.roleMappings)
+                  ? body.roleMappings.map(
+                      (mapping: Record<string, unknown>): AuthSamlRoleMapping => ({
+                        attribute: typeof mapping.attribute === 'string' ? mapping.attribute : undefined,
+                        value: String(mapping.value ?? ''),
+                        role: String(mapping.role ?? '') as AuthOidcRole,
+                      }),
+                    )
+                  : undefined,
+                attributeMapping: attributeNames
+                  ? {
+                      email: typeof attributeNames.email === 'string' ? attributeNames.email : undefined,
+                      name: typeof attributeNames.name === 'string' ? attributeNames.name : undefined,
+                      groups: typeof attributeNames.groups === 'string' ? attributeNames.groups : undefined,
+                    }
+                  : undefined,
+                allowIdpInitiated: typeof body.allowIdpInitiated === 'boolean' ? body.allowIdpInitiated : undefined,
+                enabled: body.enabled !== false,
+                enforceSso,
+              })
+              controlPlane.store.appendEvent({
+                organizationId: controlPlane.organization.id,
+                actorId: principal.actor?.id,
+                type: 'auth.saml.provider.configured',
+                payload: {
+                  providerId: provider.id,
+                  entityId: provider.entityId,
+                  enabled: provider.enabled,
+                  enforceSso: provider.enforceSso,
+                  allowIdpInitiated: provider.allowIdpInitiated,
+                },
+              })
+              return json({
+                ok: true,
+                provider,
+                serviceProvider: oidcOrigin ? samlServiceProvider(provider.slug, oidcOrigin) : undefined,
+              })
+            } catch (error) {
+              return json(
+                { ok: false, error: error instanceof Error ? error.message : 'SAML provider could not be saved.' },
+                422,
+              )
+            }
+          }
+
+          if (url.pathname === '/api/auth/saml/providers' && req.method === 'PATCH') {
+            const body = await readJsonBody(req)
+            const provider = authentication.getSamlProvider(String(body.id ?? ''))
+            if (!provider || provider.organizationId !== controlPlane.organization.id)
+              return json({ ok: false, error: 'SAML provider was not found.' }, 404)
+            const principal = organizationPrincipal(user)
+            const updated = authentication.setSamlProviderEnabled(provider.id, body.enabled === true)
+            controlPlane.store.appendEvent({
+              organizationId: controlPlane.organization.id,
+              actorId: principal.actor?.id,
+              type: updated.enabled ? 'auth.saml.provider.enabled' : 'auth.saml.provider.disabled',
+              payload: { providerId: provider.id },
+            })
+            return json({ ok: true, provider: updated })
+          }
+
           if (url.pathname === '/api/automation' && req.method === 'GET') {
             const accounts = automationIdentities
               .listServiceAccounts(controlPlane.organization.id, { includeDisabled: true })
@@ -2697,17 +3229,23 @@ export async function startLocalDashboardServer(
               !account ||
               account.organizationId !== controlPlane.organization.id ||
               !scope ||
-              !Array.isArray(body.capabilities)
+              (!Array.isArray(body.capabilities) && typeof body.roleId !== 'string')
             )
               return json(
-                { ok: false, error: 'Service account, explicit capabilities, and valid scope are required.' },
+                {
+                  ok: false,
+                  error: 'Service account, explicit capabilities or a custom role, and valid scope are required.',
+                },
                 422,
               )
             try {
               const issued = automationIdentities.createToken({
                 serviceAccountId: account.id,
                 name: String(body.name ?? 'API token'),
-                capabilities: body.capabilities.map(String) as AuthorizationCapability[],
+                capabilities: Array.isArray(body.capabilities)
+                  ? (body.capabilities.map(String) as AuthorizationCapability[])
+                  : undefined,
+                roleId: typeof body.roleId === 'string' ? body.roleId : undefined,
                 scope,
                 expiresAt: typeof body.expiresAt === 'string' ? body.expiresAt : undefined,
                 createdByActorId: principal.actor.id,
@@ -3831,29 +4369,188 @@ export async function startLocalDashboardServer(
             return json({ ok: true })
           }
 
-          if (url.pathname === '/api/auth/step-up' && req.method === 'POST') {
+          if (url.pathname === '/api/auth/webauthn/register/options' && req.method === 'POST') {
+            const body = await readJsonBody(req)
+            const current = guard.resolveSession(req)
+            const principal = organizationPrincipal(user)
+            const identity = principal.actor ? authentication.getIdentityByActor(principal.actor.id) : undefined
+            if (!current || !identity)
+              return json({ ok: false, error: 'Sign in again before adding a security key.' }, 401)
+            if (!verifyPassword(String(body.password ?? ''), identity.passwordHash))
+              return json({ ok: false, error: 'Current password is incorrect.' }, 401)
+            if (!relyingParty)
+              return json({ ok: false, error: 'Passkeys need the dashboard origin (TS_CLOUD_DASHBOARD_ORIGIN).' }, 409)
+            if (!confirmsExistingFactor(identity.id, body))
+              return json({ ok: false, error: 'Authenticator code, recovery code or security key is incorrect.' }, 401)
+            return json({
+              ok: true,
+              options: authentication.beginWebAuthnRegistration(identity.id, {
+                id: relyingParty.rpId,
+                name: controlPlane.organization.name,
+              }),
+            })
+          }
+
+          if (url.pathname === '/api/auth/webauthn/register' && req.method === 'POST') {
+            const body = await readJsonBody(req)
+            const current = guard.resolveSession(req)
+            const principal = organizationPrincipal(user)
+            const identity = principal.actor ? authentication.getIdentityByActor(principal.actor.id) : undefined
+            if (!current || !identity)
+              return json({ ok: false, error: 'Sign in again before adding a security key.' }, 401)
+            if (!relyingParty)
+              return json({ ok: false, error: 'Passkeys need the dashboard origin (TS_CLOUD_DASHBOARD_ORIGIN).' }, 409)
+            try {
+              const credential = authentication.completeWebAuthnRegistration(
+                identity.id,
+                body.credential as WebAuthnRegistrationResponse,
+                { ...relyingParty, label: typeof body.label === 'string' ? body.label : undefined },
+              )
+              controlPlane.store.appendEvent({
+                organizationId: controlPlane.organization.id,
+                actorId: identity.actorId,
+                type: 'auth.webauthn.registered',
+                payload: {
+                  credentialId: credential.id,
+                  attestation: credential.attestationType,
+                  attestationTrusted: credential.attestationTrusted,
+                  backupEligible: credential.backupEligible,
+                },
+              })
+              return json({ ok: true, credential })
+            } catch (error) {
+              return json({ ok: false, error: error instanceof Error ? error.message : 'Registration failed.' }, 422)
+            }
+          }
+
+          if (url.pathname === '/api/auth/webauthn/credentials' && req.method === 'DELETE') {
             const body = await readJsonBody(req)
             const current = guard.resolveSession(req)
             const principal = organizationPrincipal(user)
             const identity = principal.actor ? authentication.getIdentityByActor(principal.actor.id) : undefined
             if (!current || !identity || !verifyPassword(String(body.password ?? ''), identity.passwordHash))
               return json({ ok: false, error: 'Current password is incorrect.' }, 401)
-            const factor = authentication.getMfaFactor(identity.id)
-            if (factor?.state === 'active') {
+            if (!confirmsExistingFactor(identity.id, body))
+              return json({ ok: false, error: 'Authenticator code, recovery code or security key is incorrect.' }, 401)
+            try {
+              const credential = authentication.disableWebAuthnCredential(identity.id, String(body.id ?? ''))
+              controlPlane.store.appendEvent({
+                organizationId: controlPlane.organization.id,
+                actorId: identity.actorId,
+                type: 'auth.webauthn.removed',
+                payload: { credentialId: credential.id },
+              })
+              return json({ ok: true, credential })
+            } catch (error) {
+              return json({ ok: false, error: error instanceof Error ? error.message : 'Removal failed.' }, 404)
+            }
+          }
+
+          if (url.pathname === '/api/auth/webauthn/step-up/options' && req.method === 'POST') {
+            const principal = organizationPrincipal(user)
+            const identity = principal.actor ? authentication.getIdentityByActor(principal.actor.id) : undefined
+            if (!identity) return json({ ok: false, error: 'Sign in again to continue.' }, 401)
+            if (!relyingParty)
+              return json({ ok: false, error: 'Passkeys need the dashboard origin (TS_CLOUD_DASHBOARD_ORIGIN).' }, 409)
+            try {
+              return json({
+                ok: true,
+                options: authentication.beginWebAuthnAuthentication('step_up', relyingParty.rpId, identity.id),
+              })
+            } catch (error) {
+              return json({ ok: false, error: error instanceof Error ? error.message : 'Step-up failed.' }, 409)
+            }
+          }
+
+          if (url.pathname === '/api/auth/step-up' && req.method === 'POST') {
+            const body = await readJsonBody(req)
+            const current = guard.resolveSession(req)
+            const principal = organizationPrincipal(user)
+            const identity = principal.actor ? authentication.getIdentityByActor(principal.actor.id) : undefined
+            if (!current || !identity) return json({ ok: false, error: 'Current password is incorrect.' }, 401)
+            // A user-verified security key stands in for the password; one
+            // that only proves presence is a second factor on top of it.
+            let verified: ReturnType<typeof authentication.completeWebAuthnAuthentication> | undefined
+            if (body.credential) {
+              try {
+                if (!relyingParty) throw new Error('WebAuthn is unavailable')
+                verified = authentication.completeWebAuthnAuthentication(
+                  body.credential as WebAuthnAssertionResponse,
+                  { ...relyingParty, purpose: 'step_up', identityId: identity.id },
+                )
+              } catch {
+                return json({ ok: false, error: 'The security key could not be verified.' }, 401)
+              }
+            }
+            if (!verified?.userVerified && !verifyPassword(String(body.password ?? ''), identity.passwordHash))
+              return json({ ok: false, error: 'Current password is incorrect.' }, 401)
+            const mfa = authentication.hasActiveMfa(identity.id)
+            if (mfa && !verified) {
               const verification = authentication.verifyMfaCode(identity.id, String(body.code ?? ''))
               if (!verification.valid)
                 return json({ ok: false, error: 'Authenticator or recovery code is incorrect.' }, 401)
             }
-            const session = authentication.markSessionStepUp(current.id, factor?.state === 'active')
+            const session = authentication.markSessionStepUp(current.id, mfa || !!verified, verified?.credential.id)
             controlPlane.store.appendEvent({
               organizationId: controlPlane.organization.id,
               actorId: identity.actorId,
               type: 'auth.step_up.succeeded',
-              payload: { mfa: factor?.state === 'active' },
+              payload: { mfa: mfa || !!verified, method: verified ? 'webauthn' : 'password' },
             })
             return json({ ok: true, recentAuthAt: session.recentAuthAt })
           }
 
+          if (url.pathname === '/api/auth/factor-requirements' && req.method === 'GET') {
+            return json({
+              requirements: authentication.listFactorRequirements(controlPlane.organization.id),
+              capabilities: AUTHORIZATION_CAPABILITIES,
+            })
+          }
+
+          if (url.pathname === '/api/auth/factor-requirements' && req.method === 'PUT') {
+            const body = await readJsonBody(req)
+            const requested = Array.isArray(body.requirements) ? (body.requirements as Record<string, unknown>[]) : []
+            const requirements = requested.map((entry) => ({
+              capability: String(entry?.capability ?? '') as AuthorizationCapability,
+              requireAttestation: entry?.requireAttestation === true,
+            }))
+            if (requirements.some((entry) => !AUTHORIZATION_CAPABILITIES.includes(entry.capability)))
+              return json({ ok: false, error: 'Unknown capability.' }, 422)
+            // Whoever sets the requirement has to meet it, so an organization
+            // can't be locked out of its own settings.
+            const session = guard.resolveSession(req)
+            const principal = organizationPrincipal(user)
+            if (
+              requirements.length > 0 &&
+              (!session ||
+                !requirements.every((entry) =>
+                  authentication.satisfiesFactorRequirement(session, {
+                    ...entry,
+                    organizationId: controlPlane.organization.id,
+                    createdAt: '',
+                  }),
+                ))
+            )
+              return json(
+                { ok: false, error: 'Verify with a security key that meets these requirements first.' },
+                409,
+              )
+            const saved = authentication.setFactorRequirements(
+              controlPlane.organization.id,
+              requirements,
+              principal.actor?.id,
+            )
+            controlPlane.store.appendEvent({
+              organizationId: controlPlane.organization.id,
+              actorId: principal.actor?.id,
+              type: 'auth.factor_requirements.updated',
+              payload: {
+                requirements: saved.map(({ capability, requireAttestation }) => ({ capability, requireAttestation })),
+              },
+            })
+            return json({ ok: true, requirements: saved })
+          }
+
           if (url.pathname === '/api/terminal') {
             if (!terminalEnabled) return json({ ok: false, error: 'The web terminal is disabled.' }, 403)
             // The gate above already refused any non-admin, so an upgraded socket
@@ -4560,6 +5257,9 @@ export async function startLocalDashboardServer(
                       }
                     : undefined,
                   grants: controlPlane.store.listGrants(membership.id),
+                  roleAssignments: controlPlane.store.listCustomRoleAssignments(controlPlane.organization.id, {
+                    membershipId: membership.id,
+                  }),
                 }
               })
             return json({
@@ -4575,6 +5275,7 @@ export async function startLocalDashboardServer(
               })),
               memberships,
               invitations: controlPlane.store.listInvitations(controlPlane.organization.id),
+              roles: controlPlane.store.listCustomRoles(controlPlane.organization.id),
             })
           }
 
@@ -4776,15 +5477,227 @@ export async function startLocalDashboardServer(
             }
           }
 
-          if (url.pathname === '/api/organization/grants' && req.method === 'DELETE') {
-            const body = await readJsonBody(req)
-            const principal = organizationPrincipal(user)
-            const grant = controlPlane.store.getGrant(String(body.id ?? ''))
-            if (!grant || grant.organizationId !== controlPlane.organization.id)
-              return json({ ok: false, error: 'Grant was not found.' }, 404)
-            return json({ ok: controlPlane.store.removeGrant(grant.id, principal.actor?.id) })
-          }
-
+          if (url.pathname === '/api/organization/grants' && req.method === 'DELETE') {
+            const body = await readJsonBody(req)
+            const principal = organizationPrincipal(user)
+            const grant = controlPlane.store.getGrant(String(body.id ?? ''))
+            if (!grant || grant.organizationId !== controlPlane.organization.id)
+              return json({ ok: false, error: 'Grant was not found.' }, 404)
+            return json({ ok: controlPlane.store.removeGrant(grant.id, principal.actor?.id) })
+          }
+
+          if (url.pathname === '/api/organization/roles' && req.method === 'GET') {
+            return json({
+              capabilities: AUTHORIZATION_CAPABILITIES,
+              roles: controlPlane.store.listCustomRoles(controlPlane.organization.id).map((role) => ({
+                ...role,
+                versions: controlPlane.store.listCustomRoleVersions(role.id),
+                assignments: controlPlane.store.listCustomRoleAssignments(controlPlane.organization.id, {
+                  roleId: role.id,
+                }),
+              })),
+            })
+          }
+
+          if (url.pathname === '/api/organization/roles' && req.method === 'POST') {
+            const body = await readJsonBody(req)
+            const principal = organizationPrincipal(user)
+            const rules = Array.isArray(body.rules)
+              ? body.rules.map(
+                  (rule: Record<string, unknown>): CustomRoleRule => ({
+                    effect: String(rule?.effect ?? '') as CustomRoleRule['effect'],
+                    capability: String(rule?.capability ?? '') as AuthorizationCapability,
+                  }),
+                )
+              : undefined
+            if (!rules || typeof body.slug !== 'string')
+              return json({ ok: false, error: 'A role slug and a list of rules are required.' }, 422)
+            const input = {
+              organizationId: controlPlane.organization.id,
+              slug: body.slug,
+              name: typeof body.name === 'string' ? body.name : undefined,
+              description: typeof body.description === 'string' ? body.description : undefined,
+              rules,
+              expectedVersion: body.expectedVersion == null ? undefined : Number(body.expectedVersion),
+              actorId: principal.actor?.id,
+            }
+            try {
+              const preview = controlPlane.store.previewCustomRole(input)
+              if (body.preview === true) return json({ preview })
+              return json({ role: controlPlane.store.saveCustomRole(input), preview })
+            } catch (error) {
+              return json(
+                { ok: false, error: error instanceof Error ? error.message : 'Role could not be saved.' },
+                error instanceof OptimisticConcurrencyError ? 409 : 422,
+              )
+            }
+          }
+
+          if (url.pathname === '/api/organization/roles' && req.method === 'DELETE') {
+            const body = await readJsonBody(req)
+            const principal = organizationPrincipal(user)
+            const role = controlPlane.store.getCustomRole(String(body.id ?? ''))
+            if (!role || role.organizationId !== controlPlane.organization.id)
+              return json({ ok: false, error: 'Role was not found.' }, 404)
+            if (String(body.confirm ?? '') !== role.slug)
+              return json({ ok: false, error: `Confirm deletion with the role slug ${role.slug}.` }, 409)
+            try {
+              return json({ ok: controlPlane.store.deleteCustomRole(role.id, principal.actor?.id) })
+            } catch (error) {
+              return json(
+                { ok: false, error: error instanceof Error ? error.message : 'Role could not be deleted.' },
+                409,
+              )
+            }
+          }
+
+          if (url.pathname === '/api/organization/role-assignments' && req.method === 'POST') {
+            const body = await readJsonBody(req)
+            const principal = organizationPrincipal(user)
+            const scope = authorizationScope(body)
+            if (!scope) return json({ ok: false, error: 'Choose a valid resource scope.' }, 422)
+            const input = {
+              organizationId: controlPlane.organization.id,
+              roleId: String(body.roleId ?? ''),
+              membershipId: String(body.membershipId ?? ''),
+              scope,
+              actorId: principal.actor?.id,
+            }
+            try {
+              const accessDiff = controlPlane.store.previewCustomRoleAssignment(input)
+              if (body.preview === true) return json({ accessDiff })
+              return json({ assignment: controlPlane.store.assignCustomRole(input), accessDiff }, 201)
+            } catch (error) {
+              return json(
+                { ok: false, error: error instanceof Error ? error.message : 'Role could not be assigned.' },
+                422,
+              )
+            }
+          }
+
+          if (url.pathname === '/api/organization/role-assignments' && req.method === 'DELETE') {
+            const body = await readJsonBody(req)
+            const principal = organizationPrincipal(user)
+            const assignment = controlPlane.store.getCustomRoleAssignment(String(body.id ?? ''))
+            if (!assignment || assignment.organizationId !== controlPlane.organization.id)
+              return json({ ok: false, error: 'Role assignment was not found.' }, 404)
+            return json({ ok: controlPlane.store.unassignCustomRole(assignment.id, principal.actor?.id) })
+          }
+
+          if (url.pathname === '/api/organization/access-requests' && req.method === 'GET') {
+            const principal = organizationPrincipal(user)
+            const reviewer = mayUseCapability(user, 'users:read')
+            const requests = reviewer
+              ? accessRequests.list(controlPlane.organization.id, { limit: 200 })
+              : principal.membership
+                ? accessRequests.list(controlPlane.organization.id, {
+                    membershipId: principal.membership.id,
+                    limit: 200,
+                  })
+                : []
+            return json({
+              requests: requests.map((request) => {
+                const membership = controlPlane.store.getMembership(request.membershipId)
+                const actor = membership ? controlPlane.store.getActor(membership.actorId) : undefined
+                return { ...request, requester: actor?.displayName ?? request.membershipId }
+              }),
+              membershipId: principal.membership?.id,
+              reviewer,
+              breakGlassCapabilities: principal.membership
+                ? accessRequests.breakGlassCapabilities(principal.membership)
+                : [],
+              breakGlassEligibility: reviewer
+                ? accessRequests.listBreakGlassEligibility(controlPlane.organization.id)
+                : [],
+              capabilities: AUTHORIZATION_CAPABILITIES,
+              breakGlassExcluded: AUTH_BREAK_GLASS_EXCLUDED_CAPABILITIES,
+              maxDurationSeconds: AUTH_ACCESS_REQUEST_MAX_DURATION_SECONDS,
+              breakGlassMaxDurationSeconds: AUTH_BREAK_GLASS_MAX_DURATION_SECONDS,
+            })
+          }
+
+          if (url.pathname === '/api/organization/access-requests' && req.method === 'POST') {
+            const body = await readJsonBody(req)
+            const principal = organizationPrincipal(user)
+            if (!principal.membership)
+              return json({ ok: false, error: 'Only organization members can request access.' }, 403)
+            const scope = authorizationScope(body)
+            if (!scope) return json({ ok: false, error: 'Choose a valid resource scope.' }, 422)
+            if (body.breakGlass === true && body.confirm !== 'break glass')
+              return json({ ok: false, error: 'Type "break glass" to confirm. Every owner will be paged.' }, 409)
+            const input = {
+              organizationId: controlPlane.organization.id,
+              membershipId: principal.membership.id,
+              capability: String(body.capability ?? '') as AuthorizationCapability,
+              scope,
+              justification: String(body.justification ?? ''),
+              durationSeconds: Math.round(Number(body.durationMinutes ?? 0) * 60),
+            }
+            try {
+              if (body.breakGlass !== true) return json({ request: accessRequests.request(input) }, 201)
+              const { request, pages } = accessRequests.breakGlass(input)
+              void notificationRouter
+                .deliverAll(pages)
+                .catch((error) => console.error('ts-cloud break-glass page failed:', error))
+              return json({ request, paged: pages.length }, 201)
+            } catch (error) {
+              return json(
+                { ok: false, error: error instanceof Error ? error.message : 'Access could not be requested.' },
+                422,
+              )
+            }
+          }
+
+          if (url.pathname === '/api/organization/access-requests/break-glass' && req.method === 'PUT') {
+            const body = await readJsonBody(req)
+            const requested = Array.isArray(body.entries) ? (body.entries as Record<string, unknown>[]) : []
+            try {
+              const eligibility = accessRequests.setBreakGlassEligibility(
+                controlPlane.organization.id,
+                requested.map((entry) => ({
+                  roleTemplate: organizationRole(entry?.roleTemplate),
+                  membershipId: typeof entry?.membershipId === 'string' ? entry.membershipId : undefined,
+                  capability: String(entry?.capability ?? '') as AuthorizationCapability,
+                })),
+                organizationPrincipal(user).actor?.id,
+              )
+              return json({ eligibility })
+            } catch (error) {
+              return json(
+                { ok: false, error: error instanceof Error ? error.message : 'Break-glass access could not be saved.' },
+                422,
+              )
+            }
+          }
+
+          if (url.pathname.startsWith('/api/organization/access-requests') && req.method !== 'GET') {
+            const body = await readJsonBody(req)
+            const principal = organizationPrincipal(user)
+            const request = accessRequests.get(String(body.id ?? ''))
+            if (!request || request.organizationId !== controlPlane.organization.id)
+              return json({ ok: false, error: 'Access request was not found.' }, 404)
+            if (!principal.actor) return json({ ok: false, error: 'Only organization members can do this.' }, 403)
+            const decision = { actorId: principal.actor.id, note: typeof body.note === 'string' ? body.note : undefined }
+            try {
+              if (url.pathname === '/api/organization/access-requests' && req.method === 'DELETE')
+                return json({ request: accessRequests.cancel(request.id, principal.actor.id) })
+              if (url.pathname === '/api/organization/access-requests/revoke' && req.method === 'POST')
+                return json({ request: accessRequests.revoke(request.id, decision) })
+              if (url.pathname === '/api/organization/access-requests/decide' && req.method === 'POST')
+                return json({
+                  request:
+                    body.approve === true
+                      ? accessRequests.approve(request.id, decision)
+                      : accessRequests.deny(request.id, decision),
+                })
+            } catch (error) {
+              return json(
+                { ok: false, error: error instanceof Error ? error.message : 'Access request could not be updated.' },
+                409,
+              )
+            }
+          }
+
           if (url.pathname === '/api/tags' && req.method === 'GET') {
             return json({
               tags: controlPlane.store.listTags(controlPlane.project.id),
@@ -5598,7 +6511,10 @@ export async function startLocalDashboardServer(
           if (
             url.pathname.startsWith('/api/health/') ||
             url.pathname.startsWith('/api/alerts') ||
-            url.pathname.startsWith('/api/notifications/')
+            url.pathname.startsWith('/api/notifications/') ||
+            url.pathname.startsWith('/api/oncall/') ||
+            url.pathname === '/api/escalation-policies' ||
+            url.pathname === '/api/slos'
           ) {
             const environmentRecord = controlPlane.environments.get(environment)
             const resources = controlPlane.store.listResources(controlPlane.project.id, environmentRecord?.id)
@@ -5749,6 +6665,75 @@ export async function startLocalDashboardServer(
                 return json({ ok: false, error: 'Alert rule was not found.' }, 404)
               return json({ ok: true, rule: alertStore.setRuleEnabled(current.id, body.enabled !== false) })
             }
+            if (url.pathname === '/api/slos' && req.method === 'GET') {
+              const active = alertStore.listAlerts(controlPlane.project.id, {
+                environmentId: environmentRecord?.id,
+                states: ['firing', 'silenced'],
+              })
+              return json({
+                ok: true,
+                slos: alertStore
+                  .listSlos(controlPlane.project.id, environmentRecord?.id)
+                  .filter((slo) => visibleResource(slo.resourceId))
+                  .map((slo) => {
+                    const rules = new Set(alertStore.listSloRules(slo.id).map((rule) => rule.id))
+                    return {
+                      ...computeSloStatus(alertStore, slo),
+                      alerts: active.filter((alert) => rules.has(alert.ruleId)),
+                    }
+                  }),
+              })
+            }
+            if (url.pathname === '/api/slos' && req.method === 'POST') {
+              const body = await readJsonBody(req)
+              const healthCheck = body.healthCheckId ? alertStore.getHealthCheck(String(body.healthCheckId)) : undefined
+              if (body.healthCheckId && (!healthCheck || !visibleResource(healthCheck.resourceId)))
+                return json({ ok: false, error: 'Health check was not found.' }, 404)
+              return json(
+                {
+                  ok: true,
+                  slo: alertStore.createSlo({
+                    projectId: controlPlane.project.id,
+                    environmentId: environmentRecord?.id,
+                    resourceId: resolveResource(body.resourceId ?? body.resource) ?? healthCheck?.resourceId,
+                    healthCheckId: healthCheck?.id,
+                    name: String(body.name ?? ''),
+                    service: String(body.service ?? ''),
+                    source: healthCheck ? 'health' : 'requests',
+                    objective: body.objective === 'latency' ? 'latency' : 'availability',
+                    latencyThresholdMs: body.latencyThresholdMs == null ? undefined : Number(body.latencyThresholdMs),
+                    targetPercent: Number(body.targetPercent),
+                    windowDays: Number(body.windowDays) || 30,
+                    filter: body.filter && typeof body.filter === 'object' ? body.filter : {},
+                    gateMinBudgetPercent: Number(body.gateMinBudgetPercent) || 0,
+                  }),
+                },
+                201,
+              )
+            }
+            if (url.pathname === '/api/slos' && req.method === 'PATCH') {
+              const body = await readJsonBody(req)
+              const current = alertStore.getSlo(String(body.id ?? ''))
+              if (!current || current.projectId !== controlPlane.project.id || !visibleResource(current.resourceId))
+                return json({ ok: false, error: 'SLO was not found.' }, 404)
+              return json({
+                ok: true,
+                slo: alertStore.updateSlo(
+                  current.id,
+                  {
+                    service: body.service == null ? undefined : String(body.service),
+                    latencyThresholdMs: body.latencyThresholdMs == null ? undefined : Number(body.latencyThresholdMs),
+                    targetPercent: body.targetPercent == null ? undefined : Number(body.targetPercent),
+                    windowDays: body.windowDays == null ? undefined : Number(body.windowDays),
+                    filter: body.filter && typeof body.filter === 'object' ? body.filter : undefined,
+                    gateMinBudgetPercent:
+                      body.gateMinBudgetPercent == null ? undefined : Number(body.gateMinBudgetPercent),
+                    enabled: typeof body.enabled === 'boolean' ? body.enabled : undefined,
+                  },
+                  Number(body.version ?? current.version),
+                ),
+              })
+            }
             if (url.pathname === '/api/alerts/evaluate' && req.method === 'POST')
               return json({ ok: true, ...(await evaluateAlerts(environmentRecord?.id)) })
             if (url.pathname === '/api/alerts' && req.method === 'GET')
@@ -5772,8 +6757,13 @@ export async function startLocalDashboardServer(
               if (!current || !visibleResource(current.resourceId))
                 return json({ ok: false, error: 'Alert was not found.' }, 404)
               const action = String(body.action ?? '')
-              if (action === 'acknowledge')
-                return json({ ok: true, alert: alertStore.acknowledge(current.id, actor?.id ?? '') })
+              if (action === 'acknowledge') {
+                const acknowledged = alertStore.acknowledge(current.id, actor?.id ?? '')
+                const deliveries = await notificationRouter.deliverAll(
+                  notificationRouter.enqueue(controlPlane.organization.id, acknowledged, 'acknowledged'),
+                )
+                return json({ ok: true, alert: acknowledged, deliveries })
+              }
               if (action === 'assign')
                 return json({
                   ok: true,
@@ -5830,7 +6820,11 @@ export async function startLocalDashboardServer(
                   ? { to: body.config?.to, from: body.config?.from }
                   : kind === 'telegram'
                     ? { chatId: String(body.config?.chatId ?? '') }
-                    : {}
+                    : kind === 'opsgenie'
+                      ? { region: body.config?.region === 'eu' ? 'eu' : 'us' }
+                      : kind === 'pagerduty' && body.config?.resolveSilenceMinutes != null
+                        ? { resolveSilenceMinutes: Number(body.config.resolveSilenceMinutes) || 60 }
+                        : {}
               return json(
                 {
                   ok: true,
@@ -5871,6 +6865,12 @@ export async function startLocalDashboardServer(
               const channelIds = Array.isArray(body.channelIds) ? body.channelIds.map(String) : []
               if (channelIds.some((id) => alertStore.getChannel(id)?.organizationId !== controlPlane.organization.id))
                 return json({ ok: false, error: 'Route contains an unavailable channel.' }, 422)
+              const escalationPolicyId = body.escalationPolicyId ? String(body.escalationPolicyId) : undefined
+              if (
+                escalationPolicyId &&
+                alertStore.getEscalationPolicy(escalationPolicyId)?.organizationId !== controlPlane.organization.id
+              )
+                return json({ ok: false, error: 'Route references an unavailable escalation policy.' }, 422)
               return json(
                 {
                   ok: true,
@@ -5884,6 +6884,7 @@ export async function startLocalDashboardServer(
                     groupWaitSeconds: Number(body.groupWaitSeconds) || 30,
                     reminderSeconds: body.reminderSeconds == null ? undefined : Number(body.reminderSeconds),
                     escalation: Array.isArray(body.escalation) ? body.escalation : [],
+                    escalationPolicyId,
                     template: body.template ? String(body.template) : undefined,
                     rateLimitPerMinute: Number(body.rateLimitPerMinute) || 60,
                     enabled: body.enabled !== false,
@@ -5897,6 +6898,15 @@ export async function startLocalDashboardServer(
               const route = alertStore.getRoute(String(body.id ?? ''))
               if (!route || route.organizationId !== controlPlane.organization.id)
                 return json({ ok: false, error: 'Notification route was not found.' }, 404)
+              if ('escalationPolicyId' in body) {
+                const escalationPolicyId = body.escalationPolicyId ? String(body.escalationPolicyId) : undefined
+                if (
+                  escalationPolicyId &&
+                  alertStore.getEscalationPolicy(escalationPolicyId)?.organizationId !== controlPlane.organization.id
+                )
+                  return json({ ok: false, error: 'Escalation policy was not found.' }, 404)
+                return json({ ok: true, route: alertStore.setRouteEscalationPolicy(route.id, escalationPolicyId) })
+              }
               return json({ ok: true, route: alertStore.setRouteEnabled(route.id, body.enabled !== false) })
             }
             if (url.pathname === '/api/notifications/routes/preview' && req.method === 'POST') {
@@ -5932,6 +6942,117 @@ export async function startLocalDashboardServer(
                   .map((item) => ({ route: item.route, channels: item.channels, quiet: item.quiet })),
               })
             }
+            if (url.pathname === '/api/oncall/schedules' && req.method === 'GET') {
+              const now = new Date()
+              const horizon = new Date(now.getTime() + 14 * 86_400_000).toISOString()
+              return json({
+                ok: true,
+                schedules: alertStore.listSchedules(controlPlane.organization.id).map((schedule) => ({
+                  ...schedule,
+                  current: alertStore.onCallAt(schedule.id, now),
+                  overrides: alertStore.listOverrides(schedule.id, now.toISOString(), horizon),
+                })),
+                people: loadUsers(cwd).map((user) => {
+                  const person = ensureDashboardActor(controlPlane.store, user)
+                  return {
+                    actorId: person.id,
+                    username: user.username,
+                    name: person.displayName,
+                    contactChannelIds: alertStore.contactChannels(person.id),
+                  }
+                }),
+              })
+            }
+            if (url.pathname === '/api/oncall/schedules' && req.method === 'POST') {
+              const body = await readJsonBody(req)
+              return json(
+                {
+                  ok: true,
+                  schedule: alertStore.createSchedule({
+                    organizationId: controlPlane.organization.id,
+                    name: String(body.name ?? ''),
+                    timezone: String(body.timezone ?? 'UTC'),
+                    layers: Array.isArray(body.layers) ? body.layers : [],
+                  }),
+                },
+                201,
+              )
+            }
+            if (url.pathname === '/api/oncall/schedules' && req.method === 'PATCH') {
+              const body = await readJsonBody(req)
+              const schedule = alertStore.getSchedule(String(body.id ?? ''))
+              if (!schedule || schedule.organizationId !== controlPlane.organization.id)
+                return json({ ok: false, error: 'On-call schedule was not found.' }, 404)
+              return json({
+                ok: true,
+                schedule: alertStore.updateSchedule(
+                  schedule.id,
+                  {
+                    name: body.name == null ? undefined : String(body.name),
+                    timezone: body.timezone == null ? undefined : String(body.timezone),
+                    layers: Array.isArray(body.layers) ? body.layers : undefined,
+                  },
+                  Number(body.version ?? schedule.version),
+                ),
+              })
+            }
+            if (url.pathname === '/api/oncall/overrides' && req.method === 'POST') {
+              const body = await readJsonBody(req)
+              const schedule = alertStore.getSchedule(String(body.scheduleId ?? ''))
+              if (!schedule || schedule.organizationId !== controlPlane.organization.id)
+                return json({ ok: false, error: 'On-call schedule was not found.' }, 404)
+              return json(
+                {
+                  ok: true,
+                  override: alertStore.createOverride({
+                    scheduleId: schedule.id,
+                    actorId: String(body.actorId ?? ''),
+                    startsAt: String(body.startsAt ?? ''),
+                    endsAt: String(body.endsAt ?? ''),
+                    reason: body.reason ? String(body.reason) : undefined,
+                    createdByActorId: actor?.id,
+                  }),
+                },
+                201,
+              )
+            }
+            if (url.pathname === '/api/oncall/overrides' && req.method === 'DELETE') {
+              const override = alertStore.getOverride(url.searchParams.get('id') ?? '')
+              if (
+                !override ||
+                alertStore.getSchedule(override.scheduleId)?.organizationId !== controlPlane.organization.id
+              )
+                return json({ ok: false, error: 'Override was not found.' }, 404)
+              alertStore.deleteOverride(override.id)
+              return json({ ok: true })
+            }
+            if (url.pathname === '/api/oncall/contacts' && req.method === 'POST') {
+              const body = await readJsonBody(req)
+              const channelIds = Array.isArray(body.channelIds) ? body.channelIds.map(String) : []
+              if (channelIds.some((id) => alertStore.getChannel(id)?.organizationId !== controlPlane.organization.id))
+                return json({ ok: false, error: 'Contact methods contain an unavailable channel.' }, 422)
+              return json({
+                ok: true,
+                channelIds: alertStore.setContactChannels(String(body.actorId ?? ''), channelIds),
+              })
+            }
+            if (url.pathname === '/api/escalation-policies' && req.method === 'GET')
+              return json({ ok: true, policies: alertStore.listEscalationPolicies(controlPlane.organization.id) })
+            if (url.pathname === '/api/escalation-policies' && req.method === 'POST') {
+              const body = await readJsonBody(req)
+              return json(
+                {
+                  ok: true,
+                  policy: alertStore.createEscalationPolicy({
+                    organizationId: controlPlane.organization.id,
+                    name: String(body.name ?? ''),
+                    tiers: Array.isArray(body.tiers) ? body.tiers : [],
+                    repeat: Number(body.repeat) || 0,
+                  }),
+                },
+                201,
+              )
+            }
             if (url.pathname === '/api/notifications/deliveries' && req.method === 'GET')
               return json({
                 ok: true,
@@ -5954,6 +7075,186 @@ export async function startLocalDashboardServer(
             }
           }
 
+          if (url.pathname === '/api/status-pages' || url.pathname.startsWith('/api/status-pages/')) {
+            const actor = organizationPrincipal(user).actor
+            const ownPage = (id: unknown) => {
+              const page = statusPages.getPage(String(id ?? ''))
+              return page?.projectId === controlPlane.project.id ? page : undefined
+            }
+            const components = (value: unknown): StatusComponentInput[] | undefined =>
+              Array.isArray(value)
+                ? value.map((item: any) => ({
+                    name: String(item?.name ?? ''),
+                    description: item?.description ? String(item.description) : undefined,
+                    group: item?.group ? String(item.group) : undefined,
+                    healthCheckIds: Array.isArray(item?.healthCheckIds) ? item.healthCheckIds.map(String) : [],
+                  }))
+                : undefined
+            // Notices go out to subscribers and, for pages already live, to
+            // the published page straight away rather than on the next sweep.
+            const announce = async (pageId: string, send: () => Promise<unknown>) => {
+              const notified = await send()
+              const page = statusPages.getPage(pageId)
+              const published =
+                page?.autoPublish && page.publishedAt
+                  ? await publishStatusPage(statusPages, pageId).catch((error) => ({
+                      published: false,
+                      message: error instanceof Error ? error.message : String(error),
+                    }))
+                  : undefined
+              return { notified, published }
+            }
+
+            if (url.pathname === '/api/status-pages' && req.method === 'GET') {
+              const since = new Date(Date.now() - 90 * 86_400_000).toISOString()
+              return json({
+                ok: true,
+                pages: statusPages.listPages(controlPlane.project.id).map((page) => ({
+                  ...statusPages.snapshot(page.id),
+                  incidents: statusPages.listIncidents(page.id, since),
+                  subscribers: statusPages.listSubscribers(page.id),
+                })),
+              })
+            }
+            if (url.pathname === '/api/status-pages' && req.method === 'POST') {
+              const body = await readJsonBody(req)
+              return json(
+                {
+                  ok: true,
+                  page: statusPages.createPage({
+                    projectId: controlPlane.project.id,
+                    slug: String(body.slug ?? ''),
+                    title: String(body.title ?? ''),
+                    description: body.description ? String(body.description) : undefined,
+                    publicUrl: body.publicUrl ? String(body.publicUrl) : undefined,
+                    subscribeOrigin: body.subscribeOrigin ? String(body.subscribeOrigin) : undefined,
+                    site: body.site && typeof body.site === 'object' ? body.site : undefined,
+                    autoPublish: body.autoPublish !== false,
+                    components: components(body.components) ?? [],
+                  }),
+                },
+                201,
+              )
+            }
+            if (url.pathname === '/api/status-pages' && req.method === 'PATCH') {
+              const body = await readJsonBody(req)
+              const page = ownPage(body.id)
+              if (!page) return json({ ok: false, error: 'Status page was not found.' }, 404)
+              return json({
+                ok: true,
+                page: statusPages.updatePage(
+                  page.id,
+                  {
+                    title: body.title == null ? undefined : String(body.title),
+                    description: body.description == null ? undefined : String(body.description),
+                    publicUrl: body.publicUrl == null ? undefined : String(body.publicUrl),
+                    subscribeOrigin: body.subscribeOrigin == null ? undefined : String(body.subscribeOrigin),
+                    site: body.site && typeof body.site === 'object' ? body.site : undefined,
+                    autoPublish: typeof body.autoPublish === 'boolean' ? body.autoPublish : undefined,
+                    components: components(body.components),
+                  },
+                  Number(body.version ?? page.version),
+                ),
+              })
+            }
+            if (url.pathname === '/api/status-pages/publish' && req.method === 'POST') {
+              const body = await readJsonBody(req)
+              const page = ownPage(body.id)
+              if (!page) return json({ ok: false, error: 'Status page was not found.' }, 404)
+              return json({ ok: true, result: await publishStatusPage(statusPages, page.id, { force: true }) })
+            }
+            if (url.pathname === '/api/status-pages/incidents' && req.method === 'POST') {
+              const body = await readJsonBody(req)
+              const page = ownPage(body.pageId)
+              if (!page) return json({ ok: false, error: 'Status page was not found.' }, 404)
+              const incident = statusPages.createIncident({
+                pageId: page.id,
+                title: String(body.title ?? ''),
+                impact: String(body.impact ?? 'minor') as StatusIncidentImpact,
+                status: body.status ? (String(body.status) as StatusIncidentStatus) : undefined,
+                componentIds: Array.isArray(body.componentIds) ? body.componentIds.map(String) : [],
+                body: String(body.body ?? ''),
+                authorActorId: actor?.id,
+              })
+              return json(
+                { ok: true, incident, ...(await announce(page.id, () => statusNotifier.notifyIncident(incident))) },
+                201,
+              )
+            }
+            if (url.pathname === '/api/status-pages/incidents/updates' && req.method === 'POST') {
+              const body = await readJsonBody(req)
+              const current = statusPages.getIncident(String(body.incidentId ?? ''))
+              if (!current || !ownPage(current.pageId))
+                return json({ ok: false, error: 'Incident was not found.' }, 404)
+              const incident = statusPages.addIncidentUpdate(current.id, {
+                status: String(body.status ?? '') as StatusIncidentStatus,
+                body: String(body.body ?? ''),
+                impact: body.impact ? (String(body.impact) as StatusIncidentImpact) : undefined,
+                authorActorId: actor?.id,
+              })
+              return json({
+                ok: true,
+                incident,
+                ...(await announce(incident.pageId, () => statusNotifier.notifyIncident(incident))),
+              })
+            }
+            if (url.pathname === '/api/status-pages/maintenance' && req.method === 'POST') {
+              const body = await readJsonBody(req)
+              const page = ownPage(body.pageId)
+              if (!page) return json({ ok: false, error: 'Status page was not found.' }, 404)
+              const maintenance = statusPages.scheduleMaintenance({
+                pageId: page.id,
+                title: String(body.title ?? ''),
+                body: String(body.body ?? ''),
+                componentIds: Array.isArray(body.componentIds) ? body.componentIds.map(String) : [],
+                startsAt: String(body.startsAt ?? ''),
+                endsAt: String(body.endsAt ?? ''),
+              })
+              return json(
+                {
+                  ok: true,
+                  maintenance,
+                  ...(await announce(page.id, () => statusNotifier.notifyMaintenance(maintenance))),
+                },
+                201,
+              )
+            }
+            if (url.pathname === '/api/status-pages/maintenance' && req.method === 'DELETE') {
+              const current = statusPages.getMaintenance(url.searchParams.get('id') ?? '')
+              if (!current || !ownPage(current.pageId))
+                return json({ ok: false, error: 'Maintenance was not found.' }, 404)
+              const maintenance = statusPages.cancelMaintenance(current.id)
+              return json({
+                ok: true,
+                maintenance,
+                ...(await announce(maintenance.pageId, () => statusNotifier.notifyMaintenance(maintenance))),
+              })
+            }
+            if (url.pathname === '/api/status-pages/subscribers' && req.method === 'POST') {
+              const body = await readJsonBody(req)
+              const page = ownPage(body.pageId)
+              if (!page) return json({ ok: false, error: 'Status page was not found.' }, 404)
+              const kind = body.kind === 'webhook' ? 'webhook' : 'email'
+              const subscribed = statusPages.subscribe({
+                pageId: page.id,
+                kind,
+                target: String(body.target ?? ''),
+                // Webhooks are only added here, by an operator, so they need no
+                // confirmation; an email address still confirms it wants mail.
+                confirmed: kind === 'webhook',
+              })
+              if (!subscribed.subscriber.confirmedAt) await statusNotifier.sendConfirmation(subscribed.subscriber)
+              return json({ ok: true, subscriber: subscribed.subscriber }, subscribed.created ? 201 : 200)
+            }
+            if (url.pathname === '/api/status-pages/subscribers' && req.method === 'DELETE') {
+              const current = statusPages.getSubscriber(url.searchParams.get('id') ?? '')
+              if (!current || !ownPage(current.pageId))
+                return json({ ok: false, error: 'Subscriber was not found.' }, 404)
+              statusPages.removeSubscriber(current.id)
+              return json({ ok: true })
+            }
+          }
+
           if (url.pathname.startsWith('/api/jobs') || url.pathname.startsWith('/api/workers')) {
             const environmentRecord = controlPlane.environments.get(environment)
             const resources = controlPlane.store.listResources(controlPlane.project.id, environmentRecord?.id)
@@ -5993,17 +7294,42 @@ export async function startLocalDashboardServer(
                 payload,
               })
 
+            const workflowJob = (value: unknown) => {
+              const id = String(value ?? '')
+              const current =
+                jobStore.get(id) ??
+                jobStore
+                  .listWorkflowJobs(controlPlane.project.id, environmentRecord?.id)
+                  .find((item) => item.name === id)
+              return current && current.environmentId === environmentRecord?.id && visibleResource(current.resourceId)
+                ? current
+                : undefined
+            }
+            const dependencies = (value: unknown): import('../jobs').JobDependency[] => {
+              if (!Array.isArray(value)) throw new Error('dependsOn must be a list of { jobId, condition } entries.')
+              return value.slice(0, 50).map((item) => {
+                const dependency = workflowJob(item?.jobId)
+                if (!dependency) throw new Error(`Dependency ${String(item?.jobId ?? '')} was not found.`)
+                return { jobId: dependency.id, condition: item.condition ?? 'success' }
+              })
+            }
+
             if (url.pathname === '/api/jobs/preview' && req.method === 'POST') {
               const body = await readJsonBody(req)
               try {
+                const current = body.jobId ? workflowJob(body.jobId) : undefined
+                if (body.jobId && !current) return json({ ok: false, error: 'Scheduled job was not found.' }, 404)
+                const workflow = current ? jobStore.workflowPlan(current.id) : undefined
+                const root = workflow ? jobStore.get(workflow.rootJobId)! : current
                 return json({
                   ok: true,
                   productionExecutionCreated: false,
                   preview: previewSchedule(
-                    String(body.expression ?? ''),
-                    String(body.timezone ?? 'UTC'),
+                    root ? root.normalizedExpression : String(body.expression ?? ''),
+                    root ? root.timezone : String(body.timezone ?? 'UTC'),
                     new Date(body.from ? String(body.from) : Date.now()),
                     Number(body.count) || 5,
+                    workflow,
                   ),
                 })
               } catch (error) {
@@ -6024,12 +7350,34 @@ export async function startLocalDashboardServer(
                 jobs: jobStore
                   .list(controlPlane.project.id, { environmentId: environmentRecord?.id })
                   .filter((item) => visibleResource(item.resourceId))
-                  .map((item) => ({
-                    ...item,
-                    preview: previewSchedule(item.normalizedExpression, item.timezone, new Date(), 5),
-                    capability: jobProviderCapability(item),
-                    lastExecution: jobStore.listExecutions(item.id, 1)[0],
-                  })),
+                  .map((item) => {
+                    const workflow = jobStore.workflowPlan(item.id)
+                    const root = workflow?.rootJobId === item.id
+                    return {
+                      ...item,
+                      preview: item.dependsOn.length
+                        ? undefined
+                        : previewSchedule(item.normalizedExpression, item.timezone, new Date(), 5, workflow),
+                      capability: item.dependsOn.length ? undefined : jobProviderCapability(item),
+                      workflow,
+                      lastWorkflowRun: root ? jobStore.listWorkflowRuns(item.id, 1)[0] : undefined,
+                      lastExecution: jobStore.listExecutions(item.id, 1)[0],
+                    }
+                  }),
+              })
+            }
+
+            if (url.pathname === '/api/jobs/runs' && req.method === 'GET') {
+              const current = workflowJob(url.searchParams.get('jobId'))
+              if (!current) return json({ ok: false, error: 'Scheduled job was not found.' }, 404)
+              const workflow = jobStore.workflowPlan(current.id)
+              if (!workflow) return json({ ok: true, workflow: null, runs: [] })
+              return json({
+                ok: true,
+                workflow,
+                runs: jobStore
+                  .listWorkflowRuns(workflow.rootJobId, Number(url.searchParams.get('limit')) || 20)
+                  .map((run) => ({ ...run, executions: jobStore.listRunExecutions(run.id) })),
               })
             }
 
@@ -6053,16 +7401,24 @@ export async function startLocalDashboardServer(
                 (!operationId || !schedulableOperations.some((item) => item.id === operationId))
               )
                 return json({ ok: false, error: 'Server jobs require an allowlisted operation target.' }, 422)
-              const providerCapability = jobProviderCapability({
-                provider,
-                expression: String(body.expression ?? ''),
-                flexibleMinutes: Number(body.flexibleMinutes) || 0,
-                missedRunPolicy: body.missedRunPolicy === 'catch_up' ? 'catch_up' : 'skip',
-                overlapPolicy: ['allow', 'forbid', 'replace'].includes(String(body.overlapPolicy))
-                  ? body.overlapPolicy
-                  : 'forbid',
-              })
-              if (!providerCapability.supported)
+              let dependsOn: import('../jobs').JobDependency[]
+              try {
+                dependsOn = body.dependsOn == null ? [] : dependencies(body.dependsOn)
+              } catch (error) {
+                return json({ ok: false, error: error instanceof Error ? error.message : 'Invalid dependencies.' }, 422)
+              }
+              const providerCapability = dependsOn.length
+                ? undefined
+                : jobProviderCapability({
+                    provider,
+                    expression: String(body.expression ?? ''),
+                    flexibleMinutes: Number(body.flexibleMinutes) || 0,
+                    missedRunPolicy: body.missedRunPolicy === 'catch_up' ? 'catch_up' : 'skip',
+                    overlapPolicy: ['allow', 'forbid', 'replace'].includes(String(body.overlapPolicy))
+                      ? body.overlapPolicy
+                      : 'forbid',
+                  })
+              if (providerCapability && !providerCapability.supported)
                 return json({ ok: false, error: providerCapability.notes.join(' ') }, 422)
               const resource = body.resourceId
                 ? resources.find((item) => item.id === body.resourceId || item.slug === body.resourceId)
@@ -6088,6 +7444,7 @@ export async function startLocalDashboardServer(
                   flexibleMinutes: Number(body.flexibleMinutes) || 0,
                   target,
                   payloadRefs: safePayloadRefs(body.payloadRefs),
+                  dependsOn,
                   missedRunPolicy: body.missedRunPolicy === 'catch_up' ? 'catch_up' : 'skip',
                   overlapPolicy: ['allow', 'forbid', 'replace'].includes(String(body.overlapPolicy))
                     ? body.overlapPolicy
@@ -6106,7 +7463,12 @@ export async function startLocalDashboardServer(
                 })
                 audit(
                   'created',
-                  { jobId: created.id, provider: created.provider, expression: created.normalizedExpression },
+                  {
+                    jobId: created.id,
+                    provider: created.provider,
+                    expression: created.normalizedExpression,
+                    dependsOn: created.dependsOn.map((item) => ({ ...item })),
+                  },
                   created.resourceId,
                 )
                 return json({ ok: true, job: created, capability: providerCapability }, 201)
@@ -6135,16 +7497,23 @@ export async function startLocalDashboardServer(
               if (overlapPolicy && !['allow', 'forbid', 'replace'].includes(overlapPolicy))
                 return json({ ok: false, error: 'Overlap policy must be allow, forbid, or replace.' }, 422)
               try {
-                const updated = jobStore.updateSchedule(current.id, {
+                const dependsOn = body.dependsOn == null ? undefined : dependencies(body.dependsOn)
+                let updated = jobStore.updateSchedule(current.id, {
                   expression: body.expression ? String(body.expression) : undefined,
                   timezone: body.timezone ? String(body.timezone) : undefined,
                   missedRunPolicy: missedRunPolicy as import('../jobs').ScheduledJob['missedRunPolicy'] | undefined,
                   overlapPolicy: overlapPolicy as import('../jobs').ScheduledJob['overlapPolicy'] | undefined,
                   timeoutSeconds: body.timeoutSeconds == null ? undefined : Number(body.timeoutSeconds),
                 })
+                if (dependsOn) updated = jobStore.setDependencies(current.id, dependsOn)
                 audit(
                   'updated',
-                  { jobId: updated.id, expression: updated.normalizedExpression, version: updated.version },
+                  {
+                    jobId: updated.id,
+                    expression: updated.normalizedExpression,
+                    dependsOn: updated.dependsOn.map((item) => ({ ...item })),
+                    version: updated.version,
+                  },
                   updated.resourceId,
                 )
                 return json({ ok: true, job: updated })
@@ -6306,6 +7675,8 @@ export async function startLocalDashboardServer(
               '/api/telemetry/export',
               '/api/telemetry/saved-queries',
               '/api/telemetry/refresh',
+              '/api/telemetry/traces',
+              '/api/telemetry/trace',
             ].includes(url.pathname)
               ? 'runtime:logs'
               : 'runtime:read'
@@ -6553,6 +7924,36 @@ export async function startLocalDashboardServer(
                 series,
               })
             }
+            if (url.pathname === '/api/telemetry/traces' && req.method === 'GET') {
+              const list = (value: unknown): string[] | undefined => {
+                const values = String(value ?? '')
+                  .split(',')
+                  .map((item) => item.trim())
+                  .filter(Boolean)
+                return values.length ? values : undefined
+              }
+              const duration = (value: unknown): number | undefined =>
+                value == null || value === '' || !Number.isFinite(Number(value)) ? undefined : Number(value)
+              return json({
+                ok: true,
+                ...telemetry.searchTraces({
+                  ...queryFrom(urlInput),
+                  services: list(urlInput.services),
+                  operations: list(urlInput.operations),
+                  minDurationMs: duration(urlInput.minDurationMs),
+                  maxDurationMs: duration(urlInput.maxDurationMs),
+                  durationPercentile: duration(urlInput.durationPercentile),
+                  errorsOnly: urlInput.errorsOnly === 'true',
+                  sort: urlInput.sort === 'duration' ? 'duration' : 'recent',
+                }),
+              })
+            }
+            if (url.pathname === '/api/telemetry/trace' && req.method === 'GET') {
+              if (!urlInput.traceId) return json({ ok: false, error: 'traceId is required.' }, 400)
+              const trace = telemetry.trace({ ...queryFrom(urlInput), traceId: urlInput.traceId })
+              if (!trace) return json({ ok: false, error: 'No spans for this trace in the selected window.' }, 404)
+              return json({ ok: true, trace })
+            }
             if (url.pathname === '/api/telemetry/refresh' && req.method === 'POST')
               return json({ ok: true, ...(await collect(true)) })
             if (url.pathname === '/api/telemetry/export' && req.method === 'POST') {
@@ -7534,6 +8935,109 @@ export async function startLocalDashboardServer(
             }
           }
 
+          if (url.pathname === '/api/drift' && req.method === 'GET') {
+            const environmentRecord = controlPlane.environments.get(environment),
+              stackName = resolveProjectStackName(config as CloudConfig, environment as EnvironmentType)
+            return json({
+              ok: true,
+              stackName,
+              latest: driftService.store.latestSnapshots(controlPlane.project.id, environmentRecord?.id),
+              history: driftService.store.listSnapshots(controlPlane.project.id, {
+                stackName: url.searchParams.get('stack') ?? stackName,
+                limit: Number(url.searchParams.get('limit') ?? 20),
+              }),
+            })
+          }
+
+          if (url.pathname === '/api/drift/detect' && req.method === 'POST') {
+            const body = await readJsonBody(req),
+              environmentRecord = controlPlane.environments.get(environment),
+              stackName = body.stackName
+                ? String(body.stackName)
+                : resolveProjectStackName(config as CloudConfig, environment as EnvironmentType),
+              result = await detectDrift(environmentRecord?.id, stackName, organizationPrincipal(user).actor?.id)
+            if (result.snapshot.state === 'failed' && !result.snapshot.resources.length)
+              return json({ ok: false, error: result.snapshot.error, snapshot: result.snapshot }, 502)
+            return json({ ok: true, ...result })
+          }
+
+          if (url.pathname === '/api/drift/plan' && req.method === 'POST') {
+            const body = await readJsonBody(req),
+              snapshot = driftService.store.getSnapshot(String(body.snapshotId ?? ''))
+            if (!snapshot || snapshot.projectId !== controlPlane.project.id)
+              return json({ ok: false, error: 'Drift snapshot was not found.' }, 404)
+            if (body.strategy !== 'adopt' && body.strategy !== 'revert')
+              return json({ ok: false, error: 'strategy must be adopt or revert.' }, 422)
+            try {
+              return json({ ok: true, plan: await driftService.plan(snapshot.id, body.strategy) })
+            } catch (error) {
+              return json({ ok: false, error: error instanceof Error ? error.message : String(error) }, 409)
+            }
+          }
+
+          if (url.pathname === '/api/change-sets' && req.method === 'GET') {
+            const changeSets = changeSetService.store,
+              status = url.searchParams.get('status')
+            changeSets.expireDue(controlPlane.project.id)
+            return json({
+              ok: true,
+              changeSets: changeSets
+                .list(controlPlane.project.id, {
+                  status: (status || undefined) as StackChangeSetStatus | undefined,
+                  limit: Number(url.searchParams.get('limit') ?? 50),
+                })
+                .filter((item) => mayAccessEnvironment(user, item.environmentId, 'deployments:read'))
+                .map((item) => ({ ...item, approvals: changeSets.approvals(item.id) })),
+            })
+          }
+
+          if (url.pathname === '/api/change-sets/action' && req.method === 'POST') {
+            const body = await readJsonBody(req),
+              changeSet = changeSetService.store.get(String(body.id ?? '')),
+              action = String(body.action ?? '')
+            if (
+              !changeSet ||
+              changeSet.projectId !== controlPlane.project.id ||
+              !mayAccessEnvironment(user, changeSet.environmentId, 'deployments:create')
+            )
+              return json({ ok: false, error: 'Change set was not found in this scope.' }, 404)
+            const actor = ensureDashboardActor(controlPlane.store, user)
+            try {
+              if (action === 'events')
+                return json({ ok: true, events: changeSetService.store.events(changeSet.id) })
+              if (action === 'cancel')
+                return json({
+                  ok: true,
+                  changeSet: await changeSetService.cancel(changeSet.id, {
+                    actorId: actor.id,
+                    reason: typeof body.reason === 'string' ? body.reason : undefined,
+                  }),
+                })
+              const environmentSlug = controlPlane.store
+                .listEnvironments(changeSet.projectId)
+                .find((item) => item.id === changeSet.environmentId)?.slug
+              if (body.confirm !== environmentSlug)
+                return json({ ok: false, error: `Type "${environmentSlug ?? ''}" to confirm the change set.` }, 409)
+              if (action === 'approve')
+                return json({
+                  ok: true,
+                  changeSet: changeSetService.store.decide(changeSet.id, {
+                    actorId: actor.id,
+                    decision: body.decision === 'rejected' ? 'rejected' : 'approved',
+                    comment: typeof body.comment === 'string' ? body.comment : undefined,
+                  }),
+                })
+              if (action === 'execute') {
+                const started = changeSetService.start(changeSet.id, { actorId: actor.id })
+                started.completion.catch(() => {})
+                return json({ ok: true, changeSet: started.changeSet }, 202)
+              }
+              return json({ ok: false, error: 'Unknown change set action.' }, 400)
+            } catch (error) {
+              return json({ ok: false, error: error instanceof Error ? error.message : String(error) }, 409)
+            }
+          }
+
           if (url.pathname === '/api/backups' && req.method === 'GET') {
             const environmentRecord = controlPlane.environments.get(environment),
               policies = backupStore.listPolicies(controlPlane.project.id, environmentRecord?.id),
@@ -7579,7 +9083,7 @@ export async function startLocalDashboardServer(
               encryption = String(body.encryption ?? 'provider'),
               secretPrefix = `secret://data-services/backups/${controlPlane.project.id}/${name}`,
               storedRefs: string[] = []
-            if (!['aws_s3', 's3_compatible', 'aws_backup'].includes(provider))
+            if (!['aws_s3', 's3_compatible', 'aws_backup', 'azure_blob', 'gcs'].includes(provider))
               return json({ ok: false, error: 'A supported backup destination provider is required.' }, 422)
             if (!['provider', 'client_side', 'both'].includes(encryption))
               return json({ ok: false, error: 'Encryption must be provider, client_side, or both.' }, 422)
@@ -7647,7 +9151,7 @@ export async function startLocalDashboardServer(
                 422,
               )
             try {
-              await backupDestination.test(destination)
+              await backupDestinations[destination.provider].test(destination)
               return json({ ok: true, destination: backupStore.recordDestinationTest(destination.id, { ok: true }) })
             } catch (error) {
               const message = error instanceof Error ? error.message : String(error)
@@ -7756,6 +9260,7 @@ export async function startLocalDashboardServer(
                 expectedRpoMinutes: Math.max(1, Number(body.expectedRpoMinutes) || 1440),
                 expectedRtoMinutes: Math.max(1, Number(body.expectedRtoMinutes) || 120),
                 healthCheckId: body.healthCheckId ? String(body.healthCheckId) : undefined,
+                logArchiving: body.logArchiving === true,
                 enabled: body.enabled !== false,
               })
               return json({ ok: true, policy }, 201)
@@ -7796,7 +9301,8 @@ export async function startLocalDashboardServer(
 
           if (url.pathname === '/api/backups/restore' && req.method === 'POST') {
             const body = await readJsonBody(req),
-              point = backupStore.getRecoveryPoint(String(body.recoveryPointId ?? '')),
+              targetTime = body.targetTime ? String(body.targetTime) : undefined,
+              policy = body.recoveryPointId ? undefined : backupStore.getPolicy(String(body.policyId ?? '')),
               mode = body.mode === 'in_place' ? ('in_place' as const) : ('isolated' as const),
               target =
                 body.target && typeof body.target === 'object' && !Array.isArray(body.target)
@@ -7811,7 +9317,19 @@ export async function startLocalDashboardServer(
                 recentAuth: !authEnabled || (!!session && authentication.isRecentlyAuthenticated(session)),
                 downtimeAcknowledged: body.downtimeAcknowledged === true,
                 safetyBackupId: body.safetyBackupId ? String(body.safetyBackupId) : undefined,
+                targetTime,
               }
+            let point = backupStore.getRecoveryPoint(String(body.recoveryPointId ?? ''))
+            // With a policy and a target time the latest base that reaches it is chosen.
+            if (!point && policy?.projectId === controlPlane.project.id && targetTime) {
+              if (Number.isNaN(new Date(targetTime).getTime()))
+                return json({ ok: false, error: 'Target time must be an ISO timestamp.' }, 422)
+              try {
+                point = backupStore.recoveryBaseFor(policy.id, new Date(targetTime).toISOString())
+              } catch (error) {
+                return json({ ok: false, error: error instanceof Error ? error.message : String(error) }, 409)
+              }
+            }
             if (!point || point.projectId !== controlPlane.project.id)
               return json({ ok: false, error: 'Recovery point was not found.' }, 404)
             if (body.drill === true && mode !== 'isolated')
@@ -8635,10 +10153,12 @@ export async function startLocalDashboardServer(
     clearInterval(mfaThrottleSweep)
     clearInterval(runtimeStreamSweep)
     clearInterval(previewCleanupSweep)
+    clearInterval(accessRequestSweep)
     clearInterval(alertEvaluationSweep)
     clearInterval(healthCheckSweep)
     clearInterval(jobScheduleSweep)
     clearInterval(backupScheduleSweep)
+    clearInterval(driftDetectionSweep)
     clearUiCache()
     runtimeStreams.clear()
     queueWorker?.stop()
@@ -0,0 +1,188 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { gzipSync } from 'node:zlib'
+import { AutomationIdentityStore } from '../automation'
+import { ControlPlaneStore } from '../control-plane'
+import { saveTelemetryPolicy, TelemetryStore } from '../telemetry'
+import { createOtlpReceiver } from './otlp-receiver'
+
+const NOW = new Date('2026-07-21T12:00:00.000Z')
+const TRACE_ID = '5b8efff798038103d269b633813fc60c'
+const stores: ControlPlaneStore[] = []
+
+function fixture() {
+  const controlPlane = new ControlPlaneStore({ path: ':memory:' })
+  stores.push(controlPlane)
+  const organization = controlPlane.createOrganization({ slug: 'acme', name: 'Acme' })
+  const project = controlPlane.createProject({ organizationId: organization.id, slug: 'web', name: 'Web' })
+  const production = controlPlane.createEnvironment({
+    projectId: project.id,
+    slug: 'production',
+    name: 'Production',
+    kind: 'production',
+  })
+  const staging = controlPlane.createEnvironment({
+    projectId: project.id,
+    slug: 'staging',
+    name: 'Staging',
+    kind: 'staging',
+  })
+  const api = controlPlane.createResource({
+    projectId: project.id,
+    environmentId: production.id,
+    kind: 'application',
+    slug: 'api',
+    name: 'API',
+  })
+  const identities = new AutomationIdentityStore(controlPlane)
+  const account = identities.createServiceAccount({
+    organizationId: organization.id,
+    slug: 'production-otel',
+    name: 'Production OTel',
+    roleTemplate: 'deployer',
+    scope: { type: 'environment', id: production.id },
+  }).serviceAccount
+  const issue = (capabilities: Parameters<typeof identities.createToken>[0]['capabilities']) =>
+    identities.createToken({
+      serviceAccountId: account.id,
+      name: 'OTel',
+      capabilities,
+      scope: { type: 'environment', id: production.id },
+    }).secret
+  const token = issue(['telemetry:write'])
+  const receiver = createOtlpReceiver({ controlPlane, identities, projectId: project.id, now: () => NOW })
+  const post = (signal: string, body: string | Uint8Array, headers: Record<string, string> = {}, secret = token) =>
+    receiver(
+      new Request(`https://cloud.acme.test/otlp/v1/${signal}`, {
+        method: 'POST',
+        body,
+        headers: { authorization: `Bearer ${secret}`, 'content-type': 'application/json', ...headers },
+      }),
+    ) as Promise<Response>
+  const records = () =>
+    new TelemetryStore(controlPlane).query({
+      projectId: project.id,
+      from: '2026-07-21T00:00:00.000Z',
+      to: '2026-07-22T00:00:00.000Z',
+    }).records
+  return { controlPlane, project, production, staging, api, issue, receiver, post, records }
+}
+
+afterEach(() => {
+  for (const store of stores.splice(0)) store.close()
+})
+
+function traces(resource: Record<string, string>, spanId = 'eee19b7ec3c1b174') {
+  return JSON.stringify({
+    resourceSpans: [
+      {
+        resource: {
+          attributes: Object.entries(resource).map(([key, value]) => ({ key, value: { stringValue: value } })),
+        },
+        scopeSpans: [
+          {
+            spans: [
+              {
+                traceId: TRACE_ID,
+                spanId,
+                name: 'GET /orders/:id',
+                kind: 2,
+                startTimeUnixNano: '1784635200000000000',
+                endTimeUnixNano: '1784635200120000000',
+                attributes: [{ key: 'url.full', value: { stringValue: 'https://api.test/orders/7?token=secret' } }],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  })
+}
+
+describe('OTLP/HTTP receiver', () => {
+  it('ignores paths outside /otlp/v1 and requires a bearer token', async () => {
+    const { receiver, post } = fixture()
+    expect(await receiver(new Request('https://cloud.acme.test/api/v1/projects'))).toBeUndefined()
+    const response = await post('traces', traces({}), {}, 'not-a-token')
+    expect(response.status).toBe(401)
+    expect(await response.json()).toMatchObject({ code: 16 })
+  })
+
+  it('stores spans under the environment and resource their OTel resource names, redacted', async () => {
+    const { post, records, production, api } = fixture()
+    const response = await post('traces', traces({ 'service.name': 'api', 'deployment.environment.name': 'production' }))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({})
+    const [record] = records()
+    expect(record).toMatchObject({
+      kind: 'trace',
+      source: 'otlp:api',
+      environmentId: production.id,
+      resourceId: api.id,
+      traceId: TRACE_ID,
+      durationMs: 120,
+    })
+    expect(JSON.stringify(record?.attributes)).not.toContain('secret')
+  })
+
+  it('treats exporter retries as idempotent', async () => {
+    const { post, records } = fixture()
+    await post('traces', traces({ 'service.name': 'api' }))
+    await post('traces', traces({ 'service.name': 'api' }))
+    expect(records()).toHaveLength(1)
+  })
+
+  it('accepts gzipped protobuf and answers in protobuf', async () => {
+    const { post, records } = fixture()
+    // ExportLogsServiceRequest { resource_logs { scope_logs { log_records { severity_text: "ERROR", body: "boom" } } } }
+    const log = [0x1a, 0x05, ...Buffer.from('ERROR'), 0x2a, 0x06, 0x0a, 0x04, ...Buffer.from('boom')]
+    const scopeLogs = [0x12, log.length, ...log]
+    const resourceLogs = [0x12, scopeLogs.length, ...scopeLogs]
+    const body = gzipSync(Uint8Array.from([0x0a, resourceLogs.length, ...resourceLogs]))
+    const response = await post('logs', body, { 'content-type': 'application/x-protobuf', 'content-encoding': 'gzip' })
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('application/x-protobuf')
+    expect((await response.arrayBuffer()).byteLength).toBe(0)
+    expect(records()).toMatchObject([{ kind: 'log', level: 'error', message: 'boom' }])
+  })
+
+  it('refuses telemetry outside the token scope without storing any of the request', async () => {
+    const { post, records } = fixture()
+    const body = JSON.stringify({
+      resourceSpans: [
+        ...JSON.parse(traces({ 'deployment.environment.name': 'production' })).resourceSpans,
+        ...JSON.parse(traces({ 'deployment.environment.name': 'staging' }, 'eee19b7ec3c1b175')).resourceSpans,
+      ],
+    })
+    const response = await post('traces', body)
+    expect(response.status).toBe(403)
+    expect(records()).toHaveLength(0)
+  })
+
+  it('requires the telemetry:write capability', async () => {
+    const { post, issue } = fixture()
+    const response = await post('traces', traces({}), {}, issue(['project:read']))
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ message: 'The token is missing the telemetry:write capability.' })
+  })
+
+  it('reports unknown projects and environments rather than guessing', async () => {
+    const { post } = fixture()
+    expect((await post('traces', traces({ 'ts_cloud.project': 'shop' }))).status).toBe(404)
+    expect((await post('traces', traces({ 'deployment.environment.name': 'qa' }))).status).toBe(404)
+  })
+
+  it('applies the project telemetry policy', async () => {
+    const { controlPlane, project, post, records } = fixture()
+    saveTelemetryPolicy(controlPlane, project.id, { collectTraces: false })
+    const response = await post('traces', traces({ 'service.name': 'api' }))
+    expect(response.status).toBe(200)
+    expect(records()).toHaveLength(0)
+  })
+
+  it('rejects unsupported encodings and malformed bodies', async () => {
+    const { post } = fixture()
+    expect((await post('traces', 'hello', { 'content-type': 'text/plain' })).status).toBe(415)
+    expect((await post('traces', '{not json')).status).toBe(400)
+    expect((await post('profiles', '{}')).status).toBe(404)
+  })
+})
@@ -0,0 +1,266 @@
+import type { ApiTokenPrincipal, AutomationIdentityStore } from '../automation'
+import type { AuthorizationScope, ControlPlaneStore } from '../control-plane'
+import type { AppendTelemetryInput, OtlpExportRequest, OtlpSignal, OtlpTelemetryBatch, TelemetryPolicy } from '../telemetry'
+import { gunzipSync } from 'node:zlib'
+import { ApiServiceError, AutomationApiService } from '../api/service'
+import {
+  decodeOtlpProtobuf,
+  encodeOtlpExportResponse,
+  encodeOtlpStatus,
+  loadTelemetryPolicy,
+  otlpTelemetryBatches,
+  parseOtlpJson,
+  retainedByTelemetryPolicy,
+  TelemetryStore,
+} from '../telemetry'
+import { TelemetryMaintenanceGate } from './telemetry-collection'
+
+export interface OtlpReceiverOptions {
+  controlPlane: ControlPlaneStore
+  identities: AutomationIdentityStore
+  /**
+   * Project for telemetry whose resource names none and whose token is not
+   * scoped to one — the dashboard's own project.
+   */
+  projectId?: string
+  now?: () => Date
+  /** Decoded (post-gzip) body limit. */
+  maxBodyBytes?: number
+}
+
+export const OTLP_PATH_PREFIX = '/otlp/v1/'
+const MAX_OTLP_RECORDS = 10_000
+const DEFAULT_MAX_BODY_BYTES = 8 * 1024 * 1024
+const RETENTION_MAINTENANCE_INTERVAL_MS = 60 * 60_000
+
+/** The `rejected_*` field of each signal's `ExportPartialSuccess`. */
+const REJECTED_FIELD: Record<OtlpSignal, string> = {
+  traces: 'rejectedSpans',
+  metrics: 'rejectedDataPoints',
+  logs: 'rejectedLogRecords',
+}
+
+/** A batch placed in the control plane and cleared for `telemetry:write`. */
+interface ScopedBatch {
+  projectId: string
+  environmentId?: string
+  resourceId?: string
+  records: OtlpTelemetryBatch['records']
+}
+
+/** The gRPC status code a `google.rpc.Status` error body carries for each HTTP status. */
+const GRPC_CODES: Record<number, number> = { 400: 3, 401: 16, 403: 7, 404: 5, 405: 12, 413: 8, 415: 3 }
+
+class OtlpRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Place a batch: the resource's own `ts_cloud.project` (or a `service.namespace`
+ * naming a project) and environment attributes first, then the token's scope,
+ * then the receiver's default project. The resource's `service.name` becomes the resource id only
+ * when it names a resource ts-cloud manages; otherwise it stays in the source.
+ */
+function scopeBatch(
+  controlPlane: ControlPlaneStore,
+  principal: ApiTokenPrincipal,
+  batch: OtlpTelemetryBatch,
+  defaultProjectId: string | undefined,
+): Omit<ScopedBatch, 'records'> {
+  const organizationId = principal.serviceAccount.organizationId
+  const tokenTarget = controlPlane.resolveAuthorizationTarget(organizationId, principal.token.scope)
+  const { identity } = batch
+  const inOrganization = (slugOrId: string | undefined) => {
+    const project = slugOrId
+      ? (controlPlane.getProjectBySlug(slugOrId) ?? controlPlane.getProject(slugOrId))
+      : undefined
+    return project?.organizationId === organizationId ? project : undefined
+  }
+  if (identity.project && !inOrganization(identity.project))
+    throw new OtlpRequestError(`Project ${identity.project} was not found.`, 404)
+  const project =
+    inOrganization(identity.project) ??
+    inOrganization(identity.namespace) ??
+    inOrganization(tokenTarget?.projectId) ??
+    inOrganization(defaultProjectId)
+  if (!project)
+    throw new OtlpRequestError('Set the ts_cloud.project resource attribute or use a project-scoped token.', 404)
+
+  let environmentId = project.id === tokenTarget?.projectId ? tokenTarget.environmentId : undefined
+  if (identity.environment) {
+    const environment =
+      controlPlane.getEnvironmentBySlug(project.id, identity.environment) ??
+      controlPlane.listEnvironments(project.id).find((item) => item.id === identity.environment)
+    if (!environment)
+      throw new OtlpRequestError(`Environment ${identity.environment} was not found in project ${project.slug}.`, 404)
+    environmentId = environment.id
+  }
+  const resourceId = identity.service
+    ? controlPlane.listResources(project.id, environmentId).find((resource) => resource.slug === identity.service)?.id
+    : undefined
+  return { projectId: project.id, environmentId, resourceId }
+}
+
+async function readBody(request: Request, maxBytes: number): Promise<Uint8Array> {
+  const declared = Number(request.headers.get('content-length') ?? 0)
+  if (declared > maxBytes) throw new OtlpRequestError(`OTLP request body exceeds ${maxBytes} bytes.`, 413)
+  const raw = new Uint8Array(await request.arrayBuffer())
+  const encoding = request.headers.get('content-encoding')?.trim().toLowerCase()
+  if (!encoding || encoding === 'identity') {
+    if (raw.length > maxBytes) throw new OtlpRequestError(`OTLP request body exceeds ${maxBytes} bytes.`, 413)
+    return raw
+  }
+  if (encoding !== 'gzip') throw new OtlpRequestError(`Unsupported content-encoding ${encoding}.`, 415)
+  try {
+    // Bounded so a small compressed body cannot inflate past the limit.
+    return new Uint8Array(gunzipSync(raw, { maxOutputLength: maxBytes }))
+  } catch (error) {
+    if (error instanceof RangeError || (error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE')
+      throw new OtlpRequestError(`OTLP request body exceeds ${maxBytes} bytes.`, 413)
+    throw new OtlpRequestError('OTLP request body is not valid gzip.', 400)
+  }
+}
+
+/**
+ * OTLP/HTTP receiver for `POST /otlp/v1/{traces,metrics,logs}`, so apps that
+ * already emit OpenTelemetry can export straight to the dashboard with an API
+ * token (`Authorization: Bearer …`) carrying `telemetry:write`, rather than
+ * through a sidecar collector.
+ *
+ * Both OTLP encodings are accepted (`application/x-protobuf` and
+ * `application/json`, optionally gzipped), and responses use the request's
+ * encoding. Records go through the same path as collected telemetry: the
+ * project's {@link TelemetryPolicy} decides what is kept and sampled,
+ * {@link TelemetryStore} redacts and stores it, and retention runs at most
+ * hourly per project. Span and deterministic record ids make exporter retries
+ * idempotent.
+ */
+export function createOtlpReceiver(
+  options: OtlpReceiverOptions,
+): (request: Request, networkHint?: string) => Promise<Response | undefined> {
+  const service = new AutomationApiService(options.controlPlane, options.identities)
+  const telemetry = new TelemetryStore(options.controlPlane, { now: options.now })
+  const maintenanceGate = new TelemetryMaintenanceGate(() => (options.now?.() ?? new Date()).getTime())
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES
+
+  const respond = (
+    protobuf: boolean,
+    status: number,
+    body: Uint8Array | Record<string, unknown>,
+    headers: Record<string, string> = {},
+  ) =>
+    new Response(protobuf ? (body as Uint8Array) : JSON.stringify(body), {
+      status,
+      headers: {
+        'content-type': protobuf ? 'application/x-protobuf' : 'application/json; charset=utf-8',
+        'cache-control': 'no-store',
+        ...headers,
+      },
+    })
+  // OTLP/HTTP error bodies are a google.rpc.Status in the request's encoding.
+  const failure = (protobuf: boolean, status: number, message: string, headers?: Record<string, string>) => {
+    const code = GRPC_CODES[status] ?? 2
+    return respond(protobuf, status, protobuf ? encodeOtlpStatus(code, message) : { code, message }, headers)
+  }
+
+  return async (request: Request, networkHint?: string): Promise<Response | undefined> => {
+    const url = new URL(request.url)
+    if (!url.pathname.startsWith(OTLP_PATH_PREFIX)) return undefined
+    const signal = url.pathname.slice(OTLP_PATH_PREFIX.length).replace(/\/$/, '')
+    const contentType = request.headers.get('content-type')?.split(';')[0]?.trim().toLowerCase() ?? ''
+    const protobuf = contentType !== 'application/json'
+    if (signal !== 'traces' && signal !== 'metrics' && signal !== 'logs')
+      return failure(protobuf, 404, 'Unknown OTLP signal.')
+    if (request.method !== 'POST') return failure(protobuf, 405, 'OTLP export requests use POST.', { allow: 'POST' })
+
+    const authorization = request.headers.get('authorization') ?? ''
+    const bearerToken = authorization.startsWith('Bearer ') ? authorization.slice(7).trim() : ''
+    const principal = bearerToken ? options.identities.verifyToken(bearerToken, networkHint) : undefined
+    if (!principal)
+      return failure(protobuf, 401, 'A valid bearer token is required.', {
+        'www-authenticate': 'Bearer realm="ts-cloud", error="invalid_token"',
+      })
+    if (contentType !== 'application/x-protobuf' && contentType !== 'application/json')
+      return failure(protobuf, 415, 'OTLP requests must be application/x-protobuf or application/json.')
+
+    try {
+      const body = await readBody(request, maxBodyBytes)
+      let decoded: OtlpExportRequest
+      let batches: OtlpTelemetryBatch[]
+      try {
+        decoded = protobuf ? decodeOtlpProtobuf(signal, body) : parseOtlpJson(new TextDecoder().decode(body))
+        batches = otlpTelemetryBatches(signal, decoded, options.now?.() ?? new Date())
+      } catch (error) {
+        throw new OtlpRequestError(
+          `OTLP request could not be decoded: ${error instanceof Error ? error.message : String(error)}`,
+          400,
+        )
+      }
+      const total = batches.reduce((count, batch) => count + batch.records.length, 0)
+      if (total > MAX_OTLP_RECORDS)
+        throw new OtlpRequestError(`OTLP export requests are limited to ${MAX_OTLP_RECORDS} records.`, 413)
+
+      // Every batch is placed and authorized before anything is stored, so a
+      // request is either refused outright or accepted as a whole.
+      const scoped: ScopedBatch[] = batches.map((batch) => {
+        const scope = scopeBatch(options.controlPlane, principal, batch, options.projectId)
+        const requested: AuthorizationScope = scope.resourceId
+          ? { type: 'resource', id: scope.resourceId }
+          : scope.environmentId
+            ? { type: 'environment', id: scope.environmentId }
+            : { type: 'project', id: scope.projectId }
+        service.authorize(principal, 'telemetry:write', requested)
+        return { ...scope, records: batch.records }
+      })
+
+      const policies = new Map<string, TelemetryPolicy>()
+      const policyFor = (projectId: string): TelemetryPolicy => {
+        const policy = policies.get(projectId) ?? loadTelemetryPolicy(options.controlPlane, projectId)
+        policies.set(projectId, policy)
+        return policy
+      }
+      let rejected = 0
+      let errorMessage: string | undefined
+      const store = options.controlPlane.database.transaction(() => {
+        for (const batch of scoped) {
+          const policy = policyFor(batch.projectId)
+          for (const record of batch.records) {
+            const input: AppendTelemetryInput = {
+              ...record,
+              projectId: batch.projectId,
+              environmentId: batch.environmentId,
+              resourceId: batch.resourceId,
+            }
+            if (!retainedByTelemetryPolicy(input, policy)) continue
+            try {
+              telemetry.append({ ...input, sampled: policy.samplingRate < 1 && (input.kind === 'log' || input.kind === 'trace') })
+            } catch (error) {
+              rejected += 1
+              errorMessage ??= error instanceof Error ? error.message : String(error)
+            }
+          }
+        }
+      })
+      store()
+      for (const projectId of policies.keys())
+        if (maintenanceGate.shouldRun(projectId, RETENTION_MAINTENANCE_INTERVAL_MS))
+          telemetry.enforceRetention(policyFor(projectId), projectId)
+
+      if (protobuf) return respond(true, 200, encodeOtlpExportResponse(rejected, errorMessage))
+      return respond(
+        false,
+        200,
+        rejected || errorMessage ? { partialSuccess: { [REJECTED_FIELD[signal]]: rejected, errorMessage } } : {},
+      )
+    } catch (error) {
+      if (error instanceof OtlpRequestError || error instanceof ApiServiceError)
+        return failure(protobuf, error.status, error.message)
+      throw error
+    }
+  }
+}
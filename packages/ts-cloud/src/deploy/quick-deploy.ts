@@ -99,7 +99,8 @@ export function buildQuickDeployCi(
         uses: home-lang/pantry/packages/action@main`
       : `      - uses: oven-sh/setup-bun@v2
       - run: bun install --frozen-lockfile`
-  const needsSshKey = resolveCloudProvider(config) === 'hetzner' && !!config.infrastructure?.compute
+  const cloudProvider = resolveCloudProvider(config)
+  const needsSshKey = (cloudProvider === 'hetzner' || cloudProvider === 'digitalocean') && !!config.infrastructure?.compute
   const sshPrivateKeySecret = options.sshPrivateKeySecret || 'SSH_PRIVATE_KEY'
   if (!/^[A-Z_][A-Z0-9_]*$/i.test(sshPrivateKeySecret))
     throw new Error(`Invalid SSH private key secret name '${sshPrivateKeySecret}'`)
@@ -110,7 +111,7 @@ export function buildQuickDeployCi(
           SSH_PRIVATE_KEY: \${{ secrets.${sshPrivateKeySecret} }}
         run: |
           if [ -z "$SSH_PRIVATE_KEY" ]; then
-            echo "::error::${sshPrivateKeySecret} is required for Hetzner compute deployments"
+            echo "::error::${sshPrivateKeySecret} is required for ${cloudProvider === 'digitalocean' ? 'DigitalOcean' : 'Hetzner'} compute deployments"
             exit 1
           fi
           install -d -m 700 "$HOME/.ssh"
@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { AuthenticationStore, SCIM_PATCH_OP_SCHEMA } from '../auth'
+import { AutomationIdentityStore } from '../automation'
+import { ControlPlaneStore } from '../control-plane'
+import { createScimEndpoint } from './scim-endpoint'
+
+const stores: ControlPlaneStore[] = []
+const body = async (response: Response | Promise<Response>): Promise<any> => (await response).json()
+
+afterEach(() => {
+  for (const store of stores.splice(0)) store.close()
+})
+
+function fixture() {
+  const controlPlane = new ControlPlaneStore({ path: ':memory:' })
+  stores.push(controlPlane)
+  const organization = controlPlane.createOrganization({ slug: 'acme', name: 'Acme' })
+  const authentication = new AuthenticationStore(controlPlane)
+  const identities = new AutomationIdentityStore(controlPlane)
+  const account = identities.createServiceAccount({
+    organizationId: organization.id,
+    slug: 'scim',
+    name: 'SCIM provisioning',
+    roleTemplate: 'admin',
+    scope: { type: 'organization' },
+  }).serviceAccount
+  const issue = (capabilities: Parameters<typeof identities.createToken>[0]['capabilities']) =>
+    identities.createToken({ serviceAccountId: account.id, name: 'SCIM', capabilities }).secret
+  const token = issue(['users:read', 'users:manage'])
+  const endpoint = createScimEndpoint({
+    controlPlane,
+    identities,
+    authentication,
+    provisionIdentity: ({ email, name }) => {
+      const actor = controlPlane.createActor({
+        kind: 'user',
+        externalId: `dashboard:${email}`,
+        displayName: name ?? email,
+      })
+      return authentication.createIdentity({
+        actorId: actor.id,
+        username: email.split('@')[0]!,
+        email,
+        emailVerified: true,
+        passwordHash: 'scrypt$unused',
+      })
+    },
+  })
+  const call = (method: string, path: string, body?: unknown, secret = token) =>
+    endpoint(
+      new Request(`https://cloud.acme.test/scim/v2${path}`, {
+        method,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        headers: { authorization: `Bearer ${secret}`, 'content-type': 'application/scim+json' },
+      }),
+    ) as Promise<Response>
+  return { controlPlane, organization, authentication, endpoint, call, issue }
+}
+
+describe('SCIM endpoint', () => {
+  it('ignores other paths and requires a token with the user capabilities', async () => {
+    const { endpoint, call, issue } = fixture()
+    expect(await endpoint(new Request('https://cloud.acme.test/scimv2/Users'))).toBeUndefined()
+    const anonymous = await call('GET', '/Users', undefined, '')
+    expect(anonymous.status).toBe(401)
+    expect(anonymous.headers.get('content-type')).toContain('application/scim+json')
+    expect(await body(anonymous)).toMatchObject({ status: '401', detail: 'A valid bearer token is required.' })
+
+    const readOnly = issue(['users:read'])
+    expect((await call('GET', '/Users', undefined, readOnly)).status).toBe(200)
+    const refused = await call('POST', '/Users', { userName: 'chris@acme.test' }, readOnly)
+    expect(refused.status).toBe(403)
+    expect((await body(refused)).detail).toContain('users:manage')
+  })
+
+  it('describes itself', async () => {
+    const { call } = fixture()
+    expect(await body(call('GET', '/ServiceProviderConfig'))).toMatchObject({
+      patch: { supported: true },
+      filter: { supported: true, maxResults: 200 },
+      bulk: { supported: false },
+    })
+    const types = await body(call('GET', '/ResourceTypes'))
+    expect(types.Resources.map((type: { id: string }) => type.id)).toEqual(['User', 'Group'])
+    const schema = await call('GET', '/Schemas/urn:ietf:params:scim:schemas:core:2.0:User')
+    expect((await body(schema)).attributes[0]).toMatchObject({ name: 'userName', uniqueness: 'server' })
+    expect((await call('GET', '/Schemas/unknown')).status).toBe(404)
+  })
+
+  it('provisions, filters, patches and deprovisions users', async () => {
+    const { call, authentication, controlPlane, organization } = fixture()
+    const created = await call('POST', '/Users', {
+      schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+      userName: 'chris@acme.test',
+      externalId: 'entra-42',
+      name: { givenName: 'Chris', familyName: 'Lee' },
+      emails: [{ value: 'chris@acme.test', type: 'work', primary: true }],
+      roles: [{ value: 'deployer', primary: true }],
+    })
+    expect(created.status).toBe(201)
+    const user = await body(created)
+    expect(created.headers.get('location')).toBe(`https://cloud.acme.test/scim/v2/Users/${user.id}`)
+    expect(user).toMatchObject({ userName: 'chris@acme.test', active: true, roles: [{ value: 'deployer' }] })
+    expect((await call('POST', '/Users', { userName: 'chris@acme.test' })).status).toBe(409)
+    await call('POST', '/Users', { userName: 'dana@acme.test' })
+
+    const filtered = await body(call('GET', `/Users?filter=${encodeURIComponent('externalId eq "ENTRA-42"')}`))
+    expect(filtered).toMatchObject({ totalResults: 1, startIndex: 1, itemsPerPage: 1 })
+    expect(filtered.Resources[0].id).toBe(user.id)
+    const paged = await body(call('GET', '/Users?startIndex=2&count=5&attributes=userName'))
+    expect(paged).toMatchObject({ totalResults: 2, startIndex: 2, itemsPerPage: 1 })
+    expect(Object.keys(paged.Resources[0]).sort()).toEqual(['id', 'meta', 'schemas', 'userName'])
+    const invalid = await call('GET', `/Users?filter=${encodeURIComponent('userName eq')}`)
+    expect(invalid.status).toBe(400)
+    expect(await body(invalid)).toMatchObject({ scimType: 'invalidFilter' })
+
+    const identity = authentication.getIdentityByEmail('chris@acme.test')!
+    const patched = await call('PATCH', `/Users/${user.id}`, {
+      schemas: [SCIM_PATCH_OP_SCHEMA],
+      Operations: [{ op: 'Replace', path: 'active', value: 'False' }],
+    })
+    expect(patched.status).toBe(200)
+    expect(await body(patched)).toMatchObject({ active: false, roles: [{ value: 'deployer' }] })
+    expect(controlPlane.getMembershipForActor(organization.id, identity.actorId)?.status).toBe('revoked')
+
+    expect((await call('DELETE', `/Users/${user.id}`)).status).toBe(204)
+    expect((await call('GET', `/Users/${user.id}`)).status).toBe(404)
+    expect((await call('PUT', `/Users/${user.id}`, { userName: 'chris@acme.test' })).status).toBe(404)
+  })
+
+  it('manages group members with PATCH', async () => {
+    const { call } = fixture()
+    const chris = await body(call('POST', '/Users', { userName: 'chris@acme.test' }))
+    const dana = await body(call('POST', '/Users', { userName: 'dana@acme.test' }))
+    const group = await body(
+      call('POST', '/Groups', { displayName: 'Release Managers', members: [{ value: chris.id }] }),
+    )
+    const patched = await call('PATCH', `/Groups/${group.id}`, {
+      schemas: [SCIM_PATCH_OP_SCHEMA],
+      Operations: [
+        { op: 'add', path: 'members', value: [{ value: dana.id }] },
+        { op: 'remove', path: `members[value eq "${chris.id}"]` },
+      ],
+    })
+    expect((await body(patched)).members.map((member: { value: string }) => member.value)).toEqual([dana.id])
+    const filter = encodeURIComponent('displayName eq "release managers"')
+    const listed = await body(call('GET', `/Groups?filter=${filter}&excludedAttributes=members`))
+    expect(listed.totalResults).toBe(1)
+    expect(listed.Resources[0]).not.toHaveProperty('members')
+    expect((await body(call('GET', `/Users/${dana.id}`))).groups).toEqual([
+      { value: group.id, $ref: `https://cloud.acme.test/scim/v2/Groups/${group.id}` },
+    ])
+    expect((await call('DELETE', `/Groups/${group.id}`)).status).toBe(204)
+    expect((await call('POST', '/Groups', { members: [] })).status).toBe(400)
+  })
+})
@@ -0,0 +1,310 @@
+import type { AuthenticationStore, ScimProvisioningStoreOptions } from '../auth'
+import type { AutomationIdentityStore } from '../automation'
+import type { ControlPlaneStore } from '../control-plane'
+import { ApiServiceError, AutomationApiService } from '../api/service'
+import {
+  applyScimPatch,
+  matchesScimFilter,
+  parseScimFilter,
+  projectScimResource,
+  readScimGroup,
+  readScimPatch,
+  readScimUser,
+  SCIM_ERROR_SCHEMA,
+  SCIM_GROUP_SCHEMA,
+  SCIM_LIST_RESPONSE_SCHEMA,
+  SCIM_USER_SCHEMA,
+  ScimError,
+  scimGroupResource,
+  ScimProvisioningStore,
+  scimUserResource,
+} from '../auth'
+
+export interface ScimEndpointOptions {
+  controlPlane: ControlPlaneStore
+  identities: AutomationIdentityStore
+  authentication: AuthenticationStore
+  provisionIdentity: ScimProvisioningStoreOptions['provisionIdentity']
+  now?: () => Date
+  maxBodyBytes?: number
+}
+
+export const SCIM_PATH_PREFIX = '/scim/v2'
+const MAX_PAGE_SIZE = 200
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024
+const SERVICE_PROVIDER_CONFIG_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'
+const RESOURCE_TYPE_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:ResourceType'
+const SCHEMA_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Schema'
+
+type Attribute = Record<string, unknown>
+
+function attribute(name: string, type: string, options: Attribute = {}): Attribute {
+  return {
+    name,
+    type,
+    multiValued: false,
+    required: false,
+    caseExact: false,
+    mutability: 'readWrite',
+    returned: 'default',
+    uniqueness: 'none',
+    ...options,
+  }
+}
+
+const SCHEMAS = [
+  {
+    id: SCIM_USER_SCHEMA,
+    name: 'User',
+    description: 'An organization member.',
+    attributes: [
+      attribute('userName', 'string', { required: true, uniqueness: 'server' }),
+      attribute('name', 'complex', {
+        subAttributes: [
+          attribute('formatted', 'string', { mutability: 'readOnly' }),
+          attribute('givenName', 'string'),
+          attribute('familyName', 'string'),
+        ],
+      }),
+      attribute('displayName', 'string'),
+      attribute('emails', 'complex', {
+        multiValued: true,
+        required: true,
+        subAttributes: [attribute('value', 'string'), attribute('type', 'string'), attribute('primary', 'boolean')],
+      }),
+      attribute('active', 'boolean'),
+      attribute('roles', 'complex', {
+        multiValued: true,
+        description: 'The organization role: admin, deployer, operator, viewer or auditor.',
+        subAttributes: [attribute('value', 'string'), attribute('primary', 'boolean')],
+      }),
+      attribute('groups', 'complex', {
+        multiValued: true,
+        mutability: 'readOnly',
+        subAttributes: [
+          attribute('value', 'string', { mutability: 'readOnly' }),
+          attribute('$ref', 'reference', { mutability: 'readOnly', referenceTypes: ['Group'] }),
+        ],
+      }),
+    ],
+  },
+  {
+    id: SCIM_GROUP_SCHEMA,
+    name: 'Group',
+    description: 'A set of users. Mapped groups grant their members a role.',
+    attributes: [
+      attribute('displayName', 'string', { required: true, uniqueness: 'server' }),
+      attribute('members', 'complex', {
+        multiValued: true,
+        subAttributes: [
+          attribute('value', 'string', { mutability: 'immutable' }),
+          attribute('$ref', 'reference', { mutability: 'immutable', referenceTypes: ['User'] }),
+        ],
+      }),
+    ],
+  },
+]
+
+const RESOURCE_TYPES = [
+  { id: 'User', name: 'User', endpoint: '/Users', schema: SCIM_USER_SCHEMA },
+  { id: 'Group', name: 'Group', endpoint: '/Groups', schema: SCIM_GROUP_SCHEMA },
+]
+
+async function readJson(request: Request, maxBytes: number): Promise<unknown> {
+  if (Number(request.headers.get('content-length') ?? 0) > maxBytes)
+    throw new ScimError(`SCIM request body exceeds ${maxBytes} bytes.`, 413)
+  const body = await request.text()
+  if (body.length > maxBytes) throw new ScimError(`SCIM request body exceeds ${maxBytes} bytes.`, 413)
+  try {
+    return JSON.parse(body) as unknown
+  } catch {
+    throw new ScimError('SCIM request body is not valid JSON.', 400, 'invalidSyntax')
+  }
+}
+
+function pageNumber(value: string | null, fallback: number, minimum: number): number {
+  if (value === null) return fallback
+  const parsed = Number.parseInt(value, 10)
+  return Number.isFinite(parsed) ? Math.max(minimum, parsed) : fallback
+}
+
+/**
+ * SCIM 2.0 service provider at `/scim/v2`, so an IdP such as Entra ID or Okta
+ * can create, update and deprovision organization members and their groups.
+ * Clients authenticate with an API token: reads need `users:read` and changes
+ * `users:manage`, both for the whole organization.
+ */
+export function createScimEndpoint(
+  options: ScimEndpointOptions,
+): (request: Request, networkHint?: string) => Promise<Response | undefined> {
+  const service = new AutomationApiService(options.controlPlane, options.identities)
+  const store = new ScimProvisioningStore(options.controlPlane, options.authentication, {
+    now: options.now,
+    provisionIdentity: options.provisionIdentity,
+  })
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES
+
+  const respond = (status: number, body?: unknown, headers: Record<string, string> = {}) =>
+    new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/scim+json; charset=utf-8', 'cache-control': 'no-store', ...headers },
+    })
+  const failure = (status: number, detail: string, scimType?: string, headers?: Record<string, string>) =>
+    respond(status, { schemas: [SCIM_ERROR_SCHEMA], status: String(status), scimType, detail }, headers)
+
+  return async (request: Request, networkHint?: string): Promise<Response | undefined> => {
+    const url = new URL(request.url)
+    if (url.pathname !== SCIM_PATH_PREFIX && !url.pathname.startsWith(`${SCIM_PATH_PREFIX}/`)) return undefined
+    const [collection, id, ...rest] = url.pathname
+      .slice(SCIM_PATH_PREFIX.length)
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => {
+        try {
+          return decodeURIComponent(segment)
+        } catch {
+          return segment
+        }
+      })
+    const method = request.method.toUpperCase()
+
+    const authorization = request.headers.get('authorization') ?? ''
+    const bearerToken = authorization.startsWith('Bearer ') ? authorization.slice(7).trim() : ''
+    const principal = bearerToken ? options.identities.verifyToken(bearerToken, networkHint) : undefined
+    if (!principal)
+      return failure(401, 'A valid bearer token is required.', undefined, {
+        'www-authenticate': 'Bearer realm="ts-cloud", error="invalid_token"',
+      })
+    const organizationId = principal.serviceAccount.organizationId
+    const actorId = principal.actor.id
+    const base = `${url.origin}${SCIM_PATH_PREFIX}`
+    const meta = (resourceType: string, path: string) => ({ resourceType, location: `${base}/${path}` })
+
+    try {
+      service.authorize(principal, method === 'GET' ? 'users:read' : 'users:manage', { type: 'organization' })
+      if (rest.length > 0) throw new ScimError('Unknown SCIM endpoint.', 404)
+
+      if (collection === 'ServiceProviderConfig' && !id) {
+        if (method !== 'GET') throw new ScimError('ServiceProviderConfig is read-only.', 405)
+        return respond(200, {
+          schemas: [SERVICE_PROVIDER_CONFIG_SCHEMA],
+          patch: { supported: true },
+          bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+          filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+          changePassword: { supported: false },
+          sort: { supported: false },
+          etag: { supported: false },
+          authenticationSchemes: [
+            {
+              type: 'oauthbearertoken',
+              name: 'API token',
+              description: 'A ts-cloud API token with users:read and users:manage for the organization.',
+              primary: true,
+            },
+          ],
+          meta: meta('ServiceProviderConfig', 'ServiceProviderConfig'),
+        })
+      }
+      if (collection === 'ResourceTypes' || collection === 'Schemas') {
+        if (method !== 'GET') throw new ScimError(`${collection} are read-only.`, 405)
+        const resources =
+          collection === 'ResourceTypes'
+            ? RESOURCE_TYPES.map((type) => ({
+                schemas: [RESOURCE_TYPE_SCHEMA],
+                ...type,
+                meta: meta('ResourceType', `ResourceTypes/${type.id}`),
+              }))
+            : SCHEMAS.map((schema) => ({
+                schemas: [SCHEMA_SCHEMA],
+                ...schema,
+                meta: meta('Schema', `Schemas/${schema.id}`),
+              }))
+        if (id) {
+          const resource = resources.find((item) => item.id === id)
+          if (!resource) throw new ScimError(`${id} was not found.`, 404)
+          return respond(200, resource)
+        }
+        return respond(200, {
+          schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+          totalResults: resources.length,
+          startIndex: 1,
+          itemsPerPage: resources.length,
+          Resources: resources,
+        })
+      }
+      if (collection !== 'Users' && collection !== 'Groups') throw new ScimError('Unknown SCIM endpoint.', 404)
+
+      const users = collection === 'Users'
+      const project = (resource: Record<string, unknown>) =>
+        projectScimResource(resource, {
+          attributes: url.searchParams.get('attributes'),
+          excludedAttributes: url.searchParams.get('excludedAttributes'),
+        })
+      const current = (): Record<string, unknown> => {
+        const user = users ? store.getUser(organizationId, id!) : undefined
+        const group = users ? undefined : store.getGroup(organizationId, id!)
+        if (user) return scimUserResource(user, base)
+        if (group) return scimGroupResource(group, base)
+        throw new ScimError(`${users ? 'User' : 'Group'} ${id} was not found.`, 404)
+      }
+      const save = (body: unknown): Record<string, unknown> =>
+        users
+          ? scimUserResource(
+              id
+                ? store.replaceUser(organizationId, id, readScimUser(body), actorId)
+                : store.createUser(organizationId, readScimUser(body), actorId),
+              base,
+            )
+          : scimGroupResource(
+              id
+                ? store.replaceGroup(organizationId, id, readScimGroup(body), actorId)
+                : store.createGroup(organizationId, readScimGroup(body), actorId),
+              base,
+            )
+
+      if (!id) {
+        if (method === 'POST') {
+          const created = save(await readJson(request, maxBodyBytes))
+          return respond(201, project(created), {
+            location: String((created.meta as { location: string }).location),
+          })
+        }
+        if (method !== 'GET') throw new ScimError(`${collection} support GET and POST.`, 405)
+        const filterText = url.searchParams.get('filter')
+        const filter = filterText ? parseScimFilter(filterText) : undefined
+        const resources = (
+          users
+            ? store.listUsers(organizationId).map((user) => scimUserResource(user, base))
+            : store.listGroups(organizationId).map((group) => scimGroupResource(group, base))
+        ).filter((resource) => !filter || matchesScimFilter(filter, resource))
+        const startIndex = pageNumber(url.searchParams.get('startIndex'), 1, 1)
+        const count = Math.min(pageNumber(url.searchParams.get('count'), MAX_PAGE_SIZE, 0), MAX_PAGE_SIZE)
+        const page = resources.slice(startIndex - 1, startIndex - 1 + count).map(project)
+        return respond(200, {
+          schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+          totalResults: resources.length,
+          startIndex,
+          itemsPerPage: page.length,
+          Resources: page,
+        })
+      }
+
+      if (method === 'GET') return respond(200, project(current()))
+      if (method === 'PUT') return respond(200, project(save(await readJson(request, maxBodyBytes))))
+      if (method === 'PATCH') {
+        const operations = readScimPatch(await readJson(request, maxBodyBytes))
+        return respond(200, project(save(applyScimPatch(current(), operations))))
+      }
+      if (method === 'DELETE') {
+        if (users) store.deleteUser(organizationId, id, actorId)
+        else store.deleteGroup(organizationId, id, actorId)
+        return respond(204)
+      }
+      throw new ScimError(`${collection} support GET, PUT, PATCH and DELETE.`, 405)
+    } catch (error) {
+      if (error instanceof ScimError) return failure(error.status, error.message, error.scimType)
+      if (error instanceof ApiServiceError) return failure(error.status, error.message)
+      throw error
+    }
+  }
+}
@@ -295,7 +295,8 @@ function escapeRegExp(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 }
 
-function findMatchingBrace(text: string, start: number): number {
+/** Index of the brace closing the one at `start`, skipping strings and comments. */
+export function findMatchingBrace(text: string, start: number, block: string = 'sites'): number {
   let depth = 0
   let quote: '"' | "'" | '`' | undefined
   let escaped = false
@@ -356,5 +357,5 @@ function findMatchingBrace(text: string, start: number): number {
     }
   }
 
-  throw new Error('Could not find the closing brace for sites: { ... } in cloud.config.ts')
+  throw new Error(`Could not find the closing brace for ${block}: { ... } in cloud.config.ts`)
 }
@@ -0,0 +1,46 @@
+import type { CloudFormationClient } from '../aws/cloudformation'
+
+/**
+ * What a split project stack looks like in CloudFormation today.
+ *
+ * `splitStackTemplate` keeps every deployed resource in the stack it already
+ * lives in, because moving a resource between stacks deletes and recreates it.
+ * That only works if the deploy reads the placement back from the account
+ * rather than recomputing it, so this collects the stack of every resource in
+ * the root stack and its `-part-N` siblings, plus the exports they publish.
+ */
+
+export type SplitStackCloudFormation = Pick<
+  CloudFormationClient,
+  'listStacks' | 'listStackResources' | 'describeStacks'
+>
+
+export interface DeployedSplitState {
+  /** Stacks that exist today, the root first */
+  stacks: string[]
+  /** Stack each deployed resource lives in, keyed by logical ID */
+  previous: Record<string, string>
+  /** Export names the stacks publish */
+  exports: string[]
+}
+
+export async function readDeployedSplitState(
+  cloudformation: SplitStackCloudFormation,
+  stackName: string,
+): Promise<DeployedSplitState> {
+  const { StackSummaries } = await cloudformation.listStacks()
+  const stacks = StackSummaries.filter((stack) => stack.StackStatus !== 'DELETE_COMPLETE')
+    .map((stack) => stack.StackName)
+    .filter((name) => name === stackName || name.startsWith(`${stackName}-part-`))
+    .sort((a, b) => (a === stackName ? -1 : b === stackName ? 1 : a.localeCompare(b, 'en', { numeric: true })))
+
+  const previous: Record<string, string> = {}
+  const exports: string[] = []
+  for (const name of stacks) {
+    const { StackResourceSummaries } = await cloudformation.listStackResources(name)
+    for (const resource of StackResourceSummaries) previous[resource.LogicalResourceId] = name
+    const { Stacks } = await cloudformation.describeStacks({ stackName: name })
+    for (const output of Stacks[0]?.Outputs ?? []) if (output.ExportName) exports.push(output.ExportName)
+  }
+  return { stacks: [...new Set(stacks)], previous, exports }
+}
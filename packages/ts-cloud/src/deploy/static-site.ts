@@ -35,6 +35,8 @@ export interface StaticSiteConfig {
   errorDocument?: string
   /** Cache control for assets */
   cacheControl?: string
+  /** Cache control for HTML files (default: max-age=3600, public) */
+  htmlCacheControl?: string
   /** Tags to apply to resources */
   tags?: Record<string, string>
   /**
@@ -66,6 +68,8 @@ export interface UploadOptions {
   region: string
   /** Cache control header */
   cacheControl?: string
+  /** Cache control header for HTML files */
+  htmlCacheControl?: string
   /** Callback for progress updates */
   onProgress?: (uploaded: number, total: number, file: string) => void
 }
@@ -915,7 +919,14 @@ export async function deployStaticSite(config: StaticSiteConfig): Promise<Deploy
 export async function uploadStaticFiles(
   options: UploadOptions,
 ): Promise<{ uploaded: number; skipped: number; errors: string[] }> {
-  const { sourceDir, bucket, region, cacheControl = 'max-age=31536000, public', onProgress } = options
+  const {
+    sourceDir,
+    bucket,
+    region,
+    cacheControl = 'max-age=31536000, public',
+    htmlCacheControl = 'max-age=3600, public',
+    onProgress,
+  } = options
   const s3 = new S3Client(region)
 
   const { readdir } = await import('node:fs/promises')
@@ -1006,7 +1017,7 @@ export async function uploadStaticFiles(
   for (const file of files) {
     const key = relative(sourceDir, file)
     const contentType = getContentType(file)
-    const fileCacheControl = file.endsWith('.html') ? 'max-age=3600, public' : cacheControl
+    const fileCacheControl = file.endsWith('.html') ? htmlCacheControl : cacheControl
 
     try {
       const content = Buffer.from(await Bun.file(file).arrayBuffer())
@@ -1121,6 +1132,7 @@ export async function deployStaticSiteFull(
     bucket: infraResult.bucket,
     region: siteConfig.region || 'us-east-1',
     cacheControl: siteConfig.cacheControl,
+    htmlCacheControl: siteConfig.htmlCacheControl,
     onProgress: (uploaded, total, file) => {
       onProgress?.('upload', `${uploaded}/${total}: ${file}`)
     },
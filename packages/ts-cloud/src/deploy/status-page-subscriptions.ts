@@ -0,0 +1,106 @@
+import type { StatusPageStore, StatusSubscriberNotifier } from '../status-page'
+import { LoginThrottle } from './dashboard-throttle'
+
+export const STATUS_SUBSCRIPTION_PATH: RegExp = /^\/status\/([a-z0-9][a-z0-9-]{0,62})\/(subscribe|confirm|unsubscribe)$/
+
+export interface StatusSubscriptionEndpointOptions {
+  store: StatusPageStore
+  notifier: StatusSubscriberNotifier
+  /** Per-address limit on subscribe attempts. */
+  throttle?: LoginThrottle
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    (character) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[character]!,
+  )
+}
+
+function message(title: string, text: string, back?: string, status = 200): Response {
+  return new Response(
+    `<!doctype html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${escapeHtml(
+      title,
+    )}</title></head><body style="font:16px/1.5 system-ui,sans-serif;max-width:560px;margin:60px auto;padding:0 20px"><h1 style="font-size:22px">${escapeHtml(
+      title,
+    )}</h1><p>${escapeHtml(text)}</p>${back ? `<p><a href="${escapeHtml(back)}">Back to the status page</a></p>` : ''}</body></html>`,
+    {
+      status,
+      headers: {
+        'content-type': 'text/html; charset=utf-8',
+        'cache-control': 'no-store',
+        'content-security-policy': "default-src 'none'; style-src 'unsafe-inline'",
+      },
+    },
+  )
+}
+
+/**
+ * The public half of status-page subscriptions: the subscribe form on the
+ * published page posts here, and confirmation and unsubscribe links land
+ * here. These run before the dashboard's session and same-origin checks
+ * because the form lives on the status page's own domain. That is safe for
+ * this one action: a subscribe only ever sends a confirmation message to the
+ * address given, and nothing else is sent until that address follows the
+ * link. The endpoint answers the same way whether or not the address was
+ * already subscribed, so it cannot be used to test who is.
+ *
+ * Returns `undefined` for any other path.
+ */
+export function createStatusSubscriptionEndpoint(
+  options: StatusSubscriptionEndpointOptions,
+): (req: Request, address: string) => Promise<Response | undefined> {
+  const throttle = options.throttle ?? new LoginThrottle(5, 60 * 60 * 1000, 60 * 60 * 1000)
+  return async (req, address) => {
+    const url = new URL(req.url)
+    const route = STATUS_SUBSCRIPTION_PATH.exec(url.pathname)
+    if (!route) return undefined
+    const [, slug, action] = route
+    const page = options.store.getPageBySlug(slug!)
+    if (!page || !page.subscribeOrigin)
+      return message('Not found', 'This status page does not take subscriptions.', undefined, 404)
+    const back = page.publicUrl
+
+    if (action === 'subscribe') {
+      if (req.method !== 'POST') return new Response(null, { status: 405, headers: { allow: 'POST' } })
+      const gate = throttle.check(page.slug, address)
+      if (!gate.allowed)
+        return message('Try again later', 'Too many subscription attempts from this address.', back, 429)
+      throttle.recordFailure(page.slug, address)
+      let email = ''
+      try {
+        const type = req.headers.get('content-type') ?? ''
+        email = type.includes('application/json')
+          ? String(((await req.json()) as Record<string, unknown>)?.email ?? '')
+          : String((await req.formData()).get('email') ?? '')
+      } catch {
+        return message('Subscription failed', 'The form could not be read.', back, 400)
+      }
+      let subscribed
+      try {
+        subscribed = options.store.subscribe({ pageId: page.id, kind: 'email', target: email })
+      } catch (error) {
+        return message('Subscription failed', error instanceof Error ? error.message : String(error), back, 422)
+      }
+      if (!subscribed.subscriber.confirmedAt) await options.notifier.sendConfirmation(subscribed.subscriber)
+      if (back)
+        return new Response(null, {
+          status: 303,
+          headers: { location: `${back}/?subscription=pending`, 'cache-control': 'no-store' },
+        })
+      return message('Check your email', `We sent a confirmation link to ${subscribed.subscriber.target}.`)
+    }
+
+    if (req.method !== 'GET') return new Response(null, { status: 405, headers: { allow: 'GET' } })
+    const token = url.searchParams.get('token') ?? ''
+    if (action === 'confirm') {
+      const confirmed = options.store.confirmSubscriber(page.id, token)
+      return confirmed
+        ? message('Subscription confirmed', `${confirmed.target} will receive updates from ${page.title}.`, back)
+        : message('Link not valid', 'This confirmation link is not valid or the subscription was removed.', back, 404)
+    }
+    return options.store.unsubscribe(page.id, token)
+      ? message('Unsubscribed', `You will no longer receive updates from ${page.title}.`, back)
+      : message('Already unsubscribed', 'This subscription was already removed.', back)
+  }
+}
@@ -5,7 +5,7 @@ import { createHash } from 'node:crypto'
 import { resolveDeploymentMode } from '@ts-cloud/core'
 import { CloudWatchClient } from '../aws/cloudwatch'
 import { resolveRuntimeInventory, RuntimeOperationService } from '../runtime'
-import { loadTelemetryPolicy, pathTemplate, TelemetryStore } from '../telemetry'
+import { loadTelemetryPolicy, pathTemplate, retainedByTelemetryPolicy, TelemetryStore } from '../telemetry'
 import { resolveDashboardData } from './dashboard-data'
 import { collectEgressMetrics } from './egress-collection'
 import { resolveServerDashboardData } from './dashboard-data-server'
@@ -61,17 +61,6 @@ export interface TelemetryCollectionResult {
   policy: TelemetryPolicy
 }
 
-function retainedByPolicy(record: AppendTelemetryInput, policy: TelemetryPolicy): boolean {
-  if (record.kind === 'log' && !policy.collectLogs) return false
-  if (record.kind === 'trace' && !policy.collectTraces) return false
-  if ((record.kind === 'request' || record.name.startsWith('request.')) && !policy.collectRequestAnalytics) return false
-  if (!['log', 'trace', 'request'].includes(record.kind) && !record.name.startsWith('request.')) return true
-  const samplingKey =
-    record.requestId ?? record.traceId ?? `${record.source}\0${record.workloadId ?? ''}\0${record.timestamp}`
-  const bucket = Number.parseInt(createHash('sha256').update(samplingKey).digest('hex').slice(0, 8), 16) / 0xffffffff
-  return bucket <= policy.samplingRate
-}
-
 export interface TelemetryCollectionContext {
   controlPlane: ControlPlaneStore
   projectId: string
@@ -637,7 +626,7 @@ async function collectNow(context: TelemetryCollectionContext): Promise<Telemetr
     }
 
   const retained = records
-    .filter((record) => retainedByPolicy(record, policy))
+    .filter((record) => retainedByTelemetryPolicy(record, policy))
     .map((record) => ({
       ...record,
       sampled:
@@ -0,0 +1,250 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import type { StackDriftDetectionStatus, StackResourceDrift } from '../aws/cloudformation'
+import type { DriftCloudFormation } from '.'
+import { AlertStore } from '../alerts'
+import { ControlPlaneStore } from '../control-plane'
+import { DriftService, DriftStore, driftPropertyPath, normalizeResourceDrift } from '.'
+
+const stores: ControlPlaneStore[] = []
+afterEach(() => {
+  for (const store of stores.splice(0)) store.close()
+})
+
+const bucketDrift: StackResourceDrift = {
+  LogicalResourceId: 'AssetsBucket',
+  PhysicalResourceId: 'app-assets',
+  ResourceType: 'AWS::S3::Bucket',
+  StackResourceDriftStatus: 'MODIFIED',
+  PropertyDifferences: [
+    {
+      PropertyPath: '/VersioningConfiguration/Status',
+      ExpectedValue: 'Enabled',
+      ActualValue: 'Suspended',
+      DifferenceType: 'NOT_EQUAL',
+    },
+    { PropertyPath: '/Tags/1', ExpectedValue: '', ActualValue: '{"Key":"owner","Value":"ops"}', DifferenceType: 'ADD' },
+  ],
+  Timestamp: '2026-07-21T12:00:00Z',
+}
+
+class FakeCloudFormation implements DriftCloudFormation {
+  polls = 0
+  constructor(
+    public drifts: StackResourceDrift[],
+    public status: Partial<StackDriftDetectionStatus> = {},
+    private readonly template: Record<string, any> = {},
+  ) {}
+
+  async detectStackDrift() {
+    this.polls = 0
+    return { StackDriftDetectionId: 'detection-1' }
+  }
+  async describeStackDriftDetectionStatus(): Promise<StackDriftDetectionStatus> {
+    this.polls++
+    const drifted = this.drifts.filter((drift) => ['MODIFIED', 'DELETED'].includes(drift.StackResourceDriftStatus))
+    return {
+      StackId: 'stack-id',
+      StackDriftDetectionId: 'detection-1',
+      DetectionStatus: this.polls < 2 ? 'DETECTION_IN_PROGRESS' : 'DETECTION_COMPLETE',
+      StackDriftStatus: drifted.length ? 'DRIFTED' : 'IN_SYNC',
+      DriftedStackResourceCount: drifted.length,
+      Timestamp: '2026-07-21T12:00:00Z',
+      ...this.status,
+    }
+  }
+  async describeStackResourceDrifts() {
+    return this.drifts
+  }
+  async getTemplate() {
+    return { TemplateBody: JSON.stringify(this.template) }
+  }
+}
+
+function fixture(cloudformation: FakeCloudFormation) {
+  const controlPlane = new ControlPlaneStore({ path: ':memory:' })
+  stores.push(controlPlane)
+  const now = () => new Date('2026-07-21T12:05:00Z'),
+    organization = controlPlane.createOrganization({ slug: 'acme', name: 'Acme' }),
+    project = controlPlane.createProject({ organizationId: organization.id, slug: 'app', name: 'App' }),
+    environment = controlPlane.createEnvironment({
+      projectId: project.id,
+      slug: 'production',
+      name: 'Production',
+      kind: 'production',
+    }),
+    alerts = new AlertStore(controlPlane, { encryptionKey: 'test-key', now }),
+    service = new DriftService(new DriftStore(controlPlane, now), {
+      cloudformation: () => cloudformation,
+      alerts,
+      now,
+      sleep: async () => {},
+    })
+  return { project, environment, alerts, service }
+}
+
+describe('stack drift', () => {
+  it('normalizes property differences into property changes', () => {
+    expect(driftPropertyPath('/Tags/0/Value')).toBe('Tags.0.Value')
+    expect(driftPropertyPath('/Policy/a~1b')).toBe('Policy.a/b')
+    expect(normalizeResourceDrift({ ...bucketDrift, StackResourceDriftStatus: 'IN_SYNC' })).toBeUndefined()
+    expect(normalizeResourceDrift(bucketDrift)).toEqual({
+      logicalId: 'AssetsBucket',
+      physicalId: 'app-assets',
+      resourceType: 'AWS::S3::Bucket',
+      state: 'modified',
+      changes: [
+        { path: 'VersioningConfiguration.Status', oldValue: 'Enabled', newValue: 'Suspended' },
+        { path: 'Tags.1', oldValue: undefined, newValue: { Key: 'owner', Value: 'ops' } },
+      ],
+    })
+  })
+
+  it('records snapshots and alerts while a production stack drifts', async () => {
+    const cloudformation = new FakeCloudFormation([
+        bucketDrift,
+        { ...bucketDrift, LogicalResourceId: 'Queue', StackResourceDriftStatus: 'IN_SYNC', PropertyDifferences: [] },
+      ]),
+      { project, environment, alerts, service } = fixture(cloudformation),
+      input = { projectId: project.id, environmentId: environment.id, stackName: 'app-production', region: 'us-east-1' }
+
+    const drifted = await service.detect({ ...input, production: true })
+    expect(cloudformation.polls).toBe(2)
+    expect(drifted.snapshot).toMatchObject({
+      state: 'drifted',
+      driftedCount: 1,
+      checkedCount: 2,
+      detectionId: 'detection-1',
+    })
+    expect(drifted.snapshot.resources.map((resource) => resource.logicalId)).toEqual(['AssetsBucket'])
+    expect(drifted.alert).toMatchObject({ transition: 'firing', notify: true })
+    expect(drifted.alert?.alert?.severity).toBe('critical')
+
+    cloudformation.drifts = []
+    const clean = await service.detect({ ...input, production: true })
+    expect(clean.snapshot.state).toBe('in_sync')
+    expect(clean.alert).toMatchObject({ transition: 'resolved', notify: true })
+    expect(alerts.listRules(project.id).filter((rule) => rule.signal === 'cloudformation.drift')).toHaveLength(1)
+    expect(service.store.listSnapshots(project.id, { stackName: 'app-production' }).map((s) => s.state)).toEqual([
+      'in_sync',
+      'drifted',
+    ])
+
+    const staging = await service.detect({ ...input, stackName: 'app-staging' })
+    expect(staging.alert).toBeUndefined()
+    expect(service.store.latestSnapshots(project.id).map((snapshot) => snapshot.stackName)).toEqual([
+      'app-production',
+      'app-staging',
+    ])
+  })
+
+  it('records failed detections without touching the alert', async () => {
+    const cloudformation = new FakeCloudFormation([bucketDrift]),
+      { project, environment, service } = fixture(cloudformation)
+    cloudformation.detectStackDrift = async () => {
+      throw new Error('Stack with id app-production does not exist')
+    }
+    const result = await service.detect({
+      projectId: project.id,
+      environmentId: environment.id,
+      production: true,
+      stackName: 'app-production',
+      region: 'us-east-1',
+    })
+    expect(result.snapshot).toMatchObject({ state: 'failed', error: 'Stack with id app-production does not exist' })
+    expect(result.alert?.transition).toBe('ignored')
+    await expect(service.plan(result.snapshot.id, 'revert')).rejects.toThrow(
+      'Drift detection for app-production failed',
+    )
+  })
+
+  it('plans adopting live values into the template or reverting them in AWS', async () => {
+    const template = {
+        Resources: {
+          AssetsBucket: {
+            Type: 'AWS::S3::Bucket',
+            Properties: {
+              VersioningConfiguration: { Status: 'Enabled' },
+              Tags: [{ Key: 'app', Value: { Ref: 'AWS::StackName' } }],
+            },
+          },
+          Queue: { Type: 'AWS::SQS::Queue', Properties: {} },
+          QueuePolicy: { Type: 'AWS::SQS::QueuePolicy', Properties: { Queues: [{ Ref: 'Queue' }] } },
+        },
+      },
+      cloudformation = new FakeCloudFormation(
+        [
+          bucketDrift,
+          {
+            LogicalResourceId: 'Queue',
+            PhysicalResourceId: 'https://sqs.us-east-1.amazonaws.com/1/app',
+            ResourceType: 'AWS::SQS::Queue',
+            StackResourceDriftStatus: 'DELETED',
+            PropertyDifferences: [],
+            Timestamp: '2026-07-21T12:00:00Z',
+          },
+        ],
+        {},
+        template,
+      ),
+      { project, service } = fixture(cloudformation),
+      { snapshot } = await service.detect({ projectId: project.id, stackName: 'app-production', region: 'us-east-1' })
+
+    const adopt = await service.plan(snapshot.id, 'adopt')
+    expect(adopt.steps.map((step) => [step.action, step.logicalId, step.path])).toEqual([
+      ['set_property', 'AssetsBucket', 'VersioningConfiguration.Status'],
+      ['set_property', 'AssetsBucket', 'Tags.1'],
+      ['remove_resource', 'Queue', undefined],
+    ])
+    expect(adopt.template?.Resources.AssetsBucket.Properties).toEqual({
+      VersioningConfiguration: { Status: 'Suspended' },
+      Tags: [
+        { Key: 'app', Value: { Ref: 'AWS::StackName' } },
+        { Key: 'owner', Value: 'ops' },
+      ],
+    })
+    expect(adopt.template?.Resources.Queue).toBeUndefined()
+    expect(adopt.warnings.some((warning) => warning.includes('QueuePolicy still reference Queue'))).toBe(true)
+    expect(template.Resources.AssetsBucket.Properties.VersioningConfiguration.Status).toBe('Enabled')
+
+    const revert = await service.plan(snapshot.id, 'revert', { template })
+    expect(revert.template).toBeUndefined()
+    expect(revert.steps.map((step) => [step.action, step.value])).toEqual([
+      ['restore_property', 'Enabled'],
+      ['remove_property', undefined],
+      ['recreate_resource', undefined],
+    ])
+    expect(revert.steps[0].description).toBe(
+      'Change VersioningConfiguration.Status on app-assets back to "Enabled" in AWS.',
+    )
+    expect(revert.warnings[0]).toContain('redeploying does not undo drift')
+  })
+
+  it('adopts several removals from one array without shifting the wrong elements', async () => {
+    const tag = (key: string) => ({ Key: key, Value: key })
+    const template = {
+        Resources: {
+          AssetsBucket: {
+            Type: 'AWS::S3::Bucket',
+            Properties: { Tags: [tag('a'), tag('b'), tag('c'), tag('d')] },
+          },
+        },
+      },
+      removed = (index: number, key: string) => ({
+        PropertyPath: `/Tags/${index}`,
+        ExpectedValue: JSON.stringify(tag(key)),
+        ActualValue: '',
+        DifferenceType: 'REMOVE' as const,
+      }),
+      cloudformation = new FakeCloudFormation(
+        [{ ...bucketDrift, PropertyDifferences: [removed(1, 'b'), removed(2, 'c')] }],
+        {},
+        template,
+      ),
+      { project, service } = fixture(cloudformation),
+      { snapshot } = await service.detect({ projectId: project.id, stackName: 'app-production', region: 'us-east-1' })
+
+    const adopt = await service.plan(snapshot.id, 'adopt')
+    expect(adopt.template?.Resources.AssetsBucket.Properties.Tags).toEqual([tag('a'), tag('d')])
+    expect(adopt.steps.map((step) => step.path)).toEqual(['Tags.1', 'Tags.2'])
+  })
+})
@@ -0,0 +1,3 @@
+export * from './model'
+export * from './store'
+export * from './service'
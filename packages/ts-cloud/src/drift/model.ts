@@ -0,0 +1,62 @@
+import type { PropertyChange } from '@ts-cloud/core'
+import type { JsonValue } from '../control-plane'
+
+export type StackDriftState = 'in_sync' | 'drifted' | 'unknown' | 'failed'
+export type ResourceDriftState = 'modified' | 'deleted' | 'not_checked'
+export type DriftPlanStrategy = 'adopt' | 'revert'
+
+/**
+ * A resource that no longer matches its template. Changes use the
+ * `analyzeStackDiff` shape: `oldValue` is what the template expects and
+ * `newValue` what AWS reports, so an added property has no `oldValue` and a
+ * removed one no `newValue`. Paths are dot-separated below `Properties`.
+ */
+export interface ResourceDrift {
+  logicalId: string
+  physicalId?: string
+  resourceType: string
+  state: ResourceDriftState
+  changes: PropertyChange[]
+}
+
+export interface StackDriftSnapshot {
+  id: string
+  projectId: string
+  environmentId?: string
+  stackName: string
+  region: string
+  detectionId?: string
+  state: StackDriftState
+  driftedCount: number
+  checkedCount: number
+  /** Only resources that drifted or could not be checked; in-sync ones are counted, not kept. */
+  resources: ResourceDrift[]
+  error?: string
+  actorId?: string
+  detectedAt: string
+  createdAt: string
+}
+
+export interface DriftPlanStep {
+  logicalId: string
+  resourceType: string
+  action: 'set_property' | 'remove_property' | 'remove_resource' | 'restore_property' | 'recreate_resource'
+  path?: string
+  value?: JsonValue
+  description: string
+}
+
+/**
+ * A guided reconciliation for one snapshot. `adopt` keeps what is live and
+ * lists the configuration changes that make the generated template match it;
+ * `revert` lists what to change back in AWS. When the deployed template was
+ * available, an adopt plan carries it with the live values patched in.
+ */
+export interface DriftPlan {
+  snapshotId: string
+  stackName: string
+  strategy: DriftPlanStrategy
+  steps: DriftPlanStep[]
+  warnings: string[]
+  template?: Record<string, any>
+}
@@ -0,0 +1,349 @@
+import type { PropertyChange } from '@ts-cloud/core'
+import type { AlertEvaluation, AlertRule, AlertStore } from '../alerts'
+import type { CloudFormationClient, StackResourceDrift } from '../aws/cloudformation'
+import type { JsonValue } from '../control-plane'
+import type { DriftPlan, DriftPlanStep, DriftPlanStrategy, ResourceDrift, StackDriftSnapshot } from './model'
+import type { DriftStore } from './store'
+import { AlertEvaluator } from '../alerts'
+import { CloudFormationClient as LiveCloudFormationClient } from '../aws/cloudformation'
+
+export const DRIFT_ALERT_SIGNAL = 'cloudformation.drift'
+
+export type DriftCloudFormation = Pick<
+  CloudFormationClient,
+  'detectStackDrift' | 'describeStackDriftDetectionStatus' | 'describeStackResourceDrifts' | 'getTemplate'
+>
+
+export interface DriftServiceOptions {
+  cloudformation?: (region: string) => DriftCloudFormation
+  /** Needed to alert on drifted production stacks. */
+  alerts?: AlertStore
+  now?: () => Date
+  sleep?: (ms: number) => Promise<void>
+  pollIntervalMs?: number
+  maxPolls?: number
+}
+
+export interface DriftDetectionInput {
+  projectId: string
+  environmentId?: string
+  /** Drift on a production stack raises an alert. */
+  production?: boolean
+  stackName: string
+  region: string
+  actorId?: string
+}
+
+/** `/Tags/0/Value` → `Tags.0.Value`, unescaping JSON pointer segments. */
+export function driftPropertyPath(propertyPath: string): string {
+  return propertyPath
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .join('.')
+}
+
+/** Drift values arrive as strings: JSON for objects, arrays and numbers, raw text otherwise. */
+function driftValue(value: unknown): JsonValue | undefined {
+  if (value == null || value === '') return undefined
+  if (typeof value !== 'string') return value as JsonValue
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+/** The drift of one resource as `PropertyChange` records, or nothing when it is in sync. */
+export function normalizeResourceDrift(drift: StackResourceDrift): ResourceDrift | undefined {
+  const state = ({ MODIFIED: 'modified', DELETED: 'deleted', NOT_CHECKED: 'not_checked' } as const)[
+    drift.StackResourceDriftStatus as 'MODIFIED' | 'DELETED' | 'NOT_CHECKED'
+  ]
+  if (!state) return undefined
+  return {
+    logicalId: drift.LogicalResourceId,
+    physicalId: drift.PhysicalResourceId || undefined,
+    resourceType: drift.ResourceType,
+    state,
+    changes: drift.PropertyDifferences.map(
+      (difference): PropertyChange => ({
+        path: driftPropertyPath(difference.PropertyPath),
+        oldValue: difference.DifferenceType === 'ADD' ? undefined : driftValue(difference.ExpectedValue),
+        newValue: difference.DifferenceType === 'REMOVE' ? undefined : driftValue(difference.ActualValue),
+      }),
+    ),
+  }
+}
+
+const show = (value: unknown) => JSON.stringify(value)
+const segments = (path: string) => path.split('.').map((part) => (/^\d+$/.test(part) ? Number(part) : part))
+const intrinsic = (value: unknown) =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  Object.keys(value).length === 1 &&
+  /^(?:Ref|Fn::)/.test(Object.keys(value)[0])
+
+function patch(target: Record<string, any>, path: string, value: unknown): unknown {
+  const parts = segments(path)
+  let node: any = target
+  for (const [index, part] of parts.slice(0, -1).entries()) {
+    if (node[part] == null || typeof node[part] !== 'object')
+      node[part] = typeof parts[index + 1] === 'number' ? [] : {}
+    node = node[part]
+  }
+  const last = parts.at(-1)!,
+    previous = node[last]
+  if (value === undefined) {
+    if (Array.isArray(node) && typeof last === 'number') node.splice(last, 1)
+    else delete node[last]
+  } else node[last] = value
+  return previous
+}
+
+/** Orders property paths so that later array indexes come before earlier ones. */
+function byDescendingPath(left: string, right: string): number {
+  const a = segments(left),
+    b = segments(right)
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    if (a[index] === b[index]) continue
+    if (typeof a[index] === 'number' && typeof b[index] === 'number') return Number(b[index]) - Number(a[index])
+    return String(b[index]).localeCompare(String(a[index]))
+  }
+  return b.length - a.length
+}
+
+function references(template: Record<string, any>, logicalId: string): string[] {
+  const patterns = [`{"Ref":"${logicalId}"}`, `"Fn::GetAtt":["${logicalId}"`, `"DependsOn":"${logicalId}"`]
+  return Object.entries<Record<string, any>>(template.Resources ?? {})
+    .filter(([id, resource]) => {
+      if (id === logicalId) return false
+      const text = JSON.stringify(resource)
+      return patterns.some((pattern) => text.includes(pattern)) || [resource.DependsOn].flat().includes(logicalId)
+    })
+    .map(([id]) => id)
+}
+
+/**
+ * Runs CloudFormation drift detection, which compares each resource's live
+ * configuration with the template that created it, and keeps the result as
+ * a snapshot. `analyzeStackDiff` only compares templates, so this is what
+ * notices changes made in the console or by other tools.
+ */
+export class DriftService {
+  constructor(
+    readonly store: DriftStore,
+    private readonly options: DriftServiceOptions = {},
+  ) {}
+
+  private client(region: string): DriftCloudFormation {
+    return this.options.cloudformation?.(region) ?? new LiveCloudFormationClient(region)
+  }
+
+  private now(): Date {
+    return this.options.now?.() ?? new Date()
+  }
+
+  async detect(input: DriftDetectionInput): Promise<{ snapshot: StackDriftSnapshot; alert?: AlertEvaluation }> {
+    const client = this.client(input.region),
+      sleep = this.options.sleep ?? ((ms: number) => Bun.sleep(ms)),
+      base = {
+        projectId: input.projectId,
+        environmentId: input.environmentId,
+        stackName: input.stackName,
+        region: input.region,
+        actorId: input.actorId,
+      }
+    let snapshot: StackDriftSnapshot
+    try {
+      const { StackDriftDetectionId: detectionId } = await client.detectStackDrift(input.stackName)
+      if (!detectionId) throw new Error(`CloudFormation did not start drift detection for ${input.stackName}.`)
+      let status = await client.describeStackDriftDetectionStatus(detectionId)
+      for (let poll = 1; status.DetectionStatus === 'DETECTION_IN_PROGRESS'; poll++) {
+        if (poll > (this.options.maxPolls ?? 60))
+          throw new Error(`Drift detection ${detectionId} for ${input.stackName} did not finish in time.`)
+        await sleep(this.options.pollIntervalMs ?? 5_000)
+        status = await client.describeStackDriftDetectionStatus(detectionId)
+      }
+      // A failed detection could not check some resources but still reports the ones it did.
+      const drifts = await client.describeStackResourceDrifts(input.stackName),
+        resources = drifts.flatMap((drift) => normalizeResourceDrift(drift) ?? []),
+        drifted = resources.filter((resource) => resource.state !== 'not_checked').length
+      snapshot = this.store.recordSnapshot({
+        ...base,
+        detectionId,
+        state:
+          status.StackDriftStatus === 'DRIFTED'
+            ? 'drifted'
+            : status.DetectionStatus === 'DETECTION_FAILED'
+              ? 'failed'
+              : status.StackDriftStatus === 'IN_SYNC'
+                ? 'in_sync'
+                : 'unknown',
+        driftedCount: status.DriftedStackResourceCount ?? drifted,
+        checkedCount: drifts.filter((drift) => drift.StackResourceDriftStatus !== 'NOT_CHECKED').length,
+        resources,
+        error: status.DetectionStatus === 'DETECTION_FAILED' ? status.DetectionStatusReason : undefined,
+        detectedAt: status.Timestamp ? new Date(status.Timestamp).toISOString() : this.now().toISOString(),
+      })
+    } catch (error) {
+      snapshot = this.store.recordSnapshot({
+        ...base,
+        state: 'failed',
+        driftedCount: 0,
+        checkedCount: 0,
+        resources: [],
+        error: error instanceof Error ? error.message : String(error),
+        detectedAt: this.now().toISOString(),
+      })
+    }
+    return { snapshot, alert: input.production ? this.alert(snapshot) : undefined }
+  }
+
+  /** The stack's drift alert rule, created the first time a production stack is checked. */
+  private rule(snapshot: StackDriftSnapshot): AlertRule | undefined {
+    const alerts = this.options.alerts
+    if (!alerts) return undefined
+    return (
+      alerts
+        .listRules(snapshot.projectId, snapshot.environmentId)
+        .find((rule) => rule.signal === DRIFT_ALERT_SIGNAL && rule.labels.stackName === snapshot.stackName) ??
+      alerts.createRule({
+        projectId: snapshot.projectId,
+        environmentId: snapshot.environmentId,
+        name: `Stack ${snapshot.stackName} drifted`,
+        signal: DRIFT_ALERT_SIGNAL,
+        operator: 'gt',
+        threshold: 0,
+        windowMs: 3_600_000,
+        consecutive: 1,
+        recoveryConsecutive: 1,
+        noDataPolicy: 'ignore',
+        severity: 'critical',
+        groupBy: [],
+        labels: { stackName: snapshot.stackName, region: snapshot.region },
+        enabled: true,
+      })
+    )
+  }
+
+  /** A failed or inconclusive detection is no data, so it neither raises nor resolves the alert. */
+  private alert(snapshot: StackDriftSnapshot): AlertEvaluation | undefined {
+    const rule = this.rule(snapshot)
+    if (!rule) return undefined
+    return new AlertEvaluator(this.options.alerts!).evaluate(rule, {
+      value: ['drifted', 'in_sync'].includes(snapshot.state) ? snapshot.driftedCount : undefined,
+      timestamp: snapshot.detectedAt,
+      evidence: {
+        snapshotId: snapshot.id,
+        stackName: snapshot.stackName,
+        region: snapshot.region,
+        resources: snapshot.resources
+          .filter((resource) => resource.state !== 'not_checked')
+          .slice(0, 20)
+          .map((resource) => `${resource.logicalId} (${resource.state})`),
+      },
+    })
+  }
+
+  /**
+   * Build an adopt or revert plan for a snapshot. Adopting patches the live
+   * values into the stack's deployed template, fetched unless one is given,
+   * so the result shows what the configuration has to generate.
+   */
+  async plan(
+    snapshotId: string,
+    strategy: DriftPlanStrategy,
+    options: { template?: Record<string, any> } = {},
+  ): Promise<DriftPlan> {
+    const snapshot = this.store.getSnapshot(snapshotId)
+    if (!snapshot) throw new Error(`Drift snapshot ${snapshotId} was not found.`)
+    if (snapshot.state === 'failed' && !snapshot.resources.length)
+      throw new Error(
+        `Drift detection for ${snapshot.stackName} failed: ${snapshot.error ?? 'no resources were checked'}.`,
+      )
+    const warnings: string[] = [],
+      steps: DriftPlanStep[] = [],
+      unchecked = snapshot.resources.filter((resource) => resource.state === 'not_checked')
+    if (unchecked.length) {
+      const ids = unchecked.map((resource) => resource.logicalId).join(', ')
+      warnings.push(`${unchecked.length} resource(s) could not be checked and are left out: ${ids}.`)
+    }
+    let template: Record<string, any> | undefined
+    if (strategy === 'adopt') {
+      template = structuredClone(
+        options.template ??
+          JSON.parse((await this.client(snapshot.region).getTemplate(snapshot.stackName)).TemplateBody || '{}'),
+      )
+      warnings.push(
+        'The stack template is generated from cloud.config. Carry these values into the configuration; until it generates them, drift detection keeps reporting these resources and a later update to them may write the old values back.',
+      )
+    } else {
+      warnings.push(
+        'CloudFormation skips updates whose template has not changed, so redeploying does not undo drift. Make these changes in AWS, then run drift detection again to confirm the stack is back in sync.',
+      )
+    }
+    for (const resource of snapshot.resources) {
+      const target = resource.physicalId ?? resource.logicalId,
+        base = { logicalId: resource.logicalId, resourceType: resource.resourceType }
+      if (resource.state === 'deleted') {
+        if (strategy === 'revert') {
+          steps.push({
+            ...base,
+            action: 'recreate_resource',
+            description: `${resource.logicalId} was deleted outside CloudFormation. Deploy once without it in the configuration, then add it back and deploy again so CloudFormation creates it.`,
+          })
+          continue
+        }
+        steps.push({
+          ...base,
+          action: 'remove_resource',
+          description: `Remove ${resource.logicalId} from the configuration; it no longer exists in AWS.`,
+        })
+        const dependents = template ? references(template, resource.logicalId) : []
+        if (dependents.length)
+          warnings.push(
+            `${dependents.join(', ')} still reference ${resource.logicalId}; change them before removing it.`,
+          )
+        if (template?.Resources) delete template.Resources[resource.logicalId]
+        continue
+      }
+      if (resource.state !== 'modified') continue
+      const resourceTemplate = strategy === 'adopt' ? template?.Resources?.[resource.logicalId] : undefined
+      if (resourceTemplate) {
+        // Removing an array element shifts the ones after it, so removals go
+        // last and run from the highest index down.
+        const removals = resource.changes.filter((change) => change.newValue === undefined)
+        const ordered = [
+          ...resource.changes.filter((change) => change.newValue !== undefined),
+          ...removals.sort((left, right) => byDescendingPath(left.path, right.path)),
+        ]
+        for (const change of ordered) {
+          const previous = patch((resourceTemplate.Properties ??= {}), change.path, change.newValue)
+          if (intrinsic(previous))
+            warnings.push(
+              `${resource.logicalId}.${change.path} was computed with ${Object.keys(previous as object)[0]} in the template; adopting replaces it with a literal value.`,
+            )
+        }
+      }
+      for (const change of resource.changes) {
+        const value = (strategy === 'adopt' ? change.newValue : change.oldValue) as JsonValue | undefined
+        steps.push({
+          ...base,
+          action: value === undefined ? 'remove_property' : strategy === 'adopt' ? 'set_property' : 'restore_property',
+          path: change.path,
+          value,
+          description:
+            strategy === 'adopt'
+              ? value === undefined
+                ? `Drop ${change.path} from ${resource.logicalId} in the configuration; it is no longer set in AWS.`
+                : `Set ${change.path} on ${resource.logicalId} to ${show(value)} in the configuration.`
+              : value === undefined
+                ? `Remove ${change.path} from ${target} in AWS; the template does not set it.`
+                : `Change ${change.path} on ${target} back to ${show(value)} in AWS.`,
+        })
+      }
+    }
+    return { snapshotId: snapshot.id, stackName: snapshot.stackName, strategy, steps, warnings, template }
+  }
+}
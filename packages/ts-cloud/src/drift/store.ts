@@ -0,0 +1,112 @@
+import type { SQLQueryBindings } from 'bun:sqlite'
+import type { ControlPlaneStore } from '../control-plane'
+import type { StackDriftSnapshot, StackDriftState } from './model'
+
+type Row = Record<string, unknown>
+const json = (value: unknown, fallback: any): any => {
+  if (typeof value !== 'string') return fallback
+  try {
+    return JSON.parse(value)
+  } catch {
+    return fallback
+  }
+}
+const optional = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined)
+
+/** Snapshots kept per stack; older ones are pruned as new ones are recorded. */
+export const DRIFT_SNAPSHOT_RETENTION = 200
+
+function snapshot(row: Row): StackDriftSnapshot {
+  return {
+    id: String(row.id),
+    projectId: String(row.project_id),
+    environmentId: optional(row.environment_id),
+    stackName: String(row.stack_name),
+    region: String(row.region),
+    detectionId: optional(row.detection_id),
+    state: String(row.status) as StackDriftState,
+    driftedCount: Number(row.drifted_count),
+    checkedCount: Number(row.checked_count),
+    resources: json(row.resources, []),
+    error: optional(row.error),
+    actorId: optional(row.actor_id),
+    detectedAt: String(row.detected_at),
+    createdAt: String(row.created_at),
+  }
+}
+
+export class DriftStore {
+  constructor(
+    readonly controlPlane: ControlPlaneStore,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  recordSnapshot(input: Omit<StackDriftSnapshot, 'id' | 'createdAt'>): StackDriftSnapshot {
+    const id = crypto.randomUUID()
+    this.controlPlane.transaction(() => {
+      this.controlPlane.database.run(
+        'INSERT INTO stack_drift_snapshots (id,project_id,environment_id,stack_name,region,detection_id,status,drifted_count,checked_count,resources,error,actor_id,detected_at,created_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
+        [
+          id,
+          input.projectId,
+          input.environmentId ?? null,
+          input.stackName,
+          input.region,
+          input.detectionId ?? null,
+          input.state,
+          input.driftedCount,
+          input.checkedCount,
+          JSON.stringify(input.resources),
+          input.error?.slice(0, 2000) ?? null,
+          input.actorId ?? null,
+          input.detectedAt,
+          this.now().toISOString(),
+        ],
+      )
+      this.controlPlane.database.run(
+        'DELETE FROM stack_drift_snapshots WHERE project_id=? AND stack_name=? AND id NOT IN (SELECT id FROM stack_drift_snapshots WHERE project_id=? AND stack_name=? ORDER BY detected_at DESC LIMIT ?)',
+        [input.projectId, input.stackName, input.projectId, input.stackName, DRIFT_SNAPSHOT_RETENTION],
+      )
+    })
+    return this.getSnapshot(id)!
+  }
+
+  getSnapshot(id: string): StackDriftSnapshot | undefined {
+    const row = this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM stack_drift_snapshots WHERE id=?')
+      .get(id)
+    return row ? snapshot(row) : undefined
+  }
+
+  listSnapshots(
+    projectId: string,
+    options: { stackName?: string; environmentId?: string; limit?: number } = {},
+  ): StackDriftSnapshot[] {
+    const filters = ['project_id=?'],
+      values: SQLQueryBindings[] = [projectId]
+    if (options.stackName) {
+      filters.push('stack_name=?')
+      values.push(options.stackName)
+    }
+    if (options.environmentId) {
+      filters.push('environment_id=?')
+      values.push(options.environmentId)
+    }
+    return this.controlPlane.database
+      .query<Row, SQLQueryBindings[]>(
+        `SELECT * FROM stack_drift_snapshots WHERE ${filters.join(' AND ')} ORDER BY detected_at DESC, created_at DESC LIMIT ?`,
+      )
+      .all(...values, Math.min(Math.max(options.limit ?? 50, 1), 500))
+      .map(snapshot)
+  }
+
+  /** The most recent snapshot of each stack in the project. */
+  latestSnapshots(projectId: string, environmentId?: string): StackDriftSnapshot[] {
+    return this.controlPlane.database
+      .query<Row, SQLQueryBindings[]>(
+        `SELECT * FROM stack_drift_snapshots s WHERE project_id=?${environmentId ? ' AND environment_id=?' : ''} AND id=(SELECT id FROM stack_drift_snapshots WHERE project_id=s.project_id AND stack_name=s.stack_name ORDER BY detected_at DESC, created_at DESC LIMIT 1) ORDER BY stack_name`,
+      )
+      .all(projectId, ...(environmentId ? [environmentId] : []))
+      .map(snapshot)
+  }
+}
@@ -0,0 +1,474 @@
+/**
+ * DigitalOcean API client (v2)
+ * @see https://docs.digitalocean.com/reference/api/api-reference/
+ */
+const DEFAULT_API_URL = 'https://api.digitalocean.com/v2'
+
+export interface DigitalOceanApiErrorBody {
+  id?: string
+  message?: string
+  request_id?: string
+}
+
+export class DigitalOceanApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+  ) {
+    super(message)
+    this.name = 'DigitalOceanApiError'
+  }
+}
+
+export class DigitalOceanActionError extends Error {
+  constructor(
+    message: string,
+    readonly action: DigitalOceanAction,
+  ) {
+    super(message)
+    this.name = 'DigitalOceanActionError'
+  }
+}
+
+export interface DigitalOceanNetworkV4 {
+  ip_address: string
+  netmask?: string
+  gateway?: string
+  type: 'public' | 'private'
+}
+
+export interface DigitalOceanNetworkV6 {
+  ip_address: string
+  netmask?: number
+  gateway?: string
+  type: 'public'
+}
+
+export interface DigitalOceanDroplet {
+  id: number
+  name: string
+  /** `new` while booting, then `active`; `off` once powered down. */
+  status: 'new' | 'active' | 'off' | 'archive'
+  memory?: number
+  vcpus?: number
+  disk?: number
+  region?: { slug: string; name?: string }
+  size_slug?: string
+  image?: { id?: number; slug?: string | null; name?: string }
+  networks: {
+    v4: DigitalOceanNetworkV4[]
+    v6?: DigitalOceanNetworkV6[]
+  }
+  tags?: string[]
+  volume_ids?: string[]
+}
+
+export interface DigitalOceanFirewallRuleTarget {
+  addresses?: string[]
+  droplet_ids?: number[]
+  tags?: string[]
+}
+
+export interface DigitalOceanInboundRule {
+  protocol: 'tcp' | 'udp' | 'icmp'
+  ports: string
+  sources: DigitalOceanFirewallRuleTarget
+}
+
+export interface DigitalOceanOutboundRule {
+  protocol: 'tcp' | 'udp' | 'icmp'
+  ports: string
+  destinations: DigitalOceanFirewallRuleTarget
+}
+
+export interface DigitalOceanFirewall {
+  id: string
+  name: string
+  status?: 'waiting' | 'succeeded' | 'failed'
+  inbound_rules: DigitalOceanInboundRule[]
+  outbound_rules: DigitalOceanOutboundRule[]
+  droplet_ids?: number[]
+  tags?: string[]
+}
+
+export interface DigitalOceanSshKey {
+  id: number
+  name: string
+  fingerprint: string
+  public_key: string
+}
+
+export interface DigitalOceanReservedIp {
+  ip: string
+  region?: { slug: string }
+  /** The droplet the IP currently routes to; `null` when unassigned. */
+  droplet?: DigitalOceanDroplet | null
+}
+
+export interface DigitalOceanVolume {
+  id: string
+  name: string
+  size_gigabytes: number
+  region?: { slug: string }
+  droplet_ids: number[]
+  filesystem_type?: string
+  tags?: string[]
+}
+
+export interface DigitalOceanAction {
+  id: number
+  status: 'in-progress' | 'completed' | 'errored'
+  type?: string
+  resource_id?: number
+}
+
+export interface CreateDropletOptions {
+  name: string
+  region: string
+  size: string
+  image: string
+  sshKeys?: number[]
+  userData?: string
+  tags?: string[]
+  /** Block storage volume ids to attach at creation. */
+  volumes?: string[]
+  /** @default true */
+  ipv6?: boolean
+  /** Install the DigitalOcean metrics agent. @default true */
+  monitoring?: boolean
+}
+
+export interface CreateFirewallOptions {
+  name: string
+  inboundRules: DigitalOceanInboundRule[]
+  outboundRules?: DigitalOceanOutboundRule[]
+  dropletIds?: number[]
+  tags?: string[]
+}
+
+export interface CreateVolumeOptions {
+  name: string
+  region: string
+  sizeGb: number
+  filesystem?: 'ext4' | 'xfs'
+  tags?: string[]
+}
+
+/** Minimal fetch signature the client relies on (always called with a string URL). */
+export type DigitalOceanFetch = (url: string, init?: RequestInit) => Promise<Response>
+
+export interface DigitalOceanClientOptions {
+  apiToken: string
+  baseUrl?: string
+  fetchImpl?: DigitalOceanFetch
+}
+
+/**
+ * Every outbound rule open. DigitalOcean firewalls deny egress that no rule
+ * allows, and a box that cannot reach apt, the runtime installer or its own
+ * database provider fails to bootstrap in confusing ways.
+ */
+export const DIGITALOCEAN_ALLOW_ALL_OUTBOUND: DigitalOceanOutboundRule[] = [
+  { protocol: 'tcp', ports: 'all', destinations: { addresses: ['0.0.0.0/0', '::/0'] } },
+  { protocol: 'udp', ports: 'all', destinations: { addresses: ['0.0.0.0/0', '::/0'] } },
+  { protocol: 'icmp', ports: 'all', destinations: { addresses: ['0.0.0.0/0', '::/0'] } },
+]
+
+export class DigitalOceanClient {
+  readonly name = 'digitalocean'
+  private apiToken: string
+  private baseUrl: string
+  private fetchImpl: DigitalOceanFetch
+
+  constructor(options: DigitalOceanClientOptions) {
+    this.apiToken = options.apiToken
+    this.baseUrl = options.baseUrl ?? DEFAULT_API_URL
+    this.fetchImpl = options.fetchImpl ?? fetch
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = path.startsWith('http') ? path : `${this.baseUrl}${path}`
+    const response = await this.fetchImpl(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+    // 204 No Content is how every DELETE (and a few actions) answer.
+    const text = response.status === 204 ? '' : await response.text()
+    let data: T & DigitalOceanApiErrorBody
+    try {
+      data = (text ? JSON.parse(text) : {}) as T & DigitalOceanApiErrorBody
+    } catch {
+      // Non-JSON body (an HTML 5xx from the edge). Surface the raw text so the
+      // error is actionable instead of an opaque parse failure.
+      if (!response.ok) {
+        const snippet = text.trim().slice(0, 200) || response.statusText || 'DigitalOcean API error'
+        throw new Error(`DigitalOcean API ${method} ${path} (${response.status}): ${snippet}`)
+      }
+      throw new Error(`DigitalOcean API ${method} ${path}: unexpected non-JSON response`)
+    }
+
+    if (!response.ok) {
+      const message = data.message || response.statusText || 'DigitalOcean API error'
+      const code = data.id ? ` [${data.id}]` : ''
+      throw new DigitalOceanApiError(
+        `DigitalOcean API ${method} ${path} (${response.status})${code}: ${message}`,
+        response.status,
+        data.id,
+      )
+    }
+
+    return data as T
+  }
+
+  /**
+   * Fetch every page of a list endpoint. DigitalOcean paginates at 20 items by
+   * default (max 200) and advertises the next page as an absolute URL in
+   * `links.pages.next`. Without following it, an account with more droplets
+   * than one page silently loses the project's own box from target lookups.
+   */
+  private async requestAll<K extends string, T>(path: string, key: K): Promise<T[]> {
+    const items: T[] = []
+    const sep = path.includes('?') ? '&' : '?'
+    let next: string | undefined = `${path}${sep}per_page=200`
+    while (next) {
+      const data: Record<K, T[]> & { links?: { pages?: { next?: string } } } = await this.request('GET', next)
+      items.push(...(data[key] ?? []))
+      next = data.links?.pages?.next
+    }
+    return items
+  }
+
+  // ── Droplets ────────────────────────────────────────────────────────────
+  async listDroplets(options?: { tag?: string }): Promise<DigitalOceanDroplet[]> {
+    const query = options?.tag ? `?tag_name=${encodeURIComponent(options.tag)}` : ''
+    return this.requestAll<'droplets', DigitalOceanDroplet>(`/droplets${query}`, 'droplets')
+  }
+
+  async getDroplet(id: number): Promise<DigitalOceanDroplet> {
+    const data = await this.request<{ droplet: DigitalOceanDroplet }>('GET', `/droplets/${id}`)
+    return data.droplet
+  }
+
+  async createDroplet(
+    options: CreateDropletOptions,
+  ): Promise<{ droplet: DigitalOceanDroplet; actionIds: number[] }> {
+    const data = await this.request<{
+      droplet: DigitalOceanDroplet
+      links?: { actions?: Array<{ id: number }> }
+    }>('POST', '/droplets', {
+      name: options.name,
+      region: options.region,
+      size: options.size,
+      image: options.image,
+      ssh_keys: options.sshKeys,
+      user_data: options.userData,
+      tags: options.tags,
+      volumes: options.volumes,
+      ipv6: options.ipv6 ?? true,
+      monitoring: options.monitoring ?? true,
+    })
+    return { droplet: data.droplet, actionIds: (data.links?.actions ?? []).map((action) => action.id) }
+  }
+
+  async deleteDroplet(id: number): Promise<void> {
+    await this.request('DELETE', `/droplets/${id}`)
+  }
+
+  async powerOnDroplet(id: number): Promise<DigitalOceanAction> {
+    const data = await this.request<{ action: DigitalOceanAction }>('POST', `/droplets/${id}/actions`, {
+      type: 'power_on',
+    })
+    return data.action
+  }
+
+  // ── Tags ────────────────────────────────────────────────────────────────
+  /** Create a tag. DigitalOcean answers with the existing tag when the name is taken. */
+  async createTag(name: string): Promise<void> {
+    await this.request('POST', '/tags', { name })
+  }
+
+  async tagDroplets(tag: string, dropletIds: number[]): Promise<void> {
+    await this.request('POST', `/tags/${encodeURIComponent(tag)}/resources`, {
+      resources: dropletIds.map((id) => ({ resource_id: String(id), resource_type: 'droplet' })),
+    })
+  }
+
+  // ── Firewalls ───────────────────────────────────────────────────────────
+  async listFirewalls(): Promise<DigitalOceanFirewall[]> {
+    return this.requestAll<'firewalls', DigitalOceanFirewall>('/firewalls', 'firewalls')
+  }
+
+  async createFirewall(options: CreateFirewallOptions): Promise<DigitalOceanFirewall> {
+    const data = await this.request<{ firewall: DigitalOceanFirewall }>('POST', '/firewalls', {
+      name: options.name,
+      inbound_rules: options.inboundRules,
+      outbound_rules: options.outboundRules ?? DIGITALOCEAN_ALLOW_ALL_OUTBOUND,
+      droplet_ids: options.dropletIds,
+      tags: options.tags,
+    })
+    return data.firewall
+  }
+
+  /**
+   * Replace a firewall's definition in place. DigitalOcean has no per-rule
+   * update: PUT takes the whole firewall, so every field is sent every time.
+   */
+  async updateFirewall(id: string, options: CreateFirewallOptions): Promise<DigitalOceanFirewall> {
+    const data = await this.request<{ firewall: DigitalOceanFirewall }>('PUT', `/firewalls/${id}`, {
+      name: options.name,
+      inbound_rules: options.inboundRules,
+      outbound_rules: options.outboundRules ?? DIGITALOCEAN_ALLOW_ALL_OUTBOUND,
+      droplet_ids: options.dropletIds,
+      tags: options.tags,
+    })
+    return data.firewall
+  }
+
+  async deleteFirewall(id: string): Promise<void> {
+    await this.request('DELETE', `/firewalls/${id}`)
+  }
+
+  // ── SSH keys ────────────────────────────────────────────────────────────
+  async listSshKeys(): Promise<DigitalOceanSshKey[]> {
+    return this.requestAll<'ssh_keys', DigitalOceanSshKey>('/account/keys', 'ssh_keys')
+  }
+
+  async createSshKey(options: { name: string; publicKey: string }): Promise<DigitalOceanSshKey> {
+    const data = await this.request<{ ssh_key: DigitalOceanSshKey }>('POST', '/account/keys', {
+      name: options.name,
+      public_key: options.publicKey,
+    })
+    return data.ssh_key
+  }
+
+  // ── Reserved IPs ────────────────────────────────────────────────────────
+  async listReservedIps(): Promise<DigitalOceanReservedIp[]> {
+    return this.requestAll<'reserved_ips', DigitalOceanReservedIp>('/reserved_ips', 'reserved_ips')
+  }
+
+  /** Reserve a new IP and assign it to `dropletId` in one call. */
+  async createReservedIp(dropletId: number): Promise<DigitalOceanReservedIp> {
+    const data = await this.request<{ reserved_ip: DigitalOceanReservedIp }>('POST', '/reserved_ips', {
+      droplet_id: dropletId,
+    })
+    return data.reserved_ip
+  }
+
+  async assignReservedIp(ip: string, dropletId: number): Promise<DigitalOceanAction> {
+    const data = await this.request<{ action: DigitalOceanAction }>(
+      'POST',
+      `/reserved_ips/${encodeURIComponent(ip)}/actions`,
+      { type: 'assign', droplet_id: dropletId },
+    )
+    return data.action
+  }
+
+  async deleteReservedIp(ip: string): Promise<void> {
+    await this.request('DELETE', `/reserved_ips/${encodeURIComponent(ip)}`)
+  }
+
+  // ── Block storage ───────────────────────────────────────────────────────
+  async listVolumes(options?: { name?: string; region?: string }): Promise<DigitalOceanVolume[]> {
+    const query = new URLSearchParams()
+    if (options?.name) query.set('name', options.name)
+    if (options?.region) query.set('region', options.region)
+    const qs = query.toString()
+    return this.requestAll<'volumes', DigitalOceanVolume>(`/volumes${qs ? `?${qs}` : ''}`, 'volumes')
+  }
+
+  async createVolume(options: CreateVolumeOptions): Promise<DigitalOceanVolume> {
+    const data = await this.request<{ volume: DigitalOceanVolume }>('POST', '/volumes', {
+      name: options.name,
+      region: options.region,
+      size_gigabytes: options.sizeGb,
+      filesystem_type: options.filesystem ?? 'ext4',
+      tags: options.tags,
+    })
+    return data.volume
+  }
+
+  async attachVolume(volumeId: string, dropletId: number, region: string): Promise<DigitalOceanAction> {
+    const data = await this.request<{ action: DigitalOceanAction }>('POST', `/volumes/${volumeId}/actions`, {
+      type: 'attach',
+      droplet_id: dropletId,
+      region,
+    })
+    return data.action
+  }
+
+  // ── Actions ─────────────────────────────────────────────────────────────
+  async getAction(actionId: number): Promise<DigitalOceanAction> {
+    const data = await this.request<{ action: DigitalOceanAction }>('GET', `/actions/${actionId}`)
+    return data.action
+  }
+
+  async waitForAction(
+    actionId: number,
+    options?: { pollIntervalMs?: number; maxWaitMs?: number },
+  ): Promise<DigitalOceanAction> {
+    const pollInterval = options?.pollIntervalMs ?? 2000
+    const maxWait = options?.maxWaitMs ?? 300000
+    const start = Date.now()
+
+    while (Date.now() - start < maxWait) {
+      const action = await this.getAction(actionId)
+      if (action.status === 'completed') return action
+      if (action.status === 'errored') {
+        throw new DigitalOceanActionError(`DigitalOcean action ${actionId} (${action.type ?? 'unknown'}) failed`, action)
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollInterval))
+    }
+
+    throw new Error(`Timed out waiting for DigitalOcean action ${actionId}`)
+  }
+
+  async waitForDropletActive(
+    dropletId: number,
+    options?: { pollIntervalMs?: number; maxWaitMs?: number },
+  ): Promise<DigitalOceanDroplet> {
+    const pollInterval = options?.pollIntervalMs ?? 3000
+    const maxWait = options?.maxWaitMs ?? 600000
+    const start = Date.now()
+
+    while (Date.now() - start < maxWait) {
+      const droplet = await this.getDroplet(dropletId)
+      if (droplet.status === 'active') return droplet
+      await new Promise((resolve) => setTimeout(resolve, pollInterval))
+    }
+
+    throw new Error(`Timed out waiting for droplet ${dropletId} to become active`)
+  }
+}
+
+/**
+ * The DigitalOcean API token, or a clear error when none is configured.
+ */
+export function requireDigitalOceanApiToken(token: string | undefined): string {
+  if (!token) {
+    throw new Error(
+      'DigitalOcean API token required. Set digitalocean.apiToken in cloud.config.ts or DIGITALOCEAN_TOKEN / DIGITALOCEAN_ACCESS_TOKEN.',
+    )
+  }
+  return token
+}
+
+/** A droplet's public IPv4, when it has one. */
+export function dropletPublicIpv4(droplet: DigitalOceanDroplet): string | undefined {
+  return droplet.networks.v4.find((net) => net.type === 'public')?.ip_address
+}
+
+/** A droplet's private (VPC) IPv4, when it has one. */
+export function dropletPrivateIpv4(droplet: DigitalOceanDroplet): string | undefined {
+  return droplet.networks.v4.find((net) => net.type === 'private')?.ip_address
+}
+
+/** A droplet's public IPv6, when IPv6 was enabled at creation. */
+export function dropletPublicIpv6(droplet: DigitalOceanDroplet): string | undefined {
+  return droplet.networks.v6?.find((net) => net.type === 'public')?.ip_address
+}
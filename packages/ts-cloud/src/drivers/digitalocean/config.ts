@@ -0,0 +1,127 @@
+/**
+ * The single place DigitalOcean settings are resolved.
+ *
+ * Same precedence as the Hetzner settings (see `../hetzner/config`), for the
+ * same reason — a value written in `cloud.config.ts` is the reviewed intent for
+ * the project, and a stray shell export must not redirect a deploy:
+ *
+ *   1. an explicit argument (a driver option)
+ *   2. `cloud.config.ts` → `digitalocean.*`
+ *   3. environment (`DIGITALOCEAN_*`; the token also answers to `doctl`'s
+ *      `DIGITALOCEAN_ACCESS_TOKEN`)
+ *   4. the documented default in {@link DIGITALOCEAN_DEFAULTS}
+ */
+import type { CloudConfig } from '@ts-cloud/core'
+import { expandHome } from '../hetzner/config'
+
+/** The documented defaults. These are the only place a DigitalOcean default lives. */
+export const DIGITALOCEAN_DEFAULTS = {
+  /** New York 3. */
+  region: 'nyc3',
+  image: 'ubuntu-24-04-x64',
+  sshUser: 'root',
+  sshPrivateKeyPath: '~/.ssh/id_ed25519',
+} as const
+
+/** First non-empty environment variable from `names`. */
+function env(...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = process.env[name]?.trim()
+    if (value) return value
+  }
+  return undefined
+}
+
+function first(...values: Array<string | undefined>): string | undefined {
+  for (const value of values) {
+    const trimmed = value?.trim()
+    if (trimmed) return trimmed
+  }
+  return undefined
+}
+
+/**
+ * The DigitalOcean API token, or undefined when none is set. Never defaulted:
+ * a missing token must fail loudly at the call site.
+ */
+export function resolveDigitalOceanApiToken(explicit?: string, config?: CloudConfig): string | undefined {
+  return first(explicit, config?.digitalocean?.apiToken, env('DIGITALOCEAN_TOKEN', 'DIGITALOCEAN_ACCESS_TOKEN'))
+}
+
+/** Region slug, e.g. `nyc3`, `fra1`, `sgp1`. */
+export function resolveDigitalOceanRegion(config?: CloudConfig, explicit?: string): string {
+  return first(explicit, config?.digitalocean?.region, env('DIGITALOCEAN_REGION')) ?? DIGITALOCEAN_DEFAULTS.region
+}
+
+/**
+ * Droplet image slug (or a numeric snapshot id, as a string).
+ *
+ * `infrastructure.compute.image` wins over `digitalocean.image`, exactly as it
+ * does for Hetzner: it is the provider-agnostic way to pin an image.
+ */
+export function resolveDigitalOceanImage(config?: CloudConfig, explicit?: string): string {
+  const compute = config?.infrastructure?.compute as { image?: string } | undefined
+  return (
+    first(explicit, compute?.image, config?.digitalocean?.image, env('DIGITALOCEAN_IMAGE')) ??
+    DIGITALOCEAN_DEFAULTS.image
+  )
+}
+
+/** SSH user for deploy commands. */
+export function resolveDigitalOceanSshUser(config?: CloudConfig, explicit?: string): string {
+  return first(explicit, config?.digitalocean?.sshUser, env('DIGITALOCEAN_SSH_USER')) ?? DIGITALOCEAN_DEFAULTS.sshUser
+}
+
+/** Absolute path to the SSH private key used for deploy commands. */
+export function resolveDigitalOceanSshPrivateKeyPath(config?: CloudConfig, explicit?: string): string {
+  return expandHome(
+    first(explicit, config?.digitalocean?.sshPrivateKeyPath, env('DIGITALOCEAN_SSH_KEY')) ??
+      DIGITALOCEAN_DEFAULTS.sshPrivateKeyPath,
+  )
+}
+
+/** Absolute path to the SSH public key registered with DigitalOcean. */
+export function resolveDigitalOceanSshPublicKeyPath(
+  config?: CloudConfig,
+  explicit?: string,
+  privateKeyPath?: string,
+): string {
+  const explicitPath = first(explicit, config?.digitalocean?.sshPublicKeyPath, env('DIGITALOCEAN_SSH_PUBLIC_KEY'))
+  if (explicitPath) return expandHome(explicitPath)
+  return `${privateKeyPath ?? resolveDigitalOceanSshPrivateKeyPath(config)}.pub`
+}
+
+/** Every resolved DigitalOcean setting, for a driver or a diagnostic to read at once. */
+export interface ResolvedDigitalOceanSettings {
+  apiToken?: string
+  region: string
+  image: string
+  sshUser: string
+  sshPrivateKeyPath: string
+  sshPublicKeyPath: string
+}
+
+export interface DigitalOceanOverrides {
+  apiToken?: string
+  region?: string
+  image?: string
+  sshUser?: string
+  sshPrivateKeyPath?: string
+  sshPublicKeyPath?: string
+}
+
+/** Resolve the full DigitalOcean settings for `config`, applying `overrides` first. */
+export function resolveDigitalOceanSettings(
+  config?: CloudConfig,
+  overrides: DigitalOceanOverrides = {},
+): ResolvedDigitalOceanSettings {
+  const sshPrivateKeyPath = resolveDigitalOceanSshPrivateKeyPath(config, overrides.sshPrivateKeyPath)
+  return {
+    apiToken: resolveDigitalOceanApiToken(overrides.apiToken, config),
+    region: resolveDigitalOceanRegion(config, overrides.region),
+    image: resolveDigitalOceanImage(config, overrides.image),
+    sshUser: resolveDigitalOceanSshUser(config, overrides.sshUser),
+    sshPrivateKeyPath,
+    sshPublicKeyPath: resolveDigitalOceanSshPublicKeyPath(config, overrides.sshPublicKeyPath, sshPrivateKeyPath),
+  }
+}
@@ -0,0 +1,543 @@
+import type { CloudConfig, CloudDriver, ComputeStackOutputs, ComputeTarget, FindComputeTargetsOptions, ProvisionComputeOptions, ReachableResource, RemoteDeployResult, RunRemoteDeployOptions, UploadReleaseOptions, UploadReleaseResult } from '@ts-cloud/core'
+import type { DigitalOceanDroplet, DigitalOceanFirewall, DigitalOceanVolume } from './client'
+import type { DigitalOceanDriverState } from './state'
+import { execFileSync } from 'node:child_process'
+import { randomUUID } from 'node:crypto'
+import { existsSync, readFileSync } from 'node:fs'
+import { resolveProjectStackName } from '@ts-cloud/core'
+import { normalizePublicIpv6 } from '../../deploy/server-dns'
+import { formatSshFailure } from '../hetzner/driver'
+import { normalizeSshPublicKey } from '../hetzner/client'
+import { resolveFleetTopology } from '../shared/fleet'
+import { buildSshArgs, waitForCloudInit, waitForSsh } from '../shared/remote-exec'
+import { summarizeRemoteFailures } from '../shared/remote-failure'
+import {
+  DigitalOceanClient,
+  dropletPrivateIpv4,
+  dropletPublicIpv4,
+  dropletPublicIpv6,
+  requireDigitalOceanApiToken,
+} from './client'
+import { resolveDigitalOceanImage, resolveDigitalOceanSettings } from './config'
+import {
+  buildDigitalOceanFirewallRules,
+  buildDigitalOceanUserData,
+  digitalOceanFirewallInput,
+  digitalOceanVolumeName,
+  matchesTsCloudTags,
+  resolveDigitalOceanDropletSize,
+  tagsToLabels,
+  tsCloudRoleTag,
+  tsCloudStackTag,
+  tsCloudTags,
+} from './provision'
+import { readDigitalOceanState, writeDigitalOceanState } from './state'
+
+/** Output cap for SCP/SSH children — large enough for verbose tar extraction. */
+const SSH_MAX_BUFFER = 1024 * 1024 * 256
+
+const STAGING_DIR = '/var/ts-cloud/staging'
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'"'"'`)}'`
+}
+
+export interface DigitalOceanDriverOptions {
+  apiToken?: string
+  sshPrivateKeyPath?: string
+  sshPublicKeyPath?: string
+  sshUser?: string
+  region?: string
+  client?: DigitalOceanClient
+  /**
+   * After the droplet reports `active`, block until SSH is reachable and
+   * cloud-init has finished before returning from provisioning. Disable in
+   * tests to avoid real network waits.
+   * @default true
+   */
+  waitForBoot?: boolean
+}
+
+/**
+ * DigitalOcean droplets + SSH.
+ *
+ * The single-box Forge path: one Ubuntu droplet booted with the shared
+ * bootstrap, a cloud firewall, an optional reserved IP and an optional block
+ * storage volume, deployed to over SSH exactly like a Hetzner box. Droplets are
+ * identified by `ts-cloud:*` tags (see `./provision`), which play the part
+ * Hetzner labels play there.
+ *
+ * Load-balanced fleets (`appServers > 1`, a dedicated services box) are not
+ * provisioned on DigitalOcean yet and fail with a clear error instead of
+ * silently deploying a single box.
+ */
+export class DigitalOceanDriver implements CloudDriver {
+  readonly name = 'digitalocean' as const
+  readonly usesCloudFormation = false
+
+  private client: DigitalOceanClient
+  private sshPrivateKeyPath: string
+  private sshPublicKeyPath: string
+  private sshUser: string
+  private region: string
+  private waitForBoot: boolean
+
+  constructor(options: DigitalOceanDriverOptions = {}) {
+    const settings = resolveDigitalOceanSettings(undefined, {
+      apiToken: options.apiToken,
+      sshPrivateKeyPath: options.sshPrivateKeyPath,
+      sshPublicKeyPath: options.sshPublicKeyPath,
+      sshUser: options.sshUser,
+      region: options.region,
+    })
+    this.client =
+      options.client ?? new DigitalOceanClient({ apiToken: requireDigitalOceanApiToken(settings.apiToken) })
+    this.sshPrivateKeyPath = settings.sshPrivateKeyPath
+    this.sshPublicKeyPath = settings.sshPublicKeyPath
+    this.sshUser = settings.sshUser
+    this.region = settings.region
+    this.waitForBoot = options.waitForBoot ?? true
+  }
+
+  async provisionComputeInfrastructure(options: ProvisionComputeOptions): Promise<ComputeStackOutputs> {
+    const { config, environment } = options
+    const slug = config.project.slug
+    const compute = config.infrastructure?.compute
+    if (!compute) {
+      throw new Error('infrastructure.compute is required to provision DigitalOcean compute')
+    }
+    if (config.cloud?.attachTo) {
+      throw new Error(
+        `cloud.attachTo is not supported on DigitalOcean yet. Deploy '${config.project.slug}' onto its own droplet, or attach it to a Hetzner box.`,
+      )
+    }
+    const topology = resolveFleetTopology(compute)
+    if (topology.dedicatedServices || topology.loadBalancer) {
+      throw new Error(
+        'Load-balanced fleets (appServers > 1 or servicesServer) are not supported on DigitalOcean yet. Use a single app droplet, or the Hetzner or AWS provider for a fleet.',
+      )
+    }
+
+    const stackName = resolveProjectStackName(config, environment)
+    const dropletName = `${slug}-${environment}-app`
+    const region = config.digitalocean?.region || this.region
+    const tags = tsCloudTags(slug, environment, 'app')
+    const stackTag = tsCloudStackTag(slug, environment)
+
+    // Access is reconciled on every provision, as on Hetzner: a changed port
+    // set or a rotated key must reach a reused droplet, not only a new one.
+    // The firewall targets droplets by tag, so a replacement droplet is
+    // covered the moment it exists.
+    await this.client.createTag(stackTag)
+    const firewall = await this.ensureFirewall(`${slug}-${environment}-app-fw`, stackTag, config)
+    const sshKeyId = await this.ensureSshKey(slug, environment)
+
+    const existing = await readDigitalOceanState(stackName)
+    let droplet = existing?.dropletId ? await this.tryGetDroplet(existing.dropletId) : null
+    // Idempotency without local state (CI on a fresh checkout): find the
+    // droplet by its tags before creating a duplicate.
+    if (!droplet) {
+      droplet =
+        (await this.client.listDroplets({ tag: tsCloudRoleTag('app') })).find((candidate) =>
+          matchesTsCloudTags(candidate.tags, slug, environment, 'app'),
+        ) ?? null
+    }
+    // A powered-off droplet still holds the app and its data: start it
+    // rather than build a second one beside it.
+    if (droplet?.status === 'off') {
+      const action = await this.client.powerOnDroplet(droplet.id)
+      await this.client.waitForAction(action.id)
+      droplet = await this.client.waitForDropletActive(droplet.id)
+    }
+    // Droplets created before the stack tag existed are outside the firewall
+    // until they carry it.
+    if (droplet && !droplet.tags?.includes(stackTag)) {
+      await this.client.tagDroplets(stackTag, [droplet.id])
+      droplet = { ...droplet, tags: [...(droplet.tags ?? []), stackTag] }
+    }
+
+    const volume = config.digitalocean?.volume
+      ? await this.ensureVolume(config, environment, region)
+      : undefined
+
+    const created = !droplet
+    if (!droplet) {
+      const { droplet: createdDroplet, actionIds } = await this.client.createDroplet({
+        name: dropletName,
+        region,
+        size: resolveDigitalOceanDropletSize(compute.size),
+        image: resolveDigitalOceanImage(config),
+        sshKeys: [sshKeyId],
+        userData: buildDigitalOceanUserData(config, { environment }),
+        tags: [...tags, stackTag],
+        volumes: volume ? [volume.id] : undefined,
+      })
+      for (const actionId of actionIds) await this.client.waitForAction(actionId)
+      droplet = await this.client.waitForDropletActive(createdDroplet.id)
+    } else if (volume && !volume.droplet_ids.includes(droplet.id)) {
+      // A volume configured after the droplet was created: attach it now.
+      // The fstab entry and mount are written by the user data, which only
+      // runs on a droplet's first boot, so say so rather than pretend the
+      // volume is mounted.
+      const action = await this.client.attachVolume(volume.id, droplet.id, region)
+      await this.client.waitForAction(action.id)
+      console.warn(
+        `[ts-cloud] Attached volume '${volume.name}' to existing droplet '${droplet.name}'. It is not mounted until the droplet is rebuilt; mount /dev/disk/by-id/scsi-0DO_Volume_${volume.name} by hand to use it now.`,
+      )
+    }
+
+    const reservedIp = config.digitalocean?.reservedIp ? await this.ensureReservedIp(droplet, existing) : undefined
+
+    const state: DigitalOceanDriverState = {
+      provider: 'digitalocean',
+      stackName,
+      dropletId: droplet.id,
+      dropletName: droplet.name,
+      firewallId: firewall.id,
+      publicIp: dropletPublicIpv4(droplet),
+      publicIpv6: normalizePublicIpv6(dropletPublicIpv6(droplet)),
+      reservedIp,
+      volumeId: volume?.id,
+      deployStoragePath: STAGING_DIR,
+      sshUser: this.sshUser,
+    }
+    await writeDigitalOceanState(stackName, state)
+
+    // `active` means the VM is powered on, not that cloud-init has installed
+    // the runtime. Deploying now would race the bootstrap.
+    const ip = dropletPublicIpv4(droplet)
+    if (created && ip && this.waitForBoot) {
+      const waitOptions = { user: this.sshUser, identityFile: this.sshPrivateKeyPath }
+      await waitForSsh(ip, { ...waitOptions, timeoutMs: 300_000 })
+      await waitForCloudInit(ip, { ...waitOptions, timeoutMs: 600_000 })
+    }
+
+    return this.outputsFromState(state)
+  }
+
+  /**
+   * Tear down the droplet, its firewall and its reserved IP. The block storage
+   * volume is deliberately kept: it exists to hold data that outlives the box,
+   * and a teardown is not a request to delete it.
+   */
+  async destroyCompute(options: ProvisionComputeOptions): Promise<{ destroyed: string[] }> {
+    const { config, environment } = options
+    const slug = config.project.slug
+    const stackName = resolveProjectStackName(config, environment)
+    const state = await readDigitalOceanState(stackName)
+    const destroyed: string[] = []
+
+    const droplets = await this.client.listDroplets({ tag: tsCloudRoleTag('app') }).catch(() => [])
+    const dropletIds = new Set<number>(
+      droplets.filter((d) => matchesTsCloudTags(d.tags, slug, environment, 'app')).map((d) => d.id),
+    )
+    if (state?.dropletId) dropletIds.add(state.dropletId)
+
+    // Reserved IPs first: one still assigned keeps routing to whatever the
+    // provider recycles the droplet's slot into.
+    const reservedIps = await this.client.listReservedIps().catch(() => [])
+    for (const reserved of reservedIps) {
+      const owned =
+        reserved.ip === state?.reservedIp || (reserved.droplet && dropletIds.has(reserved.droplet.id))
+      if (!owned) continue
+      try {
+        await this.client.deleteReservedIp(reserved.ip)
+        destroyed.push(`reserved ip ${reserved.ip}`)
+      } catch {
+        /* leftover surfaces on the next teardown */
+      }
+    }
+
+    for (const id of dropletIds) {
+      try {
+        await this.client.deleteDroplet(id)
+        destroyed.push(`droplet ${id}`)
+      } catch {
+        /* already gone, or surfaces on the next teardown */
+      }
+    }
+
+    const firewallName = `${slug}-${environment}-app-fw`
+    const firewalls = await this.client.listFirewalls().catch(() => [])
+    const firewall = firewalls.find((fw) => fw.name === firewallName)
+    if (firewall) {
+      try {
+        await this.client.deleteFirewall(firewall.id)
+        destroyed.push(`firewall ${firewallName}`)
+      } catch {
+        /* leftover surfaces on the next teardown */
+      }
+    }
+
+    // Keep the volume id: the next provision reattaches the same data.
+    await writeDigitalOceanState(stackName, { provider: 'digitalocean', stackName, volumeId: state?.volumeId }).catch(
+      () => {},
+    )
+    return { destroyed }
+  }
+
+  async getComputeOutputs(options: ProvisionComputeOptions): Promise<ComputeStackOutputs> {
+    const stackName = resolveProjectStackName(options.config, options.environment)
+    const state = await readDigitalOceanState(stackName)
+    if (state?.dropletId) {
+      const droplet = await this.tryGetDroplet(state.dropletId)
+      if (droplet) return this.outputsFromState(state, droplet)
+    }
+
+    const targets = await this.findComputeTargets({
+      slug: options.config.project.slug,
+      environment: options.environment,
+      role: 'app',
+      stackName,
+    })
+    const first = targets[0]
+    return {
+      deployStoragePath: STAGING_DIR,
+      appInstanceId: first?.id,
+      appPublicIp: first?.publicIp,
+      appPublicIpv6: first?.publicIpv6,
+      sshUser: this.sshUser,
+    }
+  }
+
+  async uploadRelease(options: UploadReleaseOptions): Promise<UploadReleaseResult> {
+    const targets = options.targets?.length
+      ? options.targets
+      : await this.findComputeTargets({
+          slug: options.config.project.slug,
+          environment: options.environment,
+          role: 'app',
+          stackName: resolveProjectStackName(options.config, options.environment),
+        })
+
+    if (targets.length === 0) {
+      throw new Error('No DigitalOcean compute targets found for release upload')
+    }
+
+    // Site and nonce in the staging name, for the reasons spelled out in the
+    // Hetzner driver: sites sharing a SHA, and concurrent deploys of one site,
+    // must never extract each other's tarball.
+    const stagingStem = options.remoteKey.replace(/^releases\//, '').replace(/\.tar\.gz$/, '').replace(/\//g, '-')
+    const remotePath = `${STAGING_DIR}/${stagingStem}-${randomUUID()}.tar.gz`
+    for (const target of targets) {
+      if (!target.publicIp) {
+        throw new Error(`Target ${target.id} has no public IP for SCP upload`)
+      }
+      this.sshExec(target.publicIp, `mkdir -p ${STAGING_DIR}`)
+      this.scpToHost(target.publicIp, options.localPath, remotePath)
+      this.sshExec(target.publicIp, `chmod 600 ${shellQuote(remotePath)}`)
+    }
+
+    return { artifactRef: remotePath }
+  }
+
+  async findComputeTargets(options: FindComputeTargetsOptions): Promise<ComputeTarget[]> {
+    const role = options.role || 'app'
+    const toTarget = (droplet: DigitalOceanDroplet, reservedIp?: string): ComputeTarget => ({
+      id: String(droplet.id),
+      name: droplet.name,
+      publicIp: reservedIp ?? dropletPublicIpv4(droplet),
+      publicIpv6: normalizePublicIpv6(dropletPublicIpv6(droplet)),
+      privateIp: dropletPrivateIpv4(droplet),
+      status: droplet.status,
+    })
+
+    // 1) State pin first, re-resolved through the API so a deleted droplet is
+    //    never targeted and the address is always fresh.
+    if (role === 'app') {
+      const state = await readDigitalOceanState(options.stackName ?? `${options.slug}-${options.environment}`)
+      if (state?.dropletId) {
+        const droplet = await this.tryGetDroplet(state.dropletId)
+        if (droplet && droplet.status !== 'off' && (!state.dropletName || droplet.name === state.dropletName))
+          return [toTarget(droplet, state.reservedIp)]
+      }
+    }
+
+    // 2) This project's tags.
+    const droplets = await this.client.listDroplets({ tag: tsCloudRoleTag(role) })
+    return droplets
+      .filter((droplet) => droplet.status !== 'off' && matchesTsCloudTags(droplet.tags, options.slug, options.environment, role))
+      .map((droplet) => toTarget(droplet))
+  }
+
+  /**
+   * Every droplet this token can see. DigitalOcean personal access tokens can
+   * be scoped per resource type but not per droplet, so for a token with
+   * droplet write access "can see" is "can delete".
+   */
+  async listReachableResources(): Promise<ReachableResource[]> {
+    const droplets = await this.client.listDroplets()
+    return droplets.map((droplet) => ({ name: droplet.name, labels: tagsToLabels(droplet.tags) }))
+  }
+
+  async runRemoteDeploy(options: RunRemoteDeployOptions): Promise<RemoteDeployResult> {
+    if (options.targets.length === 0) {
+      return { success: false, instanceCount: 0, perInstance: [], error: 'No targets provided' }
+    }
+
+    const script = options.commands.join('\n')
+    const perInstance = options.targets.map((target) => {
+      if (!target.publicIp) return { instanceId: target.id, status: 'Failed', error: 'Missing public IP' }
+      try {
+        return { instanceId: target.id, status: 'Success', output: this.sshExec(target.publicIp, script) }
+      } catch (err) {
+        return { instanceId: target.id, status: 'Failed', error: (err as Error).message }
+      }
+    })
+
+    const success = perInstance.every((r) => r.status === 'Success')
+    return {
+      success,
+      instanceCount: options.targets.length,
+      perInstance,
+      error: success ? undefined : summarizeRemoteFailures(perInstance, 'One or more SSH deploy commands failed'),
+    }
+  }
+
+  /**
+   * Register the local SSH public key with the account (or reuse it when the
+   * same key body is already there under any name) so the droplet authorizes
+   * the key the deploy step connects with.
+   */
+  private async ensureSshKey(slug: string, environment: string): Promise<number> {
+    if (!existsSync(this.sshPublicKeyPath)) {
+      throw new Error(
+        `SSH public key not found at ${this.sshPublicKeyPath}. ts-cloud deploys to DigitalOcean over SSH and needs a public key to authorize on the droplet. ` +
+          `Generate one (\`ssh-keygen -t ed25519\`) or set digitalocean.sshPrivateKeyPath / DIGITALOCEAN_SSH_PUBLIC_KEY.`,
+      )
+    }
+
+    const publicKey = readFileSync(this.sshPublicKeyPath, 'utf8').trim()
+    const normalized = normalizeSshPublicKey(publicKey)
+    const match = (await this.client.listSshKeys()).find((key) => normalizeSshPublicKey(key.public_key) === normalized)
+    if (match) return match.id
+
+    const created = await this.client.createSshKey({ name: `${slug}-${environment}-deploy`, publicKey })
+    return created.id
+  }
+
+  /** Find the firewall by name and replace its definition, or create it. */
+  private async ensureFirewall(name: string, stackTag: string, config: CloudConfig): Promise<DigitalOceanFirewall> {
+    const definition = {
+      name,
+      inboundRules: buildDigitalOceanFirewallRules(digitalOceanFirewallInput(config)),
+      // A firewall applies to droplets carrying ANY of its tags, and every
+      // ts-cloud droplet carries tags shared with other projects or other
+      // environments. Only the stack tag keeps these ports on this stack.
+      tags: [stackTag],
+    }
+    const existing = (await this.client.listFirewalls()).find((fw) => fw.name === name)
+    if (existing) return this.client.updateFirewall(existing.id, definition)
+    return this.client.createFirewall(definition)
+  }
+
+  /** The project's data volume, created once in `region` and reused thereafter. */
+  private async ensureVolume(
+    config: CloudConfig,
+    environment: string,
+    region: string,
+  ): Promise<DigitalOceanVolume> {
+    const volume = config.digitalocean!.volume!
+    const name = digitalOceanVolumeName(config.project.slug, environment)
+    const existing = (await this.client.listVolumes({ name, region })).find((v) => v.name === name)
+    if (existing) return existing
+    return this.client.createVolume({
+      name,
+      region,
+      sizeGb: volume.sizeGb,
+      filesystem: volume.filesystem,
+      tags: tsCloudTags(config.project.slug, environment, 'app'),
+    })
+  }
+
+  /**
+   * Route a reserved IP to the droplet: the one already pointing at it, else
+   * the one recorded in state (reassigned after a droplet replacement), else a
+   * new one.
+   */
+  private async ensureReservedIp(
+    droplet: DigitalOceanDroplet,
+    state: DigitalOceanDriverState | null,
+  ): Promise<string> {
+    const reservedIps = await this.client.listReservedIps()
+    const assigned = reservedIps.find((reserved) => reserved.droplet?.id === droplet.id)
+    if (assigned) return assigned.ip
+
+    const recorded = state?.reservedIp ? reservedIps.find((reserved) => reserved.ip === state.reservedIp) : undefined
+    if (recorded) {
+      const action = await this.client.assignReservedIp(recorded.ip, droplet.id)
+      await this.client.waitForAction(action.id)
+      return recorded.ip
+    }
+
+    return (await this.client.createReservedIp(droplet.id)).ip
+  }
+
+  /** getDroplet that returns null instead of throwing when the droplet is gone. */
+  private async tryGetDroplet(id: number): Promise<DigitalOceanDroplet | null> {
+    try {
+      return await this.client.getDroplet(id)
+    } catch {
+      return null
+    }
+  }
+
+  private outputsFromState(state: DigitalOceanDriverState, droplet?: DigitalOceanDroplet): ComputeStackOutputs {
+    return {
+      deployStoragePath: state.deployStoragePath || STAGING_DIR,
+      appInstanceId: state.dropletId ? String(state.dropletId) : undefined,
+      appPublicIp: state.reservedIp || (droplet && dropletPublicIpv4(droplet)) || state.publicIp,
+      appPublicIpv6: normalizePublicIpv6(droplet && dropletPublicIpv6(droplet)) || state.publicIpv6,
+      sshUser: state.sshUser || this.sshUser,
+    }
+  }
+
+  /**
+   * SSH options: the shared host-key-less defaults (droplets are identified
+   * through the API, and providers recycle addresses) plus keepalives, so a
+   * stalled connection fails the deploy instead of hanging it.
+   */
+  private sshBaseArgs(host: string): string[] {
+    return [
+      ...buildSshArgs({ identityFile: this.sshPrivateKeyPath, connectTimeoutSec: 30 }),
+      '-o',
+      'ServerAliveInterval=15',
+      '-o',
+      'ServerAliveCountMax=4',
+      '-o',
+      'BatchMode=yes',
+      `${this.sshUser}@${host}`,
+    ]
+  }
+
+  private scpToHost(host: string, localPath: string, remotePath: string): void {
+    const args = this.sshBaseArgs(host)
+    const destination = `${args.pop()}:${remotePath}`
+    const attempts = 3
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        execFileSync('scp', [...args, localPath, destination], { stdio: 'pipe', maxBuffer: SSH_MAX_BUFFER })
+        return
+      } catch (error) {
+        if (attempt === attempts) throw new Error(formatSshFailure(error))
+      }
+    }
+  }
+
+  /**
+   * Run a script over SSH, fed on stdin so the runtime environment in a deploy
+   * script never appears in the local process table.
+   */
+  private sshExec(host: string, script: string): string {
+    try {
+      return execFileSync('ssh', [...this.sshBaseArgs(host), 'bash -s'], {
+        encoding: 'utf8',
+        input: script,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        maxBuffer: SSH_MAX_BUFFER,
+      })
+    } catch (error) {
+      throw new Error(formatSshFailure(error))
+    }
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * DigitalOcean droplet provisioning composition — the pure, testable pieces
+ * shared by {@link import('./driver').DigitalOceanDriver}.
+ *
+ * Mirrors the Hetzner and AWS paths: one **Ubuntu** droplet booted with the
+ * shared bootstrap as user data, fronted by a cloud firewall. The live API
+ * orchestration lives in the driver; this module builds the inputs.
+ */
+import type { CloudConfig, InstanceSize } from '@ts-cloud/core'
+import type { DigitalOceanInboundRule } from './client'
+import { buildComputeProvisionScripts } from '../shared/compute-provision'
+import { buildRpxConfig, buildRpxProvisionScript, usesRpxProxy } from '../shared/rpx-gateway'
+import { sftpFirewallPorts } from '../shared/sftp-provision'
+import { buildUbuntuBootstrapScript } from '../shared/ubuntu-bootstrap'
+
+/**
+ * Map ts-cloud instance size shorthands to DigitalOcean droplet size slugs.
+ * @see https://slugs.do-api.dev/
+ */
+export const DIGITALOCEAN_DROPLET_SIZES: Record<
+  Extract<InstanceSize, 'nano' | 'micro' | 'small' | 'medium' | 'large' | 'xlarge' | '2xlarge'>,
+  string
+> = {
+  nano: 's-1vcpu-512mb-10gb',
+  micro: 's-1vcpu-1gb',
+  small: 's-1vcpu-2gb',
+  medium: 's-2vcpu-4gb',
+  large: 's-4vcpu-8gb',
+  xlarge: 's-8vcpu-16gb',
+  '2xlarge': 'g-8vcpu-32gb',
+}
+
+export function resolveDigitalOceanDropletSize(size?: string): string {
+  if (!size) return DIGITALOCEAN_DROPLET_SIZES.micro
+  if (size in DIGITALOCEAN_DROPLET_SIZES) {
+    return DIGITALOCEAN_DROPLET_SIZES[size as keyof typeof DIGITALOCEAN_DROPLET_SIZES]
+  }
+  return size
+}
+
+export const TS_CLOUD_TAG_PREFIX = 'ts-cloud'
+
+/**
+ * DigitalOcean tags are flat strings (letters, digits, `:`, `-`, `_`), not
+ * key/value labels, so the label vocabulary the Hetzner driver uses is encoded
+ * as `ts-cloud:<key>:<value>`. Anything else in a value becomes `-`.
+ */
+function tagValue(value: string): string {
+  return value.replace(/[^\w:-]/g, '-')
+}
+
+export function tsCloudTags(slug: string, environment: string, role = 'app'): string[] {
+  return [
+    TS_CLOUD_TAG_PREFIX,
+    `${TS_CLOUD_TAG_PREFIX}:project:${tagValue(slug)}`,
+    `${TS_CLOUD_TAG_PREFIX}:environment:${tagValue(environment)}`,
+    `${TS_CLOUD_TAG_PREFIX}:role:${tagValue(role)}`,
+  ]
+}
+
+/**
+ * The one tag unique to a project's environment. Cloud firewalls add up over
+ * every tag they target, so a firewall aimed at anything broader would open
+ * one environment's ports on every other environment's droplets.
+ */
+export function tsCloudStackTag(slug: string, environment: string): string {
+  return `${TS_CLOUD_TAG_PREFIX}:stack:${tagValue(slug)}:${tagValue(environment)}`
+}
+
+/** The tag a droplet list can be filtered by to find one project's role. */
+export function tsCloudRoleTag(role: string): string {
+  return `${TS_CLOUD_TAG_PREFIX}:role:${tagValue(role)}`
+}
+
+/**
+ * Decode `ts-cloud:<key>:<value>` tags back into the label shape the rest of
+ * ts-cloud reasons about (`ts-cloud/project` and friends), so credential-reach
+ * reporting treats a droplet exactly like a Hetzner server.
+ */
+export function tagsToLabels(tags: string[] | undefined): Record<string, string> {
+  const labels: Record<string, string> = {}
+  for (const tag of tags ?? []) {
+    const match = /^ts-cloud:([^:]+):(.+)$/.exec(tag)
+    if (match) labels[`${TS_CLOUD_TAG_PREFIX}/${match[1]}`] = match[2]
+  }
+  if ((tags ?? []).includes(TS_CLOUD_TAG_PREFIX)) labels[`${TS_CLOUD_TAG_PREFIX}/managed-by`] = 'ts-cloud'
+  return labels
+}
+
+/** Whether a droplet's tags mark it as this project/environment's `role` box. */
+export function matchesTsCloudTags(
+  tags: string[] | undefined,
+  slug: string,
+  environment: string,
+  role = 'app',
+): boolean {
+  if (!tags?.length) return false
+  return tsCloudTags(slug, environment, role).every((tag) => tags.includes(tag))
+}
+
+export interface DigitalOceanFirewallRuleInput {
+  allowSsh?: boolean
+  sitePorts: number[]
+  /** Operator-owned public TCP ports from compute.firewall.allowedPorts. */
+  allowedPorts?: number[]
+}
+
+/** Inbound rules for an app droplet: 80/443, SSH unless disabled, and any extra ports. */
+export function buildDigitalOceanFirewallRules(input: DigitalOceanFirewallRuleInput): DigitalOceanInboundRule[] {
+  const openPorts = new Set<number>([80, 443, ...input.sitePorts, ...(input.allowedPorts ?? [])])
+  if (input.allowSsh) openPorts.add(22)
+
+  return [...openPorts]
+    .sort((a, b) => a - b)
+    .map((port) => ({
+      protocol: 'tcp',
+      ports: String(port),
+      sources: { addresses: ['0.0.0.0/0', '::/0'] },
+    }))
+}
+
+/**
+ * Firewall input for `config`. Like the Hetzner path, an rpx-fronted box never
+ * publishes its upstream ports: every upstream is reached over loopback, and a
+ * public port would bypass TLS and every gateway policy.
+ */
+export function digitalOceanFirewallInput(config: CloudConfig): DigitalOceanFirewallRuleInput {
+  const compute = config.infrastructure?.compute ?? {}
+  const sitePorts = new Set<number>()
+  if (!usesRpxProxy(compute)) {
+    for (const site of Object.values(config.sites || {})) {
+      if (site && typeof site.port === 'number' && ![80, 443].includes(site.port)) sitePorts.add(site.port)
+    }
+  }
+  return {
+    allowSsh: compute.allowSsh !== false,
+    sitePorts: [...sitePorts],
+    allowedPorts: [...(compute.firewall?.allowedPorts ?? []), ...sftpFirewallPorts(config.infrastructure?.sftp)],
+  }
+}
+
+/** Name of the block storage volume ts-cloud gives a project's app droplet. */
+export function digitalOceanVolumeName(slug: string, environment: string): string {
+  // Volume names are lowercase letters, digits and `-`, starting with a letter.
+  return `${slug}-${environment}-data`.toLowerCase().replace(/[^a-z0-9-]/g, '-')
+}
+
+/**
+ * Mount a block storage volume at `mountPath`, persistently.
+ *
+ * DigitalOcean formats a volume created with `filesystem_type` but only
+ * auto-mounts volumes attached through the control panel, so a volume attached
+ * over the API shows up as `/dev/disk/by-id/scsi-0DO_Volume_<name>` and nothing
+ * else. The device can appear a few seconds after boot, hence the wait.
+ * `nofail` keeps a detached volume from dropping the box into emergency mode
+ * on reboot.
+ */
+export function buildVolumeMountScript(options: {
+  volumeName: string
+  mountPath: string
+  filesystem?: 'ext4' | 'xfs'
+}): string[] {
+  const device = `/dev/disk/by-id/scsi-0DO_Volume_${options.volumeName}`
+  const fs = options.filesystem ?? 'ext4'
+  return [
+    `# Block storage volume ${options.volumeName}`,
+    `for i in $(seq 1 30); do [ -e ${device} ] && break; sleep 2; done`,
+    `mkdir -p ${options.mountPath}`,
+    `if ! grep -q '${device}' /etc/fstab; then echo '${device} ${options.mountPath} ${fs} defaults,nofail,discard,noatime 0 2' >> /etc/fstab; fi`,
+    `mountpoint -q ${options.mountPath} || mount ${options.mountPath}`,
+  ]
+}
+
+/**
+ * Build the droplet user data (raw bash) from the shared Ubuntu bootstrap — the
+ * same recipe the Hetzner and AWS paths boot. DigitalOcean hands user data to
+ * cloud-init, which runs a `#!` script as-is, so unlike Hetzner there is no
+ * `#cloud-config` wrapper to get the shell right.
+ */
+export function buildDigitalOceanUserData(config: CloudConfig, options: { environment?: string } = {}): string {
+  const compute = config.infrastructure?.compute ?? {}
+  const provision = buildComputeProvisionScripts(config, { environment: options.environment })
+  const rpxProvision =
+    compute.proxy?.engine === 'rpx'
+      ? buildRpxProvisionScript({
+          proxy: compute.proxy,
+          config: buildRpxConfig(config.sites ?? {}, { proxy: compute.proxy, slug: config.project.slug }),
+          slug: config.project.slug,
+          bunBin: compute.runtime === 'node' || compute.runtime === 'deno' ? undefined : '/usr/local/bin/bun',
+        })
+      : undefined
+
+  const volume = config.digitalocean?.volume
+  const volumeMount =
+    volume && options.environment
+      ? buildVolumeMountScript({
+          volumeName: digitalOceanVolumeName(config.project.slug, options.environment),
+          mountPath: volume.mountPath ?? `/mnt/${digitalOceanVolumeName(config.project.slug, options.environment)}`,
+          filesystem: volume.filesystem,
+        })
+      : []
+
+  return buildUbuntuBootstrapScript({
+    runtime: provision.runtime,
+    runtimeVersion: provision.runtimeVersion,
+    systemPackages: compute.systemPackages,
+    database: config.infrastructure?.database,
+    phpProvision: provision.phpProvision,
+    servicesProvision: provision.servicesProvision,
+    rpxProvision,
+    baked: compute.bakedImage === true,
+    swapGb: compute.swapGb,
+    storageProvision: volumeMount,
+  })
+}
@@ -0,0 +1,52 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { driverStatePath } from '../hetzner/state'
+
+export interface DigitalOceanDriverState {
+  provider: 'digitalocean'
+  stackName: string
+  /** Absent after teardown (destroyCompute clears it). */
+  dropletId?: number
+  dropletName?: string
+  firewallId?: string
+  /** The droplet's own public IPv4. */
+  publicIp?: string
+  publicIpv6?: string
+  /**
+   * Reserved IP routed to the droplet, when `digitalocean.reservedIp` is set.
+   * Reported as the app's public IP in preference to {@link publicIp}, since
+   * it is the address DNS points at and it survives a droplet replacement.
+   */
+  reservedIp?: string
+  volumeId?: string
+  deployStoragePath?: string
+  sshUser?: string
+}
+
+/**
+ * Read the DigitalOcean state pin for `stackName`.
+ *
+ * State files share the `storage/cloud/state/<stack>.json` convention with the
+ * Hetzner driver (see `../hetzner/state`). A file written by another provider
+ * is not ours to interpret, so it reads as absent rather than as a pin to a
+ * droplet id that happens to be a Hetzner server id.
+ */
+export async function readDigitalOceanState(stackName: string): Promise<DigitalOceanDriverState | null> {
+  try {
+    const raw = await readFile(driverStatePath(stackName), 'utf8')
+    const state = JSON.parse(raw) as { provider?: string }
+    return state.provider === 'digitalocean' ? (state as DigitalOceanDriverState) : null
+  } catch {
+    return null
+  }
+}
+
+export async function writeDigitalOceanState(stackName: string, state: DigitalOceanDriverState): Promise<void> {
+  const path = driverStatePath(stackName)
+  await mkdir(dirname(path), { recursive: true })
+  // Atomic write, for the same reason as the Hetzner state: a torn file would
+  // lose the pinned droplet id and re-provision a duplicate box.
+  const tmp = `${path}.${process.pid}.tmp`
+  await writeFile(tmp, `${JSON.stringify(state, null, 2)}\n`, 'utf8')
+  await rename(tmp, path)
+}
@@ -1,6 +1,7 @@
 import type { CloudConfig, CloudDriver, CloudProviderName } from '@ts-cloud/core'
 import { resolveCloudProvider } from '@ts-cloud/core'
 import { AwsDriver } from './aws/driver'
+import { DigitalOceanDriver } from './digitalocean/driver'
 import { HetznerDriver } from './hetzner/driver'
 import { isBoxMode, LocalBoxDriver } from './local-box/driver'
 
@@ -36,6 +37,14 @@ export function createCloudDriver(options: CreateCloudDriverOptions): CloudDrive
         sshUser: options.config.hetzner?.sshUser,
         location: options.config.hetzner?.location,
       })
+    case 'digitalocean':
+      return new DigitalOceanDriver({
+        apiToken: options.config.digitalocean?.apiToken,
+        sshPrivateKeyPath: options.config.digitalocean?.sshPrivateKeyPath,
+        sshPublicKeyPath: options.config.digitalocean?.sshPublicKeyPath,
+        sshUser: options.config.digitalocean?.sshUser,
+        region: options.config.digitalocean?.region,
+      })
     default:
       throw new Error(`Unknown cloud provider: ${(options.provider ?? resolveCloudProvider(options.config)) as string}`)
   }
@@ -1,5 +1,10 @@
 export * from './factory'
 export { AwsDriver } from './aws/driver'
+export { DigitalOceanDriver } from './digitalocean/driver'
+export type { DigitalOceanDriverOptions } from './digitalocean/driver'
+export { DigitalOceanApiError, DigitalOceanClient } from './digitalocean/client'
+export { resolveDigitalOceanApiToken, resolveDigitalOceanSettings } from './digitalocean/config'
+export { buildDigitalOceanUserData, resolveDigitalOceanDropletSize } from './digitalocean/provision'
 export { HetznerDriver } from './hetzner/driver'
 export { isBoxMode, LocalBoxDriver } from './local-box/driver'
 export { HetznerClient, normalizeSshPublicKey, resolveHetznerApiToken } from './hetzner/client'
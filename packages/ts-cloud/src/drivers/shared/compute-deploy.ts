@@ -66,7 +66,9 @@ export async function deploySiteRelease(
     const hint =
       driver.name === 'aws'
         ? `Stack '${stackName}' has no EC2 instances tagged Project=${slug} Environment=${environment} Role=app, and storage/cloud/state/${stackName}.json pins no live instance. For a shared box, record its instanceId there.`
-        : `No Hetzner servers labeled ts-cloud/project=${slug} ts-cloud/environment=${environment} ts-cloud/role=app, and storage/cloud/state/${stackName}.json pins no live server. For a shared box, record its serverId there.`
+        : driver.name === 'digitalocean'
+          ? `No DigitalOcean droplets tagged ts-cloud:project:${slug} ts-cloud:environment:${environment} ts-cloud:role:app, and storage/cloud/state/${stackName}.json pins no live droplet.`
+          : `No Hetzner servers labeled ts-cloud/project=${slug} ts-cloud/environment=${environment} ts-cloud/role=app, and storage/cloud/state/${stackName}.json pins no live server. For a shared box, record its serverId there.`
     return { success: false, error: hint }
   }
 
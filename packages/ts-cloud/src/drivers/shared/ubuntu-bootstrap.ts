@@ -58,6 +58,14 @@ export interface UbuntuBootstrapOptions {
    * when `/swapfile` is already active. `0` disables. @default 2
    */
   swapGb?: number
+  /**
+   * Shell commands that attach provider block storage (format-on-first-use,
+   * fstab entry, mount), e.g. a DigitalOcean volume. Run right after swap on
+   * cold and baked boots alike — a golden image cannot know the volume — and
+   * before any install, so a service whose data directory lives on the volume
+   * finds it mounted.
+   */
+  storageProvision?: string[]
 }
 
 /**
@@ -75,6 +83,7 @@ export function buildUbuntuBootstrapScript(options: UbuntuBootstrapOptions = {})
     rpxProvision,
     baked = false,
     swapGb = 2,
+    storageProvision,
   } = options
 
   const packages = new Set(systemPackages)
@@ -110,6 +119,12 @@ sysctl -w vm.swappiness=10 >/dev/null
 `
   }
 
+  if (storageProvision && storageProvision.length > 0) {
+    script += `
+${storageProvision.join('\n')}
+`
+  }
+
   // Install-heavy steps — skipped on a baked image (already provisioned).
   if (!baked) {
     script += `
@@ -0,0 +1,493 @@
+import type { AttributeValue } from '../aws/dynamodb'
+import { EmulatorError } from './protocol'
+
+export type Item = Record<string, AttributeValue>
+
+/** A document path such as `#meta.tags[0]`, with names already resolved. */
+export type Path = Array<string | number>
+
+export interface ExpressionInput {
+  ExpressionAttributeNames?: Record<string, string>
+  ExpressionAttributeValues?: Record<string, AttributeValue>
+}
+
+type Operand =
+  | { kind: 'path'; path: Path }
+  | { kind: 'value'; value: AttributeValue }
+  | { kind: 'size'; path: Path }
+  | { kind: 'if_not_exists'; path: Path; fallback: Operand }
+  | { kind: 'list_append'; left: Operand; right: Operand }
+  | { kind: 'arithmetic'; operator: '+' | '-'; left: Operand; right: Operand }
+
+type Condition =
+  | { kind: 'and' | 'or'; left: Condition; right: Condition }
+  | { kind: 'not'; condition: Condition }
+  | { kind: 'compare'; operator: string; left: Operand; right: Operand }
+  | { kind: 'between'; value: Operand; low: Operand; high: Operand }
+  | { kind: 'in'; value: Operand; options: Operand[] }
+  | { kind: 'function'; name: string; path: Path; argument?: Operand }
+
+export interface UpdateActions {
+  set: Array<{ path: Path; value: Operand }>
+  remove: Path[]
+  add: Array<{ path: Path; value: AttributeValue }>
+  delete: Array<{ path: Path; value: AttributeValue }>
+}
+
+function validation(message: string): EmulatorError {
+  return new EmulatorError('ValidationException', message)
+}
+
+const TOKEN = /\s*(#[\w]+|:[\w]+|[A-Za-z_][\w]*|\d+|<>|<=|>=|[=<>(),.[\]+-])/y
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = []
+  TOKEN.lastIndex = 0
+  while (TOKEN.lastIndex < expression.length) {
+    if (!expression.slice(TOKEN.lastIndex).trim()) break
+    const start = TOKEN.lastIndex
+    const match = TOKEN.exec(expression)
+    if (!match) throw validation(`Invalid expression: unexpected token near "${expression.slice(start, start + 10)}"`)
+    tokens.push(match[1])
+  }
+  return tokens
+}
+
+class ExpressionParser {
+  private position = 0
+  private readonly tokens: string[]
+
+  constructor(
+    private readonly expression: string,
+    private readonly input: ExpressionInput,
+  ) {
+    this.tokens = tokenize(expression)
+  }
+
+  get done(): boolean {
+    return this.position >= this.tokens.length
+  }
+
+  peek(offset = 0): string | undefined {
+    return this.tokens[this.position + offset]
+  }
+
+  keyword(word: string): boolean {
+    if (this.peek()?.toUpperCase() !== word) return false
+    this.position++
+    return true
+  }
+
+  expect(token: string): void {
+    if (this.peek()?.toUpperCase() !== token.toUpperCase())
+      throw validation(`Invalid expression "${this.expression}": expected "${token}", found "${this.peek() ?? 'end'}"`)
+    this.position++
+  }
+
+  end(): void {
+    if (!this.done) throw validation(`Invalid expression "${this.expression}": unexpected "${this.peek()}"`)
+  }
+
+  name(token: string): string {
+    if (!token.startsWith('#')) return token
+    const name = this.input.ExpressionAttributeNames?.[token]
+    if (name === undefined)
+      throw validation(`An expression attribute name used in the document path is not defined: ${token}`)
+    return name
+  }
+
+  path(): Path {
+    const first = this.peek()
+    if (!first || !/^[#A-Za-z_]/.test(first))
+      throw validation(`Invalid expression "${this.expression}": expected a path`)
+    this.position++
+    const path: Path = [this.name(first)]
+    while (this.peek() === '.' || this.peek() === '[') {
+      if (this.keyword('.')) {
+        path.push(this.name(this.peek() ?? ''))
+        this.position++
+      } else {
+        this.expect('[')
+        path.push(Number(this.peek()))
+        this.position++
+        this.expect(']')
+      }
+    }
+    return path
+  }
+
+  value(): AttributeValue {
+    const token = this.peek()!
+    this.position++
+    const value = this.input.ExpressionAttributeValues?.[token]
+    if (value === undefined)
+      throw validation(`An expression attribute value used in expression is not defined: ${token}`)
+    return value
+  }
+
+  operand(allowArithmetic = false): Operand {
+    const token = this.peek()
+    let operand: Operand
+    if (token?.startsWith(':')) {
+      operand = { kind: 'value', value: this.value() }
+    } else if (token && this.peek(1) === '(' && ['size', 'if_not_exists', 'list_append'].includes(token)) {
+      this.position += 2
+      if (token === 'size') operand = { kind: 'size', path: this.path() }
+      else if (token === 'if_not_exists') {
+        const path = this.path()
+        this.expect(',')
+        operand = { kind: 'if_not_exists', path, fallback: this.operand() }
+      } else {
+        const left = this.operand()
+        this.expect(',')
+        operand = { kind: 'list_append', left, right: this.operand() }
+      }
+      this.expect(')')
+    } else {
+      operand = { kind: 'path', path: this.path() }
+    }
+    if (allowArithmetic && (this.peek() === '+' || this.peek() === '-')) {
+      const operator = this.peek() as '+' | '-'
+      this.position++
+      return { kind: 'arithmetic', operator, left: operand, right: this.operand() }
+    }
+    return operand
+  }
+
+  condition(): Condition {
+    let left = this.conjunction()
+    while (this.keyword('OR')) left = { kind: 'or', left, right: this.conjunction() }
+    return left
+  }
+
+  private conjunction(): Condition {
+    let left = this.negation()
+    while (this.keyword('AND')) left = { kind: 'and', left, right: this.negation() }
+    return left
+  }
+
+  private negation(): Condition {
+    if (this.keyword('NOT')) return { kind: 'not', condition: this.negation() }
+    return this.comparison()
+  }
+
+  private comparison(): Condition {
+    if (this.keyword('(')) {
+      const condition = this.condition()
+      this.expect(')')
+      return condition
+    }
+    const token = this.peek()
+    const functions = ['attribute_exists', 'attribute_not_exists', 'attribute_type', 'begins_with', 'contains']
+    if (token && functions.includes(token) && this.peek(1) === '(') {
+      this.position += 2
+      const path = this.path()
+      let argument: Operand | undefined
+      if (this.keyword(',')) argument = this.operand()
+      this.expect(')')
+      return { kind: 'function', name: token, path, argument }
+    }
+    const value = this.operand()
+    if (this.keyword('BETWEEN')) {
+      const low = this.operand()
+      this.expect('AND')
+      return { kind: 'between', value, low, high: this.operand() }
+    }
+    if (this.keyword('IN')) {
+      this.expect('(')
+      const options = [this.operand()]
+      while (this.keyword(',')) options.push(this.operand())
+      this.expect(')')
+      return { kind: 'in', value, options }
+    }
+    const operator = this.peek()
+    if (!operator || !['=', '<>', '<', '<=', '>', '>='].includes(operator))
+      throw validation(`Invalid expression "${this.expression}": expected a comparison, found "${operator ?? 'end'}"`)
+    this.position++
+    return { kind: 'compare', operator, left: value, right: this.operand() }
+  }
+}
+
+export function getPath(item: Item, path: Path): AttributeValue | undefined {
+  let current: AttributeValue | undefined = { M: item }
+  for (const segment of path) {
+    if (typeof segment === 'number') current = current?.L?.[segment]
+    else current = current?.M?.[segment]
+    if (current === undefined) return undefined
+  }
+  return current
+}
+
+function setPath(item: Item, path: Path, value: AttributeValue, create = false): void {
+  let container: AttributeValue = { M: item }
+  for (const [index, segment] of path.entries()) {
+    const last = index === path.length - 1
+    if (typeof segment === 'number') {
+      if (!container.L) throw validation('The document path provided in the update expression is invalid for update')
+      if (last) {
+        if (segment >= container.L.length) container.L.push(value)
+        else container.L[segment] = value
+        return
+      }
+      container = container.L[segment]
+    } else {
+      if (!container.M) throw validation('The document path provided in the update expression is invalid for update')
+      if (last) {
+        container.M[segment] = value
+        return
+      }
+      if (!container.M[segment] && create)
+        container.M[segment] = typeof path[index + 1] === 'number' ? { L: [] } : { M: {} }
+      container = container.M[segment]
+    }
+    if (!container) throw validation('The document path provided in the update expression is invalid for update')
+  }
+}
+
+/**
+ * Orders paths so that, among siblings, higher list indexes come first. DynamoDB resolves
+ * every REMOVE against the item as it was, so `REMOVE a[0], a[1]` drops the first two
+ * elements; removing from the highest index down keeps the lower indexes pointing at them.
+ */
+function byDescendingPath(left: Path, right: Path): number {
+  for (let index = 0; index < Math.min(left.length, right.length); index++) {
+    const a = left[index],
+      b = right[index]
+    if (a === b) continue
+    if (typeof a === 'number' && typeof b === 'number') return b - a
+    return String(b).localeCompare(String(a))
+  }
+  return right.length - left.length
+}
+
+function removePath(item: Item, path: Path): void {
+  const parent = path.length === 1 ? { M: item } : getPath(item, path.slice(0, -1))
+  const segment = path.at(-1)!
+  if (typeof segment === 'number') parent?.L?.splice(segment, 1)
+  else if (parent?.M) delete parent.M[segment]
+}
+
+function typeOf(value: AttributeValue): string {
+  return Object.keys(value)[0]
+}
+
+function normalize(value: AttributeValue): unknown {
+  const type = typeOf(value)
+  const raw = (value as Record<string, any>)[type]
+  if (type === 'N') return Number(raw)
+  if (type === 'NS') return [...raw].map(Number).sort()
+  if (type === 'SS' || type === 'BS') return [...raw].sort()
+  if (type === 'L') return raw.map(normalize)
+  if (type === 'M')
+    return Object.fromEntries(
+      Object.entries(raw)
+        .sort(([a], [b]) => (a < b ? -1 : 1))
+        .map(([key, child]) => [key, normalize(child as AttributeValue)]),
+    )
+  return raw
+}
+
+export function valuesEqual(a: AttributeValue | undefined, b: AttributeValue | undefined): boolean {
+  if (!a || !b) return false
+  return typeOf(a) === typeOf(b) && JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
+}
+
+/** Order two scalar values of the same type; undefined when they cannot be compared. */
+export function compareValues(a: AttributeValue | undefined, b: AttributeValue | undefined): number | undefined {
+  if (!a || !b || typeOf(a) !== typeOf(b)) return undefined
+  if (a.N !== undefined) return Number(a.N) - Number(b.N)
+  const left = a.S ?? a.B
+  const right = b.S ?? b.B
+  if (left === undefined || right === undefined) return undefined
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+function resolve(operand: Operand, item: Item): AttributeValue | undefined {
+  switch (operand.kind) {
+    case 'value':
+      return operand.value
+    case 'path':
+      return getPath(item, operand.path)
+    case 'size': {
+      const value = getPath(item, operand.path)
+      if (!value) return undefined
+      const size =
+        value.S !== undefined
+          ? new TextEncoder().encode(value.S).byteLength
+          : value.B !== undefined
+            ? Buffer.from(value.B, 'base64').byteLength
+            : (value.L ?? value.SS ?? value.NS ?? value.BS ?? Object.keys(value.M ?? {})).length
+      return { N: String(size) }
+    }
+    case 'if_not_exists':
+      return getPath(item, operand.path) ?? resolve(operand.fallback, item)
+    case 'list_append': {
+      const left = resolve(operand.left, item)
+      const right = resolve(operand.right, item)
+      if (!left?.L || !right?.L) throw validation('An operand in the update expression has an incorrect data type')
+      return { L: [...left.L, ...right.L] }
+    }
+    case 'arithmetic': {
+      const left = resolve(operand.left, item)
+      const right = resolve(operand.right, item)
+      if (left?.N === undefined || right?.N === undefined)
+        throw validation('An operand in the update expression has an incorrect data type')
+      const result = operand.operator === '+' ? Number(left.N) + Number(right.N) : Number(left.N) - Number(right.N)
+      return { N: String(result) }
+    }
+  }
+}
+
+function evaluate(condition: Condition, item: Item): boolean {
+  switch (condition.kind) {
+    case 'and':
+      return evaluate(condition.left, item) && evaluate(condition.right, item)
+    case 'or':
+      return evaluate(condition.left, item) || evaluate(condition.right, item)
+    case 'not':
+      return !evaluate(condition.condition, item)
+    case 'between': {
+      const value = resolve(condition.value, item)
+      const low = compareValues(value, resolve(condition.low, item))
+      const high = compareValues(value, resolve(condition.high, item))
+      return low !== undefined && high !== undefined && low >= 0 && high <= 0
+    }
+    case 'in': {
+      const value = resolve(condition.value, item)
+      return condition.options.some((option) => valuesEqual(value, resolve(option, item)))
+    }
+    case 'compare': {
+      const left = resolve(condition.left, item)
+      const right = resolve(condition.right, item)
+      if (condition.operator === '=') return valuesEqual(left, right)
+      if (condition.operator === '<>') return !!left && !!right && !valuesEqual(left, right)
+      const order = compareValues(left, right)
+      if (order === undefined) return false
+      const results: Record<string, boolean> = { '<': order < 0, '<=': order <= 0, '>': order > 0, '>=': order >= 0 }
+      return results[condition.operator] ?? false
+    }
+    case 'function': {
+      const value = getPath(item, condition.path)
+      const argument = condition.argument ? resolve(condition.argument, item) : undefined
+      switch (condition.name) {
+        case 'attribute_exists':
+          return value !== undefined
+        case 'attribute_not_exists':
+          return value === undefined
+        case 'attribute_type':
+          return !!value && typeOf(value) === argument?.S
+        case 'begins_with': {
+          const prefix = argument?.S ?? argument?.B
+          const text = value?.S ?? value?.B
+          return prefix !== undefined && text !== undefined && text.startsWith(prefix)
+        }
+        case 'contains': {
+          if (!value || !argument) return false
+          if (value.S !== undefined) return argument.S !== undefined && value.S.includes(argument.S)
+          if (value.SS) return argument.S !== undefined && value.SS.includes(argument.S)
+          if (value.NS) return argument.N !== undefined && value.NS.map(Number).includes(Number(argument.N))
+          if (value.L) return value.L.some((element) => valuesEqual(element, argument))
+          return false
+        }
+      }
+    }
+  }
+  return false
+}
+
+/** Evaluate a condition, filter or key condition expression against an item. */
+export function matchesCondition(expression: string | undefined, item: Item, input: ExpressionInput): boolean {
+  if (!expression) return true
+  const parser = new ExpressionParser(expression, input)
+  const condition = parser.condition()
+  parser.end()
+  return evaluate(condition, item)
+}
+
+/** Paths of a projection expression, e.g. `id, #meta.tags[0]`. */
+export function parseProjection(expression: string, input: ExpressionInput): Path[] {
+  const parser = new ExpressionParser(expression, input)
+  const paths = [parser.path()]
+  while (parser.keyword(',')) paths.push(parser.path())
+  parser.end()
+  return paths
+}
+
+export function project(item: Item, paths: Path[] | undefined): Item {
+  if (!paths) return item
+  const result: Item = {}
+  for (const path of paths) {
+    const value = getPath(item, path)
+    if (value !== undefined) setPath(result, path, structuredClone(value), true)
+  }
+  return result
+}
+
+export function parseUpdate(expression: string, input: ExpressionInput): UpdateActions {
+  const parser = new ExpressionParser(expression, input)
+  const actions: UpdateActions = { set: [], remove: [], add: [], delete: [] }
+  while (!parser.done) {
+    const clause = parser.peek()?.toUpperCase()
+    if (!clause || !['SET', 'REMOVE', 'ADD', 'DELETE'].includes(clause))
+      throw validation(`Invalid UpdateExpression: unexpected "${parser.peek()}"`)
+    parser.keyword(clause)
+    do {
+      const path = parser.path()
+      if (clause === 'SET') {
+        parser.expect('=')
+        actions.set.push({ path, value: parser.operand(true) })
+      } else if (clause === 'REMOVE') {
+        actions.remove.push(path)
+      } else {
+        actions[clause === 'ADD' ? 'add' : 'delete'].push({ path, value: parser.value() })
+      }
+    } while (parser.keyword(','))
+  }
+  return actions
+}
+
+/** Apply update actions to a copy of the item. */
+export function applyUpdate(item: Item, actions: UpdateActions): Item {
+  const updated = structuredClone(item)
+  // Every SET value is computed from the item as it was before the update
+  const values = actions.set.map(({ path, value }) => ({ path, value: resolve(value, item) }))
+  for (const { path, value } of values) {
+    if (!value) throw validation('The provided expression refers to an attribute that does not exist in the item')
+    setPath(updated, path, value)
+  }
+  for (const path of [...actions.remove].sort(byDescendingPath)) removePath(updated, path)
+  for (const { path, value } of actions.add) {
+    const current = getPath(updated, path)
+    if (value.N !== undefined) {
+      if (current && current.N === undefined)
+        throw validation('An operand in the update expression has an incorrect data type')
+      setPath(updated, path, { N: String(Number(current?.N ?? 0) + Number(value.N)) })
+    } else {
+      const type = typeOf(value) as 'SS' | 'NS' | 'BS'
+      if (!['SS', 'NS', 'BS'].includes(type) || (current && !current[type]))
+        throw validation('An operand in the update expression has an incorrect data type')
+      setPath(updated, path, { [type]: [...new Set([...(current?.[type] ?? []), ...value[type]!])] } as AttributeValue)
+    }
+  }
+  for (const { path, value } of actions.delete) {
+    const current = getPath(updated, path)
+    const type = typeOf(value) as 'SS' | 'NS' | 'BS'
+    if (!current) continue
+    if (!current[type]) throw validation('An operand in the update expression has an incorrect data type')
+    const remaining = current[type]!.filter((element) => !value[type]!.includes(element))
+    if (remaining.length) setPath(updated, path, { [type]: remaining } as AttributeValue)
+    else removePath(updated, path)
+  }
+  return updated
+}
+
+/** Top-level attributes an update writes, for `ReturnValues: UPDATED_*`. */
+export function updatedAttributes(actions: UpdateActions): string[] {
+  const paths = [
+    ...actions.set.map(({ path }) => path),
+    ...actions.remove,
+    ...actions.add.map(({ path }) => path),
+    ...actions.delete.map(({ path }) => path),
+  ]
+  return [...new Set(paths.map((path) => String(path[0])))]
+}
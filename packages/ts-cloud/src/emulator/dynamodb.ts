@@ -0,0 +1,390 @@
+import type { AttributeDefinition, AttributeValue, KeySchemaElement } from '../aws/dynamodb'
+import type { ExpressionInput, Item, Path } from './dynamodb-expressions'
+import type { EmulatorRequest } from './protocol'
+import type { EmulatorStore } from './store'
+import {
+  applyUpdate,
+  compareValues,
+  matchesCondition,
+  parseProjection,
+  parseUpdate,
+  project,
+  updatedAttributes,
+} from './dynamodb-expressions'
+import { EMULATOR_ACCOUNT_ID, EmulatorError, jsonResponse, notEmulated, requestJson } from './protocol'
+
+const SERVICE = 'dynamodb'
+
+interface IndexDefinition {
+  IndexName: string
+  KeySchema: KeySchemaElement[]
+  Projection: { ProjectionType: 'ALL' | 'KEYS_ONLY' | 'INCLUDE'; NonKeyAttributes?: string[] }
+  ProvisionedThroughput?: { ReadCapacityUnits: number; WriteCapacityUnits: number }
+}
+
+export interface TableDefinition {
+  TableName: string
+  KeySchema: KeySchemaElement[]
+  AttributeDefinitions: AttributeDefinition[]
+  GlobalSecondaryIndexes?: IndexDefinition[]
+  LocalSecondaryIndexes?: IndexDefinition[]
+  BillingMode?: 'PROVISIONED' | 'PAY_PER_REQUEST'
+  ProvisionedThroughput?: { ReadCapacityUnits: number; WriteCapacityUnits: number }
+  StreamSpecification?: { StreamEnabled: boolean; StreamViewType?: string }
+  Tags?: Array<{ Key: string; Value: string }>
+}
+
+interface TableData extends TableDefinition {
+  region: string
+  createdAt: number
+  timeToLive?: { AttributeName: string; Enabled: boolean }
+}
+
+function notFound(): EmulatorError {
+  return new EmulatorError('ResourceNotFoundException', 'Requested resource not found')
+}
+
+function validation(message: string): EmulatorError {
+  return new EmulatorError('ValidationException', message)
+}
+
+function requireTable(store: EmulatorStore, name: string | undefined): TableData {
+  const record = name ? store.get<TableData>(SERVICE, 'table', name) : undefined
+  if (!record) throw notFound()
+  return record.data
+}
+
+function tableArn(table: TableData): string {
+  return `arn:aws:dynamodb:${table.region}:${EMULATOR_ACCOUNT_ID}:table/${table.TableName}`
+}
+
+function attributeType(table: TableData, name: string): string | undefined {
+  return table.AttributeDefinitions.find((definition) => definition.AttributeName === name)?.AttributeType
+}
+
+/** Storage ID of an item: its key values in key-schema order. */
+function itemId(table: TableData, key: Item): string {
+  if (Object.keys(key).length !== table.KeySchema.length)
+    throw validation('The provided key element does not match the schema')
+  return JSON.stringify(
+    table.KeySchema.map(({ AttributeName }) => {
+      const value = key[AttributeName]
+      const type = attributeType(table, AttributeName)!
+      if (!value || (value as Record<string, unknown>)[type] === undefined)
+        throw validation('The provided key element does not match the schema')
+      return (value as Record<string, unknown>)[type]
+    }),
+  )
+}
+
+function keyOf(schema: KeySchemaElement[], item: Item): Item {
+  return Object.fromEntries(schema.map(({ AttributeName }) => [AttributeName, item[AttributeName]]))
+}
+
+function validateItem(table: TableData, item: Item): void {
+  itemId(table, keyOf(table.KeySchema, item))
+  for (const index of [...(table.GlobalSecondaryIndexes ?? []), ...(table.LocalSecondaryIndexes ?? [])]) {
+    for (const { AttributeName } of index.KeySchema) {
+      const value = item[AttributeName]
+      const type = attributeType(table, AttributeName)!
+      if (value && (value as Record<string, unknown>)[type] === undefined)
+        throw validation(
+          `One or more parameter values were invalid: Type mismatch for Index Key ${AttributeName} ` +
+            `Expected: ${type} Actual: ${Object.keys(value)[0]} IndexName: ${index.IndexName}`,
+        )
+    }
+  }
+}
+
+function describeTable(store: EmulatorStore, table: TableData, status = 'ACTIVE'): Record<string, any> {
+  const items = store.list(SERVICE, `item:${table.TableName}`)
+  const arn = tableArn(table)
+  const index = (definition: IndexDefinition) => ({
+    ...definition,
+    IndexStatus: 'ACTIVE',
+    IndexArn: `${arn}/index/${definition.IndexName}`,
+    ItemCount: items.length,
+    IndexSizeBytes: 0,
+  })
+  return {
+    TableName: table.TableName,
+    TableStatus: status,
+    TableArn: arn,
+    TableId: arn,
+    ItemCount: items.length,
+    TableSizeBytes: items.reduce((size, { data }) => size + JSON.stringify(data).length, 0),
+    CreationDateTime: table.createdAt / 1000,
+    KeySchema: table.KeySchema,
+    AttributeDefinitions: table.AttributeDefinitions,
+    BillingModeSummary: { BillingMode: table.BillingMode ?? 'PROVISIONED' },
+    ProvisionedThroughput: { ReadCapacityUnits: 0, WriteCapacityUnits: 0, ...table.ProvisionedThroughput },
+    GlobalSecondaryIndexes: table.GlobalSecondaryIndexes?.map(index),
+    LocalSecondaryIndexes: table.LocalSecondaryIndexes?.map(index),
+    StreamSpecification: table.StreamSpecification,
+  }
+}
+
+/** Create a table, or do nothing when one with the name exists. */
+export function ensureTable(store: EmulatorStore, definition: TableDefinition, region: string): void {
+  if (store.get(SERVICE, 'table', definition.TableName)) return
+  if (!definition.KeySchema?.some(({ KeyType }) => KeyType === 'HASH'))
+    throw validation('One or more parameter values were invalid: Missing the key HASH in the KeySchema')
+  const indexes = [...(definition.GlobalSecondaryIndexes ?? []), ...(definition.LocalSecondaryIndexes ?? [])]
+  for (const { AttributeName } of [...definition.KeySchema, ...indexes.flatMap((index) => index.KeySchema)]) {
+    if (!definition.AttributeDefinitions?.some((attribute) => attribute.AttributeName === AttributeName))
+      throw validation(
+        `One or more parameter values were invalid: Some index key attributes are not defined in AttributeDefinitions`,
+      )
+  }
+  const table: TableData = { ...definition, region, createdAt: Date.now() }
+  store.put(SERVICE, 'table', table.TableName, table)
+}
+
+function projection(input: ExpressionInput & { ProjectionExpression?: string; AttributesToGet?: string[] }) {
+  if (input.ProjectionExpression) return parseProjection(input.ProjectionExpression, input)
+  return input.AttributesToGet?.map((name): Path => [name])
+}
+
+function checkCondition(input: ExpressionInput & { ConditionExpression?: string }, item: Item | undefined): void {
+  if (!matchesCondition(input.ConditionExpression, item ?? {}, input))
+    throw new EmulatorError('ConditionalCheckFailedException', 'The conditional request failed')
+}
+
+function getItem(store: EmulatorStore, table: TableData, key: Item): Item | undefined {
+  return store.get<Item>(SERVICE, `item:${table.TableName}`, itemId(table, key))?.data
+}
+
+function putItem(store: EmulatorStore, input: Record<string, any>): Record<string, any> {
+  const table = requireTable(store, input.TableName)
+  const item = input.Item as Item
+  validateItem(table, item)
+  const id = itemId(table, keyOf(table.KeySchema, item))
+  const existing = store.get<Item>(SERVICE, `item:${table.TableName}`, id)?.data
+  checkCondition(input, existing)
+  store.put(SERVICE, `item:${table.TableName}`, id, item)
+  return input.ReturnValues === 'ALL_OLD' && existing ? { Attributes: existing } : {}
+}
+
+function deleteItem(store: EmulatorStore, input: Record<string, any>): Record<string, any> {
+  const table = requireTable(store, input.TableName)
+  const id = itemId(table, input.Key)
+  const existing = store.get<Item>(SERVICE, `item:${table.TableName}`, id)?.data
+  checkCondition(input, existing)
+  store.delete(SERVICE, `item:${table.TableName}`, id)
+  return input.ReturnValues === 'ALL_OLD' && existing ? { Attributes: existing } : {}
+}
+
+function updateItem(store: EmulatorStore, input: Record<string, any>): Record<string, any> {
+  const table = requireTable(store, input.TableName)
+  const id = itemId(table, input.Key)
+  const existing = store.get<Item>(SERVICE, `item:${table.TableName}`, id)?.data
+  checkCondition(input, existing)
+  if (!input.UpdateExpression) {
+    if (input.AttributeUpdates) throw notEmulated('DynamoDB', 'UpdateItem with AttributeUpdates')
+    throw validation('UpdateItem requires an UpdateExpression')
+  }
+  const actions = parseUpdate(input.UpdateExpression, input)
+  const names = updatedAttributes(actions)
+  if (names.some((name) => table.KeySchema.some(({ AttributeName }) => AttributeName === name)))
+    throw validation(
+      'One or more parameter values were invalid: Cannot update attribute. This attribute is part of the key',
+    )
+  const updated = applyUpdate(existing ?? { ...input.Key }, actions)
+  validateItem(table, updated)
+  store.put(SERVICE, `item:${table.TableName}`, id, updated)
+
+  const pick = (item: Item | undefined) =>
+    item && Object.fromEntries(Object.entries(item).filter(([name]) => names.includes(name)))
+  switch (input.ReturnValues) {
+    case 'ALL_OLD':
+      return existing ? { Attributes: existing } : {}
+    case 'ALL_NEW':
+      return { Attributes: updated }
+    case 'UPDATED_OLD':
+      return existing ? { Attributes: pick(existing) } : {}
+    case 'UPDATED_NEW':
+      return { Attributes: pick(updated) }
+  }
+  return {}
+}
+
+/** Key schema and projection of the table, or of the index a Query or Scan names. */
+function target(table: TableData, indexName?: string): { schema: KeySchemaElement[]; index?: IndexDefinition } {
+  if (!indexName) return { schema: table.KeySchema }
+  const index = [...(table.GlobalSecondaryIndexes ?? []), ...(table.LocalSecondaryIndexes ?? [])].find(
+    (definition) => definition.IndexName === indexName,
+  )
+  if (!index) throw validation(`The table does not have the specified index: ${indexName}`)
+  return { schema: index.KeySchema, index }
+}
+
+function indexProjection(table: TableData, index: IndexDefinition | undefined, item: Item): Item {
+  if (!index || index.Projection.ProjectionType === 'ALL') return item
+  const names = new Set([
+    ...table.KeySchema.map(({ AttributeName }) => AttributeName),
+    ...index.KeySchema.map(({ AttributeName }) => AttributeName),
+    ...(index.Projection.ProjectionType === 'INCLUDE' ? (index.Projection.NonKeyAttributes ?? []) : []),
+  ])
+  return Object.fromEntries(Object.entries(item).filter(([name]) => names.has(name)))
+}
+
+/**
+ * Query and Scan: read items in key order, then apply the limit, filter and projection the way DynamoDB
+ * does. `Limit` counts items read before the filter.
+ */
+function read(store: EmulatorStore, input: Record<string, any>, query: boolean): Record<string, any> {
+  const table = requireTable(store, input.TableName)
+  const { schema, index } = target(table, input.IndexName)
+  const hash = schema.find(({ KeyType }) => KeyType === 'HASH')!.AttributeName
+  const range = schema.find(({ KeyType }) => KeyType === 'RANGE')?.AttributeName
+
+  let items = store
+    .list<Item>(SERVICE, `item:${table.TableName}`)
+    .map(({ data }) => data)
+    .filter((item) => schema.every(({ AttributeName }) => item[AttributeName] !== undefined))
+
+  if (query) {
+    if (!input.KeyConditionExpression) throw validation('Query requires a KeyConditionExpression')
+    items = items.filter((item) => matchesCondition(input.KeyConditionExpression, item, input))
+    if (items.some((item) => JSON.stringify(item[hash]) !== JSON.stringify(items[0][hash])))
+      throw validation('Query key condition must specify an equality condition on the partition key')
+    if (range) items.sort((a, b) => compareValues(a[range], b[range]) ?? 0)
+    if (input.ScanIndexForward === false) items.reverse()
+  } else if (input.TotalSegments) {
+    items = items.filter((item) => segmentOf(JSON.stringify(item[hash]), input.TotalSegments) === input.Segment)
+  }
+
+  const keySchema = [...table.KeySchema, ...(index ? index.KeySchema : [])]
+  if (input.ExclusiveStartKey) {
+    const start = JSON.stringify(keyOf(table.KeySchema, input.ExclusiveStartKey))
+    const position = items.findIndex((item) => JSON.stringify(keyOf(table.KeySchema, item)) === start)
+    items = position === -1 ? [] : items.slice(position + 1)
+  }
+  let lastEvaluatedKey: Item | undefined
+  if (input.Limit && items.length > input.Limit) {
+    items = items.slice(0, input.Limit)
+    lastEvaluatedKey = keyOf(keySchema, items.at(-1)!)
+  }
+
+  const scannedCount = items.length
+  const paths = projection(input)
+  const matched = items
+    .filter((item) => matchesCondition(input.FilterExpression, item, input))
+    .map((item) => project(indexProjection(table, index, item), paths))
+  return {
+    ...(input.Select === 'COUNT' ? {} : { Items: matched }),
+    Count: matched.length,
+    ScannedCount: scannedCount,
+    ...(lastEvaluatedKey ? { LastEvaluatedKey: lastEvaluatedKey } : {}),
+  }
+}
+
+function segmentOf(value: string, segments: number): number {
+  let hash = 0
+  for (const char of value) hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+  return hash % segments
+}
+
+function execute(store: EmulatorStore, request: EmulatorRequest, action: string, input: Record<string, any>) {
+  switch (action) {
+    case 'CreateTable': {
+      if (store.get(SERVICE, 'table', input.TableName))
+        throw new EmulatorError('ResourceInUseException', `Table already exists: ${input.TableName}`)
+      ensureTable(store, input as TableDefinition, request.region)
+      return { TableDescription: describeTable(store, requireTable(store, input.TableName)) }
+    }
+    case 'DescribeTable':
+      return { Table: describeTable(store, requireTable(store, input.TableName)) }
+    case 'ListTables': {
+      const names = store.list(SERVICE, 'table').map(({ id }) => id)
+      const start = input.ExclusiveStartTableName ? names.filter((name) => name > input.ExclusiveStartTableName) : names
+      const page = start.slice(0, input.Limit ?? 100)
+      return {
+        TableNames: page,
+        ...(page.length < start.length ? { LastEvaluatedTableName: page.at(-1) } : {}),
+      }
+    }
+    case 'DeleteTable': {
+      const table = requireTable(store, input.TableName)
+      const description = describeTable(store, table, 'DELETING')
+      store.transaction(() => {
+        store.clear(SERVICE, `item:${table.TableName}`)
+        store.delete(SERVICE, 'table', table.TableName)
+      })
+      return { TableDescription: description }
+    }
+    case 'UpdateTimeToLive': {
+      const table = requireTable(store, input.TableName)
+      store.put(SERVICE, 'table', table.TableName, { ...table, timeToLive: input.TimeToLiveSpecification })
+      return { TimeToLiveSpecification: input.TimeToLiveSpecification }
+    }
+    case 'DescribeTimeToLive': {
+      const table = requireTable(store, input.TableName)
+      return {
+        TimeToLiveDescription: table.timeToLive?.Enabled
+          ? { TimeToLiveStatus: 'ENABLED', AttributeName: table.timeToLive.AttributeName }
+          : { TimeToLiveStatus: 'DISABLED' },
+      }
+    }
+    case 'PutItem':
+      return putItem(store, input)
+    case 'GetItem': {
+      const table = requireTable(store, input.TableName)
+      const item = getItem(store, table, input.Key)
+      return item ? { Item: project(item, projection(input)) } : {}
+    }
+    case 'UpdateItem':
+      return updateItem(store, input)
+    case 'DeleteItem':
+      return deleteItem(store, input)
+    case 'Query':
+      return read(store, input, true)
+    case 'Scan':
+      return read(store, input, false)
+    case 'BatchGetItem': {
+      const Responses: Record<string, Item[]> = {}
+      for (const [name, request] of Object.entries(input.RequestItems ?? {}) as Array<[string, any]>) {
+        const table = requireTable(store, name)
+        const paths = projection(request)
+        Responses[name] = (request.Keys as Item[])
+          .map((key) => getItem(store, table, key))
+          .filter((item): item is Item => !!item)
+          .map((item) => project(item, paths))
+      }
+      return { Responses, UnprocessedKeys: {} }
+    }
+    case 'BatchWriteItem': {
+      const requests = Object.entries(input.RequestItems ?? {}) as Array<[string, any[]]>
+      if (requests.reduce((count, [, entries]) => count + entries.length, 0) > 25)
+        throw validation('Too many items requested for the BatchWriteItem call')
+      store.transaction(() => {
+        for (const [TableName, entries] of requests) {
+          for (const entry of entries) {
+            if (entry.PutRequest) putItem(store, { TableName, Item: entry.PutRequest.Item })
+            else if (entry.DeleteRequest) deleteItem(store, { TableName, Key: entry.DeleteRequest.Key })
+          }
+        }
+      })
+      return { UnprocessedItems: {} }
+    }
+    case 'TagResource': {
+      const table = requireTable(store, String(input.ResourceArn).split('/').at(-1))
+      const keys = new Set((input.Tags as Array<{ Key: string }>).map((tag) => tag.Key))
+      const tags = [...(table.Tags ?? []).filter((tag) => !keys.has(tag.Key)), ...input.Tags]
+      store.put(SERVICE, 'table', table.TableName, { ...table, Tags: tags })
+      return {}
+    }
+    case 'ListTagsOfResource':
+      return { Tags: requireTable(store, String(input.ResourceArn).split('/').at(-1)).Tags ?? [] }
+  }
+  throw notEmulated('DynamoDB', action)
+}
+
+/**
+ * DynamoDB JSON protocol: `X-Amz-Target: DynamoDB_20120810.<Action>`
+ */
+export function handleDynamoDB(store: EmulatorStore, request: EmulatorRequest): Response {
+  const target = request.headers.get('x-amz-target') ?? ''
+  const action = target.slice(target.indexOf('.') + 1)
+  return jsonResponse(execute(store, request, action, requestJson(request)))
+}
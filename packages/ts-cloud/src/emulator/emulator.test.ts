@@ -0,0 +1,237 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { LocalEmulator } from './server'
+import { DynamoDBClient } from '../aws/dynamodb'
+import { S3Client } from '../aws/s3'
+import { SecretsManagerClient } from '../aws/secrets-manager'
+import { SESClient } from '../aws/ses'
+import { SQSClient } from '../aws/sqs'
+import { provisionFromTemplate } from './provision'
+import { emulatorEnvironment, startLocalEmulator } from './server'
+import { listSentEmails } from './sesv2'
+import { EmulatorStore } from './store'
+
+const dataDir = mkdtempSync(join(tmpdir(), 'ts-cloud-emulator-'))
+const previousEnv: Record<string, string | undefined> = {}
+let emulator: LocalEmulator
+
+function start(): void {
+  emulator = startLocalEmulator({ port: 0, dataDir })
+  for (const [name, value] of Object.entries(emulatorEnvironment(emulator.url))) {
+    if (!(name in previousEnv)) previousEnv[name] = process.env[name]
+    process.env[name] = value
+  }
+}
+
+beforeAll(start)
+
+afterAll(async () => {
+  await emulator.stop()
+  for (const [name, value] of Object.entries(previousEnv)) {
+    if (value === undefined) delete process.env[name]
+    else process.env[name] = value
+  }
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('local emulator', () => {
+  it('serves S3 objects, listings and multipart uploads to S3Client', async () => {
+    const s3 = new S3Client('us-east-1')
+    await s3.createBucket('uploads')
+    await s3.putObject({ bucket: 'uploads', key: 'docs/a.txt', body: 'hello', contentType: 'text/plain' })
+    await s3.putObject({ bucket: 'uploads', key: 'docs/b.txt', body: 'world' })
+
+    expect(await s3.getObject('uploads', 'docs/a.txt')).toBe('hello')
+    expect((await s3.headObject('uploads', 'docs/a.txt'))?.ContentType).toBe('text/plain')
+    expect((await s3.listAllObjects({ bucket: 'uploads', prefix: 'docs/' })).map((o) => o.Key)).toEqual([
+      'docs/a.txt',
+      'docs/b.txt',
+    ])
+
+    const { UploadId } = await s3.createMultipartUpload('uploads', 'big.bin')
+    const part1 = await s3.uploadPart('uploads', 'big.bin', UploadId, 1, new Uint8Array([1, 2, 3]))
+    const part2 = await s3.uploadPart('uploads', 'big.bin', UploadId, 2, new Uint8Array([4, 5]))
+    await s3.completeMultipartUpload('uploads', 'big.bin', UploadId, [
+      { PartNumber: 1, ETag: part1.ETag },
+      { PartNumber: 2, ETag: part2.ETag },
+    ])
+    expect([...(await s3.getObjectBytes('uploads', 'big.bin')).body]).toEqual([1, 2, 3, 4, 5])
+
+    await s3.deleteObject('uploads', 'docs/b.txt')
+    expect(await s3.headObject('uploads', 'docs/b.txt')).toBeNull()
+  })
+
+  it('delivers, hides and dead-letters SQS messages', async () => {
+    const sqs = new SQSClient('us-east-1')
+    const dlq = await sqs.createQueue({ queueName: 'jobs-dlq' })
+    const { Attributes: dlqAttributes } = await sqs.getQueueAttributes(dlq.QueueUrl)
+    const { QueueUrl } = await sqs.createQueue({
+      queueName: 'jobs',
+      deadLetterTargetArn: dlqAttributes.QueueArn,
+      maxReceiveCount: 1,
+    })
+
+    await sqs.sendMessage({ queueUrl: QueueUrl, messageBody: '{"job":1}' })
+    const first = await sqs.receiveMessages({ queueUrl: QueueUrl, visibilityTimeout: 0 })
+    expect(first.Messages.map((message) => message.Body)).toEqual(['{"job":1}'])
+
+    // Received once and not deleted, so the next receive moves it to the dead-letter queue
+    expect((await sqs.receiveMessages({ queueUrl: QueueUrl })).Messages).toEqual([])
+    const dead = await sqs.receiveMessages({ queueUrl: dlq.QueueUrl })
+    expect(dead.Messages.map((message) => message.Body)).toEqual(['{"job":1}'])
+    await sqs.deleteMessage(dlq.QueueUrl, dead.Messages[0].ReceiptHandle)
+    expect((await sqs.getQueueAttributes(dlq.QueueUrl)).Attributes.ApproximateNumberOfMessages).toBe('0')
+  })
+
+  it('evaluates DynamoDB key conditions, conditions and updates', async () => {
+    const dynamo = new DynamoDBClient('us-east-1')
+    await dynamo.createTable({
+      TableName: 'orders',
+      KeySchema: [
+        { AttributeName: 'pk', KeyType: 'HASH' },
+        { AttributeName: 'sk', KeyType: 'RANGE' },
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'pk', AttributeType: 'S' },
+        { AttributeName: 'sk', AttributeType: 'S' },
+      ],
+      BillingMode: 'PAY_PER_REQUEST',
+    })
+    for (const sk of ['order#1', 'order#2', 'profile'])
+      await dynamo.putItem({ TableName: 'orders', Item: { pk: { S: 'user#1' }, sk: { S: sk }, total: { N: '10' } } })
+
+    await expect(
+      dynamo.putItem({
+        TableName: 'orders',
+        Item: { pk: { S: 'user#1' }, sk: { S: 'profile' } },
+        ConditionExpression: 'attribute_not_exists(pk)',
+      }),
+    ).rejects.toThrow(/ConditionalCheckFailedException/)
+
+    await dynamo.updateItem({
+      TableName: 'orders',
+      Key: { pk: { S: 'user#1' }, sk: { S: 'order#2' } },
+      UpdateExpression: 'SET #total = #total + :delta',
+      ExpressionAttributeNames: { '#total': 'total' },
+      ExpressionAttributeValues: { ':delta': { N: '5' } },
+    })
+
+    const result = await dynamo.query({
+      TableName: 'orders',
+      KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
+      ExpressionAttributeValues: { ':pk': { S: 'user#1' }, ':prefix': { S: 'order#' } },
+      ScanIndexForward: false,
+    })
+    expect(result.Items.map((item) => [item.sk.S, item.total.N])).toEqual([
+      ['order#2', '15'],
+      ['order#1', '10'],
+    ])
+  })
+
+  it('removes several indexes of one list as they were before the update', async () => {
+    const dynamo = new DynamoDBClient('us-east-1')
+    await dynamo.createTable({
+      TableName: 'carts',
+      KeySchema: [{ AttributeName: 'pk', KeyType: 'HASH' }],
+      AttributeDefinitions: [{ AttributeName: 'pk', AttributeType: 'S' }],
+      BillingMode: 'PAY_PER_REQUEST',
+    })
+    const items = { L: ['a', 'b', 'c', 'd', 'e'].map((S) => ({ S })) }
+    await dynamo.putItem({ TableName: 'carts', Item: { pk: { S: 'cart#1' }, items, saved: { M: { items } } } })
+
+    await dynamo.updateItem({
+      TableName: 'carts',
+      Key: { pk: { S: 'cart#1' } },
+      UpdateExpression: 'REMOVE #items[0], #items[1], saved.#items[3], saved.#items[1]',
+      ExpressionAttributeNames: { '#items': 'items' },
+    })
+
+    const { Item } = await dynamo.getItem({ TableName: 'carts', Key: { pk: { S: 'cart#1' } } })
+    expect(Item?.items.L?.map((element) => element.S)).toEqual(['c', 'd', 'e'])
+    expect(Item?.saved.M?.items.L?.map((element) => element.S)).toEqual(['a', 'c', 'e'])
+  })
+
+  it('keeps SES v2 mail in the outbox', async () => {
+    const ses = new SESClient('us-east-1')
+    await ses.createEmailIdentity({ EmailIdentity: 'example.com' })
+    expect((await ses.getEmailIdentity('example.com')).VerificationStatus).toBe('SUCCESS')
+
+    const { MessageId } = await ses.sendEmail({
+      FromEmailAddress: 'hello@example.com',
+      Destination: { ToAddresses: ['someone@example.org'] },
+      Content: { Simple: { Subject: { Data: 'Hi' }, Body: { Text: { Data: 'Welcome' } } } },
+    })
+    const sent = listSentEmails(emulator.store).find((email) => email.messageId === MessageId)
+    expect(sent).toMatchObject({ from: 'hello@example.com', to: ['someone@example.org'], subject: 'Hi' })
+  })
+
+  it('versions Secrets Manager values', async () => {
+    const secrets = new SecretsManagerClient('us-east-1')
+    await secrets.createSecret({ Name: 'app/db', SecretString: 'first' })
+    await secrets.putSecretValue({ SecretId: 'app/db', SecretString: 'second' })
+
+    expect((await secrets.getSecretValue({ SecretId: 'app/db' })).SecretString).toBe('second')
+    const previous = await secrets.getSecretValue({ SecretId: 'app/db', VersionStage: 'AWSPREVIOUS' })
+    expect(previous.SecretString).toBe('first')
+  })
+
+  it('returns a NotEmulated error for operations it does not emulate', async () => {
+    const secrets = new SecretsManagerClient('us-east-1')
+    await expect(secrets.rotateSecret({ SecretId: 'app/db' })).rejects.toThrow(/NotEmulated/)
+
+    const response = await fetch(emulator.url, {
+      method: 'POST',
+      headers: { 'X-Amz-Target': 'AWSLambda.Invoke', 'Content-Type': 'application/x-amz-json-1.1' },
+      body: '{}',
+    })
+    expect(response.status).toBe(400)
+    expect(await response.text()).toContain('does not emulate AWSLambda')
+  })
+
+  it('keeps state on disk across restarts', async () => {
+    await emulator.stop()
+    start()
+    expect(await new S3Client('us-east-1').getObject('uploads', 'docs/a.txt')).toBe('hello')
+    expect((await new SecretsManagerClient('us-east-1').getSecretValue({ SecretId: 'app/db' })).SecretString).toBe(
+      'second',
+    )
+  })
+})
+
+describe('provisionFromTemplate', () => {
+  it('creates the emulated resources of a template and skips the rest', () => {
+    const store = new EmulatorStore()
+    const result = provisionFromTemplate(store, {
+      Resources: {
+        Uploads: { Type: 'AWS::S3::Bucket', Properties: { BucketName: { 'Fn::Sub': 'demo-${AWS::Region}' } } },
+        DeadLetters: { Type: 'AWS::SQS::Queue', Properties: { QueueName: 'demo-dlq' } },
+        Jobs: {
+          Type: 'AWS::SQS::Queue',
+          Properties: {
+            QueueName: 'demo-jobs',
+            RedrivePolicy: { deadLetterTargetArn: { 'Fn::GetAtt': ['DeadLetters', 'Arn'] }, maxReceiveCount: 3 },
+          },
+        },
+        Assets: { Type: 'AWS::S3::Bucket', Properties: { BucketName: { Ref: 'AssetsBucketName' } } },
+        Api: { Type: 'AWS::Lambda::Function', Properties: {} },
+      },
+    })
+
+    expect(result.created.map((resource) => resource.name)).toEqual(['demo-us-east-1', 'demo-dlq', 'demo-jobs'])
+    expect(result.skipped).toEqual([
+      {
+        logicalId: 'Assets',
+        type: 'AWS::S3::Bucket',
+        reason: 'uses Ref AssetsBucketName, which cannot be resolved locally',
+      },
+      { logicalId: 'Api', type: 'AWS::Lambda::Function', reason: 'not emulated' },
+    ])
+    const jobs = store.get<{ attributes: Record<string, string> }>('sqs', 'queue', 'demo-jobs')
+    expect(JSON.parse(jobs!.data.attributes.RedrivePolicy).deadLetterTargetArn).toBe(
+      'arn:aws:sqs:us-east-1:000000000000:demo-dlq',
+    )
+    store.close()
+  })
+})
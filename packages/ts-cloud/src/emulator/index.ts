@@ -0,0 +1,11 @@
+export * from './protocol'
+export * from './store'
+export * from './server'
+export * from './provision'
+export { ensureBucket } from './s3'
+export { ensureQueue } from './sqs'
+export { ensureTable } from './dynamodb'
+export type { TableDefinition } from './dynamodb'
+export { ensureIdentity, listSentEmails } from './sesv2'
+export type { EmulatedEmail } from './sesv2'
+export { ensureSecret } from './secrets-manager'
@@ -0,0 +1,117 @@
+/** Account ID the emulator puts in ARNs and queue URLs. */
+export const EMULATOR_ACCOUNT_ID = '000000000000'
+
+export type EmulatorProtocol = 'rest-xml' | 'query' | 'json' | 'rest-json'
+
+export interface EmulatorRequest {
+  method: string
+  url: URL
+  headers: Headers
+  body: Uint8Array
+  /** Region from the request signature, or the emulator default */
+  region: string
+}
+
+export class EmulatorError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+    readonly status: number = 400,
+  ) {
+    super(message)
+    this.name = 'EmulatorError'
+  }
+}
+
+/**
+ * Error for an operation the emulator does not implement. It is a 400 rather than a 501 so clients
+ * that retry server errors fail straight away.
+ */
+export function notEmulated(service: string, operation: string): EmulatorError {
+  return new EmulatorError(
+    'NotEmulated',
+    `${service} ${operation} is not emulated by the ts-cloud local emulator. ` +
+      'Run it against AWS, or use an operation the emulator supports.',
+  )
+}
+
+export function requestText(request: EmulatorRequest): string {
+  return new TextDecoder().decode(request.body)
+}
+
+export function requestJson(request: EmulatorRequest): Record<string, any> {
+  const text = requestText(request)
+  if (!text.trim()) return {}
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new EmulatorError('SerializationException', 'The request body is not valid JSON')
+  }
+}
+
+export function requestId(): string {
+  return crypto.randomUUID()
+}
+
+const XML_ENTITIES: Record<string, string> = { '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }
+
+export function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, (char) => XML_ENTITIES[char])
+}
+
+/**
+ * Render a value as XML elements: arrays repeat the element, objects nest, and undefined is left out.
+ */
+export function toXml(name: string, value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (Array.isArray(value)) return value.map((item) => toXml(name, item)).join('')
+  if (typeof value === 'object')
+    return `<${name}>${Object.entries(value as Record<string, unknown>)
+      .map(([key, child]) => toXml(key, child))
+      .join('')}</${name}>`
+  return `<${name}>${escapeXml(String(value))}</${name}>`
+}
+
+export function xmlResponse(
+  root: string,
+  content: Record<string, unknown>,
+  options: { xmlns?: string; status?: number; headers?: Record<string, string> } = {},
+): Response {
+  const body = Object.entries(content)
+    .map(([key, value]) => toXml(key, value))
+    .join('')
+  const xmlns = options.xmlns ? ` xmlns="${options.xmlns}"` : ''
+  return new Response(`<?xml version="1.0" encoding="UTF-8"?>\n<${root}${xmlns}>${body}</${root}>`, {
+    status: options.status ?? 200,
+    headers: { 'content-type': 'application/xml', ...options.headers },
+  })
+}
+
+export function jsonResponse(
+  body: unknown,
+  contentType: string = 'application/x-amz-json-1.0',
+  status: number = 200,
+): Response {
+  return new Response(JSON.stringify(body ?? {}), { status, headers: { 'content-type': contentType } })
+}
+
+/** Render an error the way the service's protocol does, so clients parse its code and message. */
+export function errorResponse(error: EmulatorError, protocol: EmulatorProtocol): Response {
+  const headers = { 'x-amzn-requestid': requestId(), 'x-amzn-errortype': error.code }
+  if (protocol === 'json' || protocol === 'rest-json')
+    return new Response(JSON.stringify({ __type: error.code, message: error.message }), {
+      status: error.status,
+      headers: { ...headers, 'content-type': protocol === 'json' ? 'application/x-amz-json-1.0' : 'application/json' },
+    })
+  const body =
+    protocol === 'query'
+      ? toXml('ErrorResponse', {
+          Error: { Type: error.status >= 500 ? 'Receiver' : 'Sender', Code: error.code, Message: error.message },
+          RequestId: headers['x-amzn-requestid'],
+        })
+      : toXml('Error', { Code: error.code, Message: error.message, RequestId: headers['x-amzn-requestid'] })
+  return new Response(`<?xml version="1.0" encoding="UTF-8"?>\n${body}`, {
+    status: error.status,
+    headers: { ...headers, 'content-type': 'application/xml' },
+  })
+}
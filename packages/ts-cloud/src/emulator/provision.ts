@@ -0,0 +1,190 @@
+import type { TableDefinition } from './dynamodb'
+import type { EmulatorStore } from './store'
+import { ensureTable } from './dynamodb'
+import { EMULATOR_ACCOUNT_ID } from './protocol'
+import { ensureBucket } from './s3'
+import { ensureSecret } from './secrets-manager'
+import { ensureIdentity } from './sesv2'
+import { ensureQueue } from './sqs'
+
+export interface EmulatorTemplate {
+  Resources?: Record<string, { Type: string; Properties?: Record<string, any> }>
+}
+
+export interface ProvisionedResource {
+  logicalId: string
+  type: string
+  /** Bucket, queue, table, secret or identity name */
+  name: string
+}
+
+export interface ProvisionResult {
+  created: ProvisionedResource[]
+  skipped: Array<{ logicalId: string; type: string; reason: string }>
+}
+
+const SQS_ATTRIBUTES = [
+  'DelaySeconds',
+  'MaximumMessageSize',
+  'MessageRetentionPeriod',
+  'ReceiveMessageWaitTimeSeconds',
+  'VisibilityTimeout',
+  'FifoQueue',
+  'ContentBasedDeduplication',
+]
+
+class Unresolvable extends Error {}
+
+/**
+ * Resolve the intrinsic functions resource names use: pseudo parameters, `Fn::Sub`, `Fn::Join`, and
+ * `Fn::GetAtt` of a queue's ARN. Anything else cannot be known before a deploy.
+ */
+function resolve(value: unknown, template: EmulatorTemplate, region: string): any {
+  if (value === null || typeof value !== 'object') return value
+  if (Array.isArray(value)) return value.map((item) => resolve(item, template, region))
+  const pseudo: Record<string, string> = {
+    'AWS::Region': region,
+    'AWS::AccountId': EMULATOR_ACCOUNT_ID,
+    'AWS::Partition': 'aws',
+    'AWS::URLSuffix': 'amazonaws.com',
+  }
+  const entries = Object.entries(value as Record<string, any>)
+  if (entries.length === 1) {
+    const [[fn, argument]] = entries
+    if (fn === 'Ref') {
+      if (pseudo[argument] !== undefined) return pseudo[argument]
+      throw new Unresolvable(`Ref ${argument}`)
+    }
+    if (fn === 'Fn::Sub' && typeof argument === 'string')
+      return argument.replace(/\$\{([\w:]+)\}/g, (_, name: string) => {
+        if (pseudo[name] === undefined) throw new Unresolvable(`\${${name}}`)
+        return pseudo[name]
+      })
+    if (fn === 'Fn::Join') return resolve(argument[1], template, region).join(argument[0])
+    if (fn === 'Fn::GetAtt') {
+      const [logicalId, attribute] = argument as [string, string]
+      const target = template.Resources?.[logicalId]
+      if (target?.Type === 'AWS::SQS::Queue' && attribute === 'Arn') {
+        const name = resolve(target.Properties?.QueueName, template, region) ?? logicalId
+        return `arn:aws:sqs:${region}:${EMULATOR_ACCOUNT_ID}:${name}`
+      }
+      throw new Unresolvable(`Fn::GetAtt ${logicalId}.${attribute}`)
+    }
+    if (fn.startsWith('Fn::') || fn === 'Condition') throw new Unresolvable(fn)
+  }
+  return Object.fromEntries(entries.map(([key, child]) => [key, resolve(child, template, region)]))
+}
+
+/** Properties that name a resource; the resource is skipped when its name cannot be resolved. */
+const NAME_PROPERTIES = ['BucketName', 'QueueName', 'TableName', 'Name', 'EmailIdentity']
+
+/** Resolve each property, leaving out the ones that depend on resources the emulator does not create. */
+function resolveProperties(properties: Record<string, any>, template: EmulatorTemplate, region: string) {
+  const resolved: Record<string, any> = {}
+  for (const [key, value] of Object.entries(properties)) {
+    try {
+      resolved[key] = resolve(value, template, region)
+    } catch (error) {
+      if (!(error instanceof Unresolvable) || NAME_PROPERTIES.includes(key)) throw error
+    }
+  }
+  return resolved
+}
+
+function generatePassword(options: Record<string, any> = {}): string {
+  const exclude = new Set<string>(String(options.ExcludeCharacters ?? '').split(''))
+  let characters = ''
+  if (!options.ExcludeLowercase) characters += 'abcdefghijklmnopqrstuvwxyz'
+  if (!options.ExcludeUppercase) characters += 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+  if (!options.ExcludeNumbers) characters += '0123456789'
+  if (!options.ExcludePunctuation) characters += '!#$%&()*+,-.:;<=>?[]^_{|}~'
+  if (options.IncludeSpace) characters += ' '
+  const allowed = [...characters].filter((char) => !exclude.has(char))
+  const bytes = crypto.getRandomValues(new Uint32Array(Number(options.PasswordLength ?? 32)))
+  return Array.from(bytes, (byte) => allowed[byte % allowed.length]).join('')
+}
+
+function secretString(properties: Record<string, any>): string | undefined {
+  if (properties.SecretString !== undefined) return String(properties.SecretString)
+  const generate = properties.GenerateSecretString
+  if (!generate) return undefined
+  const password = generatePassword(generate)
+  if (!generate.SecretStringTemplate || !generate.GenerateStringKey) return password
+  return JSON.stringify({ ...JSON.parse(generate.SecretStringTemplate), [generate.GenerateStringKey]: password })
+}
+
+function provisionResource(
+  store: EmulatorStore,
+  type: string,
+  logicalId: string,
+  properties: Record<string, any>,
+  region: string,
+): string | undefined {
+  switch (type) {
+    case 'AWS::S3::Bucket': {
+      const name = properties.BucketName ?? logicalId.toLowerCase()
+      ensureBucket(store, name, region)
+      return name
+    }
+    case 'AWS::SQS::Queue': {
+      const name = properties.QueueName ?? logicalId
+      const attributes: Record<string, string> = {}
+      for (const attribute of SQS_ATTRIBUTES) {
+        if (properties[attribute] !== undefined) attributes[attribute] = String(properties[attribute])
+      }
+      if (properties.RedrivePolicy) attributes.RedrivePolicy = JSON.stringify(properties.RedrivePolicy)
+      const tags = Object.fromEntries(
+        (properties.Tags ?? []).map((tag: { Key: string; Value: string }) => [tag.Key, tag.Value]),
+      )
+      ensureQueue(store, name, region, attributes, tags)
+      return name
+    }
+    case 'AWS::DynamoDB::Table': {
+      const name = properties.TableName ?? logicalId
+      ensureTable(store, { ...(properties as TableDefinition), TableName: name }, region)
+      return name
+    }
+    case 'AWS::SecretsManager::Secret': {
+      const name = properties.Name ?? logicalId
+      ensureSecret(store, name, region, {
+        SecretString: secretString(properties),
+        Description: properties.Description,
+        Tags: properties.Tags,
+      })
+      return name
+    }
+    case 'AWS::SES::EmailIdentity':
+      ensureIdentity(store, properties.EmailIdentity)
+      return properties.EmailIdentity
+  }
+  return undefined
+}
+
+/**
+ * Create the buckets, queues, tables, secrets and email identities of a generated CloudFormation template in
+ * the emulator. Resources that exist are left as they are, so provisioning again after a restart keeps data.
+ */
+export function provisionFromTemplate(
+  store: EmulatorStore,
+  template: EmulatorTemplate,
+  region: string = 'us-east-1',
+): ProvisionResult {
+  const result: ProvisionResult = { created: [], skipped: [] }
+  for (const [logicalId, resource] of Object.entries(template.Resources ?? {})) {
+    try {
+      const properties = resolveProperties(resource.Properties ?? {}, template, region)
+      const name = provisionResource(store, resource.Type, logicalId, properties, region)
+      if (name) result.created.push({ logicalId, type: resource.Type, name })
+      else result.skipped.push({ logicalId, type: resource.Type, reason: 'not emulated' })
+    } catch (error) {
+      const reason =
+        error instanceof Unresolvable
+          ? `uses ${error.message}, which cannot be resolved locally`
+          : error instanceof Error
+            ? error.message
+            : String(error)
+      result.skipped.push({ logicalId, type: resource.Type, reason })
+    }
+  }
+  return result
+}
@@ -0,0 +1,500 @@
+import type { EmulatorRequest } from './protocol'
+import type { EmulatorStore } from './store'
+import { createHash } from 'node:crypto'
+import { XMLParser } from '@stacksjs/ts-xml'
+import { EMULATOR_ACCOUNT_ID, EmulatorError, escapeXml, notEmulated, requestText, xmlResponse } from './protocol'
+
+const SERVICE = 's3'
+const XMLNS = 'http://s3.amazonaws.com/doc/2006-03-01/'
+
+interface BucketData {
+  name: string
+  region: string
+  createdAt: string
+  /** Raw bodies of bucket configuration PUTs, keyed by subresource */
+  subresources: Record<string, string>
+}
+
+interface ObjectData {
+  contentType: string
+  contentLength: number
+  etag: string
+  lastModified: string
+  metadata: Record<string, string>
+  headers: Record<string, string>
+  tagging?: string
+}
+
+interface UploadData {
+  key: string
+  initiated: string
+  contentType: string
+  metadata: Record<string, string>
+  headers: Record<string, string>
+}
+
+/**
+ * Bucket configuration the emulator stores and returns as sent. A GET of an unset subresource
+ * answers with the error S3 uses, or with an empty document where S3 returns one.
+ */
+const BUCKET_SUBRESOURCES: Record<string, { missing?: [string, string]; empty?: string }> = {
+  policy: { missing: ['NoSuchBucketPolicy', 'The bucket policy does not exist'] },
+  cors: { missing: ['NoSuchCORSConfiguration', 'The CORS configuration does not exist'] },
+  tagging: { missing: ['NoSuchTagSet', 'The TagSet does not exist'] },
+  encryption: {
+    missing: ['ServerSideEncryptionConfigurationNotFoundError', 'The server side encryption configuration was not found'],
+  },
+  lifecycle: { missing: ['NoSuchLifecycleConfiguration', 'The lifecycle configuration does not exist'] },
+  website: { missing: ['NoSuchWebsiteConfiguration', 'The specified bucket does not have a website configuration'] },
+  publicAccessBlock: {
+    missing: ['NoSuchPublicAccessBlockConfiguration', 'The public access block configuration was not found'],
+  },
+  ownershipControls: { missing: ['OwnershipControlsNotFoundError', 'The bucket ownership controls were not found'] },
+  versioning: { empty: 'VersioningConfiguration' },
+  logging: { empty: 'BucketLoggingStatus' },
+  notification: { empty: 'NotificationConfiguration' },
+  acl: { empty: 'AccessControlPolicy' },
+}
+
+/** Query parameters ListObjects and ListObjectsV2 accept */
+const LIST_PARAMETERS = [
+  'list-type',
+  'prefix',
+  'delimiter',
+  'max-keys',
+  'marker',
+  'continuation-token',
+  'start-after',
+  'encoding-type',
+  'fetch-owner',
+]
+
+/** Headers stored with an object and returned on GET and HEAD */
+const STORED_HEADERS = ['cache-control', 'content-disposition', 'content-encoding', 'content-language', 'expires']
+
+const xml = new XMLParser({ ignoreAttributes: true, trimValues: true, parseTagValue: false } as any)
+
+function md5(data: Uint8Array): string {
+  return createHash('md5').update(data).digest('hex')
+}
+
+function noSuchBucket(bucket: string): EmulatorError {
+  return new EmulatorError('NoSuchBucket', `The specified bucket ${bucket} does not exist`, 404)
+}
+
+function requireBucket(store: EmulatorStore, bucket: string): BucketData {
+  const record = store.get<BucketData>(SERVICE, 'bucket', bucket)
+  if (!record) throw noSuchBucket(bucket)
+  return record.data
+}
+
+function objectHeaders(request: EmulatorRequest): Pick<ObjectData, 'contentType' | 'metadata' | 'headers'> {
+  const metadata: Record<string, string> = {}
+  const headers: Record<string, string> = {}
+  request.headers.forEach((value, name) => {
+    if (name.startsWith('x-amz-meta-')) metadata[name.slice('x-amz-meta-'.length)] = value
+    else if (STORED_HEADERS.includes(name)) headers[name] = value
+  })
+  return { contentType: request.headers.get('content-type') ?? 'binary/octet-stream', metadata, headers }
+}
+
+function responseHeaders(data: ObjectData): Record<string, string> {
+  const headers: Record<string, string> = {
+    'content-type': data.contentType,
+    etag: data.etag,
+    'last-modified': new Date(data.lastModified).toUTCString(),
+    'accept-ranges': 'bytes',
+    ...data.headers,
+  }
+  for (const [name, value] of Object.entries(data.metadata)) headers[`x-amz-meta-${name}`] = value
+  return headers
+}
+
+function toList<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/** Create a bucket, or do nothing when it exists. */
+export function ensureBucket(store: EmulatorStore, name: string, region: string): void {
+  if (store.get(SERVICE, 'bucket', name)) return
+  if (!/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(name))
+    throw new EmulatorError('InvalidBucketName', `The specified bucket name ${name} is not valid`)
+  store.put<BucketData>(SERVICE, 'bucket', name, {
+    name,
+    region,
+    createdAt: new Date().toISOString(),
+    subresources: {},
+  })
+}
+
+export function putObject(
+  store: EmulatorStore,
+  bucket: string,
+  key: string,
+  body: Uint8Array,
+  options: Partial<Pick<ObjectData, 'contentType' | 'metadata' | 'headers'>> = {},
+): ObjectData {
+  requireBucket(store, bucket)
+  const data: ObjectData = {
+    contentType: options.contentType ?? 'binary/octet-stream',
+    contentLength: body.byteLength,
+    etag: `"${md5(body)}"`,
+    lastModified: new Date().toISOString(),
+    metadata: options.metadata ?? {},
+    headers: options.headers ?? {},
+  }
+  store.put(SERVICE, `object:${bucket}`, key, data, body)
+  return data
+}
+
+function listBuckets(store: EmulatorStore): Response {
+  const buckets = store.list<BucketData>(SERVICE, 'bucket')
+  return xmlResponse(
+    'ListAllMyBucketsResult',
+    {
+      Owner: { ID: EMULATOR_ACCOUNT_ID, DisplayName: 'local' },
+      Buckets: { Bucket: buckets.map(({ data }) => ({ Name: data.name, CreationDate: data.createdAt })) },
+    },
+    { xmlns: XMLNS },
+  )
+}
+
+function listObjects(store: EmulatorStore, bucket: string, query: URLSearchParams): Response {
+  requireBucket(store, bucket)
+  const v2 = query.get('list-type') === '2'
+  const prefix = query.get('prefix') ?? ''
+  const delimiter = query.get('delimiter') ?? ''
+  const maxKeys = Math.min(Number(query.get('max-keys') ?? 1000), 1000)
+  const after = v2
+    ? query.get('continuation-token')
+      ? Buffer.from(query.get('continuation-token')!, 'base64url').toString()
+      : (query.get('start-after') ?? '')
+    : (query.get('marker') ?? '')
+
+  const contents: Array<Record<string, unknown>> = []
+  const prefixes: string[] = []
+  let truncated = false
+  let last = ''
+  for (const { id: key, data } of store.list<ObjectData>(SERVICE, `object:${bucket}`, { prefix })) {
+    if (after && key <= after) continue
+    const rest = key.slice(prefix.length)
+    const common = delimiter && rest.includes(delimiter) ? prefix + rest.slice(0, rest.indexOf(delimiter) + 1) : ''
+    if (common && (prefixes.at(-1) === common || (after && common <= after && after.startsWith(common)))) continue
+    if (contents.length + prefixes.length >= maxKeys) {
+      truncated = true
+      break
+    }
+    if (common) {
+      prefixes.push(common)
+      last = common
+    } else {
+      contents.push({
+        Key: key,
+        LastModified: data.lastModified,
+        ETag: data.etag,
+        Size: data.contentLength,
+        StorageClass: 'STANDARD',
+      })
+      last = key
+    }
+  }
+
+  return xmlResponse(
+    'ListBucketResult',
+    {
+      Name: bucket,
+      Prefix: prefix,
+      ...(v2
+        ? {
+            KeyCount: contents.length + prefixes.length,
+            ContinuationToken: query.get('continuation-token') ?? undefined,
+            NextContinuationToken: truncated ? Buffer.from(last).toString('base64url') : undefined,
+            StartAfter: query.get('start-after') ?? undefined,
+          }
+        : { Marker: after, NextMarker: truncated && delimiter ? last : undefined }),
+      Delimiter: delimiter || undefined,
+      MaxKeys: maxKeys,
+      IsTruncated: truncated,
+      Contents: contents,
+      CommonPrefixes: prefixes.map((value) => ({ Prefix: value })),
+    },
+    { xmlns: XMLNS },
+  )
+}
+
+function listObjectVersions(store: EmulatorStore, bucket: string, query: URLSearchParams): Response {
+  requireBucket(store, bucket)
+  const prefix = query.get('prefix') ?? ''
+  const versions = store.list<ObjectData>(SERVICE, `object:${bucket}`, { prefix }).map(({ id, data }) => ({
+    Key: id,
+    VersionId: 'null',
+    IsLatest: true,
+    LastModified: data.lastModified,
+    ETag: data.etag,
+    Size: data.contentLength,
+    StorageClass: 'STANDARD',
+  }))
+  return xmlResponse(
+    'ListVersionsResult',
+    { Name: bucket, Prefix: prefix, MaxKeys: 1000, IsTruncated: false, Version: versions },
+    { xmlns: XMLNS },
+  )
+}
+
+function bucketSubresource(store: EmulatorStore, request: EmulatorRequest, bucket: string, name: string): Response {
+  const data = requireBucket(store, bucket)
+  const config = BUCKET_SUBRESOURCES[name]
+  if (request.method === 'PUT') {
+    data.subresources[name] = requestText(request)
+    store.put(SERVICE, 'bucket', bucket, data)
+    return new Response(null, { status: 200 })
+  }
+  if (request.method === 'DELETE') {
+    delete data.subresources[name]
+    store.put(SERVICE, 'bucket', bucket, data)
+    return new Response(null, { status: 204 })
+  }
+  if (request.method !== 'GET') throw notEmulated('S3', `${request.method} ?${name}`)
+  const stored = data.subresources[name]
+  if (stored !== undefined)
+    return new Response(stored, {
+      headers: { 'content-type': name === 'policy' ? 'application/json' : 'application/xml' },
+    })
+  if (config.missing) throw new EmulatorError(config.missing[0], config.missing[1], 404)
+  if (name === 'acl')
+    return xmlResponse(
+      'AccessControlPolicy',
+      {
+        Owner: { ID: EMULATOR_ACCOUNT_ID },
+        AccessControlList: { Grant: { Grantee: { ID: EMULATOR_ACCOUNT_ID }, Permission: 'FULL_CONTROL' } },
+      },
+      { xmlns: XMLNS },
+    )
+  return xmlResponse(config.empty!, {}, { xmlns: XMLNS })
+}
+
+function handleBucket(store: EmulatorStore, request: EmulatorRequest, bucket: string): Response {
+  const query = request.url.searchParams
+  const subresource = Object.keys(BUCKET_SUBRESOURCES).find((name) => query.has(name))
+  if (subresource) return bucketSubresource(store, request, bucket, subresource)
+
+  switch (request.method) {
+    case 'PUT':
+      if (store.get(SERVICE, 'bucket', bucket))
+        throw new EmulatorError('BucketAlreadyOwnedByYou', `The bucket ${bucket} already exists`, 409)
+      ensureBucket(store, bucket, request.region)
+      return new Response(null, { status: 200, headers: { location: `/${bucket}` } })
+    case 'HEAD': {
+      const record = store.get<BucketData>(SERVICE, 'bucket', bucket)
+      return new Response(null, {
+        status: record ? 200 : 404,
+        headers: record ? { 'x-amz-bucket-region': record.data.region } : {},
+      })
+    }
+    case 'DELETE':
+      requireBucket(store, bucket)
+      if (store.list(SERVICE, `object:${bucket}`).length)
+        throw new EmulatorError('BucketNotEmpty', 'The bucket you tried to delete is not empty', 409)
+      store.delete(SERVICE, 'bucket', bucket)
+      return new Response(null, { status: 204 })
+    case 'GET':
+      if (query.has('location')) {
+        const { region } = requireBucket(store, bucket)
+        const body = region === 'us-east-1' ? '' : escapeXml(region)
+        return new Response(
+          `<?xml version="1.0" encoding="UTF-8"?>\n<LocationConstraint xmlns="${XMLNS}">${body}</LocationConstraint>`,
+          { headers: { 'content-type': 'application/xml' } },
+        )
+      }
+      if (query.has('versions')) return listObjectVersions(store, bucket, query)
+      if (query.has('uploads')) {
+        requireBucket(store, bucket)
+        const uploads = store.list<UploadData>(SERVICE, `upload:${bucket}`).map(({ id, data }) => ({
+          Key: data.key,
+          UploadId: id,
+          Initiated: data.initiated,
+          StorageClass: 'STANDARD',
+        }))
+        return xmlResponse(
+          'ListMultipartUploadsResult',
+          { Bucket: bucket, IsTruncated: false, Upload: uploads },
+          { xmlns: XMLNS },
+        )
+      }
+      if ([...query.keys()].some((name) => !LIST_PARAMETERS.includes(name)))
+        throw notEmulated('S3', `GET bucket ?${[...query.keys()].join('&')}`)
+      return listObjects(store, bucket, query)
+    case 'POST':
+      if (query.has('delete')) return deleteObjects(store, request, bucket)
+  }
+  throw notEmulated('S3', `${request.method} bucket ?${[...query.keys()].join('&')}`)
+}
+
+function deleteObjects(store: EmulatorStore, request: EmulatorRequest, bucket: string): Response {
+  requireBucket(store, bucket)
+  const parsed = xml.parse(requestText(request))?.Delete ?? {}
+  const keys = toList<{ Key: string }>(parsed.Object).map((object) => String(object.Key))
+  for (const key of keys) store.delete(SERVICE, `object:${bucket}`, key)
+  const quiet = String(parsed.Quiet) === 'true'
+  return xmlResponse('DeleteResult', { Deleted: quiet ? [] : keys.map((key) => ({ Key: key })) }, { xmlns: XMLNS })
+}
+
+function getObject(store: EmulatorStore, request: EmulatorRequest, bucket: string, key: string): Response {
+  requireBucket(store, bucket)
+  const record = store.get<ObjectData>(SERVICE, `object:${bucket}`, key)
+  if (!record) {
+    if (request.method === 'HEAD') return new Response(null, { status: 404 })
+    throw new EmulatorError('NoSuchKey', 'The specified key does not exist.', 404)
+  }
+  const headers = responseHeaders(record.data)
+  const body = record.body ?? new Uint8Array()
+  const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/)
+  if (range && (range[1] || range[2])) {
+    const size = body.byteLength
+    const start = range[1] ? Number(range[1]) : Math.max(0, size - Number(range[2]))
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1
+    if (start >= size || start > end)
+      throw new EmulatorError('InvalidRange', 'The requested range is not satisfiable', 416)
+    headers['content-range'] = `bytes ${start}-${end}/${size}`
+    headers['content-length'] = String(end - start + 1)
+    return new Response(request.method === 'HEAD' ? null : body.slice(start, end + 1), { status: 206, headers })
+  }
+  headers['content-length'] = String(body.byteLength)
+  return new Response(request.method === 'HEAD' ? null : body, { headers })
+}
+
+function copyObject(store: EmulatorStore, request: EmulatorRequest, bucket: string, key: string): Response {
+  const source = decodeURIComponent(request.headers.get('x-amz-copy-source')!.split('?')[0]).replace(/^\//, '')
+  const [sourceBucket, ...sourceKey] = source.split('/')
+  requireBucket(store, sourceBucket)
+  const record = store.get<ObjectData>(SERVICE, `object:${sourceBucket}`, sourceKey.join('/'))
+  if (!record) throw new EmulatorError('NoSuchKey', 'The specified key does not exist.', 404)
+  const replace = request.headers.get('x-amz-metadata-directive') === 'REPLACE'
+  const data = putObject(
+    store,
+    bucket,
+    key,
+    record.body ?? new Uint8Array(),
+    replace ? objectHeaders(request) : record.data,
+  )
+  return xmlResponse('CopyObjectResult', { LastModified: data.lastModified, ETag: data.etag }, { xmlns: XMLNS })
+}
+
+function objectTagging(store: EmulatorStore, request: EmulatorRequest, bucket: string, key: string): Response {
+  requireBucket(store, bucket)
+  const record = store.get<ObjectData>(SERVICE, `object:${bucket}`, key)
+  if (!record) throw new EmulatorError('NoSuchKey', 'The specified key does not exist.', 404)
+  if (request.method === 'GET')
+    return record.data.tagging
+      ? new Response(record.data.tagging, { headers: { 'content-type': 'application/xml' } })
+      : xmlResponse('Tagging', { TagSet: {} }, { xmlns: XMLNS })
+  record.data.tagging = request.method === 'PUT' ? requestText(request) : undefined
+  store.put(SERVICE, `object:${bucket}`, key, record.data, record.body)
+  return new Response(null, { status: request.method === 'PUT' ? 200 : 204 })
+}
+
+function multipart(store: EmulatorStore, request: EmulatorRequest, bucket: string, key: string): Response {
+  requireBucket(store, bucket)
+  const query = request.url.searchParams
+  if (request.method === 'POST' && query.has('uploads')) {
+    const uploadId = crypto.randomUUID().replace(/-/g, '')
+    store.put<UploadData>(SERVICE, `upload:${bucket}`, uploadId, {
+      key,
+      initiated: new Date().toISOString(),
+      ...objectHeaders(request),
+    })
+    return xmlResponse(
+      'InitiateMultipartUploadResult',
+      { Bucket: bucket, Key: key, UploadId: uploadId },
+      { xmlns: XMLNS },
+    )
+  }
+
+  const uploadId = query.get('uploadId')!
+  const upload = store.get<UploadData>(SERVICE, `upload:${bucket}`, uploadId)
+  if (!upload) throw new EmulatorError('NoSuchUpload', 'The specified multipart upload does not exist.', 404)
+
+  if (request.method === 'PUT') {
+    const partNumber = Number(query.get('partNumber'))
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000)
+      throw new EmulatorError('InvalidArgument', 'Part number must be an integer between 1 and 10000')
+    const etag = `"${md5(request.body)}"`
+    store.put(SERVICE, `part:${uploadId}`, String(partNumber).padStart(5, '0'), { etag }, request.body)
+    return new Response(null, { status: 200, headers: { etag } })
+  }
+  if (request.method === 'DELETE') {
+    store.clear(SERVICE, `part:${uploadId}`)
+    store.delete(SERVICE, `upload:${bucket}`, uploadId)
+    return new Response(null, { status: 204 })
+  }
+  if (request.method === 'POST') {
+    const requested = toList<{ PartNumber: string }>(xml.parse(requestText(request))?.CompleteMultipartUpload?.Part)
+    const parts = requested.map(({ PartNumber }) => {
+      const part = store.get<{ etag: string }>(SERVICE, `part:${uploadId}`, String(PartNumber).padStart(5, '0'))
+      if (!part) throw new EmulatorError('InvalidPart', `Part ${PartNumber} was not uploaded`)
+      return part
+    })
+    const body = Buffer.concat(parts.map((part) => part.body ?? new Uint8Array()))
+    const digest = createHash('md5')
+      .update(Buffer.concat(parts.map((part) => Buffer.from(part.data.etag.replace(/"/g, ''), 'hex'))))
+      .digest('hex')
+    store.transaction(() => {
+      const data = putObject(store, bucket, key, body, upload.data)
+      data.etag = `"${digest}-${parts.length}"`
+      store.put(SERVICE, `object:${bucket}`, key, data, body)
+      store.clear(SERVICE, `part:${uploadId}`)
+      store.delete(SERVICE, `upload:${bucket}`, uploadId)
+    })
+    return xmlResponse(
+      'CompleteMultipartUploadResult',
+      { Location: `/${bucket}/${key}`, Bucket: bucket, Key: key, ETag: `"${digest}-${parts.length}"` },
+      { xmlns: XMLNS },
+    )
+  }
+  throw notEmulated('S3', `${request.method} ?uploadId (ListParts)`)
+}
+
+function handleObject(store: EmulatorStore, request: EmulatorRequest, bucket: string, key: string): Response {
+  const query = request.url.searchParams
+  if (query.has('uploads') || query.has('uploadId')) return multipart(store, request, bucket, key)
+  if (query.has('tagging')) return objectTagging(store, request, bucket, key)
+  if (query.has('acl') && request.method === 'PUT') return new Response(null, { status: 200 })
+  if (query.has('acl') && request.method === 'GET') return bucketSubresource(store, request, bucket, 'acl')
+  const unsupported = [...query.keys()].filter(
+    (name) => name !== 'versionId' && !name.startsWith('response-') && !name.startsWith('X-Amz-'),
+  )
+  if (unsupported.length)
+    throw notEmulated('S3', `${request.method} object ?${[...query.keys()].join('&')}`)
+
+  switch (request.method) {
+    case 'GET':
+    case 'HEAD':
+      return getObject(store, request, bucket, key)
+    case 'PUT': {
+      if (request.headers.has('x-amz-copy-source')) return copyObject(store, request, bucket, key)
+      const data = putObject(store, bucket, key, request.body, objectHeaders(request))
+      return new Response(null, { status: 200, headers: { etag: data.etag } })
+    }
+    case 'DELETE':
+      requireBucket(store, bucket)
+      store.delete(SERVICE, `object:${bucket}`, key)
+      return new Response(null, { status: 204 })
+  }
+  throw notEmulated('S3', `${request.method} object`)
+}
+
+/**
+ * S3 REST API with path-style addressing: `/<bucket>/<key>`
+ */
+export function handleS3(store: EmulatorStore, request: EmulatorRequest): Response {
+  const path = request.url.pathname
+  const slash = path.indexOf('/', 1)
+  const bucket = decodeURIComponent(slash === -1 ? path.slice(1) : path.slice(1, slash))
+  const key = slash === -1 ? '' : decodeURIComponent(path.slice(slash + 1))
+  if (!bucket) {
+    if (request.method === 'GET') return listBuckets(store)
+    throw notEmulated('S3', `${request.method} /`)
+  }
+  return key ? handleObject(store, request, bucket, key) : handleBucket(store, request, bucket)
+}
@@ -0,0 +1,299 @@
+import type { EmulatorRequest } from './protocol'
+import type { EmulatorStore } from './store'
+import { EMULATOR_ACCOUNT_ID, EmulatorError, jsonResponse, notEmulated, requestJson } from './protocol'
+
+const SERVICE = 'secretsmanager'
+const CONTENT_TYPE = 'application/x-amz-json-1.1'
+
+interface SecretVersion {
+  stages: string[]
+  createdAt: number
+  secretString?: string
+  secretBinary?: string
+}
+
+interface SecretData {
+  name: string
+  arn: string
+  description?: string
+  kmsKeyId?: string
+  tags: Array<{ Key: string; Value: string }>
+  createdAt: number
+  changedAt: number
+  accessedAt?: number
+  /** Set while the secret is scheduled for deletion */
+  deletionDate?: number
+  resourcePolicy?: string
+  versions: Record<string, SecretVersion>
+}
+
+function seconds(time: number | undefined): number | undefined {
+  return time === undefined ? undefined : time / 1000
+}
+
+function notFound(): EmulatorError {
+  return new EmulatorError('ResourceNotFoundException', "Secrets Manager can't find the specified secret.")
+}
+
+function markedForDeletion(): EmulatorError {
+  return new EmulatorError(
+    'InvalidRequestException',
+    "You can't perform this operation on the secret because it was marked for deletion.",
+  )
+}
+
+/** Find a secret by name or ARN. A secret whose recovery window has passed is removed on access. */
+function findSecret(store: EmulatorStore, secretId: string | undefined): SecretData | undefined {
+  if (!secretId) throw new EmulatorError('InvalidParameterException', 'SecretId is required.')
+  const secret =
+    store.get<SecretData>(SERVICE, 'secret', secretId)?.data ??
+    store.list<SecretData>(SERVICE, 'secret').find(({ data }) => data.arn === secretId)?.data
+  if (secret?.deletionDate && secret.deletionDate <= Date.now()) {
+    store.delete(SERVICE, 'secret', secret.name)
+    return undefined
+  }
+  return secret
+}
+
+function requireSecret(store: EmulatorStore, secretId: string | undefined, allowDeleted = false): SecretData {
+  const secret = findSecret(store, secretId)
+  if (!secret) throw notFound()
+  if (secret.deletionDate && !allowDeleted) throw markedForDeletion()
+  return secret
+}
+
+/**
+ * Add a version and move `AWSCURRENT` to it; the version that held it becomes `AWSPREVIOUS`.
+ */
+function addVersion(secret: SecretData, input: Record<string, any>): string {
+  if (input.SecretString === undefined && input.SecretBinary === undefined)
+    throw new EmulatorError('InvalidParameterException', 'You must provide either SecretString or SecretBinary.')
+  const versionId: string = input.ClientRequestToken ?? crypto.randomUUID()
+  const existing = secret.versions[versionId]
+  if (existing) {
+    if (existing.secretString !== input.SecretString || existing.secretBinary !== input.SecretBinary)
+      throw new EmulatorError('ResourceExistsException', `A version with the ID ${versionId} already exists.`)
+    return versionId
+  }
+  const stages: string[] = input.VersionStages ?? ['AWSCURRENT']
+  for (const [id, version] of Object.entries(secret.versions)) {
+    let remaining = version.stages.filter((stage) => !stages.includes(stage))
+    if (stages.includes('AWSCURRENT')) {
+      remaining = remaining.filter((stage) => stage !== 'AWSPREVIOUS')
+      if (version.stages.includes('AWSCURRENT')) remaining.push('AWSPREVIOUS')
+    }
+    // Versions without a stage are deprecated; the emulator drops them
+    if (remaining.length) secret.versions[id] = { ...version, stages: remaining }
+    else delete secret.versions[id]
+  }
+  secret.versions[versionId] = {
+    stages,
+    createdAt: Date.now(),
+    secretString: input.SecretString,
+    secretBinary: input.SecretBinary,
+  }
+  secret.changedAt = Date.now()
+  return versionId
+}
+
+function describe(secret: SecretData): Record<string, unknown> {
+  return {
+    ARN: secret.arn,
+    Name: secret.name,
+    Description: secret.description,
+    KmsKeyId: secret.kmsKeyId,
+    RotationEnabled: false,
+    LastChangedDate: seconds(secret.changedAt),
+    LastAccessedDate: seconds(secret.accessedAt),
+    DeletedDate: seconds(secret.deletionDate),
+    Tags: secret.tags,
+    SecretVersionsToStages: Object.fromEntries(
+      Object.entries(secret.versions).map(([id, version]) => [id, version.stages]),
+    ),
+    CreatedDate: seconds(secret.createdAt),
+  }
+}
+
+function matchesFilters(secret: SecretData, filters: Array<{ Key: string; Values: string[] }> = []): boolean {
+  return filters.every(({ Key, Values }) =>
+    Values.some((value) => {
+      const negate = value.startsWith('!')
+      const term = (negate ? value.slice(1) : value).toLowerCase()
+      const fields: Record<string, string[]> = {
+        name: [secret.name],
+        description: [secret.description ?? ''],
+        'tag-key': secret.tags.map((tag) => tag.Key),
+        'tag-value': secret.tags.map((tag) => tag.Value),
+      }
+      const candidates = Key === 'all' ? Object.values(fields).flat() : (fields[Key] ?? [])
+      const match = candidates.some((candidate) => candidate.toLowerCase().startsWith(term))
+      return negate ? !match : match
+    }),
+  )
+}
+
+/** Create a secret with an initial value, or do nothing when one with the name exists. */
+export function ensureSecret(
+  store: EmulatorStore,
+  name: string,
+  region: string,
+  value: { SecretString?: string; Description?: string; Tags?: Array<{ Key: string; Value: string }> },
+): void {
+  if (findSecret(store, name)) return
+  const suffix = crypto.randomUUID().replace(/-/g, '').slice(0, 6)
+  const now = Date.now()
+  const secret: SecretData = {
+    name,
+    arn: `arn:aws:secretsmanager:${region}:${EMULATOR_ACCOUNT_ID}:secret:${name}-${suffix}`,
+    description: value.Description,
+    tags: value.Tags ?? [],
+    createdAt: now,
+    changedAt: now,
+    versions: {},
+  }
+  if (value.SecretString !== undefined) addVersion(secret, { SecretString: value.SecretString })
+  store.put(SERVICE, 'secret', name, secret)
+}
+
+function execute(store: EmulatorStore, request: EmulatorRequest, action: string, input: Record<string, any>) {
+  switch (action) {
+    case 'CreateSecret': {
+      const existing = findSecret(store, input.Name)
+      if (existing?.deletionDate) throw markedForDeletion()
+      if (existing)
+        throw new EmulatorError(
+          'ResourceExistsException',
+          `The operation failed because the secret ${input.Name} already exists.`,
+        )
+      ensureSecret(store, input.Name, request.region, { Description: input.Description, Tags: input.Tags })
+      const secret = requireSecret(store, input.Name)
+      secret.kmsKeyId = input.KmsKeyId
+      const versionId =
+        input.SecretString !== undefined || input.SecretBinary !== undefined ? addVersion(secret, input) : undefined
+      store.put(SERVICE, 'secret', secret.name, secret)
+      return { ARN: secret.arn, Name: secret.name, VersionId: versionId }
+    }
+    case 'UpdateSecret': {
+      const secret = requireSecret(store, input.SecretId)
+      if (input.Description !== undefined) secret.description = input.Description
+      if (input.KmsKeyId !== undefined) secret.kmsKeyId = input.KmsKeyId
+      const versionId =
+        input.SecretString !== undefined || input.SecretBinary !== undefined
+          ? addVersion(secret, { ...input, VersionStages: undefined })
+          : undefined
+      secret.changedAt = Date.now()
+      store.put(SERVICE, 'secret', secret.name, secret)
+      return { ARN: secret.arn, Name: secret.name, VersionId: versionId }
+    }
+    case 'PutSecretValue': {
+      const secret = requireSecret(store, input.SecretId)
+      const versionId = addVersion(secret, input)
+      store.put(SERVICE, 'secret', secret.name, secret)
+      return {
+        ARN: secret.arn,
+        Name: secret.name,
+        VersionId: versionId,
+        VersionStages: secret.versions[versionId].stages,
+      }
+    }
+    case 'GetSecretValue': {
+      const secret = requireSecret(store, input.SecretId)
+      const stage = input.VersionStage ?? (input.VersionId ? undefined : 'AWSCURRENT')
+      const entry = Object.entries(secret.versions).find(
+        ([id, version]) => (!input.VersionId || id === input.VersionId) && (!stage || version.stages.includes(stage)),
+      )
+      if (!entry)
+        throw new EmulatorError(
+          'ResourceNotFoundException',
+          "Secrets Manager can't find the specified secret value for the version or staging label.",
+        )
+      const [versionId, version] = entry
+      secret.accessedAt = Date.now()
+      store.put(SERVICE, 'secret', secret.name, secret)
+      return {
+        ARN: secret.arn,
+        Name: secret.name,
+        VersionId: versionId,
+        SecretString: version.secretString,
+        SecretBinary: version.secretBinary,
+        VersionStages: version.stages,
+        CreatedDate: seconds(version.createdAt),
+      }
+    }
+    case 'DescribeSecret':
+      return describe(requireSecret(store, input.SecretId, true))
+    case 'ListSecrets': {
+      const all = store
+        .list<SecretData>(SERVICE, 'secret')
+        .map(({ data }) => data)
+        .filter((secret) => input.IncludePlannedDeletion || !secret.deletionDate)
+        .filter((secret) => matchesFilters(secret, input.Filters))
+      if (input.SortOrder === 'desc') all.reverse()
+      const start = Number(input.NextToken ?? 0)
+      const size = input.MaxResults ?? 100
+      return {
+        SecretList: all.slice(start, start + size).map(describe),
+        NextToken: start + size < all.length ? String(start + size) : undefined,
+      }
+    }
+    case 'DeleteSecret': {
+      const secret = requireSecret(store, input.SecretId, true)
+      if (input.ForceDeleteWithoutRecovery && input.RecoveryWindowInDays)
+        throw new EmulatorError(
+          'InvalidParameterException',
+          'You can\'t use ForceDeleteWithoutRecovery in conjunction with RecoveryWindowInDays.',
+        )
+      if (input.ForceDeleteWithoutRecovery) {
+        store.delete(SERVICE, 'secret', secret.name)
+        return { ARN: secret.arn, Name: secret.name, DeletionDate: Date.now() / 1000 }
+      }
+      const days = input.RecoveryWindowInDays ?? 30
+      if (days < 7 || days > 30)
+        throw new EmulatorError('InvalidParameterException', 'RecoveryWindowInDays must be between 7 and 30 days.')
+      secret.deletionDate ??= Date.now() + days * 24 * 60 * 60 * 1000
+      store.put(SERVICE, 'secret', secret.name, secret)
+      return { ARN: secret.arn, Name: secret.name, DeletionDate: seconds(secret.deletionDate) }
+    }
+    case 'RestoreSecret': {
+      const secret = requireSecret(store, input.SecretId, true)
+      delete secret.deletionDate
+      store.put(SERVICE, 'secret', secret.name, secret)
+      return { ARN: secret.arn, Name: secret.name }
+    }
+    case 'TagResource': {
+      const secret = requireSecret(store, input.SecretId)
+      const keys = new Set((input.Tags as Array<{ Key: string }>).map((tag) => tag.Key))
+      secret.tags = [...secret.tags.filter((tag) => !keys.has(tag.Key)), ...input.Tags]
+      store.put(SERVICE, 'secret', secret.name, secret)
+      return {}
+    }
+    case 'UntagResource': {
+      const secret = requireSecret(store, input.SecretId)
+      secret.tags = secret.tags.filter((tag) => !input.TagKeys.includes(tag.Key))
+      store.put(SERVICE, 'secret', secret.name, secret)
+      return {}
+    }
+    case 'GetResourcePolicy': {
+      const secret = requireSecret(store, input.SecretId)
+      return { ARN: secret.arn, Name: secret.name, ResourcePolicy: secret.resourcePolicy }
+    }
+    case 'PutResourcePolicy':
+    case 'DeleteResourcePolicy': {
+      const secret = requireSecret(store, input.SecretId)
+      secret.resourcePolicy = action === 'PutResourcePolicy' ? input.ResourcePolicy : undefined
+      store.put(SERVICE, 'secret', secret.name, secret)
+      return { ARN: secret.arn, Name: secret.name }
+    }
+  }
+  // Rotation needs a Lambda function to run, which the emulator does not have
+  throw notEmulated('Secrets Manager', action)
+}
+
+/**
+ * Secrets Manager JSON protocol: `X-Amz-Target: secretsmanager.<Action>`
+ */
+export function handleSecretsManager(store: EmulatorStore, request: EmulatorRequest): Response {
+  const target = request.headers.get('x-amz-target') ?? ''
+  const action = target.slice(target.indexOf('.') + 1)
+  return jsonResponse(execute(store, request, action, requestJson(request)), CONTENT_TYPE)
+}
@@ -0,0 +1,162 @@
+import type { EmulatorProtocol, EmulatorRequest } from './protocol'
+import { handleDynamoDB } from './dynamodb'
+import { EmulatorError, errorResponse, jsonResponse } from './protocol'
+import { handleS3 } from './s3'
+import { handleSecretsManager } from './secrets-manager'
+import { handleSesV2, listSentEmails } from './sesv2'
+import { handleSqs } from './sqs'
+import { EmulatorStore } from './store'
+
+export type EmulatedService = 's3' | 'sqs' | 'dynamodb' | 'sesv2' | 'secretsmanager'
+
+export const EMULATED_SERVICES: EmulatedService[] = ['s3', 'sqs', 'dynamodb', 'sesv2', 'secretsmanager']
+
+export interface LocalEmulatorOptions {
+  /** @default 4566 */
+  port?: number
+  /** @default '127.0.0.1' */
+  hostname?: string
+  /** Directory the state is kept in; omit to keep it in memory */
+  dataDir?: string
+  /** Region for requests that are not signed @default 'us-east-1' */
+  region?: string
+}
+
+export interface LocalEmulator {
+  url: string
+  port: number
+  store: EmulatorStore
+  stop: () => Promise<void>
+}
+
+const HANDLERS: Record<EmulatedService, (store: EmulatorStore, request: EmulatorRequest) => Response> = {
+  s3: handleS3,
+  sqs: handleSqs,
+  dynamodb: handleDynamoDB,
+  sesv2: handleSesV2,
+  secretsmanager: handleSecretsManager,
+}
+
+const TARGET_PREFIXES: Record<string, EmulatedService> = {
+  DynamoDB_20120810: 'dynamodb',
+  secretsmanager: 'secretsmanager',
+  AmazonSQS: 'sqs',
+}
+
+/** Service and region from the SigV4 credential scope: `<key>/<date>/<region>/<service>/aws4_request`. */
+function credentialScope(request: Request, url: URL): { region?: string; service?: string } {
+  const credential =
+    request.headers.get('authorization')?.match(/Credential=([^,\s]+)/)?.[1] ?? url.searchParams.get('X-Amz-Credential')
+  const [, , region, service] = credential?.split('/') ?? []
+  return { region, service }
+}
+
+/**
+ * Work out which service a request is for: the JSON protocol's `X-Amz-Target`, then the SES v2 path,
+ * then the signing scope. Unsigned requests without a target are S3 requests.
+ */
+export function detectService(request: Request, url: URL): { service: EmulatedService; region?: string } {
+  const scope = credentialScope(request, url)
+  const target = request.headers.get('x-amz-target')
+  if (target) {
+    const service = TARGET_PREFIXES[target.split('.')[0]]
+    if (!service) throw unsupportedService(target.split('.')[0])
+    return { service, region: scope.region }
+  }
+  if (url.pathname.startsWith('/v2/email/') && scope.service !== 's3') return { service: 'sesv2', region: scope.region }
+  if (!scope.service || scope.service === 's3') return { service: 's3', region: scope.region }
+  if (scope.service === 'sqs') return { service: 'sqs', region: scope.region }
+  throw unsupportedService(scope.service)
+}
+
+function unsupportedService(service: string): EmulatorError {
+  return new EmulatorError(
+    'NotEmulated',
+    `The ts-cloud local emulator does not emulate ${service}. ` +
+      'It emulates S3, SQS, DynamoDB, SES v2 and Secrets Manager.',
+  )
+}
+
+function protocolFor(service: EmulatedService | undefined, request: Request): EmulatorProtocol {
+  if (service === 's3') return 'rest-xml'
+  if (service === 'sesv2') return 'rest-json'
+  return request.headers.has('x-amz-target') ? 'json' : 'query'
+}
+
+/** Emulator endpoints under `/_emulator`, which no bucket name can collide with. */
+function internalRoute(store: EmulatorStore, request: Request, url: URL): Response {
+  if (url.pathname === '/_emulator/health') return jsonResponse({ status: 'ok', services: EMULATED_SERVICES })
+  if (url.pathname === '/_emulator/email' && request.method === 'GET')
+    return jsonResponse({ messages: listSentEmails(store) }, 'application/json')
+  if (url.pathname === '/_emulator/email' && request.method === 'DELETE') {
+    store.clear('sesv2', 'message')
+    return new Response(null, { status: 204 })
+  }
+  return new Response('Not found', { status: 404 })
+}
+
+/**
+ * Handle one request against the store. Exposed so tests and other servers can embed the emulator.
+ */
+export async function handleEmulatorRequest(
+  store: EmulatorStore,
+  request: Request,
+  defaultRegion: string = 'us-east-1',
+): Promise<Response> {
+  const url = new URL(request.url)
+  if (url.pathname.startsWith('/_emulator/')) return internalRoute(store, request, url)
+
+  let service: EmulatedService | undefined
+  try {
+    const detected = detectService(request, url)
+    service = detected.service
+    const body = new Uint8Array(await request.arrayBuffer())
+    return HANDLERS[service](store, {
+      method: request.method,
+      url,
+      headers: request.headers,
+      body,
+      region: detected.region ?? defaultRegion,
+    })
+  } catch (error) {
+    const emulatorError =
+      error instanceof EmulatorError
+        ? error
+        : new EmulatorError('InternalFailure', error instanceof Error ? error.message : String(error), 500)
+    return errorResponse(emulatorError, protocolFor(service, request))
+  }
+}
+
+/**
+ * Start the local AWS emulator. Point clients at it with `AWS_ENDPOINT_URL`; see `emulatorEnvironment`.
+ */
+export function startLocalEmulator(options: LocalEmulatorOptions = {}): LocalEmulator {
+  const store = new EmulatorStore(options.dataDir)
+  const region = options.region ?? 'us-east-1'
+  const server = Bun.serve({
+    port: options.port ?? 4566,
+    hostname: options.hostname ?? '127.0.0.1',
+    fetch: (request) => handleEmulatorRequest(store, request, region),
+  })
+  const port = server.port ?? options.port ?? 4566
+  return {
+    url: `http://${options.hostname ?? '127.0.0.1'}:${port}`,
+    port,
+    store,
+    stop: async () => {
+      await server.stop(true)
+      store.close()
+    },
+  }
+}
+
+/** Environment variables that point the `aws/*` clients at an emulator. */
+export function emulatorEnvironment(url: string, region: string = 'us-east-1'): Record<string, string> {
+  return {
+    AWS_ENDPOINT_URL: url,
+    AWS_ACCESS_KEY_ID: 'test',
+    AWS_SECRET_ACCESS_KEY: 'test',
+    AWS_REGION: region,
+    AWS_DEFAULT_REGION: region,
+  }
+}
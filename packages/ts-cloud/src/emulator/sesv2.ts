@@ -0,0 +1,312 @@
+import type { EmulatorRequest } from './protocol'
+import type { EmulatorStore } from './store'
+import { EmulatorError, jsonResponse, notEmulated, requestJson } from './protocol'
+
+const SERVICE = 'sesv2'
+const CONTENT_TYPE = 'application/json'
+
+interface IdentityData {
+  name: string
+  type: 'EMAIL_ADDRESS' | 'DOMAIN'
+  createdAt: number
+  dkimSigningEnabled: boolean
+  mailFrom?: { MailFromDomain: string; BehaviorOnMxFailure?: string }
+  tags: Array<{ Key: string; Value: string }>
+}
+
+interface TemplateData {
+  TemplateName: string
+  TemplateContent: { Subject?: string; Text?: string; Html?: string }
+  createdAt: number
+}
+
+/** A message SendEmail or SendBulkEmail accepted, kept in the emulator's outbox. */
+export interface EmulatedEmail {
+  messageId: string
+  sentAt: string
+  from: string
+  to: string[]
+  cc: string[]
+  bcc: string[]
+  replyTo: string[]
+  subject?: string
+  text?: string
+  html?: string
+  /** Decoded MIME message, for raw sends */
+  raw?: string
+  template?: string
+}
+
+function notFound(message: string): EmulatorError {
+  return new EmulatorError('NotFoundException', message, 404)
+}
+
+function identityType(name: string): IdentityData['type'] {
+  return name.includes('@') ? 'EMAIL_ADDRESS' : 'DOMAIN'
+}
+
+function render(text: string | undefined, data: Record<string, unknown>): string | undefined {
+  return text?.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) => {
+    const value = name.split('.').reduce<any>((current, part) => current?.[part], data)
+    return value === undefined ? '' : String(value)
+  })
+}
+
+/** Messages sent through the emulator, oldest first. */
+export function listSentEmails(store: EmulatorStore): EmulatedEmail[] {
+  return store.list<EmulatedEmail>(SERVICE, 'message').map(({ data }) => data)
+}
+
+/** Register an identity as verified, or do nothing when it exists. */
+export function ensureIdentity(store: EmulatorStore, name: string): void {
+  if (store.get(SERVICE, 'identity', name)) return
+  store.put<IdentityData>(SERVICE, 'identity', name, {
+    name,
+    type: identityType(name),
+    createdAt: Date.now(),
+    dkimSigningEnabled: true,
+    tags: [],
+  })
+}
+
+function requireIdentity(store: EmulatorStore, name: string): IdentityData {
+  const record = store.get<IdentityData>(SERVICE, 'identity', name)
+  if (!record) throw notFound(`Email identity ${name} does not exist.`)
+  return record.data
+}
+
+function requireTemplate(store: EmulatorStore, name: string): TemplateData {
+  const record = store.get<TemplateData>(SERVICE, 'template', name)
+  if (!record) throw notFound(`Email template ${name} does not exist.`)
+  return record.data
+}
+
+function dkimAttributes(identity: IdentityData) {
+  return {
+    SigningEnabled: identity.dkimSigningEnabled,
+    Status: 'SUCCESS',
+    Tokens: identity.type === 'DOMAIN' ? ['local1', 'local2', 'local3'] : [],
+    SigningAttributesOrigin: 'AWS_SES',
+  }
+}
+
+function page<T>(items: T[], query: URLSearchParams): { items: T[]; NextToken?: string } {
+  const start = Number(query.get('NextToken') ?? 0)
+  const size = Number(query.get('PageSize') ?? 1000)
+  const next = start + size < items.length ? String(start + size) : undefined
+  return { items: items.slice(start, start + size), NextToken: next }
+}
+
+function sendEmail(store: EmulatorStore, input: Record<string, any>, destination = input.Destination): string {
+  if (!input.FromEmailAddress && !input.Content?.Raw)
+    throw new EmulatorError('BadRequestException', 'FromEmailAddress is required.')
+  const email: EmulatedEmail = {
+    messageId: `${Date.now().toString().padStart(15, '0')}-${crypto.randomUUID()}`,
+    sentAt: new Date().toISOString(),
+    from: input.FromEmailAddress ?? '',
+    to: destination?.ToAddresses ?? [],
+    cc: destination?.CcAddresses ?? [],
+    bcc: destination?.BccAddresses ?? [],
+    replyTo: input.ReplyToAddresses ?? [],
+  }
+  const content = input.Content ?? input.DefaultContent
+  if (content?.Simple) {
+    email.subject = content.Simple.Subject?.Data
+    email.text = content.Simple.Body?.Text?.Data
+    email.html = content.Simple.Body?.Html?.Data
+  } else if (content?.Raw) {
+    email.raw = Buffer.from(content.Raw.Data, 'base64').toString()
+  } else if (content?.Template) {
+    const template = requireTemplate(store, content.Template.TemplateName)
+    const data = JSON.parse(input.TemplateData ?? content.Template.TemplateData ?? '{}')
+    email.template = template.TemplateName
+    email.subject = render(template.TemplateContent.Subject, data)
+    email.text = render(template.TemplateContent.Text, data)
+    email.html = render(template.TemplateContent.Html, data)
+  } else {
+    throw new EmulatorError('BadRequestException', 'Content must contain Simple, Raw or Template.')
+  }
+  store.put(SERVICE, 'message', email.messageId, email)
+  return email.messageId
+}
+
+function identities(store: EmulatorStore, request: EmulatorRequest, parts: string[]): unknown {
+  const { method } = request
+  if (!parts.length && method === 'POST') {
+    const input = requestJson(request)
+    if (store.get(SERVICE, 'identity', input.EmailIdentity))
+      throw new EmulatorError('AlreadyExistsException', `Email identity ${input.EmailIdentity} already exist.`)
+    ensureIdentity(store, input.EmailIdentity)
+    const identity = { ...requireIdentity(store, input.EmailIdentity), tags: input.Tags ?? [] }
+    store.put(SERVICE, 'identity', identity.name, identity)
+    return { IdentityType: identity.type, VerifiedForSendingStatus: true, DkimAttributes: dkimAttributes(identity) }
+  }
+  if (!parts.length && method === 'GET') {
+    const all = store.list<IdentityData>(SERVICE, 'identity').map(({ data }) => ({
+      IdentityType: data.type,
+      IdentityName: data.name,
+      SendingEnabled: true,
+      VerificationStatus: 'SUCCESS',
+    }))
+    const { items, NextToken } = page(all, request.url.searchParams)
+    return { EmailIdentities: items, NextToken }
+  }
+
+  const identity = requireIdentity(store, decodeURIComponent(parts[0]))
+  if (parts.length === 1 && method === 'GET')
+    return {
+      IdentityType: identity.type,
+      VerifiedForSendingStatus: true,
+      VerificationStatus: 'SUCCESS',
+      FeedbackForwardingStatus: true,
+      DkimAttributes: dkimAttributes(identity),
+      MailFromAttributes: identity.mailFrom
+        ? {
+            MailFromDomain: identity.mailFrom.MailFromDomain,
+            MailFromDomainStatus: 'SUCCESS',
+            BehaviorOnMxFailure: identity.mailFrom.BehaviorOnMxFailure ?? 'USE_DEFAULT_VALUE',
+          }
+        : undefined,
+      Tags: identity.tags,
+    }
+  if (parts.length === 1 && method === 'DELETE') {
+    store.delete(SERVICE, 'identity', identity.name)
+    return {}
+  }
+  if (parts[1] === 'mail-from' && method === 'PUT') {
+    const input = requestJson(request)
+    store.put(SERVICE, 'identity', identity.name, {
+      ...identity,
+      mailFrom: input.MailFromDomain ? input : undefined,
+    })
+    return {}
+  }
+  if (parts[1] === 'dkim' && method === 'PUT') {
+    store.put(SERVICE, 'identity', identity.name, {
+      ...identity,
+      dkimSigningEnabled: !!requestJson(request).SigningEnabled,
+    })
+    return {}
+  }
+  throw notEmulated('SES v2', `${method} /v2/email/identities/${parts.join('/')}`)
+}
+
+function templates(store: EmulatorStore, request: EmulatorRequest, parts: string[]): unknown {
+  const { method } = request
+  if (!parts.length && method === 'POST') {
+    const input = requestJson(request)
+    if (store.get(SERVICE, 'template', input.TemplateName))
+      throw new EmulatorError('AlreadyExistsException', `Template ${input.TemplateName} already exists.`)
+    store.put<TemplateData>(SERVICE, 'template', input.TemplateName, {
+      TemplateName: input.TemplateName,
+      TemplateContent: input.TemplateContent ?? {},
+      createdAt: Date.now(),
+    })
+    return {}
+  }
+  if (!parts.length && method === 'GET') {
+    const all = store.list<TemplateData>(SERVICE, 'template').map(({ data }) => ({
+      TemplateName: data.TemplateName,
+      CreatedTimestamp: data.createdAt / 1000,
+    }))
+    const { items, NextToken } = page(all, request.url.searchParams)
+    return { TemplatesMetadata: items, NextToken }
+  }
+
+  const template = requireTemplate(store, decodeURIComponent(parts[0]))
+  if (method === 'GET') return { TemplateName: template.TemplateName, TemplateContent: template.TemplateContent }
+  if (method === 'PUT') {
+    store.put(SERVICE, 'template', template.TemplateName, {
+      ...template,
+      TemplateContent: requestJson(request).TemplateContent ?? {},
+    })
+    return {}
+  }
+  if (method === 'DELETE') {
+    store.delete(SERVICE, 'template', template.TemplateName)
+    return {}
+  }
+  throw notEmulated('SES v2', `${method} /v2/email/templates/${parts.join('/')}`)
+}
+
+function suppression(store: EmulatorStore, request: EmulatorRequest, parts: string[]): unknown {
+  const { method } = request
+  if (!parts.length && method === 'PUT') {
+    const input = requestJson(request)
+    store.put(SERVICE, 'suppressed', input.EmailAddress, {
+      EmailAddress: input.EmailAddress,
+      Reason: input.Reason ?? 'BOUNCE',
+      LastUpdateTime: Date.now() / 1000,
+    })
+    return {}
+  }
+  if (!parts.length && method === 'GET')
+    return { SuppressedDestinationSummaries: store.list(SERVICE, 'suppressed').map(({ data }) => data) }
+
+  const address = decodeURIComponent(parts[0])
+  const record = store.get(SERVICE, 'suppressed', address)
+  if (!record) throw notFound(`Email address ${address} does not exist on your suppression list.`)
+  if (method === 'GET') return { SuppressedDestination: record.data }
+  if (method === 'DELETE') {
+    store.delete(SERVICE, 'suppressed', address)
+    return {}
+  }
+  throw notEmulated('SES v2', `${method} /v2/email/suppression/addresses/${parts.join('/')}`)
+}
+
+function route(store: EmulatorStore, request: EmulatorRequest): unknown {
+  const [resource, ...parts] = request.url.pathname.replace(/^\/v2\/email\/?/, '').split('/').filter(Boolean)
+  const { method } = request
+  switch (resource) {
+    case 'identities':
+      return identities(store, request, parts)
+    case 'templates':
+      return templates(store, request, parts)
+    case 'suppression':
+      if (parts[0] === 'addresses') return suppression(store, request, parts.slice(1))
+      break
+    case 'outbound-emails':
+      if (method === 'POST') return { MessageId: sendEmail(store, requestJson(request)) }
+      break
+    case 'outbound-bulk-emails':
+      if (method === 'POST') {
+        const input = requestJson(request)
+        return {
+          BulkEmailEntryResults: (input.BulkEmailEntries ?? []).map((entry: Record<string, any>) => ({
+            Status: 'SUCCESS',
+            MessageId: sendEmail(
+              store,
+              {
+                ...input,
+                TemplateData:
+                  entry.ReplacementEmailContent?.ReplacementTemplate?.ReplacementTemplateData ??
+                  input.DefaultContent?.Template?.TemplateData,
+              },
+              entry.Destination,
+            ),
+          })),
+        }
+      }
+      break
+    case 'account':
+      if (method === 'GET') {
+        const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+        const sent = listSentEmails(store).filter((email) => email.sentAt > since).length
+        return {
+          ProductionAccessEnabled: true,
+          SendingEnabled: true,
+          EnforcementStatus: 'HEALTHY',
+          SendQuota: { Max24HourSend: 50000, MaxSendRate: 14, SentLast24Hours: sent },
+        }
+      }
+  }
+  throw notEmulated('SES v2', `${method} ${request.url.pathname}`)
+}
+
+/**
+ * SES v2 REST JSON API under `/v2/email`. Identities are verified as soon as they are created, and sent
+ * messages are kept in an outbox instead of being delivered.
+ */
+export function handleSesV2(store: EmulatorStore, request: EmulatorRequest): Response {
+  return jsonResponse(route(store, request), CONTENT_TYPE)
+}
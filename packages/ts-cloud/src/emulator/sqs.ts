@@ -0,0 +1,508 @@
+import type { EmulatorRequest } from './protocol'
+import type { EmulatorStore } from './store'
+import { createHash } from 'node:crypto'
+import {
+  EMULATOR_ACCOUNT_ID,
+  EmulatorError,
+  jsonResponse,
+  notEmulated,
+  requestJson,
+  requestText,
+  xmlResponse,
+} from './protocol'
+
+const SERVICE = 'sqs'
+const XMLNS = 'http://queue.amazonaws.com/doc/2012-11-05/'
+
+interface QueueData {
+  name: string
+  region: string
+  createdAt: number
+  modifiedAt: number
+  attributes: Record<string, string>
+  tags: Record<string, string>
+}
+
+interface MessageData {
+  messageId: string
+  body: string
+  md5: string
+  sentAt: number
+  visibleAt: number
+  receiveCount: number
+  firstReceivedAt?: number
+  receiptHandle?: string
+  messageAttributes?: Record<string, any>
+  groupId?: string
+  deduplicationId?: string
+}
+
+const DEFAULT_ATTRIBUTES: Record<string, string> = {
+  VisibilityTimeout: '30',
+  MessageRetentionPeriod: '345600',
+  DelaySeconds: '0',
+  MaximumMessageSize: '262144',
+  ReceiveMessageWaitTimeSeconds: '0',
+}
+
+/** FIFO queues drop a repeated deduplication ID sent within this window. */
+const DEDUPLICATION_WINDOW_MS = 5 * 60 * 1000
+
+let sequence = 0
+
+function md5(value: string): string {
+  return createHash('md5').update(value).digest('hex')
+}
+
+/** Sortable message ID so messages list in the order they were sent. */
+function nextMessageKey(): string {
+  sequence = (sequence + 1) % 1_000_000
+  return `${Date.now().toString().padStart(15, '0')}-${sequence.toString().padStart(6, '0')}`
+}
+
+/**
+ * Collect `Prefix.N.Field` query parameters into an array of objects, e.g.
+ * `Attribute.1.Name=DelaySeconds&Attribute.1.Value=5` → `[{ Name: 'DelaySeconds', Value: '5' }]`.
+ */
+function indexed(params: URLSearchParams, prefix: string): Array<Record<string, any>> {
+  const entries = new Map<number, Record<string, any>>()
+  for (const [name, value] of params) {
+    if (!name.startsWith(`${prefix}.`)) continue
+    const [index, ...path] = name.slice(prefix.length + 1).split('.')
+    const entry = entries.get(Number(index)) ?? {}
+    entries.set(Number(index), entry)
+    let target = entry
+    for (const part of path.slice(0, -1)) target = target[part] ??= {}
+    if (path.length) target[path.at(-1)!] = value
+    else entry.value = value
+  }
+  return [...entries.entries()].sort(([a], [b]) => a - b).map(([, entry]) => entry)
+}
+
+function messageAttributes(entries: Array<Record<string, any>>): Record<string, any> | undefined {
+  if (!entries.length) return undefined
+  return Object.fromEntries(entries.map((entry) => [entry.Name, entry.Value]))
+}
+
+/** Turn query-protocol parameters into the JSON-protocol request shape. */
+function queryInput(params: URLSearchParams): Record<string, any> {
+  const input: Record<string, any> = Object.fromEntries(
+    [...params].filter(([name]) => !name.includes('.') && name !== 'Action' && name !== 'Version'),
+  )
+  const attributes = indexed(params, 'Attribute')
+  if (attributes.length) input.Attributes = Object.fromEntries(attributes.map((entry) => [entry.Name, entry.Value]))
+  const names = indexed(params, 'AttributeName').map((entry) => entry.value)
+  if (names.length) input.AttributeNames = names
+  const tags = indexed(params, 'Tag')
+  if (tags.length) input.tags = Object.fromEntries(tags.map((entry) => [entry.Key, entry.Value]))
+  input.MessageAttributes = messageAttributes(indexed(params, 'MessageAttribute'))
+  for (const prefix of ['SendMessageBatchRequestEntry', 'DeleteMessageBatchRequestEntry']) {
+    const entries = indexed(params, prefix)
+    if (entries.length)
+      input.Entries = entries.map((entry) => ({
+        ...entry,
+        MessageAttributes: messageAttributes(indexed(new URLSearchParams(flatten(entry)), 'MessageAttribute')),
+      }))
+  }
+  for (const name of ['MaxNumberOfMessages', 'VisibilityTimeout', 'WaitTimeSeconds', 'DelaySeconds']) {
+    if (input[name] !== undefined) input[name] = Number(input[name])
+  }
+  return input
+}
+
+function flatten(value: Record<string, any>, prefix = ''): Array<[string, string]> {
+  return Object.entries(value).flatMap(([key, child]) =>
+    typeof child === 'object' && child !== null
+      ? flatten(child, `${prefix}${key}.`)
+      : [[`${prefix}${key}`, String(child)] as [string, string]],
+  )
+}
+
+function queueArn(queue: QueueData): string {
+  return `arn:aws:sqs:${queue.region}:${EMULATOR_ACCOUNT_ID}:${queue.name}`
+}
+
+function queueName(input: Record<string, any>): string {
+  const url = input.QueueUrl as string | undefined
+  if (!url) throw new EmulatorError('MissingParameter', 'The request must contain the parameter QueueUrl.')
+  return decodeURIComponent(url.replace(/\/+$/, '').split('/').at(-1)!)
+}
+
+function requireQueue(store: EmulatorStore, name: string): QueueData {
+  const record = store.get<QueueData>(SERVICE, 'queue', name)
+  if (!record)
+    throw new EmulatorError(
+      'AWS.SimpleQueueService.NonExistentQueue',
+      'The specified queue does not exist for this wsdl version.',
+    )
+  return record.data
+}
+
+function validateAttributes(name: string, attributes: Record<string, string>): void {
+  if (name.endsWith('.fifo') !== (attributes.FifoQueue === 'true'))
+    throw new EmulatorError('InvalidParameterValue', 'A FIFO queue name must end with .fifo and set FifoQueue to true.')
+  for (const attribute of ['VisibilityTimeout', 'MessageRetentionPeriod', 'DelaySeconds', 'MaximumMessageSize']) {
+    if (attributes[attribute] !== undefined && !/^\d+$/.test(attributes[attribute]))
+      throw new EmulatorError('InvalidAttributeValue', `Invalid value for the parameter ${attribute}.`)
+  }
+}
+
+/** Create a queue, or return the existing one when its attributes match. */
+export function ensureQueue(
+  store: EmulatorStore,
+  name: string,
+  region: string,
+  attributes: Record<string, string> = {},
+  tags: Record<string, string> = {},
+): void {
+  if (!/^[\w-]{1,80}(\.fifo)?$/.test(name))
+    throw new EmulatorError('InvalidParameterValue', `Queue name ${name} is not valid.`)
+  const merged = { ...DEFAULT_ATTRIBUTES, ...attributes }
+  validateAttributes(name, merged)
+  const existing = store.get<QueueData>(SERVICE, 'queue', name)
+  if (existing) {
+    const differs = Object.entries(attributes).some(([key, value]) => existing.data.attributes[key] !== value)
+    if (differs)
+      throw new EmulatorError('QueueAlreadyExists', `A queue named ${name} already exists with different attributes.`)
+    return
+  }
+  const now = Date.now()
+  const queue: QueueData = { name, region, createdAt: now, modifiedAt: now, attributes: merged, tags }
+  store.put(SERVICE, 'queue', name, queue)
+}
+
+function liveMessages(store: EmulatorStore, queue: QueueData): Array<{ id: string; data: MessageData }> {
+  const retention = Number(queue.attributes.MessageRetentionPeriod) * 1000
+  const now = Date.now()
+  return store.list<MessageData>(SERVICE, `message:${queue.name}`).filter(({ id, data }) => {
+    if (data.sentAt + retention > now) return true
+    store.delete(SERVICE, `message:${queue.name}`, id)
+    return false
+  })
+}
+
+function sendMessage(store: EmulatorStore, queue: QueueData, entry: Record<string, any>): Record<string, any> {
+  const body = entry.MessageBody as string | undefined
+  if (!body) throw new EmulatorError('MissingParameter', 'The request must contain the parameter MessageBody.')
+  if (new TextEncoder().encode(body).byteLength > Number(queue.attributes.MaximumMessageSize))
+    throw new EmulatorError('InvalidParameterValue', 'The message body is longer than the queue allows.')
+
+  const fifo = queue.attributes.FifoQueue === 'true'
+  const now = Date.now()
+  let deduplicationId: string | undefined
+  if (fifo) {
+    if (!entry.MessageGroupId)
+      throw new EmulatorError('MissingParameter', 'The request must contain the parameter MessageGroupId.')
+    deduplicationId =
+      entry.MessageDeduplicationId ?? (queue.attributes.ContentBasedDeduplication === 'true' ? sha256(body) : undefined)
+    if (!deduplicationId)
+      throw new EmulatorError(
+        'InvalidParameterValue',
+        'The queue should either have ContentBasedDeduplication enabled or MessageDeduplicationId provided explicitly',
+      )
+    const duplicate = store.get<{ messageId: string; expiresAt: number }>(
+      SERVICE,
+      `dedup:${queue.name}`,
+      deduplicationId,
+    )
+    if (duplicate && duplicate.data.expiresAt > now)
+      return { MessageId: duplicate.data.messageId, MD5OfMessageBody: md5(body) }
+  }
+
+  const delay = fifo ? 0 : Number(entry.DelaySeconds ?? queue.attributes.DelaySeconds)
+  const message: MessageData = {
+    messageId: crypto.randomUUID(),
+    body,
+    md5: md5(body),
+    sentAt: now,
+    visibleAt: now + delay * 1000,
+    receiveCount: 0,
+    messageAttributes: entry.MessageAttributes,
+    groupId: entry.MessageGroupId,
+    deduplicationId,
+  }
+  store.transaction(() => {
+    store.put(SERVICE, `message:${queue.name}`, nextMessageKey(), message)
+    if (deduplicationId)
+      store.put(SERVICE, `dedup:${queue.name}`, deduplicationId, {
+        messageId: message.messageId,
+        expiresAt: now + DEDUPLICATION_WINDOW_MS,
+      })
+  })
+  return {
+    MessageId: message.messageId,
+    MD5OfMessageBody: message.md5,
+    ...(fifo ? { SequenceNumber: `${now}${sequence}` } : {}),
+  }
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function deadLetterQueue(
+  store: EmulatorStore,
+  queue: QueueData,
+): { queue: QueueData; maxReceiveCount: number } | undefined {
+  if (!queue.attributes.RedrivePolicy) return undefined
+  const policy = JSON.parse(queue.attributes.RedrivePolicy) as {
+    deadLetterTargetArn?: string
+    maxReceiveCount?: number
+  }
+  const name = policy.deadLetterTargetArn?.split(':').at(-1)
+  const target = name ? store.get<QueueData>(SERVICE, 'queue', name) : undefined
+  return target ? { queue: target.data, maxReceiveCount: Number(policy.maxReceiveCount ?? 10) } : undefined
+}
+
+/**
+ * Receive visible messages. Long polling returns straight away instead of waiting for messages.
+ */
+function receiveMessages(store: EmulatorStore, queue: QueueData, input: Record<string, any>): Record<string, any>[] {
+  const max = Math.min(Math.max(Number(input.MaxNumberOfMessages ?? 1), 1), 10)
+  const visibility = Number(input.VisibilityTimeout ?? queue.attributes.VisibilityTimeout)
+  const deadLetter = deadLetterQueue(store, queue)
+  const now = Date.now()
+  const received: Record<string, any>[] = []
+  const busyGroups = new Set<string>()
+
+  for (const { id, data } of liveMessages(store, queue)) {
+    if (received.length >= max) break
+    if (data.visibleAt > now) {
+      if (data.groupId) busyGroups.add(data.groupId)
+      continue
+    }
+    if (data.groupId && busyGroups.has(data.groupId)) continue
+    if (deadLetter && data.receiveCount >= deadLetter.maxReceiveCount) {
+      store.transaction(() => {
+        store.delete(SERVICE, `message:${queue.name}`, id)
+        store.put(SERVICE, `message:${deadLetter.queue.name}`, nextMessageKey(), {
+          ...data,
+          visibleAt: now,
+          receiptHandle: undefined,
+        })
+      })
+      continue
+    }
+
+    data.receiveCount++
+    data.firstReceivedAt ??= now
+    data.visibleAt = now + visibility * 1000
+    data.receiptHandle = `${id}.${crypto.randomUUID()}`
+    store.put(SERVICE, `message:${queue.name}`, id, data)
+    received.push({
+      MessageId: data.messageId,
+      ReceiptHandle: data.receiptHandle,
+      MD5OfBody: data.md5,
+      Body: data.body,
+      Attributes: {
+        SenderId: EMULATOR_ACCOUNT_ID,
+        SentTimestamp: String(data.sentAt),
+        ApproximateReceiveCount: String(data.receiveCount),
+        ApproximateFirstReceiveTimestamp: String(data.firstReceivedAt),
+        ...(data.groupId ? { MessageGroupId: data.groupId } : {}),
+        ...(data.deduplicationId ? { MessageDeduplicationId: data.deduplicationId } : {}),
+      },
+      MessageAttributes: data.messageAttributes,
+    })
+  }
+  return received
+}
+
+/** Find a message by receipt handle; the handle starts with the message's storage key. */
+function messageByReceipt(
+  store: EmulatorStore,
+  queue: QueueData,
+  receiptHandle: string | undefined,
+): { id: string; data: MessageData } | undefined {
+  if (!receiptHandle)
+    throw new EmulatorError('MissingParameter', 'The request must contain the parameter ReceiptHandle.')
+  const id = receiptHandle.split('.')[0]
+  const record = store.get<MessageData>(SERVICE, `message:${queue.name}`, id)
+  if (record?.data.receiptHandle !== receiptHandle) return undefined
+  return { id, data: record.data }
+}
+
+function queueAttributes(store: EmulatorStore, queue: QueueData, names: string[] = ['All']): Record<string, string> {
+  const now = Date.now()
+  const messages = liveMessages(store, queue)
+  const inFlight = messages.filter(({ data }) => data.receiveCount > 0 && data.visibleAt > now).length
+  const delayed = messages.filter(({ data }) => data.receiveCount === 0 && data.visibleAt > now).length
+  const all: Record<string, string> = {
+    ...queue.attributes,
+    QueueArn: queueArn(queue),
+    ApproximateNumberOfMessages: String(messages.length - inFlight - delayed),
+    ApproximateNumberOfMessagesNotVisible: String(inFlight),
+    ApproximateNumberOfMessagesDelayed: String(delayed),
+    CreatedTimestamp: String(Math.floor(queue.createdAt / 1000)),
+    LastModifiedTimestamp: String(Math.floor(queue.modifiedAt / 1000)),
+  }
+  if (names.includes('All')) return all
+  return Object.fromEntries(Object.entries(all).filter(([name]) => names.includes(name)))
+}
+
+function queueUrl(request: EmulatorRequest, name: string): string {
+  return `${request.url.origin}/${EMULATOR_ACCOUNT_ID}/${encodeURIComponent(name)}`
+}
+
+function batch(
+  entries: Array<Record<string, any>> | undefined,
+  run: (entry: Record<string, any>) => Record<string, any>,
+): Record<string, any> {
+  if (!entries?.length)
+    throw new EmulatorError(
+      'AWS.SimpleQueueService.EmptyBatchRequest',
+      'There should be at least one entry in the request.',
+    )
+  if (entries.length > 10)
+    throw new EmulatorError(
+      'AWS.SimpleQueueService.TooManyEntriesInBatchRequest',
+      'Maximum number of entries per request are 10.',
+    )
+  const Successful: Record<string, any>[] = []
+  const Failed: Record<string, any>[] = []
+  for (const entry of entries) {
+    try {
+      Successful.push({ Id: entry.Id, ...run(entry) })
+    } catch (error) {
+      if (!(error instanceof EmulatorError)) throw error
+      Failed.push({ Id: entry.Id, SenderFault: true, Code: error.code, Message: error.message })
+    }
+  }
+  return { Successful, Failed }
+}
+
+function execute(
+  store: EmulatorStore,
+  request: EmulatorRequest,
+  action: string,
+  input: Record<string, any>,
+): Record<string, any> {
+  switch (action) {
+    case 'CreateQueue': {
+      ensureQueue(store, input.QueueName, request.region, input.Attributes, input.tags)
+      return { QueueUrl: queueUrl(request, input.QueueName) }
+    }
+    case 'GetQueueUrl':
+      return { QueueUrl: queueUrl(request, requireQueue(store, input.QueueName).name) }
+    case 'ListQueues': {
+      const queues = store.list<QueueData>(SERVICE, 'queue', { prefix: input.QueueNamePrefix })
+      return { QueueUrls: queues.map(({ id }) => queueUrl(request, id)) }
+    }
+    case 'GetQueueAttributes':
+      return { Attributes: queueAttributes(store, requireQueue(store, queueName(input)), input.AttributeNames) }
+    case 'SetQueueAttributes': {
+      const queue = requireQueue(store, queueName(input))
+      const attributes = { ...queue.attributes, ...input.Attributes }
+      validateAttributes(queue.name, attributes)
+      store.put(SERVICE, 'queue', queue.name, { ...queue, attributes, modifiedAt: Date.now() })
+      return {}
+    }
+    case 'TagQueue': {
+      const queue = requireQueue(store, queueName(input))
+      store.put(SERVICE, 'queue', queue.name, { ...queue, tags: { ...queue.tags, ...(input.Tags ?? input.tags) } })
+      return {}
+    }
+    case 'ListQueueTags':
+      return { Tags: requireQueue(store, queueName(input)).tags }
+    case 'DeleteQueue': {
+      const queue = requireQueue(store, queueName(input))
+      store.transaction(() => {
+        store.clear(SERVICE, `message:${queue.name}`)
+        store.clear(SERVICE, `dedup:${queue.name}`)
+        store.delete(SERVICE, 'queue', queue.name)
+      })
+      return {}
+    }
+    case 'PurgeQueue': {
+      const queue = requireQueue(store, queueName(input))
+      store.clear(SERVICE, `message:${queue.name}`)
+      return {}
+    }
+    case 'SendMessage':
+      return sendMessage(store, requireQueue(store, queueName(input)), input)
+    case 'SendMessageBatch': {
+      const queue = requireQueue(store, queueName(input))
+      return batch(input.Entries, (entry) => sendMessage(store, queue, entry))
+    }
+    case 'ReceiveMessage':
+      return { Messages: receiveMessages(store, requireQueue(store, queueName(input)), input) }
+    case 'DeleteMessage': {
+      const queue = requireQueue(store, queueName(input))
+      const message = messageByReceipt(store, queue, input.ReceiptHandle)
+      if (message) store.delete(SERVICE, `message:${queue.name}`, message.id)
+      return {}
+    }
+    case 'DeleteMessageBatch': {
+      const queue = requireQueue(store, queueName(input))
+      return batch(input.Entries, (entry) => {
+        const message = messageByReceipt(store, queue, entry.ReceiptHandle)
+        if (message) store.delete(SERVICE, `message:${queue.name}`, message.id)
+        return {}
+      })
+    }
+    case 'ChangeMessageVisibility': {
+      const queue = requireQueue(store, queueName(input))
+      const message = messageByReceipt(store, queue, input.ReceiptHandle)
+      if (!message)
+        throw new EmulatorError(
+          'ReceiptHandleIsInvalid',
+          `The input receipt handle "${input.ReceiptHandle}" is not valid.`,
+        )
+      message.data.visibleAt = Date.now() + Number(input.VisibilityTimeout) * 1000
+      store.put(SERVICE, `message:${queue.name}`, message.id, message.data)
+      return {}
+    }
+  }
+  throw notEmulated('SQS', action)
+}
+
+/** Query-protocol XML for a result in the JSON-protocol shape. */
+function queryResult(action: string, result: Record<string, any>): Record<string, unknown> {
+  const attributeList = (attributes?: Record<string, string>) =>
+    Object.entries(attributes ?? {}).map(([Name, Value]) => ({ Name, Value }))
+  switch (action) {
+    case 'ListQueues':
+      return { QueueUrl: result.QueueUrls }
+    case 'GetQueueAttributes':
+      return { Attribute: attributeList(result.Attributes) }
+    case 'ListQueueTags':
+      return { Tag: Object.entries(result.Tags ?? {}).map(([Key, Value]) => ({ Key, Value })) }
+    case 'ReceiveMessage':
+      return {
+        Message: result.Messages.map((message: Record<string, any>) => ({
+          ...message,
+          Attributes: undefined,
+          Attribute: attributeList(message.Attributes),
+          MessageAttributes: undefined,
+          MessageAttribute: Object.entries(message.MessageAttributes ?? {}).map(([Name, Value]) => ({ Name, Value })),
+        })),
+      }
+    case 'SendMessageBatch':
+    case 'DeleteMessageBatch':
+      return { [`${action}ResultEntry`]: result.Successful, BatchResultErrorEntry: result.Failed }
+  }
+  return result
+}
+
+/**
+ * SQS over the query protocol (form-encoded `Action=...`) and the JSON protocol (`X-Amz-Target: AmazonSQS.*`)
+ */
+export function handleSqs(store: EmulatorStore, request: EmulatorRequest): Response {
+  const target = request.headers.get('x-amz-target')
+  if (target) {
+    const action = target.slice(target.indexOf('.') + 1)
+    return jsonResponse(execute(store, request, action, requestJson(request)))
+  }
+  const params = new URLSearchParams(request.method === 'GET' ? request.url.search : requestText(request))
+  const action = params.get('Action')
+  if (!action) throw new EmulatorError('MissingAction', 'The request must contain the parameter Action.')
+  const result = execute(store, request, action, queryInput(params))
+  return xmlResponse(
+    `${action}Response`,
+    {
+      [`${action}Result`]: queryResult(action, result),
+      ResponseMetadata: { RequestId: crypto.randomUUID() },
+    },
+    { xmlns: XMLNS },
+  )
+}
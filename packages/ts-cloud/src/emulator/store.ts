@@ -0,0 +1,86 @@
+import type { SQLQueryBindings } from 'bun:sqlite'
+import { Database } from 'bun:sqlite'
+import { mkdirSync } from 'node:fs'
+import { join } from 'node:path'
+
+export interface EmulatorRecord<T = any> {
+  id: string
+  data: T
+  body?: Uint8Array
+}
+
+/**
+ * Emulator state, one row per resource. Every service keeps its resources in collections,
+ * e.g. `s3` / `bucket` or `sqs` / `message:orders`, and object bodies in the `body` column.
+ * Passing `:memory:` keeps the state for the life of the process.
+ */
+export class EmulatorStore {
+  readonly database: Database
+
+  constructor(readonly dataDir: string = ':memory:') {
+    const path = dataDir === ':memory:' ? dataDir : join(dataDir, 'emulator.sqlite')
+    if (dataDir !== ':memory:') mkdirSync(dataDir, { recursive: true })
+    this.database = new Database(path, { create: true, strict: true })
+    if (dataDir !== ':memory:') this.database.run('PRAGMA journal_mode = WAL')
+    this.database.run(`CREATE TABLE IF NOT EXISTS resources (
+      service TEXT NOT NULL,
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      body BLOB,
+      PRIMARY KEY (service, collection, id)
+    )`)
+  }
+
+  get<T = any>(service: string, collection: string, id: string): EmulatorRecord<T> | undefined {
+    const row = this.database
+      .query('SELECT id, data, body FROM resources WHERE service = ? AND collection = ? AND id = ?')
+      .get(service, collection, id) as { id: string; data: string; body: Uint8Array | null } | null
+    return row ? { id: row.id, data: JSON.parse(row.data), body: row.body ?? undefined } : undefined
+  }
+
+  /** Records in `id` order, optionally only those whose id starts with `prefix`. */
+  list<T = any>(
+    service: string,
+    collection: string,
+    options: { prefix?: string; bodies?: boolean } = {},
+  ): EmulatorRecord<T>[] {
+    const where = ['service = ?', 'collection = ?']
+    const bindings: SQLQueryBindings[] = [service, collection]
+    if (options.prefix) {
+      where.push('substr(id, 1, ?) = ?')
+      bindings.push(options.prefix.length, options.prefix)
+    }
+    const rows = this.database
+      .query(`SELECT id, data${options.bodies ? ', body' : ''} FROM resources WHERE ${where.join(' AND ')} ORDER BY id`)
+      .all(...bindings) as Array<{ id: string; data: string; body?: Uint8Array | null }>
+    return rows.map((row) => ({ id: row.id, data: JSON.parse(row.data), body: row.body ?? undefined }))
+  }
+
+  put<T>(service: string, collection: string, id: string, data: T, body?: Uint8Array): void {
+    this.database
+      .query('INSERT OR REPLACE INTO resources (service, collection, id, data, body) VALUES (?, ?, ?, ?, ?)')
+      .run(service, collection, id, JSON.stringify(data), body ?? null)
+  }
+
+  delete(service: string, collection: string, id: string): boolean {
+    return (
+      this.database
+        .query('DELETE FROM resources WHERE service = ? AND collection = ? AND id = ?')
+        .run(service, collection, id).changes > 0
+    )
+  }
+
+  /** Remove a whole collection, e.g. the objects of a deleted bucket. */
+  clear(service: string, collection: string): void {
+    this.database.query('DELETE FROM resources WHERE service = ? AND collection = ?').run(service, collection)
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.database.transaction(fn)()
+  }
+
+  close(): void {
+    this.database.close()
+  }
+}
@@ -2,9 +2,9 @@
  * Infrastructure Generator
  * Generates CloudFormation templates from cloud.config.ts using all Phase 2 modules
  */
-import type { CloudConfig, ResolvedSftpStorage, SftpConfig } from '@ts-cloud/core'
+import type { CloudConfig, ResolvedSftpStorage, SftpConfig, StackSplitOptions, StackSplitPlan } from '@ts-cloud/core'
 import { buildAppUpdatesScript } from '../drivers/shared/app-updates'
-import { AI, ApiGateway, Cache, CDN, Compute, Database, DNS, Email, FileSystem, generateLogicalId, generateResourceName, Monitoring, Network, Permissions, Queue, Redirects, Search, Security, Sftp, Storage, TemplateBuilder } from '@ts-cloud/core'
+import { AI, ApiGateway, Cache, CDN, Compute, Database, DNS, Email, FileSystem, generateLogicalId, generateResourceName, Monitoring, Network, Permissions, Queue, Redirects, Search, Security, Sftp, splitStackTemplate, Storage, TAGGABLE_RESOURCE_TYPES, TemplateBuilder } from '@ts-cloud/core'
 
 export interface GenerationOptions {
   config: CloudConfig
@@ -139,6 +139,11 @@ export class InfrastructureGenerator {
     return this.mergedConfig.infrastructure?.storage?.[name]?.bucket ?? `${slug}-${env}-${name}`
   }
 
+  /** The resource with `DeletionPolicy` and `UpdateReplacePolicy` Retain when its config entry sets `retain`. */
+  private retained<T extends object>(resource: T, retain?: boolean): T {
+    return retain ? { ...resource, DeletionPolicy: 'Retain', UpdateReplacePolicy: 'Retain' } : resource
+  }
+
   /** Logical ID of the EFS file system generated for an `infrastructure.fileSystem` entry. */
   private fileSystemLogicalId(slug: string, env: typeof this.environment, name: string): string {
     return generateLogicalId(generateResourceName({ slug: `${slug}-${name}`, environment: env, resourceType: 'efs' }))
@@ -386,8 +391,16 @@ export class InfrastructureGenerator {
    * Apply global tags to all resources
    */
   private applyGlobalTags(tags: Record<string, string>): void {
-    // This would iterate through all resources in the builder and add tags
-    // Implementation depends on TemplateBuilder structure
+    for (const resource of Object.values(this.builder.getResources()) as any[]) {
+      const properties = resource.Properties
+      if (!properties || (!Array.isArray(properties.Tags) && !TAGGABLE_RESOURCE_TYPES.includes(resource.Type))) continue
+      const resourceTags: Array<{ Key: string; Value: string }> = properties.Tags ?? []
+      // Tags a resource sets itself win over project-wide ones
+      for (const [Key, Value] of Object.entries(tags)) {
+        if (!resourceTags.some((tag) => tag.Key === Key)) resourceTags.push({ Key, Value })
+      }
+      properties.Tags = resourceTags
+    }
   }
 
   /**
@@ -1555,7 +1568,7 @@ export class InfrastructureGenerator {
           }
         }
 
-        this.builder.addResource(logicalId, bucket)
+        this.builder.addResource(logicalId, this.retained(bucket, storageConfig.retain))
 
         // Enable website hosting if configured
         if (storageConfig.website) {
@@ -1565,7 +1578,7 @@ export class InfrastructureGenerator {
             websiteConfig.indexDocument || 'index.html',
             websiteConfig.errorDocument,
           )
-          this.builder.addResource(logicalId, enhanced)
+          this.builder.addResource(logicalId, this.retained(enhanced, storageConfig.retain))
         }
 
         // ========================================
@@ -2002,10 +2015,13 @@ else if (!uri.includes('.')) { request.uri += '.html'; } return request; }`,
             masterUsername: dbConfig.username || 'admin',
             masterUserPassword: dbConfig.password || 'changeme123',
             allocatedStorage: dbConfig.storage || 20,
-            dbInstanceClass: dbConfig.instanceClass || 'db.t3.micro',
+            instanceClass: dbConfig.instanceClass || 'db.t3.micro',
+            encrypted: dbConfig.encrypted,
           })
 
-          this.builder.addResource(logicalId, dbInstance)
+          if (dbConfig.identifier) dbInstance.Properties.DBInstanceIdentifier = dbConfig.identifier
+          if (dbConfig.version) dbInstance.Properties.EngineVersion = dbConfig.version
+          this.builder.addResource(logicalId, this.retained(dbInstance, dbConfig.retain))
         } else if (dbConfig.engine === 'mysql') {
           const { dbInstance, logicalId } = Database.createMysql({
             slug,
@@ -2014,10 +2030,13 @@ else if (!uri.includes('.')) { request.uri += '.html'; } return request; }`,
             masterUsername: dbConfig.username || 'admin',
             masterUserPassword: dbConfig.password || 'changeme123',
             allocatedStorage: dbConfig.storage || 20,
-            dbInstanceClass: dbConfig.instanceClass || 'db.t3.micro',
+            instanceClass: dbConfig.instanceClass || 'db.t3.micro',
+            encrypted: dbConfig.encrypted,
           })
 
-          this.builder.addResource(logicalId, dbInstance)
+          if (dbConfig.identifier) dbInstance.Properties.DBInstanceIdentifier = dbConfig.identifier
+          if (dbConfig.version) dbInstance.Properties.EngineVersion = dbConfig.version
+          this.builder.addResource(logicalId, this.retained(dbInstance, dbConfig.retain))
         }
       }
     }
@@ -2114,7 +2133,7 @@ else if (!uri.includes('.')) { request.uri += '.html'; } return request; }`,
           },
         }
 
-        this.builder.addResource(distLogicalId, distribution)
+        this.builder.addResource(distLogicalId, this.retained(distribution, cdnConfig.retain))
 
         if (hostedZoneId && customDomain && resolvedCertArn) {
           const safeName = customDomain.replace(/\./g, '').replace(/[^a-zA-Z0-9]/g, '')
@@ -3892,6 +3911,13 @@ ${
     return this.builder.toJSON()
   }
 
+  /**
+   * Partition the generated template into sibling stacks when it exceeds CloudFormation's limits
+   */
+  split(options: StackSplitOptions): StackSplitPlan {
+    return splitStackTemplate(this.builder.build(), options)
+  }
+
   /**
    * Get the template builder
    */
@@ -6,6 +6,7 @@ export * from './control-plane'
 export * from './security'
 export * from './preview'
 export * from './compose'
+export * from './kubernetes'
 export * from './release'
 export * from './runtime'
 export * from './telemetry'
@@ -86,6 +87,8 @@ export {
   AlertStore,
   HealthCheckRunner,
   NotificationRouter,
+  computeSloStatus,
+  evaluateSloAlertRules,
   evaluateTelemetryAlertRules,
   isQuietHours,
 } from './alerts'
@@ -102,7 +105,117 @@ export type {
   NotificationChannel as AlertNotificationChannel,
   NotificationDelivery as AlertNotificationDelivery,
   NotificationRoute as AlertNotificationRoute,
+  ServiceLevelObjective,
+  SloStatus,
 } from './alerts'
+export {
+  publishStatusPage,
+  renderStatusSite,
+  StatusPageStore,
+  StatusSubscriberNotifier,
+} from './status-page'
+export type {
+  StatusComponent,
+  StatusComponentState,
+  StatusIncident,
+  StatusMaintenance,
+  StatusPage,
+  StatusPageSnapshot,
+  StatusSubscriber,
+} from './status-page'
+export { DRIFT_ALERT_SIGNAL, DriftService, DriftStore, driftPropertyPath, normalizeResourceDrift } from './drift'
+export type {
+  DriftPlan,
+  DriftPlanStep,
+  DriftPlanStrategy,
+  ResourceDrift,
+  StackDriftSnapshot,
+  StackDriftState,
+} from './drift'
+export {
+  CLOUDFORMATION_STACK_TAG,
+  ResourceImportService,
+  addImportsToCloudConfig,
+  importKey,
+  mapImportCandidate,
+  renderImportSnippet,
+} from './resource-import'
+export type { ImportCandidate, ImportPlan, ImportResult, ImportSection, SkippedImport } from './resource-import'
+export {
+  EMULATED_SERVICES,
+  EMULATOR_ACCOUNT_ID,
+  EmulatorError,
+  EmulatorStore,
+  emulatorEnvironment,
+  handleEmulatorRequest,
+  listSentEmails,
+  provisionFromTemplate,
+  startLocalEmulator,
+} from './emulator'
+export type {
+  EmulatedEmail,
+  EmulatedService,
+  EmulatorTemplate,
+  LocalEmulator,
+  LocalEmulatorOptions,
+  ProvisionResult,
+  ProvisionedResource,
+} from './emulator'
+export {
+  DEFAULT_USAGE_ASSUMPTIONS,
+  HOURS_PER_MONTH,
+  PRICED_RESOURCE_TYPES,
+  estimateStackDiffCost,
+  estimateTemplateCost,
+} from './cost/estimate'
+export type {
+  CostEstimateOptions,
+  CostTemplate,
+  CostUsageAssumptions,
+  ResourceCostDelta,
+  ResourceCostEstimate,
+  StackCostEstimate,
+  TemplateCostEstimate,
+} from './cost/estimate'
+export { AWS_PRICE_CATALOG } from './cost/price-catalog'
+export type { PriceCatalog } from './cost/price-catalog'
+export {
+  TERRAFORM_SUPPORTED_TYPES,
+  exportCloudConfigToTerraform,
+  exportStackToTerraform,
+  exportTemplateToTerraform,
+  renderTerraformExportReport,
+} from './terraform'
+export type {
+  ExportableTemplate,
+  StackExportInput,
+  StackExportOptions,
+  TerraformExport,
+  TerraformExportIssue,
+  TerraformExportOptions,
+  TerraformExportSummary,
+  TerraformIssueSeverity,
+} from './terraform'
+export {
+  CHANGE_SET_DEFAULT_TTL_MS,
+  CHANGE_SET_MAX_TTL_MS,
+  ChangeSetService,
+  StackChangeSetStore,
+  summarizeStackDiff,
+} from './change-sets'
+export type {
+  ChangeSetCloudFormation,
+  ChangeSetRequestInput,
+  ChangeSetRequestResult,
+  ChangeSetServiceOptions,
+  RequestStackChangeSetInput,
+  StackChangeReplacement,
+  StackChangeSet,
+  StackChangeSetApproval,
+  StackChangeSetStatus,
+  StackChangeSetType,
+  StackChangeSummary,
+} from './change-sets'
 export * from './jobs'
 export * from './data-services'
 export * from './storage'
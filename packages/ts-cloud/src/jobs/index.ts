@@ -5,3 +5,4 @@ export * from './reconcile'
 export * from './schedule'
 export * from './service'
 export * from './store'
+export * from './workflow'
@@ -9,6 +9,7 @@ import {
   JobService,
   JobStore,
   nextScheduleRuns,
+  planJobWorkflow,
   previewSchedule,
   renderServerCron,
   ServerCronJobAdapter,
@@ -214,6 +215,124 @@ describe('durable job execution', () => {
   })
 })
 
+describe('job workflows', () => {
+  function etl(target: ReturnType<typeof fixture>) {
+    const extract = target.create({ name: 'extract', timezone: 'UTC', expression: '0 2 * * *' }),
+      after = (name: string, dependsOn: Array<{ jobId: string; condition?: string }>) =>
+        target.create({ name, expression: '', dependsOn, overlapPolicy: 'allow' }),
+      orders = after('transform orders', [{ jobId: extract.id }]),
+      customers = after('transform customers', [{ jobId: extract.id }]),
+      load = after('load', [{ jobId: orders.id }, { jobId: customers.id }]),
+      alert = after('page on failure', [{ jobId: load.id, condition: 'failure' }]),
+      cleanup = after('cleanup', [{ jobId: load.id, condition: 'always' }])
+    return { extract, orders, customers, load, alert, cleanup }
+  }
+
+  it('stages fan-out and fan-in and rejects cycles and second roots', () => {
+    const target = fixture(),
+      jobs = etl(target)
+    expect(jobs.load).toMatchObject({ expression: '', nextRunAt: undefined })
+    expect(target.store.get(jobs.extract.id)?.nextRunAt).toBe('2026-03-08T02:00:00.000Z')
+    const plan = target.store.workflowPlan(jobs.load.id)!
+    expect(plan.rootJobId).toBe(jobs.extract.id)
+    expect(plan.stages.map((stage) => stage.map((step) => step.name))).toEqual([
+      ['extract'],
+      ['transform customers', 'transform orders'],
+      ['load'],
+      ['cleanup', 'page on failure'],
+    ])
+    const preview = previewSchedule('0 2 * * *', 'UTC', new Date('2026-03-07T08:00:00Z'), 1, plan)
+    expect(preview.workflow).toBe(plan)
+    expect(preview.capabilities.notes.at(-1)).toContain('6 jobs in 4 stages')
+    expect(() => target.store.setDependencies(jobs.orders.id, [{ jobId: jobs.load.id, condition: 'success' }])).toThrow(
+      'cycle',
+    )
+    const stray = target.create({ name: 'stray' })
+    expect(() =>
+      target.store.setDependencies(jobs.load.id, [...jobs.load.dependsOn, { jobId: stray.id, condition: 'success' }]),
+    ).toThrow('one root')
+    expect(() => target.store.remove(jobs.extract.id)).toThrow('remove the dependency first')
+    expect(planJobWorkflow([{ id: 'a', name: 'a', dependsOn: [] }], 'a')).toBeUndefined()
+  })
+
+  it('runs the whole graph under one run id as dependencies finish', async () => {
+    const target = fixture(),
+      jobs = etl(target),
+      queue = new DurableOperationQueue(target.controlPlane, { now: target.now }),
+      service = new JobService(target.store, { queue }),
+      order: string[] = []
+    const worker = new DurableQueueWorker(
+      queue,
+      createJobQueueHandlers({
+        store: target.store,
+        service,
+        executor: async (job) => {
+          order.push(job.name)
+          return { ok: true }
+        },
+      }),
+    )
+    target.setNow('2026-03-08T02:00:30Z')
+    const [root] = service.tick(target.now())
+    expect(root.workflowRunId).toBeDefined()
+    await worker.drain()
+    expect(order[0]).toBe('extract')
+    expect(order.slice(1, 3).sort()).toEqual(['transform customers', 'transform orders'])
+    expect(order.slice(3)).toEqual(['load', 'cleanup'])
+    const executions = target.store.listRunExecutions(root.workflowRunId!)
+    expect(executions.map((item) => item.workflowRunId)).toEqual(Array(6).fill(root.workflowRunId))
+    expect(executions.find((item) => item.jobId === jobs.alert.id)).toMatchObject({
+      status: 'skipped',
+      output: { reason: 'dependency_condition_unmet' },
+    })
+    expect(target.store.getWorkflowRun(root.workflowRunId!)).toMatchObject({
+      status: 'succeeded',
+      trigger: 'scheduled',
+      scheduledFor: '2026-03-08T02:00:00.000Z',
+    })
+    expect(target.store.get(jobs.load.id)?.nextRunAt).toBeUndefined()
+  })
+
+  it('follows failure and always edges and fails the run', async () => {
+    const target = fixture(),
+      jobs = etl(target),
+      queue = new DurableOperationQueue(target.controlPlane, { now: target.now }),
+      service = new JobService(target.store, { queue }),
+      order: string[] = []
+    const worker = new DurableQueueWorker(
+      queue,
+      createJobQueueHandlers({
+        store: target.store,
+        service,
+        executor: async (job) => {
+          order.push(job.name)
+          return job.name === 'transform orders' ? { ok: false, stderr: 'bad input' } : { ok: true }
+        },
+      }),
+    )
+    const root = service.enqueue(jobs.extract, { trigger: 'manual' })
+    expect(service.enqueue(jobs.extract, { trigger: 'manual' }).output).toMatchObject({
+      reason: 'overlap_forbidden',
+    })
+    await worker.drain()
+    const status = Object.fromEntries(
+      target.store
+        .listRunExecutions(root.workflowRunId!)
+        .map((item) => [target.store.get(item.jobId)!.name, item.status]),
+    )
+    expect(status).toEqual({
+      extract: 'succeeded',
+      'transform orders': 'dead',
+      'transform customers': 'succeeded',
+      load: 'skipped',
+      'page on failure': 'skipped',
+      cleanup: 'succeeded',
+    })
+    expect(order).not.toContain('load')
+    expect(target.store.getWorkflowRun(root.workflowRunId!)?.status).toBe('failed')
+  })
+})
+
 describe('config reconciliation', () => {
   it('imports workers and schedules idempotently and retains removed definitions as drift', () => {
     const target = fixture(),
@@ -4,6 +4,11 @@ export type JobProvider = 'server' | 'eventbridge' | 'lambda' | 'platform'
 export type JobTrigger = 'scheduled' | 'manual' | 'catch_up' | 'external' | 'retry'
 export type JobExecutionStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'dead'
 export type ReconciliationStatus = 'pending' | 'in_sync' | 'drifted' | 'unsupported' | 'unavailable'
+export type JobDependencyCondition = 'success' | 'failure' | 'always'
+export interface JobDependency {
+  jobId: string
+  condition: JobDependencyCondition
+}
 export interface JobTarget {
   kind: 'dashboard_operation' | 'serverless_scheduler' | 'lambda' | 'platform'
   operationId?: string
@@ -27,6 +32,8 @@ export interface ScheduledJob {
   flexibleMinutes: number
   target: JobTarget
   payloadRefs: Record<string, JsonValue>
+  /** Jobs that must finish first. A job with dependencies runs in its workflow, never on its own schedule. */
+  dependsOn: JobDependency[]
   missedRunPolicy: 'skip' | 'catch_up'
   overlapPolicy: 'allow' | 'forbid' | 'replace'
   retryPolicy: {
@@ -51,6 +58,7 @@ export interface JobExecution {
   id: string
   jobId: string
   operationId?: string
+  workflowRunId?: string
   trigger: JobTrigger
   scheduledFor: string
   idempotencyKey: string
@@ -63,6 +71,31 @@ export interface JobExecution {
   createdAt: string
   updatedAt: string
 }
+export type JobWorkflowRunStatus = 'running' | 'succeeded' | 'failed'
+/** One execution of a whole dependency graph; its id is the run id every member execution shares. */
+export interface JobWorkflowRun {
+  id: string
+  projectId: string
+  environmentId?: string
+  rootJobId: string
+  trigger: JobTrigger
+  scheduledFor: string
+  idempotencyKey: string
+  status: JobWorkflowRunStatus
+  finishedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+export interface JobWorkflowStep {
+  jobId: string
+  name: string
+  dependsOn: JobDependency[]
+}
+/** A dependency graph in stages: every job runs in a later stage than all of its dependencies. */
+export interface JobWorkflowPlan {
+  rootJobId: string
+  stages: JobWorkflowStep[][]
+}
 export interface WorkerDefinition {
   id: string
   organizationId: string
@@ -94,4 +127,5 @@ export interface SchedulePreview {
   description: string
   nextRuns: string[]
   capabilities: { server: boolean; eventbridge: boolean; notes: string[] }
+  workflow?: JobWorkflowPlan
 }
@@ -114,6 +114,19 @@ export class JobProviderReconciler {
         message: `Adapter ${adapter.provider} cannot reconcile ${job.provider}.`,
       })
     try {
+      if (job.dependsOn.length) {
+        // Workflow members are queued by the control plane, so a provider schedule left
+        // from before the job had dependencies is removed rather than kept in sync.
+        const stale = job.normalizedExpression ? await adapter.observe(job) : undefined
+        if (stale && options.apply === false)
+          return this.store.reconcile(job.id, 'drifted', {
+            provider: adapter.provider,
+            observed: stale,
+            applyRequired: true,
+          })
+        if (stale) await adapter.remove(job)
+        return this.store.reconcile(job.id, 'in_sync', { provider: adapter.provider, dispatch: 'workflow' })
+      }
       const desired = desiredState(job)
       const observed = await adapter.observe(job)
       if (observed && adapter.matches(desired, observed))
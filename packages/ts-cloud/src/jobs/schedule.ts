@@ -1,4 +1,4 @@
-import type { SchedulePreview } from './model'
+import type { JobWorkflowPlan, SchedulePreview } from './model'
 
 const PRESETS: Record<string, string> = {
   every_minute: '* * * * *',
@@ -226,7 +226,17 @@ export function nextScheduleRuns(expression: string, zone: string, from: Date =
   return runs
 }
 
-export function previewSchedule(expression: string, zone = 'UTC', from: Date = new Date(), count = 5): SchedulePreview {
+/**
+ * Next runs of a schedule. Given the workflow its job is the root of, the
+ * preview also carries the plan every one of those runs executes.
+ */
+export function previewSchedule(
+  expression: string,
+  zone = 'UTC',
+  from: Date = new Date(),
+  count = 5,
+  workflow?: JobWorkflowPlan,
+): SchedulePreview {
   const parsed = normalizeScheduleExpression(expression)
   const nextRuns = nextScheduleRuns(parsed.normalized, zone, from, count)
   const notes =
@@ -235,10 +245,15 @@ export function previewSchedule(expression: string, zone = 'UTC', from: Date = n
           'Server cron and EventBridge use the same wall-clock preview; provider-specific extensions are retained only when supported.',
         ]
       : ['Rate schedules use elapsed-time intervals and are not shifted by DST.']
+  if (workflow)
+    notes.push(
+      `Each run starts a workflow of ${workflow.stages.flat().length} jobs in ${workflow.stages.length} stages; later stages are queued as their dependencies finish.`,
+    )
   return {
     ...parsed,
     timezone: validateTimezone(zone),
     nextRuns,
     capabilities: { server: parsed.kind === 'cron', eventbridge: true, notes },
+    ...(workflow ? { workflow } : {}),
   }
 }
@@ -4,6 +4,7 @@ import type { JobExecution, JobTarget, JobTrigger, ScheduledJob } from './model'
 import { DurableOperationQueue, RetryableOperationError } from '../queue'
 import { nextScheduleRuns } from './schedule'
 import { JobStore } from './store'
+import { jobDependencySatisfied, planJobWorkflow, settledJobExecution } from './workflow'
 
 export interface JobExecutorResult {
   ok: boolean
@@ -25,26 +26,54 @@ export class JobService {
   ) {
     this.queue = options.queue ?? new DurableOperationQueue(store.controlPlane)
   }
-  enqueue(job: ScheduledJob, input: { trigger: JobTrigger; scheduledFor?: string; actorId?: string }): JobExecution {
+  /**
+   * Queue one execution. Scheduled and manual runs of a workflow's root job
+   * open a workflow run whose id every member execution shares; members are
+   * queued by `advanceWorkflow` with that id as `workflowRunId`.
+   */
+  enqueue(
+    job: ScheduledJob,
+    input: { trigger: JobTrigger; scheduledFor?: string; actorId?: string; workflowRunId?: string },
+  ): JobExecution {
     const scheduledFor = new Date(input.scheduledFor ?? this.store.now()).toISOString(),
-      key = `${job.id}:${input.trigger === 'manual' ? crypto.randomUUID() : scheduledFor}`
-    const active = this.store.activeExecution(job.id)
-    if (active && job.overlapPolicy === 'forbid')
+      key = input.workflowRunId
+        ? `${job.id}:run:${input.workflowRunId}`
+        : `${job.id}:${input.trigger === 'manual' ? crypto.randomUUID() : scheduledFor}`
+    const root = !input.workflowRunId && !job.dependsOn.length && this.store.dependents(job.id).length > 0
+    const active = this.store.activeExecution(job.id),
+      activeRun = root ? this.store.runningWorkflowRuns(job.id)[0] : undefined
+    if ((active || activeRun) && job.overlapPolicy === 'forbid')
       return this.store.createExecution({
         jobId: job.id,
+        workflowRunId: input.workflowRunId,
         trigger: input.trigger,
         scheduledFor,
         idempotencyKey: key,
         status: 'skipped',
-        output: { reason: 'overlap_forbidden', activeExecutionId: active.id },
+        output: active
+          ? { reason: 'overlap_forbidden', activeExecutionId: active.id }
+          : { reason: 'overlap_forbidden', activeWorkflowRunId: activeRun!.id },
       })
     if (active && job.overlapPolicy === 'replace' && active.operationId) {
       try {
         this.queue.requestCancellation(active.operationId, input.actorId)
       } catch {}
     }
+    const workflowRunId =
+      input.workflowRunId ??
+      (root
+        ? this.store.createWorkflowRun({
+            projectId: job.projectId,
+            environmentId: job.environmentId,
+            rootJobId: job.id,
+            trigger: input.trigger,
+            scheduledFor,
+            idempotencyKey: key,
+          }).id
+        : undefined)
     const execution = this.store.createExecution({
       jobId: job.id,
+      workflowRunId,
       trigger: input.trigger,
       scheduledFor,
       idempotencyKey: key,
@@ -58,7 +87,9 @@ export class JobService {
       resourceId: job.resourceId,
       actorId: input.actorId,
       kind: 'job.execute',
-      input: { jobId: job.id, executionId: execution.id },
+      input: workflowRunId
+        ? { jobId: job.id, executionId: execution.id, workflowRunId }
+        : { jobId: job.id, executionId: execution.id },
       idempotencyKey: `job-execution:${execution.id}`,
       lockKey: job.overlapPolicy === 'allow' ? `job-execution:${execution.id}` : `job:${job.id}`,
       maxAttempts: job.retryPolicy.maxAttempts,
@@ -89,13 +120,80 @@ export class JobService {
       } else queued.push(this.enqueue(job, { trigger: 'scheduled', scheduledFor: due }))
       this.store.markScheduled(job.id, due, next)
     }
+    for (const run of this.store.runningWorkflowRuns()) queued.push(...this.advanceWorkflow(run.id))
     return queued
   }
+  /**
+   * Queue every workflow member whose dependencies have all settled. A member
+   * whose edge conditions are not met, or that is disabled, is recorded as
+   * skipped, which its own dependents see in turn. The run finishes once every
+   * member has settled, and fails if any member failed. Safe to call again:
+   * member executions are keyed by job and run.
+   */
+  advanceWorkflow(workflowRunId: string): JobExecution[] {
+    const run = this.store.getWorkflowRun(workflowRunId)
+    if (!run || run.status !== 'running') return []
+    const root = this.store.get(run.rootJobId)!
+    const plan = planJobWorkflow(this.store.listWorkflowJobs(root.projectId, root.environmentId), root.id)
+    const executions = new Map<string, JobExecution>()
+    for (const item of this.store.listRunExecutions(run.id)) executions.set(item.jobId, this.observe(item))
+    const queued: JobExecution[] = []
+    for (const step of plan?.stages.flat() ?? []) {
+      if (executions.has(step.jobId)) continue
+      const upstream = step.dependsOn.map((dependency) => ({ dependency, execution: executions.get(dependency.jobId) }))
+      if (upstream.some((item) => !item.execution || !settledJobExecution(item.execution.status))) continue
+      const job = this.store.get(step.jobId)!,
+        unmet = upstream.filter((item) => !jobDependencySatisfied(item.dependency.condition, item.execution!.status))
+      const execution =
+        unmet.length || !job.enabled
+          ? this.store.createExecution({
+              jobId: job.id,
+              workflowRunId: run.id,
+              trigger: run.trigger,
+              scheduledFor: run.scheduledFor,
+              idempotencyKey: `${job.id}:run:${run.id}`,
+              status: 'skipped',
+              output: job.enabled
+                ? {
+                    reason: 'dependency_condition_unmet',
+                    unmet: unmet.map((item) => ({
+                      jobId: item.dependency.jobId,
+                      condition: item.dependency.condition,
+                      status: item.execution!.status,
+                    })),
+                  }
+                : { reason: 'disabled' },
+            })
+          : this.enqueue(job, { trigger: run.trigger, scheduledFor: run.scheduledFor, workflowRunId: run.id })
+      executions.set(job.id, execution)
+      queued.push(execution)
+    }
+    const members = plan?.stages.flat() ?? []
+    if (members.every((step) => executions.has(step.jobId) && settledJobExecution(executions.get(step.jobId)!.status)))
+      this.store.finishWorkflowRun(
+        run.id,
+        [...executions.values()].some((item) => item.status === 'dead') ? 'failed' : 'succeeded',
+      )
+    return queued
+  }
+  /** An execution whose operation ended without the handler recording an outcome, such as on a timeout, is dead. */
+  private observe(execution: JobExecution): JobExecution {
+    if (settledJobExecution(execution.status) || !execution.operationId) return execution
+    const operation = this.queue.view(execution.operationId)?.operation
+    if (!operation || !['failed', 'cancelled', 'timed_out'].includes(operation.state)) return execution
+    return this.store.transitionExecution(execution.id, 'dead', {
+      error: operation.error ?? `Job operation ${operation.state.replace('_', ' ')}.`,
+    })
+  }
 }
 export function createJobQueueHandlers(input: {
   store: JobStore
   executor: JobExecutor
+  service?: JobService
 }): Record<string, QueueOperationHandler> {
+  const advance = (workflowRunId?: string) => {
+    if (workflowRunId) (input.service ?? new JobService(input.store)).advanceWorkflow(workflowRunId)
+  }
   const handler: QueueOperationHandler = async (context) => {
     const record =
       context.operation.input && typeof context.operation.input === 'object' && !Array.isArray(context.operation.input)
@@ -111,18 +209,17 @@ export function createJobQueueHandlers(input: {
     context.log(`Trigger ${execution.trigger}; scheduled for ${execution.scheduledFor}; semantics at-least-once.`, {
       stream: 'system',
     })
+    if (execution.workflowRunId) context.log(`Workflow run ${execution.workflowRunId}.`, { stream: 'system' })
     const result = await input.executor(job, job.target, context)
     if (result.stdout) context.log(result.stdout, { stream: 'stdout' })
     if (result.stderr) context.log(result.stderr, { stream: 'stderr' })
     if (!result.ok) {
-      input.store.transitionExecution(
-        execution.id,
-        context.operation.attempt >= job.retryPolicy.maxAttempts ? 'dead' : 'failed',
-        {
-          attempt: context.operation.attempt,
-          error: result.stderr ?? 'Job execution failed.',
-        },
-      )
+      const final = !result.retryable || context.operation.attempt >= job.retryPolicy.maxAttempts
+      input.store.transitionExecution(execution.id, final ? 'dead' : 'failed', {
+        attempt: context.operation.attempt,
+        error: result.stderr ?? 'Job execution failed.',
+      })
+      if (final) advance(execution.workflowRunId)
       if (result.retryable)
         throw new RetryableOperationError(result.stderr ?? 'Scheduled job failed transiently.', 'job_transient')
       throw new Error(result.stderr ?? 'Scheduled job failed.')
@@ -131,6 +228,7 @@ export function createJobQueueHandlers(input: {
       attempt: context.operation.attempt,
       output: result.output ?? {},
     })
+    advance(execution.workflowRunId)
     return { jobId: job.id, executionId: execution.id, provider: job.provider }
   }
   return { 'job.execute': handler }
@@ -1,9 +1,24 @@
 import type { SQLQueryBindings } from 'bun:sqlite'
 import type { ControlPlaneStore, JsonValue } from '../control-plane'
-import type { JobExecution, JobExecutionStatus, ReconciliationStatus, ScheduledJob, WorkerDefinition } from './model'
+import type {
+  JobDependency,
+  JobExecution,
+  JobExecutionStatus,
+  JobWorkflowPlan,
+  JobWorkflowRun,
+  JobWorkflowRunStatus,
+  ReconciliationStatus,
+  ScheduledJob,
+  WorkerDefinition,
+} from './model'
 import { previewSchedule } from './schedule'
+import { planJobWorkflow } from './workflow'
 
 type Row = Record<string, unknown>
+type JobInput = Omit<
+  ScheduledJob,
+  'id' | 'normalizedExpression' | 'dependsOn' | 'nextRunAt' | 'lastScheduledFor' | 'version' | 'createdAt' | 'updatedAt'
+> & { dependsOn?: JobDependency[] }
 const optional = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined)
 const bool = (value: unknown): boolean => Number(value) === 1
 const json = (value: unknown): any => {
@@ -34,6 +49,7 @@ function job(row: Row): ScheduledJob {
     flexibleMinutes: Number(row.flexible_minutes),
     target: json(row.target),
     payloadRefs: json(row.payload_refs),
+    dependsOn: Array.isArray(json(row.depends_on)) ? json(row.depends_on) : [],
     missedRunPolicy: String(row.missed_run_policy) as ScheduledJob['missedRunPolicy'],
     overlapPolicy: String(row.overlap_policy) as ScheduledJob['overlapPolicy'],
     retryPolicy: json(row.retry_policy),
@@ -56,6 +72,7 @@ function execution(row: Row): JobExecution {
     id: String(row.id),
     jobId: String(row.job_id),
     operationId: optional(row.operation_id),
+    workflowRunId: optional(row.workflow_run_id),
     trigger: String(row.trigger) as JobExecution['trigger'],
     scheduledFor: String(row.scheduled_for),
     idempotencyKey: String(row.idempotency_key),
@@ -69,6 +86,21 @@ function execution(row: Row): JobExecution {
     updatedAt: String(row.updated_at),
   }
 }
+function workflowRun(row: Row): JobWorkflowRun {
+  return {
+    id: String(row.id),
+    projectId: String(row.project_id),
+    environmentId: optional(row.environment_id),
+    rootJobId: String(row.root_job_id),
+    trigger: String(row.trigger) as JobWorkflowRun['trigger'],
+    scheduledFor: String(row.scheduled_for),
+    idempotencyKey: String(row.idempotency_key),
+    status: String(row.status) as JobWorkflowRunStatus,
+    finishedAt: optional(row.finished_at),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
 function worker(row: Row): WorkerDefinition {
   return {
     id: String(row.id),
@@ -103,22 +135,22 @@ export class JobStore {
   now(): Date {
     return this.options.now?.() ?? new Date()
   }
-  create(
-    input: Omit<
-      ScheduledJob,
-      'id' | 'normalizedExpression' | 'nextRunAt' | 'lastScheduledFor' | 'version' | 'createdAt' | 'updatedAt'
-    >,
-  ): ScheduledJob {
+  /**
+   * Jobs with `dependsOn` run when their workflow reaches them, so they need no
+   * schedule expression and are never due on their own.
+   */
+  create(input: JobInput): ScheduledJob {
     if (!input.name.trim()) throw new Error('Scheduled jobs require a name.')
-    const preview = previewSchedule(input.expression, input.timezone, this.now(), 1),
-      id = crypto.randomUUID(),
+    const id = crypto.randomUUID(),
+      dependsOn = this.dependencies({ ...input, id, name: input.name.trim() }, input.dependsOn),
+      preview = dependsOn.length ? undefined : previewSchedule(input.expression, input.timezone, this.now(), 1),
       now = this.now().toISOString(),
       starts = input.startsAt ? new Date(input.startsAt).toISOString() : undefined,
       ends = input.endsAt ? new Date(input.endsAt).toISOString() : undefined
     if (starts && ends && starts >= ends) throw new Error('Schedule start must be before end.')
-    const next = preview.nextRuns.find((value) => (!starts || value >= starts) && (!ends || value <= ends))
+    const next = preview?.nextRuns.find((value) => (!starts || value >= starts) && (!ends || value <= ends))
     this.controlPlane.database.run(
-      'INSERT INTO scheduled_jobs (id,organization_id,project_id,environment_id,resource_id,name,provider,expression,normalized_expression,timezone,starts_at,ends_at,flexible_minutes,target,payload_refs,missed_run_policy,overlap_policy,retry_policy,timeout_seconds,enabled,origin,source_key,owner_actor_id,observed_state,reconciliation_status,next_run_at,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
+      'INSERT INTO scheduled_jobs (id,organization_id,project_id,environment_id,resource_id,name,provider,expression,normalized_expression,timezone,starts_at,ends_at,flexible_minutes,target,payload_refs,depends_on,missed_run_policy,overlap_policy,retry_policy,timeout_seconds,enabled,origin,source_key,owner_actor_id,observed_state,reconciliation_status,next_run_at,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)',
       [
         id,
         input.organizationId,
@@ -127,14 +159,15 @@ export class JobStore {
         input.resourceId ?? null,
         input.name.trim().slice(0, 120),
         input.provider,
-        input.expression,
-        preview.normalized,
+        preview ? input.expression : '',
+        preview?.normalized ?? '',
         input.timezone,
         starts ?? null,
         ends ?? null,
         clamp(input.flexibleMinutes, 0, 0, 1440),
         JSON.stringify(input.target),
         JSON.stringify(input.payloadRefs),
+        JSON.stringify(dependsOn),
         input.missedRunPolicy,
         input.overlapPolicy,
         JSON.stringify({
@@ -198,6 +231,71 @@ export class JobStore {
       .all(...bindings)
       .map(job)
   }
+  /** Jobs a workflow may span: dependencies never cross projects or environments. */
+  listWorkflowJobs(projectId: string, environmentId?: string): ScheduledJob[] {
+    return this.controlPlane.database
+      .query<Row, [string, string | null]>(
+        'SELECT * FROM scheduled_jobs WHERE project_id=? AND environment_id IS ? ORDER BY name',
+      )
+      .all(projectId, environmentId ?? null)
+      .map(job)
+  }
+  dependents(id: string): ScheduledJob[] {
+    return this.controlPlane.database
+      .query<Row, [string]>(
+        "SELECT scheduled_jobs.* FROM scheduled_jobs, json_each(scheduled_jobs.depends_on) WHERE json_extract(json_each.value,'$.jobId')=? ORDER BY name",
+      )
+      .all(id)
+      .map(job)
+  }
+  workflowPlan(id: string): JobWorkflowPlan | undefined {
+    const current = this.get(id)
+    if (!current) throw new Error('Scheduled job was not found.')
+    return planJobWorkflow(this.listWorkflowJobs(current.projectId, current.environmentId), current.id)
+  }
+  private dependencies(
+    current: Pick<ScheduledJob, 'id' | 'name' | 'projectId' | 'environmentId'>,
+    dependsOn: JobDependency[] = [],
+  ): JobDependency[] {
+    const normalized = new Map<string, JobDependency>()
+    for (const item of dependsOn) {
+      const condition = item.condition ?? 'success'
+      if (!['success', 'failure', 'always'].includes(condition))
+        throw new Error('Dependency conditions must be success, failure, or always.')
+      if (item.jobId === current.id) throw new Error(`${current.name} cannot depend on itself.`)
+      if (normalized.has(item.jobId)) throw new Error(`${current.name} lists the same dependency twice.`)
+      normalized.set(item.jobId, { jobId: item.jobId, condition })
+    }
+    const value = [...normalized.values()]
+    if (!value.length) return value
+    const jobs = this.listWorkflowJobs(current.projectId, current.environmentId).filter(
+      (item) => item.id !== current.id,
+    )
+    if (value.some((item) => !jobs.some((candidate) => candidate.id === item.jobId)))
+      throw new Error(`${current.name} can only depend on jobs in the same environment.`)
+    planJobWorkflow([...jobs, { id: current.id, name: current.name, dependsOn: value }], current.id)
+    return value
+  }
+  /**
+   * Replace a job's dependencies. A job that gains dependencies stops running on
+   * its own schedule; one that loses them needs a schedule expression again.
+   */
+  setDependencies(id: string, dependsOn: JobDependency[]): ScheduledJob {
+    const current = this.get(id)
+    if (!current) throw new Error('Scheduled job was not found.')
+    const value = this.dependencies(current, dependsOn)
+    let next: string | undefined
+    if (!value.length) {
+      if (!current.normalizedExpression)
+        throw new Error(`${current.name} needs a schedule expression before it can run without dependencies.`)
+      next = previewSchedule(current.normalizedExpression, current.timezone, this.now(), 1).nextRuns[0]
+    }
+    this.controlPlane.database.run(
+      'UPDATE scheduled_jobs SET depends_on=?,next_run_at=?,version=version+1,updated_at=? WHERE id=?',
+      [JSON.stringify(value), next ?? null, this.now().toISOString(), id],
+    )
+    return this.get(id)!
+  }
   setEnabled(id: string, enabled: boolean): ScheduledJob {
     this.controlPlane.database.run('UPDATE scheduled_jobs SET enabled=?,version=version+1,updated_at=? WHERE id=?', [
       enabled ? 1 : 0,
@@ -222,18 +320,18 @@ export class JobStore {
     if (!current) throw new Error('Scheduled job was not found.')
     const expression = input.expression ?? current.expression,
       timezone = input.timezone ?? current.timezone,
-      preview = previewSchedule(expression, timezone, this.now(), 1),
+      preview = expression ? previewSchedule(expression, timezone, this.now(), 1) : undefined,
       now = this.now().toISOString()
     this.controlPlane.database.run(
       'UPDATE scheduled_jobs SET expression=?,normalized_expression=?,timezone=?,missed_run_policy=?,overlap_policy=?,timeout_seconds=?,next_run_at=?,reconciliation_status=?,version=version+1,updated_at=? WHERE id=?',
       [
         expression,
-        preview.normalized,
+        preview?.normalized ?? '',
         timezone,
         input.missedRunPolicy ?? current.missedRunPolicy,
         input.overlapPolicy ?? current.overlapPolicy,
         clamp(input.timeoutSeconds, current.timeoutSeconds, 1, 86400),
-        preview.nextRuns[0],
+        current.dependsOn.length ? null : (preview?.nextRuns[0] ?? null),
         'pending',
         now,
         id,
@@ -246,6 +344,11 @@ export class JobStore {
     if (!current) throw new Error('Scheduled job was not found.')
     if (current.origin === 'config')
       throw new Error('Config-defined jobs must be removed from configuration, not destructively deleted.')
+    const dependents = this.dependents(id)
+    if (dependents.length) {
+      const names = dependents.map((item) => item.name).join(', ')
+      throw new Error(`${names} depend on ${current.name}; remove the dependency first.`)
+    }
     this.controlPlane.database.run('DELETE FROM scheduled_jobs WHERE id=?', [id])
   }
   markScheduled(id: string, scheduledFor: string, nextRunAt?: string): void {
@@ -261,12 +364,7 @@ export class JobStore {
     )
     return this.get(id)!
   }
-  upsertConfigJob(
-    input: Omit<
-      ScheduledJob,
-      'id' | 'normalizedExpression' | 'nextRunAt' | 'lastScheduledFor' | 'version' | 'createdAt' | 'updatedAt'
-    > & { sourceKey: string },
-  ): ScheduledJob {
+  upsertConfigJob(input: JobInput & { sourceKey: string }): ScheduledJob {
     const existing = this.getBySource(input.projectId, input.environmentId, input.sourceKey)
     if (!existing) return this.create(input)
     const preview = previewSchedule(input.expression, input.timezone, this.now(), 1),
@@ -329,11 +427,12 @@ export class JobStore {
     const id = crypto.randomUUID(),
       now = this.now().toISOString()
     this.controlPlane.database.run(
-      'INSERT INTO job_executions (id,job_id,operation_id,trigger,scheduled_for,idempotency_key,status,attempt,output,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?)',
+      'INSERT INTO job_executions (id,job_id,operation_id,workflow_run_id,trigger,scheduled_for,idempotency_key,status,attempt,output,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?)',
       [
         id,
         input.jobId,
         input.operationId ?? null,
+        input.workflowRunId ?? null,
         input.trigger,
         input.scheduledFor,
         input.idempotencyKey,
@@ -401,6 +500,68 @@ export class JobStore {
     )
     return this.getExecution(id)!
   }
+  createWorkflowRun(
+    input: Pick<
+      JobWorkflowRun,
+      'projectId' | 'environmentId' | 'rootJobId' | 'trigger' | 'scheduledFor' | 'idempotencyKey'
+    >,
+  ): JobWorkflowRun {
+    const existing = this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM job_workflow_runs WHERE idempotency_key=?')
+      .get(input.idempotencyKey)
+    if (existing) return workflowRun(existing)
+    const id = crypto.randomUUID(),
+      now = this.now().toISOString()
+    this.controlPlane.database.run(
+      "INSERT INTO job_workflow_runs (id,project_id,environment_id,root_job_id,trigger,scheduled_for,idempotency_key,status,created_at,updated_at) VALUES (?,?,?,?,?,?,?,'running',?,?)",
+      [
+        id,
+        input.projectId,
+        input.environmentId ?? null,
+        input.rootJobId,
+        input.trigger,
+        input.scheduledFor,
+        input.idempotencyKey,
+        now,
+        now,
+      ],
+    )
+    return this.getWorkflowRun(id)!
+  }
+  getWorkflowRun(id: string): JobWorkflowRun | undefined {
+    const row = this.controlPlane.database.query<Row, [string]>('SELECT * FROM job_workflow_runs WHERE id=?').get(id)
+    return row ? workflowRun(row) : undefined
+  }
+  listWorkflowRuns(rootJobId: string, limit = 50): JobWorkflowRun[] {
+    return this.controlPlane.database
+      .query<Row, [string, number]>(
+        'SELECT * FROM job_workflow_runs WHERE root_job_id=? ORDER BY created_at DESC,scheduled_for DESC LIMIT ?',
+      )
+      .all(rootJobId, Math.min(500, Math.max(1, limit)))
+      .map(workflowRun)
+  }
+  runningWorkflowRuns(rootJobId?: string): JobWorkflowRun[] {
+    return this.controlPlane.database
+      .query<Row, [string | null, string | null]>(
+        "SELECT * FROM job_workflow_runs WHERE status='running' AND (? IS NULL OR root_job_id=?) ORDER BY created_at LIMIT 200",
+      )
+      .all(rootJobId ?? null, rootJobId ?? null)
+      .map(workflowRun)
+  }
+  finishWorkflowRun(id: string, status: Exclude<JobWorkflowRunStatus, 'running'>): JobWorkflowRun {
+    const now = this.now().toISOString()
+    this.controlPlane.database.run(
+      "UPDATE job_workflow_runs SET status=?,finished_at=?,updated_at=? WHERE id=? AND status='running'",
+      [status, now, now, id],
+    )
+    return this.getWorkflowRun(id)!
+  }
+  listRunExecutions(workflowRunId: string): JobExecution[] {
+    return this.controlPlane.database
+      .query<Row, [string]>('SELECT * FROM job_executions WHERE workflow_run_id=? ORDER BY created_at')
+      .all(workflowRunId)
+      .map(execution)
+  }
   upsertWorker(input: Omit<WorkerDefinition, 'id' | 'version' | 'createdAt' | 'updatedAt'>): WorkerDefinition {
     const existingRow = input.sourceKey
         ? this.controlPlane.database
@@ -0,0 +1,74 @@
+import type { JobDependencyCondition, JobExecutionStatus, JobWorkflowPlan, ScheduledJob } from './model'
+
+type WorkflowJob = Pick<ScheduledJob, 'id' | 'name' | 'dependsOn'>
+
+/**
+ * Statuses after which a workflow member will not change again. A `failed`
+ * execution still has a retry coming; only `dead` is a final failure.
+ */
+export function settledJobExecution(status: JobExecutionStatus): boolean {
+  return status === 'succeeded' || status === 'dead' || status === 'skipped'
+}
+
+/** Whether a dependency edge lets its downstream job run after the upstream execution settled. */
+export function jobDependencySatisfied(condition: JobDependencyCondition, status: JobExecutionStatus): boolean {
+  if (condition === 'always') return settledJobExecution(status)
+  return condition === 'success' ? status === 'succeeded' : status === 'dead'
+}
+
+/**
+ * The dependency graph `jobId` belongs to, in stages, or undefined when no job
+ * depends on it and it depends on none. A workflow runs on the schedule of its
+ * single root job, so graphs with several roots are rejected along with cycles
+ * and dependencies on jobs outside `jobs`.
+ */
+export function planJobWorkflow(jobs: readonly WorkflowJob[], jobId: string): JobWorkflowPlan | undefined {
+  const byId = new Map(jobs.map((job) => [job.id, job]))
+  const dependents = new Map<string, Set<string>>()
+  for (const job of jobs)
+    for (const dependency of job.dependsOn) {
+      if (dependency.jobId === job.id) throw new Error(`${job.name} cannot depend on itself.`)
+      if (!byId.has(dependency.jobId)) throw new Error(`${job.name} depends on a job that was not found.`)
+      dependents.set(dependency.jobId, (dependents.get(dependency.jobId) ?? new Set()).add(job.id))
+    }
+  if (!byId.has(jobId)) return undefined
+  const members = new Set([jobId]),
+    pending = [jobId]
+  while (pending.length) {
+    const id = pending.pop()!
+    for (const next of [...byId.get(id)!.dependsOn.map((item) => item.jobId), ...(dependents.get(id) ?? [])])
+      if (!members.has(next)) {
+        members.add(next)
+        pending.push(next)
+      }
+  }
+  if (members.size === 1) return undefined
+  const roots = [...members].filter((id) => !byId.get(id)!.dependsOn.length)
+  if (!roots.length) throw new Error('Job dependencies must not form a cycle.')
+  if (roots.length > 1) {
+    const names = roots.map((id) => byId.get(id)!.name).join(', ')
+    throw new Error(`A workflow runs on one root job's schedule; ${names} have no dependencies.`)
+  }
+  const depth = new Map([[roots[0], 0]]),
+    waiting = new Map(
+      [...members].map((id) => [id, new Set(byId.get(id)!.dependsOn.map((item) => item.jobId)).size]),
+    ),
+    ready = [roots[0]]
+  while (ready.length) {
+    const id = ready.shift()!
+    for (const next of dependents.get(id) ?? []) {
+      depth.set(next, Math.max(depth.get(next) ?? 0, depth.get(id)! + 1))
+      waiting.set(next, waiting.get(next)! - 1)
+      if (!waiting.get(next)) ready.push(next)
+    }
+  }
+  if ([...members].some((id) => waiting.get(id))) throw new Error('Job dependencies must not form a cycle.')
+  const stages: JobWorkflowPlan['stages'] = []
+  for (const id of members) {
+    const job = byId.get(id)!,
+      stage = (stages[depth.get(id)!] ??= [])
+    stage.push({ jobId: job.id, name: job.name, dependsOn: job.dependsOn })
+  }
+  for (const stage of stages) stage.sort((left, right) => left.name.localeCompare(right.name))
+  return { rootJobId: roots[0], stages }
+}
@@ -0,0 +1,293 @@
+/**
+ * Kubernetes API client. Talks to the API server directly with a bearer token,
+ * so deploys need neither `kubectl` nor a kubeconfig on the machine.
+ * @see https://kubernetes.io/docs/reference/using-api/api-concepts/
+ */
+import type { KubernetesObject } from './types'
+import { KUBERNETES_DEFAULTS } from './config'
+
+export type KubernetesFetch = (url: string, init?: RequestInit) => Promise<Response>
+
+export interface KubernetesClientOptions {
+  server: string
+  token?: string
+  /** PEM CA bundle for the API server certificate. */
+  caCertificate?: string
+  fieldManager?: string
+  fetchImpl?: KubernetesFetch
+}
+
+/** A failed API call; `status` and `reason` come from the server's `Status` object. */
+export class KubernetesApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly reason?: string,
+  ) {
+    super(message)
+    this.name = 'KubernetesApiError'
+  }
+}
+
+export interface KubernetesExecResult {
+  stdout: string
+  stderr: string
+  exitCode: number
+}
+
+export interface KubernetesLogOptions {
+  container?: string
+  tailLines?: number
+  sinceSeconds?: number
+  /** Prefix each line with its RFC 3339 timestamp. */
+  timestamps?: boolean
+}
+
+interface KubernetesList {
+  items?: Array<Omit<KubernetesObject, 'apiVersion' | 'kind'>>
+  metadata?: { continue?: string }
+}
+
+/** Irregular plurals; every other kind pluralizes by appending `s`. */
+const PLURALS: Record<string, string> = { Ingress: 'ingresses' }
+
+/** Kinds that live outside namespaces. */
+const CLUSTER_SCOPED = new Set(['Namespace'])
+
+/** Channels of the `v4.channel.k8s.io` exec protocol. */
+const EXEC_STDOUT = 1
+const EXEC_STDERR = 2
+const EXEC_STATUS = 3
+
+export class KubernetesClient {
+  readonly name = 'kubernetes'
+  private server: string
+  private token?: string
+  private caCertificate?: string
+  private fieldManager: string
+  private fetchImpl: KubernetesFetch
+
+  constructor(options: KubernetesClientOptions) {
+    this.server = options.server.replace(/\/+$/, '')
+    this.token = options.token
+    this.caCertificate = options.caCertificate
+    this.fieldManager = options.fieldManager ?? KUBERNETES_DEFAULTS.fieldManager
+    this.fetchImpl = options.fetchImpl ?? fetch
+  }
+
+  /** API path of a collection, or of one object when `name` is given. */
+  static resourcePath(apiVersion: string, kind: string, namespace?: string, name?: string): string {
+    const base = apiVersion.includes('/') ? `/apis/${apiVersion}` : `/api/${apiVersion}`
+    const plural = PLURALS[kind] ?? `${kind.toLowerCase()}s`
+    const scope = namespace && !CLUSTER_SCOPED.has(kind) ? `/namespaces/${encodeURIComponent(namespace)}` : ''
+    return `${base}${scope}/${plural}${name ? `/${encodeURIComponent(name)}` : ''}`
+  }
+
+  private headers(contentType?: string): Record<string, string> {
+    return {
+      Accept: 'application/json',
+      ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      ...(contentType ? { 'Content-Type': contentType } : {}),
+    }
+  }
+
+  private async send(method: string, path: string, body?: unknown, contentType?: string): Promise<Response> {
+    const init: RequestInit & { tls?: { ca: string } } = {
+      method,
+      headers: this.headers(body === undefined ? undefined : (contentType ?? 'application/json')),
+      body: body === undefined ? undefined : JSON.stringify(body),
+      ...(this.caCertificate ? { tls: { ca: this.caCertificate } } : {}),
+    }
+    const response = await this.fetchImpl(`${this.server}${path}`, init)
+    if (response.ok) return response
+
+    const text = await response.text()
+    let status: { message?: string, reason?: string } = {}
+    try {
+      status = text ? JSON.parse(text) : {}
+    } catch {
+      // Not a Status object (a proxy in front of the API server); keep the raw text.
+      status = { message: text.trim().slice(0, 200) }
+    }
+    throw new KubernetesApiError(
+      `Kubernetes API ${method} ${path} (${response.status}): ${status.message || response.statusText || 'error'}`,
+      response.status,
+      status.reason,
+    )
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown, contentType?: string): Promise<T> {
+    const response = await this.send(method, path, body, contentType)
+    const text = await response.text()
+    return (text ? JSON.parse(text) : {}) as T
+  }
+
+  /**
+   * Server-side apply: the API server merges `object` into what it holds and
+   * records ts-cloud as the owner of the fields it sets. `force` takes over
+   * fields another manager (a one-off `kubectl edit`) changed since.
+   */
+  async apply(object: KubernetesObject): Promise<KubernetesObject> {
+    const { apiVersion, kind, metadata } = object
+    const path = KubernetesClient.resourcePath(apiVersion, kind, metadata.namespace, metadata.name)
+    const query = `?fieldManager=${encodeURIComponent(this.fieldManager)}&force=true`
+    return this.request<KubernetesObject>('PATCH', `${path}${query}`, object, 'application/apply-patch+yaml')
+  }
+
+  async get(
+    apiVersion: string,
+    kind: string,
+    namespace: string,
+    name: string,
+  ): Promise<KubernetesObject | undefined> {
+    try {
+      const path = KubernetesClient.resourcePath(apiVersion, kind, namespace, name)
+      return await this.request<KubernetesObject>('GET', path)
+    } catch (error) {
+      if (error instanceof KubernetesApiError && error.status === 404) return undefined
+      throw error
+    }
+  }
+
+  /** Every object of `kind` in `namespace` matching `labelSelector`, following `continue` tokens. */
+  async list(
+    apiVersion: string,
+    kind: string,
+    namespace: string,
+    labelSelector?: string,
+  ): Promise<KubernetesObject[]> {
+    const items: KubernetesObject[] = []
+    let token: string | undefined
+    do {
+      const query = new URLSearchParams({ limit: '250' })
+      if (labelSelector) query.set('labelSelector', labelSelector)
+      if (token) query.set('continue', token)
+      const path = `${KubernetesClient.resourcePath(apiVersion, kind, namespace)}?${query}`
+      const page = await this.request<KubernetesList>('GET', path)
+      // List items omit apiVersion and kind; put them back so callers can act on them.
+      for (const item of page.items ?? []) items.push({ ...item, apiVersion, kind } as KubernetesObject)
+      token = page.metadata?.continue || undefined
+    } while (token)
+    return items
+  }
+
+  /** JSON merge patch, for the runtime's scale and restart actions. */
+  async patch(
+    apiVersion: string,
+    kind: string,
+    namespace: string,
+    name: string,
+    patch: Record<string, unknown>,
+  ): Promise<KubernetesObject> {
+    const path = KubernetesClient.resourcePath(apiVersion, kind, namespace, name)
+    return this.request<KubernetesObject>('PATCH', path, patch, 'application/merge-patch+json')
+  }
+
+  /** Delete an object and, in the background, what it owns. A missing object is not an error. */
+  async delete(apiVersion: string, kind: string, namespace: string, name: string): Promise<void> {
+    try {
+      await this.request('DELETE', KubernetesClient.resourcePath(apiVersion, kind, namespace, name), {
+        propagationPolicy: 'Background',
+      })
+    } catch (error) {
+      if (error instanceof KubernetesApiError && error.status === 404) return
+      throw error
+    }
+  }
+
+  async podLogs(namespace: string, pod: string, options: KubernetesLogOptions = {}): Promise<string> {
+    const query = new URLSearchParams()
+    if (options.container) query.set('container', options.container)
+    if (options.tailLines) query.set('tailLines', String(options.tailLines))
+    if (options.sinceSeconds) query.set('sinceSeconds', String(options.sinceSeconds))
+    if (options.timestamps) query.set('timestamps', 'true')
+    const path = `${KubernetesClient.resourcePath('v1', 'Pod', namespace, pod)}/log${query.size ? `?${query}` : ''}`
+    return (await this.send('GET', path)).text()
+  }
+
+  /**
+   * Run `command` in a pod over the exec WebSocket and collect its output.
+   * Output is multiplexed by a leading channel byte: 1 stdout, 2 stderr and 3
+   * the final `Status`, which carries the exit code of a failed command.
+   */
+  async exec(
+    namespace: string,
+    pod: string,
+    command: string[],
+    options: { container?: string, timeoutMs?: number } = {},
+  ): Promise<KubernetesExecResult> {
+    const query = new URLSearchParams({ stdout: 'true', stderr: 'true' })
+    for (const part of command) query.append('command', part)
+    if (options.container) query.set('container', options.container)
+    const path = `${KubernetesClient.resourcePath('v1', 'Pod', namespace, pod)}/exec?${query}`
+    const url = `${this.server.replace(/^http/, 'ws')}${path}`
+    const decoder = new TextDecoder()
+    let stdout = ''
+    let stderr = ''
+    let exitCode: number | undefined
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(url, {
+        headers: this.headers(),
+        protocols: ['v4.channel.k8s.io'],
+        ...(this.caCertificate ? { tls: { ca: this.caCertificate } } : {}),
+      } as unknown as string[])
+      socket.binaryType = 'arraybuffer'
+      const timer = setTimeout(() => {
+        socket.close()
+        reject(new Error(`Kubernetes exec in ${namespace}/${pod} timed out after ${options.timeoutMs ?? 60_000}ms`))
+      }, options.timeoutMs ?? 60_000)
+      socket.onmessage = (event) => {
+        const data = new Uint8Array(
+          typeof event.data === 'string' ? new TextEncoder().encode(event.data) : (event.data as ArrayBuffer),
+        )
+        if (!data.length) return
+        const text = decoder.decode(data.subarray(1))
+        if (data[0] === EXEC_STDOUT) stdout += text
+        else if (data[0] === EXEC_STDERR) stderr += text
+        else if (data[0] === EXEC_STATUS) exitCode = execExitCode(text)
+      }
+      socket.onerror = () => {
+        clearTimeout(timer)
+        reject(new Error(`Kubernetes exec in ${namespace}/${pod} failed to connect`))
+      }
+      socket.onclose = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+    return { stdout, stderr, exitCode: exitCode ?? 0 }
+  }
+}
+
+/** Exit code from the exec `Status`: 0 on success, the `ExitCode` cause on failure, else 1. */
+function execExitCode(text: string): number {
+  try {
+    const status = JSON.parse(text) as {
+      status?: string
+      details?: { causes?: Array<{ reason?: string, message?: string }> }
+    }
+    if (status.status === 'Success') return 0
+    const cause = status.details?.causes?.find((item) => item.reason === 'ExitCode')
+    return cause?.message ? Number.parseInt(cause.message, 10) || 1 : 1
+  } catch {
+    return 1
+  }
+}
+
+/** Build a client from resolved settings; throws when no API server is configured. */
+export function createKubernetesClient(
+  settings: { server?: string, token?: string, caCertificate?: string, fieldManager?: string },
+  fetchImpl?: KubernetesFetch,
+): KubernetesClient {
+  if (!settings.server) {
+    throw new Error('No Kubernetes API server configured: set kubernetes.server or KUBERNETES_SERVER')
+  }
+  return new KubernetesClient({
+    server: settings.server,
+    token: settings.token,
+    caCertificate: settings.caCertificate,
+    fieldManager: settings.fieldManager,
+    fetchImpl,
+  })
+}
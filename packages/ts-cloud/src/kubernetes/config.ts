@@ -0,0 +1,109 @@
+/**
+ * The single place Kubernetes target settings are resolved.
+ *
+ * Same precedence as the DigitalOcean settings (see `../drivers/digitalocean/config`):
+ *
+ *   1. an explicit argument
+ *   2. `cloud.config.ts` → `kubernetes.*`
+ *   3. environment (`KUBERNETES_*`; inside a pod, the service account's
+ *      `KUBERNETES_SERVICE_HOST` and mounted token)
+ *   4. the documented default in {@link KUBERNETES_DEFAULTS}
+ */
+import type { CloudConfig, EnvironmentType } from '@ts-cloud/core'
+import { existsSync, readFileSync } from 'node:fs'
+
+/** The documented defaults. These are the only place a Kubernetes default lives. */
+export const KUBERNETES_DEFAULTS = {
+  workingDir: '/app',
+  /** Field manager recorded on every server-side apply. */
+  fieldManager: 'ts-cloud',
+} as const
+
+/** Where a pod's service account credentials are mounted. */
+const SERVICE_ACCOUNT_DIR = '/var/run/secrets/kubernetes.io/serviceaccount'
+
+function env(...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = process.env[name]?.trim()
+    if (value) return value
+  }
+  return undefined
+}
+
+function first(...values: Array<string | undefined>): string | undefined {
+  for (const value of values) {
+    const trimmed = value?.trim()
+    if (trimmed) return trimmed
+  }
+  return undefined
+}
+
+function serviceAccountFile(name: string): string | undefined {
+  const path = `${SERVICE_ACCOUNT_DIR}/${name}`
+  return env('KUBERNETES_SERVICE_HOST') && existsSync(path) ? readFileSync(path, 'utf8') : undefined
+}
+
+/** Lower-case DNS-1123 label built from `parts`, at most 63 characters. */
+export function kubernetesName(...parts: string[]): string {
+  return (
+    parts
+      .join('-')
+      .toLowerCase()
+      .replace(/[^a-z0-9-]+/g, '-')
+      .replace(/-+/g, '-')
+      .slice(0, 63)
+      .replace(/^-+|-+$/g, '') || 'app'
+  )
+}
+
+/** Every resolved Kubernetes setting, for the renderer, the client and the runtime to read at once. */
+export interface ResolvedKubernetesSettings {
+  server?: string
+  token?: string
+  caCertificate?: string
+  namespace: string
+  image?: string
+  images: Record<string, string>
+  workingDir: string
+  fieldManager: string
+  ingressClassName?: string
+  tlsSecretName?: string
+  ingressAnnotations: Record<string, string>
+  imagePullSecrets: string[]
+}
+
+export interface KubernetesOverrides {
+  server?: string
+  token?: string
+  namespace?: string
+  image?: string
+}
+
+/** Resolve the full Kubernetes settings for `config` in `environment`, applying `overrides` first. */
+export function resolveKubernetesSettings(
+  config: CloudConfig,
+  environment: EnvironmentType,
+  overrides: KubernetesOverrides = {},
+): ResolvedKubernetesSettings {
+  const settings = config.kubernetes ?? {}
+  const inCluster = env('KUBERNETES_SERVICE_HOST')
+    ? `https://${env('KUBERNETES_SERVICE_HOST')}:${env('KUBERNETES_SERVICE_PORT') ?? '443'}`
+    : undefined
+  return {
+    server: first(overrides.server, settings.server, env('KUBERNETES_SERVER'), inCluster)?.replace(/\/+$/, ''),
+    token: first(overrides.token, settings.token, env('KUBERNETES_TOKEN'), serviceAccountFile('token')),
+    caCertificate: first(settings.caCertificate, env('KUBERNETES_CA_CERT'), serviceAccountFile('ca.crt')),
+    namespace: kubernetesName(
+      first(overrides.namespace, settings.namespace, env('KUBERNETES_NAMESPACE')) ??
+        `${config.project.slug}-${environment}`,
+    ),
+    image: first(overrides.image, settings.image, env('KUBERNETES_IMAGE')),
+    images: settings.images ?? {},
+    workingDir: settings.workingDir ?? KUBERNETES_DEFAULTS.workingDir,
+    fieldManager: KUBERNETES_DEFAULTS.fieldManager,
+    ingressClassName: settings.ingressClassName,
+    tlsSecretName: settings.tlsSecretName,
+    ingressAnnotations: settings.ingressAnnotations ?? {},
+    imagePullSecrets: settings.imagePullSecrets ?? [],
+  }
+}
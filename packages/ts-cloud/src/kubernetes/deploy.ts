@@ -0,0 +1,116 @@
+/**
+ * Apply rendered objects to a cluster.
+ *
+ * Every object goes through server-side apply in render order, so a rerun with
+ * an unchanged config is a no-op on the cluster. With `prune`, objects that
+ * carry this app's labels but are no longer rendered (a removed queue worker,
+ * a scheduler that was switched off) are deleted afterwards.
+ */
+import type { KubernetesClient } from './client'
+import type { KubernetesObject } from './types'
+
+/** Kinds `prune` looks for. The namespace itself is never pruned. */
+const PRUNABLE: Array<[apiVersion: string, kind: string]> = [
+  ['networking.k8s.io/v1', 'Ingress'],
+  ['autoscaling/v2', 'HorizontalPodAutoscaler'],
+  ['v1', 'Service'],
+  ['batch/v1', 'CronJob'],
+  ['apps/v1', 'Deployment'],
+  ['v1', 'Secret'],
+]
+
+export type KubernetesApplyClient = Pick<KubernetesClient, 'apply' | 'list' | 'delete' | 'get'>
+
+export interface KubernetesApplyOptions {
+  namespace: string
+  /** Selector matching every object this app owns; required for `prune`. */
+  labelSelector?: string
+  prune?: boolean
+  /** Wait for every Deployment to finish rolling out. */
+  wait?: boolean
+  timeoutMs?: number
+  pollMs?: number
+  onProgress?: (message: string) => void
+}
+
+export interface KubernetesApplyResult {
+  /** `Kind/name` of every applied object, in apply order. */
+  applied: string[]
+  pruned: string[]
+}
+
+function describe(object: Pick<KubernetesObject, 'kind' | 'metadata'>): string {
+  return `${object.kind}/${object.metadata.name}`
+}
+
+export async function applyKubernetesManifests(
+  client: KubernetesApplyClient,
+  objects: KubernetesObject[],
+  options: KubernetesApplyOptions,
+): Promise<KubernetesApplyResult> {
+  const applied: string[] = []
+  for (const object of objects) {
+    await client.apply(object)
+    applied.push(describe(object))
+    options.onProgress?.(`Applied ${describe(object)}`)
+  }
+
+  const pruned: string[] = []
+  if (options.prune) {
+    if (!options.labelSelector) throw new Error('Pruning needs a label selector')
+    const wanted = new Set(applied)
+    for (const [apiVersion, kind] of PRUNABLE) {
+      for (const existing of await client.list(apiVersion, kind, options.namespace, options.labelSelector)) {
+        const name = describe({ kind, metadata: existing.metadata })
+        if (wanted.has(name)) continue
+        await client.delete(apiVersion, kind, options.namespace, existing.metadata.name)
+        pruned.push(name)
+        options.onProgress?.(`Pruned ${name}`)
+      }
+    }
+  }
+
+  if (options.wait) {
+    for (const object of objects.filter((item) => item.kind === 'Deployment')) {
+      await waitForRollout(client, options.namespace, object.metadata.name, options)
+      options.onProgress?.(`Rolled out ${describe(object)}`)
+    }
+  }
+  return { applied, pruned }
+}
+
+interface DeploymentStatus {
+  observedGeneration?: number
+  replicas?: number
+  updatedReplicas?: number
+  availableReplicas?: number
+}
+
+/** True once the Deployment controller has seen the latest spec and every replica runs it. */
+export function isRolledOut(deployment: KubernetesObject): boolean {
+  const generation = deployment.metadata.generation ?? 0
+  const spec = (deployment.spec ?? {}) as { replicas?: number }
+  const status = (deployment.status ?? {}) as DeploymentStatus
+  const desired = spec.replicas ?? 1
+  return (
+    (status.observedGeneration ?? 0) >= generation &&
+    (status.updatedReplicas ?? 0) >= desired &&
+    (status.availableReplicas ?? 0) >= desired &&
+    (status.replicas ?? 0) <= desired
+  )
+}
+
+async function waitForRollout(
+  client: KubernetesApplyClient,
+  namespace: string,
+  name: string,
+  options: Pick<KubernetesApplyOptions, 'timeoutMs' | 'pollMs'>,
+): Promise<void> {
+  const deadline = Date.now() + (options.timeoutMs ?? 600_000)
+  while (true) {
+    const deployment = await client.get('apps/v1', 'Deployment', namespace, name)
+    if (deployment && isRolledOut(deployment)) return
+    if (Date.now() >= deadline) throw new Error(`Deployment ${namespace}/${name} did not finish rolling out in time`)
+    await new Promise((resolve) => setTimeout(resolve, options.pollMs ?? 2_000))
+  }
+}
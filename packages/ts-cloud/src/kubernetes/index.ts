@@ -0,0 +1,5 @@
+export * from './types'
+export * from './config'
+export * from './manifests'
+export * from './client'
+export * from './deploy'
@@ -0,0 +1,329 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import type { CloudConfig } from '@ts-cloud/core'
+import type { KubernetesObject } from './types'
+import { RuntimeOperationService } from '../runtime/operations'
+import { resolveRuntimeInventory } from '../runtime/service'
+import { KubernetesClient } from './client'
+import { resolveKubernetesSettings } from './config'
+import { applyKubernetesManifests } from './deploy'
+import { kubernetesLabelSelector, renderKubernetesManifests, renderKubernetesYaml } from './manifests'
+
+const config = {
+  project: { name: 'Acme', slug: 'acme', region: 'us-east-1' },
+  cloud: { provider: 'hetzner' },
+  mode: 'server',
+  environments: { production: { type: 'production', variables: { APP_KEY: 'base64:secret' } } },
+  infrastructure: {
+    compute: { instances: 2 },
+    containers: {
+      api: {
+        cpu: 512,
+        memory: 1024,
+        port: 3000,
+        healthCheck: '/health',
+        autoScaling: { min: 2, max: 6, targetCpuUtilization: 60 },
+      },
+    },
+  },
+  sites: {
+    web: {
+      root: '.',
+      start: 'bun run server.ts',
+      port: 3001,
+      domain: 'acme.test',
+      env: { DB_HOST: 'db.internal' },
+      queues: [{ queue: 'emails', processes: 3 }],
+      scheduler: true,
+    },
+    admin: {
+      root: '.',
+      framework: 'laravel',
+      deploy: 'server',
+      scheduler: { heartbeatUrl: 'https://hc.test/ping', heartbeatMethod: 'POST' },
+    },
+    docs: { root: 'docs' },
+  },
+  kubernetes: { image: 'ghcr.io/acme/app:1.0.0', ingressClassName: 'nginx', tlsSecretName: 'acme-tls' },
+} as unknown as CloudConfig
+
+/**
+ * A stand-in for the API server: keeps objects in memory by path, answers
+ * server-side apply, merge patch, label-selected lists, pod logs and exec.
+ */
+class FakeApiServer {
+  readonly objects = new Map<string, KubernetesObject>()
+  readonly requests: Array<{ method: string, path: string, contentType?: string }> = []
+  server!: ReturnType<typeof Bun.serve<{ command: string[] }>>
+
+  start(): string {
+    this.server = Bun.serve<{ command: string[] }>({
+      port: 0,
+      fetch: (request, server) => this.handle(request, server),
+      websocket: {
+        open: (ws) => {
+          const stdout = `ran ${ws.data.command.join(' ')}\n`
+          ws.send(new Uint8Array([1, ...new TextEncoder().encode(stdout)]))
+          ws.send(new Uint8Array([3, ...new TextEncoder().encode(JSON.stringify({ status: 'Success' }))]))
+          ws.close()
+        },
+        message: () => {},
+      },
+    })
+    return `http://127.0.0.1:${this.server.port}`
+  }
+
+  seedPod(name: string, owner: string, phase = 'Running'): void {
+    this.objects.set(`/api/v1/namespaces/acme-production/pods/${name}`, {
+      apiVersion: 'v1',
+      kind: 'Pod',
+      metadata: {
+        name,
+        namespace: 'acme-production',
+        labels: {
+          'app.kubernetes.io/name': owner,
+          'app.kubernetes.io/managed-by': 'ts-cloud',
+          'app.kubernetes.io/part-of': 'acme',
+          'ts-cloud.dev/environment': 'production',
+        },
+        creationTimestamp: '2026-10-19T10:00:00Z',
+      },
+      status: { phase, containerStatuses: [{ name: 'app', ready: true, restartCount: 1, state: { running: {} } }] },
+    })
+  }
+
+  private async handle(request: Request, server: FakeApiServer['server']): Promise<Response | undefined> {
+    const url = new URL(request.url)
+    const path = url.pathname
+    const contentType = request.headers.get('content-type') ?? undefined
+    this.requests.push({ method: request.method, path, contentType })
+    if (request.headers.get('authorization') !== 'Bearer test-token') {
+      return Response.json({ message: 'Unauthorized', reason: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (path.endsWith('/exec')) {
+      const protocol = request.headers.get('sec-websocket-protocol')
+      if (protocol !== 'v4.channel.k8s.io') return new Response('bad protocol', { status: 400 })
+      server.upgrade(request, {
+        headers: { 'Sec-WebSocket-Protocol': protocol },
+        data: { command: url.searchParams.getAll('command') },
+      })
+      return undefined
+    }
+    if (path.endsWith('/log')) {
+      return new Response('2026-10-19T10:00:02Z second\n2026-10-19T10:00:01Z first\n')
+    }
+
+    const existing = this.objects.get(path)
+    if (request.method === 'PATCH') {
+      const body = (await request.json()) as KubernetesObject
+      if (contentType === 'application/apply-patch+yaml') {
+        if (url.searchParams.get('fieldManager') !== 'ts-cloud') return new Response('no manager', { status: 400 })
+        const generation = (existing?.metadata.generation ?? 0) + 1
+        const replicas = (body.spec as { replicas?: number } | undefined)?.replicas ?? 2
+        // Deployments come back as rolled out, as if the controller had already caught up.
+        const status = {
+          observedGeneration: generation,
+          replicas,
+          updatedReplicas: replicas,
+          availableReplicas: replicas,
+        }
+        this.objects.set(path, {
+          ...body,
+          metadata: { ...body.metadata, generation, creationTimestamp: '2026-10-19T09:00:00Z' },
+          ...(body.kind === 'Deployment' ? { spec: { ...(body.spec as object), replicas }, status } : {}),
+        })
+        return Response.json(this.objects.get(path))
+      }
+      if (!existing) return Response.json({ message: 'not found', reason: 'NotFound' }, { status: 404 })
+      this.objects.set(path, merge(existing, body) as KubernetesObject)
+      return Response.json(this.objects.get(path))
+    }
+    if (request.method === 'DELETE') {
+      if (!existing) return Response.json({ message: 'not found', reason: 'NotFound' }, { status: 404 })
+      this.objects.delete(path)
+      return Response.json({ status: 'Success' })
+    }
+    if (existing) return Response.json(existing)
+
+    // Anything else is a list of the collection at `path`.
+    const selector = (url.searchParams.get('labelSelector') ?? '').split(',').filter(Boolean)
+    const items = [...this.objects.entries()]
+      .filter(([key]) => key.startsWith(`${path}/`) && !key.slice(path.length + 1).includes('/'))
+      .map(([, object]) => object)
+      .filter((object) =>
+        selector.every((term) => {
+          const [key, value] = term.split('=')
+          return object.metadata.labels?.[key] === value
+        }),
+      )
+    return Response.json({ items })
+  }
+}
+
+function merge(target: unknown, patch: unknown): unknown {
+  if (!patch || typeof patch !== 'object' || Array.isArray(patch)) return patch
+  const result: Record<string, unknown> = { ...(target as Record<string, unknown>) }
+  for (const [key, value] of Object.entries(patch)) result[key] = merge(result[key], value)
+  return result
+}
+
+const api = new FakeApiServer()
+let server = ''
+const previousEnv: Record<string, string | undefined> = {}
+
+beforeAll(() => {
+  server = api.start()
+  for (const name of ['KUBERNETES_SERVER', 'KUBERNETES_TOKEN', 'KUBERNETES_NAMESPACE', 'KUBERNETES_SERVICE_HOST']) {
+    previousEnv[name] = process.env[name]
+    delete process.env[name]
+  }
+})
+
+afterAll(() => {
+  api.server.stop(true)
+  for (const [name, value] of Object.entries(previousEnv)) {
+    if (value === undefined) delete process.env[name]
+    else process.env[name] = value
+  }
+})
+
+const settings = () => resolveKubernetesSettings(config, 'production', { server, token: 'test-token' })
+const byName = (objects: KubernetesObject[], kind: string, name: string) =>
+  objects.find((object) => object.kind === kind && object.metadata.name === name) as any
+
+describe('renderKubernetesManifests', () => {
+  const objects = () => renderKubernetesManifests(config, 'production', settings())
+
+  it('renders every workload in apply order', () => {
+    expect(objects().map((object) => `${object.kind}/${object.metadata.name}`)).toEqual([
+      'Namespace/acme-production',
+      'Secret/acme-env',
+      'Secret/acme-web-env',
+      'Deployment/acme-api',
+      'Deployment/acme-web',
+      'Deployment/acme-web-queue-0',
+      'Deployment/acme-web-scheduler',
+      'Deployment/acme-admin',
+      'CronJob/acme-admin-scheduler',
+      'Service/acme-api',
+      'Service/acme-web',
+      'Service/acme-admin',
+      'HorizontalPodAutoscaler/acme-api',
+      'Ingress/acme',
+    ])
+  })
+
+  it('maps container sizing, health checks and autoscaling', () => {
+    const api = byName(objects(), 'Deployment', 'acme-api')
+    const container = api.spec.template.spec.containers[0]
+    expect(api.spec.replicas).toBeUndefined()
+    expect(container.resources).toEqual({ requests: { cpu: '500m', memory: '1024Mi' }, limits: { memory: '1024Mi' } })
+    expect(container.readinessProbe.httpGet).toEqual({ path: '/health', port: 3000 })
+    expect(container.envFrom).toEqual([{ secretRef: { name: 'acme-env' } }])
+    expect(byName(objects(), 'HorizontalPodAutoscaler', 'acme-api').spec).toMatchObject({
+      minReplicas: 2,
+      maxReplicas: 6,
+      metrics: [{ resource: { name: 'cpu', target: { averageUtilization: 60 } } }],
+    })
+  })
+
+  it('runs queue workers and schedulers through the framework driver', () => {
+    const web = byName(objects(), 'Deployment', 'acme-web')
+    expect(web.spec.replicas).toBe(2)
+    expect(web.spec.template.spec.containers[0].command).toEqual(['sh', '-c', 'bun run server.ts'])
+    expect(byName(objects(), 'Secret', 'acme-web-env').stringData).toEqual({ DB_HOST: 'db.internal' })
+
+    const queue = byName(objects(), 'Deployment', 'acme-web-queue-0')
+    expect(queue.spec.replicas).toBe(3)
+    expect(queue.spec.template.spec.containers[0].command[2]).toContain('queue:work --queue=emails')
+
+    expect(byName(objects(), 'Deployment', 'acme-web-scheduler').spec.strategy).toEqual({ type: 'Recreate' })
+    const cron = byName(objects(), 'CronJob', 'acme-admin-scheduler')
+    expect(cron.spec.schedule).toBe('* * * * *')
+    expect(cron.spec.jobTemplate.spec.template.spec.containers[0].command[2]).toBe(
+      `php artisan schedule:run && curl -fsS -m 10 -X POST 'https://hc.test/ping' >/dev/null`,
+    )
+  })
+
+  it('routes site domains through the ingress', () => {
+    expect(byName(objects(), 'Ingress', 'acme').spec).toEqual({
+      ingressClassName: 'nginx',
+      tls: [{ hosts: ['acme.test'], secretName: 'acme-tls' }],
+      rules: [
+        {
+          host: 'acme.test',
+          http: {
+            paths: [
+              { path: '/', pathType: 'Prefix', backend: { service: { name: 'acme-web', port: { number: 80 } } } },
+            ],
+          },
+        },
+      ],
+    })
+    expect(renderKubernetesYaml(objects().slice(0, 1))).toContain('kind: Namespace')
+  })
+
+  it('refuses workloads without an image', () => {
+    const bare = { ...config, kubernetes: {} } as CloudConfig
+    expect(() => renderKubernetesManifests(bare, 'production', resolveKubernetesSettings(bare, 'production'))).toThrow(
+      'No image for "api"',
+    )
+  })
+})
+
+describe('Kubernetes deploy against a fake API server', () => {
+  it('applies with server-side apply and prunes what is no longer rendered', async () => {
+    const client = new KubernetesClient({ server, token: 'test-token' })
+    const objects = renderKubernetesManifests(config, 'production', settings())
+    const selector = kubernetesLabelSelector(config, 'production')
+    const queue = byName(objects, 'Deployment', 'acme-web-queue-0')
+    await client.apply({ ...queue, metadata: { ...queue.metadata, name: 'acme-web-queue-1' } })
+
+    const result = await applyKubernetesManifests(client, objects, {
+      namespace: 'acme-production',
+      labelSelector: selector,
+      prune: true,
+      wait: true,
+      pollMs: 1,
+    })
+    expect(result.applied).toHaveLength(objects.length)
+    expect(result.pruned).toEqual(['Deployment/acme-web-queue-1'])
+    expect(api.objects.has('/apis/apps/v1/namespaces/acme-production/deployments/acme-web-queue-1')).toBeFalse()
+    expect(api.requests.find((request) => request.path.endsWith('/ingresses/acme'))?.contentType).toBe(
+      'application/apply-patch+yaml',
+    )
+    expect(api.objects.get('/api/v1/namespaces/acme-production')?.kind).toBe('Namespace')
+  })
+
+  it('registers workloads for runtime logs, scale, restart and exec', async () => {
+    api.seedPod('acme-web-7d9-abc', 'acme-web')
+    const kubernetes = new KubernetesClient({ server, token: 'test-token' })
+    const inventory = await resolveRuntimeInventory(config, 'production', { kubernetes })
+    expect(inventory.sources).toMatchObject([{ id: 'kubernetes:acme-production', status: 'fresh' }])
+    const web = inventory.workloads.find((workload) => workload.name === 'acme-web')!
+    expect(web).toMatchObject({
+      provider: 'kubernetes',
+      status: 'running',
+      desiredReplicas: 2,
+      links: { service: 'web', providerId: 'acme-production/acme-web' },
+      replicas: [{ name: 'acme-web-7d9-abc', status: 'running', restartCount: 1 }],
+    })
+    expect(inventory.workloads.find((workload) => workload.name === 'acme-admin-scheduler')?.kind).toBe('task')
+
+    const runtime = new RuntimeOperationService(config, 'production', { kubernetes })
+    const logs = await runtime.logs(web.id, { limit: 10 })
+    expect(logs.lines.map((line) => line.message)).toEqual(['first', 'second'])
+
+    expect(await runtime.run({ workloadId: web.id, action: 'scale', replicas: 4, confirm: 'acme-web' })).toMatchObject({
+      ok: true,
+    })
+    const path = '/apis/apps/v1/namespaces/acme-production/deployments/acme-web'
+    expect((api.objects.get(path)?.spec as { replicas: number }).replicas).toBe(4)
+    await runtime.run({ workloadId: web.id, action: 'restart', confirm: 'acme-web' })
+    const annotations = (api.objects.get(path)?.spec as any).template.metadata.annotations
+    expect(annotations['kubectl.kubernetes.io/restartedAt']).toBeString()
+
+    const exec = await runtime.exec({ workloadId: web.id, command: 'php -v', confirm: 'acme-web', recentAuth: true })
+    expect(exec).toMatchObject({ ok: true, stdout: 'ran sh -c php -v\n' })
+  })
+})
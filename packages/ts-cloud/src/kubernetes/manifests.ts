@@ -0,0 +1,372 @@
+/**
+ * Render a ts-cloud app as Kubernetes objects.
+ *
+ * The same config that drives ECS and the server drivers maps onto a cluster:
+ *
+ *   - `infrastructure.containers.*`  → Deployment + Service (+ HPA with `autoScaling`)
+ *   - server sites (`sites.*.start`) → Deployment + Service (+ HPA from `compute.server.autoScaling`)
+ *   - `sites.*.queues[]`             → one Deployment per worker, `processes` replicas
+ *   - `sites.*.scheduler`            → a CronJob (Laravel) or a single-replica Deployment (Stacks)
+ *   - `sites.*.env`, env variables   → Secrets, mounted with `envFrom`
+ *   - `sites.*.domain`               → Ingress rules
+ *
+ * Rendering is pure: the same config always yields the same objects, in the
+ * order they are applied.
+ */
+import type { CloudConfig, ContainerItemConfig, EnvironmentType, SiteConfig } from '@ts-cloud/core'
+import type { ResolvedKubernetesSettings } from './config'
+import type { KubernetesComponent, KubernetesObject } from './types'
+import { resolveSiteDeployTarget } from '../deploy/site-target'
+import { getAppFrameworkDriver, resolveSiteFramework } from '../drivers/shared/app-frameworks'
+import { kubernetesName } from './config'
+import { KUBERNETES_LABELS } from './types'
+
+/** Port every rendered Service listens on; it forwards to the workload's container port. */
+const SERVICE_PORT = 80
+
+/** Port a server site without `port` is assumed to serve on (the image's web server). */
+const DEFAULT_SITE_PORT = 80
+
+interface KubernetesWorkload {
+  name: string
+  component: KubernetesComponent
+  image: string
+  command?: string
+  workingDir?: string
+  port?: number
+  replicas: number
+  secrets: string[]
+  cpu?: number
+  memory?: number
+  healthCheck?: string
+  autoScaling?: { min: number, max: number, cpu?: number, memory?: number }
+  /** Cron schedule; renders a CronJob instead of a Deployment. */
+  schedule?: string
+  /** Never run two copies, even during a rollout. */
+  singleton?: boolean
+  stopGracePeriod?: number
+}
+
+function imageFor(settings: ResolvedKubernetesSettings, ...keys: string[]): string {
+  for (const key of keys) if (settings.images[key]) return settings.images[key]
+  if (settings.image) return settings.image
+  throw new Error(`No image for "${keys[0]}": set kubernetes.image or kubernetes.images.${keys[0]}`)
+}
+
+function labelsFor(config: CloudConfig, environment: EnvironmentType): Record<string, string> {
+  return {
+    [KUBERNETES_LABELS.managedBy]: 'ts-cloud',
+    [KUBERNETES_LABELS.partOf]: kubernetesName(config.project.slug),
+    [KUBERNETES_LABELS.environment]: environment,
+  }
+}
+
+/** Label selector matching every object rendered for `config` in `environment`. */
+export function kubernetesLabelSelector(config: CloudConfig, environment: EnvironmentType): string {
+  return Object.entries(labelsFor(config, environment))
+    .map(([key, value]) => `${key}=${value}`)
+    .join(',')
+}
+
+function serverSites(config: CloudConfig): Array<[string, SiteConfig]> {
+  return Object.entries(config.sites ?? {}).filter(([, site]) => resolveSiteDeployTarget(site) === 'server')
+}
+
+function containerWorkloads(
+  config: CloudConfig,
+  environment: EnvironmentType,
+  settings: ResolvedKubernetesSettings,
+  shared: string[],
+): KubernetesWorkload[] {
+  const containers: Record<string, ContainerItemConfig> = {
+    ...config.infrastructure?.containers,
+    ...config.environments?.[environment]?.infrastructure?.containers,
+  }
+  return Object.entries(containers).map(([name, container]) => {
+    const scaling = container.autoScaling
+    return {
+      name: kubernetesName(config.project.slug, name),
+      component: 'container',
+      image: imageFor(settings, name),
+      port: container.port,
+      replicas: container.desiredCount ?? scaling?.min ?? 1,
+      secrets: shared,
+      cpu: container.cpu,
+      memory: container.memory,
+      healthCheck: container.healthCheck,
+      autoScaling:
+        scaling?.max && scaling.max > (scaling.min ?? 1)
+          ? {
+              min: scaling.min ?? 1,
+              max: scaling.max,
+              cpu: scaling.targetCpuUtilization,
+              memory: scaling.targetMemoryUtilization,
+            }
+          : undefined,
+    }
+  })
+}
+
+function siteWorkloads(
+  config: CloudConfig,
+  environment: EnvironmentType,
+  settings: ResolvedKubernetesSettings,
+  siteName: string,
+  site: SiteConfig,
+  secrets: string[],
+): KubernetesWorkload[] {
+  const slug = config.project.slug
+  const framework = resolveSiteFramework(site)
+  const driver = getAppFrameworkDriver(framework)
+  const ctx = { current: settings.workingDir }
+  const image = imageFor(settings, siteName, 'app')
+  const base = { image, workingDir: settings.workingDir, secrets }
+  const workloads: KubernetesWorkload[] = []
+
+  const compute = { ...config.infrastructure?.compute, ...config.environments?.[environment]?.infrastructure?.compute }
+  const scaling = compute.server?.autoScaling
+  workloads.push({
+    ...base,
+    name: kubernetesName(slug, siteName),
+    component: 'app',
+    command: site.start,
+    port: site.port ?? DEFAULT_SITE_PORT,
+    replicas: scaling?.desired ?? compute.instances ?? 1,
+    autoScaling:
+      scaling?.max && scaling.max > (scaling.min ?? 1)
+        ? { min: scaling.min ?? 1, max: scaling.max, cpu: scaling.targetCPU }
+        : undefined,
+  })
+
+  for (const [index, worker] of (site.queues ?? []).entries()) {
+    workloads.push({
+      ...base,
+      name: kubernetesName(slug, siteName, 'queue', String(index)),
+      component: 'queue',
+      command: driver.queueWorkerCommand(worker, ctx),
+      replicas: Math.max(1, worker.processes ?? 1),
+      stopGracePeriod: worker.stopWaitSecs ?? 90,
+    })
+  }
+
+  const scheduler = site.scheduler
+  if (scheduler) {
+    const name = kubernetesName(slug, siteName, 'scheduler')
+    if (driver.schedulerMode === 'daemon') {
+      const command = driver.schedulerCommand(ctx)
+      workloads.push({ ...base, name, component: 'scheduler', command, replicas: 1, singleton: true })
+    } else {
+      // The box scheduler loads pantry's env first; an image brings its own php.
+      let command = 'php artisan schedule:run'
+      if (typeof scheduler === 'object' && scheduler.heartbeatUrl) {
+        const method = scheduler.heartbeatMethod || 'GET'
+        const methodFlag = method === 'GET' ? '' : `-X ${method} `
+        command += ` && curl -fsS -m 10 ${methodFlag}'${scheduler.heartbeatUrl.replace(/'/g, `'\\''`)}' >/dev/null`
+      }
+      workloads.push({ ...base, name, component: 'scheduler', command, replicas: 1, schedule: '* * * * *' })
+    }
+  }
+  return workloads
+}
+
+function resources(workload: KubernetesWorkload): Record<string, unknown> | undefined {
+  if (!workload.cpu && !workload.memory) return undefined
+  // ECS sizes: cpu in units of 1/1024 vCPU, memory in MiB.
+  const requests: Record<string, string> = {}
+  if (workload.cpu) requests.cpu = `${Math.max(1, Math.round((workload.cpu * 1000) / 1024))}m`
+  if (workload.memory) requests.memory = `${workload.memory}Mi`
+  return { requests, ...(requests.memory ? { limits: { memory: requests.memory } } : {}) }
+}
+
+function probe(workload: KubernetesWorkload): Record<string, unknown> | undefined {
+  const check = workload.healthCheck?.trim()
+  if (!check) return undefined
+  // A path is an HTTP check against the container port; anything else is a command.
+  if (check.startsWith('/') && workload.port) {
+    return { httpGet: { path: check, port: workload.port }, periodSeconds: 10 }
+  }
+  return { exec: { command: ['sh', '-c', check] }, periodSeconds: 10 }
+}
+
+function podSpec(
+  workload: KubernetesWorkload,
+  settings: ResolvedKubernetesSettings,
+  extra: Record<string, unknown> = {},
+): Record<string, unknown> {
+  const check = probe(workload)
+  const container = {
+    name: workload.component,
+    image: workload.image,
+    ...(workload.command ? { command: ['sh', '-c', workload.command] } : {}),
+    ...(workload.workingDir ? { workingDir: workload.workingDir } : {}),
+    ...(workload.port ? { ports: [{ name: 'http', containerPort: workload.port }] } : {}),
+    ...(workload.secrets.length ? { envFrom: workload.secrets.map((name) => ({ secretRef: { name } })) } : {}),
+    ...(resources(workload) ? { resources: resources(workload) } : {}),
+    ...(check ? { readinessProbe: check, livenessProbe: { ...check, initialDelaySeconds: 15 } } : {}),
+  }
+  return {
+    ...extra,
+    ...(workload.stopGracePeriod ? { terminationGracePeriodSeconds: workload.stopGracePeriod } : {}),
+    ...(settings.imagePullSecrets.length
+      ? { imagePullSecrets: settings.imagePullSecrets.map((name) => ({ name })) }
+      : {}),
+    containers: [container],
+  }
+}
+
+function workloadObjects(
+  workload: KubernetesWorkload,
+  settings: ResolvedKubernetesSettings,
+  labels: Record<string, string>,
+): KubernetesObject[] {
+  const selector = {
+    [KUBERNETES_LABELS.name]: workload.name,
+    [KUBERNETES_LABELS.environment]: labels[KUBERNETES_LABELS.environment],
+  }
+  const own = { ...labels, [KUBERNETES_LABELS.name]: workload.name, [KUBERNETES_LABELS.component]: workload.component }
+  const metadata = { name: workload.name, namespace: settings.namespace, labels: own }
+
+  if (workload.schedule) {
+    return [
+      {
+        apiVersion: 'batch/v1',
+        kind: 'CronJob',
+        metadata,
+        spec: {
+          schedule: workload.schedule,
+          concurrencyPolicy: 'Forbid',
+          successfulJobsHistoryLimit: 1,
+          failedJobsHistoryLimit: 3,
+          jobTemplate: {
+            spec: {
+              backoffLimit: 0,
+              template: { metadata: { labels: own }, spec: podSpec(workload, settings, { restartPolicy: 'Never' }) },
+            },
+          },
+        },
+      },
+    ]
+  }
+
+  const objects: KubernetesObject[] = [
+    {
+      apiVersion: 'apps/v1',
+      kind: 'Deployment',
+      metadata,
+      spec: {
+        // The HPA owns the replica count once there is one; applying it here would fight it.
+        ...(workload.autoScaling ? {} : { replicas: workload.replicas }),
+        selector: { matchLabels: selector },
+        ...(workload.singleton ? { strategy: { type: 'Recreate' } } : {}),
+        template: { metadata: { labels: own }, spec: podSpec(workload, settings) },
+      },
+    },
+  ]
+  if (workload.port) {
+    objects.push({
+      apiVersion: 'v1',
+      kind: 'Service',
+      metadata,
+      spec: { selector, ports: [{ name: 'http', port: SERVICE_PORT, targetPort: workload.port }] },
+    })
+  }
+  if (workload.autoScaling) {
+    const { min, max, cpu, memory } = workload.autoScaling
+    const metric = (name: string, target: number) => ({
+      type: 'Resource',
+      resource: { name, target: { type: 'Utilization', averageUtilization: target } },
+    })
+    objects.push({
+      apiVersion: 'autoscaling/v2',
+      kind: 'HorizontalPodAutoscaler',
+      metadata,
+      spec: {
+        scaleTargetRef: { apiVersion: 'apps/v1', kind: 'Deployment', name: workload.name },
+        minReplicas: min,
+        maxReplicas: max,
+        metrics: [
+          ...(cpu || !memory ? [metric('cpu', cpu ?? 70)] : []),
+          ...(memory ? [metric('memory', memory)] : []),
+        ],
+      },
+    })
+  }
+  return objects
+}
+
+/** Kinds in the order they are applied: what a kind references always comes first. */
+const APPLY_ORDER = ['Namespace', 'Secret', 'Deployment', 'CronJob', 'Service', 'HorizontalPodAutoscaler', 'Ingress']
+
+/**
+ * Render every Kubernetes object for `config` in `environment`, in apply order.
+ * Throws when a workload has no image to run.
+ */
+export function renderKubernetesManifests(
+  config: CloudConfig,
+  environment: EnvironmentType,
+  settings: ResolvedKubernetesSettings,
+): KubernetesObject[] {
+  const slug = config.project.slug
+  const labels = labelsFor(config, environment)
+  const meta = (name: string) => ({ name, namespace: settings.namespace, labels })
+  const objects: KubernetesObject[] = [
+    { apiVersion: 'v1', kind: 'Namespace', metadata: { name: settings.namespace, labels } },
+  ]
+
+  const shared: string[] = []
+  const variables = config.environments?.[environment]?.variables ?? {}
+  if (Object.keys(variables).length) {
+    const name = kubernetesName(slug, 'env')
+    shared.push(name)
+    objects.push({ apiVersion: 'v1', kind: 'Secret', metadata: meta(name), type: 'Opaque', stringData: variables })
+  }
+
+  const workloads = containerWorkloads(config, environment, settings, shared)
+  const rules: Array<{ host: string, service: string }> = []
+  for (const [siteName, site] of serverSites(config)) {
+    const secrets = [...shared]
+    if (site.env && Object.keys(site.env).length) {
+      const name = kubernetesName(slug, siteName, 'env')
+      secrets.push(name)
+      objects.push({ apiVersion: 'v1', kind: 'Secret', metadata: meta(name), type: 'Opaque', stringData: site.env })
+    }
+    const siteWorkloadList = siteWorkloads(config, environment, settings, siteName, site, secrets)
+    workloads.push(...siteWorkloadList)
+    if (site.domain) rules.push({ host: site.domain, service: siteWorkloadList[0].name })
+  }
+
+  for (const workload of workloads) objects.push(...workloadObjects(workload, settings, labels))
+
+  if (rules.length) {
+    const hosts = rules.map((rule) => rule.host)
+    const annotations = settings.ingressAnnotations
+    objects.push({
+      apiVersion: 'networking.k8s.io/v1',
+      kind: 'Ingress',
+      metadata: { ...meta(slug), ...(Object.keys(annotations).length ? { annotations } : {}) },
+      spec: {
+        ...(settings.ingressClassName ? { ingressClassName: settings.ingressClassName } : {}),
+        ...(settings.tlsSecretName ? { tls: [{ hosts, secretName: settings.tlsSecretName }] } : {}),
+        rules: rules.map((rule) => ({
+          host: rule.host,
+          http: {
+            paths: [
+              {
+                path: '/',
+                pathType: 'Prefix',
+                backend: { service: { name: rule.service, port: { number: SERVICE_PORT } } },
+              },
+            ],
+          },
+        })),
+      },
+    })
+  }
+
+  return objects.sort((a, b) => APPLY_ORDER.indexOf(a.kind) - APPLY_ORDER.indexOf(b.kind))
+}
+
+/** The objects as one multi-document YAML stream, for `kubectl apply -f` or review. */
+export function renderKubernetesYaml(objects: KubernetesObject[]): string {
+  return objects.map((object) => `---\n${Bun.YAML.stringify(object, null, 2)}\n`).join('')
+}
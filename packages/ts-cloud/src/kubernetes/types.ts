@@ -0,0 +1,35 @@
+/**
+ * Kubernetes target types. Only the fields ts-cloud renders are modelled; the
+ * API server owns everything else on the objects.
+ */
+
+export interface KubernetesObjectMeta {
+  name: string
+  namespace?: string
+  labels?: Record<string, string>
+  annotations?: Record<string, string>
+  /** Set by the API server on objects it returns. */
+  creationTimestamp?: string
+  deletionTimestamp?: string
+  generation?: number
+}
+
+/** Any object ts-cloud renders or reads back from the API server. */
+export interface KubernetesObject {
+  apiVersion: string
+  kind: string
+  metadata: KubernetesObjectMeta
+  [field: string]: unknown
+}
+
+/** What a rendered workload runs: the source of a Deployment or CronJob. */
+export type KubernetesComponent = 'container' | 'app' | 'queue' | 'scheduler'
+
+/** Labels every rendered object carries, so apply can prune and the runtime can discover. */
+export const KUBERNETES_LABELS = {
+  managedBy: 'app.kubernetes.io/managed-by',
+  partOf: 'app.kubernetes.io/part-of',
+  name: 'app.kubernetes.io/name',
+  component: 'app.kubernetes.io/component',
+  environment: 'ts-cloud.dev/environment',
+} as const
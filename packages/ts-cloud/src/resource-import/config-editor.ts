@@ -0,0 +1,131 @@
+import type { ImportCandidate, ImportConfigValue, ImportSection } from './model'
+import { findMatchingBrace, renderStringValue } from '../deploy/site-config-editor'
+import { IMPORT_SECTIONS } from './model'
+
+function renderValue(value: Exclude<ImportConfigValue, undefined>): string {
+  return typeof value === 'string' ? renderStringValue(value) : String(value)
+}
+
+function renderProperties(config: Record<string, ImportConfigValue>, indent: string): string[] {
+  return Object.entries(config)
+    .filter((entry): entry is [string, Exclude<ImportConfigValue, undefined>] => entry[1] !== undefined)
+    .map(([key, value]) => `${indent}${key}: ${renderValue(value)},`)
+}
+
+function renderEntries(candidates: ImportCandidate[], indent: string): string[] {
+  return candidates.flatMap((candidate) => [
+    `${indent}${candidate.key}: {`,
+    ...renderProperties(candidate.config, `${indent}  `),
+    `${indent}},`,
+  ])
+}
+
+function renderSection(section: ImportSection, candidates: ImportCandidate[], indent: string): string[] {
+  const body =
+    section === 'dns'
+      ? renderProperties(candidates[0].config, `${indent}  `)
+      : renderEntries(candidates, `${indent}  `)
+  return [`${indent}${section}: {`, ...body, `${indent}},`]
+}
+
+/** The `infrastructure` entries for the candidates, for pasting into cloud.config.ts by hand. */
+export function renderImportSnippet(candidates: ImportCandidate[]): string {
+  const lines = ['infrastructure: {']
+  for (const section of IMPORT_SECTIONS) {
+    const items = candidates.filter((candidate) => candidate.section === section)
+    if (items.length) lines.push(...renderSection(section, items, '  '))
+  }
+  lines.push('}')
+  return lines.join('\n')
+}
+
+function lineIndent(text: string, index: number): string {
+  const lineStart = text.lastIndexOf('\n', index) + 1
+  return /^[ \t]*/.exec(text.slice(lineStart))![0]
+}
+
+/**
+ * Opening brace of `key: {` directly inside the object spanning `start`..`end`, skipping
+ * strings, comments and nested objects so a same-named key deeper down is never matched.
+ */
+function findChildObject(text: string, start: number, end: number, key: string): number | undefined {
+  const pattern = new RegExp(`${key}\\s*:\\s*\\{`, 'y')
+  let depth = 0
+  let quote: string | undefined
+  for (let index = start + 1; index < end; index++) {
+    const char = text[index]
+    if (quote) {
+      if (char === '\\') index++
+      else if (char === quote) quote = undefined
+      continue
+    }
+    if (char === '/' && text[index + 1] === '/') {
+      index = text.indexOf('\n', index) === -1 ? end : text.indexOf('\n', index)
+      continue
+    }
+    if (char === '/' && text[index + 1] === '*') {
+      index = text.indexOf('*/', index) === -1 ? end : text.indexOf('*/', index) + 1
+      continue
+    }
+    if (char === '"' || char === "'" || char === '`') quote = char
+    else if (char === '{' || char === '[' || char === '(') depth++
+    else if (char === '}' || char === ']' || char === ')') depth--
+    else if (depth === 0 && !/[\w$]/.test(text[index - 1] ?? '')) {
+      pattern.lastIndex = index
+      if (pattern.test(text)) return pattern.lastIndex - 1
+    }
+  }
+  return undefined
+}
+
+function hasChildKey(text: string, start: number, end: number, key: string): boolean {
+  return new RegExp(`(^|[\\s,{])${key}\\s*:`, 'm').test(text.slice(start + 1, end))
+}
+
+/** Insert lines before the brace at `end`, keeping the object comma-valid. */
+function insertBefore(text: string, end: number, lines: string[]): string {
+  const before = text.slice(0, end).trimEnd()
+  // A trailing line comment does not end the previous entry; look at the code before it.
+  const code = before.slice(before.lastIndexOf('\n') + 1).replace(/\s\/\/.*$/, '').trimEnd()
+  const separator = code.endsWith('{') || code.endsWith(',') ? '\n' : ',\n'
+  return `${before}${separator}${lines.join('\n')}\n${lineIndent(text, end)}${text.slice(end)}`
+}
+
+/**
+ * Add the imported entries to the `infrastructure` block of cloud.config.ts, creating the
+ * `storage`, `databases`, `cdn` or `dns` section when it is missing. An existing `dns` section
+ * only gains the properties it does not set yet.
+ */
+export function addImportsToCloudConfig(configText: string, candidates: ImportCandidate[]): string {
+  let text = configText
+  for (const section of IMPORT_SECTIONS) {
+    const items = candidates.filter((candidate) => candidate.section === section)
+    if (!items.length) continue
+    const match = /\binfrastructure\s*:\s*\{/.exec(text)
+    if (!match) throw new Error('Could not find an infrastructure: { ... } block in cloud.config.ts')
+    const start = text.indexOf('{', match.index)
+    const end = findMatchingBrace(text, start, 'infrastructure')
+    const indent = `${lineIndent(text, match.index)}  `
+    const sectionStart = findChildObject(text, start, end, section)
+    if (sectionStart === undefined) {
+      text = insertBefore(text, end, renderSection(section, items, indent))
+      continue
+    }
+    const sectionEnd = findMatchingBrace(text, sectionStart, section)
+    for (const item of items) {
+      if (section !== 'dns' && hasChildKey(text, sectionStart, sectionEnd, item.key))
+        throw new Error(`${section}.${item.key} already exists in cloud.config.ts`)
+    }
+    const lines =
+      section === 'dns'
+        ? renderProperties(
+            Object.fromEntries(
+              Object.entries(items[0].config).filter(([key]) => !hasChildKey(text, sectionStart, sectionEnd, key)),
+            ),
+            `${indent}  `,
+          )
+        : renderEntries(items, `${indent}  `)
+    if (lines.length) text = insertBefore(text, sectionEnd, lines)
+  }
+  return text
+}
@@ -0,0 +1,4 @@
+export * from './model'
+export * from './mapping'
+export * from './config-editor'
+export * from './service'
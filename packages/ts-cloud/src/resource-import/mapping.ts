@@ -0,0 +1,96 @@
+import type { CloudResource } from '../cost/resource-inventory'
+import type { ImportCandidate, SkippedImport } from './model'
+
+/** Tag CloudFormation puts on every resource it manages. */
+export const CLOUDFORMATION_STACK_TAG = 'aws:cloudformation:stack-name'
+
+/**
+ * Config key for a resource name: `app-production-uploads` with the prefix `app-production-`
+ * becomes `uploads`, and other names become camelCase, e.g. `Legacy_Assets` → `legacyAssets`.
+ */
+export function importKey(name: string, prefix?: string): string {
+  const trimmed = prefix && name.startsWith(prefix) && name.length > prefix.length ? name.slice(prefix.length) : name
+  const key = trimmed
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word, index) => (index ? word.charAt(0).toUpperCase() : word.charAt(0).toLowerCase()) + word.slice(1))
+    .join('')
+  if (!key) return 'imported'
+  return /^\d/.test(key) ? `_${key}` : key
+}
+
+const text = (value: unknown): string | undefined => (value === undefined || value === '' ? undefined : String(value))
+
+/**
+ * Map a discovered resource onto the config entry that generates it. Returns nothing for
+ * services `cloud import` does not handle, and a skip reason for resources it cannot map.
+ */
+export function mapImportCandidate(
+  resource: CloudResource,
+  prefix?: string,
+): ImportCandidate | SkippedImport | undefined {
+  if (resource.service === 's3')
+    return {
+      resource,
+      section: 'storage',
+      key: importKey(resource.id, prefix),
+      config: { bucket: resource.id, retain: true },
+      resourceType: 'AWS::S3::Bucket',
+      identifier: { BucketName: resource.id },
+    }
+  if (resource.service === 'rds' && resource.type === 'db') {
+    const engine = text(resource.metadata.engine)
+    if (engine !== 'postgres' && engine !== 'mysql')
+      return { resource, reason: `Engine ${engine ?? 'unknown'} is not supported; only postgres and mysql are.` }
+    const storageEncrypted = resource.metadata.storageEncrypted
+    return {
+      resource,
+      section: 'databases',
+      key: importKey(resource.id, prefix),
+      config: {
+        engine,
+        identifier: resource.id,
+        instanceClass: text(resource.metadata.instanceClass),
+        version: text(resource.metadata.engineVersion),
+        encrypted: typeof storageEncrypted === 'boolean' ? storageEncrypted : undefined,
+        storage: Number(resource.metadata.allocatedStorage) || undefined,
+        username: text(resource.metadata.masterUsername),
+        retain: true,
+      },
+      resourceType: 'AWS::RDS::DBInstance',
+      identifier: { DBInstanceIdentifier: resource.id },
+    }
+  }
+  if (resource.service === 'cloudfront' && resource.type === 'distribution') {
+    const origin = text(resource.metadata.origin)
+    if (!origin) return { resource, reason: 'The distribution has no origin.' }
+    const aliases = text(resource.metadata.aliases)?.split(',') ?? []
+    return {
+      resource,
+      section: 'cdn',
+      key: importKey(aliases[0] ?? resource.id, prefix),
+      config: {
+        origin,
+        customDomain: aliases[0],
+        certificateArn: text(resource.metadata.certificateArn),
+        retain: true,
+      },
+      resourceType: 'AWS::CloudFront::Distribution',
+      identifier: { Id: resource.id },
+    }
+  }
+  if (resource.service === 'route53' && resource.type === 'hostedzone') {
+    if (resource.metadata.privateZone) return { resource, reason: 'Private hosted zones are not supported.' }
+    return {
+      resource,
+      section: 'dns',
+      key: '',
+      config: {
+        provider: 'route53',
+        domain: text(resource.metadata.zoneName) ?? resource.name,
+        hostedZoneId: resource.id,
+      },
+    }
+  }
+  return undefined
+}
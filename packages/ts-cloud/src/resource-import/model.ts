@@ -0,0 +1,48 @@
+import type { ResourceToImport } from '../aws/cloudformation'
+import type { CloudResource } from '../cost/resource-inventory'
+
+/** The `infrastructure` section an imported resource is written to. */
+export type ImportSection = 'storage' | 'databases' | 'cdn' | 'dns'
+
+/** Sections in the order plans list them and the config editor writes them. */
+export const IMPORT_SECTIONS: ImportSection[] = ['storage', 'databases', 'cdn', 'dns']
+
+export type ImportConfigValue = string | number | boolean | undefined
+
+export interface ImportCandidate {
+  resource: CloudResource
+  section: ImportSection
+  /** Entry key inside the section; empty for `dns`, which is a single object. */
+  key: string
+  config: Record<string, ImportConfigValue>
+  /** CloudFormation resource type, absent for resources that are only configured. */
+  resourceType?: string
+  /** Identifier properties CloudFormation uses to find the resource. */
+  identifier?: Record<string, string>
+  /** Logical ID of the resource in the generated template. */
+  logicalId?: string
+}
+
+export interface SkippedImport {
+  resource: CloudResource
+  reason: string
+}
+
+export interface ImportPlan {
+  stackName: string
+  region: string
+  /** Whether the stack exists yet; an import can also create it. */
+  stackExists: boolean
+  candidates: ImportCandidate[]
+  skipped: SkippedImport[]
+  resourcesToImport: ResourceToImport[]
+  /** Deployed template plus the imported resources, for the IMPORT change set. */
+  template?: Record<string, any>
+  warnings: string[]
+}
+
+export interface ImportResult {
+  plan: ImportPlan
+  changeSetName: string
+  status: string
+}
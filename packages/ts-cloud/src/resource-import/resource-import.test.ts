@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'bun:test'
+import type { CloudConfig } from '@ts-cloud/core'
+import type { ResourceToImport } from '../aws/cloudformation'
+import type { CloudResource } from '../cost/resource-inventory'
+import type { ImportCloudFormation, ResourceImportOptions } from '.'
+import { mergeResources, parseResourceArn } from '../cost/resource-inventory'
+import { InfrastructureGenerator } from '../generators/infrastructure'
+import { ResourceImportService, addImportsToCloudConfig, importKey, mapImportCandidate } from '.'
+
+const config = {
+  project: { name: 'Acme', slug: 'acme', region: 'us-east-1' },
+  environments: { production: { type: 'production' } },
+  infrastructure: { storage: { uploads: {} } },
+} as unknown as CloudConfig
+
+function resource(arn: string, metadata: CloudResource['metadata'] = {}, tags: Record<string, string> = {}) {
+  return { ...parseResourceArn(arn, tags), metadata }
+}
+
+const resources: CloudResource[] = [
+  resource('arn:aws:s3:::acme-production-legacy'),
+  resource('arn:aws:s3:::acme-production-uploads'),
+  resource('arn:aws:s3:::acme-logs', {}, { 'aws:cloudformation:stack-name': 'logging' }),
+  resource('arn:aws:rds:us-east-1:1:db:orders-db', {
+    engine: 'postgres',
+    engineVersion: '15.7',
+    instanceClass: 'db.r6g.large',
+    allocatedStorage: 50,
+    masterUsername: 'app',
+    storageEncrypted: false,
+  }),
+  resource('arn:aws:rds:us-east-1:1:db:analytics', { engine: 'aurora-postgresql' }),
+  resource('arn:aws:cloudfront::1:distribution/E123', {
+    origin: 'legacy.s3.amazonaws.com',
+    aliases: 'www.example.com,example.com',
+    certificateArn: 'arn:aws:acm:us-east-1:1:certificate/abc',
+  }),
+  resource('arn:aws:route53:::hostedzone/Z1', { zoneName: 'example.com', privateZone: false }),
+  resource('arn:aws:lambda:us-east-1:1:function:worker'),
+]
+
+class FakeCloudFormation implements ImportCloudFormation {
+  calls: string[] = []
+  imported: ResourceToImport[] = []
+  changeSetStatus = 'CREATE_COMPLETE'
+  constructor(private readonly deployed?: Record<string, any>) {}
+
+  async listStackResources(stackName: string) {
+    if (!this.deployed) throw new Error(`Stack with id ${stackName} does not exist`)
+    return {
+      StackResourceSummaries: Object.keys(this.deployed.Resources).map((id) => ({ PhysicalResourceId: id })),
+    }
+  }
+  async getTemplate() {
+    return { TemplateBody: JSON.stringify(this.deployed) }
+  }
+  async createChangeSet(options: { changeSetType?: string; resourcesToImport?: ResourceToImport[] }) {
+    this.calls.push(`create:${options.changeSetType}`)
+    this.imported = options.resourcesToImport ?? []
+    return { Id: 'change-set', StackId: 'stack' }
+  }
+  async waitForChangeSet() {
+    this.calls.push('wait-change-set')
+    return { success: this.changeSetStatus === 'CREATE_COMPLETE', status: this.changeSetStatus, reason: 'bad' }
+  }
+  async executeChangeSet() {
+    this.calls.push('execute')
+  }
+  async deleteChangeSet() {
+    this.calls.push('delete')
+  }
+  async waitForStackComplete() {
+    return { success: true, status: 'IMPORT_COMPLETE' }
+  }
+}
+
+function service(cloudformation: FakeCloudFormation, generate?: ResourceImportOptions['generate']) {
+  return new ResourceImportService({
+    generate,
+    inventory: () => ({
+      discover: async (options) => ({ resources: mergeResources(resources, options?.type), warnings: [] }),
+    }),
+    cloudformation: () => cloudformation,
+    now: () => new Date('2026-07-21T12:00:00Z'),
+  })
+}
+
+const input = { config, environment: 'production' as const, stackName: 'acme-production', region: 'us-east-1' }
+
+describe('resource import', () => {
+  it('maps discovered resources onto config entries', () => {
+    expect(importKey('acme-production-legacy', 'acme-production-')).toBe('legacy')
+    expect(importKey('Legacy_Assets.v2')).toBe('legacyAssetsV2')
+    expect(importKey('2024-archive')).toBe('_2024Archive')
+    expect(mapImportCandidate(resources[3], 'acme-production-')).toMatchObject({
+      section: 'databases',
+      key: 'ordersDb',
+      config: {
+        engine: 'postgres',
+        identifier: 'orders-db',
+        instanceClass: 'db.r6g.large',
+        version: '15.7',
+        encrypted: false,
+        storage: 50,
+        username: 'app',
+        retain: true,
+      },
+      identifier: { DBInstanceIdentifier: 'orders-db' },
+    })
+    expect(mapImportCandidate(resources[4])).toMatchObject({ reason: expect.stringContaining('aurora-postgresql') })
+    expect(mapImportCandidate({ ...resources[6], metadata: { privateZone: true } })).toMatchObject({
+      reason: 'Private hosted zones are not supported.',
+    })
+    expect(mapImportCandidate(resources[7])).toBeUndefined()
+  })
+
+  it('plans an import into the deployed stack with retained resources', async () => {
+    const deployed = { Resources: { Queue: { Type: 'AWS::SQS::Queue', Properties: {} } } },
+      plan = await service(new FakeCloudFormation(deployed)).plan(input)
+
+    expect(plan.candidates.map((candidate) => [candidate.section, candidate.key, candidate.logicalId])).toEqual([
+      ['storage', 'legacy', 'AcmeProductionLegacy'],
+      ['databases', 'ordersDb', 'AcmeProductionPostgresDb'],
+      ['cdn', 'wwwExampleCom', 'acmeproductionwwwExampleComCDN'],
+      ['dns', '', undefined],
+    ])
+    expect(plan.skipped.map((item) => [item.resource.id, item.reason])).toEqual([
+      ['analytics', 'Engine aurora-postgresql is not supported; only postgres and mysql are.'],
+      ['acme-logs', 'Managed by stack logging.'],
+      ['acme-production-uploads', 'Already configured as storage.uploads.'],
+    ])
+    expect(plan.resourcesToImport.map((item) => [item.LogicalResourceId, item.ResourceIdentifier])).toEqual([
+      ['AcmeProductionLegacy', { BucketName: 'acme-production-legacy' }],
+      ['AcmeProductionPostgresDb', { DBInstanceIdentifier: 'orders-db' }],
+      ['acmeproductionwwwExampleComCDN', { Id: 'E123' }],
+    ])
+    expect(plan.template?.Resources.Queue).toEqual(deployed.Resources.Queue)
+    expect(plan.template?.Resources.AcmeProductionLegacy).toMatchObject({
+      DeletionPolicy: 'Retain',
+      UpdateReplacePolicy: 'Retain',
+      Properties: { BucketName: 'acme-production-legacy' },
+    })
+    expect(plan.template?.Resources.AcmeProductionPostgresDb.Properties.DBInstanceIdentifier).toBe('orders-db')
+    expect(plan.warnings.at(-1)).toContain('run `cloud drift` after the import')
+  })
+
+  it('generates the imported properties and retain policy on the next deploy', async () => {
+    const imports = service(new FakeCloudFormation()),
+      plan = await imports.plan(input),
+      next = JSON.parse(
+        new InfrastructureGenerator({ config: imports.patchConfig(config, plan.candidates), environment: 'production' })
+          .generate()
+          .toJSON(),
+      )
+
+    expect(next.Resources.AcmeProductionPostgresDb).toMatchObject({
+      DeletionPolicy: 'Retain',
+      UpdateReplacePolicy: 'Retain',
+      Properties: {
+        DBInstanceIdentifier: 'orders-db',
+        DBInstanceClass: 'db.r6g.large',
+        EngineVersion: '15.7',
+        StorageEncrypted: false,
+        AllocatedStorage: 50,
+        MasterUsername: 'app',
+      },
+    })
+    for (const candidate of plan.candidates.filter((item) => item.logicalId)) {
+      expect(next.Resources[candidate.logicalId!]).toMatchObject({
+        DeletionPolicy: 'Retain',
+        UpdateReplacePolicy: 'Retain',
+      })
+      expect(plan.template?.Resources[candidate.logicalId!]).toEqual(next.Resources[candidate.logicalId!])
+    }
+    expect(plan.warnings.filter((warning) => warning.startsWith('The next deploy changes'))).toEqual([])
+  })
+
+  it('warns about generated database properties that differ from the live instance', async () => {
+    const plan = await service(new FakeCloudFormation(), (patched, environment) => {
+      const template = JSON.parse(new InfrastructureGenerator({ config: patched, environment }).generate().toJSON())
+      if (template.Resources.AcmeProductionPostgresDb)
+        template.Resources.AcmeProductionPostgresDb.Properties.DBInstanceClass = 'db.t3.micro'
+      return template
+    }).plan({ ...input, type: 'rds' })
+
+    expect(plan.warnings).toContain(
+      'The next deploy changes AcmeProductionPostgresDb to DBInstanceClass db.t3.micro (live: db.r6g.large); set the entry to keep them.',
+    )
+  })
+
+  it('adds the entries to cloud.config.ts', async () => {
+    const only = ['acme-production-legacy', 'orders-db', 'Z1'],
+      plan = await service(new FakeCloudFormation()).plan({ ...input, only }),
+      text = [
+        'export default {',
+        '  infrastructure: {',
+        '    storage: {',
+        '      uploads: {}, // user files',
+        '    },',
+        "    dns: { domain: 'example.com' },",
+        '  },',
+        '}',
+        '',
+      ].join('\n')
+
+    expect(plan.stackExists).toBe(false)
+    const patched = addImportsToCloudConfig(text, plan.candidates)
+    expect(patched).toBe(
+      [
+        'export default {',
+        '  infrastructure: {',
+        '    storage: {',
+        '      uploads: {}, // user files',
+        '      legacy: {',
+        "        bucket: 'acme-production-legacy',",
+        '        retain: true,',
+        '      },',
+        '    },',
+        "    dns: { domain: 'example.com',",
+        "      provider: 'route53',",
+        "      hostedZoneId: 'Z1',",
+        '    },',
+        '    databases: {',
+        '      ordersDb: {',
+        "        engine: 'postgres',",
+        "        identifier: 'orders-db',",
+        "        instanceClass: 'db.r6g.large',",
+        "        version: '15.7',",
+        '        encrypted: false,',
+        '        storage: 50,',
+        "        username: 'app',",
+        '        retain: true,',
+        '      },',
+        '    },',
+        '  },',
+        '}',
+        '',
+      ].join('\n'),
+    )
+    expect(() => addImportsToCloudConfig(patched, plan.candidates)).toThrow('storage.legacy already exists')
+    expect(() => addImportsToCloudConfig('export default {}', plan.candidates)).toThrow('infrastructure: { ... }')
+  })
+
+  it('runs the IMPORT change set and cleans up a failed one', async () => {
+    const cloudformation = new FakeCloudFormation(),
+      imports = service(cloudformation),
+      plan = await imports.plan({ ...input, type: 's3' })
+
+    const result = await imports.execute(plan)
+    expect(result).toMatchObject({ changeSetName: 'ts-cloud-import-1784635200000', status: 'IMPORT_COMPLETE' })
+    expect(cloudformation.calls).toEqual(['create:IMPORT', 'wait-change-set', 'execute'])
+    expect(cloudformation.imported.map((item) => item.LogicalResourceId)).toEqual(['AcmeProductionLegacy'])
+
+    cloudformation.calls = []
+    cloudformation.changeSetStatus = 'FAILED'
+    await expect(imports.execute(plan)).rejects.toThrow('Import change set for acme-production failed: bad')
+    expect(cloudformation.calls).toEqual(['create:IMPORT', 'wait-change-set', 'delete'])
+  })
+})
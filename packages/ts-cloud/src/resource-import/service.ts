@@ -0,0 +1,296 @@
+import type { CloudConfig, EnvironmentType } from '@ts-cloud/core'
+import type { CloudFormationClient } from '../aws/cloudformation'
+import type { CloudResource, ResourceInventoryClient } from '../cost/resource-inventory'
+import type { ImportCandidate, ImportPlan, ImportResult, ImportSection, SkippedImport } from './model'
+import { CloudFormationClient as LiveCloudFormationClient } from '../aws/cloudformation'
+import { ResourceInventoryClient as LiveResourceInventoryClient } from '../cost/resource-inventory'
+import { InfrastructureGenerator } from '../generators/infrastructure'
+import { CLOUDFORMATION_STACK_TAG, mapImportCandidate } from './mapping'
+import { IMPORT_SECTIONS } from './model'
+
+export type ImportCloudFormation = Pick<
+  CloudFormationClient,
+  | 'listStackResources'
+  | 'getTemplate'
+  | 'createChangeSet'
+  | 'waitForChangeSet'
+  | 'executeChangeSet'
+  | 'deleteChangeSet'
+  | 'waitForStackComplete'
+>
+
+export type ImportInventory = Pick<ResourceInventoryClient, 'discover'>
+
+export interface ResourceImportOptions {
+  inventory?: (region: string) => ImportInventory
+  cloudformation?: (region: string) => ImportCloudFormation
+  /** Template generated from a config; defaults to `InfrastructureGenerator`. */
+  generate?: (config: CloudConfig, environment: EnvironmentType) => Record<string, any>
+  now?: () => Date
+  pollIntervalMs?: number
+  maxPolls?: number
+}
+
+export interface ImportPlanInput {
+  config: CloudConfig
+  environment: EnvironmentType
+  stackName: string
+  region: string
+  /** Inventory type filter, e.g. `s3` or `rds`. */
+  type?: string
+  /** Only import these resources, by ID, name or ARN. */
+  only?: string[]
+}
+
+/** Generated RDS properties and the inventory metadata holding the live instance's value. */
+const DATABASE_PROPERTIES: Array<[property: string, metadata: string]> = [
+  ['DBInstanceClass', 'instanceClass'],
+  ['EngineVersion', 'engineVersion'],
+  ['StorageEncrypted', 'storageEncrypted'],
+  ['AllocatedStorage', 'allocatedStorage'],
+]
+
+function generateTemplate(config: CloudConfig, environment: EnvironmentType): Record<string, any> {
+  return JSON.parse(new InfrastructureGenerator({ config, environment }).generate().toJSON())
+}
+
+/** Logical IDs a template value points at through `Ref`, `Fn::GetAtt` and `Fn::Sub`. */
+function references(value: unknown, found: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) for (const item of value) references(item, found)
+  else if (value && typeof value === 'object')
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'Ref' && typeof child === 'string') found.add(child)
+      else if (key === 'Fn::GetAtt') found.add(Array.isArray(child) ? String(child[0]) : String(child).split('.')[0])
+      else if (key === 'Fn::Sub') {
+        const source = Array.isArray(child) ? child[0] : child
+        for (const match of String(source).matchAll(/\$\{([\w:]+)(?:\.\w+)?\}/g)) found.add(match[1])
+        if (Array.isArray(child)) references(child[1], found)
+      } else references(child, found)
+    }
+  for (const id of found) if (id.startsWith('AWS::')) found.delete(id)
+  return found
+}
+
+function physicalNames(config: CloudConfig, environment: EnvironmentType): Map<string, string> {
+  const slug = config.project.slug,
+    infrastructure = config.infrastructure ?? {},
+    names = new Map<string, string>()
+  for (const [key, storage] of Object.entries(infrastructure.storage ?? {}))
+    names.set(storage.bucket ?? `${slug}-${environment}-${key}`, `storage.${key}`)
+  for (const [key, database] of Object.entries(infrastructure.databases ?? {}))
+    if (database.engine === 'postgres' || database.engine === 'mysql')
+      names.set(database.identifier ?? `${slug}-${environment}-${database.engine}-db`, `databases.${key}`)
+  for (const [key, cdn] of Object.entries((infrastructure.cdn ?? {}) as Record<string, any>)) {
+    const domain = typeof cdn?.customDomain === 'string' ? cdn.customDomain : cdn?.customDomain?.domain || cdn?.domain
+    if (domain) names.set(domain, `cdn.${key}`)
+  }
+  if (infrastructure.dns?.hostedZoneId) names.set(infrastructure.dns.hostedZoneId, 'dns')
+  return names
+}
+
+function matches(resource: CloudResource, only: string[]): boolean {
+  return only.some((value) => [resource.id, resource.name, resource.arn].includes(value))
+}
+
+/** The logical ID the generated template gives a candidate, found by its physical identifier. */
+function findLogicalId(
+  template: Record<string, any>,
+  candidate: ImportCandidate,
+  taken: Set<string>,
+): string | undefined {
+  return Object.entries<any>(template.Resources ?? {}).find(([logicalId, resource]) => {
+    if (resource.Type !== candidate.resourceType || taken.has(logicalId)) return false
+    const properties = resource.Properties ?? {}
+    if (candidate.section === 'storage') return properties.BucketName === candidate.resource.id
+    if (candidate.section === 'databases') return properties.DBInstanceIdentifier === candidate.resource.id
+    return (properties.DistributionConfig?.Origins ?? []).some(
+      (origin: any) => origin.DomainName === candidate.config.origin,
+    )
+  })?.[0]
+}
+
+/** Properties of a candidate's generated resource that differ from what the inventory saw live. */
+function differences(candidate: ImportCandidate, resource: Record<string, any>): string[] {
+  if (candidate.section !== 'databases') return []
+  return DATABASE_PROPERTIES.flatMap(([property, metadata]) => {
+    const live = candidate.resource.metadata[metadata],
+      generated = resource.Properties?.[property]
+    if (live === undefined || generated === undefined || String(live) === String(generated)) return []
+    return [`${property} ${generated} (live: ${live})`]
+  })
+}
+
+/**
+ * Brings unmanaged S3 buckets, RDS instances, CloudFront distributions and Route53 zones
+ * under ts-cloud: maps them onto `infrastructure` config entries and imports them into the
+ * environment's stack so CloudFormation manages them without recreating them.
+ */
+export class ResourceImportService {
+  constructor(private readonly options: ResourceImportOptions = {}) {}
+
+  private client(region: string): ImportCloudFormation {
+    return this.options.cloudformation?.(region) ?? new LiveCloudFormationClient(region)
+  }
+
+  private inventory(region: string): ImportInventory {
+    return this.options.inventory?.(region) ?? new LiveResourceInventoryClient(undefined, region)
+  }
+
+  private generate(config: CloudConfig, environment: EnvironmentType): Record<string, any> {
+    return (this.options.generate ?? generateTemplate)(config, environment)
+  }
+
+  async plan(input: ImportPlanInput): Promise<ImportPlan> {
+    const client = this.client(input.region),
+      discovered = await this.inventory(input.region).discover({ type: input.type }),
+      warnings = [...discovered.warnings],
+      skipped: SkippedImport[] = [],
+      candidates: ImportCandidate[] = []
+
+    let stackExists = true,
+      stackResources: any[] = []
+    try {
+      stackResources = (await client.listStackResources(input.stackName)).StackResourceSummaries
+    } catch (error) {
+      if (!/does not exist/i.test(error instanceof Error ? error.message : String(error))) throw error
+      stackExists = false
+    }
+    const managed = new Set(stackResources.map((resource) => String(resource.PhysicalResourceId))),
+      configured = physicalNames(input.config, input.environment),
+      infrastructure = input.config.infrastructure ?? {},
+      usedKeys: Record<ImportSection, Set<string>> = {
+        storage: new Set(Object.keys(infrastructure.storage ?? {})),
+        databases: new Set(Object.keys(infrastructure.databases ?? {})),
+        cdn: new Set(Object.keys(infrastructure.cdn ?? {})),
+        dns: new Set(),
+      }
+
+    for (const resource of discovered.resources) {
+      if (input.only?.length && !matches(resource, input.only)) continue
+      const mapped = mapImportCandidate(resource, `${input.config.project.slug}-${input.environment}-`)
+      if (!mapped) continue
+      const stack = resource.tags[CLOUDFORMATION_STACK_TAG],
+        alias = String(resource.metadata.aliases ?? '').split(',')[0],
+        entry = configured.get(resource.id) ?? (alias ? configured.get(alias) : undefined)
+      if (stack || managed.has(resource.id))
+        skipped.push({ resource, reason: `Managed by stack ${stack ?? input.stackName}.` })
+      else if (entry) skipped.push({ resource, reason: `Already configured as ${entry}.` })
+      else if ('reason' in mapped) skipped.push(mapped)
+      else if (mapped.section === 'dns' && (infrastructure.dns?.hostedZoneId || usedKeys.dns.size))
+        skipped.push({ resource, reason: 'Only one hosted zone can be configured; choose one with --only.' })
+      else {
+        let key = mapped.key
+        for (let suffix = 2; usedKeys[mapped.section].has(key); suffix++) key = `${mapped.key}${suffix}`
+        usedKeys[mapped.section].add(key || resource.id)
+        candidates.push({ ...mapped, key })
+      }
+    }
+
+    candidates.sort((a, b) => IMPORT_SECTIONS.indexOf(a.section) - IMPORT_SECTIONS.indexOf(b.section))
+    const deployed = stackExists
+        ? JSON.parse((await client.getTemplate(input.stackName)).TemplateBody || '{}')
+        : { AWSTemplateFormatVersion: '2010-09-09', Resources: {} },
+      template = { ...deployed, Resources: { ...deployed.Resources } },
+      base = this.generate(input.config, input.environment),
+      generated = this.generate(this.patchConfig(input.config, candidates), input.environment),
+      taken = new Set(Object.keys(template.Resources))
+
+    for (const candidate of candidates.filter((item) => item.resourceType)) {
+      const logicalId = findLogicalId(generated, candidate, taken)
+      if (!logicalId) {
+        skipped.push({ resource: candidate.resource, reason: 'The generated template has no matching resource.' })
+        candidates.splice(candidates.indexOf(candidate), 1)
+        continue
+      }
+      candidate.logicalId = logicalId
+      taken.add(logicalId)
+      template.Resources[logicalId] = structuredClone(generated.Resources[logicalId])
+      const changed = differences(candidate, template.Resources[logicalId])
+      if (changed.length)
+        warnings.push(`The next deploy changes ${logicalId} to ${changed.join(', ')}; set the entry to keep them.`)
+    }
+
+    const available = new Set([...Object.keys(template.Resources), ...Object.keys(template.Parameters ?? {})])
+    for (const candidate of candidates.filter((item) => item.logicalId)) {
+      const resource = template.Resources[candidate.logicalId!]
+      if (resource.DependsOn)
+        resource.DependsOn = [resource.DependsOn].flat().filter((id: string) => available.has(id))
+      if (!resource.DependsOn?.length) delete resource.DependsOn
+      for (const [property, value] of Object.entries(resource.Properties ?? {})) {
+        const missing = [...references(value)].filter((id) => !available.has(id))
+        if (!missing.length) continue
+        delete resource.Properties[property]
+        warnings.push(
+          `${candidate.logicalId}.${property} references ${missing.join(', ')}, which the stack does not have yet; the next deploy sets it.`,
+        )
+      }
+    }
+
+    const imported = new Set(candidates.flatMap((candidate) => candidate.logicalId ?? [])),
+      created = Object.keys(generated.Resources ?? {}).filter(
+        (id) => !imported.has(id) && !(id in (base.Resources ?? {})) && !(id in template.Resources),
+      )
+    if (created.length)
+      warnings.push(`The next deploy also creates resources the imported entries need: ${created.join(', ')}.`)
+    if (imported.size)
+      warnings.push(
+        'The next deploy applies the generated properties to the imported resources; run `cloud drift` after the import to see where they differ.',
+      )
+
+    return {
+      stackName: input.stackName,
+      region: input.region,
+      stackExists,
+      candidates,
+      skipped,
+      resourcesToImport: candidates
+        .filter((candidate) => candidate.logicalId)
+        .map((candidate) => ({
+          ResourceType: candidate.resourceType!,
+          LogicalResourceId: candidate.logicalId!,
+          ResourceIdentifier: candidate.identifier!,
+        })),
+      template: imported.size ? template : undefined,
+      warnings,
+    }
+  }
+
+  /** The config with the candidates added to its `infrastructure` sections. */
+  patchConfig(config: CloudConfig, candidates: ImportCandidate[]): CloudConfig {
+    const infrastructure: Record<string, any> = { ...config.infrastructure }
+    for (const candidate of candidates) {
+      const entry = Object.fromEntries(Object.entries(candidate.config).filter(([, value]) => value !== undefined))
+      if (candidate.section === 'dns') infrastructure.dns = { ...infrastructure.dns, ...entry }
+      else infrastructure[candidate.section] = { ...infrastructure[candidate.section], [candidate.key]: entry }
+    }
+    return { ...config, infrastructure }
+  }
+
+  /** Run the plan's IMPORT change set and wait for the stack to finish importing. */
+  async execute(plan: ImportPlan): Promise<ImportResult> {
+    if (!plan.template || !plan.resourcesToImport.length)
+      throw new Error(`Nothing to import into ${plan.stackName}.`)
+    const client = this.client(plan.region),
+      changeSetName = `ts-cloud-import-${this.options.now?.().getTime() ?? Date.now()}`,
+      maxPolls = this.options.maxPolls,
+      pollIntervalMs = this.options.pollIntervalMs
+    await client.createChangeSet({
+      stackName: plan.stackName,
+      changeSetName,
+      templateBody: JSON.stringify(plan.template),
+      capabilities: ['CAPABILITY_IAM', 'CAPABILITY_NAMED_IAM'],
+      changeSetType: 'IMPORT',
+      resourcesToImport: plan.resourcesToImport,
+    })
+    const changeSet = await client.waitForChangeSet(plan.stackName, changeSetName, maxPolls, pollIntervalMs)
+    if (!changeSet.success) {
+      await client.deleteChangeSet(plan.stackName, changeSetName).catch(() => {})
+      throw new Error(`Import change set for ${plan.stackName} failed: ${changeSet.reason ?? changeSet.status}`)
+    }
+    await client.executeChangeSet(plan.stackName, changeSetName)
+    const stack = await client.waitForStackComplete(plan.stackName, maxPolls, pollIntervalMs)
+    if (!stack.success)
+      throw new Error(`Import into ${plan.stackName} ended in ${stack.status}: ${stack.reason ?? 'no reason given'}`)
+    return { plan, changeSetName, status: stack.status }
+  }
+}
@@ -0,0 +1,250 @@
+import type { KubernetesClient } from '../../kubernetes/client'
+import type { KubernetesObject } from '../../kubernetes/types'
+import type { RuntimeDiscoveryAdapter, RuntimeDiscoveryContext, RuntimeReplica, RuntimeWorkload, WorkloadStatus } from '../model'
+import { KUBERNETES_LABELS } from '../../kubernetes/types'
+import { capabilities, runtimeId } from '../model'
+import { ageSeconds, normalizeRuntimeStatus, redactRuntimeConfig } from '../normalize'
+
+export interface KubernetesReader extends Pick<KubernetesClient, 'list'> {}
+
+interface PodContainerStatus {
+  name: string
+  ready?: boolean
+  restartCount?: number
+  image?: string
+  imageID?: string
+  state?: {
+    waiting?: { reason?: string }
+    running?: { startedAt?: string }
+    terminated?: { exitCode?: number, reason?: string, finishedAt?: string }
+  }
+}
+
+interface PodStatus {
+  phase?: string
+  startTime?: string
+  hostIP?: string
+  podIP?: string
+  containerStatuses?: PodContainerStatus[]
+}
+
+interface WorkloadSpec {
+  replicas?: number
+  suspend?: boolean
+  schedule?: string
+  template?: { spec?: PodTemplateSpec }
+  jobTemplate?: { spec?: { template?: { spec?: PodTemplateSpec } } }
+}
+
+interface PodTemplateSpec {
+  containers?: Array<{
+    name: string
+    image?: string
+    ports?: Array<{ containerPort?: number, protocol?: string }>
+    resources?: { limits?: { memory?: string } }
+    envFrom?: Array<{ secretRef?: { name?: string } }>
+  }>
+}
+
+/** Waiting reasons that mean the container will not come up on its own. */
+const FAILED_REASONS = new Set(['CrashLoopBackOff', 'ImagePullBackOff', 'ErrImagePull', 'CreateContainerConfigError'])
+
+function containerStatus(status: PodContainerStatus): { status: WorkloadStatus, raw?: string } {
+  if (status.state?.waiting) {
+    const reason = status.state.waiting.reason
+    return { status: reason && FAILED_REASONS.has(reason) ? 'failed' : 'starting', raw: reason }
+  }
+  if (status.state?.terminated) {
+    const { exitCode, reason } = status.state.terminated
+    return { status: exitCode ? 'failed' : 'stopped', raw: reason }
+  }
+  return { status: status.ready ? 'running' : 'starting', raw: status.ready ? 'Ready' : 'NotReady' }
+}
+
+function podStatus(pod: KubernetesObject): { status: WorkloadStatus, raw?: string } {
+  const status = (pod.status ?? {}) as PodStatus
+  if (pod.metadata.deletionTimestamp) return { status: 'stopping', raw: 'Terminating' }
+  if (status.phase === 'Succeeded') return { status: 'stopped', raw: status.phase }
+  const failing = (status.containerStatuses ?? []).map(containerStatus).find((item) => item.status !== 'running')
+  if (status.phase === 'Running' && failing) return failing
+  return { status: normalizeRuntimeStatus(status.phase), raw: status.phase }
+}
+
+function deploymentStatus(
+  desired: number,
+  available: number,
+  current: number,
+  replicas: RuntimeReplica[],
+): WorkloadStatus {
+  if (desired === 0) return current > 0 ? 'stopping' : 'stopped'
+  if (available >= desired) return 'running'
+  const failing = replicas.some((replica) => replica.status === 'failed')
+  if (available > 0) return failing ? 'degraded' : 'starting'
+  return failing ? 'failed' : 'starting'
+}
+
+/** A CronJob is up while it is not suspended; it degrades when its latest run failed. */
+function cronJobStatus(spec: WorkloadSpec, replicas: RuntimeReplica[]): WorkloadStatus {
+  if (spec.suspend) return 'stopped'
+  return replicas[0]?.status === 'failed' ? 'degraded' : 'running'
+}
+
+/** Parse a Kubernetes memory quantity (`512Mi`, `1Gi`, `256M`) into bytes. */
+function quantityBytes(value?: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)(Ki|Mi|Gi|Ti|K|M|G|T)?$/.exec(value ?? '')
+  if (!match) return undefined
+  const units: Record<string, number> = {
+    Ki: 2 ** 10,
+    Mi: 2 ** 20,
+    Gi: 2 ** 30,
+    Ti: 2 ** 40,
+    K: 1e3,
+    M: 1e6,
+    G: 1e9,
+    T: 1e12,
+  }
+  return Math.round(Number(match[1]) * (match[2] ? units[match[2]] : 1))
+}
+
+function podReplica(pod: KubernetesObject, sourceId: string): RuntimeReplica {
+  const status = (pod.status ?? {}) as PodStatus
+  const { status: state, raw } = podStatus(pod)
+  const containers = status.containerStatuses ?? []
+  return {
+    id: runtimeId('kubernetes', sourceId, `${pod.metadata.namespace}/${pod.metadata.name}`),
+    name: pod.metadata.name,
+    status: state,
+    rawStatus: raw,
+    createdAt: pod.metadata.creationTimestamp,
+    startedAt: status.startTime,
+    restartCount: containers.reduce((total, item) => total + (item.restartCount ?? 0), 0),
+    host: status.hostIP,
+    containers: containers.map((item) => {
+      const container = containerStatus(item)
+      return {
+        id: `${pod.metadata.name}/${item.name}`,
+        name: item.name,
+        image: item.image,
+        imageDigest: item.imageID,
+        runtime: 'kubernetes',
+        status: container.status,
+        rawStatus: container.raw,
+        exitCode: item.state?.terminated?.exitCode,
+        reason: item.state?.terminated?.reason ?? item.state?.waiting?.reason,
+      }
+    }),
+  }
+}
+
+/**
+ * Map the Deployments and CronJobs ts-cloud applied, and the pods behind them,
+ * to runtime workloads. Pods are matched to their owner by the
+ * `app.kubernetes.io/name` label every rendered pod template carries.
+ */
+export function kubernetesWorkloads(
+  objects: KubernetesObject[],
+  pods: KubernetesObject[],
+  context: RuntimeDiscoveryContext,
+  sourceId = 'kubernetes:cluster',
+): RuntimeWorkload[] {
+  const now = context.now ?? new Date()
+  return objects
+    .filter((object) => object.kind === 'Deployment' || object.kind === 'CronJob')
+    .map((object) => {
+      const { name, namespace = 'default', labels = {} } = object.metadata
+      const spec = (object.spec ?? {}) as WorkloadSpec
+      const cron = object.kind === 'CronJob'
+      const owned = pods
+        .filter((pod) => pod.metadata.labels?.[KUBERNETES_LABELS.name] === (labels[KUBERNETES_LABELS.name] ?? name))
+        .sort((a, b) => (b.metadata.creationTimestamp ?? '').localeCompare(a.metadata.creationTimestamp ?? ''))
+      const replicas = owned.map((pod) => podReplica(pod, sourceId))
+      const template = cron ? spec.jobTemplate?.spec?.template?.spec : spec.template?.spec
+      const containers = template?.containers ?? []
+      const rollout = (object.status ?? {}) as { availableReplicas?: number, replicas?: number }
+      const desired = cron ? (spec.suspend ? 0 : 1) : (spec.replicas ?? 1)
+      const available = cron
+        ? replicas.filter((replica) => replica.status === 'running').length
+        : (rollout.availableReplicas ?? 0)
+      const status = cron
+        ? cronJobStatus(spec, replicas)
+        : deploymentStatus(desired, available, rollout.replicas ?? 0, replicas)
+      const prefix = context.project ? `${context.project}-` : ''
+      const memoryLimit = quantityBytes(containers[0]?.resources?.limits?.memory)
+      return {
+        id: runtimeId('kubernetes', sourceId, `${namespace}/${object.kind}/${name}`),
+        provider: 'kubernetes',
+        kind: cron ? 'task' : 'service',
+        name,
+        status,
+        rawStatus: cron ? (spec.suspend ? 'Suspended' : 'Scheduled') : `${available}/${desired} available`,
+        health:
+          status === 'running' ? 'healthy' : status === 'failed' || status === 'degraded' ? 'unhealthy' : 'unknown',
+        desiredReplicas: desired,
+        runningReplicas: replicas.filter((replica) => replica.status === 'running').length,
+        image: containers[0]?.image,
+        runtime: 'kubernetes',
+        ageSeconds: ageSeconds(object.metadata.creationTimestamp, now),
+        restartCount: replicas.reduce((total, replica) => total + (replica.restartCount ?? 0), 0),
+        tags: labels,
+        links: {
+          project: context.project,
+          environment: context.environment,
+          service: name.startsWith(prefix) ? name.slice(prefix.length) : name,
+          providerId: `${namespace}/${name}`,
+        },
+        resources: memoryLimit ? { memoryLimitBytes: memoryLimit } : undefined,
+        replicas,
+        networks: containers.flatMap((container) =>
+          (container.ports ?? []).map((port, index) => ({
+            id: `${container.name}:${index}`,
+            name: container.name,
+            mode: 'pod',
+            ports: [{ container: port.containerPort, protocol: port.protocol?.toLowerCase() ?? 'tcp' }],
+          })),
+        ),
+        mounts: [],
+        capabilities: cron
+          ? capabilities(
+              ['start', 'stop', 'logs', 'inspect'],
+              'CronJobs run on their schedule; exec into the app instead',
+            )
+          : capabilities(
+              ['start', 'stop', 'restart', 'redeploy', 'scale', 'logs', 'exec', 'inspect'],
+              'Kubernetes workloads do not expose file transfer; use exec',
+            ),
+        config: redactRuntimeConfig({
+          namespace,
+          kind: object.kind,
+          component: labels[KUBERNETES_LABELS.component],
+          schedule: spec.schedule,
+          containers: containers.map((container) => container.name),
+          secrets: containers.flatMap((container) =>
+            (container.envFrom ?? []).map((source) => source.secretRef?.name).filter(Boolean),
+          ),
+        }),
+        discoveredAt: now.toISOString(),
+        sourceId,
+      }
+    })
+}
+
+export class KubernetesDiscoveryAdapter implements RuntimeDiscoveryAdapter {
+  readonly provider = 'kubernetes' as const
+  readonly id: string
+  constructor(
+    private readonly client: KubernetesReader,
+    private readonly namespace: string,
+    private readonly labelSelector: string,
+  ) {
+    this.id = `kubernetes:${namespace}`
+  }
+
+  async discover(context: RuntimeDiscoveryContext): Promise<RuntimeWorkload[]> {
+    const [deployments, cronJobs, pods] = await Promise.all([
+      this.client.list('apps/v1', 'Deployment', this.namespace, this.labelSelector),
+      this.client.list('batch/v1', 'CronJob', this.namespace, this.labelSelector),
+      this.client.list('v1', 'Pod', this.namespace, this.labelSelector),
+    ])
+    return kubernetesWorkloads([...deployments, ...cronJobs], pods, context, this.id)
+  }
+}
@@ -6,4 +6,5 @@ export * from './operations'
 export * from './streams'
 export * from './adapters/systemd'
 export * from './adapters/docker'
+export * from './adapters/kubernetes'
 export * from './adapters/aws'
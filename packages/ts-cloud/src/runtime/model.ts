@@ -1,4 +1,4 @@
-export type WorkloadProvider = 'systemd' | 'docker' | 'oci' | 'ecs' | 'lambda'
+export type WorkloadProvider = 'systemd' | 'docker' | 'oci' | 'ecs' | 'lambda' | 'kubernetes'
 export type WorkloadKind = 'service' | 'container' | 'task' | 'function' | 'process'
 export type WorkloadStatus = 'starting' | 'running' | 'degraded' | 'stopping' | 'stopped' | 'failed' | 'unknown'
 export type LifecycleAction =
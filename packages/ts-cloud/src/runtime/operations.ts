@@ -1,10 +1,12 @@
 import type { CloudConfig, CloudDriver, ComputeTarget, EnvironmentType, RemoteDeployResult } from '@ts-cloud/core'
 import type { CloudWatchLogsClient } from '../aws/cloudwatch-logs'
 import type { ECSClient } from '../aws/ecs'
+import type { KubernetesClient } from '../kubernetes/client'
 import type { LifecycleAction, RuntimeInventory, RuntimeWorkload } from './model'
 import { CloudWatchLogsClient as LiveCloudWatchLogsClient } from '../aws/cloudwatch-logs'
 import { ECSClient as LiveECSClient } from '../aws/ecs'
 import { createCloudDriver } from '../drivers'
+import { createKubernetesClient, resolveKubernetesSettings } from '../kubernetes'
 import { resolveRuntimeInventory } from './service'
 
 const MAX_OUTPUT_BYTES = 64 * 1024
@@ -81,11 +83,13 @@ export interface RuntimeFileWriteInput extends RuntimeFileInput {
 
 interface EcsMutator extends Pick<ECSClient, 'scaleService' | 'forceNewDeployment'> {}
 interface LogReader extends Pick<CloudWatchLogsClient, 'filterLogEvents'> {}
+interface KubernetesOperator extends Pick<KubernetesClient, 'list' | 'patch' | 'podLogs' | 'exec'> {}
 
 export interface RuntimeOperationDependencies {
   driver?: CloudDriver
   ecs?: EcsMutator
   logs?: LogReader
+  kubernetes?: KubernetesOperator
   inventory?: () => Promise<RuntimeInventory>
 }
 
@@ -120,6 +124,15 @@ function ecsTarget(workload: RuntimeWorkload): { cluster: string; service: strin
   return cluster && service ? { cluster, service } : undefined
 }
 
+function kubernetesTarget(
+  workload: RuntimeWorkload,
+): { namespace: string; kind: 'Deployment' | 'CronJob'; name: string } | undefined {
+  const config = workload.config as { namespace?: unknown; kind?: unknown }
+  const kind = config.kind === 'CronJob' ? 'CronJob' : config.kind === 'Deployment' ? 'Deployment' : undefined
+  if (typeof config.namespace !== 'string' || !kind) return undefined
+  return { namespace: config.namespace, kind, name: workload.name }
+}
+
 function remoteTarget(targets: ComputeTarget[], workload: RuntimeWorkload): ComputeTarget | undefined {
   return (
     targets.find((target) => target.id === workload.links.server) ?? (targets.length === 1 ? targets[0] : undefined)
@@ -205,7 +218,10 @@ export class RuntimeOperationService {
   async inventory(): Promise<RuntimeInventory> {
     return (
       this.dependencies.inventory?.() ??
-      resolveRuntimeInventory(this.config, this.environment, { driver: this.dependencies.driver })
+      resolveRuntimeInventory(this.config, this.environment, {
+        driver: this.dependencies.driver,
+        kubernetes: this.dependencies.kubernetes,
+      })
     )
   }
 
@@ -213,6 +229,12 @@ export class RuntimeOperationService {
     return (await this.inventory()).workloads.find((workload) => workload.id === id)
   }
 
+  private kubernetes(): KubernetesOperator {
+    return (
+      this.dependencies.kubernetes ?? createKubernetesClient(resolveKubernetesSettings(this.config, this.environment))
+    )
+  }
+
   private async remote(workload: RuntimeWorkload, commands: string[], timeoutSeconds: number, comment: string) {
     const driver = this.dependencies.driver ?? createCloudDriver({ config: this.config })
     const targets = await driver.findComputeTargets({
@@ -288,6 +310,33 @@ export class RuntimeOperationService {
         return { ...base, ok: true, command: `ecs redeploy ${workload.name}` }
       }
     }
+
+    if (workload.provider === 'kubernetes') {
+      const target = kubernetesTarget(workload)
+      if (!target) return { ...base, ok: false, error: 'Kubernetes namespace or workload identity is unavailable.' }
+      const kubernetes = this.kubernetes()
+      const { namespace, kind, name } = target
+      if (kind === 'CronJob' && (input.action === 'start' || input.action === 'stop')) {
+        await kubernetes.patch('batch/v1', kind, namespace, name, { spec: { suspend: input.action === 'stop' } })
+        return { ...base, ok: true, command: `kubernetes ${input.action === 'stop' ? 'suspend' : 'resume'} ${name}` }
+      }
+      if (kind === 'Deployment' && ['scale', 'start', 'stop'].includes(input.action)) {
+        const replicas =
+          input.action === 'scale'
+            ? safeCount(input.replicas, workload.desiredReplicas ?? 1)
+            : input.action === 'stop'
+              ? 0
+              : Math.max(1, workload.desiredReplicas ?? 1)
+        await kubernetes.patch('apps/v1', kind, namespace, name, { spec: { replicas } })
+        return { ...base, ok: true, command: `kubernetes scale ${name} ${replicas}` }
+      }
+      if (kind === 'Deployment' && (input.action === 'restart' || input.action === 'redeploy')) {
+        // What `kubectl rollout restart` does: a template change rolls every pod.
+        const annotations = { 'kubectl.kubernetes.io/restartedAt': new Date().toISOString() }
+        await kubernetes.patch('apps/v1', kind, namespace, name, { spec: { template: { metadata: { annotations } } } })
+        return { ...base, ok: true, command: `kubernetes rollout restart ${name}` }
+      }
+    }
     return { ...base, ok: false, error: `${input.action} is not implemented for ${workload.provider}.` }
   }
 
@@ -310,12 +359,13 @@ export class RuntimeOperationService {
     const preset = input.preset && DIAGNOSTIC_PRESETS[input.preset]
     if (!preset && !input.command?.trim())
       return { ...base, ok: false, error: 'Choose a diagnostic preset or provide a command.' }
-    if (input.command && workload.provider !== 'docker')
+    if (input.command && workload.provider !== 'docker' && workload.provider !== 'kubernetes')
       return {
         ...base,
         ok: false,
         error: 'Free-form exec is restricted to isolated containers; use a diagnostic preset for system services.',
       }
+    if (workload.provider === 'kubernetes') return this.kubernetesExec(workload, input, base)
     const providerId = workload.links.providerId ?? ''
     let command: string | undefined
     if (workload.provider === 'docker' && SAFE_CONTAINER.test(providerId)) {
@@ -341,6 +391,31 @@ export class RuntimeOperationService {
     }
   }
 
+  private async kubernetesExec(
+    workload: RuntimeWorkload,
+    input: RuntimeExecInput,
+    base: Pick<RuntimeExecResult, 'workloadId' | 'preset'>,
+  ): Promise<RuntimeExecResult> {
+    const target = kubernetesTarget(workload)
+    const pod = workload.replicas.find((replica) => replica.status === 'running')
+    if (!target || !pod?.name) return { ...base, ok: false, error: 'No running pod is available for exec.' }
+    const requested = input.command?.trim() || DIAGNOSTIC_PRESETS[input.preset!].map(shellQuote).join(' ')
+    const command = `kubectl exec -n ${target.namespace} ${pod.name} -- sh -c ${shellQuote(requested)}`
+    try {
+      const result = await this.kubernetes().exec(target.namespace, pod.name, ['sh', '-c', requested])
+      return {
+        ...base,
+        ok: result.exitCode === 0,
+        command,
+        stdout: bounded(result.stdout),
+        stderr: bounded(result.stderr),
+        error: result.exitCode === 0 ? undefined : `Exec command exited with ${result.exitCode}.`,
+      }
+    } catch (error) {
+      return { ...base, ok: false, command, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
   async readFile(input: RuntimeFileInput): Promise<RuntimeFileReadResult> {
     const base = { workloadId: input.workloadId, path: input.path }
     const target = await this.fileTarget(input)
@@ -445,8 +520,9 @@ export class RuntimeOperationService {
         truncated: (result.events?.length ?? 0) >= limit,
       }
     }
-    const providerId = workload.links.providerId ?? ''
     const since = input.since && Number.isFinite(input.since.getTime()) ? input.since : undefined
+    if (workload.provider === 'kubernetes') return this.kubernetesLogs(workload, limit, since)
+    const providerId = workload.links.providerId ?? ''
     const command =
       workload.provider === 'systemd' && SAFE_SYSTEMD.test(providerId)
         ? `journalctl -u ${providerId} --no-pager -n ${limit} -o short-iso${since ? ` --since ${shellQuote(since.toISOString())}` : ''}`
@@ -472,4 +548,30 @@ export class RuntimeOperationService {
       truncated: raw.includes('[output truncated]') || lines.length >= limit,
     }
   }
+
+  /** The latest lines across the workload's newest pods, merged by timestamp. */
+  private async kubernetesLogs(workload: RuntimeWorkload, limit: number, since?: Date): Promise<RuntimeLogResult> {
+    const target = kubernetesTarget(workload)
+    if (!target) throw new Error('Log target identity is invalid.')
+    const sinceSeconds = since ? Math.max(1, Math.ceil((Date.now() - since.getTime()) / 1000)) : undefined
+    const lines: RuntimeLogResult['lines'] = []
+    let truncated = false
+    for (const pod of workload.replicas.slice(0, 5)) {
+      if (!pod.name) continue
+      const options = { tailLines: limit, sinceSeconds, timestamps: true }
+      const raw = bounded(await this.kubernetes().podLogs(target.namespace, pod.name, options))
+      truncated ||= raw.includes('[output truncated]')
+      for (const message of raw.split('\n').filter(Boolean)) {
+        const match = /^(\d{4}-\d{2}-\d{2}T\S+)\s+(.*)$/.exec(message)
+        lines.push({ timestamp: match?.[1], message: match?.[2] ?? message })
+      }
+    }
+    lines.sort((a, b) => (a.timestamp ?? '').localeCompare(b.timestamp ?? ''))
+    return {
+      workloadId: workload.id,
+      provider: workload.provider,
+      lines: lines.slice(-limit),
+      truncated: truncated || lines.length >= limit,
+    }
+  }
 }
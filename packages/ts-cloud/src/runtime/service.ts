@@ -1,11 +1,14 @@
 import type { CloudConfig, CloudDriver, ComputeTarget, EnvironmentType } from '@ts-cloud/core'
 import type { ECSClient, LambdaClient } from '../aws'
+import type { KubernetesReader } from './adapters/kubernetes'
 import type { RuntimeDiscoveryAdapter, RuntimeDiscoveryContext, RuntimeInventory } from './model'
 import { resolveCloudProvider, resolveDeploymentMode } from '@ts-cloud/core'
 import { ECSClient as LiveECSClient, LambdaClient as LiveLambdaClient } from '../aws'
 import { createCloudDriver } from '../drivers'
+import { createKubernetesClient, kubernetesLabelSelector, resolveKubernetesSettings } from '../kubernetes'
 import { ecsWorkloads, lambdaWorkloads } from './adapters/aws'
 import { DockerDiscoveryAdapter } from './adapters/docker'
+import { KubernetesDiscoveryAdapter } from './adapters/kubernetes'
 import { SystemdDiscoveryAdapter } from './adapters/systemd'
 import { discoverRuntimeInventory } from './inventory'
 
@@ -21,6 +24,7 @@ export interface RuntimeServiceDependencies {
   driver?: CloudDriver
   ecs?: EcsReader
   lambda?: LambdaReader
+  kubernetes?: KubernetesReader
 }
 
 function commandOutput(result: Awaited<ReturnType<CloudDriver['runRemoteDeploy']>>, source: string): string {
@@ -181,7 +185,17 @@ export async function createRuntimeAdapters(
   const region = config.aws?.region ?? config.project.region ?? 'us-east-1'
   const prefix = `${config.project.slug}-${environment}`
 
-  if (mode !== 'serverless') {
+  // A Kubernetes target runs the app on the cluster, not on provisioned servers.
+  if (config.kubernetes) {
+    const settings = resolveKubernetesSettings(config, environment)
+    adapters.push(
+      new KubernetesDiscoveryAdapter(
+        dependencies.kubernetes ?? createKubernetesClient(settings),
+        settings.namespace,
+        kubernetesLabelSelector(config, environment),
+      ),
+    )
+  } else if (mode !== 'serverless') {
     const driver = dependencies.driver ?? createCloudDriver({ config })
     const targets = await driver.findComputeTargets({ slug: config.project.slug, environment, role: 'app' })
     for (const target of targets) {
@@ -4,5 +4,6 @@ export * from './scanners'
 export * from './artifacts'
 export * from './integration'
 export * from './container-release'
+export * from './template-policy'
 export { PreDeployScanner, SECRET_PATTERNS, formatScanResults, scanForSecrets } from './pre-deploy-scanner'
 export type { ScanOptions, ScanResult, SecretPattern, SecurityFinding as SecretScanFinding } from './pre-deploy-scanner'
@@ -0,0 +1,98 @@
+import type { CloudConfig, PolicyTemplate } from '@ts-cloud/core'
+import { describe, expect, it } from 'bun:test'
+import { ControlPlaneStore } from '../control-plane'
+import { ensureDefaultSecurityPolicies, productionChangeReview, securityScope } from './integration'
+import { SecurityPostureStore } from './posture-store'
+import { evaluateTemplatePolicy, generatePolicyTemplate, recordTemplatePolicyScan } from './template-policy'
+
+const config: CloudConfig = {
+  project: { name: 'Web', slug: 'web', region: 'us-east-1' },
+  environments: { production: { type: 'production' } },
+  tags: { 'cost-center': 'web' },
+  infrastructure: {
+    storage: { downloads: { encryption: true, versioning: true } },
+    security: { policy: { requiredTags: ['cost-center'] } },
+  },
+}
+
+// A bucket policy opening the bucket to everyone, as a hand-written override would add
+function withPublicPolicy(template: PolicyTemplate): PolicyTemplate {
+  const bucket = Object.keys(template.Resources!).find((id) => template.Resources![id].Type === 'AWS::S3::Bucket')!
+  const statement = { Effect: 'Allow', Principal: '*', Action: 's3:GetObject', Resource: '*' }
+  return {
+    ...template,
+    Resources: {
+      ...template.Resources,
+      DownloadsPolicy: {
+        Type: 'AWS::S3::BucketPolicy',
+        Properties: { Bucket: { Ref: bucket }, PolicyDocument: { Statement: [statement] } },
+      },
+    },
+  }
+}
+
+function fixture() {
+  const store = new ControlPlaneStore({ path: ':memory:' })
+  const organization = store.createOrganization({ slug: 'acme', name: 'Acme' })
+  const project = store.createProject({ organizationId: organization.id, slug: 'web', name: 'Web' })
+  const environment = store.createEnvironment({
+    projectId: project.id,
+    slug: 'production',
+    name: 'Production',
+    kind: 'production',
+  })
+  const context = { store, organization, project, environments: new Map([['production', environment]]) }
+  ensureDefaultSecurityPolicies(context)
+  return { posture: new SecurityPostureStore(store), scope: securityScope(context, 'production') }
+}
+
+describe('template policy', () => {
+  it('evaluates the generated template, including project-wide tags', () => {
+    const template = generatePolicyTemplate(config, 'production')!
+    const bucket = Object.values(template.Resources!).find((resource) => resource.Type === 'AWS::S3::Bucket')!
+    expect(bucket.Properties!.Tags).toContainEqual({ Key: 'cost-center', Value: 'web' })
+
+    expect(evaluateTemplatePolicy(config, 'production', template).findings).toEqual([])
+    const evaluation = evaluateTemplatePolicy(config, 'production', withPublicPolicy(template))
+    expect(evaluation.findings.map((finding) => finding.ruleId)).toEqual(['s3-public-access'])
+  })
+
+  it('skips template generation for projects that do not deploy a stack', () => {
+    const disabled = { ...config, infrastructure: { ...config.infrastructure, deployStack: false } }
+    expect(generatePolicyTemplate(disabled, 'production')).toBeUndefined()
+  })
+
+  it('blocks production deploys on high findings and lets config waivers through', () => {
+    const template = withPublicPolicy(generatePolicyTemplate(config, 'production')!)
+    const blocked = fixture()
+    const { findings } = recordTemplatePolicyScan(
+      blocked.posture,
+      blocked.scope,
+      evaluateTemplatePolicy(config, 'production', template),
+    )
+    expect(findings).toMatchObject([{ ruleId: 's3-public-access', severity: 'high', status: 'open' }])
+    const decision = productionChangeReview(blocked.posture, { scope: blocked.scope }).decision
+    expect(decision.outcome).toBe('block')
+
+    const waived: CloudConfig = {
+      ...config,
+      infrastructure: {
+        ...config.infrastructure,
+        security: {
+          policy: {
+            waivers: [{ rule: 's3-public-access', reason: 'Public downloads', expiresAt: '2999-01-01T00:00:00Z' }],
+          },
+        },
+      },
+    }
+    const allowed = fixture()
+    const { run } = recordTemplatePolicyScan(
+      allowed.posture,
+      allowed.scope,
+      evaluateTemplatePolicy(waived, 'production', template),
+    )
+    expect(run.status).toBe('passed')
+    expect(run.metadata).toMatchObject({ waived: [{ ruleId: 's3-public-access', reason: 'Public downloads' }] })
+    expect(allowed.posture.listFindings(allowed.scope)).toEqual([])
+  })
+})
@@ -0,0 +1,76 @@
+import type { CloudConfig, EnvironmentType, PolicyEvaluation, PolicyTemplate } from '@ts-cloud/core'
+import type { SecurityPostureStore } from './posture-store'
+import type { SecurityFindingInput, SecurityPostureFinding, SecurityScanRun, SecurityScope } from './types'
+import { evaluatePolicies, resolveCloudProvider, resolveDeploymentMode } from '@ts-cloud/core'
+import { hasComputeConfigured } from '../deploy/site-target'
+import { InfrastructureGenerator } from '../generators/infrastructure'
+
+export const TEMPLATE_POLICY_SCANNER_ID = 'template-policy'
+
+/**
+ * The template `cloud deploy` submits to CloudFormation for an environment, or nothing when the
+ * project deploys another way (serverless, a single server, or with `deployStack: false`).
+ */
+export function generatePolicyTemplate(config: CloudConfig, environment: string): PolicyTemplate | undefined {
+  if (resolveDeploymentMode(config) === 'serverless' || config.infrastructure?.deployStack === false) return undefined
+  const provider = resolveCloudProvider(config)
+  const serverCompute =
+    provider === 'hetzner' || provider === 'digitalocean' || config.infrastructure?.compute?.mode === 'server'
+  if (serverCompute && hasComputeConfigured(config)) return undefined
+  const generator = new InfrastructureGenerator({ config, environment: environment as EnvironmentType })
+  return JSON.parse(generator.generate().toJSON())
+}
+
+/**
+ * Evaluate `infrastructure.security.policy` for an environment
+ */
+export function evaluateTemplatePolicy(
+  config: CloudConfig,
+  environment: string,
+  template?: PolicyTemplate,
+): PolicyEvaluation {
+  const production = environment === 'production' || config.environments?.[environment]?.type === 'production'
+  return evaluatePolicies({ config, environment, production, template }, config.infrastructure?.security?.policy)
+}
+
+/**
+ * Record a policy evaluation as a scan. Findings a config waiver covers stay in the run metadata
+ * instead of being recorded, so they never reach the deploy gate.
+ */
+export function recordTemplatePolicyScan(
+  posture: SecurityPostureStore,
+  scope: SecurityScope,
+  evaluation: PolicyEvaluation,
+): { run: SecurityScanRun; findings: SecurityPostureFinding[] } {
+  const findings: SecurityFindingInput[] = evaluation.findings.map((finding) => ({
+    ...scope,
+    ruleId: finding.ruleId,
+    severity: finding.severity,
+    title: finding.title,
+    description: finding.message,
+    subject: finding.subject,
+    evidence: { controls: finding.controls, rule: finding.description },
+    remediation: finding.remediation,
+  }))
+  return posture.recordScan({
+    ...scope,
+    scannerId: TEMPLATE_POLICY_SCANNER_ID,
+    scannerVersion: '1.0.0',
+    status: findings.length ? 'failed' : 'passed',
+    findings,
+    metadata: {
+      environment: evaluation.environment,
+      rulesEvaluated: evaluation.rulesEvaluated,
+      waived: evaluation.waived.map((finding) => ({
+        ruleId: finding.ruleId,
+        subject: finding.subject,
+        reason: finding.waiver?.reason ?? '',
+        expiresAt: finding.waiver?.expiresAt ?? '',
+      })),
+      errors: evaluation.errors,
+    },
+    error: evaluation.errors.length
+      ? evaluation.errors.map((error) => `${error.ruleId}: ${error.message}`).join('; ')
+      : undefined,
+  })
+}
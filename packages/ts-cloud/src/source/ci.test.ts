@@ -0,0 +1,58 @@
+import type { CloudConfig } from '@ts-cloud/core'
+import { afterEach, describe, expect, it } from 'bun:test'
+import { existsSync } from 'node:fs'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import { resolveStatePath } from '@ts-cloud/core'
+import { ControlPlaneStore } from '../control-plane'
+import { detectProjectCIProvider } from './ci'
+import { SourceConnectionStore } from './store'
+
+const config = { project: { name: 'Web', slug: 'web', region: 'us-east-1' } } as CloudConfig
+const roots: string[] = []
+
+async function projectRoot(): Promise<string> {
+  const root = await mkdtemp(resolve(tmpdir(), 'ts-cloud-source-ci-'))
+  roots.push(root)
+  return root
+}
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => rm(root, { recursive: true, force: true })))
+})
+
+describe('detectProjectCIProvider', () => {
+  it('follows the provider of the project source binding', async () => {
+    const cwd = await projectRoot()
+    const controlPlane = new ControlPlaneStore({ cwd })
+    const organization = controlPlane.createOrganization({ slug: 'acme', name: 'Acme' })
+    const project = controlPlane.createProject({ organizationId: organization.id, slug: 'web', name: 'Web' })
+    const sources = new SourceConnectionStore(controlPlane, { encryptionKey: 'fixture-key' })
+    const connection = sources.createConnection({
+      organizationId: organization.id,
+      provider: 'bitbucket',
+      name: 'Bitbucket',
+      host: 'https://bitbucket.org',
+      authKind: 'access_token',
+      credential: { token: 'token' },
+    })
+    sources.createBinding({ projectId: project.id, connectionId: connection.id, repositoryFullName: 'acme/web' })
+    controlPlane.close()
+
+    expect(detectProjectCIProvider(config, cwd)).toBe('bitbucket')
+    expect(detectProjectCIProvider({ ...config, ci: { provider: 'buildkite' } }, cwd)).toBe('buildkite')
+  })
+
+  it('falls back to the site repository without creating a control plane', async () => {
+    const cwd = await projectRoot()
+    const withRepository = {
+      ...config,
+      sites: { web: { repository: { url: 'git@gitlab.com:acme/web.git', provider: 'gitlab' } } },
+    } as CloudConfig
+
+    expect(detectProjectCIProvider(withRepository, cwd)).toBe('gitlab')
+    expect(detectProjectCIProvider(config, cwd)).toBeUndefined()
+    expect(existsSync(resolveStatePath(cwd, 'control-plane.sqlite'))).toBe(false)
+  })
+})
@@ -0,0 +1,56 @@
+import type { CIProvider, CloudConfig } from '@ts-cloud/core'
+import type { SourceProvider } from './types'
+import { existsSync } from 'node:fs'
+import { resolveStatePath } from '@ts-cloud/core'
+import { ControlPlaneStore } from '../control-plane'
+import { SourceConnectionStore } from './store'
+
+/**
+ * The CI system that runs for repositories on a source provider. Gitea
+ * connections also cover Forgejo; set `ci.provider: 'forgejo'` to write the
+ * workflows to `.forgejo/workflows` instead.
+ */
+export function ciProviderForSource(provider: SourceProvider): CIProvider | undefined {
+  switch (provider) {
+    case 'github':
+    case 'gitlab':
+    case 'bitbucket':
+    case 'gitea':
+      return provider
+    default:
+      return undefined
+  }
+}
+
+/**
+ * The CI system a project's pipeline is generated for: `ci.provider` from the
+ * config, then the provider of the project's active source binding in the
+ * control plane, then the provider of a site's git repository.
+ */
+export function detectProjectCIProvider(config: CloudConfig, cwd: string = process.cwd()): CIProvider | undefined {
+  if (config.ci?.provider) return config.ci.provider
+
+  // Only read an existing control plane; generating must not create one
+  if (existsSync(resolveStatePath(cwd, 'control-plane.sqlite'))) {
+    const store = new ControlPlaneStore({ cwd })
+    try {
+      const project = store.getProjectBySlug(config.project.slug)
+      if (project) {
+        const sources = new SourceConnectionStore(store)
+        for (const binding of sources.listBindings({ projectId: project.id, status: 'active' })) {
+          const connection = sources.getConnection(binding.connectionId)
+          const provider = connection && ciProviderForSource(connection.provider)
+          if (provider) return provider
+        }
+      }
+    } finally {
+      store.close()
+    }
+  }
+
+  for (const site of Object.values(config.sites ?? {})) {
+    const provider = site.repository?.provider
+    if (provider && provider !== 'custom') return provider
+  }
+  return undefined
+}
@@ -4,3 +4,4 @@ export * from './providers'
 export * from './webhooks'
 export * from './git-workspace'
 export * from './service'
+export * from './ci'
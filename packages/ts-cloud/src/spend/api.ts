@@ -173,6 +173,7 @@ export async function handleSpendRequest(
       currency: payload.currency,
       softLimitCents: positiveInt(payload.softLimitCents, 'softLimitCents'),
       hardLimitCents: positiveInt(payload.hardLimitCents, 'hardLimitCents'),
+      deployIncreaseLimitCents: positiveInt(payload.deployIncreaseLimitCents, 'deployIncreaseLimitCents'),
       thresholds: payload.thresholds,
       meters: payload.meters,
       graceSeconds: positiveInt(payload.graceSeconds, 'graceSeconds'),
@@ -0,0 +1,58 @@
+/**
+ * Budgets as a pre-deploy check.
+ *
+ * Everything else in spend management reacts to metered usage, which only
+ * exists once the money is being spent. A deploy that adds a NAT gateway and
+ * two database replicas is known to cost more before it runs, so a budget can
+ * also cap how much estimated monthly cost one deploy may add. The estimate
+ * comes from the template (see `cost/estimate.ts`); this only compares it with
+ * the limits of the budgets governing the scope.
+ */
+import type { SpendStore } from './store'
+import { formatCents } from './notifications'
+
+export interface DeployCostBreach {
+  budgetId: string
+  name: string
+  limitCents: number
+  /** A dry-run budget reports the breach but does not block. */
+  simulated: boolean
+}
+
+export interface DeployCostVerdict {
+  allowed: boolean
+  increaseCents: number
+  breaches: DeployCostBreach[]
+  reason?: string
+}
+
+/**
+ * Whether a deploy that raises the estimated monthly cost by `increaseCents`
+ * fits every enabled budget governing the scope. A decrease always passes.
+ */
+export function checkDeployCostIncrease(
+  store: SpendStore,
+  scope: { organizationId: string; projectId?: string; environmentId?: string },
+  increaseCents: number,
+): DeployCostVerdict {
+  const breaches = store
+    .budgetsForScope(scope.organizationId, scope.projectId, scope.environmentId)
+    .filter((budget) => budget.deployIncreaseLimitCents != null && increaseCents > budget.deployIncreaseLimitCents)
+    .map((budget) => ({
+      budgetId: budget.id,
+      name: budget.name,
+      limitCents: budget.deployIncreaseLimitCents!,
+      simulated: budget.dryRun,
+    }))
+    .sort((a, b) => a.limitCents - b.limitCents)
+  const blocking = breaches.find((breach) => !breach.simulated)
+  if (!blocking) return { allowed: true, increaseCents, breaches }
+  return {
+    allowed: false,
+    increaseCents,
+    breaches,
+    reason:
+      `This deploy adds an estimated ${formatCents(increaseCents)} a month; ` +
+      `budget '${blocking.name}' allows ${formatCents(blocking.limitCents)} per deploy.`,
+  }
+}
@@ -5,6 +5,7 @@ import { AutomationIdentityStore } from '../automation'
 import { AutomationApiService } from '../api/service'
 import { ControlPlaneStore } from '../control-plane'
 import { createEnforcementHandlers, RecordingSpendTransport } from './appliers'
+import { checkDeployCostIncrease } from './deploy-cost'
 import { assertSpendAllows, SpendCapError, SpendGate } from './gate'
 import { formatCents, SpendNotificationRouter, spendNotificationText } from './notifications'
 import { SpendRunner, startSpendLoop } from './runner'
@@ -365,6 +366,55 @@ describe('deployment gating through the API service', () => {
   })
 })
 
+describe('deploy cost increase', () => {
+  it('blocks a deploy whose estimated increase exceeds a budget limit', () => {
+    const { organization, project, environment, store } = fixture()
+    const scope = { organizationId: organization.id, projectId: project.id, environmentId: environment.id }
+    store.createBudget({
+      organizationId: organization.id,
+      name: 'Organization',
+      period: 'monthly',
+      hardLimitCents: 500_000,
+      deployIncreaseLimitCents: 50_000,
+      dryRun: false,
+    })
+    const web = store.createBudget({
+      organizationId: organization.id,
+      projectId: project.id,
+      name: 'Web',
+      period: 'monthly',
+      hardLimitCents: 100_000,
+      deployIncreaseLimitCents: 10_000,
+      dryRun: false,
+    })
+    expect(store.getBudget(web.id)?.deployIncreaseLimitCents).toBe(10_000)
+
+    expect(checkDeployCostIncrease(store, scope, 10_000)).toEqual({ allowed: true, increaseCents: 10_000, breaches: [] })
+    expect(checkDeployCostIncrease(store, scope, -80_000).allowed).toBe(true)
+
+    const verdict = checkDeployCostIncrease(store, scope, 60_000)
+    expect(verdict.allowed).toBe(false)
+    expect(verdict.breaches.map((breach) => breach.limitCents)).toEqual([10_000, 50_000])
+    expect(verdict.reason).toBe("This deploy adds an estimated $600.00 a month; budget 'Web' allows $100.00 per deploy.")
+  })
+
+  it('reports but does not block on a dry-run budget', () => {
+    const { organization, project, store } = fixture()
+    store.createBudget({
+      organizationId: organization.id,
+      projectId: project.id,
+      name: 'Web',
+      period: 'monthly',
+      hardLimitCents: 100_000,
+      deployIncreaseLimitCents: 10_000,
+      dryRun: true,
+    })
+    const verdict = checkDeployCostIncrease(store, { organizationId: organization.id, projectId: project.id }, 20_000)
+    expect(verdict.allowed).toBe(true)
+    expect(verdict.breaches).toMatchObject([{ name: 'Web', simulated: true }])
+  })
+})
+
 describe('notification text', () => {
   it('leads with the money, not the percentage', () => {
     const { store, organization, project } = fixture()
@@ -12,6 +12,7 @@ export * from './signals'
 export * from './focus'
 export * from './service'
 export * from './gate'
+export * from './deploy-cost'
 export * from './appliers'
 export * from './notifications'
 export * from './lease'
@@ -170,6 +170,11 @@ export interface Budget {
   softLimitCents?: number
   /** Enforcing ceiling. Reaching it runs the top of the ladder. */
   hardLimitCents?: number
+  /**
+   * Largest increase in estimated monthly cost a single deploy may add. Checked
+   * before a deploy against the template estimate, not by the evaluator.
+   */
+  deployIncreaseLimitCents?: number
   thresholds: BudgetThreshold[]
   /**
    * Only these meters count toward the budget. Empty means every meter.
@@ -58,6 +58,7 @@ function budgetRow(row: Row): Budget {
     currency: String(row.currency),
     softLimitCents: nullable(row.soft_limit_cents),
     hardLimitCents: nullable(row.hard_limit_cents),
+    deployIncreaseLimitCents: nullable(row.deploy_increase_limit_cents),
     thresholds: json(row.thresholds),
     meters: json(row.meters),
     graceSeconds: Number(row.grace_seconds),
@@ -143,6 +144,7 @@ export interface CreateBudgetInput {
   currency?: string
   softLimitCents?: number
   hardLimitCents?: number
+  deployIncreaseLimitCents?: number
   thresholds?: BudgetThreshold[]
   meters?: MeterKey[]
   graceSeconds?: number
@@ -239,7 +241,7 @@ export class SpendStore {
     const id = crypto.randomUUID()
     const now = this.now()
     this.controlPlane.database.run(
-      'INSERT INTO spend_budgets (id,organization_id,project_id,environment_id,name,period,timezone,currency,soft_limit_cents,hard_limit_cents,thresholds,meters,grace_seconds,hysteresis_percent,dry_run,enabled,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,1,?,?)',
+      'INSERT INTO spend_budgets (id,organization_id,project_id,environment_id,name,period,timezone,currency,soft_limit_cents,hard_limit_cents,deploy_increase_limit_cents,thresholds,meters,grace_seconds,hysteresis_percent,dry_run,enabled,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,1,?,?)',
       [
         id,
         input.organizationId,
@@ -251,6 +253,7 @@ export class SpendStore {
         input.currency ?? 'USD',
         input.softLimitCents ?? null,
         input.hardLimitCents ?? null,
+        input.deployIncreaseLimitCents ?? null,
         JSON.stringify(thresholds),
         JSON.stringify(input.meters ?? []),
         Math.max(0, Math.floor(input.graceSeconds ?? 0)),
@@ -310,7 +313,7 @@ export class SpendStore {
       throw new Error('The soft limit must not exceed the hard limit.')
     if (patch.timezone && !isValidTimeZone(patch.timezone)) throw new Error(`Unknown timezone: ${patch.timezone}`)
     this.controlPlane.database.run(
-      'UPDATE spend_budgets SET name=?,period=?,timezone=?,currency=?,soft_limit_cents=?,hard_limit_cents=?,thresholds=?,meters=?,grace_seconds=?,hysteresis_percent=?,dry_run=?,enabled=?,version=version+1,updated_at=? WHERE id=?',
+      'UPDATE spend_budgets SET name=?,period=?,timezone=?,currency=?,soft_limit_cents=?,hard_limit_cents=?,deploy_increase_limit_cents=?,thresholds=?,meters=?,grace_seconds=?,hysteresis_percent=?,dry_run=?,enabled=?,version=version+1,updated_at=? WHERE id=?',
       [
         next.name,
         next.period,
@@ -318,6 +321,7 @@ export class SpendStore {
         next.currency ?? 'USD',
         next.softLimitCents ?? null,
         next.hardLimitCents ?? null,
+        next.deployIncreaseLimitCents ?? null,
         JSON.stringify(next.thresholds ?? []),
         JSON.stringify(next.meters ?? []),
         Math.max(0, Math.floor(next.graceSeconds ?? 0)),
@@ -0,0 +1,5 @@
+export * from './model'
+export * from './store'
+export * from './render'
+export * from './notify'
+export * from './publish'
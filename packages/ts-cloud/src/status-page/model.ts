@@ -0,0 +1,126 @@
+export type StatusComponentState = 'operational' | 'degraded' | 'partial_outage' | 'major_outage' | 'maintenance'
+export type StatusIncidentImpact = 'none' | 'minor' | 'major' | 'critical'
+export type StatusIncidentStatus = 'investigating' | 'identified' | 'monitoring' | 'resolved'
+export type StatusSubscriberKind = 'email' | 'webhook'
+
+/**
+ * Where the page is published. `siteName` and the domain fields are passed to
+ * `deployStaticSiteFull`; `bucket`, `distributionId`, and `region` are filled
+ * in by the first deploy so later publishes only upload and invalidate.
+ */
+export interface StatusPageSite {
+  siteName: string
+  region?: string
+  domain?: string
+  subdomain?: string
+  baseDomain?: string
+  bucket?: string
+  distributionId?: string
+}
+
+export interface StatusPage {
+  id: string
+  projectId: string
+  slug: string
+  title: string
+  description?: string
+  /** Public URL of the published page, used in feeds, emails, and subscription redirects. */
+  publicUrl?: string
+  /** Dashboard origin the page's subscribe form posts to. Without it the page offers RSS only. */
+  subscribeOrigin?: string
+  site: StatusPageSite
+  /** Republish whenever the computed status changes. */
+  autoPublish: boolean
+  publishedAt?: string
+  publishedHash?: string
+  version: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface StatusComponent {
+  id: string
+  pageId: string
+  name: string
+  description?: string
+  /** Components sharing a group are shown together under it. */
+  group?: string
+  healthCheckIds: string[]
+  position: number
+}
+
+export interface StatusIncidentUpdate {
+  id: string
+  incidentId: string
+  status: StatusIncidentStatus
+  body: string
+  authorActorId?: string
+  createdAt: string
+}
+
+export interface StatusIncident {
+  id: string
+  pageId: string
+  title: string
+  impact: StatusIncidentImpact
+  status: StatusIncidentStatus
+  componentIds: string[]
+  /** Newest first. */
+  updates: StatusIncidentUpdate[]
+  startedAt: string
+  resolvedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface StatusMaintenance {
+  id: string
+  pageId: string
+  title: string
+  body: string
+  componentIds: string[]
+  startsAt: string
+  endsAt: string
+  cancelledAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface StatusSubscriber {
+  id: string
+  pageId: string
+  kind: StatusSubscriberKind
+  /** Email address or HTTPS webhook URL. */
+  target: string
+  /** Email subscribers confirm by link before anything else is sent to them. */
+  confirmedAt?: string
+  createdAt: string
+}
+
+/** One bar of the uptime history. `uptime` is undefined for days without results. */
+export interface StatusUptimeDay {
+  date: string
+  uptime?: number
+  state: StatusComponentState | 'no_data'
+}
+
+export interface StatusComponentSnapshot {
+  component: StatusComponent
+  state: StatusComponentState
+  uptimeDays: StatusUptimeDay[]
+  /** Share of healthy results over the whole window, or undefined when there were none. */
+  uptime?: number
+}
+
+export interface StatusPageSnapshot {
+  page: StatusPage
+  generatedAt: string
+  /** The worst component state, which is what the banner shows. */
+  state: StatusComponentState
+  components: StatusComponentSnapshot[]
+  activeIncidents: StatusIncident[]
+  /** Incidents resolved within the uptime window, newest first. */
+  pastIncidents: StatusIncident[]
+  /** Maintenance in progress or still to come. */
+  maintenance: StatusMaintenance[]
+}
@@ -0,0 +1,130 @@
+import type { NotificationEmail, NotificationFetch } from '../alerts'
+import type { StatusIncident, StatusMaintenance, StatusPage, StatusSubscriber } from './model'
+import type { StatusPageStore } from './store'
+
+export interface StatusNotifyResult {
+  sent: number
+  failed: Array<{ subscriberId: string; error: string }>
+}
+
+/**
+ * Tells a page's subscribers about incident updates and maintenance. Email
+ * and fetch are injected like the alert router's, and failures are reported
+ * per subscriber rather than thrown: one bouncing address must not stop the
+ * rest, and the notice itself is already published.
+ */
+export class StatusSubscriberNotifier {
+  private readonly fetchImpl: NotificationFetch
+  constructor(
+    private readonly store: StatusPageStore,
+    private readonly options: { fetchImpl?: NotificationFetch; emailImpl?: NotificationEmail } = {},
+  ) {
+    this.fetchImpl = options.fetchImpl ?? (globalThis.fetch as unknown as NotificationFetch)
+  }
+
+  private link(page: StatusPage, action: 'confirm' | 'unsubscribe', subscriber: StatusSubscriber): string | undefined {
+    if (!page.subscribeOrigin) return undefined
+    return `${page.subscribeOrigin}/status/${encodeURIComponent(page.slug)}/${action}?token=${encodeURIComponent(
+      this.store.subscriberToken(subscriber.id),
+    )}`
+  }
+
+  /** The one message an unconfirmed email subscriber receives. */
+  async sendConfirmation(subscriber: StatusSubscriber): Promise<StatusNotifyResult> {
+    const page = this.store.getPage(subscriber.pageId)
+    const confirm = page && this.link(page, 'confirm', subscriber)
+    if (!page || !confirm || subscriber.kind !== 'email')
+      return { sent: 0, failed: [{ subscriberId: subscriber.id, error: 'Confirmation needs an email subscriber.' }] }
+    return this.send(page, [subscriber], {
+      subject: `Confirm your subscription to ${page.title}`,
+      text: [
+        `Confirm that you want status updates from ${page.title}:`,
+        confirm,
+        'If you did not ask for this, ignore this message and nothing more will be sent.',
+      ].join('\n\n'),
+      event: 'subscription.confirm',
+    })
+  }
+
+  async notifyIncident(incident: StatusIncident): Promise<StatusNotifyResult> {
+    const page = this.store.getPage(incident.pageId)
+    const latest = incident.updates[0]
+    if (!page || !latest) return { sent: 0, failed: [] }
+    const url = page.publicUrl ? `${page.publicUrl}/#incident-${incident.id}` : undefined
+    return this.send(page, this.store.listSubscribers(page.id, { confirmedOnly: true }), {
+      subject: `[${page.title}] ${incident.title}: ${latest.status}`,
+      text: `${latest.body}${url ? `\n\n${url}` : ''}`,
+      event: incident.status === 'resolved' ? 'incident.resolved' : 'incident.updated',
+      incident: {
+        id: incident.id,
+        title: incident.title,
+        impact: incident.impact,
+        status: incident.status,
+        update: latest.body,
+        updatedAt: latest.createdAt,
+        url,
+      },
+    })
+  }
+
+  async notifyMaintenance(maintenance: StatusMaintenance): Promise<StatusNotifyResult> {
+    const page = this.store.getPage(maintenance.pageId)
+    if (!page) return { sent: 0, failed: [] }
+    const cancelled = !!maintenance.cancelledAt
+    return this.send(page, this.store.listSubscribers(page.id, { confirmedOnly: true }), {
+      subject: `[${page.title}] ${cancelled ? 'Cancelled' : 'Scheduled'} maintenance: ${maintenance.title}`,
+      text: `${maintenance.startsAt} – ${maintenance.endsAt}\n\n${maintenance.body}`,
+      event: cancelled ? 'maintenance.cancelled' : 'maintenance.scheduled',
+      maintenance: {
+        id: maintenance.id,
+        title: maintenance.title,
+        startsAt: maintenance.startsAt,
+        endsAt: maintenance.endsAt,
+        body: maintenance.body,
+      },
+    })
+  }
+
+  private async send(
+    page: StatusPage,
+    subscribers: StatusSubscriber[],
+    message: { subject: string; text: string; event: string } & Record<string, unknown>,
+  ): Promise<StatusNotifyResult> {
+    const result: StatusNotifyResult = { sent: 0, failed: [] }
+    const { subject, text, ...event } = message
+    for (const subscriber of subscribers) {
+      try {
+        if (subscriber.kind === 'email') {
+          if (!this.options.emailImpl) throw new Error('Email adapter is not configured.')
+          const unsubscribe = this.link(page, 'unsubscribe', subscriber)
+          await this.options.emailImpl({
+            to: subscriber.target,
+            subject,
+            text: unsubscribe ? `${text}\n\nUnsubscribe: ${unsubscribe}` : text,
+          })
+        } else {
+          const controller = new AbortController()
+          const timer = setTimeout(() => controller.abort(), 10_000)
+          try {
+            const response = await this.fetchImpl(subscriber.target, {
+              method: 'POST',
+              headers: { 'content-type': 'application/json' },
+              body: JSON.stringify({ page: { slug: page.slug, title: page.title, url: page.publicUrl }, ...event }),
+              signal: controller.signal,
+            })
+            if (!response.ok) throw new Error(`Subscriber returned HTTP ${response.status}.`)
+          } finally {
+            clearTimeout(timer)
+          }
+        }
+        result.sent++
+      } catch (error) {
+        result.failed.push({
+          subscriberId: subscriber.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+    return result
+  }
+}
@@ -0,0 +1,129 @@
+import type { DeployResult, StaticSiteConfig, UploadOptions } from '../deploy/static-site'
+import type { StatusPage, StatusPageSnapshot } from './model'
+import type { StatusPageStore } from './store'
+import { createHash } from 'node:crypto'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { renderStatusSite } from './render'
+
+/** Short enough that a status change reaches readers within a minute of the CloudFront invalidation. */
+export const STATUS_PAGE_CACHE_CONTROL = 'max-age=60, public'
+
+/** The static-site operations a publish needs, injectable for tests. */
+export interface StatusPageDeployer {
+  deployFull: (
+    config: StaticSiteConfig & { sourceDir: string },
+  ) => Promise<DeployResult & { filesUploaded?: number; filesSkipped?: number }>
+  upload: (options: UploadOptions) => Promise<{ uploaded: number; skipped: number; errors: string[] }>
+  invalidate: (distributionId: string) => Promise<{ invalidationId: string }>
+}
+
+export interface StatusPagePublishResult {
+  page: StatusPage
+  published: boolean
+  hash: string
+  message: string
+}
+
+/**
+ * What a reader would see change: overall and component state, notices, and
+ * the day the uptime bars end on. Uptime percentages move with every probe,
+ * so they are left out; they are refreshed by the daily roll-over and by any
+ * real change.
+ */
+export function statusPageFingerprint(snapshot: StatusPageSnapshot): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        version: snapshot.page.version,
+        day: snapshot.generatedAt.slice(0, 10),
+        state: snapshot.state,
+        components: snapshot.components.map((item) => [item.component.id, item.state]),
+        incidents: [...snapshot.activeIncidents, ...snapshot.pastIncidents].map((item) => [item.id, item.updatedAt]),
+        maintenance: snapshot.maintenance.map((item) => [
+          item.id,
+          item.updatedAt,
+          item.startsAt <= snapshot.generatedAt,
+        ]),
+      }),
+    )
+    .digest('hex')
+    .slice(0, 32)
+}
+
+async function defaultDeployer(): Promise<StatusPageDeployer> {
+  const { deployStaticSiteFull, invalidateCache, uploadStaticFiles } = await import('../deploy/static-site')
+  return { deployFull: deployStaticSiteFull, upload: uploadStaticFiles, invalidate: invalidateCache }
+}
+
+/**
+ * Render a status page and push it to its static site. The first publish
+ * runs the full static-site deploy (bucket, CloudFront, certificate, DNS) and
+ * records the bucket and distribution it created; later ones upload the
+ * changed files and invalidate the distribution. Being plain files on S3 and
+ * CloudFront, the page keeps serving its last state while the application —
+ * or this dashboard — is down.
+ *
+ * Without `force`, nothing is deployed when {@link statusPageFingerprint} is
+ * unchanged since the last publish.
+ */
+export async function publishStatusPage(
+  store: StatusPageStore,
+  pageId: string,
+  options: { force?: boolean; at?: Date; deployer?: StatusPageDeployer } = {},
+): Promise<StatusPagePublishResult> {
+  const snapshot = store.snapshot(pageId, options.at)
+  const hash = statusPageFingerprint(snapshot)
+  const page = snapshot.page
+  if (!options.force && page.publishedHash === hash)
+    return { page, published: false, hash, message: 'Status page is already up to date.' }
+  const deployer = options.deployer ?? (await defaultDeployer())
+  const sourceDir = await mkdtemp(join(tmpdir(), `ts-cloud-status-${page.slug}-`))
+  try {
+    for (const [file, content] of Object.entries(renderStatusSite(snapshot)))
+      await writeFile(join(sourceDir, file), content)
+    const region = page.site.region ?? 'us-east-1'
+    if (page.site.bucket) {
+      const upload = await deployer.upload({
+        sourceDir,
+        bucket: page.site.bucket,
+        region,
+        cacheControl: STATUS_PAGE_CACHE_CONTROL,
+        htmlCacheControl: STATUS_PAGE_CACHE_CONTROL,
+      })
+      if (upload.errors.length) throw new Error(`Status page upload failed: ${upload.errors.join(', ')}`)
+      if (page.site.distributionId && upload.uploaded) await deployer.invalidate(page.site.distributionId)
+      return {
+        page: store.markPublished(page.id, hash),
+        published: true,
+        hash,
+        message: `Uploaded ${upload.uploaded} changed files.`,
+      }
+    }
+    const deployed = await deployer.deployFull({
+      siteName: page.site.siteName,
+      region,
+      domain: page.site.domain,
+      subdomain: page.site.subdomain,
+      baseDomain: page.site.baseDomain,
+      sourceDir,
+      cacheControl: STATUS_PAGE_CACHE_CONTROL,
+      htmlCacheControl: STATUS_PAGE_CACHE_CONTROL,
+      tags: { 'ts-cloud:status-page': page.slug },
+    })
+    if (!deployed.success) throw new Error(deployed.message)
+    return {
+      page: store.markPublished(page.id, hash, {
+        region,
+        bucket: deployed.bucket,
+        distributionId: deployed.distributionId,
+      }),
+      published: true,
+      hash,
+      message: deployed.message,
+    }
+  } finally {
+    await rm(sourceDir, { recursive: true, force: true })
+  }
+}
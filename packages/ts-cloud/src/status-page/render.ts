@@ -0,0 +1,251 @@
+import type {
+  StatusComponentSnapshot,
+  StatusComponentState,
+  StatusIncident,
+  StatusIncidentImpact,
+  StatusPageSnapshot,
+} from './model'
+
+const LABELS: Record<StatusComponentState | 'no_data', string> = {
+  operational: 'Operational',
+  maintenance: 'Under maintenance',
+  degraded: 'Degraded performance',
+  partial_outage: 'Partial outage',
+  major_outage: 'Major outage',
+  no_data: 'No data',
+}
+const BANNERS: Record<StatusComponentState, string> = {
+  operational: 'All systems operational',
+  maintenance: 'Scheduled maintenance in progress',
+  degraded: 'Some systems are degraded',
+  partial_outage: 'Partial system outage',
+  major_outage: 'Major system outage',
+}
+
+const IMPACT_TONE: Record<StatusIncidentImpact, StatusComponentState> = {
+  none: 'operational',
+  minor: 'degraded',
+  major: 'partial_outage',
+  critical: 'major_outage',
+}
+
+const STYLE = `
+  :root { color-scheme: light dark; --bg: #fff; --txt: #17202a; --muted: #5d6b7a; --line: #e3e8ee; --ok: #1f9d55; --warn: #d69e2e; --partial: #dd6b20; --bad: #e53e3e; --maint: #3182ce; --none: #cbd2d9; }
+  @media (prefers-color-scheme: dark) { :root { --bg: #0f1419; --txt: #e6edf3; --muted: #8b98a5; --line: #26303a; --none: #35414d; } }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: var(--bg); color: var(--txt); font: 15px/1.5 system-ui, -apple-system, sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 40px 20px 60px; }
+  h1 { font-size: 26px; margin: 0 0 4px; } h2 { font-size: 17px; margin: 36px 0 12px; } h3 { font-size: 15px; margin: 0; }
+  p { margin: 4px 0; } .muted, time { color: var(--muted); font-size: 13px; }
+  .banner { margin: 24px 0; padding: 16px 20px; border-radius: 10px; color: #fff; font-weight: 700; font-size: 17px; }
+  .operational { --tone: var(--ok); } .degraded { --tone: var(--warn); } .partial_outage { --tone: var(--partial); }
+  .major_outage { --tone: var(--bad); } .maintenance { --tone: var(--maint); } .no_data { --tone: var(--none); }
+  .banner { background: var(--tone); } .state { color: var(--tone); font-weight: 600; font-size: 13px; }
+  .notice { border: 1px solid var(--line); border-left: 4px solid var(--tone); border-radius: 8px; padding: 14px 16px; margin-bottom: 12px; }
+  .update { margin-top: 10px; } .update b { text-transform: capitalize; }
+  .group { font-size: 12px; text-transform: uppercase; letter-spacing: .05em; color: var(--muted); margin: 20px 0 6px; }
+  .component { border: 1px solid var(--line); border-radius: 8px; padding: 14px 16px; margin-bottom: 10px; }
+  .component header { display: flex; justify-content: space-between; gap: 12px; }
+  .bars { display: flex; gap: 2px; height: 32px; margin: 10px 0 4px; }
+  .bars span { flex: 1; border-radius: 2px; background: var(--tone); }
+  .axis { display: flex; justify-content: space-between; color: var(--muted); font-size: 12px; }
+  form { display: flex; gap: 8px; flex-wrap: wrap; }
+  input { flex: 1; min-width: 220px; padding: 9px 12px; border: 1px solid var(--line); border-radius: 8px; background: transparent; color: inherit; font: inherit; }
+  button { padding: 9px 16px; border: 0; border-radius: 8px; background: var(--txt); color: var(--bg); font: inherit; font-weight: 600; cursor: pointer; }
+  footer { margin-top: 40px; border-top: 1px solid var(--line); padding-top: 16px; }
+  a { color: inherit; }
+`
+
+function escapeHtml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    (character) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[character]!,
+  )
+}
+
+function time(iso: string): string {
+  return `<time datetime="${escapeHtml(iso)}">${escapeHtml(iso.slice(0, 16).replace('T', ' '))} UTC</time>`
+}
+
+function percent(uptime: number | undefined): string {
+  return uptime === undefined ? 'no data' : `${(Math.floor(uptime * 100_000) / 1000).toFixed(uptime === 1 ? 0 : 2)}%`
+}
+
+function componentNames(snapshot: StatusPageSnapshot, ids: string[]): string {
+  return snapshot.components
+    .filter((item) => ids.includes(item.component.id))
+    .map((item) => escapeHtml(item.component.name))
+    .join(', ')
+}
+
+function incidentHtml(snapshot: StatusPageSnapshot, incident: StatusIncident): string {
+  const tone = incident.status === 'resolved' ? 'operational' : IMPACT_TONE[incident.impact]
+  const affected = componentNames(snapshot, incident.componentIds)
+  return `<article class="notice ${tone}" id="incident-${escapeHtml(incident.id)}"><h3>${escapeHtml(incident.title)}</h3>${
+    affected ? `<p class="muted">Affects ${affected}</p>` : ''
+  }${incident.updates
+    .map(
+      (item) =>
+        `<div class="update"><p><b>${escapeHtml(item.status)}</b> · ${time(item.createdAt)}</p><p>${escapeHtml(item.body)}</p></div>`,
+    )
+    .join('')}</article>`
+}
+
+function componentHtml(item: StatusComponentSnapshot): string {
+  const bars = item.uptimeDays
+    .map(
+      (day) =>
+        `<span class="${day.state}" title="${escapeHtml(day.date)}: ${escapeHtml(day.uptime === undefined ? LABELS.no_data : percent(day.uptime))}"></span>`,
+    )
+    .join('')
+  return `<section class="component ${item.state}"><header><div><h3>${escapeHtml(item.component.name)}</h3>${
+    item.component.description ? `<p class="muted">${escapeHtml(item.component.description)}</p>` : ''
+  }</div><span class="state">${LABELS[item.state]}</span></header><div class="bars" role="img" aria-label="${
+    item.uptimeDays.length
+  }-day uptime ${escapeHtml(percent(item.uptime))}">${bars}</div><div class="axis"><span>${
+    item.uptimeDays.length
+  } days ago</span><span>${escapeHtml(percent(item.uptime))} uptime</span><span>Today</span></div></section>`
+}
+
+/** The page's own URL for a file, falling back to a relative path before a public URL is set. */
+function pageUrl(snapshot: StatusPageSnapshot, file = ''): string {
+  return snapshot.page.publicUrl ? `${snapshot.page.publicUrl}/${file}` : file || './'
+}
+
+export function renderStatusPageHtml(snapshot: StatusPageSnapshot): string {
+  const { page } = snapshot
+  const groups = new Map<string, StatusComponentSnapshot[]>()
+  for (const item of snapshot.components) {
+    const key = item.component.group ?? ''
+    groups.set(key, [...(groups.get(key) ?? []), item])
+  }
+  const components = [...groups]
+    .map(
+      ([group, items]) =>
+        `${group ? `<p class="group">${escapeHtml(group)}</p>` : ''}${items.map(componentHtml).join('')}`,
+    )
+    .join('')
+  const maintenance = snapshot.maintenance
+    .map(
+      (item) =>
+        `<article class="notice maintenance"><h3>${escapeHtml(item.title)}</h3><p class="muted">${time(item.startsAt)} – ${time(item.endsAt)}${
+          item.componentIds.length ? ` · ${componentNames(snapshot, item.componentIds)}` : ''
+        }</p><p>${escapeHtml(item.body)}</p></article>`,
+    )
+    .join('')
+  const subscribe = page.subscribeOrigin
+    ? `<h2>Get updates</h2><form method="post" action="${escapeHtml(
+        `${page.subscribeOrigin}/status/${encodeURIComponent(page.slug)}/subscribe`,
+      )}"><input type="email" name="email" required placeholder="you@example.com" aria-label="Email address"><button type="submit">Subscribe</button></form><p class="muted">We send a confirmation link first. Or follow the <a href="feed.xml">RSS feed</a>.</p>`
+    : `<h2>Get updates</h2><p class="muted">Follow the <a href="feed.xml">RSS feed</a>.</p>`
+  return `<!doctype html>
+<html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
+<title>${escapeHtml(page.title)}</title>${page.description ? `<meta name="description" content="${escapeHtml(page.description)}">` : ''}
+<link rel="alternate" type="application/rss+xml" title="${escapeHtml(page.title)}" href="feed.xml">
+<style>${STYLE}</style></head>
+<body><main>
+<h1>${escapeHtml(page.title)}</h1>${page.description ? `<p class="muted">${escapeHtml(page.description)}</p>` : ''}
+<div class="banner ${snapshot.state}" role="status">${BANNERS[snapshot.state]}</div>
+${snapshot.activeIncidents.length ? `<h2>Active incidents</h2>${snapshot.activeIncidents.map((item) => incidentHtml(snapshot, item)).join('')}` : ''}
+${maintenance ? `<h2>Scheduled maintenance</h2>${maintenance}` : ''}
+<h2>Components</h2>${components}
+<h2>Past incidents</h2>${
+    snapshot.pastIncidents.length
+      ? snapshot.pastIncidents.map((item) => incidentHtml(snapshot, item)).join('')
+      : `<p class="muted">No incidents in the last ${snapshot.components[0]?.uptimeDays.length ?? 90} days.</p>`
+  }
+${subscribe}
+<footer class="muted">Updated ${time(snapshot.generatedAt)}</footer>
+</main></body></html>
+`
+}
+
+function escapeXml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    (character) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[character]!,
+  )
+}
+
+/**
+ * RSS 2.0 with one item per incident update and per maintenance notice, so a
+ * reader shows each new update rather than only the incident's first post.
+ */
+export function renderStatusPageFeed(snapshot: StatusPageSnapshot): string {
+  const items = [
+    ...[...snapshot.activeIncidents, ...snapshot.pastIncidents].flatMap((incident) =>
+      incident.updates.map((item) => ({
+        guid: `${incident.id}:${item.id}`,
+        title: `${incident.title} – ${item.status}`,
+        description: item.body,
+        link: pageUrl(snapshot, `#incident-${incident.id}`),
+        date: item.createdAt,
+      })),
+    ),
+    ...snapshot.maintenance.map((item) => ({
+      guid: `maintenance:${item.id}`,
+      title: `Scheduled maintenance: ${item.title}`,
+      description: `${item.startsAt} – ${item.endsAt}\n\n${item.body}`,
+      link: pageUrl(snapshot),
+      date: item.createdAt,
+    })),
+  ]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, 50)
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"><channel>
+<title>${escapeXml(snapshot.page.title)}</title>
+<link>${escapeXml(pageUrl(snapshot))}</link>
+<description>${escapeXml(snapshot.page.description ?? `Status updates for ${snapshot.page.title}`)}</description>
+<lastBuildDate>${new Date(snapshot.generatedAt).toUTCString()}</lastBuildDate>
+${items
+  .map(
+    (item) =>
+      `<item><title>${escapeXml(item.title)}</title><link>${escapeXml(item.link)}</link><guid isPermaLink="false">${escapeXml(item.guid)}</guid><pubDate>${new Date(item.date).toUTCString()}</pubDate><description>${escapeXml(item.description)}</description></item>`,
+  )
+  .join('\n')}
+</channel></rss>
+`
+}
+
+/** A machine-readable summary for other sites and widgets to embed. */
+export function renderStatusPageJson(snapshot: StatusPageSnapshot): string {
+  return `${JSON.stringify(
+    {
+      page: { slug: snapshot.page.slug, title: snapshot.page.title, url: snapshot.page.publicUrl },
+      generatedAt: snapshot.generatedAt,
+      state: snapshot.state,
+      components: snapshot.components.map((item) => ({
+        name: item.component.name,
+        group: item.component.group,
+        state: item.state,
+        uptime: item.uptime,
+      })),
+      incidents: snapshot.activeIncidents.map((item) => ({
+        id: item.id,
+        title: item.title,
+        impact: item.impact,
+        status: item.status,
+        startedAt: item.startedAt,
+        latest: item.updates[0]?.body,
+      })),
+      maintenance: snapshot.maintenance.map((item) => ({
+        id: item.id,
+        title: item.title,
+        startsAt: item.startsAt,
+        endsAt: item.endsAt,
+      })),
+    },
+    null,
+    2,
+  )}\n`
+}
+
+/** Every file of the published site, keyed by path. */
+export function renderStatusSite(snapshot: StatusPageSnapshot): Record<string, string> {
+  return {
+    'index.html': renderStatusPageHtml(snapshot),
+    'feed.xml': renderStatusPageFeed(snapshot),
+    'status.json': renderStatusPageJson(snapshot),
+  }
+}
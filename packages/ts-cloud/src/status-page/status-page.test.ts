@@ -0,0 +1,320 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { AlertEvaluator, AlertStore, type AlertRule } from '../alerts'
+import { ControlPlaneStore } from '../control-plane'
+import { createStatusSubscriptionEndpoint } from '../deploy/status-page-subscriptions'
+import {
+  publishStatusPage,
+  renderStatusPageFeed,
+  renderStatusPageHtml,
+  StatusPageStore,
+  StatusSubscriberNotifier,
+  type StatusPageDeployer,
+} from '.'
+
+const stores: ControlPlaneStore[] = []
+function fixture() {
+  const controlPlane = new ControlPlaneStore({ path: ':memory:' })
+  stores.push(controlPlane)
+  const clock = { now: new Date('2026-07-21T12:00:00Z') },
+    organization = controlPlane.createOrganization({ slug: 'acme', name: 'Acme' }),
+    project = controlPlane.createProject({ organizationId: organization.id, slug: 'app', name: 'App' }),
+    alerts = new AlertStore(controlPlane, { encryptionKey: 'test-key', now: () => clock.now }),
+    check = (name: string) =>
+      alerts.createHealthCheck({
+        projectId: project.id,
+        name,
+        kind: 'http',
+        target: `https://${name.toLowerCase()}.example.test/health`,
+        config: { expectedStatuses: [200] },
+        intervalSeconds: 60,
+        timeoutSeconds: 5,
+        failureThreshold: 1,
+        recoveryThreshold: 1,
+        regions: ['local'],
+        enabled: true,
+      })
+  return {
+    clock,
+    project,
+    alerts,
+    check,
+    store: new StatusPageStore(alerts, { encryptionKey: 'test-key', now: () => clock.now }),
+  }
+}
+afterEach(() => {
+  for (const store of stores.splice(0)) store.close()
+})
+function result(alerts: AlertStore, checkId: string, status: 'healthy' | 'unhealthy', checkedAt: string) {
+  alerts.appendHealthResult({ checkId, status, agent: 'local', timings: {}, checkedAt })
+}
+function healthRule(alerts: AlertStore, projectId: string, healthCheckId: string, severity: AlertRule['severity']) {
+  return alerts.createRule({
+    projectId,
+    healthCheckId,
+    name: 'Check unhealthy',
+    signal: 'health',
+    operator: 'unhealthy',
+    windowMs: 300000,
+    consecutive: 1,
+    recoveryConsecutive: 1,
+    noDataPolicy: 'pending',
+    severity,
+    groupBy: [],
+    labels: {},
+    enabled: true,
+  })
+}
+
+describe('status page state', () => {
+  it('derives component state from firing alerts, latest results, incidents, and maintenance', () => {
+    const { alerts, store, project, check } = fixture(),
+      api = check('API'),
+      web = check('Web'),
+      worker = check('Worker')
+    result(alerts, web.id, 'healthy', '2026-07-21T11:59:00Z')
+    result(alerts, worker.id, 'unhealthy', '2026-07-21T11:59:00Z')
+    new AlertEvaluator(alerts).evaluate(healthRule(alerts, project.id, api.id, 'critical'), {
+      status: 'unhealthy',
+      timestamp: '2026-07-21T11:59:00Z',
+    })
+    const page = store.createPage({
+        projectId: project.id,
+        slug: 'acme',
+        title: 'Acme',
+        components: [
+          { name: 'API', group: 'Core', healthCheckIds: [api.id] },
+          { name: 'Website', healthCheckIds: [web.id, worker.id] },
+          { name: 'Docs', healthCheckIds: [] },
+        ],
+      }),
+      [apiComponent, website, docs] = store.listComponents(page.id)
+    let snapshot = store.snapshot(page.id)
+    expect(snapshot.components.map((item) => item.state)).toEqual(['major_outage', 'partial_outage', 'operational'])
+    expect(snapshot.state).toBe('major_outage')
+
+    store.createIncident({
+      pageId: page.id,
+      title: 'Slow docs',
+      impact: 'minor',
+      componentIds: [docs!.id],
+      body: 'Looking into it.',
+    })
+    store.scheduleMaintenance({
+      pageId: page.id,
+      title: 'Database upgrade',
+      body: '',
+      componentIds: [apiComponent!.id],
+      startsAt: '2026-07-21T11:00:00Z',
+      endsAt: '2026-07-21T13:00:00Z',
+    })
+    snapshot = store.snapshot(page.id)
+    expect(snapshot.components.map((item) => item.state)).toEqual(['maintenance', 'partial_outage', 'degraded'])
+    expect(snapshot.activeIncidents).toHaveLength(1)
+    expect(snapshot.maintenance[0]?.title).toBe('Database upgrade')
+    expect(() =>
+      store.createIncident({
+        pageId: page.id,
+        title: 'Elsewhere',
+        impact: 'major',
+        componentIds: [crypto.randomUUID()],
+        body: 'x',
+      }),
+    ).toThrow()
+    expect(website!.healthCheckIds).toEqual([web.id, worker.id])
+  })
+
+  it('computes 90 daily uptime bars from health result history', () => {
+    const { alerts, store, project, check } = fixture(),
+      api = check('API')
+    for (let index = 0; index < 9; index++) result(alerts, api.id, 'healthy', `2026-07-20T0${index}:00:00Z`)
+    result(alerts, api.id, 'unhealthy', '2026-07-20T10:00:00Z')
+    result(alerts, api.id, 'healthy', '2026-04-23T00:00:00Z')
+    result(alerts, api.id, 'unhealthy', '2026-04-22T23:00:00Z')
+    const page = store.createPage({
+        projectId: project.id,
+        slug: 'acme',
+        title: 'Acme',
+        components: [{ name: 'API', healthCheckIds: [api.id] }],
+      }),
+      [component] = store.snapshot(page.id).components
+    expect(component!.uptimeDays).toHaveLength(90)
+    expect(component!.uptimeDays[0]).toEqual({ date: '2026-04-23', uptime: 1, state: 'operational' })
+    expect(component!.uptimeDays[88]).toEqual({ date: '2026-07-20', uptime: 0.9, state: 'partial_outage' })
+    expect(component!.uptimeDays[89]).toEqual({ date: '2026-07-21', state: 'no_data' })
+    expect(component!.uptime).toBeCloseTo(10 / 11)
+  })
+})
+
+describe('status page rendering', () => {
+  it('escapes authored text and lists every incident update in the feed', () => {
+    const { store, project, check } = fixture(),
+      api = check('API'),
+      page = store.createPage({
+        projectId: project.id,
+        slug: 'acme',
+        title: 'Acme <Status>',
+        publicUrl: 'https://status.acme.test',
+        components: [{ name: 'API', healthCheckIds: [api.id] }],
+      }),
+      incident = store.createIncident({
+        pageId: page.id,
+        title: 'Errors & timeouts',
+        impact: 'major',
+        componentIds: [],
+        body: '<script>alert(1)</script>',
+      })
+    store.addIncidentUpdate(incident.id, { status: 'resolved', body: 'Fixed.' })
+    const snapshot = store.snapshot(page.id),
+      html = renderStatusPageHtml(snapshot),
+      feed = renderStatusPageFeed(snapshot)
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(html).toContain('Acme &lt;Status&gt;')
+    expect(html).not.toContain('/subscribe')
+    expect(feed.match(/<item>/g)).toHaveLength(2)
+    expect(feed).toContain('Errors &amp; timeouts – resolved')
+    expect(feed).toContain(`https://status.acme.test/#incident-${incident.id}`)
+  })
+})
+
+describe('status page subscriptions', () => {
+  it('confirms email subscribers by signed link before notifying them', async () => {
+    const { store, project, check } = fixture(),
+      page = store.createPage({
+        projectId: project.id,
+        slug: 'acme',
+        title: 'Acme',
+        publicUrl: 'https://status.acme.test',
+        subscribeOrigin: 'https://cloud.acme.test',
+        components: [{ name: 'API', healthCheckIds: [check('API').id] }],
+      }),
+      emails: Array<{ to: string | string[]; text: string }> = [],
+      hooks: Array<{ url: string; body: any }> = [],
+      notifier = new StatusSubscriberNotifier(store, {
+        emailImpl: async (message) => {
+          emails.push(message)
+        },
+        fetchImpl: async (url, init) => {
+          hooks.push({ url, body: JSON.parse(init.body) })
+          return { ok: true, status: 202 }
+        },
+      }),
+      endpoint = createStatusSubscriptionEndpoint({ store, notifier }),
+      subscribe = () =>
+        endpoint(
+          new Request('https://cloud.acme.test/status/acme/subscribe', {
+            method: 'POST',
+            body: new URLSearchParams({ email: 'Reader@Example.test' }),
+          }),
+          '203.0.113.5',
+        )
+
+    const response = await subscribe()
+    expect(response?.status).toBe(303)
+    expect(response?.headers.get('location')).toBe('https://status.acme.test/?subscription=pending')
+    expect(emails).toHaveLength(1)
+    const confirm = /https:\/\/cloud\.acme\.test\/status\/acme\/confirm\?token=\S+/.exec(emails[0]!.text)![0]
+    expect(store.listSubscribers(page.id, { confirmedOnly: true })).toHaveLength(0)
+    expect((await subscribe())?.status).toBe(303)
+    expect(store.listSubscribers(page.id)).toHaveLength(1)
+
+    const [subscriber] = store.listSubscribers(page.id)
+    expect(store.confirmSubscriber(page.id, `${subscriber!.id}.forged`)).toBeUndefined()
+    expect((await endpoint(new Request(confirm), '203.0.113.5'))?.status).toBe(200)
+    expect(store.getSubscriber(subscriber!.id)?.confirmedAt).toBeDefined()
+    store.subscribe({ pageId: page.id, kind: 'webhook', target: 'https://hooks.example.test/status', confirmed: true })
+    store.subscribe({ pageId: page.id, kind: 'email', target: 'pending@example.test' })
+
+    emails.length = 0
+    const incident = store.createIncident({
+      pageId: page.id,
+      title: 'Elevated errors',
+      impact: 'major',
+      componentIds: [],
+      body: 'We are investigating.',
+    })
+    expect(await notifier.notifyIncident(incident)).toEqual({ sent: 2, failed: [] })
+    expect(emails.map((item) => item.to)).toEqual(['reader@example.test'])
+    const unsubscribe = /Unsubscribe: (\S+)/.exec(emails[0]!.text)![1]!
+    expect(hooks[0]?.body).toMatchObject({ event: 'incident.updated', incident: { title: 'Elevated errors' } })
+
+    expect((await endpoint(new Request(unsubscribe), '203.0.113.5'))?.status).toBe(200)
+    expect(store.getSubscriber(subscriber!.id)).toBeUndefined()
+    expect(await endpoint(new Request('https://cloud.acme.test/api/status-pages'), '203.0.113.5')).toBeUndefined()
+  })
+
+  it('rejects plain-HTTP webhooks and limits subscribe attempts per address', async () => {
+    const { store, project, check } = fixture(),
+      page = store.createPage({
+        projectId: project.id,
+        slug: 'acme',
+        title: 'Acme',
+        subscribeOrigin: 'https://cloud.acme.test',
+        components: [{ name: 'API', healthCheckIds: [check('API').id] }],
+      }),
+      endpoint = createStatusSubscriptionEndpoint({
+        store,
+        notifier: new StatusSubscriberNotifier(store, { emailImpl: async () => {} }),
+      })
+    expect(() => store.subscribe({ pageId: page.id, kind: 'webhook', target: 'http://hooks.example.test' })).toThrow(
+      'HTTPS',
+    )
+    const statuses: number[] = []
+    for (let index = 0; index < 6; index++) {
+      const response = await endpoint(
+        new Request('https://cloud.acme.test/status/acme/subscribe', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ email: `reader${index}@example.test` }),
+        }),
+        '203.0.113.5',
+      )
+      statuses.push(response!.status)
+    }
+    expect(statuses).toEqual([200, 200, 200, 200, 200, 429])
+  })
+})
+
+describe('status page publishing', () => {
+  it('deploys the site once, then uploads only when what readers see changes', async () => {
+    const { clock, store, project, check } = fixture(),
+      calls: string[] = [],
+      files: string[][] = [],
+      deployer: StatusPageDeployer = {
+        deployFull: async (config) => {
+          calls.push(`deploy:${config.siteName}:${config.cacheControl}`)
+          files.push((await Array.fromAsync(new Bun.Glob('*').scan(config.sourceDir))).sort())
+          return { success: true, stackName: 'status', bucket: 'status-bucket', distributionId: 'E123', message: 'ok' }
+        },
+        upload: async (options) => {
+          calls.push(`upload:${options.bucket}:${options.htmlCacheControl}`)
+          return { uploaded: 2, skipped: 1, errors: [] }
+        },
+        invalidate: async (distributionId) => {
+          calls.push(`invalidate:${distributionId}`)
+          return { invalidationId: 'I1' }
+        },
+      },
+      page = store.createPage({
+        projectId: project.id,
+        slug: 'acme',
+        title: 'Acme',
+        components: [{ name: 'API', healthCheckIds: [check('API').id] }],
+      })
+
+    const first = await publishStatusPage(store, page.id, { deployer })
+    expect(first.published).toBe(true)
+    expect(first.page.site).toMatchObject({ siteName: 'status-acme', bucket: 'status-bucket', distributionId: 'E123' })
+    expect(files[0]).toEqual(['feed.xml', 'index.html', 'status.json'])
+    expect((await publishStatusPage(store, page.id, { deployer })).published).toBe(false)
+
+    clock.now = new Date('2026-07-21T12:05:00Z')
+    store.createIncident({ pageId: page.id, title: 'Errors', impact: 'minor', componentIds: [], body: 'Looking.' })
+    expect((await publishStatusPage(store, page.id, { deployer })).published).toBe(true)
+    expect(calls).toEqual([
+      'deploy:status-acme:max-age=60, public',
+      'upload:status-bucket:max-age=60, public',
+      'invalidate:E123',
+    ])
+  })
+})
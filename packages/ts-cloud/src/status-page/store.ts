@@ -0,0 +1,667 @@
+import type { AlertStore } from '../alerts'
+import type {
+  StatusComponent,
+  StatusComponentSnapshot,
+  StatusComponentState,
+  StatusIncident,
+  StatusIncidentImpact,
+  StatusIncidentStatus,
+  StatusIncidentUpdate,
+  StatusMaintenance,
+  StatusPage,
+  StatusPageSite,
+  StatusPageSnapshot,
+  StatusSubscriber,
+  StatusSubscriberKind,
+  StatusUptimeDay,
+} from './model'
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto'
+
+type Row = Record<string, unknown>
+const json = (value: unknown, fallback: any): any => {
+  if (typeof value !== 'string') return fallback
+  try {
+    return JSON.parse(value)
+  } catch {
+    return fallback
+  }
+}
+const optional = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined)
+
+export const STATUS_UPTIME_DAYS = 90
+const IMPACTS: StatusIncidentImpact[] = ['none', 'minor', 'major', 'critical']
+const STATUSES: StatusIncidentStatus[] = ['investigating', 'identified', 'monitoring', 'resolved']
+/** Banner precedence: maintenance is planned, so any unplanned degradation outranks it. */
+const SEVERITY: Record<StatusComponentState, number> = {
+  operational: 0,
+  maintenance: 1,
+  degraded: 2,
+  partial_outage: 3,
+  major_outage: 4,
+}
+const IMPACT_STATE: Record<StatusIncidentImpact, StatusComponentState> = {
+  none: 'operational',
+  minor: 'degraded',
+  major: 'partial_outage',
+  critical: 'major_outage',
+}
+
+export function worstStatusState(states: StatusComponentState[]): StatusComponentState {
+  return states.reduce<StatusComponentState>(
+    (worst, state) => (SEVERITY[state] > SEVERITY[worst] ? state : worst),
+    'operational',
+  )
+}
+
+/** The bar colour for one day's share of healthy results. */
+export function uptimeState(uptime: number): StatusComponentState {
+  if (uptime >= 0.999) return 'operational'
+  if (uptime >= 0.99) return 'degraded'
+  if (uptime >= 0.9) return 'partial_outage'
+  return 'major_outage'
+}
+
+function page(row: Row): StatusPage {
+  return {
+    id: String(row.id),
+    projectId: String(row.project_id),
+    slug: String(row.slug),
+    title: String(row.title),
+    description: optional(row.description),
+    publicUrl: optional(row.public_url),
+    subscribeOrigin: optional(row.subscribe_origin),
+    site: json(row.site, {}),
+    autoPublish: Number(row.auto_publish) === 1,
+    publishedAt: optional(row.published_at),
+    publishedHash: optional(row.published_hash),
+    version: Number(row.version),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
+function component(row: Row): StatusComponent {
+  return {
+    id: String(row.id),
+    pageId: String(row.page_id),
+    name: String(row.name),
+    description: optional(row.description),
+    group: optional(row.group_name),
+    healthCheckIds: json(row.health_check_ids, []),
+    position: Number(row.position),
+  }
+}
+function update(row: Row): StatusIncidentUpdate {
+  return {
+    id: String(row.id),
+    incidentId: String(row.incident_id),
+    status: String(row.status) as StatusIncidentStatus,
+    body: String(row.body),
+    authorActorId: optional(row.author_actor_id),
+    createdAt: String(row.created_at),
+  }
+}
+function maintenance(row: Row): StatusMaintenance {
+  return {
+    id: String(row.id),
+    pageId: String(row.page_id),
+    title: String(row.title),
+    body: String(row.body),
+    componentIds: json(row.component_ids, []),
+    startsAt: String(row.starts_at),
+    endsAt: String(row.ends_at),
+    cancelledAt: optional(row.cancelled_at),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }
+}
+function subscriber(row: Row): StatusSubscriber {
+  return {
+    id: String(row.id),
+    pageId: String(row.page_id),
+    kind: String(row.kind) as StatusSubscriberKind,
+    target: String(row.target),
+    confirmedAt: optional(row.confirmed_at),
+    createdAt: String(row.created_at),
+  }
+}
+
+function normalizeSite(site: Partial<StatusPageSite> | undefined, slug: string): StatusPageSite {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined)
+  return {
+    siteName: text(site?.siteName) ?? `status-${slug}`,
+    region: text(site?.region),
+    domain: text(site?.domain),
+    subdomain: text(site?.subdomain),
+    baseDomain: text(site?.baseDomain),
+    bucket: text(site?.bucket),
+    distributionId: text(site?.distributionId),
+  }
+}
+function httpsUrl(value: string | undefined, label: string): string | undefined {
+  if (!value?.trim()) return undefined
+  let parsed: URL
+  try {
+    parsed = new URL(value.trim())
+  } catch {
+    throw new Error(`${label} must be an absolute URL.`)
+  }
+  if (parsed.protocol !== 'https:' && parsed.hostname !== 'localhost') throw new Error(`${label} must use HTTPS.`)
+  return parsed.toString().replace(/\/$/, '')
+}
+
+export interface StatusComponentInput {
+  name: string
+  description?: string
+  group?: string
+  healthCheckIds?: string[]
+}
+
+/**
+ * Status pages, their components, incident and maintenance notices, and
+ * subscribers. Component state and uptime are not stored: {@link snapshot}
+ * derives them from the health checks and alerts in {@link AlertStore} each
+ * time the page is rendered.
+ */
+export class StatusPageStore {
+  private readonly key: Buffer
+  constructor(
+    readonly alerts: AlertStore,
+    private readonly options: { now?: () => Date; encryptionKey: string },
+  ) {
+    this.key = createHash('sha256').update(`status-subscribers:${options.encryptionKey}`).digest()
+  }
+  private get database() {
+    return this.alerts.controlPlane.database
+  }
+  now(): string {
+    return (this.options.now?.() ?? new Date()).toISOString()
+  }
+
+  createPage(input: {
+    projectId: string
+    slug: string
+    title: string
+    description?: string
+    publicUrl?: string
+    subscribeOrigin?: string
+    site?: Partial<StatusPageSite>
+    autoPublish?: boolean
+    components: StatusComponentInput[]
+  }): StatusPage {
+    const slug = input.slug.trim().toLowerCase()
+    if (!/^[a-z0-9][a-z0-9-]{0,62}$/.test(slug))
+      throw new Error('Status page slugs use lowercase letters, digits, and dashes.')
+    if (!input.title.trim()) throw new Error('Status pages require a title.')
+    if (this.getPageBySlug(slug)) throw new Error(`Status page ${slug} already exists.`)
+    const id = crypto.randomUUID(),
+      now = this.now()
+    this.alerts.controlPlane.transaction(() => {
+      this.database.run(
+        'INSERT INTO status_pages (id,project_id,slug,title,description,public_url,subscribe_origin,site,auto_publish,version,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?,?,?)',
+        [
+          id,
+          input.projectId,
+          slug,
+          input.title.trim().slice(0, 200),
+          input.description?.trim().slice(0, 2000) || null,
+          httpsUrl(input.publicUrl, 'Public URL') ?? null,
+          httpsUrl(input.subscribeOrigin, 'Subscribe origin') ?? null,
+          JSON.stringify(normalizeSite(input.site, slug)),
+          input.autoPublish === false ? 0 : 1,
+          1,
+          now,
+          now,
+        ],
+      )
+      this.replaceComponents(id, input.projectId, input.components)
+    })
+    return this.getPage(id)!
+  }
+  updatePage(
+    id: string,
+    input: {
+      title?: string
+      description?: string
+      publicUrl?: string
+      subscribeOrigin?: string
+      site?: Partial<StatusPageSite>
+      autoPublish?: boolean
+      components?: StatusComponentInput[]
+    },
+    expectedVersion: number,
+  ): StatusPage {
+    const current = this.getPage(id)
+    if (!current) throw new Error('Status page was not found.')
+    this.alerts.controlPlane.transaction(() => {
+      const result = this.database.run(
+        'UPDATE status_pages SET title=?,description=?,public_url=?,subscribe_origin=?,site=?,auto_publish=?,version=version+1,updated_at=? WHERE id=? AND version=?',
+        [
+          (input.title?.trim() || current.title).slice(0, 200),
+          (input.description === undefined ? current.description : input.description.trim().slice(0, 2000)) || null,
+          (input.publicUrl === undefined ? current.publicUrl : httpsUrl(input.publicUrl, 'Public URL')) ?? null,
+          (input.subscribeOrigin === undefined
+            ? current.subscribeOrigin
+            : httpsUrl(input.subscribeOrigin, 'Subscribe origin')) ?? null,
+          JSON.stringify(normalizeSite({ ...current.site, ...input.site }, current.slug)),
+          (input.autoPublish ?? current.autoPublish) ? 1 : 0,
+          this.now(),
+          id,
+          expectedVersion,
+        ],
+      )
+      if (result.changes !== 1) throw new Error('Status page changed since it was loaded.')
+      if (input.components) this.replaceComponents(id, current.projectId, input.components)
+    })
+    return this.getPage(id)!
+  }
+  /**
+   * Components are replaced as a set, keeping the ids of ones whose name is
+   * unchanged so incidents and maintenance that reference them stay attached.
+   */
+  private replaceComponents(pageId: string, projectId: string, inputs: StatusComponentInput[]): void {
+    if (!inputs.length || inputs.length > 100) throw new Error('Status pages need 1-100 components.')
+    const checks = new Set(this.alerts.listHealthChecks(projectId).map((check) => check.id))
+    const existing = new Map(this.listComponents(pageId).map((item) => [item.name, item]))
+    const names = new Set<string>()
+    for (const [position, input] of inputs.entries()) {
+      const name = String(input.name ?? '')
+        .trim()
+        .slice(0, 100)
+      if (!name) throw new Error('Status components require a name.')
+      if (names.has(name)) throw new Error(`Component ${name} is listed twice.`)
+      names.add(name)
+      const healthCheckIds = [...new Set((input.healthCheckIds ?? []).map(String))]
+      const unknown = healthCheckIds.find((checkId) => !checks.has(checkId))
+      if (unknown) throw new Error(`Health check ${unknown} is not in this project.`)
+      const values = [
+        input.description?.trim().slice(0, 500) || null,
+        input.group?.trim().slice(0, 100) || null,
+        JSON.stringify(healthCheckIds),
+        position,
+      ]
+      const kept = existing.get(name)
+      if (kept)
+        this.database.run(
+          'UPDATE status_components SET description=?,group_name=?,health_check_ids=?,position=? WHERE id=?',
+          [...values, kept.id],
+        )
+      else
+        this.database.run(
+          'INSERT INTO status_components (id,page_id,name,description,group_name,health_check_ids,position) VALUES (?,?,?,?,?,?,?)',
+          [crypto.randomUUID(), pageId, name, ...values],
+        )
+    }
+    for (const [name, item] of existing)
+      if (!names.has(name)) this.database.run('DELETE FROM status_components WHERE id=?', [item.id])
+  }
+  getPage(id: string): StatusPage | undefined {
+    const row = this.database.query<Row, [string]>('SELECT * FROM status_pages WHERE id=?').get(id)
+    return row ? page(row) : undefined
+  }
+  getPageBySlug(slug: string): StatusPage | undefined {
+    const row = this.database.query<Row, [string]>('SELECT * FROM status_pages WHERE slug=?').get(slug)
+    return row ? page(row) : undefined
+  }
+  listPages(projectId: string): StatusPage[] {
+    return this.database
+      .query<Row, [string]>('SELECT * FROM status_pages WHERE project_id=? ORDER BY title')
+      .all(projectId)
+      .map(page)
+  }
+  listComponents(pageId: string): StatusComponent[] {
+    return this.database
+      .query<Row, [string]>('SELECT * FROM status_components WHERE page_id=? ORDER BY position, name')
+      .all(pageId)
+      .map(component)
+  }
+  /** Record a publish; `site` carries the bucket and distribution the first deploy created. */
+  markPublished(id: string, hash: string, site?: Partial<StatusPageSite>): StatusPage {
+    const current = this.getPage(id)
+    if (!current) throw new Error('Status page was not found.')
+    this.database.run('UPDATE status_pages SET published_at=?,published_hash=?,site=? WHERE id=?', [
+      this.now(),
+      hash,
+      JSON.stringify(normalizeSite({ ...current.site, ...site }, current.slug)),
+      id,
+    ])
+    return this.getPage(id)!
+  }
+
+  private requireComponents(pageId: string, componentIds: string[]): string[] {
+    const known = new Set(this.listComponents(pageId).map((item) => item.id))
+    const ids = [...new Set(componentIds.map(String))]
+    if (ids.some((id) => !known.has(id))) throw new Error('Notice references a component that is not on this page.')
+    return ids
+  }
+  createIncident(input: {
+    pageId: string
+    title: string
+    impact: StatusIncidentImpact
+    status?: StatusIncidentStatus
+    componentIds: string[]
+    body: string
+    authorActorId?: string
+  }): StatusIncident {
+    if (!this.getPage(input.pageId)) throw new Error('Status page was not found.')
+    if (!input.title.trim()) throw new Error('Incidents require a title.')
+    if (!IMPACTS.includes(input.impact)) throw new Error('Unsupported incident impact.')
+    const status = input.status ?? 'investigating'
+    if (!STATUSES.includes(status)) throw new Error('Unsupported incident status.')
+    const componentIds = this.requireComponents(input.pageId, input.componentIds)
+    const id = crypto.randomUUID(),
+      now = this.now()
+    this.alerts.controlPlane.transaction(() => {
+      this.database.run(
+        'INSERT INTO status_incidents (id,page_id,title,impact,status,component_ids,started_at,resolved_at,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?,?)',
+        [
+          id,
+          input.pageId,
+          input.title.trim().slice(0, 200),
+          input.impact,
+          status,
+          JSON.stringify(componentIds),
+          now,
+          status === 'resolved' ? now : null,
+          now,
+          now,
+        ],
+      )
+      this.insertUpdate(id, status, input.body, input.authorActorId, now)
+    })
+    return this.getIncident(id)!
+  }
+  /** Post an update to an incident. Its status becomes the incident's; `resolved` closes it. */
+  addIncidentUpdate(
+    incidentId: string,
+    input: { status: StatusIncidentStatus; body: string; impact?: StatusIncidentImpact; authorActorId?: string },
+  ): StatusIncident {
+    const current = this.getIncident(incidentId)
+    if (!current) throw new Error('Incident was not found.')
+    if (current.status === 'resolved') throw new Error('Resolved incidents cannot be updated.')
+    if (!STATUSES.includes(input.status)) throw new Error('Unsupported incident status.')
+    if (input.impact && !IMPACTS.includes(input.impact)) throw new Error('Unsupported incident impact.')
+    const now = this.now()
+    this.alerts.controlPlane.transaction(() => {
+      this.database.run('UPDATE status_incidents SET status=?,impact=?,resolved_at=?,updated_at=? WHERE id=?', [
+        input.status,
+        input.impact ?? current.impact,
+        input.status === 'resolved' ? now : null,
+        now,
+        incidentId,
+      ])
+      this.insertUpdate(incidentId, input.status, input.body, input.authorActorId, now)
+    })
+    return this.getIncident(incidentId)!
+  }
+  private insertUpdate(
+    incidentId: string,
+    status: StatusIncidentStatus,
+    body: string,
+    authorActorId: string | undefined,
+    now: string,
+  ): void {
+    if (!body.trim()) throw new Error('Incident updates require a message.')
+    this.database.run(
+      'INSERT INTO status_incident_updates (id,incident_id,status,body,author_actor_id,created_at) VALUES (?,?,?,?,?,?)',
+      [crypto.randomUUID(), incidentId, status, body.trim().slice(0, 5000), authorActorId ?? null, now],
+    )
+  }
+  private incident(row: Row): StatusIncident {
+    return {
+      id: String(row.id),
+      pageId: String(row.page_id),
+      title: String(row.title),
+      impact: String(row.impact) as StatusIncidentImpact,
+      status: String(row.status) as StatusIncidentStatus,
+      componentIds: json(row.component_ids, []),
+      updates: this.database
+        .query<Row, [string]>(
+          'SELECT * FROM status_incident_updates WHERE incident_id=? ORDER BY created_at DESC, rowid DESC',
+        )
+        .all(String(row.id))
+        .map(update),
+      startedAt: String(row.started_at),
+      resolvedAt: optional(row.resolved_at),
+      createdAt: String(row.created_at),
+      updatedAt: String(row.updated_at),
+    }
+  }
+  getIncident(id: string): StatusIncident | undefined {
+    const row = this.database.query<Row, [string]>('SELECT * FROM status_incidents WHERE id=?').get(id)
+    return row ? this.incident(row) : undefined
+  }
+  /** Unresolved incidents, plus ones resolved since `since`, newest first. */
+  listIncidents(pageId: string, since: string): StatusIncident[] {
+    return this.database
+      .query<Row, [string, string]>(
+        'SELECT * FROM status_incidents WHERE page_id=? AND (resolved_at IS NULL OR resolved_at>=?) ORDER BY started_at DESC LIMIT 200',
+      )
+      .all(pageId, since)
+      .map((row) => this.incident(row))
+  }
+
+  scheduleMaintenance(input: {
+    pageId: string
+    title: string
+    body: string
+    componentIds: string[]
+    startsAt: string
+    endsAt: string
+  }): StatusMaintenance {
+    if (!this.getPage(input.pageId)) throw new Error('Status page was not found.')
+    if (!input.title.trim()) throw new Error('Maintenance notices require a title.')
+    const start = new Date(input.startsAt),
+      end = new Date(input.endsAt)
+    if (!Number.isFinite(start.getTime()) || !Number.isFinite(end.getTime()) || start >= end)
+      throw new Error('Maintenance window is invalid.')
+    if (end.toISOString() <= this.now()) throw new Error('Maintenance must end in the future.')
+    const componentIds = this.requireComponents(input.pageId, input.componentIds)
+    const id = crypto.randomUUID(),
+      now = this.now()
+    this.database.run(
+      'INSERT INTO status_maintenances (id,page_id,title,body,component_ids,starts_at,ends_at,created_at,updated_at) VALUES (?,?,?,?,?,?,?,?,?)',
+      [
+        id,
+        input.pageId,
+        input.title.trim().slice(0, 200),
+        input.body.trim().slice(0, 5000),
+        JSON.stringify(componentIds),
+        start.toISOString(),
+        end.toISOString(),
+        now,
+        now,
+      ],
+    )
+    return this.getMaintenance(id)!
+  }
+  cancelMaintenance(id: string): StatusMaintenance {
+    const now = this.now()
+    this.database.run(
+      'UPDATE status_maintenances SET cancelled_at=?,updated_at=? WHERE id=? AND cancelled_at IS NULL',
+      [now, now, id],
+    )
+    const value = this.getMaintenance(id)
+    if (!value) throw new Error('Maintenance was not found.')
+    return value
+  }
+  getMaintenance(id: string): StatusMaintenance | undefined {
+    const row = this.database.query<Row, [string]>('SELECT * FROM status_maintenances WHERE id=?').get(id)
+    return row ? maintenance(row) : undefined
+  }
+  /** Maintenance not cancelled and not yet over at `at`, soonest first. */
+  listMaintenance(pageId: string, at: string): StatusMaintenance[] {
+    return this.database
+      .query<Row, [string, string]>(
+        'SELECT * FROM status_maintenances WHERE page_id=? AND cancelled_at IS NULL AND ends_at>? ORDER BY starts_at LIMIT 100',
+      )
+      .all(pageId, at)
+      .map(maintenance)
+  }
+
+  /**
+   * Add a subscriber. Email subscribers stay unconfirmed, and receive nothing
+   * but the confirmation message, until they follow its link; `confirmed`
+   * skips that for subscribers an operator adds from the dashboard.
+   * Subscribing an existing target returns the existing subscriber.
+   */
+  subscribe(input: { pageId: string; kind: StatusSubscriberKind; target: string; confirmed?: boolean }): {
+    subscriber: StatusSubscriber
+    token: string
+    created: boolean
+  } {
+    if (!this.getPage(input.pageId)) throw new Error('Status page was not found.')
+    let target = input.target.trim()
+    if (input.kind === 'email') {
+      target = target.toLowerCase()
+      if (target.length > 254 || !/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(target))
+        throw new Error('Enter a valid email address.')
+    } else if (input.kind === 'webhook') {
+      target = httpsUrl(target, 'Webhook URL') ?? ''
+      if (!target || new URL(target).protocol !== 'https:') throw new Error('Webhook URL must use HTTPS.')
+    } else throw new Error('Unsupported subscriber kind.')
+    const existing = this.database
+      .query<Row, [string, string, string]>('SELECT * FROM status_subscribers WHERE page_id=? AND kind=? AND target=?')
+      .get(input.pageId, input.kind, target)
+    if (existing) {
+      if (input.confirmed && !existing.confirmed_at)
+        this.database.run('UPDATE status_subscribers SET confirmed_at=? WHERE id=?', [this.now(), String(existing.id)])
+      const value = this.getSubscriber(String(existing.id))!
+      return { subscriber: value, token: this.subscriberToken(value.id), created: false }
+    }
+    const id = crypto.randomUUID(),
+      now = this.now()
+    this.database.run(
+      'INSERT INTO status_subscribers (id,page_id,kind,target,confirmed_at,created_at) VALUES (?,?,?,?,?,?)',
+      [id, input.pageId, input.kind, target, input.confirmed ? now : null, now],
+    )
+    return { subscriber: this.getSubscriber(id)!, token: this.subscriberToken(id), created: true }
+  }
+  /**
+   * The token in a subscriber's confirm and unsubscribe links. It is an HMAC
+   * of the subscriber id rather than a stored secret, so every message can
+   * carry a working unsubscribe link without the token being kept anywhere.
+   */
+  subscriberToken(id: string): string {
+    return `${id}.${createHmac('sha256', this.key).update(id).digest('base64url')}`
+  }
+  private subscriberFromToken(token: string): StatusSubscriber | undefined {
+    const [id = '', mac = ''] = token.split('.')
+    const expected = this.subscriberToken(id).split('.')[1]!
+    const a = Buffer.from(mac),
+      b = Buffer.from(expected)
+    if (a.length !== b.length || !timingSafeEqual(a, b)) return undefined
+    return this.getSubscriber(id)
+  }
+  confirmSubscriber(pageId: string, token: string): StatusSubscriber | undefined {
+    const value = this.subscriberFromToken(token)
+    if (!value || value.pageId !== pageId) return undefined
+    if (!value.confirmedAt)
+      this.database.run('UPDATE status_subscribers SET confirmed_at=? WHERE id=?', [this.now(), value.id])
+    return this.getSubscriber(value.id)
+  }
+  unsubscribe(pageId: string, token: string): boolean {
+    const value = this.subscriberFromToken(token)
+    if (!value || value.pageId !== pageId) return false
+    this.removeSubscriber(value.id)
+    return true
+  }
+  removeSubscriber(id: string): void {
+    this.database.run('DELETE FROM status_subscribers WHERE id=?', [id])
+  }
+  getSubscriber(id: string): StatusSubscriber | undefined {
+    const row = this.database.query<Row, [string]>('SELECT * FROM status_subscribers WHERE id=?').get(id)
+    return row ? subscriber(row) : undefined
+  }
+  listSubscribers(pageId: string, input: { confirmedOnly?: boolean } = {}): StatusSubscriber[] {
+    return this.database
+      .query<Row, [string]>(
+        `SELECT * FROM status_subscribers WHERE page_id=?${input.confirmedOnly ? ' AND confirmed_at IS NOT NULL' : ''} ORDER BY created_at`,
+      )
+      .all(pageId)
+      .map(subscriber)
+  }
+
+  /**
+   * Everything the public page shows, as of `at`. A component is in
+   * maintenance while a notice covers it; otherwise it takes the worst of the
+   * impact of open incidents naming it and the state of its health checks. A
+   * check with enabled alert rules counts as down while one of them fires
+   * (degraded for non-critical alerts), so the page follows the same
+   * thresholds that page people; a check without rules follows its latest
+   * result.
+   */
+  snapshot(pageId: string, at: Date = new Date(this.now())): StatusPageSnapshot {
+    const value = this.getPage(pageId)
+    if (!value) throw new Error('Status page was not found.')
+    const instant = at.toISOString()
+    const today = Date.parse(`${instant.slice(0, 10)}T00:00:00.000Z`)
+    const from = new Date(today - (STATUS_UPTIME_DAYS - 1) * 86_400_000).toISOString()
+    const incidents = this.listIncidents(pageId, from)
+    const active = incidents.filter((item) => item.status !== 'resolved')
+    const upcoming = this.listMaintenance(pageId, instant)
+    const rules = this.alerts.listRules(value.projectId).filter((rule) => rule.enabled && rule.healthCheckId)
+    const firing = this.alerts.listAlerts(value.projectId, { states: ['firing'], limit: 1000 })
+
+    const checkState = (checkId: string): StatusComponentState => {
+      const checkRules = rules.filter((rule) => rule.healthCheckId === checkId)
+      if (checkRules.length) {
+        const alerts = firing.filter((alert) => checkRules.some((rule) => rule.id === alert.ruleId))
+        if (alerts.some((alert) => alert.severity === 'critical')) return 'major_outage'
+        return alerts.length ? 'degraded' : 'operational'
+      }
+      return this.alerts.listHealthResults(checkId, 1)[0]?.status === 'unhealthy' ? 'major_outage' : 'operational'
+    }
+
+    const components: StatusComponentSnapshot[] = this.listComponents(pageId).map((item) => {
+      let state: StatusComponentState
+      if (upcoming.some((notice) => notice.startsAt <= instant && notice.componentIds.includes(item.id)))
+        state = 'maintenance'
+      else {
+        const checks = item.healthCheckIds.map(checkState)
+        const down = checks.filter((check) => check === 'major_outage').length
+        const health: StatusComponentState =
+          down && down === checks.length ? 'major_outage' : down ? 'partial_outage' : worstStatusState(checks)
+        state = worstStatusState([
+          health,
+          ...active.filter((incident) => incident.componentIds.includes(item.id)).map((i) => IMPACT_STATE[i.impact]),
+        ])
+      }
+
+      const counts = new Map<string, { healthy: number; unhealthy: number }>()
+      for (const checkId of item.healthCheckIds)
+        for (const day of this.alerts.dailyHealthCounts(checkId, from)) {
+          const total = counts.get(day.date) ?? { healthy: 0, unhealthy: 0 }
+          total.healthy += day.healthy
+          total.unhealthy += day.unhealthy
+          counts.set(day.date, total)
+        }
+      let healthy = 0,
+        total = 0
+      const uptimeDays: StatusUptimeDay[] = []
+      for (let index = 0; index < STATUS_UPTIME_DAYS; index++) {
+        const date = new Date(Date.parse(from) + index * 86_400_000).toISOString().slice(0, 10)
+        const day = counts.get(date)
+        const results = day ? day.healthy + day.unhealthy : 0
+        if (!day || !results) {
+          uptimeDays.push({ date, state: 'no_data' })
+          continue
+        }
+        healthy += day.healthy
+        total += results
+        const uptime = day.healthy / results
+        uptimeDays.push({ date, uptime, state: uptimeState(uptime) })
+      }
+      return { component: item, state, uptimeDays, uptime: total ? healthy / total : undefined }
+    })
+
+    return {
+      page: value,
+      generatedAt: instant,
+      state: worstStatusState(components.map((item) => item.state)),
+      components,
+      activeIncidents: active,
+      pastIncidents: incidents.filter((item) => item.status === 'resolved'),
+      maintenance: upcoming,
+    }
+  }
+}
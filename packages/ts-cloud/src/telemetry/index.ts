@@ -1,4 +1,6 @@
 export * from './model'
+export * from './otlp'
 export * from './policy'
 export * from './redaction'
 export * from './store'
+export * from './traces'
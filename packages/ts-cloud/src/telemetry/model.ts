@@ -112,6 +112,85 @@ export interface TelemetrySeries {
   comparison?: TelemetrySeriesPoint[]
 }
 
+export interface TelemetrySpan {
+  /** The span id, or the record id for trace records that carry none (one-span traces such as X-Ray summaries). */
+  spanId: string
+  parentSpanId?: string
+  recordId: string
+  traceId: string
+  name: string
+  service: string
+  source: string
+  resourceId?: string
+  start: string
+  end: string
+  /** Milliseconds from the start of the trace. */
+  offsetMs: number
+  durationMs: number
+  /** Time not covered by any child span. */
+  selfTimeMs: number
+  /** Time this span itself contributes to the critical path, excluding critical children. */
+  criticalPathMs: number
+  critical: boolean
+  depth: number
+  error: boolean
+  statusCode?: number
+  /** The span's parent was not among the stored spans (unsampled, retained elsewhere, or not yet ingested). */
+  orphan: boolean
+  childCount: number
+  attributes: Record<string, JsonValue>
+}
+
+export interface TelemetryTrace {
+  traceId: string
+  rootName: string
+  rootService: string
+  start: string
+  end: string
+  durationMs: number
+  /** Sum of the critical spans' {@link TelemetrySpan.criticalPathMs}. */
+  criticalPathMs: number
+  services: string[]
+  errorCount: number
+  /** Depth-first waterfall order: each span follows its parent, siblings by start time. */
+  spans: TelemetrySpan[]
+  truncated: boolean
+}
+
+export interface TelemetryTraceQuery extends Omit<TelemetryQuery, 'kinds' | 'names' | 'levels' | 'traceId' | 'cursor'> {
+  /** Traces with at least one span from one of these services. */
+  services?: string[]
+  /** Traces with at least one span named one of these operations. */
+  operations?: string[]
+  minDurationMs?: number
+  maxDurationMs?: number
+  /** Only traces at or above this duration percentile (1–100) of the matching traces. */
+  durationPercentile?: number
+  errorsOnly?: boolean
+  sort?: 'recent' | 'duration'
+}
+
+export interface TelemetryTraceSummary {
+  traceId: string
+  rootName: string
+  rootService: string
+  start: string
+  durationMs: number
+  spanCount: number
+  errorCount: number
+  services: string[]
+}
+
+export interface TelemetryTraceSearchResult {
+  traces: TelemetryTraceSummary[]
+  /** The duration the percentile filter resolved to, when one was requested. */
+  durationThresholdMs?: number
+  /** Matching traces before duration filters and the limit. */
+  matched: number
+  truncated: boolean
+  scannedRange: { from: string; to: string }
+}
+
 export interface TelemetryRetentionPolicy {
   rawDays: number
   downsampleAfterDays: number
@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  decodeOtlpProtobuf,
+  encodeOtlpExportResponse,
+  otlpResourceIdentity,
+  otlpTelemetryBatches,
+  parseOtlpJson,
+} from '.'
+
+// A minimal protobuf writer, enough to hand-encode OTLP fixtures.
+function varint(value: number | bigint): number[] {
+  let remaining = BigInt(value)
+  const out: number[] = []
+  while (remaining > 0x7fn) {
+    out.push(Number(remaining & 0x7fn) | 0x80)
+    remaining >>= 7n
+  }
+  out.push(Number(remaining))
+  return out
+}
+const message = (field: number, bytes: number[]) => [...varint((field << 3) | 2), ...varint(bytes.length), ...bytes]
+const string = (field: number, value: string) => message(field, [...new TextEncoder().encode(value)])
+const uint = (field: number, value: number) => [...varint(field << 3), ...varint(value)]
+const fixed64 = (field: number, value: bigint) => {
+  const bytes = new Uint8Array(8)
+  new DataView(bytes.buffer).setBigUint64(0, value, true)
+  return [...varint((field << 3) | 1), ...bytes]
+}
+const hexBytes = (field: number, value: string) => message(field, [...Buffer.from(value, 'hex')])
+const attribute = (key: string, value: string) => message(1, [...string(1, key), ...message(2, string(1, value))])
+
+const TRACE_ID = '5b8efff798038103d269b633813fc60c'
+const SPAN_ID = 'eee19b7ec3c1b174'
+
+function encodedTraceRequest(): Uint8Array {
+  const span = [
+    ...hexBytes(1, TRACE_ID),
+    ...hexBytes(2, SPAN_ID),
+    ...hexBytes(4, 'eee19b7ec3c1b173'),
+    ...string(5, 'GET /orders/:id'),
+    ...uint(6, 2),
+    ...fixed64(7, 1_784_635_200_000_000_000n),
+    ...fixed64(8, 1_784_635_200_250_000_000n),
+    ...message(9, [...string(1, 'http.route'), ...message(2, string(1, '/orders/:id'))]),
+    ...message(9, [...string(1, 'http.response.status_code'), ...message(2, uint(3, 503))]),
+    // Field 13 (dropped_events_count) is not decoded and must be skipped.
+    ...uint(13, 4),
+    ...message(15, [...string(2, 'upstream timed out'), ...uint(3, 2)]),
+  ]
+  const resource = [
+    ...attribute('service.name', 'api'),
+    ...attribute('deployment.environment.name', 'production'),
+    ...attribute('service.version', '1.4.2'),
+  ]
+  const scopeSpans = [...message(1, string(1, 'orders')), ...message(2, span)]
+  return Uint8Array.from(message(1, [...message(1, resource), ...message(2, scopeSpans)]))
+}
+
+describe('OTLP decoding', () => {
+  it('decodes protobuf trace exports into the OTLP/JSON shape', () => {
+    const request = decodeOtlpProtobuf('traces', encodedTraceRequest())
+    const span = request.resourceSpans?.[0]?.scopeSpans?.[0]?.spans?.[0]
+    expect(span).toMatchObject({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      parentSpanId: 'eee19b7ec3c1b173',
+      name: 'GET /orders/:id',
+      kind: 2,
+      startTimeUnixNano: '1784635200000000000',
+      status: { code: 2, message: 'upstream timed out' },
+    })
+    expect(span?.attributes?.[1]).toEqual({ key: 'http.response.status_code', value: { intValue: '503' } })
+  })
+
+  it('rejects truncated protobuf rather than guessing', () => {
+    expect(() => decodeOtlpProtobuf('traces', encodedTraceRequest().subarray(0, 40))).toThrow('Truncated')
+  })
+
+  it('maps spans onto trace records keyed by trace and span id', () => {
+    const [batch] = otlpTelemetryBatches('traces', decodeOtlpProtobuf('traces', encodedTraceRequest()))
+    expect(batch?.identity).toMatchObject({ service: 'api', environment: 'production', serviceVersion: '1.4.2' })
+    expect(batch?.records).toHaveLength(1)
+    expect(batch?.records[0]).toMatchObject({
+      id: `otlp:span:${TRACE_ID}:${SPAN_ID}`,
+      kind: 'trace',
+      source: 'otlp:api',
+      releaseId: '1.4.2',
+      timestamp: '2026-07-21T12:00:00.000Z',
+      durationMs: 250,
+      level: 'error',
+      statusCode: 503,
+      pathTemplate: '/orders/:id',
+      traceId: TRACE_ID,
+      attributes: { 'span.parent_id': 'eee19b7ec3c1b173', 'span.kind': 'server', 'otel.scope.name': 'orders' },
+    })
+  })
+
+  it('maps OTLP/JSON logs with severity and stable ids', () => {
+    const request = parseOtlpJson(
+      JSON.stringify({
+        resourceLogs: [
+          {
+            resource: { attributes: [{ key: 'ts_cloud.project', value: { stringValue: 'web' } }] },
+            scopeLogs: [
+              {
+                logRecords: [
+                  {
+                    timeUnixNano: '1784635200000000000',
+                    severityNumber: 17,
+                    body: { stringValue: 'payment failed' },
+                    traceId: TRACE_ID,
+                    attributes: [{ key: 'attempt', value: { intValue: '3' } }],
+                  },
+                  {
+                    observedTimeUnixNano: 1784635201000000000,
+                    severityText: 'WARNING',
+                    body: { kvlistValue: { values: [{ key: 'code', value: { intValue: 7 } }] } },
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      }),
+    )
+    const first = otlpTelemetryBatches('logs', request)
+    const second = otlpTelemetryBatches('logs', request)
+    const [error, warning] = first[0]!.records
+    expect(first[0]?.identity.project).toBe('web')
+    expect(error).toMatchObject({
+      kind: 'log',
+      level: 'error',
+      message: 'payment failed',
+      traceId: TRACE_ID,
+      attributes: { attempt: 3 },
+    })
+    expect(warning).toMatchObject({ level: 'warn', message: '{"code":7}', timestamp: '2026-07-21T12:00:01.000Z' })
+    expect(error?.id).toBe(second[0]!.records[0]!.id)
+    expect(error?.id).not.toBe(warning?.id)
+  })
+
+  it('stores one metric record per data point, distributions as their mean', () => {
+    const [batch] = otlpTelemetryBatches(
+      'metrics',
+      parseOtlpJson(
+        JSON.stringify({
+          resourceMetrics: [
+            {
+              scopeMetrics: [
+                {
+                  metrics: [
+                    {
+                      name: 'queue.depth',
+                      gauge: { dataPoints: [{ asInt: '12', timeUnixNano: '1784635200000000000' }, { asDouble: 4.5 }] },
+                    },
+                    {
+                      name: 'http.server.request.duration',
+                      unit: 's',
+                      histogram: {
+                        dataPoints: [
+                          { count: '4', sum: 2, bucketCounts: ['1', '3'], explicitBounds: [0.25], min: 0.1, max: 1 },
+                        ],
+                      },
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        }),
+      ),
+    )
+    expect(batch?.records.map((record) => [record.name, record.value])).toEqual([
+      ['queue.depth', 12],
+      ['queue.depth', 4.5],
+      ['http.server.request.duration', 0.5],
+    ])
+    expect(batch?.records[2]).toMatchObject({
+      unit: 's',
+      attributes: { 'metric.type': 'histogram', count: 4, min: 0.1, max: 1, bucketCounts: [1, 3] },
+    })
+  })
+
+  it('prefers explicit ts_cloud attributes over semantic conventions', () => {
+    expect(
+      otlpResourceIdentity({
+        'ts_cloud.project': 'web',
+        'service.namespace': 'shop',
+        'ts_cloud.environment': 'staging',
+        'deployment.environment': 'prod',
+        'service.name': 'checkout',
+        'k8s.pod.name': 'checkout-7d9',
+      }),
+    ).toMatchObject({
+      project: 'web',
+      namespace: 'shop',
+      environment: 'staging',
+      service: 'checkout',
+      instance: 'checkout-7d9',
+    })
+  })
+
+  it('encodes partial success responses, and full success as an empty message', () => {
+    expect(encodeOtlpExportResponse(0)).toHaveLength(0)
+    expect([...encodeOtlpExportResponse(2, 'too large')]).toEqual(message(1, [...uint(1, 2), ...string(2, 'too large')]))
+  })
+})
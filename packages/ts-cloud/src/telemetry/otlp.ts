@@ -0,0 +1,840 @@
+/**
+ * OpenTelemetry protocol (OTLP) decoding and mapping.
+ *
+ * Apps that already emit OTel export straight to the dashboard over OTLP/HTTP
+ * instead of through a sidecar collector. This module is the pure half of that
+ * receiver: it decodes an export request — binary protobuf or OTLP/JSON — into
+ * one shape (the OTLP/JSON one), and maps it onto {@link AppendTelemetryInput}
+ * records grouped by the resource that emitted them. Resolving a resource to a
+ * project, environment and service, authorization and persistence belong to the
+ * HTTP receiver.
+ *
+ * Only the fields ts-cloud stores are decoded; everything else in the protobuf
+ * is skipped by wire type, so newer OTLP revisions still decode.
+ */
+import type { AppendTelemetryInput } from './model'
+import { createHash } from 'node:crypto'
+import { redactTelemetryText } from './redaction'
+
+export type OtlpSignal = 'traces' | 'metrics' | 'logs'
+
+export interface OtlpAnyValue {
+  stringValue?: string
+  boolValue?: boolean
+  intValue?: string | number
+  doubleValue?: number
+  arrayValue?: { values?: OtlpAnyValue[] }
+  kvlistValue?: { values?: OtlpKeyValue[] }
+  bytesValue?: string
+}
+
+export interface OtlpKeyValue {
+  key: string
+  value?: OtlpAnyValue
+}
+
+export interface OtlpResource {
+  attributes?: OtlpKeyValue[]
+}
+
+export interface OtlpScope {
+  name?: string
+  version?: string
+  attributes?: OtlpKeyValue[]
+}
+
+export interface OtlpSpan {
+  traceId?: string
+  spanId?: string
+  parentSpanId?: string
+  name?: string
+  kind?: number
+  startTimeUnixNano?: string | number
+  endTimeUnixNano?: string | number
+  attributes?: OtlpKeyValue[]
+  events?: Array<{ timeUnixNano?: string | number; name?: string; attributes?: OtlpKeyValue[] }>
+  status?: { code?: number; message?: string }
+}
+
+export interface OtlpLogRecord {
+  timeUnixNano?: string | number
+  observedTimeUnixNano?: string | number
+  severityNumber?: number
+  severityText?: string
+  body?: OtlpAnyValue
+  attributes?: OtlpKeyValue[]
+  traceId?: string
+  spanId?: string
+  eventName?: string
+}
+
+export interface OtlpNumberDataPoint {
+  attributes?: OtlpKeyValue[]
+  startTimeUnixNano?: string | number
+  timeUnixNano?: string | number
+  asDouble?: number
+  asInt?: string | number
+}
+
+export interface OtlpHistogramDataPoint {
+  attributes?: OtlpKeyValue[]
+  startTimeUnixNano?: string | number
+  timeUnixNano?: string | number
+  count?: string | number
+  sum?: number
+  min?: number
+  max?: number
+  bucketCounts?: Array<string | number>
+  explicitBounds?: number[]
+  quantileValues?: Array<{ quantile?: number; value?: number }>
+}
+
+export interface OtlpMetric {
+  name?: string
+  description?: string
+  unit?: string
+  gauge?: { dataPoints?: OtlpNumberDataPoint[] }
+  sum?: { dataPoints?: OtlpNumberDataPoint[]; aggregationTemporality?: number; isMonotonic?: boolean }
+  histogram?: { dataPoints?: OtlpHistogramDataPoint[]; aggregationTemporality?: number }
+  exponentialHistogram?: { dataPoints?: OtlpHistogramDataPoint[]; aggregationTemporality?: number }
+  summary?: { dataPoints?: OtlpHistogramDataPoint[] }
+}
+
+export interface OtlpExportRequest {
+  resourceSpans?: Array<{ resource?: OtlpResource; scopeSpans?: Array<{ scope?: OtlpScope; spans?: OtlpSpan[] }> }>
+  resourceLogs?: Array<{ resource?: OtlpResource; scopeLogs?: Array<{ scope?: OtlpScope; logRecords?: OtlpLogRecord[] }> }>
+  resourceMetrics?: Array<{
+    resource?: OtlpResource
+    scopeMetrics?: Array<{ scope?: OtlpScope; metrics?: OtlpMetric[] }>
+  }>
+}
+
+/**
+ * What a resource says about where its telemetry belongs. `project`,
+ * `environment` and `service` are slugs, still to be resolved against the
+ * control plane.
+ */
+export interface OtlpResourceIdentity {
+  project?: string
+  /** `service.namespace`: a project slug only if one matches. */
+  namespace?: string
+  environment?: string
+  service?: string
+  serviceVersion?: string
+  instance?: string
+  deploymentId?: string
+}
+
+/** A record awaiting its project/environment/resource scope from the receiver. */
+export type OtlpTelemetryRecord = Omit<AppendTelemetryInput, 'projectId'>
+
+export interface OtlpTelemetryBatch {
+  identity: OtlpResourceIdentity
+  records: OtlpTelemetryRecord[]
+}
+
+// --- Protobuf -----------------------------------------------------------
+
+class ProtobufReader {
+  private offset = 0
+  private readonly view: DataView
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length
+  }
+
+  varint(): bigint {
+    let result = 0n
+    for (let shift = 0n; shift < 70n; shift += 7n) {
+      if (this.offset >= this.bytes.length) throw new Error('Truncated protobuf varint.')
+      const byte = this.bytes[this.offset++]!
+      result |= BigInt(byte & 0x7f) << shift
+      if ((byte & 0x80) === 0) return result
+    }
+    throw new Error('Malformed protobuf varint.')
+  }
+
+  tag(): { field: number; wire: number } {
+    const tag = Number(this.varint())
+    return { field: tag >>> 3, wire: tag & 7 }
+  }
+
+  bytesField(): Uint8Array {
+    const length = Number(this.varint())
+    if (this.offset + length > this.bytes.length) throw new Error('Truncated protobuf field.')
+    const value = this.bytes.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return value
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytesField())
+  }
+
+  fixed64(): bigint {
+    this.ensure(8)
+    const value = this.view.getBigUint64(this.offset, true)
+    this.offset += 8
+    return value
+  }
+
+  double(): number {
+    this.ensure(8)
+    const value = this.view.getFloat64(this.offset, true)
+    this.offset += 8
+    return value
+  }
+
+  skip(wire: number): void {
+    if (wire === 0) this.varint()
+    else if (wire === 1) this.advance(8)
+    else if (wire === 2) this.bytesField()
+    else if (wire === 5) this.advance(4)
+    else throw new Error(`Unsupported protobuf wire type ${wire}.`)
+  }
+
+  private advance(count: number): void {
+    this.ensure(count)
+    this.offset += count
+  }
+
+  private ensure(count: number): void {
+    if (this.offset + count > this.bytes.length) throw new Error('Truncated protobuf field.')
+  }
+}
+
+/** Decode every field of a message with `visit`, skipping the fields it does not claim. */
+function decodeMessage<T>(bytes: Uint8Array, target: T, visit: (reader: ProtobufReader, field: number, wire: number, target: T) => boolean): T {
+  const reader = new ProtobufReader(bytes)
+  while (!reader.done) {
+    const { field, wire } = reader.tag()
+    if (!visit(reader, field, wire, target)) reader.skip(wire)
+  }
+  return target
+}
+
+function hex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex')
+}
+
+function signed64(value: bigint): string {
+  return BigInt.asIntN(64, value).toString()
+}
+
+function decodeAnyValue(bytes: Uint8Array): OtlpAnyValue {
+  return decodeMessage<OtlpAnyValue>(bytes, {}, (reader, field, wire, value) => {
+    if (field === 1 && wire === 2) value.stringValue = reader.string()
+    else if (field === 2 && wire === 0) value.boolValue = reader.varint() !== 0n
+    else if (field === 3 && wire === 0) value.intValue = signed64(reader.varint())
+    else if (field === 4 && wire === 1) value.doubleValue = reader.double()
+    else if (field === 5 && wire === 2)
+      value.arrayValue = decodeMessage<{ values: OtlpAnyValue[] }>(reader.bytesField(), { values: [] }, (r, f, w, list) => {
+        if (f !== 1 || w !== 2) return false
+        list.values.push(decodeAnyValue(r.bytesField()))
+        return true
+      })
+    else if (field === 6 && wire === 2)
+      value.kvlistValue = { values: decodeKeyValues(reader.bytesField()) }
+    else if (field === 7 && wire === 2) value.bytesValue = Buffer.from(reader.bytesField()).toString('base64')
+    else return false
+    return true
+  })
+}
+
+function decodeKeyValue(bytes: Uint8Array): OtlpKeyValue {
+  return decodeMessage<OtlpKeyValue>(bytes, { key: '' }, (reader, field, wire, kv) => {
+    if (field === 1 && wire === 2) kv.key = reader.string()
+    else if (field === 2 && wire === 2) kv.value = decodeAnyValue(reader.bytesField())
+    else return false
+    return true
+  })
+}
+
+/** A `KeyValueList`: repeated KeyValue in field 1. */
+function decodeKeyValues(bytes: Uint8Array): OtlpKeyValue[] {
+  return decodeMessage<OtlpKeyValue[]>(bytes, [], (reader, field, wire, list) => {
+    if (field !== 1 || wire !== 2) return false
+    list.push(decodeKeyValue(reader.bytesField()))
+    return true
+  })
+}
+
+/** Push a repeated KeyValue field onto `target.attributes`. */
+function pushAttribute(target: { attributes?: OtlpKeyValue[] }, reader: ProtobufReader): true {
+  ;(target.attributes ??= []).push(decodeKeyValue(reader.bytesField()))
+  return true
+}
+
+function decodeResource(bytes: Uint8Array): OtlpResource {
+  return decodeMessage<OtlpResource>(bytes, {}, (reader, field, wire, resource) =>
+    field === 1 && wire === 2 ? pushAttribute(resource, reader) : false,
+  )
+}
+
+function decodeScope(bytes: Uint8Array): OtlpScope {
+  return decodeMessage<OtlpScope>(bytes, {}, (reader, field, wire, scope) => {
+    if (field === 1 && wire === 2) scope.name = reader.string()
+    else if (field === 2 && wire === 2) scope.version = reader.string()
+    else if (field === 3 && wire === 2) return pushAttribute(scope, reader)
+    else return false
+    return true
+  })
+}
+
+function decodeSpan(bytes: Uint8Array): OtlpSpan {
+  return decodeMessage<OtlpSpan>(bytes, {}, (reader, field, wire, span) => {
+    if (field === 1 && wire === 2) span.traceId = hex(reader.bytesField())
+    else if (field === 2 && wire === 2) span.spanId = hex(reader.bytesField())
+    else if (field === 4 && wire === 2) span.parentSpanId = hex(reader.bytesField())
+    else if (field === 5 && wire === 2) span.name = reader.string()
+    else if (field === 6 && wire === 0) span.kind = Number(reader.varint())
+    else if (field === 7 && wire === 1) span.startTimeUnixNano = reader.fixed64().toString()
+    else if (field === 8 && wire === 1) span.endTimeUnixNano = reader.fixed64().toString()
+    else if (field === 9 && wire === 2) return pushAttribute(span, reader)
+    else if (field === 11 && wire === 2)
+      (span.events ??= []).push(
+        decodeMessage<NonNullable<OtlpSpan['events']>[number]>(reader.bytesField(), {}, (r, f, w, event) => {
+          if (f === 1 && w === 1) event.timeUnixNano = r.fixed64().toString()
+          else if (f === 2 && w === 2) event.name = r.string()
+          else if (f === 3 && w === 2) return pushAttribute(event, r)
+          else return false
+          return true
+        }),
+      )
+    else if (field === 15 && wire === 2)
+      span.status = decodeMessage<NonNullable<OtlpSpan['status']>>(reader.bytesField(), {}, (r, f, w, status) => {
+        if (f === 2 && w === 2) status.message = r.string()
+        else if (f === 3 && w === 0) status.code = Number(r.varint())
+        else return false
+        return true
+      })
+    else return false
+    return true
+  })
+}
+
+function decodeLogRecord(bytes: Uint8Array): OtlpLogRecord {
+  return decodeMessage<OtlpLogRecord>(bytes, {}, (reader, field, wire, log) => {
+    if (field === 1 && wire === 1) log.timeUnixNano = reader.fixed64().toString()
+    else if (field === 2 && wire === 0) log.severityNumber = Number(reader.varint())
+    else if (field === 3 && wire === 2) log.severityText = reader.string()
+    else if (field === 5 && wire === 2) log.body = decodeAnyValue(reader.bytesField())
+    else if (field === 6 && wire === 2) return pushAttribute(log, reader)
+    else if (field === 9 && wire === 2) log.traceId = hex(reader.bytesField())
+    else if (field === 10 && wire === 2) log.spanId = hex(reader.bytesField())
+    else if (field === 11 && wire === 1) log.observedTimeUnixNano = reader.fixed64().toString()
+    else if (field === 12 && wire === 2) log.eventName = reader.string()
+    else return false
+    return true
+  })
+}
+
+/** Repeated fixed64/double, packed (wire 2) or not (wire 1). */
+function pushRepeated64<T>(reader: ProtobufReader, wire: number, list: T[], read: (r: ProtobufReader) => T): boolean {
+  if (wire === 1) list.push(read(reader))
+  else if (wire === 2) {
+    const packed = new ProtobufReader(reader.bytesField())
+    while (!packed.done) list.push(read(packed))
+  } else return false
+  return true
+}
+
+function decodeNumberDataPoint(bytes: Uint8Array): OtlpNumberDataPoint {
+  return decodeMessage<OtlpNumberDataPoint>(bytes, {}, (reader, field, wire, point) => {
+    if (field === 2 && wire === 1) point.startTimeUnixNano = reader.fixed64().toString()
+    else if (field === 3 && wire === 1) point.timeUnixNano = reader.fixed64().toString()
+    else if (field === 4 && wire === 1) point.asDouble = reader.double()
+    else if (field === 6 && wire === 1) point.asInt = signed64(reader.fixed64())
+    else if (field === 7 && wire === 2) return pushAttribute(point, reader)
+    else return false
+    return true
+  })
+}
+
+/**
+ * Histogram, exponential histogram and summary data points share field numbers
+ * for time, count and sum, but not for attributes, min/max, or buckets, so the
+ * numbers are passed in.
+ */
+function decodeDistributionPoint(
+  bytes: Uint8Array,
+  fields: { attributes: number; min?: number; max?: number; bucketCounts?: number; explicitBounds?: number; quantiles?: number },
+): OtlpHistogramDataPoint {
+  return decodeMessage<OtlpHistogramDataPoint>(bytes, {}, (reader, field, wire, point) => {
+    if (field === fields.attributes && wire === 2) return pushAttribute(point, reader)
+    if (field === 2 && wire === 1) point.startTimeUnixNano = reader.fixed64().toString()
+    else if (field === 3 && wire === 1) point.timeUnixNano = reader.fixed64().toString()
+    else if (field === 4 && wire === 1) point.count = reader.fixed64().toString()
+    else if (field === 5 && wire === 1) point.sum = reader.double()
+    else if (field === fields.min && wire === 1) point.min = reader.double()
+    else if (field === fields.max && wire === 1) point.max = reader.double()
+    else if (field === fields.bucketCounts)
+      return pushRepeated64(reader, wire, (point.bucketCounts ??= []), (r) => r.fixed64().toString())
+    else if (field === fields.explicitBounds)
+      return pushRepeated64(reader, wire, (point.explicitBounds ??= []), (r) => r.double())
+    else if (field === fields.quantiles && wire === 2)
+      (point.quantileValues ??= []).push(
+        decodeMessage<{ quantile?: number; value?: number }>(reader.bytesField(), {}, (r, f, w, quantile) => {
+          if (f === 1 && w === 1) quantile.quantile = r.double()
+          else if (f === 2 && w === 1) quantile.value = r.double()
+          else return false
+          return true
+        }),
+      )
+    else return false
+    return true
+  })
+}
+
+function decodeDataPoints<T>(
+  bytes: Uint8Array,
+  decodePoint: (bytes: Uint8Array) => T,
+): { dataPoints: T[]; aggregationTemporality?: number; isMonotonic?: boolean } {
+  return decodeMessage<{ dataPoints: T[]; aggregationTemporality?: number; isMonotonic?: boolean }>(
+    bytes,
+    { dataPoints: [] },
+    (reader, field, wire, series) => {
+      if (field === 1 && wire === 2) series.dataPoints.push(decodePoint(reader.bytesField()))
+      else if (field === 2 && wire === 0) series.aggregationTemporality = Number(reader.varint())
+      else if (field === 3 && wire === 0) series.isMonotonic = reader.varint() !== 0n
+      else return false
+      return true
+    },
+  )
+}
+
+function decodeMetric(bytes: Uint8Array): OtlpMetric {
+  return decodeMessage<OtlpMetric>(bytes, {}, (reader, field, wire, metric) => {
+    if (wire !== 2) return false
+    if (field === 1) metric.name = reader.string()
+    else if (field === 2) metric.description = reader.string()
+    else if (field === 3) metric.unit = reader.string()
+    else if (field === 5) metric.gauge = decodeDataPoints(reader.bytesField(), decodeNumberDataPoint)
+    else if (field === 7) metric.sum = decodeDataPoints(reader.bytesField(), decodeNumberDataPoint)
+    else if (field === 9)
+      metric.histogram = decodeDataPoints(reader.bytesField(), (point) =>
+        decodeDistributionPoint(point, { attributes: 9, bucketCounts: 6, explicitBounds: 7, min: 11, max: 12 }),
+      )
+    else if (field === 10)
+      metric.exponentialHistogram = decodeDataPoints(reader.bytesField(), (point) =>
+        decodeDistributionPoint(point, { attributes: 1, min: 12, max: 13 }),
+      )
+    else if (field === 11)
+      metric.summary = decodeDataPoints(reader.bytesField(), (point) =>
+        decodeDistributionPoint(point, { attributes: 7, quantiles: 6 }),
+      )
+    else return false
+    return true
+  })
+}
+
+/**
+ * Decode the three levels every OTLP export request shares —
+ * `Resource* { resource = 1; Scope* { scope = 1; items = 2 } = 2 }` — with
+ * `decodeItem` for the signal's leaf messages.
+ */
+function decodeResourceLevel<T>(
+  bytes: Uint8Array,
+  decodeItem: (bytes: Uint8Array) => T,
+): Array<{ resource?: OtlpResource; scopes: Array<{ scope?: OtlpScope; items: T[] }> }> {
+  return decodeMessage<Array<{ resource?: OtlpResource; scopes: Array<{ scope?: OtlpScope; items: T[] }> }>>(
+    bytes,
+    [],
+    (reader, field, wire, resources) => {
+      if (field !== 1 || wire !== 2) return false
+      resources.push(
+        decodeMessage<{ resource?: OtlpResource; scopes: Array<{ scope?: OtlpScope; items: T[] }> }>(
+          reader.bytesField(),
+          { scopes: [] },
+          (r, f, w, entry) => {
+            if (f === 1 && w === 2) entry.resource = decodeResource(r.bytesField())
+            else if (f === 2 && w === 2)
+              entry.scopes.push(
+                decodeMessage<{ scope?: OtlpScope; items: T[] }>(r.bytesField(), { items: [] }, (sr, sf, sw, scope) => {
+                  if (sf === 1 && sw === 2) scope.scope = decodeScope(sr.bytesField())
+                  else if (sf === 2 && sw === 2) scope.items.push(decodeItem(sr.bytesField()))
+                  else return false
+                  return true
+                }),
+              )
+            else return false
+            return true
+          },
+        ),
+      )
+      return true
+    },
+  )
+}
+
+/** Decode a binary protobuf `Export{Trace,Metrics,Logs}ServiceRequest` into the OTLP/JSON shape. */
+export function decodeOtlpProtobuf(signal: OtlpSignal, bytes: Uint8Array): OtlpExportRequest {
+  if (signal === 'traces')
+    return {
+      resourceSpans: decodeResourceLevel(bytes, decodeSpan).map(({ resource, scopes }) => ({
+        resource,
+        scopeSpans: scopes.map(({ scope, items }) => ({ scope, spans: items })),
+      })),
+    }
+  if (signal === 'logs')
+    return {
+      resourceLogs: decodeResourceLevel(bytes, decodeLogRecord).map(({ resource, scopes }) => ({
+        resource,
+        scopeLogs: scopes.map(({ scope, items }) => ({ scope, logRecords: items })),
+      })),
+    }
+  return {
+    resourceMetrics: decodeResourceLevel(bytes, decodeMetric).map(({ resource, scopes }) => ({
+      resource,
+      scopeMetrics: scopes.map(({ scope, items }) => ({ scope, metrics: items })),
+    })),
+  }
+}
+
+/**
+ * Parse an OTLP/JSON export request. The JSON encoding is the protobuf one with
+ * lowerCamelCase keys, hex trace/span ids and 64-bit integers as strings, which
+ * is the shape {@link decodeOtlpProtobuf} already produces.
+ */
+export function parseOtlpJson(text: string): OtlpExportRequest {
+  const parsed = JSON.parse(text) as unknown
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed))
+    throw new Error('OTLP/JSON requests must be a JSON object.')
+  return parsed as OtlpExportRequest
+}
+
+function writeVarint(out: number[], value: number): void {
+  let remaining = value
+  while (remaining > 0x7f) {
+    out.push((remaining & 0x7f) | 0x80)
+    remaining = Math.floor(remaining / 128)
+  }
+  out.push(remaining)
+}
+
+function writeBytesField(out: number[], field: number, bytes: Uint8Array | number[]): void {
+  writeVarint(out, (field << 3) | 2)
+  writeVarint(out, bytes.length)
+  out.push(...bytes)
+}
+
+/**
+ * Encode an `Export*ServiceResponse`. Only a partial success carries fields:
+ * `partial_success = 1 { rejected_<items> = 1; error_message = 2 }`, and an
+ * empty message means full success.
+ */
+export function encodeOtlpExportResponse(rejected: number, errorMessage?: string): Uint8Array {
+  if (!rejected && !errorMessage) return new Uint8Array()
+  const partial: number[] = []
+  if (rejected) {
+    writeVarint(partial, 1 << 3)
+    writeVarint(partial, rejected)
+  }
+  if (errorMessage) writeBytesField(partial, 2, new TextEncoder().encode(errorMessage))
+  const out: number[] = []
+  writeBytesField(out, 1, partial)
+  return Uint8Array.from(out)
+}
+
+/** Encode a `google.rpc.Status { code = 1; message = 2 }`, the OTLP/HTTP protobuf error body. */
+export function encodeOtlpStatus(code: number, message: string): Uint8Array {
+  const out: number[] = []
+  writeVarint(out, 1 << 3)
+  writeVarint(out, code)
+  writeBytesField(out, 2, new TextEncoder().encode(message))
+  return Uint8Array.from(out)
+}
+
+// --- Mapping ------------------------------------------------------------
+
+const MAX_SPAN_EVENTS = 32
+const SPAN_KINDS = ['unspecified', 'internal', 'server', 'client', 'producer', 'consumer']
+
+function anyValue(value: OtlpAnyValue | undefined): unknown {
+  if (!value) return null
+  if (value.stringValue !== undefined) return value.stringValue
+  if (value.boolValue !== undefined) return value.boolValue
+  if (value.intValue !== undefined) {
+    const parsed = Number(value.intValue)
+    return Number.isSafeInteger(parsed) ? parsed : String(value.intValue)
+  }
+  if (value.doubleValue !== undefined) return Number(value.doubleValue)
+  if (value.arrayValue) return (value.arrayValue.values ?? []).map(anyValue)
+  if (value.kvlistValue) return otlpAttributes(value.kvlistValue.values)
+  if (value.bytesValue !== undefined) return value.bytesValue
+  return null
+}
+
+/** Flatten OTLP key/value attributes into a plain object. */
+export function otlpAttributes(attributes: OtlpKeyValue[] | undefined): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const attribute of attributes ?? [])
+    if (attribute && typeof attribute.key === 'string') result[attribute.key] = anyValue(attribute.value)
+  return result
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : undefined
+}
+
+/**
+ * Read the resource attributes that place telemetry. The `ts_cloud.*` keys are
+ * explicit and win; otherwise the OTel semantic conventions are used
+ * (`deployment.environment.name` — or its deprecated `deployment.environment`
+ * — as the environment, `service.name` as the service).
+ */
+export function otlpResourceIdentity(attributes: Record<string, unknown>): OtlpResourceIdentity {
+  return {
+    project: text(attributes['ts_cloud.project']),
+    namespace: text(attributes['service.namespace']),
+    environment:
+      text(attributes['ts_cloud.environment']) ??
+      text(attributes['deployment.environment.name']) ??
+      text(attributes['deployment.environment']),
+    service: text(attributes['ts_cloud.service']) ?? text(attributes['service.name']),
+    serviceVersion: text(attributes['service.version']),
+    instance:
+      text(attributes['service.instance.id']) ?? text(attributes['k8s.pod.name']) ?? text(attributes['host.name']),
+    deploymentId: text(attributes['ts_cloud.deployment.id']),
+  }
+}
+
+function nanos(value: string | number | undefined): bigint | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  try {
+    const parsed = BigInt(typeof value === 'number' ? Math.trunc(value) : value)
+    return parsed > 0n ? parsed : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function isoFromNanos(value: bigint | undefined, fallback: Date): string {
+  return value === undefined ? fallback.toISOString() : new Date(Number(value / 1_000_000n)).toISOString()
+}
+
+/** Normalize an OTLP/JSON trace or span id: hex, lowercase, and absent when all zero. */
+function otlpId(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  const normalized = /^[0-9a-f]+$/i.test(value) ? value.toLowerCase() : Buffer.from(value, 'base64').toString('hex')
+  return /^0*$/.test(normalized) ? undefined : normalized
+}
+
+function stableId(prefix: string, value: unknown): string {
+  return `${prefix}:${createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 32)}`
+}
+
+function severityLevel(severityNumber: number | undefined, severityText: string | undefined): string {
+  const label = severityText?.trim().toLowerCase()
+  if (label) return label === 'warning' ? 'warn' : label
+  const severity = severityNumber ?? 0
+  if (severity >= 21) return 'fatal'
+  if (severity >= 17) return 'error'
+  if (severity >= 13) return 'warn'
+  if (severity >= 9) return 'info'
+  if (severity >= 5) return 'debug'
+  return severity >= 1 ? 'trace' : 'info'
+}
+
+function numeric(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' || typeof value === 'number' ? Number(value) : Number.NaN
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function scopeAttributes(scope: OtlpScope | undefined): Record<string, unknown> {
+  return scope?.name ? { 'otel.scope.name': scope.name, 'otel.scope.version': scope.version } : {}
+}
+
+function spanRecord(
+  span: OtlpSpan,
+  scope: OtlpScope | undefined,
+  base: Pick<OtlpTelemetryRecord, 'source' | 'releaseId' | 'workloadId' | 'deploymentId'>,
+  now: Date,
+): OtlpTelemetryRecord {
+  const attributes = otlpAttributes(span.attributes)
+  const traceId = otlpId(span.traceId)
+  const spanId = otlpId(span.spanId)
+  const start = nanos(span.startTimeUnixNano)
+  const end = nanos(span.endTimeUnixNano)
+  const statusCode = numeric(attributes['http.response.status_code'] ?? attributes['http.status_code'])
+  const kind = SPAN_KINDS[span.kind ?? 0] ?? 'unspecified'
+  const failed = span.status?.code === 2 || (kind === 'server' && statusCode !== undefined && statusCode >= 500)
+  return {
+    ...base,
+    id: traceId && spanId ? `otlp:span:${traceId}:${spanId}` : stableId('otlp:span', span),
+    kind: 'trace',
+    name: redactTelemetryText(span.name || 'span'),
+    timestamp: isoFromNanos(start, now),
+    durationMs: start !== undefined && end !== undefined && end >= start ? Number(end - start) / 1_000_000 : undefined,
+    level: failed ? 'error' : 'info',
+    message: span.status?.message || undefined,
+    statusCode,
+    method: text(attributes['http.request.method'] ?? attributes['http.method']),
+    host: text(attributes['server.address'] ?? attributes['http.host']),
+    pathTemplate: text(attributes['http.route'] ?? attributes['url.path'] ?? attributes['http.target']),
+    traceId,
+    requestId: text(attributes['http.request.header.x-request-id']),
+    attributes: {
+      ...attributes,
+      ...scopeAttributes(scope),
+      'span.id': spanId,
+      'span.parent_id': otlpId(span.parentSpanId),
+      'span.kind': kind,
+      'span.status_code': span.status?.code ?? 0,
+      ...(span.events?.length
+        ? {
+            'span.events': span.events.slice(0, MAX_SPAN_EVENTS).map((event) => ({
+              name: event.name ?? '',
+              timestamp: isoFromNanos(nanos(event.timeUnixNano), now),
+              attributes: otlpAttributes(event.attributes),
+            })),
+          }
+        : {}),
+    },
+  }
+}
+
+function logRecord(
+  log: OtlpLogRecord,
+  scope: OtlpScope | undefined,
+  base: Pick<OtlpTelemetryRecord, 'source' | 'releaseId' | 'workloadId' | 'deploymentId'>,
+  resourceAttributes: Record<string, unknown>,
+  now: Date,
+): OtlpTelemetryRecord {
+  const body = anyValue(log.body)
+  const attributes = otlpAttributes(log.attributes)
+  return {
+    ...base,
+    id: stableId('otlp:log', [resourceAttributes, log]),
+    kind: 'log',
+    name: redactTelemetryText(log.eventName || scope?.name || 'log'),
+    timestamp: isoFromNanos(nanos(log.timeUnixNano) ?? nanos(log.observedTimeUnixNano), now),
+    level: severityLevel(log.severityNumber, log.severityText),
+    message: typeof body === 'string' ? body : body == null ? undefined : JSON.stringify(body),
+    traceId: otlpId(log.traceId),
+    requestId: text(attributes['http.request.header.x-request-id']),
+    attributes: { ...attributes, ...scopeAttributes(scope), 'span.id': otlpId(log.spanId) },
+  }
+}
+
+function metricRecords(
+  metric: OtlpMetric,
+  scope: OtlpScope | undefined,
+  base: Pick<OtlpTelemetryRecord, 'source' | 'releaseId' | 'workloadId' | 'deploymentId'>,
+  resourceAttributes: Record<string, unknown>,
+  now: Date,
+): OtlpTelemetryRecord[] {
+  const name = redactTelemetryText(metric.name || 'metric')
+  const unit = metric.unit || undefined
+  const record = (
+    type: string,
+    point: OtlpNumberDataPoint | OtlpHistogramDataPoint,
+    value: number | undefined,
+    extra: Record<string, unknown>,
+  ): OtlpTelemetryRecord => ({
+    ...base,
+    id: stableId('otlp:metric', [resourceAttributes, name, point]),
+    kind: 'metric',
+    name,
+    unit,
+    value,
+    timestamp: isoFromNanos(nanos(point.timeUnixNano), now),
+    attributes: { ...otlpAttributes(point.attributes), ...scopeAttributes(scope), 'metric.type': type, ...extra },
+  })
+  const distribution = (type: string, point: OtlpHistogramDataPoint, extra: Record<string, unknown> = {}) => {
+    const count = numeric(point.count) ?? 0
+    const sum = numeric(point.sum)
+    // A distribution is stored as its mean, so it charts and aggregates like
+    // any other series; the shape rides along in the attributes.
+    return record(type, point, count > 0 && sum !== undefined ? sum / count : undefined, {
+      count,
+      sum,
+      min: numeric(point.min),
+      max: numeric(point.max),
+      ...extra,
+    })
+  }
+  const records: OtlpTelemetryRecord[] = []
+  for (const point of metric.gauge?.dataPoints ?? [])
+    records.push(record('gauge', point, numeric(point.asDouble ?? point.asInt), {}))
+  for (const point of metric.sum?.dataPoints ?? [])
+    records.push(
+      record('sum', point, numeric(point.asDouble ?? point.asInt), {
+        monotonic: metric.sum?.isMonotonic === true,
+        temporality: metric.sum?.aggregationTemporality === 1 ? 'delta' : 'cumulative',
+      }),
+    )
+  for (const point of metric.histogram?.dataPoints ?? [])
+    records.push(
+      distribution('histogram', point, {
+        bucketCounts: (point.bucketCounts ?? []).map((count) => numeric(count) ?? 0),
+        explicitBounds: point.explicitBounds ?? [],
+      }),
+    )
+  for (const point of metric.exponentialHistogram?.dataPoints ?? [])
+    records.push(distribution('exponential_histogram', point))
+  for (const point of metric.summary?.dataPoints ?? [])
+    records.push(
+      distribution('summary', point, {
+        quantiles: (point.quantileValues ?? []).map((quantile) => ({
+          quantile: numeric(quantile.quantile) ?? 0,
+          value: numeric(quantile.value),
+        })),
+      }),
+    )
+  return records
+}
+
+/**
+ * Map an export request onto telemetry records, one batch per OTLP resource.
+ * Records carry no project yet: the receiver resolves each batch's
+ * {@link OtlpResourceIdentity} and authorizes it before anything is stored.
+ */
+export function otlpTelemetryBatches(
+  signal: OtlpSignal,
+  request: OtlpExportRequest,
+  now: Date = new Date(),
+): OtlpTelemetryBatch[] {
+  const resources =
+    signal === 'traces'
+      ? (request.resourceSpans ?? []).map((entry) => ({
+          resource: entry?.resource,
+          scopes: (entry?.scopeSpans ?? []).map((scope) => ({ scope: scope?.scope, spans: scope?.spans ?? [] })),
+        }))
+      : signal === 'logs'
+        ? (request.resourceLogs ?? []).map((entry) => ({
+            resource: entry?.resource,
+            scopes: (entry?.scopeLogs ?? []).map((scope) => ({ scope: scope?.scope, logs: scope?.logRecords ?? [] })),
+          }))
+        : (request.resourceMetrics ?? []).map((entry) => ({
+            resource: entry?.resource,
+            scopes: (entry?.scopeMetrics ?? []).map((scope) => ({ scope: scope?.scope, metrics: scope?.metrics ?? [] })),
+          }))
+  if (!Array.isArray(resources)) throw new Error('OTLP request is malformed.')
+
+  return resources.map(({ resource, scopes }) => {
+    const resourceAttributes = otlpAttributes(resource?.attributes)
+    const identity = otlpResourceIdentity(resourceAttributes)
+    const base = {
+      source: `otlp:${identity.service ?? 'unknown'}`,
+      releaseId: identity.serviceVersion,
+      workloadId: identity.instance,
+      deploymentId: identity.deploymentId,
+    }
+    const records: OtlpTelemetryRecord[] = []
+    for (const scope of scopes as Array<{ scope?: OtlpScope; spans?: OtlpSpan[]; logs?: OtlpLogRecord[]; metrics?: OtlpMetric[] }>) {
+      for (const span of scope.spans ?? []) records.push(spanRecord(span, scope.scope, base, now))
+      for (const log of scope.logs ?? []) records.push(logRecord(log, scope.scope, base, resourceAttributes, now))
+      for (const metric of scope.metrics ?? [])
+        records.push(...metricRecords(metric, scope.scope, base, resourceAttributes, now))
+    }
+    // Trace views group spans by service, so each record keeps its own.
+    if (identity.service)
+      for (const record of records) record.attributes = { 'service.name': identity.service, ...record.attributes }
+    return { identity, records }
+  })
+}
@@ -1,5 +1,6 @@
 import type { ControlPlaneStore, JsonValue } from '../control-plane'
-import type { TelemetryPolicy } from './model'
+import type { AppendTelemetryInput, TelemetryPolicy } from './model'
+import { createHash } from 'node:crypto'
 
 export const DEFAULT_TELEMETRY_POLICY: Readonly<TelemetryPolicy> = Object.freeze({
   rawDays: 30,
@@ -69,3 +70,19 @@ export function saveTelemetryPolicy(store: ControlPlaneStore, projectId: string,
 export function telemetryEstimatedMonthlyCost(estimatedMonthlyBytes: number, policy: TelemetryPolicy): number {
   return Number(((Math.max(0, estimatedMonthlyBytes) / 1024 ** 3) * policy.estimatedStorageUsdPerGbMonth).toFixed(4))
 }
+
+/**
+ * Whether `policy` keeps `record`: disabled signal kinds are dropped, and logs,
+ * traces and request analytics are sampled on a stable key so every record of
+ * one request or trace is kept or dropped together.
+ */
+export function retainedByTelemetryPolicy(record: AppendTelemetryInput, policy: TelemetryPolicy): boolean {
+  if (record.kind === 'log' && !policy.collectLogs) return false
+  if (record.kind === 'trace' && !policy.collectTraces) return false
+  if ((record.kind === 'request' || record.name.startsWith('request.')) && !policy.collectRequestAnalytics) return false
+  if (!['log', 'trace', 'request'].includes(record.kind) && !record.name.startsWith('request.')) return true
+  const samplingKey =
+    record.requestId ?? record.traceId ?? `${record.source}\0${record.workloadId ?? ''}\0${record.timestamp}`
+  const bucket = Number.parseInt(createHash('sha256').update(samplingKey).digest('hex').slice(0, 8), 16) / 0xffffffff
+  return bucket <= policy.samplingRate
+}
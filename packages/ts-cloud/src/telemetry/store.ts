@@ -1,13 +1,15 @@
 import type { SQLQueryBindings } from 'bun:sqlite'
 import type { ControlPlaneStore, JsonValue } from '../control-plane'
-import type { AppendTelemetryInput, SavedTelemetryQuery, TelemetryAggregation, TelemetryCollectionStatus, TelemetryQuery, TelemetryQueryResult, TelemetryRecord, TelemetryRetentionPolicy, TelemetrySeries, TelemetrySeriesPoint, TelemetrySeriesQuery, TelemetryTailResult } from './model'
+import type { AppendTelemetryInput, SavedTelemetryQuery, TelemetryAggregation, TelemetryCollectionStatus, TelemetryQuery, TelemetryQueryResult, TelemetryRecord, TelemetryRetentionPolicy, TelemetrySeries, TelemetrySeriesPoint, TelemetrySeriesQuery, TelemetryTailResult, TelemetryTrace, TelemetryTraceQuery, TelemetryTraceSearchResult } from './model'
 import type { TelemetryRedactionOptions } from './redaction'
 import { pathTemplate, redactTelemetryText, redactTelemetryValue } from './redaction'
+import { assembleTelemetryTrace, MAX_TRACE_SPANS, summarizeTelemetryTrace } from './traces'
 
 type Row = Record<string, unknown>
 const MAX_RECORD_BYTES = 64 * 1024
 const MAX_QUERY_RANGE_MS = 31 * 24 * 60 * 60 * 1000
 const KINDS = new Set(['metric', 'log', 'trace', 'request', 'event'])
+const MAX_TRACE_CANDIDATES = 1_000
 
 function optional(value: unknown): string | undefined {
   return typeof value === 'string' ? value : undefined
@@ -338,6 +340,59 @@ export class TelemetryStore {
     return { records, cursor: telemetryCursor(records.at(-1)) ?? after, truncated: rows.length > limit }
   }
 
+  /**
+   * Count `request` records in `[from, to)` for an SLO, without loading them:
+   * every request with a status code, and the bad ones, which are 5xx
+   * responses or, given a latency threshold, requests slower than it. For
+   * latency, requests without a duration are not counted at all.
+   */
+  countRequests(input: {
+    projectId: string
+    environmentId?: string
+    resourceIds?: string[]
+    host?: string
+    pathPrefix?: string
+    method?: string
+    from: string
+    to: string
+    latencyThresholdMs?: number
+  }): { total: number; bad: number } {
+    const clauses = ["kind='request'", 'project_id=?', 'timestamp>=?', 'timestamp<?', 'status_code IS NOT NULL']
+    const bindings: SQLQueryBindings[] = [
+      input.projectId,
+      instant(input.from, 'from').toISOString(),
+      instant(input.to, 'to').toISOString(),
+    ]
+    if (input.environmentId) {
+      clauses.push('environment_id=?')
+      bindings.push(input.environmentId)
+    }
+    const resourceIds = [...new Set(input.resourceIds ?? [])].slice(0, 100)
+    if (resourceIds.length) {
+      clauses.push(`resource_id IN (${resourceIds.map(() => '?').join(',')})`)
+      bindings.push(...resourceIds)
+    }
+    if (input.host) {
+      clauses.push('host=?')
+      bindings.push(input.host)
+    }
+    if (input.method) {
+      clauses.push('method=?')
+      bindings.push(input.method)
+    }
+    if (input.pathPrefix) {
+      clauses.push('substr(path_template,1,?)=?')
+      bindings.push(input.pathPrefix.length, input.pathPrefix)
+    }
+    if (input.latencyThresholdMs != null) clauses.push('duration_ms IS NOT NULL')
+    const row = this.controlPlane.database
+      .query<Row, SQLQueryBindings[]>(
+        `SELECT COUNT(*) AS total, COALESCE(SUM(status_code>=500 OR duration_ms>?),0) AS bad FROM telemetry_records WHERE ${clauses.join(' AND ')}`,
+      )
+      .get(input.latencyThresholdMs ?? Number.MAX_VALUE, ...bindings)
+    return { total: Number(row?.total ?? 0), bad: Number(row?.bad ?? 0) }
+  }
+
   series(input: TelemetrySeriesQuery): TelemetrySeries[] {
     const { from, to } = range(input)
     const bucketMs = Math.min(24 * 60 * 60 * 1000, Math.max(1_000, Math.floor(input.bucketMs)))
@@ -401,6 +456,124 @@ export class TelemetryStore {
     })
   }
 
+  /** Every stored span of one trace, assembled into a waterfall. */
+  trace(input: TelemetryQuery & { traceId: string }): TelemetryTrace | undefined {
+    const result = this.query({ ...input, kinds: ['trace'], cursor: undefined, limit: MAX_TRACE_SPANS })
+    return assembleTelemetryTrace(result.records, result.truncated)
+  }
+
+  /**
+   * Find traces in a window. Service, operation, and error filters select
+   * traces with at least one matching span; durations are whole-trace and
+   * computed from every span in scope, not just the matching ones.
+   */
+  searchTraces(input: TelemetryTraceQuery): TelemetryTraceSearchResult {
+    const { from, to } = range(input)
+    const limit = Math.min(500, Math.max(1, Math.floor(input.limit ?? 50)))
+    const scope = ['project_id=?', "kind='trace'", 'trace_id IS NOT NULL']
+    const scopeBindings: SQLQueryBindings[] = [input.projectId]
+    const addScalar = (column: string, value?: string) => {
+      if (value) {
+        scope.push(`${column}=?`)
+        scopeBindings.push(value)
+      }
+    }
+    const addList = (column: string, values?: string[]) => {
+      const bounded = [...new Set(values ?? [])].slice(0, 100)
+      if (bounded.length) {
+        scope.push(`${column} IN (${bounded.map(() => '?').join(',')})`)
+        scopeBindings.push(...bounded)
+      }
+    }
+    addScalar('environment_id', input.environmentId)
+    addList('resource_id', input.resourceIds)
+    addList('source', input.sources)
+    addScalar('request_id', input.requestId)
+    addScalar('deployment_id', input.deploymentId)
+    addScalar('release_id', input.releaseId)
+    addScalar('workload_id', input.workloadId)
+
+    const matches = [...scope, 'timestamp>=?', 'timestamp<?']
+    const matchBindings: SQLQueryBindings[] = [...scopeBindings, from.toISOString(), to.toISOString()]
+    const services = [...new Set(input.services ?? [])].slice(0, 100)
+    if (services.length) {
+      matches.push(
+        `COALESCE(json_extract(attributes, '$."service.name"'), source) IN (${services.map(() => '?').join(',')})`,
+      )
+      matchBindings.push(...services)
+    }
+    const operations = [...new Set(input.operations ?? [])].slice(0, 100)
+    if (operations.length) {
+      matches.push(`name IN (${operations.map(() => '?').join(',')})`)
+      matchBindings.push(...operations)
+    }
+    if (input.errorsOnly) matches.push("(level='error' OR status_code>=500)")
+    if (input.text) {
+      matches.push('(message LIKE ? OR name LIKE ?)')
+      matchBindings.push(`%${input.text.slice(0, 256)}%`, `%${input.text.slice(0, 256)}%`)
+    }
+    const candidates = this.controlPlane.database
+      .query<Row, SQLQueryBindings[]>(
+        `SELECT trace_id FROM telemetry_records WHERE ${matches.join(' AND ')} GROUP BY trace_id ORDER BY MAX(timestamp) DESC LIMIT ?`,
+      )
+      .all(...matchBindings, MAX_TRACE_CANDIDATES + 1)
+      .map((row) => String(row.trace_id))
+    const truncated = candidates.length > MAX_TRACE_CANDIDATES
+    const traceIds = candidates.slice(0, MAX_TRACE_CANDIDATES)
+
+    // A matching span is enough to select a trace, but its duration and
+    // services come from all of its spans, including those outside the window.
+    // The span cap applies to each trace, as it does in `trace`; one span over it
+    // tells that the trace was cut short.
+    const spans = new Map<string, TelemetryRecord[]>()
+    for (let offset = 0; offset < traceIds.length; offset += 500) {
+      const chunk = traceIds.slice(offset, offset + 500)
+      const rows = this.controlPlane.database
+        .query<Row, SQLQueryBindings[]>(
+          `SELECT * FROM (
+            SELECT *, ROW_NUMBER() OVER (PARTITION BY trace_id ORDER BY timestamp, id) AS span_rank FROM telemetry_records
+            WHERE ${scope.join(' AND ')} AND trace_id IN (${chunk.map(() => '?').join(',')})
+          ) WHERE span_rank <= ?`,
+        )
+        .all(...scopeBindings, ...chunk, MAX_TRACE_SPANS + 1)
+      for (const row of rows) {
+        const record = mapRecord(row)
+        const records = spans.get(record.traceId!)
+        if (records) records.push(record)
+        else spans.set(record.traceId!, [record])
+      }
+    }
+    let traces = [...spans.values()]
+      .map((records) => assembleTelemetryTrace(records.slice(0, MAX_TRACE_SPANS), records.length > MAX_TRACE_SPANS))
+      .filter((trace): trace is TelemetryTrace => !!trace)
+      .map(summarizeTelemetryTrace)
+    const matched = traces.length
+    const percentile =
+      input.durationPercentile != null ? Math.min(100, Math.max(1, Number(input.durationPercentile))) : undefined
+    const durationThresholdMs =
+      percentile != null
+        ? telemetryPercentile(
+            traces.map((trace) => trace.durationMs),
+            percentile,
+          )
+        : undefined
+    if (durationThresholdMs != null) traces = traces.filter((trace) => trace.durationMs >= durationThresholdMs)
+    if (input.minDurationMs != null) traces = traces.filter((trace) => trace.durationMs >= input.minDurationMs!)
+    if (input.maxDurationMs != null) traces = traces.filter((trace) => trace.durationMs <= input.maxDurationMs!)
+    traces.sort((a, b) =>
+      input.sort === 'duration'
+        ? b.durationMs - a.durationMs || b.start.localeCompare(a.start)
+        : b.start.localeCompare(a.start) || a.traceId.localeCompare(b.traceId),
+    )
+    return {
+      traces: traces.slice(0, limit),
+      durationThresholdMs,
+      matched,
+      truncated: truncated || traces.length > limit,
+      scannedRange: { from: from.toISOString(), to: to.toISOString() },
+    }
+  }
+
   status(
     projectId: string,
     environmentId?: string,
@@ -0,0 +1,182 @@
+import type { AppendTelemetryInput } from '.'
+import { afterEach, describe, expect, it } from 'bun:test'
+import { ControlPlaneStore } from '../control-plane'
+import { TelemetryStore } from '.'
+
+const stores: ControlPlaneStore[] = []
+function fixture(now = new Date('2026-07-21T12:00:00.000Z')) {
+  const controlPlane = new ControlPlaneStore({ path: ':memory:' })
+  stores.push(controlPlane)
+  const project = controlPlane.createProject({ slug: 'acme', name: 'Acme' })
+  const environment = controlPlane.createEnvironment({
+    projectId: project.id,
+    slug: 'production',
+    name: 'Production',
+    kind: 'production',
+  })
+  const telemetry = new TelemetryStore(controlPlane, { now: () => now })
+  const span = (
+    traceId: string,
+    spanId: string,
+    parentId: string | undefined,
+    name: string,
+    service: string,
+    startMs: number,
+    durationMs: number,
+    extra: Partial<AppendTelemetryInput> = {},
+  ) =>
+    telemetry.append({
+      projectId: project.id,
+      environmentId: environment.id,
+      id: `otlp:span:${traceId}:${spanId}`,
+      kind: 'trace',
+      source: `otlp:${service}`,
+      name,
+      timestamp: new Date(Date.parse('2026-07-21T11:00:00.000Z') + startMs).toISOString(),
+      durationMs,
+      traceId,
+      attributes: { 'service.name': service, 'span.id': spanId, 'span.parent_id': parentId },
+      ...extra,
+    })
+  const window = { projectId: project.id, from: '2026-07-21T10:00:00.000Z', to: '2026-07-21T12:00:00.000Z' }
+  return { telemetry, span, window }
+}
+afterEach(() => {
+  for (const store of stores.splice(0)) store.close()
+})
+
+describe('trace assembly', () => {
+  it('builds the span tree with self time and the critical path', () => {
+    const { telemetry, span, window } = fixture()
+    // root 0–100 ─┬─ auth 5–15
+    //             └─ query 20–90 ── db 30–80
+    //             cache 10–40 runs alongside query but finishes first
+    span('t1', 'root', undefined, 'GET /orders', 'web', 0, 100)
+    span('t1', 'auth', 'root', 'auth', 'web', 5, 10)
+    span('t1', 'query', 'root', 'load orders', 'orders', 20, 70)
+    span('t1', 'cache', 'root', 'cache get', 'web', 10, 30)
+    span('t1', 'db', 'query', 'SELECT orders', 'postgres', 30, 50)
+
+    const trace = telemetry.trace({ ...window, traceId: 't1' })!
+    expect(trace.spans.map((item) => [item.spanId, item.depth])).toEqual([
+      ['root', 0],
+      ['auth', 1],
+      ['cache', 1],
+      ['query', 1],
+      ['db', 2],
+    ])
+    expect(trace).toMatchObject({ rootName: 'GET /orders', rootService: 'web', durationMs: 100, errorCount: 0 })
+    expect(trace.services).toEqual(['web', 'orders', 'postgres'])
+    const byId = Object.fromEntries(trace.spans.map((item) => [item.spanId, item]))
+    // Children cover 5–15, 10–40, and 20–90 of the root: 5–90 once overlaps merge.
+    expect(byId.root!.selfTimeMs).toBe(15)
+    expect(byId.query!.selfTimeMs).toBe(20)
+    expect(byId.query!.offsetMs).toBe(20)
+    // The path runs root → query → db, then back through cache and auth for
+    // the time before query started.
+    expect(trace.spans.filter((item) => item.critical).map((item) => item.spanId)).toEqual([
+      'root',
+      'auth',
+      'cache',
+      'query',
+      'db',
+    ])
+    expect(byId.db!.criticalPathMs).toBe(50)
+    expect(byId.query!.criticalPathMs).toBe(20)
+    expect(byId.cache!.criticalPathMs).toBe(10)
+    expect(trace.criticalPathMs).toBe(100)
+  })
+
+  it('keeps spans whose parent was not stored as flagged roots', () => {
+    const { telemetry, span, window } = fixture()
+    span('t2', 'a', 'missing', 'consume', 'worker', 0, 40)
+    span('t2', 'b', 'a', 'write', 'worker', 10, 10, { level: 'error' })
+    const trace = telemetry.trace({ ...window, traceId: 't2' })!
+    expect(trace.spans[0]).toMatchObject({ spanId: 'a', orphan: true, depth: 0, childCount: 1 })
+    expect(trace.errorCount).toBe(1)
+  })
+
+  it('breaks parent cycles and keeps their spans as orphan roots', () => {
+    const { telemetry, span, window } = fixture()
+    span('t3', 'a', 'c', 'consume', 'worker', 0, 40)
+    span('t3', 'b', 'a', 'decode', 'worker', 5, 10)
+    span('t3', 'c', 'b', 'write', 'worker', 20, 10)
+    span('t3', 'd', 'c', 'flush', 'worker', 25, 2)
+    const trace = telemetry.trace({ ...window, traceId: 't3' })!
+    expect(trace.spans.map((item) => [item.spanId, item.depth, item.orphan])).toEqual([
+      ['a', 0, true],
+      ['b', 1, false],
+      ['c', 2, false],
+      ['d', 3, false],
+    ])
+    expect(trace.rootName).toBe('consume')
+    expect(telemetry.searchTraces({ ...window }).traces).toEqual([
+      expect.objectContaining({ traceId: 't3', spanCount: 4 }),
+    ])
+  })
+
+  it('treats trace records without span ids as single-span traces', () => {
+    const { telemetry, window } = fixture()
+    telemetry.append({
+      projectId: window.projectId,
+      kind: 'trace',
+      source: 'xray',
+      name: 'http.trace',
+      timestamp: '2026-07-21T11:30:00.000Z',
+      durationMs: 12,
+      traceId: '1-abc',
+      statusCode: 502,
+    })
+    const trace = telemetry.trace({ ...window, traceId: '1-abc' })!
+    expect(trace.spans).toHaveLength(1)
+    expect(trace.spans[0]).toMatchObject({ service: 'xray', error: true, critical: true, criticalPathMs: 12 })
+  })
+})
+
+describe('trace search', () => {
+  function seeded() {
+    const context = fixture()
+    const { span } = context
+    for (let index = 0; index < 10; index += 1) {
+      const traceId = `fast-${index}`
+      span(traceId, 'root', undefined, 'GET /health', 'web', index * 1_000, 10 + index)
+      span(traceId, 'child', 'root', 'ping', 'web', index * 1_000 + 1, 5)
+    }
+    span('slow', 'root', undefined, 'GET /orders', 'web', 20_000, 900)
+    span('slow', 'db', 'root', 'SELECT orders', 'postgres', 20_010, 850, { level: 'error' })
+    return context
+  }
+
+  it('finds traces by any span service or operation, with whole-trace durations', () => {
+    const { telemetry, window } = seeded()
+    const result = telemetry.searchTraces({ ...window, services: ['postgres'] })
+    expect(result.traces).toHaveLength(1)
+    expect(result.traces[0]).toMatchObject({
+      traceId: 'slow',
+      rootName: 'GET /orders',
+      durationMs: 900,
+      spanCount: 2,
+      errorCount: 1,
+      services: ['web', 'postgres'],
+    })
+    expect(telemetry.searchTraces({ ...window, operations: ['ping'] }).matched).toBe(10)
+    expect(telemetry.searchTraces({ ...window, errorsOnly: true }).traces.map((trace) => trace.traceId)).toEqual([
+      'slow',
+    ])
+  })
+
+  it('filters by duration percentile and sorts slowest first', () => {
+    const { telemetry, window } = seeded()
+    const result = telemetry.searchTraces({ ...window, durationPercentile: 90, sort: 'duration' })
+    expect(result.durationThresholdMs).toBe(19)
+    expect(result.traces.map((trace) => trace.traceId)).toEqual(['slow', 'fast-9'])
+    expect(telemetry.searchTraces({ ...window, minDurationMs: 15, maxDurationMs: 17 }).traces).toHaveLength(3)
+  })
+
+  it('orders by recency and reports truncation at the limit', () => {
+    const { telemetry, window } = seeded()
+    const result = telemetry.searchTraces({ ...window, limit: 2 })
+    expect(result.traces.map((trace) => trace.traceId)).toEqual(['slow', 'fast-9'])
+    expect(result).toMatchObject({ matched: 11, truncated: true })
+  })
+})
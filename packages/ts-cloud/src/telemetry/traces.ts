@@ -0,0 +1,203 @@
+import type { JsonValue } from '../control-plane'
+import type { TelemetryRecord, TelemetrySpan, TelemetryTrace, TelemetryTraceSummary } from './model'
+
+export const MAX_TRACE_SPANS = 5_000
+
+interface SpanNode {
+  span: TelemetrySpan
+  startMs: number
+  endMs: number
+  children: SpanNode[]
+}
+
+function text(value: JsonValue | undefined): string | undefined {
+  return typeof value === 'string' && value ? value : undefined
+}
+
+/** The service a span belongs to: its OTel `service.name`, else the source that produced it. */
+export function telemetrySpanService(record: Pick<TelemetryRecord, 'attributes' | 'source'>): string {
+  return text(record.attributes['service.name']) ?? record.source
+}
+
+export function telemetrySpanError(record: Pick<TelemetryRecord, 'level' | 'statusCode'>): boolean {
+  return record.level === 'error' || (record.statusCode ?? 0) >= 500
+}
+
+/** Total length of `intervals` clipped to `[start, end]`, counting overlaps once. */
+function covered(intervals: Array<[number, number]>, start: number, end: number): number {
+  const clipped = intervals
+    .map(([from, to]): [number, number] => [Math.max(from, start), Math.min(to, end)])
+    .filter(([from, to]) => to > from)
+    .sort((a, b) => a[0] - b[0])
+  let total = 0
+  let cursor = start
+  for (const [from, to] of clipped) {
+    if (to <= cursor) continue
+    total += to - Math.max(from, cursor)
+    cursor = to
+  }
+  return total
+}
+
+/**
+ * Walk the critical path backwards from `until`: the span is on it, and so is
+ * whichever child was last to finish before each point the span was waiting
+ * on. Time no critical child covers is the span's own contribution.
+ */
+function markCriticalPath(node: SpanNode, until: number): void {
+  node.span.critical = true
+  let cursor = Math.min(node.endMs, until)
+  const remaining = [...node.children]
+  while (cursor > node.startMs) {
+    let next: SpanNode | undefined
+    for (const child of remaining)
+      if (child.startMs < cursor && (!next || Math.min(child.endMs, cursor) > Math.min(next.endMs, cursor)))
+        next = child
+    if (!next) break
+    remaining.splice(remaining.indexOf(next), 1)
+    const childEnd = Math.min(next.endMs, cursor)
+    node.span.criticalPathMs += cursor - childEnd
+    markCriticalPath(next, childEnd)
+    cursor = Math.max(next.startMs, node.startMs)
+  }
+  node.span.criticalPathMs += Math.max(0, cursor - node.startMs)
+}
+
+/**
+ * Assemble one trace's span records into a waterfall: parent/child tree from
+ * `span.id`/`span.parent_id` attributes, self time per span, and the critical
+ * path through the longest root. Spans whose parent is missing are kept as
+ * extra roots and flagged as orphans rather than dropped.
+ */
+export function assembleTelemetryTrace(records: TelemetryRecord[], truncated = false): TelemetryTrace | undefined {
+  const spans = records.filter((record) => record.kind === 'trace' && record.traceId)
+  if (!spans.length) return undefined
+  const traceId = spans[0]!.traceId!
+  const nodes = new Map<string, SpanNode>()
+  for (const record of spans) {
+    const spanId = text(record.attributes['span.id']) ?? record.id
+    if (nodes.has(spanId)) continue
+    const startMs = new Date(record.timestamp).getTime()
+    const durationMs = Math.max(0, record.durationMs ?? 0)
+    nodes.set(spanId, {
+      startMs,
+      endMs: startMs + durationMs,
+      children: [],
+      span: {
+        spanId,
+        parentSpanId: text(record.attributes['span.parent_id']),
+        recordId: record.id,
+        traceId,
+        name: record.name,
+        service: telemetrySpanService(record),
+        source: record.source,
+        resourceId: record.resourceId,
+        start: record.timestamp,
+        end: new Date(startMs + durationMs).toISOString(),
+        offsetMs: 0,
+        durationMs,
+        selfTimeMs: durationMs,
+        criticalPathMs: 0,
+        critical: false,
+        depth: 0,
+        error: telemetrySpanError(record),
+        statusCode: record.statusCode,
+        orphan: false,
+        childCount: 0,
+        attributes: record.attributes,
+      },
+    })
+  }
+
+  const roots: SpanNode[] = []
+  for (const node of nodes.values()) {
+    const parent = node.span.parentSpanId ? nodes.get(node.span.parentSpanId) : undefined
+    if (parent && parent !== node) parent.children.push(node)
+    else {
+      node.span.orphan = !!node.span.parentSpanId
+      roots.push(node)
+    }
+  }
+  const byStart = (a: SpanNode, b: SpanNode) => a.startMs - b.startMs || a.span.spanId.localeCompare(b.span.spanId)
+  roots.sort(byStart)
+
+  const traceStart = Math.min(...[...nodes.values()].map((node) => node.startMs))
+  const traceEnd = Math.max(...[...nodes.values()].map((node) => node.endMs))
+  const ordered: TelemetrySpan[] = []
+  const visited = new Set<SpanNode>()
+  const walk = (root: SpanNode) => {
+    // Iterative depth-first walk, so deep traces can't overflow the call stack.
+    const stack = [{ node: root, depth: 0 }]
+    while (stack.length) {
+      const { node, depth } = stack.pop()!
+      if (visited.has(node)) continue
+      visited.add(node)
+      node.children.sort(byStart)
+      node.span.depth = depth
+      node.span.offsetMs = node.startMs - traceStart
+      node.span.childCount = node.children.length
+      node.span.selfTimeMs = Math.max(
+        0,
+        node.span.durationMs -
+          covered(
+            node.children.map((child) => [child.startMs, child.endMs]),
+            node.startMs,
+            node.endMs,
+          ),
+      )
+      ordered.push(node.span)
+      for (const child of [...node.children].reverse()) stack.push({ node: child, depth: depth + 1 })
+    }
+  }
+  for (const root of roots) walk(root)
+  // Spans whose parent links form a cycle (a malformed exporter) are reachable
+  // from no root. Follow the parents of one until they repeat, cut the cycle
+  // there, and keep that span as an orphan root; repeat until every span is placed.
+  for (const node of [...nodes.values()].sort(byStart)) {
+    if (visited.has(node)) continue
+    const seen = new Set<SpanNode>()
+    let entry = node
+    while (!seen.has(entry)) {
+      seen.add(entry)
+      entry = nodes.get(entry.span.parentSpanId!)!
+    }
+    const parent = nodes.get(entry.span.parentSpanId!)!
+    parent.children = parent.children.filter((child) => child !== entry)
+    entry.span.orphan = true
+    roots.push(entry)
+    walk(entry)
+  }
+
+  if (!roots.length) return undefined
+  const primary = roots.reduce((longest, node) =>
+    node.endMs - node.startMs > longest.endMs - longest.startMs ? node : longest,
+  )
+  markCriticalPath(primary, primary.endMs)
+  const services = [...new Set(ordered.map((span) => span.service))]
+  return {
+    traceId,
+    rootName: primary.span.name,
+    rootService: primary.span.service,
+    start: new Date(traceStart).toISOString(),
+    end: new Date(traceEnd).toISOString(),
+    durationMs: traceEnd - traceStart,
+    criticalPathMs: ordered.reduce((sum, span) => sum + span.criticalPathMs, 0),
+    services,
+    errorCount: ordered.filter((span) => span.error).length,
+    spans: ordered,
+    truncated,
+  }
+}
+
+export function summarizeTelemetryTrace(trace: TelemetryTrace): TelemetryTraceSummary {
+  return {
+    traceId: trace.traceId,
+    rootName: trace.rootName,
+    rootService: trace.rootService,
+    start: trace.start,
+    durationMs: trace.durationMs,
+    spanCount: trace.spans.length,
+    errorCount: trace.errorCount,
+    services: trace.services,
+  }
+}
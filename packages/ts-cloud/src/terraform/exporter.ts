@@ -0,0 +1,504 @@
+import type { HclBlock, HclBodyItem, HclValue } from './hcl'
+import type {
+  ExportableTemplate,
+  TemplateParameter,
+  TemplateResource,
+  TerraformExport,
+  TerraformExportIssue,
+  TerraformExportOptions,
+} from './model'
+import type { PropertySpec, TranslationScope } from './resources'
+import type { ExpressionResolver } from './expressions'
+import { call, expr, inline, isBlock, renderFile, snakeCase } from './hcl'
+import { isIntrinsic, translateCondition, translateValue } from './expressions'
+import { NOT_LITERAL, RESOURCE_TRANSLATIONS } from './resources'
+
+const DEFAULT_PROVIDER_VERSION = '~> 5.0'
+
+const PROVIDERS = {
+  archive: { source: 'hashicorp/archive', version: '~> 2.4' },
+  random: { source: 'hashicorp/random', version: '~> 3.6' },
+}
+
+/** Pseudo parameters and the data source each one reads. */
+const PSEUDO_PARAMETERS: Record<string, { data: string; source: string }> = {
+  'AWS::Region': { data: 'aws_region', source: 'data.aws_region.current.name' },
+  'AWS::AccountId': { data: 'aws_caller_identity', source: 'data.aws_caller_identity.current.account_id' },
+  'AWS::Partition': { data: 'aws_partition', source: 'data.aws_partition.current.partition' },
+  'AWS::URLSuffix': { data: 'aws_partition', source: 'data.aws_partition.current.dns_suffix' },
+}
+
+function block(type: string, labels: string[], body: HclBodyItem[] = []): HclBlock {
+  return { type, labels, body }
+}
+
+function variableType(type: string): string {
+  if (type === 'Number') return 'number'
+  if (type === 'List<Number>') return 'list(number)'
+  if (type === 'CommaDelimitedList' || type.startsWith('List<')) return 'list(string)'
+  return 'string'
+}
+
+/** A parameter default in the variable's type: CloudFormation writes them all as strings. */
+function variableDefault(parameter: TemplateParameter): HclValue {
+  const { Type: type, Default: value } = parameter
+  const text = String(value)
+  if (type === 'Number' && text.trim() !== '' && !Number.isNaN(Number(text))) return Number(text)
+  if (variableType(type).startsWith('list')) {
+    const items = Array.isArray(value) ? value.map(String) : text.split(',').map((item) => item.trim())
+    return type === 'List<Number>' ? items.map(Number) : items
+  }
+  return typeof value === 'object' && value !== null ? (value as HclValue) : text
+}
+
+/** Hands out labels unique within the file, so two logical IDs never collide after snake-casing. */
+class Labels {
+  private readonly taken = new Set<string>()
+
+  claim(name: string, namespace = ''): string {
+    const base = snakeCase(name)
+    let label = base
+    for (let suffix = 2; this.taken.has(`${namespace}.${label}`); suffix++) label = `${base}_${suffix}`
+    this.taken.add(`${namespace}.${label}`)
+    return label
+  }
+}
+
+interface ResourceContext {
+  logicalId: string
+  resourceType: string
+  name: string
+  properties: Record<string, any>
+  physicalId?: string
+  counted: boolean
+  count?: HclValue
+}
+
+/** Writes one template as Terraform; {@link exportTemplateToTerraform} is the entry point. */
+class TerraformExporter {
+  private readonly issues: TerraformExportIssue[] = []
+  private readonly labels = new Labels()
+  private readonly resourceNames = new Map<string, string>()
+  private readonly parameterNames = new Map<string, string>()
+  private readonly conditionNames = new Map<string, string>()
+  private readonly variables: HclBlock[] = []
+  private readonly placeholders = new Map<string, string>()
+  private readonly data = new Map<string, HclBlock>()
+  private readonly resources: HclBlock[] = []
+  private readonly imports: HclBlock[] = []
+  private readonly providers = new Set<keyof typeof PROVIDERS>()
+  private readonly locals = new Map<string, HclValue>()
+  private usesStackName = false
+  private current?: { logicalId: string; resourceType?: string }
+
+  constructor(
+    private readonly template: ExportableTemplate,
+    private readonly options: TerraformExportOptions,
+  ) {}
+
+  run(): TerraformExport {
+    const resources = Object.entries(this.template.Resources ?? {})
+    for (const [logicalId, resource] of resources)
+      if (RESOURCE_TRANSLATIONS[resource.Type]) this.resourceNames.set(logicalId, this.labels.claim(logicalId))
+    for (const name of Object.keys(this.template.Conditions ?? {}))
+      this.conditionNames.set(name, this.labels.claim(name, 'local'))
+
+    this.writeParameters()
+    this.writeConditions()
+    let skipped = 0
+    for (const [logicalId, resource] of resources) {
+      if (this.resourceNames.has(logicalId)) this.writeResource(logicalId, resource)
+      else {
+        skipped++
+        this.issue('unsupported', 'Type', `${resource.Type} has no Terraform translation, so it is left out`, {
+          logicalId,
+          resourceType: resource.Type,
+        })
+      }
+    }
+    const outputs = this.writeOutputs()
+
+    return {
+      files: this.files(outputs),
+      issues: this.issues,
+      summary: { resources: this.resourceNames.size, skippedResources: skipped, imports: this.imports.length },
+    }
+  }
+
+  private issue(
+    severity: TerraformExportIssue['severity'],
+    construct: string,
+    message: string,
+    about: { logicalId?: string; resourceType?: string } | undefined = this.current,
+  ): void {
+    this.issues.push({ severity, logicalId: about?.logicalId, resourceType: about?.resourceType, construct, message })
+  }
+
+  private resolver(): ExpressionResolver {
+    return {
+      ref: (name, path) => this.ref(name, path),
+      getAtt: (logicalId, attribute, path) => this.getAtt(logicalId, attribute, path),
+      condition: (name, path) => {
+        const local = this.conditionNames.get(name)
+        if (local) return expr(`local.${local}`)
+        this.issue('unsupported', path, `refers to condition ${name}, which the template does not define`)
+        return null
+      },
+      importValue: (name, path) => {
+        if (typeof name !== 'string') {
+          this.issue('unsupported', path, 'imports an export whose name is not a literal')
+          return null
+        }
+        const description = `Value of the CloudFormation export ${name}`
+        return expr(`var.${this.placeholder(`import_${name}`, description, path, 'Fn::ImportValue')}`)
+      },
+      availabilityZones: () => {
+        this.dataSource('aws_availability_zones', 'available', [{ name: 'state', value: 'available' }])
+        return expr('data.aws_availability_zones.available.names')
+      },
+      mappings: this.template.Mappings ?? {},
+      unsupported: (construct, message, path) => this.issue('unsupported', path, `${construct}: ${message}`),
+    }
+  }
+
+  private translate(value: unknown, path: string): HclValue | undefined {
+    return translateValue(value, this.resolver(), path)
+  }
+
+  private dataSource(type: string, label: string, body: HclBodyItem[] = []): HclBlock {
+    const key = `${type}.${label}`
+    if (!this.data.has(key)) this.data.set(key, block('data', [type, label], body))
+    return this.data.get(key)!
+  }
+
+  /**
+   * A variable standing in for a value the export cannot produce, such as an
+   * attribute of a resource that was left out. Reported so it gets filled in.
+   */
+  private placeholder(name: string, description: string, path: string, construct = path): string {
+    const existing = this.placeholders.get(name)
+    if (existing) return existing
+    const label = this.labels.claim(name, 'var')
+    this.placeholders.set(name, label)
+    this.variables.push(block('variable', [label], [{ name: 'description', value: description }]))
+    this.issue('manual', construct, `is read from variable ${label}, which has no default; set it before planning`)
+    return label
+  }
+
+  private address(logicalId: string): string {
+    const resource = this.template.Resources![logicalId]
+    const name = this.resourceNames.get(logicalId)!
+    return `${RESOURCE_TRANSLATIONS[resource.Type].type}.${name}${resource.Condition ? '[0]' : ''}`
+  }
+
+  private ref(name: string, path: string): HclValue {
+    const pseudo = PSEUDO_PARAMETERS[name]
+    if (pseudo) {
+      this.dataSource(pseudo.data, 'current')
+      return expr(pseudo.source)
+    }
+    if (name === 'AWS::StackName') {
+      this.usesStackName = true
+      return expr('local.stack_name')
+    }
+    if (name === 'AWS::NotificationARNs') return []
+    const parameter = this.template.Parameters?.[name]
+    if (parameter) {
+      const variable = this.parameterNames.get(name)!
+      if (!parameter.Type.startsWith('AWS::SSM::Parameter::Value<')) return expr(`var.${variable}`)
+      const value = expr(`data.aws_ssm_parameter.${variable}.value`)
+      return parameter.Type.includes('List<') ? call('split', ',', value) : value
+    }
+    const resource = this.template.Resources?.[name]
+    if (!resource) {
+      this.issue('unsupported', path, `refers to ${name}, which the template does not define`)
+      return null
+    }
+    if (!this.resourceNames.has(name)) {
+      const description = `Ref of ${name} (${resource.Type}), which was not exported`
+      return expr(`var.${this.placeholder(`${name}_ref`, description, path)}`)
+    }
+    return expr(`${this.address(name)}.${RESOURCE_TRANSLATIONS[resource.Type].ref}`)
+  }
+
+  private getAtt(logicalId: string, attribute: string, path: string): HclValue {
+    const resource = this.template.Resources?.[logicalId]
+    if (!resource) {
+      this.issue('unsupported', path, `reads ${attribute} of ${logicalId}, which the template does not define`)
+      return null
+    }
+    if (!this.resourceNames.has(logicalId)) {
+      const description = `${attribute} of ${logicalId} (${resource.Type}), which was not exported`
+      return expr(`var.${this.placeholder(`${logicalId}_${attribute}`, description, path)}`)
+    }
+    const translation = RESOURCE_TRANSLATIONS[resource.Type]
+    const target = translation.attributes?.[attribute]
+    if (target === undefined) {
+      this.issue('unsupported', path, `reads ${attribute} of ${logicalId}, which has no ${translation.type} attribute`)
+      return null
+    }
+    if (typeof target === 'string') return expr(`${this.address(logicalId)}.${target}`)
+    const name = this.resourceNames.get(logicalId)!
+    return expr(target((type, suffix) => `${type}.${name}_${suffix}${resource.Condition ? '[0]' : ''}`))
+  }
+
+  private writeParameters(): void {
+    for (const [name, parameter] of Object.entries(this.template.Parameters ?? {})) {
+      const label = this.labels.claim(name, 'var')
+      this.parameterNames.set(name, label)
+      const body: HclBodyItem[] = [{ name: 'type', value: expr(variableType(parameter.Type)) }]
+      if (parameter.Description) body.push({ name: 'description', value: parameter.Description })
+      if (parameter.Default !== undefined) body.push({ name: 'default', value: variableDefault(parameter) })
+      if (parameter.NoEcho === true || parameter.NoEcho === 'true') body.push({ name: 'sensitive', value: true })
+      if (parameter.AllowedValues?.length) {
+        const allowed = parameter.AllowedValues.map((value) =>
+          variableDefault({ Type: parameter.Type, Default: value }),
+        )
+        body.push(
+          block('validation', [], [
+            { name: 'condition', value: call('contains', allowed, expr(`var.${label}`)) },
+            { name: 'error_message', value: `${label} must be one of: ${allowed.map(String).join(', ')}.` },
+          ]),
+        )
+      }
+      this.variables.push(block('variable', [label], body))
+      if (parameter.Type.startsWith('AWS::SSM::Parameter::Value<'))
+        this.dataSource('aws_ssm_parameter', label, [{ name: 'name', value: expr(`var.${label}`) }])
+    }
+  }
+
+  private writeConditions(): void {
+    for (const [name, condition] of Object.entries(this.template.Conditions ?? {})) {
+      this.current = { logicalId: name }
+      this.locals.set(this.conditionNames.get(name)!, translateCondition(condition, this.resolver(), name))
+    }
+    this.current = undefined
+  }
+
+  private writeResource(logicalId: string, resource: TemplateResource): void {
+    const translation = RESOURCE_TRANSLATIONS[resource.Type]
+    this.current = { logicalId, resourceType: resource.Type }
+    const context: ResourceContext = {
+      logicalId,
+      resourceType: resource.Type,
+      name: this.resourceNames.get(logicalId)!,
+      properties: resource.Properties ?? {},
+      physicalId: this.options.deployed?.[logicalId],
+      counted: Boolean(resource.Condition),
+    }
+    if (resource.Condition) {
+      const condition = this.resolver().condition(resource.Condition, 'Condition')
+      context.count = expr(`${inline(condition)} ? 1 : 0`)
+    }
+
+    const main = block('resource', [translation.type, context.name])
+    const companions: HclBlock[] = []
+    const scope = this.scope(context, main, main, translation.type, companions)
+    const firstImport = this.imports.length
+    scope.apply(translation.properties, context.properties, 'Properties')
+    translation.finish?.(scope, resource)
+    this.decorate(main, context, resource)
+    this.resources.push(main, ...companions)
+
+    if (context.physicalId) {
+      const id = translation.importId ? translation.importId(context.physicalId, scope) : context.physicalId
+      if (id) this.importBlock(`${translation.type}.${context.name}`, context, id, firstImport)
+      else {
+        this.issue(
+          'manual',
+          'import',
+          `has no import block: its Terraform import ID cannot be derived from ${context.physicalId}`,
+        )
+      }
+    }
+    this.current = undefined
+  }
+
+  private importBlock(address: string, context: ResourceContext, id: string, at = this.imports.length): void {
+    this.imports.splice(
+      at,
+      0,
+      block('import', [], [
+        { name: 'to', value: expr(`${address}${context.counted ? '[0]' : ''}`) },
+        { name: 'id', value: id },
+      ]),
+    )
+  }
+
+  /** Meta-arguments CloudFormation expresses outside `Properties`. */
+  private decorate(main: HclBlock, context: ResourceContext, resource: TemplateResource): void {
+    if (context.count !== undefined) main.body.unshift({ name: 'count', value: context.count })
+    const dependencies = resource.DependsOn === undefined ? [] : [resource.DependsOn].flat()
+    const exported = dependencies.filter((id) => this.resourceNames.has(id))
+    if (exported.length < dependencies.length)
+      this.issue('unsupported', 'DependsOn', 'names resources that were not exported; those dependencies are dropped')
+    if (exported.length) {
+      const addresses = exported.map((id) => {
+        const type = RESOURCE_TRANSLATIONS[this.template.Resources![id].Type].type
+        return expr(`${type}.${this.resourceNames.get(id)}`)
+      })
+      main.body.push({ name: 'depends_on', value: addresses })
+    }
+    if (resource.DeletionPolicy === 'Retain' || resource.DeletionPolicy === 'RetainExceptOnCreate')
+      main.body.push(block('lifecycle', [], [{ name: 'prevent_destroy', value: true }]))
+  }
+
+  private scope(
+    context: ResourceContext,
+    target: HclBlock,
+    owner: HclBlock,
+    ownerType: string,
+    companions: HclBlock[],
+  ): TranslationScope {
+    const exporter = this
+    const isData = owner.type === 'data'
+    const ownerAddress = `${isData ? 'data.' : ''}${ownerType}.${owner.labels[1]}`
+    const indexed = context.counted && !isData ? '[0]' : ''
+    const has = (name: string): boolean =>
+      target.body.some((item) => (isBlock(item) ? item.type === name : item.name === name))
+    const scope: TranslationScope = {
+      logicalId: context.logicalId,
+      name: context.name,
+      properties: context.properties,
+      physicalId: context.physicalId,
+      has,
+      attribute(name, value, path) {
+        const translated = scope.value(value, path)
+        if (translated !== undefined) scope.set(name, translated)
+      },
+      set(name, value) {
+        const existing = target.body.findIndex((item) => !isBlock(item) && item.name === name)
+        if (existing >= 0) target.body[existing] = { name, value }
+        else target.body.push({ name, value })
+      },
+      value: (value, path) => exporter.translate(value, path),
+      block(name) {
+        const nested = block(name, [])
+        target.body.push(nested)
+        return exporter.scope(context, nested, owner, ownerType, companions)
+      },
+      nested(name) {
+        const existing = target.body.find((item): item is HclBlock => isBlock(item) && item.type === name)
+        return existing ? exporter.scope(context, existing, owner, ownerType, companions) : scope.block(name)
+      },
+      apply(spec: PropertySpec, properties, path) {
+        if (!properties || typeof properties !== 'object' || Array.isArray(properties) || isIntrinsic(properties)) {
+          exporter.issue('unsupported', path, NOT_LITERAL)
+          return
+        }
+        for (const [key, value] of Object.entries(properties)) {
+          const entry = spec[key]
+          const at = `${path}.${key}`
+          if (entry === undefined)
+            exporter.issue('unsupported', at, `has no ${ownerType} translation, so it is left out`)
+          else if (typeof entry === 'string') scope.attribute(entry, value, at)
+          else entry(value, scope, at)
+        }
+      },
+      ref: (attribute) => expr(`${ownerAddress}${indexed}.${attribute}`),
+      self: (attribute) => {
+        const type = RESOURCE_TRANSLATIONS[context.resourceType].type
+        return expr(`${type}.${context.name}${context.counted ? '[0]' : ''}.${attribute}`)
+      },
+      companion(type, suffix, importId) {
+        const label = `${context.name}_${suffix}`
+        let companion = companions.find((item) => item.labels[0] === type && item.labels[1] === label)
+        if (!companion) {
+          companion = block('resource', [type, label])
+          if (context.count !== undefined) companion.body.push({ name: 'count', value: context.count })
+          companions.push(companion)
+          if (importId) exporter.importBlock(`${type}.${label}`, context, importId)
+          else if (context.physicalId && type !== 'random_password') {
+            exporter.issue(
+              'manual',
+              type,
+              `is written as ${type}.${label}, which cannot be imported from the stack; plan will create it`,
+            )
+          }
+        }
+        return exporter.scope(context, companion, companion, type, companions)
+      },
+      data(type, suffix) {
+        const data = exporter.dataSource(type, `${context.name}_${suffix}`)
+        return exporter.scope({ ...context, counted: false }, data, data, type, companions)
+      },
+      physical(value) {
+        if (typeof value === 'string') return value
+        if (isIntrinsic(value) && typeof value.Ref === 'string') return exporter.options.deployed?.[value.Ref]
+        return undefined
+      },
+      requireProvider: (provider) => exporter.providers.add(provider),
+      unsupported: (path, message) => exporter.issue('unsupported', path, message),
+      manual: (path, message) => exporter.issue('manual', path, message),
+    }
+    return scope
+  }
+
+  private writeOutputs(): HclBlock[] {
+    return Object.entries(this.template.Outputs ?? {}).map(([name, output]) => {
+      this.current = { logicalId: name }
+      let value = this.translate(output.Value, 'Value') ?? null
+      if (output.Condition) {
+        const condition = this.resolver().condition(output.Condition, 'Condition')
+        value = expr(`${inline(condition)} ? ${inline(value)} : null`)
+      }
+      const body: HclBodyItem[] = [{ name: 'value', value }]
+      if (output.Description) body.push({ name: 'description', value: output.Description })
+      if (output.Export !== undefined) {
+        this.issue(
+          'unsupported',
+          'Export',
+          'is a cross-stack export; other configurations read the output through terraform_remote_state instead',
+        )
+      }
+      this.current = undefined
+      return block('output', [this.labels.claim(name, 'output')], body)
+    })
+  }
+
+  private files(outputs: HclBlock[]): Record<string, string> {
+    const providers: Record<string, HclValue> = {
+      aws: { source: 'hashicorp/aws', version: this.options.providerVersion ?? DEFAULT_PROVIDER_VERSION },
+    }
+    for (const provider of [...this.providers].sort()) providers[provider] = PROVIDERS[provider]
+    const files: Record<string, string> = {
+      'versions.tf': renderFile([
+        block('terraform', [], [
+          { name: 'required_version', value: '>= 1.5.0' },
+          block('required_providers', [], Object.entries(providers).map(([name, value]) => ({ name, value }))),
+        ]),
+        block('provider', ['aws'], [{ name: 'region', value: this.options.region ?? 'us-east-1' }]),
+      ]),
+    }
+    if (this.variables.length) files['variables.tf'] = renderFile(this.variables)
+
+    const main = [...this.data.values(), ...this.resources]
+    const sources = [renderFile([...main, ...outputs]), ...[...this.locals.values()].map(inline)]
+    const mapped = sources.some((source) => source.includes('local.mappings'))
+    const locals: HclBodyItem[] = []
+    if (this.usesStackName) locals.push({ name: 'stack_name', value: this.options.stackName ?? 'ts-cloud' })
+    if (mapped) locals.push({ name: 'mappings', value: (this.template.Mappings ?? {}) as HclValue })
+    for (const [name, value] of this.locals) locals.push({ name, value })
+    if (locals.length) main.splice(this.data.size, 0, block('locals', [], locals))
+    if (main.length) files['main.tf'] = renderFile(main)
+    if (outputs.length) files['outputs.tf'] = renderFile(outputs)
+    if (this.imports.length) files['imports.tf'] = renderFile(this.imports)
+    return files
+  }
+}
+
+/**
+ * Converts a CloudFormation template into Terraform/OpenTofu configuration for
+ * the `hashicorp/aws` provider.
+ *
+ * Intrinsic functions become references and expressions, parameters become
+ * variables and conditions become locals. Resources listed in
+ * `options.deployed` get `import` blocks so planning adopts them. Anything
+ * without a faithful translation is reported in `issues` rather than guessed.
+ */
+export function exportTemplateToTerraform(
+  template: ExportableTemplate,
+  options: TerraformExportOptions = {},
+): TerraformExport {
+  return new TerraformExporter(template, options).run()
+}
@@ -0,0 +1,230 @@
+/**
+ * CloudFormation intrinsic functions as HCL expressions.
+ *
+ * Each function in `core/src/intrinsic-functions.ts` has a Terraform
+ * counterpart: `Ref` and `Fn::GetAtt` become resource references, `Fn::Sub`
+ * and `Fn::Join` become string templates, conditions become boolean
+ * expressions. Resolving names is left to the exporter, which knows what each
+ * logical ID was exported as.
+ */
+import type { HclValue } from './hcl'
+import { call, escapeHeredoc, escapeTemplate, expr, heredoc, inline } from './hcl'
+
+export interface ExpressionResolver {
+  /** A `Ref` to a parameter, resource or pseudo parameter. */
+  ref: (name: string, path: string) => HclValue
+  getAtt: (logicalId: string, attribute: string, path: string) => HclValue
+  /** A named condition from the `Conditions` section. */
+  condition: (name: string, path: string) => HclValue
+  importValue: (name: HclValue, path: string) => HclValue
+  availabilityZones: (path: string) => HclValue
+  mappings: Record<string, Record<string, Record<string, unknown>>>
+  /** Records something that was not translated. */
+  unsupported: (construct: string, message: string, path: string) => void
+}
+
+type TemplatePart = string | HclValue
+
+/** `{ Ref: 'AWS::NoValue' }`, which removes the property it is assigned to. */
+export function isNoValue(value: unknown): boolean {
+  return isIntrinsic(value) && (value as { Ref?: unknown }).Ref === 'AWS::NoValue'
+}
+
+/** A single-key object naming an intrinsic function. */
+export function isIntrinsic(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  const keys = Object.keys(value)
+  return keys.length === 1 && (keys[0] === 'Ref' || keys[0].startsWith('Fn::'))
+}
+
+/**
+ * A template value as HCL. Returns `undefined` for a value that removes the
+ * property, so callers can leave the attribute out.
+ */
+export function translateValue(value: unknown, resolver: ExpressionResolver, path: string): HclValue | undefined {
+  if (value === undefined || isNoValue(value)) return undefined
+  if (value === null || typeof value !== 'object') return value as string | number | boolean | null
+  if (Array.isArray(value)) {
+    return value
+      .map((item, index) => translateValue(item, resolver, `${path}[${index}]`))
+      .filter((item): item is HclValue => item !== undefined)
+  }
+  if (isIntrinsic(value)) {
+    const [name, argument] = Object.entries(value)[0]
+    return intrinsic(name, argument, resolver, path)
+  }
+  const result: Record<string, HclValue> = {}
+  for (const [key, item] of Object.entries(value)) {
+    const translated = translateValue(item, resolver, `${path}.${key}`)
+    if (translated !== undefined) result[key] = translated
+  }
+  return result
+}
+
+/** A condition expression from `Conditions` or the first argument of `Fn::If`. */
+export function translateCondition(value: unknown, resolver: ExpressionResolver, path: string): HclValue {
+  if (value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 1) {
+    const name = (value as { Condition?: unknown }).Condition
+    if (typeof name === 'string') return resolver.condition(name, path)
+  }
+  return translateValue(value, resolver, path) ?? null
+}
+
+function operand(value: HclValue): string {
+  const source = inline(value)
+  return /^[\w."[\]-]+$/.test(source) ? source : `(${source})`
+}
+
+/** Joins literal text and expressions into one string, a heredoc when it spans lines. */
+export function templateString(parts: TemplatePart[]): HclValue {
+  const merged: TemplatePart[] = []
+  for (const part of parts) {
+    const literal = typeof part === 'number' || typeof part === 'boolean' ? String(part) : part
+    if (typeof literal === 'string' && typeof merged[merged.length - 1] === 'string')
+      merged[merged.length - 1] = `${merged[merged.length - 1]}${literal}`
+    else if (literal !== '') merged.push(literal)
+  }
+  if (merged.length === 0) return ''
+  if (merged.length === 1) return merged[0]
+  const last = merged[merged.length - 1]
+  const multiline = merged.some((part) => typeof part === 'string' && part.includes('\n'))
+  if (multiline && typeof last === 'string' && last.endsWith('\n')) {
+    const body = merged.map((part) => (typeof part === 'string' ? escapeHeredoc(part) : `\${${inline(part)}}`))
+    return expr(heredoc(body.join('')))
+  }
+  const body = merged.map((part) => (typeof part === 'string' ? escapeTemplate(part) : `\${${inline(part)}}`))
+  return expr(`"${body.join('')}"`)
+}
+
+function substitute(argument: unknown, resolver: ExpressionResolver, path: string): HclValue {
+  const [source, variables] = Array.isArray(argument) ? argument : [argument, {}]
+  if (typeof source !== 'string') {
+    resolver.unsupported('Fn::Sub', 'the template string is not a literal', path)
+    return null
+  }
+  const parts: TemplatePart[] = []
+  let cursor = 0
+  for (const match of source.matchAll(/\$\{([^}]*)\}/g)) {
+    parts.push(source.slice(cursor, match.index))
+    cursor = match.index! + match[0].length
+    const name = match[1].trim()
+    if (name.startsWith('!')) parts.push(`\${${name.slice(1)}}`)
+    else if (variables && Object.hasOwn(variables, name))
+      parts.push(translateValue(variables[name], resolver, `${path}.${name}`) ?? '')
+    else if (name.includes('.') && !name.startsWith('AWS::')) {
+      const dot = name.indexOf('.')
+      parts.push(resolver.getAtt(name.slice(0, dot), name.slice(dot + 1), path))
+    } else parts.push(resolver.ref(name, path))
+  }
+  parts.push(source.slice(cursor))
+  return templateString(parts)
+}
+
+function join(argument: unknown, resolver: ExpressionResolver, path: string): HclValue {
+  const [delimiter, list] = Array.isArray(argument) ? argument : []
+  if (typeof delimiter !== 'string') {
+    resolver.unsupported('Fn::Join', 'the delimiter is not a literal', path)
+    return null
+  }
+  if (!Array.isArray(list)) return call('join', delimiter, translateValue(list, resolver, path) ?? [])
+  const items = list
+    .map((item, index) => translateValue(item, resolver, `${path}[${index}]`))
+    .filter((item): item is HclValue => item !== undefined)
+  if (items.some((item) => Array.isArray(item))) return call('join', delimiter, call('flatten', items))
+  return templateString(items.flatMap((item, index) => (index ? [delimiter, item] : [item])))
+}
+
+function findInMap(argument: unknown, resolver: ExpressionResolver, path: string): HclValue {
+  const [map, top, second] = (Array.isArray(argument) ? argument : []).map((item) =>
+    translateValue(item, resolver, path),
+  )
+  if ([map, top, second].every((key) => typeof key === 'string')) {
+    const found = resolver.mappings[map as string]?.[top as string]?.[second as string]
+    if (found !== undefined) return translateValue(found, resolver, path) ?? null
+  }
+  const keys = [map, top, second].map((key) => `[${inline(key ?? null)}]`).join('')
+  return expr(`local.mappings${keys}`)
+}
+
+function cidr(argument: unknown, resolver: ExpressionResolver, path: string): HclValue {
+  const [block, count, bits] = (Array.isArray(argument) ? argument : []).map((item) =>
+    translateValue(item, resolver, path),
+  )
+  // Fn::Cidr counts the host bits of each subnet; cidrsubnet() counts the bits added to the block's prefix.
+  const hostBits =
+    typeof block === 'string' && block.includes('/')
+      ? String(32 - Number(block.split('/')[1]))
+      : `(32 - tonumber(split("/", ${inline(block ?? null)})[1]))`
+  const literalBits = typeof bits === 'number' || typeof bits === 'string' ? Number(bits) : Number.NaN
+  const newBits =
+    Number.isInteger(literalBits) && /^\d+$/.test(hostBits)
+      ? String(Number(hostBits) - literalBits)
+      : `${hostBits} - ${operand(bits ?? null)}`
+  const source = inline(block ?? null)
+  return expr(`[for index in range(${inline(count ?? null)}) : cidrsubnet(${source}, ${newBits}, index)]`)
+}
+
+function intrinsic(name: string, argument: unknown, resolver: ExpressionResolver, path: string): HclValue {
+  const args = Array.isArray(argument) ? argument : [argument]
+  const value = (index: number): HclValue => translateValue(args[index], resolver, path) ?? null
+  switch (name) {
+    case 'Ref':
+      return resolver.ref(String(argument), path)
+    case 'Fn::GetAtt': {
+      const dot = typeof argument === 'string' ? argument.indexOf('.') : -1
+      const [logicalId, attribute] =
+        typeof argument === 'string' ? [argument.slice(0, dot), argument.slice(dot + 1)] : args
+      if (typeof logicalId !== 'string' || typeof attribute !== 'string') {
+        resolver.unsupported('Fn::GetAtt', 'the attribute name is not a literal', path)
+        return null
+      }
+      return resolver.getAtt(logicalId, attribute, path)
+    }
+    case 'Fn::Sub':
+      return substitute(argument, resolver, path)
+    case 'Fn::Join':
+      return join(argument, resolver, path)
+    case 'Fn::Select': {
+      const list = value(1)
+      if (Array.isArray(list) && typeof args[0] === 'number') return list[args[0]] ?? null
+      return call('element', list, value(0))
+    }
+    case 'Fn::Split':
+      return call('split', value(0), value(1))
+    case 'Fn::GetAZs':
+      return resolver.availabilityZones(path)
+    case 'Fn::ImportValue':
+      return resolver.importValue(value(0), path)
+    case 'Fn::If': {
+      const [condition, whenTrue, whenFalse] = args
+      const test =
+        typeof condition === 'string'
+          ? resolver.condition(condition, path)
+          : translateCondition(condition, resolver, path)
+      const yes = translateValue(whenTrue, resolver, path) ?? null
+      const no = translateValue(whenFalse, resolver, path) ?? null
+      return expr(`${operand(test)} ? ${inline(yes)} : ${inline(no)}`)
+    }
+    case 'Fn::Equals':
+      return expr(`${operand(value(0))} == ${operand(value(1))}`)
+    case 'Fn::And':
+    case 'Fn::Or': {
+      const conditions = args.map((item) => operand(translateCondition(item, resolver, path)))
+      return expr(conditions.join(name === 'Fn::And' ? ' && ' : ' || '))
+    }
+    case 'Fn::Not':
+      return expr(`!${operand(translateCondition(args[0], resolver, path))}`)
+    case 'Fn::Base64':
+      return call('base64encode', value(0))
+    case 'Fn::FindInMap':
+      return findInMap(argument, resolver, path)
+    case 'Fn::Cidr':
+      return cidr(argument, resolver, path)
+    case 'Fn::ToJsonString':
+      return call('jsonencode', value(0))
+    case 'Fn::Length':
+      return call('length', value(0))
+  }
+  resolver.unsupported(name, `${name} has no Terraform translation`, path)
+  return null
+}
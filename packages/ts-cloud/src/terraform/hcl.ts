@@ -0,0 +1,216 @@
+/**
+ * A small HCL writer.
+ *
+ * Values are plain JSON plus two expression types: `HclExpression` is written
+ * as is, and `HclCall` is a function call whose arguments are formatted like
+ * any other value. Output follows `terraform fmt` closely enough that running
+ * it afterwards changes little.
+ */
+
+/** An expression written verbatim, e.g. `aws_vpc.main.id`. */
+export class HclExpression {
+  constructor(readonly source: string) {}
+}
+
+/** A function call, e.g. `jsonencode({ ... })`. */
+export class HclCall {
+  constructor(
+    readonly name: string,
+    readonly args: HclValue[],
+  ) {}
+}
+
+export type HclValue =
+  | string
+  | number
+  | boolean
+  | null
+  | HclExpression
+  | HclCall
+  | HclValue[]
+  | { [key: string]: HclValue }
+
+export interface HclAttribute {
+  name: string
+  value: HclValue
+}
+
+export interface HclBlock {
+  type: string
+  labels: string[]
+  body: HclBodyItem[]
+}
+
+export type HclBodyItem = HclAttribute | HclBlock
+
+export function expr(source: string): HclExpression {
+  return new HclExpression(source)
+}
+
+export function call(name: string, ...args: HclValue[]): HclCall {
+  return new HclCall(name, args)
+}
+
+export function isBlock(item: HclBodyItem): item is HclBlock {
+  return 'type' in item
+}
+
+/** `WebServerSG` to `web_server_sg`, for resource labels and variable names. */
+export function snakeCase(name: string): string {
+  const snake = name
+    .replace(/([a-z\d])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase()
+  if (!snake) return 'unnamed'
+  return /^\d/.test(snake) ? `r_${snake}` : snake
+}
+
+const KEYWORDS = new Set(['true', 'false', 'null', 'for', 'in', 'if', 'endfor', 'endif'])
+
+function objectKey(key: string): string {
+  return /^[A-Za-z_][\w-]*$/.test(key) && !KEYWORDS.has(key) ? key : quote(key)
+}
+
+/** Escapes for the literal parts of a quoted template. */
+export function escapeTemplate(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/\$\{/g, '$${')
+    .replace(/%\{/g, '%%{')
+}
+
+/** Escapes for the literal parts of a heredoc, which only interprets interpolations. */
+export function escapeHeredoc(text: string): string {
+  return text.replace(/\$\{/g, '$${').replace(/%\{/g, '%%{')
+}
+
+export function quote(text: string): string {
+  return `"${escapeTemplate(text)}"`
+}
+
+/**
+ * A heredoc for `body`, which must end with a newline because the heredoc
+ * always adds one. The marker is chosen so it cannot appear in the body,
+ * indented or not: HCL closes a heredoc on the marker after any whitespace.
+ */
+export function heredoc(body: string): string {
+  const lines = body.split('\n').map((line) => line.trim())
+  let marker = 'EOT'
+  while (lines.includes(marker)) marker = `${marker}_`
+  return `<<${marker}\n${body}${marker}\n`
+}
+
+function isPlainObject(value: HclValue): value is { [key: string]: HclValue } {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false
+  return !(value instanceof HclExpression) && !(value instanceof HclCall)
+}
+
+/** A value on one line, for interpolations and conditions. */
+export function inline(value: HclValue): string {
+  if (value instanceof HclExpression) return value.source
+  if (value instanceof HclCall) return `${value.name}(${value.args.map(inline).join(', ')})`
+  if (Array.isArray(value)) return `[${value.map(inline).join(', ')}]`
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+    return entries.length
+      ? `{ ${entries.map(([key, item]) => `${objectKey(key)} = ${inline(item)}`).join(', ')} }`
+      : '{}'
+  }
+  if (typeof value === 'string') return quote(value)
+  return String(value)
+}
+
+function isSimple(value: HclValue): boolean {
+  if (Array.isArray(value)) return value.every((item) => !Array.isArray(item) && !isPlainObject(item) && isSimple(item))
+  if (isPlainObject(value)) return false
+  if (value instanceof HclCall) return value.args.every(isSimple)
+  return !(typeof value === 'string' && value.includes('\n'))
+}
+
+function renderValue(value: HclValue, indent: string): string {
+  if (value instanceof HclCall) {
+    const args = value.args.map((arg) => renderValue(arg, indent))
+    return `${value.name}(${args.join(', ')})`
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]'
+    const single = inline(value)
+    if (isSimple(value) && single.length + indent.length <= 100) return single
+    const inner = `${indent}  `
+    return `[\n${value.map((item) => `${inner}${renderValue(item, inner)},`).join('\n')}\n${indent}]`
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+    if (entries.length === 0) return '{}'
+    const inner = `${indent}  `
+    const lines = alignAssignments(
+      entries.map(([key, item]) => ({ name: objectKey(key), value: renderValue(item, inner) })),
+      inner,
+    )
+    return `{\n${lines.join('\n')}\n${indent}}`
+  }
+  if (typeof value === 'string' && value.includes('\n') && value.endsWith('\n')) return heredoc(escapeHeredoc(value))
+  return inline(value)
+}
+
+/** Lines of `name = value`, with the `=` of consecutive one-line assignments aligned like `terraform fmt`. */
+function alignAssignments(assignments: Array<{ name: string; value: string }>, indent: string): string[] {
+  const lines: string[] = []
+  let group: Array<{ name: string; value: string }> = []
+  const flush = (): void => {
+    const width = Math.max(0, ...group.map((item) => item.name.length))
+    for (const item of group) lines.push(`${indent}${item.name.padEnd(width)} = ${item.value}`)
+    group = []
+  }
+  for (const assignment of assignments) {
+    if (assignment.value.includes('\n')) {
+      flush()
+      lines.push(`${indent}${assignment.name} = ${assignment.value}`)
+    } else group.push(assignment)
+  }
+  flush()
+  return lines.map((line) => line.replace(/\n$/, ''))
+}
+
+function renderBody(body: HclBodyItem[], indent: string): string[] {
+  const lines: string[] = []
+  let attributes: HclAttribute[] = []
+  const flush = (): void => {
+    if (!attributes.length) return
+    lines.push(
+      ...alignAssignments(
+        attributes.map((attribute) => ({ name: attribute.name, value: renderValue(attribute.value, indent) })),
+        indent,
+      ),
+    )
+    attributes = []
+  }
+  for (const item of body) {
+    if (!isBlock(item)) {
+      attributes.push(item)
+      continue
+    }
+    flush()
+    if (lines.length) lines.push('')
+    lines.push(...renderBlock(item, indent).split('\n'))
+  }
+  flush()
+  return lines
+}
+
+export function renderBlock(block: HclBlock, indent = ''): string {
+  const header = [block.type, ...block.labels.map(quote)].join(' ')
+  if (block.body.length === 0) return `${indent}${header} {}`
+  return [`${indent}${header} {`, ...renderBody(block.body, `${indent}  `), `${indent}}`].join('\n')
+}
+
+/** A file of top-level blocks separated by blank lines. */
+export function renderFile(blocks: HclBlock[]): string {
+  return `${blocks.map((block) => renderBlock(block)).join('\n\n')}\n`
+}
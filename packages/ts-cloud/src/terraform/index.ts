@@ -0,0 +1,7 @@
+export * from './model'
+export * from './hcl'
+export * from './expressions'
+export * from './resources'
+export * from './exporter'
+export * from './report'
+export * from './service'
@@ -0,0 +1,73 @@
+/** A CloudFormation template as the exporter reads it. */
+export interface ExportableTemplate {
+  Description?: string
+  Parameters?: Record<string, TemplateParameter>
+  Mappings?: Record<string, Record<string, Record<string, unknown>>>
+  Conditions?: Record<string, unknown>
+  Resources?: Record<string, TemplateResource>
+  Outputs?: Record<string, { Value: unknown; Description?: string; Export?: unknown; Condition?: string }>
+}
+
+export interface TemplateParameter {
+  Type: string
+  Default?: unknown
+  Description?: string
+  AllowedValues?: unknown[]
+  NoEcho?: boolean | string
+}
+
+export interface TemplateResource {
+  Type: string
+  Properties?: Record<string, any>
+  DependsOn?: string | string[]
+  Condition?: string
+  DeletionPolicy?: string
+  UpdateReplacePolicy?: string
+}
+
+/**
+ * How much of a construct made it into the HCL.
+ *
+ * `unsupported` constructs were left out; `manual` ones were exported but need
+ * a person to finish them, e.g. a placeholder variable to fill in.
+ */
+export type TerraformIssueSeverity = 'unsupported' | 'manual'
+
+export interface TerraformExportIssue {
+  severity: TerraformIssueSeverity
+  /** Logical ID of the resource, parameter or output the issue is about. */
+  logicalId?: string
+  resourceType?: string
+  /** The property, function or attribute, e.g. `Properties.CorsConfiguration` or `Fn::ImportValue`. */
+  construct: string
+  message: string
+}
+
+export interface TerraformExportOptions {
+  /** Provider region; defaults to `us-east-1`. */
+  region?: string
+  /** Value of `AWS::StackName`. */
+  stackName?: string
+  /**
+   * Physical IDs of deployed resources by logical ID, as CloudFormation lists
+   * them. Each one becomes an `import` block so `tofu plan` adopts the
+   * resource instead of creating a second copy.
+   */
+  deployed?: Record<string, string>
+  /** Version constraint of the `hashicorp/aws` provider. */
+  providerVersion?: string
+}
+
+export interface TerraformExportSummary {
+  resources: number
+  /** Resources left out because their type has no translation. */
+  skippedResources: number
+  imports: number
+}
+
+export interface TerraformExport {
+  /** File name to HCL, e.g. `main.tf`. */
+  files: Record<string, string>
+  issues: TerraformExportIssue[]
+  summary: TerraformExportSummary
+}
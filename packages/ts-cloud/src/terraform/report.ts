@@ -0,0 +1,38 @@
+import type { TerraformExport, TerraformExportIssue } from './model'
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ')
+}
+
+function table(issues: TerraformExportIssue[]): string[] {
+  return [
+    '| Resource | Type | Construct | Detail |',
+    '| --- | --- | --- | --- |',
+    ...issues.map((issue) =>
+      `| ${[issue.logicalId ?? '', issue.resourceType ?? '', issue.construct, issue.message].map(cell).join(' | ')} |`,
+    ),
+  ]
+}
+
+/** A Markdown report of an export, written next to the HCL as `EXPORT_REPORT.md`. */
+export function renderTerraformExportReport(result: TerraformExport): string {
+  const { resources, skippedResources, imports } = result.summary
+  const unsupported = result.issues.filter((issue) => issue.severity === 'unsupported')
+  const manual = result.issues.filter((issue) => issue.severity === 'manual')
+  const lines = [
+    '# Terraform export report',
+    '',
+    `${resources} resources exported, ${skippedResources} left out, ${imports} import blocks.`,
+    `Files: ${Object.keys(result.files).join(', ')}.`,
+  ]
+  if (unsupported.length) {
+    lines.push('', '## Not exported', '', 'Recreate these by hand before retiring the CloudFormation stack.', '')
+    lines.push(...table(unsupported))
+  }
+  if (manual.length) {
+    lines.push('', '## Needs attention', '', 'Exported, but finish these before running `tofu plan`.', '')
+    lines.push(...table(manual))
+  }
+  if (!result.issues.length) lines.push('', 'Everything in the template was exported.')
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,1803 @@
+/**
+ * CloudFormation resource types and their `hashicorp/aws` counterparts.
+ *
+ * Each entry says which Terraform resource a type becomes, what `Ref` and
+ * `Fn::GetAtt` resolve to, and how each property is written. A property that
+ * maps to a plain attribute is just the attribute name; anything with a
+ * different shape has a translator. Properties without an entry are reported,
+ * never guessed: a silently wrong attribute is worse than a gap in the report.
+ */
+import type { HclExpression, HclValue } from './hcl'
+import type { TemplateResource } from './model'
+import { call, expr, inline, snakeCase } from './hcl'
+import { isIntrinsic } from './expressions'
+
+/** Where a translator writes: a resource, data source or nested block. */
+export interface TranslationScope {
+  logicalId: string
+  /** Label of the resource being translated. */
+  name: string
+  /** Properties of the resource being translated. */
+  properties: Record<string, any>
+  /** Deployed ID of the resource being translated, when it is imported. */
+  physicalId?: string
+  /** Adds `name = value`, translating intrinsic functions. Absent values are left out. */
+  attribute: (name: string, value: unknown, path: string) => void
+  /** Adds a value that is already HCL. */
+  set: (name: string, value: HclValue) => void
+  value: (value: unknown, path: string) => HclValue | undefined
+  /** Whether an attribute or nested block called `name` was written. */
+  has: (name: string) => boolean
+  /** Appends a nested block. */
+  block: (name: string) => TranslationScope
+  /** The nested block called `name`, created on first use. */
+  nested: (name: string) => TranslationScope
+  /** Writes `properties` according to `spec`, reporting properties it has no entry for. */
+  apply: (spec: PropertySpec, properties: unknown, path: string) => void
+  /** A reference to an attribute of the block's resource or data source. */
+  ref: (attribute: string) => HclExpression
+  /** A reference to an attribute of the resource being translated. */
+  self: (attribute: string) => HclExpression
+  /**
+   * Another resource written for this one, such as the versioning of a bucket.
+   * Asking for the same type and suffix again returns the same resource.
+   */
+  companion: (type: string, suffix: string, importId?: string) => TranslationScope
+  data: (type: string, suffix: string) => TranslationScope
+  /** The deployed ID of a literal, or of a `Ref` to a deployed resource. */
+  physical: (value: unknown) => string | undefined
+  requireProvider: (provider: 'archive' | 'random') => void
+  unsupported: (path: string, message: string) => void
+  manual: (path: string, message: string) => void
+}
+
+export type PropertyTranslator = (value: unknown, scope: TranslationScope, path: string) => void
+
+export type PropertySpec = Record<string, string | PropertyTranslator>
+
+export interface ResourceTranslation {
+  type: string
+  /** Attribute a `Ref` resolves to. */
+  ref: string
+  /**
+   * `Fn::GetAtt` names to attributes, or to an expression built from the
+   * address of a companion resource.
+   */
+  attributes?: Record<string, string | ((address: (type: string, suffix: string) => string) => string)>
+  properties: PropertySpec
+  /** Writes what Terraform requires and CloudFormation defaults. */
+  finish?: (scope: TranslationScope, resource: TemplateResource) => void
+  /** Terraform import ID from the physical ID; the physical ID itself when absent. */
+  importId?: (physicalId: string, scope: TranslationScope) => string | undefined
+}
+
+export const NOT_LITERAL: string = 'is built by an intrinsic function, so its shape is only known at deploy time'
+
+function isPlain(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value) && !isIntrinsic(value)
+}
+
+function block(name: string, spec: PropertySpec, finish?: (scope: TranslationScope) => void): PropertyTranslator {
+  return (value, scope, path) => {
+    if (!isPlain(value)) return scope.unsupported(path, NOT_LITERAL)
+    const nested = scope.block(name)
+    nested.apply(spec, value, path)
+    finish?.(nested)
+  }
+}
+
+function blocks(name: string, spec: PropertySpec, finish?: (scope: TranslationScope) => void): PropertyTranslator {
+  return (value, scope, path) => {
+    if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+    value.forEach((item, index) => block(name, spec, finish)(item, scope, `${path}[${index}]`))
+  }
+}
+
+/** Writes the properties of a nested object onto the enclosing block. */
+function flatten(spec: PropertySpec): PropertyTranslator {
+  return (value, scope, path) =>
+    isPlain(value) ? scope.apply(spec, value, path) : scope.unsupported(path, NOT_LITERAL)
+}
+
+/** Writes a property into a nested block shared with other properties. */
+function into(blockName: string, attribute: string): PropertyTranslator {
+  return (value, scope, path) => scope.nested(blockName).attribute(attribute, value, path)
+}
+
+function json(name: string): PropertyTranslator {
+  return (value, scope, path) => {
+    if (typeof value === 'string') return scope.attribute(name, value, path)
+    const translated = scope.value(value, path)
+    if (translated !== undefined) scope.set(name, call('jsonencode', translated))
+  }
+}
+
+/** A single value where Terraform takes a list. */
+function listOf(name: string): PropertyTranslator {
+  return (value, scope, path) => {
+    const translated = scope.value(value, path)
+    if (translated !== undefined) scope.set(name, [translated])
+  }
+}
+
+/** A list of `{ Name, Value }` pairs as a map. */
+function pairs(name: string, keyField = 'Name', valueField = 'Value'): PropertyTranslator {
+  return (value, scope, path) => {
+    if (isPlain(value)) return scope.attribute(name, value, path)
+    if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+    const map: Record<string, HclValue> = {}
+    value.forEach((pair, index) => {
+      if (!isPlain(pair) || typeof pair[keyField] !== 'string')
+        return scope.unsupported(`${path}[${index}]`, `has a ${keyField} that is not a literal`)
+      const translated = scope.value(pair[valueField], `${path}[${index}].${valueField}`)
+      if (translated !== undefined) map[pair[keyField]] = translated
+    })
+    if (Object.keys(map).length) scope.set(name, map)
+  }
+}
+
+const tags: PropertyTranslator = pairs('tags', 'Key', 'Value')
+
+/** A property Terraform has no attribute for, with the reason. */
+function drop(message: string): PropertyTranslator {
+  return (_value, scope, path) => scope.unsupported(path, message)
+}
+
+/** The physical ID of a referenced resource, followed by a separator and more. */
+function joined(scope: TranslationScope, separator: string, ...values: unknown[]): string | undefined {
+  const ids = values.map((value) => scope.physical(value))
+  return ids.every((id) => id !== undefined) ? ids.join(separator) : undefined
+}
+
+const arnName = (arn: string): string => arn.slice(arn.lastIndexOf('/') + 1)
+
+// Networking
+
+const securityGroupRule: PropertySpec = {
+  IpProtocol: 'protocol',
+  FromPort: 'from_port',
+  ToPort: 'to_port',
+  CidrIp: listOf('cidr_blocks'),
+  CidrIpv6: listOf('ipv6_cidr_blocks'),
+  SourceSecurityGroupId: listOf('security_groups'),
+  DestinationSecurityGroupId: listOf('security_groups'),
+  SourcePrefixListId: listOf('prefix_list_ids'),
+  DestinationPrefixListId: listOf('prefix_list_ids'),
+  Description: 'description',
+}
+
+/** Terraform requires ports on every rule; CloudFormation leaves them out for all-traffic rules. */
+function rulePorts(scope: TranslationScope, rule: Record<string, any>): void {
+  if (rule.FromPort === undefined) scope.set('from_port', 0)
+  if (rule.ToPort === undefined) scope.set('to_port', 0)
+}
+
+function securityGroupRules(name: string): PropertyTranslator {
+  return (value, scope, path) => {
+    if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+    value.forEach((rule, index) => {
+      if (!isPlain(rule)) return scope.unsupported(`${path}[${index}]`, NOT_LITERAL)
+      const nested = scope.block(name)
+      nested.apply(securityGroupRule, rule, `${path}[${index}]`)
+      rulePorts(nested, rule)
+    })
+  }
+}
+
+const standaloneRule: PropertySpec = {
+  GroupId: 'security_group_id',
+  IpProtocol: 'ip_protocol',
+  FromPort: 'from_port',
+  ToPort: 'to_port',
+  CidrIp: 'cidr_ipv4',
+  CidrIpv6: 'cidr_ipv6',
+  SourceSecurityGroupId: 'referenced_security_group_id',
+  DestinationSecurityGroupId: 'referenced_security_group_id',
+  SourcePrefixListId: 'prefix_list_id',
+  DestinationPrefixListId: 'prefix_list_id',
+  Description: 'description',
+}
+
+const ruleId = (physicalId: string): string | undefined => (physicalId.startsWith('sgr-') ? physicalId : undefined)
+
+const ebs: PropertySpec = {
+  VolumeSize: 'volume_size',
+  VolumeType: 'volume_type',
+  Iops: 'iops',
+  Throughput: 'throughput',
+  Encrypted: 'encrypted',
+  KmsKeyId: 'kms_key_id',
+  DeleteOnTermination: 'delete_on_termination',
+}
+
+/** Root volumes are `root_block_device`; every other mapping is an `ebs_block_device`. */
+const blockDeviceMappings: PropertyTranslator = (value, scope, path) => {
+  if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+  value.forEach((mapping, index) => {
+    const at = `${path}[${index}]`
+    if (!isPlain(mapping) || !isPlain(mapping.Ebs)) return scope.unsupported(at, 'is not an EBS volume mapping')
+    const root = ['/dev/xvda', '/dev/sda1'].includes(mapping.DeviceName)
+    const device = scope.block(root ? 'root_block_device' : 'ebs_block_device')
+    if (!root) device.attribute('device_name', mapping.DeviceName, `${at}.DeviceName`)
+    device.apply(root ? ebs : { ...ebs, SnapshotId: 'snapshot_id' }, mapping.Ebs, `${at}.Ebs`)
+  })
+}
+
+/** `UserData` is base64 in CloudFormation; write the plain text when the template encodes it inline. */
+const userData: PropertyTranslator = (value, scope, path) => {
+  if (isPlain(value) || !isIntrinsic(value) || !('Fn::Base64' in value))
+    return scope.attribute('user_data_base64', value, path)
+  scope.attribute('user_data', value['Fn::Base64'], path)
+}
+
+// Identity
+
+const rolePolicies: PropertyTranslator = (value, scope, path) => {
+  if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+  value.forEach((policy, index) => {
+    const at = `${path}[${index}]`
+    if (!isPlain(policy)) return scope.unsupported(at, NOT_LITERAL)
+    const literalName = typeof policy.PolicyName === 'string' ? policy.PolicyName : undefined
+    const importId = scope.physicalId && literalName ? `${scope.physicalId}:${literalName}` : undefined
+    const suffix = literalName ? snakeCase(literalName) : `policy_${index}`
+    const rolePolicy = scope.companion('aws_iam_role_policy', suffix, importId)
+    rolePolicy.attribute('name', policy.PolicyName, `${at}.PolicyName`)
+    rolePolicy.set('role', scope.self('id'))
+    json('policy')(policy.PolicyDocument, rolePolicy, `${at}.PolicyDocument`)
+  })
+}
+
+/** One attachment per policy ARN, named after the policy when the ARN is a literal. */
+function policyAttachments(
+  scope: TranslationScope,
+  value: unknown,
+  path: string,
+  attach: (attachment: TranslationScope, item: unknown, at: string) => void,
+  importId: (item: unknown) => string | undefined,
+): void {
+  if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+  value.forEach((item, index) => {
+    const suffix = typeof item === 'string' ? snakeCase(arnName(item)) : `attachment_${index}`
+    attach(scope.companion('aws_iam_role_policy_attachment', suffix, importId(item)), item, `${path}[${index}]`)
+  })
+}
+
+const managedPolicyArns: PropertyTranslator = (value, scope, path) =>
+  policyAttachments(
+    scope,
+    value,
+    path,
+    (attachment, arn, at) => {
+      attachment.set('role', scope.self('name'))
+      attachment.attribute('policy_arn', arn, at)
+    },
+    (arn) => joined(scope, '/', scope.physicalId, arn),
+  )
+
+const managedPolicyRoles: PropertyTranslator = (value, scope, path) =>
+  policyAttachments(
+    scope,
+    value,
+    path,
+    (attachment, role, at) => {
+      attachment.attribute('role', role, at)
+      attachment.set('policy_arn', scope.self('arn'))
+    },
+    (role) => joined(scope, '/', role, scope.physicalId),
+  )
+
+// Storage
+
+function bucketPart(type: string, suffix: string, scope: TranslationScope): TranslationScope {
+  const part = scope.companion(type, suffix, scope.physicalId)
+  part.set('bucket', scope.self('id'))
+  return part
+}
+
+const bucketEncryption: PropertyTranslator = (value, scope, path) => {
+  if (!isPlain(value) || !Array.isArray(value.ServerSideEncryptionConfiguration))
+    return scope.unsupported(path, NOT_LITERAL)
+  const part = bucketPart('aws_s3_bucket_server_side_encryption_configuration', 'encryption', scope)
+  blocks('rule', {
+    BucketKeyEnabled: 'bucket_key_enabled',
+    ServerSideEncryptionByDefault: block('apply_server_side_encryption_by_default', {
+      SSEAlgorithm: 'sse_algorithm',
+      KMSMasterKeyID: 'kms_master_key_id',
+    }),
+  })(value.ServerSideEncryptionConfiguration, part, `${path}.ServerSideEncryptionConfiguration`)
+}
+
+const lifecycleRule: PropertySpec = {
+  Id: 'id',
+  Status: 'status',
+  Prefix: into('filter', 'prefix'),
+  ExpirationInDays: into('expiration', 'days'),
+  ExpiredObjectDeleteMarker: into('expiration', 'expired_object_delete_marker'),
+  NoncurrentVersionExpirationInDays: into('noncurrent_version_expiration', 'noncurrent_days'),
+  NoncurrentVersionExpiration: block('noncurrent_version_expiration', {
+    NoncurrentDays: 'noncurrent_days',
+    NewerNoncurrentVersions: 'newer_noncurrent_versions',
+  }),
+  AbortIncompleteMultipartUpload: block('abort_incomplete_multipart_upload', {
+    DaysAfterInitiation: 'days_after_initiation',
+  }),
+  Transitions: blocks('transition', { StorageClass: 'storage_class', TransitionInDays: 'days' }),
+  NoncurrentVersionTransitions: blocks('noncurrent_version_transition', {
+    StorageClass: 'storage_class',
+    TransitionInDays: 'noncurrent_days',
+  }),
+}
+
+const bucketConfiguration = (
+  type: string,
+  suffix: string,
+  spec: PropertySpec,
+  finish?: (scope: TranslationScope) => void,
+): PropertyTranslator => {
+  return (value, scope, path) => {
+    if (!isPlain(value)) return scope.unsupported(path, NOT_LITERAL)
+    const part = bucketPart(type, suffix, scope)
+    part.apply(spec, value, path)
+    finish?.(part)
+  }
+}
+
+const keySchema: PropertyTranslator = (value, scope, path) => {
+  if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+  for (const [index, key] of value.entries()) {
+    const attribute = key?.KeyType === 'HASH' ? 'hash_key' : key?.KeyType === 'RANGE' ? 'range_key' : undefined
+    if (!attribute) scope.unsupported(`${path}[${index}]`, 'has no literal KeyType')
+    else scope.attribute(attribute, key.AttributeName, `${path}[${index}].AttributeName`)
+  }
+}
+
+const throughput: PropertyTranslator = flatten({
+  ReadCapacityUnits: 'read_capacity',
+  WriteCapacityUnits: 'write_capacity',
+})
+
+const projection: PropertyTranslator = flatten({
+  ProjectionType: 'projection_type',
+  NonKeyAttributes: 'non_key_attributes',
+})
+
+// Compute
+
+/** Inline `ZipFile` code becomes an `archive_file` the function is deployed from. */
+const lambdaCode: PropertyTranslator = (value, scope, path) => {
+  if (!isPlain(value)) return scope.unsupported(path, NOT_LITERAL)
+  const { ZipFile, ...rest } = value
+  scope.apply(
+    { S3Bucket: 's3_bucket', S3Key: 's3_key', S3ObjectVersion: 's3_object_version', ImageUri: 'image_uri' },
+    rest,
+    path,
+  )
+  if (ZipFile === undefined) return
+  scope.requireProvider('archive')
+  const handler = typeof scope.properties.Handler === 'string' ? scope.properties.Handler : 'index.handler'
+  const runtime = String(scope.properties.Runtime ?? '')
+  const archive = scope.data('archive_file', 'code')
+  archive.set('type', 'zip')
+  archive.set('output_path', expr(`"\${path.module}/build/${scope.name}.zip"`))
+  const source = archive.block('source')
+  source.attribute('content', ZipFile, `${path}.ZipFile`)
+  source.set('filename', `${handler.split('.')[0]}.${runtime.startsWith('python') ? 'py' : 'js'}`)
+  scope.set('filename', archive.ref('output_path'))
+  scope.set('source_code_hash', archive.ref('output_base64sha256'))
+}
+
+/** The characters Secrets Manager treats as punctuation. */
+const PUNCTUATION = '!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~'
+
+const generatedSecret: PropertyTranslator = (value, scope, path) => {
+  if (!isPlain(value)) return scope.unsupported(path, NOT_LITERAL)
+  if (scope.physicalId) {
+    return scope.manual(
+      path,
+      'is not exported for a deployed secret, because Terraform would replace its value with a new random one',
+    )
+  }
+  scope.requireProvider('random')
+  const password = scope.companion('random_password', 'value')
+  password.attribute('length', value.PasswordLength ?? 32, `${path}.PasswordLength`)
+  if (value.ExcludePunctuation === true) password.set('special', false)
+  if (value.ExcludeUppercase === true) password.set('upper', false)
+  if (value.ExcludeLowercase === true) password.set('lower', false)
+  if (value.ExcludeNumbers === true) password.set('numeric', false)
+  if (typeof value.ExcludeCharacters === 'string') {
+    const excluded = new Set(value.ExcludeCharacters)
+    password.set('override_special', [...PUNCTUATION].filter((char) => !excluded.has(char)).join(''))
+    if (/[A-Za-z0-9]/.test(value.ExcludeCharacters))
+      scope.manual(`${path}.ExcludeCharacters`, 'excludes letters or digits, which random_password cannot leave out')
+  } else if (value.ExcludePunctuation !== true) password.set('override_special', PUNCTUATION)
+  if (value.IncludeSpace === true) scope.unsupported(`${path}.IncludeSpace`, 'has no random_password equivalent')
+  const secretVersion = scope.companion('aws_secretsmanager_secret_version', 'value')
+  secretVersion.set('secret_id', scope.self('id'))
+  const result = password.ref('result')
+  if (value.SecretStringTemplate !== undefined && typeof value.GenerateStringKey === 'string') {
+    const template = scope.value(value.SecretStringTemplate, `${path}.SecretStringTemplate`) ?? '{}'
+    const generated = { [value.GenerateStringKey]: result }
+    secretVersion.set('secret_string', call('jsonencode', call('merge', call('jsondecode', template), generated)))
+  } else secretVersion.set('secret_string', result)
+}
+
+/** Container definitions use the ECS API's camelCase keys in Terraform. */
+function camelCaseKeys(value: HclValue | undefined, verbatim = false): HclValue | undefined {
+  if (Array.isArray(value)) return value.map((item) => camelCaseKeys(item) as HclValue)
+  if (value === null || value === undefined || typeof value !== 'object' || !isPlain(value)) return value
+  const result: Record<string, HclValue> = {}
+  for (const [key, item] of Object.entries(value as Record<string, HclValue>)) {
+    const name = verbatim ? key : key.charAt(0).toLowerCase() + key.slice(1)
+    // Map-valued settings are keyed by driver options and labels, not by API field names.
+    result[name] = camelCaseKeys(item, ['Options', 'DockerLabels', 'SystemControls'].includes(key)) as HclValue
+  }
+  return result
+}
+
+const containerDefinitions: PropertyTranslator = (value, scope, path) => {
+  const translated = camelCaseKeys(scope.value(value, path))
+  if (translated !== undefined) scope.set('container_definitions', call('jsonencode', translated))
+}
+
+const cloudWatchMetrics: PropertyTranslator = blocks('metric_query', {
+  Id: 'id',
+  Expression: 'expression',
+  Label: 'label',
+  ReturnData: 'return_data',
+  Period: 'period',
+  AccountId: 'account_id',
+  MetricStat: (value, scope, path) => {
+    if (!isPlain(value)) return scope.unsupported(path, NOT_LITERAL)
+    const metric = scope.block('metric')
+    const { Metric, ...stat } = value
+    metric.apply({ Period: 'period', Stat: 'stat', Unit: 'unit' }, stat, path)
+    metric.apply(
+      { MetricName: 'metric_name', Namespace: 'namespace', Dimensions: pairs('dimensions') },
+      Metric,
+      `${path}.Metric`,
+    )
+  },
+})
+
+// Load balancing
+
+const listenerAction: PropertySpec = {
+  Type: 'type',
+  Order: 'order',
+  TargetGroupArn: 'target_group_arn',
+  RedirectConfig: block('redirect', {
+    Host: 'host',
+    Path: 'path',
+    Port: 'port',
+    Protocol: 'protocol',
+    Query: 'query',
+    StatusCode: 'status_code',
+  }),
+  FixedResponseConfig: block('fixed_response', {
+    ContentType: 'content_type',
+    MessageBody: 'message_body',
+    StatusCode: 'status_code',
+  }),
+  ForwardConfig: block('forward', {
+    TargetGroups: blocks('target_group', { TargetGroupArn: 'arn', Weight: 'weight' }),
+    TargetGroupStickinessConfig: block('stickiness', { Enabled: 'enabled', DurationSeconds: 'duration' }),
+  }),
+}
+
+const CONDITION_BLOCKS: Record<string, string> = {
+  'path-pattern': 'path_pattern',
+  'host-header': 'host_header',
+  'http-request-method': 'http_request_method',
+  'source-ip': 'source_ip',
+}
+
+const CONDITION_CONFIGS: Record<string, string> = {
+  'path-pattern': 'PathPatternConfig',
+  'host-header': 'HostHeaderConfig',
+  'http-request-method': 'HttpRequestMethodConfig',
+  'source-ip': 'SourceIpConfig',
+}
+
+const listenerConditions: PropertyTranslator = (value, scope, path) => {
+  if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+  value.forEach((item, index) => {
+    const at = `${path}[${index}]`
+    if (!isPlain(item)) return scope.unsupported(at, NOT_LITERAL)
+    const condition = scope.block('condition')
+    const field = String(item.Field)
+    if (field === 'http-header') {
+      condition.apply(
+        { HttpHeaderName: 'http_header_name', Values: 'values' },
+        item.HttpHeaderConfig,
+        `${at}.HttpHeaderConfig`,
+      )
+      return
+    }
+    if (field === 'query-string') {
+      blocks('query_string', { Key: 'key', Value: 'value' })(
+        item.QueryStringConfig?.Values,
+        condition,
+        `${at}.QueryStringConfig.Values`,
+      )
+      return
+    }
+    const name = CONDITION_BLOCKS[field]
+    if (!name) return scope.unsupported(at, `has condition field ${field}, which has no translation`)
+    const values = item[CONDITION_CONFIGS[field]]?.Values ?? item.Values
+    condition.block(name).attribute('values', values, `${at}.${CONDITION_CONFIGS[field]}.Values`)
+  })
+}
+
+const LOAD_BALANCER_ATTRIBUTES: Record<string, string> = {
+  'idle_timeout.timeout_seconds': 'idle_timeout',
+  'deletion_protection.enabled': 'enable_deletion_protection',
+  'routing.http2.enabled': 'enable_http2',
+  'routing.http.drop_invalid_header_fields.enabled': 'drop_invalid_header_fields',
+  'load_balancing.cross_zone.enabled': 'enable_cross_zone_load_balancing',
+}
+
+const TARGET_GROUP_ATTRIBUTES: Record<string, string> = {
+  'deregistration_delay.timeout_seconds': 'deregistration_delay',
+  'slow_start.duration_seconds': 'slow_start',
+  'load_balancing.algorithm.type': 'load_balancing_algorithm_type',
+  'stickiness.enabled': 'stickiness.enabled',
+  'stickiness.type': 'stickiness.type',
+  'stickiness.lb_cookie.duration_seconds': 'stickiness.cookie_duration',
+}
+
+/** `[{ Key, Value }]` attributes as top-level arguments and nested blocks (`block.argument`). */
+function keyedAttributes(known: Record<string, string>, nestedPrefixes: Record<string, string>): PropertyTranslator {
+  return (value, scope, path) => {
+    if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+    value.forEach((item, index) => {
+      const at = `${path}[${index}]`
+      const key = isPlain(item) ? item.Key : undefined
+      const prefix = Object.keys(nestedPrefixes).find((candidate) => String(key).startsWith(candidate))
+      if (typeof key === 'string' && prefix) {
+        const argument = key.slice(prefix.length).replace(/\./g, '_')
+        return scope.nested(nestedPrefixes[prefix]).attribute(argument, item.Value, `${at}.Value`)
+      }
+      const target = typeof key === 'string' ? known[key] : undefined
+      if (!target) return scope.unsupported(at, `sets ${String(key)}, which has no translation`)
+      const [first, second] = target.split('.')
+      if (second) scope.nested(first).attribute(second, item.Value, `${at}.Value`)
+      else scope.attribute(first, item.Value, `${at}.Value`)
+    })
+  }
+}
+
+// Edge
+
+const cacheBehavior: PropertySpec = {
+  TargetOriginId: 'target_origin_id',
+  ViewerProtocolPolicy: 'viewer_protocol_policy',
+  AllowedMethods: 'allowed_methods',
+  CachedMethods: 'cached_methods',
+  CachePolicyId: 'cache_policy_id',
+  OriginRequestPolicyId: 'origin_request_policy_id',
+  ResponseHeadersPolicyId: 'response_headers_policy_id',
+  Compress: 'compress',
+  DefaultTTL: 'default_ttl',
+  MinTTL: 'min_ttl',
+  MaxTTL: 'max_ttl',
+  SmoothStreaming: 'smooth_streaming',
+  FieldLevelEncryptionId: 'field_level_encryption_id',
+  RealtimeLogConfigArn: 'realtime_log_config_arn',
+  TrustedKeyGroups: 'trusted_key_groups',
+  TrustedSigners: 'trusted_signers',
+  FunctionAssociations: blocks('function_association', { EventType: 'event_type', FunctionARN: 'function_arn' }),
+  LambdaFunctionAssociations: blocks('lambda_function_association', {
+    EventType: 'event_type',
+    LambdaFunctionARN: 'lambda_arn',
+    IncludeBody: 'include_body',
+  }),
+  ForwardedValues: block('forwarded_values', {
+    QueryString: 'query_string',
+    Headers: 'headers',
+    QueryStringCacheKeys: 'query_string_cache_keys',
+    Cookies: block('cookies', { Forward: 'forward', WhitelistedNames: 'whitelisted_names' }),
+  }),
+}
+
+/** Methods are optional in CloudFormation and required in Terraform. */
+function cacheMethods(scope: TranslationScope): void {
+  if (!scope.has('allowed_methods')) scope.set('allowed_methods', ['GET', 'HEAD'])
+  if (!scope.has('cached_methods')) scope.set('cached_methods', ['GET', 'HEAD'])
+}
+
+const origin: PropertySpec = {
+  DomainName: 'domain_name',
+  Id: 'origin_id',
+  OriginPath: 'origin_path',
+  OriginAccessControlId: 'origin_access_control_id',
+  ConnectionAttempts: 'connection_attempts',
+  ConnectionTimeout: 'connection_timeout',
+  OriginCustomHeaders: blocks('custom_header', { HeaderName: 'name', HeaderValue: 'value' }),
+  // With origin access control the S3 config is empty, and Terraform wants no block at all.
+  S3OriginConfig: (value, scope, path) => {
+    if (isPlain(value) && value.OriginAccessIdentity)
+      block('s3_origin_config', { OriginAccessIdentity: 'origin_access_identity' })(value, scope, path)
+  },
+  CustomOriginConfig: block(
+    'custom_origin_config',
+    {
+      HTTPPort: 'http_port',
+      HTTPSPort: 'https_port',
+      OriginProtocolPolicy: 'origin_protocol_policy',
+      OriginSSLProtocols: 'origin_ssl_protocols',
+      OriginReadTimeout: 'origin_read_timeout',
+      OriginKeepaliveTimeout: 'origin_keepalive_timeout',
+    },
+    (scope) => {
+      if (!scope.has('http_port')) scope.set('http_port', 80)
+      if (!scope.has('https_port')) scope.set('https_port', 443)
+      if (!scope.has('origin_ssl_protocols')) scope.set('origin_ssl_protocols', ['TLSv1.2'])
+    },
+  ),
+  OriginShield: block('origin_shield', { Enabled: 'enabled', OriginShieldRegion: 'origin_shield_region' }),
+}
+
+const distributionConfig: PropertySpec = {
+  Aliases: 'aliases',
+  Comment: 'comment',
+  DefaultRootObject: 'default_root_object',
+  Enabled: 'enabled',
+  HttpVersion: 'http_version',
+  IPV6Enabled: 'is_ipv6_enabled',
+  PriceClass: 'price_class',
+  WebACLId: 'web_acl_id',
+  Origins: blocks('origin', origin),
+  DefaultCacheBehavior: block('default_cache_behavior', cacheBehavior, cacheMethods),
+  CacheBehaviors: blocks('ordered_cache_behavior', { ...cacheBehavior, PathPattern: 'path_pattern' }, cacheMethods),
+  CustomErrorResponses: blocks('custom_error_response', {
+    ErrorCode: 'error_code',
+    ResponseCode: 'response_code',
+    ResponsePagePath: 'response_page_path',
+    ErrorCachingMinTTL: 'error_caching_min_ttl',
+  }),
+  ViewerCertificate: block('viewer_certificate', {
+    AcmCertificateArn: 'acm_certificate_arn',
+    CloudFrontDefaultCertificate: 'cloudfront_default_certificate',
+    IamCertificateId: 'iam_certificate_id',
+    MinimumProtocolVersion: 'minimum_protocol_version',
+    SslSupportMethod: 'ssl_support_method',
+  }),
+  Restrictions: block('restrictions', {
+    GeoRestriction: block('geo_restriction', { RestrictionType: 'restriction_type', Locations: 'locations' }),
+  }),
+  Logging: block('logging_config', { Bucket: 'bucket', Prefix: 'prefix', IncludeCookies: 'include_cookies' }),
+}
+
+/** Blocks Terraform requires on every distribution, at CloudFormation's defaults. */
+function finishDistribution(scope: TranslationScope): void {
+  if (!scope.has('viewer_certificate')) scope.block('viewer_certificate').set('cloudfront_default_certificate', true)
+  if (!scope.has('restrictions')) scope.block('restrictions').block('geo_restriction').set('restriction_type', 'none')
+}
+
+const recordSetZone: PropertyTranslator = (value, scope, path) => {
+  const zone = scope.data('aws_route53_zone', 'zone')
+  zone.attribute('name', value, path)
+  scope.set('zone_id', zone.ref('zone_id'))
+}
+
+/** Route 53 imports records as `ZONEID_NAME_TYPE[_SETID]`. */
+function recordImportId(physicalId: string, scope: TranslationScope): string | undefined {
+  const { HostedZoneId, Name, Type, SetIdentifier } = scope.properties
+  const zone = scope.physical(HostedZoneId)
+  if (!zone || typeof Name !== 'string' || typeof Type !== 'string') return undefined
+  const name = Name.replace(/\.$/, '')
+  if (SetIdentifier !== undefined && typeof SetIdentifier !== 'string') return undefined
+  return [zone, name, Type, SetIdentifier].filter((part) => part !== undefined).join('_')
+}
+
+// Messaging
+
+const eventTargets: PropertyTranslator = (value, scope, path) => {
+  if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+  value.forEach((target, index) => {
+    const at = `${path}[${index}]`
+    if (!isPlain(target)) return scope.unsupported(at, NOT_LITERAL)
+    const id = typeof target.Id === 'string' ? target.Id : undefined
+    const importId = scope.physicalId && id ? `${scope.physicalId}/${id}` : undefined
+    const companion = scope.companion('aws_cloudwatch_event_target', id ? snakeCase(id) : `target_${index}`, importId)
+    companion.set('rule', scope.self('name'))
+    if (scope.properties.EventBusName !== undefined)
+      companion.attribute('event_bus_name', scope.properties.EventBusName, `${path}.EventBusName`)
+    companion.apply(
+      {
+        Id: 'target_id',
+        Arn: 'arn',
+        RoleArn: 'role_arn',
+        Input: 'input',
+        InputPath: 'input_path',
+        InputTransformer: block('input_transformer', {
+          InputPathsMap: 'input_paths',
+          InputTemplate: 'input_template',
+        }),
+        DeadLetterConfig: block('dead_letter_config', { Arn: 'arn' }),
+        RetryPolicy: block('retry_policy', {
+          MaximumEventAgeInSeconds: 'maximum_event_age_in_seconds',
+          MaximumRetryAttempts: 'maximum_retry_attempts',
+        }),
+        SqsParameters: block('sqs_target', { MessageGroupId: 'message_group_id' }),
+      },
+      target,
+      at,
+    )
+  })
+}
+
+/** A policy resource per queue or topic; Terraform attaches one policy to one target. */
+function perTarget(type: string, attribute: string, listProperty: string): ResourceTranslation['finish'] {
+  return (scope) => {
+    const targets = scope.properties[listProperty]
+    if (!Array.isArray(targets)) return scope.unsupported(`Properties.${listProperty}`, NOT_LITERAL)
+    targets.forEach((target, index) => {
+      const policy =
+        index === 0 ? scope : scope.companion(type, `${index}`, scope.physicalId ? scope.physical(target) : undefined)
+      policy.attribute(attribute, target, `Properties.${listProperty}[${index}]`)
+      if (index > 0) json('policy')(scope.properties.PolicyDocument, policy, 'Properties.PolicyDocument')
+    })
+  }
+}
+
+const ignore: PropertyTranslator = () => {}
+
+/** Capacity providers of a cluster are their own resource in Terraform. */
+function capacityProviders(scope: TranslationScope): TranslationScope {
+  const providers = scope.companion('aws_ecs_cluster_capacity_providers', 'capacity_providers', scope.physicalId)
+  if (!providers.has('cluster_name')) providers.set('cluster_name', scope.self('name'))
+  return providers
+}
+
+export const RESOURCE_TRANSLATIONS: Record<string, ResourceTranslation> = {
+  'AWS::EC2::VPC': {
+    type: 'aws_vpc',
+    ref: 'id',
+    attributes: {
+      VpcId: 'id',
+      CidrBlock: 'cidr_block',
+      DefaultSecurityGroup: 'default_security_group_id',
+      DefaultNetworkAcl: 'default_network_acl_id',
+    },
+    properties: {
+      CidrBlock: 'cidr_block',
+      EnableDnsHostnames: 'enable_dns_hostnames',
+      EnableDnsSupport: 'enable_dns_support',
+      InstanceTenancy: 'instance_tenancy',
+      Ipv4IpamPoolId: 'ipv4_ipam_pool_id',
+      Ipv4NetmaskLength: 'ipv4_netmask_length',
+      Tags: tags,
+    },
+  },
+  'AWS::EC2::Subnet': {
+    type: 'aws_subnet',
+    ref: 'id',
+    attributes: { SubnetId: 'id', AvailabilityZone: 'availability_zone', VpcId: 'vpc_id', CidrBlock: 'cidr_block' },
+    properties: {
+      VpcId: 'vpc_id',
+      CidrBlock: 'cidr_block',
+      AvailabilityZone: 'availability_zone',
+      AvailabilityZoneId: 'availability_zone_id',
+      MapPublicIpOnLaunch: 'map_public_ip_on_launch',
+      Ipv6CidrBlock: 'ipv6_cidr_block',
+      AssignIpv6AddressOnCreation: 'assign_ipv6_address_on_creation',
+      Tags: tags,
+    },
+  },
+  'AWS::EC2::InternetGateway': {
+    type: 'aws_internet_gateway',
+    ref: 'id',
+    attributes: { InternetGatewayId: 'id' },
+    properties: { Tags: tags },
+  },
+  'AWS::EC2::VPCGatewayAttachment': {
+    type: 'aws_internet_gateway_attachment',
+    ref: 'id',
+    properties: {
+      InternetGatewayId: 'internet_gateway_id',
+      VpcId: 'vpc_id',
+      VpnGatewayId: drop('attaches a VPN gateway, which is aws_vpn_gateway_attachment in Terraform'),
+    },
+    importId: (_id, scope) => joined(scope, ':', scope.properties.InternetGatewayId, scope.properties.VpcId),
+  },
+  'AWS::EC2::RouteTable': {
+    type: 'aws_route_table',
+    ref: 'id',
+    attributes: { RouteTableId: 'id' },
+    properties: { VpcId: 'vpc_id', Tags: tags },
+  },
+  'AWS::EC2::Route': {
+    type: 'aws_route',
+    ref: 'id',
+    properties: {
+      RouteTableId: 'route_table_id',
+      DestinationCidrBlock: 'destination_cidr_block',
+      DestinationIpv6CidrBlock: 'destination_ipv6_cidr_block',
+      GatewayId: 'gateway_id',
+      NatGatewayId: 'nat_gateway_id',
+      NetworkInterfaceId: 'network_interface_id',
+      TransitGatewayId: 'transit_gateway_id',
+      VpcPeeringConnectionId: 'vpc_peering_connection_id',
+      VpcEndpointId: 'vpc_endpoint_id',
+      EgressOnlyInternetGatewayId: 'egress_only_gateway_id',
+    },
+    importId: (_id, scope) =>
+      joined(
+        scope,
+        '_',
+        scope.properties.RouteTableId,
+        scope.properties.DestinationCidrBlock ?? scope.properties.DestinationIpv6CidrBlock,
+      ),
+  },
+  'AWS::EC2::SubnetRouteTableAssociation': {
+    type: 'aws_route_table_association',
+    ref: 'id',
+    properties: { SubnetId: 'subnet_id', RouteTableId: 'route_table_id' },
+    importId: (_id, scope) => joined(scope, '/', scope.properties.SubnetId, scope.properties.RouteTableId),
+  },
+  'AWS::EC2::EIP': {
+    type: 'aws_eip',
+    ref: 'public_ip',
+    attributes: { AllocationId: 'allocation_id', PublicIp: 'public_ip' },
+    properties: {
+      Domain: 'domain',
+      InstanceId: 'instance',
+      NetworkBorderGroup: 'network_border_group',
+      PublicIpv4Pool: 'public_ipv4_pool',
+      Tags: tags,
+    },
+    importId: (id) => (id.startsWith('eipalloc-') ? id : undefined),
+  },
+  'AWS::EC2::NatGateway': {
+    type: 'aws_nat_gateway',
+    ref: 'id',
+    attributes: { NatGatewayId: 'id' },
+    properties: {
+      AllocationId: 'allocation_id',
+      SubnetId: 'subnet_id',
+      ConnectivityType: 'connectivity_type',
+      PrivateIpAddress: 'private_ip',
+      Tags: tags,
+    },
+  },
+  'AWS::EC2::SecurityGroup': {
+    type: 'aws_security_group',
+    ref: 'id',
+    attributes: { GroupId: 'id', VpcId: 'vpc_id' },
+    properties: {
+      GroupName: 'name',
+      GroupDescription: 'description',
+      VpcId: 'vpc_id',
+      SecurityGroupIngress: securityGroupRules('ingress'),
+      SecurityGroupEgress: securityGroupRules('egress'),
+      Tags: tags,
+    },
+    // CloudFormation keeps the default allow-all egress rule; Terraform removes it unless it is declared.
+    finish: (scope) => {
+      if (scope.properties.SecurityGroupEgress !== undefined) return
+      const egress = scope.block('egress')
+      egress.set('from_port', 0)
+      egress.set('to_port', 0)
+      egress.set('protocol', '-1')
+      egress.set('cidr_blocks', ['0.0.0.0/0'])
+    },
+  },
+  'AWS::EC2::SecurityGroupIngress': {
+    type: 'aws_vpc_security_group_ingress_rule',
+    ref: 'id',
+    properties: standaloneRule,
+    importId: ruleId,
+  },
+  'AWS::EC2::SecurityGroupEgress': {
+    type: 'aws_vpc_security_group_egress_rule',
+    ref: 'id',
+    properties: standaloneRule,
+    importId: ruleId,
+  },
+  'AWS::EC2::Instance': {
+    type: 'aws_instance',
+    ref: 'id',
+    attributes: {
+      InstanceId: 'id',
+      AvailabilityZone: 'availability_zone',
+      PrivateIp: 'private_ip',
+      PublicIp: 'public_ip',
+      PrivateDnsName: 'private_dns',
+      PublicDnsName: 'public_dns',
+    },
+    properties: {
+      ImageId: 'ami',
+      InstanceType: 'instance_type',
+      KeyName: 'key_name',
+      SubnetId: 'subnet_id',
+      SecurityGroupIds: 'vpc_security_group_ids',
+      SecurityGroups: 'security_groups',
+      IamInstanceProfile: 'iam_instance_profile',
+      UserData: userData,
+      Monitoring: 'monitoring',
+      EbsOptimized: 'ebs_optimized',
+      DisableApiTermination: 'disable_api_termination',
+      PrivateIpAddress: 'private_ip',
+      SourceDestCheck: 'source_dest_check',
+      AvailabilityZone: 'availability_zone',
+      Tenancy: 'tenancy',
+      BlockDeviceMappings: blockDeviceMappings,
+      MetadataOptions: block('metadata_options', {
+        HttpTokens: 'http_tokens',
+        HttpEndpoint: 'http_endpoint',
+        HttpPutResponseHopLimit: 'http_put_response_hop_limit',
+        InstanceMetadataTags: 'instance_metadata_tags',
+      }),
+      CreditSpecification: block('credit_specification', { CPUCredits: 'cpu_credits' }),
+      Tags: tags,
+    },
+  },
+  'AWS::IAM::Role': {
+    type: 'aws_iam_role',
+    ref: 'name',
+    attributes: { Arn: 'arn', RoleId: 'unique_id' },
+    properties: {
+      RoleName: 'name',
+      AssumeRolePolicyDocument: json('assume_role_policy'),
+      Description: 'description',
+      Path: 'path',
+      MaxSessionDuration: 'max_session_duration',
+      PermissionsBoundary: 'permissions_boundary',
+      ManagedPolicyArns: managedPolicyArns,
+      Policies: rolePolicies,
+      Tags: tags,
+    },
+  },
+  'AWS::IAM::InstanceProfile': {
+    type: 'aws_iam_instance_profile',
+    ref: 'name',
+    attributes: { Arn: 'arn' },
+    properties: {
+      InstanceProfileName: 'name',
+      Path: 'path',
+      // An instance profile holds at most one role.
+      Roles: (value, scope, path) =>
+        Array.isArray(value) ? scope.attribute('role', value[0], `${path}[0]`) : scope.unsupported(path, NOT_LITERAL),
+    },
+  },
+  'AWS::IAM::ManagedPolicy': {
+    type: 'aws_iam_policy',
+    ref: 'arn',
+    attributes: { PolicyArn: 'arn' },
+    properties: {
+      ManagedPolicyName: 'name',
+      Description: 'description',
+      Path: 'path',
+      PolicyDocument: json('policy'),
+      Roles: managedPolicyRoles,
+      Users: drop('attaches the policy to users, which needs aws_iam_user_policy_attachment resources'),
+      Groups: drop('attaches the policy to groups, which needs aws_iam_group_policy_attachment resources'),
+    },
+  },
+  'AWS::S3::Bucket': {
+    type: 'aws_s3_bucket',
+    ref: 'id',
+    attributes: {
+      Arn: 'arn',
+      DomainName: 'bucket_domain_name',
+      RegionalDomainName: 'bucket_regional_domain_name',
+      WebsiteURL: (address) =>
+        `"http://\${${address('aws_s3_bucket_website_configuration', 'website')}.website_endpoint}"`,
+    },
+    properties: {
+      BucketName: 'bucket',
+      Tags: tags,
+      VersioningConfiguration: bucketConfiguration('aws_s3_bucket_versioning', 'versioning', {
+        Status: into('versioning_configuration', 'status'),
+      }),
+      BucketEncryption: bucketEncryption,
+      PublicAccessBlockConfiguration: bucketConfiguration('aws_s3_bucket_public_access_block', 'public_access', {
+        BlockPublicAcls: 'block_public_acls',
+        BlockPublicPolicy: 'block_public_policy',
+        IgnorePublicAcls: 'ignore_public_acls',
+        RestrictPublicBuckets: 'restrict_public_buckets',
+      }),
+      OwnershipControls: bucketConfiguration('aws_s3_bucket_ownership_controls', 'ownership', {
+        Rules: blocks('rule', { ObjectOwnership: 'object_ownership' }),
+      }),
+      WebsiteConfiguration: bucketConfiguration('aws_s3_bucket_website_configuration', 'website', {
+        IndexDocument: (value, scope, path) => scope.block('index_document').attribute('suffix', value, path),
+        ErrorDocument: (value, scope, path) => scope.block('error_document').attribute('key', value, path),
+        RedirectAllRequestsTo: block('redirect_all_requests_to', { HostName: 'host_name', Protocol: 'protocol' }),
+      }),
+      CorsConfiguration: bucketConfiguration('aws_s3_bucket_cors_configuration', 'cors', {
+        CorsRules: blocks('cors_rule', {
+          Id: 'id',
+          AllowedHeaders: 'allowed_headers',
+          AllowedMethods: 'allowed_methods',
+          AllowedOrigins: 'allowed_origins',
+          ExposedHeaders: 'expose_headers',
+          MaxAge: 'max_age_seconds',
+        }),
+      }),
+      LifecycleConfiguration: bucketConfiguration('aws_s3_bucket_lifecycle_configuration', 'lifecycle', {
+        Rules: blocks('rule', lifecycleRule, (rule) => rule.nested('filter')),
+      }),
+      LoggingConfiguration: bucketConfiguration('aws_s3_bucket_logging', 'logging', {
+        DestinationBucketName: 'target_bucket',
+        LogFilePrefix: 'target_prefix',
+      }),
+      AccessControl: drop('sets a canned ACL; S3 disables ACLs on new buckets, so set them with aws_s3_bucket_acl'),
+      NotificationConfiguration: drop('needs an aws_s3_bucket_notification resource, which is not exported'),
+    },
+  },
+  'AWS::S3::BucketPolicy': {
+    type: 'aws_s3_bucket_policy',
+    ref: 'id',
+    properties: { Bucket: 'bucket', PolicyDocument: json('policy') },
+    importId: (_id, scope) => scope.physical(scope.properties.Bucket),
+  },
+  'AWS::DynamoDB::Table': {
+    type: 'aws_dynamodb_table',
+    ref: 'name',
+    attributes: { Arn: 'arn', StreamArn: 'stream_arn' },
+    properties: {
+      TableName: 'name',
+      BillingMode: 'billing_mode',
+      KeySchema: keySchema,
+      AttributeDefinitions: blocks('attribute', { AttributeName: 'name', AttributeType: 'type' }),
+      ProvisionedThroughput: throughput,
+      GlobalSecondaryIndexes: blocks('global_secondary_index', {
+        IndexName: 'name',
+        KeySchema: keySchema,
+        Projection: projection,
+        ProvisionedThroughput: throughput,
+      }),
+      LocalSecondaryIndexes: blocks('local_secondary_index', {
+        IndexName: 'name',
+        KeySchema: (value, scope, path) => {
+          if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+          const range = value.find((key) => key?.KeyType === 'RANGE')
+          scope.attribute('range_key', range?.AttributeName, path)
+        },
+        Projection: projection,
+      }),
+      StreamSpecification: (value, scope, path) => {
+        scope.set('stream_enabled', true)
+        flatten({ StreamViewType: 'stream_view_type' })(value, scope, path)
+      },
+      TimeToLiveSpecification: block('ttl', { AttributeName: 'attribute_name', Enabled: 'enabled' }),
+      PointInTimeRecoverySpecification: block('point_in_time_recovery', { PointInTimeRecoveryEnabled: 'enabled' }),
+      SSESpecification: block('server_side_encryption', {
+        SSEEnabled: 'enabled',
+        KMSMasterKeyId: 'kms_key_arn',
+        SSEType: ignore,
+      }),
+      DeletionProtectionEnabled: 'deletion_protection_enabled',
+      TableClass: 'table_class',
+      Tags: tags,
+    },
+  },
+  'AWS::Lambda::Function': {
+    type: 'aws_lambda_function',
+    ref: 'function_name',
+    attributes: { Arn: 'arn' },
+    properties: {
+      FunctionName: 'function_name',
+      Description: 'description',
+      Handler: 'handler',
+      Runtime: 'runtime',
+      Role: 'role',
+      Code: lambdaCode,
+      MemorySize: 'memory_size',
+      Timeout: 'timeout',
+      Architectures: 'architectures',
+      Layers: 'layers',
+      PackageType: 'package_type',
+      ReservedConcurrentExecutions: 'reserved_concurrent_executions',
+      KmsKeyArn: 'kms_key_arn',
+      Environment: block('environment', { Variables: 'variables' }),
+      VpcConfig: block('vpc_config', { SubnetIds: 'subnet_ids', SecurityGroupIds: 'security_group_ids' }),
+      DeadLetterConfig: block('dead_letter_config', { TargetArn: 'target_arn' }),
+      TracingConfig: block('tracing_config', { Mode: 'mode' }),
+      EphemeralStorage: block('ephemeral_storage', { Size: 'size' }),
+      LoggingConfig: block('logging_config', {
+        LogFormat: 'log_format',
+        LogGroup: 'log_group',
+        ApplicationLogLevel: 'application_log_level',
+        SystemLogLevel: 'system_log_level',
+      }),
+      Tags: tags,
+    },
+  },
+  'AWS::Lambda::Permission': {
+    type: 'aws_lambda_permission',
+    ref: 'id',
+    properties: {
+      Action: 'action',
+      FunctionName: 'function_name',
+      Principal: 'principal',
+      SourceArn: 'source_arn',
+      SourceAccount: 'source_account',
+      EventSourceToken: 'event_source_token',
+      FunctionUrlAuthType: 'function_url_auth_type',
+      PrincipalOrgID: 'principal_org_id',
+    },
+    // The statement ID is generated; keep the deployed one so the import matches.
+    finish: (scope) => {
+      if (scope.physicalId) scope.set('statement_id', scope.physicalId)
+    },
+    importId: (id, scope) => {
+      const name = scope.physical(scope.properties.FunctionName)
+      return name ? `${arnName(name.replace(/:function:/, '/'))}/${id}` : undefined
+    },
+  },
+  'AWS::Lambda::EventSourceMapping': {
+    type: 'aws_lambda_event_source_mapping',
+    ref: 'uuid',
+    properties: {
+      EventSourceArn: 'event_source_arn',
+      FunctionName: 'function_name',
+      BatchSize: 'batch_size',
+      Enabled: 'enabled',
+      StartingPosition: 'starting_position',
+      MaximumBatchingWindowInSeconds: 'maximum_batching_window_in_seconds',
+      FunctionResponseTypes: 'function_response_types',
+      ScalingConfig: block('scaling_config', { MaximumConcurrency: 'maximum_concurrency' }),
+      FilterCriteria: block('filter_criteria', { Filters: blocks('filter', { Pattern: 'pattern' }) }),
+    },
+  },
+  'AWS::Lambda::Alias': {
+    type: 'aws_lambda_alias',
+    ref: 'arn',
+    properties: {
+      Name: 'name',
+      FunctionName: 'function_name',
+      FunctionVersion: 'function_version',
+      Description: 'description',
+    },
+    importId: (id) => {
+      const [, , , , , , name, alias] = id.split(':')
+      return name && alias ? `${name}/${alias}` : undefined
+    },
+  },
+  'AWS::Logs::LogGroup': {
+    type: 'aws_cloudwatch_log_group',
+    ref: 'name',
+    attributes: { Arn: 'arn' },
+    properties: {
+      LogGroupName: 'name',
+      RetentionInDays: 'retention_in_days',
+      KmsKeyId: 'kms_key_id',
+      LogGroupClass: 'log_group_class',
+      Tags: tags,
+    },
+  },
+  'AWS::SQS::Queue': {
+    type: 'aws_sqs_queue',
+    ref: 'url',
+    attributes: { Arn: 'arn', QueueName: 'name', QueueUrl: 'url' },
+    properties: {
+      QueueName: 'name',
+      DelaySeconds: 'delay_seconds',
+      MaximumMessageSize: 'max_message_size',
+      MessageRetentionPeriod: 'message_retention_seconds',
+      ReceiveMessageWaitTimeSeconds: 'receive_wait_time_seconds',
+      VisibilityTimeout: 'visibility_timeout_seconds',
+      FifoQueue: 'fifo_queue',
+      ContentBasedDeduplication: 'content_based_deduplication',
+      DeduplicationScope: 'deduplication_scope',
+      FifoThroughputLimit: 'fifo_throughput_limit',
+      KmsMasterKeyId: 'kms_master_key_id',
+      KmsDataKeyReusePeriodSeconds: 'kms_data_key_reuse_period_seconds',
+      SqsManagedSseEnabled: 'sqs_managed_sse_enabled',
+      RedrivePolicy: json('redrive_policy'),
+      RedriveAllowPolicy: json('redrive_allow_policy'),
+      Tags: tags,
+    },
+  },
+  'AWS::SQS::QueuePolicy': {
+    type: 'aws_sqs_queue_policy',
+    ref: 'id',
+    properties: { Queues: ignore, PolicyDocument: json('policy') },
+    finish: perTarget('aws_sqs_queue_policy', 'queue_url', 'Queues'),
+    importId: (_id, scope) => scope.physical(scope.properties.Queues?.[0]),
+  },
+  'AWS::SNS::Topic': {
+    type: 'aws_sns_topic',
+    ref: 'arn',
+    attributes: { TopicArn: 'arn', TopicName: 'name' },
+    properties: {
+      TopicName: 'name',
+      DisplayName: 'display_name',
+      FifoTopic: 'fifo_topic',
+      ContentBasedDeduplication: 'content_based_deduplication',
+      KmsMasterKeyId: 'kms_master_key_id',
+      Subscription: (value, scope, path) => {
+        if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+        value.forEach((subscription, index) => {
+          const companion = scope.companion('aws_sns_topic_subscription', `subscription_${index}`)
+          companion.set('topic_arn', scope.self('arn'))
+          companion.apply({ Protocol: 'protocol', Endpoint: 'endpoint' }, subscription, `${path}[${index}]`)
+        })
+      },
+      Tags: tags,
+    },
+  },
+  'AWS::SNS::Subscription': {
+    type: 'aws_sns_topic_subscription',
+    ref: 'arn',
+    properties: {
+      TopicArn: 'topic_arn',
+      Protocol: 'protocol',
+      Endpoint: 'endpoint',
+      FilterPolicy: json('filter_policy'),
+      FilterPolicyScope: 'filter_policy_scope',
+      RawMessageDelivery: 'raw_message_delivery',
+      RedrivePolicy: json('redrive_policy'),
+    },
+  },
+  'AWS::SNS::TopicPolicy': {
+    type: 'aws_sns_topic_policy',
+    ref: 'id',
+    properties: { Topics: ignore, PolicyDocument: json('policy') },
+    finish: perTarget('aws_sns_topic_policy', 'arn', 'Topics'),
+    importId: (_id, scope) => scope.physical(scope.properties.Topics?.[0]),
+  },
+  'AWS::Events::Rule': {
+    type: 'aws_cloudwatch_event_rule',
+    ref: 'name',
+    attributes: { Arn: 'arn' },
+    properties: {
+      Name: 'name',
+      Description: 'description',
+      ScheduleExpression: 'schedule_expression',
+      EventPattern: json('event_pattern'),
+      EventBusName: 'event_bus_name',
+      RoleArn: 'role_arn',
+      State: 'state',
+      Targets: eventTargets,
+    },
+  },
+  'AWS::CloudWatch::Alarm': {
+    type: 'aws_cloudwatch_metric_alarm',
+    ref: 'alarm_name',
+    attributes: { Arn: 'arn' },
+    properties: {
+      AlarmName: 'alarm_name',
+      AlarmDescription: 'alarm_description',
+      ActionsEnabled: 'actions_enabled',
+      AlarmActions: 'alarm_actions',
+      OKActions: 'ok_actions',
+      InsufficientDataActions: 'insufficient_data_actions',
+      ComparisonOperator: 'comparison_operator',
+      EvaluationPeriods: 'evaluation_periods',
+      DatapointsToAlarm: 'datapoints_to_alarm',
+      MetricName: 'metric_name',
+      Namespace: 'namespace',
+      Period: 'period',
+      Statistic: 'statistic',
+      ExtendedStatistic: 'extended_statistic',
+      Threshold: 'threshold',
+      ThresholdMetricId: 'threshold_metric_id',
+      TreatMissingData: 'treat_missing_data',
+      EvaluateLowSampleCountPercentile: 'evaluate_low_sample_count_percentiles',
+      Unit: 'unit',
+      Dimensions: pairs('dimensions'),
+      Metrics: cloudWatchMetrics,
+      Tags: tags,
+    },
+  },
+  'AWS::Route53::RecordSet': {
+    type: 'aws_route53_record',
+    ref: 'fqdn',
+    properties: {
+      HostedZoneId: 'zone_id',
+      HostedZoneName: recordSetZone,
+      Name: 'name',
+      Type: 'type',
+      TTL: 'ttl',
+      ResourceRecords: 'records',
+      SetIdentifier: 'set_identifier',
+      HealthCheckId: 'health_check_id',
+      Weight: (value, scope, path) => scope.block('weighted_routing_policy').attribute('weight', value, path),
+      Region: (value, scope, path) => scope.block('latency_routing_policy').attribute('region', value, path),
+      Failover: (value, scope, path) => scope.block('failover_routing_policy').attribute('type', value, path),
+      AliasTarget: block(
+        'alias',
+        { DNSName: 'name', HostedZoneId: 'zone_id', EvaluateTargetHealth: 'evaluate_target_health' },
+        (alias) => {
+          if (!alias.has('evaluate_target_health')) alias.set('evaluate_target_health', false)
+        },
+      ),
+    },
+    importId: recordImportId,
+  },
+  'AWS::CertificateManager::Certificate': {
+    type: 'aws_acm_certificate',
+    ref: 'arn',
+    properties: {
+      DomainName: 'domain_name',
+      SubjectAlternativeNames: 'subject_alternative_names',
+      ValidationMethod: 'validation_method',
+      KeyAlgorithm: 'key_algorithm',
+      CertificateTransparencyLoggingPreference: into('options', 'certificate_transparency_logging_preference'),
+      DomainValidationOptions: (_value, scope, path) =>
+        scope.manual(
+          path,
+          'validates through Route 53 records, which Terraform declares with aws_route53_record and ' +
+            'aws_acm_certificate_validation',
+        ),
+      Tags: tags,
+    },
+  },
+  'AWS::CloudFront::OriginAccessControl': {
+    type: 'aws_cloudfront_origin_access_control',
+    ref: 'id',
+    attributes: { Id: 'id' },
+    properties: {
+      OriginAccessControlConfig: flatten({
+        Name: 'name',
+        Description: 'description',
+        OriginAccessControlOriginType: 'origin_access_control_origin_type',
+        SigningBehavior: 'signing_behavior',
+        SigningProtocol: 'signing_protocol',
+      }),
+    },
+  },
+  'AWS::CloudFront::Function': {
+    type: 'aws_cloudfront_function',
+    ref: 'arn',
+    attributes: { FunctionARN: 'arn', 'FunctionMetadata.FunctionARN': 'arn' },
+    properties: {
+      Name: 'name',
+      FunctionCode: 'code',
+      AutoPublish: 'publish',
+      FunctionConfig: flatten({
+        Comment: 'comment',
+        Runtime: 'runtime',
+        KeyValueStoreAssociations: drop('associates key value stores, which are not exported'),
+      }),
+    },
+    importId: arnName,
+  },
+  'AWS::CloudFront::Distribution': {
+    type: 'aws_cloudfront_distribution',
+    ref: 'id',
+    attributes: { Id: 'id', DomainName: 'domain_name' },
+    properties: { DistributionConfig: flatten(distributionConfig), Tags: tags },
+    finish: finishDistribution,
+  },
+  'AWS::ECR::Repository': {
+    type: 'aws_ecr_repository',
+    ref: 'name',
+    attributes: { Arn: 'arn', RepositoryUri: 'repository_url' },
+    properties: {
+      RepositoryName: 'name',
+      ImageTagMutability: 'image_tag_mutability',
+      EmptyOnDelete: 'force_delete',
+      ImageScanningConfiguration: block('image_scanning_configuration', { ScanOnPush: 'scan_on_push' }),
+      EncryptionConfiguration: block('encryption_configuration', {
+        EncryptionType: 'encryption_type',
+        KmsKey: 'kms_key',
+      }),
+      LifecyclePolicy: (value, scope, path) => {
+        if (!isPlain(value)) return scope.unsupported(path, NOT_LITERAL)
+        const policy = scope.companion('aws_ecr_lifecycle_policy', 'lifecycle', scope.physicalId)
+        policy.set('repository', scope.self('name'))
+        policy.apply({ LifecyclePolicyText: 'policy', RegistryId: ignore }, value, path)
+      },
+      Tags: tags,
+    },
+  },
+  'AWS::ECS::Cluster': {
+    type: 'aws_ecs_cluster',
+    ref: 'name',
+    attributes: { Arn: 'arn' },
+    properties: {
+      ClusterName: 'name',
+      ClusterSettings: blocks('setting', { Name: 'name', Value: 'value' }),
+      CapacityProviders: (value, scope, path) => capacityProviders(scope).attribute('capacity_providers', value, path),
+      DefaultCapacityProviderStrategy: (value, scope, path) =>
+        blocks('default_capacity_provider_strategy', {
+          CapacityProvider: 'capacity_provider',
+          Weight: 'weight',
+          Base: 'base',
+        })(value, capacityProviders(scope), path),
+      Tags: tags,
+    },
+  },
+  'AWS::ECS::TaskDefinition': {
+    type: 'aws_ecs_task_definition',
+    ref: 'arn',
+    attributes: { TaskDefinitionArn: 'arn' },
+    properties: {
+      Family: 'family',
+      Cpu: 'cpu',
+      Memory: 'memory',
+      NetworkMode: 'network_mode',
+      RequiresCompatibilities: 'requires_compatibilities',
+      ExecutionRoleArn: 'execution_role_arn',
+      TaskRoleArn: 'task_role_arn',
+      ContainerDefinitions: containerDefinitions,
+      RuntimePlatform: block('runtime_platform', {
+        CpuArchitecture: 'cpu_architecture',
+        OperatingSystemFamily: 'operating_system_family',
+      }),
+      EphemeralStorage: block('ephemeral_storage', { SizeInGiB: 'size_in_gib' }),
+      Volumes: blocks('volume', {
+        Name: 'name',
+        Host: block('host_path', { SourcePath: 'path' }),
+        EFSVolumeConfiguration: block('efs_volume_configuration', {
+          FilesystemId: 'file_system_id',
+          RootDirectory: 'root_directory',
+          TransitEncryption: 'transit_encryption',
+          TransitEncryptionPort: 'transit_encryption_port',
+          AuthorizationConfig: block('authorization_config', { AccessPointId: 'access_point_id', IAM: 'iam' }),
+        }),
+      }),
+      Tags: tags,
+    },
+  },
+  'AWS::ECS::Service': {
+    type: 'aws_ecs_service',
+    ref: 'id',
+    attributes: { Name: 'name', ServiceArn: 'id' },
+    properties: {
+      ServiceName: 'name',
+      Cluster: 'cluster',
+      TaskDefinition: 'task_definition',
+      DesiredCount: 'desired_count',
+      LaunchType: 'launch_type',
+      PlatformVersion: 'platform_version',
+      EnableExecuteCommand: 'enable_execute_command',
+      EnableECSManagedTags: 'enable_ecs_managed_tags',
+      PropagateTags: 'propagate_tags',
+      HealthCheckGracePeriodSeconds: 'health_check_grace_period_seconds',
+      SchedulingStrategy: 'scheduling_strategy',
+      NetworkConfiguration: (value, scope, path) => {
+        if (!isPlain(value) || !isPlain(value.AwsvpcConfiguration)) return scope.unsupported(path, NOT_LITERAL)
+        const { AssignPublicIp, ...rest } = value.AwsvpcConfiguration
+        const network = scope.block('network_configuration')
+        network.apply({ Subnets: 'subnets', SecurityGroups: 'security_groups' }, rest, `${path}.AwsvpcConfiguration`)
+        if (AssignPublicIp !== undefined) network.set('assign_public_ip', AssignPublicIp === 'ENABLED')
+      },
+      LoadBalancers: blocks('load_balancer', {
+        TargetGroupArn: 'target_group_arn',
+        LoadBalancerName: 'elb_name',
+        ContainerName: 'container_name',
+        ContainerPort: 'container_port',
+      }),
+      CapacityProviderStrategy: blocks('capacity_provider_strategy', {
+        CapacityProvider: 'capacity_provider',
+        Weight: 'weight',
+        Base: 'base',
+      }),
+      DeploymentConfiguration: flatten({
+        MaximumPercent: 'deployment_maximum_percent',
+        MinimumHealthyPercent: 'deployment_minimum_healthy_percent',
+        DeploymentCircuitBreaker: block('deployment_circuit_breaker', { Enable: 'enable', Rollback: 'rollback' }),
+      }),
+      ServiceRegistries: blocks('service_registries', {
+        RegistryArn: 'registry_arn',
+        ContainerName: 'container_name',
+        ContainerPort: 'container_port',
+        Port: 'port',
+      }),
+      Tags: tags,
+    },
+    importId: (id) => id.split('/').slice(-2).join('/'),
+  },
+  'AWS::RDS::DBSubnetGroup': {
+    type: 'aws_db_subnet_group',
+    ref: 'name',
+    properties: {
+      DBSubnetGroupName: 'name',
+      DBSubnetGroupDescription: 'description',
+      SubnetIds: 'subnet_ids',
+      Tags: tags,
+    },
+  },
+  'AWS::RDS::DBInstance': {
+    type: 'aws_db_instance',
+    ref: 'identifier',
+    attributes: {
+      'Endpoint.Address': 'address',
+      'Endpoint.Port': 'port',
+      'Endpoint.HostedZoneId': 'hosted_zone_id',
+      DBInstanceArn: 'arn',
+    },
+    properties: {
+      DBInstanceIdentifier: 'identifier',
+      DBInstanceClass: 'instance_class',
+      Engine: 'engine',
+      EngineVersion: 'engine_version',
+      AllocatedStorage: 'allocated_storage',
+      MaxAllocatedStorage: 'max_allocated_storage',
+      StorageType: 'storage_type',
+      Iops: 'iops',
+      StorageThroughput: 'storage_throughput',
+      StorageEncrypted: 'storage_encrypted',
+      KmsKeyId: 'kms_key_id',
+      MasterUsername: 'username',
+      MasterUserPassword: 'password',
+      ManageMasterUserPassword: 'manage_master_user_password',
+      DBName: 'db_name',
+      Port: 'port',
+      MultiAZ: 'multi_az',
+      PubliclyAccessible: 'publicly_accessible',
+      DBSubnetGroupName: 'db_subnet_group_name',
+      VPCSecurityGroups: 'vpc_security_group_ids',
+      DBParameterGroupName: 'parameter_group_name',
+      OptionGroupName: 'option_group_name',
+      BackupRetentionPeriod: 'backup_retention_period',
+      PreferredBackupWindow: 'backup_window',
+      PreferredMaintenanceWindow: 'maintenance_window',
+      DeletionProtection: 'deletion_protection',
+      AutoMinorVersionUpgrade: 'auto_minor_version_upgrade',
+      CopyTagsToSnapshot: 'copy_tags_to_snapshot',
+      EnablePerformanceInsights: 'performance_insights_enabled',
+      PerformanceInsightsRetentionPeriod: 'performance_insights_retention_period',
+      MonitoringInterval: 'monitoring_interval',
+      MonitoringRoleArn: 'monitoring_role_arn',
+      EnableCloudwatchLogsExports: 'enabled_cloudwatch_logs_exports',
+      DBClusterIdentifier: drop('belongs to an Aurora cluster; Terraform declares those as aws_rds_cluster_instance'),
+      Tags: tags,
+    },
+    // CloudFormation snapshots a database it deletes unless told otherwise; Terraform refuses to
+    // destroy one without either a final snapshot name or skip_final_snapshot.
+    finish: (scope, resource) => {
+      if (resource.DeletionPolicy === 'Delete') scope.set('skip_final_snapshot', true)
+      else scope.set('final_snapshot_identifier', `${scope.name.replace(/_/g, '-')}-final`)
+    },
+  },
+  'AWS::ElastiCache::SubnetGroup': {
+    type: 'aws_elasticache_subnet_group',
+    ref: 'name',
+    properties: {
+      CacheSubnetGroupName: 'name',
+      Description: 'description',
+      SubnetIds: 'subnet_ids',
+      Tags: tags,
+    },
+    finish: (scope) => {
+      if (scope.properties.CacheSubnetGroupName === undefined)
+        scope.set('name', scope.physicalId ?? scope.name.replace(/_/g, '-'))
+    },
+  },
+  'AWS::ElastiCache::CacheCluster': {
+    type: 'aws_elasticache_cluster',
+    ref: 'id',
+    attributes: {
+      'RedisEndpoint.Address': 'cache_nodes[0].address',
+      'RedisEndpoint.Port': 'port',
+      'ConfigurationEndpoint.Address': 'cluster_address',
+      'ConfigurationEndpoint.Port': 'port',
+    },
+    properties: {
+      ClusterName: 'cluster_id',
+      Engine: 'engine',
+      EngineVersion: 'engine_version',
+      CacheNodeType: 'node_type',
+      NumCacheNodes: 'num_cache_nodes',
+      Port: 'port',
+      CacheSubnetGroupName: 'subnet_group_name',
+      VpcSecurityGroupIds: 'security_group_ids',
+      CacheParameterGroupName: 'parameter_group_name',
+      PreferredMaintenanceWindow: 'maintenance_window',
+      PreferredAvailabilityZone: 'availability_zone',
+      AZMode: 'az_mode',
+      SnapshotRetentionLimit: 'snapshot_retention_limit',
+      SnapshotWindow: 'snapshot_window',
+      TransitEncryptionEnabled: 'transit_encryption_enabled',
+      NetworkType: 'network_type',
+      IpDiscovery: 'ip_discovery',
+      AutoMinorVersionUpgrade: 'auto_minor_version_upgrade',
+      Tags: tags,
+    },
+    finish: (scope) => {
+      if (scope.properties.ClusterName === undefined)
+        scope.set('cluster_id', scope.physicalId ?? scope.name.replace(/_/g, '-'))
+    },
+  },
+  'AWS::SecretsManager::Secret': {
+    type: 'aws_secretsmanager_secret',
+    ref: 'arn',
+    attributes: { Id: 'id' },
+    properties: {
+      Name: 'name',
+      Description: 'description',
+      KmsKeyId: 'kms_key_id',
+      SecretString: (value, scope, path) => {
+        const secretVersion = scope.companion('aws_secretsmanager_secret_version', 'value')
+        secretVersion.set('secret_id', scope.self('id'))
+        secretVersion.attribute('secret_string', value, path)
+      },
+      GenerateSecretString: generatedSecret,
+      Tags: tags,
+    },
+  },
+  'AWS::SSM::Parameter': {
+    type: 'aws_ssm_parameter',
+    ref: 'name',
+    attributes: { Type: 'type', Value: 'value' },
+    properties: {
+      Name: 'name',
+      Type: 'type',
+      Value: 'value',
+      Description: 'description',
+      Tier: 'tier',
+      AllowedPattern: 'allowed_pattern',
+      DataType: 'data_type',
+      Tags: 'tags',
+    },
+  },
+  'AWS::ElasticLoadBalancingV2::LoadBalancer': {
+    type: 'aws_lb',
+    ref: 'arn',
+    attributes: {
+      LoadBalancerArn: 'arn',
+      DNSName: 'dns_name',
+      CanonicalHostedZoneID: 'zone_id',
+      LoadBalancerFullName: 'arn_suffix',
+      LoadBalancerName: 'name',
+    },
+    properties: {
+      Name: 'name',
+      Type: 'load_balancer_type',
+      Scheme: (value, scope, path) => {
+        const translated = scope.value(value, path)
+        if (translated === undefined) return
+        scope.set(
+          'internal',
+          typeof translated === 'string' ? translated === 'internal' : expr(`${inline(translated)} == "internal"`),
+        )
+      },
+      Subnets: 'subnets',
+      SecurityGroups: 'security_groups',
+      IpAddressType: 'ip_address_type',
+      SubnetMappings: blocks('subnet_mapping', {
+        SubnetId: 'subnet_id',
+        AllocationId: 'allocation_id',
+        PrivateIPv4Address: 'private_ipv4_address',
+      }),
+      LoadBalancerAttributes: keyedAttributes(LOAD_BALANCER_ATTRIBUTES, { 'access_logs.s3.': 'access_logs' }),
+      Tags: tags,
+    },
+  },
+  'AWS::ElasticLoadBalancingV2::TargetGroup': {
+    type: 'aws_lb_target_group',
+    ref: 'arn',
+    attributes: { TargetGroupArn: 'arn', TargetGroupFullName: 'arn_suffix', TargetGroupName: 'name' },
+    properties: {
+      Name: 'name',
+      Port: 'port',
+      Protocol: 'protocol',
+      ProtocolVersion: 'protocol_version',
+      TargetType: 'target_type',
+      VpcId: 'vpc_id',
+      HealthCheckEnabled: into('health_check', 'enabled'),
+      HealthCheckPath: into('health_check', 'path'),
+      HealthCheckPort: into('health_check', 'port'),
+      HealthCheckProtocol: into('health_check', 'protocol'),
+      HealthCheckIntervalSeconds: into('health_check', 'interval'),
+      HealthCheckTimeoutSeconds: into('health_check', 'timeout'),
+      HealthyThresholdCount: into('health_check', 'healthy_threshold'),
+      UnhealthyThresholdCount: into('health_check', 'unhealthy_threshold'),
+      Matcher: (value, scope, path) => {
+        const code = isPlain(value) ? (value.HttpCode ?? value.GrpcCode) : value
+        scope.nested('health_check').attribute('matcher', code, path)
+      },
+      TargetGroupAttributes: keyedAttributes(TARGET_GROUP_ATTRIBUTES, {}),
+      Targets: (value, scope, path) => {
+        if (!Array.isArray(value)) return scope.unsupported(path, NOT_LITERAL)
+        value.forEach((target, index) => {
+          const attachment = scope.companion('aws_lb_target_group_attachment', `target_${index}`)
+          attachment.set('target_group_arn', scope.self('arn'))
+          attachment.apply(
+            { Id: 'target_id', Port: 'port', AvailabilityZone: 'availability_zone' },
+            target,
+            `${path}[${index}]`,
+          )
+        })
+      },
+      Tags: tags,
+    },
+  },
+  'AWS::ElasticLoadBalancingV2::Listener': {
+    type: 'aws_lb_listener',
+    ref: 'arn',
+    attributes: { ListenerArn: 'arn' },
+    properties: {
+      LoadBalancerArn: 'load_balancer_arn',
+      Port: 'port',
+      Protocol: 'protocol',
+      SslPolicy: 'ssl_policy',
+      Certificates: (value, scope, path) =>
+        Array.isArray(value)
+          ? scope.attribute('certificate_arn', value[0]?.CertificateArn, `${path}[0].CertificateArn`)
+          : scope.unsupported(path, NOT_LITERAL),
+      AlpnPolicy: (value, scope, path) =>
+        scope.attribute('alpn_policy', Array.isArray(value) ? value[0] : value, path),
+      DefaultActions: blocks('default_action', listenerAction),
+    },
+  },
+  'AWS::ElasticLoadBalancingV2::ListenerRule': {
+    type: 'aws_lb_listener_rule',
+    ref: 'arn',
+    attributes: { RuleArn: 'arn' },
+    properties: {
+      ListenerArn: 'listener_arn',
+      Priority: 'priority',
+      Actions: blocks('action', listenerAction),
+      Conditions: listenerConditions,
+    },
+  },
+  'AWS::ApiGatewayV2::Api': {
+    type: 'aws_apigatewayv2_api',
+    ref: 'id',
+    attributes: { ApiId: 'id', ApiEndpoint: 'api_endpoint' },
+    properties: {
+      Name: 'name',
+      ProtocolType: 'protocol_type',
+      Description: 'description',
+      RouteSelectionExpression: 'route_selection_expression',
+      DisableExecuteApiEndpoint: 'disable_execute_api_endpoint',
+      CorsConfiguration: block('cors_configuration', {
+        AllowCredentials: 'allow_credentials',
+        AllowHeaders: 'allow_headers',
+        AllowMethods: 'allow_methods',
+        AllowOrigins: 'allow_origins',
+        ExposeHeaders: 'expose_headers',
+        MaxAge: 'max_age',
+      }),
+      Tags: 'tags',
+    },
+  },
+  'AWS::ApiGatewayV2::Stage': {
+    type: 'aws_apigatewayv2_stage',
+    ref: 'name',
+    properties: {
+      ApiId: 'api_id',
+      StageName: 'name',
+      AutoDeploy: 'auto_deploy',
+      Description: 'description',
+      StageVariables: 'stage_variables',
+      DefaultRouteSettings: block('default_route_settings', {
+        ThrottlingBurstLimit: 'throttling_burst_limit',
+        ThrottlingRateLimit: 'throttling_rate_limit',
+        DetailedMetricsEnabled: 'detailed_metrics_enabled',
+      }),
+      AccessLogSettings: block('access_log_settings', { DestinationArn: 'destination_arn', Format: 'format' }),
+      Tags: 'tags',
+    },
+    importId: (id, scope) => joined(scope, '/', scope.properties.ApiId, id),
+  },
+  'AWS::ApiGatewayV2::Integration': {
+    type: 'aws_apigatewayv2_integration',
+    ref: 'id',
+    properties: {
+      ApiId: 'api_id',
+      IntegrationType: 'integration_type',
+      IntegrationUri: 'integration_uri',
+      IntegrationMethod: 'integration_method',
+      PayloadFormatVersion: 'payload_format_version',
+      TimeoutInMillis: 'timeout_milliseconds',
+      ConnectionType: 'connection_type',
+      Description: 'description',
+    },
+    importId: (id, scope) => joined(scope, '/', scope.properties.ApiId, id),
+  },
+  'AWS::ApiGatewayV2::Route': {
+    type: 'aws_apigatewayv2_route',
+    ref: 'id',
+    properties: {
+      ApiId: 'api_id',
+      RouteKey: 'route_key',
+      Target: 'target',
+      AuthorizationType: 'authorization_type',
+      AuthorizerId: 'authorizer_id',
+      OperationName: 'operation_name',
+    },
+    importId: (id, scope) => joined(scope, '/', scope.properties.ApiId, id),
+  },
+}
+
+/** CloudFormation types the exporter writes as Terraform resources. */
+export const TERRAFORM_SUPPORTED_TYPES: string[] = Object.keys(RESOURCE_TRANSLATIONS).sort()
@@ -0,0 +1,65 @@
+import type { CloudConfig, EnvironmentType } from '@ts-cloud/core'
+import type { CloudFormationClient } from '../aws/cloudformation'
+import type { ExportableTemplate, TerraformExport, TerraformExportOptions } from './model'
+import { CloudFormationClient as LiveCloudFormationClient } from '../aws/cloudformation'
+import { InfrastructureGenerator } from '../generators/infrastructure'
+import { exportTemplateToTerraform } from './exporter'
+
+export type TerraformExportCloudFormation = Pick<CloudFormationClient, 'listStackResources'>
+
+export interface StackExportInput {
+  config: CloudConfig
+  environment: EnvironmentType
+  stackName: string
+  region: string
+  /** Look up the deployed stack and write `import` blocks for its resources; defaults to `true`. */
+  imports?: boolean
+  providerVersion?: string
+}
+
+export interface StackExportOptions {
+  cloudformation?: (region: string) => TerraformExportCloudFormation
+  /** Template generated from a config; defaults to `InfrastructureGenerator`. */
+  generate?: (config: CloudConfig, environment: EnvironmentType) => ExportableTemplate
+}
+
+function generateTemplate(config: CloudConfig, environment: EnvironmentType): ExportableTemplate {
+  return JSON.parse(new InfrastructureGenerator({ config, environment }).generate().toJSON())
+}
+
+/** Converts the template a config generates, without looking at what is deployed. */
+export function exportCloudConfigToTerraform(
+  config: CloudConfig,
+  environment: EnvironmentType,
+  options: TerraformExportOptions = {},
+): TerraformExport {
+  return exportTemplateToTerraform(generateTemplate(config, environment), options)
+}
+
+/**
+ * Converts an environment's stack, with `import` blocks for every resource
+ * CloudFormation has already created. A stack that was never deployed
+ * exports without imports.
+ */
+export async function exportStackToTerraform(
+  input: StackExportInput,
+  options: StackExportOptions = {},
+): Promise<TerraformExport> {
+  const template = (options.generate ?? generateTemplate)(input.config, input.environment)
+  const deployed: Record<string, string> = {}
+  if (input.imports !== false) {
+    const client = options.cloudformation?.(input.region) ?? new LiveCloudFormationClient(input.region)
+    try {
+      for (const resource of (await client.listStackResources(input.stackName)).StackResourceSummaries)
+        if (resource.PhysicalResourceId) deployed[resource.LogicalResourceId] = resource.PhysicalResourceId
+    } catch (error) {
+      if (!/does not exist/i.test(error instanceof Error ? error.message : String(error))) throw error
+    }
+  }
+  return exportTemplateToTerraform(template, {
+    region: input.region,
+    stackName: input.stackName,
+    deployed,
+    providerVersion: input.providerVersion,
+  })
+}
@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'bun:test'
+import type { CloudConfig } from '@ts-cloud/core'
+import type { ExportableTemplate, TerraformExportCloudFormation } from '.'
+import {
+  exportCloudConfigToTerraform,
+  exportStackToTerraform,
+  exportTemplateToTerraform,
+  heredoc,
+  renderTerraformExportReport,
+} from '.'
+
+const template: ExportableTemplate = {
+  Parameters: {
+    Environment: { Type: 'String', Default: 'production', AllowedValues: ['production', 'staging'] },
+    DatabasePassword: { Type: 'String', NoEcho: true },
+  },
+  Conditions: { IsProduction: { 'Fn::Equals': [{ Ref: 'Environment' }, 'production'] } },
+  Resources: {
+    Vpc: { Type: 'AWS::EC2::VPC', Properties: { CidrBlock: '10.0.0.0/16' } },
+    PublicSubnet: {
+      Type: 'AWS::EC2::Subnet',
+      Properties: {
+        VpcId: { Ref: 'Vpc' },
+        CidrBlock: '10.0.1.0/24',
+        AvailabilityZone: { 'Fn::Select': [0, { 'Fn::GetAZs': '' }] },
+        Tags: [{ Key: 'Name', Value: { 'Fn::Sub': '${AWS::StackName}-public' } }],
+      },
+    },
+    Assets: {
+      Type: 'AWS::S3::Bucket',
+      DeletionPolicy: 'Retain',
+      Properties: { BucketName: 'acme-assets', VersioningConfiguration: { Status: 'Enabled' } },
+    },
+    Worker: {
+      Type: 'AWS::Lambda::Function',
+      Condition: 'IsProduction',
+      Properties: {
+        Runtime: 'nodejs20.x',
+        Handler: 'index.handler',
+        Role: { 'Fn::GetAtt': ['WorkerRole', 'Arn'] },
+        Code: { S3Bucket: { Ref: 'Assets' }, S3Key: 'worker.zip' },
+        Environment: { Variables: { BUCKET_ARN: { 'Fn::GetAtt': ['Assets', 'Arn'] } } },
+      },
+    },
+    WorkerRole: { Type: 'AWS::IAM::Role', Properties: { AssumeRolePolicyDocument: { Statement: [] } } },
+    Pipeline: { Type: 'AWS::CodePipeline::Pipeline', Properties: { Name: 'deploy' } },
+  },
+  Outputs: {
+    AssetsArn: { Value: { 'Fn::GetAtt': ['Assets', 'Arn'] } },
+    PipelineName: { Value: { Ref: 'Pipeline' }, Export: { Name: 'acme-pipeline' } },
+  },
+}
+
+describe('exportTemplateToTerraform', () => {
+  it('translates intrinsic functions into references and expressions', () => {
+    const { files } = exportTemplateToTerraform(template, { stackName: 'acme-production' })
+    const main = files['main.tf']
+    expect(main).toContain('resource "aws_subnet" "public_subnet" {')
+    expect(main).toContain('vpc_id            = aws_vpc.vpc.id')
+    expect(main).toContain('availability_zone = element(data.aws_availability_zones.available.names, 0)')
+    expect(main).toContain('Name = "${local.stack_name}-public"')
+    expect(main).toContain('stack_name    = "acme-production"')
+    expect(main).toContain('is_production = var.environment == "production"')
+    expect(main).toContain('count     = local.is_production ? 1 : 0')
+    expect(main).toContain('role      = aws_iam_role.worker_role.arn')
+    expect(main).toContain('s3_bucket = aws_s3_bucket.assets.id')
+    expect(main).toContain('BUCKET_ARN = aws_s3_bucket.assets.arn')
+    expect(main).toContain('prevent_destroy = true')
+    expect(files['outputs.tf']).toContain('value = aws_s3_bucket.assets.arn')
+  })
+
+  it('writes parameters as variables', () => {
+    const variables = exportTemplateToTerraform(template).files['variables.tf']
+    expect(variables).toContain('condition     = contains(["production", "staging"], var.environment)')
+    expect(variables).toContain('variable "database_password" {\n  type      = string\n  sensitive = true\n}')
+  })
+
+  it('writes companion resources and providers for properties Terraform splits out', () => {
+    const { files } = exportTemplateToTerraform({
+      Resources: {
+        Api: {
+          Type: 'AWS::Lambda::Function',
+          Properties: {
+            Runtime: 'python3.12',
+            Handler: 'app.handler',
+            Code: { ZipFile: 'def handler(e, c):\n  pass\n' },
+          },
+        },
+        Credentials: {
+          Type: 'AWS::SecretsManager::Secret',
+          Properties: { GenerateSecretString: { PasswordLength: 24, ExcludePunctuation: true } },
+        },
+      },
+    })
+    expect(files['versions.tf']).toContain('source  = "hashicorp/archive"')
+    expect(files['versions.tf']).toContain('source  = "hashicorp/random"')
+    expect(files['main.tf']).toContain('filename = "app.py"')
+    expect(files['main.tf']).toContain('filename         = data.archive_file.api_code.output_path')
+    expect(files['main.tf']).toContain(
+      'resource "random_password" "credentials_value" {\n  length  = 24\n  special = false',
+    )
+    expect(files['main.tf']).toContain('secret_string = random_password.credentials_value.result')
+  })
+
+  it('writes import blocks for deployed resources', () => {
+    const result = exportTemplateToTerraform(template, {
+      deployed: { Vpc: 'vpc-0abc', Assets: 'acme-assets', Worker: 'acme-worker', WorkerRole: 'acme-worker-role' },
+    })
+    expect(result.summary.imports).toBe(5)
+    expect(result.files['imports.tf']).toContain('import {\n  to = aws_vpc.vpc\n  id = "vpc-0abc"\n}')
+    expect(result.files['imports.tf']).toContain('to = aws_s3_bucket_versioning.assets_versioning')
+    expect(result.files['imports.tf']).toContain('to = aws_lambda_function.worker[0]')
+  })
+
+  it('reports what it could not translate instead of guessing', () => {
+    const result = exportTemplateToTerraform(template)
+    expect(result.summary).toEqual({ resources: 5, skippedResources: 1, imports: 0 })
+    expect(result.issues.map(({ severity, logicalId, construct }) => [severity, logicalId, construct])).toEqual([
+      ['unsupported', 'Pipeline', 'Type'],
+      ['manual', 'PipelineName', 'Value'],
+      ['unsupported', 'PipelineName', 'Export'],
+    ])
+    expect(result.files['variables.tf']).toContain('variable "pipeline_ref" {')
+    expect(result.files['main.tf']).not.toContain('CodePipeline')
+
+    const report = renderTerraformExportReport(result)
+    expect(report).toContain('5 resources exported, 1 left out, 0 import blocks.')
+    expect(report).toContain('| Pipeline | AWS::CodePipeline::Pipeline | Type |')
+  })
+
+  it('reports deployed resources whose import ID cannot be derived', () => {
+    const result = exportTemplateToTerraform(
+      {
+        Resources: {
+          SubnetGroup: { Type: 'AWS::RDS::DBSubnetGroup', Properties: { SubnetIds: [] } },
+          Route: {
+            Type: 'AWS::EC2::Route',
+            Properties: { RouteTableId: { Ref: 'Missing' }, DestinationCidrBlock: '0.0.0.0/0' },
+          },
+        },
+      },
+      { deployed: { SubnetGroup: 'acme-subnets', Route: 'rtb-1|0.0.0.0/0' } },
+    )
+    expect(result.summary.imports).toBe(1)
+    expect(result.issues.filter((issue) => issue.construct === 'import').map((issue) => issue.logicalId)).toEqual([
+      'Route',
+    ])
+  })
+})
+
+describe('heredoc', () => {
+  it('picks a marker that no body line closes, even indented', () => {
+    expect(heredoc('line\n')).toBe('<<EOT\nline\nEOT\n')
+    expect(heredoc('a\n  EOT\n\tEOT_\n')).toBe('<<EOT__\na\n  EOT\n\tEOT_\nEOT__\n')
+  })
+})
+
+describe('exportStackToTerraform', () => {
+  const config = {
+    project: { name: 'Acme', slug: 'acme', region: 'us-east-1' },
+    environments: { production: { type: 'production' } },
+  } as unknown as CloudConfig
+
+  function cloudformation(resources: Array<Record<string, string>> | Error): () => TerraformExportCloudFormation {
+    return () => ({
+      listStackResources: async () => {
+        if (resources instanceof Error) throw resources
+        return { StackResourceSummaries: resources }
+      },
+    })
+  }
+
+  it('imports what the stack has deployed', async () => {
+    const result = await exportStackToTerraform(
+      { config, environment: 'production', stackName: 'acme-production', region: 'eu-west-1' },
+      {
+        generate: () => template,
+        cloudformation: cloudformation([{ LogicalResourceId: 'Vpc', PhysicalResourceId: 'vpc-0abc' }]),
+      },
+    )
+    expect(result.summary.imports).toBe(1)
+    expect(result.files['versions.tf']).toContain('region = "eu-west-1"')
+  })
+
+  it('exports a stack that was never deployed without imports', async () => {
+    const result = await exportStackToTerraform(
+      { config, environment: 'production', stackName: 'acme-production', region: 'us-east-1' },
+      {
+        generate: () => template,
+        cloudformation: cloudformation(new Error('Stack with id acme-production does not exist')),
+      },
+    )
+    expect(result.files['imports.tf']).toBeUndefined()
+  })
+
+  it('exports the template a config generates', () => {
+    const result = exportCloudConfigToTerraform(config, 'production')
+    expect(result.files['versions.tf']).toContain('source  = "hashicorp/aws"')
+  })
+})
@@ -0,0 +1,469 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import type { CloudConfig } from '@ts-cloud/core'
+import { DigitalOceanApiError, DigitalOceanClient } from '../../src/drivers/digitalocean/client'
+import type { DigitalOceanDroplet, DigitalOceanFirewall, DigitalOceanReservedIp, DigitalOceanSshKey, DigitalOceanVolume } from '../../src/drivers/digitalocean/client'
+import { DigitalOceanDriver } from '../../src/drivers/digitalocean/driver'
+import {
+  buildDigitalOceanUserData,
+  matchesTsCloudTags,
+  resolveDigitalOceanDropletSize,
+  tagsToLabels,
+  tsCloudStackTag,
+  tsCloudTags,
+} from '../../src/drivers/digitalocean/provision'
+import { readDigitalOceanState } from '../../src/drivers/digitalocean/state'
+import { createCloudDriver } from '../../src/drivers/factory'
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+
+const baseConfig: CloudConfig = {
+  project: { name: 'My App', slug: 'my-app', region: 'nyc3' },
+  environments: { production: { type: 'production' } },
+  cloud: { provider: 'digitalocean' },
+  digitalocean: { apiToken: 'test-token', region: 'nyc3' },
+  sites: {
+    web: {
+      domain: 'my-app.example.com',
+      port: 3000,
+      root: '.output',
+      build: 'bun run build',
+      start: 'bun run server.ts',
+    },
+  },
+  infrastructure: {
+    compute: {
+      size: 'small',
+      runtime: 'bun',
+    },
+  },
+}
+
+const TEST_PUBLIC_KEY = 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAITESTKEYBODY test@ts-cloud'
+
+/**
+ * An in-memory stand-in for the DigitalOcean v2 API, wired in through the
+ * client's `fetchImpl`. Every action completes immediately and every droplet
+ * is `active` on creation, so the driver's waits return on the first poll.
+ */
+function fakeDigitalOceanApi(pageSize = 200) {
+  const state = {
+    droplets: [] as DigitalOceanDroplet[],
+    firewalls: [] as DigitalOceanFirewall[],
+    sshKeys: [] as DigitalOceanSshKey[],
+    reservedIps: [] as DigitalOceanReservedIp[],
+    volumes: [] as DigitalOceanVolume[],
+    requests: [] as Array<{ method: string; path: string; body?: any }>,
+  }
+  let nextId = 100
+
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status })
+  const list = <T>(url: URL, key: string, items: T[]) => {
+    const page = Number(url.searchParams.get('page') ?? '1')
+    const slice = items.slice((page - 1) * pageSize, page * pageSize)
+    const hasNext = page * pageSize < items.length
+    const next = new URL(url)
+    next.searchParams.set('page', String(page + 1))
+    return json({ [key]: slice, links: hasNext ? { pages: { next: next.toString() } } : {} })
+  }
+
+  const fetchImpl = async (input: string, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input)
+    const method = init?.method ?? 'GET'
+    const path = url.pathname.replace(/^\/v2/, '')
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined
+    state.requests.push({ method, path, body })
+
+    if (method === 'GET' && path === '/droplets') {
+      const tag = url.searchParams.get('tag_name')
+      return list(url, 'droplets', state.droplets.filter((d) => !tag || d.tags?.includes(tag)))
+    }
+    let match = /^\/droplets\/(\d+)\/actions$/.exec(path)
+    if (match && method === 'POST') {
+      const droplet = state.droplets.find((d) => d.id === Number(match![1]))
+      if (!droplet) return json({ id: 'not_found', message: 'not found' }, 404)
+      if (body.type === 'power_on') droplet.status = 'active'
+      return json({ action: { id: nextId++, status: 'in-progress', type: body.type } }, 201)
+    }
+    match = /^\/droplets\/(\d+)$/.exec(path)
+    if (match) {
+      const droplet = state.droplets.find((d) => d.id === Number(match![1]))
+      if (!droplet) return json({ id: 'not_found', message: 'The resource you were accessing could not be found.' }, 404)
+      if (method === 'DELETE') {
+        state.droplets = state.droplets.filter((d) => d !== droplet)
+        return new Response(null, { status: 204 })
+      }
+      return json({ droplet })
+    }
+    if (method === 'POST' && path === '/droplets') {
+      const id = nextId++
+      const droplet: DigitalOceanDroplet = {
+        id,
+        name: body.name,
+        status: 'active',
+        networks: {
+          v4: [
+            { ip_address: `203.0.113.${id % 250}`, type: 'public' },
+            { ip_address: `10.10.0.${id % 250}`, type: 'private' },
+          ],
+          v6: [{ ip_address: '2001:db8::1', type: 'public' }],
+        },
+        tags: body.tags,
+        volume_ids: body.volumes ?? [],
+      }
+      state.droplets.push(droplet)
+      for (const volumeId of body.volumes ?? []) state.volumes.find((v) => v.id === volumeId)?.droplet_ids.push(id)
+      return json({ droplet: { ...droplet, status: 'new' }, links: { actions: [{ id: nextId++ }] } }, 202)
+    }
+
+    if (method === 'POST' && path === '/tags') return json({ tag: { name: body.name } }, 201)
+    match = /^\/tags\/([^/]+)\/resources$/.exec(path)
+    if (match && method === 'POST') {
+      const tag = decodeURIComponent(match[1])
+      for (const resource of body.resources) {
+        const droplet = state.droplets.find((d) => String(d.id) === resource.resource_id)
+        if (droplet && !droplet.tags?.includes(tag)) droplet.tags = [...(droplet.tags ?? []), tag]
+      }
+      return new Response(null, { status: 204 })
+    }
+
+    if (method === 'GET' && path === '/firewalls') return list(url, 'firewalls', state.firewalls)
+    if (method === 'POST' && path === '/firewalls') {
+      const firewall: DigitalOceanFirewall = {
+        id: `fw-${nextId++}`,
+        name: body.name,
+        inbound_rules: body.inbound_rules,
+        outbound_rules: body.outbound_rules,
+        tags: body.tags,
+      }
+      state.firewalls.push(firewall)
+      return json({ firewall }, 202)
+    }
+    match = /^\/firewalls\/([\w-]+)$/.exec(path)
+    if (match) {
+      const firewall = state.firewalls.find((fw) => fw.id === match![1])
+      if (!firewall) return json({ id: 'not_found', message: 'not found' }, 404)
+      if (method === 'DELETE') {
+        state.firewalls = state.firewalls.filter((fw) => fw !== firewall)
+        return new Response(null, { status: 204 })
+      }
+      Object.assign(firewall, { inbound_rules: body.inbound_rules, outbound_rules: body.outbound_rules, tags: body.tags })
+      return json({ firewall })
+    }
+
+    if (method === 'GET' && path === '/account/keys') return list(url, 'ssh_keys', state.sshKeys)
+    if (method === 'POST' && path === '/account/keys') {
+      const key: DigitalOceanSshKey = { id: nextId++, name: body.name, fingerprint: 'aa:bb', public_key: body.public_key }
+      state.sshKeys.push(key)
+      return json({ ssh_key: key }, 201)
+    }
+
+    if (method === 'GET' && path === '/reserved_ips') return list(url, 'reserved_ips', state.reservedIps)
+    if (method === 'POST' && path === '/reserved_ips') {
+      const reserved: DigitalOceanReservedIp = {
+        ip: `198.51.100.${state.reservedIps.length + 1}`,
+        droplet: state.droplets.find((d) => d.id === body.droplet_id) ?? null,
+      }
+      state.reservedIps.push(reserved)
+      return json({ reserved_ip: reserved }, 202)
+    }
+    match = /^\/reserved_ips\/([\d.]+)(\/actions)?$/.exec(path)
+    if (match) {
+      const reserved = state.reservedIps.find((r) => r.ip === match![1])
+      if (!reserved) return json({ id: 'not_found', message: 'not found' }, 404)
+      if (method === 'DELETE') {
+        state.reservedIps = state.reservedIps.filter((r) => r !== reserved)
+        return new Response(null, { status: 204 })
+      }
+      reserved.droplet = state.droplets.find((d) => d.id === body.droplet_id) ?? null
+      return json({ action: { id: nextId++, status: 'in-progress', type: 'assign_ip' } }, 201)
+    }
+
+    if (method === 'GET' && path === '/volumes') {
+      const name = url.searchParams.get('name')
+      return list(url, 'volumes', state.volumes.filter((v) => !name || v.name === name))
+    }
+    if (method === 'POST' && path === '/volumes') {
+      const volume: DigitalOceanVolume = {
+        id: `vol-${nextId++}`,
+        name: body.name,
+        size_gigabytes: body.size_gigabytes,
+        filesystem_type: body.filesystem_type,
+        droplet_ids: [],
+        tags: body.tags,
+      }
+      state.volumes.push(volume)
+      return json({ volume }, 201)
+    }
+    match = /^\/volumes\/([\w-]+)\/actions$/.exec(path)
+    if (match) {
+      state.volumes.find((v) => v.id === match![1])?.droplet_ids.push(body.droplet_id)
+      return json({ action: { id: nextId++, status: 'in-progress', type: 'attach' } }, 202)
+    }
+
+    match = /^\/actions\/(\d+)$/.exec(path)
+    if (match) return json({ action: { id: Number(match[1]), status: 'completed' } })
+
+    return json({ id: 'not_found', message: `no fake route for ${method} ${path}` }, 404)
+  }
+
+  return { state, client: new DigitalOceanClient({ apiToken: 'test-token', fetchImpl }) }
+}
+
+async function mkdtempSafe(): Promise<string> {
+  const dir = `${process.cwd()}/.tmp-digitalocean-driver-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  await mkdir(dir, { recursive: true })
+  return dir
+}
+
+describe('createCloudDriver', () => {
+  it('returns DigitalOceanDriver when configured', () => {
+    const driver = createCloudDriver({ config: baseConfig })
+    expect(driver.name).toBe('digitalocean')
+    expect(driver.usesCloudFormation).toBe(false)
+  })
+
+  it('infers the provider from a DigitalOcean token', () => {
+    const { cloud: _cloud, ...config } = baseConfig
+    expect(createCloudDriver({ config }).name).toBe('digitalocean')
+  })
+})
+
+describe('DigitalOceanClient', () => {
+  it('follows links.pages.next across every page', async () => {
+    const { state, client } = fakeDigitalOceanApi(2)
+    for (let i = 0; i < 5; i++)
+      state.sshKeys.push({ id: i, name: `key-${i}`, fingerprint: `f${i}`, public_key: `ssh-ed25519 K${i}` })
+
+    const keys = await client.listSshKeys()
+    expect(keys.map((k) => k.id)).toEqual([0, 1, 2, 3, 4])
+    expect(state.requests.filter((r) => r.path === '/account/keys')).toHaveLength(3)
+  })
+
+  it('surfaces API errors with status and error id', async () => {
+    const { client } = fakeDigitalOceanApi()
+    const error = await client.getDroplet(404404).catch((err) => err)
+    expect(error).toBeInstanceOf(DigitalOceanApiError)
+    expect(error.status).toBe(404)
+    expect(error.code).toBe('not_found')
+  })
+})
+
+describe('DigitalOcean tags', () => {
+  it('round-trips the ts-cloud label vocabulary through flat tags', () => {
+    const tags = tsCloudTags('my-app', 'production', 'app')
+    expect(tags).toEqual(['ts-cloud', 'ts-cloud:project:my-app', 'ts-cloud:environment:production', 'ts-cloud:role:app'])
+    expect(tagsToLabels(tags)).toEqual({
+      'ts-cloud/managed-by': 'ts-cloud',
+      'ts-cloud/project': 'my-app',
+      'ts-cloud/environment': 'production',
+      'ts-cloud/role': 'app',
+    })
+    expect(matchesTsCloudTags(tags, 'my-app', 'production')).toBe(true)
+    expect(matchesTsCloudTags(tags, 'my-app', 'staging')).toBe(false)
+  })
+
+  it('maps size shorthands to droplet slugs and passes raw slugs through', () => {
+    expect(resolveDigitalOceanDropletSize('small')).toBe('s-1vcpu-2gb')
+    expect(resolveDigitalOceanDropletSize()).toBe('s-1vcpu-1gb')
+    expect(resolveDigitalOceanDropletSize('c-4')).toBe('c-4')
+  })
+})
+
+describe('buildDigitalOceanUserData', () => {
+  it('mounts the configured volume on cold and baked boots alike', () => {
+    const config: CloudConfig = {
+      ...baseConfig,
+      digitalocean: { ...baseConfig.digitalocean, volume: { sizeGb: 50, mountPath: '/mnt/data' } },
+    }
+    for (const bakedImage of [false, true]) {
+      const userData = buildDigitalOceanUserData(
+        { ...config, infrastructure: { compute: { ...config.infrastructure!.compute, bakedImage } } },
+        { environment: 'production' },
+      )
+      expect(userData.startsWith('#!')).toBe(true)
+      expect(userData).toContain('/dev/disk/by-id/scsi-0DO_Volume_my-app-production-data /mnt/data ext4')
+    }
+  })
+})
+
+describe('DigitalOceanDriver', () => {
+  const stackName = 'my-app-production'
+  let originalCwd: string
+  let tempCwd: string
+
+  beforeEach(async () => {
+    originalCwd = process.cwd()
+    tempCwd = await mkdtempSafe()
+    process.chdir(tempCwd)
+  })
+
+  afterEach(async () => {
+    process.chdir(originalCwd)
+    await rm(tempCwd, { recursive: true, force: true })
+  })
+
+  async function createDriver(client: DigitalOceanClient): Promise<DigitalOceanDriver> {
+    const path = `${tempCwd}/id_ed25519.pub`
+    await writeFile(path, `${TEST_PUBLIC_KEY}\n`)
+    return new DigitalOceanDriver({ client, apiToken: 'test-token', sshPublicKeyPath: path, waitForBoot: false })
+  }
+
+  it('provisions droplet, firewall, key, reserved IP and volume, and writes local state', async () => {
+    const { state, client } = fakeDigitalOceanApi()
+    const driver = await createDriver(client)
+    const config: CloudConfig = {
+      ...baseConfig,
+      digitalocean: { ...baseConfig.digitalocean, reservedIp: true, volume: { sizeGb: 20 } },
+    }
+
+    const outputs = await driver.provisionComputeInfrastructure!({ config, environment: 'production' })
+
+    expect(state.droplets).toHaveLength(1)
+    const droplet = state.droplets[0]
+    expect(droplet.name).toBe('my-app-production-app')
+    expect(droplet.tags).toEqual([...tsCloudTags('my-app', 'production', 'app'), 'ts-cloud:stack:my-app:production'])
+    const create = state.requests.find((r) => r.method === 'POST' && r.path === '/droplets')!
+    expect(create.body.size).toBe('s-1vcpu-2gb')
+    expect(create.body.region).toBe('nyc3')
+    expect(create.body.ssh_keys).toEqual([state.sshKeys[0].id])
+    expect(create.body.volumes).toEqual([state.volumes[0].id])
+
+    expect(state.firewalls).toHaveLength(1)
+    expect(state.firewalls[0].name).toBe('my-app-production-app-fw')
+    expect(state.firewalls[0].tags).toEqual(['ts-cloud:stack:my-app:production'])
+    expect(state.firewalls[0].inbound_rules.map((r) => r.ports)).toEqual(['22', '80', '443', '3000'])
+
+    expect(state.volumes[0].name).toBe('my-app-production-data')
+    expect(state.reservedIps).toHaveLength(1)
+    expect(outputs.appPublicIp).toBe(state.reservedIps[0].ip)
+    expect(outputs.appInstanceId).toBe(String(droplet.id))
+
+    const saved = await readDigitalOceanState(stackName)
+    expect(saved?.dropletId).toBe(droplet.id)
+    expect(saved?.reservedIp).toBe(state.reservedIps[0].ip)
+    expect(saved?.volumeId).toBe(state.volumes[0].id)
+  })
+
+  it('is idempotent: a second provision reuses every resource', async () => {
+    const { state, client } = fakeDigitalOceanApi()
+    const driver = await createDriver(client)
+    const config: CloudConfig = { ...baseConfig, digitalocean: { ...baseConfig.digitalocean, reservedIp: true } }
+
+    await driver.provisionComputeInfrastructure!({ config, environment: 'production' })
+    // Lose the local state, as a fresh CI checkout would: tags alone must find the droplet.
+    await rm(`${tempCwd}/storage`, { recursive: true, force: true })
+    await driver.provisionComputeInfrastructure!({ config, environment: 'production' })
+
+    expect(state.droplets).toHaveLength(1)
+    expect(state.firewalls).toHaveLength(1)
+    expect(state.sshKeys).toHaveLength(1)
+    expect(state.reservedIps).toHaveLength(1)
+    expect(state.requests.filter((r) => r.method === 'PUT' && r.path.startsWith('/firewalls/'))).toHaveLength(1)
+  })
+
+  it('keeps each environment behind its own firewall', async () => {
+    const { state, client } = fakeDigitalOceanApi()
+    const driver = await createDriver(client)
+    const staging: CloudConfig = {
+      ...baseConfig,
+      infrastructure: { compute: { ...baseConfig.infrastructure!.compute, firewall: { allowedPorts: [9000] } } },
+    }
+
+    await driver.provisionComputeInfrastructure!({ config: baseConfig, environment: 'production' })
+    await driver.provisionComputeInfrastructure!({ config: staging, environment: 'staging' })
+
+    const stagingFirewall = state.firewalls.find((fw) => fw.name === 'my-app-staging-app-fw')!
+    const production = state.droplets.find((d) => d.name === 'my-app-production-app')!
+    expect(stagingFirewall.inbound_rules.map((r) => r.ports)).toContain('9000')
+    expect(stagingFirewall.tags).toEqual([tsCloudStackTag('my-app', 'staging')])
+    expect(production.tags?.some((tag) => stagingFirewall.tags?.includes(tag))).toBe(false)
+  })
+
+  it('powers on a stopped droplet and brings it under the stack firewall instead of replacing it', async () => {
+    const { state, client } = fakeDigitalOceanApi()
+    const driver = await createDriver(client)
+    state.droplets.push({
+      id: 42,
+      name: 'my-app-production-app',
+      status: 'off',
+      networks: { v4: [{ ip_address: '203.0.113.42', type: 'public' }] },
+      tags: tsCloudTags('my-app', 'production', 'app'),
+    })
+
+    const outputs = await driver.provisionComputeInfrastructure!({ config: baseConfig, environment: 'production' })
+
+    expect(state.droplets).toHaveLength(1)
+    expect(outputs.appInstanceId).toBe('42')
+    expect(state.droplets[0].status).toBe('active')
+    expect(state.droplets[0].tags).toContain(tsCloudStackTag('my-app', 'production'))
+    expect(state.requests.some((r) => r.path === '/droplets/42/actions' && r.body.type === 'power_on')).toBe(true)
+  })
+
+  it('rejects load-balanced fleets instead of deploying a single droplet', async () => {
+    const { state, client } = fakeDigitalOceanApi()
+    const driver = await createDriver(client)
+    const config: CloudConfig = {
+      ...baseConfig,
+      infrastructure: { compute: { ...baseConfig.infrastructure!.compute, appServers: 2 } },
+    }
+
+    await expect(driver.provisionComputeInfrastructure!({ config, environment: 'production' })).rejects.toThrow(
+      /not supported on DigitalOcean yet/,
+    )
+    expect(state.droplets).toHaveLength(0)
+  })
+
+  it('finds targets by state pin first, then by tags', async () => {
+    const { state, client } = fakeDigitalOceanApi()
+    const driver = await createDriver(client)
+    await driver.provisionComputeInfrastructure!({ config: baseConfig, environment: 'production' })
+    state.droplets.push({
+      ...state.droplets[0],
+      id: 999,
+      name: 'other-production-app',
+      tags: tsCloudTags('other', 'production', 'app'),
+    })
+
+    const targets = await driver.findComputeTargets({ slug: 'my-app', environment: 'production', stackName })
+    expect(targets).toHaveLength(1)
+    expect(targets[0]).toMatchObject({ name: 'my-app-production-app', privateIp: expect.stringMatching(/^10\./) })
+
+    await rm(`${tempCwd}/storage`, { recursive: true, force: true })
+    const byTags = await driver.findComputeTargets({ slug: 'my-app', environment: 'production', stackName })
+    expect(byTags.map((t) => t.name)).toEqual(['my-app-production-app'])
+  })
+
+  it('destroys droplet, firewall and reserved IP but keeps the volume', async () => {
+    const { state, client } = fakeDigitalOceanApi()
+    const driver = await createDriver(client)
+    const config: CloudConfig = {
+      ...baseConfig,
+      digitalocean: { ...baseConfig.digitalocean, reservedIp: true, volume: { sizeGb: 20 } },
+    }
+    await driver.provisionComputeInfrastructure!({ config, environment: 'production' })
+
+    const { destroyed } = await driver.destroyCompute!({ config, environment: 'production' })
+
+    expect(destroyed).toHaveLength(3)
+    expect(state.droplets).toHaveLength(0)
+    expect(state.firewalls).toHaveLength(0)
+    expect(state.reservedIps).toHaveLength(0)
+    expect(state.volumes).toHaveLength(1)
+    const saved = await readDigitalOceanState(stackName)
+    expect(saved?.dropletId).toBeUndefined()
+    expect(saved?.volumeId).toBe(state.volumes[0].id)
+  })
+
+  it('reports every droplet with its decoded labels as reachable', async () => {
+    const { client } = fakeDigitalOceanApi()
+    const driver = await createDriver(client)
+    await driver.provisionComputeInfrastructure!({ config: baseConfig, environment: 'production' })
+
+    const reachable = await driver.listReachableResources!()
+    expect(reachable).toEqual([
+      {
+        name: 'my-app-production-app',
+        labels: tagsToLabels([...tsCloudTags('my-app', 'production', 'app'), tsCloudStackTag('my-app', 'production')]),
+      },
+    ])
+  })
+})
@@ -1,6 +1,7 @@
 import type { CloudConfig, CloudProviderContract } from '@ts-cloud/core'
 import { describe, expect, it } from 'bun:test'
 import { buildAwsUserData } from '../../src/drivers/aws/provision'
+import { buildDigitalOceanUserData } from '../../src/drivers/digitalocean/provision'
 import { generateUbuntuAppCloudInit } from '../../src/drivers/hetzner/cloud-init'
 
 type ResilienceRenderer = (config: CloudConfig) => string
@@ -12,6 +13,7 @@ const renderers = {
       runtime: config.infrastructure?.compute?.runtime,
       swapGb: config.infrastructure?.compute?.swapGb,
     }),
+  digitalocean: (config) => buildDigitalOceanUserData(config),
 } satisfies CloudProviderContract<ResilienceRenderer>
 
 describe('compute resilience provider contract', () => {